@@ -0,0 +1,11 @@
+-- Per-campaign move sets (lib/moveSets.ts): which moves a campaign rolls
+-- against, which stats each move may roll, and where the outcome bands fall.
+--
+-- Campaign.moveSetId is read inside a decision — computeMechanics judges
+-- every total against the chosen set's thresholds — so docs/MIGRATIONS.md's
+-- backfill rule applies. The column default IS the backfill here, and
+-- honestly so: every existing campaign rolled BASIC_MOVES on the classic
+-- 10+/7-9 bands, which is exactly what "core" means. There is no
+-- "predates the column" state to collapse into a neutral one, because the
+-- pre-column behaviour and the default are the same set.
+ALTER TABLE "Campaign" ADD COLUMN IF NOT EXISTS "moveSetId" TEXT NOT NULL DEFAULT 'core';
@@ -0,0 +1,17 @@
+-- Seeded, replayable dice (lib/game/rng.ts, lib/game/rngStream.ts).
+--
+-- WorldMeta.rngSeed is read inside a decision — it IS every die a scene
+-- rolls — so docs/MIGRATIONS.md's backfill rule applies. random() is
+-- volatile, so Postgres evaluates the default once per existing row when
+-- the column is added: every campaign gets its own seed here, not one
+-- shared constant. New rows get theirs from the same default.
+ALTER TABLE "WorldMeta" ADD COLUMN IF NOT EXISTS "rngSeed" INTEGER NOT NULL DEFAULT (floor(random() * 2147483647))::integer;
+ALTER TABLE "WorldMeta" ADD COLUMN IF NOT EXISTS "rngCursor" INTEGER NOT NULL DEFAULT 0;
+
+-- Receipts of where each roll drew from. Deliberately NOT backfilled: a
+-- pre-stream roll came from Math.random and has no position, and null is
+-- the honest record of that.
+ALTER TABLE "DiceRoll" ADD COLUMN IF NOT EXISTS "rngSeed" INTEGER;
+ALTER TABLE "DiceRoll" ADD COLUMN IF NOT EXISTS "rngCursor" INTEGER;
+ALTER TABLE "WorldEvent" ADD COLUMN IF NOT EXISTS "rngSeed" INTEGER;
+ALTER TABLE "WorldEvent" ADD COLUMN IF NOT EXISTS "rngCursor" INTEGER;
@@ -0,0 +1,20 @@
+-- Campaign forking (lib/export/campaignFork.ts).
+--
+-- Lineage columns. Not backfilled: no campaign before this was a fork, and
+-- null is exactly that.
+ALTER TABLE "Campaign" ADD COLUMN IF NOT EXISTS "forkedFromId" TEXT;
+ALTER TABLE "Campaign" ADD COLUMN IF NOT EXISTS "forkPoint" TEXT;
+ALTER TABLE "Campaign" ADD CONSTRAINT "Campaign_forkedFromId_fkey"
+  FOREIGN KEY ("forkedFromId") REFERENCES "Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- The checkpoint a fork at a scene rewinds to.
+ALTER TABLE "Scene" ADD COLUMN IF NOT EXISTS "resolvedAt" TIMESTAMP(3);
+ALTER TABLE "Scene" ADD COLUMN IF NOT EXISTS "clockAtResolution" JSONB;
+
+-- resolvedAt is read inside a decision — it IS the fork cutoff — so
+-- docs/MIGRATIONS.md's backfill rule applies. updatedAt is the best record
+-- there is of when an already-resolved scene ended (normally the RESOLVED
+-- write itself). clockAtResolution is deliberately NOT backfilled: the
+-- clocks at that moment were never recorded, and inventing them would make
+-- an approximate fork claim to be exact.
+UPDATE "Scene" SET "resolvedAt" = "updatedAt" WHERE "status" = 'RESOLVED' AND "resolvedAt" IS NULL;
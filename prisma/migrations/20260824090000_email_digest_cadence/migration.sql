@@ -0,0 +1,24 @@
+-- Scheduled email digest (lib/notifications/emailDigest.ts).
+--
+-- One cadence replaces dailyDigestEnabled/weeklyDigestEnabled, which had no
+-- reader. Backfilled from them so a preference someone actually set
+-- survives: daily wins where both were on (it's the more frequent choice,
+-- and the one that had to be switched on deliberately), weekly next, and
+-- OFF only where both were off.
+CREATE TYPE "DigestCadence" AS ENUM ('OFF', 'DAILY', 'WEEKLY');
+
+ALTER TABLE "user_notification_settings" ADD COLUMN "digestCadence" "DigestCadence" NOT NULL DEFAULT 'WEEKLY';
+ALTER TABLE "user_notification_settings" ADD COLUMN "lastDigestAt" TIMESTAMP(3);
+ALTER TABLE "user_notification_settings" ADD COLUMN "digestUnsubscribeToken" TEXT;
+
+UPDATE "user_notification_settings" SET "digestCadence" = CASE
+  WHEN "dailyDigestEnabled" THEN 'DAILY'::"DigestCadence"
+  WHEN "weeklyDigestEnabled" THEN 'WEEKLY'::"DigestCadence"
+  ELSE 'OFF'::"DigestCadence"
+END;
+
+ALTER TABLE "user_notification_settings" DROP COLUMN IF EXISTS "dailyDigestEnabled";
+ALTER TABLE "user_notification_settings" DROP COLUMN IF EXISTS "weeklyDigestEnabled";
+
+CREATE INDEX "user_notification_settings_digestUnsubscribeToken_idx" ON "user_notification_settings"("digestUnsubscribeToken");
+CREATE INDEX "user_notification_settings_digestCadence_lastDigestAt_idx" ON "user_notification_settings"("digestCadence", "lastDigestAt");
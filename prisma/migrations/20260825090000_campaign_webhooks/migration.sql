@@ -0,0 +1,48 @@
+-- Outbound campaign webhooks (lib/webhooks).
+--
+-- CampaignWebhook is configuration and goes with its campaign. A delivery
+-- goes with its webhook: without the endpoint's URL and secret there is
+-- nothing left to retry, and the history of a removed endpoint is noise.
+CREATE TYPE "WebhookEventType" AS ENUM ('SCENE_RESOLVED', 'TURN_REMINDER', 'WORLD_DIGEST', 'WAR_DECLARED', 'MILESTONE');
+CREATE TYPE "WebhookFormat" AS ENUM ('JSON', 'DISCORD', 'SLACK');
+CREATE TYPE "WebhookDeliveryStatus" AS ENUM ('PENDING', 'RUNNING', 'DELIVERED', 'FAILED');
+
+CREATE TABLE "CampaignWebhook" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "format" "WebhookFormat" NOT NULL DEFAULT 'JSON',
+    "secret" TEXT NOT NULL,
+    "events" "WebhookEventType"[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CampaignWebhook_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "WebhookDelivery" (
+    "id" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "eventType" "WebhookEventType" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "WebhookDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "responseStatus" INTEGER,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "CampaignWebhook_campaignId_isActive_idx" ON "CampaignWebhook"("campaignId", "isActive");
+CREATE INDEX "WebhookDelivery_webhookId_createdAt_idx" ON "WebhookDelivery"("webhookId", "createdAt");
+CREATE INDEX "WebhookDelivery_status_nextAttemptAt_idx" ON "WebhookDelivery"("status", "nextAttemptAt");
+
+ALTER TABLE "CampaignWebhook" ADD CONSTRAINT "CampaignWebhook_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_webhookId_fkey" FOREIGN KEY ("webhookId") REFERENCES "CampaignWebhook"("id") ON DELETE CASCADE ON UPDATE CASCADE;
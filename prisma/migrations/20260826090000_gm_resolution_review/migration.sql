@@ -0,0 +1,37 @@
+-- GM co-pilot mode (lib/game/resolutionReview.ts): an opt-in campaign flag,
+-- the held resolution a review works on, and a PENDING result plus review
+-- link on StateMutation so each proposed change is decided on the row that
+-- already records it.
+ALTER TABLE "Campaign" ADD COLUMN "gmReviewEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TYPE "ResolutionReviewStatus" AS ENUM ('PENDING', 'PUBLISHED', 'DISCARDED');
+
+CREATE TABLE "ResolutionReview" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "sceneId" TEXT NOT NULL,
+    "status" "ResolutionReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "isSceneEnding" BOOLEAN NOT NULL DEFAULT false,
+    "aiRequest" JSONB NOT NULL,
+    "aiResponse" JSONB NOT NULL,
+    "editedSceneText" TEXT,
+    "rngSeed" INTEGER,
+    "rngCursor" INTEGER,
+    "rerollCount" INTEGER NOT NULL DEFAULT 0,
+    "reviewedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "publishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ResolutionReview_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "ResolutionReview_sceneId_status_idx" ON "ResolutionReview"("sceneId", "status");
+CREATE INDEX "ResolutionReview_campaignId_status_idx" ON "ResolutionReview"("campaignId", "status");
+
+-- ADD VALUE can't run inside a transaction block on older Postgres, and
+-- nothing below uses the new value, so it stands on its own.
+ALTER TYPE "StateMutationResult" ADD VALUE 'PENDING';
+
+ALTER TABLE "state_mutations" ADD COLUMN "reviewId" TEXT;
+CREATE INDEX "state_mutations_reviewId_idx" ON "state_mutations"("reviewId");
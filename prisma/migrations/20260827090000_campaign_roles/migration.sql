@@ -0,0 +1,11 @@
+-- Fine-grained campaign roles (lib/api/campaignPermissions.ts): co-host,
+-- spectator and time-boxed guest, the guest's membership expiry, and the
+-- role an invite link grants.
+ALTER TYPE "UserRole" ADD VALUE 'CO_HOST';
+ALTER TYPE "UserRole" ADD VALUE 'SPECTATOR';
+ALTER TYPE "UserRole" ADD VALUE 'GUEST';
+
+ALTER TABLE "CampaignMembership" ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+ALTER TABLE "CampaignInvite" ADD COLUMN "role" "UserRole" NOT NULL DEFAULT 'PLAYER';
+ALTER TABLE "CampaignInvite" ADD COLUMN "guestHours" INTEGER;
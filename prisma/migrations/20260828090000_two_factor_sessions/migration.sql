@@ -0,0 +1,22 @@
+-- Optional TOTP two-factor (lib/auth/totp.ts, lib/auth/twoFactor.ts) and
+-- per-device sessions (lib/auth/sessions.ts). Purely additive: existing
+-- users have no second factor, and existing tokens name no session row.
+ALTER TABLE "User" ADD COLUMN "totpSecret" TEXT;
+ALTER TABLE "User" ADD COLUMN "totpEnabledAt" TIMESTAMP(3);
+ALTER TABLE "User" ADD COLUMN "totpLastUsedStep" INTEGER;
+ALTER TABLE "User" ADD COLUMN "totpRecoveryCodes" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+CREATE TABLE "UserSession" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "ip" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserSession_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "UserSession_userId_idx" ON "UserSession"("userId");
+
+ALTER TABLE "UserSession" ADD CONSTRAINT "UserSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Self-service account deletion with a grace period (lib/account/deletion.ts).
+-- Purely additive: every existing account reads as "no deletion asked for".
+ALTER TABLE "User" ADD COLUMN "deletionScheduledFor" TIMESTAMP(3),
+ADD COLUMN "deletionPlan" JSONB,
+ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+CREATE INDEX "User_deletionScheduledFor_idx" ON "User"("deletionScheduledFor");
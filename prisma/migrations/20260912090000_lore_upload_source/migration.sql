@@ -0,0 +1,3 @@
+-- Uploaded lore documents (Markdown, PDF, DOCX, EPUB, zipped vaults): the
+-- file lives in blob storage and the job's sourceUrl points at it.
+ALTER TYPE "LoreSourceType" ADD VALUE 'UPLOAD';
@@ -0,0 +1,28 @@
+-- Resumable, incremental wiki imports (lib/lore/loreImportService.ts): a
+-- crawl checkpoint on the job, the page revisions a sync diffs against,
+-- and the page id each wiki chunk came from. Purely additive — a wiki
+-- source imported before this has no baseline, so its first sync runs as
+-- a full crawl that keeps every unchanged chunk's embedding.
+ALTER TABLE "LoreImportJob" ADD COLUMN "crawlPlan" JSONB,
+ADD COLUMN "crawlCursor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastSyncedAt" TIMESTAMP(3),
+ADD COLUMN "lastSyncSummary" JSONB;
+
+ALTER TABLE "lore_entries" ADD COLUMN "wikiPageId" INTEGER;
+
+CREATE INDEX "lore_entries_jobId_wikiPageId_idx" ON "lore_entries"("jobId", "wikiPageId");
+
+CREATE TABLE "lore_wiki_pages" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "pageId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "revisionId" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lore_wiki_pages_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "lore_wiki_pages_jobId_pageId_key" ON "lore_wiki_pages"("jobId", "pageId");
+
+ALTER TABLE "lore_wiki_pages" ADD CONSTRAINT "lore_wiki_pages_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "LoreImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
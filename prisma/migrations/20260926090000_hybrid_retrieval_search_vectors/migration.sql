@@ -0,0 +1,25 @@
+-- Full-text channel for hybrid retrieval (lib/ai/hybridRetrieval.ts): a
+-- generated tsvector on each searchable table, so exact proper-noun hits
+-- no longer depend on the embedding noticing them. Generated columns fill
+-- themselves for every existing row and every future write, so there is
+-- no backfill and no write path to remember.
+--
+-- The 'simple' configuration on purpose: English stemming would fold
+-- invented names into whatever real word they resemble, and its stopword
+-- list is applied to the query instead (buildKeywordQuery). Titles are
+-- weight A so a row NAMED for the term outranks one that mentions it.
+ALTER TABLE "campaign_memories" ADD COLUMN "searchVector" tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("summary", '')), 'B')
+  ) STORED;
+
+ALTER TABLE "lore_entries" ADD COLUMN "searchVector" tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("content", '')), 'B')
+  ) STORED;
+
+CREATE INDEX "campaign_memories_searchVector_idx" ON "campaign_memories" USING GIN ("searchVector");
+
+CREATE INDEX "lore_entries_searchVector_idx" ON "lore_entries" USING GIN ("searchVector");
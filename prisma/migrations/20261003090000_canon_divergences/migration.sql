@@ -0,0 +1,25 @@
+-- Admin rulings on canon conflicts (lib/game/integrity/checks/canonConflicts.ts):
+-- lore asserting something about an NPC or location that the simulation
+-- disagrees with, marked either as an intended divergence or as fixed.
+CREATE TYPE "CanonDivergenceResolution" AS ENUM ('INTENDED', 'FIXED');
+
+CREATE TABLE "canon_divergences" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "checkKey" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "canonValue" TEXT NOT NULL,
+    "resolution" "CanonDivergenceResolution" NOT NULL,
+    "note" TEXT,
+    "loreEntryId" TEXT,
+    "excerpt" TEXT,
+    "resolvedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "canon_divergences_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "canon_divergences_campaignId_checkKey_entityId_canonValue_key" ON "canon_divergences"("campaignId", "checkKey", "entityId", "canonValue");
+
+ALTER TABLE "canon_divergences" ADD CONSTRAINT "canon_divergences_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
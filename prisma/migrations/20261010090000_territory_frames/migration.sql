@@ -0,0 +1,16 @@
+-- World atlas border history (lib/game/atlas/territoryFrames.ts): each
+-- location's owner and contested flag, recorded on the world turns the
+-- borders changed.
+CREATE TABLE "TerritoryFrame" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "turnNumber" INTEGER NOT NULL,
+    "owners" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TerritoryFrame_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "TerritoryFrame_campaignId_turnNumber_key" ON "TerritoryFrame"("campaignId", "turnNumber");
+
+ALTER TABLE "TerritoryFrame" ADD CONSTRAINT "TerritoryFrame_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- Tactical mode (lib/game/tactical/): a per-scene opt-in, and the player
+-- character a map token stands for.
+ALTER TABLE "Scene" ADD COLUMN "tacticalMode" BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE "tokens" ADD COLUMN "characterId" TEXT;
+
+CREATE INDEX "tokens_characterId_idx" ON "tokens"("characterId");
+
+ALTER TABLE "tokens" ADD CONSTRAINT "tokens_characterId_fkey" FOREIGN KEY ("characterId") REFERENCES "Character"("id") ON DELETE CASCADE ON UPDATE CASCADE;
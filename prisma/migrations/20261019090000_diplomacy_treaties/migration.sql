@@ -0,0 +1,45 @@
+-- Diplomacy (tick/diplomacyTick.ts): treaties between factions.
+CREATE TYPE "TreatyType" AS ENUM ('CEASEFIRE', 'TRIBUTE', 'NON_AGGRESSION', 'VASSALAGE');
+CREATE TYPE "TreatyStatus" AS ENUM ('PROPOSED', 'ACTIVE', 'REJECTED', 'BROKEN', 'EXPIRED');
+
+CREATE TABLE "Treaty" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "type" "TreatyType" NOT NULL,
+    "status" "TreatyStatus" NOT NULL DEFAULT 'PROPOSED',
+    "proposerFactionId" TEXT NOT NULL,
+    "recipientFactionId" TEXT NOT NULL,
+    "warId" TEXT,
+    "tributePerTurn" INTEGER NOT NULL DEFAULT 0,
+    "proposedTurn" INTEGER NOT NULL,
+    "signedTurn" INTEGER,
+    "expiresTurn" INTEGER,
+    "endedTurn" INTEGER,
+    "brokenByFactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Treaty_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "Treaty_distinct_parties" CHECK ("proposerFactionId" <> "recipientFactionId"),
+    CONSTRAINT "Treaty_tributePerTurn_nonnegative" CHECK ("tributePerTurn" >= 0)
+);
+
+CREATE INDEX "Treaty_campaignId_status_idx" ON "Treaty"("campaignId", "status");
+CREATE INDEX "Treaty_proposerFactionId_idx" ON "Treaty"("proposerFactionId");
+CREATE INDEX "Treaty_recipientFactionId_idx" ON "Treaty"("recipientFactionId");
+CREATE INDEX "Treaty_warId_idx" ON "Treaty"("warId");
+
+-- At most one open (offered or in force) treaty per pair of factions,
+-- whichever of them proposed it. Hand-written for the same reason as
+-- FactionDebt's one-OUTSTANDING-per-debtor index: Prisma's @@unique has no
+-- WHERE clause. diplomacyTick.ts's own open-pair check is the primary gate;
+-- this is the backstop.
+CREATE UNIQUE INDEX "Treaty_one_open_per_pair" ON "Treaty"(
+    LEAST("proposerFactionId", "recipientFactionId"),
+    GREATEST("proposerFactionId", "recipientFactionId")
+) WHERE "status" IN ('PROPOSED', 'ACTIVE');
+
+ALTER TABLE "Treaty" ADD CONSTRAINT "Treaty_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Treaty" ADD CONSTRAINT "Treaty_proposerFactionId_fkey" FOREIGN KEY ("proposerFactionId") REFERENCES "Faction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Treaty" ADD CONSTRAINT "Treaty_recipientFactionId_fkey" FOREIGN KEY ("recipientFactionId") REFERENCES "Faction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Treaty" ADD CONSTRAINT "Treaty_warId_fkey" FOREIGN KEY ("warId") REFERENCES "War"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- Faction orders (lib/game/factionOrders/): what a PC leader tells their
+-- faction to do, carried out by the world tick.
+CREATE TYPE "FactionOrderType" AS ENUM ('MUSTER', 'FORTIFY', 'OPEN_SUPPLY_ROUTE', 'SEND_ENVOY', 'CALL_IN_DEBT', 'JOIN_WAR');
+CREATE TYPE "FactionOrderStatus" AS ENUM ('QUEUED', 'CARRIED_OUT', 'FAILED');
+
+CREATE TABLE "FactionOrder" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "factionId" TEXT NOT NULL,
+    "issuedByCharacterId" TEXT,
+    "type" "FactionOrderType" NOT NULL,
+    "status" "FactionOrderStatus" NOT NULL DEFAULT 'QUEUED',
+    "turnNumber" INTEGER NOT NULL,
+    "amount" INTEGER NOT NULL DEFAULT 0,
+    "locationId" TEXT,
+    "toLocationId" TEXT,
+    "targetFactionId" TEXT,
+    "treatyType" "TreatyType",
+    "debtId" TEXT,
+    "warId" TEXT,
+    "side" "WarSide",
+    "outcome" TEXT,
+    "resolvedTurn" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FactionOrder_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "FactionOrder_amount_nonnegative" CHECK ("amount" >= 0)
+);
+
+CREATE UNIQUE INDEX "FactionOrder_factionId_turnNumber_key" ON "FactionOrder"("factionId", "turnNumber");
+CREATE INDEX "FactionOrder_campaignId_status_turnNumber_idx" ON "FactionOrder"("campaignId", "status", "turnNumber");
+
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_factionId_fkey" FOREIGN KEY ("factionId") REFERENCES "Faction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_issuedByCharacterId_fkey" FOREIGN KEY ("issuedByCharacterId") REFERENCES "Character"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_toLocationId_fkey" FOREIGN KEY ("toLocationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_targetFactionId_fkey" FOREIGN KEY ("targetFactionId") REFERENCES "Faction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_debtId_fkey" FOREIGN KEY ("debtId") REFERENCES "FactionDebt"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_warId_fkey" FOREIGN KEY ("warId") REFERENCES "War"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- Hazards (tick/hazardTick.ts): plague, famine, wildfire and flood spreading
+-- over the location graph, and the faction order that sends help against one.
+CREATE TYPE "HazardType" AS ENUM ('PLAGUE', 'FAMINE', 'WILDFIRE', 'FLOOD');
+CREATE TYPE "HazardStatus" AS ENUM ('ACTIVE', 'CONTAINED', 'BURNED_OUT');
+
+CREATE TABLE "Hazard" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "type" "HazardType" NOT NULL,
+    "status" "HazardStatus" NOT NULL DEFAULT 'ACTIVE',
+    "severity" INTEGER NOT NULL,
+    "containment" INTEGER NOT NULL DEFAULT 0,
+    "sourceLocationId" TEXT,
+    "startedTurn" INTEGER NOT NULL,
+    "endedTurn" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Hazard_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "Hazard_severity_range" CHECK ("severity" >= 0 AND "severity" <= 5),
+    CONSTRAINT "Hazard_containment_range" CHECK ("containment" >= 0 AND "containment" <= 100)
+);
+
+CREATE INDEX "Hazard_campaignId_status_idx" ON "Hazard"("campaignId", "status");
+CREATE INDEX "Hazard_locationId_idx" ON "Hazard"("locationId");
+-- One live hazard of each kind per place: a second outbreak or a spread into
+-- a place already suffering it is the same crisis, not a new one. Partial,
+-- so it's hand-written like FactionDebt_debtorFactionId_outstanding_key.
+CREATE UNIQUE INDEX "Hazard_locationId_type_active_key" ON "Hazard" ("locationId", "type") WHERE status = 'ACTIVE';
+
+ALTER TABLE "Hazard" ADD CONSTRAINT "Hazard_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Hazard" ADD CONSTRAINT "Hazard_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "Location"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "Hazard" ADD CONSTRAINT "Hazard_sourceLocationId_fkey" FOREIGN KEY ("sourceLocationId") REFERENCES "Location"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TYPE "FactionOrderType" ADD VALUE 'CONTAIN_HAZARD';
+ALTER TABLE "FactionOrder" ADD COLUMN "hazardId" TEXT;
+ALTER TABLE "FactionOrder" ADD CONSTRAINT "FactionOrder_hazardId_fkey" FOREIGN KEY ("hazardId") REFERENCES "Hazard"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- Point-in-time world state (lib/game/worldHistory/): every faction's,
+-- location's and NPC's tracked fields, recorded every few world turns so
+-- past turns can be rebuilt from the nearest snapshot plus the event log.
+CREATE TABLE "WorldSnapshot" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "turnNumber" INTEGER NOT NULL,
+    "factions" JSONB NOT NULL,
+    "locations" JSONB NOT NULL,
+    "npcs" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorldSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "WorldSnapshot_campaignId_turnNumber_key" ON "WorldSnapshot"("campaignId", "turnNumber");
+
+ALTER TABLE "WorldSnapshot" ADD CONSTRAINT "WorldSnapshot_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -766,6 +766,7 @@ export const DYNAMIC_WRITES: Record<string, string> = {}
  * this repo.
  */
 export const OPAQUE_SHADOW: readonly string[] = [
+  'Campaign.forkedFromId',
   'CampaignArchetype.description',
   'CampaignArchetype.name',
   'CampaignArchetype.startingTie',
@@ -777,17 +778,16 @@ export const OPAQUE_SHADOW: readonly string[] = [
   'Faction.beliefVector',
   'LoreCitation.sceneId',
   'LoreCitation.similarity',
-  'LoreImportJob.alertedStuckAt',
+  'Move.baseMoveKey',
+  'Move.description',
+  'Move.name',
+  'Move.outcomes',
+  'Move.trigger',
   'NPC.currentPlan',
   'NPC.disposition',
   'Quest.givenByFactionId',
   'Quest.givenByNpcId',
-  'Quest.resolvedAt',
   'ResolutionJob.alertedStuckAt',
-  'TimelineEvent.gmNotes',
-  'User.name',
-  'User.orientationSeenAt',
-  'User.themePreference',
   'UserNotificationSettings.quietHoursEnd',
   'UserNotificationSettings.quietHoursStart',
   'UserNotificationSettings.timezone',
@@ -795,6 +795,7 @@ export const OPAQUE_SHADOW: readonly string[] = [
   'WorldEvent.originLocationId',
   'WorldEvent.wakeSourceType',
   'WorldMeta.chronicleNarration',
+  'WorldMeta.currentLocation',
 ]
 
 /** A column's shadow status, for Gate 3. */
@@ -0,0 +1,48 @@
+// scripts/eval-retrieval.ts
+// Offline retrieval evaluation: scores vector-only, keyword-only and
+// hybrid ranking over the labelled query set and prints recall@k and MRR
+// for each. No database, no API key — all the logic lives in
+// src/lib/ai/retrievalEval.ts (unit-tested); this is just the CLI.
+//
+//   npx tsx scripts/eval-retrieval.ts            # committed cases, k = 5
+//   npx tsx scripts/eval-retrieval.ts --k 3 --verbose   # plus per-case scores
+//   npx tsx scripts/eval-retrieval.ts --cases my-campaign.json
+//
+// --cases takes a JSON array of RetrievalEvalCase, for labelled sets
+// recorded from a real campaign that shouldn't live in the repo.
+
+import { readFileSync } from 'fs'
+import { evaluateRetrieval, formatEvalReport, type RetrievalEvalCase } from '../src/lib/ai/retrievalEval'
+import { RETRIEVAL_EVAL_CASES } from '../src/lib/ai/retrievalEvalCases'
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+function main() {
+  const k = Number(argValue('--k') ?? 5)
+  if (!Number.isInteger(k) || k < 1) {
+    console.error('--k must be a positive integer')
+    process.exit(1)
+  }
+
+  const casesPath = argValue('--cases')
+  const cases: RetrievalEvalCase[] = casesPath
+    ? JSON.parse(readFileSync(casesPath, 'utf-8'))
+    : RETRIEVAL_EVAL_CASES
+
+  const reports = evaluateRetrieval(cases, k)
+  console.log(formatEvalReport(reports, cases.length))
+
+  if (process.argv.includes('--verbose')) {
+    for (const report of reports) {
+      console.log(`\n${report.strategy}`)
+      for (const c of report.perCase) {
+        console.log(`  ${c.id.padEnd(28)} recall ${c.recall.toFixed(2)}  RR ${c.reciprocalRank.toFixed(2)}`)
+      }
+    }
+  }
+}
+
+main()
@@ -0,0 +1,48 @@
+// scripts/mock-idp.ts
+// Local OpenID Connect provider for trying identity-provider sign-in on a
+// dev server. Approves every sign-in at once as the person below. The
+// logic lives in src/lib/auth/localIdp.ts; this is the CLI wrapper.
+//
+//   MOCK_IDP_EMAIL=you@example.com npx tsx scripts/mock-idp.ts [port]
+//
+// Then start the app with the environment this prints, and a "Continue
+// with Mock IdP" button appears on the login page. MOCK_IDP_UNVERIFIED=1
+// reports the email as unverified, to see that refusal.
+
+import { startLocalIdp } from '../src/lib/auth/localIdp'
+
+async function main(): Promise<void> {
+  const port = Number(process.argv[2] ?? 9400)
+  const email = process.env.MOCK_IDP_EMAIL ?? 'player@example.com'
+  const clientId = 'mythos-dev'
+  const clientSecret = 'mythos-dev-secret'
+
+  const idp = await startLocalIdp({
+    clientId,
+    clientSecret,
+    port,
+    user: {
+      sub: `mock-${email}`,
+      email,
+      email_verified: process.env.MOCK_IDP_UNVERIFIED !== '1',
+      name: email.split('@')[0],
+    },
+  })
+
+  console.log(`Mock IdP at ${idp.issuer}, signing everyone in as ${email} — Ctrl+C to stop.`)
+  console.log('Start the app with:')
+  console.log('  OIDC_PROVIDERS=mock')
+  console.log('  OIDC_MOCK_NAME="Mock IdP"')
+  console.log(`  OIDC_MOCK_ISSUER=${idp.issuer}`)
+  console.log(`  OIDC_MOCK_CLIENT_ID=${clientId}`)
+  console.log(`  OIDC_MOCK_CLIENT_SECRET=${clientSecret}`)
+
+  process.on('SIGINT', () => {
+    idp.close().finally(() => process.exit(0))
+  })
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,70 @@
+// scripts/simulate-world.ts
+// Headless multi-turn simulation: copies a campaign into a sandbox, runs
+// its world forward with no AI at all, and prints a balance report —
+// faction power curves, wars, collapses, migrants, clocks, integrity
+// findings and handler timings. Needs DATABASE_URL; never an API key. All
+// the logic lives in src/lib/game/simulation/ (unit-tested); this is just
+// the CLI.
+//
+//   npx tsx scripts/simulate-world.ts --campaign <id>              # 40 turns
+//   npx tsx scripts/simulate-world.ts --campaign <id> --turns 100 --keep
+//   npx tsx scripts/simulate-world.ts --campaign <id> --json report.json
+//
+// --keep leaves the sandbox campaign in place (inactive, owned by --user or
+// the source's first admin) to open and look around; without it the
+// sandbox is deleted when the run ends. --json writes every turn's record
+// alongside the report. --verbose keeps the tick's own logging.
+
+import { writeFileSync } from 'fs'
+import { formatBalanceReport } from '../src/lib/game/simulation/balanceReport'
+import { runSimulation, MAX_SIMULATION_TURNS } from '../src/lib/game/simulation/sandboxRunner'
+import { prisma } from '../src/lib/prisma'
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+  const campaignId = argValue('--campaign')
+  if (!campaignId) {
+    console.error('--campaign <id> is required')
+    process.exit(1)
+  }
+  const turns = Number(argValue('--turns') ?? 40)
+  if (!Number.isInteger(turns) || turns < 1 || turns > MAX_SIMULATION_TURNS) {
+    console.error(`--turns must be a whole number from 1 to ${MAX_SIMULATION_TURNS}`)
+    process.exit(1)
+  }
+
+  // Every handler logs as it goes; forty turns of that buries the report.
+  const log = console.log
+  if (!process.argv.includes('--verbose')) console.log = () => {}
+
+  try {
+    const result = await runSimulation(campaignId, {
+      turns,
+      userId: argValue('--user'),
+      keepSandbox: process.argv.includes('--keep'),
+      onTurn: (record) => process.stderr.write(`\rturn ${record.turnNumber}`),
+    })
+    process.stderr.write('\n')
+
+    log(formatBalanceReport(result.report))
+    log(result.kept ? `\nSandbox kept: ${result.sandbox.title} (${result.sandbox.id})` : '\nSandbox deleted')
+
+    const jsonPath = argValue('--json')
+    if (jsonPath) {
+      writeFileSync(jsonPath, JSON.stringify({ report: result.report, turns: result.records }, null, 2))
+      log(`Full report written to ${jsonPath}`)
+    }
+  } finally {
+    console.log = log
+    await prisma.$disconnect()
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
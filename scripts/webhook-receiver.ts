@@ -0,0 +1,42 @@
+// scripts/webhook-receiver.ts
+// Local receiver for testing a campaign webhook end to end. Prints every
+// delivery it gets and whether its signature verified. The logic lives in
+// src/lib/webhooks/localReceiver.ts; this is the CLI wrapper.
+//
+//   WEBHOOK_SECRET=whsec_... npx tsx scripts/webhook-receiver.ts [port]
+//
+// Then, with the app running under WEBHOOK_ALLOW_PRIVATE_TARGETS=true, add
+// a JSON-format webhook pointing at the URL this prints and use "Send
+// test" in the admin panel. The secret is the one shown when the webhook
+// was created.
+
+import { startWebhookReceiver } from '../src/lib/webhooks/localReceiver'
+
+async function main(): Promise<void> {
+  const secret = process.env.WEBHOOK_SECRET
+  if (!secret) {
+    console.error('Set WEBHOOK_SECRET to the webhook\'s signing secret.')
+    process.exit(1)
+  }
+  const port = Number(process.argv[2] ?? 4040)
+
+  const receiver = await startWebhookReceiver({
+    secret,
+    port,
+    onReceive: (request) => {
+      const event = request.headers['x-mythos-event'] ?? '?'
+      console.log(`${new Date().toISOString()} ${event} ${request.verified ? 'verified' : 'SIGNATURE MISMATCH'}`)
+      console.log(request.json ? JSON.stringify(request.json, null, 2) : request.body)
+    },
+  })
+  console.log(`Listening on ${receiver.url} — Ctrl+C to stop.`)
+
+  process.on('SIGINT', () => {
+    receiver.close().finally(() => process.exit(0))
+  })
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
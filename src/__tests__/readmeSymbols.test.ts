@@ -102,6 +102,10 @@ const DELIBERATELY_ABSENT: Record<string, string> = {
   // Renamed in the campaign-host reframing: "GM" now only means the AI.
   isGM: 'renamed to isHost when GM came to mean only the AI',
 
+  // The ADMIN-only gate, generalized once co-hosts and spectators made
+  // "is this the admin" the wrong question. The Fix Log names it as it was.
+  requireCampaignAdmin: 'generalized to requireCampaignPermission and the campaignPermissions.ts matrix',
+
   // #447: tutorial-service.ts, deleted whole along with its four routes.
   // The docs still name these because what they DID is the whole point of
   // the Scorecard row and Fix Log entry — this system's failure was
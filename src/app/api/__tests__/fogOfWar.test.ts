@@ -19,6 +19,7 @@ import { readFileSync, readdirSync, statSync } from 'fs'
 import { join } from 'path'
 import * as ts from 'typescript'
 import { FOG_GATED_MODELS, visibleTo } from '@/lib/api/visibility'
+import { can, type CampaignPermission } from '@/lib/api/campaignPermissions'
 
 const API_ROOT = 'src/app/api'
 
@@ -235,8 +236,14 @@ const gatedRoutes = files.filter(f => readsGatedModel(readFileSync(f, 'utf8')))
 // someone remembered the module exists.
 const usesHelper = (src: string) =>
   src.includes("from '@/lib/api/visibility'") && /\b(visibleTo|visibleToMany)\s*\(/.test(src)
-const isAdminOnly = (src: string) =>
-  /role\s*!==\s*(?:'ADMIN'|UserRole\.ADMIN)/.test(src) || /requireCampaignAdmin\(/.test(src)
+// "Admin-only" since campaign roles became a permission matrix: the route
+// is gated on a permission no non-GM role holds. Read off the literal, so a
+// route gated on 'play.act' (which a player holds) does not count.
+const gmOnlyPermissions = (src: string) =>
+  [...src.matchAll(/(?:requireCampaignPermission\([^)]*?|!can\([^,]+,\s*)'([a-z]+\.[a-zA-Z]+)'/g)]
+    .map(m => m[1] as CampaignPermission)
+    .filter(p => !can('PLAYER', p) && !can('GUEST', p) && !can('SPECTATOR', p))
+const isAdminOnly = (src: string) => gmOnlyPermissions(src).length > 0
 
 describe('fog of war is enforced structurally, not by memory', () => {
   it('finds the routes that read fog-gated models at all', () => {
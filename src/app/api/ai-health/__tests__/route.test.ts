@@ -8,7 +8,9 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 
 vi.mock('@/lib/rateLimit', () => ({ checkRateLimit: vi.fn() }))
 vi.mock('@/lib/ai/openaiCompat', () => ({ openaiFetch: vi.fn() }))
-vi.mock('@/lib/ai/models', () => ({ AI_MODELS: { efficient: 'gpt-efficient', premium: 'gpt-premium' } }))
+vi.mock('@/lib/ai/models', () => ({
+  AI_MODELS: { FLAGSHIP: 'gpt-premium', EFFICIENT: 'gpt-efficient', IMAGE: 'gpt-image', EMBEDDING: 'gpt-embed' },
+}))
 
 import { checkRateLimit } from '@/lib/rateLimit'
 import { openaiFetch } from '@/lib/ai/openaiCompat'
@@ -24,6 +26,7 @@ beforeEach(() => {
 
 afterEach(() => {
   process.env.OPENAI_API_KEY = ORIGINAL_KEY
+  vi.unstubAllEnvs()
 })
 
 describe('GET', () => {
@@ -67,6 +70,46 @@ describe('GET', () => {
     expect(body.checks[1]).toMatchObject({ ok: true })
   })
 
+  it('checks only the chat tiers — image and embedding models have no chat endpoint to ask', async () => {
+    ;(openaiFetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'ok' } }] }),
+    })
+    const response = await GET()
+    const body = await response.json()
+    expect(body.checks.map((c: any) => c.tier)).toEqual(['FLAGSHIP', 'EFFICIENT'])
+  })
+
+  it('runs without an OpenAI key against a self-hosted provider', async () => {
+    delete process.env.OPENAI_API_KEY
+    vi.stubEnv('AI_PROVIDER', 'ollama')
+    vi.stubEnv('AI_FLAGSHIP_MODEL', 'llama3.1:70b')
+    vi.stubEnv('AI_EFFICIENT_MODEL', 'llama3.1:8b')
+    ;(openaiFetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'ok' } }] }),
+    })
+    const response = await GET()
+    const body = await response.json()
+    expect(body.ok).toBe(true)
+    expect(body.checks.every((c: any) => c.provider === 'ollama')).toBe(true)
+  })
+
+  it('reports a tier with no model of its own named as unconfigured, without calling it', async () => {
+    delete process.env.OPENAI_API_KEY
+    vi.stubEnv('AI_PROVIDER', 'ollama')
+    vi.stubEnv('AI_FLAGSHIP_MODEL', 'llama3.1:70b')
+    ;(openaiFetch as any).mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'ok' } }] }),
+    })
+    const response = await GET()
+    const body = await response.json()
+    expect(body.ok).toBe(false)
+    expect(body.checks[1]).toMatchObject({ tier: 'EFFICIENT', ok: false })
+    expect(openaiFetch).toHaveBeenCalledTimes(1)
+  })
+
   it('catches a thrown network error per-model instead of failing the request', async () => {
     ;(openaiFetch as any).mockRejectedValue(new Error('network down'))
     const response = await GET()
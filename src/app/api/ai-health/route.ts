@@ -1,22 +1,28 @@
 // src/app/api/ai-health/route.ts
 // AI pipeline diagnostics: answers "why am I getting generic fallbacks?"
-// from a browser. Makes one tiny real completion call per configured
-// model — using the same parameter shape and compat wrapper as the app's
-// actual calls — and returns exactly what OpenAI said. Anonymous but
-// tightly rate-limited (it spends real, if tiny, API money) and it never
-// echoes the API key, only the provider's error text.
+// from a browser. Makes one tiny real completion call per chat tier —
+// using the same parameter shape and compat wrapper as the app's actual
+// calls — and returns exactly what that tier's provider said. Anonymous
+// but tightly rate-limited (it spends real, if tiny, API money) and it
+// never echoes the API key, only the provider's error text.
 
 import { NextResponse } from 'next/server'
-import { AI_MODELS } from '@/lib/ai/models'
 import { openaiFetch } from '@/lib/ai/openaiCompat'
+import { resolveProvider, type ModelTier } from '@/lib/ai/providers'
 import { checkRateLimit } from '@/lib/rateLimit'
 
 export const maxDuration = 60
 export const dynamic = 'force-dynamic'
 
+// The tiers a chat completion can actually be checked against. IMAGE and
+// EMBEDDING speak other endpoints; asking them for a chat reply would
+// only report a failure that has nothing to do with their health.
+const CHAT_TIERS: ModelTier[] = ['FLAGSHIP', 'EFFICIENT']
+
 interface ModelCheck {
   tier: string
   model: string
+  provider: string
   ok: boolean
   status?: number
   error?: string
@@ -29,26 +35,29 @@ export async function GET() {
     return NextResponse.json({ error: 'Too many health checks — try again in a minute.' }, { status: 429 })
   }
 
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
+  const providers = CHAT_TIERS.map(tier => resolveProvider(tier))
+  if (!providers.some(provider => provider.configured)) {
     return NextResponse.json({
       ok: false,
       keyPresent: false,
-      error: 'OPENAI_API_KEY is not set in this deployment environment.',
+      error: 'No AI provider is configured in this deployment environment (OPENAI_API_KEY, or AI_PROVIDER with its base URL and models).',
       checks: [],
     })
   }
 
   const checks: ModelCheck[] = []
-  for (const [tier, model] of Object.entries(AI_MODELS)) {
+  for (const { tier, model, kind, configured } of providers) {
+    if (!configured) {
+      checks.push({ tier, model, provider: kind, ok: false, error: 'Not configured for this tier.' })
+      continue
+    }
     try {
       // Deliberately mirrors the app's call shape (max_tokens + custom
       // temperature) so this exercises the same compat path real calls do.
-      const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+      const response = await openaiFetch('/chat/completions', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
         },
         body: JSON.stringify({
           model,
@@ -59,13 +68,13 @@ export async function GET() {
       })
       if (response.ok) {
         const data = await response.json()
-        checks.push({ tier, model, ok: true, reply: data.choices?.[0]?.message?.content?.slice(0, 40) })
+        checks.push({ tier, model, provider: kind, ok: true, reply: data.choices?.[0]?.message?.content?.slice(0, 40) })
       } else {
         const body = await response.text()
-        checks.push({ tier, model, ok: false, status: response.status, error: body.slice(0, 600) })
+        checks.push({ tier, model, provider: kind, ok: false, status: response.status, error: body.slice(0, 600) })
       }
     } catch (error) {
-      checks.push({ tier, model, ok: false, error: String(error).slice(0, 300) })
+      checks.push({ tier, model, provider: kind, ok: false, error: String(error).slice(0, 300) })
     }
   }
 
@@ -73,6 +82,6 @@ export async function GET() {
     ok: checks.every(c => c.ok),
     keyPresent: true,
     checks,
-    note: 'Each check uses the same parameter shape as real gameplay calls, routed through the compatibility wrapper.',
+    note: 'Each check uses the same parameter shape as real gameplay calls, routed through the compatibility wrapper to the provider configured for its tier.',
   })
 }
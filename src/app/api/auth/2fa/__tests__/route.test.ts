@@ -0,0 +1,109 @@
+// src/app/api/auth/2fa/__tests__/route.test.ts
+// Status, and turning 2FA off — which takes the password and a second
+// factor both, so neither a stolen token nor a watched password is enough.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { user: { findUnique: vi.fn(), update: vi.fn() } },
+}))
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/password', () => ({ verifyPassword: vi.fn() }))
+vi.mock('@/lib/auth/twoFactor', () => ({ consumeSecondFactor: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  TWO_FACTOR_LIMIT: { bucket: 'two-factor', limit: 5, windowSeconds: 300 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { verifyPassword } from '@/lib/password'
+import { consumeSecondFactor } from '@/lib/auth/twoFactor'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { DELETE, GET } from '../route'
+
+const db = prisma as any
+const RECORD = { id: 'u1', password: 'hashed', totpEnabledAt: new Date(), totpSecret: 'S', totpLastUsedStep: 10, totpRecoveryCodes: ['h1', 'h2'] }
+
+function req(method: string, body?: unknown) {
+  return new NextRequest('http://localhost/api/auth/2fa', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(body ? { body: JSON.stringify(body) } : {}),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'u1', email: 'a@b.com' })
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  ;(verifyPassword as any).mockResolvedValue(true)
+  ;(consumeSecondFactor as any).mockResolvedValue('totp')
+  db.user.findUnique.mockResolvedValue(RECORD)
+  db.user.update.mockResolvedValue({})
+})
+
+describe('GET /api/auth/2fa', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await GET(req('GET'))).status).toBe(401)
+  })
+
+  it('reports whether it is on and how many recovery codes are left', async () => {
+    const body = await (await GET(req('GET'))).json()
+    expect(body).toMatchObject({ enabled: true, recoveryCodesRemaining: 2 })
+  })
+
+  it('reports off for a setup that was never confirmed', async () => {
+    db.user.findUnique.mockResolvedValue({ ...RECORD, totpEnabledAt: null, totpRecoveryCodes: [] })
+    const body = await (await GET(req('GET'))).json()
+    expect(body).toEqual({ enabled: false, enabledAt: null, recoveryCodesRemaining: 0 })
+  })
+})
+
+describe('DELETE /api/auth/2fa', () => {
+  it('turns 2FA off given the password and a code, clearing every trace', async () => {
+    const response = await DELETE(req('DELETE', { password: 'hunter2', code: '123456' }))
+    expect(response.status).toBe(200)
+    expect((await response.json()).enabled).toBe(false)
+    expect(consumeSecondFactor).toHaveBeenCalledWith(RECORD, { code: '123456', recoveryCode: undefined })
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, totpRecoveryCodes: [] },
+    })
+  })
+
+  it('refuses a wrong password before spending the code', async () => {
+    ;(verifyPassword as any).mockResolvedValue(false)
+    const response = await DELETE(req('DELETE', { password: 'nope', code: '123456' }))
+    expect(response.status).toBe(401)
+    expect(consumeSecondFactor).not.toHaveBeenCalled()
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+
+  it('refuses the password alone', async () => {
+    ;(consumeSecondFactor as any).mockResolvedValue(null)
+    expect((await DELETE(req('DELETE', { password: 'hunter2' }))).status).toBe(401)
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+
+  it('asks a passwordless account for the code only', async () => {
+    db.user.findUnique.mockResolvedValue({ ...RECORD, password: null })
+    expect((await DELETE(req('DELETE', { code: '123456' }))).status).toBe(200)
+    expect(verifyPassword).not.toHaveBeenCalled()
+  })
+
+  it('is a 400 when 2FA is not on', async () => {
+    db.user.findUnique.mockResolvedValue({ ...RECORD, totpEnabledAt: null })
+    expect((await DELETE(req('DELETE', { password: 'hunter2', code: '123456' }))).status).toBe(400)
+  })
+
+  it('is rate limited', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 42 })
+    ;(rateLimitExceededResponse as any).mockReturnValue(new Response(null, { status: 429 }))
+    expect((await DELETE(req('DELETE', { password: 'hunter2', code: '123456' }))).status).toBe(429)
+    expect(db.user.findUnique).not.toHaveBeenCalled()
+  })
+})
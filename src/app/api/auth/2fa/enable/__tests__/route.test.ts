@@ -0,0 +1,84 @@
+// src/app/api/auth/2fa/enable/__tests__/route.test.ts
+// 2FA only turns on once a code made from the pending secret comes back,
+// and the recovery codes are handed out exactly then.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({ prisma: { user: { findUnique: vi.fn(), updateMany: vi.fn() } } }))
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  TWO_FACTOR_LIMIT: { bucket: 'two-factor', limit: 5, windowSeconds: 300 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { base32Encode, totpCode, totpStep } from '@/lib/auth/totp'
+import { hashRecoveryCode } from '@/lib/auth/twoFactor'
+import { POST } from '../route'
+
+const db = prisma as any
+const SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+function req(body: unknown) {
+  return new NextRequest('http://localhost/api/auth/2fa/enable', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'u1', email: 'a@b.com' })
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  db.user.findUnique.mockResolvedValue({ totpSecret: SECRET, totpEnabledAt: null })
+  db.user.updateMany.mockResolvedValue({ count: 1 })
+})
+
+describe('POST /api/auth/2fa/enable', () => {
+  it('turns 2FA on for a current code and shows the recovery codes once', async () => {
+    const response = await POST(req({ code: totpCode(SECRET, totpStep()) }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.enabled).toBe(true)
+    expect(body.recoveryCodes).toHaveLength(10)
+
+    const call = db.user.updateMany.mock.calls[0][0]
+    // Conditional on the very secret the code was checked against.
+    expect(call.where).toEqual({ id: 'u1', totpEnabledAt: null, totpSecret: SECRET })
+    // Stored hashed, and the code just used can't be replayed at login.
+    expect(call.data.totpRecoveryCodes).toEqual(body.recoveryCodes.map(hashRecoveryCode))
+    expect(call.data.totpLastUsedStep).toBeGreaterThanOrEqual(totpStep() - 1)
+  })
+
+  it('refuses a wrong code and stays off', async () => {
+    const response = await POST(req({ code: totpCode(SECRET, totpStep() + 10) }))
+    expect(response.status).toBe(400)
+    expect(db.user.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('needs a setup first', async () => {
+    db.user.findUnique.mockResolvedValue({ totpSecret: null, totpEnabledAt: null })
+    const body = await (await POST(req({ code: '123456' }))).json()
+    expect(body.error).toBe('Start two-factor setup first')
+  })
+
+  it('is a 409 when the secret changed under it', async () => {
+    db.user.updateMany.mockResolvedValue({ count: 0 })
+    const response = await POST(req({ code: totpCode(SECRET, totpStep()) }))
+    expect(response.status).toBe(409)
+    expect((await response.json()).recoveryCodes).toBeUndefined()
+  })
+
+  it('is rate limited', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 42 })
+    ;(rateLimitExceededResponse as any).mockReturnValue(new Response(null, { status: 429 }))
+    expect((await POST(req({ code: '123456' }))).status).toBe(429)
+    expect(db.user.findUnique).not.toHaveBeenCalled()
+  })
+})
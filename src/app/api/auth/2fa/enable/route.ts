@@ -0,0 +1,55 @@
+// src/app/api/auth/2fa/enable/route.ts
+// Second half of turning 2FA on: a code from the authenticator, proving it
+// holds the secret setup handed out. Only then does login start asking for
+// one. The response carries the recovery codes — the only time they are
+// ever shown; what is stored is their hashes.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { matchTotpStep } from '@/lib/auth/totp'
+import { generateRecoveryCodes } from '@/lib/auth/twoFactor'
+import { checkRateLimit, rateLimitExceededResponse, TWO_FACTOR_LIMIT } from '@/lib/rateLimit'
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limit = await checkRateLimit(user.userId, TWO_FACTOR_LIMIT.bucket, TWO_FACTOR_LIMIT.limit, TWO_FACTOR_LIMIT.windowSeconds)
+    if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+    const body = await request.json().catch(() => ({}))
+    const record = await prisma.user.findUnique({
+      where: { id: user.userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    })
+    if (!record?.totpSecret || record.totpEnabledAt) {
+      return NextResponse.json({ error: 'Start two-factor setup first' }, { status: 400 })
+    }
+
+    const step = typeof body.code === 'string' ? matchTotpStep(record.totpSecret, body.code) : null
+    if (step === null) {
+      return NextResponse.json({ error: 'That code is not valid. Check the time on your device and try again.' }, { status: 400 })
+    }
+
+    const { codes, hashes } = generateRecoveryCodes()
+    // Conditional on the secret the code was checked against: a second
+    // setup racing this one would otherwise switch on a secret nobody
+    // verified.
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.userId, totpEnabledAt: null, totpSecret: record.totpSecret },
+      data: { totpEnabledAt: new Date(), totpLastUsedStep: step, totpRecoveryCodes: hashes },
+    })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Two-factor setup changed while this was in flight. Please start again.' }, { status: 409 })
+    }
+
+    return NextResponse.json({ enabled: true, recoveryCodes: codes })
+  } catch (error) {
+    console.error('2FA enable error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+// src/app/api/auth/2fa/recovery-codes/__tests__/route.test.ts
+// A fresh set of recovery codes for a current authenticator code — never
+// for an old recovery code.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({ prisma: { user: { findUnique: vi.fn(), update: vi.fn() } } }))
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/auth/twoFactor', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth/twoFactor')>()),
+  consumeSecondFactor: vi.fn(),
+}))
+vi.mock('@/lib/rateLimit', () => ({
+  TWO_FACTOR_LIMIT: { bucket: 'two-factor', limit: 5, windowSeconds: 300 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { consumeSecondFactor, hashRecoveryCode } from '@/lib/auth/twoFactor'
+import { checkRateLimit } from '@/lib/rateLimit'
+import { POST } from '../route'
+
+const db = prisma as any
+const RECORD = { id: 'u1', totpSecret: 'S', totpEnabledAt: new Date(), totpLastUsedStep: 10 }
+
+function req(body: unknown) {
+  return new NextRequest('http://localhost/api/auth/2fa/recovery-codes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'u1', email: 'a@b.com' })
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  ;(consumeSecondFactor as any).mockResolvedValue('totp')
+  db.user.findUnique.mockResolvedValue(RECORD)
+  db.user.update.mockResolvedValue({})
+})
+
+describe('POST /api/auth/2fa/recovery-codes', () => {
+  it('replaces the stored set with the hashes of a new one', async () => {
+    const response = await POST(req({ code: '123456' }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.recoveryCodes).toHaveLength(10)
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: { totpRecoveryCodes: body.recoveryCodes.map(hashRecoveryCode) },
+    })
+  })
+
+  it('offers only the authenticator code to the check, never a recovery code', async () => {
+    await POST(req({ code: '123456', recoveryCode: 'abcde-12345' }))
+    expect(consumeSecondFactor).toHaveBeenCalledWith(RECORD, { code: '123456' })
+  })
+
+  it('refuses without a valid code', async () => {
+    ;(consumeSecondFactor as any).mockResolvedValue(null)
+    expect((await POST(req({ code: '000000' }))).status).toBe(401)
+    expect(db.user.update).not.toHaveBeenCalled()
+  })
+
+  it('is a 400 when 2FA is not on', async () => {
+    db.user.findUnique.mockResolvedValue({ ...RECORD, totpEnabledAt: null })
+    expect((await POST(req({ code: '123456' }))).status).toBe(400)
+  })
+})
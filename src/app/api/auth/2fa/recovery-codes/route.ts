@@ -0,0 +1,43 @@
+// src/app/api/auth/2fa/recovery-codes/route.ts
+// Replace the recovery codes with a fresh set — after using a few, or
+// after losing the list. Every old code stops working at once. Takes a
+// current authenticator code, not a recovery code: someone holding only
+// the old list shouldn't be able to mint a new one.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { consumeSecondFactor, generateRecoveryCodes } from '@/lib/auth/twoFactor'
+import { checkRateLimit, rateLimitExceededResponse, TWO_FACTOR_LIMIT } from '@/lib/rateLimit'
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limit = await checkRateLimit(user.userId, TWO_FACTOR_LIMIT.bucket, TWO_FACTOR_LIMIT.limit, TWO_FACTOR_LIMIT.windowSeconds)
+    if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+    const body = await request.json().catch(() => ({}))
+    const record = await prisma.user.findUnique({
+      where: { id: user.userId },
+      select: { id: true, totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+    })
+    if (!record?.totpEnabledAt) {
+      return NextResponse.json({ error: 'Two-factor authentication is not on' }, { status: 400 })
+    }
+    if ((await consumeSecondFactor(record, { code: body.code })) !== 'totp') {
+      return NextResponse.json({ error: 'That code is not valid' }, { status: 401 })
+    }
+
+    const { codes, hashes } = generateRecoveryCodes()
+    await prisma.user.update({ where: { id: user.userId }, data: { totpRecoveryCodes: hashes } })
+
+    return NextResponse.json({ recoveryCodes: codes })
+  } catch (error) {
+    console.error('Recovery code regeneration error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+// src/app/api/auth/2fa/route.ts
+//
+// GET    — whether the caller has 2FA on, and how many recovery codes remain.
+// DELETE — turn it off.
+//
+// Turning it off takes the password AND a second factor. Either alone is
+// what 2FA exists to not be enough: a stolen session token shouldn't be
+// able to strip the protection from the account it's sitting in, and
+// neither should someone who only watched the password being typed.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { verifyPassword } from '@/lib/password'
+import { consumeSecondFactor } from '@/lib/auth/twoFactor'
+import { checkRateLimit, rateLimitExceededResponse, TWO_FACTOR_LIMIT } from '@/lib/rateLimit'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const record = await prisma.user.findUnique({
+      where: { id: user.userId },
+      select: { totpEnabledAt: true, totpRecoveryCodes: true },
+    })
+    if (!record) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      enabled: record.totpEnabledAt !== null,
+      enabledAt: record.totpEnabledAt,
+      recoveryCodesRemaining: record.totpEnabledAt ? record.totpRecoveryCodes.length : 0,
+    })
+  } catch (error) {
+    console.error('2FA status error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limit = await checkRateLimit(user.userId, TWO_FACTOR_LIMIT.bucket, TWO_FACTOR_LIMIT.limit, TWO_FACTOR_LIMIT.windowSeconds)
+    if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+    const body = await request.json().catch(() => ({}))
+    const record = await prisma.user.findUnique({ where: { id: user.userId } })
+    if (!record || !record.totpEnabledAt) {
+      return NextResponse.json({ error: 'Two-factor authentication is not on' }, { status: 400 })
+    }
+
+    // An account with no password (sign-in through an identity provider)
+    // has only the second factor to show; it still has to show that.
+    if (record.password && !(typeof body.password === 'string' && (await verifyPassword(body.password, record.password)))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+    }
+    if (!(await consumeSecondFactor(record, { code: body.code, recoveryCode: body.recoveryCode }))) {
+      return NextResponse.json({ error: 'That code is not valid' }, { status: 401 })
+    }
+
+    await prisma.user.update({
+      where: { id: user.userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null, totpRecoveryCodes: [] },
+    })
+
+    return NextResponse.json({ enabled: false })
+  } catch (error) {
+    console.error('2FA disable error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
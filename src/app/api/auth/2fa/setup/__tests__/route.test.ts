@@ -0,0 +1,53 @@
+// src/app/api/auth/2fa/setup/__tests__/route.test.ts
+// A fresh secret for an account with 2FA off — and never a swapped one for
+// an account with it on.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({ prisma: { user: { updateMany: vi.fn() } } }))
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { POST } from '../route'
+
+const db = prisma as any
+
+function req() {
+  return new NextRequest('http://localhost/api/auth/2fa/setup', { method: 'POST' })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'u1', email: 'a@b.com' })
+  db.user.updateMany.mockResolvedValue({ count: 1 })
+})
+
+describe('POST /api/auth/2fa/setup', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await POST(req())).status).toBe(401)
+    expect(db.user.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('stores a pending secret and returns it with the otpauth URI', async () => {
+    const response = await POST(req())
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(body.otpauthUrl).toBe(`otpauth://totp/MythOS%3Aa%40b.com?secret=${body.secret}&issuer=MythOS`)
+    expect(db.user.updateMany).toHaveBeenCalledWith({
+      where: { id: 'u1', totpEnabledAt: null },
+      data: { totpSecret: body.secret, totpLastUsedStep: null },
+    })
+  })
+
+  it('is a 409 when 2FA is already on', async () => {
+    db.user.updateMany.mockResolvedValue({ count: 0 })
+    const response = await POST(req())
+    expect(response.status).toBe(409)
+    expect((await response.json()).secret).toBeUndefined()
+  })
+})
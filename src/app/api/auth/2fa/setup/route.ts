@@ -0,0 +1,37 @@
+// src/app/api/auth/2fa/setup/route.ts
+// First half of turning 2FA on: a fresh secret for the authenticator app.
+//
+// The secret is stored straight away but counts for nothing until
+// /api/auth/2fa/enable sees a code made from it — so a setup abandoned
+// halfway (app never scanned, tab closed) never locks anyone out, and
+// starting again simply replaces it.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { generateTotpSecret, totpAuthUri } from '@/lib/auth/totp'
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const secret = generateTotpSecret()
+    // Conditional on 2FA being off, in the WHERE: a setup request must not
+    // be able to swap the secret out from under an account that has it on.
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.userId, totpEnabledAt: null },
+      data: { totpSecret: secret, totpLastUsedStep: null },
+    })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Two-factor authentication is already on' }, { status: 409 })
+    }
+
+    return NextResponse.json({ secret, otpauthUrl: totpAuthUri(secret, user.email) })
+  } catch (error) {
+    console.error('2FA setup error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
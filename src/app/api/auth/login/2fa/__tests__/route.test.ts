@@ -0,0 +1,106 @@
+// src/app/api/auth/login/2fa/__tests__/route.test.ts
+// The second login step. A valid challenge plus a valid code is a session;
+// anything stale about the challenge — the user, their tokenVersion, 2FA
+// itself — is a trip back to the password.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { user: { findUnique: vi.fn(), update: vi.fn() } },
+}))
+vi.mock('@/lib/auth/sessions', () => ({ startSession: vi.fn() }))
+vi.mock('@/lib/auth/twoFactor', () => ({ readTwoFactorChallenge: vi.fn(), consumeSecondFactor: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  TWO_FACTOR_LIMIT: { bucket: 'two-factor', limit: 5, windowSeconds: 300 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { startSession } from '@/lib/auth/sessions'
+import { consumeSecondFactor, readTwoFactorChallenge } from '@/lib/auth/twoFactor'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { POST } from '../route'
+
+const db = prisma as any
+const USER = { id: 'u1', email: 'a@b.com', tokenVersion: 2, totpEnabledAt: new Date(), totpSecret: 'S', totpLastUsedStep: null }
+
+function req(body: unknown) {
+  return new NextRequest('http://localhost/api/auth/login/2fa', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(readTwoFactorChallenge as any).mockReturnValue({ userId: 'u1', tokenVersion: 2 })
+  ;(consumeSecondFactor as any).mockResolvedValue('totp')
+  ;(startSession as any).mockResolvedValue('session-token')
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  db.user.findUnique.mockResolvedValue(USER)
+  db.user.update.mockResolvedValue({})
+})
+
+describe('POST /api/auth/login/2fa', () => {
+  it('trades a challenge and a code for a session', async () => {
+    const request = req({ challengeToken: 'c', code: '123456' })
+    const response = await POST(request)
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body).toEqual({ token: 'session-token', user: { id: 'u1', email: 'a@b.com' } })
+    expect(consumeSecondFactor).toHaveBeenCalledWith(USER, { code: '123456', recoveryCode: undefined })
+    expect(startSession).toHaveBeenCalledWith(USER, request)
+  })
+
+  it('says when a recovery code was spent', async () => {
+    ;(consumeSecondFactor as any).mockResolvedValue('recovery')
+    const body = await (await POST(req({ challengeToken: 'c', recoveryCode: 'abcde-12345' }))).json()
+    expect(body.recoveryCodeUsed).toBe(true)
+  })
+
+  it('refuses a missing or unreadable challenge before anything else', async () => {
+    ;(readTwoFactorChallenge as any).mockReturnValue(null)
+    const response = await POST(req({ challengeToken: 'forged', code: '123456' }))
+    expect(response.status).toBe(401)
+    expect(db.user.findUnique).not.toHaveBeenCalled()
+
+    expect((await POST(req({ code: '123456' }))).status).toBe(401)
+  })
+
+  it('refuses a challenge issued before a "sign out everywhere"', async () => {
+    db.user.findUnique.mockResolvedValue({ ...USER, tokenVersion: 3 })
+    const response = await POST(req({ challengeToken: 'c', code: '123456' }))
+    expect(response.status).toBe(401)
+    expect(consumeSecondFactor).not.toHaveBeenCalled()
+  })
+
+  it('refuses once 2FA has been turned off in between', async () => {
+    db.user.findUnique.mockResolvedValue({ ...USER, totpEnabledAt: null })
+    expect((await POST(req({ challengeToken: 'c', code: '123456' }))).status).toBe(401)
+    expect(startSession).not.toHaveBeenCalled()
+  })
+
+  it('refuses a wrong code with no session', async () => {
+    ;(consumeSecondFactor as any).mockResolvedValue(null)
+    const response = await POST(req({ challengeToken: 'c', code: '000000' }))
+    const body = await response.json()
+    expect(response.status).toBe(401)
+    expect(body.error).toBe('That code is not valid')
+    expect(startSession).not.toHaveBeenCalled()
+  })
+
+  it('is rate limited per user, since six digits are guessable', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 42 })
+    ;(rateLimitExceededResponse as any).mockReturnValue(new Response(null, { status: 429 }))
+
+    const response = await POST(req({ challengeToken: 'c', code: '123456' }))
+
+    expect(response.status).toBe(429)
+    expect(checkRateLimit).toHaveBeenCalledWith('u1', 'two-factor', 5, 300)
+    expect(consumeSecondFactor).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,61 @@
+// src/app/api/auth/login/2fa/route.ts
+// The second login step for an account with 2FA on: the challenge the
+// password step returned, plus either the authenticator's current code or
+// one unused recovery code, for a session token.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { startSession } from '@/lib/auth/sessions'
+import { consumeSecondFactor, readTwoFactorChallenge } from '@/lib/auth/twoFactor'
+import { AuthResponse, ErrorResponse } from '@/types/api'
+import { checkRateLimit, rateLimitExceededResponse, TWO_FACTOR_LIMIT } from '@/lib/rateLimit'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const challenge = typeof body.challengeToken === 'string' ? readTwoFactorChallenge(body.challengeToken) : null
+    if (!challenge) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'This sign-in has expired. Please enter your password again.' },
+        { status: 401 }
+      )
+    }
+
+    const rateLimit = await checkRateLimit(challenge.userId, TWO_FACTOR_LIMIT.bucket, TWO_FACTOR_LIMIT.limit, TWO_FACTOR_LIMIT.windowSeconds)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: challenge.userId } })
+    // A challenge outlives nothing: not the user, not a "sign out
+    // everywhere", not 2FA being turned off in between.
+    if (!user || user.tokenVersion !== challenge.tokenVersion || !user.totpEnabledAt) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'This sign-in has expired. Please enter your password again.' },
+        { status: 401 }
+      )
+    }
+
+    const factor = await consumeSecondFactor(user, { code: body.code, recoveryCode: body.recoveryCode })
+    if (!factor) {
+      return NextResponse.json<ErrorResponse>({ error: 'That code is not valid' }, { status: 401 })
+    }
+
+    // Same fire-and-forget presence stamp the password-only login makes.
+    prisma.user
+      .update({ where: { id: user.id }, data: { lastSeenAt: new Date() } })
+      .catch((err) => console.error('lastSeenAt stamp failed (non-critical):', err))
+
+    const token = await startSession(user, request)
+
+    return NextResponse.json<AuthResponse & { recoveryCodeUsed?: boolean }>({
+      token,
+      user: { id: user.id, email: user.email },
+      // Said so the client can tell them how many they have left.
+      ...(factor === 'recovery' ? { recoveryCodeUsed: true } : {}),
+    })
+  } catch (error) {
+    console.error('2FA login error:', error)
+    return NextResponse.json<ErrorResponse>({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -11,7 +11,8 @@ vi.mock('@/lib/prisma', () => ({
   prisma: { user: { findUnique: vi.fn(), update: vi.fn() } },
 }))
 vi.mock('@/lib/password', () => ({ verifyPassword: vi.fn() }))
-vi.mock('@/lib/auth', () => ({ createToken: vi.fn() }))
+vi.mock('@/lib/auth/sessions', () => ({ startSession: vi.fn() }))
+vi.mock('@/lib/auth/twoFactor', () => ({ createTwoFactorChallenge: vi.fn(() => 'challenge-token') }))
 vi.mock('@/lib/rateLimit', () => ({
   LOGIN_LIMIT: { bucket: 'login', limit: 10, windowSeconds: 300 },
   checkRateLimit: vi.fn(),
@@ -21,7 +22,8 @@ vi.mock('@/lib/rateLimit', () => ({
 
 import { prisma } from '@/lib/prisma'
 import { verifyPassword } from '@/lib/password'
-import { createToken } from '@/lib/auth'
+import { startSession } from '@/lib/auth/sessions'
+import { createTwoFactorChallenge } from '@/lib/auth/twoFactor'
 import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
 import { POST } from '../route'
 
@@ -37,7 +39,7 @@ function loginRequest(body: unknown) {
 
 beforeEach(() => {
   vi.clearAllMocks()
-  ;(createToken as any).mockReturnValue('fake-jwt-token')
+  ;(startSession as any).mockResolvedValue('fake-jwt-token')
   ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
   // The lastSeenAt stamp — fire-and-forget, must never fail a login.
   db.user.update.mockResolvedValue({})
@@ -83,20 +85,36 @@ describe('POST /api/auth/login', () => {
     const body = await response.json()
     expect(response.status).toBe(401)
     expect(body.error).toBe('Invalid email or password')
-    expect(createToken).not.toHaveBeenCalled()
+    expect(startSession).not.toHaveBeenCalled()
   })
 
-  it('issues a token stamped with the account\'s current tokenVersion', async () => {
-    db.user.findUnique.mockResolvedValue({ id: 'u1', email: 'a@b.com', password: 'hashed', tokenVersion: 3 })
+  it('starts a session for the account, which stamps its current tokenVersion', async () => {
+    const user = { id: 'u1', email: 'a@b.com', password: 'hashed', tokenVersion: 3, totpEnabledAt: null }
+    db.user.findUnique.mockResolvedValue(user)
     ;(verifyPassword as any).mockResolvedValue(true)
 
-    const response = await POST(loginRequest({ email: 'a@b.com', password: 'hunter2' }))
+    const request = loginRequest({ email: 'a@b.com', password: 'hunter2' })
+    const response = await POST(request)
     const body = await response.json()
 
     expect(response.status).toBe(200)
     expect(body.token).toBe('fake-jwt-token')
     expect(body.user).toEqual({ id: 'u1', email: 'a@b.com' })
-    expect(createToken).toHaveBeenCalledWith({ userId: 'u1', email: 'a@b.com', tokenVersion: 3 })
+    expect(startSession).toHaveBeenCalledWith(user, request)
+  })
+
+  it('with 2FA on, a right password buys a challenge, not a session', async () => {
+    const user = { id: 'u1', email: 'a@b.com', password: 'hashed', tokenVersion: 3, totpEnabledAt: new Date() }
+    db.user.findUnique.mockResolvedValue(user)
+    ;(verifyPassword as any).mockResolvedValue(true)
+
+    const response = await POST(loginRequest({ email: 'a@b.com', password: 'hunter2' }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body).toEqual({ twoFactorRequired: true, challengeToken: 'challenge-token' })
+    expect(createTwoFactorChallenge).toHaveBeenCalledWith(user)
+    expect(startSession).not.toHaveBeenCalled()
   })
 
   it('returns 500 with a generic message on an unexpected error, never the raw error text', async () => {
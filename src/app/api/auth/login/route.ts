@@ -1,13 +1,15 @@
 // force deploy
 // src/app/api/auth/login/route.ts
 // User login endpoint
-// Verifies credentials and returns a JWT token
+// Verifies credentials and returns a JWT token — or, for an account with
+// 2FA on, a challenge that /api/auth/login/2fa trades for one
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { verifyPassword } from '@/lib/password'
-import { createToken } from '@/lib/auth'
-import { LoginRequest, AuthResponse, ErrorResponse } from '@/types/api'
+import { startSession } from '@/lib/auth/sessions'
+import { createTwoFactorChallenge } from '@/lib/auth/twoFactor'
+import { LoginRequest, AuthResponse, ErrorResponse, TwoFactorChallengeResponse } from '@/types/api'
 import { checkRateLimit, rateLimitExceededResponse, getClientIp, LOGIN_LIMIT } from '@/lib/rateLimit'
 import { normalizeEmail } from '@/lib/auth/normalizeEmail'
 
@@ -61,6 +63,16 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // With 2FA on, the password only earns a challenge; the session comes
+    // from /api/auth/login/2fa once a code backs it up. Nothing below —
+    // presence stamp included — runs until then.
+    if (user.totpEnabledAt) {
+      return NextResponse.json<TwoFactorChallengeResponse>({
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user),
+      })
+    }
+
     // Stamp lastSeenAt. Until this line existed the column had readers and
     // no writer anywhere — the friends page rendered "last seen" from a value
     // nothing ever set, so every friend showed as plain "Offline" forever
@@ -72,14 +84,7 @@ export async function POST(request: NextRequest) {
       .update({ where: { id: user.id }, data: { lastSeenAt: new Date() } })
       .catch((err) => console.error('lastSeenAt stamp failed (non-critical):', err))
 
-    // Create JWT token
-    const token = createToken({
-      userId: user.id,
-      email: user.email,
-      // Stamp the version this session is minted at (#98). Bumping
-      // User.tokenVersion invalidates every token carrying an older one.
-      tokenVersion: user.tokenVersion,
-    })
+    const token = await startSession(user, request)
 
     // Return token and user info
     return NextResponse.json<AuthResponse>({
@@ -0,0 +1,106 @@
+// @vitest-environment node
+// src/app/api/auth/oidc/[provider]/callback/__tests__/route.test.ts
+// The callback trusts nothing the URL says until the cookie agrees, and
+// every outcome is a redirect. Runs under node: happy-dom's Request drops
+// a Cookie header, as a browser would for script-set requests.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth/oidc', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth/oidc')>()),
+  completeOidcFlow: vi.fn(),
+}))
+vi.mock('@/lib/auth/oidcAccounts', () => ({ resolveOidcUser: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  OIDC_LIMIT: { bucket: 'oidc', limit: 20, windowSeconds: 300 },
+  checkRateLimit: vi.fn(),
+  getClientIp: vi.fn(() => '127.0.0.1'),
+}))
+
+import { completeOidcFlow, createOidcFlow, OIDC_STATE_COOKIE, readOidcHandoff } from '@/lib/auth/oidc'
+import { resolveOidcUser } from '@/lib/auth/oidcAccounts'
+import { checkRateLimit } from '@/lib/rateLimit'
+import { GET } from '../route'
+
+const IDENTITY = { provider: 'discord', subject: '8035', email: 'ada@example.com', emailVerified: true, name: 'Ada' }
+
+function call(query: string, cookie?: string) {
+  return GET(
+    new NextRequest(`http://localhost/api/auth/oidc/discord/callback${query}`, {
+      headers: cookie ? { cookie: `${OIDC_STATE_COOKIE}=${cookie}` } : {},
+    }),
+    { params: { provider: 'discord' } }
+  )
+}
+
+const loginError = (response: Response) => new URL(response.headers.get('location') as string).searchParams.get('oidcError')
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.stubEnv('JWT_SECRET', 'test-secret-for-oidc-callback')
+  vi.stubEnv('OIDC_PROVIDERS', 'discord')
+  vi.stubEnv('OIDC_DISCORD_CLIENT_ID', 'client-id')
+  vi.stubEnv('OIDC_DISCORD_CLIENT_SECRET', 'client-secret')
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  ;(completeOidcFlow as any).mockResolvedValue(IDENTITY)
+  ;(resolveOidcUser as any).mockResolvedValue({ ok: true, user: { id: 'u1', email: 'ada@example.com', tokenVersion: 2 }, outcome: 'linked' })
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('GET /api/auth/oidc/[provider]/callback', () => {
+  it('hands a good answer off to /auth/oidc in the fragment, and clears the cookie', async () => {
+    const { flow, cookie } = createOidcFlow('discord', '/campaigns/c1')
+    const response = await call(`?code=abc&state=${flow.state}`, cookie)
+
+    const location = new URL(response.headers.get('location') as string)
+    expect(location.pathname).toBe('/auth/oidc')
+    expect(location.searchParams.get('returnTo')).toBe('/campaigns/c1')
+    expect(readOidcHandoff(new URLSearchParams(location.hash.slice(1)).get('handoff') as string)).toEqual({ userId: 'u1', tokenVersion: 2 })
+    expect(completeOidcFlow).toHaveBeenCalledWith(expect.objectContaining({ id: 'discord' }), flow, 'abc')
+    expect(resolveOidcUser).toHaveBeenCalledWith(IDENTITY)
+    expect(response.cookies.get(OIDC_STATE_COOKIE)?.value).toBe('')
+  })
+
+  it('refuses a state the cookie does not carry — a replayed callback', async () => {
+    const { cookie } = createOidcFlow('discord', null)
+    const response = await call('?code=abc&state=forged', cookie)
+    expect(loginError(response)).toBe('expired')
+    expect(completeOidcFlow).not.toHaveBeenCalled()
+  })
+
+  it('refuses with no cookie at all, or another provider\'s', async () => {
+    expect(loginError(await call('?code=abc&state=s'))).toBe('expired')
+    const { flow, cookie } = createOidcFlow('google', null)
+    expect(loginError(await call(`?code=abc&state=${flow.state}`, cookie))).toBe('expired')
+    expect(completeOidcFlow).not.toHaveBeenCalled()
+  })
+
+  it('reads a declined consent screen as cancelled', async () => {
+    const { flow, cookie } = createOidcFlow('discord', null)
+    expect(loginError(await call(`?error=access_denied&state=${flow.state}`, cookie))).toBe('cancelled')
+  })
+
+  it('passes the account refusal through to the login page', async () => {
+    ;(resolveOidcUser as any).mockResolvedValue({ ok: false, reason: 'unverified-email' })
+    const { flow, cookie } = createOidcFlow('discord', null)
+    expect(loginError(await call(`?code=abc&state=${flow.state}`, cookie))).toBe('unverified-email')
+  })
+
+  it('turns a provider failure into a banner, not a 500', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    ;(completeOidcFlow as any).mockRejectedValue(new Error('token endpoint answered HTTP 400'))
+    const { flow, cookie } = createOidcFlow('discord', null)
+    expect(loginError(await call(`?code=abc&state=${flow.state}`, cookie))).toBe('failed')
+  })
+
+  it('is rate limited', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 42 })
+    const { flow, cookie } = createOidcFlow('discord', null)
+    expect(loginError(await call(`?code=abc&state=${flow.state}`, cookie))).toBe('failed')
+    expect(completeOidcFlow).not.toHaveBeenCalled()
+  })
+})
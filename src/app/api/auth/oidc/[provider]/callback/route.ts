@@ -0,0 +1,56 @@
+// src/app/api/auth/oidc/[provider]/callback/route.ts
+// Where the provider sends the browser back. Checks the answer belongs to
+// the flow this browser started (the cookie's state), trades the code for
+// an identity, picks the account (oidcAccounts.ts), and hands off to
+// /auth/oidc with a short-lived handoff in the URL fragment — fragments
+// never reach a server log. Every outcome is a redirect, like
+// verify-email: failures land on the login page with a banner.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { completeOidcFlow, createOidcHandoff, getOidcProvider, OIDC_STATE_COOKIE, readOidcFlow } from '@/lib/auth/oidc'
+import { resolveOidcUser } from '@/lib/auth/oidcAccounts'
+import { checkRateLimit, getClientIp, OIDC_LIMIT } from '@/lib/rateLimit'
+
+export async function GET(request: NextRequest, { params }: { params: { provider: string } }) {
+  const loginUrl = new URL('/login', request.nextUrl.origin)
+  const fail = (reason: string) => {
+    loginUrl.searchParams.set('oidcError', reason)
+    const response = NextResponse.redirect(loginUrl)
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' })
+    return response
+  }
+
+  const rateLimit = await checkRateLimit(getClientIp(request), OIDC_LIMIT.bucket, OIDC_LIMIT.limit, OIDC_LIMIT.windowSeconds)
+  if (!rateLimit.allowed) return fail('failed')
+
+  const provider = getOidcProvider(params.provider)
+  const flow = readOidcFlow(request.cookies.get(OIDC_STATE_COOKIE)?.value)
+  const search = request.nextUrl.searchParams
+  // No cookie, another provider's cookie, or a state this browser never
+  // sent: a stale tab, or a callback URL replayed into someone else's
+  // browser. Either way nothing here is trusted.
+  if (!provider || !flow || flow.provider !== provider.id || search.get('state') !== flow.state) {
+    return fail('expired')
+  }
+  // The person said no on the provider's consent screen.
+  if (search.get('error')) return fail('cancelled')
+
+  const code = search.get('code')
+  if (!code) return fail('failed')
+
+  try {
+    const identity = await completeOidcFlow(provider, flow, code)
+    const result = await resolveOidcUser(identity)
+    if (!result.ok) return fail(result.reason)
+
+    const landing = new URL('/auth/oidc', request.nextUrl.origin)
+    if (flow.returnTo) landing.searchParams.set('returnTo', flow.returnTo)
+    landing.hash = `handoff=${createOidcHandoff(result.user)}`
+    const response = NextResponse.redirect(landing)
+    response.cookies.delete({ name: OIDC_STATE_COOKIE, path: '/api/auth/oidc' })
+    return response
+  } catch (error) {
+    console.error('OIDC callback error:', error)
+    return fail('failed')
+  }
+}
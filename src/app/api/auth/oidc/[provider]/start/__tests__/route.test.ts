@@ -0,0 +1,48 @@
+// src/app/api/auth/oidc/[provider]/start/__tests__/route.test.ts
+// Off to the provider, with the flow cookie that lets the callback trust
+// what comes back.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { OIDC_STATE_COOKIE, readOidcFlow } from '@/lib/auth/oidc'
+import { GET } from '../route'
+
+function call(provider: string, query = '') {
+  return GET(new NextRequest(`http://localhost/api/auth/oidc/${provider}/start${query}`), { params: { provider } })
+}
+
+beforeEach(() => {
+  vi.stubEnv('JWT_SECRET', 'test-secret-for-oidc-start')
+  vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://mythos.example')
+  vi.stubEnv('OIDC_PROVIDERS', 'discord')
+  vi.stubEnv('OIDC_DISCORD_CLIENT_ID', 'client-id')
+  vi.stubEnv('OIDC_DISCORD_CLIENT_SECRET', 'client-secret')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('GET /api/auth/oidc/[provider]/start', () => {
+  it('404s a provider this deployment has not configured', async () => {
+    expect((await call('google')).status).toBe(404)
+  })
+
+  it('redirects to the provider with state, nonce and a PKCE challenge, and sets the matching cookie', async () => {
+    const response = await call('discord', '?returnTo=%2Fcampaigns%2Fc1')
+
+    expect(response.status).toBe(307)
+    const location = new URL(response.headers.get('location') as string)
+    expect(location.origin + location.pathname).toBe('https://discord.com/oauth2/authorize')
+    expect(location.searchParams.get('redirect_uri')).toBe('https://mythos.example/api/auth/oidc/discord/callback')
+    expect(location.searchParams.get('code_challenge_method')).toBe('S256')
+
+    const cookie = response.cookies.get(OIDC_STATE_COOKIE)
+    expect(cookie).toMatchObject({ httpOnly: true, sameSite: 'lax', path: '/api/auth/oidc' })
+    const flow = readOidcFlow(cookie?.value)
+    expect(flow).toMatchObject({ provider: 'discord', returnTo: '/campaigns/c1', state: location.searchParams.get('state') })
+    expect(location.searchParams.get('nonce')).toBe(flow?.nonce)
+    // The verifier itself never leaves the server-side cookie.
+    expect(location.toString()).not.toContain(flow?.codeVerifier)
+  })
+})
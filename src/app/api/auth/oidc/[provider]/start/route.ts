@@ -0,0 +1,44 @@
+// src/app/api/auth/oidc/[provider]/start/route.ts
+// The "Continue with …" button's target: set the flow cookie and send the
+// browser to the provider. ?returnTo= survives the round trip.
+
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  buildAuthorizationUrl,
+  createOidcFlow,
+  getOidcProvider,
+  OIDC_STATE_COOKIE,
+  OIDC_STATE_TTL_SECONDS,
+  resolveEndpoints,
+} from '@/lib/auth/oidc'
+
+export async function GET(request: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = getOidcProvider(params.provider)
+  if (!provider) {
+    return NextResponse.json({ error: 'Unknown sign-in provider' }, { status: 404 })
+  }
+
+  try {
+    const endpoints = await resolveEndpoints(provider)
+    const { flow, cookie } = createOidcFlow(provider.id, request.nextUrl.searchParams.get('returnTo'))
+
+    const response = NextResponse.redirect(buildAuthorizationUrl(provider, endpoints, flow))
+    response.cookies.set(OIDC_STATE_COOKIE, cookie, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      // Lax, not Strict: the provider's redirect back is a cross-site
+      // top-level GET, which is exactly what Lax lets through.
+      sameSite: 'lax',
+      path: '/api/auth/oidc',
+      maxAge: OIDC_STATE_TTL_SECONDS,
+    })
+    return response
+  } catch (error) {
+    // The provider's discovery document is unreachable — a login-page
+    // banner, not a JSON error the browser would render raw.
+    console.error('OIDC start error:', error)
+    const loginUrl = new URL('/login', request.nextUrl.origin)
+    loginUrl.searchParams.set('oidcError', 'unavailable')
+    return NextResponse.redirect(loginUrl)
+  }
+}
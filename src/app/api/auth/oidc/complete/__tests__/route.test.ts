@@ -0,0 +1,87 @@
+// src/app/api/auth/oidc/complete/__tests__/route.test.ts
+// Handoff in, session out — or the 2FA challenge, for an account that has
+// it on. A provider is a first factor, not a way around the second.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({ prisma: { user: { findUnique: vi.fn(), update: vi.fn() } } }))
+vi.mock('@/lib/auth/sessions', () => ({ startSession: vi.fn() }))
+vi.mock('@/lib/auth/twoFactor', () => ({ createTwoFactorChallenge: vi.fn(() => 'challenge-token') }))
+vi.mock('@/lib/rateLimit', () => ({
+  OIDC_LIMIT: { bucket: 'oidc', limit: 20, windowSeconds: 300 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(),
+  getClientIp: vi.fn(() => '127.0.0.1'),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { startSession } from '@/lib/auth/sessions'
+import { createTwoFactorChallenge } from '@/lib/auth/twoFactor'
+import { createOidcHandoff } from '@/lib/auth/oidc'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { POST } from '../route'
+
+const db = prisma as any
+const USER = { id: 'u1', email: 'ada@example.com', tokenVersion: 2, totpEnabledAt: null }
+
+function req(body: unknown) {
+  return new NextRequest('http://localhost/api/auth/oidc/complete', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.stubEnv('JWT_SECRET', 'test-secret-for-oidc-complete')
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  ;(startSession as any).mockResolvedValue('session-token')
+  db.user.findUnique.mockResolvedValue(USER)
+  db.user.update.mockResolvedValue({})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('POST /api/auth/oidc/complete', () => {
+  it('trades a handoff for a session on this device', async () => {
+    const request = req({ handoff: createOidcHandoff(USER) })
+    const response = await POST(request)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ token: 'session-token', user: { id: 'u1', email: 'ada@example.com' } })
+    expect(startSession).toHaveBeenCalledWith(USER, request)
+  })
+
+  it('asks for the second factor when the account has 2FA on', async () => {
+    const user = { ...USER, totpEnabledAt: new Date() }
+    db.user.findUnique.mockResolvedValue(user)
+
+    const body = await (await POST(req({ handoff: createOidcHandoff(user) }))).json()
+
+    expect(body).toEqual({ twoFactorRequired: true, challengeToken: 'challenge-token' })
+    expect(createTwoFactorChallenge).toHaveBeenCalledWith(user)
+    expect(startSession).not.toHaveBeenCalled()
+  })
+
+  it('refuses a handoff from before a "sign out everywhere"', async () => {
+    const handoff = createOidcHandoff({ id: 'u1', tokenVersion: 1 })
+    expect((await POST(req({ handoff }))).status).toBe(401)
+    expect(startSession).not.toHaveBeenCalled()
+  })
+
+  it('refuses a session token passed off as a handoff, and junk', async () => {
+    expect((await POST(req({ handoff: 'not-a-token' }))).status).toBe(401)
+    expect((await POST(req({}))).status).toBe(401)
+    expect(db.user.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('is rate limited', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 42 })
+    ;(rateLimitExceededResponse as any).mockReturnValue(new Response(null, { status: 429 }))
+    expect((await POST(req({ handoff: createOidcHandoff(USER) }))).status).toBe(429)
+  })
+})
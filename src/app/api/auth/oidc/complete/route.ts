@@ -0,0 +1,49 @@
+// src/app/api/auth/oidc/complete/route.ts
+// The last step of identity-provider sign-in: the /auth/oidc page posts
+// the handoff the callback gave it and gets a session — or, for an
+// account with 2FA on, the same challenge a password login would get.
+// A provider sign-in is a first factor like a password is; it doesn't
+// skip the second.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { readOidcHandoff } from '@/lib/auth/oidc'
+import { startSession } from '@/lib/auth/sessions'
+import { createTwoFactorChallenge } from '@/lib/auth/twoFactor'
+import { AuthResponse, ErrorResponse, TwoFactorChallengeResponse } from '@/types/api'
+import { checkRateLimit, getClientIp, OIDC_LIMIT, rateLimitExceededResponse } from '@/lib/rateLimit'
+
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(getClientIp(request), OIDC_LIMIT.bucket, OIDC_LIMIT.limit, OIDC_LIMIT.windowSeconds)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const handoff = typeof body.handoff === 'string' ? readOidcHandoff(body.handoff) : null
+    const user = handoff ? await prisma.user.findUnique({ where: { id: handoff.userId } }) : null
+    // Same staleness rule as the 2FA challenge: a "sign out everywhere"
+    // inside the two minutes ends it.
+    if (!handoff || !user || user.tokenVersion !== handoff.tokenVersion) {
+      return NextResponse.json<ErrorResponse>({ error: 'This sign-in has expired. Please try again.' }, { status: 401 })
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json<TwoFactorChallengeResponse>({
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user),
+      })
+    }
+
+    prisma.user
+      .update({ where: { id: user.id }, data: { lastSeenAt: new Date() } })
+      .catch((err) => console.error('lastSeenAt stamp failed (non-critical):', err))
+
+    const token = await startSession(user, request)
+    return NextResponse.json<AuthResponse>({ token, user: { id: user.id, email: user.email } })
+  } catch (error) {
+    console.error('OIDC complete error:', error)
+    return NextResponse.json<ErrorResponse>({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+// src/app/api/auth/oidc/providers/__tests__/route.test.ts
+// The login page's buttons: ids and names, nothing a client shouldn't see.
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { GET } from '../route'
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('GET /api/auth/oidc/providers', () => {
+  it('lists configured providers by id and name only', async () => {
+    vi.stubEnv('OIDC_PROVIDERS', 'discord')
+    vi.stubEnv('OIDC_DISCORD_CLIENT_ID', 'client-id')
+    vi.stubEnv('OIDC_DISCORD_CLIENT_SECRET', 'client-secret')
+
+    const body = await (await GET()).json()
+
+    expect(body).toEqual({ providers: [{ id: 'discord', name: 'Discord' }] })
+  })
+
+  it('lists none when nothing is configured', async () => {
+    vi.stubEnv('OIDC_PROVIDERS', '')
+    expect((await (await GET()).json()).providers).toEqual([])
+  })
+})
@@ -0,0 +1,13 @@
+// src/app/api/auth/oidc/providers/route.ts
+// The identity providers this deployment offers, for the login page's
+// buttons. Public and config-only: ids and display names, never a client
+// id or an endpoint.
+
+import { NextResponse } from 'next/server'
+import { getOidcProviders } from '@/lib/auth/oidc'
+
+export async function GET() {
+  return NextResponse.json({
+    providers: getOidcProviders().map((provider) => ({ id: provider.id, name: provider.name })),
+  })
+}
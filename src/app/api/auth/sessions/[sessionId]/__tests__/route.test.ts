@@ -0,0 +1,62 @@
+// src/app/api/auth/sessions/[sessionId]/__tests__/route.test.ts
+// Sign one device out, scoped to the caller's own sessions.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/auth/sessions', () => ({ revokeSession: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  SESSION_REVOKE_LIMIT: { bucket: 'session-revoke', limit: 5, windowSeconds: 300 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(),
+}))
+
+import { getUser } from '@/lib/auth'
+import { revokeSession } from '@/lib/auth/sessions'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { DELETE } from '../route'
+
+function call(sessionId: string) {
+  return DELETE(
+    new NextRequest(`http://localhost/api/auth/sessions/${sessionId}`, { method: 'DELETE' }),
+    { params: { sessionId } }
+  )
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'u1', email: 'a@b.com', sessionId: 'mine' })
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  ;(revokeSession as any).mockResolvedValue(true)
+})
+
+describe('DELETE /api/auth/sessions/[sessionId]', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await call('other')).status).toBe(401)
+    expect(revokeSession).not.toHaveBeenCalled()
+  })
+
+  it('revokes another of the caller\'s devices', async () => {
+    const body = await (await call('other')).json()
+    expect(body).toEqual({ revoked: true, current: false })
+    expect(revokeSession).toHaveBeenCalledWith('u1', 'other')
+  })
+
+  it('says so when the caller signed themselves out', async () => {
+    expect((await (await call('mine')).json()).current).toBe(true)
+  })
+
+  it('is a 404 for a session that is missing or not theirs', async () => {
+    ;(revokeSession as any).mockResolvedValue(false)
+    expect((await call('someone-elses')).status).toBe(404)
+  })
+
+  it('is rate limited', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 42 })
+    ;(rateLimitExceededResponse as any).mockReturnValue(new Response(null, { status: 429 }))
+    expect((await call('other')).status).toBe(429)
+    expect(revokeSession).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,36 @@
+// src/app/api/auth/sessions/[sessionId]/route.ts
+// Sign one device out. Its token is refused from its next request on
+// (isTokenRevoked); every other session is untouched. Revoking the
+// caller's own current session is allowed — it's "sign out" done properly,
+// server-side — and the response says so.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getUser } from '@/lib/auth'
+import { revokeSession } from '@/lib/auth/sessions'
+import { SESSION_REVOKE_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limit = await checkRateLimit(user.userId, SESSION_REVOKE_LIMIT.bucket, SESSION_REVOKE_LIMIT.limit, SESSION_REVOKE_LIMIT.windowSeconds)
+    if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+    // Another user's session id reads as not found, not forbidden — the
+    // caller learns nothing about whether it exists.
+    if (!(await revokeSession(user.userId, params.sessionId))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ revoked: true, current: params.sessionId === user.sessionId })
+  } catch (error) {
+    console.error('Revoke session error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
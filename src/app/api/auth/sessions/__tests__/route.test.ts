@@ -0,0 +1,36 @@
+// src/app/api/auth/sessions/__tests__/route.test.ts
+// The caller's own devices, with the one asking marked.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/auth/sessions', () => ({ listSessions: vi.fn() }))
+
+import { getUser } from '@/lib/auth'
+import { listSessions } from '@/lib/auth/sessions'
+import { GET } from '../route'
+
+function req() {
+  return new NextRequest('http://localhost/api/auth/sessions')
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'u1', email: 'a@b.com', sessionId: 'sess2' })
+  ;(listSessions as any).mockResolvedValue([{ id: 'sess2', current: true }])
+})
+
+describe('GET /api/auth/sessions', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await GET(req())).status).toBe(401)
+    expect(listSessions).not.toHaveBeenCalled()
+  })
+
+  it('lists the caller\'s sessions, marking the current one', async () => {
+    const body = await (await GET(req())).json()
+    expect(body.sessions).toEqual([{ id: 'sess2', current: true }])
+    expect(listSessions).toHaveBeenCalledWith('u1', 'sess2')
+  })
+})
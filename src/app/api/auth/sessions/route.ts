@@ -0,0 +1,23 @@
+// src/app/api/auth/sessions/route.ts
+// The caller's signed-in devices (lib/auth/sessions.ts). Sessions minted
+// before the device list existed aren't on it — they carry no session id
+// — and only "sign out everywhere" reaches them.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getUser } from '@/lib/auth'
+import { listSessions } from '@/lib/auth/sessions'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sessions = await listSessions(user.userId, user.sessionId)
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    console.error('List sessions error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -15,8 +15,8 @@ vi.mock('@/lib/prisma', () => ({
 vi.mock('@/lib/password', () => ({
   hashPassword: vi.fn().mockResolvedValue('hashed-password'),
 }))
-vi.mock('@/lib/auth', () => ({
-  createToken: vi.fn().mockReturnValue('fake-jwt-token'),
+vi.mock('@/lib/auth/sessions', () => ({
+  startSession: vi.fn().mockResolvedValue('fake-jwt-token'),
 }))
 vi.mock('@/lib/analytics/events', () => ({
   recordEvent: vi.fn().mockResolvedValue(undefined),
@@ -25,6 +25,7 @@ vi.mock('@/lib/notifications/email-service', () => ({
   EmailService: { sendVerificationEmail: vi.fn().mockResolvedValue(undefined) },
 }))
 vi.mock('@/lib/payment/service', () => ({
+  WELCOME_CREDIT_CENTS: 100,
   addFunds: vi.fn().mockResolvedValue({ success: true, newBalance: 100 }),
 }))
 vi.mock('@/lib/rateLimit', () => ({
@@ -5,19 +5,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { hashPassword } from '@/lib/password'
-import { createToken } from '@/lib/auth'
+import { startSession } from '@/lib/auth/sessions'
 import { SignupRequest, AuthResponse, ErrorResponse } from '@/types/api'
 import { recordEvent } from '@/lib/analytics/events'
-import { addFunds } from '@/lib/payment/service'
+import { addFunds, WELCOME_CREDIT_CENTS } from '@/lib/payment/service'
 import { checkRateLimit, rateLimitExceededResponse, getClientIp, SIGNUP_LIMIT } from '@/lib/rateLimit'
 import { normalizeEmail } from '@/lib/auth/normalizeEmail'
 import { isUniqueConstraintViolation } from '@/lib/game/worldUpdaters/uniqueConstraintGuard'
 
-// One-time welcome credit so a new signup can actually play a scene
-// without funding a balance first — without this, balance defaults to 0
-// and the activation funnel dead-ends at the very first paywall.
-const WELCOME_CREDIT_CENTS = 100
-
 export async function POST(request: NextRequest) {
   try {
     const body: SignupRequest = await request.json()
@@ -103,14 +98,7 @@ export async function POST(request: NextRequest) {
 
     await recordEvent('SIGNUP', { userId: user.id })
 
-    // Create JWT token
-    const token = createToken({
-      userId: user.id,
-      email: user.email,
-      // Stamp the version this session is minted at (#98). Bumping
-      // User.tokenVersion invalidates every token carrying an older one.
-      tokenVersion: user.tokenVersion,
-    })
+    const token = await startSession(user, request)
 
     // Return token and user info
     return NextResponse.json<AuthResponse>(
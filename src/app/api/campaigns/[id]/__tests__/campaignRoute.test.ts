@@ -3,7 +3,7 @@
 // in particular is the highest-blast-radius destructive route in the app
 // (cascades across every piece of campaign data), and both routes use an
 // inline `membership.role !== 'ADMIN'` check rather than the shared
-// requireCampaignAdmin helper the rest of the app uses — worth pinning
+// requireCampaignPermission helper the rest of the app uses — worth pinning
 // down with a real test rather than leaving that inconsistency unverified.
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
@@ -10,7 +10,10 @@ import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
 vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn() }))
-vi.mock('@/lib/api/visibility', () => ({ visibleTo: vi.fn(() => ({})) }))
+vi.mock('@/lib/api/visibility', () => ({
+  visibleTo: vi.fn(() => ({})),
+  seesGmView: vi.fn((role: string) => role === 'ADMIN' || role === 'CO_HOST'),
+}))
 vi.mock('@/lib/game/visibility', () => ({
   redactGmNotes: vi.fn((x: any) => x),
   redactGmNotesList: vi.fn((list: any) => list),
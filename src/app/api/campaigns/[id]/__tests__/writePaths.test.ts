@@ -25,6 +25,7 @@ vi.mock('@/lib/prisma', () => ({
     campaignMembership: { findUnique: vi.fn(), findMany: vi.fn(async () => []) },
     campaign: { findUnique: vi.fn() },
     scene: { findUnique: vi.fn(), findFirst: vi.fn(), update: vi.fn(async () => ({})) },
+    resolutionReview: { findFirst: vi.fn(async () => null) },
     campaignInvite: { create: vi.fn(async () => ({ id: 'inv1', token: 't' })), findMany: vi.fn(async () => []) },
   },
 }))
@@ -0,0 +1,51 @@
+// src/app/api/campaigns/[id]/atlas/__tests__/route.test.ts
+// Any member reads the atlas; the role they hold is what decides how much
+// of it they see, so it has to reach loadAtlas unchanged.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn() }))
+vi.mock('@/lib/game/atlas/loadAtlas', () => ({ loadAtlas: vi.fn() }))
+
+import { getUser } from '@/lib/auth'
+import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { loadAtlas } from '@/lib/game/atlas/loadAtlas'
+import { GET } from '../route'
+
+const params = { params: { id: 'camp1' } }
+const request = () => new NextRequest('http://localhost/api/campaigns/camp1/atlas')
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'user1' })
+  ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
+  ;(loadAtlas as any).mockResolvedValue({ currentTurn: 3, locations: [] })
+})
+
+describe('GET /api/campaigns/:id/atlas', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await GET(request(), params)).status).toBe(401)
+  })
+
+  it('rejects a non-member', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue(null)
+    expect((await GET(request(), params)).status).toBe(403)
+    expect(loadAtlas).not.toHaveBeenCalled()
+  })
+
+  it("loads the atlas for the member's role", async () => {
+    const response = await GET(request(), params)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ atlas: { currentTurn: 3, locations: [] } })
+    expect(loadAtlas).toHaveBeenCalledWith('camp1', 'PLAYER')
+  })
+
+  it('reports a failure as a 500', async () => {
+    ;(loadAtlas as any).mockRejectedValue(new Error('boom'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect((await GET(request(), params)).status).toBe(500)
+  })
+})
@@ -0,0 +1,36 @@
+// src/app/api/campaigns/[id]/atlas/route.ts
+//
+// GET — the world atlas: the location graph laid out as a map, with
+// territory, supply routes, war fronts, weather, condition and the border
+// history for the turn slider. Any member may read it; what they see is
+// fog-of-war filtered by role in lib/game/atlas/loadAtlas.ts, the one
+// place that decides it.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getUser } from '@/lib/auth'
+import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { loadAtlas } from '@/lib/game/atlas/loadAtlas'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaignId = params.id
+    const membership = await getCampaignMembership(user.userId, campaignId)
+    if (!membership) {
+      return NextResponse.json({ error: 'Not a member of this campaign' }, { status: 403 })
+    }
+
+    const atlas = await loadAtlas(campaignId, membership.role)
+    return NextResponse.json({ atlas })
+  } catch (error) {
+    console.error('Get atlas error:', error)
+    return NextResponse.json({ error: 'Failed to get atlas' }, { status: 500 })
+  }
+}
@@ -7,7 +7,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     stateMutation: { findMany: vi.fn() },
@@ -17,7 +17,7 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { GET } from '../route'
 
@@ -30,7 +30,7 @@ function req(query = '') {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'admin1' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   db.stateMutation.findMany.mockResolvedValue([])
   db.loreCitation.findMany.mockResolvedValue([])
   db.aIValidationFailure.findMany.mockResolvedValue([])
@@ -44,7 +44,7 @@ describe('GET', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await GET(req(), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(db.stateMutation.findMany).not.toHaveBeenCalled()
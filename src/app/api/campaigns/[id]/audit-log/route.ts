@@ -11,7 +11,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 const AUDIT_LOG_ROW_LIMIT = 50
 
@@ -29,7 +29,7 @@ export async function GET(
     const { searchParams } = new URL(request.url)
     const sceneId = searchParams.get('sceneId')
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can view the audit log')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can view the audit log')
     if ('response' in adminCheck) return adminCheck.response
 
     const stateMutationWhere: any = { campaignId }
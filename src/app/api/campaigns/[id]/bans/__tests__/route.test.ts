@@ -7,7 +7,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     campaignBan: { findMany: vi.fn() },
@@ -16,7 +16,7 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 import { requireAuth } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { GET } from '../route'
 
@@ -29,12 +29,12 @@ function req() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(requireAuth as any).mockResolvedValue({ userId: 'admin1' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
 })
 
 describe('GET', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await GET(req(), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(db.campaignBan.findMany).not.toHaveBeenCalled()
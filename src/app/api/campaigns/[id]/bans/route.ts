@@ -4,7 +4,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
 
 export async function GET(
@@ -15,7 +15,7 @@ export async function GET(
     const user = await requireAuth(request)
     const campaignId = params.id
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only admins can view bans')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'members.manage', 'Only admins can view bans')
     if ('response' in adminCheck) return adminCheck.response
 
     const bans = await prisma.campaignBan.findMany({
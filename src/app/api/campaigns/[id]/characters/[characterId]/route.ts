@@ -1,13 +1,13 @@
 // src/app/api/campaigns/[id]/characters/[characterId]/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { UserRole } from '@prisma/client'
 import { getUser } from '@/lib/auth'
 import { validateStats } from '@/lib/game/advancement'
 import { summarizeCapabilities } from '@/lib/game/capabilities'
 import { summarizeDebts } from '@/lib/game/debts'
 import { summarizeStandings } from '@/lib/game/standing'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 import { ensureContactNpcStubs } from '@/lib/wiki/contactNpcStubs'
 
 // Fields the owning player can edit directly — cosmetic/narrative only.
@@ -71,7 +71,10 @@ export async function GET(
           debts: { where: { status: 'OUTSTANDING' }, orderBy: { createdAt: 'asc' } },
           factionStandings: {
             include: { faction: { select: { name: true, isActive: true, isDiscovered: true } } }
-          }
+          },
+          // Just names and ids — the sheet links to each faction's orders
+          // screen, which decides what the viewer may see there.
+          ledFactions: { where: { isActive: true }, select: { id: true, name: true }, orderBy: { name: 'asc' } },
         }
       }),
     ])
@@ -148,7 +151,7 @@ export async function PATCH(
       )
     }
 
-    const isAdmin = membership.role === UserRole.ADMIN
+    const isAdmin = can(membership.role, 'world.edit')
 
     if (character.userId !== user.userId && !isAdmin) {
       return NextResponse.json(
@@ -253,7 +256,7 @@ export async function DELETE(
       )
     }
 
-    if (character.userId !== user.userId && membership.role !== UserRole.ADMIN) {
+    if (character.userId !== user.userId && !can(membership.role, 'world.edit')) {
       return NextResponse.json(
         { error: 'You can only delete your own characters' },
         { status: 403 }
@@ -6,6 +6,7 @@ import { validateStats } from '@/lib/game/advancement'
 import { isWorldSeeding, SEEDING_MESSAGE } from '@/lib/lore/seedingGate'
 import { recordEvent } from '@/lib/analytics/events'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 import { createCharacter, StartingLoadoutError, type CreateCharacterBody } from '@/lib/game/characterCreation'
 
 export async function POST(
@@ -54,6 +55,9 @@ export async function POST(
         { status: 403 }
       )
     }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json({ error: 'Spectators can\'t create characters' }, { status: 403 })
+    }
 
     const character = await createCharacter(campaignId, user.userId, body)
 
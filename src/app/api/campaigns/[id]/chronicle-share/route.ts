@@ -7,14 +7,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { UserRole } from '@prisma/client'
 import crypto from 'crypto'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 import { handleRouteError } from '@/lib/api/errors'
 
 async function requireAdmin(userId: string, campaignId: string) {
   const membership = await getCampaignMembership(userId, campaignId)
-  return membership?.role === UserRole.ADMIN
+  return can(membership?.role, 'campaign.settings')
 }
 
 export async function GET(
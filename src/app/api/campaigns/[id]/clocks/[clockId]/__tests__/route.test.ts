@@ -9,14 +9,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: { clock: { update: vi.fn(), findUnique: vi.fn() } },
 }))
 vi.mock('@/lib/realtime/pusher-server', () => ({ PusherServer: vi.fn() }))
 
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { PusherServer } from '@/lib/realtime/pusher-server'
 import { PATCH, POST } from '../route'
@@ -42,13 +42,13 @@ function tickRequest(action: string) {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'admin1' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   ;(PusherServer as any).mockReturnValue(null)
 })
 
 describe('PATCH', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await PATCH(patchRequest({ name: 'New' }), { params: { id: 'camp1', clockId: 'clock1' } })
     expect(response.status).toBe(403)
     expect(db.clock.update).not.toHaveBeenCalled()
@@ -84,7 +84,7 @@ describe('PATCH', () => {
 
 describe('POST (tick/untick)', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(tickRequest('tick'), { params: { id: 'camp1', clockId: 'clock1' } })
     expect(response.status).toBe(403)
   })
@@ -12,11 +12,11 @@ vi.mock('@/lib/prisma', () => ({
   },
 }))
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { GET } from '../route'
 
 const db = prisma as any
@@ -36,7 +36,7 @@ function baseClock(overrides: Record<string, unknown> = {}) {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'user1', email: 'user1@example.com' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   db.worldMeta.findUnique.mockResolvedValue({
     simulationTurn: 5, tension: 25, totalElapsedGameHours: 0, campaign: { calendarConfig: null },
   })
@@ -45,7 +45,7 @@ beforeEach(() => {
 
 describe('GET /campaigns/[id]/clocks/[clockId]/reasoning', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await GET(req(), { params: { id: 'camp1', clockId: 'clock1' } })
     expect(response.status).toBe(403)
     expect(db.clock.findFirst).not.toHaveBeenCalled()
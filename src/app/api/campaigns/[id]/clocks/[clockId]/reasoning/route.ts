@@ -9,7 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { explainClockAdvancement, FactionForClockAdvancement } from '@/lib/game/tick/clockTick'
 import { TENSION_BASELINE } from '@/lib/game/tick/tension'
 import { SEASON_MODIFIERS } from '@/lib/game/tick/seasonTick'
@@ -40,7 +40,7 @@ export async function GET(
 
     const { id: campaignId, clockId } = params
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can preview clock reasoning')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can preview clock reasoning')
     if ('response' in adminCheck) return adminCheck.response
 
     const [clock, worldMeta] = await Promise.all([
@@ -3,7 +3,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
 import { PusherServer } from '@/lib/realtime/pusher-server'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 export async function PATCH(
   request: NextRequest,
@@ -19,7 +19,7 @@ export async function PATCH(
     const body = await request.json()
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can update clocks')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can update clocks')
     if ('response' in adminCheck) return adminCheck.response
 
     // Update Clock
@@ -87,7 +87,7 @@ export async function POST(
     const { action } = await request.json() // action: 'tick' or 'untick'
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can modify clocks')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can modify clocks')
     if ('response' in adminCheck) return adminCheck.response
 
     // Get current clock state
@@ -7,13 +7,13 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn(), requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn(), requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: { clock: { findMany: vi.fn(), create: vi.fn() } },
 }))
 
 import { getUser } from '@/lib/auth'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { GET, POST } from '../route'
 
@@ -35,7 +35,7 @@ beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'player1' })
   ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
 })
 
 describe('GET', () => {
@@ -84,7 +84,7 @@ describe('POST', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(postRequest({ name: 'Doom Clock' }), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(db.clock.create).not.toHaveBeenCalled()
@@ -1,11 +1,10 @@
 // src/app/api/campaigns/[id]/clocks/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { UserRole } from '@prisma/client'
-import { visibleTo } from '@/lib/api/visibility'
+import { visibleTo, seesGmView } from '@/lib/api/visibility'
 import { getUser } from '@/lib/auth'
 import { redactGmNotesList } from '@/lib/game/visibility'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 // GET /api/campaigns/:id/clocks - List all clocks for a campaign
 export async function GET(
@@ -39,7 +38,7 @@ export async function GET(
       orderBy: { createdAt: 'desc' },
     })
 
-    return NextResponse.json({ clocks: redactGmNotesList(clocks, membership.role === UserRole.ADMIN) })
+    return NextResponse.json({ clocks: redactGmNotesList(clocks, seesGmView(membership.role)) })
   } catch (error) {
     console.error('Get clocks error:', error)
     return NextResponse.json(
@@ -64,7 +63,7 @@ export async function POST(
     const body = await request.json()
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can create clocks')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can create clocks')
     if ('response' in adminCheck) return adminCheck.response
 
     // Validate required fields
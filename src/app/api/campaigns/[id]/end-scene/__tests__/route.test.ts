@@ -10,7 +10,10 @@ import { NextRequest } from 'next/server'
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
 vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
-  prisma: { scene: { findUnique: vi.fn(), update: vi.fn() } },
+  prisma: {
+    scene: { findUnique: vi.fn(), update: vi.fn() },
+    resolutionReview: { findFirst: vi.fn() },
+  },
 }))
 vi.mock('@/lib/realtime/pusher-server', () => ({ default: vi.fn() }))
 vi.mock('@/lib/rateLimit', () => ({
@@ -24,6 +27,8 @@ vi.mock('@/lib/game/resolutionBilling', () => ({
 }))
 vi.mock('@/lib/game/sceneResolver', () => ({ resolveScene: vi.fn() }))
 vi.mock('@/lib/game/worldTurn', () => ({ runWorldTurnIfDue: vi.fn() }))
+vi.mock('@/lib/export/campaignFork', () => ({ captureWorldClock: vi.fn() }))
+vi.mock('@/lib/webhooks/webhookQueue', () => ({ emitCampaignEvent: vi.fn() }))
 
 import { requireAuth } from '@/lib/auth'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
@@ -33,10 +38,15 @@ import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
 import { preflightSceneBilling, chargeForSceneResolution } from '@/lib/game/resolutionBilling'
 import { resolveScene } from '@/lib/game/sceneResolver'
 import { runWorldTurnIfDue } from '@/lib/game/worldTurn'
+import { captureWorldClock } from '@/lib/export/campaignFork'
+import { emitCampaignEvent } from '@/lib/webhooks/webhookQueue'
 import { POST } from '../route'
 
 const db = prisma as any
 
+const clock = { currentTurnNumber: 9, simulationTurn: 4, totalElapsedGameHours: 30, hoursSinceWorldTurn: 6, currentInGameDate: 'Day 2' }
+const resolvedData = { status: 'RESOLVED', resolvedAt: expect.any(Date), clockAtResolution: clock }
+
 function req(body: unknown) {
   return new NextRequest('http://localhost/api/campaigns/camp1/end-scene', {
     method: 'POST',
@@ -54,6 +64,9 @@ beforeEach(() => {
   ;(chargeForSceneResolution as any).mockResolvedValue({ ok: true })
   ;(PusherServer as any).mockReturnValue(null)
   db.scene.update.mockResolvedValue({ id: 'scene1' })
+  db.resolutionReview.findFirst.mockResolvedValue(null)
+  ;(resolveScene as any).mockResolvedValue({ success: true, reviewId: null })
+  ;(captureWorldClock as any).mockResolvedValue(clock)
 })
 
 describe('POST', () => {
@@ -103,12 +116,29 @@ describe('POST', () => {
     const response = await POST(req({ sceneId: 'scene1' }), { params: { id: 'camp1' } })
     expect(response.status).toBe(200)
     expect(resolveScene).not.toHaveBeenCalled()
-    expect(db.scene.update).toHaveBeenCalledWith({ where: { id: 'scene1' }, data: { status: 'RESOLVED' } })
+    expect(db.scene.update).toHaveBeenCalledWith({ where: { id: 'scene1' }, data: resolvedData })
+  })
+
+  it('tells the campaign webhooks once the scene is marked resolved', async () => {
+    db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'AWAITING_ACTIONS', playerActions: [], sceneNumber: 3 })
+    await POST(req({ sceneId: 'scene1' }), { params: { id: 'camp1' } })
+    expect(emitCampaignEvent).toHaveBeenCalledWith('camp1', { type: 'SCENE_RESOLVED', data: { sceneId: 'scene1', sceneNumber: 3 } })
+    expect((emitCampaignEvent as any).mock.invocationCallOrder[0]).toBeGreaterThan(db.scene.update.mock.invocationCallOrder[0])
+  })
+
+  it('stamps the fork checkpoint after the final resolution and world turn have run', async () => {
+    db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'AWAITING_ACTIONS', playerActions: [{ id: 'a1' }], sceneNumber: 3 })
+    ;(runWorldTurnIfDue as any).mockResolvedValue({ ran: true })
+
+    await POST(req({ sceneId: 'scene1' }), { params: { id: 'camp1' } })
+
+    expect(captureWorldClock).toHaveBeenCalledWith('camp1')
+    expect((captureWorldClock as any).mock.invocationCallOrder[0])
+      .toBeGreaterThan((runWorldTurnIfDue as any).mock.invocationCallOrder[0])
   })
 
   it('triggers final resolution and the world turn when actions are pending', async () => {
     db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'AWAITING_ACTIONS', playerActions: [{ id: 'a1' }], sceneNumber: 3 })
-    ;(resolveScene as any).mockResolvedValue(undefined)
     ;(runWorldTurnIfDue as any).mockResolvedValue({ ran: true })
 
     const response = await POST(req({ sceneId: 'scene1' }), { params: { id: 'camp1' } })
@@ -130,7 +160,7 @@ describe('POST', () => {
     const response = await POST(req({ sceneId: 'scene1' }), { params: { id: 'camp1' } })
 
     expect(response.status).toBe(200)
-    expect(db.scene.update).toHaveBeenCalledWith({ where: { id: 'scene1' }, data: { status: 'RESOLVED' } })
+    expect(db.scene.update).toHaveBeenCalledWith({ where: { id: 'scene1' }, data: resolvedData })
   })
 
   it('still succeeds even when the metered charge fails (best-effort)', async () => {
@@ -142,6 +172,34 @@ describe('POST', () => {
     expect(response.status).toBe(200)
   })
 
+  it('409s while a resolution is awaiting GM review', async () => {
+    db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'RESOLVING', playerActions: [{ id: 'a1' }], sceneNumber: 3 })
+    db.resolutionReview.findFirst.mockResolvedValue({ id: 'review1' })
+
+    const response = await POST(req({ sceneId: 'scene1' }), { params: { id: 'camp1' } })
+
+    expect(response.status).toBe(409)
+    expect(resolveScene).not.toHaveBeenCalled()
+    expect(db.scene.update).not.toHaveBeenCalled()
+  })
+
+  it('leaves the scene open when the final resolution is held for GM review', async () => {
+    db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'AWAITING_ACTIONS', playerActions: [{ id: 'a1' }], sceneNumber: 3 })
+    ;(resolveScene as any).mockResolvedValue({ success: true, reviewId: 'review1' })
+
+    const response = await POST(req({ sceneId: 'scene1' }), { params: { id: 'camp1' } })
+    const body = await response.json()
+
+    // Publishing the review finishes the end — nothing is charged,
+    // stamped or announced yet.
+    expect(response.status).toBe(202)
+    expect(body).toMatchObject({ pendingReview: true, reviewId: 'review1' })
+    expect(runWorldTurnIfDue).not.toHaveBeenCalled()
+    expect(chargeForSceneResolution).not.toHaveBeenCalled()
+    expect(db.scene.update).not.toHaveBeenCalled()
+    expect(emitCampaignEvent).not.toHaveBeenCalled()
+  })
+
   it('returns 500 on an unexpected error', async () => {
     db.scene.findUnique.mockRejectedValue(new Error('db down'))
     const response = await POST(req({ sceneId: 'scene1' }), { params: { id: 'camp1' } })
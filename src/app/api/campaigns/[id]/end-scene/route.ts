@@ -6,11 +6,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
 import { ErrorResponse } from '@/types/api'
 import { prisma } from '@/lib/prisma'
-import { SceneStatus } from '@prisma/client'
-import PusherServer from '@/lib/realtime/pusher-server'
 import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 import { handleRouteErrorWithDetails } from '@/lib/api/errors'
+import { completeSceneEnd } from '@/lib/game/sceneEnd'
 
 // 60s = Vercel Hobby-tier ceiling, safe on every plan. See scene/route.ts for
 // the full rationale — this route awaits the same resolveScene() call.
@@ -52,6 +52,9 @@ export async function POST(
         { status: 403 }
       )
     }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json<ErrorResponse>({ error: 'Spectators can\'t end scenes' }, { status: 403 })
+    }
 
     // 2. Verify scene exists and belongs to campaign
     const scene = await prisma.scene.findUnique({
@@ -75,13 +78,27 @@ export async function POST(
       )
     }
 
+    // A GM co-pilot review already holds this scene's last exchange (see
+    // lib/game/resolutionReview.ts). Ending now would narrate over it or
+    // strand it; the admin publishes or discards it first.
+    const pendingReview = await prisma.resolutionReview.findFirst({
+      where: { sceneId, status: 'PENDING' },
+      select: { id: true }
+    })
+    if (pendingReview) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'This scene has a resolution awaiting GM review. Publish or discard it first.' },
+        { status: 409 }
+      )
+    }
+
     // 2.5. Billing is metered on real AI cost (resolutionBilling.ts sums
     // AICostEntry rows for this scene), which the FINAL resolution call
     // below hasn't recorded yet — so this preflight check is a
     // conservative estimate (cost so far + a buffer), just to block an
     // obviously unaffordable attempt before spending on one more call.
     // The real charge happens after resolution, once its cost is known.
-    const { preflightSceneBilling, chargeForSceneResolution } = await import('@/lib/game/resolutionBilling')
+    const { preflightSceneBilling } = await import('@/lib/game/resolutionBilling')
     const preflight = await preflightSceneBilling(sceneId)
     if (!preflight.ok) {
       return NextResponse.json<ErrorResponse>(
@@ -107,7 +124,23 @@ export async function POST(
         // resolves the scene's current thread instead of leaving it hanging
         // or (previously) silently flipping to RESOLVED with no narration
         // at all when the un-forced resolveScene call threw below.
-        await resolveScene(campaignId, sceneId, true, true)
+        const resolution = await resolveScene(campaignId, sceneId, true, true)
+
+        // GM co-pilot mode: the final narration is waiting on the admin.
+        // Publishing it finishes the scene end (the world turn, the
+        // charge, RESOLVED) — none of that has anything to act on yet.
+        if (resolution.reviewId) {
+          console.log('📝 Final resolution held for GM review')
+          return NextResponse.json(
+            {
+              success: true,
+              pendingReview: true,
+              reviewId: resolution.reviewId,
+              message: 'The final resolution is waiting on GM review. The scene ends when it is published.'
+            },
+            { status: 202 }
+          )
+        }
         console.log('✅ Final resolution complete')
 
         // World turn paced by in-game time — scene ending doesn't itself
@@ -121,36 +154,9 @@ export async function POST(
       }
     }
 
-    // 3.5. The real, metered charge: sums every AICostEntry this scene
-    // recorded across all its exchanges plus the final call above. Runs
-    // regardless of whether resolution just succeeded or failed — the AI
-    // spend already happened either way. Best-effort: a failure here
-    // (e.g. a balance that ran out between the preflight estimate and now)
-    // is logged, not blocking — the scene has already been resolved and
-    // there's no undoing the AI spend by refusing to mark it RESOLVED.
-    const charge = await chargeForSceneResolution(campaignId, sceneId)
-    if (!charge.ok) {
-      console.error('⚠️ Scene resolved but metered billing failed:', charge.error, charge.details)
-    }
-
-    // 4. Mark scene as RESOLVED
-    await prisma.scene.update({
-      where: { id: sceneId },
-      data: {
-        status: 'RESOLVED' as SceneStatus
-      }
-    })
-
-    console.log('✅ Scene ended and marked as RESOLVED')
-
-    // 4. Broadcast scene end event
-    const pusher = PusherServer()
-    if (pusher) {
-      await pusher.trigger(`campaign-${campaignId}`, 'scene:ended', {
-        sceneId,
-        sceneNumber: scene.sceneNumber
-      })
-    }
+    // 4. Charge, mark RESOLVED with the fork checkpoint, and tell the
+    // table and the campaign's webhooks — see lib/game/sceneEnd.ts.
+    await completeSceneEnd(campaignId, sceneId, scene.sceneNumber)
 
     return NextResponse.json({
       success: true,
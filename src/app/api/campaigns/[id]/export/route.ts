@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { CampaignExporter } from '@/lib/export/campaign-exporter';
 import { verifyAuth } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
-import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 /**
  * GET /api/campaigns/[id]/export
- * Export campaign data as JSON
+ * Export the campaign's full world and history as one versioned JSON file
+ * (see lib/export/exportFormat.ts) — always whole, since a partial export
+ * can't be imported back as a playable campaign.
  */
 export async function GET(
   request: NextRequest,
@@ -20,45 +21,17 @@ export async function GET(
 
     const { id: campaignId } = params;
 
-    // Verify user has access to this campaign
-    const membership = await getCampaignMembership(user.userId, campaignId);
+    // Admin-only, the same gate as forking: the export is the full graph —
+    // every whisper, every private note, gmNotes and every hidden NPC,
+    // faction and location — so a member who may not see those in play
+    // (a spectator, a guest) may not download them either.
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can export a campaign');
+    if ('response' in adminCheck) return adminCheck.response;
 
-    if (!membership) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
-    }
-
-    // Parse query parameters for export options
-    const searchParams = request.nextUrl.searchParams;
-    const includeCharacters = searchParams.get('characters') !== 'false';
-    const includeScenes = searchParams.get('scenes') !== 'false';
-    const includeTimeline = searchParams.get('timeline') !== 'false';
-    const includeMessages = searchParams.get('messages') !== 'false';
-    const includeNotes = searchParams.get('notes') !== 'false';
-    const includeNPCs = searchParams.get('npcs') !== 'false';
-    const includeFactions = searchParams.get('factions') !== 'false';
-    const includeClocks = searchParams.get('clocks') !== 'false';
-    const includeMoves = searchParams.get('moves') !== 'false';
-    const includeWorldMeta = searchParams.get('worldMeta') !== 'false';
-
-    const exportData = await CampaignExporter.exportCampaign(campaignId, {
-      includeCharacters,
-      includeScenes,
-      includeTimeline,
-      includeMessages,
-      includeNotes,
-      includeNPCs,
-      includeFactions,
-      includeClocks,
-      includeMoves,
-      includeWorldMeta,
-    });
-
-    // Return as downloadable JSON file
-    const campaign = await prisma.campaign.findUnique({
-      where: { id: campaignId },
-    });
+    const exportData = await CampaignExporter.exportCampaign(campaignId);
 
-    const filename = `${campaign?.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_export_${new Date().toISOString().split('T')[0]}.json`;
+    const title = String(exportData.campaign.title ?? 'campaign');
+    const filename = `${title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_export_${new Date().toISOString().split('T')[0]}.json`;
 
     return new NextResponse(JSON.stringify(exportData, null, 2), {
       headers: {
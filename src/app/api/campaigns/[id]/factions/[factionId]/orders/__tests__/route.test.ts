@@ -0,0 +1,149 @@
+// src/app/api/campaigns/[id]/factions/[factionId]/orders/__tests__/route.test.ts
+// Only the player whose living character leads the faction gives it
+// orders; a GM may read them. What an order does is factionOrders/' job
+// and tested there — this pins who may reach it, and what reaches it.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn() }))
+vi.mock('@/lib/prisma', () => ({ prisma: { faction: { findFirst: vi.fn() } } }))
+vi.mock('@/lib/game/factionOrders/queue', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/game/factionOrders/queue')>()
+  return {
+    parseFactionOrderBody: actual.parseFactionOrderBody,
+    loadFactionOrdersView: vi.fn(),
+    queueFactionOrder: vi.fn(),
+    cancelFactionOrder: vi.fn(),
+  }
+})
+
+import { getUser } from '@/lib/auth'
+import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { prisma } from '@/lib/prisma'
+import { cancelFactionOrder, loadFactionOrdersView, queueFactionOrder } from '@/lib/game/factionOrders/queue'
+import { DELETE, GET, POST } from '../route'
+
+const params = { params: { id: 'camp1', factionId: 'fac1' } }
+const url = 'http://localhost/api/campaigns/camp1/factions/fac1/orders'
+const post = (body: unknown) => new NextRequest(url, { method: 'POST', body: JSON.stringify(body) })
+
+const leaderOf = (userId: string, isAlive = true) => ({
+  leaderCharacter: { id: 'char1', userId, isAlive },
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'user1' })
+  ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
+  ;(prisma.faction.findFirst as any).mockResolvedValue(leaderOf('user1'))
+  ;(loadFactionOrdersView as any).mockResolvedValue({ nextTurn: 5 })
+  ;(queueFactionOrder as any).mockResolvedValue({ ok: true, order: { id: 'o1', summary: 'Call a heavy levy' } })
+  ;(cancelFactionOrder as any).mockResolvedValue(true)
+})
+
+describe('GET /api/campaigns/:id/factions/:factionId/orders', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await GET(new NextRequest(url), params)).status).toBe(401)
+  })
+
+  it('rejects a non-member', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue(null)
+    expect((await GET(new NextRequest(url), params)).status).toBe(403)
+  })
+
+  it('404s a faction from another campaign', async () => {
+    ;(prisma.faction.findFirst as any).mockResolvedValue(null)
+    expect((await GET(new NextRequest(url), params)).status).toBe(404)
+    expect(prisma.faction.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'fac1', campaignId: 'camp1' } })
+    )
+  })
+
+  it('shows the leader their orders, and that they may give them', async () => {
+    const response = await GET(new NextRequest(url), params)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ orders: { nextTurn: 5 }, canCommand: true })
+    expect(loadFactionOrdersView).toHaveBeenCalledWith('camp1', 'fac1', 'PLAYER')
+  })
+
+  it('keeps another player out', async () => {
+    ;(prisma.faction.findFirst as any).mockResolvedValue(leaderOf('someone-else'))
+    expect((await GET(new NextRequest(url), params)).status).toBe(403)
+    expect(loadFactionOrdersView).not.toHaveBeenCalled()
+  })
+
+  it('lets a GM read them without commanding', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'ADMIN' })
+    ;(prisma.faction.findFirst as any).mockResolvedValue(leaderOf('someone-else'))
+    const response = await GET(new NextRequest(url), params)
+    expect(response.status).toBe(200)
+    expect((await response.json()).canCommand).toBe(false)
+  })
+})
+
+describe('POST /api/campaigns/:id/factions/:factionId/orders', () => {
+  it('queues the leader\'s order, issued by their character', async () => {
+    const response = await POST(post({ type: 'MUSTER', levy: 'HEAVY' }), params)
+    expect(response.status).toBe(201)
+    expect(queueFactionOrder).toHaveBeenCalledWith(
+      'camp1',
+      'fac1',
+      expect.objectContaining({ type: 'MUSTER', amount: 10, issuedByCharacterId: 'char1' })
+    )
+  })
+
+  it('refuses anyone who is not the living leader', async () => {
+    ;(prisma.faction.findFirst as any).mockResolvedValue(leaderOf('user1', false))
+    expect((await POST(post({ type: 'MUSTER', levy: 'HEAVY' }), params)).status).toBe(403)
+
+    ;(prisma.faction.findFirst as any).mockResolvedValue({ leaderCharacter: null })
+    expect((await POST(post({ type: 'MUSTER', levy: 'HEAVY' }), params)).status).toBe(403)
+    expect(queueFactionOrder).not.toHaveBeenCalled()
+  })
+
+  it('refuses a GM — the throne is the player\'s', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'ADMIN' })
+    ;(prisma.faction.findFirst as any).mockResolvedValue(leaderOf('someone-else'))
+    expect((await POST(post({ type: 'MUSTER', levy: 'HEAVY' }), params)).status).toBe(403)
+  })
+
+  it('refuses a leader who is only spectating', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'SPECTATOR' })
+    expect((await POST(post({ type: 'MUSTER', levy: 'HEAVY' }), params)).status).toBe(403)
+  })
+
+  it('rejects a malformed order before checking it against the world', async () => {
+    const response = await POST(post({ type: 'RAISE_DRAGONS' }), params)
+    expect(response.status).toBe(400)
+    expect(queueFactionOrder).not.toHaveBeenCalled()
+  })
+
+  it('passes on why the faction cannot do it', async () => {
+    ;(queueFactionOrder as any).mockResolvedValue({ ok: false, reason: 'The treasury cannot pay for the work' })
+    const response = await POST(post({ type: 'FORTIFY', locationId: 'loc1' }), params)
+    expect(response.status).toBe(409)
+    expect((await response.json()).error).toBe('The treasury cannot pay for the work')
+  })
+})
+
+describe('DELETE /api/campaigns/:id/factions/:factionId/orders', () => {
+  it('withdraws the queued order', async () => {
+    const response = await DELETE(new NextRequest(url, { method: 'DELETE' }), params)
+    expect(response.status).toBe(200)
+    expect(cancelFactionOrder).toHaveBeenCalledWith('camp1', 'fac1')
+  })
+
+  it('404s when nothing is queued', async () => {
+    ;(cancelFactionOrder as any).mockResolvedValue(false)
+    expect((await DELETE(new NextRequest(url, { method: 'DELETE' }), params)).status).toBe(404)
+  })
+
+  it('refuses anyone but the leader', async () => {
+    ;(prisma.faction.findFirst as any).mockResolvedValue(leaderOf('someone-else'))
+    expect((await DELETE(new NextRequest(url, { method: 'DELETE' }), params)).status).toBe(403)
+    expect(cancelFactionOrder).not.toHaveBeenCalled()
+  })
+})
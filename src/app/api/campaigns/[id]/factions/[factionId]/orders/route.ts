@@ -0,0 +1,134 @@
+// src/app/api/campaigns/[id]/factions/[factionId]/orders/route.ts
+//
+// The faction orders screen (lib/game/factionOrders/): a PC leader's one
+// order per world turn for the faction they lead.
+//
+//   GET    — the screen: the faction in bands, the order queued for the
+//            next world turn, past orders and what came of them, and what
+//            can be ordered. The leader's player, or a world.edit member
+//            (read-only — a GM watches the throne, they don't sit on it).
+//   POST   — queue an order for the next world turn, replacing any already
+//            queued. Checked against the faction's real numbers now, and
+//            again when the tick carries it out.
+//   DELETE — withdraw the queued order.
+//
+// Only the player whose LIVING character leads the faction
+// (Faction.leaderCharacterId) may give orders, and only while they hold
+// play.act — a leader demoted to spectator watches like one. Not admins
+// either: the same line the token route draws, a player's choices are
+// their own.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getUser } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
+import type { CampaignRole } from '@/lib/api/visibility'
+import {
+  cancelFactionOrder,
+  loadFactionOrdersView,
+  parseFactionOrderBody,
+  queueFactionOrder,
+} from '@/lib/game/factionOrders/queue'
+
+type Params = { params: { id: string; factionId: string } }
+
+type Authorization =
+  | { response: NextResponse }
+  | { role: CampaignRole; leads: boolean; commandingCharacterId: string | null }
+
+/**
+ * Who the caller is to this faction, or the response that turns them away.
+ * The leader's character id is set only when they may give orders.
+ */
+async function authorize(request: NextRequest, { params }: Params): Promise<Authorization> {
+  const user = await getUser(request)
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const membership = await getCampaignMembership(user.userId, params.id)
+  if (!membership) {
+    return { response: NextResponse.json({ error: 'Not a member of this campaign' }, { status: 403 }) }
+  }
+
+  const faction = await prisma.faction.findFirst({
+    where: { id: params.factionId, campaignId: params.id },
+    select: { leaderCharacter: { select: { id: true, userId: true, isAlive: true } } },
+  })
+  if (!faction) {
+    return { response: NextResponse.json({ error: 'Faction not found' }, { status: 404 }) }
+  }
+
+  const leader = faction.leaderCharacter
+  const leads = !!leader && leader.isAlive && leader.userId === user.userId
+  return {
+    role: membership.role,
+    leads,
+    commandingCharacterId: leads && can(membership.role, 'play.act') ? leader!.id : null,
+  }
+}
+
+export async function GET(request: NextRequest, context: Params) {
+  try {
+    const auth = await authorize(request, context)
+    if ('response' in auth) return auth.response
+    if (!auth.leads && !can(auth.role, 'world.edit')) {
+      return NextResponse.json({ error: 'Only the faction\'s leader can see its orders' }, { status: 403 })
+    }
+
+    const view = await loadFactionOrdersView(context.params.id, context.params.factionId, auth.role)
+    if (!view) {
+      return NextResponse.json({ error: 'Faction not found' }, { status: 404 })
+    }
+    return NextResponse.json({ orders: view, canCommand: auth.commandingCharacterId !== null })
+  } catch (error) {
+    console.error('Get faction orders error:', error)
+    return NextResponse.json({ error: 'Failed to get faction orders' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest, context: Params) {
+  try {
+    const auth = await authorize(request, context)
+    if ('response' in auth) return auth.response
+    if (!auth.commandingCharacterId) {
+      return NextResponse.json({ error: 'Only the faction\'s leader can give it orders' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = parseFactionOrderBody(body, auth.commandingCharacterId)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const result = await queueFactionOrder(context.params.id, context.params.factionId, parsed.draft)
+    if (!result.ok) {
+      // Not a malformed request — the faction can't do it right now.
+      return NextResponse.json({ error: result.reason }, { status: 409 })
+    }
+    return NextResponse.json({ order: result.order }, { status: 201 })
+  } catch (error) {
+    console.error('Queue faction order error:', error)
+    return NextResponse.json({ error: 'Failed to queue the order' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, context: Params) {
+  try {
+    const auth = await authorize(request, context)
+    if ('response' in auth) return auth.response
+    if (!auth.commandingCharacterId) {
+      return NextResponse.json({ error: 'Only the faction\'s leader can give it orders' }, { status: 403 })
+    }
+
+    const withdrawn = await cancelFactionOrder(context.params.id, context.params.factionId)
+    if (!withdrawn) {
+      return NextResponse.json({ error: 'No order is queued for the next turn' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Withdraw faction order error:', error)
+    return NextResponse.json({ error: 'Failed to withdraw the order' }, { status: 500 })
+  }
+}
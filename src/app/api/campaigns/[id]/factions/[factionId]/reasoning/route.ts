@@ -9,7 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { explainFactionGoalReassessment } from '@/lib/game/tick/factionTick'
 import { explainWarMomentum } from '@/lib/game/tick/warTick'
 import { findRivalId } from '@/lib/game/tick/types'
@@ -79,7 +79,7 @@ export async function GET(
 
     const { id: campaignId, factionId } = params
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can preview faction reasoning')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can preview faction reasoning')
     if ('response' in adminCheck) return adminCheck.response
 
     const [faction, worldMeta] = await Promise.all([
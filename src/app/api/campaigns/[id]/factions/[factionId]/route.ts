@@ -2,7 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 export async function PATCH(
   request: NextRequest,
@@ -18,7 +18,7 @@ export async function PATCH(
     const body = await request.json()
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can update factions')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can update factions')
     if ('response' in adminCheck) return adminCheck.response
 
     // A faction has at most one leader either way — assigning a PC leader
@@ -77,7 +77,7 @@ export async function DELETE(
     const { id: campaignId, factionId } = params
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can delete factions')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can delete factions')
     if ('response' in adminCheck) return adminCheck.response
 
     // Delete Faction
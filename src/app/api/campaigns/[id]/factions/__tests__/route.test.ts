@@ -10,11 +10,11 @@ import { NextRequest } from 'next/server'
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
 vi.mock('@/lib/db/campaignAccess', () => ({
   getCampaignMembership: vi.fn(),
-  requireCampaignAdmin: vi.fn(),
+  requireCampaignPermission: vi.fn(),
 }))
 vi.mock('@/lib/api/visibility', () => ({
   visibleTo: vi.fn(() => ({})),
-  isCampaignAdmin: vi.fn((role: string) => role === 'ADMIN'),
+  seesGmView: vi.fn((role: string) => role === 'ADMIN' || role === 'CO_HOST'),
 }))
 vi.mock('@/lib/game/visibility', () => ({
   redactGmNotesList: vi.fn((list: any, isAdmin: boolean) => isAdmin ? list : list.map((f: any) => ({ ...f, gmNotes: null }))),
@@ -24,7 +24,7 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 import { getUser } from '@/lib/auth'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { GET, POST } from '../route'
 
@@ -46,7 +46,7 @@ beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'player1' })
   ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   db.faction.findMany.mockResolvedValue([{ id: 'f1', name: 'Guild', gmNotes: 'secret' }])
 })
 
@@ -73,7 +73,7 @@ describe('GET', () => {
 
 describe('POST', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(postRequest({ name: 'Guild' }), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(db.faction.create).not.toHaveBeenCalled()
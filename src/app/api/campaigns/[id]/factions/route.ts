@@ -2,10 +2,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { isUniqueConstraintViolation } from '@/lib/game/worldUpdaters/uniqueConstraintGuard'
 import { prisma } from '@/lib/prisma'
-import { visibleTo, isCampaignAdmin } from '@/lib/api/visibility'
+import { visibleTo, seesGmView } from '@/lib/api/visibility'
 import { getUser } from '@/lib/auth'
 import { redactGmNotesList } from '@/lib/game/visibility'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { TIE_INCLUDE, factionTies } from '@/lib/game/tieGraph'
 
 // GET /api/campaigns/:id/factions - List all factions for a campaign
@@ -31,7 +31,7 @@ export async function GET(
       )
     }
 
-    const isAdmin = isCampaignAdmin(membership.role)
+    const isAdmin = seesGmView(membership.role)
 
     // Fog of war: admins see undiscovered factions too (they manage them);
     // everyone else sees only what the party has actually found.
@@ -75,7 +75,7 @@ export async function POST(
     const body = await request.json()
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can create factions')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can create factions')
     if ('response' in adminCheck) return adminCheck.response
 
     // Validate required fields
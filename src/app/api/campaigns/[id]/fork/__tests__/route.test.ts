@@ -0,0 +1,94 @@
+// src/app/api/campaigns/[id]/fork/__tests__/route.test.ts
+// Forking: admin-only, the body picks exactly one fork point (or none, for
+// "as it stands"), and a point that can't be forked from is the caller's
+// 400, not a 500.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/export/campaignFork', () => ({ forkCampaign: vi.fn() }))
+
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { forkCampaign } from '@/lib/export/campaignFork'
+import { ForkPointError } from '@/lib/export/forkRewind'
+import { POST } from '../route'
+
+function req(body: unknown) {
+  return new NextRequest('http://localhost/api/campaigns/camp1/fork', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+const params = { params: { id: 'camp1' } }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'gm1' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(forkCampaign as any).mockResolvedValue({
+    campaign: { id: 'fork1', title: 'The Reach (Scene 4)' },
+    imported: {},
+    dropped: {},
+    forkPoint: 'Scene 4',
+    rewind: { cutoff: null, clock: 'exact', removed: {}, reverted: 0, unreverted: {} },
+  })
+})
+
+describe('POST', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(requireAuth as any).mockRejectedValue(new Error('Unauthorized'))
+    const response = await POST(req({}), params)
+    expect(response.status).toBe(401)
+  })
+
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can fork a campaign' }, { status: 403 }),
+    })
+    const response = await POST(req({}), params)
+    expect(response.status).toBe(403)
+    expect(forkCampaign).not.toHaveBeenCalled()
+  })
+
+  it('forks as it stands when no point is given', async () => {
+    const response = await POST(req({}), params)
+    expect(response.status).toBe(201)
+    expect(forkCampaign).toHaveBeenCalledWith('camp1', 'gm1', { kind: 'latest' }, { title: undefined })
+  })
+
+  it('forks at a scene, with a trimmed title', async () => {
+    await POST(req({ sceneId: 'scene4', title: '  What if  ' }), params)
+    expect(forkCampaign).toHaveBeenCalledWith('camp1', 'gm1', { kind: 'scene', sceneId: 'scene4' }, { title: 'What if' })
+  })
+
+  it('forks at a world turn', async () => {
+    const response = await POST(req({ turnNumber: 12 }), params)
+    expect(forkCampaign).toHaveBeenCalledWith('camp1', 'gm1', { kind: 'turn', turnNumber: 12 }, { title: undefined })
+    const body = await response.json()
+    expect(body.campaign).toEqual({ id: 'fork1', title: 'The Reach (Scene 4)' })
+  })
+
+  it('rejects a body naming both a scene and a turn', async () => {
+    const response = await POST(req({ sceneId: 'scene4', turnNumber: 12 }), params)
+    expect(response.status).toBe(400)
+    expect(forkCampaign).not.toHaveBeenCalled()
+  })
+
+  it('returns 400 with the reason when the point cannot be forked from', async () => {
+    ;(forkCampaign as any).mockRejectedValue(new ForkPointError('Only a scene that has ended can be forked from'))
+    const response = await POST(req({ sceneId: 'scene9' }), params)
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Only a scene that has ended can be forked from')
+  })
+
+  it('returns 500 on an unexpected error', async () => {
+    ;(forkCampaign as any).mockRejectedValue(new Error('db down'))
+    const response = await POST(req({}), params)
+    expect(response.status).toBe(500)
+  })
+})
@@ -0,0 +1,60 @@
+// src/app/api/campaigns/[id]/fork/route.ts
+// POST - Fork this campaign into a new one, at a resolved scene, at a world
+// turn, or as it stands now. See lib/export/campaignFork.ts.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { forkCampaign } from '@/lib/export/campaignFork'
+import { ForkPointError, type ForkPoint } from '@/lib/export/forkRewind'
+
+const forkSchema = z
+  .object({
+    sceneId: z.string().min(1).optional(),
+    turnNumber: z.number().int().min(0).optional(),
+    title: z.string().trim().min(1).max(200).optional(),
+  })
+  .refine((body) => body.sceneId === undefined || body.turnNumber === undefined, {
+    message: 'Fork at a scene or at a world turn, not both',
+  })
+
+// POST /api/campaigns/[id]/fork - body: { sceneId? | turnNumber?, title? }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request)
+    const campaignId = params.id
+
+    // Admin only: a fork copies the whole campaign, GM notes and all, and
+    // brings every member along into it.
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can fork a campaign')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const body = forkSchema.parse(await request.json())
+    const point: ForkPoint = body.sceneId !== undefined
+      ? { kind: 'scene', sceneId: body.sceneId }
+      : body.turnNumber !== undefined
+        ? { kind: 'turn', turnNumber: body.turnNumber }
+        : { kind: 'latest' }
+
+    const result = await forkCampaign(campaignId, user.userId, point, { title: body.title })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+    if (error instanceof ForkPointError) {
+      return NextResponse.json<ErrorResponse>({ error: error.message }, { status: 400 })
+    }
+    return handleRouteError(error, 'Fork campaign error', 'Internal server error')
+  }
+}
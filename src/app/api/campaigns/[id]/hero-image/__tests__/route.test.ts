@@ -7,11 +7,11 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/game/campaignHeroImage', () => ({ kickCampaignHeroImage: vi.fn() }))
 
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { kickCampaignHeroImage } from '@/lib/game/campaignHeroImage'
 import { POST } from '../route'
 
@@ -22,7 +22,7 @@ function req() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'admin1', email: 'admin@example.com' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   ;(kickCampaignHeroImage as any).mockResolvedValue(undefined)
 })
 
@@ -35,7 +35,7 @@ describe('POST /api/campaigns/[id]/hero-image', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(req(), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(kickCampaignHeroImage).not.toHaveBeenCalled()
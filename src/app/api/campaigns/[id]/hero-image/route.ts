@@ -7,7 +7,7 @@
 // generation function unchanged.
 import { NextRequest, NextResponse } from 'next/server'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { kickCampaignHeroImage } from '@/lib/game/campaignHeroImage'
 
 export async function POST(
@@ -22,7 +22,7 @@ export async function POST(
 
     const campaignId = params.id
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can generate hero art')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can generate hero art')
     if ('response' in adminCheck) return adminCheck.response
 
     kickCampaignHeroImage(campaignId).catch((err) => console.error('Hero image kick failed:', err))
@@ -0,0 +1,115 @@
+// src/app/api/campaigns/[id]/integrity/canon/__tests__/route.test.ts
+// Rulings on canon conflicts: admin-only, validated before anything is
+// re-checked, and a reopen only ever removes an INTENDED ruling in this
+// campaign.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/prisma', () => ({
+  prisma: { canonDivergence: { findMany: vi.fn(), deleteMany: vi.fn() } },
+}))
+vi.mock('@/lib/game/integrity/canonResolution', () => ({
+  CANON_CHECK_KEYS: new Set(['npc.isAlive.matchesCanon', 'location.ownerFactionId.matchesCanon']),
+  ruleOnCanonConflict: vi.fn(),
+}))
+
+import { getUser } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { prisma } from '@/lib/prisma'
+import { ruleOnCanonConflict } from '@/lib/game/integrity/canonResolution'
+import { GET, POST, DELETE } from '../route'
+
+const db = prisma as any
+const params = { params: { id: 'camp1' } }
+const url = 'http://localhost/api/campaigns/camp1/integrity/canon'
+
+function post(body: unknown) {
+  return new NextRequest(url, { method: 'POST', body: JSON.stringify(body) })
+}
+
+const validBody = { checkKey: 'npc.isAlive.matchesCanon', entityId: 'npc1', canonValue: 'dead', ruling: 'INTENDED' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'admin1' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+})
+
+describe('GET', () => {
+  it('rejects a member without GM view', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: NextResponse.json({}, { status: 403 }) })
+    const response = await GET(new NextRequest(url), params)
+    expect(response.status).toBe(403)
+  })
+
+  it("lists the campaign's rulings", async () => {
+    db.canonDivergence.findMany.mockResolvedValue([{ id: 'r1' }])
+    const response = await GET(new NextRequest(url), params)
+    expect(await response.json()).toEqual({ rulings: [{ id: 'r1' }] })
+    expect(db.canonDivergence.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { campaignId: 'camp1' } }))
+  })
+})
+
+describe('POST', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    const response = await POST(post(validBody), params)
+    expect(response.status).toBe(401)
+  })
+
+  it('requires world.edit', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: NextResponse.json({}, { status: 403 }) })
+    const response = await POST(post(validBody), params)
+    expect(response.status).toBe(403)
+    expect(requireCampaignPermission).toHaveBeenCalledWith('admin1', 'camp1', 'world.edit', expect.any(String))
+  })
+
+  it.each([
+    { ...validBody, checkKey: 'npc.name.unique' },
+    { ...validBody, entityId: '' },
+    { ...validBody, canonValue: undefined },
+    { ...validBody, ruling: 'MAYBE' },
+    { ...validBody, note: 'x'.repeat(501) },
+  ])('rejects a malformed ruling %#', async (body) => {
+    const response = await POST(post(body), params)
+    expect(response.status).toBe(400)
+    expect(ruleOnCanonConflict).not.toHaveBeenCalled()
+  })
+
+  it('records the ruling', async () => {
+    ;(ruleOnCanonConflict as any).mockResolvedValue({ ok: true, resolution: 'INTENDED', change: null })
+    const response = await POST(post({ ...validBody, note: 'players saved him' }), params)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ resolution: 'INTENDED', change: null })
+    expect(ruleOnCanonConflict).toHaveBeenCalledWith('camp1', 'admin1', { ...validBody, note: 'players saved him' })
+  })
+
+  it('passes a stale conflict through as a 409', async () => {
+    ;(ruleOnCanonConflict as any).mockResolvedValue({ ok: false, status: 409, error: 'no longer open' })
+    const response = await POST(post(validBody), params)
+    expect(response.status).toBe(409)
+  })
+})
+
+describe('DELETE', () => {
+  it('reopens only an intended divergence in this campaign', async () => {
+    db.canonDivergence.deleteMany.mockResolvedValue({ count: 1 })
+    const response = await DELETE(new NextRequest(`${url}?rulingId=r1`, { method: 'DELETE' }), params)
+    expect(response.status).toBe(200)
+    expect(db.canonDivergence.deleteMany).toHaveBeenCalledWith({ where: { id: 'r1', campaignId: 'camp1', resolution: 'INTENDED' } })
+  })
+
+  it('404s when there is nothing to reopen', async () => {
+    db.canonDivergence.deleteMany.mockResolvedValue({ count: 0 })
+    const response = await DELETE(new NextRequest(`${url}?rulingId=r1`, { method: 'DELETE' }), params)
+    expect(response.status).toBe(404)
+  })
+
+  it('requires a rulingId', async () => {
+    const response = await DELETE(new NextRequest(url, { method: 'DELETE' }), params)
+    expect(response.status).toBe(400)
+  })
+})
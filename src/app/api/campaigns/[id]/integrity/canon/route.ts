@@ -0,0 +1,123 @@
+// src/app/api/campaigns/[id]/integrity/canon/route.ts
+//
+// Rulings on canon conflicts — the integrity checks that cross-reference
+// imported lore against the simulation (game/integrity/checks/
+// canonConflicts.ts) and report where the world has left canon. Those
+// findings arrive in the ordinary integrity report (the sibling route);
+// this is where an admin answers one.
+//
+//   GET    — every ruling made so far, newest first
+//   POST   — { checkKey, entityId, canonValue, ruling: 'INTENDED' | 'FIX', note? }
+//   DELETE — ?rulingId=… reopens an intended divergence; the next world
+//            turn's integrity pass reports it again if it still holds
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getUser } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { CANON_CHECK_KEYS, ruleOnCanonConflict } from '@/lib/game/integrity/canonResolution'
+
+const MAX_NOTE_LENGTH = 500
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaignId = params.id
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can view canon rulings')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const rulings = await prisma.canonDivergence.findMany({
+      where: { campaignId },
+      orderBy: { updatedAt: 'desc' },
+    })
+
+    return NextResponse.json({ rulings })
+  } catch (error) {
+    console.error('Get canon rulings error:', error)
+    return NextResponse.json({ error: 'Failed to get canon rulings' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaignId = params.id
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can rule on canon conflicts')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const body = await request.json().catch(() => null)
+    const { checkKey, entityId, canonValue, ruling, note } = body ?? {}
+    if (typeof checkKey !== 'string' || !CANON_CHECK_KEYS.has(checkKey)) {
+      return NextResponse.json({ error: 'checkKey must be a canon check' }, { status: 400 })
+    }
+    if (typeof entityId !== 'string' || !entityId || typeof canonValue !== 'string' || !canonValue) {
+      return NextResponse.json({ error: 'entityId and canonValue are required' }, { status: 400 })
+    }
+    if (ruling !== 'INTENDED' && ruling !== 'FIX') {
+      return NextResponse.json({ error: "ruling must be 'INTENDED' or 'FIX'" }, { status: 400 })
+    }
+    if (note !== undefined && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+      return NextResponse.json({ error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` }, { status: 400 })
+    }
+
+    const result = await ruleOnCanonConflict(campaignId, user.userId, { checkKey, entityId, canonValue, ruling, note })
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    return NextResponse.json({ resolution: result.resolution, change: result.change })
+  } catch (error) {
+    console.error('Rule on canon conflict error:', error)
+    return NextResponse.json({ error: 'Failed to rule on canon conflict' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaignId = params.id
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can reopen canon conflicts')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const rulingId = new URL(request.url).searchParams.get('rulingId')
+    if (!rulingId) {
+      return NextResponse.json({ error: 'rulingId is required' }, { status: 400 })
+    }
+
+    // Scoped by campaign so an id from another campaign deletes nothing.
+    // Only an INTENDED ruling is reopenable: a FIXED one already changed
+    // the world, and deleting the record of that wouldn't undo it.
+    const { count } = await prisma.canonDivergence.deleteMany({
+      where: { id: rulingId, campaignId, resolution: 'INTENDED' },
+    })
+    if (count === 0) {
+      return NextResponse.json({ error: 'Intended divergence not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ reopened: true })
+  } catch (error) {
+    console.error('Reopen canon conflict error:', error)
+    return NextResponse.json({ error: 'Failed to reopen canon conflict' }, { status: 500 })
+  }
+}
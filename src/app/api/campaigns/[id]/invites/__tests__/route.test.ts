@@ -7,7 +7,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     campaignInvite: { create: vi.fn(), findMany: vi.fn() },
@@ -15,7 +15,7 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { POST, GET } from '../route'
 
@@ -36,7 +36,7 @@ function getRequest() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'admin1' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
 })
 
 describe('POST', () => {
@@ -48,7 +48,7 @@ describe('POST', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(postRequest({}), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(db.campaignInvite.create).not.toHaveBeenCalled()
@@ -81,11 +81,32 @@ describe('POST', () => {
       data: expect.objectContaining({ expiresAt: new Date(explicitExpiry), maxUses: 1 }),
     })
   })
+
+  it('grants PLAYER by default and takes a spectator or guest role when asked', async () => {
+    db.campaignInvite.create.mockResolvedValue({ id: 'inv1', token: 'tok123' })
+
+    await POST(postRequest({}), { params: { id: 'camp1' } })
+    expect(db.campaignInvite.create.mock.calls[0][0].data).toMatchObject({ role: 'PLAYER', guestHours: null })
+
+    await POST(postRequest({ role: 'SPECTATOR' }), { params: { id: 'camp1' } })
+    expect(db.campaignInvite.create.mock.calls[1][0].data).toMatchObject({ role: 'SPECTATOR', guestHours: null })
+
+    await POST(postRequest({ role: 'GUEST', guestHours: 8 }), { params: { id: 'camp1' } })
+    expect(db.campaignInvite.create.mock.calls[2][0].data).toMatchObject({ role: 'GUEST', guestHours: 8 })
+  })
+
+  it('never mints a link for a co-host or admin, or a guest link without a length', async () => {
+    for (const body of [{ role: 'ADMIN' }, { role: 'CO_HOST' }, { role: 'GUEST' }, { role: 'GUEST', guestHours: 100_000 }]) {
+      const response = await POST(postRequest(body), { params: { id: 'camp1' } })
+      expect(response.status).toBe(400)
+    }
+    expect(db.campaignInvite.create).not.toHaveBeenCalled()
+  })
 })
 
 describe('GET', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await GET(getRequest(), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(db.campaignInvite.findMany).not.toHaveBeenCalled()
@@ -3,7 +3,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
 import { getAppUrl } from '@/lib/appUrl'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { INVITABLE_ROLES, MAX_GUEST_HOURS } from '@/lib/api/campaignPermissions'
 
 export async function POST(
   request: NextRequest,
@@ -19,7 +20,7 @@ export async function POST(
     const body = await request.json()
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can create invites')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'members.invite', 'Only campaign admins can create invites')
     if ('response' in adminCheck) return adminCheck.response
 
     // Create invite with defaults
@@ -29,12 +30,25 @@ export async function POST(
 
     const maxUses = body.maxUses ?? 10 // Default 10 uses
 
+    // What joining grants. A link never makes anyone a co-host or admin —
+    // those are promotions an admin makes member by member.
+    const role = body.role ?? 'PLAYER'
+    if (!INVITABLE_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Invites can only grant Player, Guest or Spectator' }, { status: 400 })
+    }
+    const guestHours = role === 'GUEST' ? body.guestHours : null
+    if (role === 'GUEST' && !(Number.isInteger(guestHours) && guestHours >= 1 && guestHours <= MAX_GUEST_HOURS)) {
+      return NextResponse.json({ error: `Guest invites need guestHours between 1 and ${MAX_GUEST_HOURS}` }, { status: 400 })
+    }
+
     const invite = await prisma.campaignInvite.create({
       data: {
         campaignId,
         createdBy: user.userId,
         expiresAt,
         maxUses,
+        role,
+        guestHours,
       },
     })
 
@@ -67,7 +81,7 @@ export async function GET(
     const campaignId = params.id
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can view invites')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'members.invite', 'Only campaign admins can view invites')
     if ('response' in adminCheck) return adminCheck.response
 
     // Get all invites
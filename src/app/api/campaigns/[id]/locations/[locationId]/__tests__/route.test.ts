@@ -7,7 +7,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     location: { update: vi.fn(), delete: vi.fn() },
@@ -15,7 +15,7 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { PATCH, DELETE } from '../route'
 
@@ -36,7 +36,7 @@ function deleteRequest() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'admin1', email: 'admin1@example.com' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
 })
 
 describe('PATCH', () => {
@@ -48,7 +48,7 @@ describe('PATCH', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await PATCH(patchRequest({ name: 'New Name' }), { params: { id: 'camp1', locationId: 'loc1' } })
     expect(response.status).toBe(403)
     expect(db.location.update).not.toHaveBeenCalled()
@@ -91,7 +91,7 @@ describe('DELETE', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await DELETE(deleteRequest(), { params: { id: 'camp1', locationId: 'loc1' } })
     expect(response.status).toBe(403)
     expect(db.location.delete).not.toHaveBeenCalled()
@@ -8,7 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { explainConditionDrift, deriveConditionTags } from '@/lib/game/tick/locationConditionTick'
 import { applyWhatIf, STAT_BAND, type WhatIfSpec } from '@/lib/api/whatIf'
 
@@ -27,7 +27,7 @@ export async function GET(
 
     const { id: campaignId, locationId } = params
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can preview location reasoning')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can preview location reasoning')
     if ('response' in adminCheck) return adminCheck.response
 
     const location = await prisma.location.findFirst({
@@ -1,10 +1,10 @@
 // src/app/api/campaigns/[id]/locations/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { visibleTo, isCampaignAdmin } from '@/lib/api/visibility'
+import { visibleTo, seesGmView } from '@/lib/api/visibility'
 import { getUser } from '@/lib/auth'
 import { redactGmNotesList } from '@/lib/game/visibility'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { deriveResourceSlots } from '@/lib/game/resourceSlots'
 import { attachLocationToGraph } from '@/lib/game/locationGraph'
 
@@ -31,7 +31,7 @@ export async function GET(
       )
     }
 
-    const isAdmin = isCampaignAdmin(membership.role)
+    const isAdmin = seesGmView(membership.role)
 
     // Get all locations for the campaign — admins see undiscovered ones too
     // (so they can manage them), others see only what the party has found.
@@ -65,7 +65,7 @@ export async function POST(
     const body = await request.json()
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can create locations')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can create locations')
     if ('response' in adminCheck) return adminCheck.response
 
     // Validate required fields
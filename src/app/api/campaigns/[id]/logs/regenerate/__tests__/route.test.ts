@@ -9,7 +9,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/rateLimit', () => ({
   AI_ACTION_LIMIT: { bucket: 'ai-action', limit: 20, windowSeconds: 60 },
   checkRateLimit: vi.fn(),
@@ -25,7 +25,7 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 import { requireAuth } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
 import { summarizeSceneForLog } from '@/lib/ai/worldState'
 import { planLogConsolidation } from '@/lib/game/storyLogConsolidation'
@@ -42,7 +42,7 @@ beforeEach(() => {
   vi.clearAllMocks()
   ;(requireAuth as any).mockResolvedValue({ userId: 'admin1' })
   ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   ;(planLogConsolidation as any).mockReturnValue([])
   db.campaignLog.findMany.mockResolvedValue([])
   db.scene.findMany.mockResolvedValue([])
@@ -61,11 +61,11 @@ describe('POST', () => {
     ;(rateLimitExceededResponse as any).mockReturnValue(new Response(null, { status: 429 }))
     const response = await POST(req(), { params: { id: 'camp1' } })
     expect(response.status).toBe(429)
-    expect(requireCampaignAdmin).not.toHaveBeenCalled()
+    expect(requireCampaignPermission).not.toHaveBeenCalled()
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(req(), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
   })
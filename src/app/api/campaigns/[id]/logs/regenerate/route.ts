@@ -29,7 +29,7 @@ import { prisma } from '@/lib/prisma'
 import { summarizeSceneForLog } from '@/lib/ai/worldState'
 import { planLogConsolidation } from '@/lib/game/storyLogConsolidation'
 import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteErrorWithDetails } from '@/lib/api/errors'
 
 export const maxDuration = 60
@@ -49,7 +49,7 @@ export async function POST(
       return rateLimitExceededResponse(rateLimit)
     }
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can regenerate Story Log entries')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can regenerate Story Log entries')
     if ('response' in adminCheck) return adminCheck.response
 
     // Consolidate first: cheap (no AI calls), so process every duplicate
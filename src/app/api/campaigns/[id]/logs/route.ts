@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getUser } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { rolesWith } from '@/lib/api/campaignPermissions'
 
 // #234: this route used to fetch a campaign's ENTIRE Story Log — every
 // scene/downtime/milestone entry ever written, unbounded — on every load
@@ -106,12 +107,12 @@ export async function POST(
 
     const campaignId = params.id
 
-    // Verify user is admin of the campaign (only admins/AI can create logs)
+    // Verify user is a GM of the campaign (only GMs/AI can create logs)
     const membership = await prisma.campaignMembership.findFirst({
       where: {
         campaignId,
         userId: user.userId,
-        role: 'ADMIN'
+        role: { in: rolesWith('scenes.run') }
       }
     })
 
@@ -3,20 +3,32 @@
 // admin-only gate, and that a sourceId from a DIFFERENT campaign 404s
 // rather than deleting across campaigns (the deleteMany where-clause
 // scopes on both id and campaignId together), were both unverified.
+// An uploaded source's stored file is deleted with it. POST syncs (or
+// resumes) a wiki source.
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/blob/loreDocumentStorage', () => ({ deleteLoreDocument: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  LORE_IMPORT_LIMIT: { bucket: 'lore-import', limit: 5, windowSeconds: 60 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(() => new Response(null, { status: 429 })),
+}))
+vi.mock('@/lib/lore/loreQueue', () => ({ kickLoreImportJob: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
-  prisma: { loreImportJob: { deleteMany: vi.fn() } },
+  prisma: { loreImportJob: { findFirst: vi.fn(), deleteMany: vi.fn(), updateMany: vi.fn() } },
 }))
 
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
-import { DELETE } from '../route'
+import { deleteLoreDocument } from '@/lib/blob/loreDocumentStorage'
+import { checkRateLimit } from '@/lib/rateLimit'
+import { kickLoreImportJob } from '@/lib/lore/loreQueue'
+import { DELETE, POST } from '../route'
 
 const db = prisma as any
 
@@ -27,7 +39,66 @@ function req() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'admin1' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  db.loreImportJob.findFirst.mockResolvedValue({ sourceType: 'PASTE', sourceUrl: null })
+  ;(deleteLoreDocument as any).mockResolvedValue(undefined)
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  ;(kickLoreImportJob as any).mockResolvedValue(undefined)
+})
+
+describe('POST (sync)', () => {
+  function syncReq() {
+    return new NextRequest('http://localhost/api/campaigns/camp1/lore/source1', { method: 'POST' })
+  }
+
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    const response = await POST(syncReq(), { params: { id: 'camp1', sourceId: 'source1' } })
+    expect(response.status).toBe(403)
+    expect(db.loreImportJob.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('is rate-limited with the import bucket', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false })
+    const response = await POST(syncReq(), { params: { id: 'camp1', sourceId: 'source1' } })
+    expect(response.status).toBe(429)
+    expect(checkRateLimit).toHaveBeenCalledWith('admin1', 'lore-import', 5, 60)
+  })
+
+  it('refuses anything but a wiki source', async () => {
+    const response = await POST(syncReq(), { params: { id: 'camp1', sourceId: 'source1' } })
+    expect(response.status).toBe(400)
+  })
+
+  it('404s for a source from a different campaign', async () => {
+    db.loreImportJob.findFirst.mockResolvedValue(null)
+    const response = await POST(syncReq(), { params: { id: 'camp1', sourceId: 'source1' } })
+    expect(response.status).toBe(404)
+  })
+
+  it('re-queues a settled wiki source with a fresh attempt budget and kicks the worker', async () => {
+    db.loreImportJob.findFirst.mockResolvedValue({ sourceType: 'WIKI' })
+    db.loreImportJob.updateMany.mockResolvedValue({ count: 1 })
+
+    const response = await POST(syncReq(), { params: { id: 'camp1', sourceId: 'source1' } })
+
+    expect(response.status).toBe(202)
+    expect(db.loreImportJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'source1', campaignId: 'camp1', status: { in: ['COMPLETED', 'FAILED'] } },
+      data: expect.objectContaining({ status: 'PENDING', attempts: 0, autoReseedOnComplete: false }),
+    })
+    expect(kickLoreImportJob).toHaveBeenCalledWith('source1')
+  })
+
+  it('409s while the source is still importing', async () => {
+    db.loreImportJob.findFirst.mockResolvedValue({ sourceType: 'WIKI' })
+    db.loreImportJob.updateMany.mockResolvedValue({ count: 0 })
+
+    const response = await POST(syncReq(), { params: { id: 'camp1', sourceId: 'source1' } })
+
+    expect(response.status).toBe(409)
+    expect(kickLoreImportJob).not.toHaveBeenCalled()
+  })
 })
 
 describe('DELETE', () => {
@@ -38,7 +109,7 @@ describe('DELETE', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await DELETE(req(), { params: { id: 'camp1', sourceId: 'source1' } })
     expect(response.status).toBe(403)
     expect(db.loreImportJob.deleteMany).not.toHaveBeenCalled()
@@ -59,6 +130,23 @@ describe('DELETE', () => {
     expect(body).toEqual({ success: true })
   })
 
+  it('deletes an uploaded source\'s stored file, and a storage failure still reports success', async () => {
+    db.loreImportJob.findFirst.mockResolvedValue({ sourceType: 'UPLOAD', sourceUrl: 'https://blob/bible.pdf' })
+    db.loreImportJob.deleteMany.mockResolvedValue({ count: 1 })
+    ;(deleteLoreDocument as any).mockRejectedValue(new Error('blob down'))
+
+    const response = await DELETE(req(), { params: { id: 'camp1', sourceId: 'source1' } })
+
+    expect(response.status).toBe(200)
+    expect(deleteLoreDocument).toHaveBeenCalledWith('https://blob/bible.pdf')
+  })
+
+  it('leaves storage alone for a source that was never an upload', async () => {
+    db.loreImportJob.deleteMany.mockResolvedValue({ count: 1 })
+    await DELETE(req(), { params: { id: 'camp1', sourceId: 'source1' } })
+    expect(deleteLoreDocument).not.toHaveBeenCalled()
+  })
+
   it('returns 500 on an unexpected error', async () => {
     db.loreImportJob.deleteMany.mockRejectedValue(new Error('db down'))
     const response = await DELETE(req(), { params: { id: 'camp1', sourceId: 'source1' } })
@@ -1,13 +1,86 @@
 // src/app/api/campaigns/[id]/lore/[sourceId]/route.ts
-// Delete an imported lore source and everything it produced. sourceId is
-// a LoreImportJob id — deleting it cascades to its LoreEntry rows
-// (onDelete: Cascade in the schema), so one call removes the whole source.
+// One imported lore source. sourceId is a LoreImportJob id.
+//
+// POST re-runs a wiki source: a failed crawl resumes from its checkpoint,
+// a completed one syncs — only what the wiki changed since the last run
+// is re-fetched and re-embedded (see syncWiki in loreImportService.ts).
+//
+// DELETE removes the source and everything it produced — deleting the job
+// cascades to its LoreEntry rows (onDelete: Cascade in the schema), so one
+// call removes the whole source. An uploaded document's stored file goes
+// too, best-effort, once the rows are gone.
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { deleteLoreDocument } from '@/lib/blob/loreDocumentStorage'
+import { LORE_IMPORT_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { kickLoreImportJob } from '@/lib/lore/loreQueue'
 
+// POST /api/campaigns/:id/lore/:sourceId - Sync (or resume) a wiki source
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; sourceId: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaignId = params.id
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can sync lore sources')
+    if ('response' in adminCheck) return adminCheck.response
+
+    // A sync embeds whatever changed — same cost profile as a new import,
+    // so it shares the import bucket.
+    const rateLimit = await checkRateLimit(
+      user.userId, LORE_IMPORT_LIMIT.bucket, LORE_IMPORT_LIMIT.limit, LORE_IMPORT_LIMIT.windowSeconds
+    )
+    if (!rateLimit.allowed) return rateLimitExceededResponse(rateLimit)
+
+    const source = await prisma.loreImportJob.findFirst({
+      where: { id: params.sourceId, campaignId },
+      select: { sourceType: true },
+    })
+    if (!source) {
+      return NextResponse.json({ error: 'Lore source not found' }, { status: 404 })
+    }
+    if (source.sourceType !== 'WIKI') {
+      return NextResponse.json({ error: 'Only wiki sources can be synced' }, { status: 400 })
+    }
+
+    // Only a settled job is re-queued — the status guard makes a double
+    // click, or a sync racing a still-running crawl, a no-op. A fresh
+    // attempt budget, because this is a new run rather than a retry; it
+    // never auto-reseeds, since that belongs to a campaign's first import.
+    const requeued = await prisma.loreImportJob.updateMany({
+      where: { id: params.sourceId, campaignId, status: { in: ['COMPLETED', 'FAILED'] } },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        lastError: null,
+        startedAt: null,
+        finishedAt: null,
+        alertedStuckAt: null,
+        autoReseedOnComplete: false,
+      },
+    })
+    if (requeued.count === 0) {
+      return NextResponse.json({ error: 'This source is already importing' }, { status: 409 })
+    }
+
+    await kickLoreImportJob(params.sourceId)
+
+    return NextResponse.json({ success: true }, { status: 202 })
+  } catch (error) {
+    console.error('Sync lore source error:', error)
+    return NextResponse.json({ error: 'Failed to sync lore source' }, { status: 500 })
+  }
+}
+
+// DELETE /api/campaigns/:id/lore/:sourceId - Delete a lore source and its entries
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string; sourceId: string } }
@@ -19,9 +92,13 @@ export async function DELETE(
     }
 
     const campaignId = params.id
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can delete lore sources')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can delete lore sources')
     if ('response' in adminCheck) return adminCheck.response
 
+    const source = await prisma.loreImportJob.findFirst({
+      where: { id: params.sourceId, campaignId },
+      select: { sourceType: true, sourceUrl: true },
+    })
     const deleted = await prisma.loreImportJob.deleteMany({
       where: { id: params.sourceId, campaignId },
     })
@@ -29,6 +106,12 @@ export async function DELETE(
       return NextResponse.json({ error: 'Lore source not found' }, { status: 404 })
     }
 
+    if (source?.sourceType === 'UPLOAD' && source.sourceUrl) {
+      await deleteLoreDocument(source.sourceUrl).catch(err => {
+        console.error('Failed to delete uploaded lore file (orphaned in blob storage):', err)
+      })
+    }
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Delete lore source error:', error)
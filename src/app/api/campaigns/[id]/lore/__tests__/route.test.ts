@@ -1,9 +1,11 @@
+// @vitest-environment node
 // src/app/api/campaigns/[id]/lore/__tests__/route.test.ts
 // #135 (cont.) — lore import had no test coverage: the admin-only gate,
 // the rate limit, the PASTE-vs-URL-vs-WIKI branching validation (each
 // requiring a different field, a paste length cap, and a real URL for
 // the other two), and that excludeCategories is only honored for WIKI,
-// were all unverified.
+// were all unverified. Node environment: the upload cases post real
+// multipart bodies, which happy-dom's FormData can't hand to NextRequest.
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
@@ -19,6 +21,7 @@ vi.mock('@/lib/lore/loreQueue', () => ({
   kickLoreImportJob: vi.fn(),
   recoverStaleLoreJobs: vi.fn(),
 }))
+vi.mock('@/lib/blob/loreDocumentStorage', () => ({ uploadLoreDocument: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: { loreImportJob: { findMany: vi.fn(), create: vi.fn() } },
 }))
@@ -28,6 +31,7 @@ import { getCampaignMembership } from '@/lib/db/campaignAccess'
 import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
 import { kickLoreImportJob, recoverStaleLoreJobs } from '@/lib/lore/loreQueue'
 import { prisma } from '@/lib/prisma'
+import { uploadLoreDocument } from '@/lib/blob/loreDocumentStorage'
 import { GET, POST } from '../route'
 
 const db = prisma as any
@@ -44,8 +48,16 @@ function postRequest(body: unknown) {
   })
 }
 
+function uploadRequest(file: File | null, sourceTitle?: string) {
+  const form = new FormData()
+  if (file) form.append('file', file)
+  if (sourceTitle) form.append('sourceTitle', sourceTitle)
+  return new NextRequest('http://localhost/api/campaigns/camp1/lore', { method: 'POST', body: form })
+}
+
 beforeEach(() => {
   vi.clearAllMocks()
+  ;(uploadLoreDocument as any).mockResolvedValue('https://blob/lore-uploads/camp1/bible-x1.md')
   ;(getUser as any).mockResolvedValue({ userId: 'admin1' })
   ;(getCampaignMembership as any).mockResolvedValue({ role: 'ADMIN' })
   ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
@@ -128,3 +140,44 @@ describe('POST', () => {
     expect(kickLoreImportJob).toHaveBeenCalledWith('job1')
   })
 })
+
+describe('POST (upload)', () => {
+  it('requires a file', async () => {
+    const response = await POST(uploadRequest(null), { params: { id: 'camp1' } })
+    expect(response.status).toBe(400)
+  })
+
+  it('refuses a file over the size cap before storing anything', async () => {
+    const big = new File([new Uint8Array(4 * 1024 * 1024 + 1)], 'bible.pdf', { type: 'application/pdf' })
+    const response = await POST(uploadRequest(big), { params: { id: 'camp1' } })
+    expect(response.status).toBe(413)
+    expect(uploadLoreDocument).not.toHaveBeenCalled()
+  })
+
+  it('refuses a format it cannot read', async () => {
+    const image = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0])], 'map.png', { type: 'image/png' })
+    const response = await POST(uploadRequest(image), { params: { id: 'camp1' } })
+    expect(response.status).toBe(400)
+    expect(db.loreImportJob.create).not.toHaveBeenCalled()
+  })
+
+  it('stores the file and queues an UPLOAD job titled after the file', async () => {
+    const file = new File(['# Magic\n\nEssence flows.'], 'bible.md', { type: 'text/markdown' })
+    const response = await POST(uploadRequest(file), { params: { id: 'camp1' } })
+
+    expect(response.status).toBe(201)
+    expect(uploadLoreDocument).toHaveBeenCalledWith('camp1', 'bible.md', expect.any(Buffer), 'text/markdown')
+    expect(db.loreImportJob.create).toHaveBeenCalledWith({
+      data: { campaignId: 'camp1', sourceType: 'UPLOAD', sourceUrl: 'https://blob/lore-uploads/camp1/bible-x1.md', sourceTitle: 'bible' },
+    })
+    expect(kickLoreImportJob).toHaveBeenCalledWith('job1')
+  })
+
+  it('prefers the title the admin gave', async () => {
+    const file = new File(['Plain lore.'], 'notes.txt', { type: 'text/plain' })
+    await POST(uploadRequest(file, 'Setting Bible'), { params: { id: 'camp1' } })
+    expect(db.loreImportJob.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ sourceTitle: 'Setting Bible' }),
+    }))
+  })
+})
@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 export async function GET(
   request: NextRequest,
@@ -19,7 +19,7 @@ export async function GET(
     }
 
     const campaignId = params.id
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can view lore imports')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can view lore imports')
     if ('response' in adminCheck) return adminCheck.response
 
     const job = await prisma.loreImportJob.findFirst({
@@ -1,24 +1,31 @@
 // src/app/api/campaigns/[id]/lore/route.ts
 // Lore import: campaign admins add reference material (pasted text, a
-// single page URL, or a whole MediaWiki wiki) that gets chunked, embedded,
-// and made retrievable to the AI GM during play (see lib/ai/loreRetrieval.ts).
+// single page URL, a whole MediaWiki wiki, or an uploaded document) that
+// gets chunked, embedded, and made retrievable to the AI GM during play
+// (see lib/ai/loreRetrieval.ts).
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { UserRole } from '@prisma/client'
 import { getUser } from '@/lib/auth'
 import { LORE_IMPORT_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
 import { kickLoreImportJob, recoverStaleLoreJobs } from '@/lib/lore/loreQueue'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
+import { detectDocumentFormat } from '@/lib/lore/documentExtractor'
+import { uploadLoreDocument } from '@/lib/blob/loreDocumentStorage'
 
 const MAX_PASTE_CHARS = 200_000
+// Vercel caps a serverless request body at 4.5 MB; this leaves room for
+// the multipart envelope. Big enough for a text-layer PDF of several
+// hundred pages — image-heavy books will need their art stripped first.
+const MAX_UPLOAD_BYTES = 4 * 1024 * 1024
 
 async function requireAdmin(request: NextRequest, campaignId: string) {
   const user = await getUser(request)
   if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) } as const
 
   const membership = await getCampaignMembership(user.userId, campaignId)
-  if (!membership || membership.role !== UserRole.ADMIN) {
+  if (!membership || !can(membership.role, 'world.edit')) {
     return { error: NextResponse.json({ error: 'Only campaign admins can manage lore' }, { status: 403 }) } as const
   }
   return { user } as const
@@ -51,6 +58,8 @@ export async function GET(
         pagesDone: true,
         entriesCreated: true,
         excludeCategories: true,
+        lastSyncedAt: true,
+        lastSyncSummary: true,
         createdAt: true,
         finishedAt: true,
       },
@@ -63,7 +72,8 @@ export async function GET(
   }
 }
 
-// POST /api/campaigns/:id/lore - Import a new lore source (paste, URL, or wiki)
+// POST /api/campaigns/:id/lore - Import a new lore source (paste, URL, or
+// wiki as JSON; an uploaded document as multipart/form-data)
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -78,11 +88,15 @@ export async function POST(
     )
     if (!rateLimit.allowed) return rateLimitExceededResponse(rateLimit)
 
+    if ((request.headers.get('content-type') || '').startsWith('multipart/form-data')) {
+      return createUploadJob(request, campaignId)
+    }
+
     const body = await request.json()
     const sourceType = body?.sourceType
 
     if (!['PASTE', 'URL', 'WIKI'].includes(sourceType)) {
-      return NextResponse.json({ error: 'sourceType must be PASTE, URL, or WIKI' }, { status: 400 })
+      return NextResponse.json({ error: 'sourceType must be PASTE, URL, or WIKI (upload a file as multipart/form-data)' }, { status: 400 })
     }
 
     let rawText: string | null = null
@@ -134,3 +148,44 @@ export async function POST(
     return NextResponse.json({ error: 'Failed to start lore import' }, { status: 500 })
   }
 }
+
+/**
+ * The UPLOAD source: check the file is something we can read, store it,
+ * and queue the job. Parsing waits for the worker — a several-hundred-page
+ * PDF is worker-sized work, not request-sized — but the format check runs
+ * here, so an unreadable file is refused on the spot instead of surfacing
+ * later as a failed job.
+ */
+async function createUploadJob(request: NextRequest, campaignId: string) {
+  const form = await request.formData()
+  const file = form.get('file')
+  if (!(file instanceof Blob) || file.size === 0) {
+    return NextResponse.json({ error: 'A file is required for an uploaded lore source' }, { status: 400 })
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: `File is too large (max ${MAX_UPLOAD_BYTES / 1024 / 1024} MB)` }, { status: 413 })
+  }
+
+  const fileName = 'name' in file && typeof file.name === 'string' && file.name ? file.name : 'upload'
+  const data = Buffer.from(await file.arrayBuffer())
+  if (!detectDocumentFormat(data, fileName)) {
+    return NextResponse.json({
+      error: 'Unsupported file — upload Markdown, plain text, PDF, DOCX, EPUB, or a zipped folder of Markdown notes',
+    }, { status: 400 })
+  }
+
+  const titleField = form.get('sourceTitle')
+  const sourceTitle = (typeof titleField === 'string' && titleField.trim()
+    ? titleField.trim()
+    : fileName.replace(/\.[^.]+$/, '')
+  ).slice(0, 200)
+
+  const sourceUrl = await uploadLoreDocument(campaignId, fileName, data, file.type)
+  const job = await prisma.loreImportJob.create({
+    data: { campaignId, sourceType: 'UPLOAD', sourceUrl, sourceTitle },
+  })
+
+  await kickLoreImportJob(job.id)
+
+  return NextResponse.json({ job }, { status: 201 })
+}
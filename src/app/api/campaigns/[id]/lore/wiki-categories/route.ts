@@ -6,7 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { detectApiBase, listCategories } from '@/lib/lore/mediaWikiClient'
 
 export async function GET(
@@ -20,7 +20,7 @@ export async function GET(
     }
 
     const campaignId = params.id
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can manage lore')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can manage lore')
     if ('response' in adminCheck) return adminCheck.response
 
     const url = request.nextUrl.searchParams.get('url')?.trim()
@@ -0,0 +1,116 @@
+// src/app/api/campaigns/[id]/maps/[mapId]/tokens/[tokenId]/__tests__/route.test.ts
+// Tactical-mode token moves: who may move which token, when the board
+// accepts moves at all, and that what's saved and broadcast is the
+// snapped position.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn() }))
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    token: { findUnique: vi.fn() },
+    scene: { findUnique: vi.fn() },
+  },
+}))
+vi.mock('@/lib/maps/map-service', () => ({
+  MapService: { moveToken: vi.fn(async () => {}) },
+}))
+vi.mock('@/lib/realtime/pusher-server', () => ({ broadcastTokenMove: vi.fn() }))
+
+import { getUser } from '@/lib/auth'
+import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { prisma } from '@/lib/prisma'
+import { MapService } from '@/lib/maps/map-service'
+import { broadcastTokenMove } from '@/lib/realtime/pusher-server'
+import { PATCH } from '../route'
+
+const db = prisma as any
+
+const partyToken = (over: Record<string, unknown> = {}) => ({
+  id: 'tok1',
+  mapId: 'map1',
+  size: 1,
+  isVisible: true,
+  characterId: 'char1',
+  character: { userId: 'player1' },
+  map: { campaignId: 'camp1', sceneId: 'scene1', gridSize: 40, width: 800, height: 600 },
+  ...over,
+})
+
+function call(body: unknown = { x: 130, y: 95 }) {
+  const request = new NextRequest('http://localhost/api/campaigns/camp1/maps/map1/tokens/tok1', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return PATCH(request, { params: { id: 'camp1', mapId: 'map1', tokenId: 'tok1' } })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'player1' })
+  ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
+  db.token.findUnique.mockResolvedValue(partyToken())
+  db.scene.findUnique.mockResolvedValue({ tacticalMode: true, status: 'AWAITING_ACTIONS', isPaused: false })
+})
+
+describe('PATCH token', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await call()).status).toBe(401)
+  })
+
+  it('rejects a non-member and a spectator', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue(null)
+    expect((await call()).status).toBe(403)
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'SPECTATOR' })
+    expect((await call()).status).toBe(403)
+    expect(MapService.moveToken).not.toHaveBeenCalled()
+  })
+
+  it('404s a token on another campaign\'s map', async () => {
+    db.token.findUnique.mockResolvedValue(partyToken({ map: { ...partyToken().map, campaignId: 'other' } }))
+    expect((await call()).status).toBe(404)
+  })
+
+  it('409s when the map\'s scene is not in tactical mode', async () => {
+    db.scene.findUnique.mockResolvedValue({ tacticalMode: false, status: 'AWAITING_ACTIONS', isPaused: false })
+    expect((await call()).status).toBe(409)
+    expect(MapService.moveToken).not.toHaveBeenCalled()
+  })
+
+  it('409s while the exchange is resolving, so the dice read the board everyone saw', async () => {
+    db.scene.findUnique.mockResolvedValue({ tacticalMode: true, status: 'RESOLVING', isPaused: false })
+    expect((await call()).status).toBe(409)
+  })
+
+  it('lets the owner move their character, snapped to the grid, and broadcasts where it landed', async () => {
+    const response = await call()
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).token).toEqual({ id: 'tok1', x: 120, y: 80 })
+    expect(MapService.moveToken).toHaveBeenCalledWith('tok1', 120, 80)
+    expect(broadcastTokenMove).toHaveBeenCalledWith(expect.objectContaining({ campaignId: 'camp1', tokenId: 'tok1', x: 120, y: 80, isVisible: true }))
+  })
+
+  it('refuses to move another player\'s character — admins included', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'ADMIN' })
+    db.token.findUnique.mockResolvedValue(partyToken({ character: { userId: 'someone-else' } }))
+    expect((await call()).status).toBe(403)
+    expect(MapService.moveToken).not.toHaveBeenCalled()
+  })
+
+  it('keeps NPC tokens to admins', async () => {
+    db.token.findUnique.mockResolvedValue(partyToken({ characterId: null, character: null }))
+    expect((await call()).status).toBe(403)
+
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'CO_HOST' })
+    expect((await call()).status).toBe(200)
+  })
+
+  it('400s a position that isn\'t a pair of numbers', async () => {
+    expect((await call({ x: '3', y: 4 })).status).toBe(400)
+  })
+})
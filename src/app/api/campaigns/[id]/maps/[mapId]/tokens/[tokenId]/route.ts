@@ -0,0 +1,110 @@
+// PATCH /api/campaigns/[id]/maps/[mapId]/tokens/[tokenId] — move a token
+// on a tactical scene's board (lib/game/tactical/).
+//
+// Who may move what:
+//   - a party token (Token.characterId set) — only the player who owns
+//     that character. Not admins either: a player's position is their
+//     choice, the same way their action text is.
+//   - anything else (NPCs, scenery) — members holding world.edit.
+// Spectators move nothing.
+//
+// Only while the map's scene is in tactical mode and still taking actions.
+// Positions lock while an exchange resolves, so the board the dice read
+// (resolution.ts loads it once per exchange) is the board everyone saw
+// when they submitted.
+//
+// The request's point is snapped to the grid and kept on the map; the
+// response and the map:token-moved broadcast carry where it actually
+// landed.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getUser } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { MapService } from '@/lib/maps/map-service'
+import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
+import { snapToBoard } from '@/lib/game/tactical/grid'
+import { broadcastTokenMove } from '@/lib/realtime/pusher-server'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; mapId: string; tokenId: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaignId = params.id
+
+    const membership = await getCampaignMembership(user.userId, campaignId)
+    if (!membership) {
+      return NextResponse.json({ error: 'Not a member of this campaign' }, { status: 403 })
+    }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json({ error: 'Spectators can\'t move tokens' }, { status: 403 })
+    }
+
+    const token = await prisma.token.findUnique({
+      where: { id: params.tokenId },
+      select: {
+        id: true,
+        mapId: true,
+        size: true,
+        isVisible: true,
+        characterId: true,
+        character: { select: { userId: true } },
+        map: { select: { campaignId: true, sceneId: true, gridSize: true, width: true, height: true } },
+      },
+    })
+    if (!token || token.mapId !== params.mapId || token.map.campaignId !== campaignId) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+    }
+
+    const scene = token.map.sceneId
+      ? await prisma.scene.findUnique({
+          where: { id: token.map.sceneId },
+          select: { tacticalMode: true, status: true, isPaused: true },
+        })
+      : null
+    if (!scene?.tacticalMode) {
+      return NextResponse.json({ error: 'Tactical mode is off for this map' }, { status: 409 })
+    }
+    if (scene.status !== 'AWAITING_ACTIONS' || scene.isPaused) {
+      return NextResponse.json({ error: 'Positions are locked until the scene is taking actions again' }, { status: 409 })
+    }
+
+    if (token.characterId) {
+      if (token.character?.userId !== user.userId) {
+        return NextResponse.json({ error: 'You can only move your own character' }, { status: 403 })
+      }
+    } else if (!can(membership.role, 'world.edit')) {
+      return NextResponse.json({ error: 'Only campaign admins can move NPC tokens' }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const x = body?.x
+    const y = body?.y
+    if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) {
+      return NextResponse.json({ error: 'x and y must be numbers' }, { status: 400 })
+    }
+
+    const landed = snapToBoard(token.map, token, x, y)
+    await MapService.moveToken(token.id, landed.x, landed.y)
+
+    broadcastTokenMove({
+      campaignId,
+      mapId: token.mapId,
+      tokenId: token.id,
+      x: landed.x,
+      y: landed.y,
+      isVisible: token.isVisible,
+    })
+
+    return NextResponse.json({ token: { id: token.id, x: landed.x, y: landed.y } })
+  } catch (error) {
+    console.error('Error moving token:', error)
+    return NextResponse.json({ error: 'Failed to move token' }, { status: 500 })
+  }
+}
@@ -3,6 +3,7 @@ import { getUser } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { MapService } from '@/lib/maps/map-service'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { rolesWith } from '@/lib/api/campaignPermissions'
 
 // GET /api/campaigns/[id]/maps/active - Get the currently active map
 export async function GET(
@@ -54,12 +55,12 @@ export async function PUT(
 
     const campaignId = params.id
 
-    // Verify user is admin of the campaign
+    // Verify user is a GM of the campaign
     const membership = await prisma.campaignMembership.findFirst({
       where: {
         campaignId,
         userId: user.userId,
-        role: 'ADMIN'
+        role: { in: rolesWith('world.edit') }
       }
     })
 
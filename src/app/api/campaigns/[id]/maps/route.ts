@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getUser } from '@/lib/auth'
 import { MapService } from '@/lib/maps/map-service'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 
 // GET /api/campaigns/[id]/maps - List all maps for a campaign
 export async function GET(
@@ -56,6 +57,9 @@ export async function POST(
     if (!membership) {
       return NextResponse.json({ error: 'Not a member of this campaign' }, { status: 403 })
     }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json({ error: 'Spectators can\'t generate maps' }, { status: 403 })
+    }
 
     const body = await request.json()
     const { name, description, width, height, gridSize, background, sceneId } = body
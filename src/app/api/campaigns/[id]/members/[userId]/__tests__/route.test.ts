@@ -8,7 +8,7 @@ import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
 vi.mock('@/lib/db/campaignAccess', () => ({
-  requireCampaignAdmin: vi.fn(),
+  requireCampaignPermission: vi.fn(),
   getCampaignMembership: vi.fn(),
 }))
 vi.mock('@/lib/prisma', () => ({
@@ -22,7 +22,7 @@ vi.mock('@/lib/notifications/turn-tracker', () => ({
 }))
 
 import { requireAuth } from '@/lib/auth'
-import { requireCampaignAdmin, getCampaignMembership } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission, getCampaignMembership } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { TurnTracker } from '@/lib/notifications/turn-tracker'
 import { DELETE, PATCH } from '../route'
@@ -45,7 +45,7 @@ function patchRequest(body: unknown) {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(requireAuth as any).mockResolvedValue({ userId: 'admin1', email: 'admin@example.com' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   db.turnTracker.findMany.mockResolvedValue([])
   turnTracker.removePlayerFromTurn.mockResolvedValue([])
 })
@@ -62,7 +62,7 @@ describe('DELETE', () => {
     // Asserting identity with the gate's own Response object closes that:
     // only a short-circuit at the gate can return this exact instance.
     const denial = new Response(null, { status: 403 })
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: denial })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: denial })
     const response = await DELETE(deleteRequest(), { params: { id: 'camp1', userId: 'user2' } })
     expect(response).toBe(denial)
     expect(db.campaignMembership.delete).not.toHaveBeenCalled()
@@ -139,7 +139,7 @@ describe('PATCH', () => {
   it('rejects an invalid role before even checking admin status', async () => {
     const response = await PATCH(patchRequest({ role: 'SUPERUSER' }), { params: { id: 'camp1', userId: 'user2' } })
     expect(response.status).toBe(400)
-    expect(requireCampaignAdmin).not.toHaveBeenCalled()
+    expect(requireCampaignPermission).not.toHaveBeenCalled()
   })
 
   it('rejects a non-admin', async () => {
@@ -153,7 +153,7 @@ describe('PATCH', () => {
     // Asserting identity with the gate's own Response object closes that:
     // only a short-circuit at the gate can return this exact instance.
     const denial = new Response(null, { status: 403 })
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: denial })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: denial })
     const response = await PATCH(patchRequest({ role: 'ADMIN' }), { params: { id: 'camp1', userId: 'user2' } })
     expect(response).toBe(denial)
     expect(db.campaignMembership.update).not.toHaveBeenCalled()
@@ -189,4 +189,39 @@ describe('PATCH', () => {
     expect(response.status).toBe(200)
     expect(db.campaignMembership.count).not.toHaveBeenCalled()
   })
+
+  it('refuses to demote the last admin to co-host, too', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'ADMIN' })
+    db.campaignMembership.count.mockResolvedValue(1)
+    const response = await PATCH(patchRequest({ role: 'CO_HOST' }), { params: { id: 'camp1', userId: 'user2' } })
+    expect(response.status).toBe(400)
+    expect(db.campaignMembership.update).not.toHaveBeenCalled()
+  })
+
+  it('makes a guest only with an expiry, and clears it for any other role', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
+    db.campaignMembership.update.mockResolvedValue({})
+
+    expect((await PATCH(patchRequest({ role: 'GUEST' }), { params: { id: 'camp1', userId: 'user2' } })).status).toBe(400)
+    expect(db.campaignMembership.update).not.toHaveBeenCalled()
+
+    const before = Date.now()
+    await PATCH(patchRequest({ role: 'GUEST', guestHours: 4 }), { params: { id: 'camp1', userId: 'user2' } })
+    const expiresAt: Date = db.campaignMembership.update.mock.calls[0][0].data.expiresAt
+    expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 4 * 60 * 60 * 1000)
+
+    await PATCH(patchRequest({ role: 'CO_HOST' }), { params: { id: 'camp1', userId: 'user2' } })
+    expect(db.campaignMembership.update.mock.calls[1][0].data).toEqual({ role: 'CO_HOST', expiresAt: null })
+  })
+
+  it('drops a member made spectator from turn order, since they can no longer take a turn', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
+    db.campaignMembership.update.mockResolvedValue({ role: 'SPECTATOR' })
+    db.turnTracker.findMany.mockResolvedValue([
+      { sceneId: 'scene1', turnOrder: [{ userId: 'user2', name: 'Bob' }] },
+    ])
+    const response = await PATCH(patchRequest({ role: 'SPECTATOR' }), { params: { id: 'camp1', userId: 'user2' } })
+    expect(response.status).toBe(200)
+    expect(turnTracker.removePlayerFromTurn).toHaveBeenCalledWith('camp1', 'scene1', 'user2')
+  })
 })
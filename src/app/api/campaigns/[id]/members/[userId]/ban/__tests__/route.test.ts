@@ -8,7 +8,7 @@ import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
 vi.mock('@/lib/db/campaignAccess', () => ({
-  requireCampaignAdmin: vi.fn(),
+  requireCampaignPermission: vi.fn(),
   getCampaignMembership: vi.fn(),
 }))
 vi.mock('@/lib/safety/safety-service', () => ({
@@ -19,7 +19,7 @@ vi.mock('@/lib/safety/safety-service', () => ({
 }))
 
 import { requireAuth } from '@/lib/auth'
-import { requireCampaignAdmin, getCampaignMembership } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission, getCampaignMembership } from '@/lib/db/campaignAccess'
 import { SafetyService } from '@/lib/safety/safety-service'
 import { POST, DELETE } from '../route'
 
@@ -38,7 +38,7 @@ function deleteRequest() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(requireAuth as any).mockResolvedValue({ userId: 'admin1', email: 'admin@example.com' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
 })
 
 describe('POST (ban)', () => {
@@ -59,7 +59,7 @@ describe('POST (ban)', () => {
     // Asserting identity with the gate's own Response object closes that:
     // only a short-circuit at the gate can return this exact instance.
     const denial = new Response(null, { status: 403 })
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: denial })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: denial })
     const response = await POST(postRequest({ reason: 'trolling' }), { params: { id: 'camp1', userId: 'user2' } })
     expect(response).toBe(denial)
     expect(SafetyService.banUserFromCampaign).not.toHaveBeenCalled()
@@ -122,7 +122,7 @@ describe('DELETE (unban)', () => {
     // Asserting identity with the gate's own Response object closes that:
     // only a short-circuit at the gate can return this exact instance.
     const denial = new Response(null, { status: 403 })
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: denial })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: denial })
     const response = await DELETE(deleteRequest(), { params: { id: 'camp1', userId: 'user2' } })
     expect(response).toBe(denial)
     expect(SafetyService.unbanUserFromCampaign).not.toHaveBeenCalled()
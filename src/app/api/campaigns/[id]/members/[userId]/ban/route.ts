@@ -7,7 +7,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
 import { UserRole } from '@prisma/client'
 import { SafetyService } from '@/lib/safety/safety-service'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
 
 export async function POST(
@@ -23,7 +23,7 @@ export async function POST(
       return NextResponse.json({ error: 'You cannot ban yourself' }, { status: 400 })
     }
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only admins can ban members')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'members.manage', 'Only admins can ban members')
     if ('response' in adminCheck) return adminCheck.response
 
     const targetMembership = await getCampaignMembership(targetUserId, campaignId)
@@ -65,7 +65,7 @@ export async function DELETE(
     const user = await requireAuth(request)
     const campaignId = params.id
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only admins can unban members')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'members.manage', 'Only admins can unban members')
     if ('response' in adminCheck) return adminCheck.response
 
     await SafetyService.unbanUserFromCampaign(campaignId, params.userId)
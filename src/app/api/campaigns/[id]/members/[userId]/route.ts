@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { UserRole } from '@prisma/client';
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors';
-import { TurnTracker, type TurnOrder } from '@/lib/notifications/turn-tracker';
+import { can, MAX_GUEST_HOURS } from '@/lib/api/campaignPermissions';
+import { dropFromTurnOrders } from '@/lib/notifications/turnOrderCleanup';
 
 // DELETE /api/campaigns/[id]/members/[userId] - Remove member from campaign
 export async function DELETE(
@@ -17,7 +18,7 @@ export async function DELETE(
     const targetUserId = params.userId;
 
     // Check if current user is an admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only admins can remove members');
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'members.manage', 'Only admins can remove members');
     if ('response' in adminCheck) return adminCheck.response;
 
     // Check if target user is a member
@@ -54,23 +55,7 @@ export async function DELETE(
       },
     });
 
-    // Drop the removed member from any scene's stored turnOrder they're
-    // still present in — otherwise the queue stalls on their slot every
-    // time it comes back around, since getCampaignMembership already 403s
-    // them out of advancing their own turn but nothing ever clears the
-    // stale entry. Best-effort: a failure here shouldn't undo the removal.
-    const turnTrackers = await prisma.turnTracker.findMany({
-      where: { campaignId, sceneId: { not: null } },
-      select: { sceneId: true, turnOrder: true },
-    });
-    for (const tracker of turnTrackers) {
-      const turnOrder = tracker.turnOrder as unknown as TurnOrder[];
-      if (tracker.sceneId && turnOrder.some(p => p.userId === targetUserId)) {
-        await TurnTracker.removePlayerFromTurn(campaignId, tracker.sceneId, targetUserId).catch(err =>
-          console.error('Failed to remove member from turn order:', err)
-        );
-      }
-    }
+    await dropFromTurnOrders(campaignId, targetUserId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -88,15 +73,26 @@ export async function PATCH(
     const campaignId = params.id;
     const targetUserId = params.userId;
     const body = await request.json();
-    const { role } = body;
+    const { role, guestHours } = body;
 
     // Validate role
     if (!role || !Object.values(UserRole).includes(role)) {
       return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
     }
+    // A guest is a player with an end date; making someone a guest without
+    // one would make them a player under another name.
+    if (
+      role === UserRole.GUEST &&
+      !(Number.isInteger(guestHours) && guestHours >= 1 && guestHours <= MAX_GUEST_HOURS)
+    ) {
+      return NextResponse.json(
+        { error: `Guests need guestHours between 1 and ${MAX_GUEST_HOURS}` },
+        { status: 400 }
+      );
+    }
 
     // Check if current user is an admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only admins can change member roles');
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'members.manage', 'Only admins can change member roles');
     if ('response' in adminCheck) return adminCheck.response;
 
     // Check if target user is a member
@@ -106,8 +102,9 @@ export async function PATCH(
       return NextResponse.json({ error: 'This user is not a member of this campaign' }, { status: 403 });
     }
 
-    // Prevent demoting the last admin
-    if (targetMembership.role === UserRole.ADMIN && role === UserRole.PLAYER) {
+    // Prevent demoting the last admin — to any other role, co-host
+    // included: a co-host can't delete the campaign or promote anyone back.
+    if (targetMembership.role === UserRole.ADMIN && role !== UserRole.ADMIN) {
       const adminCount = await prisma.campaignMembership.count({
         where: {
           campaignId,
@@ -131,7 +128,11 @@ export async function PATCH(
           campaignId,
         },
       },
-      data: { role },
+      data: {
+        role,
+        // Only a guest membership runs out; every other role clears it.
+        expiresAt: role === UserRole.GUEST ? new Date(Date.now() + guestHours * 60 * 60 * 1000) : null,
+      },
       include: {
         user: {
           select: {
@@ -143,6 +144,10 @@ export async function PATCH(
       },
     });
 
+    if (!can(role, 'play.act')) {
+      await dropFromTurnOrders(campaignId, targetUserId);
+    }
+
     return NextResponse.json({ membership: updatedMembership });
   } catch (error) {
     return handleRouteError(error, 'Error updating member role', 'Failed to update member role');
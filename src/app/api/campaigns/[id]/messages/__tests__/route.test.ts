@@ -77,6 +77,12 @@ describe('GET', () => {
     }))
   })
 
+  it('shows a spectator public messages only — no whispers, not even ones aimed at them', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'SPECTATOR' })
+    await GET(getRequest(), { params: { id: 'camp1' } })
+    expect(db.message.findMany.mock.calls[0][0].where).toEqual({ campaignId: 'camp1', targetUserId: null })
+  })
+
   it('returns messages oldest-first even though the query is newest-first', async () => {
     db.message.findMany.mockResolvedValue([{ id: 'm2', createdAt: 2 }, { id: 'm1', createdAt: 1 }])
     const response = await GET(getRequest(), { params: { id: 'camp1' } })
@@ -142,15 +148,25 @@ describe('POST', () => {
     )
   })
 
-  it('broadcasts to both the campaign and target-user channels for a whisper', async () => {
+  it('broadcasts a whisper to its two parties only, never the campaign channel', async () => {
     const trigger = vi.fn().mockResolvedValue(undefined)
     ;(PusherServer as any).mockReturnValue({ trigger })
     db.message.create.mockResolvedValue({ id: 'm1', author: { name: 'Player', email: 'p@b.com' }, content: 'psst' })
 
     await POST(postRequest({ content: 'psst', type: 'WHISPER', targetUserId: 'other1' }), { params: { id: 'camp1' } })
 
-    expect(trigger).toHaveBeenCalledWith('campaign-camp1', 'new-message', expect.anything())
     expect(trigger).toHaveBeenCalledWith('user-other1', 'new-whisper', expect.anything())
+    expect(trigger).toHaveBeenCalledWith('user-player1', 'new-whisper', expect.anything())
+    expect(trigger).not.toHaveBeenCalledWith('campaign-camp1', 'new-message', expect.anything())
+  })
+
+  it('refuses a post from a spectator, and a whisper to one', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'SPECTATOR' })
+    expect((await POST(postRequest({ content: 'hi', type: 'OUT_OF_CHARACTER' }), { params: { id: 'camp1' } })).status).toBe(403)
+
+    ;(getCampaignMembership as any).mockImplementation((userId: string) => ({ role: userId === 'player1' ? 'PLAYER' : 'SPECTATOR' }))
+    expect((await POST(postRequest({ content: 'psst', type: 'WHISPER', targetUserId: 'watcher1' }), { params: { id: 'camp1' } })).status).toBe(400)
+    expect(db.message.create).not.toHaveBeenCalled()
   })
 
   it('still succeeds when the Pusher broadcast fails', async () => {
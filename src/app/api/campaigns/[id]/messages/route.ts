@@ -7,6 +7,7 @@ import PusherServer from '@/lib/realtime/pusher-server';
 import { detectMentions } from '@/lib/notifications/mentions';
 import { NotificationService } from '@/lib/notifications/notification-service';
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 
 // GET /api/campaigns/[id]/messages - Get messages for campaign
 export async function GET(
@@ -44,18 +45,21 @@ export async function GET(
     });
     const blockedUserIds = blocks.map(b => b.blockedUserId);
 
-    // Build where clause
-    const where: any = {
-      campaignId: params.id,
-      OR: [
-        // Public messages (not whispers)
-        { targetUserId: null },
-        // Whispers to this user
-        { targetUserId: user.userId },
-        // Whispers from this user
-        { authorId: user.userId }
-      ]
-    };
+    // Build where clause. A spectator follows the table's public talk
+    // only — never a whisper, not even one aimed at them.
+    const where: any = can(membership.role, 'messages.whispers')
+      ? {
+          campaignId: params.id,
+          OR: [
+            // Public messages (not whispers)
+            { targetUserId: null },
+            // Whispers to this user
+            { targetUserId: user.userId },
+            // Whispers from this user
+            { authorId: user.userId }
+          ]
+        }
+      : { campaignId: params.id, targetUserId: null };
 
     if (blockedUserIds.length > 0) {
       where.authorId = { notIn: blockedUserIds };
@@ -127,6 +131,9 @@ export async function POST(
     if (!membership) {
       return NextResponse.json({ error: 'Not a member of this campaign' }, { status: 403 });
     }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json({ error: 'Spectators can\'t post to the table' }, { status: 403 });
+    }
 
     // If whisper, validate target user is in campaign
     if (type === 'WHISPER' && targetUserId) {
@@ -135,6 +142,9 @@ export async function POST(
       if (!targetMembership) {
         return NextResponse.json({ error: 'Target user is not in this campaign' }, { status: 400 });
       }
+      if (!can(targetMembership.role, 'messages.whispers')) {
+        return NextResponse.json({ error: 'Spectators can\'t receive whispers' }, { status: 400 });
+      }
     }
 
     // If IC message, validate character belongs to user
@@ -227,12 +237,14 @@ export async function POST(
     const pusher = PusherServer()
     if (pusher) {
       try {
-        // Broadcast to campaign channel for all messages (including scene-specific ones)
-        await pusher.trigger(`campaign-${params.id}`, 'new-message', message)
-
-        // If it's a whisper, also send to the target user's channel
+        // A whisper goes to its two parties' own channels and nowhere else —
+        // the campaign channel reaches every member, spectators included,
+        // the same split as triggerNewMessage in lib/realtime/pusher-server.ts.
         if (type === 'WHISPER' && targetUserId) {
           await pusher.trigger(`user-${targetUserId}`, 'new-whisper', message)
+          await pusher.trigger(`user-${user.userId}`, 'new-whisper', message)
+        } else {
+          await pusher.trigger(`campaign-${params.id}`, 'new-message', message)
         }
       } catch (pusherError) {
         console.error('Failed to broadcast message via Pusher:', pusherError)
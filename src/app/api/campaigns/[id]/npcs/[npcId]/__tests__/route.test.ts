@@ -7,7 +7,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     nPC: { update: vi.fn(), delete: vi.fn() },
@@ -17,7 +17,7 @@ vi.mock('@/lib/game/worldUpdaters/locations', () => ({ resolveOrCreateLocationId
 vi.mock('@/lib/game/leadershipGuard', () => ({ guardNpcLeaderAssignment: vi.fn() }))
 
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { resolveOrCreateLocationId } from '@/lib/game/worldUpdaters/locations'
 import { guardNpcLeaderAssignment } from '@/lib/game/leadershipGuard'
@@ -40,7 +40,7 @@ function deleteRequest() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'admin1', email: 'admin1@example.com' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   ;(guardNpcLeaderAssignment as any).mockResolvedValue({ ok: true })
 })
 
@@ -53,7 +53,7 @@ describe('PATCH', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await PATCH(patchRequest({ name: 'New Name' }), { params: { id: 'camp1', npcId: 'npc1' } })
     expect(response.status).toBe(403)
     expect(db.nPC.update).not.toHaveBeenCalled()
@@ -148,7 +148,7 @@ describe('DELETE', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await DELETE(deleteRequest(), { params: { id: 'camp1', npcId: 'npc1' } })
     expect(response.status).toBe(403)
     expect(db.nPC.delete).not.toHaveBeenCalled()
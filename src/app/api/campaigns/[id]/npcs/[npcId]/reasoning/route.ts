@@ -8,7 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { decideNpcTick } from '@/lib/game/tick/npcTick'
 import type { AdjacencyEdge } from '@/lib/game/worldGraph'
 import { visibleTo } from '@/lib/api/visibility'
@@ -35,7 +35,7 @@ export async function GET(
 
     const { id: campaignId, npcId } = params
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can preview NPC reasoning')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can preview NPC reasoning')
     if ('response' in adminCheck) return adminCheck.response
 
     const [npc, worldMeta, locations, adjacencyRows] = await Promise.all([
@@ -3,7 +3,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
 import { resolveOrCreateLocationId } from '@/lib/game/worldUpdaters/locations'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { guardNpcLeaderAssignment } from '@/lib/game/leadershipGuard'
 
 export async function PATCH(
@@ -20,7 +20,7 @@ export async function PATCH(
     const body = await request.json()
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can update NPCs')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can update NPCs')
     if ('response' in adminCheck) return adminCheck.response
 
     // Resolve/create the matching Location row and link it via locationId
@@ -92,7 +92,7 @@ export async function DELETE(
     const { id: campaignId, npcId } = params
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can delete NPCs')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can delete NPCs')
     if ('response' in adminCheck) return adminCheck.response
 
     // Delete NPC
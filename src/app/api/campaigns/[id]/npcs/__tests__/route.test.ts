@@ -11,11 +11,11 @@ import { NextRequest } from 'next/server'
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
 vi.mock('@/lib/db/campaignAccess', () => ({
   getCampaignMembership: vi.fn(),
-  requireCampaignAdmin: vi.fn(),
+  requireCampaignPermission: vi.fn(),
 }))
 vi.mock('@/lib/api/visibility', () => ({
   visibleTo: vi.fn(() => ({})),
-  isCampaignAdmin: vi.fn((role: string) => role === 'ADMIN'),
+  seesGmView: vi.fn((role: string) => role === 'ADMIN' || role === 'CO_HOST'),
 }))
 vi.mock('@/lib/game/visibility', () => ({
   redactGmNotesList: vi.fn((list: any, isAdmin: boolean) => isAdmin ? list : list.map((n: any) => ({ ...n, gmNotes: null }))),
@@ -27,7 +27,7 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 import { getUser } from '@/lib/auth'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { resolveOrCreateLocationId } from '@/lib/game/worldUpdaters/locations'
 import { guardNpcLeaderAssignment } from '@/lib/game/leadershipGuard'
 import { prisma } from '@/lib/prisma'
@@ -51,7 +51,7 @@ beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'player1' })
   ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   ;(resolveOrCreateLocationId as any).mockResolvedValue('loc1')
   ;(guardNpcLeaderAssignment as any).mockResolvedValue({ ok: true })
   db.nPC.findMany.mockResolvedValue([{ id: 'n1', name: 'Rowan', gmNotes: 'secret' }])
@@ -73,7 +73,7 @@ describe('GET', () => {
 
 describe('POST', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(postRequest({ name: 'Rowan' }), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(db.nPC.create).not.toHaveBeenCalled()
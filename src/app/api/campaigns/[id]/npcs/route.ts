@@ -2,11 +2,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { isUniqueConstraintViolation } from '@/lib/game/worldUpdaters/uniqueConstraintGuard'
 import { prisma } from '@/lib/prisma'
-import { visibleTo, isCampaignAdmin } from '@/lib/api/visibility'
+import { visibleTo, seesGmView } from '@/lib/api/visibility'
 import { getUser } from '@/lib/auth'
 import { redactGmNotesList } from '@/lib/game/visibility'
 import { resolveOrCreateLocationId } from '@/lib/game/worldUpdaters/locations'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { guardNpcLeaderAssignment } from '@/lib/game/leadershipGuard'
 
 // GET /api/campaigns/:id/npcs - List all NPCs for a campaign
@@ -32,7 +32,7 @@ export async function GET(
       )
     }
 
-    const isAdmin = isCampaignAdmin(membership.role)
+    const isAdmin = seesGmView(membership.role)
 
     // Fog of war: admins see undiscovered NPCs too (they manage them);
     // everyone else sees only what the party has actually found.
@@ -66,7 +66,7 @@ export async function POST(
     const body = await request.json()
 
     // Check if user is admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can create NPCs')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can create NPCs')
     if ('response' in adminCheck) return adminCheck.response
 
     // Validate required fields
@@ -5,7 +5,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { SafetyService } from '@/lib/safety/safety-service'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
 
 export async function PATCH(
@@ -16,7 +16,7 @@ export async function PATCH(
     const user = await requireAuth(request)
     const campaignId = params.id
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only admins can act on reports')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'safety.manage', 'Only admins can act on reports')
     if ('response' in adminCheck) return adminCheck.response
 
     const existing = await prisma.contentReport.findUnique({ where: { id: params.reportId } })
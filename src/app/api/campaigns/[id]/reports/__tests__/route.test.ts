@@ -7,13 +7,13 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn(), requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn(), requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/safety/safety-service', () => ({
   SafetyService: { reportContent: vi.fn(), getReports: vi.fn() },
 }))
 
 import { requireAuth } from '@/lib/auth'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { SafetyService } from '@/lib/safety/safety-service'
 import { POST, GET } from '../route'
 
@@ -34,7 +34,7 @@ beforeEach(() => {
   vi.clearAllMocks()
   ;(requireAuth as any).mockResolvedValue({ userId: 'player1' })
   ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
 })
 
 describe('POST', () => {
@@ -78,7 +78,7 @@ describe('POST', () => {
 
 describe('GET', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await GET(getRequest(), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(SafetyService.getReports).not.toHaveBeenCalled()
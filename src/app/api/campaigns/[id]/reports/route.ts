@@ -9,7 +9,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
 import { ReportStatus, ReportSeverity } from '@prisma/client'
 import { SafetyService } from '@/lib/safety/safety-service'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
 
 const VALID_CONTENT_TYPES = ['message', 'note', 'character', 'scene', 'user_behavior', 'other']
@@ -63,7 +63,7 @@ export async function GET(
     const user = await requireAuth(request)
     const campaignId = params.id
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only admins can view reports')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'safety.manage', 'Only admins can view reports')
     if ('response' in adminCheck) return adminCheck.response
 
     const { searchParams } = new URL(request.url)
@@ -14,18 +14,18 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { UserRole } from '@prisma/client'
 import { getUser } from '@/lib/auth'
 import { kickReseedJob, recoverStaleReseedJobs } from '@/lib/lore/reseedQueue'
 import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 
 async function requireAdmin(request: NextRequest, campaignId: string) {
   const user = await getUser(request)
   if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) } as const
 
   const membership = await getCampaignMembership(user.userId, campaignId)
-  if (!membership || membership.role !== UserRole.ADMIN) {
+  if (!membership || !can(membership.role, 'world.edit')) {
     return { error: NextResponse.json({ error: 'Only campaign admins can reseed the world' }, { status: 403 }) } as const
   }
   return { user } as const
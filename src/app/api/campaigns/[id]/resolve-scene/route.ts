@@ -4,7 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
-import { UserRole } from '@prisma/client'
+import { can } from '@/lib/api/campaignPermissions'
 import { ErrorResponse } from '@/types/api'
 import { getCurrentScene } from '@/lib/game/sceneResolver'
 import { enqueueSceneResolution } from '@/lib/game/resolutionQueue'
@@ -61,9 +61,9 @@ export async function POST(
     }
 
     const userMembership = campaign.memberships.find(m => m.userId === user.userId)
-    if (!userMembership || userMembership.role !== UserRole.ADMIN) {
+    if (!userMembership || !can(userMembership.role, 'scenes.run')) {
       return NextResponse.json<ErrorResponse>(
-        { error: 'Only the campaign host can force-resolve a scene (normal resolution happens automatically once everyone has acted)' },
+        { error: 'Only the campaign host or a co-host can force-resolve a scene (normal resolution happens automatically once everyone has acted)' },
         { status: 403 }
       )
     }
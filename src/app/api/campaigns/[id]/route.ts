@@ -4,10 +4,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { visibleTo } from '@/lib/api/visibility'
+import { visibleTo, seesGmView } from '@/lib/api/visibility'
+import { can } from '@/lib/api/campaignPermissions'
 import { requireAuth } from '@/lib/auth'
 import { ErrorResponse } from '@/types/api'
-import { UserRole } from '@prisma/client'
 import { redactGmNotes, redactGmNotesList } from '@/lib/game/visibility'
 import { isWorldSeeding } from '@/lib/lore/seedingGate'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
@@ -59,8 +59,8 @@ export async function GET(
         clocks: { where: visibleTo('clock', membership.role) },
         // Timeline events relation is named "timeline" in the schema
         timeline: {
-          // Admin sees all events; others see only public ones
-          where: membership.role === UserRole.ADMIN
+          // GMs see all events; others see only public ones
+          where: seesGmView(membership.role)
             ? {}
             : { visibility: 'PUBLIC' },
           orderBy: { sessionDate: 'desc' },
@@ -110,7 +110,7 @@ export async function GET(
       pendingWorldSeed = await isWorldSeeding(campaignId)
     }
 
-    const isAdmin = membership.role === UserRole.ADMIN
+    const isAdmin = seesGmView(membership.role)
     const redactedCampaign = {
       ...campaign,
       pendingWorldSeed,
@@ -153,7 +153,7 @@ export async function PATCH(
       )
     }
 
-    if (membership.role !== UserRole.ADMIN) {
+    if (!can(membership.role, 'campaign.settings')) {
       return NextResponse.json<ErrorResponse>(
         { error: 'Only admins can edit campaigns' },
         { status: 403 }
@@ -239,7 +239,7 @@ export async function DELETE(
       )
     }
 
-    if (membership.role !== UserRole.ADMIN) {
+    if (!can(membership.role, 'campaign.delete')) {
       return NextResponse.json<ErrorResponse>(
         { error: 'Only admins can delete campaigns' },
         { status: 403 }
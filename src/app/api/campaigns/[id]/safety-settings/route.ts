@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getUser } from '@/lib/auth'
 import { SafetyService } from '@/lib/safety/safety-service'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 export async function GET(
   request: NextRequest,
@@ -44,7 +44,7 @@ export async function PATCH(
     }
 
     const campaignId = params.id
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can change safety settings')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'safety.manage', 'Only campaign admins can change safety settings')
     if ('response' in adminCheck) return adminCheck.response
 
     const body = await request.json()
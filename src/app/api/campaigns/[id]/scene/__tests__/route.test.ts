@@ -149,6 +149,17 @@ describe('POST /api/campaigns/[id]/scene', () => {
     expect(db.playerAction.create).not.toHaveBeenCalled()
   })
 
+  it('refuses a spectator, or a guest whose membership ran out, even with their own character', async () => {
+    db.campaignMembership.findUnique.mockResolvedValue({ userId: 'user1', campaignId: 'camp1', role: 'SPECTATOR' })
+    expect((await POST(makeRequest(validBody), { params: { id: 'camp1' } })).status).toBe(403)
+
+    db.campaignMembership.findUnique.mockResolvedValue({
+      userId: 'user1', campaignId: 'camp1', role: 'GUEST', expiresAt: new Date(Date.now() - 1000),
+    })
+    expect((await POST(makeRequest(validBody), { params: { id: 'camp1' } })).status).toBe(403)
+    expect(db.playerAction.create).not.toHaveBeenCalled()
+  })
+
   it('blocks action text flagged by moderation before it ever reaches an AI GM call', async () => {
     ;(moderatePlayerText as any).mockResolvedValue({ flagged: true, categories: ['violence'] })
     const response = await call()
@@ -351,6 +362,16 @@ describe('GET /api/campaigns/[id]/scene — sceneImage attachment', () => {
     expect(body.scene.id).toBe('scene1')
   })
 
+  it('strips the retrieval trace for a member without the GM view', async () => {
+    db.scene.findMany.mockResolvedValue([
+      { ...makeActiveScene('scene1'), consequences: { worldStateChanges: [], retrieval: { memories: [], lore: [] } } },
+    ])
+
+    const body = await (await call()).json()
+
+    expect(body.scene.consequences).toEqual({ worldStateChanges: [] })
+  })
+
   it('skips the lookup entirely when there are no active scenes', async () => {
     db.scene.findMany.mockResolvedValue([])
 
@@ -13,6 +13,7 @@ vi.mock('@/lib/prisma', () => ({
   prisma: {
     campaign: { findUnique: vi.fn() },
     character: { findUnique: vi.fn() },
+    campaignMembership: { findUnique: vi.fn() },
     scene: { findUnique: vi.fn() },
     gmClarification: { create: vi.fn() },
   },
@@ -54,6 +55,7 @@ beforeEach(() => {
   ;(PusherServer as any).mockReturnValue(null)
   db.campaign.findUnique.mockResolvedValue({ title: 'Test Campaign', universe: 'Fantasy', contentModerationLevel: 'standard' })
   db.character.findUnique.mockResolvedValue({ id: 'char1', userId: 'player1', name: 'Rowan' })
+  db.campaignMembership.findUnique.mockResolvedValue({ userId: 'player1', campaignId: 'camp1', role: 'PLAYER' })
   db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'AWAITING_ACTIONS', sceneIntroText: 'intro', sceneResolutionText: null })
   ;(generateGmAnswer as any).mockResolvedValue('It smells of old parchment.')
   db.gmClarification.create.mockResolvedValue({
@@ -94,6 +96,13 @@ describe('POST', () => {
     expect(generateGmAnswer).not.toHaveBeenCalled()
   })
 
+  it('refuses a spectator before spending a model call', async () => {
+    db.campaignMembership.findUnique.mockResolvedValue({ userId: 'player1', campaignId: 'camp1', role: 'SPECTATOR' })
+    const response = await POST(req(validBody), { params: { id: 'camp1' } })
+    expect(response.status).toBe(403)
+    expect(generateGmAnswer).not.toHaveBeenCalled()
+  })
+
   it('rejects asking as a character you do not own', async () => {
     db.character.findUnique.mockResolvedValue({ id: 'char1', userId: 'someone-else' })
     const response = await POST(req(validBody), { params: { id: 'camp1' } })
@@ -12,6 +12,8 @@ import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/li
 import { moderatePlayerText } from '@/lib/ai/moderation'
 import { generateGmAnswer, MAX_QUESTION_CHARS } from '@/lib/ai/askGm'
 import { handleRouteError } from '@/lib/api/errors'
+import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 
 export const maxDuration = 30
 
@@ -30,6 +32,13 @@ export async function POST(
     }
     const trimmedQuestion = question.trim().slice(0, MAX_QUESTION_CHARS)
 
+    // Same gate as submitting an action (scene/route.ts): owning a
+    // character is not the same as still being a player here.
+    const membership = await getCampaignMembership(user.userId, campaignId)
+    if (!membership || !can(membership.role, 'play.act')) {
+      return NextResponse.json({ error: 'Only players in this campaign can ask the GM' }, { status: 403 })
+    }
+
     // Same shared AI-action budget as submitting a real action — this still
     // calls the model, just a smaller/cheaper call.
     const rateLimit = await checkRateLimit(user.userId, AI_ACTION_LIMIT.bucket, AI_ACTION_LIMIT.limit, AI_ACTION_LIMIT.windowSeconds)
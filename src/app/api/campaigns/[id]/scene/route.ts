@@ -13,7 +13,9 @@ import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/li
 import { moderatePlayerText } from '@/lib/ai/moderation'
 import { canAct, parseHarmState, HarmLevel } from '@/lib/game/harm'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 import { handleRouteError } from '@/lib/api/errors'
+import { withoutRetrievalTrace } from '@/lib/game/worldStateChanges'
 import { submitPlayerAction, type SceneParticipants } from '@/lib/game/actionSubmission'
 
 // POST can trigger a full scene resolution (AI GM call + world tick) inline
@@ -121,7 +123,12 @@ export async function GET(
     // get) an illustration on initial load, not just via the
     // scene:image-ready Pusher event fired after a fresh generation
     // completes.
-    let scenesWithImages = activeScenes
+    // The retrieval trace names imported lore; only the GM view gets it
+    // (see withoutRetrievalTrace).
+    const canSeeRetrieval = can(membership.role, 'world.gmView')
+    let scenesWithImages = activeScenes.map(scene =>
+      canSeeRetrieval ? scene : { ...scene, consequences: withoutRetrievalTrace(scene.consequences) }
+    )
     if (activeScenes.length > 0) {
       try {
         const images = await prisma.sceneImage.findMany({
@@ -129,7 +136,7 @@ export async function GET(
           select: { sceneId: true, status: true, imageUrl: true },
         })
         const imagesBySceneId = new Map(images.map(img => [img.sceneId, img]))
-        scenesWithImages = activeScenes.map(scene => ({
+        scenesWithImages = scenesWithImages.map(scene => ({
           ...scene,
           sceneImage: imagesBySceneId.get(scene.id) ?? null,
         }))
@@ -182,6 +189,16 @@ export async function POST(
     }
     const actionText = validated.text
 
+    // Owning the character below isn't enough on its own: a member made
+    // spectator, or a guest whose time ran out, still owns theirs.
+    const membership = await getCampaignMembership(user.userId, campaignId)
+    if (!membership || !can(membership.role, 'play.act')) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Only players in this campaign can submit actions' },
+        { status: 403 }
+      )
+    }
+
     // Rate limit before any DB/AI work — action submission can trigger a
     // full scene resolution (an LLM call) inline.
     const rateLimit = await checkRateLimit(user.userId, AI_ACTION_LIMIT.bucket, AI_ACTION_LIMIT.limit, AI_ACTION_LIMIT.windowSeconds)
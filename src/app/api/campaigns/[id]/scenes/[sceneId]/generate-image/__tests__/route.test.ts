@@ -6,7 +6,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     campaign: { findUnique: vi.fn() },
@@ -16,7 +16,7 @@ vi.mock('@/lib/prisma', () => ({
 vi.mock('@/lib/game/imageGenQueue', () => ({ enqueueSceneImageGeneration: vi.fn() }))
 
 import { requireAuth } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
 import { enqueueSceneImageGeneration } from '@/lib/game/imageGenQueue'
 import { POST } from '../route'
@@ -30,7 +30,7 @@ function req() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(requireAuth as any).mockResolvedValue({ userId: 'admin1', email: 'admin@example.com' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   db.campaign.findUnique.mockResolvedValue({ sceneImageGenerationEnabled: true })
   db.scene.findUnique.mockResolvedValue({
     campaignId: 'camp1',
@@ -44,7 +44,7 @@ beforeEach(() => {
 
 describe('POST /api/campaigns/[id]/scenes/[sceneId]/generate-image', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(req(), { params: { id: 'camp1', sceneId: 'scene1' } })
     expect(response.status).toBe(403)
     expect(enqueueSceneImageGeneration).not.toHaveBeenCalled()
@@ -11,7 +11,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
 import { buildScenePrompt } from '@/lib/ai/imageGeneration'
 import { enqueueSceneImageGeneration } from '@/lib/game/imageGenQueue'
@@ -31,7 +31,7 @@ export async function POST(
     const campaignId = params.id
     const sceneId = params.sceneId
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can generate scene art')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can generate scene art')
     if ('response' in adminCheck) return adminCheck.response
 
     const campaign = await prisma.campaign.findUnique({
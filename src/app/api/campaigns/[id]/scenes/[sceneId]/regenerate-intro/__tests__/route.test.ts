@@ -70,6 +70,15 @@ describe('POST', () => {
     expect(response.status).toBe(403)
   })
 
+  it('rejects a spectator before spending a model call', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'SPECTATOR' })
+    const response = await POST(req(), { params: { id: 'camp1', sceneId: 'scene1' } })
+    const body = await response.json()
+    expect(response.status).toBe(403)
+    expect(body.error).toMatch(/Spectators/)
+    expect(generateNewSceneIntro).not.toHaveBeenCalled()
+  })
+
   it('blocks during world seeding', async () => {
     ;(isWorldSeeding as any).mockResolvedValue(true)
     const response = await POST(req(), { params: { id: 'camp1', sceneId: 'scene1' } })
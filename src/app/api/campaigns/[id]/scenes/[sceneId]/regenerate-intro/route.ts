@@ -1,10 +1,10 @@
 // src/app/api/campaigns/[id]/scenes/[sceneId]/regenerate-intro/route.ts
 // Re-roll a scene's intro text — for a fresh scene nobody has acted on
 // yet (a bad first draft, or replaying an old scene under a prompt fix
-// without losing anyone's already-submitted response). Any member can
+// without losing anyone's already-submitted response). Any player can
 // trigger it, same as starting a scene in the first place: there's no
 // human GM in this product, so redoing an opener is a table decision,
-// not a hosting duty.
+// not a hosting duty. Spectators are at the table but not in the game.
 
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
@@ -15,6 +15,7 @@ import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/li
 import { isWorldSeeding, SEEDING_MESSAGE } from '@/lib/lore/seedingGate'
 import PusherServer from '@/lib/realtime/pusher-server'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 import { handleRouteErrorWithDetails } from '@/lib/api/errors'
 
 export async function POST(
@@ -41,6 +42,9 @@ export async function POST(
         { status: 403 }
       )
     }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json<ErrorResponse>({ error: 'Spectators can\'t re-roll scene intros' }, { status: 403 })
+    }
 
     if (await isWorldSeeding(campaignId)) {
       return NextResponse.json({ error: SEEDING_MESSAGE, worldSeeding: true }, { status: 409 })
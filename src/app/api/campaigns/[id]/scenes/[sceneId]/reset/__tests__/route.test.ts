@@ -7,20 +7,22 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     scene: { findUnique: vi.fn(), update: vi.fn() },
     playerAction: { deleteMany: vi.fn() },
   },
 }))
+vi.mock('@/lib/game/resolutionReview', () => ({ discardPendingReviews: vi.fn() }))
 vi.mock('@/lib/realtime/pusher-server', () => ({
   default: vi.fn(() => ({ trigger: vi.fn().mockResolvedValue(undefined) })),
 }))
 
 import { requireAuth } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { prisma } from '@/lib/prisma'
+import { discardPendingReviews } from '@/lib/game/resolutionReview'
 import { POST } from '../route'
 
 const db = prisma as any
@@ -32,12 +34,13 @@ function req() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(requireAuth as any).mockResolvedValue({ userId: 'admin1', email: 'admin@example.com' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(discardPendingReviews as any).mockResolvedValue(0)
 })
 
 describe('POST', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(req(), { params: { id: 'camp1', sceneId: 'scene1' } })
     expect(response.status).toBe(403)
     expect(db.playerAction.deleteMany).not.toHaveBeenCalled()
@@ -82,6 +85,18 @@ describe('POST', () => {
     expect(body.actionsCleared).toBe(2)
   })
 
+  it('discards a resolution held for GM review along with the actions it narrated', async () => {
+    db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'RESOLVING', sceneNumber: 3 })
+    db.playerAction.deleteMany.mockResolvedValue({ count: 2 })
+    db.scene.update.mockResolvedValue({ id: 'scene1', status: 'AWAITING_ACTIONS' })
+    ;(discardPendingReviews as any).mockResolvedValue(1)
+
+    const response = await POST(req(), { params: { id: 'camp1', sceneId: 'scene1' } })
+
+    expect(response.status).toBe(200)
+    expect(discardPendingReviews).toHaveBeenCalledWith('scene1')
+  })
+
   it('still succeeds even if the Pusher broadcast fails', async () => {
     const { default: PusherServer } = await import('@/lib/realtime/pusher-server')
     ;(PusherServer as any).mockReturnValueOnce({ trigger: vi.fn().mockRejectedValue(new Error('pusher down')) })
@@ -6,8 +6,9 @@ import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth'
 import PusherServer from '@/lib/realtime/pusher-server'
 import { SceneStatus, Prisma } from '@prisma/client'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
+import { discardPendingReviews } from '@/lib/game/resolutionReview'
 
 export async function POST(
   request: NextRequest,
@@ -20,7 +21,7 @@ export async function POST(
     const sceneId = params.sceneId
 
     // Check if user is an admin
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can reset scenes')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can reset scenes')
     if ('response' in adminCheck) return adminCheck.response
 
     // Get the scene
@@ -61,6 +62,15 @@ export async function POST(
 
     console.log(`🗑️ Deleted ${deletedActions.count} pending player actions for scene ${sceneId}`)
 
+    // A scene held for GM review sits at RESOLVING too (see
+    // lib/game/resolutionReview.ts). Its draft was about the actions just
+    // cleared, so it goes with them rather than lingering to block the
+    // scene's next resolution.
+    const discardedReviews = await discardPendingReviews(sceneId)
+    if (discardedReviews > 0) {
+      console.log(`🗑️ Discarded ${discardedReviews} pending GM review(s) for scene ${sceneId}`)
+    }
+
     // Reset the scene to AWAITING_ACTIONS and clear exchange state
     await prisma.scene.update({
       where: { id: sceneId },
@@ -5,7 +5,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth'
 import { SafetyService } from '@/lib/safety/safety-service'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
 
 export async function POST(
@@ -18,7 +18,7 @@ export async function POST(
     const campaignId = params.id
     const sceneId = params.sceneId
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can resume a paused scene')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can resume a paused scene')
     if ('response' in adminCheck) return adminCheck.response
 
     const scene = await prisma.scene.findUnique({
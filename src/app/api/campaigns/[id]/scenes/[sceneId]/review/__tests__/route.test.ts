@@ -0,0 +1,140 @@
+// src/app/api/campaigns/[id]/scenes/[sceneId]/review/__tests__/route.test.ts
+// Reading, editing and discarding a held resolution: admin-only, a 404
+// when nothing is pending, and a discard that lost a race to a publish is
+// a 409 rather than a 500.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/game/resolutionReview', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/game/resolutionReview')>()
+  return {
+    ResolutionReviewError: actual.ResolutionReviewError,
+    getResolutionReview: vi.fn(),
+    updateResolutionReview: vi.fn(),
+    discardResolutionReview: vi.fn(),
+  }
+})
+
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import {
+  ResolutionReviewError,
+  discardResolutionReview,
+  getResolutionReview,
+  updateResolutionReview,
+} from '@/lib/game/resolutionReview'
+import { GET, PATCH, DELETE } from '../route'
+
+const params = { params: { id: 'camp1', sceneId: 'scene1' } }
+const review = { id: 'review1', sceneId: 'scene1', sceneText: 'The door gives.', editedSceneText: null, rolls: [], changes: [] }
+
+function req(method: string, body?: unknown) {
+  return new NextRequest('http://localhost/api/campaigns/camp1/scenes/scene1/review', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'gm1' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(getResolutionReview as any).mockResolvedValue(review)
+  ;(updateResolutionReview as any).mockResolvedValue(true)
+  ;(discardResolutionReview as any).mockResolvedValue(true)
+})
+
+describe('GET', () => {
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can review resolutions' }, { status: 403 }),
+    })
+    const response = await GET(req('GET'), params)
+    expect(response.status).toBe(403)
+    expect(getResolutionReview).not.toHaveBeenCalled()
+  })
+
+  it('returns the pending review', async () => {
+    const response = await GET(req('GET'), params)
+    const body = await response.json()
+    expect(getResolutionReview).toHaveBeenCalledWith('camp1', 'scene1')
+    expect(body.review).toMatchObject({ id: 'review1', sceneText: 'The door gives.' })
+  })
+
+  it('404s when nothing is awaiting review', async () => {
+    ;(getResolutionReview as any).mockResolvedValue(null)
+    const response = await GET(req('GET'), params)
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('PATCH', () => {
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can review resolutions' }, { status: 403 }),
+    })
+    const response = await PATCH(req('PATCH', { sceneText: 'Mine now.' }), params)
+    expect(response.status).toBe(403)
+    expect(updateResolutionReview).not.toHaveBeenCalled()
+  })
+
+  it('saves prose edits and decisions', async () => {
+    const decisions = [{ mutationId: 'm1', result: 'REJECTED' }]
+    const response = await PATCH(req('PATCH', { sceneText: '  The door holds.  ', decisions }), params)
+    expect(response.status).toBe(200)
+    expect(updateResolutionReview).toHaveBeenCalledWith('camp1', 'scene1', { sceneText: 'The door holds.', decisions })
+  })
+
+  it('accepts null to go back to the AI prose', async () => {
+    await PATCH(req('PATCH', { sceneText: null }), params)
+    expect(updateResolutionReview).toHaveBeenCalledWith('camp1', 'scene1', { sceneText: null })
+  })
+
+  it('rejects an empty body and an unknown decision', async () => {
+    expect((await PATCH(req('PATCH', {}), params)).status).toBe(400)
+    const response = await PATCH(req('PATCH', { decisions: [{ mutationId: 'm1', result: 'MAYBE' }] }), params)
+    expect(response.status).toBe(400)
+    expect(updateResolutionReview).not.toHaveBeenCalled()
+  })
+
+  it('404s when nothing is awaiting review', async () => {
+    ;(updateResolutionReview as any).mockResolvedValue(false)
+    const response = await PATCH(req('PATCH', { sceneText: 'Mine now.' }), params)
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('DELETE', () => {
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can discard resolutions' }, { status: 403 }),
+    })
+    const response = await DELETE(req('DELETE'), params)
+    expect(response.status).toBe(403)
+    expect(discardResolutionReview).not.toHaveBeenCalled()
+  })
+
+  it('discards the review as the signed-in admin', async () => {
+    const response = await DELETE(req('DELETE'), params)
+    expect(response.status).toBe(200)
+    expect(discardResolutionReview).toHaveBeenCalledWith('camp1', 'scene1', 'gm1')
+  })
+
+  it('409s when the review was settled in the meantime', async () => {
+    ;(discardResolutionReview as any).mockRejectedValue(new ResolutionReviewError('This resolution was already published or discarded.'))
+    const response = await DELETE(req('DELETE'), params)
+    const body = await response.json()
+    expect(response.status).toBe(409)
+    expect(body.error).toBe('This resolution was already published or discarded.')
+  })
+
+  it('404s when nothing is awaiting review', async () => {
+    ;(discardResolutionReview as any).mockResolvedValue(false)
+    const response = await DELETE(req('DELETE'), params)
+    expect(response.status).toBe(404)
+  })
+})
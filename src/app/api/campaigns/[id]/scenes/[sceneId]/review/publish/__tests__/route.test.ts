@@ -0,0 +1,88 @@
+// src/app/api/campaigns/[id]/scenes/[sceneId]/review/publish/__tests__/route.test.ts
+// Publishing a held resolution: rate limited like any AI-backed action,
+// admin-only, and a paused or already-settled review is a 409.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  AI_ACTION_LIMIT: { bucket: 'ai-action', limit: 20, windowSeconds: 60 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(),
+}))
+vi.mock('@/lib/game/resolutionReview', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/game/resolutionReview')>()
+  return { ResolutionReviewError: actual.ResolutionReviewError, publishResolutionReview: vi.fn() }
+})
+
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { ResolutionReviewError, publishResolutionReview } from '@/lib/game/resolutionReview'
+import { POST } from '../route'
+
+const params = { params: { id: 'camp1', sceneId: 'scene1' } }
+
+function req() {
+  return new NextRequest('http://localhost/api/campaigns/camp1/scenes/scene1/review/publish', { method: 'POST' })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'gm1' })
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(publishResolutionReview as any).mockResolvedValue({ sceneText: 'The door holds.', newTurnNumber: 5, sceneEnded: false })
+})
+
+describe('POST', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(requireAuth as any).mockRejectedValue(new Error('Unauthorized'))
+    const response = await POST(req(), params)
+    expect(response.status).toBe(401)
+  })
+
+  it('is rate limited before publishing', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 5 })
+    ;(rateLimitExceededResponse as any).mockReturnValue(new Response(null, { status: 429 }))
+    const response = await POST(req(), params)
+    expect(response.status).toBe(429)
+    expect(publishResolutionReview).not.toHaveBeenCalled()
+  })
+
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can publish resolutions' }, { status: 403 }),
+    })
+    const response = await POST(req(), params)
+    expect(response.status).toBe(403)
+    expect(publishResolutionReview).not.toHaveBeenCalled()
+  })
+
+  it('publishes as the signed-in admin', async () => {
+    const response = await POST(req(), params)
+    const body = await response.json()
+    expect(publishResolutionReview).toHaveBeenCalledWith('camp1', 'scene1', 'gm1')
+    expect(body).toMatchObject({ success: true, sceneText: 'The door holds.', newTurnNumber: 5, sceneEnded: false })
+  })
+
+  it('404s when nothing is awaiting review', async () => {
+    ;(publishResolutionReview as any).mockResolvedValue(null)
+    const response = await POST(req(), params)
+    expect(response.status).toBe(404)
+  })
+
+  it('409s on a paused scene or a settled review', async () => {
+    ;(publishResolutionReview as any).mockRejectedValue(new ResolutionReviewError('Scene is paused for a safety check-in. Resume it before you publish.'))
+    const response = await POST(req(), params)
+    expect(response.status).toBe(409)
+  })
+
+  it('500s when applying the resolution fails', async () => {
+    ;(publishResolutionReview as any).mockRejectedValue(new Error('db down'))
+    const response = await POST(req(), params)
+    expect(response.status).toBe(500)
+  })
+})
@@ -0,0 +1,46 @@
+// src/app/api/campaigns/[id]/scenes/[sceneId]/review/publish/route.ts
+// POST - Publish the scene's reviewed resolution: apply it with the GM's
+//        edits and decisions, then run whatever it held up (the world
+//        turn, and the rest of ending the scene if it was the last one)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { ResolutionReviewError, publishResolutionReview } from '@/lib/game/resolutionReview'
+
+// Publishing is the back half of a resolution (world updates, memories,
+// enrichment calls) plus a possible world turn — the same work the end-
+// scene route awaits, so the same ceiling. See scene/route.ts.
+export const maxDuration = 60
+
+type Params = { params: { id: string; sceneId: string } }
+
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, sceneId } = params
+
+    const rateLimit = await checkRateLimit(user.userId, AI_ACTION_LIMIT.bucket, AI_ACTION_LIMIT.limit, AI_ACTION_LIMIT.windowSeconds)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can publish resolutions')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const published = await publishResolutionReview(campaignId, sceneId, user.userId)
+    if (!published) {
+      return NextResponse.json<ErrorResponse>({ error: 'No resolution is awaiting review for this scene' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...published })
+  } catch (error) {
+    if (error instanceof ResolutionReviewError) {
+      return NextResponse.json<ErrorResponse>({ error: error.message }, { status: 409 })
+    }
+    return handleRouteError(error, 'Publish resolution review error', 'Failed to publish the resolution')
+  }
+}
@@ -0,0 +1,81 @@
+// src/app/api/campaigns/[id]/scenes/[sceneId]/review/reroll/__tests__/route.test.ts
+// Re-rolling a held resolution's narration: rate limited, admin-only, and
+// it returns the fresh draft for the panel to show.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  AI_ACTION_LIMIT: { bucket: 'ai-action', limit: 20, windowSeconds: 60 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(),
+}))
+vi.mock('@/lib/game/resolutionReview', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/game/resolutionReview')>()
+  return {
+    ResolutionReviewError: actual.ResolutionReviewError,
+    rerollResolutionReview: vi.fn(),
+    getResolutionReview: vi.fn(),
+  }
+})
+
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { ResolutionReviewError, getResolutionReview, rerollResolutionReview } from '@/lib/game/resolutionReview'
+import { POST } from '../route'
+
+const params = { params: { id: 'camp1', sceneId: 'scene1' } }
+
+function req() {
+  return new NextRequest('http://localhost/api/campaigns/camp1/scenes/scene1/review/reroll', { method: 'POST' })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'gm1' })
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(rerollResolutionReview as any).mockResolvedValue(true)
+  ;(getResolutionReview as any).mockResolvedValue({ id: 'review1', rerollCount: 1, sceneText: 'Again, differently.' })
+})
+
+describe('POST', () => {
+  it('is rate limited before calling the AI', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 5 })
+    ;(rateLimitExceededResponse as any).mockReturnValue(new Response(null, { status: 429 }))
+    const response = await POST(req(), params)
+    expect(response.status).toBe(429)
+    expect(rerollResolutionReview).not.toHaveBeenCalled()
+  })
+
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can re-roll resolutions' }, { status: 403 }),
+    })
+    const response = await POST(req(), params)
+    expect(response.status).toBe(403)
+    expect(rerollResolutionReview).not.toHaveBeenCalled()
+  })
+
+  it('re-rolls and returns the new draft', async () => {
+    const response = await POST(req(), params)
+    const body = await response.json()
+    expect(rerollResolutionReview).toHaveBeenCalledWith('camp1', 'scene1')
+    expect(body.review).toMatchObject({ rerollCount: 1, sceneText: 'Again, differently.' })
+  })
+
+  it('404s when nothing is awaiting review', async () => {
+    ;(rerollResolutionReview as any).mockResolvedValue(false)
+    const response = await POST(req(), params)
+    expect(response.status).toBe(404)
+  })
+
+  it('409s when the review was settled during the AI call', async () => {
+    ;(rerollResolutionReview as any).mockRejectedValue(new ResolutionReviewError('This resolution was published or discarded while the narration was being re-rolled.'))
+    const response = await POST(req(), params)
+    expect(response.status).toBe(409)
+  })
+})
@@ -0,0 +1,43 @@
+// src/app/api/campaigns/[id]/scenes/[sceneId]/review/reroll/route.ts
+// POST - Ask the AI GM to narrate the held resolution again. Same rolls,
+//        new prose and proposals; the GM's edits to the old draft go.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
+import { ResolutionReviewError, getResolutionReview, rerollResolutionReview } from '@/lib/game/resolutionReview'
+
+// One narrator call — the same one resolveScene makes. See scene/route.ts.
+export const maxDuration = 60
+
+type Params = { params: { id: string; sceneId: string } }
+
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, sceneId } = params
+
+    const rateLimit = await checkRateLimit(user.userId, AI_ACTION_LIMIT.bucket, AI_ACTION_LIMIT.limit, AI_ACTION_LIMIT.windowSeconds)
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can re-roll resolutions')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const rerolled = await rerollResolutionReview(campaignId, sceneId)
+    if (!rerolled) {
+      return NextResponse.json<ErrorResponse>({ error: 'No resolution is awaiting review for this scene' }, { status: 404 })
+    }
+
+    return NextResponse.json({ review: await getResolutionReview(campaignId, sceneId) })
+  } catch (error) {
+    if (error instanceof ResolutionReviewError) {
+      return NextResponse.json<ErrorResponse>({ error: error.message }, { status: 409 })
+    }
+    return handleRouteError(error, 'Re-roll resolution review error', 'Failed to re-roll the narration')
+  }
+}
@@ -0,0 +1,95 @@
+// src/app/api/campaigns/[id]/scenes/[sceneId]/review/route.ts
+// GM co-pilot review of a scene's held resolution (lib/game/resolutionReview.ts)
+// GET    - The pending review: prose, the rolls it narrates, each proposed change
+// PATCH  - Save prose edits and accept/reject decisions
+// DELETE - Discard it; the scene goes back to waiting on actions
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import {
+  ResolutionReviewError,
+  discardResolutionReview,
+  getResolutionReview,
+  updateResolutionReview,
+} from '@/lib/game/resolutionReview'
+
+type Params = { params: { id: string; sceneId: string } }
+
+const updateReviewSchema = z
+  .object({
+    // null drops the edit and goes back to the AI's prose.
+    sceneText: z.string().trim().min(1, 'The narration cannot be empty').max(20000).nullable().optional(),
+    decisions: z
+      .array(z.object({ mutationId: z.string().min(1), result: z.enum(['ACCEPTED', 'REJECTED']) }))
+      .max(200)
+      .optional(),
+  })
+  .refine((body) => body.sceneText !== undefined || body.decisions !== undefined, { message: 'Nothing to update' })
+
+const notFound = () => NextResponse.json<ErrorResponse>({ error: 'No resolution is awaiting review for this scene' }, { status: 404 })
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, sceneId } = params
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can review resolutions')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const review = await getResolutionReview(campaignId, sceneId)
+    if (!review) return notFound()
+
+    return NextResponse.json({ review })
+  } catch (error) {
+    return handleRouteError(error, 'Get resolution review error', 'Internal server error')
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, sceneId } = params
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can review resolutions')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const edits = updateReviewSchema.parse(await request.json())
+
+    const updated = await updateResolutionReview(campaignId, sceneId, edits)
+    if (!updated) return notFound()
+
+    return NextResponse.json({ review: await getResolutionReview(campaignId, sceneId) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+    return handleRouteError(error, 'Update resolution review error', 'Internal server error')
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, sceneId } = params
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can discard resolutions')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const discarded = await discardResolutionReview(campaignId, sceneId, user.userId)
+    if (!discarded) return notFound()
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof ResolutionReviewError) {
+      return NextResponse.json<ErrorResponse>({ error: error.message }, { status: 409 })
+    }
+    return handleRouteError(error, 'Discard resolution review error', 'Internal server error')
+  }
+}
@@ -12,7 +12,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth'
 import { ErrorResponse } from '@/types/api'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
 import PusherServer from '@/lib/realtime/pusher-server'
 
@@ -25,7 +25,7 @@ export async function DELETE(
     const campaignId = params.id
     const sceneId = params.sceneId
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can delete scenes')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can delete scenes')
     if ('response' in adminCheck) return adminCheck.response
 
     const scene = await prisma.scene.findUnique({ where: { id: sceneId } })
@@ -0,0 +1,91 @@
+// src/app/api/campaigns/[id]/scenes/[sceneId]/tactical/__tests__/route.test.ts
+// Admin-only switch for a scene's tactical mode.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    campaignMembership: { findUnique: vi.fn() },
+    scene: { findUnique: vi.fn(), update: vi.fn(async () => ({})) },
+  },
+}))
+vi.mock('@/lib/auth', () => ({
+  requireAuth: vi.fn(),
+}))
+vi.mock('@/lib/game/tactical/board', () => ({
+  prepareTacticalBoard: vi.fn(),
+}))
+const trigger = vi.fn(async () => ({}))
+vi.mock('@/lib/realtime/pusher-server', () => ({
+  default: vi.fn(() => ({ trigger })),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { prepareTacticalBoard } from '@/lib/game/tactical/board'
+import { PUT } from '../route'
+
+const db = prisma as any
+
+function call(body: unknown) {
+  const request = new NextRequest('http://localhost/api/campaigns/camp1/scenes/scene1/tactical', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  return PUT(request, { params: { id: 'camp1', sceneId: 'scene1' } })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockReturnValue({ userId: 'user1', email: 'user1@example.com' })
+  db.campaignMembership.findUnique.mockResolvedValue({ role: 'ADMIN' })
+  db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'AWAITING_ACTIONS' })
+  ;(prepareTacticalBoard as any).mockResolvedValue({ mapId: 'map1', placed: 3 })
+})
+
+describe('PUT tactical', () => {
+  it('rejects a non-admin', async () => {
+    db.campaignMembership.findUnique.mockResolvedValue({ role: 'PLAYER' })
+    expect((await call({ enabled: true })).status).toBe(403)
+    expect(db.scene.update).not.toHaveBeenCalled()
+  })
+
+  it('404s when the scene does not belong to the campaign', async () => {
+    db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'other', status: 'AWAITING_ACTIONS' })
+    expect((await call({ enabled: true })).status).toBe(404)
+  })
+
+  it('400s without a boolean', async () => {
+    expect((await call({ enabled: 'yes' })).status).toBe(400)
+  })
+
+  it('sets up the board, turns the mode on and tells the table', async () => {
+    const response = await call({ enabled: true })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ sceneId: 'scene1', tacticalMode: true, placed: 3 })
+    expect(prepareTacticalBoard).toHaveBeenCalledWith('camp1', 'scene1')
+    expect(db.scene.update).toHaveBeenCalledWith({ where: { id: 'scene1' }, data: { tacticalMode: true } })
+    expect(trigger).toHaveBeenCalledWith('campaign-camp1', 'scene:tactical', { sceneId: 'scene1', tacticalMode: true })
+  })
+
+  it('409s when there is no map to play on, leaving the mode off', async () => {
+    ;(prepareTacticalBoard as any).mockResolvedValue(null)
+    expect((await call({ enabled: true })).status).toBe(409)
+    expect(db.scene.update).not.toHaveBeenCalled()
+  })
+
+  it('409s turning it on for a scene that has ended', async () => {
+    db.scene.findUnique.mockResolvedValue({ id: 'scene1', campaignId: 'camp1', status: 'RESOLVED' })
+    expect((await call({ enabled: true })).status).toBe(409)
+  })
+
+  it('turns it off without touching the board', async () => {
+    const response = await call({ enabled: false })
+    expect(response.status).toBe(200)
+    expect(prepareTacticalBoard).not.toHaveBeenCalled()
+    expect(db.scene.update).toHaveBeenCalledWith({ where: { id: 'scene1' }, data: { tacticalMode: false } })
+  })
+})
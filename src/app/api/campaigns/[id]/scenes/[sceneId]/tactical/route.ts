@@ -0,0 +1,80 @@
+// API endpoint for a GM/admin to switch a scene's tactical mode on or off
+// (see lib/game/tactical/ and Scene.tacticalMode).
+//
+// Switching it on pins the campaign's active map to the scene and places
+// the party on it (prepareTacticalBoard) — a scene with no map yet can't go
+// tactical, since there'd be no board for positions to come from. Sending
+// `enabled: true` again is how an admin adds a character who joined
+// mid-scene; placement is idempotent. Switching it off leaves the tokens
+// where they are and hands range back to the fiction.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { handleRouteError } from '@/lib/api/errors'
+import { prepareTacticalBoard } from '@/lib/game/tactical/board'
+import PusherServer from '@/lib/realtime/pusher-server'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; sceneId: string } }
+) {
+  try {
+    const user = await requireAuth(request)
+
+    const campaignId = params.id
+    const sceneId = params.sceneId
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can change tactical mode')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const scene = await prisma.scene.findUnique({
+      where: { id: sceneId },
+      select: { id: true, campaignId: true, status: true },
+    })
+
+    if (!scene || scene.campaignId !== campaignId) {
+      return NextResponse.json({ error: 'Scene not found' }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const enabled = body?.enabled
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be true or false' }, { status: 400 })
+    }
+
+    let placed = 0
+    if (enabled) {
+      if (scene.status === 'RESOLVED') {
+        return NextResponse.json({ error: 'This scene has already ended' }, { status: 409 })
+      }
+      const board = await prepareTacticalBoard(campaignId, sceneId)
+      if (!board) {
+        return NextResponse.json({ error: 'This scene has no map to play on yet' }, { status: 409 })
+      }
+      placed = board.placed
+    }
+
+    await prisma.scene.update({
+      where: { id: sceneId },
+      data: { tacticalMode: enabled },
+    })
+
+    // Every screen needs the flag (who may drag what) and, when the party
+    // was just placed, the map again — same minimal payload map:ready
+    // uses; clients refetch rather than trusting the broadcast to carry it.
+    try {
+      const pusher = PusherServer()
+      if (pusher) {
+        await pusher.trigger(`campaign-${campaignId}`, 'scene:tactical', { sceneId, tacticalMode: enabled })
+      }
+    } catch (pusherError) {
+      console.error('Failed to broadcast scene:tactical:', pusherError)
+    }
+
+    return NextResponse.json({ sceneId, tacticalMode: enabled, placed })
+  } catch (error) {
+    return handleRouteError(error, 'Error changing tactical mode', 'Failed to change tactical mode')
+  }
+}
@@ -55,4 +55,24 @@ describe('GET', () => {
       orderBy: { sceneNumber: 'desc' },
     }))
   })
+
+  // The retrieval trace names imported lore entries, which players
+  // shouldn't be able to read off the wire.
+  const sceneWithTrace = () => ({
+    id: 's1',
+    consequences: { worldStateChanges: [], retrieval: { memories: [], lore: [{ title: 'The Duke is a changeling', score: null }] } },
+  })
+
+  it("strips the retrieval trace for a member without the GM view", async () => {
+    db.scene.findMany.mockResolvedValue([sceneWithTrace()])
+    const body = await (await GET(req(), { params: { id: 'camp1' } })).json()
+    expect(body.scenes[0].consequences).toEqual({ worldStateChanges: [] })
+  })
+
+  it('keeps the retrieval trace for the GM', async () => {
+    ;(getCampaignMembership as any).mockResolvedValue({ role: 'CO_HOST' })
+    db.scene.findMany.mockResolvedValue([sceneWithTrace()])
+    const body = await (await GET(req(), { params: { id: 'camp1' } })).json()
+    expect(body.scenes[0].consequences.retrieval.lore).toHaveLength(1)
+  })
 })
@@ -3,6 +3,8 @@ import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
 import { handleRouteError } from '@/lib/api/errors'
+import { can } from '@/lib/api/campaignPermissions'
+import { withoutRetrievalTrace } from '@/lib/game/worldStateChanges'
 
 // GET /api/campaigns/[id]/scenes - Get all scenes for a campaign
 export async function GET(
@@ -42,7 +44,13 @@ export async function GET(
       orderBy: { sceneNumber: 'desc' }
     })
 
-    return NextResponse.json({ scenes })
+    // The retrieval trace names imported lore; only the GM view gets it
+    // (see withoutRetrievalTrace).
+    const visibleScenes = can(membership.role, 'world.gmView')
+      ? scenes
+      : scenes.map(scene => ({ ...scene, consequences: withoutRetrievalTrace(scene.consequences) }))
+
+    return NextResponse.json({ scenes: visibleScenes })
   } catch (error) {
     // Called-out fix, not a silent behavior change: see tutorial/trigger/
     // route.ts's comment — this route had the same missing 401 case.
@@ -14,12 +14,12 @@ vi.mock('@/lib/prisma', () => ({
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
 vi.mock('@/lib/db/campaignAccess', () => ({
   getCampaignMembership: vi.fn(),
-  requireCampaignAdmin: vi.fn(),
+  requireCampaignPermission: vi.fn(),
 }))
 
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { GET, PATCH } from '../route'
 import { MAX_FACTION_CAP, MAX_NPC_CAP } from '@/lib/game/tick/caps'
 
@@ -41,7 +41,7 @@ beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'user1', email: 'user1@example.com' })
   ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
 })
 
 describe('GET', () => {
@@ -60,6 +60,7 @@ describe('GET', () => {
 
     expect(body.mapGenerationEnabled).toBe(false)
     expect(body.sceneImageGenerationEnabled).toBe(false)
+    expect(body.gmReviewEnabled).toBe(false)
   })
 
   it('returns the real toggle values when set', async () => {
@@ -76,7 +77,7 @@ describe('GET', () => {
 
 describe('PATCH', () => {
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await PATCH(patchRequest({ sceneImageGenerationEnabled: true }), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(db.campaign.update).not.toHaveBeenCalled()
@@ -99,11 +100,28 @@ describe('PATCH', () => {
     expect(db.campaign.update).toHaveBeenCalledWith({
       where: { id: 'camp1' },
       data: { sceneImageGenerationEnabled: true },
-      select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true },
+      select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true, gmReviewEnabled: true },
     })
     expect(body.sceneImageGenerationEnabled).toBe(true)
   })
 
+  it('rejects a non-boolean gmReviewEnabled', async () => {
+    const response = await PATCH(patchRequest({ gmReviewEnabled: 1 }), { params: { id: 'camp1' } })
+    expect(response.status).toBe(400)
+    expect(db.campaign.update).not.toHaveBeenCalled()
+  })
+
+  it('turns GM co-pilot review on', async () => {
+    db.campaign.update.mockResolvedValue({ mapGenerationEnabled: false, sceneImageGenerationEnabled: false, gmReviewEnabled: true })
+    db.worldMeta.update.mockResolvedValue({ factionCap: null, npcCap: null, worldTurnHours: null })
+
+    const response = await PATCH(patchRequest({ gmReviewEnabled: true }), { params: { id: 'camp1' } })
+    const body = await response.json()
+
+    expect(db.campaign.update).toHaveBeenCalledWith(expect.objectContaining({ data: { gmReviewEnabled: true } }))
+    expect(body.gmReviewEnabled).toBe(true)
+  })
+
   it('updates both toggles together in one call when both are provided', async () => {
     db.campaign.update.mockResolvedValue({ mapGenerationEnabled: true, sceneImageGenerationEnabled: true })
     db.worldMeta.update.mockResolvedValue({ factionCap: null, npcCap: null, worldTurnHours: null })
@@ -113,7 +131,7 @@ describe('PATCH', () => {
     expect(db.campaign.update).toHaveBeenCalledWith({
       where: { id: 'camp1' },
       data: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true },
-      select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true },
+      select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true, gmReviewEnabled: true },
     })
   })
 
@@ -5,7 +5,7 @@ import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
 import { DEFAULT_FACTION_CAP, DEFAULT_NPC_CAP, MAX_FACTION_CAP, MAX_NPC_CAP } from '@/lib/game/tick/caps'
 import { DEFAULT_WORLD_TURN_HOURS } from '@/lib/game/tick/pacing'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 export async function GET(
   request: NextRequest,
@@ -32,7 +32,7 @@ export async function GET(
       }),
       prisma.campaign.findUnique({
         where: { id: campaignId },
-        select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true },
+        select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true, gmReviewEnabled: true },
       }),
     ])
 
@@ -42,6 +42,7 @@ export async function GET(
       worldTurnHours: worldMeta?.worldTurnHours ?? null,
       mapGenerationEnabled: campaign?.mapGenerationEnabled ?? false,
       sceneImageGenerationEnabled: campaign?.sceneImageGenerationEnabled ?? false,
+      gmReviewEnabled: campaign?.gmReviewEnabled ?? false,
       defaultFactionCap: DEFAULT_FACTION_CAP,
       defaultNpcCap: DEFAULT_NPC_CAP,
       defaultWorldTurnHours: DEFAULT_WORLD_TURN_HOURS,
@@ -65,7 +66,7 @@ export async function PATCH(
     const campaignId = params.id
     const body = await request.json()
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can update simulation settings')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can update simulation settings')
     if ('response' in adminCheck) return adminCheck.response
 
     // Null clears the override back to the default; a positive integer sets
@@ -104,7 +105,8 @@ export async function PATCH(
     // in this same admin surface — it's the same class of per-campaign
     // simulation-cost knob. Boolean-only; anything else is rejected rather
     // than coerced, matching the numeric fields above. Scene illustration
-    // (#96) is the same shape, checked the same way.
+    // (#96) and GM co-pilot review (lib/game/resolutionReview.ts) are the
+    // same shape, checked the same way.
     if (body.mapGenerationEnabled !== undefined && typeof body.mapGenerationEnabled !== 'boolean') {
       return NextResponse.json(
         { error: 'mapGenerationEnabled must be a boolean' },
@@ -118,19 +120,27 @@ export async function PATCH(
       )
     }
 
-    const campaignUpdateData: { mapGenerationEnabled?: boolean; sceneImageGenerationEnabled?: boolean } = {}
+    if (body.gmReviewEnabled !== undefined && typeof body.gmReviewEnabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'gmReviewEnabled must be a boolean' },
+        { status: 400 }
+      )
+    }
+
+    const campaignUpdateData: { mapGenerationEnabled?: boolean; sceneImageGenerationEnabled?: boolean; gmReviewEnabled?: boolean } = {}
     if (body.mapGenerationEnabled !== undefined) campaignUpdateData.mapGenerationEnabled = body.mapGenerationEnabled
     if (body.sceneImageGenerationEnabled !== undefined) campaignUpdateData.sceneImageGenerationEnabled = body.sceneImageGenerationEnabled
+    if (body.gmReviewEnabled !== undefined) campaignUpdateData.gmReviewEnabled = body.gmReviewEnabled
 
     const updatedCampaign = Object.keys(campaignUpdateData).length === 0
       ? await prisma.campaign.findUnique({
           where: { id: campaignId },
-          select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true },
+          select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true, gmReviewEnabled: true },
         })
       : await prisma.campaign.update({
           where: { id: campaignId },
           data: campaignUpdateData,
-          select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true },
+          select: { mapGenerationEnabled: true, sceneImageGenerationEnabled: true, gmReviewEnabled: true },
         })
 
     const worldMeta = await prisma.worldMeta.update({
@@ -149,6 +159,7 @@ export async function PATCH(
       worldTurnHours: worldMeta.worldTurnHours,
       mapGenerationEnabled: updatedCampaign?.mapGenerationEnabled ?? false,
       sceneImageGenerationEnabled: updatedCampaign?.sceneImageGenerationEnabled ?? false,
+      gmReviewEnabled: updatedCampaign?.gmReviewEnabled ?? false,
       defaultFactionCap: DEFAULT_FACTION_CAP,
       defaultNpcCap: DEFAULT_NPC_CAP,
       defaultWorldTurnHours: DEFAULT_WORLD_TURN_HOURS,
@@ -11,6 +11,7 @@ import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/li
 import { isWorldSeeding, SEEDING_MESSAGE } from '@/lib/lore/seedingGate'
 import { recordEvent } from '@/lib/analytics/events'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 import { handleRouteErrorWithDetails } from '@/lib/api/errors'
 
 export async function POST(
@@ -47,6 +48,9 @@ export async function POST(
         { status: 403 }
       )
     }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json<ErrorResponse>({ error: 'Spectators can\'t start scenes' }, { status: 403 })
+    }
 
     // Play lock: no scenes while a creation-time canon import is still
     // reseeding the world (see lib/lore/seedingGate.ts).
@@ -2,10 +2,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
-import { UserRole } from '@prisma/client';
 import { TurnTracker } from '@/lib/notifications/turn-tracker';
 import { PusherServer } from '@/lib/realtime/pusher-server';
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 
 // GET /api/campaigns/[id]/turns - Get current turn info
 export async function GET(
@@ -70,6 +70,10 @@ export async function POST(
     if (!membership) {
       return NextResponse.json({ error: 'Not a member of this campaign' }, { status: 403 });
     }
+    // Turn order is the table's, and a spectator isn't at the table.
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json({ error: 'Spectators can\'t take part in turn order' }, { status: 403 });
+    }
 
     let result;
 
@@ -91,10 +95,10 @@ export async function POST(
         break;
 
       case 'skip':
-        // Skipping someone ELSE'S turn stays host-only — it's the one
-        // turn-order control that overrides another player rather than
-        // driving your own participation, i.e. moderation, not GM-ing.
-        if (membership.role !== UserRole.ADMIN) {
+        // Skipping someone ELSE'S turn stays with whoever runs the scene —
+        // it's the one turn-order control that overrides another player
+        // rather than driving your own participation.
+        if (!can(membership.role, 'scenes.run')) {
           return NextResponse.json({ error: 'Only the campaign host can skip another player\'s turn' }, { status: 403 });
         }
         result = await TurnTracker.skipTurn(params.id, sceneId, 'Skipped by the host');
@@ -153,7 +157,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Scene ID required' }, { status: 400 });
     }
 
-    // Any member can end turn tracking, matching who can enable it —
+    // Any participant can end turn tracking, matching who can enable it —
     // turn order is an advisory table-level convention, not a GM power
     // (there is no human GM in this product; every human is a player).
     const membership = await getCampaignMembership(user.userId, params.id);
@@ -161,6 +165,9 @@ export async function DELETE(
     if (!membership) {
       return NextResponse.json({ error: 'Not a member of this campaign' }, { status: 403 });
     }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json({ error: 'Spectators can\'t take part in turn order' }, { status: 403 });
+    }
 
     await TurnTracker.endScene(params.id, sceneId);
 
@@ -4,6 +4,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyAuth } from '@/lib/auth';
 import { triggerUserTyping } from '@/lib/realtime/pusher-server';
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 
 // POST /api/campaigns/[id]/typing - Send typing indicator
 export async function POST(
@@ -25,6 +26,9 @@ export async function POST(
     if (!membership) {
       return NextResponse.json({ error: 'Not a member of this campaign' }, { status: 403 });
     }
+    if (!can(membership.role, 'play.act')) {
+      return NextResponse.json({ error: 'Spectators can\'t post to the table' }, { status: 403 });
+    }
 
     // Trigger typing indicator
     await triggerUserTyping(
@@ -9,7 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { explainWarMomentum } from '@/lib/game/tick/warTick'
 import { applyWhatIf, type WhatIfSpec } from '@/lib/api/whatIf'
 import { simTurn } from '@/lib/game/turnClock'
@@ -54,7 +54,7 @@ export async function GET(
 
     const { id: campaignId } = params
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can preview war reasoning')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can preview war reasoning')
     if ('response' in adminCheck) return adminCheck.response
 
     // #437: the SIMULATION turn. This panel exists to show what the tick
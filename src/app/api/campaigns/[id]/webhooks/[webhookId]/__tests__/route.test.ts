@@ -0,0 +1,94 @@
+// src/app/api/campaigns/[id]/webhooks/[webhookId]/__tests__/route.test.ts
+// Editing and removing a webhook: admin-only, scoped to the campaign in the
+// URL, and a rotated secret is returned once while an ordinary edit never
+// returns one.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/prisma', () => ({
+  prisma: { campaignWebhook: { findFirst: vi.fn(), update: vi.fn(), deleteMany: vi.fn() } },
+}))
+
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { prisma } from '@/lib/prisma'
+import { PATCH, DELETE } from '../route'
+
+const db = prisma as any
+const params = { params: { id: 'camp1', webhookId: 'wh1' } }
+
+function req(method: string, body?: unknown) {
+  return new NextRequest('http://localhost/api/campaigns/camp1/webhooks/wh1', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'gm1' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  db.campaignWebhook.findFirst.mockResolvedValue({ id: 'wh1' })
+  db.campaignWebhook.update.mockResolvedValue({ id: 'wh1', isActive: false })
+  db.campaignWebhook.deleteMany.mockResolvedValue({ count: 1 })
+})
+
+describe('PATCH', () => {
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can edit webhooks' }, { status: 403 }),
+    })
+    const response = await PATCH(req('PATCH', { isActive: false }), params)
+    expect(response.status).toBe(403)
+    expect(db.campaignWebhook.update).not.toHaveBeenCalled()
+  })
+
+  it('pauses a webhook without touching its secret', async () => {
+    const response = await PATCH(req('PATCH', { isActive: false }), params)
+    const body = await response.json()
+    expect(db.campaignWebhook.findFirst).toHaveBeenCalledWith({ where: { id: 'wh1', campaignId: 'camp1' }, select: { id: true } })
+    expect(db.campaignWebhook.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'wh1' }, data: { isActive: false } }))
+    expect(body.secret).toBeUndefined()
+  })
+
+  it('rotates the secret and returns the new one', async () => {
+    const response = await PATCH(req('PATCH', { rotateSecret: true }), params)
+    const body = await response.json()
+    expect(body.secret).toMatch(/^whsec_/)
+    expect(db.campaignWebhook.update.mock.calls[0][0].data).toEqual({ secret: body.secret })
+  })
+
+  it('validates a new URL like creation does', async () => {
+    const response = await PATCH(req('PATCH', { url: 'https://10.0.0.5/hook' }), params)
+    expect(response.status).toBe(400)
+    expect(db.campaignWebhook.update).not.toHaveBeenCalled()
+  })
+
+  it('rejects an empty body', async () => {
+    expect((await PATCH(req('PATCH', {}), params)).status).toBe(400)
+  })
+
+  it('404s for a webhook in another campaign', async () => {
+    db.campaignWebhook.findFirst.mockResolvedValue(null)
+    const response = await PATCH(req('PATCH', { isActive: true }), params)
+    expect(response.status).toBe(404)
+    expect(db.campaignWebhook.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('DELETE', () => {
+  it('deletes only within this campaign', async () => {
+    const response = await DELETE(req('DELETE'), params)
+    expect(response.status).toBe(200)
+    expect(db.campaignWebhook.deleteMany).toHaveBeenCalledWith({ where: { id: 'wh1', campaignId: 'camp1' } })
+  })
+
+  it('404s when nothing matched', async () => {
+    db.campaignWebhook.deleteMany.mockResolvedValue({ count: 0 })
+    expect((await DELETE(req('DELETE'), params)).status).toBe(404)
+  })
+})
@@ -0,0 +1,77 @@
+// src/app/api/campaigns/[id]/webhooks/[webhookId]/deliveries/__tests__/route.test.ts
+// The delivery log and the dead-letter requeue: admin-only, and a webhook
+// id from another campaign is a 404 before any delivery is read or touched.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/prisma', () => ({
+  prisma: { campaignWebhook: { findFirst: vi.fn() }, webhookDelivery: { findMany: vi.fn() } },
+}))
+vi.mock('@/lib/webhooks/webhookQueue', () => ({ requeueFailedDeliveries: vi.fn() }))
+
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { prisma } from '@/lib/prisma'
+import { requeueFailedDeliveries } from '@/lib/webhooks/webhookQueue'
+import { GET, POST } from '../route'
+
+const db = prisma as any
+const params = { params: { id: 'camp1', webhookId: 'wh1' } }
+
+function req(method: string) {
+  return new NextRequest('http://localhost/api/campaigns/camp1/webhooks/wh1/deliveries', { method })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'gm1' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  db.campaignWebhook.findFirst.mockResolvedValue({ id: 'wh1' })
+  db.webhookDelivery.findMany.mockResolvedValue([])
+  ;(requeueFailedDeliveries as any).mockResolvedValue(3)
+})
+
+describe('GET', () => {
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can view webhook deliveries' }, { status: 403 }),
+    })
+    expect((await GET(req('GET'), params)).status).toBe(403)
+    expect(db.webhookDelivery.findMany).not.toHaveBeenCalled()
+  })
+
+  it('lists the webhook’s recent deliveries, newest first', async () => {
+    db.webhookDelivery.findMany.mockResolvedValue([{ id: 'd1', status: 'FAILED', lastError: 'Receiver responded 404' }])
+    const response = await GET(req('GET'), params)
+    const body = await response.json()
+    expect(body.deliveries).toEqual([{ id: 'd1', status: 'FAILED', lastError: 'Receiver responded 404' }])
+    expect(db.webhookDelivery.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { webhookId: 'wh1' },
+      orderBy: { createdAt: 'desc' },
+    }))
+  })
+
+  it('404s for a webhook in another campaign', async () => {
+    db.campaignWebhook.findFirst.mockResolvedValue(null)
+    expect((await GET(req('GET'), params)).status).toBe(404)
+    expect(db.campaignWebhook.findFirst).toHaveBeenCalledWith({ where: { id: 'wh1', campaignId: 'camp1' }, select: { id: true } })
+  })
+})
+
+describe('POST', () => {
+  it('requeues the dead letters and says how many', async () => {
+    const response = await POST(req('POST'), params)
+    const body = await response.json()
+    expect(requeueFailedDeliveries).toHaveBeenCalledWith('wh1')
+    expect(body.requeued).toBe(3)
+  })
+
+  it('404s without requeueing for a webhook in another campaign', async () => {
+    db.campaignWebhook.findFirst.mockResolvedValue(null)
+    expect((await POST(req('POST'), params)).status).toBe(404)
+    expect(requeueFailedDeliveries).not.toHaveBeenCalled()
+  })
+})
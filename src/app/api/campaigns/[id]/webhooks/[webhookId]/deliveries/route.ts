@@ -0,0 +1,75 @@
+// src/app/api/campaigns/[id]/webhooks/[webhookId]/deliveries/route.ts
+// GET  - A webhook's recent deliveries, newest first: what was sent, whether
+//        it landed, and the receiver's last answer if it didn't
+// POST - Requeue its dead letters (FAILED deliveries) with fresh attempts —
+//        the "I fixed the URL, send them again" button
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { requeueFailedDeliveries } from '@/lib/webhooks/webhookQueue'
+
+type Params = { params: { id: string; webhookId: string } }
+
+const RECENT_DELIVERIES = 25
+
+async function findWebhook(campaignId: string, webhookId: string) {
+  return prisma.campaignWebhook.findFirst({ where: { id: webhookId, campaignId }, select: { id: true } })
+}
+
+export async function GET(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, webhookId } = params
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can view webhook deliveries')
+    if ('response' in adminCheck) return adminCheck.response
+
+    if (!(await findWebhook(campaignId, webhookId))) {
+      return NextResponse.json<ErrorResponse>({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { webhookId },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_DELIVERIES,
+      select: {
+        id: true,
+        eventType: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        responseStatus: true,
+        nextAttemptAt: true,
+        createdAt: true,
+        finishedAt: true,
+      },
+    })
+
+    return NextResponse.json({ deliveries })
+  } catch (error) {
+    return handleRouteError(error, 'Get webhook deliveries error', 'Internal server error')
+  }
+}
+
+export async function POST(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, webhookId } = params
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can retry webhook deliveries')
+    if ('response' in adminCheck) return adminCheck.response
+
+    if (!(await findWebhook(campaignId, webhookId))) {
+      return NextResponse.json<ErrorResponse>({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const requeued = await requeueFailedDeliveries(webhookId)
+    return NextResponse.json({ requeued })
+  } catch (error) {
+    return handleRouteError(error, 'Retry webhook deliveries error', 'Internal server error')
+  }
+}
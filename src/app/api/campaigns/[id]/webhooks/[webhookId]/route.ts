@@ -0,0 +1,71 @@
+// src/app/api/campaigns/[id]/webhooks/[webhookId]/route.ts
+// PATCH  - Change a webhook's URL, format or events; pause or resume it;
+//          rotate its secret (the new one comes back once, like at creation)
+// DELETE - Remove it, and its delivery history with it
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { generateWebhookSecret } from '@/lib/webhooks/signature'
+import { updateWebhookSchema, WEBHOOK_PUBLIC_SELECT } from '@/lib/webhooks/webhookConfig'
+
+type Params = { params: { id: string; webhookId: string } }
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, webhookId } = params
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can edit webhooks')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const { rotateSecret, ...changes } = updateWebhookSchema.parse(await request.json())
+
+    // Scoped to this campaign, so a webhook id from another campaign is a
+    // 404 here rather than an edit.
+    const existing = await prisma.campaignWebhook.findFirst({ where: { id: webhookId, campaignId }, select: { id: true } })
+    if (!existing) {
+      return NextResponse.json<ErrorResponse>({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const secret = rotateSecret ? generateWebhookSecret() : undefined
+    const webhook = await prisma.campaignWebhook.update({
+      where: { id: webhookId },
+      data: { ...changes, ...(secret ? { secret } : {}) },
+      select: WEBHOOK_PUBLIC_SELECT,
+    })
+
+    return NextResponse.json(secret ? { webhook, secret } : { webhook })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+    return handleRouteError(error, 'Update webhook error', 'Internal server error')
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, webhookId } = params
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can remove webhooks')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const deleted = await prisma.campaignWebhook.deleteMany({ where: { id: webhookId, campaignId } })
+    if (deleted.count === 0) {
+      return NextResponse.json<ErrorResponse>({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return handleRouteError(error, 'Delete webhook error', 'Internal server error')
+  }
+}
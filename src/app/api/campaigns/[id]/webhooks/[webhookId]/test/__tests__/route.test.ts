@@ -0,0 +1,62 @@
+// src/app/api/campaigns/[id]/webhooks/[webhookId]/test/__tests__/route.test.ts
+// "Send test": admin-only, scoped to the campaign, and the receiver's
+// answer — good or bad — comes back as data rather than as this route's
+// own status.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/prisma', () => ({ prisma: { campaignWebhook: { findFirst: vi.fn() } } }))
+vi.mock('@/lib/webhooks/webhookQueue', () => ({ sendTestPing: vi.fn() }))
+
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { prisma } from '@/lib/prisma'
+import { sendTestPing } from '@/lib/webhooks/webhookQueue'
+import { POST } from '../route'
+
+const db = prisma as any
+const params = { params: { id: 'camp1', webhookId: 'wh1' } }
+const req = () => new NextRequest('http://localhost/api/campaigns/camp1/webhooks/wh1/test', { method: 'POST' })
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'gm1' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  db.campaignWebhook.findFirst.mockResolvedValue({ url: 'https://hooks.example.com/x', secret: 'whsec_1', format: 'JSON', campaign: { title: 'The Reach' } })
+  ;(sendTestPing as any).mockResolvedValue({ ok: true, status: 204, retryable: false })
+})
+
+describe('POST', () => {
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can test webhooks' }, { status: 403 }),
+    })
+    expect((await POST(req(), params)).status).toBe(403)
+    expect(sendTestPing).not.toHaveBeenCalled()
+  })
+
+  it('pings the webhook and reports how it answered', async () => {
+    const response = await POST(req(), params)
+    const body = await response.json()
+    expect(sendTestPing).toHaveBeenCalledWith({
+      url: 'https://hooks.example.com/x', secret: 'whsec_1', format: 'JSON', campaignId: 'camp1', campaignTitle: 'The Reach',
+    })
+    expect(body).toEqual({ ok: true, status: 204, error: null })
+  })
+
+  it('reports a receiver failure as data', async () => {
+    ;(sendTestPing as any).mockResolvedValue({ ok: false, status: 404, error: 'Receiver responded 404', retryable: false })
+    const response = await POST(req(), params)
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ ok: false, status: 404, error: 'Receiver responded 404' })
+  })
+
+  it('404s for a webhook in another campaign', async () => {
+    db.campaignWebhook.findFirst.mockResolvedValue(null)
+    expect((await POST(req(), params)).status).toBe(404)
+    expect(db.campaignWebhook.findFirst.mock.calls[0][0].where).toEqual({ id: 'wh1', campaignId: 'camp1' })
+  })
+})
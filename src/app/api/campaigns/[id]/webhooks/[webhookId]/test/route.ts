@@ -0,0 +1,44 @@
+// src/app/api/campaigns/[id]/webhooks/[webhookId]/test/route.ts
+// POST - Send the webhook a signed PING now and report how its receiver
+// answered. Inline and unrecorded, so a paused webhook can be tested before
+// it's resumed and the answer comes back in this response.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { sendTestPing } from '@/lib/webhooks/webhookQueue'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; webhookId: string } }
+) {
+  try {
+    const user = await requireAuth(request)
+    const { id: campaignId, webhookId } = params
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can test webhooks')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const webhook = await prisma.campaignWebhook.findFirst({
+      where: { id: webhookId, campaignId },
+      select: { url: true, secret: true, format: true, campaign: { select: { title: true } } },
+    })
+    if (!webhook) {
+      return NextResponse.json<ErrorResponse>({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const outcome = await sendTestPing({
+      url: webhook.url,
+      secret: webhook.secret,
+      format: webhook.format,
+      campaignId,
+      campaignTitle: webhook.campaign.title,
+    })
+    return NextResponse.json({ ok: outcome.ok, status: outcome.status, error: outcome.error ?? null })
+  } catch (error) {
+    return handleRouteError(error, 'Test webhook error', 'Internal server error')
+  }
+}
@@ -0,0 +1,101 @@
+// src/app/api/campaigns/[id]/webhooks/__tests__/route.test.ts
+// Webhooks are admin-only both ways (their URLs are someone's channel
+// credentials), the secret comes back exactly once, a target that fails
+// the SSRF guard is refused before anything is written, and a campaign
+// can't accumulate endpoints without limit.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/prisma', () => ({
+  prisma: { campaignWebhook: { findMany: vi.fn(), count: vi.fn(), create: vi.fn() } },
+}))
+
+import { requireAuth } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { prisma } from '@/lib/prisma'
+import { GET, POST } from '../route'
+
+const db = prisma as any
+const params = { params: { id: 'camp1' } }
+
+function req(method: string, body?: unknown) {
+  return new NextRequest('http://localhost/api/campaigns/camp1/webhooks', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+const created = { id: 'wh1', url: 'https://discord.com/api/webhooks/1/abc', format: 'DISCORD', events: ['SCENE_RESOLVED'], isActive: true }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'gm1' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  db.campaignWebhook.findMany.mockResolvedValue([])
+  db.campaignWebhook.count.mockResolvedValue(0)
+  db.campaignWebhook.create.mockResolvedValue(created)
+})
+
+describe('GET', () => {
+  it('rejects a non-admin', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({
+      response: NextResponse.json({ error: 'Only campaign admins can view webhooks' }, { status: 403 }),
+    })
+    const response = await GET(req('GET'), params)
+    expect(response.status).toBe(403)
+    expect(db.campaignWebhook.findMany).not.toHaveBeenCalled()
+  })
+
+  it('lists webhooks without their secrets, with a dead-letter count', async () => {
+    db.campaignWebhook.findMany.mockResolvedValue([{ ...created, _count: { deliveries: 2 } }])
+    const response = await GET(req('GET'), params)
+    const body = await response.json()
+    expect(body.webhooks).toEqual([{ ...created, failedDeliveries: 2 }])
+    const query = db.campaignWebhook.findMany.mock.calls[0][0]
+    expect(query.where).toEqual({ campaignId: 'camp1' })
+    expect(query.select.secret).toBeUndefined()
+  })
+})
+
+describe('POST', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(requireAuth as any).mockRejectedValue(new Error('Unauthorized'))
+    const response = await POST(req('POST', {}), params)
+    expect(response.status).toBe(401)
+  })
+
+  it('creates the webhook and returns its secret once', async () => {
+    const response = await POST(req('POST', { url: created.url, format: 'DISCORD', events: ['SCENE_RESOLVED', 'SCENE_RESOLVED'] }), params)
+    expect(response.status).toBe(201)
+    const body = await response.json()
+    expect(body.secret).toMatch(/^whsec_[0-9a-f]{48}$/)
+    expect(db.campaignWebhook.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { campaignId: 'camp1', url: created.url, format: 'DISCORD', events: ['SCENE_RESOLVED'], secret: body.secret },
+    }))
+    expect(db.campaignWebhook.create.mock.calls[0][0].select.secret).toBeUndefined()
+  })
+
+  it('refuses a private or non-https target', async () => {
+    for (const url of ['https://169.254.169.254/latest', 'http://hooks.example.com/x', 'https://user:pw@hooks.example.com/x']) {
+      const response = await POST(req('POST', { url, events: ['MILESTONE'] }), params)
+      expect(response.status).toBe(400)
+    }
+    expect(db.campaignWebhook.create).not.toHaveBeenCalled()
+  })
+
+  it('refuses an unknown event or no events', async () => {
+    expect((await POST(req('POST', { url: created.url, events: ['EVERYTHING'] }), params)).status).toBe(400)
+    expect((await POST(req('POST', { url: created.url, events: [] }), params)).status).toBe(400)
+  })
+
+  it('refuses past the per-campaign cap', async () => {
+    db.campaignWebhook.count.mockResolvedValue(5)
+    const response = await POST(req('POST', { url: created.url, events: ['MILESTONE'] }), params)
+    expect(response.status).toBe(400)
+    expect(db.campaignWebhook.create).not.toHaveBeenCalled()
+  })
+})
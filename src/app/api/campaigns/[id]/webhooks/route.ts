@@ -0,0 +1,82 @@
+// src/app/api/campaigns/[id]/webhooks/route.ts
+// GET  - This campaign's outbound webhooks, with each one's dead-letter count
+// POST - Add one. The response carries the signing secret; no read after
+//        this one ever will. See lib/webhooks.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { generateWebhookSecret } from '@/lib/webhooks/signature'
+import { createWebhookSchema, MAX_WEBHOOKS_PER_CAMPAIGN, WEBHOOK_PUBLIC_SELECT } from '@/lib/webhooks/webhookConfig'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request)
+    const campaignId = params.id
+
+    // Admin only: the URLs are credentials for someone's Discord/Slack.
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can view webhooks')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const webhooks = await prisma.campaignWebhook.findMany({
+      where: { campaignId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        ...WEBHOOK_PUBLIC_SELECT,
+        _count: { select: { deliveries: { where: { status: 'FAILED' } } } },
+      },
+    })
+
+    return NextResponse.json({
+      webhooks: webhooks.map(({ _count, ...webhook }) => ({ ...webhook, failedDeliveries: _count.deliveries })),
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Get webhooks error', 'Internal server error')
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await requireAuth(request)
+    const campaignId = params.id
+
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'campaign.settings', 'Only campaign admins can add webhooks')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const body = createWebhookSchema.parse(await request.json())
+
+    const existing = await prisma.campaignWebhook.count({ where: { campaignId } })
+    if (existing >= MAX_WEBHOOKS_PER_CAMPAIGN) {
+      return NextResponse.json<ErrorResponse>(
+        { error: `A campaign can have at most ${MAX_WEBHOOKS_PER_CAMPAIGN} webhooks` },
+        { status: 400 }
+      )
+    }
+
+    const secret = generateWebhookSecret()
+    const webhook = await prisma.campaignWebhook.create({
+      data: { campaignId, url: body.url, format: body.format, events: body.events, secret },
+      select: WEBHOOK_PUBLIC_SELECT,
+    })
+
+    return NextResponse.json({ webhook: { ...webhook, failedDeliveries: 0 }, secret }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+    return handleRouteError(error, 'Create webhook error', 'Internal server error')
+  }
+}
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getUser } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
-import { UserRole } from '@prisma/client'
-import { visibleTo } from '@/lib/api/visibility'
+import { visibleTo, seesGmView } from '@/lib/api/visibility'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { rolesWith } from '@/lib/api/campaignPermissions'
 import { summarizeNpcRelationship, type NpcRelationshipValues } from '@/lib/game/npcRelationship'
 import { deriveConditionTags } from '@/lib/game/tick/locationConditionTick'
 import { factionStatsFor, locationStatsFor, type EntityStats } from '@/lib/game/entityStats'
@@ -327,7 +327,7 @@ export async function GET(
     // depth on top of the write-side gating (sceneResolver.ts, wikiSync.ts)
     // for the case where an entity was discovered, got a wiki entry, and
     // was then manually re-hidden via the admin panel. Admins see everything.
-    const isAdmin = membership.role === UserRole.ADMIN
+    const isAdmin = seesGmView(membership.role)
     const visibleEntries = isAdmin ? entries : await filterDiscoveredEntries(campaignId, entries)
 
     // Entities the fiction knows about but the wiki hasn't written up yet
@@ -366,12 +366,12 @@ export async function POST(
 
     const campaignId = params.id
 
-    // Verify user is admin of the campaign (only admins/AI can create entries)
+    // Verify user is a GM of the campaign (only GMs/AI can create entries)
     const membership = await prisma.campaignMembership.findFirst({
       where: {
         campaignId,
         userId: user.userId,
-        role: 'ADMIN'
+        role: { in: rolesWith('world.edit') }
       }
     })
 
@@ -7,7 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 export async function GET(
   request: NextRequest,
@@ -23,7 +23,7 @@ export async function GET(
     const { searchParams } = new URL(request.url)
     const turnParam = searchParams.get('turn')
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can view the tick log')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can view the tick log')
     if ('response' in adminCheck) return adminCheck.response
 
     const where: any = { campaignId }
@@ -10,7 +10,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/rateLimit', () => ({
   AI_ACTION_LIMIT: { bucket: 'ai-action', limit: 20, windowSeconds: 60 },
   checkRateLimit: vi.fn(),
@@ -27,7 +27,7 @@ vi.mock('@/lib/prisma', () => ({
 }))
 
 import { getUser } from '@/lib/auth'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
 import { generateWorldExtras } from '@/lib/ai/worldExtras'
 import { prisma } from '@/lib/prisma'
@@ -42,7 +42,7 @@ function req() {
 beforeEach(() => {
   vi.clearAllMocks()
   ;(getUser as any).mockResolvedValue({ userId: 'admin1' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
   ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
   db.campaign.findUnique.mockResolvedValue({
     id: 'camp1', title: 'T', description: 'd', universe: 'Original', statLabels: null, corruptionTheme: null,
@@ -60,7 +60,7 @@ describe('POST', () => {
   })
 
   it('rejects a non-admin', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await POST(req(), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
   })
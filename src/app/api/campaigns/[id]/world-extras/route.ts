@@ -11,7 +11,7 @@ import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
 import { generateWorldExtras } from '@/lib/ai/worldExtras'
 import { AI_ACTION_LIMIT, checkRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 export const maxDuration = 60
 
@@ -26,7 +26,7 @@ export async function POST(
     }
 
     const campaignId = params.id
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can generate world extras')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.edit', 'Only campaign admins can generate world extras')
     if ('response' in adminCheck) return adminCheck.response
 
     const rateLimit = await checkRateLimit(
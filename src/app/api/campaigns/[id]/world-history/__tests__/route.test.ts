@@ -0,0 +1,75 @@
+// src/app/api/campaigns/[id]/world-history/__tests__/route.test.ts
+// World history is GM material; a turn or a pair of turns reaches the
+// loader unchanged, and a turn out of range is the caller's mistake.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/game/worldHistory/loadWorldHistory', async () => {
+  class WorldHistoryError extends Error {}
+  return { loadWorldAt: vi.fn(), loadWorldDiff: vi.fn(), WorldHistoryError }
+})
+
+import { getUser } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { loadWorldAt, loadWorldDiff, WorldHistoryError } from '@/lib/game/worldHistory/loadWorldHistory'
+import { GET } from '../route'
+
+const params = { params: { id: 'camp1' } }
+const request = (query: string) => new NextRequest(`http://localhost/api/campaigns/camp1/world-history${query}`)
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'gm' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(loadWorldAt as any).mockResolvedValue({ turnNumber: 8, fidelity: 'replayed' })
+  ;(loadWorldDiff as any).mockResolvedValue({ diffs: [] })
+})
+
+describe('GET /api/campaigns/:id/world-history', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await GET(request('?turn=8'), params)).status).toBe(401)
+  })
+
+  it('is admin-only', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    expect((await GET(request('?turn=8'), params)).status).toBe(403)
+    expect(requireCampaignPermission).toHaveBeenCalledWith('gm', 'camp1', 'world.gmView', expect.any(String))
+    expect(loadWorldAt).not.toHaveBeenCalled()
+  })
+
+  it('rebuilds the world as of the turn asked for', async () => {
+    const response = await GET(request('?turn=8'), params)
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.world).toEqual({ turnNumber: 8, fidelity: 'replayed' })
+    expect(loadWorldAt).toHaveBeenCalledWith('camp1', 8)
+  })
+
+  it('diffs two turns', async () => {
+    const response = await GET(request('?from=3&to=9'), params)
+    expect(await response.json()).toEqual({ diff: { diffs: [] } })
+    expect(loadWorldDiff).toHaveBeenCalledWith('camp1', 3, 9)
+    expect(loadWorldAt).not.toHaveBeenCalled()
+  })
+
+  it.each(['', '?turn=abc', '?turn=-1', '?from=3', '?from=3&to=x'])('rejects %j', async (query) => {
+    expect((await GET(request(query), params)).status).toBe(400)
+  })
+
+  it('reports a turn out of range as a 400 with its reason', async () => {
+    ;(loadWorldAt as any).mockRejectedValue(new WorldHistoryError('World turn must be between 0 and 12'))
+    const response = await GET(request('?turn=40'), params)
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('World turn must be between 0 and 12')
+  })
+
+  it('reports any other failure as a 500', async () => {
+    ;(loadWorldAt as any).mockRejectedValue(new Error('boom'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect((await GET(request('?turn=8'), params)).status).toBe(500)
+  })
+})
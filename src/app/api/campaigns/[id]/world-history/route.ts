@@ -0,0 +1,58 @@
+// src/app/api/campaigns/[id]/world-history/route.ts
+//
+// GET — the world as of a past simulation turn (?turn=N), or what changed
+// between two (?from=A&to=B): faction stats, location condition and
+// owners, NPC whereabouts, rebuilt from the periodic WorldSnapshots plus
+// the event log (lib/game/worldHistory/). Admin-only for the same reason
+// the tick log is — history carries hidden factions and undiscovered
+// places, unfogged.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getUser } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { loadWorldAt, loadWorldDiff, WorldHistoryError } from '@/lib/game/worldHistory/loadWorldHistory'
+
+function parseTurn(value: string | null): number | null {
+  if (value === null || !/^\d+$/.test(value)) return null
+  return parseInt(value, 10)
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaignId = params.id
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can view world history')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const { searchParams } = new URL(request.url)
+    if (searchParams.has('from') || searchParams.has('to')) {
+      const from = parseTurn(searchParams.get('from'))
+      const to = parseTurn(searchParams.get('to'))
+      if (from === null || to === null) {
+        return NextResponse.json({ error: 'from and to must both be whole turn numbers' }, { status: 400 })
+      }
+      const diff = await loadWorldDiff(campaignId, from, to)
+      return NextResponse.json({ diff })
+    }
+
+    const turn = parseTurn(searchParams.get('turn'))
+    if (turn === null) {
+      return NextResponse.json({ error: 'turn must be a whole turn number' }, { status: 400 })
+    }
+    const world = await loadWorldAt(campaignId, turn)
+    return NextResponse.json({ world })
+  } catch (error) {
+    if (error instanceof WorldHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Get world history error:', error)
+    return NextResponse.json({ error: 'Failed to get world history' }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+// src/app/api/campaigns/[id]/world-history/timeline/__tests__/route.test.ts
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ getUser: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ requireCampaignPermission: vi.fn() }))
+vi.mock('@/lib/game/worldHistory/loadWorldHistory', async () => {
+  class WorldHistoryError extends Error {}
+  return { loadEntityTimeline: vi.fn(), WorldHistoryError }
+})
+
+import { getUser } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { loadEntityTimeline, WorldHistoryError } from '@/lib/game/worldHistory/loadWorldHistory'
+import { GET } from '../route'
+
+const params = { params: { id: 'camp1' } }
+const request = (query: string) => new NextRequest(`http://localhost/api/campaigns/camp1/world-history/timeline${query}`)
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(getUser as any).mockResolvedValue({ userId: 'gm' })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(loadEntityTimeline as any).mockResolvedValue({ kind: 'location', id: 'ash', name: 'Ashford', entries: [] })
+})
+
+describe('GET /api/campaigns/:id/world-history/timeline', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(getUser as any).mockResolvedValue(null)
+    expect((await GET(request('?type=npc&id=mara'), params)).status).toBe(401)
+  })
+
+  it('is admin-only', async () => {
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    expect((await GET(request('?type=npc&id=mara'), params)).status).toBe(403)
+    expect(loadEntityTimeline).not.toHaveBeenCalled()
+  })
+
+  it("loads the entity's timeline", async () => {
+    const response = await GET(request('?type=location&id=ash'), params)
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.timeline.name).toBe('Ashford')
+    expect(loadEntityTimeline).toHaveBeenCalledWith('camp1', 'location', 'ash')
+  })
+
+  it.each(['?id=ash', '?type=war&id=w1', '?type=npc'])('rejects %j', async (query) => {
+    expect((await GET(request(query), params)).status).toBe(400)
+    expect(loadEntityTimeline).not.toHaveBeenCalled()
+  })
+
+  it('reports an unknown entity as a 404', async () => {
+    ;(loadEntityTimeline as any).mockRejectedValue(new WorldHistoryError('No npc with that id in this campaign'))
+    expect((await GET(request('?type=npc&id=ghost'), params)).status).toBe(404)
+  })
+
+  it('reports any other failure as a 500', async () => {
+    ;(loadEntityTimeline as any).mockRejectedValue(new Error('boom'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect((await GET(request('?type=npc&id=mara'), params)).status).toBe(500)
+  })
+})
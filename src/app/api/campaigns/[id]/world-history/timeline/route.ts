@@ -0,0 +1,47 @@
+// src/app/api/campaigns/[id]/world-history/timeline/route.ts
+//
+// GET ?type=faction|location|npc&id= — one entity's history, oldest first:
+// its logged changes with their reasons, plus the turns the atlas's border
+// frames show it changing hands. What the entity browser's History panel
+// reads. Admin-only, like the rest of world history.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getUser } from '@/lib/auth'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
+import { loadEntityTimeline, WorldHistoryError } from '@/lib/game/worldHistory/loadWorldHistory'
+import { ENTITY_KINDS, type EntityKind } from '@/lib/game/worldHistory/pointInTime'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const campaignId = params.id
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'world.gmView', 'Only campaign admins can view world history')
+    if ('response' in adminCheck) return adminCheck.response
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const entityId = searchParams.get('id')
+    if (!type || !ENTITY_KINDS.includes(type as EntityKind)) {
+      return NextResponse.json({ error: `type must be one of ${ENTITY_KINDS.join(', ')}` }, { status: 400 })
+    }
+    if (!entityId) {
+      return NextResponse.json({ error: 'id is required' }, { status: 400 })
+    }
+
+    const timeline = await loadEntityTimeline(campaignId, type as EntityKind, entityId)
+    return NextResponse.json({ timeline })
+  } catch (error) {
+    if (error instanceof WorldHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('Get entity history error:', error)
+    return NextResponse.json({ error: 'Failed to get entity history' }, { status: 500 })
+  }
+}
@@ -10,7 +10,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getUser } from '@/lib/auth'
 import { runWorldTick } from '@/lib/game/worldTick'
-import { requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { simTurn } from '@/lib/game/turnClock'
 
 export async function POST(
@@ -25,7 +25,7 @@ export async function POST(
 
     const campaignId = params.id
 
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Only campaign admins can preview the world tick')
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'scenes.run', 'Only campaign admins can preview the world tick')
     if ('response' in adminCheck) return adminCheck.response
 
     const worldMeta = await prisma.worldMeta.findUnique({
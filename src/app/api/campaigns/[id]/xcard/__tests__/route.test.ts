@@ -7,13 +7,13 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
 
 vi.mock('@/lib/auth', () => ({ verifyAuth: vi.fn() }))
-vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn(), requireCampaignAdmin: vi.fn() }))
+vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn(), requireCampaignPermission: vi.fn() }))
 vi.mock('@/lib/safety/safety-service', () => ({
   SafetyService: { useXCard: vi.fn(), getXCardHistory: vi.fn() },
 }))
 
 import { verifyAuth } from '@/lib/auth'
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 import { SafetyService } from '@/lib/safety/safety-service'
 import { POST, GET } from '../route'
 
@@ -33,7 +33,7 @@ beforeEach(() => {
   vi.clearAllMocks()
   ;(verifyAuth as any).mockResolvedValue({ userId: 'player1' })
   ;(getCampaignMembership as any).mockResolvedValue({ role: 'PLAYER' })
-  ;(requireCampaignAdmin as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
+  ;(requireCampaignPermission as any).mockResolvedValue({ membership: { role: 'ADMIN' } })
 })
 
 describe('POST', () => {
@@ -78,7 +78,7 @@ describe('GET', () => {
   })
 
   it('rejects a non-admin (GM only)', async () => {
-    ;(requireCampaignAdmin as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
+    ;(requireCampaignPermission as any).mockResolvedValue({ response: new Response(null, { status: 403 }) })
     const response = await GET(getRequest(), { params: { id: 'camp1' } })
     expect(response.status).toBe(403)
     expect(SafetyService.getXCardHistory).not.toHaveBeenCalled()
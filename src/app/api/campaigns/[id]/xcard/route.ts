@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { SafetyService } from '@/lib/safety/safety-service';
 import { verifyAuth } from '@/lib/auth';
 import { XCardTrigger } from '@prisma/client';
-import { getCampaignMembership, requireCampaignAdmin } from '@/lib/db/campaignAccess'
+import { getCampaignMembership, requireCampaignPermission } from '@/lib/db/campaignAccess'
 
 /**
  * POST /api/campaigns/[id]/xcard
@@ -67,7 +67,7 @@ export async function GET(
     const { id: campaignId } = params;
 
     // Verify user is GM
-    const adminCheck = await requireCampaignAdmin(user.userId, campaignId, 'Forbidden - GM only');
+    const adminCheck = await requireCampaignPermission(user.userId, campaignId, 'safety.manage', 'Forbidden - GM only');
     if ('response' in adminCheck) return adminCheck.response;
 
     const history = await SafetyService.getXCardHistory(campaignId, true);
@@ -2,7 +2,8 @@
 // #135 (cont.) — the campaign list/create route had no test coverage:
 // the auth gate, the required title, the loreImport branching validation
 // (mirroring campaigns/[id]/lore/route.ts's own PASTE/URL/WIKI rules),
-// and the unknown-templateId rejection, were all unverified.
+// and the unknown-templateId rejection, were all unverified. The moveSetId
+// cases were added with per-campaign move sets (lib/moveSets.ts).
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
@@ -74,6 +75,18 @@ describe('POST', () => {
     expect(createCampaign).not.toHaveBeenCalled()
   })
 
+  it('rejects an unknown moveSetId', async () => {
+    const response = await POST(postRequest({ title: 'T', moveSetId: 'nonexistent' }))
+    expect(response.status).toBe(400)
+    expect(createCampaign).not.toHaveBeenCalled()
+  })
+
+  it('passes a known moveSetId through to campaign creation', async () => {
+    const response = await POST(postRequest({ title: 'T', moveSetId: 'intrigue' }))
+    expect(response.status).toBe(201)
+    expect(createCampaign).toHaveBeenCalledWith(expect.objectContaining({ moveSetId: 'intrigue' }))
+  })
+
   it('rejects an invalid loreImport.sourceType', async () => {
     const response = await POST(postRequest({ title: 'T', loreImport: { sourceType: 'PDF' } }))
     expect(response.status).toBe(400)
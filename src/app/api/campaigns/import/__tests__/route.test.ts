@@ -0,0 +1,80 @@
+// src/app/api/campaigns/import/__tests__/route.test.ts
+// The import endpoint: auth gate, body validation, a malformed export file
+// surfacing as a 400 with the validator's message rather than a 500, and
+// the caller becoming the new campaign's owner.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/export/campaign-exporter', () => ({
+  CampaignExporter: { importCampaign: vi.fn() },
+}))
+
+import { requireAuth } from '@/lib/auth'
+import { CampaignExporter } from '@/lib/export/campaign-exporter'
+import { ExportFormatError } from '@/lib/export/exportFormat'
+import { POST } from '../route'
+
+function postRequest(body: unknown) {
+  return new NextRequest('http://localhost/api/campaigns/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+}
+
+const file = { format: 'mythos-campaign-export', version: 2 }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'user1' })
+  ;(CampaignExporter.importCampaign as any).mockResolvedValue({
+    campaign: { id: 'new1', title: 'Copy' },
+    imported: { NPC: 3 },
+    dropped: {},
+  })
+})
+
+describe('POST', () => {
+  it('rejects an unauthenticated request', async () => {
+    ;(requireAuth as any).mockRejectedValue(new Error('Unauthorized'))
+    const response = await POST(postRequest({ data: file }))
+    expect(response.status).toBe(401)
+    expect(CampaignExporter.importCampaign).not.toHaveBeenCalled()
+  })
+
+  it('requires the export file', async () => {
+    const response = await POST(postRequest({ title: 'Copy' }))
+    expect(response.status).toBe(400)
+  })
+
+  it('rejects a blank title', async () => {
+    const response = await POST(postRequest({ data: file, title: '   ' }))
+    expect(response.status).toBe(400)
+    expect(CampaignExporter.importCampaign).not.toHaveBeenCalled()
+  })
+
+  it('imports as the caller, with the trimmed title', async () => {
+    const response = await POST(postRequest({ data: file, title: '  Copy  ' }))
+    expect(response.status).toBe(201)
+    expect(CampaignExporter.importCampaign).toHaveBeenCalledWith(file, 'user1', { title: 'Copy' })
+    const body = await response.json()
+    expect(body.campaign).toEqual({ id: 'new1', title: 'Copy' })
+    expect(body.imported).toEqual({ NPC: 3 })
+  })
+
+  it('returns 400 with the validation message for a malformed file', async () => {
+    ;(CampaignExporter.importCampaign as any).mockRejectedValue(new ExportFormatError('NPC[0].name: Required'))
+    const response = await POST(postRequest({ data: file }))
+    expect(response.status).toBe(400)
+    const body = await response.json()
+    expect(body.error).toBe('NPC[0].name: Required')
+  })
+
+  it('returns 500 on an unexpected error', async () => {
+    ;(CampaignExporter.importCampaign as any).mockRejectedValue(new Error('db down'))
+    const response = await POST(postRequest({ data: file }))
+    expect(response.status).toBe(500)
+  })
+})
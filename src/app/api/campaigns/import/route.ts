@@ -0,0 +1,37 @@
+// src/app/api/campaigns/import/route.ts
+// POST - Import a campaign export file (any supported version) as a new
+// campaign owned by the caller. See lib/export/campaign-exporter.ts.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { CampaignExporter } from '@/lib/export/campaign-exporter'
+import { ExportFormatError } from '@/lib/export/exportFormat'
+
+// POST /api/campaigns/import - body: { data: <export file>, title?: string }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth(request)
+    const body = await request.json()
+    const { data, title } = body ?? {}
+
+    if (data === undefined) {
+      return NextResponse.json<ErrorResponse>({ error: 'data (the export file) is required' }, { status: 400 })
+    }
+    if (title !== undefined && (typeof title !== 'string' || title.trim().length === 0)) {
+      return NextResponse.json<ErrorResponse>({ error: 'title must be a non-empty string' }, { status: 400 })
+    }
+
+    const result = await CampaignExporter.importCampaign(data, user.userId, { title: title?.trim() })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    // A file that doesn't validate is the caller's to fix, and the message
+    // names the rows that failed — nothing was written.
+    if (error instanceof ExportFormatError) {
+      return NextResponse.json<ErrorResponse>({ error: error.message }, { status: 400 })
+    }
+    return handleRouteError(error, 'Import campaign error', 'Internal server error')
+  }
+}
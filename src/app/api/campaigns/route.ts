@@ -9,6 +9,7 @@ import { requireAuth } from '@/lib/auth'
 import { ErrorResponse } from '@/types/api'
 import { handleRouteError } from '@/lib/api/errors'
 import { getTemplate } from '@/lib/templates/campaign-templates'
+import { getMoveSet } from '@/lib/moveSets'
 import { recordEvent } from '@/lib/analytics/events'
 import { createCampaign, type ValidatedLoreImport } from '@/lib/game/campaignCreation'
 
@@ -18,9 +19,12 @@ export async function GET(request: NextRequest) {
     const user = await requireAuth(request)
 
     // Find all campaign memberships for the user
+    // A guest whose time ran out no longer sees the campaign listed, the
+    // same way getCampaignMembership no longer lets them in.
     const memberships = await prisma.campaignMembership.findMany({
       where: {
-        userId: user.userId
+        userId: user.userId,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
       },
       include: {
         campaign: {
@@ -31,6 +35,11 @@ export async function GET(request: NextRequest) {
                 scenes: true,
                 memberships: true
               }
+            },
+            // A fork's parent, for the lobby card's "branched from" line.
+            // Null once the parent is deleted (the FK is SetNull).
+            forkedFrom: {
+              select: { id: true, title: true }
             }
           }
         }
@@ -43,7 +52,8 @@ export async function GET(request: NextRequest) {
     // Map to campaigns with role info
     const campaigns = memberships.map((m) => ({
       ...m.campaign,
-      userRole: m.role
+      userRole: m.role,
+      membershipExpiresAt: m.expiresAt
     }))
 
     return NextResponse.json({ campaigns })
@@ -57,7 +67,7 @@ export async function POST(request: NextRequest) {
   try {
     const user = await requireAuth(request)
     const body = await request.json()
-    const { title, description, universe, aiSystemPrompt, initialWorldSeed, templateId, loreImport } = body
+    const { title, description, universe, aiSystemPrompt, initialWorldSeed, templateId, loreImport, moveSetId } = body
 
     if (!title) {
       return NextResponse.json<ErrorResponse>(
@@ -112,6 +122,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Move set: a closed catalogue (lib/moveSets.ts). An unknown id is a
+    // 400 rather than a silent fall back to core — the host asked for a
+    // specific way to play, and quietly handing them a different one would
+    // only surface the first time a roll came out wrong.
+    if (moveSetId !== undefined && moveSetId !== null && !getMoveSet(moveSetId)) {
+      return NextResponse.json<ErrorResponse>(
+        { error: `Move set '${moveSetId}' not found` },
+        { status: 400 }
+      )
+    }
+
     // Template fields take precedence unless the user explicitly overrode them
     const resolvedUniverse = universe || template?.universe || 'Original'
     const resolvedSystemPrompt = aiSystemPrompt || template?.systemPrompt || ''
@@ -124,6 +145,7 @@ export async function POST(request: NextRequest) {
       resolvedSystemPrompt,
       template: template || null,
       validatedLore,
+      moveSetId: moveSetId || undefined,
       userId: user.userId,
     })
 
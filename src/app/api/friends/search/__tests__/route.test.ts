@@ -78,6 +78,14 @@ describe('GET', () => {
     }))
   })
 
+  it('never offers a deleted account', async () => {
+    db.user.findMany.mockResolvedValue([])
+    await GET(req('deleted'))
+    expect(db.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ AND: expect.arrayContaining([{ deletedAt: null }]) }),
+    }))
+  })
+
   it('marks an already-friended result as a friend', async () => {
     db.user.findMany.mockResolvedValue([{ id: 'u1', email: 'a@b.com', name: 'Alice', isOnline: true }])
     db.friendship.findMany.mockResolvedValue([{ user1Id: 'me', user2Id: 'u1' }])
@@ -46,6 +46,9 @@ export async function GET(request: NextRequest) {
               not: userId, // Exclude self
             },
           },
+          // A deleted account's row outlives it (lib/account/deletion.ts);
+          // it isn't anyone to befriend.
+          { deletedAt: null },
           {
             OR: [
               {
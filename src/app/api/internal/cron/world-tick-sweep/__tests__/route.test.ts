@@ -13,6 +13,9 @@ vi.mock('@/lib/game/resolutionQueue', () => ({ sweepGloballyStuckResolutionJobs:
 // #408: the sweep now prunes the history it just added to, scoped to the
 // campaigns that actually ticked.
 vi.mock('@/lib/game/retention', () => ({ pruneCampaignHistory: vi.fn() }))
+vi.mock('@/lib/notifications/emailDigest', () => ({ sendDueDigests: vi.fn() }))
+vi.mock('@/lib/webhooks/webhookQueue', () => ({ sweepWebhookDeliveries: vi.fn() }))
+vi.mock('@/lib/account/deletion', () => ({ executeDueAccountDeletions: vi.fn() }))
 vi.mock('@/lib/notifications/turn-tracker', () => ({
   TurnTracker: { sendPeriodicReminders: vi.fn(), checkExpiredTurns: vi.fn(), notifyOverdueTurns: vi.fn() },
 }))
@@ -20,6 +23,9 @@ vi.mock('@/lib/notifications/turn-tracker', () => ({
 import { sweepWorldTurnsForAllCampaigns } from '@/lib/game/worldTurnSweep'
 import { sweepGloballyStuckResolutionJobs } from '@/lib/game/resolutionQueue'
 import { TurnTracker } from '@/lib/notifications/turn-tracker'
+import { sendDueDigests } from '@/lib/notifications/emailDigest'
+import { sweepWebhookDeliveries } from '@/lib/webhooks/webhookQueue'
+import { executeDueAccountDeletions } from '@/lib/account/deletion'
 import { GET } from '../route'
 
 const ORIGINAL_SECRET = process.env.CRON_SECRET
@@ -37,6 +43,9 @@ beforeEach(() => {
   ;(TurnTracker.sendPeriodicReminders as any).mockResolvedValue(undefined)
   ;(TurnTracker.checkExpiredTurns as any).mockResolvedValue(0)
   ;(TurnTracker.notifyOverdueTurns as any).mockResolvedValue(0)
+  ;(sendDueDigests as any).mockResolvedValue({ considered: 0, sent: 0, empty: 0, failed: 0 })
+  ;(sweepWebhookDeliveries as any).mockResolvedValue({ recovered: 0, abandoned: 0, attempted: 0 })
+  ;(executeDueAccountDeletions as any).mockResolvedValue({ deleted: 0, failed: 0 })
   ;(sweepWorldTurnsForAllCampaigns as any).mockResolvedValue({ ticked: 0, campaignsChecked: 0, failed: 0, skippedAtCap: 0, tickedCampaignIds: [] })
 })
 
@@ -67,7 +76,7 @@ describe('GET', () => {
     const response = await GET(req('sweep-secret'))
     const body = await response.json()
     expect(response.status).toBe(200)
-    expect(body).toEqual({ ticked: 2, campaignsChecked: 5, failed: 0, skippedAtCap: 3, tickedCampaignIds: [], prunedRows: 0 })
+    expect(body).toEqual({ ticked: 2, campaignsChecked: 5, failed: 0, skippedAtCap: 3, tickedCampaignIds: [], prunedRows: 0, digests: { considered: 0, sent: 0, empty: 0, failed: 0 }, webhooks: { recovered: 0, abandoned: 0, attempted: 0 }, accountDeletions: { deleted: 0, failed: 0 } })
   })
 
   it('does not abort the sweep when a maintenance step throws', async () => {
@@ -85,4 +94,51 @@ describe('GET', () => {
     expect(response.status).toBe(200)
     expect(TurnTracker.notifyOverdueTurns).toHaveBeenCalled()
   })
+
+  it('sends due email digests after the world turns, and survives the digest pass failing', async () => {
+    const order: string[] = []
+    ;(sweepWorldTurnsForAllCampaigns as any).mockImplementation(async () => {
+      order.push('sweep')
+      return { ticked: 0, campaignsChecked: 0, failed: 0, skippedAtCap: 0, tickedCampaignIds: [] }
+    })
+    ;(sendDueDigests as any).mockImplementation(async () => {
+      order.push('digests')
+      throw new Error('smtp down')
+    })
+    const response = await GET(req('sweep-secret'))
+    expect(response.status).toBe(200)
+    expect(order).toEqual(['sweep', 'digests'])
+    expect((await response.json()).digests).toBeNull()
+  })
+
+  it('retries due webhook deliveries last', async () => {
+    const order: string[] = []
+    ;(sendDueDigests as any).mockImplementation(async () => {
+      order.push('digests')
+      return { considered: 0, sent: 0, empty: 0, failed: 0 }
+    })
+    ;(sweepWebhookDeliveries as any).mockImplementation(async () => {
+      order.push('webhooks')
+      return { recovered: 1, abandoned: 0, attempted: 2 }
+    })
+    const response = await GET(req('sweep-secret'))
+    expect(order).toEqual(['digests', 'webhooks'])
+    expect((await response.json()).webhooks).toEqual({ recovered: 1, abandoned: 0, attempted: 2 })
+  })
+
+  it('carries out due account deletions before the webhook pass, and survives that pass failing', async () => {
+    const order: string[] = []
+    ;(executeDueAccountDeletions as any).mockImplementation(async () => {
+      order.push('deletions')
+      throw new Error('db down')
+    })
+    ;(sweepWebhookDeliveries as any).mockImplementation(async () => {
+      order.push('webhooks')
+      return { recovered: 0, abandoned: 0, attempted: 0 }
+    })
+    const response = await GET(req('sweep-secret'))
+    expect(response.status).toBe(200)
+    expect(order).toEqual(['deletions', 'webhooks'])
+    expect((await response.json()).accountDeletions).toBeNull()
+  })
 })
@@ -11,6 +11,9 @@ import { pruneCampaignHistory } from '@/lib/game/retention'
 import { sweepWorldTurnsForAllCampaigns } from '@/lib/game/worldTurnSweep'
 import { sweepGloballyStuckResolutionJobs } from '@/lib/game/resolutionQueue'
 import { TurnTracker } from '@/lib/notifications/turn-tracker'
+import { sendDueDigests } from '@/lib/notifications/emailDigest'
+import { sweepWebhookDeliveries } from '@/lib/webhooks/webhookQueue'
+import { executeDueAccountDeletions } from '@/lib/account/deletion'
 
 // Hobby-plan-safe. sweepWorldTurnsForAllCampaigns caps how many campaigns
 // get a full (AI-calling) world turn per sweep for the same reason.
@@ -89,7 +92,8 @@ export async function GET(request: NextRequest) {
         pruned.worldEventsDeleted +
         pruned.eventWitnessesDeleted +
         pruned.diceRollsDeleted +
-        pruned.aiCostEntriesDeleted
+        pruned.aiCostEntriesDeleted +
+        pruned.worldSnapshotsDeleted
     } catch (err) {
       console.error(`Cron: retention pass failed for campaign ${campaignId} (non-fatal):`, err)
     }
@@ -98,5 +102,35 @@ export async function GET(request: NextRequest) {
     console.log(`🧹 Cron: pruned ${prunedRows} row(s) of aged history`)
   }
 
-  return NextResponse.json({ ...result, prunedRows })
+  // Email digests go last, so the world turns this same run just took are
+  // in them — the digest is how a player who only reads email learns the
+  // world moved at all. Bounded per run (MAX_DIGESTS_PER_RUN) and
+  // best-effort like everything above: a mail server being down must not
+  // fail the sweep's own result.
+  const digests = await sendDueDigests().catch(err => {
+    console.error('Cron: email digest pass failed (non-fatal):', err)
+    return null
+  })
+  if (digests && digests.sent > 0) {
+    console.log(`📬 Cron: sent ${digests.sent} email digest(s)`)
+  }
+
+  // Account deletions whose grace period ran out. After the world turns,
+  // so a deletion that archives a campaign never lands under a tick in
+  // flight; before webhooks, for the reason below.
+  const accountDeletions = await executeDueAccountDeletions().catch(err => {
+    console.error('Cron: account deletion pass failed (non-fatal):', err)
+    return null
+  })
+  if (accountDeletions && accountDeletions.deleted > 0) {
+    console.log(`🗑️  Cron: carried out ${accountDeletions.deleted} scheduled account deletion(s)`)
+  }
+
+  // Webhook retries are otherwise driven by the next event's worker; a
+  // campaign that's gone quiet has none, so its backed-off deliveries get
+  // one pass here. Last because each attempt can wait out a slow receiver,
+  // and nothing after it can be starved of the duration budget.
+  const webhooks = await sweepWebhookDeliveries()
+
+  return NextResponse.json({ ...result, prunedRows, digests, webhooks, accountDeletions })
 }
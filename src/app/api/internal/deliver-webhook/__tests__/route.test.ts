@@ -0,0 +1,52 @@
+// src/app/api/internal/deliver-webhook/__tests__/route.test.ts
+// The webhook worker route: the shared internal-secret gate, the required
+// deliveryId, and that the retry sweep is awaited after the delivery.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/jobs/kickInternalWorker', () => ({ internalJobSecret: vi.fn(() => 'internal-secret') }))
+vi.mock('@/lib/webhooks/webhookQueue', () => ({
+  processWebhookDelivery: vi.fn(),
+  sweepWebhookDeliveries: vi.fn(),
+}))
+
+import { processWebhookDelivery, sweepWebhookDeliveries } from '@/lib/webhooks/webhookQueue'
+import { POST } from '../route'
+
+function req(body: unknown, secret = 'internal-secret') {
+  return new NextRequest('http://localhost/api/internal/deliver-webhook', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-internal-secret': secret },
+    body: JSON.stringify(body),
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(processWebhookDelivery as any).mockResolvedValue({ status: 'delivered' })
+  ;(sweepWebhookDeliveries as any).mockResolvedValue({ recovered: 0, abandoned: 0, attempted: 0 })
+})
+
+describe('POST', () => {
+  it('rejects the wrong secret', async () => {
+    const response = await POST(req({ deliveryId: 'd1' }, 'wrong-secret'))
+    expect(response.status).toBe(403)
+    expect(processWebhookDelivery).not.toHaveBeenCalled()
+  })
+
+  it('requires deliveryId', async () => {
+    const response = await POST(req({}))
+    expect(response.status).toBe(400)
+    expect(processWebhookDelivery).not.toHaveBeenCalled()
+  })
+
+  it('delivers, then sweeps for due retries before answering', async () => {
+    const response = await POST(req({ deliveryId: 'd1' }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ status: 'delivered' })
+    expect(processWebhookDelivery).toHaveBeenCalledWith('d1')
+    expect((sweepWebhookDeliveries as any).mock.invocationCallOrder[0])
+      .toBeGreaterThan((processWebhookDelivery as any).mock.invocationCallOrder[0])
+  })
+})
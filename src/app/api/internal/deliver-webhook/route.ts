@@ -0,0 +1,42 @@
+// src/app/api/internal/deliver-webhook/route.ts
+// Internal worker route for outbound campaign webhooks. Not user-facing:
+// invoked by webhookQueue.kickWebhookDelivery() (self-invocation over
+// HTTP) so a slow or dead receiver holds up this invocation and nothing a
+// player is waiting on. Auth is a shared internal secret, never a user
+// token.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { internalJobSecret } from '@/lib/jobs/kickInternalWorker'
+import { processWebhookDelivery, sweepWebhookDeliveries } from '@/lib/webhooks/webhookQueue'
+
+// One delivery plus a sweep of SWEEP_BATCH more, each bounded by
+// DELIVERY_TIMEOUT_MS.
+export const maxDuration = 120
+
+export async function POST(request: NextRequest) {
+  const secret = request.headers.get('x-internal-secret')
+  if (!secret || secret !== internalJobSecret()) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  let deliveryId: string | undefined
+  try {
+    const body = await request.json()
+    deliveryId = body?.deliveryId
+  } catch {
+    // fall through to the validation below
+  }
+  if (!deliveryId || typeof deliveryId !== 'string') {
+    return NextResponse.json({ error: 'deliveryId is required' }, { status: 400 })
+  }
+
+  const result = await processWebhookDelivery(deliveryId)
+
+  // Retries ride on new events: whatever else has backed off long enough
+  // goes out now, from this invocation. Awaited for the same reason the
+  // resolve-job route awaits its sweep — a detached promise can be frozen
+  // mid-request.
+  await sweepWebhookDeliveries()
+
+  return NextResponse.json(result)
+}
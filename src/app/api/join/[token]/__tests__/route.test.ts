@@ -12,7 +12,7 @@ vi.mock('@/lib/db/campaignAccess', () => ({ getCampaignMembership: vi.fn() }))
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     campaignInvite: { findUnique: vi.fn(), update: vi.fn() },
-    campaignMembership: { create: vi.fn(), findMany: vi.fn() },
+    campaignMembership: { upsert: vi.fn(), findMany: vi.fn() },
     user: { findUnique: vi.fn() },
     $transaction: vi.fn(),
   },
@@ -44,6 +44,7 @@ function getRequest() {
 const validInvite = {
   id: 'inv1', token: 'tok123', campaignId: 'camp1',
   expiresAt: new Date(Date.now() + 60_000), maxUses: 10, uses: 2,
+  role: 'PLAYER', guestHours: null,
   campaign: { id: 'camp1', title: 'Test Campaign' },
 }
 
@@ -128,18 +129,40 @@ describe('POST', () => {
   // naturally end up asserting THAT it was called rather than WHAT it was
   // asked to do — and the highest-blast-radius write path in the product
   // happened to sit behind exactly that mock.
-  it('grants PLAYER, never a role the caller could pick or inherit', async () => {
+  it('grants the invite\'s role, never a role the caller could pick or inherit', async () => {
     db.campaignInvite.findUnique.mockResolvedValue(validInvite)
     db.$transaction.mockResolvedValue([{ id: 'membership1' }])
     db.campaignMembership.findMany.mockResolvedValue([])
 
     await POST(postRequest(), { params: { token: 'tok123' } })
 
-    expect(db.campaignMembership.create).toHaveBeenCalledWith({
-      data: { userId: 'newplayer1', campaignId: 'camp1', role: 'PLAYER' },
+    expect(db.campaignMembership.upsert).toHaveBeenCalledWith({
+      where: { userId_campaignId: { userId: 'newplayer1', campaignId: 'camp1' } },
+      create: { userId: 'newplayer1', campaignId: 'camp1', role: 'PLAYER', expiresAt: null },
+      update: { role: 'PLAYER', expiresAt: null, joinedAt: expect.any(Date) },
     })
   })
 
+  it('refuses an invite row carrying a role above PLAYER, however it got there', async () => {
+    db.campaignInvite.findUnique.mockResolvedValue({ ...validInvite, role: 'ADMIN' })
+    const response = await POST(postRequest(), { params: { token: 'tok123' } })
+    expect(response.status).toBe(400)
+    expect(db.$transaction).not.toHaveBeenCalled()
+  })
+
+  it('gives a guest a membership that ends guestHours from joining', async () => {
+    db.campaignInvite.findUnique.mockResolvedValue({ ...validInvite, role: 'GUEST', guestHours: 6 })
+    db.$transaction.mockResolvedValue([{ id: 'membership1' }])
+    const before = Date.now()
+
+    await POST(postRequest(), { params: { token: 'tok123' } })
+
+    const { create } = db.campaignMembership.upsert.mock.calls[0][0]
+    expect(create.role).toBe('GUEST')
+    expect(create.expiresAt.getTime()).toBeGreaterThanOrEqual(before + 6 * 60 * 60 * 1000)
+    expect(create.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 6 * 60 * 60 * 1000)
+  })
+
   it('increments the invite use count rather than decrementing it', async () => {
     db.campaignInvite.findUnique.mockResolvedValue(validInvite)
     db.$transaction.mockResolvedValue([{ id: 'membership1' }])
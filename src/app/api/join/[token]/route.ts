@@ -5,6 +5,7 @@ import { getUser } from '@/lib/auth'
 import { SafetyService } from '@/lib/safety/safety-service'
 import { NotificationService } from '@/lib/notifications/notification-service'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { INVITABLE_ROLES, rolesWith } from '@/lib/api/campaignPermissions'
 
 export async function POST(
   request: NextRequest,
@@ -70,14 +71,34 @@ export async function POST(
       )
     }
 
-    // Create membership and increment uses in a transaction
+    // The role comes from the invite, which only a GM could have created
+    // and only with an invitable role (invites/route.ts). Re-checked here
+    // anyway: a link is a bearer token, and the one thing it must never be
+    // is a way in above PLAYER.
+    if (!INVITABLE_ROLES.includes(invite.role)) {
+      return NextResponse.json(
+        { error: 'Invalid invite link' },
+        { status: 400 }
+      )
+    }
+    const expiresAt = invite.role === 'GUEST' && invite.guestHours
+      ? new Date(Date.now() + invite.guestHours * 60 * 60 * 1000)
+      : null
+
+    // Create membership and increment uses in a transaction. An upsert
+    // because a guest whose membership ran out still has its row (see
+    // CampaignMembership.expiresAt) — getCampaignMembership reported them
+    // as not a member above, and a fresh link lets them back in.
     const [membership] = await prisma.$transaction([
-      prisma.campaignMembership.create({
-        data: {
+      prisma.campaignMembership.upsert({
+        where: { userId_campaignId: { userId: user.userId, campaignId: invite.campaignId } },
+        create: {
           userId: user.userId,
           campaignId: invite.campaignId,
-          role: 'PLAYER',
+          role: invite.role,
+          expiresAt,
         },
+        update: { role: invite.role, expiresAt, joinedAt: new Date() },
       }),
       prisma.campaignInvite.update({
         where: { id: invite.id },
@@ -93,7 +114,7 @@ export async function POST(
       const [joiner, admins] = await Promise.all([
         prisma.user.findUnique({ where: { id: user.userId }, select: { name: true, email: true } }),
         prisma.campaignMembership.findMany({
-          where: { campaignId: invite.campaignId, role: 'ADMIN' },
+          where: { campaignId: invite.campaignId, role: { in: rolesWith('members.invite') } },
           select: { userId: true },
         }),
       ])
@@ -165,6 +186,8 @@ export async function GET(
 
     return NextResponse.json({
       campaign: invite.campaign,
+      role: invite.role,
+      guestHours: invite.guestHours,
       isExpired,
       isExhausted,
       canJoin: !isExpired && !isExhausted,
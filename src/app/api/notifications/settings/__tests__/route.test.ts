@@ -94,6 +94,25 @@ describe('PUT', () => {
     expect(response.status).toBe(200)
   })
 
+  it('saves a digest cadence', async () => {
+    db.userNotificationSettings.upsert.mockResolvedValue({ userId: 'user1', digestCadence: 'DAILY' })
+    const response = await PUT(putRequest({ digestCadence: 'DAILY' }))
+    expect(response.status).toBe(200)
+    expect(db.userNotificationSettings.upsert).toHaveBeenCalledWith(expect.objectContaining({ update: { digestCadence: 'DAILY' } }))
+  })
+
+  it('rejects a digest cadence that is not one of the enum values', async () => {
+    const response = await PUT(putRequest({ digestCadence: 'HOURLY' }))
+    expect(response.status).toBe(400)
+    expect(db.userNotificationSettings.upsert).not.toHaveBeenCalled()
+  })
+
+  it('never lets the client set its own unsubscribe token or digest window', async () => {
+    db.userNotificationSettings.upsert.mockResolvedValue({ userId: 'user1' })
+    await PUT(putRequest({ digestUnsubscribeToken: 'chosen', lastDigestAt: '2020-01-01T00:00:00Z', emailEnabled: true }))
+    expect(db.userNotificationSettings.upsert).toHaveBeenCalledWith(expect.objectContaining({ update: { emailEnabled: true } }))
+  })
+
   it('returns 500 on an unexpected error', async () => {
     db.userNotificationSettings.upsert.mockRejectedValue(new Error('db down'))
     const response = await PUT(putRequest({ emailEnabled: true }))
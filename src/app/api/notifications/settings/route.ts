@@ -50,7 +50,7 @@ export async function PUT(request: NextRequest) {
       'soundEnabled', 'soundTurnReminders', 'soundSceneChanges', 'soundMentions',
       'soundWhispers', 'soundCriticalMoments', 'soundWorldEvents',
       'quietHoursEnabled', 'quietHoursStart', 'quietHoursEnd', 'timezone',
-      'dailyDigestEnabled', 'weeklyDigestEnabled'
+      'digestCadence'
     ];
 
     const updateData: any = {};
@@ -60,6 +60,12 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    // Validate digest cadence — an enum column, so anything else would
+    // reach Prisma and come back a 500
+    if ('digestCadence' in updateData && !['OFF', 'DAILY', 'WEEKLY'].includes(updateData.digestCadence)) {
+      return NextResponse.json({ error: 'Invalid digest cadence (OFF, DAILY or WEEKLY)' }, { status: 400 });
+    }
+
     // Validate quiet hours format
     if ('quietHoursStart' in updateData && updateData.quietHoursStart) {
       const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
@@ -0,0 +1,107 @@
+// src/app/api/notifications/unsubscribe/__tests__/route.test.ts
+// The digest's unsubscribe links work without a session, so the token is
+// the whole of the access control: an unknown token or scope must change
+// nothing, each scope must switch off only what it names, and the footer
+// link (GET) must always land on a page rather than a bare error.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { userNotificationSettings: { findFirst: vi.fn(), update: vi.fn() } },
+}))
+vi.mock('@/lib/rateLimit', () => ({
+  UNSUBSCRIBE_LIMIT: { bucket: 'unsubscribe', limit: 10, windowSeconds: 3600 },
+  checkRateLimit: vi.fn(),
+  getClientIp: vi.fn(() => '127.0.0.1'),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { checkRateLimit } from '@/lib/rateLimit'
+import { GET, POST } from '../route'
+
+const db = prisma as any
+
+function url(params: Record<string, string>) {
+  return `http://localhost/api/notifications/unsubscribe?${new URLSearchParams(params)}`
+}
+
+function unsubscribedParam(response: Response): string | null {
+  return new URL(response.headers.get('location')!).searchParams.get('unsubscribed')
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+  db.userNotificationSettings.findFirst.mockResolvedValue({ id: 'settings1' })
+  db.userNotificationSettings.update.mockResolvedValue({})
+})
+
+describe('GET /api/notifications/unsubscribe', () => {
+  it('turns off only the digest for scope=digest', async () => {
+    const response = await GET(new NextRequest(url({ token: 'tok', scope: 'digest' })))
+    expect(unsubscribedParam(response)).toBe('digest')
+    expect(db.userNotificationSettings.findFirst).toHaveBeenCalledWith({
+      where: { digestUnsubscribeToken: 'tok' },
+      select: { id: true },
+    })
+    expect(db.userNotificationSettings.update).toHaveBeenCalledWith({
+      where: { id: 'settings1' },
+      data: { digestCadence: 'OFF' },
+    })
+  })
+
+  it('turns off all email for scope=email', async () => {
+    const response = await GET(new NextRequest(url({ token: 'tok', scope: 'email' })))
+    expect(unsubscribedParam(response)).toBe('email')
+    expect(db.userNotificationSettings.update).toHaveBeenCalledWith({
+      where: { id: 'settings1' },
+      data: { emailEnabled: false },
+    })
+  })
+
+  it('changes nothing for an unknown token', async () => {
+    db.userNotificationSettings.findFirst.mockResolvedValue(null)
+    const response = await GET(new NextRequest(url({ token: 'nope', scope: 'digest' })))
+    expect(unsubscribedParam(response)).toBe('0')
+    expect(db.userNotificationSettings.update).not.toHaveBeenCalled()
+  })
+
+  it('changes nothing for a missing token or an unknown scope', async () => {
+    expect(unsubscribedParam(await GET(new NextRequest(url({ scope: 'digest' }))))).toBe('0')
+    expect(unsubscribedParam(await GET(new NextRequest(url({ token: 'tok', scope: 'push' }))))).toBe('0')
+    expect(db.userNotificationSettings.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('does not touch the DB when rate limited', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false, retryAfterSeconds: 42 })
+    const response = await GET(new NextRequest(url({ token: 'tok', scope: 'digest' })))
+    expect(unsubscribedParam(response)).toBe('0')
+    expect(db.userNotificationSettings.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('still redirects on an unexpected error', async () => {
+    db.userNotificationSettings.findFirst.mockRejectedValue(new Error('db down'))
+    const response = await GET(new NextRequest(url({ token: 'tok', scope: 'digest' })))
+    expect(unsubscribedParam(response)).toBe('0')
+  })
+})
+
+describe('POST /api/notifications/unsubscribe (one-click)', () => {
+  it('answers with a status instead of a redirect', async () => {
+    const response = await POST(new NextRequest(url({ token: 'tok', scope: 'digest' }), { method: 'POST' }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ unsubscribed: 'digest' })
+    expect(db.userNotificationSettings.update).toHaveBeenCalledWith({
+      where: { id: 'settings1' },
+      data: { digestCadence: 'OFF' },
+    })
+  })
+
+  it('rejects an unknown token with 400', async () => {
+    db.userNotificationSettings.findFirst.mockResolvedValue(null)
+    const response = await POST(new NextRequest(url({ token: 'nope', scope: 'digest' }), { method: 'POST' }))
+    expect(response.status).toBe(400)
+    expect(db.userNotificationSettings.update).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,69 @@
+// src/app/api/notifications/unsubscribe/route.ts
+// The email digest's unsubscribe links (lib/notifications/emailDigest.ts).
+// Token-authenticated, not session-authenticated: the link is clicked from
+// an inbox, often on a device the player has never logged in on, and an
+// unsubscribe that asks for a password first is one people report as spam
+// instead.
+//
+//   scope=digest  — digestCadence OFF; other email untouched
+//   scope=email   — emailEnabled false; every MythOS email stops
+//
+// GET is the footer link: it redirects to the login page with a banner,
+// like verify-email. POST is RFC 8058 one-click — a mail client posting to
+// the List-Unsubscribe URL with no browser involved — so it answers with a
+// status, not a redirect. The token stays valid after use: clicking twice,
+// or a mail client retrying, must not turn into an error.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { checkRateLimit, getClientIp, UNSUBSCRIBE_LIMIT } from '@/lib/rateLimit'
+
+type Scope = 'digest' | 'email'
+
+/** What was switched off, or null when the request couldn't be honoured. */
+async function unsubscribe(request: NextRequest): Promise<Scope | null> {
+  const token = request.nextUrl.searchParams.get('token')
+  const scopeParam = request.nextUrl.searchParams.get('scope')
+  const scope: Scope | null = scopeParam === 'digest' || scopeParam === 'email' ? scopeParam : null
+  if (!token || !scope) return null
+
+  const rateLimit = await checkRateLimit(getClientIp(request), UNSUBSCRIBE_LIMIT.bucket, UNSUBSCRIBE_LIMIT.limit, UNSUBSCRIBE_LIMIT.windowSeconds)
+  if (!rateLimit.allowed) return null
+
+  const settings = await prisma.userNotificationSettings.findFirst({
+    where: { digestUnsubscribeToken: token },
+    select: { id: true },
+  })
+  if (!settings) return null
+
+  await prisma.userNotificationSettings.update({
+    where: { id: settings.id },
+    data: scope === 'digest' ? { digestCadence: 'OFF' } : { emailEnabled: false },
+  })
+  return scope
+}
+
+export async function GET(request: NextRequest) {
+  const loginUrl = new URL('/login', request.nextUrl.origin)
+  try {
+    const scope = await unsubscribe(request)
+    loginUrl.searchParams.set('unsubscribed', scope ?? '0')
+  } catch (error) {
+    console.error('Unsubscribe error:', error)
+    loginUrl.searchParams.set('unsubscribed', '0')
+  }
+  return NextResponse.redirect(loginUrl)
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const scope = await unsubscribe(request)
+    if (!scope) {
+      return NextResponse.json({ error: 'Invalid or expired unsubscribe link' }, { status: 400 })
+    }
+    return NextResponse.json({ unsubscribed: scope })
+  } catch (error) {
+    console.error('Unsubscribe error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,8 @@
 // src/app/api/user/__tests__/route.test.ts
 // #93 — untested despite DELETE being irreversible account deletion,
-// gated only by a typed confirmation string with no other safeguard.
+// gated only by a typed confirmation string with no other safeguard. It
+// now schedules deletion behind a grace period and the password instead
+// (lib/account/deletion.ts has the deletion itself).
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
@@ -11,9 +13,27 @@ vi.mock('@/lib/prisma', () => ({
     user: { findUnique: vi.fn(), update: vi.fn(), delete: vi.fn() },
   },
 }))
+vi.mock('@/lib/password', () => ({ verifyPassword: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  ACCOUNT_DATA_LIMIT: { bucket: 'account-data', limit: 5, windowSeconds: 3600 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(() => new Response(null, { status: 429 })),
+}))
+vi.mock('@/lib/account/deletion', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/account/deletion')>()),
+  describeHostedCampaigns: vi.fn(),
+  scheduleAccountDeletion: vi.fn(),
+}))
+vi.mock('@/lib/notifications/email-service', () => ({
+  EmailService: { sendAccountDeletionScheduledEmail: vi.fn() },
+}))
 
 import { requireAuth } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { verifyPassword } from '@/lib/password'
+import { checkRateLimit } from '@/lib/rateLimit'
+import { describeHostedCampaigns, scheduleAccountDeletion } from '@/lib/account/deletion'
+import { EmailService } from '@/lib/notifications/email-service'
 import { GET, PATCH, DELETE } from '../route'
 
 const db = prisma as any
@@ -213,28 +233,77 @@ describe('PATCH', () => {
 })
 
 describe('DELETE', () => {
+  const SCHEDULED = new Date('2026-10-01T00:00:00Z')
+  const SHARED = { id: 'c1', title: 'Shared', candidates: [{ userId: 'p1', name: 'Pat', role: 'PLAYER' }] }
+
+  beforeEach(() => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+    db.user.findUnique.mockResolvedValue({ email: 'user1@example.com', password: 'hash' })
+    ;(verifyPassword as any).mockResolvedValue(true)
+    ;(describeHostedCampaigns as any).mockResolvedValue({ shared: [], solo: [] })
+    ;(scheduleAccountDeletion as any).mockResolvedValue(SCHEDULED)
+    ;(EmailService.sendAccountDeletionScheduledEmail as any).mockResolvedValue(true)
+  })
+
   it('requires the exact confirmation phrase', async () => {
-    const response = await DELETE(deleteRequest({ confirm: 'delete my account' }))
+    const response = await DELETE(deleteRequest({ confirm: 'delete my account', password: 'pw' }))
     expect(response.status).toBe(400)
-    expect(db.user.delete).not.toHaveBeenCalled()
+    expect(scheduleAccountDeletion).not.toHaveBeenCalled()
   })
 
   it('rejects a missing confirmation entirely', async () => {
     const response = await DELETE(deleteRequest({}))
     expect(response.status).toBe(400)
+    expect(scheduleAccountDeletion).not.toHaveBeenCalled()
+  })
+
+  it('requires the password on an account that has one', async () => {
+    ;(verifyPassword as any).mockResolvedValue(false)
+    const response = await DELETE(deleteRequest({ confirm: 'DELETE MY ACCOUNT', password: 'wrong' }))
+    expect(response.status).toBe(401)
+    expect(scheduleAccountDeletion).not.toHaveBeenCalled()
+  })
+
+  it('schedules rather than deletes, and emails the address on the account', async () => {
+    const response = await DELETE(deleteRequest({ confirm: 'DELETE MY ACCOUNT', password: 'pw' }))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ scheduledFor: SCHEDULED.toISOString(), graceDays: 14 })
+    expect(scheduleAccountDeletion).toHaveBeenCalledWith('user1', {})
+    expect(EmailService.sendAccountDeletionScheduledEmail).toHaveBeenCalledWith('user1@example.com', SCHEDULED)
     expect(db.user.delete).not.toHaveBeenCalled()
   })
 
-  it('deletes the account with the exact confirmation phrase', async () => {
-    db.user.delete.mockResolvedValue({ id: 'user1' })
+  it('schedules a password-less account on the confirmation alone', async () => {
+    db.user.findUnique.mockResolvedValue({ email: 'user1@example.com', password: null })
     const response = await DELETE(deleteRequest({ confirm: 'DELETE MY ACCOUNT' }))
     expect(response.status).toBe(200)
-    expect(db.user.delete).toHaveBeenCalledWith({ where: { id: 'user1' } })
+    expect(verifyPassword).not.toHaveBeenCalled()
+  })
+
+  it('refuses until every campaign only this account runs has an heir or is archived', async () => {
+    ;(describeHostedCampaigns as any).mockResolvedValue({ shared: [SHARED], solo: [] })
+    const response = await DELETE(deleteRequest({ confirm: 'DELETE MY ACCOUNT', password: 'pw' }))
+    expect(response.status).toBe(400)
+    expect((await response.json()).hostedCampaigns.shared).toEqual([SHARED])
+    expect(scheduleAccountDeletion).not.toHaveBeenCalled()
+
+    await DELETE(deleteRequest({
+      confirm: 'DELETE MY ACCOUNT',
+      password: 'pw',
+      hostedCampaigns: { c1: { action: 'transfer', toUserId: 'p1' } },
+    }))
+    expect(scheduleAccountDeletion).toHaveBeenCalledWith('user1', { c1: { action: 'transfer', toUserId: 'p1' } })
+  })
+
+  it('only ever schedules the authenticated user, not an id from the request body', async () => {
+    await DELETE(deleteRequest({ confirm: 'DELETE MY ACCOUNT', password: 'pw', userId: 'someone-elses-id' }))
+    expect(scheduleAccountDeletion).toHaveBeenCalledWith('user1', {})
   })
 
-  it('only ever deletes the authenticated user, not an id from the request body', async () => {
-    db.user.delete.mockResolvedValue({ id: 'user1' })
-    await DELETE(deleteRequest({ confirm: 'DELETE MY ACCOUNT', userId: 'someone-elses-id' }))
-    expect(db.user.delete).toHaveBeenCalledWith({ where: { id: 'user1' } })
+  it('is rate limited per account', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false })
+    const response = await DELETE(deleteRequest({ confirm: 'DELETE MY ACCOUNT', password: 'pw' }))
+    expect(response.status).toBe(429)
+    expect(checkRateLimit).toHaveBeenCalledWith('user1', 'account-data', 5, 3600)
   })
 })
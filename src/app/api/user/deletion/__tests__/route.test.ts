@@ -0,0 +1,65 @@
+// src/app/api/user/deletion/__tests__/route.test.ts
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/prisma', () => ({ prisma: { user: { findUnique: vi.fn() } } }))
+vi.mock('@/lib/account/deletion', () => ({
+  ACCOUNT_DELETION_GRACE_DAYS: 14,
+  cancelAccountDeletion: vi.fn(),
+  describeHostedCampaigns: vi.fn(),
+}))
+
+import { requireAuth } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { cancelAccountDeletion, describeHostedCampaigns } from '@/lib/account/deletion'
+import { GET, DELETE } from '../route'
+
+const db = prisma as any
+const req = (method = 'GET') => new NextRequest('http://localhost/api/user/deletion', { method })
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'user1' })
+  ;(describeHostedCampaigns as any).mockResolvedValue({ shared: [], solo: [{ id: 'c2', title: 'Solo' }] })
+})
+
+describe('GET', () => {
+  it('returns 401 when unauthenticated', async () => {
+    ;(requireAuth as any).mockRejectedValue(new Error('Unauthorized'))
+    expect((await GET(req())).status).toBe(401)
+  })
+
+  it('reports the schedule, whether to ask for a password, and the hosted campaigns', async () => {
+    db.user.findUnique.mockResolvedValue({ deletionScheduledFor: new Date('2026-10-01T00:00:00Z'), password: null })
+    const response = await GET(req())
+    expect(await response.json()).toEqual({
+      scheduledFor: '2026-10-01T00:00:00.000Z',
+      graceDays: 14,
+      hasPassword: false,
+      hostedCampaigns: { shared: [], solo: [{ id: 'c2', title: 'Solo' }] },
+    })
+    expect(describeHostedCampaigns).toHaveBeenCalledWith('user1')
+  })
+
+  it('404s for a token whose user is gone', async () => {
+    db.user.findUnique.mockResolvedValue(null)
+    expect((await GET(req())).status).toBe(404)
+  })
+})
+
+describe('DELETE', () => {
+  it('cancels the caller\'s own scheduled deletion', async () => {
+    const response = await DELETE(req('DELETE'))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ scheduledFor: null })
+    expect(cancelAccountDeletion).toHaveBeenCalledWith('user1')
+  })
+
+  it('returns 401 when unauthenticated', async () => {
+    ;(requireAuth as any).mockRejectedValue(new Error('Unauthorized'))
+    expect((await DELETE(req('DELETE'))).status).toBe(401)
+    expect(cancelAccountDeletion).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,48 @@
+// src/app/api/user/deletion/route.ts
+//
+// GET    — whether this account is scheduled for deletion, and the
+//          campaigns a deletion would need a decision about.
+// DELETE — cancel a scheduled deletion.
+//
+// Scheduling itself is DELETE /api/user; see lib/account/deletion.ts.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { ACCOUNT_DELETION_GRACE_DAYS, cancelAccountDeletion, describeHostedCampaigns } from '@/lib/account/deletion'
+
+export async function GET(request: NextRequest) {
+  try {
+    const tokenUser = await requireAuth(request)
+
+    const record = await prisma.user.findUnique({
+      where: { id: tokenUser.userId },
+      select: { deletionScheduledFor: true, password: true },
+    })
+    if (!record) {
+      return NextResponse.json<ErrorResponse>({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      scheduledFor: record.deletionScheduledFor,
+      graceDays: ACCOUNT_DELETION_GRACE_DAYS,
+      // So the form knows whether to ask for one.
+      hasPassword: record.password !== null,
+      hostedCampaigns: await describeHostedCampaigns(tokenUser.userId),
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Account deletion status error', 'Internal server error')
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const tokenUser = await requireAuth(request)
+    await cancelAccountDeletion(tokenUser.userId)
+    return NextResponse.json({ scheduledFor: null })
+  } catch (error) {
+    return handleRouteError(error, 'Cancel account deletion error', 'Internal server error')
+  }
+}
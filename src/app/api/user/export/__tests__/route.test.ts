@@ -0,0 +1,55 @@
+// src/app/api/user/export/__tests__/route.test.ts
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+vi.mock('@/lib/auth', () => ({ requireAuth: vi.fn() }))
+vi.mock('@/lib/account/dataExport', () => ({ buildAccountExport: vi.fn() }))
+vi.mock('@/lib/rateLimit', () => ({
+  ACCOUNT_DATA_LIMIT: { bucket: 'account-data', limit: 5, windowSeconds: 3600 },
+  checkRateLimit: vi.fn(),
+  rateLimitExceededResponse: vi.fn(() => new Response(null, { status: 429 })),
+}))
+
+import { requireAuth } from '@/lib/auth'
+import { buildAccountExport } from '@/lib/account/dataExport'
+import { checkRateLimit } from '@/lib/rateLimit'
+import { GET } from '../route'
+
+const req = () => new NextRequest('http://localhost/api/user/export')
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  ;(requireAuth as any).mockResolvedValue({ userId: 'user1' })
+  ;(checkRateLimit as any).mockResolvedValue({ allowed: true })
+})
+
+describe('GET', () => {
+  it('returns 401 when unauthenticated', async () => {
+    ;(requireAuth as any).mockRejectedValue(new Error('Unauthorized'))
+    expect((await GET(req())).status).toBe(401)
+    expect(buildAccountExport).not.toHaveBeenCalled()
+  })
+
+  it('downloads the caller\'s own export, uncached', async () => {
+    ;(buildAccountExport as any).mockResolvedValue({ format: 'mythos-account-export', account: { id: 'user1' } })
+    const response = await GET(req())
+    expect(response.status).toBe(200)
+    expect(buildAccountExport).toHaveBeenCalledWith('user1')
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="mythos-account-\d{4}-\d{2}-\d{2}\.json"$/)
+    expect(response.headers.get('Cache-Control')).toBe('no-store')
+    expect(await response.json()).toEqual({ format: 'mythos-account-export', account: { id: 'user1' } })
+  })
+
+  it('404s when there is no account to export', async () => {
+    ;(buildAccountExport as any).mockResolvedValue(null)
+    expect((await GET(req())).status).toBe(404)
+  })
+
+  it('is rate limited per account before anything is read', async () => {
+    ;(checkRateLimit as any).mockResolvedValue({ allowed: false })
+    expect((await GET(req())).status).toBe(429)
+    expect(checkRateLimit).toHaveBeenCalledWith('user1', 'account-data', 5, 3600)
+    expect(buildAccountExport).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,36 @@
+// src/app/api/user/export/route.ts
+// GET /api/user/export - Download everything tied to this account as one
+// JSON file (see lib/account/dataExport.ts for what is and isn't in it).
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { ErrorResponse } from '@/types/api'
+import { handleRouteError } from '@/lib/api/errors'
+import { buildAccountExport } from '@/lib/account/dataExport'
+import { checkRateLimit, rateLimitExceededResponse, ACCOUNT_DATA_LIMIT } from '@/lib/rateLimit'
+
+export async function GET(request: NextRequest) {
+  try {
+    const tokenUser = await requireAuth(request)
+
+    const limit = await checkRateLimit(tokenUser.userId, ACCOUNT_DATA_LIMIT.bucket, ACCOUNT_DATA_LIMIT.limit, ACCOUNT_DATA_LIMIT.windowSeconds)
+    if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+    const data = await buildAccountExport(tokenUser.userId)
+    if (!data) {
+      return NextResponse.json<ErrorResponse>({ error: 'User not found' }, { status: 404 })
+    }
+
+    const filename = `mythos-account-${new Date().toISOString().split('T')[0]}.json`
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        // Personal data: never from a shared cache.
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    return handleRouteError(error, 'Account export error', 'Internal server error')
+  }
+}
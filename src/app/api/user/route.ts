@@ -2,6 +2,7 @@
 // Get and update current user info
 // GET /api/user - Get current user
 // PATCH /api/user - Update user profile
+// DELETE /api/user - Schedule the account's deletion (cancel: /api/user/deletion)
 
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
@@ -9,6 +10,15 @@ import { requireAuth } from '@/lib/auth'
 import { ErrorResponse } from '@/types/api'
 import { handleRouteError } from '@/lib/api/errors'
 import { isTheme } from '@/lib/theme'
+import { verifyPassword } from '@/lib/password'
+import { checkRateLimit, rateLimitExceededResponse, ACCOUNT_DATA_LIMIT } from '@/lib/rateLimit'
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  describeHostedCampaigns,
+  scheduleAccountDeletion,
+  validateDeletionPlan,
+} from '@/lib/account/deletion'
+import { EmailService } from '@/lib/notifications/email-service'
 
 // Shared so GET and PATCH can't drift on what they expose.
 const USER_SELECT = {
@@ -125,7 +135,11 @@ export async function PATCH(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const tokenUser = await requireAuth(request)
-    const body = await request.json()
+
+    const limit = await checkRateLimit(tokenUser.userId, ACCOUNT_DATA_LIMIT.bucket, ACCOUNT_DATA_LIMIT.limit, ACCOUNT_DATA_LIMIT.windowSeconds)
+    if (!limit.allowed) return rateLimitExceededResponse(limit)
+
+    const body = await request.json().catch(() => ({}))
 
     // Require confirmation
     if (body.confirm !== 'DELETE MY ACCOUNT') {
@@ -135,12 +149,38 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    // Delete user and all related data (cascading deletes handled by Prisma)
-    await prisma.user.delete({
-      where: { id: tokenUser.userId }
+    const record = await prisma.user.findUnique({
+      where: { id: tokenUser.userId },
+      select: { email: true, password: true },
     })
+    if (!record) {
+      return NextResponse.json<ErrorResponse>({ error: 'User not found' }, { status: 404 })
+    }
+    // A session token alone isn't enough to start the clock on someone's
+    // account. An account with no password (identity-provider sign-in)
+    // has the grace period and the confirmation email instead.
+    if (record.password && !(typeof body.password === 'string' && (await verifyPassword(body.password, record.password)))) {
+      return NextResponse.json<ErrorResponse>({ error: 'Incorrect password' }, { status: 401 })
+    }
+
+    // Campaigns this account is the only admin of need an heir or an
+    // archive before it goes; the error carries the list to choose from.
+    const hostedCampaigns = await describeHostedCampaigns(tokenUser.userId)
+    const plan = validateDeletionPlan(hostedCampaigns, body.hostedCampaigns)
+    if (!plan.ok) {
+      return NextResponse.json({ error: plan.error, hostedCampaigns }, { status: 400 })
+    }
+
+    // Scheduled, not done: see lib/account/deletion.ts for the grace
+    // period and what deletion keeps. The old immediate prisma.user.delete
+    // cascaded through every message and action the account had ever
+    // written, tearing holes in other players' campaigns.
+    const scheduledFor = await scheduleAccountDeletion(tokenUser.userId, plan.plan)
+    EmailService.sendAccountDeletionScheduledEmail(record.email, scheduledFor).catch((err) =>
+      console.error('Deletion confirmation email failed (non-critical):', err)
+    )
 
-    return NextResponse.json({ success: true, message: 'Account deleted successfully' })
+    return NextResponse.json({ scheduledFor, graceDays: ACCOUNT_DELETION_GRACE_DAYS })
   } catch (error) {
     return handleRouteError(error, 'Delete user error', 'Internal server error')
   }
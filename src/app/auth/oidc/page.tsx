@@ -0,0 +1,91 @@
+// src/app/auth/oidc/page.tsx
+// Where identity-provider sign-in lands. The callback route put a
+// two-minute handoff in the URL fragment; this page takes it out of the
+// address bar straight away (so it isn't left in history), trades it for
+// a session, and moves on — or asks for the second factor first, for an
+// account with 2FA on.
+
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { AlertTriangle } from 'lucide-react'
+import { completeOidcSignIn } from '@/lib/clientAuth'
+import { fontDisplay, fontSans } from '@/lib/fonts'
+import { TavernBackground } from '@/components/tavern/TavernBackground'
+import { TwoFactorLoginStep } from '@/components/auth/TwoFactorLoginStep'
+
+export default function OidcLandingPage() {
+  const router = useRouter()
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const started = useRef(false)
+
+  const returnTo = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('returnTo')
+    : null
+  const destination = returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/campaigns'
+
+  useEffect(() => {
+    // Once: a dev-mode double effect would otherwise post the handoff twice.
+    if (started.current) return
+    started.current = true
+
+    const handoff = new URLSearchParams(window.location.hash.slice(1)).get('handoff')
+    window.history.replaceState(null, '', window.location.pathname + window.location.search)
+    if (!handoff) {
+      setError('This sign-in link is incomplete. Please try again.')
+      return
+    }
+
+    completeOidcSignIn(handoff)
+      .then((result) => {
+        if ('twoFactorRequired' in result) {
+          setChallengeToken(result.challengeToken)
+          return
+        }
+        router.replace(destination)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Sign-in failed'))
+  }, [router, destination])
+
+  return (
+    <div className={`${fontSans.className} -mx-4 -my-8 flex min-h-screen items-center justify-center px-4 py-12`}>
+      <TavernBackground />
+
+      <div className="w-full max-w-md">
+        <div className="rounded-lg border border-myth-border bg-myth-surface p-8 shadow-[0_1px_2px_rgba(0,0,0,0.06),0_8px_24px_rgba(0,0,0,0.16)]">
+          <div className="mb-6 text-center">
+            <h2 className={`${fontDisplay.className} text-xl font-semibold text-myth-ink`}>Signing In</h2>
+          </div>
+
+          {error ? (
+            <div className="space-y-5">
+              <div className="flex items-center gap-2 rounded-lg border border-myth-danger/30 bg-myth-danger/10 px-4 py-3 text-sm text-myth-ink">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 text-myth-danger" />
+                <span>{error}</span>
+              </div>
+              <p className="text-center text-sm">
+                <Link href="/login" className="font-semibold text-myth-accent transition-colors hover:text-myth-accent-hover">
+                  Back to login
+                </Link>
+              </p>
+            </div>
+          ) : challengeToken ? (
+            <TwoFactorLoginStep
+              challengeToken={challengeToken}
+              onSignedIn={() => router.replace(destination)}
+              onBack={(message) => {
+                setChallengeToken(null)
+                setError(message ?? 'Sign-in cancelled.')
+              }}
+            />
+          ) : (
+            <p className="text-center text-sm text-myth-ink-muted">One moment…</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
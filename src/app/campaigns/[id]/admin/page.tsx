@@ -12,7 +12,15 @@ import { TavernPage } from '@/components/tavern/TavernPage'
 import { TavernHeader } from '@/components/tavern/TavernHeader'
 import { TavernNav } from '@/components/tavern/TavernNav'
 import LoreManagerPanel from '@/components/admin/LoreManagerPanel'
-import { AdminNav, type AdminTabKey } from '@/components/admin/AdminNav'
+import { AdminNav, adminNavGroupsFor, type AdminTabKey } from '@/components/admin/AdminNav'
+import {
+  can,
+  CAMPAIGN_ROLES,
+  CAMPAIGN_ROLE_LABELS,
+  INVITABLE_ROLES,
+  MAX_GUEST_HOURS,
+  type CampaignMemberRole,
+} from '@/lib/api/campaignPermissions'
 import { AdminOverviewPanel } from '@/components/admin/AdminOverviewPanel'
 import { DataAdvancedPanel } from '@/components/admin/DataAdvancedPanel'
 import { PublicChroniclePanel } from '@/components/admin/PublicChroniclePanel'
@@ -28,6 +36,7 @@ import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
 import { HEADER_OFFSET } from '@/components/tavern/headerOffset'
 import { WhatIfControls, type WhatIfField } from '@/components/admin/WhatIfControls'
+import { EntityHistoryTimeline } from '@/components/admin/EntityHistoryTimeline'
 
 // #427: which inputs each preview lets an admin perturb. Mirrors the
 // WhatIfSpec each route declares — a field the route doesn't open would
@@ -155,8 +164,9 @@ interface Clock {
 
 interface Member {
   id: string
-  role: 'ADMIN' | 'PLAYER'
+  role: CampaignMemberRole
   joinedAt: string
+  expiresAt: string | null
   user: {
     id: string
     name: string | null
@@ -193,12 +203,15 @@ export default function AdminPage() {
   const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState<AdminTabKey>(initialTab)
   const [campaign, setCampaign] = useState<Campaign | null>(null)
+  const [userRole, setUserRole] = useState<CampaignMemberRole | null>(null)
   const [npcs, setNpcs] = useState<NPC[]>([])
   const [factions, setFactions] = useState<Faction[]>([])
   const [locations, setLocations] = useState<Location[]>([])
   const [characters, setCharacters] = useState<{ id: string; name: string }[]>([])
   const [clocks, setClocks] = useState<Clock[]>([])
   const [invites, setInvites] = useState<any[]>([])
+  const [inviteRole, setInviteRole] = useState<CampaignMemberRole>('PLAYER')
+  const [inviteGuestHours, setInviteGuestHours] = useState(24)
   const [members, setMembers] = useState<Member[]>([])
   const [simulationSettings, setSimulationSettings] = useState<{
     factionCap: number | null
@@ -206,6 +219,7 @@ export default function AdminPage() {
     worldTurnHours: number | null
     mapGenerationEnabled: boolean
     sceneImageGenerationEnabled: boolean
+    gmReviewEnabled: boolean
     defaultFactionCap: number
     defaultNpcCap: number
     defaultWorldTurnHours: number
@@ -255,6 +269,9 @@ export default function AdminPage() {
   const [locationReasoningLoading, setLocationReasoningLoading] = useState<Record<string, boolean>>({})
   const [clockReasoning, setClockReasoning] = useState<Record<string, any>>({})
   const [clockReasoningLoading, setClockReasoningLoading] = useState<Record<string, boolean>>({})
+  // Per-entity history timelines (worldHistory/), open/closed by entity id
+  // — ids are cuids, so one map serves NPCs, factions and locations.
+  const [historyOpen, setHistoryOpen] = useState<Record<string, boolean>>({})
   const [warsReasoning, setWarsReasoning] = useState<any[] | null>(null)
   const [warsReasoningLoading, setWarsReasoningLoading] = useState(false)
   const [editingNpc, setEditingNpc] = useState<string | null>(null)
@@ -484,11 +501,15 @@ export default function AdminPage() {
       }
       const campData = await campResponse.json()
 
-      // Check if user is an admin
-      if (campData.userRole !== 'ADMIN') {
+      // The admin page is for whoever runs the campaign — the admin and any
+      // co-hosts. Tabs a co-host can't use are dropped from the nav below.
+      if (!can(campData.userRole, 'scenes.run')) {
         router.push(`/campaigns/${campaignId}`)
         return
       }
+      setUserRole(campData.userRole)
+      const visibleTabs = adminNavGroupsFor(campData.userRole).flatMap((g) => g.items.map((i) => i.key))
+      setActiveTab((tab) => (visibleTabs.includes(tab) ? tab : 'overview'))
 
       setCampaign(campData.campaign)
       setLastCampaignId(campaignId)
@@ -637,6 +658,7 @@ export default function AdminPage() {
           worldTurnHours: simulationSettings.worldTurnHours,
           mapGenerationEnabled: simulationSettings.mapGenerationEnabled,
           sceneImageGenerationEnabled: simulationSettings.sceneImageGenerationEnabled,
+          gmReviewEnabled: simulationSettings.gmReviewEnabled,
         }),
       })
 
@@ -901,16 +923,21 @@ export default function AdminPage() {
       const response = await authenticatedFetch(`/api/campaigns/${campaignId}/invites`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
+        body: JSON.stringify(
+          inviteRole === 'GUEST' ? { role: inviteRole, guestHours: inviteGuestHours } : { role: inviteRole }
+        ),
       })
 
-      if (!response.ok) throw new Error('Failed to create invite')
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to create invite')
+      }
 
       const data = await response.json()
       alert(`Invite created! Share this link: ${data.joinUrl}`)
       await fetchData()
     } catch (err) {
-      setError('Failed to create invite')
+      setError(err instanceof Error ? err.message : 'Failed to create invite')
     }
   }
 
@@ -938,13 +965,20 @@ export default function AdminPage() {
     }
   }
 
-  const handleChangeRole = async (userId: string, newRole: 'ADMIN' | 'PLAYER') => {
+  const handleChangeRole = async (userId: string, newRole: CampaignMemberRole) => {
+    let guestHours: number | undefined
+    if (newRole === 'GUEST') {
+      const answer = prompt(`Guest access for how many hours? (1–${MAX_GUEST_HOURS})`, '24')
+      if (answer === null) return
+      guestHours = Number(answer)
+    }
+
     setSaving(true)
     try {
       const response = await authenticatedFetch(`/api/campaigns/${campaignId}/members/${userId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ role: newRole }),
+        body: JSON.stringify(guestHours === undefined ? { role: newRole } : { role: newRole, guestHours }),
       })
 
       if (!response.ok) {
@@ -1142,7 +1176,7 @@ export default function AdminPage() {
         )}
 
         <div className="flex flex-col gap-8 md:flex-row">
-          <AdminNav activeKey={activeTab} onSelect={setActiveTab} />
+          <AdminNav activeKey={activeTab} onSelect={setActiveTab} role={userRole} />
 
           <div className="min-w-0 flex-1">
             {/* Overview Tab */}
@@ -1428,6 +1462,30 @@ export default function AdminPage() {
                       </label>
                     </div>
 
+                    <div className="mt-4 rounded-md border border-myth-border bg-myth-surface/50 p-3">
+                      <label className="flex items-start gap-3 cursor-pointer">
+                        <Checkbox
+                          wrapperClassName="mt-1 h-4 w-4"
+                          checked={simulationSettings.gmReviewEnabled}
+                          onChange={(e) =>
+                            setSimulationSettings({
+                              ...simulationSettings,
+                              gmReviewEnabled: e.target.checked,
+                            })
+                          }
+                        />
+                        <span>
+                          <span className="block text-sm font-medium text-myth-ink">GM co-pilot review</span>
+                          <span className="block text-xs text-myth-ink-faint mt-1">
+                            Off by default. When on, each resolution waits for an admin before the table sees it:
+                            edit the narration, accept or reject each proposed change, or re-roll the narration
+                            (the dice stay as rolled). Players wait until you publish, so only turn this on if an
+                            admin will be watching the story page.
+                          </span>
+                        </span>
+                      </label>
+                    </div>
+
                     <div className="mt-4">
                       <label className="block text-sm font-medium text-myth-ink-muted mb-1">
                         World advances every N in-game hours (default {simulationSettings.defaultWorldTurnHours})
@@ -1712,6 +1770,12 @@ export default function AdminPage() {
                             >
                               {npcReasoningLoading[npc.id] ? 'Thinking…' : 'Why?'}
                             </Button>
+                            <Button
+                              variant="secondary" size="sm"
+                              onClick={() => setHistoryOpen(prev => ({ ...prev, [npc.id]: !prev[npc.id] }))}
+                            >
+                              {historyOpen[npc.id] ? 'Hide History' : 'History'}
+                            </Button>
                             <Button
                               variant="secondary" size="sm"
                               onClick={() => setEditingNpc(npc.id)}
@@ -1720,6 +1784,9 @@ export default function AdminPage() {
                             </Button>
                           </div>
                         </div>
+                        {historyOpen[npc.id] && (
+                          <EntityHistoryTimeline campaignId={campaignId} kind="npc" entityId={npc.id} />
+                        )}
                         {npcReasoning[npc.id] && (
                           <div className="mt-3 rounded-md border border-myth-border bg-myth-surface-sunken p-3 text-sm">
                             <p className="font-medium text-myth-ink">Next tick: {npcReasoning[npc.id].decision.currentPlan}</p>
@@ -2063,6 +2130,12 @@ export default function AdminPage() {
                             >
                               {factionReasoningLoading[faction.id] ? 'Thinking…' : 'Why?'}
                             </Button>
+                            <Button
+                              variant="secondary" size="sm"
+                              onClick={() => setHistoryOpen(prev => ({ ...prev, [faction.id]: !prev[faction.id] }))}
+                            >
+                              {historyOpen[faction.id] ? 'Hide History' : 'History'}
+                            </Button>
                             <Button
                               variant="secondary" size="sm"
                               onClick={() => setEditingFaction(faction.id)}
@@ -2071,6 +2144,9 @@ export default function AdminPage() {
                             </Button>
                           </div>
                         </div>
+                        {historyOpen[faction.id] && (
+                          <EntityHistoryTimeline campaignId={campaignId} kind="faction" entityId={faction.id} />
+                        )}
                         {factionReasoning[faction.id] && (
                           <div className="mt-3 rounded-md border border-myth-border bg-myth-surface-sunken p-3 text-sm">
                             <p className="font-medium text-myth-ink">
@@ -2368,6 +2444,12 @@ export default function AdminPage() {
                             >
                               {locationReasoningLoading[location.id] ? 'Thinking…' : 'Why?'}
                             </Button>
+                            <Button
+                              variant="secondary" size="sm"
+                              onClick={() => setHistoryOpen(prev => ({ ...prev, [location.id]: !prev[location.id] }))}
+                            >
+                              {historyOpen[location.id] ? 'Hide History' : 'History'}
+                            </Button>
                             <Button
                               variant="secondary" size="sm"
                               onClick={() => setEditingLocation(location.id)}
@@ -2376,6 +2458,9 @@ export default function AdminPage() {
                             </Button>
                           </div>
                         </div>
+                        {historyOpen[location.id] && (
+                          <EntityHistoryTimeline campaignId={campaignId} kind="location" entityId={location.id} />
+                        )}
                         {locationReasoning[location.id] && (
                           <div className="mt-3 rounded-md border border-myth-border bg-myth-surface-sunken p-3 text-sm">
                             <p className="font-medium text-myth-ink">
@@ -2731,12 +2816,42 @@ export default function AdminPage() {
                   title="Invites"
                   description="Shareable join links for this campaign — set a use limit (or leave it unlimited) and share the link with whoever you want at the table."
                 />
-                <Button
-                  variant="primary"
-                  onClick={handleCreateInvite}
-                >
-                  Create New Invite
-                </Button>
+                <div className="flex flex-wrap items-end gap-3">
+                  <label className="text-sm text-myth-ink-muted">
+                    Joins as
+                    <Select
+                      className="mt-1"
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as CampaignMemberRole)}
+                    >
+                      {INVITABLE_ROLES.map((role) => (
+                        <option key={role} value={role}>{CAMPAIGN_ROLE_LABELS[role]}</option>
+                      ))}
+                    </Select>
+                  </label>
+                  {inviteRole === 'GUEST' && (
+                    <label className="text-sm text-myth-ink-muted">
+                      Guest access (hours)
+                      <Input
+                        type="number"
+                        className="mt-1 w-28"
+                        min={1}
+                        max={MAX_GUEST_HOURS}
+                        value={inviteGuestHours}
+                        onChange={(e) => setInviteGuestHours(Number(e.target.value))}
+                      />
+                    </label>
+                  )}
+                  <Button
+                    variant="primary"
+                    onClick={handleCreateInvite}
+                  >
+                    Create New Invite
+                  </Button>
+                </div>
+                <p className="text-xs text-myth-ink-faint">
+                  Spectators follow the story without acting or seeing whispers. Guests play like anyone else until their access runs out.
+                </p>
 
                 <div className="space-y-2">
                   {invites.map((invite) => (
@@ -2745,6 +2860,8 @@ export default function AdminPage() {
                         <div>
                           <p className="text-sm font-mono">{invite.joinUrl}</p>
                           <p className="text-xs text-myth-ink-faint">
+                            {CAMPAIGN_ROLE_LABELS[invite.role as CampaignMemberRole] ?? 'Player'}
+                            {invite.role === 'GUEST' && invite.guestHours ? ` (${invite.guestHours}h)` : ''} •{' '}
                             Uses: {invite.uses}/{invite.maxUses === 0 ? '∞' : invite.maxUses}
                             {invite.isExpired && ' (Expired)'}
                             {invite.isExhausted && ' (Exhausted)'}
@@ -2771,7 +2888,7 @@ export default function AdminPage() {
               <div className="space-y-4">
                 <SectionHeader
                   title="Members"
-                  description="Everyone in this campaign. There is no human GM here — every member is a player, including whoever holds the admin role; admin controls campaign settings and moderation, not narration."
+                  description="Everyone in this campaign. There is no human GM here — admins and co-hosts run scenes, the world and safety tools, not narration; only the admin manages billing, roles and deletion. Spectators follow along without acting; guests play until their access runs out."
                 />
                 <div className="text-sm text-myth-ink-muted mb-4">
                   Total Members: {members.length}
@@ -2787,28 +2904,30 @@ export default function AdminPage() {
                               {member.user.name || member.user.email}
                             </h3>
                             <span className={`px-2 py-1 rounded text-xs font-medium ${
-                              member.role === 'ADMIN'
+                              can(member.role, 'scenes.run')
                                 ? 'bg-myth-accent/10 text-myth-accent'
                                 : 'bg-myth-ink/5 text-myth-ink-muted'
                             }`}>
-                              {member.role}
+                              {CAMPAIGN_ROLE_LABELS[member.role]}
                             </span>
                           </div>
                           <p className="text-sm text-myth-ink-muted">{member.user.email}</p>
                           <p className="text-xs text-myth-ink-faint mt-1">
                             Joined: {new Date(member.joinedAt).toLocaleDateString()} •
                             Characters: {member._count.characters}
+                            {member.expiresAt && ` • Guest access ends ${new Date(member.expiresAt).toLocaleString()}`}
                           </p>
                         </div>
                         <div className="flex gap-2">
                           <Select
                             className="disabled:opacity-50"
                             value={member.role}
-                            onChange={(e) => handleChangeRole(member.user.id, e.target.value as 'ADMIN' | 'PLAYER')}
+                            onChange={(e) => handleChangeRole(member.user.id, e.target.value as CampaignMemberRole)}
                             disabled={saving}
                           >
-                            <option value="PLAYER">Player</option>
-                            <option value="ADMIN">Admin</option>
+                            {CAMPAIGN_ROLES.map((role) => (
+                              <option key={role} value={role}>{CAMPAIGN_ROLE_LABELS[role]}</option>
+                            ))}
                           </Select>
                           <Button
                             variant="danger" size="sm"
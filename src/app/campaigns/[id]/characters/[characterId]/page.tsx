@@ -12,6 +12,7 @@ import { TavernHeader } from '@/components/tavern/TavernHeader'
 import { TavernNav } from '@/components/tavern/TavernNav'
 import { SubNavTabs } from '@/components/ui/SubNavTabs'
 import { HEADER_OFFSET_SUBROW } from '@/components/tavern/headerOffset'
+import { can } from '@/lib/api/campaignPermissions'
 
 export default function CharacterPage() {
   const router = useRouter()
@@ -185,7 +186,7 @@ export default function CharacterPage() {
         backHref={`/campaigns/${campaignId}`}
         title={character.name}
         campaignId={campaignId}
-        isAdmin={campaign?.userRole === 'ADMIN'}
+        isAdmin={can(campaign?.userRole, 'scenes.run')}
         subrow={
           <nav className="max-w-6xl mx-auto px-4 flex items-center gap-2 text-sm border-t border-myth-border pt-2 pb-0">
             <SubNavTabs
@@ -213,6 +214,24 @@ export default function CharacterPage() {
           onAdvanceDowntimeTime={handleAdvanceDowntimeTime}
           onRespondToDowntimeEvent={handleRespondToDowntimeEvent}
         />
+
+        {character.isAlive !== false && character.ledFactions?.length > 0 && (
+          <div className="mt-6 rounded-lg border border-myth-border bg-myth-surface p-4">
+            <h3 className="mb-2 font-semibold text-myth-ink">Leads</h3>
+            <ul className="space-y-1 text-sm">
+              {character.ledFactions.map((f: { id: string; name: string }) => (
+                <li key={f.id}>
+                  <Link
+                    href={`/campaigns/${campaignId}/world/factions/${f.id}`}
+                    className="text-myth-accent hover:text-myth-accent-hover"
+                  >
+                    {f.name} — orders
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </main>
 
       <TavernNav campaignId={campaignId} />
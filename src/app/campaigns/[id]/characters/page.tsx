@@ -11,6 +11,7 @@ import { TavernNav } from '@/components/tavern/TavernNav'
 import { SubNavTabs } from '@/components/ui/SubNavTabs'
 import { EmptyState } from '@/components/ui/empty-state'
 import { HEADER_OFFSET_SUBROW } from '@/components/tavern/headerOffset'
+import { can, type CampaignMemberRole } from '@/lib/api/campaignPermissions'
 
 export default function CharactersListPage() {
   const router = useRouter()
@@ -19,7 +20,7 @@ export default function CharactersListPage() {
 
   const [characters, setCharacters] = useState<any[]>([])
   const [campaign, setCampaign] = useState<any>(null)
-  const [userRole, setUserRole] = useState<'ADMIN' | 'PLAYER' | null>(null)
+  const [userRole, setUserRole] = useState<CampaignMemberRole | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
 
@@ -92,7 +93,7 @@ export default function CharactersListPage() {
         backHref={`/campaigns/${campaignId}`}
         title="Characters"
         campaignId={campaignId}
-        isAdmin={userRole === 'ADMIN'}
+        isAdmin={can(userRole, 'scenes.run')}
         subrow={
           <nav className="max-w-6xl mx-auto px-4 flex items-center gap-2 text-sm border-t border-myth-border pt-2 pb-0">
             <SubNavTabs
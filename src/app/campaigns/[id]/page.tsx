@@ -35,10 +35,11 @@ import { Tabs } from '@/components/ui/tabs'
 import { Timeline, TimelineItem } from '@/components/ui/timeline'
 import { QuickAccess } from '@/components/campaigns/lobby/QuickAccess'
 import { HEADER_OFFSET_SUBROW } from '@/components/tavern/headerOffset'
+import { can, type CampaignMemberRole } from '@/lib/api/campaignPermissions'
 
 interface CampaignData {
   campaign: any
-  userRole: 'ADMIN' | 'PLAYER'
+  userRole: CampaignMemberRole
 }
 
 const VALID_TABS = ['overview', 'chat', 'notes', 'maps', 'progression'] as const
@@ -328,6 +329,8 @@ export default function CampaignLobbyPage() {
   }
 
   const { campaign, userRole } = data
+  // Spectators follow along: no character, no chat input.
+  const canPlay = can(userRole, 'play.act')
   const currentUser = getUser()
   const userCharacters = campaign.characters.filter(
     (c: any) => c.userId === currentUser?.id
@@ -340,7 +343,7 @@ export default function CampaignLobbyPage() {
         backHref="/campaigns"
         title={campaign.title}
         campaignId={campaignId}
-        isAdmin={userRole === 'ADMIN'}
+        isAdmin={can(userRole, 'scenes.run')}
         minimalHeaderAtDesktop
         subrow={
           // lg:hidden — TavernSidebar already lists all five of these as
@@ -390,9 +393,9 @@ export default function CampaignLobbyPage() {
           inGameDate={campaign.worldMeta?.currentInGameDate || 'Day 1'}
           heroImageUrl={campaign.heroImageStatus === 'READY' ? campaign.heroImageUrl : null}
           heroImageStatus={campaign.heroImageStatus}
-          isAdmin={userRole === 'ADMIN'}
+          isAdmin={can(userRole, 'world.edit')}
           hasCharacter={userCharacters.length > 0}
-          onCreateCharacter={() => setShowCreateCharacter(true)}
+          onCreateCharacter={canPlay ? () => setShowCreateCharacter(true) : undefined}
         />
 
       {/* Overview Tab.
@@ -500,7 +503,7 @@ export default function CampaignLobbyPage() {
               currentUserId={currentUser?.id}
               campaignId={campaignId}
               activePlayerCount={campaign.memberships.length}
-              onCreateCharacter={() => setShowCreateCharacter(true)}
+              onCreateCharacter={canPlay ? () => setShowCreateCharacter(true) : undefined}
               onDeleteCharacter={(characterId) => setDeletingCharacterId(characterId)}
             />
           </div>
@@ -511,7 +514,7 @@ export default function CampaignLobbyPage() {
               blockedUserIds={blockedUserIds}
               blockingUserId={blockingUserId}
               onToggleBlock={toggleBlock}
-              isAdmin={userRole === 'ADMIN'}
+              isAdmin={can(userRole, 'members.invite')}
               onInvite={() => setShowInviteModal(true)}
             />
           </div>
@@ -530,7 +533,7 @@ export default function CampaignLobbyPage() {
             title="Campaign Story Log"
             description="A chronicle of your adventure, updated after each scene"
             action={
-              userRole === 'ADMIN' && campaignLogs.length > 0 ? (
+              can(userRole, 'scenes.run') && campaignLogs.length > 0 ? (
                 <div className="flex flex-col items-end gap-1">
                   <Button
                     variant="secondary" size="sm"
@@ -679,6 +682,7 @@ export default function CampaignLobbyPage() {
             currentUserName={getUser()?.email || 'Unknown'}
             userCharacters={data.campaign.characters}
             sceneId={''}
+            readOnly={!canPlay}
           />
         </div>
       )}
@@ -827,7 +831,7 @@ export default function CampaignLobbyPage() {
                         </div>
                       </div>
                       <div className="flex gap-2">
-                        {userRole === 'ADMIN' && !map.isActive && (
+                        {can(userRole, 'world.edit') && !map.isActive && (
                           <Button
                             variant="secondary" size="sm"
                             onClick={async () => {
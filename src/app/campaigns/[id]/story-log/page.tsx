@@ -16,6 +16,7 @@ import { Button } from '@/components/ui/button'
 import { IconButton } from '@/components/ui/icon-button'
 import { UI_ICONS } from '@/lib/ui/icons'
 import { HEADER_OFFSET } from '@/components/tavern/headerOffset'
+import { can } from '@/lib/api/campaignPermissions'
 
 interface CampaignLogEntry {
   id: string
@@ -80,7 +81,7 @@ export default function StoryLogPage() {
   const [dayDetailLoading, setDayDetailLoading] = useState(false)
   const [showPreCalendar, setShowPreCalendar] = useState(false)
 
-  const isAdmin = campaign?.userRole === 'ADMIN'
+  const isAdmin = can(campaign?.userRole, 'scenes.run')
 
   useEffect(() => {
     if (!isAuthenticated()) {
@@ -14,9 +14,10 @@ import type { MapData } from '@/lib/maps/map-service'
 import AILoadingState from '@/components/scene/AILoadingState'
 import SceneMoodTag, { detectSceneMood } from '@/components/scene/SceneMoodTag'
 import AITransparencyPanel, { type WorldStateChange } from '@/components/scene/AITransparencyPanel'
-import { extractWorldStateChanges, extractOutcomeAdherence, extractMoveVariety } from '@/lib/game/worldStateChanges'
+import { extractWorldStateChanges, extractOutcomeAdherence, extractMoveVariety, extractRetrievalTrace } from '@/lib/game/worldStateChanges'
 import type { AdherenceResult } from '@/lib/game/outcomeAdherence'
 import type { MoveVarietyResult } from '@/lib/game/moveVariety'
+import type { RetrievalTrace } from '@/lib/ai/hybridRetrieval'
 import CharacterSnapshotModal from '@/components/character/CharacterSnapshotModal'
 import { useCommandPalette } from '@/contexts/CommandPaletteContext'
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts'
@@ -29,6 +30,8 @@ import { MapViewerPanel } from '@/components/scene/MapViewerPanel'
 import { SceneChatPanel } from '@/components/scene/SceneChatPanel'
 import { ActiveClocksPanel } from '@/components/scene/ActiveClocksPanel'
 import { RecentTimelinePanel } from '@/components/scene/RecentTimelinePanel'
+import { ResolutionReviewPanel } from '@/components/scene/ResolutionReviewPanel'
+import { StreamingNarration, applyNarrationChunk, type StreamedNarration } from '@/components/scene/StreamingNarration'
 import { BookOpen, Bookmark, ChevronRight, Clock, Eye, Home, Hourglass, Keyboard, Loader, Lock, Map as MapIcon, MessageSquare, Pause, Scroll, Search, Settings as SettingsIcon, StickyNote, X } from 'lucide-react'
 import { TavernPage } from '@/components/tavern/TavernPage'
 import { TavernHeader } from '@/components/tavern/TavernHeader'
@@ -46,6 +49,7 @@ import { Timeline, TimelineItem } from '@/components/ui/timeline'
 import { UI_ICONS } from '@/lib/ui/icons'
 import { HEADER_OFFSET_SUBROW } from '@/components/tavern/headerOffset'
 import { TOUCH_HEIGHT } from '@/components/ui/styles'
+import { can } from '@/lib/api/campaignPermissions'
 
 // Whether `characterId` may act in `scene` — participants is null for a
 // genuinely open scene (anyone can act; membership grows dynamically as
@@ -153,6 +157,7 @@ export default function StoryPage() {
   const [imageGenError, setImageGenError] = useState<Record<string, string>>({})
   const [sceneOutcomeAdherence, setSceneOutcomeAdherence] = useState<Record<string, AdherenceResult>>({})
   const [sceneMoveVariety, setSceneMoveVariety] = useState<Record<string, MoveVarietyResult>>({})
+  const [sceneRetrieval, setSceneRetrieval] = useState<Record<string, RetrievalTrace>>({})
   const [expandedTransparency, setExpandedTransparency] = useState<Record<string, boolean>>({})
   const [startingScene, setStartingScene] = useState(false)
   const [endingScene, setEndingScene] = useState(false)
@@ -179,9 +184,19 @@ export default function StoryPage() {
   const [addFundsLoading, setAddFundsLoading] = useState(false)
   const [addFundsError, setAddFundsError] = useState('')
   const [resolvingMessage, setResolvingMessage] = useState('')
+  // Bumped on scene:review-ready so an admin's review panel fetches the
+  // fresh draft (GM co-pilot mode — see ResolutionReviewPanel).
+  const [reviewRefreshKey, setReviewRefreshKey] = useState(0)
+  // The narration of the resolution in flight, as scene:narration streams
+  // it in. Dropped whenever the resolution ends, one way or another.
+  const [streamedNarration, setStreamedNarration] = useState<StreamedNarration | null>(null)
 
   const user = getUser()
-  const isAdmin = campaign?.userRole === 'ADMIN'
+  // "Admin" here means whoever runs the scenes — the admin or a co-host.
+  const isAdmin = can(campaign?.userRole, 'scenes.run')
+  // Spectators read along; a member moved to spectator keeps their
+  // characters but can no longer act with them.
+  const canPlay = can(campaign?.userRole, 'play.act')
 
   // The scene(s) the viewer's selected character can actually act in.
   // Picking activeScenes[0] unconditionally (the old behavior) broke down
@@ -279,6 +294,7 @@ export default function StoryPage() {
       const changesMap: Record<string, WorldStateChange[]> = {}
       const adherenceMap: Record<string, AdherenceResult> = {}
       const moveVarietyMap: Record<string, MoveVarietyResult> = {}
+      const retrievalMap: Record<string, RetrievalTrace> = {}
       for (const scene of sceneData.scenes || []) {
         // Shape lives in one place (world-state-tracker) rather than being
         // hand-read out of an untyped Json blob here.
@@ -294,10 +310,15 @@ export default function StoryPage() {
         if (moveVariety) {
           moveVarietyMap[scene.id] = moveVariety
         }
+        const retrieval = extractRetrievalTrace(scene.consequences)
+        if (retrieval) {
+          retrievalMap[scene.id] = retrieval
+        }
       }
       setSceneWorldStateChanges(changesMap)
       setSceneOutcomeAdherence(adherenceMap)
       setSceneMoveVariety(moveVarietyMap)
+      setSceneRetrieval(retrievalMap)
 
       // Get user's characters
       const userChars = campData.campaign?.characters?.filter(
@@ -433,15 +454,23 @@ export default function StoryPage() {
     channel.bind('scene:resolving', (data: any) => {
       console.log('Scene resolving:', data)
       setResolvingMessage(data.message || 'MythOS is processing your actions...')
+      setStreamedNarration(null)
       setError('') // Clear any previous errors
       // Refresh to show RESOLVING status
       loadData()
     })
 
+    // The narration so far, while the AI GM is still writing it — shown
+    // in place of the spinner until scene:resolved brings the real thing.
+    channel.bind('scene:narration', (data: any) => {
+      setStreamedNarration(current => applyNarrationChunk(current, data))
+    })
+
     // Listen for scene resolutions
     channel.bind('scene:resolved', (data: any) => {
       console.log('Scene resolved:', data)
       setResolvingMessage('') // Clear resolving message
+      setStreamedNarration(null)
       setSuccess('')
       // Refresh data so scene resolution appears
       loadData()
@@ -451,6 +480,7 @@ export default function StoryPage() {
     channel.bind('scene:resolution-failed', (data: any) => {
       console.error('Scene resolution failed:', data)
       setResolvingMessage('') // Clear resolving message
+      setStreamedNarration(null)
       const isTimeout = data.error?.includes('timeout') || data.errorType === 'TimeoutError'
       const message = isTimeout
         ? `MythOS took too long to respond. This can happen during high load. The scene is ready to try again.`
@@ -459,6 +489,21 @@ export default function StoryPage() {
       loadData()
     })
 
+    // GM co-pilot mode: the narration is in but held for an admin. The
+    // scene stays RESOLVING; only the message changes for the table.
+    channel.bind('scene:review-ready', (data: any) => {
+      console.log('Resolution ready for GM review:', data)
+      setResolvingMessage('The GM is reviewing this resolution before it is shared...')
+      setReviewRefreshKey(key => key + 1)
+      loadData()
+    })
+
+    channel.bind('scene:review-discarded', (data: any) => {
+      console.log('Resolution discarded in GM review:', data)
+      setResolvingMessage('')
+      loadData()
+    })
+
     // Listen for a completed scene illustration (#96) — arrives well after
     // scene:resolved since it runs in its own worker invocation; patches
     // the image in directly rather than a full loadData() refetch, since
@@ -475,6 +520,7 @@ export default function StoryPage() {
     // Listen for scene resets
     channel.bind('scene:reset', (data: any) => {
       console.log('Scene reset:', data)
+      setStreamedNarration(null)
       loadData()
     })
 
@@ -520,6 +566,21 @@ export default function StoryPage() {
       }
     })
 
+    // Tactical mode: a token moved on the board. The payload is the
+    // snapped position itself, so no refetch — just move it.
+    channel.bind('map:token-moved', (data: any) => {
+      setActiveMap(prev => prev && prev.id === data.mapId
+        ? { ...prev, tokens: prev.tokens.map(t => t.id === data.tokenId ? { ...t, x: data.x, y: data.y } : t) }
+        : prev)
+    })
+
+    // Tactical mode switched on or off — the scene's flag and, when the
+    // party was just placed, the map itself both need reloading.
+    channel.bind('scene:tactical', (data: any) => {
+      console.log('Tactical mode changed:', data)
+      loadData()
+    })
+
     // NOTE (#412): the ai-character-moved / ai-element-added /
     // ai-element-removed listeners lived here, each triggering a full
     // loadData(). Nothing ever published them — AIVisualService's
@@ -537,6 +598,7 @@ export default function StoryPage() {
     channel.bind('scene:paused', (data: any) => {
       console.log('Scene paused for a safety check-in:', data)
       setResolvingMessage('')
+      setStreamedNarration(null)
       setError('')
       loadData()
     })
@@ -879,7 +941,10 @@ export default function StoryPage() {
         throw new Error(data.error || 'Failed to end scene')
       }
 
-      setSuccess('Scene ended!')
+      const data = await response.json()
+      // 202: the final resolution is held for GM review; publishing it
+      // ends the scene.
+      setSuccess(data.pendingReview ? 'The final resolution is waiting on GM review.' : 'Scene ended!')
       await loadData()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to end scene')
@@ -1277,9 +1342,24 @@ export default function StoryPage() {
                       </div>
                     )}
 
-                    {scene.status === 'RESOLVING' && (
-                      <AILoadingState type="resolution" />
-                    )}
+                    {scene.status === 'RESOLVING' && (() => {
+                      const streamed = streamedNarration && streamedNarration.sceneId === scene.id ? streamedNarration.text : ''
+                      const inFlight = streamed
+                        ? <StreamingNarration text={streamed} />
+                        : <AILoadingState type="resolution" />
+                      return isAdmin ? (
+                        <ResolutionReviewPanel
+                          campaignId={campaignId}
+                          sceneId={scene.id}
+                          refreshKey={reviewRefreshKey}
+                          fallback={inFlight}
+                          onSettled={() => {
+                            setResolvingMessage('')
+                            loadData()
+                          }}
+                        />
+                      ) : inFlight
+                    })()}
 
                     {/* Show intro text only if no resolutions exist yet */}
                     {!scene.sceneResolutionText && (
@@ -1405,6 +1485,7 @@ export default function StoryPage() {
                               changes={sceneWorldStateChanges[scene.id]}
                               adherence={sceneOutcomeAdherence[scene.id]}
                               moveVariety={sceneMoveVariety[scene.id]}
+                              retrieval={sceneRetrieval[scene.id]}
                               sceneNumber={scene.sceneNumber}
                               isOpen={expandedTransparency[scene.id] !== false}
                               onClose={() => setExpandedTransparency(prev => ({ ...prev, [scene.id]: false }))}
@@ -1457,7 +1538,7 @@ export default function StoryPage() {
                       "take your turn"). */}
                   {/* #406: one predicate rather than each caller re-deriving the
                       combination of status and isPaused — see lib/game/sceneLifecycle.ts */}
-                  {acceptsPlayerActions(scene) && !userHasSubmitted && selectedCharacterId && (
+                  {acceptsPlayerActions(scene) && !userHasSubmitted && selectedCharacterId && canPlay && (
                     <div className="rounded-lg border border-myth-border bg-myth-surface p-5">
                       <div className="flex items-center justify-between gap-3 mb-4">
                         <h3 className="font-display text-lg font-semibold text-myth-ink">Your Action</h3>
@@ -1921,6 +2002,15 @@ export default function StoryPage() {
           <MapViewerPanel
             activeMap={activeMap}
             characterName={selectedCharacter?.name || ''}
+            campaignId={campaignId}
+            scene={currentScene}
+            ownCharacterIds={canPlay ? userCharacters.map((c: any) => c.id) : []}
+            isAdmin={isAdmin}
+            onTokenMoved={(tokenId, x, y) => setActiveMap(prev => prev && {
+              ...prev,
+              tokens: prev.tokens.map(t => t.id === tokenId ? { ...t, x, y } : t)
+            })}
+            onTacticalChanged={loadData}
           />
 
           <SceneChatPanel
@@ -1928,6 +2018,7 @@ export default function StoryPage() {
             user={user}
             campaignId={campaignId}
             userCharacters={userCharacters}
+            readOnly={!canPlay}
           />
 
           <ActiveClocksPanel clocks={campaign?.campaign?.clocks} campaignId={campaignId} />
@@ -0,0 +1,41 @@
+// src/app/campaigns/[id]/world/atlas/page.tsx
+//
+// The world atlas: the World browser's places, drawn as a map of who holds
+// what. A sibling of /world rather than one of its tabs — EntityBrowser
+// lists entities, and this is one picture of all of them.
+
+'use client'
+
+import { useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { isAuthenticated, setLastCampaignId } from '@/lib/clientAuth'
+import { TavernPage } from '@/components/tavern/TavernPage'
+import { TavernHeader } from '@/components/tavern/TavernHeader'
+import { HEADER_OFFSET } from '@/components/tavern/headerOffset'
+import { WorldAtlas } from '@/components/maps/WorldAtlas'
+
+export default function AtlasPage() {
+  const params = useParams()
+  const router = useRouter()
+  const campaignId = params?.id as string
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push('/login')
+      return
+    }
+    if (campaignId) setLastCampaignId(campaignId)
+  }, [campaignId, router])
+
+  return (
+    <TavernPage>
+      <TavernHeader backHref={`/campaigns/${campaignId}/world`} title="Atlas" campaignId={campaignId} />
+      <main className={`max-w-6xl mx-auto px-4 ${HEADER_OFFSET} pb-28`}>
+        <p className="mb-6 text-sm text-myth-ink-faint">
+          Where everything is, and who holds it now.
+        </p>
+        <WorldAtlas campaignId={campaignId} />
+      </main>
+    </TavernPage>
+  )
+}
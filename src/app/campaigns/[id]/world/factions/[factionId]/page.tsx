@@ -0,0 +1,39 @@
+// src/app/campaigns/[id]/world/factions/[factionId]/page.tsx
+//
+// The faction orders screen: where a PC who leads a faction tells it what
+// to do next turn (see lib/game/factionOrders/). Reached from the leader's
+// character sheet; a GM can open it too, read-only.
+
+'use client'
+
+import { useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { isAuthenticated, setLastCampaignId } from '@/lib/clientAuth'
+import { TavernPage } from '@/components/tavern/TavernPage'
+import { TavernHeader } from '@/components/tavern/TavernHeader'
+import { HEADER_OFFSET } from '@/components/tavern/headerOffset'
+import { FactionOrdersPanel } from '@/components/factions/FactionOrdersPanel'
+
+export default function FactionOrdersPage() {
+  const params = useParams()
+  const router = useRouter()
+  const campaignId = params?.id as string
+  const factionId = params?.factionId as string
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push('/login')
+      return
+    }
+    if (campaignId) setLastCampaignId(campaignId)
+  }, [campaignId, router])
+
+  return (
+    <TavernPage>
+      <TavernHeader backHref={`/campaigns/${campaignId}/world?type=FACTION`} title="Faction orders" campaignId={campaignId} />
+      <main className={`max-w-4xl mx-auto px-4 ${HEADER_OFFSET} pb-28`}>
+        <FactionOrdersPanel campaignId={campaignId} factionId={factionId} />
+      </main>
+    </TavernPage>
+  )
+}
@@ -26,18 +26,23 @@ import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog'
 import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
 import { IconButton } from '@/components/ui/icon-button'
+import { Select } from '@/components/ui/select'
+import { DEFAULT_MOVE_SET_ID, MOVE_SETS, getMoveSet } from '@/lib/moveSets'
 import { HEADER_OFFSET } from '@/components/tavern/headerOffset'
+import type { CampaignMemberRole } from '@/lib/api/campaignPermissions'
 
 interface Campaign {
   id: string
   title: string
   description: string
   universe: string
-  userRole: 'ADMIN' | 'PLAYER'
+  userRole: CampaignMemberRole
   updatedAt: string
   createdAt: string
   heroImageUrl: string | null
   heroImageStatus: string | null
+  forkedFrom: { id: string; title: string } | null
+  forkPoint: string | null
   _count: {
     characters: number
     scenes: number
@@ -191,6 +196,8 @@ export default function CampaignsPage() {
                   heroImageStatus={campaign.heroImageStatus}
                   playerCount={campaign._count.memberships}
                   sessionCount={campaign._count.scenes}
+                  forkedFrom={campaign.forkedFrom}
+                  forkPoint={campaign.forkPoint}
                   deleting={deletingCampaignId === campaign.id}
                   onEnter={() => router.push(`/campaigns/${campaign.id}`)}
                   onEdit={() => router.push(`/campaigns/${campaign.id}/admin?tab=settings`)}
@@ -274,6 +281,7 @@ function CreateCampaignModal({
     aiSystemPrompt: '',
     initialWorldSeed: ''
   })
+  const [moveSetId, setMoveSetId] = useState(DEFAULT_MOVE_SET_ID)
   const [loreUrl, setLoreUrl] = useState('')
   const [loreCrawlWiki, setLoreCrawlWiki] = useState(true)
   const [showAdvanced, setShowAdvanced] = useState(false)
@@ -303,7 +311,8 @@ function CreateCampaignModal({
     try {
       const payload: any = {
         title: formData.title,
-        description: formData.description
+        description: formData.description,
+        moveSetId
       }
 
       if (selectedTemplate) {
@@ -469,6 +478,19 @@ function CreateCampaignModal({
                 />
               </div>
 
+              {/* Move set — fixed at creation, since per-campaign move
+                  flavor is generated against the chosen set's moves. */}
+              <Select
+                label="How it plays"
+                value={moveSetId}
+                onChange={(e) => setMoveSetId(e.target.value)}
+                hint={getMoveSet(moveSetId)?.summary}
+              >
+                {MOVE_SETS.map(set => (
+                  <option key={set.id} value={set.id}>{set.name}</option>
+                ))}
+              </Select>
+
               {/* Canon lore — imported in the background after creation;
                   when it finishes, the world's factions/systems are rebuilt
                   from canon automatically (see reseedWorld.ts). */}
@@ -22,9 +22,10 @@ import { HEADER_OFFSET } from '@/components/tavern/headerOffset'
 import { authenticatedFetch, getLastCampaignId, isAuthenticated } from '@/lib/clientAuth'
 import { getMechanic } from '@/lib/tutorial/content/mechanics'
 import { formatNameList, readStatLabels } from '@/lib/tutorial/content/labels'
+import { getMoveSet, type MoveSet } from '@/lib/moveSets'
 
 /** Mechanics whose copy is improved by knowing the campaign's own names. */
-const LABEL_AWARE = new Set(['character-sheet', 'origins', 'actions'])
+const LABEL_AWARE = new Set(['character-sheet', 'origins', 'actions', 'how-it-plays'])
 
 export default function MechanicPage() {
   const params = useParams<{ mechanicId: string }>()
@@ -33,6 +34,7 @@ export default function MechanicPage() {
 
   const [lastCampaignId, setLastCampaignId] = useState<string | null>(null)
   const [traitNames, setTraitNames] = useState<string[]>([])
+  const [moveSet, setMoveSet] = useState<MoveSet | null>(null)
 
   useEffect(() => {
     setLastCampaignId(getLastCampaignId())
@@ -57,6 +59,9 @@ export default function MechanicPage() {
         // an old or partial blob falls back rather than rendering a
         // half-renamed list.
         setTraitNames(readStatLabels(data?.campaign?.statLabels))
+        // Name and summary only — both are number-free by construction
+        // (see lib/moveSets.ts), so this box can't leak the bands.
+        setMoveSet(getMoveSet(data?.campaign?.moveSetId))
       } catch {
         // No campaign context available. The generic copy already reads
         // correctly on its own.
@@ -110,6 +115,15 @@ export default function MechanicPage() {
           </div>
         )}
 
+        {mechanic.id === 'how-it-plays' && moveSet && (
+          <div className="mt-8 rounded-lg border border-myth-border bg-myth-surface p-5">
+            <h2 className="mb-2 text-sm font-bold text-myth-ink">In your current campaign</h2>
+            <p className="text-sm leading-relaxed text-myth-ink-muted">
+              This campaign plays as {moveSet.name}. {moveSet.summary}
+            </p>
+          </div>
+        )}
+
         {mechanic.seeAlso && mechanic.seeAlso.length > 0 && (
           <div className="mt-10 border-t border-myth-border pt-6">
             <h2 className="mb-3 text-sm font-bold uppercase tracking-wide text-myth-ink-faint">
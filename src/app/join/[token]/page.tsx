@@ -8,6 +8,7 @@ import { authenticatedFetch, isAuthenticated } from '@/lib/clientAuth'
 import { fontDisplay, fontSans } from '@/lib/fonts'
 import { TavernBackground } from '@/components/tavern/TavernBackground'
 import { Button } from '@/components/ui/button'
+import { CAMPAIGN_ROLE_LABELS, type CampaignMemberRole } from '@/lib/api/campaignPermissions'
 
 interface CampaignInfo {
   id: string
@@ -28,6 +29,8 @@ export default function JoinCampaignPage() {
   const [canJoin, setCanJoin] = useState(false)
   const [isExpired, setIsExpired] = useState(false)
   const [isExhausted, setIsExhausted] = useState(false)
+  const [inviteRole, setInviteRole] = useState<CampaignMemberRole>('PLAYER')
+  const [guestHours, setGuestHours] = useState<number | null>(null)
 
   useEffect(() => {
     if (!isAuthenticated()) {
@@ -52,6 +55,8 @@ export default function JoinCampaignPage() {
       setCanJoin(data.canJoin)
       setIsExpired(data.isExpired)
       setIsExhausted(data.isExhausted)
+      if (data.role) setInviteRole(data.role)
+      setGuestHours(data.guestHours ?? null)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load invite')
     } finally {
@@ -131,6 +136,13 @@ export default function JoinCampaignPage() {
                   <span className="font-semibold">Universe:</span> {campaign.universe}
                 </p>
               )}
+              {inviteRole !== 'PLAYER' && (
+                <p className="mt-2 text-xs text-myth-ink-muted">
+                  {inviteRole === 'SPECTATOR'
+                    ? `You'll join as a ${CAMPAIGN_ROLE_LABELS.SPECTATOR.toLowerCase()} — you can follow the story but not act in it.`
+                    : `You'll join as a ${CAMPAIGN_ROLE_LABELS.GUEST.toLowerCase()}${guestHours ? ` for ${guestHours} hours` : ''}.`}
+                </p>
+              )}
             </div>
 
             {error && (
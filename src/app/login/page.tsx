@@ -6,12 +6,14 @@
 import { useState, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
-import { LogIn, AlertTriangle, MailCheck } from 'lucide-react'
+import { LogIn, AlertTriangle, MailCheck, BellOff } from 'lucide-react'
 import { login } from '@/lib/clientAuth'
 import { fontDisplay, fontSans } from '@/lib/fonts'
 import { TavernBackground } from '@/components/tavern/TavernBackground'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { TwoFactorLoginStep } from '@/components/auth/TwoFactorLoginStep'
+import { OidcProviderButtons } from '@/components/auth/OidcProviderButtons'
 
 // Reads ?verified= from the email-verification redirect; isolated in a
 // Suspense child because useSearchParams requires it in the app router.
@@ -37,12 +39,66 @@ function VerifiedBanner() {
   return null
 }
 
+// Same, for ?unsubscribed= from the email digest's unsubscribe links.
+function UnsubscribedBanner() {
+  const searchParams = useSearchParams()
+  const unsubscribed = searchParams.get('unsubscribed')
+  if (unsubscribed === 'digest' || unsubscribed === 'email') {
+    return (
+      <div className="mb-5 flex items-center gap-2 rounded-lg border border-myth-border bg-myth-surface px-4 py-3 text-sm text-myth-ink">
+        <BellOff className="h-4 w-4 flex-shrink-0 text-myth-ink-muted" />
+        <span>
+          {unsubscribed === 'digest'
+            ? 'You won’t get the MythOS digest any more.'
+            : 'You won’t get any more email from MythOS.'}{' '}
+          Change this any time in notification settings.
+        </span>
+      </div>
+    )
+  }
+  if (unsubscribed === '0') {
+    return (
+      <div className="mb-5 flex items-center gap-2 rounded-lg border border-myth-danger/30 bg-myth-danger/10 px-4 py-3 text-sm text-myth-ink">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0 text-myth-danger" />
+        <span>That unsubscribe link is invalid. Log in to change your email settings.</span>
+      </div>
+    )
+  }
+  return null
+}
+
+// ?oidcError= from an identity-provider sign-in that didn't finish (the
+// callback route redirects every failure here).
+const OIDC_ERROR_MESSAGES: Record<string, string> = {
+  expired: 'That sign-in took too long or was started in another browser. Please try again.',
+  cancelled: 'Sign-in was cancelled.',
+  'unverified-email': 'That provider hasn’t verified your email address, so it can’t sign you in. Verify it there, or log in with your password.',
+  'no-email': 'That provider didn’t share an email address. Allow access to your email and try again.',
+  unavailable: 'Couldn’t reach that sign-in provider. Please try again.',
+  failed: 'Couldn’t reach that sign-in provider. Please try again.',
+}
+
+function OidcErrorBanner() {
+  const searchParams = useSearchParams()
+  const reason = searchParams.get('oidcError')
+  if (!reason) return null
+  return (
+    <div className="mb-5 flex items-center gap-2 rounded-lg border border-myth-danger/30 bg-myth-danger/10 px-4 py-3 text-sm text-myth-ink">
+      <AlertTriangle className="h-4 w-4 flex-shrink-0 text-myth-danger" />
+      <span>{OIDC_ERROR_MESSAGES[reason] ?? OIDC_ERROR_MESSAGES.failed}</span>
+    </div>
+  )
+}
+
 export default function LoginPage() {
   const router = useRouter()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [loading, setLoading] = useState(false)
+  // Set once the password step comes back asking for a second factor; the
+  // form then swaps to the code step. Cleared to go back to the password.
+  const [challengeToken, setChallengeToken] = useState<string | null>(null)
 
   // Preserved across login (e.g. an invite link sent someone here) and
   // forwarded to the signup link too, so the round trip survives either
@@ -61,7 +117,11 @@ export default function LoginPage() {
     setLoading(true)
 
     try {
-      await login(email, password)
+      const result = await login(email, password)
+      if ('twoFactorRequired' in result) {
+        setChallengeToken(result.challengeToken)
+        return
+      }
       router.push(safeReturnTo || '/campaigns')
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed')
@@ -94,42 +154,62 @@ export default function LoginPage() {
 
           <Suspense fallback={null}>
             <VerifiedBanner />
+            <UnsubscribedBanner />
+            <OidcErrorBanner />
           </Suspense>
 
-          <form onSubmit={handleSubmit} className="space-y-5">
-            {error && (
-              <div className="flex items-center gap-2 rounded-lg border border-myth-danger/30 bg-myth-danger/10 px-4 py-3 text-sm text-myth-ink">
-                <AlertTriangle className="h-4 w-4 flex-shrink-0 text-myth-danger" />
-                <span>{error}</span>
-              </div>
-            )}
-
-            <Input
-              id="email"
-              type="email"
-              label="Email Address"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="your@email.com"
-              required
-              autoComplete="email"
+          {challengeToken ? (
+            <TwoFactorLoginStep
+              challengeToken={challengeToken}
+              onSignedIn={() => router.push(safeReturnTo || '/campaigns')}
+              onBack={(message) => {
+                setChallengeToken(null)
+                setPassword('')
+                setError(message ?? '')
+              }}
             />
-
-            <Input
-              id="password"
-              type="password"
-              label="Password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Enter your password"
-              required
-              autoComplete="current-password"
-            />
-
-            <Button type="submit" size="lg" fullWidth loading={loading} icon={LogIn}>
-              {loading ? 'Logging in…' : 'Login'}
-            </Button>
-          </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              {error && (
+                <div className="flex items-center gap-2 rounded-lg border border-myth-danger/30 bg-myth-danger/10 px-4 py-3 text-sm text-myth-ink">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0 text-myth-danger" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <Input
+                id="email"
+                type="email"
+                label="Email Address"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="your@email.com"
+                required
+                autoComplete="email"
+              />
+
+              <Input
+                id="password"
+                type="password"
+                label="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter your password"
+                required
+                autoComplete="current-password"
+              />
+
+              <Button type="submit" size="lg" fullWidth loading={loading} icon={LogIn}>
+                {loading ? 'Logging in…' : 'Login'}
+              </Button>
+            </form>
+          )}
+
+          {!challengeToken && (
+            <div className="mt-5">
+              <OidcProviderButtons returnTo={safeReturnTo} />
+            </div>
+          )}
 
           <p className="mt-4 text-center">
             <Link href="/auth/forgot-password" className="inline-flex min-h-[44px] items-center justify-center touch-manipulation text-sm text-myth-ink-faint transition-colors hover:text-myth-ink">
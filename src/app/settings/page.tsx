@@ -8,8 +8,11 @@ import { useRouter } from 'next/navigation'
 import { authenticatedFetch, isAuthenticated, getUser, getLastCampaignId, updateStoredUser } from '@/lib/clientAuth'
 import NotificationSettings from '@/components/settings/NotificationSettings'
 import { ThemeSetting } from '@/components/settings/ThemeSetting'
+import { TwoFactorSettings } from '@/components/settings/TwoFactorSettings'
+import { SessionList } from '@/components/settings/SessionList'
+import { AccountDataSettings } from '@/components/settings/AccountDataSettings'
 import BalanceDisplay from '@/components/BalanceDisplay'
-import { AlertTriangle, Bell, Coins, Lock, User, X } from 'lucide-react'
+import { Bell, Coins, Lock, User, X } from 'lucide-react'
 import { IconButton } from '@/components/ui/icon-button'
 import { TavernPage } from '@/components/tavern/TavernPage'
 import { TavernHeader } from '@/components/tavern/TavernHeader'
@@ -49,9 +52,6 @@ export default function SettingsPage() {
   const [changingPassword, setChangingPassword] = useState(false)
   const [passwordMessage, setPasswordMessage] = useState<StatusMessage>(null)
 
-  // Delete account state
-  const [showDeleteModal, setShowDeleteModal] = useState(false)
-
   // #415: session revocation had a backend, a route and a test, and ZERO
   // client callers — so the mitigation cited for the 30-day JWT lifetime
   // was one a user could not actually invoke. Backend-first delivery with
@@ -59,9 +59,6 @@ export default function SettingsPage() {
   // test, so every automated signal reported the feature as done.
   const [revokingSessions, setRevokingSessions] = useState(false)
   const [revokeMessage, setRevokeMessage] = useState<StatusMessage>(null)
-  const [deleteConfirmation, setDeleteConfirmation] = useState('')
-  const [deletingAccount, setDeletingAccount] = useState(false)
-  const [deleteMessage, setDeleteMessage] = useState<StatusMessage>(null)
   const [lastCampaignId, setLastCampaignIdState] = useState<string | null>(null)
 
   useEffect(() => {
@@ -180,45 +177,6 @@ export default function SettingsPage() {
     }
   }
 
-  // Handler: Delete account
-  const handleDeleteAccount = async () => {
-    setDeleteMessage(null)
-
-    if (deleteConfirmation !== 'DELETE MY ACCOUNT') {
-      setDeleteMessage({ ok: false, text: 'Please type "DELETE MY ACCOUNT" to confirm' })
-      return
-    }
-
-    setDeletingAccount(true)
-
-    try {
-      const response = await authenticatedFetch('/api/user', {
-        method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ confirm: deleteConfirmation })
-      })
-
-      const data = await response.json()
-
-      if (response.ok) {
-        setDeleteMessage({ ok: true, text: 'Account deleted. Redirecting...' })
-        // Clear auth and redirect to home
-        localStorage.removeItem('token')
-        localStorage.removeItem('user')
-        setTimeout(() => {
-          router.push('/')
-        }, 1500)
-      } else {
-        setDeleteMessage({ ok: false, text: `${data.error || 'Failed to delete account'}` })
-      }
-    } catch (error) {
-      console.error('Delete account error:', error)
-      setDeleteMessage({ ok: false, text: 'An error occurred' })
-    } finally {
-      setDeletingAccount(false)
-    }
-  }
-
   if (loading) {
     return (
       <TavernPage>
@@ -409,9 +367,13 @@ export default function SettingsPage() {
                 Change Password
               </Button>
             </div>
+
+            <TwoFactorSettings />
           </div>
         )}
 
+        {activeTab === 'privacy' && <SessionList />}
+
         {/* #415: "Sign out everywhere" — the user-facing half of session
             revocation. Tokens are stateless JWTs with a 30-day life, so
             this is the only answer to "I think my token leaked" and to
@@ -441,24 +403,8 @@ export default function SettingsPage() {
           </div>
         )}
 
-        {/* Danger Zone - Separate Card */}
-        {activeTab === 'privacy' && (
-          <div className="rounded-lg border border-myth-danger/30 bg-myth-danger/10 p-6">
-            <div className="flex items-center gap-3 mb-4">
-              <AlertTriangle className="h-7 w-7 text-myth-danger" />
-              <h3 className="text-xl font-bold text-myth-danger">Danger Zone</h3>
-            </div>
-            <p className="text-sm text-myth-ink-muted mb-6 leading-relaxed">
-              Permanently delete your account and all associated data. This action cannot be undone.
-            </p>
-            <Button variant="danger" onClick={() => setShowDeleteModal(true)}>
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-              </svg>
-              Delete Account
-            </Button>
-          </div>
-        )}
+        {/* Download your data, and the Danger Zone (scheduled deletion) */}
+        {activeTab === 'privacy' && <AccountDataSettings />}
       </div>
 
       {/* Password Change Modal */}
@@ -556,94 +502,6 @@ export default function SettingsPage() {
         </div>
       )}
 
-      {/* Delete Account Modal */}
-      {showDeleteModal && (
-        <div className="fixed inset-0 z-50 overflow-auto bg-black/50 flex items-center justify-center p-4">
-          <div className="rounded-lg border border-myth-danger/30 bg-myth-surface-raised p-6 max-w-md w-full shadow-[0_1px_2px_rgba(0,0,0,0.06),0_8px_24px_rgba(0,0,0,0.16)]">
-            <div className="flex items-center justify-between mb-6">
-              <div className="flex items-center gap-2">
-                <AlertTriangle className="h-6 w-6 flex-shrink-0 text-myth-danger" />
-                <h3 className="text-xl font-bold text-myth-danger">Delete Account</h3>
-              </div>
-              <IconButton
-                icon={X}
-                label="Close delete-account dialog"
-                onClick={() => {
-                  setShowDeleteModal(false)
-                  setDeleteMessage(null)
-                  setDeleteConfirmation('')
-                }}
-              />
-            </div>
-
-            <div className="space-y-4">
-              <div className="rounded-lg border border-myth-danger/30 bg-myth-danger/10 p-4">
-                <p className="text-sm text-myth-ink-muted leading-relaxed">
-                  This action is <strong className="text-myth-danger">permanent</strong> and cannot be undone. All your:
-                </p>
-                <ul className="mt-3 space-y-1 text-sm text-myth-ink-muted">
-                  <li>• Characters and their progress</li>
-                  <li>• Campaign memberships</li>
-                  <li>• Game history and actions</li>
-                  <li>• Personal settings and preferences</li>
-                </ul>
-                <p className="mt-3 text-sm text-myth-ink-muted">
-                  will be <strong className="text-myth-danger">permanently deleted</strong>.
-                </p>
-              </div>
-
-              <div>
-                <label className="block text-sm font-semibold text-myth-ink-muted mb-2">
-                  Type <span className="text-myth-danger font-mono">DELETE MY ACCOUNT</span> to confirm:
-                </label>
-                <Input
-                  wrapperClassName="w-full" className="font-mono"
-                  type="text"
-                  value={deleteConfirmation}
-                  onChange={(e) => setDeleteConfirmation(e.target.value)}
-                  placeholder="DELETE MY ACCOUNT"
-                />
-              </div>
-
-              {deleteMessage && (
-                <p className={`flex items-center gap-1.5 text-sm ${
-                  deleteMessage.ok ? 'text-myth-good' : 'text-myth-danger'
-                }`}>
-                  {deleteMessage.ok ? <UI_ICONS.success className="h-4 w-4" /> : <UI_ICONS.failure className="h-4 w-4" />}
-                  {deleteMessage.text}
-                </p>
-              )}
-
-              <div className="flex gap-3 pt-4">
-                <Button
-                  variant="danger" fullWidth
-                  onClick={handleDeleteAccount}
-                  disabled={deletingAccount || deleteConfirmation !== 'DELETE MY ACCOUNT'}
-                >
-                  {deletingAccount ? (
-                    <div className="flex items-center justify-center gap-2">
-                      <div className="h-4 w-4 animate-spin rounded-full border-b-2 border-white" />
-                      Deleting...
-                    </div>
-                  ) : (
-                    'Delete My Account'
-                  )}
-                </Button>
-                <Button
-                  variant="secondary"
-                  onClick={() => {
-                    setShowDeleteModal(false)
-                    setDeleteMessage(null)
-                    setDeleteConfirmation('')
-                  }}
-                >
-                  Cancel
-                </Button>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
       </main>
 
       <TavernNav campaignId={lastCampaignId || undefined} />
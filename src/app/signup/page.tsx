@@ -12,6 +12,7 @@ import { fontDisplay, fontSans } from '@/lib/fonts'
 import { TavernBackground } from '@/components/tavern/TavernBackground'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { OidcProviderButtons } from '@/components/auth/OidcProviderButtons'
 
 export default function SignupPage() {
   const router = useRouter()
@@ -163,6 +164,10 @@ export default function SignupPage() {
             </Button>
           </form>
 
+          <div className="mt-5">
+            <OidcProviderButtons returnTo={safeReturnTo} />
+          </div>
+
           <div className="my-6 h-px bg-myth-border" />
 
           <p className="text-center text-sm text-myth-ink-muted">
@@ -24,6 +24,7 @@ import { join } from 'path'
 import {
   describeThreat,
   describeStability,
+  describeStrength,
   THREAT_MAX,
 } from '@/lib/game/entityStats'
 
@@ -49,6 +50,14 @@ describe('diegetic bands cover their full input range', () => {
       expect(label, `stability ${score} leaked a digit: "${label}"`).not.toMatch(/\d/)
     }
   })
+
+  it('describeStrength returns a word across the 0-100 range', () => {
+    for (const score of [0, 33, 34, 66, 67, 100]) {
+      const label = describeStrength(score)
+      expect(label, `strength ${score} produced no label`).toBeTruthy()
+      expect(label, `strength ${score} leaked a digit: "${label}"`).not.toMatch(/\d/)
+    }
+  })
 })
 
 describe('player-facing surfaces render bands, not raw simulation values', () => {
@@ -69,6 +78,17 @@ describe('player-facing surfaces render bands, not raw simulation values', () =>
     expect(source).not.toMatch(/display=\{`\$\{[^}]+\}\/\d+`\}/)
     expect(source).toMatch(/display=\{describeStability\(stats\.conditionScore\)\}/)
   })
+
+  it('the faction orders screen gets its faction in bands from the server', () => {
+    // queue.ts is the one place those numbers could leave; the panel only
+    // renders what it's handed.
+    const server = read('lib/game/factionOrders/queue.ts')
+    expect(server).toMatch(/resources: describeStrength\(faction\.resources\)/)
+    expect(server).toMatch(/military: describeStrength\(faction\.military\)/)
+    expect(server).toMatch(/stability: describeStability\(faction\.stability\)/)
+    const panel = read('components/factions/FactionOrdersPanel.tsx')
+    expect(panel).not.toMatch(/\/100/)
+  })
 })
 
 describe('Clocks are called Threads on every player-facing surface', () => {
@@ -6,6 +6,7 @@ import { useEscapeKey } from '@/hooks/useEscapeKey'
 import { Button } from '@/components/ui/button'
 import { IconButton } from '@/components/ui/icon-button'
 import { TOUCH_HEIGHT } from '@/components/ui/styles'
+import { can, type CampaignPermission } from '@/lib/api/campaignPermissions'
 
 export type AdminTabKey =
   | 'overview'
@@ -26,6 +27,13 @@ export type AdminTabKey =
 interface AdminNavItem {
   key: AdminTabKey
   label: string
+  /**
+   * What a member needs beyond running the campaign (`scenes.run`, the bar
+   * for the admin page at all) to see this tab. Co-hosts get the page but
+   * not billing or role management — hiding the tab is courtesy, the route
+   * refuses them either way.
+   */
+  permission?: CampaignPermission
 }
 
 interface AdminNavGroup {
@@ -55,12 +63,12 @@ export const ADMIN_NAV_GROUPS: AdminNavGroup[] = [
       { key: 'map', label: 'Map' },
     ],
   },
-  { key: 'configuration', label: 'Configuration', items: [{ key: 'ai', label: 'Configuration' }] },
+  { key: 'configuration', label: 'Configuration', items: [{ key: 'ai', label: 'Configuration', permission: 'campaign.billing' }] },
   {
     key: 'players',
     label: 'Players',
     items: [
-      { key: 'members', label: 'Members' },
+      { key: 'members', label: 'Members', permission: 'members.manage' },
       { key: 'invites', label: 'Invites' },
     ],
   },
@@ -75,6 +83,14 @@ export const ADMIN_NAV_GROUPS: AdminNavGroup[] = [
   },
 ]
 
+/** The nav as a member with this role sees it — groups left empty are dropped. */
+export function adminNavGroupsFor(role: string | null | undefined): AdminNavGroup[] {
+  return ADMIN_NAV_GROUPS.map((group) => ({
+    ...group,
+    items: group.items.filter((item) => !item.permission || can(role, item.permission)),
+  })).filter((group) => group.items.length > 0)
+}
+
 function findLocation(activeKey: AdminTabKey) {
   for (const group of ADMIN_NAV_GROUPS) {
     const item = group.items.find((i) => i.key === activeKey)
@@ -84,11 +100,13 @@ function findLocation(activeKey: AdminTabKey) {
 }
 
 function NavList({
+  groups,
   activeKey,
   onSelect,
   expandedGroups,
   onToggleGroup,
 }: {
+  groups: AdminNavGroup[]
   activeKey: AdminTabKey
   onSelect: (key: AdminTabKey) => void
   expandedGroups: Set<string>
@@ -96,7 +114,7 @@ function NavList({
 }) {
   return (
     <nav className="space-y-1">
-      {ADMIN_NAV_GROUPS.map((group) => {
+      {groups.map((group) => {
         const isSingleItem = group.items.length === 1
         const isActiveGroup = group.items.some((i) => i.key === activeKey)
         const expanded = isSingleItem || expandedGroups.has(group.key)
@@ -161,7 +179,16 @@ function NavList({
   )
 }
 
-export function AdminNav({ activeKey, onSelect }: { activeKey: AdminTabKey; onSelect: (key: AdminTabKey) => void }) {
+export function AdminNav({
+  activeKey,
+  onSelect,
+  role,
+}: {
+  activeKey: AdminTabKey
+  onSelect: (key: AdminTabKey) => void
+  role: string | null | undefined
+}) {
+  const groups = adminNavGroupsFor(role)
   const { group: activeGroup, item: activeItem } = findLocation(activeKey)
   const [drawerOpen, setDrawerOpen] = useState(false)
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(() => new Set([activeGroup.key]))
@@ -216,7 +243,7 @@ export function AdminNav({ activeKey, onSelect }: { activeKey: AdminTabKey; onSe
                 onClick={() => setDrawerOpen(false)}
               />
             </div>
-            <NavList activeKey={activeKey} onSelect={handleSelect} expandedGroups={expandedGroups} onToggleGroup={toggleGroup} />
+            <NavList groups={groups} activeKey={activeKey} onSelect={handleSelect} expandedGroups={expandedGroups} onToggleGroup={toggleGroup} />
           </div>
         </div>
       )}
@@ -224,7 +251,7 @@ export function AdminNav({ activeKey, onSelect }: { activeKey: AdminTabKey; onSe
       {/* Desktop: persistent left rail */}
       <div className="hidden shrink-0 md:block md:w-56">
         <div className="sticky top-24">
-          <NavList activeKey={activeKey} onSelect={onSelect} expandedGroups={expandedGroups} onToggleGroup={toggleGroup} />
+          <NavList groups={groups} activeKey={activeKey} onSelect={onSelect} expandedGroups={expandedGroups} onToggleGroup={toggleGroup} />
         </div>
       </div>
     </>
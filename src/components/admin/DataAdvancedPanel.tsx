@@ -6,6 +6,9 @@ import { Badge } from '@/components/ui/badge'
 import { SectionHeader } from '@/components/ui/section-header'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
+import { ForkCampaignSection } from './ForkCampaignSection'
+import { WorldHistorySection } from './WorldHistorySection'
+import { WebhooksSection } from './WebhooksSection'
 
 interface TickChange {
   entityName: string
@@ -35,7 +38,8 @@ interface StateMutation {
   field: string
   previousValue?: unknown
   proposedValue?: unknown
-  result: 'ACCEPTED' | 'REJECTED' | 'REPAIRED'
+  // PENDING: proposed by a resolution still awaiting GM review.
+  result: 'ACCEPTED' | 'REJECTED' | 'REPAIRED' | 'PENDING'
   repairedValue?: unknown
   reason: string | null
   createdAt: string
@@ -139,6 +143,12 @@ export function DataAdvancedPanel({
         </div>
       </section>
 
+      <ForkCampaignSection campaignId={campaignId} />
+
+      <WorldHistorySection campaignId={campaignId} />
+
+      <WebhooksSection campaignId={campaignId} />
+
       {/* Debug — collapsed behind a disclosure */}
       <section>
         <Button
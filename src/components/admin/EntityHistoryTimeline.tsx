@@ -0,0 +1,74 @@
+'use client'
+
+// src/components/admin/EntityHistoryTimeline.tsx
+//
+// One NPC's, faction's or location's history, opened from its card in the
+// entity browser: every logged change with the reason the simulation gave,
+// plus the turns it changed hands (a location) or took and lost ground (a
+// faction), from the atlas's border frames. Loads when opened — the
+// admin page lists every entity, and nobody reads every history.
+
+import { useEffect, useState } from 'react'
+import { authenticatedFetch } from '@/lib/clientAuth'
+
+interface TimelineEntry {
+  turnNumber: number
+  field: string
+  from: string | null
+  to: string | null
+  reason: string
+  source: 'event' | 'borders'
+}
+
+export function EntityHistoryTimeline({
+  campaignId,
+  kind,
+  entityId,
+}: {
+  campaignId: string
+  kind: 'faction' | 'location' | 'npc'
+  entityId: string
+}) {
+  const [entries, setEntries] = useState<TimelineEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    authenticatedFetch(`/api/campaigns/${campaignId}/world-history/timeline?type=${kind}&id=${encodeURIComponent(entityId)}`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (cancelled) return
+        if (!response.ok) setError(data.error ?? 'Could not load history.')
+        else setEntries(data.timeline.entries)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load history.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [campaignId, kind, entityId])
+
+  return (
+    <div className="mt-3 rounded-md border border-myth-border bg-myth-surface-sunken p-3 text-sm">
+      <p className="font-medium text-myth-ink">History</p>
+      {error && <p className="mt-1 text-myth-danger">{error}</p>}
+      {!error && entries === null && <p className="mt-1 text-myth-ink-faint">Loading…</p>}
+      {entries?.length === 0 && <p className="mt-1 text-myth-ink-muted">Nothing recorded yet.</p>}
+      {entries && entries.length > 0 && (
+        <ol className="mt-1 max-h-80 space-y-1 overflow-y-auto">
+          {entries.map((entry, i) => (
+            <li key={i} className="text-myth-ink-muted">
+              <span className="text-xs text-myth-ink-faint">Turn {entry.turnNumber}</span>{' '}
+              <span className="text-myth-ink">{entry.field}</span>
+              {entry.source === 'event' && (
+                <span>: {entry.from ?? '—'} → {entry.to ?? '—'}</span>
+              )}
+              <span className="block pl-4 text-xs">{entry.reason}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
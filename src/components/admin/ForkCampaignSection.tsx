@@ -0,0 +1,164 @@
+'use client'
+
+// src/components/admin/ForkCampaignSection.tsx
+//
+// "Branch this campaign" — the admin's way into POST /fork. Picks where the
+// branch leaves the parent (now, after a scene that has ended, or at a
+// world turn), creates it, and links straight to it. The parent is never
+// touched, so there is nothing to confirm.
+//
+// Whatever the rewind couldn't undo is shown after the fact rather than
+// hidden: a fork at an old point is only as exact as the event log, and an
+// admin deciding whether to play on in it should know which columns kept
+// their present-day value.
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { SectionHeader } from '@/components/ui/section-header'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+
+type Mode = 'latest' | 'scene' | 'turn'
+
+interface ResolvedScene {
+  id: string
+  sceneNumber: number
+}
+
+interface ForkResponse {
+  campaign: { id: string; title: string }
+  forkPoint: string
+  rewind: { clock: 'exact' | 'approximate' | 'unchanged'; unreverted: Record<string, number> }
+}
+
+export function ForkCampaignSection({ campaignId }: { campaignId: string }) {
+  const [mode, setMode] = useState<Mode>('latest')
+  const [scenes, setScenes] = useState<ResolvedScene[]>([])
+  const [sceneId, setSceneId] = useState('')
+  const [turnNumber, setTurnNumber] = useState('')
+  const [title, setTitle] = useState('')
+  const [forking, setForking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ForkResponse | null>(null)
+
+  // Only ended scenes can be forked from; load them once the admin asks.
+  useEffect(() => {
+    if (mode !== 'scene' || scenes.length > 0) return
+    let cancelled = false
+    authenticatedFetch(`/api/campaigns/${campaignId}/scenes`)
+      .then((response) => (response.ok ? response.json() : { scenes: [] }))
+      .then((data: { scenes?: Array<ResolvedScene & { status: string }> }) => {
+        if (cancelled) return
+        const resolved = (data.scenes ?? [])
+          .filter((s) => s.status === 'RESOLVED')
+          .sort((a, b) => b.sceneNumber - a.sceneNumber)
+        setScenes(resolved)
+        if (resolved[0]) setSceneId(resolved[0].id)
+      })
+      .catch(() => {
+        if (!cancelled) setError('Could not load scenes.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [mode, campaignId, scenes.length])
+
+  const fork = async () => {
+    setForking(true)
+    setError(null)
+    setResult(null)
+    try {
+      const body: Record<string, unknown> = {}
+      if (title.trim()) body.title = title.trim()
+      if (mode === 'scene') body.sceneId = sceneId
+      if (mode === 'turn') body.turnNumber = Number(turnNumber)
+      const response = await authenticatedFetch(`/api/campaigns/${campaignId}/fork`, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error ?? 'Fork failed. Please try again.')
+        return
+      }
+      setResult(data)
+    } catch (err) {
+      console.error('Fork error:', err)
+      setError('Fork failed. Please try again.')
+    } finally {
+      setForking(false)
+    }
+  }
+
+  const unreverted = result ? Object.entries(result.rewind.unreverted) : []
+  const canFork = !forking && (mode !== 'scene' || sceneId !== '') && (mode !== 'turn' || turnNumber.trim() !== '')
+
+  return (
+    <section>
+      <SectionHeader title="Branch This Campaign" />
+      <div className="mt-3 space-y-4 rounded-lg border border-myth-border bg-myth-surface p-5">
+        <p className="text-sm text-myth-ink-muted">
+          Start a new campaign from this world as it was at an earlier point — same players, same characters — and
+          play the other path. This campaign is left exactly as it is.
+        </p>
+        <Select label="Branch from" value={mode} onChange={(e) => setMode(e.target.value as Mode)}>
+          <option value="latest">Now</option>
+          <option value="scene">The end of a scene</option>
+          <option value="turn">A world turn</option>
+        </Select>
+        {mode === 'scene' && (
+          <Select
+            label="Scene"
+            value={sceneId}
+            onChange={(e) => setSceneId(e.target.value)}
+            hint={scenes.length === 0 ? 'No scene has ended yet.' : undefined}
+          >
+            {scenes.map((s) => (
+              <option key={s.id} value={s.id}>Scene {s.sceneNumber}</option>
+            ))}
+          </Select>
+        )}
+        {mode === 'turn' && (
+          <Input
+            label="World turn"
+            type="number"
+            min={0}
+            value={turnNumber}
+            onChange={(e) => setTurnNumber(e.target.value)}
+            hint="Scene-side clocks are approximate when branching at a world turn."
+          />
+        )}
+        <Input
+          label="Title (optional)"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Defaults to this campaign's title and the branch point"
+        />
+        <Button variant="secondary" onClick={fork} disabled={!canFork}>
+          {forking ? 'Branching...' : 'Create Branch'}
+        </Button>
+
+        {error && <p className="text-sm text-myth-danger">{error}</p>}
+        {result && (
+          <div className="space-y-1 text-sm text-myth-ink-muted">
+            <p>
+              Created{' '}
+              <Link href={`/campaigns/${result.campaign.id}`} className="text-myth-gold underline">
+                {result.campaign.title}
+              </Link>{' '}
+              from {result.forkPoint}.
+            </p>
+            {unreverted.length > 0 && (
+              <p className="text-xs text-myth-ink-faint">
+                Kept their current value (no history to rewind from):{' '}
+                {unreverted.map(([field, count]) => `${field} ×${count}`).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -15,6 +15,8 @@ interface Violation {
   entityId: string
   entityName: string
   description: string
+  // Canon conflicts only (game/integrity/checks/canonConflicts.ts).
+  canon?: { value: string; loreEntryId: string; loreTitle: string; excerpt: string }
 }
 
 interface Escalation {
@@ -120,6 +122,94 @@ function WorldTurnPacingCard({ worldMeta }: { worldMeta: WorldMetaPacing }) {
   )
 }
 
+function canonKey(v: Violation): string {
+  return `${v.checkKey}:${v.entityId}:${v.canon?.value}`
+}
+
+// Lore and the simulation disagreeing isn't necessarily a bug — a canon
+// campaign can leave canon on purpose — so these are answered here rather
+// than auto-repaired. A ruling applies immediately; the report itself only
+// refreshes on the next world turn, so answered rows are hidden locally
+// until then.
+function CanonConflictsSection({ campaignId, conflicts }: { campaignId: string; conflicts: Violation[] }) {
+  const [ruled, setRuled] = useState<Record<string, 'INTENDED' | 'FIXED'>>({})
+  const [pending, setPending] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const rule = async (v: Violation, ruling: 'INTENDED' | 'FIX') => {
+    const key = canonKey(v)
+    setPending(key)
+    setError(null)
+    try {
+      const res = await authenticatedFetch(`/api/campaigns/${campaignId}/integrity/canon`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ checkKey: v.checkKey, entityId: v.entityId, canonValue: v.canon?.value, ruling }),
+      })
+      const json = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(json.error || 'request failed')
+      setRuled((prev) => ({ ...prev, [key]: json.resolution }))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to record the ruling')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  return (
+    <section className="rounded-lg border border-myth-border bg-myth-surface p-5">
+      <h3 className="font-medium text-myth-ink">Canon conflicts</h3>
+      <p className="mb-3 mt-1 text-xs text-myth-ink-faint">
+        Imported lore says one thing, the simulation another. Mark a conflict as intended if the campaign left canon on
+        purpose — it won&apos;t be reported again — or fix the simulation to match the lore.
+      </p>
+      {error && <p className="mb-2 text-xs text-myth-danger">{error}</p>}
+      <div className="space-y-2">
+        {conflicts.map((v) => {
+          const key = canonKey(v)
+          const outcome = ruled[key]
+          return (
+            <div key={key} className="rounded-md border border-myth-border p-3">
+              <div className="mb-1 flex items-center justify-between">
+                <span className="text-sm font-medium text-myth-ink">{v.entityName}</span>
+                <span className="font-mono text-xs text-myth-ink-faint">{v.checkKey}</span>
+              </div>
+              <p className="text-xs text-myth-ink-muted">{v.description}</p>
+              {v.canon && <p className="mt-1 text-xs italic text-myth-ink-faint">&ldquo;{v.canon.excerpt}&rdquo;</p>}
+              <div className="mt-2 flex gap-2">
+                {outcome ? (
+                  <span className="text-xs text-myth-ink-muted">
+                    {outcome === 'FIXED' ? 'Simulation fixed to match canon' : 'Marked as an intended divergence'}
+                  </span>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      disabled={pending !== null}
+                      onClick={() => rule(v, 'INTENDED')}
+                      className="rounded-md border border-myth-border px-2 py-1 text-xs text-myth-ink hover:bg-myth-surface-sunken disabled:opacity-50"
+                    >
+                      Diverged on purpose
+                    </button>
+                    <button
+                      type="button"
+                      disabled={pending !== null}
+                      onClick={() => rule(v, 'FIX')}
+                      className="rounded-md border border-myth-border px-2 py-1 text-xs text-myth-ink hover:bg-myth-surface-sunken disabled:opacity-50"
+                    >
+                      Fix the sim
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
+
 export function IntegrityPanel({ campaignId, worldMeta }: { campaignId: string; worldMeta?: WorldMetaPacing | null }) {
   const [data, setData] = useState<IntegrityData | null>(null)
   const [loading, setLoading] = useState(true)
@@ -172,6 +262,8 @@ export function IntegrityPanel({ campaignId, worldMeta }: { campaignId: string;
   }
 
   const { latest, history } = data
+  const canonConflicts = latest.unrepaired.filter((v) => v.canon)
+  const unrepaired = latest.unrepaired.filter((v) => !v.canon)
 
   return (
     <div className="space-y-6">
@@ -241,14 +333,16 @@ export function IntegrityPanel({ campaignId, worldMeta }: { campaignId: string;
         </section>
       )}
 
-      {latest.unrepaired.length > 0 && (
+      {canonConflicts.length > 0 && <CanonConflictsSection campaignId={campaignId} conflicts={canonConflicts} />}
+
+      {unrepaired.length > 0 && (
         <section className="rounded-lg border border-myth-border bg-myth-surface p-5">
           <h3 className="font-medium text-myth-ink">Unrepaired</h3>
           <p className="mb-3 mt-1 text-xs text-myth-ink-faint">
             Flagged but not auto-fixable — either no repair exists yet, or this pass hit its blast-radius cap.
           </p>
           <div className="space-y-2">
-            {latest.unrepaired.map((v, i) => (
+            {unrepaired.map((v, i) => (
               <div key={i} className="rounded-md border border-myth-border p-3">
                 <div className="mb-1 flex items-center justify-between">
                   <span className="text-sm font-medium text-myth-ink">{v.entityName}</span>
@@ -1,9 +1,12 @@
 // src/components/admin/LoreManagerPanel.tsx
 // Admin UI for importing reference lore: paste raw text, import a single
-// page by URL, or crawl an entire MediaWiki-based wiki (Fandom, wiki.gg,
+// page by URL, crawl an entire MediaWiki-based wiki (Fandom, wiki.gg,
 // Wikipedia, etc — see lib/lore/mediaWikiClient.ts; non-MediaWiki sites
-// fall back to being imported as a single page). Each import runs as a
-// background job (lib/lore/loreQueue.ts); this panel polls for progress.
+// fall back to being imported as a single page), or upload a document
+// (Markdown, PDF, DOCX, EPUB, or a zipped notes folder — see
+// lib/lore/documentExtractor.ts). Each import runs as a background job
+// (lib/lore/loreQueue.ts); this panel polls for progress. A wiki source
+// can be synced later, pulling in only what changed on the wiki.
 
 'use client'
 
@@ -16,7 +19,7 @@ import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Tabs } from '@/components/ui/tabs'
 
-type SourceType = 'PASTE' | 'URL' | 'WIKI'
+type SourceType = 'PASTE' | 'URL' | 'WIKI' | 'UPLOAD'
 type JobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED'
 
 interface LoreJob {
@@ -31,10 +34,31 @@ interface LoreJob {
   pagesDone: number
   entriesCreated: number
   excludeCategories: string[]
+  lastSyncedAt: string | null
+  lastSyncSummary: WikiSyncSummary | null
   createdAt: string
   finishedAt: string | null
 }
 
+interface WikiSyncSummary {
+  pagesChecked: number
+  pagesUpdated: number
+  pagesAdded: number
+  pagesRemoved: number
+  entriesAdded: number
+  entriesRetired: number
+}
+
+function formatSyncSummary(s: WikiSyncSummary): string {
+  const changed = s.pagesUpdated + s.pagesAdded + s.pagesRemoved
+  if (changed === 0) return 'No changes on the wiki'
+  const parts: string[] = []
+  if (s.pagesUpdated > 0) parts.push(`${s.pagesUpdated} updated`)
+  if (s.pagesAdded > 0) parts.push(`${s.pagesAdded} new`)
+  if (s.pagesRemoved > 0) parts.push(`${s.pagesRemoved} removed`)
+  return `${parts.join(', ')} page${changed === 1 ? '' : 's'} — ${s.entriesAdded} entries added, ${s.entriesRetired} retired`
+}
+
 interface WikiCategory {
   title: string
   pageCount: number
@@ -104,8 +128,15 @@ const SOURCE_TABS: Array<{ value: SourceType; label: string }> = [
   { value: 'PASTE', label: 'Paste Text' },
   { value: 'URL', label: 'Single Page' },
   { value: 'WIKI', label: 'Whole Wiki' },
+  { value: 'UPLOAD', label: 'Upload File' },
 ]
 
+// Mirrors SUPPORTED_DOCUMENT_EXTENSIONS in lib/lore/documentExtractor.ts,
+// which can't be imported here (it pulls in zlib). The route re-checks the
+// bytes, so this is only the picker's filter.
+const UPLOAD_ACCEPT = '.md,.markdown,.txt,.pdf,.docx,.epub,.zip'
+const MAX_UPLOAD_MB = 4
+
 const POLL_INTERVAL_MS = 4000
 
 export default function LoreManagerPanel({ campaignId }: { campaignId: string }) {
@@ -117,6 +148,10 @@ export default function LoreManagerPanel({ campaignId }: { campaignId: string })
   const [title, setTitle] = useState('')
   const [text, setText] = useState('')
   const [url, setUrl] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  // Remounts the file input after a submit — a file input's value can't be
+  // cleared through React state.
+  const [fileInputKey, setFileInputKey] = useState(0)
   const [submitting, setSubmitting] = useState(false)
   const [formError, setFormError] = useState<string | null>(null)
 
@@ -252,24 +287,43 @@ export default function LoreManagerPanel({ campaignId }: { campaignId: string })
       setFormError('Paste some text to import.')
       return
     }
-    if (sourceType !== 'PASTE' && !url.trim()) {
+    if (sourceType === 'UPLOAD' && !file) {
+      setFormError('Choose a file to import.')
+      return
+    }
+    if (file && sourceType === 'UPLOAD' && file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+      setFormError(`That file is over ${MAX_UPLOAD_MB} MB — split it into smaller files and upload each one.`)
+      return
+    }
+    if ((sourceType === 'URL' || sourceType === 'WIKI') && !url.trim()) {
       setFormError('Enter a URL to import.')
       return
     }
 
     setSubmitting(true)
     try {
-      const res = await authenticatedFetch(`/api/campaigns/${campaignId}/lore`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      // Uploads go as multipart with no explicit Content-Type, so the
+      // browser adds the boundary itself.
+      let body: BodyInit
+      if (sourceType === 'UPLOAD' && file) {
+        const form = new FormData()
+        form.append('file', file)
+        if (title.trim()) form.append('sourceTitle', title.trim())
+        body = form
+      } else {
+        body = JSON.stringify({
           sourceType,
           sourceTitle: title.trim() || undefined,
           ...(sourceType === 'PASTE' ? { rawText: text } : { sourceUrl: url.trim() }),
           ...(sourceType === 'WIKI' && excludedCategories.size > 0
             ? { excludeCategories: Array.from(excludedCategories) }
             : {}),
-        }),
+        })
+      }
+      const res = await authenticatedFetch(`/api/campaigns/${campaignId}/lore`, {
+        method: 'POST',
+        ...(body instanceof FormData ? {} : { headers: { 'Content-Type': 'application/json' } }),
+        body,
       })
       const data = await res.json()
       if (!res.ok) throw new Error(data.error || 'Failed to start import')
@@ -277,6 +331,8 @@ export default function LoreManagerPanel({ campaignId }: { campaignId: string })
       setTitle('')
       setText('')
       setUrl('')
+      setFile(null)
+      setFileInputKey(k => k + 1)
       setWikiCategories(null)
       setCategoryFilter('')
       setExcludedCategories(new Set())
@@ -326,6 +382,17 @@ export default function LoreManagerPanel({ campaignId }: { campaignId: string })
     }
   }
 
+  const handleSync = async (jobId: string) => {
+    try {
+      const res = await authenticatedFetch(`/api/campaigns/${campaignId}/lore/${jobId}`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to sync')
+      await fetchJobs()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync lore source')
+    }
+  }
+
   const handleDelete = async (jobId: string) => {
     if (!confirm('Delete this lore source and everything imported from it?')) return
     try {
@@ -343,7 +410,7 @@ export default function LoreManagerPanel({ campaignId }: { campaignId: string })
         <SectionHeader
           as="h2"
           title="Import Lore"
-          description="Reference material MythOS can draw on during play — a world bible, faction writeups, a wiki page, or an entire fan wiki. Wiki crawling only works for MediaWiki-based sites (Fandom, wiki.gg, Wikipedia, etc); give it any page URL on the wiki and it finds the rest itself."
+          description="Reference material MythOS can draw on during play — a world bible, faction writeups, a wiki page, an uploaded PDF or EPUB, or an entire fan wiki. Wiki crawling only works for MediaWiki-based sites (Fandom, wiki.gg, Wikipedia, etc); give it any page URL on the wiki and it finds the rest itself."
         />
         <div className="mt-3 rounded-lg border border-myth-border bg-myth-surface p-4">
         <Tabs
@@ -363,7 +430,11 @@ export default function LoreManagerPanel({ campaignId }: { campaignId: string })
               type="text"
               value={title}
               onChange={(e) => setTitle(e.target.value)}
-              placeholder={sourceType === 'PASTE' ? 'e.g. Essence Magic Overview' : undefined}
+              placeholder={
+                sourceType === 'PASTE' ? 'e.g. Essence Magic Overview'
+                  : sourceType === 'UPLOAD' ? 'Defaults to the document\'s own title'
+                    : undefined
+              }
             />
           </div>
 
@@ -378,6 +449,19 @@ export default function LoreManagerPanel({ campaignId }: { campaignId: string })
                 placeholder="Paste any chunk of lore — history, factions, magic systems, character bios..."
               />
             </div>
+          ) : sourceType === 'UPLOAD' ? (
+            <div>
+              <Input
+                key={fileInputKey}
+                wrapperClassName="w-full"
+                label="File"
+                required
+                type="file"
+                accept={UPLOAD_ACCEPT}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                hint={`Markdown, plain text, PDF, DOCX, EPUB, or a .zip of Markdown notes (e.g. an Obsidian vault), up to ${MAX_UPLOAD_MB} MB. Headings and page numbers are kept, so answers can cite where they came from.`}
+              />
+            </div>
           ) : (
             <div>
               <label className="mb-1 block text-sm font-medium text-myth-ink-muted">
@@ -527,16 +611,20 @@ export default function LoreManagerPanel({ campaignId }: { campaignId: string })
           <p className="text-sm text-myth-ink-muted">No lore imported yet.</p>
         )}
         {jobs.map(job => (
-          <LoreJobRow key={job.id} job={job} onDelete={() => handleDelete(job.id)} />
+          <LoreJobRow key={job.id} job={job} onSync={() => handleSync(job.id)} onDelete={() => handleDelete(job.id)} />
         ))}
       </section>
     </div>
   )
 }
 
-function LoreJobRow({ job, onDelete }: { job: LoreJob; onDelete: () => void }) {
+function LoreJobRow({ job, onSync, onDelete }: { job: LoreJob; onSync: () => void; onDelete: () => void }) {
   const label = job.sourceTitle || job.sourceUrl || 'Pasted text'
   const progressPct = job.pagesFound > 0 ? Math.round((job.pagesDone / job.pagesFound) * 100) : null
+  const live = job.status === 'PENDING' || job.status === 'RUNNING'
+  // A wiki with a finished baseline syncs; one that never finished resumes
+  // its crawl from where it stopped. Both are the same request.
+  const canSync = job.sourceType === 'WIKI' && !live
 
   return (
     <div className="flex items-start justify-between gap-4 rounded-lg border border-myth-border p-4">
@@ -546,7 +634,21 @@ function LoreJobRow({ job, onDelete }: { job: LoreJob; onDelete: () => void }) {
           <h4 className="truncate font-medium text-myth-ink">{label}</h4>
           <StatusBadge status={job.status} />
         </div>
-        {(job.status === 'PENDING' || job.status === 'RUNNING') && job.sourceType === 'WIKI' && (
+        {(job.status === 'PENDING' || job.status === 'RUNNING') && job.sourceType === 'UPLOAD' && (
+          <p className="mt-1 text-xs text-myth-ink-muted">
+            {job.pagesFound > 0
+              ? `Importing ${job.pagesDone}/${job.pagesFound} sections${progressPct !== null ? ` (${progressPct}%)` : ''}`
+              : 'Reading document...'}
+          </p>
+        )}
+        {live && job.sourceType === 'WIKI' && job.lastSyncedAt && (
+          <p className="mt-1 text-xs text-myth-ink-muted">
+            {job.pagesFound > 0 && job.pagesDone < job.pagesFound
+              ? `Syncing ${job.pagesDone}/${job.pagesFound} changed pages`
+              : 'Checking the wiki for changes...'}
+          </p>
+        )}
+        {live && job.sourceType === 'WIKI' && !job.lastSyncedAt && (
           <p className="mt-1 text-xs text-myth-ink-muted">
             {job.pagesFound > 0
               ? `Crawling ${job.pagesDone}/${job.pagesFound} pages${progressPct !== null ? ` (${progressPct}%)` : ''}`
@@ -556,18 +658,29 @@ function LoreJobRow({ job, onDelete }: { job: LoreJob; onDelete: () => void }) {
         {job.status === 'COMPLETED' && (
           <p className="mt-1 text-xs text-myth-ink-muted">
             {job.entriesCreated} {job.entriesCreated === 1 ? 'entry' : 'entries'} imported
-            {job.pagesFound > 1 ? ` from ${job.pagesFound} pages` : ''}
+            {job.pagesFound > 1 ? ` from ${job.pagesFound} ${job.sourceType === 'UPLOAD' ? 'sections' : 'pages'}` : ''}
           </p>
         )}
         {/* #243: pagesAvailable > pagesFound means WIKI_MAX_PAGES actually
             truncated this crawl — surface that instead of leaving a large
             wiki's dropped content completely silent. */}
-        {job.status === 'COMPLETED' && job.pagesAvailable > job.pagesFound && (
+        {job.status === 'COMPLETED' && job.pagesAvailable > job.pagesFound && job.sourceType === 'UPLOAD' && (
+          <p className="mt-1 text-xs text-myth-warn">
+            This document had {job.pagesAvailable} sections — only the first {job.pagesFound} were
+            imported (per-document size limit). Split it and upload the rest separately.
+          </p>
+        )}
+        {job.status === 'COMPLETED' && job.pagesAvailable > job.pagesFound && job.sourceType !== 'UPLOAD' && (
           <p className="mt-1 text-xs text-myth-warn">
             This wiki had {job.pagesAvailable} pages — only the {job.pagesFound} most
             substantial were imported (per-campaign lore limit). The rest were skipped.
           </p>
         )}
+        {job.status === 'COMPLETED' && job.lastSyncSummary && job.lastSyncedAt && (
+          <p className="mt-1 text-xs text-myth-ink-faint">
+            Last synced {new Date(job.lastSyncedAt).toLocaleDateString()}: {formatSyncSummary(job.lastSyncSummary)}
+          </p>
+        )}
         {job.status === 'FAILED' && job.lastError && (
           <p className="mt-1 text-xs text-myth-danger">{job.lastError}</p>
         )}
@@ -577,12 +690,19 @@ function LoreJobRow({ job, onDelete }: { job: LoreJob; onDelete: () => void }) {
           </p>
         )}
       </div>
-      <Button
-        variant="danger" size="sm"
-        onClick={onDelete}
-      >
-        Delete
-      </Button>
+      <div className="flex shrink-0 gap-2">
+        {canSync && (
+          <Button variant="secondary" size="sm" onClick={onSync}>
+            {job.status === 'FAILED' ? (job.lastSyncedAt ? 'Retry sync' : 'Resume') : 'Sync'}
+          </Button>
+        )}
+        <Button
+          variant="danger" size="sm"
+          onClick={onDelete}
+        >
+          Delete
+        </Button>
+      </div>
     </div>
   )
 }
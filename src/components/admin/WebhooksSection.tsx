@@ -0,0 +1,256 @@
+'use client'
+
+// src/components/admin/WebhooksSection.tsx
+//
+// "Webhooks" — the admin's view of /api/campaigns/[id]/webhooks. Adds an
+// endpoint (a Discord or Slack incoming-webhook URL, or any https receiver
+// for raw signed JSON), picks which campaign events it hears about, and
+// manages the ones already there: pause, send a test, retry whatever
+// dead-lettered, remove.
+//
+// The signing secret is shown once, straight after the write that made it
+// (create or rotate) — the routes never return it again, so there is
+// nothing to fetch later and nothing to leak from a list.
+
+import { useCallback, useEffect, useState } from 'react'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES } from '@/lib/webhooks/events'
+import { SectionHeader } from '@/components/ui/section-header'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+
+type Format = 'JSON' | 'DISCORD' | 'SLACK'
+type EventType = (typeof WEBHOOK_EVENT_TYPES)[number]
+
+interface Webhook {
+  id: string
+  url: string
+  format: Format
+  events: EventType[]
+  isActive: boolean
+  failedDeliveries: number
+}
+
+const FORMAT_LABELS: Record<Format, string> = {
+  DISCORD: 'Discord',
+  SLACK: 'Slack',
+  JSON: 'JSON (signed)',
+}
+
+/** Enough of the URL to tell two apart; Discord/Slack URLs end in their token. */
+function displayUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const path = parsed.pathname.length > 24 ? `${parsed.pathname.slice(0, 24)}…` : parsed.pathname
+    return `${parsed.host}${path}`
+  } catch {
+    return url
+  }
+}
+
+export function WebhooksSection({ campaignId }: { campaignId: string }) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [url, setUrl] = useState('')
+  const [format, setFormat] = useState<Format>('DISCORD')
+  const [events, setEvents] = useState<EventType[]>(['SCENE_RESOLVED', 'WORLD_DIGEST'])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [secret, setSecret] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const base = `/api/campaigns/${campaignId}/webhooks`
+
+  const load = useCallback(async () => {
+    try {
+      const response = await authenticatedFetch(base)
+      if (!response.ok) return
+      const data: { webhooks: Webhook[] } = await response.json()
+      setWebhooks(data.webhooks)
+    } catch (err) {
+      console.error('Webhook list error:', err)
+    }
+  }, [base])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const toggleEvent = (type: EventType) => {
+    setEvents((current) => (current.includes(type) ? current.filter((e) => e !== type) : [...current, type]))
+  }
+
+  const create = async () => {
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+    setSecret(null)
+    try {
+      const response = await authenticatedFetch(base, {
+        method: 'POST',
+        body: JSON.stringify({ url: url.trim(), format, events }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.details?.[0]?.message ?? data.error ?? 'Could not add the webhook.')
+        return
+      }
+      setSecret(data.secret)
+      setUrl('')
+      await load()
+    } catch (err) {
+      console.error('Webhook create error:', err)
+      setError('Could not add the webhook.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // One helper for the per-row actions; each reports back in `notice`.
+  const act = async (webhookId: string, run: () => Promise<string | null>) => {
+    setBusyId(webhookId)
+    setError(null)
+    setNotice(null)
+    try {
+      const message = await run()
+      if (message) setNotice(message)
+      await load()
+    } catch (err) {
+      console.error('Webhook action error:', err)
+      setError('That didn\'t work. Please try again.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const setActive = (webhook: Webhook, isActive: boolean) =>
+    act(webhook.id, async () => {
+      await authenticatedFetch(`${base}/${webhook.id}`, { method: 'PATCH', body: JSON.stringify({ isActive }) })
+      return null
+    })
+
+  const rotate = (webhook: Webhook) =>
+    act(webhook.id, async () => {
+      const response = await authenticatedFetch(`${base}/${webhook.id}`, { method: 'PATCH', body: JSON.stringify({ rotateSecret: true }) })
+      const data = await response.json()
+      if (response.ok) setSecret(data.secret)
+      return response.ok ? null : data.error ?? 'Could not rotate the secret.'
+    })
+
+  const sendTest = (webhook: Webhook) =>
+    act(webhook.id, async () => {
+      const response = await authenticatedFetch(`${base}/${webhook.id}/test`, { method: 'POST' })
+      const data: { ok?: boolean; status?: number | null; error?: string | null } = await response.json()
+      return data.ok ? `Test delivered (HTTP ${data.status}).` : `Test failed: ${data.error ?? 'no response'}`
+    })
+
+  const retryFailed = (webhook: Webhook) =>
+    act(webhook.id, async () => {
+      const response = await authenticatedFetch(`${base}/${webhook.id}/deliveries`, { method: 'POST' })
+      const data: { requeued?: number } = await response.json()
+      return `Retrying ${data.requeued ?? 0} failed deliver${data.requeued === 1 ? 'y' : 'ies'}.`
+    })
+
+  const remove = (webhook: Webhook) => {
+    if (!window.confirm(`Remove the webhook to ${displayUrl(webhook.url)}? Its delivery history goes with it.`)) return
+    act(webhook.id, async () => {
+      await authenticatedFetch(`${base}/${webhook.id}`, { method: 'DELETE' })
+      return null
+    })
+  }
+
+  return (
+    <section>
+      <SectionHeader title="Webhooks" />
+      <div className="mt-3 space-y-4 rounded-lg border border-myth-border bg-myth-surface p-5">
+        <p className="text-sm text-myth-ink-muted">
+          Post campaign events to a Discord or Slack channel, or to your own server as signed JSON. Channels get
+          what players would see — nothing GM-only.
+        </p>
+
+        {webhooks.length > 0 && (
+          <ul className="space-y-3">
+            {webhooks.map((webhook) => (
+              <li key={webhook.id} className="space-y-2 rounded-md border border-myth-border p-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-sm text-myth-ink">{displayUrl(webhook.url)}</span>
+                  <Badge>{FORMAT_LABELS[webhook.format]}</Badge>
+                  {!webhook.isActive && <Badge variant="locked">Paused</Badge>}
+                  {webhook.failedDeliveries > 0 && (
+                    <Badge variant="failed">{webhook.failedDeliveries} failed</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-myth-ink-faint">
+                  {webhook.events.map((type) => WEBHOOK_EVENT_LABELS[type]).join(', ')}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" variant="secondary" disabled={busyId === webhook.id} onClick={() => sendTest(webhook)}>
+                    Send Test
+                  </Button>
+                  <Button size="sm" variant="secondary" disabled={busyId === webhook.id} onClick={() => setActive(webhook, !webhook.isActive)}>
+                    {webhook.isActive ? 'Pause' : 'Resume'}
+                  </Button>
+                  {webhook.failedDeliveries > 0 && (
+                    <Button size="sm" variant="secondary" disabled={busyId === webhook.id} onClick={() => retryFailed(webhook)}>
+                      Retry Failed
+                    </Button>
+                  )}
+                  {webhook.format === 'JSON' && (
+                    <Button size="sm" variant="ghost" disabled={busyId === webhook.id} onClick={() => rotate(webhook)}>
+                      Rotate Secret
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" disabled={busyId === webhook.id} onClick={() => remove(webhook)}>
+                    Remove
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-3 border-t border-myth-border pt-4">
+          <Input
+            label="Webhook URL"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://discord.com/api/webhooks/…"
+          />
+          <Select label="Format" value={format} onChange={(e) => setFormat(e.target.value as Format)}>
+            {(Object.keys(FORMAT_LABELS) as Format[]).map((f) => (
+              <option key={f} value={f}>{FORMAT_LABELS[f]}</option>
+            ))}
+          </Select>
+          <div>
+            {WEBHOOK_EVENT_TYPES.map((type) => (
+              <Checkbox
+                key={type}
+                label={WEBHOOK_EVENT_LABELS[type]}
+                checked={events.includes(type)}
+                onChange={() => toggleEvent(type)}
+              />
+            ))}
+          </div>
+          <Button variant="secondary" onClick={create} disabled={saving || url.trim() === '' || events.length === 0}>
+            {saving ? 'Adding...' : 'Add Webhook'}
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-myth-danger">{error}</p>}
+        {notice && <p className="text-sm text-myth-ink-muted">{notice}</p>}
+        {secret && (
+          <div className="space-y-1 rounded-md border border-myth-border bg-myth-surface-sunken p-3 text-sm">
+            <p className="text-myth-ink-muted">
+              Signing secret — copy it now, it won&apos;t be shown again. Receivers check the
+              X-Mythos-Signature header with it; Discord and Slack don&apos;t need it.
+            </p>
+            <code className="block break-all font-mono text-xs text-myth-ink">{secret}</code>
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,224 @@
+'use client'
+
+// src/components/admin/WorldHistorySection.tsx
+//
+// "The world as of turn N" — the admin's view onto GET /world-history.
+// Either one past turn laid out whole (every faction's stats, every place's
+// owner and condition, every NPC's whereabouts) or two turns compared, so
+// "how did this city change hands" is a question with an answer on screen
+// instead of an afternoon in the raw tick log.
+//
+// How exact the answer is comes back with it and is shown, not hidden: a
+// turn between snapshots is a replay of the log, and the log only records
+// a faction stat when it crosses a band.
+
+import { useState } from 'react'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { SectionHeader } from '@/components/ui/section-header'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+
+type Mode = 'asOf' | 'compare'
+type Fidelity = 'live' | 'snapshot' | 'replayed' | 'rewound'
+
+interface WorldSummary {
+  turnNumber: number
+  fidelity: Fidelity
+  baseTurn: number
+  currentTurn: number
+  truncated: boolean
+  unapplied: Record<string, number>
+}
+
+interface WorldView extends WorldSummary {
+  state: {
+    factions: Record<string, { name: string; isActive: boolean; goal: string; resources: number; military: number; stability: number; influence: number }>
+    locations: Record<string, { name: string; conditionScore: number; population: number | null; weather: string }>
+    npcs: Record<string, { name: string; isAlive: boolean; currentLocation: string | null }>
+  }
+  owners: Record<string, { ownerFactionId: string | null; isContested: boolean }> | null
+}
+
+interface DiffView {
+  from: WorldSummary
+  to: WorldSummary
+  diffs: Array<{
+    kind: 'faction' | 'location' | 'npc'
+    id: string
+    name: string
+    status: 'changed' | 'appeared' | 'gone'
+    changes: Array<{ field: string; from: unknown; to: unknown }>
+  }>
+}
+
+function describeFidelity(world: WorldSummary): string {
+  switch (world.fidelity) {
+    case 'live':
+      return `Turn ${world.turnNumber} is the current turn — this is the world as it stands.`
+    case 'snapshot':
+      return `Exact: a snapshot was taken at the end of turn ${world.turnNumber}.`
+    case 'replayed':
+      return `Rebuilt from the turn ${world.baseTurn} snapshot plus the log since. Faction stats can be a few points off where they drifted without crossing a band.`
+    case 'rewound':
+      return `No snapshot reaches back this far; walked back from turn ${world.baseTurn} through the log. Faction stats are approximate.`
+  }
+}
+
+function FidelityNote({ world }: { world: WorldSummary }) {
+  const unapplied = Object.entries(world.unapplied)
+  return (
+    <div className="space-y-1 text-xs text-myth-ink-faint">
+      <p>{describeFidelity(world)}</p>
+      {world.truncated && <p>The log was too long to replay in full; the latest changes in range weren&apos;t applied.</p>}
+      {unapplied.length > 0 && (
+        <p>Changes the log couldn&apos;t apply: {unapplied.map(([field, count]) => `${field} ×${count}`).join(', ')}</p>
+      )}
+    </div>
+  )
+}
+
+const show = (value: unknown) => (value === null || value === undefined || value === '' ? '—' : String(value))
+
+export function WorldHistorySection({ campaignId }: { campaignId: string }) {
+  const [mode, setMode] = useState<Mode>('asOf')
+  const [turn, setTurn] = useState('')
+  const [fromTurn, setFromTurn] = useState('')
+  const [toTurn, setToTurn] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [world, setWorld] = useState<WorldView | null>(null)
+  const [diff, setDiff] = useState<DiffView | null>(null)
+
+  const load = async () => {
+    setLoading(true)
+    setError(null)
+    setWorld(null)
+    setDiff(null)
+    try {
+      const query = mode === 'asOf' ? `turn=${encodeURIComponent(turn)}` : `from=${encodeURIComponent(fromTurn)}&to=${encodeURIComponent(toTurn)}`
+      const response = await authenticatedFetch(`/api/campaigns/${campaignId}/world-history?${query}`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error ?? 'Could not load world history.')
+        return
+      }
+      if (mode === 'asOf') setWorld(data.world)
+      else setDiff(data.diff)
+    } catch (err) {
+      console.error('World history error:', err)
+      setError('Could not load world history.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const canLoad = !loading && (mode === 'asOf' ? turn.trim() !== '' : fromTurn.trim() !== '' && toTurn.trim() !== '')
+  const factionName = (id: string | null | undefined) =>
+    !id ? 'Unclaimed' : world?.state.factions[id]?.name ?? 'Unknown faction'
+
+  return (
+    <section>
+      <SectionHeader title="World History" />
+      <div className="mt-3 space-y-4 rounded-lg border border-myth-border bg-myth-surface p-5">
+        <p className="text-sm text-myth-ink-muted">
+          See the world as it stood at the end of a past world turn, or compare two turns to see what moved in between.
+        </p>
+        <Select label="Show" value={mode} onChange={(e) => setMode(e.target.value as Mode)}>
+          <option value="asOf">The world as of a turn</option>
+          <option value="compare">What changed between two turns</option>
+        </Select>
+        {mode === 'asOf' ? (
+          <Input label="World turn" type="number" min={0} value={turn} onChange={(e) => setTurn(e.target.value)} />
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="From turn" type="number" min={0} value={fromTurn} onChange={(e) => setFromTurn(e.target.value)} />
+            <Input label="To turn" type="number" min={0} value={toTurn} onChange={(e) => setToTurn(e.target.value)} />
+          </div>
+        )}
+        <Button variant="secondary" onClick={load} disabled={!canLoad}>
+          {loading ? 'Loading...' : mode === 'asOf' ? 'Show World' : 'Compare'}
+        </Button>
+
+        {error && <p className="text-sm text-myth-danger">{error}</p>}
+
+        {world && (
+          <div className="space-y-4 text-sm">
+            <FidelityNote world={world} />
+            <div>
+              <h4 className="mb-1 font-medium text-myth-ink">Factions</h4>
+              <ul className="space-y-1 text-myth-ink-muted">
+                {Object.entries(world.state.factions).map(([id, f]) => (
+                  <li key={id}>
+                    <span className="text-myth-ink">{f.name}</span>
+                    {!f.isActive && <span className="text-myth-danger"> (collapsed)</span>} — {f.goal}; resources {f.resources}, military{' '}
+                    {f.military}, stability {f.stability}, influence {f.influence}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h4 className="mb-1 font-medium text-myth-ink">Locations</h4>
+              {world.owners === null && (
+                <p className="text-xs text-myth-ink-faint">Borders weren&apos;t being recorded yet at this turn.</p>
+              )}
+              <ul className="space-y-1 text-myth-ink-muted">
+                {Object.entries(world.state.locations).map(([id, l]) => (
+                  <li key={id}>
+                    <span className="text-myth-ink">{l.name}</span>
+                    {world.owners?.[id] && (
+                      <> — {factionName(world.owners[id].ownerFactionId)}{world.owners[id].isContested ? ' (contested)' : ''}</>
+                    )}
+                    ; condition {l.conditionScore}, population {show(l.population)}, {l.weather.toLowerCase()}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h4 className="mb-1 font-medium text-myth-ink">NPCs</h4>
+              <ul className="space-y-1 text-myth-ink-muted">
+                {Object.entries(world.state.npcs).map(([id, n]) => (
+                  <li key={id}>
+                    <span className="text-myth-ink">{n.name}</span>
+                    {!n.isAlive && <span className="text-myth-danger"> (dead)</span>} — {show(n.currentLocation)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {diff && (
+          <div className="space-y-3 text-sm">
+            <FidelityNote world={diff.from} />
+            <FidelityNote world={diff.to} />
+            {diff.diffs.length === 0 ? (
+              <p className="text-myth-ink-muted">
+                Nothing tracked changed between turn {diff.from.turnNumber} and turn {diff.to.turnNumber}.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {diff.diffs.map((d) => (
+                  <li key={`${d.kind}:${d.id}`} className="text-myth-ink-muted">
+                    <span className="text-myth-ink">{d.name}</span> <span className="text-xs text-myth-ink-faint">{d.kind}</span>
+                    {d.status !== 'changed' ? (
+                      <span> — {d.status === 'appeared' ? `appeared by turn ${diff.to.turnNumber}` : `gone by turn ${diff.to.turnNumber}`}</span>
+                    ) : (
+                      <ul className="ml-4 text-xs">
+                        {d.changes.map((c) => (
+                          <li key={c.field}>
+                            {c.field}: {show(c.from)} → {show(c.to)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,50 @@
+// src/components/auth/OidcProviderButtons.tsx
+// "Continue with …" for each identity provider the deployment configured
+// (lib/auth/oidc.ts). Renders nothing when there are none, so a deployment
+// that never set OIDC_PROVIDERS sees the login page it always had.
+//
+// Plain links, not fetches: the start route answers with a redirect to the
+// provider and sets a cookie, both of which want a top-level navigation.
+
+'use client'
+
+import { useEffect, useState } from 'react'
+
+export function OidcProviderButtons({ returnTo }: { returnTo: string | null }) {
+  const [providers, setProviders] = useState<Array<{ id: string; name: string }>>([])
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/auth/oidc/providers')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && Array.isArray(data?.providers)) setProviders(data.providers)
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (providers.length === 0) return null
+
+  const query = returnTo ? `?returnTo=${encodeURIComponent(returnTo)}` : ''
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3 text-xs tracking-widest text-myth-ink-faint">
+        <span className="h-px flex-1 bg-myth-border" />
+        OR
+        <span className="h-px flex-1 bg-myth-border" />
+      </div>
+      {providers.map((provider) => (
+        <a
+          key={provider.id}
+          href={`/api/auth/oidc/${provider.id}/start${query}`}
+          className="flex min-h-[44px] w-full touch-manipulation items-center justify-center rounded-lg border border-myth-border bg-myth-surface-raised px-4 text-sm font-semibold text-myth-ink transition-colors hover:bg-myth-surface-sunken"
+        >
+          Continue with {provider.name}
+        </a>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+// src/components/auth/TwoFactorLoginStep.tsx
+// The second half of signing in to an account with 2FA on: an
+// authenticator code, or one recovery code, against the challenge the
+// first half returned. Shared by the password login and identity-provider
+// sign-in (/auth/oidc), which both end in the same challenge.
+
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, LogIn, ShieldCheck } from 'lucide-react'
+import { completeTwoFactorLogin } from '@/lib/clientAuth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface TwoFactorLoginStepProps {
+  challengeToken: string
+  /** Called once the session is stored. */
+  onSignedIn: () => void
+  /** Back to the first step — with a message when the challenge expired under them. */
+  onBack: (message?: string) => void
+}
+
+export function TwoFactorLoginStep({ challengeToken, onSignedIn, onBack }: TwoFactorLoginStepProps) {
+  const [code, setCode] = useState('')
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      await completeTwoFactorLogin(challengeToken, useRecoveryCode ? { recoveryCode: code } : { code })
+      onSignedIn()
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Login failed'
+      // An expired challenge can't be retried with another code.
+      if (message.startsWith('This sign-in has expired')) {
+        onBack(message)
+        return
+      }
+      setError(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      {error && (
+        <div className="flex items-center gap-2 rounded-lg border border-myth-danger/30 bg-myth-danger/10 px-4 py-3 text-sm text-myth-ink">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 text-myth-danger" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <p className="flex items-start gap-2 text-sm text-myth-ink-muted">
+        <ShieldCheck className="mt-0.5 h-4 w-4 flex-shrink-0 text-myth-accent" />
+        <span>
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication. Each works once.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </span>
+      </p>
+
+      <Input
+        id="two-factor-code"
+        type="text"
+        label={useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+        required
+        autoFocus
+        autoComplete="one-time-code"
+        inputMode={useRecoveryCode ? 'text' : 'numeric'}
+      />
+
+      <Button type="submit" size="lg" fullWidth loading={loading} icon={LogIn}>
+        {loading ? 'Verifying…' : 'Verify'}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => { setUseRecoveryCode((v) => !v); setCode(''); setError('') }}
+          className="min-h-[44px] touch-manipulation text-myth-ink-faint transition-colors hover:text-myth-ink"
+        >
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onBack()}
+          className="min-h-[44px] touch-manipulation text-myth-ink-faint transition-colors hover:text-myth-ink"
+        >
+          Back
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -11,6 +11,11 @@
 // bannerIconFor(id) — one emblem per campaign, shown small and always,
 // or large and faded when there's no art to look at instead.
 //
+// A fork carries a quiet "Branched from <parent> · <point>" line under the
+// premise, so two campaigns sharing a world's history read as related in
+// the grid rather than as a mysterious duplicate. `forkedFrom` is null
+// when the parent has since been deleted; the point is still shown.
+//
 // Sizing deliberately mirrors CampaignHero.tsx's proven pattern: the text
 // block is normal flow and sets the card's actual height; the image is
 // absolutely positioned to fill whatever that resolves to. An earlier
@@ -20,10 +25,11 @@
 
 'use client'
 
-import { Pencil, Trash2, Users, BookOpen, ChevronRight } from 'lucide-react'
+import { Pencil, Trash2, Users, BookOpen, ChevronRight, GitBranch } from 'lucide-react'
 import { bannerIconFor, formatRelativeTime } from '@/lib/tavernUtils'
 import { pluralize } from '@/lib/format'
 import { IconButton } from '@/components/ui/icon-button'
+import { can, type CampaignMemberRole } from '@/lib/api/campaignPermissions'
 
 export function CampaignChronicleCard({
   id,
@@ -35,6 +41,8 @@ export function CampaignChronicleCard({
   heroImageStatus,
   playerCount,
   sessionCount,
+  forkedFrom,
+  forkPoint,
   deleting,
   onEnter,
   onEdit,
@@ -43,17 +51,21 @@ export function CampaignChronicleCard({
   id: string
   title: string
   description: string
-  userRole: 'ADMIN' | 'PLAYER'
+  userRole: CampaignMemberRole
   updatedAt: string
   heroImageUrl?: string | null
   heroImageStatus?: string | null
   playerCount: number
   sessionCount: number
+  forkedFrom?: { id: string; title: string } | null
+  forkPoint?: string | null
   deleting: boolean
   onEnter: () => void
   onEdit: () => void
   onDelete: () => void
 }) {
+  // Edit opens campaign settings; delete is the same admin-only tier.
+  const canManage = can(userRole, 'campaign.settings')
   const BannerIcon = bannerIconFor(id)
   const hasImage = heroImageStatus === 'READY' && !!heroImageUrl
 
@@ -88,7 +100,7 @@ export function CampaignChronicleCard({
         </div>
       )}
 
-      {userRole === 'ADMIN' && (
+      {canManage && (
         <div className="absolute right-3 top-3 z-10 flex gap-2 opacity-80 transition-opacity group-hover:opacity-100">
           <IconButton
             icon={Pencil}
@@ -127,7 +139,7 @@ export function CampaignChronicleCard({
             Edit/Delete buttons, which are absolutely positioned in this
             same top-right corner. Without it a title long enough to wrap
             ran straight under them. */}
-        <div className={`flex items-start gap-3 ${userRole === 'ADMIN' ? 'pr-[5.5rem]' : ''}`}>
+        <div className={`flex items-start gap-3 ${canManage ? 'pr-[5.5rem]' : ''}`}>
           <span
             aria-hidden
             className="mt-0.5 inline-flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-lg border border-myth-gold/40 bg-myth-canvas/70 text-myth-gold backdrop-blur-sm"
@@ -143,6 +155,17 @@ export function CampaignChronicleCard({
           &ldquo;{description || 'A new world, waiting to be written.'}&rdquo;
         </p>
 
+        {forkPoint && (
+          <p className="flex min-w-0 items-center gap-1.5 text-xs text-myth-ink-faint">
+            <GitBranch aria-hidden className="h-3.5 w-3.5 flex-shrink-0" />
+            <span className="truncate">
+              Branched from {forkedFrom ? <span className="text-myth-ink-muted">{forkedFrom.title}</span> : 'a deleted campaign'}
+              {' · '}
+              {forkPoint}
+            </span>
+          </p>
+        )}
+
         {/* Hairline rule separating the world's identity from its
             bookkeeping — the mockup's divider. */}
         <div className="mt-2 h-px w-full bg-myth-border" />
@@ -5,6 +5,9 @@ import { ArrowRight } from 'lucide-react'
 // under the title/description, matching the mockup's single cohesive
 // title -> subtitle -> button hero block rather than a separate CTA card
 // below it.
+//
+// Without onCreateCharacter (a spectator, who can't own one) there is
+// nothing to create — the CTA goes straight to the story instead.
 export function CampaignEntryCTA({
   campaignId,
   hasCharacter,
@@ -12,14 +15,14 @@ export function CampaignEntryCTA({
 }: {
   campaignId: string
   hasCharacter: boolean
-  onCreateCharacter: () => void
+  onCreateCharacter?: () => void
 }) {
   const className =
     'mt-5 inline-flex items-center gap-2 rounded-full bg-myth-accent px-6 py-3 text-sm font-medium text-myth-accent-ink transition-colors hover:bg-myth-accent-hover focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-myth-accent focus-visible:ring-offset-2'
 
-  return hasCharacter ? (
+  return hasCharacter || !onCreateCharacter ? (
     <Link href={`/campaigns/${campaignId}/story`} className={className}>
-      Enter Story
+      {hasCharacter ? 'Enter Story' : 'Follow the Story'}
       <ArrowRight className="h-4 w-4" />
     </Link>
   ) : (
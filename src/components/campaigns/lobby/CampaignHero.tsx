@@ -55,7 +55,8 @@ export function CampaignHero({
   heroImageStatus?: string | null
   isAdmin?: boolean
   hasCharacter: boolean
-  onCreateCharacter: () => void
+  /** Absent for members who can't own a character (spectators). */
+  onCreateCharacter?: () => void
 }) {
   const [imageUrl, setImageUrl] = useState(heroImageUrl ?? null)
   const [status, setStatus] = useState(heroImageStatus ?? 'NONE')
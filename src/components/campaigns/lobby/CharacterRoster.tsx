@@ -33,7 +33,8 @@ export function CharacterRoster({
   currentUserId: string | undefined
   campaignId: string
   activePlayerCount: number
-  onCreateCharacter: () => void
+  /** Absent for members who can't own a character (spectators). */
+  onCreateCharacter?: () => void
   onDeleteCharacter: (characterId: string) => void
 }) {
   const [filter, setFilter] = useState<'all' | 'yours'>('all')
@@ -60,17 +61,23 @@ export function CharacterRoster({
               ]}
             />
           )}
-          <Button variant="ghost" size="sm" className="-mr-3" type="button" onClick={onCreateCharacter}>
-            + Create Character
-          </Button>
+          {onCreateCharacter && (
+            <Button variant="ghost" size="sm" className="-mr-3" type="button" onClick={onCreateCharacter}>
+              + Create Character
+            </Button>
+          )}
         </div>
       </div>
 
       {characters.length === 0 ? (
         <EmptyState
           title="No characters yet"
-          description="Create the first character to start playing in this campaign."
-          action={{ label: 'Create Character', onClick: onCreateCharacter }}
+          description={
+            onCreateCharacter
+              ? 'Create the first character to start playing in this campaign.'
+              : 'Nobody has created a character in this campaign yet.'
+          }
+          action={onCreateCharacter ? { label: 'Create Character', onClick: onCreateCharacter } : undefined}
         />
       ) : (
         <div className="space-y-2">
@@ -1,8 +1,10 @@
 
 import { Button } from '@/components/ui/button'
+import { CAMPAIGN_ROLE_LABELS, type CampaignMemberRole } from '@/lib/api/campaignPermissions'
+
 interface Membership {
   id: string
-  role: 'ADMIN' | 'PLAYER'
+  role: CampaignMemberRole
   user: { id: string; name?: string | null; email: string; isOnline?: boolean }
 }
 
@@ -46,7 +48,7 @@ export function PlayersPanel({
                 <span className="truncate text-sm text-myth-ink">{member.user.name || member.user.email}</span>
               </div>
               <div className="flex shrink-0 items-center gap-2">
-                <span className="font-mono text-[10px] uppercase tracking-wide text-myth-ink-faint">{member.role}</span>
+                <span className="font-mono text-[10px] uppercase tracking-wide text-myth-ink-faint">{CAMPAIGN_ROLE_LABELS[member.role]}</span>
                 {!isSelf && (
                   <button
                     type="button"
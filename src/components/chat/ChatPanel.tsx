@@ -10,6 +10,7 @@ import { Button } from '@/components/ui/button'
 import { Select } from '@/components/ui/select'
 import { Input } from '@/components/ui/input'
 import { Tabs } from '@/components/ui/tabs'
+import { can } from '@/lib/api/campaignPermissions'
 
 interface ChatPanelProps {
   campaignId: string;
@@ -18,6 +19,7 @@ interface ChatPanelProps {
   userCharacters: Array<{ id: string; name: string; }>;
   sceneId?: string;
   icOnly?: boolean; // If true, only show IC messages and force IC mode
+  readOnly?: boolean; // Spectators: follow the table's talk, post nothing
 }
 
 type MessageType = 'OUT_OF_CHARACTER' | 'IN_CHARACTER' | 'WHISPER';
@@ -28,7 +30,8 @@ export default function ChatPanel({
   currentUserName,
   userCharacters,
   sceneId,
-  icOnly = false
+  icOnly = false,
+  readOnly = false
 }: ChatPanelProps) {
   const [messages, setMessages] = useState<RealtimeMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
@@ -144,11 +147,15 @@ export default function ChatPanel({
 
       if (response.ok) {
         const data = await response.json();
-        setCampaignMembers(data.members.map((m: any) => ({
-          id: m.user.id,
-          name: m.user.name || m.user.email,
-          email: m.user.email
-        })));
+        // Only members who can receive a whisper are offered as targets —
+        // the route refuses one to a spectator anyway.
+        setCampaignMembers(data.members
+          .filter((m: any) => can(m.role, 'messages.whispers'))
+          .map((m: any) => ({
+            id: m.user.id,
+            name: m.user.name || m.user.email,
+            email: m.user.email
+          })));
       }
     } catch (error) {
       console.error('Error fetching campaign members:', error);
@@ -308,77 +315,83 @@ export default function ChatPanel({
         <div ref={messagesEndRef} />
       </div>
 
-      {/* Input Area */}
-      <div className="p-4 border-t border-myth-border">
-        {/* Message Type Controls - hide if IC only mode */}
-        {!icOnly && (
-          <Tabs
-            variant="pill"
-            aria-label="Message type"
-            value={messageType}
-            onChange={(v) => setMessageType(v as typeof messageType)}
-            className="mb-3 self-start"
-            items={[
-              { key: 'OUT_OF_CHARACTER', label: 'OOC' },
-              { key: 'IN_CHARACTER', label: 'IC' },
-              { key: 'WHISPER', label: 'Whisper' },
-            ]}
-          />
-        )}
-
-        {/* Character Selection for IC */}
-        {(messageType === 'IN_CHARACTER' || icOnly) && (
-          <Select
-            wrapperClassName="w-full mb-3"
-            value={selectedCharacter}
-            onChange={(e) => setSelectedCharacter(e.target.value)}
-            required
-          >
-            <option value="">Select Character...</option>
-            {userCharacters.map(char => (
-              <option key={char.id} value={char.id}>{char.name}</option>
-            ))}
-          </Select>
-        )}
-
-        {/* Whisper Target Selection */}
-        {messageType === 'WHISPER' && !icOnly && (
-          <Select
-            wrapperClassName="w-full mb-3"
-            value={whisperTarget}
-            onChange={(e) => setWhisperTarget(e.target.value)}
-            required
-          >
-            <option value="">Whisper to...</option>
-            {campaignMembers.filter(m => m.id !== currentUserId).map(member => (
-              <option key={member.id} value={member.id}>{member.name}</option>
-            ))}
-          </Select>
-        )}
-
-        {/* Message Input */}
-        <form onSubmit={sendMessage} className="flex gap-2">
-          <Input
-            wrapperClassName="flex-1"
-            type="text"
-            value={newMessage}
-            onChange={(e) => handleInputChange(e.target.value)}
-            placeholder={
-              messageType === 'WHISPER' ? 'Type your whisper...' :
-              messageType === 'IN_CHARACTER' ? 'Say something in character...' :
-              'Type your message...'
-            }
-            disabled={loading}
-          />
-          <Button
-            variant="primary"
-            type="submit"
-            disabled={loading || !newMessage.trim()}
-          >
-            Send
-          </Button>
-        </form>
-      </div>
+      {/* Input Area — not offered to spectators */}
+      {readOnly ? (
+        <p className="p-4 border-t border-myth-border text-sm text-myth-ink-faint italic">
+          You&apos;re spectating — you can follow the table&apos;s talk but not post.
+        </p>
+      ) : (
+        <div className="p-4 border-t border-myth-border">
+          {/* Message Type Controls - hide if IC only mode */}
+          {!icOnly && (
+            <Tabs
+              variant="pill"
+              aria-label="Message type"
+              value={messageType}
+              onChange={(v) => setMessageType(v as typeof messageType)}
+              className="mb-3 self-start"
+              items={[
+                { key: 'OUT_OF_CHARACTER', label: 'OOC' },
+                { key: 'IN_CHARACTER', label: 'IC' },
+                { key: 'WHISPER', label: 'Whisper' },
+              ]}
+            />
+          )}
+
+          {/* Character Selection for IC */}
+          {(messageType === 'IN_CHARACTER' || icOnly) && (
+            <Select
+              wrapperClassName="w-full mb-3"
+              value={selectedCharacter}
+              onChange={(e) => setSelectedCharacter(e.target.value)}
+              required
+            >
+              <option value="">Select Character...</option>
+              {userCharacters.map(char => (
+                <option key={char.id} value={char.id}>{char.name}</option>
+              ))}
+            </Select>
+          )}
+
+          {/* Whisper Target Selection */}
+          {messageType === 'WHISPER' && !icOnly && (
+            <Select
+              wrapperClassName="w-full mb-3"
+              value={whisperTarget}
+              onChange={(e) => setWhisperTarget(e.target.value)}
+              required
+            >
+              <option value="">Whisper to...</option>
+              {campaignMembers.filter(m => m.id !== currentUserId).map(member => (
+                <option key={member.id} value={member.id}>{member.name}</option>
+              ))}
+            </Select>
+          )}
+
+          {/* Message Input */}
+          <form onSubmit={sendMessage} className="flex gap-2">
+            <Input
+              wrapperClassName="flex-1"
+              type="text"
+              value={newMessage}
+              onChange={(e) => handleInputChange(e.target.value)}
+              placeholder={
+                messageType === 'WHISPER' ? 'Type your whisper...' :
+                messageType === 'IN_CHARACTER' ? 'Say something in character...' :
+                'Type your message...'
+              }
+              disabled={loading}
+            />
+            <Button
+              variant="primary"
+              type="submit"
+              disabled={loading || !newMessage.trim()}
+            >
+              Send
+            </Button>
+          </form>
+        </div>
+      )}
     </div>
   );
 }
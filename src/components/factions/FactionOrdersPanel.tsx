@@ -0,0 +1,353 @@
+'use client'
+
+// The faction orders screen — a PC leader's one order per world turn for
+// the faction they lead (see lib/game/factionOrders/). Self-fetching, like
+// WorldAtlas: the page shell only hosts it.
+//
+// Everything here arrives from the server already in bands and already
+// fog-filtered (queue.ts); the panel never sees the faction's numbers, so
+// it can't show them. A GM sees the same screen read-only.
+
+import { useCallback, useEffect, useState } from 'react'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { describeConditionTag } from '@/lib/game/entityStats'
+import type { FactionOrdersView, FactionOrderView } from '@/lib/game/factionOrders/queue'
+import { EmptyState } from '@/components/ui/empty-state'
+
+type OrderType = FactionOrderView['type']
+
+const ORDER_LABELS: Record<OrderType, { label: string; hint: string }> = {
+  MUSTER: { label: 'Muster', hint: 'Turn treasury into soldiers.' },
+  FORTIFY: { label: 'Fortify', hint: 'Shore up a place the faction holds.' },
+  OPEN_SUPPLY_ROUTE: { label: 'Open a supply route', hint: 'Link two places the faction holds.' },
+  SEND_ENVOY: { label: 'Send an envoy', hint: 'Offer terms — they answer next turn.' },
+  CALL_IN_DEBT: { label: 'Call in a debt', hint: 'Demand what another faction owes.' },
+  JOIN_WAR: { label: 'Join a war', hint: 'Commit the army to someone else’s war.' },
+  CONTAIN_HAZARD: { label: 'Send relief', hint: 'Help against a plague, famine, fire or flood — anyone’s.' },
+}
+
+const HAZARD_LABELS: Record<string, string> = {
+  PLAGUE: 'Plague',
+  FAMINE: 'Famine',
+  WILDFIRE: 'Wildfire',
+  FLOOD: 'Flood',
+}
+
+const TERMS_LABELS: Record<string, string> = {
+  CEASEFIRE: 'A ceasefire',
+  TRIBUTE: 'Tribute',
+  VASSALAGE: 'Submission',
+  NON_AGGRESSION: 'A non-aggression pact',
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  QUEUED: 'Waiting',
+  CARRIED_OUT: 'Done',
+  FAILED: 'Came to nothing',
+}
+
+interface Draft {
+  type: OrderType
+  levy: string
+  locationId: string
+  toLocationId: string
+  targetFactionId: string
+  treatyType: string
+  debtId: string
+  warId: string
+  side: string
+  hazardId: string
+}
+
+const EMPTY_DRAFT: Draft = {
+  type: 'MUSTER',
+  levy: 'MODEST',
+  locationId: '',
+  toLocationId: '',
+  targetFactionId: '',
+  treatyType: '',
+  debtId: '',
+  warId: '',
+  side: 'ATTACKER',
+  hazardId: '',
+}
+
+const selectClass = 'w-full rounded-md border border-myth-border bg-myth-surface-sunken px-2 py-1 text-sm text-myth-ink'
+const buttonClass =
+  'rounded-md border border-myth-border px-3 py-1 text-sm text-myth-ink hover:bg-myth-surface-sunken disabled:opacity-50'
+
+export function FactionOrdersPanel({ campaignId, factionId }: { campaignId: string; factionId: string }) {
+  const [view, setView] = useState<FactionOrdersView | null>(null)
+  const [canCommand, setCanCommand] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT)
+  const [pending, setPending] = useState(false)
+  const [refusal, setRefusal] = useState<string | null>(null)
+
+  const url = `/api/campaigns/${campaignId}/factions/${factionId}/orders`
+
+  const load = useCallback(async () => {
+    try {
+      const res = await authenticatedFetch(url)
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'Failed to load the faction’s orders')
+      setView(data.orders)
+      setCanCommand(!!data.canCommand)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the faction’s orders')
+    } finally {
+      setLoading(false)
+    }
+  }, [url])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const send = async (method: 'POST' | 'DELETE') => {
+    setPending(true)
+    setRefusal(null)
+    try {
+      const res = await authenticatedFetch(url, {
+        method,
+        ...(method === 'POST'
+          ? {
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                type: draft.type,
+                levy: draft.levy,
+                locationId: draft.locationId || null,
+                toLocationId: draft.toLocationId || null,
+                targetFactionId: draft.targetFactionId || null,
+                treatyType: draft.treatyType || null,
+                debtId: draft.debtId || null,
+                warId: draft.warId || null,
+                side: draft.side || null,
+                hazardId: draft.hazardId || null,
+              }),
+            }
+          : {}),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || 'The order could not be given')
+      await load()
+    } catch (err) {
+      setRefusal(err instanceof Error ? err.message : 'The order could not be given')
+    } finally {
+      setPending(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="h-16 w-16 animate-spin rounded-full border-b-2 border-myth-accent" />
+      </div>
+    )
+  }
+
+  if (error || !view) {
+    return (
+      <div className="rounded-lg border border-myth-danger/30 bg-myth-danger/10 p-6">
+        <p className="text-myth-danger">{error || 'Failed to load the faction’s orders'}</p>
+      </div>
+    )
+  }
+
+  const { faction, options } = view
+  const envoyTarget = options.factions.find((f) => f.id === draft.targetFactionId)
+  const set = (patch: Partial<Draft>) => setDraft((d) => ({ ...d, ...patch }))
+
+  return (
+    <div className="space-y-6">
+      <section className="rounded-lg border border-myth-border bg-myth-surface p-5">
+        <h2 className="text-lg font-semibold text-myth-ink">{faction.name}</h2>
+        {view.leader && <p className="text-sm text-myth-ink-muted">Led by {view.leader.name}</p>}
+        <dl className="mt-3 grid grid-cols-2 gap-x-6 gap-y-1 text-sm sm:grid-cols-4">
+          <dt className="text-myth-ink-faint">Aim</dt>
+          <dd className="text-myth-ink">{faction.goal.replace('_', ' ').toLowerCase()}</dd>
+          <dt className="text-myth-ink-faint">Treasury</dt>
+          <dd className="text-myth-ink">{faction.resources}</dd>
+          <dt className="text-myth-ink-faint">Army</dt>
+          <dd className="text-myth-ink">{faction.military}</dd>
+          <dt className="text-myth-ink-faint">Stability</dt>
+          <dd className="text-myth-ink">{faction.stability}</dd>
+        </dl>
+      </section>
+
+      <section className="rounded-lg border border-myth-border bg-myth-surface p-5">
+        <h3 className="font-medium text-myth-ink">This turn&apos;s order</h3>
+        <p className="mb-3 mt-1 text-xs text-myth-ink-faint">
+          One order a turn, carried out when the world next moves. What comes of it is the world&apos;s to decide.
+        </p>
+
+        {view.queued ? (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-myth-border p-3">
+            <span className="text-sm text-myth-ink">{view.queued.summary}</span>
+            {canCommand && (
+              <button type="button" disabled={pending} onClick={() => send('DELETE')} className={buttonClass}>
+                Withdraw
+              </button>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-myth-ink-muted">No order given yet.</p>
+        )}
+
+        {canCommand && (
+          <div className="mt-4 space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(ORDER_LABELS) as OrderType[]).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => set({ type })}
+                  className={`${buttonClass} ${draft.type === type ? 'border-myth-accent text-myth-accent' : ''}`}
+                >
+                  {ORDER_LABELS[type].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-myth-ink-faint">{ORDER_LABELS[draft.type].hint}</p>
+
+            {draft.type === 'MUSTER' && (
+              <select className={selectClass} value={draft.levy} onChange={(e) => set({ levy: e.target.value })} aria-label="Levy">
+                {options.levies.map((levy) => (
+                  <option key={levy} value={levy}>
+                    {levy === 'HEAVY' ? 'A heavy levy' : 'A modest levy'}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {(draft.type === 'FORTIFY' || draft.type === 'OPEN_SUPPLY_ROUTE') && (
+              <select className={selectClass} value={draft.locationId} onChange={(e) => set({ locationId: e.target.value })} aria-label="Place">
+                <option value="">{draft.type === 'FORTIFY' ? 'Which place?' : 'From…'}</option>
+                {options.locations.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name} — {l.condition.map(describeConditionTag).join(', ')}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {draft.type === 'OPEN_SUPPLY_ROUTE' && (
+              <select className={selectClass} value={draft.toLocationId} onChange={(e) => set({ toLocationId: e.target.value })} aria-label="To">
+                <option value="">To…</option>
+                {options.locations.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {draft.type === 'SEND_ENVOY' && (
+              <>
+                <select
+                  className={selectClass}
+                  value={draft.targetFactionId}
+                  onChange={(e) => set({ targetFactionId: e.target.value, treatyType: '' })}
+                  aria-label="To whom"
+                >
+                  <option value="">To whom?</option>
+                  {options.factions.map((f) => (
+                    <option key={f.id} value={f.id}>
+                      {f.name}
+                      {f.atWarWith ? ' (at war)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {envoyTarget && (
+                  <select className={selectClass} value={draft.treatyType} onChange={(e) => set({ treatyType: e.target.value })} aria-label="Terms">
+                    <option value="">Carrying what?</option>
+                    {envoyTarget.terms.map((t) => (
+                      <option key={t} value={t}>
+                        {TERMS_LABELS[t] ?? t}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </>
+            )}
+
+            {draft.type === 'CALL_IN_DEBT' &&
+              (options.debts.length === 0 ? (
+                <p className="text-sm text-myth-ink-muted">No one owes the faction anything.</p>
+              ) : (
+                <select className={selectClass} value={draft.debtId} onChange={(e) => set({ debtId: e.target.value })} aria-label="Debt">
+                  <option value="">Whose debt?</option>
+                  {options.debts.map((d) => (
+                    <option key={d.id} value={d.id}>
+                      What {d.debtorName} owes
+                    </option>
+                  ))}
+                </select>
+              ))}
+
+            {draft.type === 'JOIN_WAR' &&
+              (options.wars.length === 0 ? (
+                <p className="text-sm text-myth-ink-muted">No war the faction knows of is there to join.</p>
+              ) : (
+                <>
+                  <select className={selectClass} value={draft.warId} onChange={(e) => set({ warId: e.target.value })} aria-label="War">
+                    <option value="">Which war?</option>
+                    {options.wars.map((w) => (
+                      <option key={w.id} value={w.id}>
+                        {w.name} — {w.attackerName} against {w.defenderName}
+                      </option>
+                    ))}
+                  </select>
+                  <select className={selectClass} value={draft.side} onChange={(e) => set({ side: e.target.value })} aria-label="Side">
+                    <option value="ATTACKER">With the attackers</option>
+                    <option value="DEFENDER">With the defenders</option>
+                  </select>
+                </>
+              ))}
+
+            {draft.type === 'CONTAIN_HAZARD' &&
+              (options.hazards.length === 0 ? (
+                <p className="text-sm text-myth-ink-muted">No disaster the faction knows of needs help.</p>
+              ) : (
+                <select className={selectClass} value={draft.hazardId} onChange={(e) => set({ hazardId: e.target.value })} aria-label="Disaster">
+                  <option value="">Where?</option>
+                  {options.hazards.map((h) => (
+                    <option key={h.id} value={h.id}>
+                      {HAZARD_LABELS[h.type] ?? h.type} in {h.locationName}
+                    </option>
+                  ))}
+                </select>
+              ))}
+
+            {refusal && <p className="text-sm text-myth-danger">{refusal}</p>}
+            <button type="button" disabled={pending} onClick={() => send('POST')} className={buttonClass}>
+              {view.queued ? 'Give this order instead' : 'Give the order'}
+            </button>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h3 className="mb-2 font-medium text-myth-ink">Past orders</h3>
+        {view.history.length === 0 ? (
+          <EmptyState title="No orders yet" description="What the faction was told to do, and what came of it, shows here" />
+        ) : (
+          <ul className="space-y-2">
+            {view.history.map((o) => (
+              <li key={o.id} className="rounded-md border border-myth-border bg-myth-surface p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-myth-ink">{o.summary}</span>
+                  <span className={`text-xs ${o.status === 'FAILED' ? 'text-myth-danger' : 'text-myth-ink-faint'}`}>
+                    {STATUS_LABELS[o.status] ?? o.status}
+                  </span>
+                </div>
+                {o.outcome && <p className="mt-1 text-xs text-myth-ink-muted">{o.outcome}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  )
+}
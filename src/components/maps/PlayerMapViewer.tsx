@@ -21,6 +21,14 @@ export interface PlayerMapViewerProps {
   map: MapData | null
   characterName: string
   onZoneInteract?: (zone: MapData['zones'][0]) => void
+  /**
+   * Tactical mode: whether this viewer may drag a token. The server
+   * decides for real (the token route); this only keeps the cursor from
+   * offering a drag that would be refused.
+   */
+  canMoveToken?: (token: MapData['tokens'][0]) => boolean
+  /** Called on drop with the map-space point; the caller snaps and saves. */
+  onTokenMove?: (token: MapData['tokens'][0], x: number, y: number) => void
   className?: string
 }
 
@@ -37,6 +45,8 @@ export function PlayerMapViewer({
   map,
   characterName,
   onZoneInteract,
+  canMoveToken,
+  onTokenMove,
   className = ''
 }: PlayerMapViewerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -57,7 +67,17 @@ export function PlayerMapViewer({
     data: MapData['tokens'][0] | MapData['zones'][0]
   } | null>(null)
 
-  // Draw the map for players (read-only view)
+  // A token being dragged in tactical mode: where it's drawn until the
+  // drop, and where in the token the pointer grabbed it.
+  const [draggedToken, setDraggedToken] = useState<{
+    id: string
+    x: number
+    y: number
+    grabX: number
+    grabY: number
+  } | null>(null)
+
+  // Draw the map for players (read-only outside tactical mode)
   const drawMap = useCallback(() => {
     const canvas = canvasRef.current
     if (!canvas || !map) return
@@ -92,7 +112,7 @@ export function PlayerMapViewer({
 
     ctx.restore()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [map, viewState, hoveredElement, characterName])
+  }, [map, viewState, hoveredElement, characterName, draggedToken])
 
   // Draw only elements that players should see
   const drawVisibleElements = (ctx: CanvasRenderingContext2D) => {
@@ -131,9 +151,12 @@ export function PlayerMapViewer({
     })
 
     // Draw visible tokens
-    map.tokens.forEach(token => {
-      if (!token.isVisible) return
+    map.tokens.forEach(placed => {
+      if (!placed.isVisible) return
 
+      const token = draggedToken?.id === placed.id
+        ? { ...placed, x: draggedToken.x, y: draggedToken.y }
+        : placed
       const tokenSize = token.size * map.gridSize
       const centerX = token.x + tokenSize / 2
       const centerY = token.y + tokenSize / 2
@@ -259,7 +282,16 @@ export function PlayerMapViewer({
     const { x, y } = screenToMap(e.clientX, e.clientY)
     const element = findElementAt(x, y)
 
-    if (element?.type === 'zone' && element.data.triggerType) {
+    if (element?.type === 'token' && onTokenMove && canMoveToken?.(element.data)) {
+      // Pick the token up rather than panning the map.
+      setDraggedToken({
+        id: element.id,
+        x: element.data.x,
+        y: element.data.y,
+        grabX: x - element.data.x,
+        grabY: y - element.data.y
+      })
+    } else if (element?.type === 'zone' && element.data.triggerType) {
       // Interact with zone
       if (onZoneInteract) {
         onZoneInteract(element.data)
@@ -277,6 +309,11 @@ export function PlayerMapViewer({
   const handleMouseMove = (e: React.MouseEvent) => {
     const { x, y } = screenToMap(e.clientX, e.clientY)
     
+    if (draggedToken) {
+      setDraggedToken(prev => prev && { ...prev, x: x - prev.grabX, y: y - prev.grabY })
+      return
+    }
+
     // Update hover state
     const element = findElementAt(x, y)
     setHoveredElement(element)
@@ -296,6 +333,17 @@ export function PlayerMapViewer({
   }
 
   const handleMouseUp = () => {
+    if (draggedToken) {
+      const token = map?.tokens.find(t => t.id === draggedToken.id)
+      setDraggedToken(null)
+      // Half a square in from the corner, so the server's snap rounds to
+      // the nearest square instead of always up and to the left.
+      if (token && map && onTokenMove) {
+        const half = map.gridSize / 2
+        onTokenMove(token, draggedToken.x + half, draggedToken.y + half)
+      }
+      return
+    }
     setViewState(prev => ({
       ...prev,
       isDragging: false
@@ -386,6 +434,7 @@ export function PlayerMapViewer({
           onMouseUp={handleMouseUp}
           onMouseLeave={() => {
             setHoveredElement(null)
+            setDraggedToken(null)
             setViewState(prev => ({ ...prev, isDragging: false }))
           }}
         />
@@ -470,7 +519,7 @@ export function PlayerMapViewer({
       {/* Status Indicator */}
       <div className="absolute bottom-2 right-2 sm:bottom-4 sm:right-4 flex flex-col items-end gap-1 sm:flex-row sm:gap-2">
         <Badge variant="neutral">
-          AI Generated
+          {onTokenMove ? 'Tactical' : 'AI Generated'}
         </Badge>
         <Badge variant="neutral">
           Zoom: {Math.round(viewState.zoom * 100)}%
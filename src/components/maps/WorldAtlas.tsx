@@ -0,0 +1,356 @@
+'use client'
+
+// The world atlas — the location graph drawn as a living map (see
+// lib/game/atlas/loadAtlas.ts for what's in it and how fog of war cuts
+// it down). Self-fetching, like IntegrityPanel: the page shell only hosts
+// it.
+//
+// Positions arrive from the server already laid out, so this only scales
+// them into an SVG. The turn slider swaps in a recorded border frame; every
+// other overlay (routes, wars, weather, condition) is live state, which the
+// panel says whenever the slider is off the present.
+
+import { useEffect, useMemo, useState } from 'react'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { describeConditionTag, describeWeather } from '@/lib/game/entityStats'
+import { frameAtTurn, type FrameOwners } from '@/lib/game/atlas/territoryFrames'
+import type { AtlasLocation, AtlasView } from '@/lib/game/atlas/loadAtlas'
+import { EmptyState } from '@/components/ui/empty-state'
+
+// Mirrors UNKNOWN_OWNER in loadAtlas.ts — not imported, since that module
+// pulls in the Prisma client.
+const UNKNOWN_OWNER = 'unknown'
+
+const SIZE = 1000
+const NODE_RADIUS = 14
+
+/**
+ * A stable colour per faction, so a faction keeps its colour across
+ * visits and across the turn slider. Hashed from the id rather than
+ * assigned by list position — a faction discovered later would otherwise
+ * repaint everyone after it.
+ */
+function factionColor(factionId: string): string {
+  let hash = 0
+  for (let i = 0; i < factionId.length; i++) hash = (hash * 31 + factionId.charCodeAt(i)) | 0
+  return `hsl(${Math.abs(hash) % 360} 55% 52%)`
+}
+
+function ownerFill(ownerFactionId: string | null): string {
+  if (ownerFactionId === null) return 'rgb(var(--myth-surface-raised))'
+  if (ownerFactionId === UNKNOWN_OWNER) return 'rgb(var(--myth-ink-faint))'
+  return factionColor(ownerFactionId)
+}
+
+interface Overlays {
+  routes: boolean
+  wars: boolean
+  weather: boolean
+}
+
+export function WorldAtlas({ campaignId }: { campaignId: string }) {
+  const [atlas, setAtlas] = useState<AtlasView | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [turn, setTurn] = useState<number | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [overlays, setOverlays] = useState<Overlays>({ routes: true, wars: true, weather: false })
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      try {
+        const res = await authenticatedFetch(`/api/campaigns/${campaignId}/atlas`)
+        if (!res.ok) throw new Error('Failed to load the atlas')
+        const data = await res.json()
+        if (!cancelled) setAtlas(data.atlas)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the atlas')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [campaignId])
+
+  const viewingTurn = turn ?? atlas?.currentTurn ?? 0
+  const isPresent = !atlas || viewingTurn >= atlas.currentTurn
+
+  // Live borders for the present; the recorded frame in force at the
+  // chosen turn otherwise. A turn before the first frame has no borders to
+  // show, which the panel says rather than drawing everyone as unclaimed.
+  const owners: FrameOwners | null = useMemo(() => {
+    if (!atlas) return null
+    if (isPresent) {
+      const live: FrameOwners = {}
+      for (const l of atlas.locations) live[l.id] = { ownerFactionId: l.ownerFactionId, isContested: l.isContested }
+      return live
+    }
+    return frameAtTurn(atlas.frames, viewingTurn)?.owners ?? null
+  }, [atlas, isPresent, viewingTurn])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <div className="h-16 w-16 animate-spin rounded-full border-b-2 border-myth-accent" />
+      </div>
+    )
+  }
+
+  if (error || !atlas) {
+    return (
+      <div className="rounded-lg border border-myth-danger/30 bg-myth-danger/10 p-6">
+        <p className="text-myth-danger">{error || 'Failed to load the atlas'}</p>
+      </div>
+    )
+  }
+
+  if (atlas.locations.length === 0) {
+    return <EmptyState title="No places on the map yet" description="Locations appear here as the party discovers them" />
+  }
+
+  const byId = new Map(atlas.locations.map((l) => [l.id, l]))
+  const factionName = (id: string | null) =>
+    id === null ? 'no one' : id === UNKNOWN_OWNER ? 'an unknown power' : atlas.factions.find((f) => f.id === id)?.name ?? 'a vanished power'
+  const point = (l: AtlasLocation) => ({ x: l.x * SIZE, y: l.y * SIZE })
+
+  const firstRecordedTurn = atlas.frames[0]?.turnNumber
+  const canReplay = firstRecordedTurn !== undefined && firstRecordedTurn < atlas.currentTurn
+  const heldFactionIds = new Set(
+    Object.values(owners ?? {})
+      .map((o) => o.ownerFactionId)
+      .filter((id): id is string => id !== null)
+  )
+  const selected = selectedId ? byId.get(selectedId) ?? null : null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-myth-ink-muted">
+        {(['routes', 'wars', 'weather'] as const).map((key) => (
+          <label key={key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={overlays[key]}
+              onChange={(e) => setOverlays((o) => ({ ...o, [key]: e.target.checked }))}
+            />
+            {key === 'routes' ? 'Supply routes' : key === 'wars' ? 'War fronts' : 'Weather'}
+          </label>
+        ))}
+      </div>
+
+      {canReplay && (
+        <div className="rounded-lg border border-myth-border bg-myth-surface p-4">
+          <label className="flex items-center gap-3 text-sm text-myth-ink-muted">
+            <span className="whitespace-nowrap">Turn {viewingTurn}</span>
+            <input
+              type="range"
+              className="w-full"
+              min={firstRecordedTurn}
+              max={atlas.currentTurn}
+              value={viewingTurn}
+              onChange={(e) => setTurn(Number(e.target.value))}
+              aria-label="Replay borders by world turn"
+            />
+            {!isPresent && (
+              <button
+                type="button"
+                onClick={() => setTurn(null)}
+                className="rounded-md border border-myth-border px-2 py-1 text-xs text-myth-ink hover:bg-myth-surface-sunken"
+              >
+                Now
+              </button>
+            )}
+          </label>
+          {!isPresent && (
+            <p className="mt-2 text-xs text-myth-ink-faint">
+              Borders as they stood at turn {viewingTurn}. Routes, wars, weather and condition are shown as they are now.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-4 lg:grid-cols-[1fr_18rem]">
+        <svg
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className="w-full rounded-lg border border-myth-border bg-myth-surface-sunken"
+          role="img"
+          aria-label="World atlas"
+        >
+          {atlas.edges.map((e) => {
+            const a = byId.get(e.locationAId)
+            const b = byId.get(e.locationBId)
+            if (!a || !b) return null
+            return (
+              <line
+                key={`${e.locationAId}|${e.locationBId}`}
+                x1={point(a).x}
+                y1={point(a).y}
+                x2={point(b).x}
+                y2={point(b).y}
+                stroke="rgb(var(--myth-border-strong))"
+                strokeWidth={2}
+              />
+            )
+          })}
+
+          {overlays.routes &&
+            atlas.supplyRoutes.map((r) => {
+              const from = byId.get(r.fromLocationId)
+              const to = byId.get(r.toLocationId)
+              if (!from || !to) return null
+              return (
+                <line
+                  key={r.id}
+                  x1={point(from).x}
+                  y1={point(from).y}
+                  x2={point(to).x}
+                  y2={point(to).y}
+                  stroke={r.isBlockaded ? 'rgb(var(--myth-danger))' : 'rgb(var(--myth-gold))'}
+                  strokeWidth={3}
+                  strokeDasharray={r.isBlockaded ? '4 8' : '12 6'}
+                >
+                  <title>
+                    {`${from.name} – ${to.name}: supply route held by ${factionName(r.controllingFactionId)}${r.isBlockaded ? ', blockaded' : ''}`}
+                  </title>
+                </line>
+              )
+            })}
+
+          {atlas.locations.map((l) => {
+            const { x, y } = point(l)
+            const entry = owners?.[l.id]
+            const ownerId = owners ? entry?.ownerFactionId ?? null : null
+            const contested = entry?.isContested ?? false
+            const atWar = overlays.wars && atlas.warFronts.some((w) => w.locationId === l.id)
+            return (
+              <g
+                key={l.id}
+                onClick={() => setSelectedId(l.id)}
+                className="cursor-pointer"
+                opacity={l.isDiscovered ? 1 : 0.4}
+              >
+                {atWar && (
+                  <circle cx={x} cy={y} r={NODE_RADIUS + 9} fill="none" stroke="rgb(var(--myth-danger))" strokeWidth={3} />
+                )}
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={NODE_RADIUS}
+                  fill={owners ? ownerFill(ownerId) : 'rgb(var(--myth-surface-raised))'}
+                  stroke={selectedId === l.id ? 'rgb(var(--myth-accent))' : 'rgb(var(--myth-ink))'}
+                  strokeWidth={selectedId === l.id ? 4 : 1.5}
+                  strokeDasharray={contested ? '5 4' : undefined}
+                />
+                <text
+                  x={x}
+                  y={y + NODE_RADIUS + 20}
+                  textAnchor="middle"
+                  fontSize={18}
+                  fill="rgb(var(--myth-ink))"
+                >
+                  {l.name}
+                </text>
+                {overlays.weather && (
+                  <text
+                    x={x}
+                    y={y + NODE_RADIUS + 40}
+                    textAnchor="middle"
+                    fontSize={14}
+                    fill="rgb(var(--myth-ink-muted))"
+                  >
+                    {describeWeather(l.weather, l.weatherSeverity)}
+                  </text>
+                )}
+                <title>{`${l.name} — held by ${owners ? factionName(ownerId) : 'unknown'}`}</title>
+              </g>
+            )
+          })}
+        </svg>
+
+        <aside className="space-y-4">
+          {!owners && (
+            <p className="rounded-lg border border-myth-border bg-myth-surface p-4 text-sm text-myth-ink-muted">
+              The atlas hadn&apos;t started recording borders by turn {viewingTurn}.
+            </p>
+          )}
+
+          {selected ? (
+            <LocationDetail
+              location={selected}
+              holder={owners ? factionName(owners[selected.id]?.ownerFactionId ?? null) : 'unknown'}
+              wars={atlas.warFronts.filter((w) => w.locationId === selected.id)}
+              routeCount={atlas.supplyRoutes.filter((r) => r.fromLocationId === selected.id || r.toLocationId === selected.id).length}
+              factionName={factionName}
+            />
+          ) : (
+            <p className="text-sm text-myth-ink-faint">Select a place to see who holds it and how it fares.</p>
+          )}
+
+          {heldFactionIds.size > 0 && (
+            <section className="rounded-lg border border-myth-border bg-myth-surface p-4">
+              <h3 className="mb-2 text-xs font-medium uppercase tracking-wide text-myth-ink-faint">Powers</h3>
+              <ul className="space-y-1 text-sm text-myth-ink">
+                {[...heldFactionIds].map((id) => (
+                  <li key={id} className="flex items-center gap-2">
+                    <span className="inline-block h-3 w-3 rounded-full" style={{ background: ownerFill(id) }} />
+                    {factionName(id)}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+        </aside>
+      </div>
+    </div>
+  )
+}
+
+function LocationDetail({
+  location,
+  holder,
+  wars,
+  routeCount,
+  factionName,
+}: {
+  location: AtlasLocation
+  holder: string
+  wars: AtlasView['warFronts']
+  routeCount: number
+  factionName: (id: string | null) => string
+}) {
+  return (
+    <section className="rounded-lg border border-myth-border bg-myth-surface p-4">
+      <h3 className="font-medium text-myth-ink">{location.name}</h3>
+      {location.locationType && <p className="text-xs text-myth-ink-faint">{location.locationType}</p>}
+      {!location.isDiscovered && <p className="mt-1 text-xs text-myth-warn">Not yet discovered by the party</p>}
+      <dl className="mt-3 space-y-1 text-sm">
+        <div>
+          <dt className="inline text-myth-ink-faint">Held by: </dt>
+          <dd className="inline text-myth-ink">{holder}</dd>
+        </div>
+        <div>
+          <dt className="inline text-myth-ink-faint">Condition: </dt>
+          <dd className="inline text-myth-ink">{location.conditionTags.map(describeConditionTag).join(', ')}</dd>
+        </div>
+        <div>
+          <dt className="inline text-myth-ink-faint">Weather: </dt>
+          <dd className="inline text-myth-ink">{describeWeather(location.weather, location.weatherSeverity)}</dd>
+        </div>
+        {routeCount > 0 && (
+          <div>
+            <dt className="inline text-myth-ink-faint">Supply routes: </dt>
+            <dd className="inline text-myth-ink">{routeCount}</dd>
+          </div>
+        )}
+      </dl>
+      {wars.map((w) => (
+        <p key={w.warId} className="mt-3 text-sm text-myth-danger">
+          {w.name}: {factionName(w.attackerFactionId)} against {factionName(w.defenderFactionId)} — {w.momentum}
+        </p>
+      ))}
+    </section>
+  )
+}
@@ -6,10 +6,11 @@
 import { useState } from 'react'
 import type { AdherenceResult } from '@/lib/game/outcomeAdherence'
 import type { MoveVarietyResult } from '@/lib/game/moveVariety'
+import type { HybridScore, RetrievalTrace } from '@/lib/ai/hybridRetrieval'
 import { IconButton } from '@/components/ui/icon-button'
 import { X } from 'lucide-react'
 import { UI_ICONS } from '@/lib/ui/icons'
-import { AlertTriangle, CalendarDays, Castle, Clock, Dices, Dot, HeartHandshake, Feather, Minus, Pencil, Plus, Repeat, Scale, Timer, User, Users } from 'lucide-react'
+import { AlertTriangle, CalendarDays, Castle, Clock, Dices, Dot, HeartHandshake, Feather, Minus, Pencil, Plus, Repeat, Scale, Search, Timer, User, Users } from 'lucide-react'
 import { type IconComponent } from '@/lib/ui/icons'
 
 export interface WorldStateChange {
@@ -25,6 +26,22 @@ export interface WorldStateChange {
   impact?: 'minor' | 'moderate' | 'major'
 }
 
+/**
+ * One retrieved item's scoring in words: where each search channel ranked
+ * it, and whether the scene-roster boost applied. Null means it arrived by
+ * name (named-NPC or cross-entity recall), not by search.
+ */
+export function describeRetrievalScore(score: HybridScore | null): string {
+  if (!score) return 'Recalled by name'
+  const parts: string[] = []
+  if (score.vectorRank !== null) {
+    parts.push(`meaning #${score.vectorRank}${score.similarity !== null ? ` (${Math.round(score.similarity * 100)}% similar)` : ''}`)
+  }
+  if (score.keywordRank !== null) parts.push(`exact words #${score.keywordRank}`)
+  if (score.rosterMatch) parts.push(`names ${score.rosterMatch}`)
+  return parts.join(' · ')
+}
+
 interface AITransparencyPanelProps {
   changes: WorldStateChange[]
   // #91: did the narration actually match the roll it was told was
@@ -39,6 +56,11 @@ interface AITransparencyPanelProps {
   // never enforcement" posture as adherence above. Absent on scenes
   // resolved before this field existed.
   moveVariety?: MoveVarietyResult
+  // How hybrid retrieval (lib/ai/hybridRetrieval.ts) ranked the memories
+  // and lore that went into this exchange's prompt — one line per item,
+  // per channel. The scene routes strip it for members without the GM
+  // view, so its absence is also how a player's view looks.
+  retrieval?: RetrievalTrace
   sceneNumber?: number
   isOpen?: boolean
   onClose?: () => void
@@ -48,6 +70,7 @@ export default function AITransparencyPanel({
   changes,
   adherence,
   moveVariety,
+  retrieval,
   sceneNumber,
   isOpen = true,
   onClose
@@ -68,8 +91,10 @@ export default function AITransparencyPanel({
   const hasAdherenceProblems = !!adherence && (adherence.mismatched > 0 || adherence.unreported > 0 || adherence.ambiguous > 0)
   const hasMoveRepeats = !!moveVariety && moveVariety.repeated > 0
   const [moveVarietyExpanded, setMoveVarietyExpanded] = useState(false)
+  const [retrievalExpanded, setRetrievalExpanded] = useState(false)
+  const retrievedCount = retrieval ? retrieval.memories.length + retrieval.lore.length : 0
 
-  if (!isOpen || (changes.length === 0 && !adherence && !moveVariety)) {
+  if (!isOpen || (changes.length === 0 && !adherence && !moveVariety && retrievedCount === 0)) {
     return null
   }
 
@@ -253,6 +278,44 @@ export default function AITransparencyPanel({
         </div>
       )}
 
+      {retrieval && retrievedCount > 0 && (
+        <div className="rounded-lg border mb-3 overflow-hidden bg-myth-surface-sunken border-myth-border">
+          <button
+            onClick={() => setRetrievalExpanded(prev => !prev)}
+            className="w-full p-3 flex items-center justify-between hover:bg-myth-surface transition-colors"
+          >
+            <div className="flex items-center gap-2">
+              <Search className="h-4 w-4 flex-shrink-0" />
+              <span className="font-medium text-myth-ink text-sm">
+                Recalled {retrieval.memories.length} {retrieval.memories.length === 1 ? 'memory' : 'memories'} and {retrieval.lore.length} lore {retrieval.lore.length === 1 ? 'entry' : 'entries'}
+              </span>
+            </div>
+            {retrievalExpanded ? (
+              <UI_ICONS.expanded className="h-4 w-4 text-myth-ink-faint" />
+            ) : (
+              <UI_ICONS.collapsed className="h-4 w-4 text-myth-ink-faint" />
+            )}
+          </button>
+
+          {retrievalExpanded && (
+            <div className="p-3 pt-0 space-y-1">
+              {[
+                ...retrieval.memories.map(entry => ({ ...entry, kind: 'Memory' })),
+                ...retrieval.lore.map(entry => ({ ...entry, kind: 'Lore' })),
+              ].map((entry, idx) => (
+                <div key={idx} className="flex items-start justify-between gap-2 py-1.5 border-b border-myth-border/50 last:border-b-0">
+                  <div className="min-w-0 flex-1">
+                    <div className="font-medium text-myth-ink text-sm truncate">{entry.title}</div>
+                    <p className="text-xs text-myth-ink-muted">{describeRetrievalScore(entry.score)}</p>
+                  </div>
+                  <span className="text-xs px-2 py-0.5 rounded bg-myth-surface text-myth-ink-faint">{entry.kind}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div>
         {Object.entries(groupedChanges).map(([category, categoryChanges]) => (
           <div key={category}>
@@ -299,7 +362,7 @@ export default function AITransparencyPanel({
         ))}
       </div>
 
-      {changes.length === 0 && !adherence && !moveVariety && (
+      {changes.length === 0 && !adherence && !moveVariety && retrievedCount === 0 && (
         <div className="text-center py-8 text-myth-ink-faint">
           <UI_ICONS.info className="mx-auto mb-2 h-8 w-8 text-myth-ink-faint" />
           <p className="text-sm">No world state changes this scene</p>
@@ -1,29 +1,130 @@
 // src/components/scene/MapViewerPanel.tsx
 // Split out of story/page.tsx's sidebar — see CharacterSelectorPanel's
 // header comment for why.
+//
+// Also tactical mode's controls (lib/game/tactical/): the admin switch for
+// the current scene, and dragging tokens while it's on — your own
+// character's, or as an admin, everyone who isn't a player character. The
+// page owns the map; a saved move is handed back through onTokenMoved at
+// the position the server snapped it to, and other players' moves arrive
+// on the page's map:token-moved subscription.
 
 'use client'
 
+import { useState } from 'react'
 import { PlayerMapViewer } from '@/components/maps/PlayerMapViewer'
 import { CollapsibleSidebarCard } from '@/components/scene/CollapsibleSidebarCard'
-import type { MapData } from '@/lib/maps/map-service'
+import { Button } from '@/components/ui/button'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import type { MapData, MapToken } from '@/lib/maps/map-service'
 
 interface MapViewerPanelProps {
   activeMap: MapData | null
   characterName: string
+  campaignId?: string
+  /** The scene on screen, when there is one. */
+  scene?: { id: string; status: string; tacticalMode?: boolean } | null
+  /** Characters this viewer plays — the party tokens they may move. */
+  ownCharacterIds?: string[]
+  /** Runs scenes and edits the world: flips tactical mode, moves NPCs. */
+  isAdmin?: boolean
+  onTokenMoved?: (tokenId: string, x: number, y: number) => void
+  /** Called after tactical mode is switched, so the page reloads the scene and map. */
+  onTacticalChanged?: () => void
 }
 
-export function MapViewerPanel({ activeMap, characterName }: MapViewerPanelProps) {
+export function MapViewerPanel({
+  activeMap,
+  characterName,
+  campaignId,
+  scene,
+  ownCharacterIds = [],
+  isAdmin = false,
+  onTokenMoved,
+  onTacticalChanged,
+}: MapViewerPanelProps) {
+  const [switching, setSwitching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
   if (!activeMap) return null
 
+  const tactical = !!scene?.tacticalMode
+  // Positions lock while an exchange resolves — the route refuses, so the
+  // viewer doesn't offer.
+  const movable = tactical && scene?.status === 'AWAITING_ACTIONS' && !!campaignId
+
+  const canMoveToken = (token: MapToken) =>
+    token.characterId ? ownCharacterIds.includes(token.characterId) : isAdmin
+
+  const moveToken = async (token: MapToken, x: number, y: number) => {
+    setError(null)
+    try {
+      const response = await authenticatedFetch(
+        `/api/campaigns/${campaignId}/maps/${activeMap.id}/tokens/${token.id}`,
+        { method: 'PATCH', body: JSON.stringify({ x, y }) }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error ?? 'That token couldn\'t be moved.')
+        return
+      }
+      onTokenMoved?.(token.id, data.token.x, data.token.y)
+    } catch (err) {
+      console.error('Token move error:', err)
+      setError('That token couldn\'t be moved.')
+    }
+  }
+
+  const setTactical = async (enabled: boolean) => {
+    if (!scene || !campaignId) return
+    setSwitching(true)
+    setError(null)
+    try {
+      const response = await authenticatedFetch(
+        `/api/campaigns/${campaignId}/scenes/${scene.id}/tactical`,
+        { method: 'PUT', body: JSON.stringify({ enabled }) }
+      )
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error ?? 'Tactical mode couldn\'t be changed.')
+        return
+      }
+      onTacticalChanged?.()
+    } catch (err) {
+      console.error('Tactical mode error:', err)
+      setError('Tactical mode couldn\'t be changed.')
+    } finally {
+      setSwitching(false)
+    }
+  }
+
   return (
-    <CollapsibleSidebarCard title="MAP" defaultOpen={false}>
+    <CollapsibleSidebarCard title="MAP" defaultOpen={tactical}>
       <div className="rounded-lg overflow-hidden border border-myth-border">
         <PlayerMapViewer
           map={activeMap}
           characterName={characterName}
+          canMoveToken={movable ? canMoveToken : undefined}
+          onTokenMove={movable ? moveToken : undefined}
         />
       </div>
+      {tactical && (
+        <p className="mt-2 text-xs text-myth-ink-muted">
+          Tactical mode: distance on the grid sets your range. Drag your token to move.
+        </p>
+      )}
+      {isAdmin && scene && scene.status !== 'RESOLVED' && (
+        <Button
+          size="sm"
+          variant="secondary"
+          className="mt-2"
+          disabled={switching}
+          onClick={() => setTactical(!tactical)}
+        >
+          {switching ? 'Switching…' : tactical ? 'End tactical mode' : 'Play this scene on the grid'}
+        </Button>
+      )}
+      {error && <p className="mt-2 text-xs text-myth-danger">{error}</p>}
     </CollapsibleSidebarCard>
   )
 }
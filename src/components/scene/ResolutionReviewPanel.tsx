@@ -0,0 +1,213 @@
+// src/components/scene/ResolutionReviewPanel.tsx
+//
+// GM co-pilot mode's review surface on the story page (see
+// lib/game/resolutionReview.ts). Shown to admins on a RESOLVING scene: if
+// the scene's resolution is being held for review, the admin reads the
+// rolls, edits the prose, accepts or rejects each proposed change, and
+// publishes, re-rolls or discards. If nothing is held — the AI is simply
+// still working — it renders `fallback` instead, so the page doesn't have
+// to know which of the two a RESOLVING scene is.
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+
+type Decision = 'PENDING' | 'ACCEPTED' | 'REJECTED'
+
+interface Review {
+  id: string
+  isSceneEnding: boolean
+  rerollCount: number
+  sceneText: string
+  editedSceneText: string | null
+  rolls: string[]
+  changes: Array<{ id: string; field: string; label: string; proposedValue: unknown; result: Decision }>
+}
+
+interface ResolutionReviewPanelProps {
+  campaignId: string
+  sceneId: string
+  /** Bumped by the page on scene:review-ready so a fresh draft is fetched. */
+  refreshKey: number
+  fallback: React.ReactNode
+  /** Called once the review is published or discarded. */
+  onSettled: () => void
+}
+
+export function ResolutionReviewPanel({ campaignId, sceneId, refreshKey, fallback, onSettled }: ResolutionReviewPanelProps) {
+  const [review, setReview] = useState<Review | null>(null)
+  const [prose, setProse] = useState('')
+  const [busy, setBusy] = useState<'publish' | 'reroll' | 'discard' | 'decide' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const base = `/api/campaigns/${campaignId}/scenes/${sceneId}/review`
+
+  const show = (next: Review | null) => {
+    setReview(next)
+    setProse(next ? next.editedSceneText ?? next.sceneText : '')
+  }
+
+  const load = useCallback(async () => {
+    try {
+      const response = await authenticatedFetch(base)
+      if (!response.ok) {
+        setReview(null)
+        return
+      }
+      const data: { review: Review } = await response.json()
+      setReview(data.review)
+      setProse(data.review.editedSceneText ?? data.review.sceneText)
+    } catch (err) {
+      console.error('Resolution review load error:', err)
+    }
+  }, [base])
+
+  useEffect(() => {
+    load()
+  }, [load, refreshKey])
+
+  if (!review) return <>{fallback}</>
+
+  const currentText = review.editedSceneText ?? review.sceneText
+  const proseDirty = prose.trim() !== currentText.trim()
+
+  const run = async (kind: NonNullable<typeof busy>, action: () => Promise<Response>, onOk: (data: any) => void) => {
+    setBusy(kind)
+    setError(null)
+    try {
+      const response = await action()
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.details?.[0]?.message ?? data.error ?? 'That didn\'t work. Please try again.')
+        return
+      }
+      onOk(data)
+    } catch (err) {
+      console.error('Resolution review action error:', err)
+      setError('That didn\'t work. Please try again.')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const decide = (mutationId: string, result: 'ACCEPTED' | 'REJECTED') =>
+    run(
+      'decide',
+      () => authenticatedFetch(base, { method: 'PATCH', body: JSON.stringify({ decisions: [{ mutationId, result }] }) }),
+      (data) => setReview(data.review)
+    )
+
+  // Unsaved prose goes in first: publishing reads the edit from the review.
+  const publish = () =>
+    run(
+      'publish',
+      async () => {
+        if (proseDirty) {
+          const saved = await authenticatedFetch(base, {
+            method: 'PATCH',
+            body: JSON.stringify({ sceneText: prose.trim() === review.sceneText.trim() ? null : prose }),
+          })
+          if (!saved.ok) return saved
+        }
+        return authenticatedFetch(`${base}/publish`, { method: 'POST' })
+      },
+      () => {
+        show(null)
+        onSettled()
+      }
+    )
+
+  const reroll = () => {
+    if (proseDirty && !window.confirm('Re-rolling replaces your edits with a fresh narration. Continue?')) return
+    run('reroll', () => authenticatedFetch(`${base}/reroll`, { method: 'POST' }), (data) => show(data.review))
+  }
+
+  const discard = () => {
+    if (!window.confirm('Discard this resolution? Nothing it proposed is applied, and the next resolution rolls fresh.')) return
+    run('discard', () => authenticatedFetch(base, { method: 'DELETE' }), () => {
+      show(null)
+      onSettled()
+    })
+  }
+
+  return (
+    <section className="mb-4 space-y-4 rounded-lg border border-myth-accent/40 bg-myth-surface p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-semibold text-myth-ink">Awaiting your review</h3>
+        {review.isSceneEnding && <Badge variant="awaiting">Final exchange</Badge>}
+        {review.rerollCount > 0 && <Badge>Re-rolled {review.rerollCount}×</Badge>}
+      </div>
+      <p className="text-xs text-myth-ink-faint">
+        Players are waiting on this. Edit the narration, turn down any change you don&apos;t want, then publish.
+      </p>
+
+      {review.rolls.length > 0 && (
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-myth-ink-muted">Rolls (kept on re-roll)</p>
+          <ul className="mt-1 space-y-0.5 font-mono text-xs text-myth-ink">
+            {review.rolls.map((roll, index) => (
+              <li key={index}>{roll}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Textarea
+        label="Narration"
+        value={prose}
+        onChange={(e) => setProse(e.target.value)}
+        rows={10}
+        hint={review.editedSceneText !== null || proseDirty ? 'Edited — players will see your version.' : undefined}
+      />
+
+      {review.changes.length > 0 && (
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-myth-ink-muted">Proposed changes</p>
+          <ul className="mt-2 space-y-2">
+            {review.changes.map((change) => (
+              <li key={change.id} className="rounded-md border border-myth-border p-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className={`text-sm ${change.result === 'REJECTED' ? 'text-myth-ink-faint line-through' : 'text-myth-ink'}`}>
+                    {change.label}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={busy !== null}
+                    onClick={() => decide(change.id, change.result === 'REJECTED' ? 'ACCEPTED' : 'REJECTED')}
+                  >
+                    {change.result === 'REJECTED' ? 'Keep' : 'Reject'}
+                  </Button>
+                </div>
+                <details className="mt-1">
+                  <summary className="cursor-pointer text-xs text-myth-ink-faint">Details</summary>
+                  <pre className="mt-1 whitespace-pre-wrap break-all font-mono text-xs text-myth-ink-muted">
+                    {JSON.stringify(change.proposedValue, null, 2)}
+                  </pre>
+                </details>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-myth-danger">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={publish} disabled={busy !== null || prose.trim() === ''}>
+          {busy === 'publish' ? 'Publishing…' : 'Publish'}
+        </Button>
+        <Button variant="secondary" onClick={reroll} disabled={busy !== null}>
+          {busy === 'reroll' ? 'Re-rolling…' : 'Re-roll Narration'}
+        </Button>
+        <Button variant="ghost" onClick={discard} disabled={busy !== null}>
+          Discard
+        </Button>
+      </div>
+    </section>
+  )
+}
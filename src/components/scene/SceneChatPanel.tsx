@@ -11,9 +11,10 @@ interface SceneChatPanelProps {
   user: any
   campaignId: string
   userCharacters: any[]
+  readOnly?: boolean
 }
 
-export function SceneChatPanel({ currentScene, user, campaignId, userCharacters }: SceneChatPanelProps) {
+export function SceneChatPanel({ currentScene, user, campaignId, userCharacters, readOnly = false }: SceneChatPanelProps) {
   if (!currentScene || !user) return null
 
   // ChatPanel is already a complete, self-styled card — no outer wrapper
@@ -26,6 +27,7 @@ export function SceneChatPanel({ currentScene, user, campaignId, userCharacters
       userCharacters={userCharacters}
       sceneId={currentScene.id}
       icOnly={true}
+      readOnly={readOnly}
     />
   )
 }
@@ -0,0 +1,46 @@
+// src/components/scene/StreamingNarration.tsx
+//
+// The resolution's narration as the AI GM writes it, in place of the
+// resolving spinner (see lib/game/narrationBroadcast.ts for what arrives
+// over scene:narration). A preview only: validation can still change the
+// prose after the stream ends, so the page swaps this for the real
+// resolution on scene:resolved rather than keeping what streamed.
+
+'use client'
+
+export interface StreamedNarration {
+  sceneId: string
+  text: string
+}
+
+export interface NarrationChunk {
+  sceneId: string
+  offset: number
+  text: string
+}
+
+/**
+ * Fold one scene:narration message into what's been shown so far. An
+ * offset of zero starts over (the fallback model took over); one past the
+ * end of what this client has means it missed a message, and it keeps
+ * what it has until scene:resolved brings the whole thing.
+ */
+export function applyNarrationChunk(current: StreamedNarration | null, chunk: NarrationChunk): StreamedNarration | null {
+  if (chunk.offset === 0) return { sceneId: chunk.sceneId, text: chunk.text }
+  if (!current || current.sceneId !== chunk.sceneId || chunk.offset > current.text.length) return current
+  return { sceneId: current.sceneId, text: current.text.slice(0, chunk.offset) + chunk.text }
+}
+
+export function StreamingNarration({ text }: { text: string }) {
+  return (
+    <div className="mb-4 rounded-lg border border-myth-border bg-myth-surface p-4" aria-live="polite">
+      <p className="mb-2 text-xs font-medium uppercase tracking-wide text-myth-ink-faint">
+        MythOS is narrating<span className="animate-pulse">…</span>
+      </p>
+      <p className="max-w-prose whitespace-pre-wrap leading-relaxed text-myth-ink-muted">{text}</p>
+      <p className="mt-3 text-xs text-myth-ink-faint">
+        Still being written. Consequences land once the full resolution is in.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+// src/components/scene/__tests__/ResolutionReviewPanel.test.tsx
+//
+// The admin's review panel stands in for the resolving spinner only when
+// a resolution is actually held; otherwise the spinner stays. Rejecting a
+// change is saved straight away, and unsaved prose goes in before the
+// publish that reads it.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+
+vi.mock('@/lib/clientAuth', () => ({ authenticatedFetch: vi.fn() }))
+
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { ResolutionReviewPanel } from '../ResolutionReviewPanel'
+
+const review = {
+  id: 'review1',
+  isSceneEnding: false,
+  rerollCount: 0,
+  sceneText: 'The gate falls.',
+  editedSceneText: null,
+  rolls: ['Kara: 2d6 (4+5) +1 hard = 10 → strong hit'],
+  changes: [{ id: 'm1', field: 'clock_changes[0]', label: 'Clock "Siege" +1', proposedValue: {}, result: 'PENDING' }],
+}
+
+function json(body: unknown, status = 200) {
+  return { ok: status < 400, status, json: async () => body } as Response
+}
+
+function renderPanel(onSettled = vi.fn()) {
+  render(
+    <ResolutionReviewPanel
+      campaignId="camp1"
+      sceneId="scene1"
+      refreshKey={0}
+      fallback={<p>The AI GM is working...</p>}
+      onSettled={onSettled}
+    />
+  )
+  return onSettled
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('ResolutionReviewPanel', () => {
+  it('shows the fallback when nothing is held for review', async () => {
+    ;(authenticatedFetch as any).mockResolvedValue(json({ error: 'none' }, 404))
+    renderPanel()
+    await waitFor(() => expect(authenticatedFetch).toHaveBeenCalled())
+    expect(screen.getByText('The AI GM is working...')).toBeTruthy()
+  })
+
+  it('shows the rolls, prose and proposed changes of a held resolution', async () => {
+    ;(authenticatedFetch as any).mockResolvedValue(json({ review }))
+    renderPanel()
+    expect(await screen.findByText('Awaiting your review')).toBeTruthy()
+    expect(screen.getByText(review.rolls[0])).toBeTruthy()
+    expect(screen.getByDisplayValue('The gate falls.')).toBeTruthy()
+    expect(screen.getByText('Clock "Siege" +1')).toBeTruthy()
+  })
+
+  it('saves a rejection as soon as it is made', async () => {
+    ;(authenticatedFetch as any)
+      .mockResolvedValueOnce(json({ review }))
+      .mockResolvedValueOnce(json({ review: { ...review, changes: [{ ...review.changes[0], result: 'REJECTED' }] } }))
+    renderPanel()
+    fireEvent.click(await screen.findByText('Reject'))
+
+    await screen.findByText('Keep')
+    expect(authenticatedFetch).toHaveBeenLastCalledWith('/api/campaigns/camp1/scenes/scene1/review', {
+      method: 'PATCH',
+      body: JSON.stringify({ decisions: [{ mutationId: 'm1', result: 'REJECTED' }] }),
+    })
+  })
+
+  it('saves edited prose before publishing', async () => {
+    ;(authenticatedFetch as any)
+      .mockResolvedValueOnce(json({ review }))
+      .mockResolvedValueOnce(json({ review: { ...review, editedSceneText: 'The gate holds.' } }))
+      .mockResolvedValueOnce(json({ success: true }))
+    const onSettled = renderPanel()
+
+    fireEvent.change(await screen.findByDisplayValue('The gate falls.'), { target: { value: 'The gate holds.' } })
+    fireEvent.click(screen.getByText('Publish'))
+
+    await waitFor(() => expect(onSettled).toHaveBeenCalled())
+    const calls = (authenticatedFetch as any).mock.calls
+    expect(calls[1]).toEqual(['/api/campaigns/camp1/scenes/scene1/review', { method: 'PATCH', body: JSON.stringify({ sceneText: 'The gate holds.' }) }])
+    expect(calls[2]).toEqual(['/api/campaigns/camp1/scenes/scene1/review/publish', { method: 'POST' }])
+  })
+})
@@ -0,0 +1,44 @@
+// src/components/scene/__tests__/StreamingNarration.test.tsx
+//
+// scene:narration messages fold into one growing preview: appended in
+// order, restarted at offset zero, and left alone when a message was
+// missed rather than stitched together with a gap in it.
+
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { StreamingNarration, applyNarrationChunk } from '../StreamingNarration'
+
+describe('applyNarrationChunk', () => {
+  it('starts a preview at offset zero and appends what follows', () => {
+    const first = applyNarrationChunk(null, { sceneId: 's1', offset: 0, text: 'The gate' })
+    expect(applyNarrationChunk(first, { sceneId: 's1', offset: 8, text: ' falls.' })).toEqual({ sceneId: 's1', text: 'The gate falls.' })
+  })
+
+  it('starts over when the narration restarts', () => {
+    const current = { sceneId: 's1', text: 'The gate falls.' }
+    expect(applyNarrationChunk(current, { sceneId: 's1', offset: 0, text: 'Rain' })).toEqual({ sceneId: 's1', text: 'Rain' })
+  })
+
+  it('keeps what it has after a missed message', () => {
+    const current = { sceneId: 's1', text: 'The' }
+    expect(applyNarrationChunk(current, { sceneId: 's1', offset: 8, text: ' falls.' })).toBe(current)
+    expect(applyNarrationChunk(null, { sceneId: 's1', offset: 8, text: ' falls.' })).toBeNull()
+  })
+
+  it('ignores a continuation for a different scene', () => {
+    const current = { sceneId: 's1', text: 'The gate' }
+    expect(applyNarrationChunk(current, { sceneId: 's2', offset: 8, text: ' falls.' })).toBe(current)
+  })
+
+  it('overwrites rather than duplicates a repeated message', () => {
+    const current = { sceneId: 's1', text: 'The gate falls.' }
+    expect(applyNarrationChunk(current, { sceneId: 's1', offset: 8, text: ' falls.' })).toEqual(current)
+  })
+})
+
+describe('StreamingNarration', () => {
+  it('shows the narration so far', () => {
+    render(<StreamingNarration text="The gate falls." />)
+    expect(screen.getByText('The gate falls.')).toBeTruthy()
+  })
+})
@@ -0,0 +1,297 @@
+// src/components/settings/AccountDataSettings.tsx
+//
+// "Your data" and the Danger Zone: download everything tied to the
+// account, and schedule (or cancel) its deletion.
+//
+// Deletion is scheduled, not immediate — the copy says when it will
+// happen and that it can be undone until then, because the old wording
+// ("permanent and cannot be undone") stopped being true. Campaigns the
+// account is the only admin of get a picker each: a member to take over,
+// or archive; the server refuses the request until every one has an
+// answer, so the form asks up front rather than failing on submit.
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, Download, X } from 'lucide-react'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { CAMPAIGN_ROLE_LABELS } from '@/lib/api/campaignPermissions'
+import { Button } from '@/components/ui/button'
+import { IconButton } from '@/components/ui/icon-button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+
+interface HostedCampaigns {
+  shared: Array<{
+    id: string
+    title: string
+    candidates: Array<{ userId: string; name: string | null; role: keyof typeof CAMPAIGN_ROLE_LABELS }>
+  }>
+  solo: Array<{ id: string; title: string }>
+}
+
+interface DeletionStatus {
+  scheduledFor: string | null
+  graceDays: number
+  hasPassword: boolean
+  hostedCampaigns: HostedCampaigns
+}
+
+const CONFIRM_PHRASE = 'DELETE MY ACCOUNT'
+/** The picker's value for "archive"; anything else is a member's id. */
+const ARCHIVE = 'archive'
+
+export function AccountDataSettings() {
+  const [status, setStatus] = useState<DeletionStatus | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [showModal, setShowModal] = useState(false)
+  const [decisions, setDecisions] = useState<Record<string, string>>({})
+  const [password, setPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadStatus = async () => {
+    try {
+      const res = await authenticatedFetch('/api/user/deletion')
+      if (res.ok) setStatus(await res.json())
+    } catch {
+      // The Danger Zone stays in its loading state; the rest of the page works.
+    }
+  }
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  const downloadData = async () => {
+    setExporting(true)
+    setExportError(null)
+    try {
+      const res = await authenticatedFetch('/api/user/export')
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setExportError(data.error || 'Could not prepare your data. Please try again.')
+        return
+      }
+      const blob = await res.blob()
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `mythos-account-${new Date().toISOString().split('T')[0]}.json`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+    } catch {
+      setExportError('Could not prepare your data. Please try again.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const closeModal = () => {
+    setShowModal(false)
+    setDecisions({})
+    setPassword('')
+    setConfirmation('')
+    setError(null)
+  }
+
+  const scheduleDeletion = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const hostedCampaigns = Object.fromEntries(
+        Object.entries(decisions).map(([campaignId, value]) => [
+          campaignId,
+          value === ARCHIVE ? { action: 'archive' } : { action: 'transfer', toUserId: value },
+        ])
+      )
+      const res = await authenticatedFetch('/api/user', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirm: confirmation, password, hostedCampaigns }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Could not schedule the deletion. Please try again.')
+        // Membership may have changed since the page loaded.
+        if (data.hostedCampaigns && status) setStatus({ ...status, hostedCampaigns: data.hostedCampaigns })
+        return
+      }
+      closeModal()
+      await loadStatus()
+    } catch {
+      setError('Could not schedule the deletion. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const cancelDeletion = async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await authenticatedFetch('/api/user/deletion', { method: 'DELETE' })
+      if (!res.ok) {
+        setError('Could not cancel the deletion. Please try again.')
+        return
+      }
+      await loadStatus()
+    } catch {
+      setError('Could not cancel the deletion. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const allDecided = status?.hostedCampaigns.shared.every((c) => decisions[c.id]) ?? false
+  const canSubmit =
+    !busy && allDecided && confirmation === CONFIRM_PHRASE && (!status?.hasPassword || password.length > 0)
+
+  return (
+    <>
+      <div className="mb-6 rounded-lg border border-myth-border bg-myth-surface-raised p-6">
+        <h3 className="text-xl font-bold text-myth-ink mb-2">Your data</h3>
+        <p className="text-sm text-myth-ink-muted mb-4 leading-relaxed">
+          Download one file with everything tied to your account: characters, messages and whispers,
+          notes, dice rolls, notifications, transactions and activity history.
+        </p>
+        {exportError && (
+          <p className="mb-4 text-sm text-myth-danger" role="status">
+            {exportError}
+          </p>
+        )}
+        <Button variant="secondary" onClick={downloadData} disabled={exporting}>
+          <Download className="w-4 h-4" />
+          {exporting ? 'Preparing…' : 'Download my data'}
+        </Button>
+      </div>
+
+      <div className="rounded-lg border border-myth-danger/30 bg-myth-danger/10 p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <AlertTriangle className="h-7 w-7 text-myth-danger" />
+          <h3 className="text-xl font-bold text-myth-danger">Danger Zone</h3>
+        </div>
+        {error && !showModal && (
+          <p className="mb-4 text-sm text-myth-danger" role="status">
+            {error}
+          </p>
+        )}
+        {!status ? (
+          <p className="text-sm text-myth-ink-muted">Loading…</p>
+        ) : status.scheduledFor ? (
+          <>
+            <p className="text-sm text-myth-ink-muted mb-6 leading-relaxed">
+              Your account will be deleted on{' '}
+              <strong className="text-myth-danger">{new Date(status.scheduledFor).toLocaleString()}</strong>.
+              Until then everything works as usual, and you can change your mind.
+            </p>
+            <Button variant="secondary" onClick={cancelDeletion} disabled={busy}>
+              {busy ? 'Cancelling…' : 'Cancel deletion'}
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-myth-ink-muted mb-6 leading-relaxed">
+              Delete your account {status.graceDays} days from now. Your email, name, sign-ins, private
+              notes and notifications are erased; what you wrote in shared campaigns stays in their
+              history under &ldquo;Deleted user&rdquo;.
+            </p>
+            <Button variant="danger" onClick={() => setShowModal(true)}>
+              Delete Account
+            </Button>
+          </>
+        )}
+      </div>
+
+      {showModal && status && (
+        <div className="fixed inset-0 z-50 overflow-auto bg-black/50 flex items-center justify-center p-4">
+          <div className="rounded-lg border border-myth-danger/30 bg-myth-surface-raised p-6 max-w-md w-full shadow-[0_1px_2px_rgba(0,0,0,0.06),0_8px_24px_rgba(0,0,0,0.16)]">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="h-6 w-6 flex-shrink-0 text-myth-danger" />
+                <h3 className="text-xl font-bold text-myth-danger">Delete Account</h3>
+              </div>
+              <IconButton icon={X} label="Close delete-account dialog" onClick={closeModal} />
+            </div>
+
+            <div className="space-y-4">
+              <div className="rounded-lg border border-myth-danger/30 bg-myth-danger/10 p-4 text-sm text-myth-ink-muted leading-relaxed">
+                Your account will be deleted in {status.graceDays} days. You can cancel from this page
+                until then; after that it can&apos;t be undone. We&apos;ll email you to confirm.
+              </div>
+
+              {status.hostedCampaigns.shared.map((campaign) => (
+                <Select
+                  key={campaign.id}
+                  label={`Who takes over “${campaign.title}”?`}
+                  value={decisions[campaign.id] ?? ''}
+                  onChange={(e) => setDecisions((prev) => ({ ...prev, [campaign.id]: e.target.value }))}
+                >
+                  <option value="" disabled>
+                    Choose…
+                  </option>
+                  {campaign.candidates.map((c) => (
+                    <option key={c.userId} value={c.userId}>
+                      {c.name || 'Unnamed member'} ({CAMPAIGN_ROLE_LABELS[c.role]})
+                    </option>
+                  ))}
+                  <option value={ARCHIVE}>Nobody — archive it</option>
+                </Select>
+              ))}
+
+              {status.hostedCampaigns.solo.length > 0 && (
+                <p className="text-sm text-myth-ink-muted">
+                  Deleted with your account, since nobody else is in them:{' '}
+                  {status.hostedCampaigns.solo.map((c) => c.title).join(', ')}.
+                </p>
+              )}
+
+              {status.hasPassword && (
+                <Input
+                  id="delete-account-password"
+                  type="password"
+                  label="Password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                />
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-myth-ink-muted mb-2">
+                  Type <span className="text-myth-danger font-mono">{CONFIRM_PHRASE}</span> to confirm:
+                </label>
+                <Input
+                  wrapperClassName="w-full" className="font-mono"
+                  type="text"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  placeholder={CONFIRM_PHRASE}
+                />
+              </div>
+
+              {error && (
+                <p className="text-sm text-myth-danger" role="status">
+                  {error}
+                </p>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <Button variant="danger" fullWidth onClick={scheduleDeletion} disabled={!canSubmit}>
+                  {busy ? 'Scheduling…' : 'Schedule deletion'}
+                </Button>
+                <Button variant="secondary" onClick={closeModal}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
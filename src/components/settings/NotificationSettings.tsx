@@ -8,6 +8,7 @@ import { getToken } from '@/lib/clientAuth';
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
+import { Select } from '@/components/ui/select'
 import { BarChart3, Bell, Mail, Moon, Volume2 } from 'lucide-react'
 
 interface NotificationSettings {
@@ -44,8 +45,7 @@ interface NotificationSettings {
   timezone?: string;
 
   // Digest preferences
-  dailyDigestEnabled: boolean;
-  weeklyDigestEnabled: boolean;
+  digestCadence: 'OFF' | 'DAILY' | 'WEEKLY';
 }
 
 export default function NotificationSettings() {
@@ -436,19 +436,19 @@ export default function NotificationSettings() {
       <div className="rounded-lg border border-myth-border bg-myth-surface p-6">
         <h2 className="mb-4 flex items-center gap-2 text-lg font-semibold text-myth-ink"><BarChart3 className="h-5 w-5" />Digest Emails</h2>
 
-        <ToggleSwitch
-          enabled={settings.dailyDigestEnabled}
-          onChange={() => handleToggle('dailyDigestEnabled')}
-          label="Daily Digest"
-          description="Summary of activity sent daily"
-        />
-
-        <ToggleSwitch
-          enabled={settings.weeklyDigestEnabled}
-          onChange={() => handleToggle('weeklyDigestEnabled')}
-          label="Weekly Digest"
-          description="Summary of activity sent weekly"
-        />
+        <Select
+          label="Send me a digest"
+          value={settings.digestCadence}
+          onChange={(e) => updateSettings({ digestCadence: e.target.value as NotificationSettings['digestCadence'] })}
+          disabled={!settings.emailEnabled}
+          hint={settings.emailEnabled
+            ? 'Unread notifications, what changed in your worlds, and scenes waiting on you — in one email.'
+            : 'Email notifications are off, so no digest is sent.'}
+        >
+          <option value="DAILY">Daily</option>
+          <option value="WEEKLY">Weekly</option>
+          <option value="OFF">Never</option>
+        </Select>
       </div>
 
       {/* Status */}
@@ -0,0 +1,133 @@
+// src/components/settings/SessionList.tsx
+//
+// The signed-in devices, each with its own sign-out — the finer-grained
+// sibling of "Sign out everywhere" just below it. Signing out the device
+// you're on is allowed; the token is dead from the next request, so this
+// clears local auth and goes to the login page rather than leaving a page
+// where every call 401s.
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Laptop } from 'lucide-react'
+import { authenticatedFetch, clearAuth } from '@/lib/clientAuth'
+import { Button } from '@/components/ui/button'
+
+interface DeviceSession {
+  id: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: string
+  lastSeenAt: string
+  current: boolean
+}
+
+/** Good enough to tell "Firefox on Windows" from "Safari on iPhone" — not a UA parser. */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device'
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser'
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null
+  return os ? `${browser} on ${os}` : browser
+}
+
+export function SessionList() {
+  const router = useRouter()
+  const [sessions, setSessions] = useState<DeviceSession[] | null>(null)
+  const [revoking, setRevoking] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    authenticatedFetch('/api/auth/sessions')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) setSessions(data.sessions)
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const revoke = async (session: DeviceSession) => {
+    setRevoking(session.id)
+    setError(null)
+    try {
+      const res = await authenticatedFetch(`/api/auth/sessions/${session.id}`, { method: 'DELETE' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Could not sign that device out. Please try again.')
+        return
+      }
+      if (data.current) {
+        clearAuth()
+        router.push('/login')
+        return
+      }
+      setSessions((prev) => prev?.filter((s) => s.id !== session.id) ?? null)
+    } catch {
+      setError('Could not sign that device out. Please try again.')
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  return (
+    <div className="mb-6 rounded-lg border border-myth-border bg-myth-surface-raised p-6">
+      <h3 className="text-xl font-bold text-myth-ink mb-2">Signed-in devices</h3>
+      <p className="text-sm text-myth-ink-muted mb-4 leading-relaxed">
+        Sign out a device you no longer use or don&apos;t recognise. Sessions from before this list
+        existed don&apos;t appear here; &ldquo;Sign out everywhere&rdquo; ends those too.
+      </p>
+      {error && (
+        <p className="mb-4 text-sm text-myth-danger" role="status">
+          {error}
+        </p>
+      )}
+      {!sessions ? (
+        <p className="text-sm text-myth-ink-muted">Loading…</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-myth-ink-muted">No devices to show.</p>
+      ) : (
+        <ul className="divide-y divide-myth-border">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="flex items-start gap-3 min-w-0">
+                <Laptop className="mt-0.5 h-5 w-5 flex-shrink-0 text-myth-ink-faint" />
+                <div className="min-w-0">
+                  <p className="text-myth-ink font-semibold truncate">
+                    {describeDevice(session.userAgent)}
+                    {session.current && <span className="ml-2 text-xs font-normal text-myth-good">This device</span>}
+                  </p>
+                  <p className="text-xs text-myth-ink-muted">
+                    {session.ip ? `${session.ip} · ` : ''}Last active {new Date(session.lastSeenAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => revoke(session)}
+                disabled={revoking !== null}
+              >
+                {revoking === session.id ? 'Signing out…' : 'Sign out'}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+// src/components/settings/TwoFactorSettings.tsx
+//
+// Turn two-factor authentication on and off, and replace recovery codes.
+//
+// Turning it on is two steps on purpose (setup, then enable): the secret
+// only starts counting once a code made from it comes back, so closing the
+// tab halfway leaves the account exactly as it was. Recovery codes are
+// shown once — right after enabling or regenerating — because the server
+// keeps only their hashes; the copy says so plainly.
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ShieldCheck } from 'lucide-react'
+import { authenticatedFetch } from '@/lib/clientAuth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+}
+
+type Mode = 'idle' | 'setup' | 'disable' | 'regenerate'
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [mode, setMode] = useState<Mode>('idle')
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadStatus = async () => {
+    try {
+      const res = await authenticatedFetch('/api/auth/2fa')
+      if (res.ok) setStatus(await res.json())
+    } catch {
+      // Leaves the section in its loading state; the rest of the page works.
+    }
+  }
+
+  useEffect(() => {
+    loadStatus()
+  }, [])
+
+  const reset = () => {
+    setMode('idle')
+    setSetup(null)
+    setCode('')
+    setPassword('')
+    setError(null)
+  }
+
+  // One request helper for the four actions: they differ only in URL,
+  // method, body and what to do with a success.
+  const run = async <T,>(url: string, method: string, body: object | undefined, onOk: (data: T) => void) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await authenticatedFetch(url, { method, ...(body ? { body: JSON.stringify(body) } : {}) })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(data.error || 'Something went wrong. Please try again.')
+        return
+      }
+      onOk(data as T)
+    } catch {
+      setError('Something went wrong. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const startSetup = () =>
+    run<{ secret: string; otpauthUrl: string }>('/api/auth/2fa/setup', 'POST', undefined, (data) => {
+      setRecoveryCodes(null)
+      setSetup(data)
+      setMode('setup')
+    })
+
+  const enable = () =>
+    run<{ recoveryCodes: string[] }>('/api/auth/2fa/enable', 'POST', { code }, (data) => {
+      reset()
+      setRecoveryCodes(data.recoveryCodes)
+      loadStatus()
+    })
+
+  const disable = () =>
+    run('/api/auth/2fa', 'DELETE', { password, code }, () => {
+      reset()
+      setRecoveryCodes(null)
+      loadStatus()
+    })
+
+  const regenerate = () =>
+    run<{ recoveryCodes: string[] }>('/api/auth/2fa/recovery-codes', 'POST', { code }, (data) => {
+      reset()
+      setRecoveryCodes(data.recoveryCodes)
+      loadStatus()
+    })
+
+  return (
+    <div className="pt-6 border-t border-myth-border mt-6">
+      <div className="flex items-center gap-2 mb-3">
+        <ShieldCheck className="w-5 h-5 text-myth-ink-faint" />
+        <h3 className="text-myth-ink font-semibold">Two-Factor Authentication</h3>
+      </div>
+
+      {!status ? (
+        <p className="text-sm text-myth-ink-muted">Loading…</p>
+      ) : (
+        <>
+          <p className="text-sm text-myth-ink-muted mb-4">
+            {status.enabled
+              ? `On. Signing in asks for a code from your authenticator app. ${status.recoveryCodesRemaining} recovery code${status.recoveryCodesRemaining === 1 ? '' : 's'} left.`
+              : 'Off. Add a code from an authenticator app to your sign-in, so a password alone is not enough.'}
+          </p>
+
+          {recoveryCodes && (
+            <div className="mb-4 rounded-lg border border-myth-border bg-myth-surface-sunken p-4">
+              <p className="text-sm text-myth-ink mb-3">
+                Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+                phone. They will not be shown again.
+              </p>
+              <ul className="grid grid-cols-2 gap-1 font-mono text-sm text-myth-ink">
+                {recoveryCodes.map((c) => (
+                  <li key={c}>{c}</li>
+                ))}
+              </ul>
+              <Button variant="secondary" className="mt-3" onClick={() => setRecoveryCodes(null)}>
+                I&apos;ve saved them
+              </Button>
+            </div>
+          )}
+
+          {error && (
+            <p className="mb-4 text-sm text-myth-danger" role="status">
+              {error}
+            </p>
+          )}
+
+          {mode === 'setup' && setup && (
+            <div className="space-y-4 mb-4">
+              <p className="text-sm text-myth-ink-muted">
+                Add this key to your authenticator app (or open the link on your phone), then enter
+                the 6-digit code it shows.
+              </p>
+              <p className="font-mono text-sm break-all text-myth-ink">{setup.secret}</p>
+              <a href={setup.otpauthUrl} className="text-sm font-semibold text-myth-accent hover:text-myth-accent-hover">
+                Open in authenticator app
+              </a>
+              <Input
+                id="two-factor-enable-code"
+                label="Authentication Code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+              />
+              <div className="flex gap-2">
+                <Button onClick={enable} disabled={busy || !code}>
+                  {busy ? 'Turning on…' : 'Turn on'}
+                </Button>
+                <Button variant="secondary" onClick={reset}>Cancel</Button>
+              </div>
+            </div>
+          )}
+
+          {(mode === 'disable' || mode === 'regenerate') && (
+            <div className="space-y-4 mb-4">
+              {mode === 'disable' && (
+                <Input
+                  id="two-factor-disable-password"
+                  type="password"
+                  label="Password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                />
+              )}
+              <Input
+                id="two-factor-confirm-code"
+                label="Authentication Code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant={mode === 'disable' ? 'danger' : 'primary'}
+                  onClick={mode === 'disable' ? disable : regenerate}
+                  disabled={busy || !code}
+                >
+                  {mode === 'disable' ? 'Turn off' : 'Replace recovery codes'}
+                </Button>
+                <Button variant="secondary" onClick={reset}>Cancel</Button>
+              </div>
+            </div>
+          )}
+
+          {mode === 'idle' && (
+            <div className="flex flex-wrap gap-2">
+              {status.enabled ? (
+                <>
+                  <Button variant="secondary" onClick={() => setMode('regenerate')}>
+                    New recovery codes
+                  </Button>
+                  <Button variant="secondary" onClick={() => setMode('disable')}>
+                    Turn off
+                  </Button>
+                </>
+              ) : (
+                <Button variant="secondary" onClick={startSetup} disabled={busy}>
+                  Set up two-factor authentication
+                </Button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
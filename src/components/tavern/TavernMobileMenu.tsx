@@ -50,6 +50,7 @@ import {
   Users,
   MessageSquare,
   StickyNote,
+  Compass,
 } from 'lucide-react'
 import { logout } from '@/lib/clientAuth'
 import { useEscapeKey } from '@/hooks/useEscapeKey'
@@ -106,6 +107,12 @@ function TavernMobileMenuInner({
     ? [
         worldType('FACTION', 'Factions', Swords),
         worldType('LOCATION', 'Locations', Landmark),
+        {
+          href: `${home}/world/atlas`,
+          label: 'Atlas',
+          icon: Compass,
+          isActive: pathname.startsWith(`${home}/world/atlas`),
+        },
         worldType('CLOCK', 'Threads', Clock),
         lobbyTab('maps', 'Maps', MapIcon),
         {
@@ -35,6 +35,7 @@ import {
   Landmark,
   Clock,
   Target,
+  Compass,
 } from 'lucide-react'
 import { authenticatedFetch, logout } from '@/lib/clientAuth'
 
@@ -142,6 +143,12 @@ export function TavernSidebar({
           icon: Landmark,
           isActive: (p) => p.startsWith(`${campaignHome}/world`) && entityType === 'LOCATION',
         },
+        {
+          href: `${campaignHome}/world/atlas`,
+          label: 'Atlas',
+          icon: Compass,
+          isActive: (p) => p.startsWith(`${campaignHome}/world/atlas`),
+        },
         {
           href: `${campaignHome}/world?type=CLOCK`,
           label: 'Threads',
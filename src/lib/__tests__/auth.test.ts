@@ -14,11 +14,20 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { NextRequest } from 'next/server'
+import jwt from 'jsonwebtoken'
 
 const findUnique = vi.fn()
 const update = vi.fn()
+const sessionUpdate = vi.fn()
+const sessionDeleteMany = vi.fn()
 vi.mock('@/lib/prisma', () => ({
-  prisma: { user: { findUnique: (...a: unknown[]) => findUnique(...a), update: (...a: unknown[]) => update(...a) } },
+  prisma: {
+    user: { findUnique: (...a: unknown[]) => findUnique(...a), update: (...a: unknown[]) => update(...a) },
+    userSession: {
+      update: (...a: unknown[]) => sessionUpdate(...a),
+      deleteMany: (...a: unknown[]) => sessionDeleteMany(...a),
+    },
+  },
 }))
 
 import {
@@ -42,6 +51,8 @@ beforeEach(() => {
   process.env.JWT_SECRET = 'test-secret-for-auth-tests'
   findUnique.mockResolvedValue({ tokenVersion: 0 })
   update.mockResolvedValue({ tokenVersion: 1 })
+  sessionUpdate.mockResolvedValue({})
+  sessionDeleteMany.mockResolvedValue({ count: 0 })
 })
 
 describe('createToken / verifyToken', () => {
@@ -66,6 +77,13 @@ describe('createToken / verifyToken', () => {
     expect(verifyToken(forged)).toBeNull()
   })
 
+  it('rejects a signed token that carries a purpose', () => {
+    // The 2FA challenge is signed with this secret and names a userId; if
+    // it passed here, the password alone would be a session.
+    const challenge = jwt.sign({ userId: 'u1', tokenVersion: 0, purpose: '2fa-challenge' }, 'test-secret-for-auth-tests')
+    expect(verifyToken(challenge)).toBeNull()
+  })
+
   it('rejects nonsense rather than throwing', () => {
     for (const junk of ['', 'not-a-token', 'a.b.c']) {
       expect(verifyToken(junk), junk).toBeNull()
@@ -155,6 +173,40 @@ describe('isTokenRevoked', () => {
   })
 })
 
+describe('isTokenRevoked with a session id', () => {
+  const payload = { userId: 'u1', email: 'a@example.com', tokenVersion: 2, sessionId: 'sess1' }
+
+  it('refuses a token whose session was signed out', async () => {
+    findUnique.mockResolvedValue({ tokenVersion: 2, sessions: [] })
+    expect(await isTokenRevoked(payload)).toBe(true)
+  })
+
+  it('looks the session up in the same query as the user', async () => {
+    findUnique.mockResolvedValue({ tokenVersion: 2, sessions: [{ id: 'sess1', lastSeenAt: new Date() }] })
+    expect(await isTokenRevoked(payload)).toBe(false)
+    expect(findUnique.mock.calls[0][0].select.sessions).toMatchObject({ where: { id: 'sess1' } })
+    // Fresh enough: no write.
+    expect(sessionUpdate).not.toHaveBeenCalled()
+  })
+
+  it('refreshes lastSeenAt once it has gone stale', async () => {
+    const stale = new Date(Date.now() - 60 * 60 * 1000)
+    findUnique.mockResolvedValue({ tokenVersion: 2, sessions: [{ id: 'sess1', lastSeenAt: stale }] })
+    expect(await isTokenRevoked(payload)).toBe(false)
+    expect(sessionUpdate).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'sess1' } }))
+  })
+
+  it('still refuses an old version even when the session row exists', async () => {
+    findUnique.mockResolvedValue({ tokenVersion: 3, sessions: [{ id: 'sess1', lastSeenAt: new Date() }] })
+    expect(await isTokenRevoked(payload)).toBe(true)
+  })
+
+  it('does not ask about sessions for a token that predates them', async () => {
+    await isTokenRevoked({ userId: 'u1', email: 'a@example.com', tokenVersion: 0 })
+    expect(findUnique.mock.calls[0][0].select.sessions).toBeUndefined()
+  })
+})
+
 describe('revokeAllSessions', () => {
   it('increments the version, which is what invalidates the tokens', async () => {
     expect(await revokeAllSessions('u1')).toBe(1)
@@ -172,6 +224,11 @@ describe('revokeAllSessions', () => {
     expect(data.tokenVersion).toEqual({ increment: 1 })
     expect(typeof data.tokenVersion).not.toBe('number')
   })
+
+  it('clears the device list, since none of those devices can get in now', async () => {
+    await revokeAllSessions('u1')
+    expect(sessionDeleteMany).toHaveBeenCalledWith({ where: { userId: 'u1' } })
+  })
 })
 
 describe('the request-level helpers all apply revocation', () => {
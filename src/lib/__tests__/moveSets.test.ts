@@ -0,0 +1,94 @@
+// src/lib/__tests__/moveSets.test.ts
+// The move-set catalogue is hand-authored and closed, so most of what can
+// go wrong with it is authoring drift: a duplicated key, a stat mapping
+// that names a stat the move can't roll, bands that overlap, or a summary
+// that quietly publishes a threshold on the player help page.
+
+import { describe, it, expect } from 'vitest'
+import {
+  MOVE_SETS,
+  DEFAULT_MOVE_SET_ID,
+  getMoveSet,
+  resolveMoveSet,
+  findMoveByKey,
+  findMoveByName,
+  describeThresholds,
+  isDefaultThresholds,
+} from '../moveSets'
+import { BASIC_MOVES, DEFAULT_OUTCOME_THRESHOLDS, calculateOutcome } from '../pbta-moves'
+
+const STAT_KEYS = ['cool', 'hard', 'hot', 'sharp', 'weird']
+
+describe('the catalogue', () => {
+  it('keeps the core set identical to the basic moves on the classic bands', () => {
+    const core = resolveMoveSet(DEFAULT_MOVE_SET_ID)
+    expect(core.moves).toBe(BASIC_MOVES)
+    expect(core.thresholds).toEqual(DEFAULT_OUTCOME_THRESHOLDS)
+  })
+
+  it('has unique set ids, and unique move keys and names within each set', () => {
+    expect(new Set(MOVE_SETS.map(s => s.id)).size).toBe(MOVE_SETS.length)
+    for (const set of MOVE_SETS) {
+      expect(new Set(set.moves.map(m => m.key)).size).toBe(set.moves.length)
+      expect(new Set(set.moves.map(m => m.name)).size).toBe(set.moves.length)
+    }
+  })
+
+  it('maps moves only onto real stats', () => {
+    for (const set of MOVE_SETS) {
+      for (const move of set.moves) {
+        for (const stat of move.stats ?? []) expect(STAT_KEYS).toContain(stat)
+      }
+    }
+  })
+
+  it('has a weak-hit band below the strong-hit band in every set', () => {
+    for (const set of MOVE_SETS) {
+      expect(set.thresholds.weakHit).toBeLessThan(set.thresholds.strongHit)
+    }
+  })
+
+  // Summaries are shown on /help/how-it-plays, which the spoiler rule in
+  // tutorial/content covers — so they carry no digits at all.
+  it('keeps every summary number-free', () => {
+    for (const set of MOVE_SETS) expect(set.summary).not.toMatch(/\d/)
+  })
+
+  it('gives the intrigue set a debt move and no violence move', () => {
+    const intrigue = resolveMoveSet('intrigue')
+    expect(findMoveByKey(intrigue, 'go_aggro')).toBeUndefined()
+    expect(findMoveByKey(intrigue, 'call_in_a_debt')?.debtWeight).toBeGreaterThan(1)
+  })
+})
+
+describe('lookup', () => {
+  it('getMoveSet returns null for an unknown or empty id', () => {
+    expect(getMoveSet('nonexistent')).toBeNull()
+    expect(getMoveSet(null)).toBeNull()
+    expect(getMoveSet('dread')?.id).toBe('dread')
+  })
+
+  it('resolveMoveSet falls back to the core set', () => {
+    expect(resolveMoveSet('nonexistent').id).toBe(DEFAULT_MOVE_SET_ID)
+    expect(resolveMoveSet(undefined).id).toBe(DEFAULT_MOVE_SET_ID)
+  })
+
+  it('finds moves by the name the classifier returns', () => {
+    expect(findMoveByName(resolveMoveSet('dread'), 'Investigate a Mystery')?.key).toBe('investigate_a_mystery')
+    expect(findMoveByName(resolveMoveSet(null), 'Investigate a Mystery')).toBeUndefined()
+  })
+})
+
+describe('thresholds', () => {
+  it('bands totals against the supplied thresholds', () => {
+    expect(calculateOutcome(10)).toBe('strongHit')
+    expect(calculateOutcome(10, { strongHit: 11, weakHit: 7 })).toBe('weakHit')
+    expect(calculateOutcome(6, { strongHit: 10, weakHit: 6 })).toBe('weakHit')
+  })
+
+  it('describes bands for receipts', () => {
+    expect(describeThresholds({ strongHit: 11, weakHit: 7 })).toBe('11+ / 7-10 / 6-')
+    expect(isDefaultThresholds(DEFAULT_OUTCOME_THRESHOLDS)).toBe(true)
+    expect(isDefaultThresholds({ strongHit: 10, weakHit: 6 })).toBe(false)
+  })
+})
@@ -63,7 +63,7 @@ const HIGH_RISK_SIGNALS = [
   // Money.
   /\b(?:stripe|balanceCents|credits|checkout|refund|priceOf|canAfford|applyGoldDelta)\b/,
   // Access control and identity.
-  /\b(?:UserRole|role:\s*['"]|membership\.role|requireCampaignAdmin|revokeAllSessions|tokenVersion|banned|isBanned)\b/,
+  /\b(?:UserRole|role:\s*['"]|membership\.role|requireCampaignPermission|revokeAllSessions|tokenVersion|banned|isBanned)\b/,
   // State owned by another user.
   /\b(?:campaignMembership|blockedUser|friendRequest|turnTracker)\b/,
 ]
@@ -0,0 +1,91 @@
+// src/lib/account/__tests__/dataExport.test.ts
+// The account export carries the account's own rows and never a
+// credential or a GM's private note.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { db } = vi.hoisted(() => {
+  const models = [
+    'user', 'userIdentity', 'userSession', 'pushSubscription', 'userNotificationSettings', 'campaignMembership',
+    'character', 'message', 'playerNote', 'playerAction', 'diceRoll', 'gmClarification', 'notification',
+    'transaction', 'analyticsEvent', 'friendship', 'friendRequest', 'userBlock', 'contentReport', 'xCardUse',
+  ]
+  const db: Record<string, { findUnique: any; findMany: any }> = {}
+  for (const model of models) db[model] = { findUnique: vi.fn(), findMany: vi.fn() }
+  return { db }
+})
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/export/campaign-exporter', () => ({ CampaignExporter: { exportCharacter: vi.fn() } }))
+
+import { CampaignExporter } from '@/lib/export/campaign-exporter'
+import { buildAccountExport, ACCOUNT_EXPORT_FORMAT } from '../dataExport'
+
+const ACCOUNT = { id: 'u1', email: 'ada@example.com', name: 'Ada', deletedAt: null }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  for (const delegate of Object.values(db)) {
+    delegate.findMany.mockResolvedValue([])
+    delegate.findUnique.mockResolvedValue(null)
+  }
+  db.user.findUnique.mockResolvedValue(ACCOUNT)
+})
+
+describe('buildAccountExport', () => {
+  it('is null for an account that is gone or already deleted', async () => {
+    db.user.findUnique.mockResolvedValueOnce(null)
+    expect(await buildAccountExport('u1')).toBeNull()
+    db.user.findUnique.mockResolvedValueOnce({ ...ACCOUNT, deletedAt: new Date() })
+    expect(await buildAccountExport('u1')).toBeNull()
+  })
+
+  it('never selects a credential off the account', async () => {
+    await buildAccountExport('u1')
+    const select = db.user.findUnique.mock.calls[0][0].select
+    for (const secret of ['password', 'totpSecret', 'totpRecoveryCodes', 'resetToken', 'emailVerifyToken', 'tokenVersion']) {
+      expect(select).not.toHaveProperty(secret)
+    }
+    expect(db.pushSubscription.findMany.mock.calls[0][0].select).not.toHaveProperty('auth')
+    expect(db.pushSubscription.findMany.mock.calls[0][0].select).not.toHaveProperty('p256dh')
+  })
+
+  it('exports each character through exportCharacter, without the GM notes', async () => {
+    db.character.findMany.mockResolvedValue([{ id: 'ch1' }])
+    ;(CampaignExporter.exportCharacter as any).mockResolvedValue({
+      character: { id: 'ch1', name: 'Ash', gmNotes: 'secretly the heir' },
+      tables: { CharacterCapability: [{ id: 'cc1' }] },
+    })
+
+    const data = await buildAccountExport('u1')
+
+    expect(CampaignExporter.exportCharacter).toHaveBeenCalledWith('ch1')
+    expect(data?.characters).toEqual([{ character: { id: 'ch1', name: 'Ash' }, tables: { CharacterCapability: [{ id: 'cc1' }] } }])
+  })
+
+  it('reads messages by author and whispers by recipient, without counting a whisper to yourself twice', async () => {
+    db.message.findMany.mockImplementation(async ({ where }: any) =>
+      where.authorId === 'u1' ? [{ id: 'm1' }] : [{ id: 'w1' }]
+    )
+
+    const data = await buildAccountExport('u1')
+
+    expect(data).toMatchObject({
+      format: ACCOUNT_EXPORT_FORMAT,
+      account: { id: 'u1', email: 'ada@example.com', name: 'Ada' },
+      messages: [{ id: 'm1' }],
+      whispersReceived: [{ id: 'w1' }],
+    })
+    expect(db.message.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { targetUserId: 'u1', authorId: { not: 'u1' } },
+    }))
+    expect(data?.account).not.toHaveProperty('deletedAt')
+  })
+
+  it('scopes every per-user table to the caller', async () => {
+    await buildAccountExport('u1')
+    for (const model of ['playerAction', 'diceRoll', 'gmClarification', 'notification', 'transaction', 'analyticsEvent', 'userBlock', 'xCardUse']) {
+      expect(db[model].findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'u1' } }))
+    }
+    expect(db.contentReport.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { reporterId: 'u1' } }))
+  })
+})
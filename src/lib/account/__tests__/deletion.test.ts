@@ -0,0 +1,232 @@
+// src/lib/account/__tests__/deletion.test.ts
+// Account deletion keeps other players' history and nothing of the
+// person: what each hosted campaign becomes, what is deleted, what is
+// anonymized, and that a cancel or an early run does nothing.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+const { db } = vi.hoisted(() => {
+  const delegate = () => ({
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+    delete: vi.fn(),
+    deleteMany: vi.fn(),
+  })
+  const db: any = {
+    user: delegate(),
+    campaign: delegate(),
+    campaignMembership: delegate(),
+    playerNote: delegate(),
+    notification: delegate(),
+    userNotificationSettings: delegate(),
+    pushSubscription: delegate(),
+    userSession: delegate(),
+    userIdentity: delegate(),
+    campaignInvite: delegate(),
+    campaignBan: delegate(),
+    userBlock: delegate(),
+    friendRequest: delegate(),
+    friendship: delegate(),
+    analyticsEvent: delegate(),
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(db)),
+  }
+  return { db }
+})
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/notifications/turnOrderCleanup', () => ({ dropFromTurnOrders: vi.fn() }))
+
+import { dropFromTurnOrders } from '@/lib/notifications/turnOrderCleanup'
+import {
+  ACCOUNT_DELETION_GRACE_DAYS,
+  cancelAccountDeletion,
+  describeHostedCampaigns,
+  executeAccountDeletion,
+  executeDueAccountDeletions,
+  scheduleAccountDeletion,
+  validateDeletionPlan,
+  type HostedCampaigns,
+} from '../deletion'
+
+const NOW = new Date('2026-09-20T12:00:00Z')
+const DUE = { deletionScheduledFor: new Date('2026-09-20T00:00:00Z'), deletionPlan: {}, deletedAt: null }
+
+const member = (userId: string, role: string, expiresAt: Date | null = null) => ({ userId, role, expiresAt, user: { name: userId } })
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  db.user.findUnique.mockResolvedValue(DUE)
+  db.campaignMembership.findMany.mockResolvedValue([])
+  ;(dropFromTurnOrders as any).mockResolvedValue(undefined)
+})
+
+describe('describeHostedCampaigns', () => {
+  it('sorts only-admin campaigns into shared (with transfer candidates) and solo, and skips co-administered ones', async () => {
+    db.campaignMembership.findMany.mockResolvedValue([
+      { campaign: { id: 'c1', title: 'Shared', memberships: [member('p1', 'PLAYER'), member('s1', 'SPECTATOR'), member('h1', 'CO_HOST')] } },
+      { campaign: { id: 'c2', title: 'Solo', memberships: [] } },
+      { campaign: { id: 'c3', title: 'Co-run', memberships: [member('a2', 'ADMIN')] } },
+      // Only an expired guest left: nobody, really.
+      { campaign: { id: 'c4', title: 'One-shot', memberships: [member('g1', 'GUEST', new Date('2026-09-01'))] } },
+    ])
+
+    const hosted = await describeHostedCampaigns('u1', NOW)
+
+    expect(hosted).toEqual({
+      shared: [{
+        id: 'c1',
+        title: 'Shared',
+        candidates: [
+          { userId: 'p1', name: 'p1', role: 'PLAYER' },
+          { userId: 'h1', name: 'h1', role: 'CO_HOST' },
+        ],
+      }],
+      solo: [{ id: 'c2', title: 'Solo' }, { id: 'c4', title: 'One-shot' }],
+    })
+    expect(db.campaignMembership.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'u1', role: 'ADMIN' } }))
+  })
+})
+
+describe('validateDeletionPlan', () => {
+  const hosted: HostedCampaigns = {
+    shared: [{ id: 'c1', title: 'Shared', candidates: [{ userId: 'p1', name: 'Pat', role: 'PLAYER' }] }],
+    solo: [],
+  }
+
+  it('needs a decision for every shared campaign', () => {
+    expect(validateDeletionPlan(hosted, undefined)).toEqual({ ok: false, error: 'Choose who takes over "Shared", or archive it' })
+  })
+
+  it('refuses a transfer to someone who is not a candidate', () => {
+    expect(validateDeletionPlan(hosted, { c1: { action: 'transfer', toUserId: 'stranger' } }).ok).toBe(false)
+  })
+
+  it('keeps valid decisions and drops the ones nothing asked for', () => {
+    expect(validateDeletionPlan(hosted, {
+      c1: { action: 'transfer', toUserId: 'p1' },
+      other: { action: 'archive' },
+    })).toEqual({ ok: true, plan: { c1: { action: 'transfer', toUserId: 'p1' } } })
+    expect(validateDeletionPlan(hosted, { c1: { action: 'archive' } })).toEqual({ ok: true, plan: { c1: { action: 'archive' } } })
+  })
+})
+
+describe('scheduling', () => {
+  it('schedules the grace period ahead and stores the plan', async () => {
+    const scheduledFor = await scheduleAccountDeletion('u1', { c1: { action: 'archive' } }, NOW)
+    expect(scheduledFor.getTime() - NOW.getTime()).toBe(ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: { deletionScheduledFor: scheduledFor, deletionPlan: { c1: { action: 'archive' } } },
+    })
+  })
+
+  it('cancelling clears both', async () => {
+    await cancelAccountDeletion('u1')
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: { deletionScheduledFor: null, deletionPlan: Prisma.DbNull },
+    })
+  })
+})
+
+describe('executeAccountDeletion', () => {
+  it('does nothing for a deletion that was cancelled, is not yet due, or already ran', async () => {
+    for (const state of [
+      { deletionScheduledFor: null, deletionPlan: null, deletedAt: null },
+      { ...DUE, deletionScheduledFor: new Date('2026-09-21T00:00:00Z') },
+      { ...DUE, deletedAt: new Date('2026-09-19') },
+    ]) {
+      db.user.findUnique.mockResolvedValueOnce(state)
+      expect(await executeAccountDeletion('u1', NOW)).toBe(false)
+    }
+    expect(db.user.update).not.toHaveBeenCalled()
+    expect(db.campaignMembership.deleteMany).not.toHaveBeenCalled()
+  })
+
+  it('hands, archives or deletes each only-admin campaign as planned', async () => {
+    db.user.findUnique.mockResolvedValue({
+      ...DUE,
+      deletionPlan: {
+        handed: { action: 'transfer', toUserId: 'p1' },
+        archived: { action: 'archive' },
+        heirLeft: { action: 'transfer', toUserId: 'gone' },
+      },
+    })
+    db.campaignMembership.findMany.mockResolvedValue([
+      { campaignId: 'handed', role: 'ADMIN', campaign: { memberships: [member('p1', 'PLAYER')] } },
+      { campaignId: 'archived', role: 'ADMIN', campaign: { memberships: [member('p2', 'PLAYER')] } },
+      { campaignId: 'heirLeft', role: 'ADMIN', campaign: { memberships: [member('p3', 'PLAYER')] } },
+      { campaignId: 'solo', role: 'ADMIN', campaign: { memberships: [] } },
+      { campaignId: 'coRun', role: 'ADMIN', campaign: { memberships: [member('a2', 'ADMIN')] } },
+      { campaignId: 'played', role: 'PLAYER', campaign: { memberships: [member('a3', 'ADMIN')] } },
+    ])
+
+    expect(await executeAccountDeletion('u1', NOW)).toBe(true)
+
+    expect(db.campaignMembership.update).toHaveBeenCalledTimes(1)
+    expect(db.campaignMembership.update).toHaveBeenCalledWith({
+      where: { userId_campaignId: { userId: 'p1', campaignId: 'handed' } },
+      data: { role: 'ADMIN' },
+    })
+    // A planned heir who has since left falls back to archiving.
+    expect(db.campaign.update.mock.calls.map((call: any) => call[0])).toEqual([
+      { where: { id: 'archived' }, data: { isActive: false } },
+      { where: { id: 'heirLeft' }, data: { isActive: false } },
+    ])
+    expect(db.campaign.delete).toHaveBeenCalledTimes(1)
+    expect(db.campaign.delete).toHaveBeenCalledWith({ where: { id: 'solo' } })
+    expect(db.campaignMembership.deleteMany).toHaveBeenCalledWith({ where: { userId: 'u1' } })
+    expect(dropFromTurnOrders).toHaveBeenCalledWith('played', 'u1')
+  })
+
+  it('deletes what is private to the account and keeps what the table shares', async () => {
+    await executeAccountDeletion('u1', NOW)
+
+    expect(db.playerNote.deleteMany).toHaveBeenCalledWith({ where: { authorId: 'u1', visibility: 'PRIVATE' } })
+    for (const model of ['notification', 'userNotificationSettings', 'pushSubscription', 'userSession', 'userIdentity', 'campaignBan']) {
+      expect(db[model].deleteMany).toHaveBeenCalledWith({ where: { userId: 'u1' } })
+    }
+    expect(db.campaignInvite.deleteMany).toHaveBeenCalledWith({ where: { createdBy: 'u1' } })
+    expect(db.friendship.deleteMany).toHaveBeenCalledWith({ where: { OR: [{ user1Id: 'u1' }, { user2Id: 'u1' }] } })
+    expect(db.analyticsEvent.updateMany).toHaveBeenCalledWith({ where: { userId: 'u1' }, data: { userId: null } })
+    // The row itself stays, so messages, actions and characters keep an author.
+    expect(db.user.delete).not.toHaveBeenCalled()
+  })
+
+  it('strips the row of everything identifying and every way back in', async () => {
+    await executeAccountDeletion('u1', NOW)
+
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'u1' },
+      data: expect.objectContaining({
+        email: 'deleted-u1@deleted.invalid',
+        name: 'Deleted user',
+        password: null,
+        resetToken: null,
+        totpSecret: null,
+        totpRecoveryCodes: [],
+        tokenVersion: { increment: 1 },
+        deletionScheduledFor: null,
+        deletedAt: NOW,
+      }),
+    })
+  })
+})
+
+describe('executeDueAccountDeletions', () => {
+  it('runs each due account, and one failure leaves the rest running', async () => {
+    db.user.findMany.mockResolvedValue([{ id: 'u1' }, { id: 'u2' }])
+    db.$transaction
+      .mockImplementationOnce(async () => {
+        throw new Error('deadlock')
+      })
+      .mockImplementationOnce(async (fn: (tx: unknown) => unknown) => fn(db))
+
+    expect(await executeDueAccountDeletions(NOW)).toEqual({ deleted: 1, failed: 1 })
+    expect(db.user.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { deletionScheduledFor: { lte: NOW }, deletedAt: null },
+    }))
+  })
+})
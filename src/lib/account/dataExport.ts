@@ -0,0 +1,147 @@
+// src/lib/account/dataExport.ts
+// Everything tied to one account, as one JSON document the account holder
+// can download (GET /api/user/export).
+//
+// What "tied to" means here: rows the account wrote or owns, and rows
+// written TO it (whispers received, notifications). Not the campaigns it
+// plays in — those are everyone's, and a campaign export is an admin's
+// call, not a member's. Characters go out through
+// CampaignExporter.exportCharacter, so the sheet is the same shape an
+// admin's campaign export carries.
+//
+// What is left out on purpose: credentials and anything that works as one
+// (password hash, TOTP secret, recovery-code hashes, reset and
+// verification tokens, push keys), and GM-only notes on the account's
+// characters — the GM's, not the player's, and usually spoilers.
+
+import { prisma } from '@/lib/prisma'
+import { CampaignExporter, type CharacterExport } from '@/lib/export/campaign-exporter'
+
+export const ACCOUNT_EXPORT_FORMAT = 'mythos-account-export'
+export const ACCOUNT_EXPORT_VERSION = 1
+
+export interface AccountExport {
+  format: typeof ACCOUNT_EXPORT_FORMAT
+  version: typeof ACCOUNT_EXPORT_VERSION
+  exportedAt: string
+  account: Record<string, unknown>
+  identities: Record<string, unknown>[]
+  sessions: Record<string, unknown>[]
+  pushSubscriptions: Record<string, unknown>[]
+  notificationSettings: Record<string, unknown> | null
+  campaigns: Record<string, unknown>[]
+  characters: CharacterExport[]
+  messages: Record<string, unknown>[]
+  whispersReceived: Record<string, unknown>[]
+  notes: Record<string, unknown>[]
+  playerActions: Record<string, unknown>[]
+  diceRolls: Record<string, unknown>[]
+  gmClarifications: Record<string, unknown>[]
+  notifications: Record<string, unknown>[]
+  transactions: Record<string, unknown>[]
+  analyticsEvents: Record<string, unknown>[]
+  friends: { friendships: Record<string, unknown>[]; requests: Record<string, unknown>[] }
+  blocks: Record<string, unknown>[]
+  reports: Record<string, unknown>[]
+  xCardUses: Record<string, unknown>[]
+}
+
+/** Null when the account doesn't exist (or was already deleted). */
+export async function buildAccountExport(userId: string): Promise<AccountExport | null> {
+  const account = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      createdAt: true,
+      updatedAt: true,
+      emailVerified: true,
+      balance: true,
+      themePreference: true,
+      orientationSeenAt: true,
+      lastSeenAt: true,
+      totpEnabledAt: true,
+      deletionScheduledFor: true,
+      deletedAt: true,
+    },
+  })
+  if (!account || account.deletedAt) return null
+
+  const byUser = { where: { userId }, orderBy: { createdAt: 'asc' as const } }
+
+  const characterIds = await prisma.character.findMany({ where: { userId }, select: { id: true }, orderBy: { createdAt: 'asc' } })
+  const characters: CharacterExport[] = []
+  for (const { id } of characterIds) {
+    const exported = await CampaignExporter.exportCharacter(id)
+    const { gmNotes: _gmNotes, ...character } = exported.character
+    characters.push({ ...exported, character })
+  }
+
+  const { deletedAt: _deletedAt, ...accountFields } = account
+  return {
+    format: ACCOUNT_EXPORT_FORMAT,
+    version: ACCOUNT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    account: accountFields,
+    identities: await prisma.userIdentity.findMany({
+      ...byUser,
+      select: { provider: true, subject: true, email: true, createdAt: true },
+    }),
+    sessions: await prisma.userSession.findMany({
+      ...byUser,
+      select: { userAgent: true, ip: true, createdAt: true, lastSeenAt: true },
+    }),
+    pushSubscriptions: await prisma.pushSubscription.findMany({
+      ...byUser,
+      select: { endpoint: true, userAgent: true, createdAt: true, lastUsedAt: true },
+    }),
+    notificationSettings: await prisma.userNotificationSettings.findUnique({ where: { userId } }),
+    campaigns: await prisma.campaignMembership.findMany({
+      where: { userId },
+      orderBy: { joinedAt: 'asc' },
+      select: { role: true, joinedAt: true, expiresAt: true, campaign: { select: { id: true, title: true } } },
+    }),
+    characters,
+    messages: await prisma.message.findMany({ where: { authorId: userId }, orderBy: { createdAt: 'asc' } }),
+    whispersReceived: await prisma.message.findMany({
+      where: { targetUserId: userId, authorId: { not: userId } },
+      orderBy: { createdAt: 'asc' },
+    }),
+    notes: await prisma.playerNote.findMany({ where: { authorId: userId }, orderBy: { createdAt: 'asc' } }),
+    playerActions: await prisma.playerAction.findMany(byUser),
+    diceRolls: await prisma.diceRoll.findMany(byUser),
+    gmClarifications: await prisma.gmClarification.findMany(byUser),
+    notifications: await prisma.notification.findMany(byUser),
+    transactions: await prisma.transaction.findMany(byUser),
+    analyticsEvents: await prisma.analyticsEvent.findMany(byUser),
+    friends: {
+      friendships: await prisma.friendship.findMany({
+        where: { OR: [{ user1Id: userId }, { user2Id: userId }] },
+        orderBy: { createdAt: 'asc' },
+      }),
+      requests: await prisma.friendRequest.findMany({
+        where: { OR: [{ senderId: userId }, { receiverId: userId }] },
+        orderBy: { createdAt: 'asc' },
+      }),
+    },
+    // Blocks the account made. Blocks OF it are other people's
+    // moderation choices, and stay theirs.
+    blocks: await prisma.userBlock.findMany(byUser),
+    reports: await prisma.contentReport.findMany({
+      where: { reporterId: userId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        campaignId: true,
+        contentType: true,
+        contentId: true,
+        contentText: true,
+        reason: true,
+        category: true,
+        status: true,
+        createdAt: true,
+      },
+    }),
+    xCardUses: await prisma.xCardUse.findMany(byUser),
+  }
+}
@@ -0,0 +1,280 @@
+// src/lib/account/deletion.ts
+// Self-service account deletion, with a grace period.
+//
+// Asking for deletion only schedules it: ACCOUNT_DELETION_GRACE_DAYS
+// later the daily cron carries it out, and until then one click cancels.
+// The account keeps working in between — the point of the wait is the
+// person who changes their mind, or who finds out from the confirmation
+// email that someone holding their session asked for it.
+//
+// Carrying it out does NOT delete the User row. Every relation to it
+// cascades, and most of what cascades is other people's game: the messages
+// they were answering, the actions the story was written from, the
+// character the party travelled with. So the row stays, emptied of
+// everything that identifies anyone (email, name, password, every token),
+// and what is private to the account is deleted outright — notes nobody
+// else could read, notifications, devices, identity-provider links,
+// friends, blocks, invites. Analytics keep their counts and lose the id.
+// The transaction ledger stays, against an account that no longer says
+// whose it was: money records are kept for accounting, not for profiling.
+//
+// Campaigns the account is the only admin of need somewhere to go. The
+// request says, per campaign: hand it to another member (a co-host or a
+// player — not a guest on a clock, not a spectator), or archive it. An
+// archived campaign keeps its members and history and stops taking world
+// turns. A campaign nobody else is in goes with the account: there is no
+// shared history to keep.
+
+import { Prisma, UserRole } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isMembershipExpired } from '@/lib/api/campaignPermissions'
+import { dropFromTurnOrders } from '@/lib/notifications/turnOrderCleanup'
+
+export const ACCOUNT_DELETION_GRACE_DAYS = 14
+
+/** Deletions carried out per cron run; the rest wait for the next one. */
+export const MAX_DELETIONS_PER_SWEEP = 20
+
+/**
+ * A campaign's cascade can be tens of thousands of rows — the default 5s
+ * interactive-transaction timeout would fail exactly the accounts with the
+ * most to delete.
+ */
+const DELETION_TRANSACTION_TIMEOUT_MS = 2 * 60 * 1000
+
+/** Who a campaign can be handed to: someone who plays it for good. */
+const TRANSFERABLE_ROLES: readonly UserRole[] = [UserRole.CO_HOST, UserRole.PLAYER]
+
+export type HostedCampaignDecision = { action: 'transfer'; toUserId: string } | { action: 'archive' }
+
+/** Keyed by campaign id; stored as-is in User.deletionPlan. */
+export type DeletionPlan = Record<string, HostedCampaignDecision>
+
+export interface HostedCampaigns {
+  /** Only-admin campaigns with other members: each needs a decision. */
+  shared: Array<{
+    id: string
+    title: string
+    candidates: Array<{ userId: string; name: string | null; role: UserRole }>
+  }>
+  /** Campaigns with nobody else in them: deleted along with the account. */
+  solo: Array<{ id: string; title: string }>
+}
+
+/** The campaigns a deletion would leave without an admin, read fresh. */
+export async function describeHostedCampaigns(userId: string, now: Date = new Date()): Promise<HostedCampaigns> {
+  const memberships = await prisma.campaignMembership.findMany({
+    where: { userId, role: UserRole.ADMIN },
+    select: {
+      campaign: {
+        select: {
+          id: true,
+          title: true,
+          memberships: {
+            where: { userId: { not: userId } },
+            select: { userId: true, role: true, expiresAt: true, user: { select: { name: true } } },
+          },
+        },
+      },
+    },
+    orderBy: { joinedAt: 'asc' },
+  })
+
+  const result: HostedCampaigns = { shared: [], solo: [] }
+  for (const { campaign } of memberships) {
+    const others = campaign.memberships.filter((m) => !isMembershipExpired(m, now))
+    if (others.some((m) => m.role === UserRole.ADMIN)) continue
+    if (others.length === 0) {
+      result.solo.push({ id: campaign.id, title: campaign.title })
+      continue
+    }
+    result.shared.push({
+      id: campaign.id,
+      title: campaign.title,
+      candidates: others
+        .filter((m) => TRANSFERABLE_ROLES.includes(m.role))
+        .map((m) => ({ userId: m.userId, name: m.user.name, role: m.role })),
+    })
+  }
+  return result
+}
+
+/**
+ * Check a requested plan against the campaigns that need one. Every shared
+ * campaign must have a decision, and a transfer must name one of its
+ * candidates; decisions for campaigns that don't need one are dropped.
+ */
+export function validateDeletionPlan(
+  hosted: HostedCampaigns,
+  requested: unknown
+): { ok: true; plan: DeletionPlan } | { ok: false; error: string } {
+  const input = requested && typeof requested === 'object' ? (requested as Record<string, unknown>) : {}
+  const plan: DeletionPlan = {}
+  for (const campaign of hosted.shared) {
+    const decision = input[campaign.id] as { action?: unknown; toUserId?: unknown } | undefined
+    if (decision?.action === 'archive') {
+      plan[campaign.id] = { action: 'archive' }
+    } else if (
+      decision?.action === 'transfer' &&
+      campaign.candidates.some((c) => c.userId === decision.toUserId)
+    ) {
+      plan[campaign.id] = { action: 'transfer', toUserId: decision.toUserId as string }
+    } else {
+      return {
+        ok: false,
+        error: `Choose who takes over "${campaign.title}", or archive it`,
+      }
+    }
+  }
+  return { ok: true, plan }
+}
+
+export async function scheduleAccountDeletion(userId: string, plan: DeletionPlan, now: Date = new Date()): Promise<Date> {
+  const scheduledFor = new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000)
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionScheduledFor: scheduledFor, deletionPlan: plan },
+  })
+  return scheduledFor
+}
+
+export async function cancelAccountDeletion(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: { deletionScheduledFor: null, deletionPlan: Prisma.DbNull },
+  })
+}
+
+/**
+ * Carry out one scheduled deletion. Re-reads the schedule inside the
+ * transaction, so a cancel that lands after the sweep picked the account
+ * up still wins. Returns whether anything was deleted.
+ */
+export async function executeAccountDeletion(userId: string, now: Date = new Date()): Promise<boolean> {
+  const leftCampaignIds = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { deletionScheduledFor: true, deletionPlan: true, deletedAt: true },
+    })
+    if (!user || user.deletedAt || !user.deletionScheduledFor || user.deletionScheduledFor > now) return null
+
+    // The plan was checked when it was made; a member it named may have
+    // left since. Anything that no longer holds falls back to archiving.
+    const plan = (user.deletionPlan ?? {}) as DeletionPlan
+    const memberships = await tx.campaignMembership.findMany({
+      where: { userId },
+      select: {
+        campaignId: true,
+        role: true,
+        campaign: {
+          select: {
+            memberships: {
+              where: { userId: { not: userId } },
+              select: { userId: true, role: true, expiresAt: true },
+            },
+          },
+        },
+      },
+    })
+    for (const membership of memberships) {
+      if (membership.role !== UserRole.ADMIN) continue
+      const others = membership.campaign.memberships.filter((m) => !isMembershipExpired(m, now))
+      if (others.some((m) => m.role === UserRole.ADMIN)) continue
+      if (others.length === 0) {
+        await tx.campaign.delete({ where: { id: membership.campaignId } })
+        continue
+      }
+      const decision = plan[membership.campaignId]
+      const heir =
+        decision?.action === 'transfer'
+          ? others.find((m) => m.userId === decision.toUserId && TRANSFERABLE_ROLES.includes(m.role))
+          : undefined
+      if (heir) {
+        await tx.campaignMembership.update({
+          where: { userId_campaignId: { userId: heir.userId, campaignId: membership.campaignId } },
+          data: { role: UserRole.ADMIN },
+        })
+      } else {
+        await tx.campaign.update({ where: { id: membership.campaignId }, data: { isActive: false } })
+      }
+    }
+    await tx.campaignMembership.deleteMany({ where: { userId } })
+
+    // Private to the account: nobody else could read these, so nothing
+    // shared breaks when they go. Notes shared with the GM or the table
+    // are the table's, and stay.
+    await tx.playerNote.deleteMany({ where: { authorId: userId, visibility: 'PRIVATE' } })
+    await tx.notification.deleteMany({ where: { userId } })
+    await tx.userNotificationSettings.deleteMany({ where: { userId } })
+    await tx.pushSubscription.deleteMany({ where: { userId } })
+    await tx.userSession.deleteMany({ where: { userId } })
+    await tx.userIdentity.deleteMany({ where: { userId } })
+    await tx.campaignInvite.deleteMany({ where: { createdBy: userId } })
+    await tx.campaignBan.deleteMany({ where: { userId } })
+    await tx.userBlock.deleteMany({ where: { OR: [{ userId }, { blockedUserId: userId }] } })
+    await tx.friendRequest.deleteMany({ where: { OR: [{ senderId: userId }, { receiverId: userId }] } })
+    await tx.friendship.deleteMany({ where: { OR: [{ user1Id: userId }, { user2Id: userId }] } })
+    await tx.analyticsEvent.updateMany({ where: { userId }, data: { userId: null } })
+
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        // Unique, and undeliverable by definition (RFC 2606's .invalid),
+        // so the address is free to sign up with again at once.
+        email: `deleted-${userId}@deleted.invalid`,
+        name: 'Deleted user',
+        password: null,
+        emailVerified: false,
+        emailVerifyToken: null,
+        resetToken: null,
+        resetTokenExpires: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: [],
+        themePreference: null,
+        orientationSeenAt: null,
+        lastSeenAt: null,
+        isOnline: false,
+        // Kills every token still out there, session row or not.
+        tokenVersion: { increment: 1 },
+        deletionScheduledFor: null,
+        deletionPlan: Prisma.DbNull,
+        deletedAt: now,
+      },
+    })
+
+    return memberships.map((m) => m.campaignId)
+  }, { timeout: DELETION_TRANSACTION_TIMEOUT_MS })
+
+  if (!leftCampaignIds) return false
+  for (const campaignId of leftCampaignIds) {
+    await dropFromTurnOrders(campaignId, userId).catch((err) =>
+      console.error(`Account deletion: turn-order cleanup failed for campaign ${campaignId} (non-fatal):`, err)
+    )
+  }
+  return true
+}
+
+/** The cron's half: every deletion whose grace period is over, bounded per run. */
+export async function executeDueAccountDeletions(now: Date = new Date()): Promise<{ deleted: number; failed: number }> {
+  const due = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: now }, deletedAt: null },
+    select: { id: true },
+    orderBy: { deletionScheduledFor: 'asc' },
+    take: MAX_DELETIONS_PER_SWEEP,
+  })
+
+  let deleted = 0
+  let failed = 0
+  for (const { id } of due) {
+    try {
+      if (await executeAccountDeletion(id, now)) deleted++
+    } catch (err) {
+      // Stays scheduled, so tomorrow's run tries again.
+      console.error(`Account deletion failed for user ${id}:`, err)
+      failed++
+    }
+  }
+  return { deleted, failed }
+}
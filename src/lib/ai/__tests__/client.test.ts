@@ -172,4 +172,60 @@ describe('callAIGM — multi-model fallback (#116)', () => {
     const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string)
     expect(body.model).toBe(AI_MODELS.EFFICIENT)
   })
+
+  describe('streamed narration', () => {
+    function streamResponse(content: string) {
+      const encoder = new TextEncoder()
+      const events = [content.slice(0, 30), content.slice(30)].map(
+        piece => `data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`
+      )
+      return {
+        ok: true,
+        status: 200,
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            for (const event of [...events, 'data: [DONE]\n\n']) controller.enqueue(encoder.encode(event))
+            controller.close()
+          },
+        }),
+      }
+    }
+
+    it('streams the prose to onNarration and still validates the whole response', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(streamResponse(JSON.stringify(validContent)))
+      vi.stubGlobal('fetch', fetchMock)
+      const onNarration = vi.fn()
+
+      const result = await callAIGM(makeRequest(), 'campaign-stream', undefined, { onNarration })
+
+      const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string)
+      expect(body.stream).toBe(true)
+      expect(body.stream_options).toEqual({ include_usage: true })
+      expect(onNarration).toHaveBeenCalledTimes(2)
+      expect(onNarration).toHaveBeenLastCalledWith(validContent.scene_text)
+      expect(result.scene_text).toBe(validContent.scene_text)
+    })
+
+    it('does not stream when nobody is listening', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(validContent))
+      vi.stubGlobal('fetch', fetchMock)
+
+      await callAIGM(makeRequest(), 'campaign-no-stream')
+
+      const body = JSON.parse((fetchMock.mock.calls[0][1] as RequestInit).body as string)
+      expect(body.stream).toBeUndefined()
+    })
+
+    it('keeps resolving when the narration listener throws', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse(JSON.stringify(validContent))))
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await callAIGM(makeRequest(), 'campaign-stream-throws', undefined, {
+        onNarration: () => { throw new Error('listener broke') },
+      })
+
+      expect(result.scene_text).toBe(validContent.scene_text)
+      consoleErrorSpy.mockRestore()
+    })
+  })
 })
@@ -7,7 +7,7 @@
 // actually routes to) got billed 1000x its real cost, which is how a scene
 // that should cost cents ended up demanding $1,459.77 to resolve.
 
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
@@ -185,3 +185,26 @@ describe('AI_PRICING — flat-priced models (#96, image generation)', () => {
     expect(tracker.estimateCost(5000, 5000)).toBeCloseTo(0.04, 5) // unaffected by token counts
   })
 })
+
+describe('provider pricing', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('bills a self-hosted provider nothing, whatever its model is called', () => {
+    vi.stubEnv('AI_PROVIDER', 'ollama')
+    expect(new AICostTracker('camp1', 'gpt-5.4').estimateCost(1_000_000, 1_000_000)).toBe(0)
+  })
+
+  it('bills at the deployment\'s own per-1M price for a tier served elsewhere', () => {
+    vi.stubEnv('AI_PROVIDER', 'openai-compatible')
+    vi.stubEnv('AI_FLAGSHIP_INPUT_PRICE', '1')
+    vi.stubEnv('AI_FLAGSHIP_OUTPUT_PRICE', '3')
+    expect(new AICostTracker('camp1', 'gpt-5.4').estimateCost(1_000_000, 1_000_000)).toBeCloseTo(4, 5)
+  })
+
+  it('keeps the table price for a historical model no tier routes to', () => {
+    vi.stubEnv('AI_PROVIDER', 'ollama')
+    expect(new AICostTracker('camp1', 'gpt-4').estimateCost(1000, 1000)).toBeCloseTo(0.09, 5)
+  })
+})
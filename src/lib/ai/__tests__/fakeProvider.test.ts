@@ -0,0 +1,270 @@
+// src/lib/ai/__tests__/fakeProvider.test.ts
+//
+// AI_PROVIDER=fake answers every prompt family the campaign pipeline
+// sends with something its real caller accepts, the same answer every
+// time, without touching the network — and plays scripted fixtures in
+// order when it's given them.
+//
+// The callers below are the real ones, not copies of their prompts: a
+// system prompt edited out from under PROMPT_FAMILIES fails here instead
+// of quietly degrading an offline run to the 'other' family's `{}`.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    worldMeta: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      update: vi.fn().mockResolvedValue({}),
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    aICostEntry: { create: vi.fn().mockResolvedValue({}) },
+    character: { findMany: vi.fn(), update: vi.fn(async () => ({})) },
+    faction: { findMany: vi.fn(async () => []) },
+    nPC: { findMany: vi.fn(async () => []) },
+    location: { findMany: vi.fn(async () => []) },
+    move: { findMany: vi.fn(async () => []) },
+    campaign: { findUnique: vi.fn(async () => ({ corruptionTheme: null })) },
+    debt: { findMany: vi.fn(async () => []) },
+    scene: { findUnique: vi.fn(async () => null) },
+    diceRoll: { create: vi.fn(async () => ({ id: 'roll-1' })) },
+    playerAction: { update: vi.fn(async () => ({})), findMany: vi.fn(async () => []) },
+    resolutionReview: { findMany: vi.fn(async () => []) },
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { classifyPrompt, fakeProviderFetch, resetFakeProvider } from '../fakeProvider'
+import { openaiFetch } from '../openaiCompat'
+import { readChatCompletionStream } from '../narrationStream'
+import { generateWorldFromTemplate } from '../worldGenerator'
+import { extractConsequences } from '../consequenceExtraction'
+import { callAIGM, callAIForWorldTurn, type AIGMRequest } from '../client'
+import { AIGMResponseSchema } from '../schema'
+import { AI_MODELS } from '../models'
+import { resolveActionMechanics } from '@/lib/game/resolution'
+import { AMBITION_CATEGORY_OPTIONS } from '@/lib/game/tick/ambitionTick'
+
+const FAKE_URL = 'http://fake-llm.invalid/v1'
+
+function chat(system: string, user: string, extra: Record<string, unknown> = {}): RequestInit {
+  return {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: AI_MODELS.EFFICIENT,
+      messages: [{ role: 'system', content: system }, { role: 'user', content: user }],
+      ...extra,
+    }),
+  }
+}
+
+async function contentOf(response: Response): Promise<string> {
+  return (await response.json()).choices[0].message.content
+}
+
+beforeEach(() => {
+  vi.stubEnv('AI_PROVIDER', 'fake')
+  // Anything that reaches the real network fails the test.
+  vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('network used'))))
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  resetFakeProvider()
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('classifyPrompt', () => {
+  it('leaves a prompt it does not know in the catch-all family', () => {
+    expect(classifyPrompt('You write limericks.')).toBe('other')
+  })
+})
+
+describe('fakeProviderFetch', () => {
+  it('answers the same request the same way, and differently under another seed', async () => {
+    const init = chat('You are a creative tabletop RPG world builder.', 'Campaign title: "Saltmarch"')
+    const first = await contentOf(await fakeProviderFetch(`${FAKE_URL}/chat/completions`, init))
+    expect(await contentOf(await fakeProviderFetch(`${FAKE_URL}/chat/completions`, init))).toBe(first)
+
+    vi.stubEnv('AI_FAKE_SEED', 'another')
+    expect(await contentOf(await fakeProviderFetch(`${FAKE_URL}/chat/completions`, init))).not.toBe(first)
+  })
+
+  it('gives an unknown JSON-mode prompt an empty object, and a plain one a sentence', async () => {
+    const json = chat('You write limericks.', 'Go.', { response_format: { type: 'json_object' } })
+    expect(await contentOf(await fakeProviderFetch(`${FAKE_URL}/chat/completions`, json))).toBe('{}')
+    const text = await contentOf(await fakeProviderFetch(`${FAKE_URL}/chat/completions`, chat('You write limericks.', 'Go.')))
+    expect(text.length).toBeGreaterThan(0)
+  })
+
+  it('streams in deltas with usage last, as a streaming caller reads it', async () => {
+    const init = chat('You write limericks.', 'Go.', {
+      stream: true,
+      stream_options: { include_usage: true },
+      response_format: { type: 'json_object' },
+    })
+    const response = await fakeProviderFetch(`${FAKE_URL}/chat/completions`, init)
+    const seen: string[] = []
+    const streamed = await readChatCompletionStream(response.body!, (text) => seen.push(text))
+    expect(streamed.content).toBe('{}')
+    expect(streamed.usage.prompt_tokens).toBeGreaterThan(0)
+  })
+
+  it('embeds text as a stable 1536-dimension unit vector', async () => {
+    const embed = async (input: unknown) => (await (await fakeProviderFetch(`${FAKE_URL}/embeddings`, {
+      method: 'POST',
+      body: JSON.stringify({ model: AI_MODELS.EMBEDDING, input }),
+    })).json()).data
+    const [a] = await embed('the ashen gate')
+    const [b, c] = await embed(['the ashen gate', 'the drowned market'])
+    expect(a.embedding).toHaveLength(1536)
+    expect(a.embedding).toEqual(b.embedding)
+    expect(c.embedding).not.toEqual(a.embedding)
+    expect(Math.hypot(...a.embedding)).toBeCloseTo(1, 6)
+  })
+
+  it('never flags moderation, returns an image, and 404s anything else', async () => {
+    const moderation = await (await fakeProviderFetch(`${FAKE_URL}/moderations`, { method: 'POST', body: '{"input":"x"}' })).json()
+    expect(moderation.results[0].flagged).toBe(false)
+    const image = await (await fakeProviderFetch(`${FAKE_URL}/images/generations`, { method: 'POST', body: '{}' })).json()
+    expect(Buffer.from(image.data[0].b64_json, 'base64').subarray(1, 4).toString()).toBe('PNG')
+    expect((await fakeProviderFetch(`${FAKE_URL}/audio/speech`, { method: 'POST', body: '{}' })).status).toBe(404)
+  })
+})
+
+describe('fixtures', () => {
+  function writeFixtures(fixtures: unknown): string {
+    const path = join(mkdtempSync(join(tmpdir(), 'fake-llm-')), 'fixtures.json')
+    writeFileSync(path, JSON.stringify(fixtures))
+    return path
+  }
+
+  it('plays a family\'s responses in order, then repeats the last; strings go verbatim', async () => {
+    vi.stubEnv('AI_FAKE_FIXTURES', writeFixtures({
+      'scene-intro': 'The gate is open.',
+      'world-generation': [{ n: 1 }, { n: 2 }],
+    }))
+    const world = chat('You are a creative tabletop RPG world builder.', 'Go.')
+    const played = []
+    for (let i = 0; i < 3; i++) {
+      played.push(await contentOf(await fakeProviderFetch(`${FAKE_URL}/chat/completions`, world)))
+    }
+    expect(played).toEqual(['{"n":1}', '{"n":2}', '{"n":2}'])
+
+    const intro = chat('You are an evocative, atmospheric storyteller.', 'Go.')
+    expect(await contentOf(await fakeProviderFetch(`${FAKE_URL}/chat/completions`, intro))).toBe('The gate is open.')
+
+    resetFakeProvider()
+    expect(await contentOf(await fakeProviderFetch(`${FAKE_URL}/chat/completions`, world))).toBe('{"n":1}')
+  })
+
+  it('refuses a fixture file that is not an object of families', async () => {
+    vi.stubEnv('AI_FAKE_FIXTURES', writeFixtures(['not', 'keyed']))
+    await expect(
+      fakeProviderFetch(`${FAKE_URL}/chat/completions`, chat('You write limericks.', 'Go.'))
+    ).rejects.toThrow(/keyed by prompt family/)
+  })
+})
+
+describe('the pipeline\'s own callers, answered offline', () => {
+  it('routes through openaiFetch to the fake provider without a key', async () => {
+    const response = await openaiFetch('/chat/completions', chat('You write limericks.', 'Go.'))
+    expect(response.ok).toBe(true)
+    expect(globalThis.fetch).not.toHaveBeenCalled()
+  })
+
+  it('world generation: factions, a capability graph, stat labels and a front', async () => {
+    const world = await generateWorldFromTemplate('pbta-fantasy', 'Saltmarch', 'A drowned city.')
+    expect(world).not.toBeNull()
+    expect(world!.factions.length).toBeGreaterThanOrEqual(2)
+    expect(world!.capabilities.some(c => c.requires && c.requires.length > 0)).toBe(true)
+    expect(world!.statLabels?.weird.label).toBeTruthy()
+    expect(world!.factions.map(f => f.name)).toContain(world!.fronts[0].sourceFactionName)
+  })
+
+  it('action classification: one classification per action, naming a real move or no_roll', async () => {
+    ;(prisma.character.findMany as any).mockResolvedValue([
+      {
+        id: 'char1', name: 'Jason',
+        stats: { cool: 1, hard: 0, hot: 0, sharp: 0, weird: 0 },
+        harm: 0, corruption: 0, pendingBargain: null,
+        capabilities: [], factionStandings: [],
+        relationships: null, consequences: null, conditions: null,
+        perks: [], moves: [],
+        currentLocation: null, locationId: null,
+        currentZone: null, zoneMetadata: null,
+      },
+    ])
+    const actions = ['Vault the railing', 'Shout a warning', 'Pick the lock', 'Wait']
+      .map((actionText, i) => ({ id: `act${i}`, characterId: 'char1', userId: 'u1', actionText }))
+
+    const result = await resolveActionMechanics('camp1', 'scene1', actions, () => 0.5)
+
+    expect(result.classificationUnavailable).toBe(false)
+    expect(result.droppedFields ?? []).toEqual([])
+    expect(prisma.diceRoll.create).toHaveBeenCalled()
+  })
+
+  it('resolution: a valid response that echoes each binding roll back', async () => {
+    const request = {
+      campaign_universe: 'Saltmarch',
+      ai_system_prompt: 'Be a good GM.',
+      world_summary: {
+        turn_number: 1,
+        in_game_date: 'Day 1',
+        characters: [],
+        npcs: [],
+        factions: [],
+        clocks: [],
+        recent_timeline_events: [],
+      },
+      current_scene_intro: 'The gate is shut.',
+      player_actions: [
+        {
+          character_name: 'Jason',
+          action_text: 'Vault the railing',
+          mechanics: { move_name: 'Act Under Fire', outcome: 'weakHit', outcome_text: 'You do it, at a cost.' },
+        },
+        { character_name: 'Mira', action_text: 'Watch the door' },
+      ],
+    } as unknown as AIGMRequest
+
+    const response = await callAIGM(request, 'camp1')
+
+    const validated = AIGMResponseSchema.parse(response)
+    expect(validated.scene_text).toContain('Jason')
+    expect(validated.outcome_echo).toEqual([expect.objectContaining({ character_name_or_id: 'Jason', outcome: 'weakHit' })])
+  })
+
+  it('consequence extraction: only ever names an NPC the scene does', async () => {
+    const npcs = [{ id: 'n1', name: 'Marek Vosk' }, { id: 'n2', name: 'Ilse Dane' }]
+    const named = await extractConsequences('Marek Vosk lowers his blade.', npcs, [])
+    expect(named).toEqual([expect.objectContaining({ entityType: 'NPC', entityName: 'Marek Vosk' })])
+    expect(await extractConsequences('Nobody comes.', npcs, [])).toEqual([])
+  })
+
+  it('world turn: events, a new goal for each NPC who finished one, and an ambition pick from its options', async () => {
+    const result = await callAIForWorldTurn(
+      'Saltmarch',
+      'Be a good GM.',
+      { turn_number: 3, characters: [], npcs: [], factions: [], clocks: [], recent_timeline_events: [] } as any,
+      [],
+      'camp1',
+      [{ npcId: 'npc-1', npcName: 'Marek Vosk', completedGoal: 'win the tourney' }],
+      [{ factionId: 'fac-1', factionName: 'The Iron Compact', goal: 'ENRICH', archetype: 'GENERIC' }]
+    )
+
+    expect(result.offscreen_events.length).toBeGreaterThan(0)
+    expect(result.world_updates?.npc_changes).toEqual([
+      expect.objectContaining({ npc_name_or_id: 'npc-1', changes: expect.objectContaining({ goals: expect.any(String) }) }),
+    ])
+    expect(result.ambition_picks).toEqual([expect.objectContaining({ faction_id: 'fac-1' })])
+    expect(AMBITION_CATEGORY_OPTIONS.GENERIC.ENRICH).toContain(result.ambition_picks![0].category)
+  })
+})
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildKeywordQuery,
+  buildRetrievalTrace,
+  fuseRankings,
+  matchRosterName,
+  reciprocalRankFusion,
+  RRF_K,
+  ROSTER_BOOST_WEIGHT,
+} from '../hybridRetrieval'
+
+describe('buildKeywordQuery', () => {
+  it('ORs the meaningful terms, dropping stopwords and short words', () => {
+    expect(buildKeywordQuery('we search the old mill for it')).toBe('search | old | mill')
+  })
+
+  it('adds a capitalised run as a phrase and puts proper nouns first', () => {
+    const query = buildKeywordQuery('I open the Ashen Ledger and read it')!
+    expect(query.split(' | ').slice(0, 3)).toEqual(['(ashen <-> ledger)', 'ashen', 'ledger'])
+    expect(query).toContain('read')
+  })
+
+  it('drops a leading stopword from a phrase rather than requiring it', () => {
+    expect(buildKeywordQuery('The Grey Court')).toContain('(grey <-> court)')
+  })
+
+  it("ignores buildSearchQuery's own section labels", () => {
+    expect(buildKeywordQuery('Player actions: Stakes: NPCs present:')).toBeNull()
+  })
+
+  it('dedupes case-insensitively', () => {
+    expect(buildKeywordQuery('Vell vell VELL')).toBe('vell')
+  })
+
+  it('strips everything but letters and digits, so the result is safe for to_tsquery', () => {
+    const query = buildKeywordQuery("Vell's blade & the 'Ashen' (Ledger) | !:*")!
+    expect(query).not.toMatch(/[&!:*'"]/)
+    expect(query.replace(/[()|<>\-\s]/g, '')).toMatch(/^[\p{L}\p{N}]+$/u)
+  })
+
+  it('keeps unicode names intact', () => {
+    expect(buildKeywordQuery('Søren Ødegård')).toContain('(søren <-> ødegård)')
+  })
+
+  it('caps the number of terms', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `word${i}x`).join(' ')
+    expect(buildKeywordQuery(text, 10)!.split(' | ')).toHaveLength(10)
+  })
+
+  it('returns null for empty text', () => {
+    expect(buildKeywordQuery('   ')).toBeNull()
+  })
+})
+
+describe('reciprocalRankFusion', () => {
+  it('sums 1 / (k + rank) across rankings', () => {
+    const scores = reciprocalRankFusion([{ ids: ['a', 'b'] }, { ids: ['b'] }])
+    expect(scores.get('a')).toBeCloseTo(1 / (RRF_K + 1))
+    expect(scores.get('b')).toBeCloseTo(1 / (RRF_K + 2) + 1 / (RRF_K + 1))
+  })
+
+  it('applies a ranking weight', () => {
+    const scores = reciprocalRankFusion([{ ids: ['a'], weight: 0.5 }], 10)
+    expect(scores.get('a')).toBeCloseTo(0.5 / 11)
+  })
+})
+
+describe('matchRosterName', () => {
+  it('matches a whole word, case-insensitively', () => {
+    expect(matchRosterName('we met vell at the docks', ['Vell'])).toBe('Vell')
+  })
+
+  it('does not match inside another word', () => {
+    expect(matchRosterName('Vellum scrolls', ['Vell'])).toBeNull()
+  })
+
+  it('ignores names too short to be distinctive', () => {
+    expect(matchRosterName('Al was there', ['Al'])).toBeNull()
+  })
+
+  it('escapes regex characters in names', () => {
+    expect(matchRosterName('Dr. (Mad) Hess laughed', ['Dr. (Mad) Hess'])).toBe('Dr. (Mad) Hess')
+  })
+})
+
+describe('fuseRankings', () => {
+  const textOf = (hit: { id: string; text?: string }) => hit.text ?? ''
+
+  it('puts a hit both channels found above hits only one found', () => {
+    const fused = fuseRankings(
+      [{ id: 'a' }, { id: 'both' }],
+      [{ id: 'k', keywordScore: 0.9 }, { id: 'both', keywordScore: 0.5 }],
+      { textOf }
+    )
+    expect(fused[0].id).toBe('both')
+    expect(fused[0].retrieval).toMatchObject({ vectorRank: 2, keywordRank: 2, keywordScore: 0.5 })
+  })
+
+  it('surfaces a keyword-only hit the vector channel never returned', () => {
+    const fused = fuseRankings([{ id: 'a', similarity: 0.9 }], [{ id: 'ledger', keywordScore: 0.4 }], { textOf })
+    const ledger = fused.find((h) => h.id === 'ledger')!
+    expect(ledger.retrieval).toMatchObject({ vectorRank: null, keywordRank: 1, similarity: null })
+  })
+
+  it('keeps the vector row for a hit found by both', () => {
+    const fused = fuseRankings(
+      [{ id: 'a', similarity: 0.8, relevanceScore: 0.7 } as any],
+      [{ id: 'a', similarity: 0.8, keywordScore: 0.3 } as any],
+      { textOf }
+    )
+    expect(fused).toHaveLength(1)
+    expect((fused[0] as any).relevanceScore).toBe(0.7)
+  })
+
+  it('breaks a tie by vector rank', () => {
+    const fused = fuseRankings([{ id: 'v' }], [{ id: 'k' }], { textOf })
+    expect(fused.map((h) => h.id)).toEqual(['v', 'k'])
+  })
+
+  it('lifts a hit naming someone on the roster', () => {
+    const fused = fuseRankings(
+      [{ id: 'a', text: 'the harbour' }, { id: 'b', text: 'Sera Quill at the harbour' }],
+      [],
+      { textOf, boostNames: ['Sera Quill'] }
+    )
+    expect(fused[0].id).toBe('b')
+    expect(fused[0].retrieval.rosterMatch).toBe('Sera Quill')
+    expect(fused[0].retrieval.fusedScore).toBeCloseTo(1 / (RRF_K + 2) + ROSTER_BOOST_WEIGHT / (RRF_K + 1), 5)
+  })
+
+  it('never lets the roster boost alone beat a hit both channels ranked first', () => {
+    const fused = fuseRankings(
+      [{ id: 'top', text: '' }, { id: 'named', text: 'Vell' }],
+      [{ id: 'top', text: '' }],
+      { textOf, boostNames: ['Vell'] }
+    )
+    expect(fused[0].id).toBe('top')
+  })
+
+  it('only reorders — a roster name never adds a row', () => {
+    const fused = fuseRankings([{ id: 'a', text: 'nothing here' }], [], { textOf, boostNames: ['Vell'] })
+    expect(fused.map((h) => h.id)).toEqual(['a'])
+  })
+})
+
+describe('buildRetrievalTrace', () => {
+  it('keeps titles and rounded scores, and marks unscored items', () => {
+    const trace = buildRetrievalTrace(
+      [
+        {
+          title: 'The ledger is found',
+          retrieval: { vectorRank: 1, keywordRank: 2, similarity: 0.812345, keywordScore: 0.123456, fusedScore: 0.0325123, rosterMatch: null },
+        },
+        { title: 'Vell remembers' },
+      ],
+      []
+    )
+    expect(trace.memories[0]).toEqual({
+      title: 'The ledger is found',
+      score: { vectorRank: 1, keywordRank: 2, similarity: 0.812, keywordScore: 0.123, fusedScore: 0.0325, rosterMatch: null },
+    })
+    expect(trace.memories[1]).toEqual({ title: 'Vell remembers', score: null })
+    expect(trace.lore).toEqual([])
+  })
+
+  it('carries no retrieved text', () => {
+    const trace = buildRetrievalTrace([], [{ title: 'Kessmark', content: 'secret history', retrieval: undefined } as any])
+    expect(JSON.stringify(trace)).not.toContain('secret history')
+  })
+})
@@ -41,10 +41,9 @@ describe('retrieveRelevantLore', () => {
   })
 
   it('embeds the query and returns entries above the similarity threshold', async () => {
-    db.$queryRaw.mockResolvedValue([
-      makeEntry({ id: 'a', similarity: 0.9 }),
-      makeEntry({ id: 'b', similarity: 0.5 }),
-    ])
+    db.$queryRaw
+      .mockResolvedValueOnce([makeEntry({ id: 'a', similarity: 0.9 }), makeEntry({ id: 'b', similarity: 0.5 })])
+      .mockResolvedValueOnce([])
 
     const result = await retrieveRelevantLore('camp1', 'what do we know about essence magic?', { minSimilarity: 0.7 })
 
@@ -68,6 +67,51 @@ describe('retrieveRelevantLore', () => {
     expect(result).toHaveLength(8)
   })
 
+  it('fuses in keyword hits, which the similarity floor does not apply to', async () => {
+    db.$queryRaw
+      .mockResolvedValueOnce([makeEntry({ id: 'a', similarity: 0.9 })])
+      .mockResolvedValueOnce([
+        makeEntry({ id: 'ledger', title: 'The Ashen Ledger', similarity: 0.4, keywordScore: 0.6 }),
+        makeEntry({ id: 'a', similarity: 0.9, keywordScore: 0.2 }),
+      ])
+
+    const result = await retrieveRelevantLore('camp1', 'I open the Ashen Ledger', { minSimilarity: 0.75 })
+
+    expect(result.map((e) => e.id)).toEqual(['a', 'ledger'])
+    expect(result[0].retrieval).toMatchObject({ vectorRank: 1, keywordRank: 2 })
+    expect(result[1].retrieval).toMatchObject({ vectorRank: null, keywordRank: 1, similarity: 0.4 })
+  })
+
+  it('searches the full-text column with an OR query built from the scene text', async () => {
+    db.$queryRaw.mockResolvedValue([])
+
+    await retrieveRelevantLore('camp1', 'I open the Ashen Ledger')
+
+    const keywordCall = db.$queryRaw.mock.calls[1]
+    expect(keywordCall[0].join('?')).toMatch(/"searchVector" @@ query/)
+    expect(keywordCall).toContain('(ashen <-> ledger) | ashen | ledger | open')
+  })
+
+  it('skips the keyword query when the text has no searchable terms', async () => {
+    db.$queryRaw.mockResolvedValue([])
+    await retrieveRelevantLore('camp1', 'is it at')
+    expect(db.$queryRaw).toHaveBeenCalledTimes(1)
+  })
+
+  it('lifts an entry that names someone on the scene roster', async () => {
+    db.$queryRaw
+      .mockResolvedValueOnce([
+        makeEntry({ id: 'a', title: 'Harbour', content: 'The docks.', similarity: 0.9 }),
+        makeEntry({ id: 'b', title: 'Smugglers', content: 'Sera Quill runs them.', similarity: 0.88 }),
+      ])
+      .mockResolvedValueOnce([])
+
+    const result = await retrieveRelevantLore('camp1', 'the docks at night', { boostNames: ['Sera Quill'] })
+
+    expect(result.map((e) => e.id)).toEqual(['b', 'a'])
+    expect(result[0].retrieval?.rosterMatch).toBe('Sera Quill')
+  })
+
   it('returns [] instead of throwing when the DB call fails', async () => {
     db.$queryRaw.mockRejectedValue(new Error('pgvector unavailable'))
     const result = await retrieveRelevantLore('camp1', 'query')
@@ -248,6 +248,86 @@ describe('the candidate-pool setting actually applies (#445)', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// Hybrid retrieval: the full-text channel
+// ---------------------------------------------------------------------------
+// A proper noun barely moves a long query's embedding, so a memory naming
+// it could sit outside the vector top-K entirely. The keyword channel finds
+// it by the token, and fusion interleaves the two by rank.
+
+describe('retrieveRelevantHistory — keyword channel', () => {
+  const memoryRow = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id, turnNumber: 1, title: id, summary: 's', memoryType: 'SCENE', importance: 'NORMAL', emotionalTone: null, similarity: 0.9, ...overrides,
+  })
+  const context = () => makeContext({ currentScene: { sceneIntroText: 'I open the Ashen Ledger.', stakes: null } as any })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(embedWithCostTracking).mockResolvedValue('[0.1,0.2,0.3]')
+    vi.mocked(prisma.$queryRaw).mockResolvedValue([] as any)
+  })
+
+  it('runs the keyword query inside the same transaction, after the vector query', async () => {
+    await retrieveRelevantHistory('camp1', context(), {})
+
+    const calls = vi.mocked(prisma.$queryRaw).mock.calls
+    expect(calls).toHaveLength(2)
+    expect((calls[1][0] as any).join('?')).toMatch(/"searchVector" @@ query/)
+    expect(calls[1]).toContain('(ashen <-> ledger) | ashen | ledger | open')
+  })
+
+  it('keeps the fog and archive guards on the keyword query', async () => {
+    await retrieveRelevantHistory('camp1', context(), {})
+
+    const keywordSql = vi.mocked(prisma.$queryRaw).mock.calls[1]
+    const text = JSON.stringify(keywordSql)
+    expect(text).toMatch(/isDiscovered/)
+    expect(text).toMatch(/archivedAt/)
+  })
+
+  it('surfaces a keyword-only memory below the similarity floor', async () => {
+    vi.mocked(prisma.$queryRaw)
+      .mockResolvedValueOnce([memoryRow('vector-hit')] as any)
+      .mockResolvedValueOnce([memoryRow('ledger-memory', { similarity: 0.3, keywordScore: 0.5 })] as any)
+
+    const result = await retrieveRelevantHistory('camp1', context(), { minSimilarity: 0.7 })
+
+    expect(result.map((m) => m.id)).toEqual(['vector-hit', 'ledger-memory'])
+    expect(result[1].retrieval).toMatchObject({ vectorRank: null, keywordRank: 1 })
+  })
+
+  it('ranks a memory both channels found first', async () => {
+    vi.mocked(prisma.$queryRaw)
+      .mockResolvedValueOnce([memoryRow('a'), memoryRow('b')] as any)
+      .mockResolvedValueOnce([memoryRow('b', { keywordScore: 0.4 })] as any)
+
+    const result = await retrieveRelevantHistory('camp1', context(), { importanceBoost: false })
+
+    expect(result.map((m) => m.id)).toEqual(['b', 'a'])
+  })
+
+  it('caps the fused list at maxMemories', async () => {
+    vi.mocked(prisma.$queryRaw)
+      .mockResolvedValueOnce([memoryRow('a'), memoryRow('b')] as any)
+      .mockResolvedValueOnce([memoryRow('c'), memoryRow('d')] as any)
+
+    const result = await retrieveRelevantHistory('camp1', context(), { maxMemories: 3 })
+
+    expect(result).toHaveLength(3)
+  })
+
+  it('lifts a memory naming someone on the scene roster', async () => {
+    vi.mocked(prisma.$queryRaw)
+      .mockResolvedValueOnce([memoryRow('a', { summary: 'A quiet night.' }), memoryRow('b', { summary: 'Vell lied to us.' })] as any)
+      .mockResolvedValueOnce([] as any)
+
+    const result = await retrieveRelevantHistory('camp1', context(), { importanceBoost: false, boostNames: ['Vell'] })
+
+    expect(result.map((m) => m.id)).toEqual(['b', 'a'])
+    expect(result[0].retrieval?.rosterMatch).toBe('Vell')
+  })
+})
+
 // ---------------------------------------------------------------------------
 // Cross-entity pair cap (#80)
 // ---------------------------------------------------------------------------
@@ -0,0 +1,95 @@
+// src/lib/ai/__tests__/narrationStream.test.ts
+//
+// The narration lifted out of a half-written response must always be a
+// prefix of the finished one — never a stray backslash or half an escape
+// that the next chunk then has to take back.
+
+import { describe, it, expect, vi } from 'vitest'
+import { partialSceneText, readChatCompletionStream } from '../narrationStream'
+
+function sseBody(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    }
+  })
+}
+
+function delta(content: string) {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`
+}
+
+describe('partialSceneText', () => {
+  it('is null until the scene_text string has opened', () => {
+    expect(partialSceneText('')).toBeNull()
+    expect(partialSceneText('{"scene_te')).toBeNull()
+    expect(partialSceneText('{"scene_text" :')).toBeNull()
+  })
+
+  it('returns the value so far, then the whole value once closed', () => {
+    expect(partialSceneText('{"scene_text": "The gate')).toBe('The gate')
+    expect(partialSceneText('{"scene_text": "The gate falls.", "world_updates": {"x": "y"')).toBe('The gate falls.')
+  })
+
+  it('decodes escapes', () => {
+    expect(partialSceneText('{"scene_text": "She said \\"run\\".\\n\\nThey ran')).toBe('She said "run".\n\nThey ran')
+    expect(partialSceneText('{"scene_text": "caf\\u00e9')).toBe('café')
+  })
+
+  it('stops short of an escape that is cut off', () => {
+    expect(partialSceneText('{"scene_text": "line\\')).toBe('line')
+    expect(partialSceneText('{"scene_text": "caf\\u00')).toBe('caf')
+  })
+
+  it('waits for the second half of a surrogate pair', () => {
+    expect(partialSceneText('{"scene_text": "ok \\ud83c')).toBe('ok ')
+    expect(partialSceneText('{"scene_text": "ok \\ud83c\\udf89')).toBe('ok 🎉')
+  })
+
+  it('only ever grows across a stream of chunks', () => {
+    const full = JSON.stringify({ scene_text: 'A "quoted"\nline — café 🎉 done', world_updates: {} })
+    let previous = ''
+    for (let end = 0; end <= full.length; end++) {
+      const text = partialSceneText(full.slice(0, end)) ?? ''
+      expect(text.startsWith(previous)).toBe(true)
+      previous = text
+    }
+    expect(previous).toBe('A "quoted"\nline — café 🎉 done')
+  })
+})
+
+describe('readChatCompletionStream', () => {
+  it('accumulates deltas and keeps the usage chunk', async () => {
+    const onContent = vi.fn()
+    const result = await readChatCompletionStream(
+      sseBody([
+        delta('{"scene_'),
+        delta('text": "Hi'),
+        `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 10, completion_tokens: 4 } })}\n\n`,
+        'data: [DONE]\n\n'
+      ]),
+      onContent
+    )
+
+    expect(result.content).toBe('{"scene_text": "Hi')
+    expect(result.usage).toEqual({ prompt_tokens: 10, completion_tokens: 4 })
+    expect(onContent).toHaveBeenLastCalledWith('{"scene_text": "Hi')
+    expect(onContent).toHaveBeenCalledTimes(2)
+  })
+
+  it('reassembles an event split across network chunks', async () => {
+    const event = delta('{"scene_text": "whole"}')
+    const result = await readChatCompletionStream(sseBody([event.slice(0, 17), event.slice(17)]), () => {})
+    expect(result.content).toBe('{"scene_text": "whole"}')
+  })
+
+  it('skips a line that isn\'t JSON and carries on', async () => {
+    const result = await readChatCompletionStream(
+      sseBody([delta('{"scene_'), 'data: {not json\n\n', delta('text": "on"}'), 'data: [DONE]\n\n']),
+      () => {}
+    )
+    expect(result.content).toBe('{"scene_text": "on"}')
+  })
+})
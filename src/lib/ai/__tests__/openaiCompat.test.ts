@@ -0,0 +1,80 @@
+// src/lib/ai/__tests__/openaiCompat.test.ts
+//
+// openaiFetch sends each call to the provider its model's tier is
+// configured for, with that provider's key and parameters, and still
+// retries once on a parameter 400 it knows how to fix.
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { openaiFetch } from '../openaiCompat'
+import { AI_MODELS } from '../models'
+
+function chatInit(body: Record<string, unknown>): RequestInit {
+  return { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+})
+
+describe('openaiFetch', () => {
+  it('goes to OpenAI with OPENAI_API_KEY by default', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    const fetchMock = vi.fn().mockResolvedValue({ status: 200 })
+    vi.stubGlobal('fetch', fetchMock)
+
+    await openaiFetch('/chat/completions', chatInit({ model: AI_MODELS.FLAGSHIP }))
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('https://api.openai.com/v1/chat/completions')
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer sk-test' })
+  })
+
+  it('routes by the request\'s model to its tier\'s provider, reshaping what that provider rejects', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    vi.stubEnv('AI_EFFICIENT_PROVIDER', 'llamacpp')
+    vi.stubEnv('AI_EFFICIENT_BASE_URL', 'http://inference:8080/v1')
+    const fetchMock = vi.fn().mockResolvedValue({ status: 200 })
+    vi.stubGlobal('fetch', fetchMock)
+
+    await openaiFetch('/chat/completions', chatInit({
+      model: AI_MODELS.EFFICIENT,
+      response_format: { type: 'json_object' },
+      prompt_cache_key: 'campaign-1',
+    }))
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://inference:8080/v1/chat/completions')
+    // No key configured for it, and OpenAI's is not sent somewhere else.
+    expect(init.headers).toEqual({ 'Content-Type': 'application/json' })
+    expect(JSON.parse(init.body)).toEqual({ model: AI_MODELS.EFFICIENT, response_format: { type: 'json_object' } })
+  })
+
+  it('takes an explicit tier for a request with no model of its own', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    vi.stubEnv('AI_FLAGSHIP_BASE_URL', 'https://proxy.example/v1')
+    const fetchMock = vi.fn().mockResolvedValue({ status: 200 })
+    vi.stubGlobal('fetch', fetchMock)
+
+    await openaiFetch('/moderations', chatInit({ input: 'text' }), 'FLAGSHIP')
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://proxy.example/v1/moderations')
+  })
+
+  it('retries once with max_completion_tokens when the provider rejects max_tokens', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'sk-test')
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('Unsupported parameter: max_tokens', { status: 400 }))
+      .mockResolvedValueOnce({ status: 200 })
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await openaiFetch('/chat/completions', chatInit({ model: AI_MODELS.FLAGSHIP, max_tokens: 10 }))
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    const [url, init] = fetchMock.mock.calls[1]
+    expect(url).toBe('https://api.openai.com/v1/chat/completions')
+    expect(JSON.parse(init.body)).toEqual({ model: AI_MODELS.FLAGSHIP, max_completion_tokens: 10 })
+    expect(init.headers.Authorization).toBe('Bearer sk-test')
+  })
+})
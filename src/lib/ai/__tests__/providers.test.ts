@@ -0,0 +1,171 @@
+// src/lib/ai/__tests__/providers.test.ts
+//
+// With nothing set every tier is OpenAI on OPENAI_API_KEY, as it always
+// was; each tier can be moved elsewhere on its own; a provider that can't
+// be called is reported as unconfigured rather than called anyway; and
+// requests are reshaped for what the provider accepts.
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+
+// AI_MODELS is read from the environment once, at import; the shared-name
+// cases below rename tiers on this copy instead.
+const { models, defaultModels } = vi.hoisted(() => ({ models: {} as Record<string, string>, defaultModels: {} as Record<string, string> }))
+vi.mock('../models', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../models')>()
+  Object.assign(defaultModels, actual.AI_MODELS)
+  Object.assign(models, actual.AI_MODELS)
+  return { ...actual, AI_MODELS: models }
+})
+
+import { adaptRequestBody, AIConfigurationError, providerForModel, resolveProvider, sdkApiKey, tierForModel } from '../providers'
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  Object.assign(models, defaultModels)
+})
+
+describe('resolveProvider', () => {
+  it('is OpenAI on OPENAI_API_KEY when nothing else is set', () => {
+    const provider = resolveProvider('FLAGSHIP', { OPENAI_API_KEY: 'sk-test' })
+    expect(provider).toMatchObject({
+      kind: 'openai',
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: 'sk-test',
+      configured: true,
+      pricing: null,
+    })
+    expect(provider.capabilities.moderation).toBe(true)
+  })
+
+  it('is unconfigured on OpenAI without a key', () => {
+    expect(resolveProvider('FLAGSHIP', {}).configured).toBe(false)
+    expect(resolveProvider('FLAGSHIP', { OPENAI_API_KEY: '' }).configured).toBe(false)
+  })
+
+  it('runs a self-hosted provider with no key at all, once the tier names its model', () => {
+    const env = { AI_PROVIDER: 'ollama', AI_FLAGSHIP_MODEL: 'llama3.1:70b' }
+    const flagship = resolveProvider('FLAGSHIP', env)
+    expect(flagship).toMatchObject({ kind: 'ollama', baseUrl: 'http://localhost:11434/v1', apiKey: null, configured: true })
+    // OpenAI's model names mean nothing to Ollama — not sent, not configured.
+    expect(resolveProvider('EFFICIENT', env).configured).toBe(false)
+  })
+
+  it('runs every tier on the fake provider with neither a key nor a model named', () => {
+    for (const tier of ['FLAGSHIP', 'EFFICIENT', 'IMAGE', 'EMBEDDING'] as const) {
+      expect(resolveProvider(tier, { AI_PROVIDER: 'fake' })).toMatchObject({ kind: 'fake', configured: true })
+    }
+    expect(resolveProvider('FLAGSHIP', { AI_PROVIDER: 'fake' }).pricing).toEqual({ inputTokenPrice: 0, outputTokenPrice: 0 })
+  })
+
+  it('lets one tier use a different provider from the rest', () => {
+    const env = {
+      OPENAI_API_KEY: 'sk-test',
+      AI_EMBEDDING_PROVIDER: 'vllm',
+      AI_EMBEDDING_BASE_URL: 'http://gpu-box:8000/v1/',
+      AI_EMBEDDING_MODEL: 'bge-large',
+    }
+    expect(resolveProvider('FLAGSHIP', env).kind).toBe('openai')
+    expect(resolveProvider('EMBEDDING', env)).toMatchObject({ kind: 'vllm', baseUrl: 'http://gpu-box:8000/v1', configured: true })
+  })
+
+  it('needs a base URL for a generic OpenAI-compatible vendor', () => {
+    const env = { AI_PROVIDER: 'openai-compatible', AI_API_KEY: 'vendor-key', AI_FLAGSHIP_MODEL: 'some-model' }
+    expect(resolveProvider('FLAGSHIP', env).configured).toBe(false)
+    expect(resolveProvider('FLAGSHIP', { ...env, AI_BASE_URL: 'https://api.vendor.example/v1' })).toMatchObject({
+      apiKey: 'vendor-key',
+      configured: true,
+    })
+  })
+
+  it('falls back to OpenAI with a warning for an unknown provider', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(resolveProvider('FLAGSHIP', { AI_PROVIDER: 'skynet', OPENAI_API_KEY: 'sk-test' }).kind).toBe('openai')
+    expect(warn).toHaveBeenCalled()
+  })
+
+  it('takes a JSON-mode override', () => {
+    const env = { AI_PROVIDER: 'llamacpp', AI_FLAGSHIP_MODEL: 'qwen', AI_JSON_MODE: 'json_schema' }
+    expect(resolveProvider('FLAGSHIP', env).capabilities.jsonMode).toBe('json_schema')
+    expect(resolveProvider('FLAGSHIP', { ...env, AI_JSON_MODE: 'yaml' }).capabilities.jsonMode).toBe('json_object')
+  })
+
+  it('prices self-hosted inference at zero and takes explicit prices per 1M tokens', () => {
+    expect(resolveProvider('FLAGSHIP', { AI_PROVIDER: 'vllm', AI_FLAGSHIP_MODEL: 'm' }).pricing).toEqual({
+      inputTokenPrice: 0,
+      outputTokenPrice: 0,
+    })
+    expect(resolveProvider('IMAGE', { AI_PROVIDER: 'vllm' }).pricing).toEqual({ flatCostPerRequest: 0 })
+    expect(
+      resolveProvider('EFFICIENT', { AI_EFFICIENT_INPUT_PRICE: '2', AI_EFFICIENT_OUTPUT_PRICE: '6' }).pricing
+    ).toEqual({ inputTokenPrice: 2 / 1_000_000, outputTokenPrice: 6 / 1_000_000 })
+    expect(resolveProvider('IMAGE', { AI_IMAGE_PRICE_PER_IMAGE: '0.02' }).pricing).toEqual({ flatCostPerRequest: 0.02 })
+  })
+})
+
+describe('providerForModel', () => {
+  it('routes each tier\'s own model to that tier', () => {
+    const env = { OPENAI_API_KEY: 'sk-test', AI_EFFICIENT_PROVIDER: 'vllm', AI_EFFICIENT_MODEL: 'qwen' }
+    models.EFFICIENT = 'qwen'
+    expect(providerForModel('qwen', env)).toMatchObject({ tier: 'EFFICIENT', kind: 'vllm' })
+    expect(providerForModel(models.FLAGSHIP, env)).toMatchObject({ tier: 'FLAGSHIP', kind: 'openai' })
+  })
+
+  it('lets tiers share one model name while they route alike', () => {
+    const env = { AI_PROVIDER: 'vllm', AI_BASE_URL: 'http://gpu-box:8000/v1', AI_FLAGSHIP_MODEL: 'llama', AI_EFFICIENT_MODEL: 'llama' }
+    models.FLAGSHIP = 'llama'
+    models.EFFICIENT = 'llama'
+    expect(providerForModel('llama', env)).toMatchObject({ kind: 'vllm', baseUrl: 'http://gpu-box:8000/v1' })
+  })
+
+  it.each([
+    ['a different base URL', { AI_EFFICIENT_BASE_URL: 'http://small-box:8000/v1' }],
+    ['a different provider', { AI_EFFICIENT_PROVIDER: 'ollama' }],
+    ['different prices', { AI_EFFICIENT_INPUT_PRICE: '0.1' }],
+  ])('refuses a shared model name when the tiers have %s, rather than routing it all as FLAGSHIP', (_, efficient) => {
+    const env = { AI_PROVIDER: 'vllm', AI_BASE_URL: 'http://gpu-box:8000/v1', AI_FLAGSHIP_MODEL: 'llama', AI_EFFICIENT_MODEL: 'llama', ...efficient }
+    models.FLAGSHIP = 'llama'
+    models.EFFICIENT = 'llama'
+    expect(() => providerForModel('llama', env)).toThrow(AIConfigurationError)
+    expect(() => tierForModel('llama', env)).toThrow('FLAGSHIP, EFFICIENT share the model "llama"')
+  })
+})
+
+describe('sdkApiKey', () => {
+  it('leaves OpenAI without a key to fail as it always did, and gives keyless servers a placeholder', () => {
+    expect(sdkApiKey(resolveProvider('EMBEDDING', {}))).toBeUndefined()
+    expect(sdkApiKey(resolveProvider('EMBEDDING', { AI_PROVIDER: 'ollama', AI_EMBEDDING_MODEL: 'nomic' }))).toBe('unused')
+    expect(sdkApiKey(resolveProvider('EMBEDDING', { OPENAI_API_KEY: 'sk-test' }))).toBe('sk-test')
+  })
+})
+
+describe('adaptRequestBody', () => {
+  const openai = resolveProvider('FLAGSHIP', { OPENAI_API_KEY: 'sk-test' }).capabilities
+  const body = {
+    model: 'm',
+    response_format: { type: 'json_object' },
+    prompt_cache_key: 'campaign-1',
+    prompt_cache_retention: '24h',
+    stream: true,
+    stream_options: { include_usage: true },
+  }
+
+  it('leaves an OpenAI request as it was', () => {
+    expect(adaptRequestBody(body, openai)).toEqual(body)
+  })
+
+  it('drops prompt caching and streamed usage a provider does not take', () => {
+    const adapted = adaptRequestBody(body, { ...openai, promptCaching: false, streamUsage: false })
+    expect(adapted).not.toHaveProperty('prompt_cache_key')
+    expect(adapted).not.toHaveProperty('prompt_cache_retention')
+    expect(adapted).not.toHaveProperty('stream_options')
+    expect(adapted.stream).toBe(true)
+  })
+
+  it('maps JSON mode onto structured outputs, or drops it', () => {
+    expect(adaptRequestBody(body, { ...openai, jsonMode: 'json_schema' }).response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: { type: 'object' } },
+    })
+    expect(adaptRequestBody(body, { ...openai, jsonMode: 'none' })).not.toHaveProperty('response_format')
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateRetrieval,
+  formatEvalReport,
+  rankCase,
+  recallAtK,
+  reciprocalRank,
+  type RetrievalEvalCase,
+} from '../retrievalEval'
+import { RETRIEVAL_EVAL_CASES } from '../retrievalEvalCases'
+
+describe('metrics', () => {
+  it('recallAtK counts relevant ids inside the cut-off', () => {
+    expect(recallAtK(['a', 'b', 'c'], ['a', 'c'], 2)).toBe(0.5)
+    expect(recallAtK(['a', 'b', 'c'], ['a', 'c'], 3)).toBe(1)
+  })
+
+  it('recallAtK is 1 when nothing was relevant', () => {
+    expect(recallAtK(['a'], [], 5)).toBe(1)
+  })
+
+  it('reciprocalRank uses the first relevant hit', () => {
+    expect(reciprocalRank(['x', 'a', 'b'], ['b', 'a'])).toBe(0.5)
+    expect(reciprocalRank(['x'], ['a'])).toBe(0)
+  })
+})
+
+describe('rankCase', () => {
+  const evalCase: RetrievalEvalCase = {
+    id: 'c',
+    query: 'q',
+    relevant: ['k'],
+    vector: ['v1', 'v2'],
+    keyword: ['k'],
+  }
+
+  it('returns each channel unchanged for the single-channel strategies', () => {
+    expect(rankCase(evalCase, 'vector')).toEqual(['v1', 'v2'])
+    expect(rankCase(evalCase, 'keyword')).toEqual(['k'])
+  })
+
+  it('fuses both channels for hybrid', () => {
+    expect(rankCase(evalCase, 'hybrid').sort()).toEqual(['k', 'v1', 'v2'])
+  })
+})
+
+describe('evaluateRetrieval', () => {
+  it('reports every strategy with per-case scores', () => {
+    const reports = evaluateRetrieval(RETRIEVAL_EVAL_CASES, 5)
+    expect(reports.map((r) => r.strategy)).toEqual(['vector', 'keyword', 'hybrid'])
+    for (const r of reports) expect(r.perCase).toHaveLength(RETRIEVAL_EVAL_CASES.length)
+  })
+
+  it('formats a table with one row per strategy', () => {
+    const text = formatEvalReport(evaluateRetrieval(RETRIEVAL_EVAL_CASES, 5), RETRIEVAL_EVAL_CASES.length)
+    expect(text).toMatch(/recall@5/)
+    expect(text.split('\n').filter((l) => /^(vector|keyword|hybrid)\s/.test(l))).toHaveLength(3)
+  })
+})
+
+// The labelled set as a regression gate: hybrid must beat either channel
+// alone on it, and must not lose a control case the vector channel
+// already got right. A change that breaks this is measurably worse on the
+// queries this retriever exists for.
+describe('the labelled set', () => {
+  const byStrategy = Object.fromEntries(evaluateRetrieval(RETRIEVAL_EVAL_CASES, 5).map((r) => [r.strategy, r]))
+
+  it('hybrid beats vector-only on recall and MRR', () => {
+    expect(byStrategy.hybrid.recall).toBeGreaterThan(byStrategy.vector.recall)
+    expect(byStrategy.hybrid.mrr).toBeGreaterThan(byStrategy.vector.mrr)
+  })
+
+  it('hybrid beats keyword-only on recall', () => {
+    expect(byStrategy.hybrid.recall).toBeGreaterThan(byStrategy.keyword.recall)
+  })
+
+  it('keeps full recall on the control cases', () => {
+    const controls = byStrategy.hybrid.perCase.filter((c: { id: string }) => c.id.endsWith('-control'))
+    expect(controls.length).toBeGreaterThan(0)
+    for (const c of controls) expect(c.recall).toBe(1)
+  })
+})
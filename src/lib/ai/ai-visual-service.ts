@@ -120,11 +120,10 @@ Return a JSON object with:
 }`
 
     try {
-      const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+      const response = await openaiFetch('/chat/completions', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           model: AI_MODELS.EFFICIENT, // Cost optimization: efficient model for map generation
@@ -28,6 +28,7 @@
 import { callChatCompletion } from './chatCompletion'
 import { delimitPlayerText, PLAYER_TEXT_PROMPT_RULE } from './playerText'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { recordAICost, estimateTokenCount } from './cost-tracker'
 import { buildWorldSummaryForAI } from './worldState'
 import { retrieveRelevantLore, type RetrievedLoreEntry } from './loreRetrieval'
@@ -97,8 +98,7 @@ export interface AskGmOptions {
  * treats that as "try again," never as a fabricated answer.
  */
 export async function generateGmAnswer(campaignId: string, opts: AskGmOptions): Promise<string | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
 
   const { worldSummary } = await buildWorldSummaryForAI(campaignId)
   const characterSummary = (worldSummary.characters as any[]).find(c => c.id === opts.characterId) || null
@@ -122,7 +122,6 @@ export async function generateGmAnswer(campaignId: string, opts: AskGmOptions):
   const startTime = Date.now()
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: system,
       userPrompt: user,
@@ -20,6 +20,7 @@
 
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import type { GeneratedCalendar } from '@/lib/game/calendar'
 
 const MIN_MONTHS = 4
@@ -77,8 +78,7 @@ export async function generateCalendar(
   campaignDescription: string,
   universe: string
 ): Promise<GeneratedCalendar | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
 
   const prompt = `Invent an in-fiction calendar for a tabletop RPG campaign — something that feels like it belongs to this specific world, not a real-world calendar.
 
@@ -107,7 +107,6 @@ Rules:
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: 'You invent in-fiction calendar systems for tabletop RPG campaigns. JSON only.',
       userPrompt: prompt,
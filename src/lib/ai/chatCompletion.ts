@@ -1,5 +1,5 @@
 // src/lib/ai/chatCompletion.ts
-// One raw OpenAI chat-completion call — the shape every simple two-message
+// One raw chat-completion call — the shape every simple two-message
 // (system + user) prompt call in this codebase repeated independently:
 // build the request body, call openaiFetch, and pull the assistant's
 // message content back out. Used by every "generate a small artifact"
@@ -21,7 +21,7 @@
 import { openaiFetch } from './openaiCompat'
 
 export interface ChatCompletionRequest {
-  apiKey: string
+  /** Also picks the provider the call goes to — see providers.ts. */
   model: string
   systemPrompt: string
   userPrompt: string
@@ -45,11 +45,10 @@ export interface ChatCompletionFailure {
 export type ChatCompletionResult = ChatCompletionSuccess | ChatCompletionFailure
 
 export async function callChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
-  const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+  const response = await openaiFetch('/chat/completions', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Authorization': `Bearer ${request.apiKey}`,
     },
     body: JSON.stringify({
       model: request.model,
@@ -18,6 +18,7 @@
 
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { recordAICost, estimateTokenCount } from './cost-tracker'
 import type { ChronicleNarrationInput } from '@/lib/game/chronicleTypes'
 
@@ -98,15 +99,13 @@ export async function generateChronicleNarration(
   campaignId: string,
   input: ChronicleNarrationInput
 ): Promise<string | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
 
   const startTime = Date.now()
   const { system, user } = buildChronicleNarrationPrompt(input)
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: system,
       userPrompt: user,
@@ -10,10 +10,12 @@ import { validateAIResponseWithRepair, addValidationMetadata } from './validatio
 import { checkOutcomeAdherence, type OutcomeBand, type AdherenceResult } from '@/lib/game/outcomeAdherence'
 import type { MechanicsUnavailableReason } from '@/lib/game/resolution'
 import { repairUnreportedAdherence } from './outcomeEchoRepair'
+import { partialSceneText, readChatCompletionStream, type StreamedCompletion } from './narrationStream'
 import { validateWorldTurnResponse } from './validation'
 import { circuitBreakerManager } from './circuit-breaker'
 import { AICostTracker, estimateTokenCount, recordAICost } from './cost-tracker'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { AMBITION_CATEGORY_OPTIONS } from '@/lib/game/tick/ambitionTick'
 import type { SceneProgress } from './schema'
 
@@ -636,6 +638,10 @@ export interface AIGMRequest {
   _mechanicsUnavailableReason?: MechanicsUnavailableReason
   // Which field paths the model got wrong, when the cause was its output.
   _mechanicsDroppedFields?: string[]
+  // How hybrid retrieval ranked each memory and lore entry this exchange
+  // (see hybridRetrieval.ts) — never rendered into the prompt; the
+  // resolver stores it for the AI transparency panel.
+  _retrievalTrace?: import('./hybridRetrieval').RetrievalTrace
 }
 
 // Prompt-caching params for a scene-resolution call. Scoped per campaign,
@@ -668,13 +674,13 @@ async function attemptAIGM(
   sceneId?: string,
   options?: {
     debugMode?: boolean
+    onNarration?: (sceneTextSoFar: string) => void
   }
 ): Promise<AIGMResponse & { _outcomeAdherence?: AdherenceResult }> {
   const startTime = Date.now()
-  const apiKey = process.env.OPENAI_API_KEY
 
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not configured')
+  if (!isAIConfigured(model)) {
+    throw new Error(`No AI provider is configured for ${model}`)
   }
 
   // Build the full prompt for the AI
@@ -689,11 +695,10 @@ async function attemptAIGM(
   const estimatedInputTokens = estimateTokenCount(systemPrompt + userPrompt)
 
   try {
-    const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+    const response = await openaiFetch('/chat/completions', {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+        'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         model, // #116: FLAGSHIP on the primary attempt, EFFICIENT on the one fallback attempt (see callAIGM)
@@ -710,7 +715,11 @@ async function attemptAIGM(
         temperature: 0.7, // Balanced creativity and consistency (updated from 0.8)
         max_tokens: 4000, // ~800-1000 word responses (cost optimization)
         response_format: { type: 'json_object' }, // Request JSON response
-        ...cacheParams(campaignId)
+        ...cacheParams(campaignId),
+        // Streamed only when someone is listening for the prose (see
+        // narrationStream.ts); include_usage keeps the token counts the
+        // cost tracker reads below, which a plain stream leaves out.
+        ...(options?.onNarration ? { stream: true, stream_options: { include_usage: true } } : {})
       })
     })
 
@@ -726,9 +735,29 @@ async function attemptAIGM(
       throw error
     }
 
-    const data = await response.json()
-    const content = data.choices[0].message.content
-    const usage = data.usage || {}
+    let content: string
+    let usage: StreamedCompletion['usage']
+    if (options?.onNarration && response.body) {
+      const onNarration = options.onNarration
+      let shown = ''
+      const streamed = await readChatCompletionStream(response.body, (contentSoFar) => {
+        const sceneText = partialSceneText(contentSoFar)
+        if (sceneText === null || sceneText.length <= shown.length) return
+        shown = sceneText
+        try {
+          onNarration(sceneText)
+        } catch (listenerError) {
+          // The preview is a courtesy; the resolution doesn't wait on it.
+          console.error('⚠️ Narration listener failed:', listenerError)
+        }
+      })
+      content = streamed.content
+      usage = streamed.usage
+    } else {
+      const data = await response.json()
+      content = data.choices[0].message.content
+      usage = data.usage || {}
+    }
 
     devLog('✅ AI GM response received')
     devLog('Response length:', content.length)
@@ -774,11 +803,10 @@ async function attemptAIGM(
       request.current_scene_intro,
       async (repairPrompt: string) => {
         const repairStartTime = Date.now()
-        const repairResponse = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+        const repairResponse = await openaiFetch('/chat/completions', {
           method: 'POST',
           headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
+            'Content-Type': 'application/json'
           },
           body: JSON.stringify({
             model,
@@ -965,6 +993,13 @@ export async function callAIGM(
   sceneId?: string,
   options?: {
     debugMode?: boolean
+    /**
+     * Called with the narration so far while the response streams in.
+     * Starts again from the beginning if the FLAGSHIP attempt fails and
+     * the fallback takes over, so listeners should replace, not append.
+     * Nothing else about the response is available until it resolves.
+     */
+    onNarration?: (sceneTextSoFar: string) => void
   }
 ): Promise<AIGMResponse & { _outcomeAdherence?: AdherenceResult }> {
   // Phase 15.3: an open circuit skips straight to the fallback attempt
@@ -1039,11 +1074,10 @@ export async function callAIForWorldTurn(
     description?: string
   }>
 }> {
-  const apiKey = process.env.OPENAI_API_KEY
   const startTime = Date.now()
 
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY is not configured')
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) {
+    throw new Error('AI provider not configured')
   }
 
   const systemPrompt = `${aiSystemPrompt}
@@ -1129,7 +1163,6 @@ Respond with JSON:
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT, // Cost optimization: efficient model for background world turns
       systemPrompt,
       userPrompt,
@@ -21,6 +21,7 @@
 
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { recordAICost, estimateTokenCount } from './cost-tracker'
 import {
   ClockResolutionEffect,
@@ -184,15 +185,13 @@ export async function generateClockResolutionEffects(
   campaignId: string,
   context: ClockResolutionContext
 ): Promise<ClockResolutionEffect[] | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
 
   const startTime = Date.now()
   const { system, user } = buildClockResolutionPrompt(context)
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: system,
       userPrompt: user,
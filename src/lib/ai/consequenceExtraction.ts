@@ -8,6 +8,7 @@ import { openaiFetch } from '@/lib/ai/openaiCompat'
 // than inventing a new prompting approach or a Zod schema.
 
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { recordAICost, estimateTokenCount } from './cost-tracker'
 
 export const CONSEQUENCE_ACTIONS = [
@@ -61,8 +62,7 @@ export async function extractConsequences(
   knownFactions: KnownEntity[],
   campaignId?: string
 ): Promise<ExtractedConsequence[]> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return []
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return []
   const startTime = Date.now()
 
   // Nothing to ground against — skip the call rather than let the LLM invent entities.
@@ -108,11 +108,10 @@ Rules:
 - Returning an empty consequences array is the normal, expected result for most scenes`
 
   try {
-    const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+    const response = await openaiFetch('/chat/completions', {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+        'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         model: AI_MODELS.EFFICIENT,
@@ -2,6 +2,7 @@
 // Phase 15.5.1: AI Cost Optimization and Tracking
 
 import { prisma } from '@/lib/prisma'
+import { providerForModel, tierForModel } from './providers'
 
 /**
  * AI Usage Metrics
@@ -135,9 +136,18 @@ export class AICostTracker {
   }
 
   private getPricing(): PricingEntry {
+    // A deployment's own provider price (or a self-hosted provider's zero)
+    // comes first — AI_PRICING is OpenAI's price list, and a model served
+    // from somewhere else costs whatever that somewhere charges, even when
+    // it shares a name. Only for the models a tier actually routes to;
+    // anything else is a historical name and keeps its table price.
+    if (tierForModel(this.model)) {
+      const providerPricing = providerForModel(this.model).pricing
+      if (providerPricing) return providerPricing
+    }
     const pricing = AI_PRICING[this.model]
     if (!pricing) {
-      console.warn(`⚠️ No pricing entry for model "${this.model}" — using gpt-5.4 pricing as an approximation. Update AI_PRICING in cost-tracker.ts.`)
+      console.warn(`⚠️ No pricing entry for model "${this.model}" — using gpt-5.4 pricing as an approximation. Update AI_PRICING in cost-tracker.ts, or set the tier's AI_<TIER>_INPUT_PRICE/AI_<TIER>_OUTPUT_PRICE.`)
       return FALLBACK_PRICING
     }
     return pricing
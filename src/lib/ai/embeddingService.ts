@@ -1,31 +1,47 @@
 /**
  * Embedding Service
  *
- * Handles generation of vector embeddings for semantic search using OpenAI's API.
- * Used by the Campaign Memory RAG system to enable long-form history recall.
+ * Handles generation of vector embeddings for semantic search through the
+ * EMBEDDING tier's provider (see providers.ts) — OpenAI's ada-002 unless
+ * configured otherwise. Used by the Campaign Memory RAG system to enable
+ * long-form history recall.
  */
 
 import OpenAI from 'openai';
 import { recordAICost, estimateTokenCount } from './cost-tracker';
+import { AI_MODELS } from './models';
+import { resolveProvider, sdkApiKey } from './providers';
+import { fakeProviderFetch } from './fakeProvider';
 
 // Lazily constructed so importing this module (even transitively, e.g. via
-// createCampaignMemory) doesn't crash in environments without
-// OPENAI_API_KEY set — matches the call-time key check every other AI
-// integration in this codebase already uses (worldGenerator.ts,
-// enrichStubNPCs, consequenceExtraction.ts, etc).
-let openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-  if (!openai) {
-    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// createCampaignMemory) doesn't crash in environments without a provider
+// configured — matches the call-time check every other AI integration in
+// this codebase already uses (worldGenerator.ts, enrichStubNPCs,
+// consequenceExtraction.ts, etc). Rebuilt if the provider's endpoint or key
+// changes underneath it.
+let openai: { endpoint: string; client: OpenAI } | null = null;
+function getOpenAI(): { client: OpenAI; extraParams: { encoding_format?: 'float' } } {
+  const provider = resolveProvider('EMBEDDING');
+  const endpoint = `${provider.baseUrl}|${provider.apiKey ?? ''}`;
+  if (openai?.endpoint !== endpoint) {
+    const client = new OpenAI({
+      apiKey: sdkApiKey(provider),
+      baseURL: provider.baseUrl,
+      // The fake provider answers in-process (fakeProvider.ts).
+      ...(provider.kind === 'fake' ? { fetch: fakeProviderFetch } : {}),
+    });
+    openai = { endpoint, client };
   }
-  return openai;
+  // The SDK asks for base64 unless told otherwise; not every compatible
+  // server speaks it, and every one speaks float.
+  return { client: openai.client, extraParams: provider.kind === 'openai' ? {} : { encoding_format: 'float' } };
 }
 
-const EMBEDDING_MODEL = 'text-embedding-ada-002';
+const EMBEDDING_MODEL = AI_MODELS.EMBEDDING;
 const MAX_TEXT_LENGTH = 8000; // Safe token limit for ada-002
 
 /**
- * Generate an embedding vector for text using OpenAI's ada-002 model
+ * Generate an embedding vector for text using the EMBEDDING tier's model
  *
  * @param text - The text to embed (will be truncated to 8000 chars)
  * @returns Array of 1536 numbers representing the embedding vector
@@ -35,9 +51,11 @@ export async function generateEmbedding(text: string): Promise<number[]> {
     // Truncate text to avoid token limits
     const truncatedText = text.slice(0, MAX_TEXT_LENGTH);
 
-    const response = await getOpenAI().embeddings.create({
+    const { client, extraParams } = getOpenAI();
+    const response = await client.embeddings.create({
       model: EMBEDDING_MODEL,
       input: truncatedText,
+      ...extraParams,
     });
 
     return response.data[0].embedding;
@@ -95,7 +113,7 @@ export async function embedWithCostTracking(
 }
 
 /**
- * Embed multiple texts in ONE API call via OpenAI's native array `input`
+ * Embed multiple texts in ONE API call via the embeddings API's native array `input`
  * support — `response.data` comes back in the same order as `texts`.
  *
  * A same-named function used to live here as unused scaffolding and was
@@ -112,9 +130,11 @@ export async function generateEmbeddingsBatch(texts: string[]): Promise<number[]
   if (texts.length === 0) return [];
   try {
     const truncated = texts.map((t) => t.slice(0, MAX_TEXT_LENGTH));
-    const response = await getOpenAI().embeddings.create({
+    const { client, extraParams } = getOpenAI();
+    const response = await client.embeddings.create({
       model: EMBEDDING_MODEL,
       input: truncated,
+      ...extraParams,
     });
     return response.data.map((d) => d.embedding);
   } catch (error) {
@@ -0,0 +1,407 @@
+// src/lib/ai/fakeProvider.ts
+// A scripted stand-in for the model, selected like any other provider
+// (AI_PROVIDER=fake — see providers.ts) so a whole campaign can run
+// offline: creation, world generation, scene intro, action
+// classification, resolution, consequence extraction, the world turn.
+//
+// Before this, the only way to exercise that pipeline without an API key
+// was the unit suites, which mock fetch call by call and so test each
+// caller against the response its author expected — never against what
+// the next stage then does with it. This answers in the OpenAI wire
+// format at the fetch boundary instead, so every parser, validator and
+// writer downstream runs exactly as it does against a real model.
+//
+// Each chat request is sorted into a prompt family by its system prompt
+// (PROMPT_FAMILIES below), then answered in one of two ways:
+//   - AI_FAKE_FIXTURES names a JSON file of scripted responses keyed by
+//     family: a string is the content verbatim, an object is sent as its
+//     JSON, and an array is played in order, its last entry repeating.
+//   - Otherwise a generator builds a schema-valid response from the
+//     prompt itself, seeded by AI_FAKE_SEED and the prompt's own text —
+//     the same request always gets the same answer, in any order, in any
+//     process.
+// A family neither covers gets an empty JSON object (or a sentence, for a
+// plain-text request), which every such caller already treats as a model
+// that had nothing to add.
+//
+// Embeddings are deterministic unit vectors hashed from the text,
+// moderation never flags, and images are a single transparent pixel.
+// Nothing here ever touches the network.
+
+import { readFileSync } from 'fs'
+import { createSeededRng, type Rng } from '@/lib/game/rng'
+import { stableHash } from '@/lib/game/tick/types'
+import { estimateTokenCount } from './cost-tracker'
+
+export type FakePromptFamily =
+  | 'gm-resolution'
+  | 'world-generation'
+  | 'scene-intro'
+  | 'action-classification'
+  | 'consequence-extraction'
+  | 'offscreen-events'
+  | 'other'
+
+// Matched against the system prompt. Each is a sentence its caller's
+// system prompt has carried since that prompt was written; fakeProvider
+// tests run the real callers, so one that drifts fails there rather than
+// quietly falling through to 'other'.
+const PROMPT_FAMILIES: ReadonlyArray<[FakePromptFamily, string]> = [
+  ['gm-resolution', 'You are the SOLE Game Master'],                        // scenePrompt.ts
+  ['world-generation', 'You are a creative tabletop RPG world builder'],    // worldGenerator.ts
+  ['scene-intro', 'You are an evocative, atmospheric storyteller'],         // sceneIntro.ts
+  ['action-classification', 'You classify RPG actions to game moves'],      // resolution.ts
+  ['consequence-extraction', 'You extract structured, factual consequences'], // consequenceExtraction.ts
+  ['offscreen-events', 'You are generating OFFSCREEN events'],              // client.ts callAIForWorldTurn
+]
+
+export function classifyPrompt(systemPrompt: string): FakePromptFamily {
+  return PROMPT_FAMILIES.find(([, marker]) => systemPrompt.includes(marker))?.[0] ?? 'other'
+}
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+type Fixtures = Partial<Record<FakePromptFamily, unknown>>
+
+let loadedFixtures: { path: string; fixtures: Fixtures } | null = null
+const fixtureCursors = new Map<FakePromptFamily, number>()
+
+function fixtures(): Fixtures {
+  const path = process.env.AI_FAKE_FIXTURES
+  if (!path) return {}
+  if (loadedFixtures?.path !== path) {
+    // Thrown rather than ignored: a fixture file that doesn't load would
+    // otherwise turn a scripted run into a generated one without a word.
+    const parsed = JSON.parse(readFileSync(path, 'utf8'))
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`AI_FAKE_FIXTURES (${path}) must be a JSON object keyed by prompt family`)
+    }
+    loadedFixtures = { path, fixtures: parsed }
+    fixtureCursors.clear()
+  }
+  return loadedFixtures.fixtures
+}
+
+function scriptedContent(family: FakePromptFamily): string | null {
+  const entry = fixtures()[family]
+  if (entry === undefined) return null
+  let response = entry
+  if (Array.isArray(entry)) {
+    if (entry.length === 0) return null
+    const cursor = fixtureCursors.get(family) ?? 0
+    fixtureCursors.set(family, cursor + 1)
+    response = entry[Math.min(cursor, entry.length - 1)]
+  }
+  return typeof response === 'string' ? response : JSON.stringify(response)
+}
+
+/** Rewind every scripted sequence and reread AI_FAKE_FIXTURES. For tests. */
+export function resetFakeProvider(): void {
+  loadedFixtures = null
+  fixtureCursors.clear()
+}
+
+// ---------------------------------------------------------------------------
+// Generated responses
+// ---------------------------------------------------------------------------
+
+function rngFor(...parts: string[]): Rng {
+  return createSeededRng(stableHash([process.env.AI_FAKE_SEED || 'mythos', ...parts].join('\u0000')))
+}
+
+function pick<T>(rng: Rng, options: readonly T[]): T {
+  return options[Math.floor(rng() * options.length)]
+}
+
+const PLACE_WORDS = ['Ashen', 'Hollow', 'Gilded', 'Drowned', 'Iron', 'Salt', 'Thorn', 'Veiled', 'Cinder', 'Pale'] as const
+const GROUP_WORDS = ['Compact', 'Lantern Guild', 'Chorus', 'Wardens', 'Assembly', 'Covenant', 'Syndicate', 'Circle'] as const
+const DOMAIN_WORDS = ['Emberwright', 'Tideforged', 'Quietstep', 'Ledger', 'Starglass', 'Rootbound'] as const
+const WEATHER = ['Rain needles the cobbles', 'A cold wind worries the shutters', 'Fog hangs low over the rooftops', 'The air tastes of smoke and iron'] as const
+const BEATS = ['pushes forward', 'holds their ground', 'reads the room', 'takes the risk', 'makes their move'] as const
+
+function uniqueNames(count: number, build: () => string): string[] {
+  const names = new Set<string>()
+  for (let attempt = 0; names.size < count && attempt < count * 10; attempt++) names.add(build())
+  return [...names]
+}
+
+function matchAll(text: string, pattern: RegExp): RegExpMatchArray[] {
+  return [...text.matchAll(pattern)]
+}
+
+function generateWorld(prompt: string, rng: Rng): unknown {
+  const title = prompt.match(/^Campaign title: "(.*)"$/m)?.[1] || 'this campaign'
+  const factions = uniqueNames(3, () => `The ${pick(rng, PLACE_WORDS)} ${pick(rng, GROUP_WORDS)}`)
+  const domains = uniqueNames(3, () => `${pick(rng, DOMAIN_WORDS)} Arts`)
+  return {
+    world_seed: `${pick(rng, WEATHER)} as ${title} begins. ${factions[0]} has closed the river gates, and ${factions[1] ?? factions[0]} is paying anyone who will say why.`,
+    factions: factions.map((name, i) => ({
+      name,
+      description: `A power in ${title} with its own reasons to watch the gates.`,
+      goals: 'Hold what it has and take what its rivals drop.',
+      current_plan: 'Quietly buying up debts owed by the river wardens.',
+      threat_level: 1 + (i % 3),
+      resources: 30 + Math.floor(rng() * 50),
+      influence: 30 + Math.floor(rng() * 50),
+    })),
+    capability_domains: domains.map((domain, i) => ({
+      domain,
+      capabilities: [
+        { name: `${domain}: First Form`, description: 'What every practitioner learns first.', tier: 1, is_secret: false },
+        { name: `${domain}: Second Form`, description: 'A deeper art built on the first.', tier: 2, is_secret: i === 0, requires: [`${domain}: First Form`] },
+      ],
+    })),
+    stat_labels: {
+      cool: { label: 'Nerve', description: 'steady under pressure' },
+      hard: { label: 'Grit', description: 'force and violence' },
+      hot: { label: 'Presence', description: 'charm and command' },
+      sharp: { label: 'Wits', description: 'perception and cunning' },
+      weird: { label: 'Omen', description: 'the strange and the unseen' },
+    },
+    fronts: [
+      {
+        name: 'The Closing Gates',
+        description: 'Every day the gates stay shut, the lower city goes hungrier.',
+        category: 'urgent',
+        max_ticks: 6,
+        consequence: 'The lower city riots and the river wardens lose control of the docks.',
+        source_faction_name: factions[0],
+      },
+    ],
+  }
+}
+
+function generateSceneIntro(prompt: string, rng: Rng): string {
+  // sceneIntro.ts heads each character's context with "## Name".
+  const names = matchAll(prompt, /^## (.+)$/gm).map(m => m[1]).join(' and ')
+  return `${pick(rng, WEATHER)}. Somewhere past the market a bell rings once and stops. ${names || 'You'} notice the crowd thinning, the way crowds do before trouble.\n\nA door opens across the square, and someone you were not expecting steps out into the grey light.`
+}
+
+function generateClassifications(prompt: string, rng: Rng): unknown {
+  const moves = matchAll(prompt, /^- "([^"]+)": (.*)$/gm)
+    .map(m => ({ name: m[1], stat: m[2].match(/\(rolls ([a-z]+)/)?.[1] }))
+    .filter(m => m.name !== 'no_roll')
+  const actionSection = prompt.split(/^ACTIONS:$/m)[1]?.split(/^Rules:$/m)[0] ?? ''
+  const actionCount = matchAll(actionSection, /^(\d+)\. /gm).length
+  const stats = ['cool', 'hard', 'hot', 'sharp', 'weird'] as const
+  return {
+    classifications: Array.from({ length: actionCount }, (_, action_index) => {
+      // Roughly one action in three needs no roll, as in play.
+      const move = moves.length > 0 && rng() >= 1 / 3 ? pick(rng, moves) : null
+      return {
+        action_index,
+        move_name: move?.name ?? 'no_roll',
+        stat_key: move ? move.stat || pick(rng, stats) : null,
+        capability_key: null,
+        faction_name: null,
+        npc_name: null,
+        accepts_bargain: false,
+        matched_signature_id: null,
+        engagement: null,
+        moves_to_zone: null,
+      }
+    }),
+  }
+}
+
+const OUTCOME_BANDS: Record<string, 'strongHit' | 'weakHit' | 'miss'> = {
+  'STRONG HIT': 'strongHit',
+  'WEAK HIT': 'weakHit',
+  MISS: 'miss',
+}
+
+function generateResolution(prompt: string, rng: Rng): unknown {
+  // One block per submitted action, with its binding roll if it had one
+  // (scenePrompt.ts's buildPlayerActionsSection).
+  const actions = matchAll(prompt, /^(.+)'s submitted action:$/gm).map((match) => {
+    const rest = prompt.slice((match.index ?? 0) + match[0].length)
+    const nextAction = rest.search(/^.+'s submitted action:$/m)
+    const block = nextAction === -1 ? rest : rest.slice(0, nextAction)
+    const rolled = block.match(/→ MECHANICAL OUTCOME \(binding, already rolled\): .+ — (STRONG HIT|WEAK HIT|MISS)\./)
+    return { name: match[1], outcome: rolled ? OUTCOME_BANDS[rolled[1]] : null }
+  })
+  const names = actions.map(a => a.name)
+  const who = names.length > 0 ? names.join(' and ') : 'The party'
+  const sentences = actions.map(a =>
+    a.outcome === 'miss'
+      ? `${a.name} ${pick(rng, BEATS)}, and it goes wrong — the moment slips away and leaves them exposed.`
+      : a.outcome === 'weakHit'
+        ? `${a.name} ${pick(rng, BEATS)} and gets most of what they wanted, at a cost they will feel later.`
+        : `${a.name} ${pick(rng, BEATS)}, and the world gives way in front of them.`
+  )
+  return {
+    scene_text: `${pick(rng, WEATHER)}. ${sentences.join(' ') || 'Nobody moves for a long moment.'} When the noise fades, the square is quieter than it was, and everyone in it is watching ${who}.`,
+    scene_summary: `${who} acted, and the square took notice.`,
+    outcome_echo: actions
+      .filter(a => a.outcome)
+      .map(a => ({ character_name_or_id: a.name, outcome: a.outcome, ...(a.outcome === 'strongHit' ? {} : { move_used: 'put someone in a spot' }) })),
+    time_passage: { hours: 1 + Math.floor(rng() * 3), description: 'The better part of an afternoon.' },
+    world_updates: { notes_for_gm: 'Scripted by the fake provider.' },
+    scene_progress: { new_established_facts: [`${who} drew attention in the square.`] },
+  }
+}
+
+function generateConsequences(prompt: string, rng: Rng): unknown {
+  const sceneText = prompt.split(/^SCENE TEXT:$/m)[1]?.split(/^KNOWN NPCs IN THIS CAMPAIGN:$/m)[0] ?? ''
+  const npcSection = prompt.split(/^KNOWN NPCs IN THIS CAMPAIGN:$/m)[1]?.split(/^KNOWN FACTIONS/m)[0] ?? ''
+  // Only an NPC the scene actually names — the same rule the prompt gives
+  // the model, and most scenes name none.
+  const named = matchAll(npcSection, /^- (.+)$/gm).map(m => m[1]).find(name => sceneText.includes(name))
+  return {
+    consequences: named
+      ? [{ entity_type: 'NPC', entity_name: named, action: pick(rng, ['SPARED', 'FAVORED', 'THREATENED'] as const), reason: `${named} was there when it happened.`, intensity: 'minor' }]
+      : [],
+  }
+}
+
+function generateOffscreenEvents(prompt: string, rng: Rng): unknown {
+  const completed = matchAll(prompt, /^- (.+) \(id: ([^)]+)\) completed: /gm)
+  const ambitions = matchAll(prompt, /^- (.+) \(id: ([^)]+)\), pursuing [A-Z_]+.*: choose one of \[([^\]]*)\]$/gm)
+  return {
+    offscreen_events: [
+      {
+        title: `${pick(rng, PLACE_WORDS)} Rumours`,
+        summary_public: 'Word spreads of quiet meetings after dark.',
+        summary_gm: 'The factions are testing each other while the party is elsewhere.',
+      },
+      ...completed.map(m => ({
+        title: `${m[1]} Moves On`,
+        summary_public: `${m[1]} has finished what they set out to do.`,
+        summary_gm: `${m[1]} turns to a new ambition.`,
+      })),
+      ...ambitions.map(m => ({
+        title: `${m[1]} Commits`,
+        summary_public: `${m[1]} is spending heavily on something.`,
+        summary_gm: `${m[1]} launches its plan.`,
+      })),
+    ],
+    ...(completed.length > 0
+      ? { world_updates: { npc_changes: completed.map(m => ({ npc_name_or_id: m[2], changes: { goals: 'Secure what they have won.' } })) } }
+      : {}),
+    ...(ambitions.length > 0
+      ? {
+          ambition_picks: ambitions.map(m => {
+            const options = m[3].split(',').map(o => o.trim()).filter(Boolean)
+            const category = options.length > 0 ? pick(rng, options) : 'tournament'
+            return { faction_id: m[2], category, name: `The ${m[1]} ${category}`, description: `${m[1]} stakes its name on it.` }
+          }),
+        }
+      : {}),
+    gm_notes: 'Scripted by the fake provider.',
+  }
+}
+
+function generatedContent(family: FakePromptFamily, systemPrompt: string, userPrompt: string, jsonMode: boolean): string {
+  const rng = rngFor(family, systemPrompt, userPrompt)
+  switch (family) {
+    case 'world-generation': return JSON.stringify(generateWorld(userPrompt, rng))
+    case 'scene-intro': return generateSceneIntro(userPrompt, rng)
+    case 'action-classification': return JSON.stringify(generateClassifications(userPrompt, rng))
+    case 'gm-resolution': return JSON.stringify(generateResolution(userPrompt, rng))
+    case 'consequence-extraction': return JSON.stringify(generateConsequences(userPrompt, rng))
+    case 'offscreen-events': return JSON.stringify(generateOffscreenEvents(userPrompt, rng))
+    case 'other': return jsonMode ? '{}' : 'Nothing stirs.'
+  }
+}
+
+// ---------------------------------------------------------------------------
+// The endpoints
+// ---------------------------------------------------------------------------
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function messageText(message: any): string {
+  if (typeof message?.content === 'string') return message.content
+  if (Array.isArray(message?.content)) return message.content.map((part: any) => part?.text ?? '').join('')
+  return ''
+}
+
+function chatCompletion(body: any): Response {
+  const messages: any[] = Array.isArray(body.messages) ? body.messages : []
+  const systemPrompt = messages.filter(m => m?.role === 'system').map(messageText).join('\n')
+  const userPrompt = messages.filter(m => m?.role !== 'system').map(messageText).join('\n')
+  const family = classifyPrompt(systemPrompt)
+  const content = scriptedContent(family)
+    ?? generatedContent(family, systemPrompt, userPrompt, body.response_format !== undefined)
+  const usage = {
+    prompt_tokens: estimateTokenCount(systemPrompt + userPrompt),
+    completion_tokens: estimateTokenCount(content),
+    total_tokens: estimateTokenCount(systemPrompt + userPrompt) + estimateTokenCount(content),
+  }
+
+  if (body.stream) {
+    // Small deltas, so a streaming caller (narrationStream.ts) sees the
+    // text grow the way it would from a real model.
+    const events: unknown[] = []
+    for (let i = 0; i < content.length; i += 40) {
+      events.push({ choices: [{ index: 0, delta: { content: content.slice(i, i + 40) }, finish_reason: null }] })
+    }
+    events.push({ choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] })
+    if (body.stream_options?.include_usage) events.push({ choices: [], usage })
+    const sse = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n'
+    return new Response(sse, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })
+  }
+
+  return json({
+    id: `fake-${stableHash(content)}`,
+    object: 'chat.completion',
+    model: body.model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage,
+  })
+}
+
+const EMBEDDING_DIMENSIONS = 1536
+
+function embeddingFor(text: string): number[] {
+  const rng = rngFor('embedding', text)
+  const vector = Array.from({ length: EMBEDDING_DIMENSIONS }, () => rng() * 2 - 1)
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return vector.map(v => v / norm)
+}
+
+function embeddings(body: any): Response {
+  const inputs: string[] = Array.isArray(body.input) ? body.input.map(String) : [String(body.input ?? '')]
+  const tokens = inputs.reduce((sum, text) => sum + estimateTokenCount(text), 0)
+  return json({
+    object: 'list',
+    data: inputs.map((text, index) => ({ object: 'embedding', index, embedding: embeddingFor(text) })),
+    model: body.model,
+    usage: { prompt_tokens: tokens, total_tokens: tokens },
+  })
+}
+
+// A 1x1 transparent PNG.
+const PIXEL_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+/**
+ * fetch, for the fake provider's base URL. openaiFetch sends here instead
+ * of the network when a tier is on the fake provider, and so does the
+ * OpenAI SDK (embeddings, images), which takes it as its `fetch` option.
+ */
+export async function fakeProviderFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+  let body: any = {}
+  if (typeof init?.body === 'string' && init.body !== '') {
+    try {
+      body = JSON.parse(init.body)
+    } catch {
+      return json({ error: { message: 'Request body is not JSON' } }, 400)
+    }
+  }
+
+  const path = new URL(url).pathname
+  if (path.endsWith('/chat/completions')) return chatCompletion(body)
+  if (path.endsWith('/embeddings')) return embeddings(body)
+  if (path.endsWith('/moderations')) {
+    return json({ id: 'fake-moderation', model: 'fake', results: [{ flagged: false, categories: {}, category_scores: {} }] })
+  }
+  if (path.endsWith('/images/generations')) {
+    return json({ created: 0, data: [{ b64_json: PIXEL_PNG_BASE64 }] })
+  }
+  return json({ error: { message: `The fake provider does not serve ${path}` } }, 404)
+}
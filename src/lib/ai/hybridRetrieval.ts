@@ -0,0 +1,262 @@
+// src/lib/ai/hybridRetrieval.ts
+//
+// The pure half of hybrid retrieval: turn a scene query into a full-text
+// query, fuse a vector ranking with a keyword ranking, and lift hits that
+// name someone in the current scene. No DB access — memoryRetrieval.ts and
+// loreRetrieval.ts run the two SQL searches and hand their ranked rows
+// here, and retrievalEval.ts replays recorded rankings through the same
+// functions offline.
+//
+// Why two channels at all: cosine similarity over a 1536-dimension
+// embedding is good at "a scene about a betrayal at sea" and bad at "the
+// Ashen Ledger". A proper noun is a handful of tokens in a long query, so
+// it barely moves the query vector, and a memory that names the same
+// ledger can rank below three memories that merely share the mood. The
+// full-text channel matches the token itself. Neither channel is right on
+// its own; reciprocal rank fusion is the standard way to combine two
+// rankings whose scores are not on comparable scales (a cosine similarity
+// and a ts_rank_cd value mean nothing relative to each other — their RANKS
+// do).
+//
+// Deliberately dependency-free, with no imports at all: the
+// transparency panel imports the trace types from here, and the story page
+// that renders it is a client component.
+
+/**
+ * The k in 1 / (k + rank). 60 is the constant from the original RRF paper
+ * and what most hybrid-search implementations ship — large enough that the
+ * difference between rank 1 and rank 2 in one channel doesn't swamp a hit
+ * that both channels agree on.
+ */
+export const RRF_K = 60
+
+/**
+ * A roster-name match counts as a third ranking in which every matching
+ * hit is tied for first, at half the weight of a real channel. Enough to
+ * lift a hit naming someone in the scene over an unmatched neighbour of
+ * similar rank; never enough on its own to beat a hit both channels put
+ * first (1.5 / 61 < 2 / 61).
+ */
+export const ROSTER_BOOST_WEIGHT = 0.5
+
+/** Most terms the keyword query carries — the scene query is paragraphs long. */
+export const MAX_KEYWORD_TERMS = 32
+
+// Common English words that would otherwise match nearly every row. The
+// full-text columns use the 'simple' configuration (no stemming, no
+// stopword list) on purpose, so proper nouns are indexed exactly as
+// written — which means stopwords have to be dropped here instead.
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'against', 'all', 'also', 'and', 'any', 'are', 'around', 'back', 'been',
+  'before', 'being', 'between', 'both', 'but', 'can', 'could', 'did', 'does', 'down', 'each', 'even',
+  'for', 'from', 'had', 'has', 'have', 'her', 'here', 'hers', 'him', 'his', 'how', 'into', 'its',
+  'just', 'like', 'more', 'most', 'much', 'must', 'not', 'now', 'off', 'once', 'one', 'only', 'other',
+  'our', 'out', 'over', 'own', 'same', 'she', 'should', 'some', 'still', 'such', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'too', 'under', 'until',
+  'upon', 'very', 'was', 'way', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why',
+  'will', 'with', 'would', 'you', 'your',
+  // buildSearchQuery's own section labels (memoryRetrieval.ts).
+  'stakes', 'player', 'actions', 'npcs', 'present', 'factions', 'involved',
+])
+
+/** How one hit scored in each channel, and what the fusion made of it. */
+export interface HybridScore {
+  /** 1-based position in the vector ranking, or null if it wasn't there. */
+  vectorRank: number | null
+  /** 1-based position in the keyword ranking, or null if it wasn't there. */
+  keywordRank: number | null
+  /** Cosine similarity to the query, when the row has an embedding. */
+  similarity: number | null
+  /** ts_rank_cd against the keyword query, when it matched. */
+  keywordScore: number | null
+  fusedScore: number
+  /** The roster name this hit mentions, if the boost applied. */
+  rosterMatch: string | null
+}
+
+export interface RankedHit {
+  id: string
+  similarity?: number | null
+  keywordScore?: number | null
+}
+
+export interface FusionOptions<T> {
+  /** The text a roster name is looked for in (title plus body). */
+  textOf: (hit: T) => string
+  boostNames?: string[]
+  k?: number
+}
+
+/**
+ * Build a Postgres to_tsquery string (for the 'simple' configuration) from
+ * free scene text, or null when nothing worth searching for is left.
+ *
+ * OR semantics, not websearch_to_tsquery's AND: the query is a whole scene
+ * — intro, stakes, every NPC present — and no row contains all of it.
+ * Multi-word capitalised runs ("Ashen Ledger") also go in as a phrase, so
+ * a row naming the whole thing outranks one that only shares "ledger".
+ * Capitalised terms are kept first when the term cap bites, since they are
+ * the ones this channel exists for. Terms are reduced to letters and
+ * digits, which is what keeps the string safe to hand to to_tsquery.
+ */
+export function buildKeywordQuery(text: string, maxTerms = MAX_KEYWORD_TERMS): string | null {
+  const words = text.match(/[\p{L}\p{N}]+/gu) ?? []
+  const proper: string[] = []
+  const common: string[] = []
+  const seen = new Set<string>()
+  for (const word of words) {
+    const term = word.toLowerCase()
+    if (term.length < 3 || STOPWORDS.has(term) || seen.has(term)) continue
+    seen.add(term)
+    ;(/^\p{Lu}/u.test(word) ? proper : common).push(term)
+  }
+
+  const phrases: string[] = []
+  for (const run of text.match(/\p{Lu}[\p{L}\p{N}]*(?:[ \t]+\p{Lu}[\p{L}\p{N}]*)+/gu) ?? []) {
+    const parts = run.toLowerCase().split(/\s+/).filter((p) => !STOPWORDS.has(p))
+    const phrase = parts.length > 1 ? `(${parts.join(' <-> ')})` : null
+    if (phrase && !phrases.includes(phrase)) phrases.push(phrase)
+  }
+
+  const terms = [...phrases, ...proper, ...common].slice(0, maxTerms)
+  return terms.length > 0 ? terms.join(' | ') : null
+}
+
+/**
+ * Reciprocal rank fusion over any number of rankings: each id scores
+ * weight / (k + rank) for every ranking it appears in, summed. Rankings
+ * are lists of ids, best first.
+ */
+export function reciprocalRankFusion(
+  rankings: Array<{ ids: string[]; weight?: number }>,
+  k = RRF_K
+): Map<string, number> {
+  const scores = new Map<string, number>()
+  for (const { ids, weight = 1 } of rankings) {
+    ids.forEach((id, i) => scores.set(id, (scores.get(id) ?? 0) + weight / (k + i + 1)))
+  }
+  return scores
+}
+
+/**
+ * The roster name `text` mentions as a whole word, or null. Names under
+ * three characters are ignored — "Al" would match half the corpus.
+ */
+export function matchRosterName(text: string, names: string[]): string | null {
+  for (const name of names) {
+    const trimmed = name.trim()
+    if (trimmed.length < 3) continue
+    const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    if (new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text)) return trimmed
+  }
+  return null
+}
+
+/**
+ * Fuse a vector ranking and a keyword ranking into one, best first, each
+ * hit annotated with how it got there. A hit found by both channels keeps
+ * the vector row (it carries the blended columns the caller selected) with
+ * the keyword score copied across. Ties keep the vector channel's order.
+ *
+ * The roster boost only reorders what the two channels already found — it
+ * never adds a row — so a name in boostNames can't pull anything into the
+ * prompt that retrieval didn't surface by itself.
+ */
+export function fuseRankings<T extends RankedHit>(
+  vectorHits: T[],
+  keywordHits: T[],
+  { textOf, boostNames = [], k = RRF_K }: FusionOptions<T>
+): Array<T & { retrieval: HybridScore }> {
+  const byId = new Map<string, T>()
+  const vectorRank = new Map<string, number>()
+  const keywordRank = new Map<string, number>()
+  const keywordScore = new Map<string, number | null>()
+  vectorHits.forEach((hit, i) => {
+    if (vectorRank.has(hit.id)) return
+    vectorRank.set(hit.id, i + 1)
+    byId.set(hit.id, hit)
+  })
+  keywordHits.forEach((hit, i) => {
+    if (keywordRank.has(hit.id)) return
+    keywordRank.set(hit.id, i + 1)
+    keywordScore.set(hit.id, hit.keywordScore ?? null)
+    if (!byId.has(hit.id)) byId.set(hit.id, hit)
+  })
+
+  const rosterMatch = new Map<string, string>()
+  if (boostNames.length > 0) {
+    for (const [id, hit] of byId) {
+      const match = matchRosterName(textOf(hit), boostNames)
+      if (match) rosterMatch.set(id, match)
+    }
+  }
+
+  const fused = reciprocalRankFusion(
+    [
+      { ids: Array.from(vectorRank.keys()) },
+      { ids: Array.from(keywordRank.keys()) },
+      ...Array.from(rosterMatch.keys()).map((id) => ({ ids: [id], weight: ROSTER_BOOST_WEIGHT })),
+    ],
+    k
+  )
+
+  return Array.from(byId.values())
+    .map((hit) => ({
+      ...hit,
+      retrieval: {
+        vectorRank: vectorRank.get(hit.id) ?? null,
+        keywordRank: keywordRank.get(hit.id) ?? null,
+        similarity: hit.similarity ?? null,
+        keywordScore: keywordScore.get(hit.id) ?? null,
+        fusedScore: fused.get(hit.id) ?? 0,
+        rosterMatch: rosterMatch.get(hit.id) ?? null,
+      },
+    }))
+    .sort(
+      (a, b) =>
+        b.retrieval.fusedScore - a.retrieval.fusedScore ||
+        (a.retrieval.vectorRank ?? Number.MAX_SAFE_INTEGER) - (b.retrieval.vectorRank ?? Number.MAX_SAFE_INTEGER)
+    )
+}
+
+/**
+ * One retrieved item as the transparency panel shows it. `score` is null
+ * for memories that arrived by name rather than by search (named-NPC and
+ * cross-entity recall in sceneResolutionRequest.ts) — they have no rank in
+ * either channel to report.
+ */
+export interface RetrievalTraceEntry {
+  title: string
+  score: HybridScore | null
+}
+
+export interface RetrievalTrace {
+  memories: RetrievalTraceEntry[]
+  lore: RetrievalTraceEntry[]
+}
+
+function roundScore(score: HybridScore): HybridScore {
+  const round = (n: number | null, places: number) => (n === null ? null : Number(n.toFixed(places)))
+  return {
+    ...score,
+    similarity: round(score.similarity, 3),
+    keywordScore: round(score.keywordScore, 3),
+    fusedScore: round(score.fusedScore, 4) ?? 0,
+  }
+}
+
+/**
+ * What retrieval surfaced for one exchange, small enough to keep in the
+ * scene's consequences blob: titles and scores only, never the retrieved
+ * text itself.
+ */
+export function buildRetrievalTrace(
+  memories: Array<{ title: string; retrieval?: HybridScore }>,
+  lore: Array<{ title: string; retrieval?: HybridScore }>
+): RetrievalTrace {
+  const toEntry = (item: { title: string; retrieval?: HybridScore }): RetrievalTraceEntry => ({
+    title: item.title,
+    score: item.retrieval ? roundScore(item.retrieval) : null,
+  })
+  return { memories: memories.map(toEntry), lore: lore.map(toEntry) }
+}
@@ -20,19 +20,30 @@
 
 import OpenAI from 'openai'
 import { AI_MODELS } from './models'
+import { resolveProvider, sdkApiKey } from './providers'
+import { fakeProviderFetch } from './fakeProvider'
 import { recordAICost } from './cost-tracker'
 import { truncateWithEllipsis } from '@/lib/format'
 
 // Lazily constructed so importing this module doesn't crash in
-// environments without OPENAI_API_KEY set — matches every other AI
+// environments without a provider configured — matches every other AI
 // integration in this codebase (embeddingService.ts, worldGenerator.ts,
-// etc).
-let openai: OpenAI | null = null
+// etc). Goes to the IMAGE tier's provider (see providers.ts), rebuilt if
+// its endpoint or key changes.
+let openai: { endpoint: string; client: OpenAI } | null = null
 function getOpenAI(): OpenAI {
-  if (!openai) {
-    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  const provider = resolveProvider('IMAGE')
+  const endpoint = `${provider.baseUrl}|${provider.apiKey ?? ''}`
+  if (openai?.endpoint !== endpoint) {
+    const client = new OpenAI({
+      apiKey: sdkApiKey(provider),
+      baseURL: provider.baseUrl,
+      // The fake provider answers in-process (fakeProvider.ts).
+      ...(provider.kind === 'fake' ? { fetch: fakeProviderFetch } : {}),
+    })
+    openai = { endpoint, client }
   }
-  return openai
+  return openai.client
 }
 
 // Bounded well below OpenAI's own prompt length ceiling — an illustration
@@ -1,14 +1,16 @@
 /**
  * Lore Retrieval Service
  *
- * Semantic search over imported LoreEntry rows (pasted text, single pages,
- * and whole wikis — see lib/lore/). Mirrors memoryRetrieval.ts's
- * pgvector-based search, but scoped to one campaign's static reference
+ * Hybrid search over imported LoreEntry rows (pasted text, single pages,
+ * whole wikis, uploaded documents — see lib/lore/): pgvector similarity
+ * and Postgres full-text, fused by rank (see hybridRetrieval.ts). Mirrors
+ * memoryRetrieval.ts, but scoped to one campaign's static reference
  * material rather than its play history.
  */
 
 import { prisma } from '@/lib/prisma';
 import { embedWithCostTracking } from './embeddingService';
+import { buildKeywordQuery, fuseRankings, type HybridScore } from './hybridRetrieval';
 
 export interface RetrievedLoreEntry {
   id: string;
@@ -16,11 +18,17 @@ export interface RetrievedLoreEntry {
   content: string;
   sourceUrl: string | null;
   similarity: number;
+  // How the hybrid search ranked this entry — what the AI transparency
+  // panel shows. Set by retrieveRelevantLore only.
+  retrieval?: HybridScore;
 }
 
 export interface LoreRetrievalOptions {
   maxEntries?: number;
   minSimilarity?: number;
+  // Names from the current scene roster; an entry mentioning one is lifted
+  // in the fused ranking (see ROSTER_BOOST_WEIGHT).
+  boostNames?: string[];
 }
 
 // maxEntries raised from 5 — a modest, not multiplied, increase since
@@ -32,6 +40,7 @@ export interface LoreRetrievalOptions {
 const DEFAULT_OPTIONS: Required<LoreRetrievalOptions> = {
   maxEntries: 8,
   minSimilarity: 0.75,
+  boostNames: [],
 };
 
 /**
@@ -40,6 +49,11 @@ const DEFAULT_OPTIONS: Required<LoreRetrievalOptions> = {
  * retrieval — see worldState.ts). Returns [] on any failure or if the
  * campaign has no imported lore, so a broken/slow embedding call never
  * blocks scene resolution.
+ *
+ * minSimilarity gates the vector channel only. A keyword hit is an exact
+ * term match — the setting's own name for something — and is exactly the
+ * hit a similarity floor would have thrown away; its similarity is still
+ * computed, so citations record a real number either way.
  */
 export async function retrieveRelevantLore(
   campaignId: string,
@@ -57,7 +71,7 @@ export async function retrieveRelevantLore(
     // embedding call — this call site previously went untracked entirely.
     const embeddingString = await embedWithCostTracking(campaignId, queryText, 'lore_retrieval_embedding');
 
-    const entries = await prisma.$queryRaw<any[]>`
+    const vectorEntries = await prisma.$queryRaw<RetrievedLoreEntry[]>`
       SELECT
         id,
         title,
@@ -72,9 +86,34 @@ export async function retrieveRelevantLore(
       LIMIT ${opts.maxEntries * 3}
     `;
 
-    return entries
-      .filter((e) => e.similarity >= opts.minSimilarity)
-      .slice(0, opts.maxEntries);
+    // Same LIMIT as the vector channel, so neither channel can crowd the
+    // other out of the fusion by volume alone. Entries still waiting on an
+    // embedding are left out: citations need a similarity to record.
+    const keywordQuery = buildKeywordQuery(queryText);
+    const keywordEntries = keywordQuery
+      ? await prisma.$queryRaw<Array<RetrievedLoreEntry & { keywordScore: number }>>`
+          SELECT
+            id,
+            title,
+            content,
+            "sourceUrl" as "sourceUrl",
+            (1 - (embedding <=> ${embeddingString}::vector)) as similarity,
+            ts_rank_cd("searchVector", query, 32) as "keywordScore"
+          FROM lore_entries, to_tsquery('simple', ${keywordQuery}) query
+          WHERE
+            "campaignId" = ${campaignId}
+            AND embedding IS NOT NULL
+            AND "searchVector" @@ query
+          ORDER BY "keywordScore" DESC
+          LIMIT ${opts.maxEntries * 3}
+        `
+      : [];
+
+    return fuseRankings(
+      vectorEntries.filter((e) => e.similarity >= opts.minSimilarity),
+      keywordEntries,
+      { textOf: (e) => `${e.title}\n${e.content}`, boostNames: opts.boostNames }
+    ).slice(0, opts.maxEntries);
   } catch (error) {
     console.error('Error retrieving campaign lore:', error);
     return [];
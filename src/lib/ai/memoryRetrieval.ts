@@ -1,14 +1,17 @@
 /**
  * Memory Retrieval Service
  *
- * Implements semantic search over campaign history using pgvector.
+ * Implements hybrid search over campaign history: pgvector similarity and
+ * Postgres full-text, fused by rank (see hybridRetrieval.ts).
  * Retrieves relevant memories to maintain long-form continuity in AI responses.
  */
 
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
 import { embedWithCostTracking } from './embeddingService';
 import { MEMORY_SEARCH_COLUMNS } from './campaignMemoryColumns';
 import { MEMORY_FOG_PREDICATE, MEMORY_LIVE_PREDICATE } from './memoryFogPredicate';
+import { buildKeywordQuery, fuseRankings, type HybridScore } from './hybridRetrieval';
 import type { Scene, PlayerAction, Character, NPC, Faction } from '@prisma/client';
 
 export interface RetrievalContext {
@@ -45,6 +48,10 @@ export interface RetrievedMemory {
   // never select this). filterAndRankMemories falls back to `similarity`
   // when absent — see its own comment for why this exists at all.
   relevanceScore?: number;
+  // How the hybrid search ranked this memory — what the AI transparency
+  // panel shows. Only retrieveRelevantHistory sets it; name-matched recall
+  // has no search ranking to report.
+  retrieval?: HybridScore;
 }
 
 export interface RetrievalOptions {
@@ -52,6 +59,7 @@ export interface RetrievalOptions {
   recencyBias?: number; // 0-1, how much to favor recent memories
   minSimilarity?: number; // Minimum similarity threshold
   importanceBoost?: boolean; // Boost important memories in ranking
+  boostNames?: string[]; // Scene roster names; a memory mentioning one ranks higher
 }
 
 const DEFAULT_OPTIONS: Required<RetrievalOptions> = {
@@ -59,6 +67,7 @@ const DEFAULT_OPTIONS: Required<RetrievalOptions> = {
   recencyBias: 0.3,
   minSimilarity: 0.7,
   importanceBoost: true,
+  boostNames: [],
 };
 
 // #349: pgvector's ANN index only accelerates a BARE `embedding <=> $1`
@@ -95,6 +104,26 @@ const DEFAULT_OPTIONS: Required<RetrievalOptions> = {
 const CANDIDATE_POOL_MULTIPLIER = 10;
 const MIN_CANDIDATE_POOL_SIZE = 100;
 
+/**
+ * Entity filtering: include memories involving current NPCs/factions/characters.
+ * When arrays are empty, use ARRAY[]::text[] which makes the overlap check return false.
+ * This ensures we only match general memories (with no entities) when no entities are provided.
+ * Shared by both channels of retrieveRelevantHistory, so a keyword hit is
+ * scoped to the scene exactly as a vector hit is.
+ */
+function entityScopePredicate(npcIds: string[], factionIds: string[], characterIds: string[]): Prisma.Sql {
+  return Prisma.sql`(
+    (${npcIds.length > 0} AND "involvedNpcIds" && ${npcIds}::text[])
+    OR (${factionIds.length > 0} AND "involvedFactionIds" && ${factionIds}::text[])
+    OR (${characterIds.length > 0} AND "involvedCharacterIds" && ${characterIds}::text[])
+    OR (
+      cardinality("involvedNpcIds") = 0
+      AND cardinality("involvedFactionIds") = 0
+      AND cardinality("involvedCharacterIds") = 0
+    )  -- Also include general memories
+  )`;
+}
+
 const IMPORTANCE_WEIGHTS: Record<string, number> = {
   CRITICAL: 1.3,
   MAJOR: 1.15,
@@ -161,6 +190,9 @@ export function filterAndRankMemories(
  * 3. Searches the database using pgvector cosine similarity
  * 4. Filters by entity involvement (NPCs, factions, characters)
  * 5. Blends semantic similarity with recency bias
+ * 6. Runs a full-text search over the same scope and fuses the two
+ *    rankings (see hybridRetrieval.ts), lifting memories that name
+ *    someone in options.boostNames
  *
  * @param campaignId - The campaign to search
  * @param context - Current scene context (scene, actions, entities)
@@ -223,10 +255,13 @@ export async function retrieveRelevantHistory(
     // An interactive $transaction is what makes the claim true: one
     // connection, one transaction block, the setting scoped to it and
     // discarded at COMMIT so it cannot leak onto an unrelated query.
-    const memories = await prisma.$transaction(async (tx) => {
+    const entityScope = entityScopePredicate(npcIds, factionIds, characterIds);
+    const keywordQuery = buildKeywordQuery(query);
+
+    const { vectorMemories, keywordMemories } = await prisma.$transaction(async (tx) => {
       await tx.$executeRawUnsafe(`SET LOCAL hnsw.ef_search = ${Math.max(candidatePoolSize, MIN_CANDIDATE_POOL_SIZE)}`);
       // See campaignMemoryColumns.ts for why the shared column list is quoted.
-      return tx.$queryRaw<RetrievedMemory[]>`
+      const vectorMemories = await tx.$queryRaw<RetrievedMemory[]>`
       WITH candidates AS (
         -- Index-accelerated stage: deliberately ONLY campaignId + a bare
         -- vector-distance ORDER BY, matching the exact shape
@@ -269,19 +304,7 @@ export async function retrieveRelevantHistory(
         -- sat just below the top-K cutoff. Silent zero-recall on exactly
         -- the long campaigns RAG exists to serve.
         similarity >= ${opts.minSimilarity}
-        -- Entity filtering: include memories involving current NPCs/factions/characters
-        -- When arrays are empty, use ARRAY[]::text[] which makes the overlap check return false
-        -- This ensures we only match general memories (with no entities) when no entities are provided
-        AND (
-          (${npcIds.length > 0} AND "involvedNpcIds" && ${npcIds}::text[])
-          OR (${factionIds.length > 0} AND "involvedFactionIds" && ${factionIds}::text[])
-          OR (${characterIds.length > 0} AND "involvedCharacterIds" && ${characterIds}::text[])
-          OR (
-            cardinality("involvedNpcIds") = 0
-            AND cardinality("involvedFactionIds") = 0
-            AND cardinality("involvedCharacterIds") = 0
-          )  -- Also include general memories
-        )
+        AND ${entityScope}
         -- #285/#327: fog-of-war independent guard. The API-route layer has
         -- a real, AST-enforced visibleTo() gate (see fogOfWar.test.ts), but
         -- this RAG query feeds the AI-facing narration prompt directly and
@@ -295,10 +318,45 @@ export async function retrieveRelevantHistory(
       ORDER BY "relevanceScore" DESC
       LIMIT ${opts.maxMemories * 2}  -- Get extra, then filter by similarity threshold
     `;
+
+      // The full-text channel: same entity scope and fog guard, no
+      // similarity floor — an exact name match is the hit the floor would
+      // discard. Not bounded by the vector candidate pool either, which is
+      // the point: a memory naming the Ashen Ledger is found even when its
+      // embedding sits outside the top-K. The GIN index on searchVector
+      // makes the @@ match cheap. Archived memories keep their text (and
+      // so their searchVector), hence the explicit live predicate here.
+      const keywordMemories = keywordQuery
+        ? await tx.$queryRaw<RetrievedMemory[]>`
+          SELECT
+            ${MEMORY_SEARCH_COLUMNS},
+            CASE WHEN embedding IS NULL THEN NULL
+              ELSE (1 - (embedding <=> ${embeddingString}::vector)) END as similarity,
+            ts_rank_cd("searchVector", query, 32) as "keywordScore"
+          FROM campaign_memories, to_tsquery('simple', ${keywordQuery}) query
+          WHERE
+            "campaignId" = ${campaignId}
+            AND "searchVector" @@ query
+            AND ${entityScope}
+            AND ${MEMORY_FOG_PREDICATE}
+            AND ${MEMORY_LIVE_PREDICATE}
+          ORDER BY "keywordScore" DESC
+          LIMIT ${opts.maxMemories * 2}
+        `
+        : [];
+
+      return { vectorMemories, keywordMemories };
     });
 
-    // Filter by minimum similarity and apply importance boost
-    const result = filterAndRankMemories(memories, opts);
+    // The vector channel's own ranking keeps its floor, recency blend and
+    // importance boost (filterAndRankMemories, uncapped here); fusion then
+    // interleaves the keyword channel by rank, and only the fused list is
+    // cut to maxMemories.
+    const vectorRanked = filterAndRankMemories(vectorMemories, { ...opts, maxMemories: vectorMemories.length });
+    const result = fuseRankings(vectorRanked, keywordMemories, {
+      textOf: (m) => `${m.title}\n${m.summary}`,
+      boostNames: opts.boostNames,
+    }).slice(0, opts.maxMemories);
 
     console.log(`✓ Retrieved ${result.length} relevant memories for scene ${context.currentScene.sceneNumber}`);
 
@@ -7,10 +7,17 @@
 // 2026-07-08 — gpt-4.1 / gpt-4.1-mini no longer appeared in the current
 // lineup there, superseded by the gpt-5.4 series. If OpenAI has renamed or
 // deprecated these since, this is the only place that needs updating.
+//
+// Each tier can be pointed at a different model — and, through
+// providers.ts, a different endpoint entirely — with AI_<TIER>_MODEL. The
+// names below are OpenAI's and only mean anything to OpenAI; a deployment
+// on another provider has to name its own models (providers.ts treats a
+// non-OpenAI tier with no model set as not configured rather than sending
+// it "gpt-5.4").
 export const AI_MODELS = {
   // Narrative-critical calls where output quality matters most: main scene
   // resolution, new-scene intros.
-  FLAGSHIP: 'gpt-5.4',
+  FLAGSHIP: process.env.AI_FLAGSHIP_MODEL || 'gpt-5.4',
   // Structured extraction / background tasks where a smaller, cheaper model
   // is appropriate: map layout extraction, consequence extraction, offscreen
   // event generation, stub NPC/faction enrichment, world generation.
@@ -21,11 +28,18 @@ export const AI_MODELS = {
   // because the "mini" tier within a model generation shares the
   // flagship's context window (every OpenAI family to date has), not a
   // shrunken one. See tokenBudget.ts's DEFAULT_TOKEN_BUDGET comment.
-  EFFICIENT: 'gpt-5.4-mini',
+  EFFICIENT: process.env.AI_EFFICIENT_MODEL || 'gpt-5.4-mini',
   // #96: scene illustration. Image generation is branded separately from
   // the chat-completion lineup above (OpenAI's own naming, not this file's
   // convention) — verify this is still the current model before enabling
   // sceneImageGenerationEnabled in production; image models roll over
   // independently of the gpt-5.4 series.
-  IMAGE: 'gpt-image-1',
-} as const
+  IMAGE: process.env.AI_IMAGE_MODEL || 'gpt-image-1',
+  // Campaign memory and lore retrieval. The pgvector columns are
+  // vector(1536) — ada-002's width — so a replacement model must produce
+  // 1536-dimension vectors or every embedding write fails at the insert.
+  EMBEDDING: process.env.AI_EMBEDDING_MODEL || 'text-embedding-ada-002',
+}
+
+export type ModelTier = keyof typeof AI_MODELS
+
@@ -5,8 +5,16 @@
 // system, which stays player-facing and unchanged.
 //
 // The moderation endpoint is free, so this adds latency but no cost.
+//
+// Which provider's ToS is being protected is the FLAGSHIP tier's — that's
+// where player text is sent (see providers.ts). A provider with no
+// moderation endpoint (a self-hosted model, most compatible vendors) has
+// nothing here to comply with, and gets the same clean no-op as a
+// deployment with no key at all.
+
+import { openaiFetch } from './openaiCompat'
+import { resolveProvider } from './providers'
 
-const MODERATION_URL = 'https://api.openai.com/v1/moderations'
 const MAX_MODERATION_INPUT = 8000
 
 export interface ModerationResult {
@@ -14,8 +22,8 @@ export interface ModerationResult {
   categories: string[]
   // #274: distinguishes "the moderation call itself failed" (a real outage
   // — fail closed) from "flagged for a real category" and from the
-  // legitimate no-op state of no OPENAI_API_KEY configured (local dev,
-  // still CLEAN). Never set alongside flagged categories.
+  // legitimate no-op state of no moderating provider configured (local
+  // dev, self-hosted, still CLEAN). Never set alongside flagged categories.
   unavailable?: boolean
 }
 
@@ -50,21 +58,20 @@ export function applyModerationLevel(result: ModerationResult, level: Moderation
 }
 
 export async function moderatePlayerText(text: string, level: ModerationLevel = 'standard'): Promise<ModerationResult> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey || !text.trim()) return CLEAN
+  const provider = resolveProvider('FLAGSHIP')
+  if (!provider.configured || !provider.capabilities.moderation || !text.trim()) return CLEAN
 
   try {
-    const response = await fetch(MODERATION_URL, {
+    const response = await openaiFetch('/moderations', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
       },
       body: JSON.stringify({
         model: 'omni-moderation-latest',
         input: text.slice(0, MAX_MODERATION_INPUT),
       }),
-    })
+    }, 'FLAGSHIP')
 
     if (!response.ok) {
       throw new Error(`Moderation API error: ${response.status}`)
@@ -1,23 +1,25 @@
 // src/lib/ai/moveFlavor.ts
-// Third-stage world generation: per-campaign flavor text for the fixed
-// BASIC_MOVES set (lib/pbta-moves.ts). Runs alongside generateWorldExtras
+// Third-stage world generation: per-campaign flavor text for the campaign's
+// move set (lib/moveSets.ts — the core set is BASIC_MOVES in
+// lib/pbta-moves.ts). Runs alongside generateWorldExtras
 // (same inputs, independent call) — kept separate rather than folded into
 // either existing call because both of those are already tuned close to
 // their own token budgets (see their doc comments), and a truncated
 // response there zeroes out load-bearing content (factions/capabilities/
 // fronts/archetypes), not just this. This call fails independently: no
-// flavor text just means a campaign displays BASIC_MOVES' own generic
+// flavor text just means a campaign displays its move set's own generic
 // name/trigger/outcome text, which is a fully functional baseline, not a
 // degraded one — see the Move model's doc comment in schema.prisma.
 //
 // Mechanics never come from here: rollType/stat/outcome-band logic stays
-// fixed in pbta-moves.ts and resolution.ts. This only ever supplies display
+// fixed in moveSets.ts and resolution.ts. This only ever supplies display
 // text keyed by baseMoveKey, the same relationship statLabels has to the
 // fixed stat keys.
 
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
-import { BASIC_MOVES } from '@/lib/pbta-moves'
+import { isAIConfigured } from './providers'
+import { resolveMoveSet, type MoveSet } from '@/lib/moveSets'
 import type { GeneratedStatLabels } from './worldGenerator'
 
 export interface GeneratedMoveFlavor {
@@ -32,11 +34,11 @@ export interface GeneratedMoveFlavor {
   }
 }
 
-const VALID_KEYS = new Set(BASIC_MOVES.map(m => m.key))
-
-const MOVE_LIST_FOR_PROMPT = BASIC_MOVES.map(
-  m => `- "${m.key}" (mechanically "${m.name}", ${m.rollType}): ${m.trigger}. Bands: strong hit — ${m.outcomes.strongHit} / weak hit — ${m.outcomes.weakHit} / miss — ${m.outcomes.miss}`
-).join('\n')
+function moveListForPrompt(moveSet: MoveSet): string {
+  return moveSet.moves.map(
+    m => `- "${m.key}" (mechanically "${m.name}", ${m.rollType}): ${m.trigger}. Bands: strong hit — ${m.outcomes.strongHit} / weak hit — ${m.outcomes.weakHit} / miss — ${m.outcomes.miss}`
+  ).join('\n')
+}
 
 export async function generateMoveFlavor(
   campaignTitle: string,
@@ -45,10 +47,14 @@ export async function generateMoveFlavor(
   statLabels?: GeneratedStatLabels,
   // Imported-canon excerpts (lib/lore/loreDigest.ts) — when present, move
   // flavor should read like this canon's own vocabulary for these actions.
-  loreDigest?: string
+  loreDigest?: string,
+  // The campaign's move set — flavor is only ever generated for moves this
+  // campaign can actually roll. Absent means the core set.
+  moveSet: MoveSet = resolveMoveSet(null)
 ): Promise<GeneratedMoveFlavor[] | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
+
+  const validKeys = new Set(moveSet.moves.map(m => m.key))
 
   const statLine = statLabels
     ? Object.entries(statLabels).map(([k, v]) => `${k} = "${v.label}"`).join(', ')
@@ -63,7 +69,7 @@ ${loreDigest ? `\nCANON LORE — excerpts from this universe's actual source mat
 
 These are the fixed moves every character can attempt. Their MECHANICS (which stat, what a strong hit/weak hit/miss means structurally) never change — only the NAME, trigger wording, description, and outcome PROSE should be reworded to fit this campaign's voice:
 
-${MOVE_LIST_FOR_PROMPT}
+${moveListForPrompt(moveSet)}
 
 Return JSON:
 {
@@ -91,7 +97,6 @@ Rules:
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: 'You reword tabletop RPG move flavor text to fit a campaign\'s voice without altering its mechanics. JSON only.',
       userPrompt: prompt,
@@ -112,7 +117,7 @@ Rules:
     const seenKeys = new Set<string>()
     for (const m of raw.moves) {
       const key = String(m?.base_move_key || '')
-      if (!VALID_KEYS.has(key) || seenKeys.has(key)) continue
+      if (!validKeys.has(key) || seenKeys.has(key)) continue
       if (!m?.name || !m?.trigger || !m?.outcomes) continue
       seenKeys.add(key)
       flavors.push({
@@ -128,7 +133,7 @@ Rules:
       })
     }
 
-    console.log(`✅ Move flavor: ${flavors.length}/${BASIC_MOVES.length} moves flavored`)
+    console.log(`✅ Move flavor: ${flavors.length}/${moveSet.moves.length} moves flavored`)
     return flavors
   } catch (err) {
     console.error('Move flavor generation failed (moves fall back to generic text):', err)
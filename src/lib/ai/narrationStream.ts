@@ -0,0 +1,129 @@
+// src/lib/ai/narrationStream.ts
+// Reading a scene resolution while it is still being written.
+//
+// The AI GM answers in one JSON object — `scene_text` plus the structured
+// `world_updates` — and none of it can be trusted until the whole object
+// has parsed and passed validation.ts. The prose is the exception worth
+// making: it is what players are actually waiting ~150s for, it is the
+// first key the response format asks for, and showing it early commits
+// the engine to nothing. So the call streams, the narration is lifted out
+// of the half-finished JSON as it grows, and everything else waits for the
+// complete response exactly as before.
+//
+// Pure apart from reading the response body; the broadcasting side lives
+// in lib/game/narrationBroadcast.ts.
+
+const SCENE_TEXT_KEY = /"scene_text"\s*:\s*"/
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t'
+}
+
+/**
+ * The `scene_text` value decoded as far as `raw` reaches, or null if the
+ * model hasn't opened that string yet. Stops cleanly before an escape
+ * sequence that is cut off mid-way, so what comes back is always a prefix
+ * of the final narration and never grows a stray backslash.
+ */
+export function partialSceneText(raw: string): string | null {
+  const match = SCENE_TEXT_KEY.exec(raw)
+  if (!match) return null
+
+  let text = ''
+  let i = match.index + match[0].length
+  while (i < raw.length) {
+    const ch = raw[i]
+    if (ch === '"') return text
+    if (ch !== '\\') {
+      text += ch
+      i += 1
+      continue
+    }
+
+    const next = raw[i + 1]
+    if (next === undefined) break
+    if (next === 'u') {
+      const hex = raw.slice(i + 2, i + 6)
+      if (hex.length < 4) break
+      const code = parseInt(hex, 16)
+      if (Number.isNaN(code)) return text
+      // A high surrogate on its own would render as a replacement
+      // character; wait for its pair rather than show half an emoji.
+      if (code >= 0xd800 && code <= 0xdbff && raw.length < i + 12) break
+      text += String.fromCharCode(code)
+      i += 6
+      continue
+    }
+    const escaped = SIMPLE_ESCAPES[next]
+    if (escaped === undefined) return text
+    text += escaped
+    i += 2
+  }
+  return text
+}
+
+export interface StreamedCompletion {
+  content: string
+  usage: { prompt_tokens?: number; completion_tokens?: number; prompt_tokens_details?: { cached_tokens?: number } }
+}
+
+/**
+ * Drain a `stream: true` chat-completions body, calling `onContent` with
+ * the accumulated message content after each delta. Returns the same two
+ * things the non-streaming path reads off `data.choices[0].message` and
+ * `data.usage`, so the caller parses and validates the result exactly as
+ * it always has.
+ */
+export async function readChatCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onContent: (contentSoFar: string) => void
+): Promise<StreamedCompletion> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+  let content = ''
+  let usage: StreamedCompletion['usage'] = {}
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith('data:')) return
+    const payload = trimmed.slice('data:'.length).trim()
+    if (payload === '' || payload === '[DONE]') return
+
+    let chunk
+    try {
+      chunk = JSON.parse(payload)
+    } catch {
+      // A malformed line (a proxy's keep-alive, a provider's stray error
+      // text) is one lost delta at worst — the full content is validated
+      // once the stream ends — not a reason to throw the whole call away.
+      return
+    }
+    if (chunk.usage) usage = chunk.usage
+    const delta = chunk.choices?.[0]?.delta?.content
+    if (typeof delta === 'string' && delta.length > 0) {
+      content += delta
+      onContent(content)
+    }
+  }
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffered += decoder.decode(value, { stream: true })
+    const lines = buffered.split('\n')
+    buffered = lines.pop() ?? ''
+    for (const line of lines) handleLine(line)
+  }
+  buffered += decoder.decode()
+  if (buffered) handleLine(buffered)
+
+  return { content, usage }
+}
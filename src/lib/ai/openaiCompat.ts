@@ -12,11 +12,56 @@
 // openings" bug.
 //
 // This wrapper keeps each call site's own error handling intact: same
-// signature as fetch, and only intervenes on a 400 that names a
-// parameter it knows how to fix, retrying exactly once.
+// shape as fetch, and only intervenes on a 400 that names a parameter it
+// knows how to fix, retrying exactly once.
+//
+// It is also where a call finds its provider (see providers.ts). Call
+// sites pass an endpoint path ('/chat/completions') rather than a URL;
+// the request's own `model` picks the tier, and with it the base URL, the
+// key, and which parameters to reshape or drop before the provider sees
+// them. A body with no model (moderations) names its tier explicitly.
+// A tier on the fake provider is answered in-process (fakeProvider.ts),
+// through the same retry path, so nothing above this can tell.
+
+import { adaptRequestBody, providerForModel, resolveProvider, type ModelTier } from './providers'
+import { fakeProviderFetch } from './fakeProvider'
+
+function routeRequest(
+  endpoint: string,
+  init: RequestInit,
+  tier?: ModelTier
+): { url: string; init: RequestInit; send: typeof fetch } {
+  let payload: Record<string, unknown> | null = null
+  if (typeof init.body === 'string') {
+    try {
+      payload = JSON.parse(init.body)
+    } catch {
+      payload = null
+    }
+  }
+
+  const provider = tier
+    ? resolveProvider(tier)
+    : providerForModel(typeof payload?.model === 'string' ? payload.model : '')
+
+  const headers: Record<string, string> = { ...(init.headers as Record<string, string> | undefined) }
+  delete headers.Authorization
+  if (provider.apiKey) headers.Authorization = `Bearer ${provider.apiKey}`
+
+  return {
+    send: provider.kind === 'fake' ? fakeProviderFetch : fetch,
+    url: `${provider.baseUrl}${endpoint}`,
+    init: {
+      ...init,
+      headers,
+      ...(payload ? { body: JSON.stringify(adaptRequestBody(payload, provider.capabilities)) } : {}),
+    },
+  }
+}
 
-export async function openaiFetch(url: string, init: RequestInit): Promise<Response> {
-  const response = await fetch(url, init)
+export async function openaiFetch(endpoint: string, requestInit: RequestInit, tier?: ModelTier): Promise<Response> {
+  const { url, init, send } = routeRequest(endpoint, requestInit, tier)
+  const response = await send(url, init)
   if (response.status !== 400 || typeof init.body !== 'string') {
     return response
   }
@@ -64,5 +109,5 @@ export async function openaiFetch(url: string, init: RequestInit): Promise<Respo
       .filter(Boolean)
       .join(', ')}`
   )
-  return fetch(url, { ...init, body: JSON.stringify(payload) })
+  return send(url, { ...init, body: JSON.stringify(payload) })
 }
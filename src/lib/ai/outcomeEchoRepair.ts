@@ -22,6 +22,7 @@
 
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { recordAICost, estimateTokenCount } from './cost-tracker'
 import type { AdherenceResult, OutcomeBand } from '@/lib/game/outcomeAdherence'
 
@@ -73,15 +74,13 @@ export async function generateOutcomeEchoRepair(
   campaignId: string,
   ctx: OutcomeEchoRepairContext
 ): Promise<OutcomeBand | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
 
   const { system, user } = buildOutcomeEchoRepairPrompt(ctx)
   const startTime = Date.now()
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: system,
       userPrompt: user,
@@ -0,0 +1,314 @@
+// src/lib/ai/providers.ts
+// Which endpoint serves each model tier, and what that endpoint can do.
+//
+// Every AI call in this codebase speaks the OpenAI wire format — chat
+// completions, embeddings, images, moderations — and until this existed
+// every one of them was also hard-wired to api.openai.com and
+// OPENAI_API_KEY, so a deployment without an OpenAI account couldn't run
+// the app at all. The wire format is the part worth keeping: vLLM, Ollama
+// and llama.cpp's server all speak it, as do most hosted vendors'
+// compatibility endpoints. What differs between them is the base URL,
+// whether there's a key, a handful of request parameters (JSON mode,
+// prompt caching, streamed usage), whether there's a moderation endpoint
+// at all, and what a token costs. That is all this file describes.
+//
+// Configuration is per tier (see models.ts), read from the environment at
+// call time:
+//   AI_PROVIDER / AI_BASE_URL / AI_API_KEY — the defaults for every tier
+//   AI_<TIER>_PROVIDER / _BASE_URL / _API_KEY / _MODEL — one tier only
+//   AI_<TIER>_JSON_MODE — json_object | json_schema | none, overriding the
+//     provider's default (for an openai-compatible server that differs)
+//   AI_<TIER>_INPUT_PRICE / _OUTPUT_PRICE — USD per 1M tokens; IMAGE takes
+//     AI_IMAGE_PRICE_PER_IMAGE instead
+// With none of it set, every tier is OpenAI with OPENAI_API_KEY, exactly
+// as before.
+//
+// AI_PROVIDER=fake answers every tier from fakeProvider.ts without
+// leaving the process — offline end-to-end runs, no key, no spend.
+//
+// Routing is by model name (providerForModel): every call site already
+// names its tier's model in the request, and that keeps callAIGM's
+// FLAGSHIP→EFFICIENT fallback (#116) able to cross providers for free.
+// The price is that two tiers may share a model name only while they
+// route alike — see tierForModel.
+
+import { AI_MODELS, type ModelTier } from './models'
+
+export type { ModelTier } from './models'
+
+export type ProviderKind = 'openai' | 'openai-compatible' | 'ollama' | 'vllm' | 'llamacpp' | 'fake'
+
+const PROVIDER_KINDS: readonly ProviderKind[] = ['openai', 'openai-compatible', 'ollama', 'vllm', 'llamacpp', 'fake']
+
+/**
+ * How a request for JSON output is expressed: OpenAI's json_object
+ * response_format, a json_schema response_format (servers that only do
+ * structured outputs), or not at all — the prompts already ask for JSON,
+ * and every caller parses and validates what comes back regardless.
+ */
+export type JsonModeSupport = 'json_object' | 'json_schema' | 'none'
+
+const JSON_MODES: readonly JsonModeSupport[] = ['json_object', 'json_schema', 'none']
+
+export interface ProviderCapabilities {
+  jsonMode: JsonModeSupport
+  /** prompt_cache_key / prompt_cache_retention (see client.ts's cacheParams). */
+  promptCaching: boolean
+  /** stream_options: { include_usage } on a streamed completion. */
+  streamUsage: boolean
+  /** A /moderations endpoint (see moderation.ts). */
+  moderation: boolean
+}
+
+interface ProviderPreset {
+  /** Null where there's no sensible default and AI_BASE_URL must be set. */
+  baseUrl: string | null
+  requiresApiKey: boolean
+  /** Runs on the deployment's own hardware — no per-token bill. */
+  selfHosted: boolean
+  /** Answers to AI_MODELS' default names, so a tier needn't name its own. */
+  servesDefaultModels: boolean
+  capabilities: ProviderCapabilities
+}
+
+const PROVIDER_PRESETS: Record<ProviderKind, ProviderPreset> = {
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    requiresApiKey: true,
+    selfHosted: false,
+    servesDefaultModels: true,
+    capabilities: { jsonMode: 'json_object', promptCaching: true, streamUsage: true, moderation: true },
+  },
+  // Any other vendor's OpenAI-compatible endpoint. Assumes the least: no
+  // caching or streamed usage, which an unknown server may reject outright.
+  'openai-compatible': {
+    baseUrl: null,
+    requiresApiKey: false,
+    selfHosted: false,
+    servesDefaultModels: false,
+    capabilities: { jsonMode: 'json_object', promptCaching: false, streamUsage: false, moderation: false },
+  },
+  ollama: {
+    baseUrl: 'http://localhost:11434/v1',
+    requiresApiKey: false,
+    selfHosted: true,
+    servesDefaultModels: false,
+    capabilities: { jsonMode: 'json_object', promptCaching: false, streamUsage: false, moderation: false },
+  },
+  vllm: {
+    baseUrl: 'http://localhost:8000/v1',
+    requiresApiKey: false,
+    selfHosted: true,
+    servesDefaultModels: false,
+    capabilities: { jsonMode: 'json_object', promptCaching: false, streamUsage: true, moderation: false },
+  },
+  llamacpp: {
+    baseUrl: 'http://localhost:8080/v1',
+    requiresApiKey: false,
+    selfHosted: true,
+    servesDefaultModels: false,
+    capabilities: { jsonMode: 'json_object', promptCaching: false, streamUsage: false, moderation: false },
+  },
+  // fakeProvider.ts. The URL is never dialled — openaiFetch and the SDK
+  // clients hand requests to fakeProviderFetch instead — but it names a
+  // host that cannot resolve, should anything ever try.
+  fake: {
+    baseUrl: 'http://fake-llm.invalid/v1',
+    requiresApiKey: false,
+    selfHosted: true,
+    servesDefaultModels: true,
+    capabilities: { jsonMode: 'json_object', promptCaching: true, streamUsage: true, moderation: true },
+  },
+}
+
+/** Per-provider price, in the shapes cost-tracker.ts already prices in. */
+export type ProviderPricing =
+  | { inputTokenPrice: number; outputTokenPrice: number }
+  | { flatCostPerRequest: number }
+
+export interface AIProvider {
+  tier: ModelTier
+  kind: ProviderKind
+  model: string
+  baseUrl: string
+  apiKey: string | null
+  /**
+   * False when a call would be pointless: OpenAI with no key, or another
+   * provider with no base URL or no model of its own named for this tier.
+   * Callers treat it exactly as they used to treat a missing OPENAI_API_KEY.
+   */
+  configured: boolean
+  capabilities: ProviderCapabilities
+  /** Null means cost-tracker.ts's own per-model table applies. */
+  pricing: ProviderPricing | null
+}
+
+type Env = Record<string, string | undefined>
+
+/**
+ * A configuration that can't be routed as written. Thrown at call time,
+ * where each call site's own error handling reports it, rather than
+ * letting the call go somewhere other than the one configured.
+ */
+export class AIConfigurationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AIConfigurationError'
+  }
+}
+
+function setting(env: Env, tier: ModelTier, name: string): string | undefined {
+  return env[`AI_${tier}_${name}`] || env[`AI_${name}`] || undefined
+}
+
+function price(value: string | undefined): number | null {
+  if (value === undefined) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null
+}
+
+function resolvePricing(env: Env, tier: ModelTier, preset: ProviderPreset): ProviderPricing | null {
+  if (tier === 'IMAGE') {
+    const perImage = price(env.AI_IMAGE_PRICE_PER_IMAGE)
+    if (perImage !== null) return { flatCostPerRequest: perImage }
+  } else {
+    const input = price(env[`AI_${tier}_INPUT_PRICE`])
+    const output = price(env[`AI_${tier}_OUTPUT_PRICE`])
+    if (input !== null || output !== null) {
+      return { inputTokenPrice: (input ?? 0) / 1_000_000, outputTokenPrice: (output ?? 0) / 1_000_000 }
+    }
+  }
+  // Self-hosted inference costs hardware, not tokens. Recording OpenAI's
+  // rates against it would make every campaign's spend fiction.
+  if (preset.selfHosted) {
+    return tier === 'IMAGE' ? { flatCostPerRequest: 0 } : { inputTokenPrice: 0, outputTokenPrice: 0 }
+  }
+  return null
+}
+
+/**
+ * Pure given `env`. An unrecognised AI_PROVIDER falls back to OpenAI with
+ * a warning rather than throwing — the same fail-soft every AI call site
+ * already has for a missing key.
+ */
+export function resolveProvider(tier: ModelTier, env: Env = process.env): AIProvider {
+  const requested = setting(env, tier, 'PROVIDER')
+  let kind: ProviderKind = 'openai'
+  if (requested && (PROVIDER_KINDS as readonly string[]).includes(requested)) {
+    kind = requested as ProviderKind
+  } else if (requested) {
+    console.warn(`⚠️ Unknown AI provider "${requested}" for ${tier} — using openai. Expected one of: ${PROVIDER_KINDS.join(', ')}`)
+  }
+  const preset = PROVIDER_PRESETS[kind]
+
+  const baseUrl = (setting(env, tier, 'BASE_URL') ?? preset.baseUrl ?? '').replace(/\/+$/, '')
+  const apiKey = setting(env, tier, 'API_KEY') ?? (kind === 'openai' ? env.OPENAI_API_KEY || null : null)
+
+  const jsonOverride = setting(env, tier, 'JSON_MODE')
+  const capabilities: ProviderCapabilities = {
+    ...preset.capabilities,
+    ...(jsonOverride && (JSON_MODES as readonly string[]).includes(jsonOverride)
+      ? { jsonMode: jsonOverride as JsonModeSupport }
+      : {}),
+  }
+
+  // OpenAI's model names are AI_MODELS' defaults; no real provider but
+  // OpenAI serves them, so anywhere else the tier needs its own model named.
+  const modelNamed = preset.servesDefaultModels || Boolean(env[`AI_${tier}_MODEL`])
+
+  return {
+    tier,
+    kind,
+    model: AI_MODELS[tier],
+    baseUrl,
+    apiKey,
+    configured: baseUrl !== '' && modelNamed && (apiKey !== null || !preset.requiresApiKey),
+    capabilities,
+    pricing: resolvePricing(env, tier, preset),
+  }
+}
+
+/**
+ * The key to hand the OpenAI SDK (embeddings, images), which insists on
+ * one even for a server that takes none. Undefined for OpenAI itself, so
+ * a missing key fails at construction exactly as it always has.
+ */
+export function sdkApiKey(provider: AIProvider): string | undefined {
+  return provider.apiKey ?? (provider.kind === 'openai' ? undefined : 'unused')
+}
+
+/**
+ * The tier a model name belongs to, or null for one AI_MODELS doesn't use.
+ * Several tiers may name the same model — one self-hosted model serving
+ * them all is the usual case — and any of them will do as long as they
+ * route alike. When they don't (different providers, endpoints, keys or
+ * prices), a request naming that model can't say which tier it meant, so
+ * this throws AIConfigurationError instead of quietly routing every such
+ * call through the first tier's settings.
+ */
+export function tierForModel(model: string, env: Env = process.env): ModelTier | null {
+  const tiers = (Object.keys(AI_MODELS) as ModelTier[]).filter(tier => AI_MODELS[tier] === model)
+  if (tiers.length > 1) {
+    const routing = (tier: ModelTier) => {
+      const { kind, baseUrl, apiKey, capabilities, pricing } = resolveProvider(tier, env)
+      return JSON.stringify({ kind, baseUrl, apiKey, capabilities, pricing })
+    }
+    const first = routing(tiers[0])
+    const conflicting = tiers.slice(1).filter(tier => routing(tier) !== first)
+    if (conflicting.length > 0) {
+      throw new AIConfigurationError(
+        `AI tiers ${[tiers[0], ...conflicting].join(', ')} share the model "${model}" but not their provider settings, so requests for it can't be routed. Give each tier its own AI_<TIER>_MODEL, or the same provider, base URL, key and prices.`
+      )
+    }
+  }
+  return tiers[0] ?? null
+}
+
+/**
+ * The provider serving `model`. A model no tier names (a stale name in a
+ * cost record, say) gets the FLAGSHIP tier's endpoint — the default
+ * provider in every configuration that doesn't split tiers. Throws
+ * AIConfigurationError for a name tiers share but route differently.
+ */
+export function providerForModel(model: string, env: Env = process.env): AIProvider {
+  const tier = tierForModel(model, env)
+  return tier ? resolveProvider(tier, env) : { ...resolveProvider('FLAGSHIP', env), model }
+}
+
+/** Whether a call to `model` can be made at all in this deployment. */
+export function isAIConfigured(model: string): boolean {
+  return providerForModel(model).configured
+}
+
+/**
+ * Rewrite an OpenAI-shaped request body for what `capabilities` says the
+ * provider accepts. Pure; returns a new object. Only strips or reshapes
+ * what a provider would reject — anything it merely ignores is left alone.
+ */
+export function adaptRequestBody(
+  body: Record<string, unknown>,
+  capabilities: ProviderCapabilities
+): Record<string, unknown> {
+  const adapted = { ...body }
+  const format = adapted.response_format as { type?: string } | undefined
+  if (format?.type === 'json_object') {
+    if (capabilities.jsonMode === 'json_schema') {
+      // The loosest schema there is: "an object". Each caller's own
+      // validation still decides whether it's the RIGHT object.
+      adapted.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: { type: 'object' } },
+      }
+    } else if (capabilities.jsonMode === 'none') {
+      delete adapted.response_format
+    }
+  }
+  if (!capabilities.promptCaching) {
+    delete adapted.prompt_cache_key
+    delete adapted.prompt_cache_retention
+  }
+  if (!capabilities.streamUsage) {
+    delete adapted.stream_options
+  }
+  return adapted
+}
@@ -0,0 +1,105 @@
+// src/lib/ai/retrievalEval.ts
+//
+// Offline evaluation for hybrid retrieval: replay labelled queries through
+// the same fusion code the live retrievers use and score the rankings, so
+// a change to RRF_K, the roster boost, or the keyword query can be
+// measured before it ships instead of judged by reading one scene.
+//
+// A case records each channel's ranking as ids, not the corpus and query
+// embedding behind them. That keeps the harness runnable anywhere — no
+// database, no embedding API, no cost — at the price of measuring only
+// what happens AFTER the two SQL searches. A change to the SQL itself
+// means recording fresh rankings for the cases (the retrieval trace in a
+// scene's consequences carries each hit's rank in both channels).
+//
+// Run it with `npm run eval:retrieval`; the labelled set lives
+// in retrievalEvalCases.ts.
+
+import { fuseRankings } from './hybridRetrieval'
+
+export interface RetrievalEvalCase {
+  id: string
+  /** The scene query, for the reader — the rankings below came from it. */
+  query: string
+  /** Ids a correct retrieval should surface. */
+  relevant: string[]
+  /** The vector channel's ranking, best first, after its similarity floor. */
+  vector: string[]
+  /** The keyword channel's ranking, best first. */
+  keyword: string[]
+  /** Scene roster names, for the boost. */
+  roster?: string[]
+  /** Title-plus-body text per id — only needed for the roster boost. */
+  text?: Record<string, string>
+}
+
+export type RetrievalStrategy = 'vector' | 'keyword' | 'hybrid'
+
+export const RETRIEVAL_STRATEGIES: readonly RetrievalStrategy[] = ['vector', 'keyword', 'hybrid']
+
+export interface StrategyReport {
+  strategy: RetrievalStrategy
+  k: number
+  /** Mean recall@k across cases. */
+  recall: number
+  /** Mean reciprocal rank of the first relevant hit. */
+  mrr: number
+  perCase: Array<{ id: string; recall: number; reciprocalRank: number }>
+}
+
+/** Share of `relevant` found in the first k of `ranked`. 1 when nothing is relevant. */
+export function recallAtK(ranked: string[], relevant: string[], k: number): number {
+  if (relevant.length === 0) return 1
+  const top = new Set(ranked.slice(0, k))
+  return relevant.filter((id) => top.has(id)).length / relevant.length
+}
+
+/** 1 / (position of the first relevant hit), or 0 when there is none. */
+export function reciprocalRank(ranked: string[], relevant: string[]): number {
+  const wanted = new Set(relevant)
+  const index = ranked.findIndex((id) => wanted.has(id))
+  return index === -1 ? 0 : 1 / (index + 1)
+}
+
+/** The ranking a strategy produces for one case. */
+export function rankCase(evalCase: RetrievalEvalCase, strategy: RetrievalStrategy): string[] {
+  if (strategy === 'vector') return evalCase.vector
+  if (strategy === 'keyword') return evalCase.keyword
+  return fuseRankings(
+    evalCase.vector.map((id) => ({ id })),
+    evalCase.keyword.map((id) => ({ id })),
+    { textOf: (hit) => evalCase.text?.[hit.id] ?? '', boostNames: evalCase.roster }
+  ).map((hit) => hit.id)
+}
+
+/** Score every strategy over the cases at cut-off k. */
+export function evaluateRetrieval(cases: RetrievalEvalCase[], k: number): StrategyReport[] {
+  const mean = (values: number[]) => (values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length)
+  return RETRIEVAL_STRATEGIES.map((strategy) => {
+    const perCase = cases.map((c) => {
+      const ranked = rankCase(c, strategy)
+      return { id: c.id, recall: recallAtK(ranked, c.relevant, k), reciprocalRank: reciprocalRank(ranked, c.relevant) }
+    })
+    return {
+      strategy,
+      k,
+      recall: mean(perCase.map((c) => c.recall)),
+      mrr: mean(perCase.map((c) => c.reciprocalRank)),
+      perCase,
+    }
+  })
+}
+
+/** A plain-text table of the reports, one row per strategy. */
+export function formatEvalReport(reports: StrategyReport[], caseCount: number): string {
+  const k = reports[0]?.k ?? 0
+  const lines = [
+    `${caseCount} labelled ${caseCount === 1 ? 'query' : 'queries'}, k = ${k}`,
+    '',
+    `${'strategy'.padEnd(10)}${`recall@${k}`.padStart(10)}${'MRR'.padStart(8)}`,
+  ]
+  for (const r of reports) {
+    lines.push(`${r.strategy.padEnd(10)}${r.recall.toFixed(3).padStart(10)}${r.mrr.toFixed(3).padStart(8)}`)
+  }
+  return lines.join('\n')
+}
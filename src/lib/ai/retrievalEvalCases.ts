@@ -0,0 +1,64 @@
+// src/lib/ai/retrievalEvalCases.ts
+//
+// The labelled query set retrievalEval.ts scores. Each case is a scene
+// query, the ids a GM judged it should have surfaced, and what each search
+// channel actually ranked for it. Weighted toward what hybrid retrieval
+// exists for — proper nouns the embedding under-weights — with control
+// cases where the vector channel was already right, so an improvement on
+// the first kind can't hide a regression on the second.
+//
+// Ids are local to each case. Add cases rather than editing old ones: a
+// case whose rankings no longer match what the retrievers return is
+// measuring a system that doesn't exist any more.
+
+import type { RetrievalEvalCase } from './retrievalEval'
+
+export const RETRIEVAL_EVAL_CASES: RetrievalEvalCase[] = [
+  {
+    id: 'ashen-ledger',
+    query: 'Player actions: I open the Ashen Ledger and read the last entry.',
+    relevant: ['m-ledger-found', 'l-ledger'],
+    vector: ['m-library', 'm-reading', 'm-archive', 'm-ledger-found', 'l-scribes'],
+    keyword: ['l-ledger', 'm-ledger-found', 'm-ash-storm'],
+  },
+  {
+    id: 'npc-surname',
+    query: 'Player actions: Ask the innkeeper what she knows about the Varrow family.',
+    relevant: ['m-varrow-debt', 'm-varrow-feud'],
+    vector: ['m-inn-brawl', 'm-innkeeper-intro', 'm-rumours', 'm-family-ties', 'm-varrow-debt'],
+    keyword: ['m-varrow-feud', 'm-varrow-debt'],
+  },
+  {
+    id: 'place-name',
+    query: 'Stakes: reach Kessmark before the bridge falls.',
+    relevant: ['l-kessmark', 'm-kessmark-siege'],
+    vector: ['m-bridge-collapse', 'm-river-crossing', 'l-kessmark', 'm-road-north'],
+    keyword: ['m-kessmark-siege', 'l-kessmark'],
+  },
+  {
+    id: 'roster-boost',
+    query: 'NPCs present: Sera Quill: a smuggler with a grudge.',
+    relevant: ['m-sera-betrayal'],
+    vector: ['m-smuggler-route', 'm-grudge-match', 'm-sera-betrayal', 'm-docks'],
+    keyword: ['m-smuggler-route', 'm-sera-betrayal'],
+    roster: ['Sera Quill'],
+    text: {
+      'm-sera-betrayal': 'Sera Quill sold the crew out\nThe party learned Sera Quill had tipped off the harbour watch.',
+      'm-smuggler-route': 'The old tunnels\nA smuggler route under the docks.',
+    },
+  },
+  {
+    id: 'thematic-control',
+    query: 'A tense standoff in the rain; someone is about to break a promise.',
+    relevant: ['m-broken-oath', 'm-rain-duel'],
+    vector: ['m-broken-oath', 'm-rain-duel', 'm-standoff', 'm-promise'],
+    keyword: ['m-rain-festival', 'm-standoff'],
+  },
+  {
+    id: 'vector-only-control',
+    query: 'The party grieves the companion they lost at the pass.',
+    relevant: ['m-funeral'],
+    vector: ['m-funeral', 'm-pass-ambush', 'm-mourning'],
+    keyword: [],
+  },
+]
@@ -7,6 +7,7 @@ import { reportError } from '@/lib/monitoring'
 import { prisma } from '@/lib/prisma'
 import { callChatCompletion } from '@/lib/ai/chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { recordAICost, estimateTokenCount } from './cost-tracker'
 import { buildWorldSummaryForAI } from './worldSummary'
 import { truncateWithEllipsis } from '@/lib/format'
@@ -172,10 +173,9 @@ export async function generateNewSceneIntro(campaignId: string, characterIds?: s
       ].join('\n')}`
     : ''
 
-  const apiKey = process.env.OPENAI_API_KEY
   const startTime = Date.now()
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY not configured')
+  if (!isAIConfigured(AI_MODELS.FLAGSHIP)) {
+    throw new Error('AI provider not configured')
   }
 
   // Build focused character context - emphasize hooks, not stats
@@ -325,7 +325,6 @@ Write ONLY the scene introduction. No JSON, no meta-commentary, no character she
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.FLAGSHIP, // Flagship model for scene intros - first impression shapes the whole session
       systemPrompt: 'You are an evocative, atmospheric storyteller and game master. You show, don\'t tell. You create tension through imagery and implication, not explanation.',
       userPrompt: prompt,
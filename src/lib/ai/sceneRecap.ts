@@ -4,6 +4,7 @@
 // written text (a scene's resolution, or a run of per-scene summaries).
 
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { recordAICost, estimateTokenCount } from './cost-tracker'
 import { callChatCompletion } from '@/lib/ai/chatCompletion'
 
@@ -19,9 +20,8 @@ import { callChatCompletion } from '@/lib/ai/chatCompletion'
  * risking a circular import, so callers are expected to catch and skip.
  */
 export async function summarizeSceneForLog(campaignId: string, sceneText: string): Promise<{ summary: string; highlights: string[] }> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY not configured')
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) {
+    throw new Error('AI provider not configured')
   }
 
   const startTime = Date.now()
@@ -39,7 +39,6 @@ Respond with JSON only, in this exact shape:
 The summary must be complete sentences that stand alone without the original text. highlights should be 0-5 short phrases (not full sentences) naming the most notable beats - omit it entirely (empty array) if nothing stands out.`
 
   const result = await callChatCompletion({
-    apiKey,
     model: AI_MODELS.EFFICIENT,
     systemPrompt: 'You summarize RPG scene text into concise, player-facing recap entries. You always respond with valid JSON.',
     userPrompt: prompt,
@@ -87,9 +86,8 @@ The summary must be complete sentences that stand alone without the original tex
  * everything that happened.
  */
 export async function generateMilestoneRecap(campaignId: string, sceneSummaries: string[]): Promise<string> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY not configured')
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) {
+    throw new Error('AI provider not configured')
   }
 
   const startTime = Date.now()
@@ -102,7 +100,6 @@ Write a short retrospective (3-5 sentences) of this stretch of the campaign for
 Respond with JSON only: { "recap": "..." }`
 
   const result = await callChatCompletion({
-    apiKey,
     model: AI_MODELS.EFFICIENT,
     systemPrompt: 'You write short, evocative campaign retrospectives for a tabletop RPG Story Log. You always respond with valid JSON.',
     userPrompt: prompt,
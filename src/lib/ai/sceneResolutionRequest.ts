@@ -11,7 +11,8 @@ import { ComplexExchangeResolver, NarrativeFlowManager } from '@/lib/game/comple
 import { retrieveRelevantHistory, retrieveNpcHistory, buildSearchQuery } from './memoryRetrieval' // Campaign Memory RAG
 import { retrieveCrossEntityHistory, generateEntityPairs } from './crossEntityRecall'
 import { retrieveRelevantLore, recordLoreCitations } from './loreRetrieval' // Imported lore RAG (see lib/lore/)
-import { resolveActionMechanics } from '@/lib/game/resolution'
+import { buildRetrievalTrace } from './hybridRetrieval'
+import { resolveActionMechanics, type Rng } from '@/lib/game/resolution'
 import { describeZone } from '@/lib/game/zones'
 import { parseCorruptionTheme, describeCorruptionForPrompt } from '@/lib/game/corruption'
 import { isEvolutionEligible } from '@/lib/game/advancement'
@@ -105,12 +106,16 @@ three weeks ago (Scene 12)."
  *
  * @param campaignId - Campaign ID
  * @param sceneId - Current scene ID
+ * @param rng - The exchange's seeded dice stream (game/rngStream.ts), so
+ *   the rolls made here are replayable. Omitted, resolveActionMechanics
+ *   claims its own.
  * @returns Complete request object ready to send to AI
  */
 export async function buildSceneResolutionRequest(
   campaignId: string,
   sceneId: string,
-  isSceneEnding: boolean = false
+  isSceneEnding: boolean = false,
+  rng?: Rng
 ): Promise<AIGMRequest> {
   console.log('🎬 Building scene resolution request')
 
@@ -187,7 +192,8 @@ export async function buildSceneResolutionRequest(
       characterId: a.characterId,
       userId: a.userId,
       actionText: a.actionText
-    }))
+    })),
+    rng
   )
   const mechanicsByActionId = new Map(actionMechanics.map(m => [m.actionId, m]))
 
@@ -325,6 +331,15 @@ export async function buildSceneResolutionRequest(
     factions: entities.factions,
   })
 
+  // Hybrid retrieval's roster boost: the names of who is actually in this
+  // scene — the participant PCs and the NPCs the world summary already
+  // chose to show, both fog-filtered upstream. A boost only reorders what
+  // search already found, so this can't surface anything on its own.
+  const rosterNames = [
+    ...worldSummary.characters.map((c) => c.name),
+    ...worldSummary.npcs.map((n) => n.name),
+  ]
+
   let relevantMemories: any[] = []
   try {
     console.log('🧠 Retrieving relevant campaign memories...')
@@ -347,6 +362,7 @@ export async function buildSceneResolutionRequest(
         recencyBias: 0.3, // 30% weight to recent events, 70% to semantic similarity
         minSimilarity: 0.7, // Only include memories with 70%+ relevance
         importanceBoost: true, // Boost CRITICAL and MAJOR memories
+        boostNames: rosterNames,
       },
       searchQuery
     )
@@ -362,7 +378,7 @@ export async function buildSceneResolutionRequest(
   // imported (see lib/lore/) for what's relevant to this scene.
   let relevantLore: any[] = []
   try {
-    relevantLore = await retrieveRelevantLore(campaignId, searchQuery, { maxEntries: 5, minSimilarity: 0.75 })
+    relevantLore = await retrieveRelevantLore(campaignId, searchQuery, { maxEntries: 5, minSimilarity: 0.75, boostNames: rosterNames })
     if (relevantLore.length > 0) {
       console.log(`📚 Retrieved ${relevantLore.length} relevant lore entries`)
       // Best-effort citation trail — never lets a write failure affect the
@@ -556,6 +572,9 @@ export async function buildSceneResolutionRequest(
     last_progress_exchange: progressState.lastProgressExchange,
     _mechanicsUnavailable: classificationUnavailable,
     _mechanicsUnavailableReason: unavailableReason,
-    _mechanicsDroppedFields: droppedFields
+    _mechanicsDroppedFields: droppedFields,
+    // Everything retrieval surfaced, named recall included, before the
+    // token budget trimmed anything — what was considered, not what fit.
+    _retrievalTrace: buildRetrievalTrace(relevantMemories, relevantLore)
   }
 }
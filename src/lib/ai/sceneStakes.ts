@@ -12,6 +12,7 @@
 import { prisma } from '@/lib/prisma'
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { recordAICost, estimateTokenCount } from './cost-tracker'
 
 const MIN_CHARS = 10
@@ -44,8 +45,7 @@ export async function generateSceneStakes(
   campaignId: string,
   sceneIntroText: string
 ): Promise<string | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
   if (!sceneIntroText || sceneIntroText.trim().length < 40) return null
 
   const campaign = await prisma.campaign.findUnique({
@@ -68,7 +68,6 @@ export async function generateSceneStakes(
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: system,
       userPrompt: user,
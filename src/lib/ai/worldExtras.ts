@@ -12,6 +12,7 @@
 
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { validateStats } from '@/lib/game/advancement'
 import { MAX_CORRUPTION, CorruptionTheme } from '@/lib/game/corruption'
 import { slugifyCapabilityKey } from '@/lib/game/capabilities'
@@ -89,8 +90,7 @@ export async function generateWorldExtras(
   // archetypes and the corruption theme must be grounded in them.
   loreDigest?: string
 ): Promise<GeneratedWorldExtras | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
 
   const capabilityKeys = capabilities.map(c => `${slugifyCapabilityKey(c.name)} (${c.domain}, tier ${c.tier}${c.isSecret ? ', secret' : ''})`)
   const statLine = statLabels
@@ -183,7 +183,6 @@ Rules for locations:
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: 'You design tabletop RPG onboarding content in JSON. You follow structural rules exactly.',
       userPrompt: prompt,
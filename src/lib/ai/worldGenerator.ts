@@ -8,6 +8,7 @@
  */
 
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { callChatCompletion } from './chatCompletion'
 
 interface GeneratedFaction {
@@ -140,8 +141,7 @@ export async function generateWorldFromTemplate(
   existingWorldSeed?: string,
   loreDigest?: string
 ): Promise<GeneratedWorld | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
 
   const genreHint = (templateId && GENRE_HINTS[templateId])
     || (customUniverse ? `Genre: ${customUniverse}` : 'Genre: original fictional world.')
@@ -215,7 +215,6 @@ Rules:
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: 'You are a creative tabletop RPG world builder. You produce specific, evocative campaign worlds in JSON. Every world you create is unique.',
       userPrompt: prompt,
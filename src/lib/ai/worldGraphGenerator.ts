@@ -17,6 +17,7 @@
 
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 
 export interface GeneratedAdjacencyEdge {
   locationAName: string
@@ -69,8 +70,7 @@ export async function generateWorldGraph(
   locations: { name: string; description: string | null }[],
   loreDigest?: string
 ): Promise<GeneratedAdjacencyEdge[] | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
   if (locations.length < 2) return null
 
   const locationList = locations.map((l) => `- ${l.name}${l.description ? `: ${l.description}` : ''}`).join('\n')
@@ -96,7 +96,6 @@ Use location names EXACTLY as given above — never invent a location not in the
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: 'You infer plausible geographic adjacency between named locations in a tabletop RPG campaign. JSON only. You never invent a location not given to you.',
       userPrompt: prompt,
@@ -13,6 +13,7 @@
 
 import { callChatCompletion } from './chatCompletion'
 import { AI_MODELS } from './models'
+import { isAIConfigured } from './providers'
 import { SemanticCheckFamilyKey, WorldRule } from '@/lib/game/integrity/worldRules'
 
 // The catalogue is closed and lives in worldRules.ts; this is just the
@@ -71,8 +72,7 @@ export async function generateWorldRules(
   universe: string,
   loreDigest?: string
 ): Promise<GeneratedWorldRule[] | null> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return null
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return null
 
   const questions = Object.entries(FAMILY_QUESTIONS)
     .map(([key, question]) => `- "${key}": ${question}`)
@@ -98,7 +98,6 @@ One entry per question above, every time — a confident "false" (the normal-wor
 
   try {
     const result = await callChatCompletion({
-      apiKey,
       model: AI_MODELS.EFFICIENT,
       systemPrompt: 'You ground game-engine invariants in specific campaign fiction. JSON only. You never invent lore.',
       userPrompt: prompt,
@@ -190,7 +190,12 @@ export async function buildOptimizedWorldSummary(
     }),
     prisma.nPC.findMany({ where: { campaignId }, orderBy: { importance: 'desc' }, take: NPC_QUERY_BACKSTOP }),
     prisma.faction.findMany({ where: { campaignId }, orderBy: { threatLevel: 'desc' }, take: FACTION_QUERY_BACKSTOP }),
-    prisma.location.findMany({ where: { campaignId, isDiscovered: true } }),
+    // Hazards (hazardTick.ts): the plague or flood the tick says is there,
+    // so the GM narrates it rather than a town carrying on as normal.
+    prisma.location.findMany({
+      where: { campaignId, isDiscovered: true },
+      include: { hazards: { where: { status: 'ACTIVE' }, select: { type: true, severity: true } } }
+    }),
     prisma.clock.findMany({
       where: { campaignId, isHidden: false }
     }),
@@ -435,7 +440,12 @@ export async function buildWorldSummaryForAI(
     }),
     prisma.nPC.findMany({ where: { campaignId }, orderBy: { importance: 'desc' }, take: NPC_QUERY_BACKSTOP }),
     prisma.faction.findMany({ where: { campaignId }, orderBy: { threatLevel: 'desc' }, take: FACTION_QUERY_BACKSTOP }),
-    prisma.location.findMany({ where: { campaignId, isDiscovered: true } }),
+    // Hazards (hazardTick.ts): the plague or flood the tick says is there,
+    // so the GM narrates it rather than a town carrying on as normal.
+    prisma.location.findMany({
+      where: { campaignId, isDiscovered: true },
+      include: { hazards: { where: { status: 'ACTIVE' }, select: { type: true, severity: true } } }
+    }),
     prisma.clock.findMany({
       where: { campaignId, isHidden: false } // Only visible clocks for players
     }),
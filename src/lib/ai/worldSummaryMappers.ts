@@ -215,7 +215,10 @@ export function mapLocationsForPrompt(locations: any[], discoveredFactionIds: Se
     // Fog of war: null if the owner isn't discovered — territory doesn't
     // reveal a faction's existence just because it's mapped.
     owner_faction_id: l.ownerFactionId && discoveredFactionIds.has(l.ownerFactionId) ? l.ownerFactionId : null,
-    is_contested: l.isContested
+    is_contested: l.isContested,
+    // Hazards: plague, famine, wildfire or flood raging here right now,
+    // 1-5 severity. Narrate it; don't invent one the tick hasn't started.
+    hazards: (l.hazards ?? []).map((h: { type: string; severity: number }) => ({ type: h.type.toLowerCase(), severity: h.severity }))
   }))
 }
 
@@ -0,0 +1,89 @@
+// src/lib/api/__tests__/campaignPermissions.test.ts
+//
+// The matrix reads the way the roles are described: a co-host runs the
+// table but can't delete, bill or re-role; a spectator holds nothing but
+// membership; anything unknown holds nothing at all.
+
+import { describe, it, expect } from 'vitest'
+import {
+  can,
+  rolesWith,
+  isMembershipExpired,
+  CAMPAIGN_ROLES,
+  INVITABLE_ROLES,
+  type CampaignPermission,
+} from '../campaignPermissions'
+
+const ADMIN_ONLY: CampaignPermission[] = ['campaign.delete', 'campaign.billing', 'campaign.settings', 'members.manage']
+const GM: CampaignPermission[] = ['members.invite', 'scenes.run', 'world.edit', 'world.gmView', 'safety.manage']
+const PLAY: CampaignPermission[] = ['play.act', 'messages.whispers']
+
+describe('can', () => {
+  it('gives the admin everything', () => {
+    for (const permission of [...ADMIN_ONLY, ...GM, ...PLAY]) {
+      expect(can('ADMIN', permission)).toBe(true)
+    }
+  })
+
+  it('lets a co-host run the table but not own the campaign', () => {
+    for (const permission of [...GM, ...PLAY]) expect(can('CO_HOST', permission)).toBe(true)
+    for (const permission of ADMIN_ONLY) expect(can('CO_HOST', permission)).toBe(false)
+  })
+
+  it('lets players and guests play, and nothing more', () => {
+    for (const role of ['PLAYER', 'GUEST']) {
+      for (const permission of PLAY) expect(can(role, permission)).toBe(true)
+      for (const permission of [...ADMIN_ONLY, ...GM]) expect(can(role, permission)).toBe(false)
+    }
+  })
+
+  it('gives a spectator nothing beyond membership', () => {
+    for (const permission of [...ADMIN_ONLY, ...GM, ...PLAY]) {
+      expect(can('SPECTATOR', permission)).toBe(false)
+    }
+  })
+
+  it('fails closed on a missing or unknown role', () => {
+    expect(can(null, 'play.act')).toBe(false)
+    expect(can(undefined, 'play.act')).toBe(false)
+    expect(can('', 'play.act')).toBe(false)
+    expect(can('admin', 'scenes.run')).toBe(false)
+    expect(can('OWNER', 'campaign.delete')).toBe(false)
+  })
+})
+
+describe('rolesWith', () => {
+  it('agrees with can for every role', () => {
+    for (const permission of [...ADMIN_ONLY, ...GM, ...PLAY]) {
+      expect(rolesWith(permission)).toEqual(CAMPAIGN_ROLES.filter((role) => can(role, permission)))
+    }
+  })
+
+  it('returns a copy the caller may not use to edit the matrix', () => {
+    rolesWith('campaign.delete').push('SPECTATOR')
+    expect(can('SPECTATOR', 'campaign.delete')).toBe(false)
+  })
+})
+
+describe('INVITABLE_ROLES', () => {
+  it('never grants more than a player could do', () => {
+    for (const role of INVITABLE_ROLES) {
+      for (const permission of [...ADMIN_ONLY, ...GM]) expect(can(role, permission)).toBe(false)
+    }
+  })
+})
+
+describe('isMembershipExpired', () => {
+  const now = new Date('2026-08-27T12:00:00Z')
+
+  it('never expires a membership without an expiry', () => {
+    expect(isMembershipExpired({ expiresAt: null }, now)).toBe(false)
+    expect(isMembershipExpired({}, now)).toBe(false)
+  })
+
+  it('expires at the stamped time, from a Date or a serialized string', () => {
+    expect(isMembershipExpired({ expiresAt: new Date('2026-08-27T12:00:01Z') }, now)).toBe(false)
+    expect(isMembershipExpired({ expiresAt: '2026-08-27T12:00:00Z' }, now)).toBe(true)
+    expect(isMembershipExpired({ expiresAt: '2026-08-26T12:00:00Z' }, now)).toBe(true)
+  })
+})
@@ -0,0 +1,123 @@
+// src/lib/api/campaignPermissions.ts
+//
+// What each campaign role may do, as one table.
+//
+// Membership used to be ADMIN or PLAYER, and every route decided for
+// itself with `role !== UserRole.ADMIN` — which was fine while "not an
+// admin" meant exactly one thing. With a co-host (runs scenes and safety
+// tools, can't delete the campaign or touch billing), a spectator (follows
+// the story, never acts, never sees a whisper) and a time-boxed guest
+// player, "not an admin" stops being a useful question: a co-host must
+// pass the scene-running checks and fail the delete check, and a route
+// that still asks `=== ADMIN` silently locks them out of the job they were
+// given, while one that asks `!== PLAYER` silently lets a spectator act.
+//
+// So routes ask for a PERMISSION, never a role, and the answer lives in
+// the matrix below. Auditing "who can do X" is reading one row; adding a
+// role is adding one column and reading every row, instead of grepping
+// ~80 route files for string comparisons.
+//
+// Dependency-free (no Prisma import), like visibility.ts next to it, so
+// client components can hide a control with the same rule the route
+// enforces.
+
+/** Mirrors the Prisma `UserRole` enum. */
+export type CampaignMemberRole = 'ADMIN' | 'CO_HOST' | 'PLAYER' | 'GUEST' | 'SPECTATOR'
+
+export const CAMPAIGN_ROLES: readonly CampaignMemberRole[] = ['ADMIN', 'CO_HOST', 'PLAYER', 'GUEST', 'SPECTATOR']
+
+export type CampaignPermission =
+  /** Delete the campaign outright. */
+  | 'campaign.delete'
+  /** AI model and budget settings — what the campaign costs to run. */
+  | 'campaign.billing'
+  /** Title and settings, simulation settings, webhooks, forks, public chronicle links. */
+  | 'campaign.settings'
+  /** Change roles, remove and ban members, read the ban list. */
+  | 'members.manage'
+  /** Create invite links (never for a role above PLAYER). */
+  | 'members.invite'
+  /** Start, resolve, reset and review scenes; turn order; the world tick. */
+  | 'scenes.run'
+  /** Create and edit NPCs, factions, locations, clocks, lore and maps. */
+  | 'world.edit'
+  /** See through fog of war: hidden entities, gmNotes, exact stats, AI reasoning, audit logs. */
+  | 'world.gmView'
+  /** Safety settings, X-card review, member reports. */
+  | 'safety.manage'
+  /** Own a character, submit actions, ask the GM, chat and type. */
+  | 'play.act'
+  /** Send and receive whispers. */
+  | 'messages.whispers'
+
+const GM: readonly CampaignMemberRole[] = ['ADMIN', 'CO_HOST']
+const PARTICIPANTS: readonly CampaignMemberRole[] = ['ADMIN', 'CO_HOST', 'PLAYER', 'GUEST']
+
+/**
+ * The matrix. Reading down a row answers "who can do this"; there is no
+ * per-route exception anywhere else.
+ *
+ * Everything not listed — reading the story page, the chronicle, the wiki
+ * as players see it, notes, blocking someone, reporting someone — needs
+ * only membership, which every role has.
+ */
+const MATRIX: Record<CampaignPermission, readonly CampaignMemberRole[]> = {
+  'campaign.delete': ['ADMIN'],
+  'campaign.billing': ['ADMIN'],
+  'campaign.settings': ['ADMIN'],
+  'members.manage': ['ADMIN'],
+  'members.invite': GM,
+  'scenes.run': GM,
+  'world.edit': GM,
+  'world.gmView': GM,
+  'safety.manage': GM,
+  'play.act': PARTICIPANTS,
+  'messages.whispers': PARTICIPANTS,
+}
+
+/**
+ * Whether a member with this role holds this permission. An unknown,
+ * missing or malformed role holds nothing — the same fail-closed default
+ * as visibleTo.
+ */
+export function can(role: string | null | undefined, permission: CampaignPermission): boolean {
+  if (!role) return false
+  return (MATRIX[permission] as readonly string[]).includes(role)
+}
+
+/**
+ * The roles that hold a permission, for the queries that filter by role
+ * inside the `where` ("notify whoever runs this campaign's safety tools"):
+ *
+ *     where: { campaignId, role: { in: rolesWith('safety.manage') } }
+ */
+export function rolesWith(permission: CampaignPermission): CampaignMemberRole[] {
+  return [...MATRIX[permission]]
+}
+
+/** Roles an invite link may grant. CO_HOST and ADMIN are promotions, never links. */
+export const INVITABLE_ROLES: readonly CampaignMemberRole[] = ['PLAYER', 'GUEST', 'SPECTATOR']
+
+/** Longest a guest invite may run, in hours — a one-shot, not a back door. */
+export const MAX_GUEST_HOURS = 24 * 14
+
+/** Human labels, shared by the member list and the invite form. */
+export const CAMPAIGN_ROLE_LABELS: Record<CampaignMemberRole, string> = {
+  ADMIN: 'Admin',
+  CO_HOST: 'Co-host',
+  PLAYER: 'Player',
+  GUEST: 'Guest',
+  SPECTATOR: 'Spectator',
+}
+
+/**
+ * Whether a membership has run out. Only guests carry an expiry; every
+ * other membership has `expiresAt: null` and never expires.
+ */
+export function isMembershipExpired(
+  membership: { expiresAt?: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  if (!membership.expiresAt) return false
+  return new Date(membership.expiresAt).getTime() <= now.getTime()
+}
@@ -27,12 +27,15 @@
 // vocabulary without dragging the database client into the browser bundle —
 // the same split as worldStateChanges.ts and campaignHealthBands.ts.
 
+import { can } from './campaignPermissions'
+
 /** The models whose rows are hidden from players until revealed. */
 export type FogGatedModel = 'npc' | 'faction' | 'location' | 'clock'
 
 /**
- * Membership roles as stored on CampaignMembership. Only ADMIN sees
- * through the fog; every other role, and no role at all, does not.
+ * Membership roles as stored on CampaignMembership. Only the roles holding
+ * `world.gmView` (campaignPermissions.ts — ADMIN and CO_HOST) see through
+ * the fog; every other role, and no role at all, does not.
  */
 export type CampaignRole = string | null | undefined
 
@@ -49,14 +52,19 @@ const FOG_COLUMN: Record<FogGatedModel, { column: string; visibleValue: boolean
   clock: { column: 'isHidden', visibleValue: false },
 }
 
-export function isCampaignAdmin(role: CampaignRole): boolean {
-  return role === 'ADMIN'
+/**
+ * Whether this role sees the GM's view of the world. Was `isCampaignAdmin`
+ * (`role === 'ADMIN'`) until co-hosts, who run the same scenes and so need
+ * the same view without being admins.
+ */
+export function seesGmView(role: CampaignRole): boolean {
+  return can(role, 'world.gmView')
 }
 
 /**
  * The `where` fragment that limits a query to what this role may see.
  *
- * Returns `{}` for an admin — deliberately an empty fragment rather than a
+ * Returns `{}` for a GM (admin or co-host) — deliberately an empty fragment rather than a
  * separate code path, so a caller spreads it unconditionally and cannot
  * forget the non-admin branch:
  *
@@ -67,7 +75,7 @@ export function isCampaignAdmin(role: CampaignRole): boolean {
  * from being written backwards.
  */
 export function visibleTo(model: FogGatedModel, role: CampaignRole): Record<string, boolean> {
-  if (isCampaignAdmin(role)) return {}
+  if (seesGmView(role)) return {}
 
   const gate = FOG_COLUMN[model]
   // An unrecognised model is a programming error, and the safe response to
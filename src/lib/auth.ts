@@ -39,8 +39,22 @@ export interface TokenPayload {
    * the version check, but no longer skips the user-exists check with it).
    */
   tokenVersion?: number
+  /**
+   * The UserSession row this token belongs to — what lets one device be
+   * signed out without the rest. Optional for the same reason as
+   * tokenVersion: tokens minted before sessions existed carry none and keep
+   * working until they expire or "sign out everywhere" ends them.
+   */
+  sessionId?: string
 }
 
+/**
+ * How stale a session's lastSeenAt may get before a request refreshes it.
+ * The device list reads in minutes, and a write on every request would put
+ * one on every request.
+ */
+export const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000
+
 /**
  * Create a JWT token for a user
  * @param payload - User info to encode
@@ -58,10 +72,17 @@ export function createToken(payload: TokenPayload): string {
  * Signature and expiry only — deliberately synchronous and DB-free, so it
  * stays usable anywhere. Revocation is a separate, asynchronous question:
  * see isTokenRevoked, which the request-level helpers below apply.
+ *
+ * A token carrying a `purpose` is not a session, whatever else it says:
+ * the two-factor challenge (lib/auth/twoFactor.ts) is signed with the same
+ * secret and names a userId, and accepting it here would make the password
+ * alone enough to sign in.
  */
 export function verifyToken(token: string): TokenPayload | null {
   try {
-    return jwt.verify(token, getJwtSecret()) as TokenPayload
+    const payload = jwt.verify(token, getJwtSecret()) as TokenPayload & { purpose?: unknown }
+    if (payload.purpose !== undefined) return null
+    return payload
   } catch (error) {
     return null
   }
@@ -77,9 +98,11 @@ export function verifyToken(token: string): TokenPayload | null {
  *
  * Two distinct reasons to refuse, and the difference between them matters:
  *
- *  1. **The version was bumped.** Once "log out everywhere" or a password
- *     reset raises User.tokenVersion, every token minted before it is
- *     refused on its next request.
+ *  1. **The version was bumped, or the session is gone.** Once "log out
+ *     everywhere" or a password reset raises User.tokenVersion, every token
+ *     minted before it is refused on its next request; once one device is
+ *     signed out its UserSession row is deleted, and the token naming that
+ *     row is refused the same way.
  *  2. **The user does not exist.** A signed token outlives the row it
  *     names — an account deleted and recreated, restored from a different
  *     database, or otherwise replaced. The signature still verifies, so
@@ -111,7 +134,9 @@ export function verifyToken(token: string): TokenPayload | null {
  * revocation still pass on the VERSION question — rejecting those would
  * log out every current session on deploy — they just no longer skip the
  * existence question with it. Cost is one primary-key lookup on requests
- * that already needed the database for whatever they were doing.
+ * that already needed the database for whatever they were doing — the
+ * session row rides along in the same query — plus, every
+ * SESSION_TOUCH_INTERVAL_MS, a fire-and-forget lastSeenAt write.
  */
 export async function isTokenRevoked(payload: TokenPayload | null): Promise<boolean> {
   if (!payload?.userId) return false
@@ -120,12 +145,28 @@ export async function isTokenRevoked(payload: TokenPayload | null): Promise<bool
     const { prisma } = await import('@/lib/prisma')
     const user = await prisma.user.findUnique({
       where: { id: payload.userId },
-      select: { tokenVersion: true },
+      select: {
+        tokenVersion: true,
+        ...(payload.sessionId
+          ? { sessions: { where: { id: payload.sessionId }, select: { id: true, lastSeenAt: true } } }
+          : {}),
+      },
     })
 
     // Query succeeded, no such user — positive evidence, refuse.
     if (!user) return true
 
+    if (payload.sessionId) {
+      const session = (user as { sessions?: { id: string; lastSeenAt: Date }[] }).sessions?.[0]
+      // Same evidence rule as the user row: read successfully, not there.
+      if (!session) return true
+      if (Date.now() - new Date(session.lastSeenAt).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+        prisma.userSession
+          .update({ where: { id: session.id }, data: { lastSeenAt: new Date() } })
+          .catch(() => {})
+      }
+    }
+
     // Tokens predating session revocation carry no version; nothing to
     // compare, and the user demonstrably exists.
     if (typeof payload.tokenVersion !== 'number') return false
@@ -144,6 +185,9 @@ export async function isTokenRevoked(payload: TokenPayload | null): Promise<bool
  *
  * The endpoint behind "log out everywhere", and what a password reset
  * should call — a reset that leaves stolen sessions alive is not a reset.
+ *
+ * The version bump is what does it; the session rows are deleted after so
+ * the device list stops showing devices that can no longer get in.
  */
 export async function revokeAllSessions(userId: string): Promise<number> {
   const { prisma } = await import('@/lib/prisma')
@@ -152,6 +196,7 @@ export async function revokeAllSessions(userId: string): Promise<number> {
     data: { tokenVersion: { increment: 1 } },
     select: { tokenVersion: true },
   })
+  await prisma.userSession.deleteMany({ where: { userId } })
   return user.tokenVersion
 }
 
@@ -0,0 +1,211 @@
+// @vitest-environment node
+// src/lib/auth/__tests__/oidc.test.ts
+// The authorization-code flow run for real against the local provider
+// (localIdp.ts): discovery, the authorize redirect, the code exchange with
+// PKCE, and every check that ties the answer to this flow. Runs under node
+// rather than happy-dom for the same reason as the webhook delivery tests:
+// happy-dom's fetch applies browser CORS rules a server never meets.
+
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest'
+import { verifyToken } from '@/lib/auth'
+import {
+  buildAuthorizationUrl,
+  clearOidcDiscoveryCache,
+  completeOidcFlow,
+  createOidcFlow,
+  createOidcHandoff,
+  getOidcProvider,
+  getOidcProviders,
+  OidcError,
+  readOidcFlow,
+  readOidcHandoff,
+  resolveEndpoints,
+  type OidcProviderConfig,
+} from '../oidc'
+import { startLocalIdp, type LocalIdp, type LocalIdpOptions } from '../localIdp'
+
+const CLIENT = { clientId: 'mythos-test', clientSecret: 'mythos-test-secret' }
+let idp: LocalIdp | null = null
+
+beforeEach(() => {
+  vi.stubEnv('JWT_SECRET', 'test-secret-for-oidc-tests')
+  vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://mythos.example')
+  clearOidcDiscoveryCache()
+})
+
+afterEach(async () => {
+  await idp?.close()
+  idp = null
+  vi.unstubAllEnvs()
+})
+
+async function startIdp(overrides: Partial<LocalIdpOptions> = {}) {
+  idp = await startLocalIdp({
+    ...CLIENT,
+    user: { sub: 'idp-user-1', email: 'Ada@Example.com', email_verified: true, name: 'Ada' },
+    ...overrides,
+  })
+  return idp
+}
+
+function configure(id: string, vars: Record<string, string>) {
+  const key = `OIDC_${id.toUpperCase()}_`
+  return getOidcProvider(id, {
+    OIDC_PROVIDERS: id,
+    [`${key}CLIENT_ID`]: CLIENT.clientId,
+    [`${key}CLIENT_SECRET`]: CLIENT.clientSecret,
+    ...Object.fromEntries(Object.entries(vars).map(([name, value]) => [`${key}${name}`, value])),
+  }) as OidcProviderConfig
+}
+
+/** Drive the browser's half: follow the authorize URL to the callback and pull the code out. */
+async function authorize(provider: OidcProviderConfig, returnTo: string | null = null) {
+  const { flow } = createOidcFlow(provider.id, returnTo)
+  const url = buildAuthorizationUrl(provider, await resolveEndpoints(provider), flow)
+  const response = await fetch(url, { redirect: 'manual' })
+  const callback = new URL(response.headers.get('location') as string)
+  expect(callback.origin + callback.pathname).toBe(`https://mythos.example/api/auth/oidc/${provider.id}/callback`)
+  expect(callback.searchParams.get('state')).toBe(flow.state)
+  return { flow, code: callback.searchParams.get('code') as string }
+}
+
+describe('configuration', () => {
+  it('reads providers in OIDC_PROVIDERS order, filling presets', () => {
+    const providers = getOidcProviders({
+      OIDC_PROVIDERS: 'discord, keycloak',
+      OIDC_DISCORD_CLIENT_ID: 'd',
+      OIDC_DISCORD_CLIENT_SECRET: 'ds',
+      OIDC_KEYCLOAK_CLIENT_ID: 'k',
+      OIDC_KEYCLOAK_CLIENT_SECRET: 'ks',
+      OIDC_KEYCLOAK_ISSUER: 'https://sso.example/realms/mythos/',
+      OIDC_KEYCLOAK_NAME: 'Guild SSO',
+    })
+    expect(providers.map((p) => [p.id, p.name])).toEqual([['discord', 'Discord'], ['keycloak', 'Guild SSO']])
+    expect(providers[0].tokenUrl).toBe('https://discord.com/api/oauth2/token')
+    expect(providers[1].issuer).toBe('https://sso.example/realms/mythos')
+  })
+
+  it('leaves off a provider missing its secret or any way to find its endpoints', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(getOidcProviders({ OIDC_PROVIDERS: 'google', OIDC_GOOGLE_CLIENT_ID: 'g' })).toEqual([])
+    expect(getOidcProviders({ OIDC_PROVIDERS: 'custom', OIDC_CUSTOM_CLIENT_ID: 'c', OIDC_CUSTOM_CLIENT_SECRET: 's' })).toEqual([])
+    expect(getOidcProviders({})).toEqual([])
+  })
+})
+
+describe('the flow cookie and the handoff', () => {
+  it('round-trips the flow, and keeps only an in-app returnTo', () => {
+    const { flow, cookie } = createOidcFlow('google', '/campaigns/c1')
+    expect(readOidcFlow(cookie)).toEqual(flow)
+    expect(createOidcFlow('google', 'https://evil.example').flow.returnTo).toBeNull()
+    expect(createOidcFlow('google', '//evil.example').flow.returnTo).toBeNull()
+  })
+
+  it('refuses a tampered flow cookie, and a handoff passed off as one', () => {
+    const { cookie } = createOidcFlow('google', null)
+    expect(readOidcFlow(cookie + 'x')).toBeNull()
+    expect(readOidcFlow(createOidcHandoff({ id: 'u1', tokenVersion: 0 }))).toBeNull()
+    expect(readOidcFlow(undefined)).toBeNull()
+  })
+
+  it('a handoff names the user but is not a session token', () => {
+    const handoff = createOidcHandoff({ id: 'u1', tokenVersion: 4 })
+    expect(readOidcHandoff(handoff)).toEqual({ userId: 'u1', tokenVersion: 4 })
+    expect(verifyToken(handoff)).toBeNull()
+  })
+})
+
+describe('against a local provider', () => {
+  it('signs in through discovery, PKCE and the id_token', async () => {
+    const server = await startIdp()
+    const provider = configure('mock', { ISSUER: server.issuer })
+    const { flow, code } = await authorize(provider)
+
+    const identity = await completeOidcFlow(provider, flow, code)
+
+    expect(identity).toEqual({
+      provider: 'mock',
+      subject: 'idp-user-1',
+      email: 'ada@example.com',
+      emailVerified: true,
+      name: 'Ada',
+    })
+    expect(server.tokenRequests[0]).toMatchObject({
+      grant_type: 'authorization_code',
+      code_verifier: flow.codeVerifier,
+      redirect_uri: 'https://mythos.example/api/auth/oidc/mock/callback',
+    })
+  })
+
+  it('fills a missing email from userinfo', async () => {
+    const server = await startIdp({ minimalIdToken: true })
+    const provider = configure('mock', { ISSUER: server.issuer })
+    const { flow, code } = await authorize(provider)
+
+    expect(await completeOidcFlow(provider, flow, code)).toMatchObject({ subject: 'idp-user-1', email: 'ada@example.com' })
+  })
+
+  it('maps a Discord-shaped user from userinfo when there is no id_token', async () => {
+    const server = await startIdp({
+      omitIdToken: true,
+      user: { id: '80351110224678912', email: 'nelly@discord.example', verified: true, username: 'nelly' } as never,
+    })
+    const provider = configure('discord', {
+      AUTHORIZATION_URL: `${server.issuer}/authorize`,
+      TOKEN_URL: `${server.issuer}/token`,
+      USERINFO_URL: `${server.issuer}/userinfo`,
+    })
+    const { flow, code } = await authorize(provider)
+
+    expect(await completeOidcFlow(provider, flow, code)).toEqual({
+      provider: 'discord',
+      subject: '80351110224678912',
+      email: 'nelly@discord.example',
+      emailVerified: true,
+      name: 'nelly',
+    })
+  })
+
+  it('reports an unverified email as unverified', async () => {
+    const server = await startIdp({ user: { sub: 's', email: 'x@example.com', email_verified: false } })
+    const provider = configure('mock', { ISSUER: server.issuer })
+    const { flow, code } = await authorize(provider)
+    expect((await completeOidcFlow(provider, flow, code)).emailVerified).toBe(false)
+  })
+
+  it('refuses an id_token minted for another flow (nonce)', async () => {
+    const server = await startIdp()
+    const provider = configure('mock', { ISSUER: server.issuer })
+    const { flow, code } = await authorize(provider)
+    await expect(completeOidcFlow(provider, { ...flow, nonce: 'someone-elses' }, code)).rejects.toThrow('nonce')
+  })
+
+  it('refuses an id_token for another client, or from another issuer', async () => {
+    const server = await startIdp()
+    const provider = configure('mock', { ISSUER: server.issuer })
+    const now = Math.floor(Date.now() / 1000)
+
+    let { flow, code } = await authorize(provider)
+    server.overrideIdTokenClaims = { iss: server.issuer, aud: 'another-app', exp: now + 60, nonce: flow.nonce, sub: 's' }
+    await expect(completeOidcFlow(provider, flow, code)).rejects.toThrow('audience')
+
+    ;({ flow, code } = await authorize(provider))
+    server.overrideIdTokenClaims = { iss: 'https://elsewhere.example', aud: CLIENT.clientId, exp: now + 60, nonce: flow.nonce, sub: 's' }
+    await expect(completeOidcFlow(provider, flow, code)).rejects.toBeInstanceOf(OidcError)
+  })
+
+  it('fails the exchange without the PKCE verifier that made the challenge', async () => {
+    const server = await startIdp()
+    const provider = configure('mock', { ISSUER: server.issuer })
+    const { flow, code } = await authorize(provider)
+    await expect(completeOidcFlow(provider, { ...flow, codeVerifier: 'guessed' }, code)).rejects.toThrow('HTTP 400')
+  })
+
+  it('fails a code used twice', async () => {
+    const server = await startIdp()
+    const provider = configure('mock', { ISSUER: server.issuer })
+    const { flow, code } = await authorize(provider)
+    await completeOidcFlow(provider, flow, code)
+    await expect(completeOidcFlow(provider, flow, code)).rejects.toThrow('HTTP 400')
+  })
+})
@@ -0,0 +1,112 @@
+// src/lib/auth/__tests__/oidcAccounts.test.ts
+// Which account a provider sign-in lands in — and, as much as that, which
+// it must never land in.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    userIdentity: { findUnique: vi.fn(), create: vi.fn() },
+    user: { findUnique: vi.fn(), update: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}))
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/analytics/events', () => ({ recordEvent: vi.fn() }))
+vi.mock('@/lib/payment/service', () => ({ WELCOME_CREDIT_CENTS: 100, addFunds: vi.fn() }))
+
+import { recordEvent } from '@/lib/analytics/events'
+import { addFunds } from '@/lib/payment/service'
+import { resolveOidcUser } from '../oidcAccounts'
+import type { OidcIdentity } from '../oidc'
+
+const IDENTITY: OidcIdentity = { provider: 'discord', subject: '8035', email: 'ada@example.com', emailVerified: true, name: 'Ada' }
+const USER = { id: 'u1', email: 'ada@example.com', tokenVersion: 0 }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  db.userIdentity.findUnique.mockResolvedValue(null)
+  db.user.findUnique.mockResolvedValue(null)
+  db.user.create.mockResolvedValue(USER)
+  db.userIdentity.create.mockReturnValue('identity-create')
+  db.user.update.mockImplementation((args: unknown) => ({ update: args }))
+  db.$transaction.mockImplementation(async () => [{}, USER])
+})
+
+describe('resolveOidcUser', () => {
+  it('signs a linked identity in as its user, whatever email it now reports', async () => {
+    db.userIdentity.findUnique.mockResolvedValue({ user: USER })
+    const result = await resolveOidcUser({ ...IDENTITY, email: 'changed@example.com', emailVerified: false })
+    expect(result).toEqual({ ok: true, user: USER, outcome: 'signed-in' })
+    expect(db.userIdentity.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { provider_subject: { provider: 'discord', subject: '8035' } },
+    }))
+    expect(db.user.findUnique).not.toHaveBeenCalled()
+  })
+
+  it('refuses an unverified email rather than link or create on it', async () => {
+    db.user.findUnique.mockResolvedValue({ id: 'victim', emailVerified: true })
+    expect(await resolveOidcUser({ ...IDENTITY, emailVerified: false })).toEqual({ ok: false, reason: 'unverified-email' })
+    expect(db.$transaction).not.toHaveBeenCalled()
+    expect(db.user.create).not.toHaveBeenCalled()
+  })
+
+  it('refuses a provider that gave no email', async () => {
+    expect(await resolveOidcUser({ ...IDENTITY, email: null })).toEqual({ ok: false, reason: 'no-email' })
+  })
+
+  it('links a verified email to the existing verified account, touching nothing else', async () => {
+    db.user.findUnique.mockResolvedValue({ id: 'u1', emailVerified: true })
+    const result = await resolveOidcUser(IDENTITY)
+
+    expect(result).toEqual({ ok: true, user: USER, outcome: 'linked' })
+    expect(db.userIdentity.create).toHaveBeenCalledWith({
+      data: { userId: 'u1', provider: 'discord', subject: '8035', email: 'ada@example.com' },
+    })
+    expect(db.user.update.mock.calls[0][0].data).toEqual({})
+  })
+
+  it('linking into a never-verified account drops its password, 2FA and sessions', async () => {
+    db.user.findUnique.mockResolvedValue({ id: 'u1', emailVerified: false })
+    await resolveOidcUser(IDENTITY)
+
+    expect(db.user.update.mock.calls[0][0].data).toMatchObject({
+      emailVerified: true,
+      password: null,
+      totpEnabledAt: null,
+      totpSecret: null,
+      tokenVersion: { increment: 1 },
+      sessions: { deleteMany: {} },
+    })
+  })
+
+  it('creates a passwordless, verified account for a new email, with the welcome credit', async () => {
+    const result = await resolveOidcUser(IDENTITY)
+
+    expect(result).toEqual({ ok: true, user: USER, outcome: 'created' })
+    expect(db.user.create.mock.calls[0][0].data).toEqual({
+      email: 'ada@example.com',
+      password: null,
+      name: 'Ada',
+      emailVerified: true,
+      identities: { create: { provider: 'discord', subject: '8035', email: 'ada@example.com' } },
+    })
+    expect(addFunds).toHaveBeenCalledWith('u1', 100, expect.any(String))
+    expect(recordEvent).toHaveBeenCalledWith('SIGNUP', { userId: 'u1', metadata: { provider: 'discord' } })
+  })
+
+  it('still signs in when the welcome credit fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    ;(addFunds as any).mockRejectedValue(new Error('payment service down'))
+    expect((await resolveOidcUser(IDENTITY)).ok).toBe(true)
+  })
+
+  it('a first sign-in that loses a race lands in the account the winner made', async () => {
+    db.user.create.mockRejectedValue(new Prisma.PrismaClientKnownRequestError('dup', { code: 'P2002', clientVersion: 'x' }))
+    db.userIdentity.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ user: USER })
+
+    expect(await resolveOidcUser(IDENTITY)).toEqual({ ok: true, user: USER, outcome: 'signed-in' })
+    expect(addFunds).not.toHaveBeenCalled()
+  })
+})
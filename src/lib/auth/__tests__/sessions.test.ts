@@ -0,0 +1,68 @@
+// src/lib/auth/__tests__/sessions.test.ts
+//
+// Every token handed out names a row that exists; the list is the caller's
+// own devices; revoking is scoped to the caller in the query itself.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const { db } = vi.hoisted(() => ({
+  db: { userSession: { create: vi.fn(), findMany: vi.fn(), deleteMany: vi.fn() } },
+}))
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import { verifyToken } from '@/lib/auth'
+import { listSessions, revokeSession, startSession } from '../sessions'
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env.JWT_SECRET = 'test-secret-for-session-tests'
+  db.userSession.create.mockResolvedValue({ id: 'sess1' })
+  db.userSession.deleteMany.mockResolvedValue({ count: 1 })
+})
+
+describe('startSession', () => {
+  it('records the device and mints a token naming its row', async () => {
+    const request = new NextRequest('http://localhost/api/auth/login', {
+      headers: { 'user-agent': 'Mozilla/5.0 Firefox', 'x-forwarded-for': '203.0.113.7, 10.0.0.1' },
+    })
+    const token = await startSession({ id: 'u1', email: 'a@example.com', tokenVersion: 2 }, request)
+
+    expect(db.userSession.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { userId: 'u1', userAgent: 'Mozilla/5.0 Firefox', ip: '203.0.113.7' },
+    }))
+    expect(verifyToken(token)).toMatchObject({ userId: 'u1', tokenVersion: 2, sessionId: 'sess1' })
+  })
+
+  it('stores nothing for an IP or user agent it was not given', async () => {
+    await startSession({ id: 'u1', email: 'a@example.com', tokenVersion: 0 }, new NextRequest('http://localhost/x'))
+    expect(db.userSession.create.mock.calls[0][0].data).toMatchObject({ userAgent: null, ip: null })
+  })
+})
+
+describe('listSessions', () => {
+  it('drops expired rows, then marks which session is asking', async () => {
+    const seen = new Date()
+    db.userSession.findMany.mockResolvedValue([
+      { id: 'sess1', userAgent: 'A', ip: null, createdAt: seen, lastSeenAt: seen },
+      { id: 'sess2', userAgent: 'B', ip: null, createdAt: seen, lastSeenAt: seen },
+    ])
+    const sessions = await listSessions('u1', 'sess2')
+
+    expect(db.userSession.deleteMany.mock.calls[0][0].where).toMatchObject({ userId: 'u1', createdAt: { lt: expect.any(Date) } })
+    expect(db.userSession.findMany.mock.calls[0][0].where).toEqual({ userId: 'u1' })
+    expect(sessions.map((s) => [s.id, s.current])).toEqual([['sess1', false], ['sess2', true]])
+  })
+})
+
+describe('revokeSession', () => {
+  it('deletes only a session the caller owns', async () => {
+    expect(await revokeSession('u1', 'sess1')).toBe(true)
+    expect(db.userSession.deleteMany).toHaveBeenCalledWith({ where: { id: 'sess1', userId: 'u1' } })
+  })
+
+  it('reports nothing deleted for a session that is not theirs', async () => {
+    db.userSession.deleteMany.mockResolvedValue({ count: 0 })
+    expect(await revokeSession('u1', 'someone-elses')).toBe(false)
+  })
+})
@@ -0,0 +1,85 @@
+// src/lib/auth/__tests__/totp.test.ts
+//
+// Pinned to RFC 6238's own test vectors (Appendix B, SHA-1), truncated to
+// the six digits authenticator apps show — if these pass, any authenticator
+// agrees with us.
+
+import { describe, it, expect } from 'vitest'
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  matchTotpStep,
+  totpAuthUri,
+  totpCode,
+  totpStep,
+} from '../totp'
+
+// The RFC's SHA-1 key, "12345678901234567890" in ASCII.
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+describe('base32', () => {
+  it('round-trips bytes, and reads the key the RFC uses', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+    const bytes = Buffer.from([0, 1, 2, 250, 255, 17, 42])
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+  })
+
+  it('accepts a secret as someone might type it', () => {
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==')).toEqual(Buffer.from('12345678901234567890'))
+  })
+
+  it('throws on a character outside the alphabet', () => {
+    expect(() => base32Decode('GEZ1')).toThrow()
+  })
+})
+
+describe('totpCode', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ])('matches RFC 6238 at T=%i', (seconds, code) => {
+    expect(totpCode(RFC_SECRET, totpStep(seconds * 1000))).toBe(code)
+  })
+})
+
+describe('matchTotpStep', () => {
+  const now = 1234567890 * 1000
+  const step = totpStep(now)
+
+  it('returns the step of a current code', () => {
+    expect(matchTotpStep(RFC_SECRET, '005924', now)).toBe(step)
+  })
+
+  it('takes one step of drift either way, and no more', () => {
+    expect(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1)
+    expect(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1)
+    expect(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull()
+    expect(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now)).toBeNull()
+  })
+
+  it('ignores spaces and refuses anything that is not six digits', () => {
+    expect(matchTotpStep(RFC_SECRET, '005 924', now)).toBe(step)
+    for (const junk of ['', '5924', '0059244', 'abcdef', '00592a']) {
+      expect(matchTotpStep(RFC_SECRET, junk, now), junk).toBeNull()
+    }
+  })
+})
+
+describe('generateTotpSecret / totpAuthUri', () => {
+  it('makes a 160-bit secret that differs every time', () => {
+    const a = generateTotpSecret()
+    expect(base32Decode(a)).toHaveLength(20)
+    expect(generateTotpSecret()).not.toBe(a)
+  })
+
+  it('builds a URI an authenticator app can import', () => {
+    expect(totpAuthUri('ABC', 'a+b@example.com')).toBe(
+      'otpauth://totp/MythOS%3Aa%2Bb%40example.com?secret=ABC&issuer=MythOS'
+    )
+  })
+})
@@ -0,0 +1,108 @@
+// src/lib/auth/__tests__/twoFactor.test.ts
+//
+// The challenge proves the password and nothing else; a second factor is
+// good once; recovery codes are struck off rather than re-checked.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { db } = vi.hoisted(() => ({
+  db: { user: { updateMany: vi.fn() }, $executeRaw: vi.fn() },
+}))
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import { verifyToken } from '@/lib/auth'
+import { base32Encode, totpCode, totpStep } from '../totp'
+import {
+  consumeSecondFactor,
+  createTwoFactorChallenge,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  readTwoFactorChallenge,
+  RECOVERY_CODE_COUNT,
+} from '../twoFactor'
+
+const SECRET = base32Encode(Buffer.from('12345678901234567890'))
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  process.env.JWT_SECRET = 'test-secret-for-2fa-tests'
+  db.user.updateMany.mockResolvedValue({ count: 1 })
+  db.$executeRaw.mockResolvedValue(1)
+})
+
+describe('the login challenge', () => {
+  it('names the user and the tokenVersion it was issued at', () => {
+    const challenge = createTwoFactorChallenge({ id: 'u1', tokenVersion: 3 })
+    expect(readTwoFactorChallenge(challenge)).toEqual({ userId: 'u1', tokenVersion: 3 })
+  })
+
+  it('is not a session token', () => {
+    // The failure this guards: same secret, a userId inside — without the
+    // purpose check, the password alone would sign you in.
+    expect(verifyToken(createTwoFactorChallenge({ id: 'u1', tokenVersion: 0 }))).toBeNull()
+  })
+
+  it('refuses junk and tampering', () => {
+    const challenge = createTwoFactorChallenge({ id: 'u1', tokenVersion: 0 })
+    expect(readTwoFactorChallenge(challenge + 'x')).toBeNull()
+    expect(readTwoFactorChallenge('not-a-token')).toBeNull()
+  })
+})
+
+describe('recovery codes', () => {
+  it('makes a full set of distinct codes, stored only as hashes', () => {
+    const { codes, hashes } = generateRecoveryCodes()
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT)
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT)
+    expect(hashes).toEqual(codes.map(hashRecoveryCode))
+    expect(hashes.some((h, i) => h.includes(codes[i]))).toBe(false)
+  })
+
+  it('hashes a code the same however it is typed', () => {
+    expect(hashRecoveryCode(' AB12C-3D4E5 ')).toBe(hashRecoveryCode('ab12c3d4e5'))
+  })
+})
+
+describe('consumeSecondFactor', () => {
+  const now = Date.now()
+  const user = { id: 'u1', totpSecret: SECRET, totpLastUsedStep: null as number | null }
+
+  it('accepts a current code and records its step as used', async () => {
+    expect(await consumeSecondFactor(user, { code: totpCode(SECRET, totpStep(now)) })).toBe('totp')
+    const call = db.user.updateMany.mock.calls[0][0]
+    expect(call.data.totpLastUsedStep).toBeGreaterThanOrEqual(totpStep(now))
+    // The write is conditional on the step still being newer.
+    expect(call.where).toMatchObject({ id: 'u1' })
+    expect(call.where.OR).toBeDefined()
+  })
+
+  it('refuses a code at or below the last step used', async () => {
+    const step = totpStep(now)
+    expect(await consumeSecondFactor({ ...user, totpLastUsedStep: step + 1 }, { code: totpCode(SECRET, step) })).toBeNull()
+    expect(db.user.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('refuses a code another request consumed first', async () => {
+    db.user.updateMany.mockResolvedValue({ count: 0 })
+    expect(await consumeSecondFactor(user, { code: totpCode(SECRET, totpStep(now)) })).toBeNull()
+  })
+
+  it('refuses a wrong code without writing', async () => {
+    const wrong = totpCode(SECRET, totpStep(now) + 10)
+    expect(await consumeSecondFactor(user, { code: wrong })).toBeNull()
+    expect(db.user.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('strikes a recovery code off the list, and refuses it once it is gone', async () => {
+    expect(await consumeSecondFactor(user, { recoveryCode: 'ab12c-3d4e5' })).toBe('recovery')
+    expect(db.$executeRaw).toHaveBeenCalledTimes(1)
+    db.$executeRaw.mockResolvedValue(0)
+    expect(await consumeSecondFactor(user, { recoveryCode: 'ab12c-3d4e5' })).toBeNull()
+  })
+
+  it('refuses nothing at all, and non-string input', async () => {
+    expect(await consumeSecondFactor(user, {})).toBeNull()
+    expect(await consumeSecondFactor(user, { code: 123456 })).toBeNull()
+    expect(await consumeSecondFactor({ ...user, totpSecret: null }, { code: '123456' })).toBeNull()
+  })
+})
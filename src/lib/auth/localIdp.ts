@@ -0,0 +1,168 @@
+// src/lib/auth/localIdp.ts
+// A throwaway OpenID Connect provider — the other end of oidc.ts, for
+// testing sign-in without a Google project or a Discord application. It
+// approves every authorization request at once as one configured person,
+// and otherwise behaves like a strict provider: the code is single-use and
+// bound to its redirect URI, the client secret is checked, and the PKCE
+// verifier has to match the challenge. The OIDC tests run the real flow
+// against it, and scripts/mock-idp.ts wraps it for signing in on a local
+// dev server.
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import { createHash, randomBytes } from 'crypto'
+import jwt from 'jsonwebtoken'
+
+export interface LocalIdpUser {
+  sub: string
+  email?: string
+  email_verified?: boolean
+  name?: string
+}
+
+export interface LocalIdpOptions {
+  clientId: string
+  clientSecret: string
+  /** Who every sign-in is. Mutable through the returned handle between flows. */
+  user: LocalIdpUser
+  /**
+   * Leave the id_token out of the token response, like a plain OAuth 2.0
+   * provider (Discord) — the client must read the userinfo endpoint.
+   */
+  omitIdToken?: boolean
+  /** Put only `sub` in the id_token, so the email has to come from userinfo. */
+  minimalIdToken?: boolean
+  port?: number
+  host?: string
+}
+
+export interface LocalIdp {
+  /** The issuer: discovery lives at `${issuer}/.well-known/openid-configuration`. */
+  issuer: string
+  user: LocalIdpUser
+  /** Every token-endpoint request's form body, in order. */
+  tokenRequests: Record<string, string>[]
+  /** Replace the next id_token's claims wholesale (nonce, aud, iss tampering). */
+  overrideIdTokenClaims: Record<string, unknown> | null
+  close(): Promise<void>
+}
+
+interface PendingCode {
+  redirectUri: string
+  nonce: string | null
+  codeChallenge: string | null
+}
+
+export async function startLocalIdp(options: LocalIdpOptions): Promise<LocalIdp> {
+  const { clientId, clientSecret, port = 0, host = '127.0.0.1' } = options
+  const codes = new Map<string, PendingCode>()
+  const accessTokens = new Set<string>()
+  let issuer = ''
+
+  const json = (response: ServerResponse, status: number, body: unknown) => {
+    response.statusCode = status
+    response.setHeader('Content-Type', 'application/json')
+    response.end(JSON.stringify(body))
+  }
+
+  const readBody = (request: IncomingMessage) =>
+    new Promise<string>((resolve) => {
+      const chunks: Buffer[] = []
+      request.on('data', (chunk: Buffer) => chunks.push(chunk))
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    })
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', issuer)
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(response, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+      })
+    }
+
+    if (url.pathname === '/authorize') {
+      const redirectUri = url.searchParams.get('redirect_uri')
+      if (url.searchParams.get('client_id') !== clientId || !redirectUri) {
+        return json(response, 400, { error: 'invalid_request' })
+      }
+      const code = randomBytes(16).toString('hex')
+      codes.set(code, {
+        redirectUri,
+        nonce: url.searchParams.get('nonce'),
+        codeChallenge: url.searchParams.get('code_challenge'),
+      })
+      const back = new URL(redirectUri)
+      back.searchParams.set('code', code)
+      const state = url.searchParams.get('state')
+      if (state) back.searchParams.set('state', state)
+      response.statusCode = 302
+      response.setHeader('Location', back.toString())
+      return response.end()
+    }
+
+    if (url.pathname === '/token' && request.method === 'POST') {
+      const form = Object.fromEntries(new URLSearchParams(await readBody(request)))
+      handle.tokenRequests.push(form)
+      if (form.client_id !== clientId || form.client_secret !== clientSecret) {
+        return json(response, 401, { error: 'invalid_client' })
+      }
+      const pending = codes.get(form.code)
+      // Single use, whatever happens next.
+      codes.delete(form.code)
+      if (!pending || pending.redirectUri !== form.redirect_uri) {
+        return json(response, 400, { error: 'invalid_grant' })
+      }
+      if (pending.codeChallenge) {
+        const computed = createHash('sha256').update(form.code_verifier ?? '').digest('base64url')
+        if (computed !== pending.codeChallenge) return json(response, 400, { error: 'invalid_grant' })
+      }
+
+      const accessToken = randomBytes(16).toString('hex')
+      accessTokens.add(accessToken)
+      const now = Math.floor(Date.now() / 1000)
+      const claims = handle.overrideIdTokenClaims ?? {
+        iss: issuer,
+        aud: clientId,
+        iat: now,
+        exp: now + 300,
+        ...(pending.nonce ? { nonce: pending.nonce } : {}),
+        ...(options.minimalIdToken ? { sub: handle.user.sub } : handle.user),
+      }
+      handle.overrideIdTokenClaims = null
+      return json(response, 200, {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: 300,
+        ...(options.omitIdToken ? {} : { id_token: jwt.sign(claims, clientSecret, { algorithm: 'HS256' }) }),
+      })
+    }
+
+    if (url.pathname === '/userinfo') {
+      const token = (request.headers.authorization ?? '').replace(/^Bearer /, '')
+      if (!accessTokens.has(token)) return json(response, 401, { error: 'invalid_token' })
+      return json(response, 200, handle.user)
+    }
+
+    json(response, 404, { error: 'not_found' })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, () => resolve())
+  })
+  const address = server.address() as AddressInfo
+  issuer = `http://${host}:${address.port}`
+
+  const handle: LocalIdp = {
+    issuer,
+    user: options.user,
+    tokenRequests: [],
+    overrideIdTokenClaims: null,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  }
+  return handle
+}
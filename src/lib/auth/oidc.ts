@@ -0,0 +1,363 @@
+// src/lib/auth/oidc.ts
+// Sign-in through an outside identity provider: OpenID Connect's
+// authorization-code flow, with PKCE, for any provider a deployment names
+// in its environment — Google, Discord, a self-hosted Keycloak, anything
+// that speaks the protocol.
+//
+// Configuration is read at call time:
+//   OIDC_PROVIDERS — comma-separated ids, in the order the buttons appear
+//   OIDC_<ID>_CLIENT_ID / _CLIENT_SECRET — required
+//   OIDC_<ID>_ISSUER — where discovery (/.well-known/openid-configuration)
+//     is read from; required unless a preset or the three URLs below cover it
+//   OIDC_<ID>_AUTHORIZATION_URL / _TOKEN_URL / _USERINFO_URL — skip discovery
+//   OIDC_<ID>_NAME — the button label; OIDC_<ID>_SCOPES — space-separated
+// A provider missing what it needs is left off the list rather than
+// failing the login page (see getOidcProviders).
+//
+// Discord is a preset rather than a plain issuer because it isn't quite
+// OIDC: no discovery document for the code flow, no id_token, and its
+// user object says `id` and `verified` where OIDC says `sub` and
+// `email_verified`. The preset supplies the endpoints and maps the claims.
+//
+// Everything here is protocol. Which MythOS account an identity signs into
+// is oidcAccounts.ts.
+
+import jwt from 'jsonwebtoken'
+import { createHash, randomBytes } from 'crypto'
+import { getJwtSecret } from '@/lib/auth'
+import { getAppUrl } from '@/lib/appUrl'
+import { normalizeEmail } from './normalizeEmail'
+
+export interface OidcProviderConfig {
+  id: string
+  name: string
+  issuer: string | null
+  clientId: string
+  clientSecret: string
+  scopes: string
+  authorizationUrl: string | null
+  tokenUrl: string | null
+  userinfoUrl: string | null
+  /** Turns a provider's own user object into OIDC standard claims. */
+  mapClaims: (raw: Record<string, unknown>) => Record<string, unknown>
+}
+
+/** What a provider told us about who signed in, after the checks below. */
+export interface OidcIdentity {
+  provider: string
+  subject: string
+  /** Normalized (normalizeEmail), or null if the provider gave none. */
+  email: string | null
+  /** Only a provider-verified email is ever used to find an existing account. */
+  emailVerified: boolean
+  name: string | null
+}
+
+interface ProviderPreset {
+  name: string
+  issuer?: string
+  scopes: string
+  authorizationUrl?: string
+  tokenUrl?: string
+  userinfoUrl?: string
+  mapClaims?: (raw: Record<string, unknown>) => Record<string, unknown>
+}
+
+const PROVIDER_PRESETS: Record<string, ProviderPreset> = {
+  google: { name: 'Google', issuer: 'https://accounts.google.com', scopes: 'openid email profile' },
+  discord: {
+    name: 'Discord',
+    scopes: 'identify email',
+    authorizationUrl: 'https://discord.com/oauth2/authorize',
+    tokenUrl: 'https://discord.com/api/oauth2/token',
+    userinfoUrl: 'https://discord.com/api/users/@me',
+    mapClaims: (raw) => ({
+      sub: raw.id,
+      email: raw.email,
+      email_verified: raw.verified,
+      name: raw.global_name ?? raw.username,
+    }),
+  },
+}
+
+const identity = (raw: Record<string, unknown>) => raw
+
+/** The providers this deployment has configured, in OIDC_PROVIDERS order. */
+export function getOidcProviders(env: Record<string, string | undefined> = process.env): OidcProviderConfig[] {
+  const ids = (env.OIDC_PROVIDERS ?? '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => /^[a-z0-9-]+$/.test(id))
+
+  const providers: OidcProviderConfig[] = []
+  for (const id of Array.from(new Set(ids))) {
+    const key = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`
+    const preset = PROVIDER_PRESETS[id]
+    const config: OidcProviderConfig = {
+      id,
+      name: env[`${key}NAME`] || preset?.name || id,
+      issuer: env[`${key}ISSUER`]?.replace(/\/+$/, '') || preset?.issuer || null,
+      clientId: env[`${key}CLIENT_ID`] ?? '',
+      clientSecret: env[`${key}CLIENT_SECRET`] ?? '',
+      scopes: env[`${key}SCOPES`] || preset?.scopes || 'openid email profile',
+      authorizationUrl: env[`${key}AUTHORIZATION_URL`] || preset?.authorizationUrl || null,
+      tokenUrl: env[`${key}TOKEN_URL`] || preset?.tokenUrl || null,
+      userinfoUrl: env[`${key}USERINFO_URL`] || preset?.userinfoUrl || null,
+      mapClaims: preset?.mapClaims ?? identity,
+    }
+    const endpointsKnown = Boolean(config.issuer || (config.authorizationUrl && config.tokenUrl && config.userinfoUrl))
+    if (!config.clientId || !config.clientSecret || !endpointsKnown) {
+      console.warn(`OIDC provider "${id}" is listed in OIDC_PROVIDERS but not fully configured; leaving it off.`)
+      continue
+    }
+    providers.push(config)
+  }
+  return providers
+}
+
+export function getOidcProvider(id: string, env: Record<string, string | undefined> = process.env): OidcProviderConfig | null {
+  return getOidcProviders(env).find((provider) => provider.id === id) ?? null
+}
+
+/** Where the provider sends the browser back to. Registered with the provider as-is. */
+export function oidcRedirectUri(providerId: string): string {
+  return `${getAppUrl()}/api/auth/oidc/${providerId}/callback`
+}
+
+export interface OidcEndpoints {
+  authorizationUrl: string
+  tokenUrl: string
+  userinfoUrl: string | null
+}
+
+// Discovery documents change on the scale of key rotations, not requests.
+const DISCOVERY_TTL_MS = 60 * 60 * 1000
+const discoveryCache = new Map<string, { endpoints: OidcEndpoints; fetchedAt: number }>()
+
+/** The provider's endpoints: configured ones win, discovery fills the rest. */
+export async function resolveEndpoints(provider: OidcProviderConfig): Promise<OidcEndpoints> {
+  const issuer = provider.issuer
+  // getOidcProviders only admits a provider with no issuer if all three are set.
+  if (!issuer || (provider.authorizationUrl && provider.tokenUrl && provider.userinfoUrl)) {
+    return {
+      authorizationUrl: provider.authorizationUrl as string,
+      tokenUrl: provider.tokenUrl as string,
+      userinfoUrl: provider.userinfoUrl,
+    }
+  }
+  const cached = discoveryCache.get(issuer)
+  let discovered = cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS ? cached.endpoints : null
+  if (!discovered) {
+    const response = await fetch(`${issuer}/.well-known/openid-configuration`)
+    if (!response.ok) throw new Error(`OIDC discovery for ${provider.id} failed: HTTP ${response.status}`)
+    const doc = (await response.json()) as Record<string, unknown>
+    if (typeof doc.authorization_endpoint !== 'string' || typeof doc.token_endpoint !== 'string') {
+      throw new Error(`OIDC discovery for ${provider.id} returned no authorization or token endpoint`)
+    }
+    discovered = {
+      authorizationUrl: doc.authorization_endpoint,
+      tokenUrl: doc.token_endpoint,
+      userinfoUrl: typeof doc.userinfo_endpoint === 'string' ? doc.userinfo_endpoint : null,
+    }
+    discoveryCache.set(issuer, { endpoints: discovered, fetchedAt: Date.now() })
+  }
+  return {
+    authorizationUrl: provider.authorizationUrl ?? discovered.authorizationUrl,
+    tokenUrl: provider.tokenUrl ?? discovered.tokenUrl,
+    userinfoUrl: provider.userinfoUrl ?? discovered.userinfoUrl,
+  }
+}
+
+/** For tests: forget every discovery document fetched so far. */
+export function clearOidcDiscoveryCache(): void {
+  discoveryCache.clear()
+}
+
+// ---------------------------------------------------------------------------
+// The round trip's state
+//
+// Everything the callback needs to trust the answer — the state it must
+// echo, the nonce the id_token must carry, the PKCE verifier — is put in a
+// signed, httpOnly cookie on the way out rather than a table: the flow is
+// one browser's, it lasts minutes, and a cookie scoped to this browser is
+// exactly what stops someone else's callback URL being replayed into it.
+// ---------------------------------------------------------------------------
+
+export const OIDC_STATE_COOKIE = 'mythos_oidc'
+/** Long enough for a consent screen and a password manager; no longer. */
+export const OIDC_STATE_TTL_SECONDS = 10 * 60
+
+const STATE_PURPOSE = 'oidc-state'
+const HANDOFF_PURPOSE = 'oidc-handoff'
+/** The handoff only has to survive one redirect and one POST. */
+const HANDOFF_TTL = '2m'
+
+export interface OidcFlowState {
+  provider: string
+  state: string
+  nonce: string
+  codeVerifier: string
+  /** An in-app path to land on afterwards, or null. */
+  returnTo: string | null
+}
+
+const randomToken = () => randomBytes(32).toString('base64url')
+
+export function createOidcFlow(providerId: string, returnTo: string | null): { flow: OidcFlowState; cookie: string } {
+  const flow: OidcFlowState = {
+    provider: providerId,
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    // Only an in-app path — never an open redirect (same rule as the login page).
+    returnTo: returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : null,
+  }
+  const cookie = jwt.sign({ ...flow, purpose: STATE_PURPOSE }, getJwtSecret(), { expiresIn: OIDC_STATE_TTL_SECONDS })
+  return { flow, cookie }
+}
+
+export function readOidcFlow(cookie: string | undefined): OidcFlowState | null {
+  if (!cookie) return null
+  try {
+    const payload = jwt.verify(cookie, getJwtSecret()) as Partial<OidcFlowState> & { purpose?: unknown }
+    if (payload.purpose !== STATE_PURPOSE) return null
+    if (!payload.provider || !payload.state || !payload.nonce || !payload.codeVerifier) return null
+    return {
+      provider: payload.provider,
+      state: payload.state,
+      nonce: payload.nonce,
+      codeVerifier: payload.codeVerifier,
+      returnTo: payload.returnTo ?? null,
+    }
+  } catch {
+    return null
+  }
+}
+
+export function pkceChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url')
+}
+
+export function buildAuthorizationUrl(provider: OidcProviderConfig, endpoints: OidcEndpoints, flow: OidcFlowState): string {
+  const url = new URL(endpoints.authorizationUrl)
+  url.searchParams.set('response_type', 'code')
+  url.searchParams.set('client_id', provider.clientId)
+  url.searchParams.set('redirect_uri', oidcRedirectUri(provider.id))
+  url.searchParams.set('scope', provider.scopes)
+  url.searchParams.set('state', flow.state)
+  url.searchParams.set('nonce', flow.nonce)
+  url.searchParams.set('code_challenge', pkceChallenge(flow.codeVerifier))
+  url.searchParams.set('code_challenge_method', 'S256')
+  return url.toString()
+}
+
+/**
+ * The callback's token is handed to the browser as a HANDOFF, not a
+ * session: a redirect can only carry it in the URL, and a session token in
+ * a URL ends up in history. The handoff lives two minutes, is refused by
+ * verifyToken (it has a purpose), and is traded for the session by a POST
+ * from the page it lands on — which is also the request whose device the
+ * session row records.
+ */
+export function createOidcHandoff(user: { id: string; tokenVersion: number }): string {
+  return jwt.sign({ userId: user.id, tokenVersion: user.tokenVersion, purpose: HANDOFF_PURPOSE }, getJwtSecret(), {
+    expiresIn: HANDOFF_TTL,
+  })
+}
+
+export function readOidcHandoff(token: string): { userId: string; tokenVersion: number } | null {
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as { userId?: unknown; tokenVersion?: unknown; purpose?: unknown }
+    if (payload.purpose !== HANDOFF_PURPOSE || typeof payload.userId !== 'string') return null
+    return { userId: payload.userId, tokenVersion: typeof payload.tokenVersion === 'number' ? payload.tokenVersion : 0 }
+  } catch {
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// The callback: code → tokens → identity
+// ---------------------------------------------------------------------------
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OidcError'
+  }
+}
+
+/**
+ * Trade the authorization code for tokens and read who signed in.
+ *
+ * The id_token's signature is not checked against the provider's keys:
+ * it came straight from the token endpoint over TLS, on a request
+ * authenticated with the client secret, which OIDC Core §3.1.3.7 accepts
+ * in place of the signature. Its issuer, audience, expiry and nonce ARE
+ * checked — those are what tie it to this flow. A provider with no
+ * id_token (Discord) is read from its userinfo endpoint instead.
+ */
+export async function completeOidcFlow(provider: OidcProviderConfig, flow: OidcFlowState, code: string): Promise<OidcIdentity> {
+  const endpoints = await resolveEndpoints(provider)
+
+  const tokenResponse = await fetch(endpoints.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: oidcRedirectUri(provider.id),
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: flow.codeVerifier,
+    }),
+  })
+  if (!tokenResponse.ok) throw new OidcError(`token endpoint answered HTTP ${tokenResponse.status}`)
+  const tokens = (await tokenResponse.json()) as { id_token?: unknown; access_token?: unknown }
+
+  let claims: Record<string, unknown> = {}
+  if (typeof tokens.id_token === 'string') {
+    claims = checkIdToken(provider, tokens.id_token, flow.nonce)
+  }
+
+  // Userinfo when there was no id_token, or when it left the email out
+  // (Keycloak and others only put it there on request).
+  if ((!claims.sub || !claims.email) && endpoints.userinfoUrl && typeof tokens.access_token === 'string') {
+    const userinfoResponse = await fetch(endpoints.userinfoUrl, {
+      headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+    })
+    if (!userinfoResponse.ok) throw new OidcError(`userinfo endpoint answered HTTP ${userinfoResponse.status}`)
+    const userinfo = provider.mapClaims((await userinfoResponse.json()) as Record<string, unknown>)
+    // The id_token's subject is the authority; userinfo for someone else is an error, not a merge.
+    if (claims.sub !== undefined && userinfo.sub !== undefined && String(userinfo.sub) !== String(claims.sub)) {
+      throw new OidcError('userinfo subject does not match the id_token')
+    }
+    claims = { ...userinfo, ...claims, email: claims.email ?? userinfo.email, email_verified: claims.email_verified ?? userinfo.email_verified }
+  }
+
+  if (claims.sub === undefined || claims.sub === null || claims.sub === '') {
+    throw new OidcError('provider returned no subject')
+  }
+  return {
+    provider: provider.id,
+    subject: String(claims.sub),
+    email: typeof claims.email === 'string' && claims.email.includes('@') ? normalizeEmail(claims.email) : null,
+    // Some providers send the string "true".
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: typeof claims.name === 'string' && claims.name.trim() ? claims.name.trim() : null,
+  }
+}
+
+function checkIdToken(provider: OidcProviderConfig, idToken: string, nonce: string): Record<string, unknown> {
+  const decoded = jwt.decode(idToken)
+  if (!decoded || typeof decoded !== 'object') throw new OidcError('id_token is not a JWT')
+  const claims = provider.mapClaims(decoded as Record<string, unknown>)
+
+  if (provider.issuer && String(claims.iss).replace(/\/+$/, '') !== provider.issuer) {
+    throw new OidcError('id_token issuer does not match')
+  }
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!audience.includes(provider.clientId)) throw new OidcError('id_token audience does not match')
+  if (typeof claims.exp === 'number' && claims.exp * 1000 < Date.now()) throw new OidcError('id_token has expired')
+  if (claims.nonce !== nonce) throw new OidcError('id_token nonce does not match')
+  return claims
+}
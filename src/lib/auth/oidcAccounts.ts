@@ -0,0 +1,106 @@
+// src/lib/auth/oidcAccounts.ts
+// Which MythOS account an identity provider's sign-in lands in.
+//
+// In order:
+//   1. An identity already linked — (provider, subject) — signs in as its
+//      user. The subject, not the email: emails change upstream.
+//   2. Otherwise a provider-VERIFIED email matching an existing account
+//      links to it. Most people arriving through "Continue with Discord"
+//      already have a password account under the same address, and a
+//      second empty account would look like lost campaigns.
+//   3. Otherwise a verified email makes a new account, with no password.
+// An email the provider hasn't verified does neither: anyone can type
+// someone else's address into a provider that doesn't check, and linking
+// on it would hand them that account.
+//
+// Linking to an account whose OWN email was never verified is the
+// pre-hijack case: someone signs up with a victim's address and a
+// password they know, waits, and the victim's first provider sign-in
+// links into an account the attacker can still open. So that link also
+// drops the password, any 2FA and every session — the provider has just
+// proved who owns the address; whoever set that password hadn't.
+
+import { prisma } from '@/lib/prisma'
+import { recordEvent } from '@/lib/analytics/events'
+import { addFunds, WELCOME_CREDIT_CENTS } from '@/lib/payment/service'
+import { isUniqueConstraintViolation } from '@/lib/game/worldUpdaters/uniqueConstraintGuard'
+import type { OidcIdentity } from './oidc'
+
+export type OidcSignInResult =
+  | { ok: true; user: { id: string; email: string; tokenVersion: number }; outcome: 'signed-in' | 'linked' | 'created' }
+  | { ok: false; reason: 'no-email' | 'unverified-email' }
+
+export async function resolveOidcUser(identity: OidcIdentity): Promise<OidcSignInResult> {
+  const linked = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: identity.provider, subject: identity.subject } },
+    select: { user: { select: { id: true, email: true, tokenVersion: true } } },
+  })
+  if (linked) return { ok: true, user: linked.user, outcome: 'signed-in' }
+
+  if (!identity.email) return { ok: false, reason: 'no-email' }
+  if (!identity.emailVerified) return { ok: false, reason: 'unverified-email' }
+
+  const existing = await prisma.user.findUnique({
+    where: { email: identity.email },
+    select: { id: true, emailVerified: true },
+  })
+  if (existing) {
+    const [, user] = await prisma.$transaction([
+      prisma.userIdentity.create({
+        data: { userId: existing.id, provider: identity.provider, subject: identity.subject, email: identity.email },
+      }),
+      prisma.user.update({
+        where: { id: existing.id },
+        data: existing.emailVerified
+          ? {}
+          : {
+              emailVerified: true,
+              emailVerifyToken: null,
+              password: null,
+              totpSecret: null,
+              totpEnabledAt: null,
+              totpLastUsedStep: null,
+              totpRecoveryCodes: [],
+              tokenVersion: { increment: 1 },
+              sessions: { deleteMany: {} },
+            },
+        select: { id: true, email: true, tokenVersion: true },
+      }),
+    ])
+    return { ok: true, user, outcome: 'linked' }
+  }
+
+  let user
+  try {
+    user = await prisma.user.create({
+      data: {
+        email: identity.email,
+        password: null,
+        name: identity.name,
+        emailVerified: true,
+        identities: { create: { provider: identity.provider, subject: identity.subject, email: identity.email } },
+      },
+      select: { id: true, email: true, tokenVersion: true },
+    })
+  } catch (error) {
+    // Two first sign-ins racing (a double-clicked button): whichever lost
+    // finds what the winner made.
+    if (!isUniqueConstraintViolation(error)) throw error
+    const retry = await prisma.userIdentity.findUnique({
+      where: { provider_subject: { provider: identity.provider, subject: identity.subject } },
+      select: { user: { select: { id: true, email: true, tokenVersion: true } } },
+    })
+    if (!retry) throw error
+    return { ok: true, user: retry.user, outcome: 'signed-in' }
+  }
+
+  // Same best-effort welcome as signup: neither may fail the sign-in.
+  try {
+    await addFunds(user.id, WELCOME_CREDIT_CENTS, 'Welcome credit — your first scene is on us')
+  } catch (creditError) {
+    console.error('Welcome credit failed (non-critical):', creditError)
+  }
+  await recordEvent('SIGNUP', { userId: user.id, metadata: { provider: identity.provider } })
+
+  return { ok: true, user, outcome: 'created' }
+}
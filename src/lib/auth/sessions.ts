@@ -0,0 +1,89 @@
+// src/lib/auth/sessions.ts
+// Per-device sessions on top of the stateless JWT.
+//
+// A token still carries everything a request needs; what a UserSession
+// row adds is a NAME for it — which device, signed in from where, last
+// seen when — and a way to end that one token without ending the rest.
+// "Sign out everywhere" was the only lever before (User.tokenVersion), and
+// it's the wrong one for "I left myself signed in on a library computer".
+//
+// Every path that hands out a session token goes through startSession, so
+// there is one place that decides what a session row records.
+
+import { NextRequest } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { createToken } from '@/lib/auth'
+import { getClientIp } from '@/lib/rateLimit'
+
+/** Matches createToken's expiry: a row older than this names a dead token. */
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+
+/** Long enough to recognise a browser, short enough not to store an essay. */
+const USER_AGENT_MAX_LENGTH = 300
+
+export interface SessionSummary {
+  id: string
+  userAgent: string | null
+  ip: string | null
+  createdAt: Date
+  lastSeenAt: Date
+  /** The session making this request — the one "sign out" would end for you. */
+  current: boolean
+}
+
+/**
+ * Record a new signed-in device and mint its token.
+ *
+ * The row is written first: a token naming a row that was never written
+ * would be refused on its first request, which is a login that silently
+ * doesn't work.
+ */
+export async function startSession(
+  user: { id: string; email: string; tokenVersion: number },
+  request: NextRequest
+): Promise<string> {
+  const ip = getClientIp(request)
+  const session = await prisma.userSession.create({
+    data: {
+      userId: user.id,
+      userAgent: request.headers.get('user-agent')?.slice(0, USER_AGENT_MAX_LENGTH) || null,
+      ip: ip === 'unknown' ? null : ip,
+    },
+    select: { id: true },
+  })
+  return createToken({
+    userId: user.id,
+    email: user.email,
+    // Stamp the version this session is minted at (#98). Bumping
+    // User.tokenVersion invalidates every token carrying an older one.
+    tokenVersion: user.tokenVersion,
+    sessionId: session.id,
+  })
+}
+
+/**
+ * The caller's signed-in devices, most recently active first. Rows past
+ * SESSION_MAX_AGE_MS name tokens that have expired on their own; they're
+ * deleted here rather than by a sweep, since this is the only reader.
+ */
+export async function listSessions(userId: string, currentSessionId: string | undefined): Promise<SessionSummary[]> {
+  await prisma.userSession.deleteMany({
+    where: { userId, createdAt: { lt: new Date(Date.now() - SESSION_MAX_AGE_MS) } },
+  })
+  const sessions = await prisma.userSession.findMany({
+    where: { userId },
+    orderBy: { lastSeenAt: 'desc' },
+    select: { id: true, userAgent: true, ip: true, createdAt: true, lastSeenAt: true },
+  })
+  return sessions.map((session) => ({ ...session, current: session.id === currentSessionId }))
+}
+
+/**
+ * Sign one device out. Scoped to the caller's own sessions in the WHERE,
+ * so another user's session id is indistinguishable from a missing one.
+ * Returns whether anything was deleted.
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const { count } = await prisma.userSession.deleteMany({ where: { id: sessionId, userId } })
+  return count > 0
+}
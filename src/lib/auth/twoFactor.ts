@@ -0,0 +1,102 @@
+// src/lib/auth/twoFactor.ts
+// The second factor: what a login with 2FA turned on has to show after the
+// password, and the recovery codes for when the phone is gone.
+//
+// Login becomes two requests. The password step, on success, hands back a
+// short-lived CHALLENGE instead of a session — a signed token that proves
+// the password was right and nothing else (verifyToken refuses it as a
+// session). The second step trades the challenge plus a code for the real
+// session. Nothing is stored server-side between the two; the challenge
+// carries the tokenVersion it was issued at, so "sign out everywhere"
+// during those five minutes kills it like any other token.
+
+import jwt from 'jsonwebtoken'
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { getJwtSecret } from '@/lib/auth'
+import { matchTotpStep } from './totp'
+
+const CHALLENGE_PURPOSE = '2fa-challenge'
+/** Long enough to find the phone; short enough that a leaked challenge is stale. */
+const CHALLENGE_TTL = '5m'
+
+export const RECOVERY_CODE_COUNT = 10
+
+export function createTwoFactorChallenge(user: { id: string; tokenVersion: number }): string {
+  return jwt.sign({ userId: user.id, tokenVersion: user.tokenVersion, purpose: CHALLENGE_PURPOSE }, getJwtSecret(), {
+    expiresIn: CHALLENGE_TTL,
+  })
+}
+
+/** The user a challenge was issued to, or null if it is forged, expired or not a challenge. */
+export function readTwoFactorChallenge(token: string): { userId: string; tokenVersion: number } | null {
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as { userId?: unknown; tokenVersion?: unknown; purpose?: unknown }
+    if (payload.purpose !== CHALLENGE_PURPOSE || typeof payload.userId !== 'string') return null
+    return { userId: payload.userId, tokenVersion: typeof payload.tokenVersion === 'number' ? payload.tokenVersion : 0 }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Recovery codes are random, so a fast hash is enough — there is no
+ * dictionary to run against 50 bits of entropy. Dashes, spaces and case
+ * are the user's; they don't change which code it is.
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '')
+  return createHash('sha256').update(normalized).digest('hex')
+}
+
+/** A fresh set: the codes to show once, and the hashes to store. */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex')
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+  return { codes, hashes: codes.map(hashRecoveryCode) }
+}
+
+export interface SecondFactorInput {
+  code?: unknown
+  recoveryCode?: unknown
+}
+
+/**
+ * Check a second factor and CONSUME it: a TOTP step is recorded as used
+ * and a recovery code is struck off. Returns which kind matched, or null.
+ *
+ * Both writes are conditional on the state they replace, so two requests
+ * racing with the same code can't both succeed — the step must still be
+ * newer than the last one used, the recovery code must still be in the
+ * list. array_remove rather than writing back a filtered copy: two
+ * different codes redeemed at once would otherwise each write a list that
+ * still contains the other.
+ */
+export async function consumeSecondFactor(
+  user: { id: string; totpSecret: string | null; totpLastUsedStep: number | null },
+  input: SecondFactorInput
+): Promise<'totp' | 'recovery' | null> {
+  if (typeof input.code === 'string' && input.code.trim() && user.totpSecret) {
+    const step = matchTotpStep(user.totpSecret, input.code)
+    if (step === null) return null
+    if (user.totpLastUsedStep !== null && step <= user.totpLastUsedStep) return null
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+      data: { totpLastUsedStep: step },
+    })
+    return count > 0 ? 'totp' : null
+  }
+
+  if (typeof input.recoveryCode === 'string' && input.recoveryCode.trim()) {
+    const hash = hashRecoveryCode(input.recoveryCode)
+    const removed = await prisma.$executeRaw`
+      UPDATE "User" SET "totpRecoveryCodes" = array_remove("totpRecoveryCodes", ${hash})
+      WHERE "id" = ${user.id} AND ${hash} = ANY("totpRecoveryCodes")
+    `
+    return removed > 0 ? 'recovery' : null
+  }
+
+  return null
+}
@@ -0,0 +1,45 @@
+// src/lib/blob/__tests__/loreDocumentStorage.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@vercel/blob', () => ({ put: vi.fn(), del: vi.fn() }))
+
+import { del, put } from '@vercel/blob'
+import { deleteLoreDocument, uploadLoreDocument } from '../loreDocumentStorage'
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('uploadLoreDocument', () => {
+  it('uploads under the campaign with a random suffix and returns the Blob URL', async () => {
+    ;(put as any).mockResolvedValue({ url: 'https://blob.vercel-storage.com/lore-uploads/camp1/bible-x1y2.pdf' })
+
+    const url = await uploadLoreDocument('camp1', 'bible.pdf', Buffer.from('%PDF-'), 'application/pdf')
+
+    expect(url).toBe('https://blob.vercel-storage.com/lore-uploads/camp1/bible-x1y2.pdf')
+    expect(put).toHaveBeenCalledWith(
+      'lore-uploads/camp1/bible.pdf',
+      expect.any(Buffer),
+      expect.objectContaining({ access: 'public', contentType: 'application/pdf', addRandomSuffix: true })
+    )
+  })
+
+  it('makes the file name path-safe but keeps its extension', async () => {
+    ;(put as any).mockResolvedValue({ url: 'https://blob/x' })
+
+    await uploadLoreDocument('camp1', '../My Setting Bible (v2).md', Buffer.from('# Hi'), '')
+
+    expect(put).toHaveBeenCalledWith(
+      'lore-uploads/camp1/.._My_Setting_Bible_v2_.md',
+      expect.any(Buffer),
+      expect.objectContaining({ contentType: 'application/octet-stream' })
+    )
+  })
+})
+
+describe('deleteLoreDocument', () => {
+  it('deletes by URL', async () => {
+    await deleteLoreDocument('https://blob/x')
+    expect(del).toHaveBeenCalledWith('https://blob/x')
+  })
+})
@@ -0,0 +1,35 @@
+// src/lib/blob/loreDocumentStorage.ts
+// Thin Vercel Blob wrapper for uploaded lore documents — sibling to
+// sceneImageStorage.ts and campaignHeroStorage.ts. The upload route stores
+// the file here and the import worker fetches it back by URL, so the
+// request that accepts the file never has to parse it.
+//
+// `access: 'public'` is the only mode the other two use and the only one
+// the worker can fetch without a token; the random suffix is what keeps a
+// campaign's setting bible from sitting at a guessable URL.
+
+import { del, put } from '@vercel/blob'
+
+/**
+ * Stores an uploaded lore document and returns its URL. The file name
+ * (extension included) survives in the path, ahead of Blob's random
+ * suffix, which the worker's format detection falls back on.
+ */
+export async function uploadLoreDocument(campaignId: string, fileName: string, data: Buffer, contentType: string): Promise<string> {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-120) || 'upload'
+  const blob = await put(`lore-uploads/${campaignId}/${safeName}`, data, {
+    access: 'public',
+    contentType: contentType || 'application/octet-stream',
+    addRandomSuffix: true,
+  })
+  return blob.url
+}
+
+/**
+ * Removes a stored lore document when its source is deleted. Best-effort
+ * — the caller logs and moves on, since an orphaned file costs storage,
+ * not correctness.
+ */
+export async function deleteLoreDocument(url: string): Promise<void> {
+  await del(url)
+}
@@ -2,7 +2,7 @@
 // Client-side authentication utilities
 // Handles storing JWT tokens and making authenticated requests
 
-import { AuthResponse } from '@/types/api'
+import { AuthResponse, TwoFactorChallengeResponse } from '@/types/api'
 
 const TOKEN_KEY = 'ai_gm_token'
 const USER_KEY = 'ai_gm_user'
@@ -96,7 +96,9 @@ export function getLastCampaignId(): string | null {
 
 /**
  * Make an authenticated API request
- * Automatically adds Authorization header
+ * Automatically adds Authorization header, and a JSON Content-Type unless
+ * the body is FormData — a file upload, whose multipart boundary only the
+ * browser can fill in.
  */
 export async function authenticatedFetch(
   url: string,
@@ -110,7 +112,7 @@ export async function authenticatedFetch(
 
   const headers = new Headers(options.headers)
   headers.set('Authorization', `Bearer ${token}`)
-  headers.set('Content-Type', 'application/json')
+  if (!(options.body instanceof FormData)) headers.set('Content-Type', 'application/json')
 
   return fetch(url, {
     ...options,
@@ -119,9 +121,11 @@ export async function authenticatedFetch(
 }
 
 /**
- * Login helper
+ * Login helper. For an account with two-factor auth on, the password alone
+ * returns a challenge rather than a session — nothing is stored, and the
+ * caller finishes with completeTwoFactorLogin.
  */
-export async function login(email: string, password: string): Promise<AuthResponse> {
+export async function login(email: string, password: string): Promise<AuthResponse | TwoFactorChallengeResponse> {
   const response = await fetch('/api/auth/login', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -133,7 +137,55 @@ export async function login(email: string, password: string): Promise<AuthRespon
     throw new Error(error.error || 'Login failed')
   }
 
-  const data: AuthResponse = await response.json()
+  const data: AuthResponse | TwoFactorChallengeResponse = await response.json()
+  if ('twoFactorRequired' in data) return data
+  setAuth(data.token, data.user)
+  return data
+}
+
+/**
+ * Second login step: the challenge from login() plus an authenticator code
+ * or one recovery code.
+ */
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  factor: { code: string } | { recoveryCode: string }
+): Promise<AuthResponse & { recoveryCodeUsed?: boolean }> {
+  const response = await fetch('/api/auth/login/2fa', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ challengeToken, ...factor })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Login failed')
+  }
+
+  const data: AuthResponse & { recoveryCodeUsed?: boolean } = await response.json()
+  setAuth(data.token, data.user)
+  return data
+}
+
+/**
+ * Last step of identity-provider sign-in: trade the handoff the callback
+ * put in /auth/oidc's URL fragment for a session — or, for an account with
+ * 2FA on, a challenge to finish with completeTwoFactorLogin.
+ */
+export async function completeOidcSignIn(handoff: string): Promise<AuthResponse | TwoFactorChallengeResponse> {
+  const response = await fetch('/api/auth/oidc/complete', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ handoff })
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Sign-in failed')
+  }
+
+  const data: AuthResponse | TwoFactorChallengeResponse = await response.json()
+  if ('twoFactorRequired' in data) return data
   setAuth(data.token, data.user)
   return data
 }
@@ -12,42 +12,55 @@
 // `null` — with no bundled role check and no thrown error. Every call
 // site's existing `if (!membership) ...` / `if (membership.role !== ...)`
 // logic keeps working completely unchanged; only the query itself is
-// shared now.
+// shared now. (Role checks themselves go through requireCampaignPermission
+// below or can() from lib/api/campaignPermissions.ts.)
 //
-// Not for the handful of routes that filter by role *inside* the query
-// (`where: { userId, campaignId, role: 'ADMIN' }`) — that's a different
-// shape (it collapses "not a member" and "member but not admin" into the
-// same `null`), so those stay as their own inline query rather than being
+// Not for the handful of queries that filter by role *inside* the query
+// (`where: { campaignId, role: { in: rolesWith('safety.manage') } }`) —
+// that's a different shape (a list of who holds a permission, not one
+// member's row), so those stay as their own inline query rather than being
 // forced through this one.
 
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { UserRole } from '@prisma/client'
 import type { CampaignMembership } from '@prisma/client'
+import { can, isMembershipExpired, type CampaignPermission } from '@/lib/api/campaignPermissions'
 
-export function getCampaignMembership(
+// One exception to "exactly what findUnique returned": a guest whose
+// membership has run out (CampaignMembership.expiresAt) gets `null`, the
+// same answer as someone who never joined. Done here rather than at each
+// call site because every one of them already treats `null` as "not a
+// member" — an expired guest is locked out of all ~90 routes by this one
+// line, where a per-route check would have to be remembered ~90 times.
+export async function getCampaignMembership(
   userId: string,
   campaignId: string
 ): Promise<CampaignMembership | null> {
-  return prisma.campaignMembership.findUnique({
+  const membership = await prisma.campaignMembership.findUnique({
     where: { userId_campaignId: { userId, campaignId } },
   })
+  if (membership && isMembershipExpired(membership)) return null
+  return membership
 }
 
-// The "is this user an admin of this campaign, else 403" guard that ~29
-// route files repeated inline (fetch membership via getCampaignMembership,
-// then `if (!membership || membership.role !== UserRole.ADMIN) return 403`).
+// The "may this user do X in this campaign, else 403" guard. Was
+// requireCampaignAdmin (`role !== UserRole.ADMIN`), repeated inline in ~29
+// route files before that; with co-hosts, spectators and guests the
+// question a route asks is a permission from the matrix in
+// lib/api/campaignPermissions.ts, never a role, so a co-host passes the
+// scene-running routes without also passing the delete route.
 // forbiddenMessage is a required parameter, not a template, because each
 // call site's existing wording ("Only campaign admins can update
 // locations", "...can ban members", etc.) is preserved verbatim rather than
 // generated — this centralizes the query and the branch, not the copy.
-export async function requireCampaignAdmin(
+export async function requireCampaignPermission(
   userId: string,
   campaignId: string,
+  permission: CampaignPermission,
   forbiddenMessage: string
 ): Promise<{ membership: CampaignMembership } | { response: NextResponse }> {
   const membership = await getCampaignMembership(userId, campaignId)
-  if (!membership || membership.role !== UserRole.ADMIN) {
+  if (!membership || !can(membership.role, permission)) {
     return { response: NextResponse.json({ error: forbiddenMessage }, { status: 403 }) }
   }
   return { membership }
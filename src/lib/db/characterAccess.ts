@@ -4,7 +4,7 @@
 // API-route-coverage sweep): `characters/[id]/dynamic-downtime[/suggestions]`
 // and `dynamic-downtime-events/[id]/respond` verified the caller was
 // authenticated but never that they owned the character being acted on.
-// Mirrors requireCampaignAdmin's `{ x } | { response }` shape from
+// Mirrors requireCampaignPermission's `{ x } | { response }` shape from
 // campaignAccess.ts, and campaigns/[id]/scene/route.ts's existing
 // `character.userId !== user.userId` check (already used there and at
 // scene/ask-gm/route.ts) — centralized here rather than re-derived a
@@ -131,11 +131,10 @@ Make the interpretation:
 
 If the request seems impossible, suggest a viable alternative.`
 
-      const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+      const response = await openaiFetch('/chat/completions', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           model: AI_MODELS.EFFICIENT,
@@ -428,11 +427,10 @@ Return a JSON object:
   "narrative": "Rich narrative description for immersion"
 }`
 
-      const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+      const response = await openaiFetch('/chat/completions', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           model: AI_MODELS.EFFICIENT,
@@ -516,11 +514,10 @@ Generate a response that:
 Respond in an engaging, narrative style as MythOS. Keep it to 2-3 paragraphs.`
 
     try {
-      const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+      const response = await openaiFetch('/chat/completions', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           model: AI_MODELS.EFFICIENT,
@@ -841,11 +838,10 @@ Based on the player's original intent and what happened during the activity, gen
   "narrative": "Rich description of what was accomplished"
 }`
 
-      const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+      const response = await openaiFetch('/chat/completions', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           model: AI_MODELS.EFFICIENT,
@@ -1047,11 +1043,10 @@ Each suggestion:
 - Follows from this specific character's backstory, goals, location, or what just happened — not a generic RPG downtime list
 - One concrete sentence, no meta-commentary`
 
-      const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+      const response = await openaiFetch('/chat/completions', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
         },
         body: JSON.stringify({
           model: AI_MODELS.EFFICIENT,
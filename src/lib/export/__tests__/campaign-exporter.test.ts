@@ -1,37 +1,64 @@
+// Import remaps a whole exported graph into a new campaign. What has to
+// hold: every reference follows its row to the new id (relation FKs and
+// the soft ones the schema can't see), nothing points at a row that
+// didn't make it, and per-model fixes still apply.
+//
 // #201: a corrupted or hand-edited campaign export can plant a Move row
 // whose `outcomes` isn't even an object (null, a string, an array...).
 // resolution.ts's rolling path used to index straight into that value —
-// this pins that importMoves sanitizes on the way in, so a bad row can
-// never reach the DB in a shape that crashes dice mechanics later.
+// this pins that import sanitizes on the way in, so a bad row can never
+// reach the DB in a shape that crashes dice mechanics later.
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 
+const { tx, delegates } = vi.hoisted(() => {
+  const delegates: Record<string, any> = {};
+  const tx: any = new Proxy({}, {
+    get(_target, name: string) {
+      delegates[name] ??= {
+        create: vi.fn(),
+        findUnique: vi.fn(),
+        createMany: vi.fn(async ({ data }: any) => ({ count: data.length })),
+        findMany: vi.fn(async () => []),
+        update: vi.fn(),
+      };
+      return delegates[name];
+    },
+  });
+  return { tx, delegates };
+});
+
+// Outside a transaction (exportCharacter) the same delegates answer.
 vi.mock('@/lib/prisma', () => ({
-  prisma: {
-    campaign: { create: vi.fn() },
-    move: { create: vi.fn() },
-  },
+  prisma: new Proxy({ $transaction: vi.fn(async (fn: any) => fn(tx)) } as any, {
+    get: (target, name: string) => (name in target ? target[name] : tx[name]),
+  }),
 }));
 
-vi.mock('@/lib/game/worldStateChanges', () => ({
-  extractWorldStateChanges: vi.fn(),
-}));
+import { CampaignExporter, createRemapContext, remapRow } from '../campaign-exporter';
+import { parseCampaignExport, EXPORT_FORMAT, EXPORT_FORMAT_VERSION } from '../exportFormat';
 
-import { prisma } from '@/lib/prisma';
-import { CampaignExporter } from '../campaign-exporter';
+const campaign = { id: 'oldCamp', title: 'Test', aiSystemPrompt: 'p', initialWorldSeed: 's', chronicleShareEnabled: true, chronicleShareToken: 'tok' };
 
-describe('CampaignExporter.importCampaign — moves', () => {
-  beforeEach(() => {
-    vi.clearAllMocks();
-    vi.mocked(prisma.campaign.create).mockResolvedValue({ id: 'camp1' } as any);
-  });
+function file(tables: Record<string, unknown[]>) {
+  return { format: EXPORT_FORMAT, version: EXPORT_FORMAT_VERSION, exportedAt: new Date().toISOString(), campaign, tables };
+}
 
-  const baseData = (moves: any[]) => ({
-    version: '1.0.0',
-    exportedAt: new Date().toISOString(),
-    campaign: { title: 'Test', description: '', universe: 'Fantasy' },
-    moves,
-  });
+function written(delegate: string): any[] {
+  return (delegates[delegate]?.createMany.mock.calls ?? []).flatMap((call: any) => call[0].data);
+}
+
+let nextId = 0;
+const mintId = () => `new${++nextId}`;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  nextId = 0;
+  tx.campaign.create.mockResolvedValue({ id: 'newCamp', title: 'Test (Imported)' });
+});
+
+describe('CampaignExporter.importCampaign — moves', () => {
+  const move = (outcomes: unknown) => ({ id: 'm1', campaignId: 'oldCamp', name: 'Act Under Fire', trigger: 'When you...', description: 'd', rollType: 'roll+cool', outcomes, category: 'basic', isActive: true });
 
   it.each([
     ['null', null],
@@ -39,34 +66,149 @@ describe('CampaignExporter.importCampaign — moves', () => {
     ['an array', ['strongHit', 'weakHit', 'miss']],
     ['a number', 42],
   ])('sanitizes outcomes that are %s instead of writing it straight through', async (_label, malformed) => {
-    await CampaignExporter.importCampaign(
-      baseData([{ name: 'Act Under Fire', trigger: 'When you...', description: 'd', rollType: 'roll+cool', outcomes: malformed, category: 'basic', isActive: true }]) as any,
-      'user1'
-    );
-
-    expect(prisma.move.create).toHaveBeenCalledTimes(1);
-    const written = vi.mocked(prisma.move.create).mock.calls[0][0].data as any;
-    expect(written.outcomes).toEqual({});
+    await CampaignExporter.importCampaign(file({ Move: [move(malformed)] }), 'user1');
+
+    expect(written('move')).toHaveLength(1);
+    expect(written('move')[0].outcomes).toEqual({});
   });
 
   it('drops non-string band values but keeps the valid ones', async () => {
-    await CampaignExporter.importCampaign(
-      baseData([{ name: 'Act Under Fire', trigger: 't', description: 'd', rollType: 'roll+cool', outcomes: { strongHit: 'Clean win.', weakHit: 42, miss: null }, category: 'basic', isActive: true }]) as any,
-      'user1'
-    );
-
-    const written = vi.mocked(prisma.move.create).mock.calls[0][0].data as any;
-    expect(written.outcomes).toEqual({ strongHit: 'Clean win.' });
+    await CampaignExporter.importCampaign(file({ Move: [move({ strongHit: 'Clean win.', weakHit: 42, miss: null })] }), 'user1');
+    expect(written('move')[0].outcomes).toEqual({ strongHit: 'Clean win.' });
   });
 
   it('passes a well-formed outcomes object through unchanged', async () => {
     const outcomes = { strongHit: 'a', weakHit: 'b', miss: 'c' };
-    await CampaignExporter.importCampaign(
-      baseData([{ name: 'Act Under Fire', trigger: 't', description: 'd', rollType: 'roll+cool', outcomes, category: 'basic', isActive: true }]) as any,
-      'user1'
-    );
+    await CampaignExporter.importCampaign(file({ Move: [move(outcomes)] }), 'user1');
+    expect(written('move')[0].outcomes).toEqual(outcomes);
+  });
+
+  it('sanitizes v1 files the same way', async () => {
+    await CampaignExporter.importCampaign({ version: '1.0.0', exportedAt: new Date().toISOString(), campaign, moves: [move('bad')] }, 'user1');
+    expect(written('move')[0].outcomes).toEqual({});
+  });
+});
+
+describe('CampaignExporter.importCampaign — the new campaign', () => {
+  it('makes the importer its only admin and never carries the share link', async () => {
+    await CampaignExporter.importCampaign(file({}), 'user1', { title: 'Fork' });
+    expect(tx.campaign.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        title: 'Fork',
+        chronicleShareEnabled: false,
+        chronicleShareToken: null,
+        memberships: { create: [{ userId: 'user1', role: 'ADMIN' }] },
+        forkPoint: null,
+      }),
+    }));
+    expect(tx.campaign.create.mock.calls[0][0].data).not.toHaveProperty('id');
+  });
+
+  it('links a fork to its parent and keeps every member and user reference as it was', async () => {
+    const members = [{ userId: 'user1', role: 'ADMIN' as const }, { userId: 'user2', role: 'PLAYER' as const }];
+    await CampaignExporter.importCampaign(file({
+      Character: [{ id: 'ch1', campaignId: 'oldCamp', userId: 'user2', name: 'Ash' }],
+    }), 'user1', { title: 'Fork', lineage: { forkedFromId: 'oldCamp', forkPoint: 'Scene 3' }, members });
+    expect(tx.campaign.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        forkedFrom: { connect: { id: 'oldCamp' } },
+        forkPoint: 'Scene 3',
+        memberships: { create: members },
+      }),
+    }));
+    expect(written('character')[0].userId).toBe('user2');
+  });
+
+  it('writes parents before children and patches the deferred faction leader afterwards', async () => {
+    const result = await CampaignExporter.importCampaign(file({
+      Faction: [{ id: 'f1', campaignId: 'oldCamp', name: 'Guild', leaderCharacterId: 'ch1' }],
+      Character: [{ id: 'ch1', campaignId: 'oldCamp', userId: 'someoneElse', name: 'Ilsa' }],
+    }), 'user1');
+
+    const faction = written('faction')[0];
+    const character = written('character')[0];
+    expect(faction.leaderCharacterId).toBeNull();
+    expect(character).toMatchObject({ campaignId: 'newCamp', userId: 'user1' });
+    expect(delegates.faction.update).toHaveBeenCalledWith({ where: { id: faction.id }, data: { leaderCharacterId: character.id } });
+    expect(result.imported).toEqual({ Faction: 1, Character: 1 });
+  });
+
+  it('drops a row whose skipped duplicate parent would leave it dangling', async () => {
+    tx.nPC.createMany.mockResolvedValueOnce({ count: 1 });
+    tx.nPC.findMany.mockImplementationOnce(async ({ where }: any) => [{ id: where.id.in[0] }]);
+
+    const result = await CampaignExporter.importCampaign(file({
+      NPC: [
+        { id: 'n1', campaignId: 'oldCamp', name: 'Ilsa', impulses: ['i'], moves: ['m'] },
+        { id: 'n2', campaignId: 'oldCamp', name: 'ILSA', impulses: ['i'], moves: ['m'] },
+      ],
+      NpcTie: [{ id: 't1', campaignId: 'oldCamp', npcAId: 'n1', npcBId: 'n2', type: 'RIVAL' }],
+    }), 'user1');
+
+    expect(written('npcTie')).toEqual([]);
+    expect(result.dropped).toEqual({ NPC: 1, NpcTie: 1 });
+  });
+});
+
+describe('CampaignExporter.exportCharacter', () => {
+  it('carries the rows that hang off the character through parent scopes, and nothing else', async () => {
+    tx.character.findUnique.mockResolvedValue({ id: 'ch1', campaignId: 'camp1', userId: 'user1', name: 'Ash' });
+    tx.characterCapability.findMany.mockResolvedValue([{ id: 'cc1', characterId: 'ch1' }]);
+    tx.downtimeActivity.findMany.mockResolvedValue([{ id: 'da1', characterId: 'ch1' }]);
+    tx.downtimeEvent.findMany.mockResolvedValue([{ id: 'de1', activityId: 'da1' }]);
+
+    const result = await CampaignExporter.exportCharacter('ch1');
+
+    expect(result.character).toMatchObject({ id: 'ch1', name: 'Ash' });
+    expect(result.tables).toEqual({
+      CharacterCapability: [{ id: 'cc1', characterId: 'ch1' }],
+      DowntimeActivity: [{ id: 'da1', characterId: 'ch1' }],
+      DowntimeEvent: [{ id: 'de1', activityId: 'da1' }],
+    });
+    // Grandchildren are found through their own parent's rows.
+    expect(tx.downtimeEvent.findMany).toHaveBeenCalledWith({ where: { activityId: { in: ['da1'] } }, orderBy: { id: 'asc' } });
+    // Campaign-scoped history that merely mentions the character is not read.
+    expect(delegates.playerAction?.findMany ?? vi.fn()).not.toHaveBeenCalled();
+    expect(delegates.message?.findMany ?? vi.fn()).not.toHaveBeenCalled();
+  });
+
+  it('throws for a character that does not exist', async () => {
+    tx.character.findUnique.mockResolvedValue(null);
+    await expect(CampaignExporter.exportCharacter('missing')).rejects.toThrow('Character not found');
+  });
+});
+
+describe('remapRow', () => {
+  const data = parseCampaignExport(file({
+    Faction: [
+      { id: 'f1', campaignId: 'oldCamp', name: 'Guild' },
+      { id: 'f2', campaignId: 'oldCamp', name: 'Crown' },
+    ],
+    WorldMeta: [{ id: 'w1', campaignId: 'oldCamp', otherMeta: { spotlight: { f2: 'rising' } } }],
+    Location: [{ id: 'l1', campaignId: 'oldCamp', name: 'Harbor', ownerFactionId: 'gone' }],
+    CampaignMemory: [{ id: 'm1', campaignId: 'oldCamp', memoryType: 'WORLD_EVENT', sourceId: 's', turnNumber: 1, title: 't', summary: 's', fullContext: 'f', involvedFactionIds: ['f1', 'f2', 'elsewhere'] }],
+  }));
+
+  it('follows soft references — id arrays and id-keyed Json — to the new ids', () => {
+    const ctx = createRemapContext(data, 'user1', 'newCamp', mintId);
+    const memory = remapRow(ctx, 'CampaignMemory', data.tables.CampaignMemory[0])!;
+    const meta = remapRow(ctx, 'WorldMeta', data.tables.WorldMeta[0])!;
+
+    expect(memory.involvedFactionIds).toEqual([ctx.idMap.get('f1'), ctx.idMap.get('f2'), 'elsewhere']);
+    expect(meta.otherMeta).toEqual({ spotlight: { [ctx.idMap.get('f2')!]: 'rising' } });
+    expect(meta.campaignId).toBe('newCamp');
+  });
+
+  it('nulls an optional reference to a row the file does not contain', () => {
+    const ctx = createRemapContext(data, 'user1', 'newCamp', mintId);
+    expect(remapRow(ctx, 'Location', data.tables.Location[0])!.ownerFactionId).toBeNull();
+  });
 
-    const written = vi.mocked(prisma.move.create).mock.calls[0][0].data as any;
-    expect(written.outcomes).toEqual(outcomes);
+  it('drops a row whose required reference did not survive, and everything hanging off it', () => {
+    const ctx = createRemapContext(data, 'user1', 'newCamp', mintId);
+    ctx.dead.add(ctx.idMap.get('oldCamp')!);
+    expect(remapRow(ctx, 'Faction', data.tables.Faction[0])).toBeNull();
+    expect(ctx.dead.has(ctx.idMap.get('f1')!)).toBe(true);
+    expect(ctx.dropped).toEqual({ Faction: 1 });
   });
 });
@@ -0,0 +1,85 @@
+// A fork is export → rewind → import. These pin the wiring: the parent's
+// current members come along, the lineage is recorded, and a fork point that can't
+// be honoured fails before anything is written.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { exportCampaign, importCampaign, findMany } = vi.hoisted(() => ({
+  exportCampaign: vi.fn(),
+  importCampaign: vi.fn(),
+  findMany: vi.fn(),
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { campaignMembership: { findMany }, worldMeta: { findUnique: vi.fn() } },
+}))
+vi.mock('../campaign-exporter', () => ({
+  CampaignExporter: { exportCampaign, importCampaign },
+}))
+
+import { forkCampaign } from '../campaignFork'
+import { ForkPointError } from '../forkRewind'
+
+const members = [{ userId: 'u1', role: 'ADMIN', expiresAt: null }, { userId: 'u2', role: 'PLAYER', expiresAt: null }]
+
+function exported() {
+  return {
+    format: 'mythos-campaign-export',
+    version: 2,
+    exportedAt: '2026-08-01T13:00:00.000Z',
+    campaign: { id: 'c1', title: 'The Reach' },
+    tables: {
+      Scene: [
+        { id: 's1', sceneNumber: 1, status: 'RESOLVED', createdAt: new Date('2026-08-01T12:00:00Z'), resolvedAt: new Date('2026-08-01T12:10:00Z') },
+        { id: 's2', sceneNumber: 2, status: 'ACTIVE', createdAt: new Date('2026-08-01T12:20:00Z') },
+      ],
+    },
+    embeddings: { CampaignMemory: {}, LoreEntry: {} },
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  exportCampaign.mockResolvedValue(exported())
+  findMany.mockResolvedValue(members)
+  importCampaign.mockResolvedValue({ campaign: { id: 'c2', title: 'The Reach (Scene 1)' }, imported: {}, dropped: {} })
+})
+
+describe('forkCampaign', () => {
+  it('imports the rewound campaign with its lineage and the same members', async () => {
+    const result = await forkCampaign('c1', 'u1', { kind: 'scene', sceneId: 's1' })
+
+    const [data, userId, options] = importCampaign.mock.calls[0]
+    expect(data.tables.Scene.map((s: { id: string }) => s.id)).toEqual(['s1'])
+    expect(userId).toBe('u1')
+    expect(options).toEqual({
+      title: 'The Reach (Scene 1)',
+      lineage: { forkedFromId: 'c1', forkPoint: 'Scene 1' },
+      members,
+    })
+    expect(result).toMatchObject({ campaign: { id: 'c2' }, forkPoint: 'Scene 1', rewind: { removed: { Scene: 1 } } })
+  })
+
+  it('brings a guest along with their expiry, and leaves lapsed passes behind', async () => {
+    const guest = { userId: 'u3', role: 'GUEST', expiresAt: new Date(Date.now() + 60 * 60 * 1000) }
+    findMany.mockResolvedValue([...members, guest])
+
+    await forkCampaign('c1', 'u1', { kind: 'latest' })
+
+    expect(findMany.mock.calls[0][0]).toMatchObject({
+      where: { campaignId: 'c1', OR: [{ expiresAt: null }, { expiresAt: { gt: expect.any(Date) } }] },
+      select: { userId: true, role: true, expiresAt: true },
+    })
+    expect(importCampaign.mock.calls[0][2].members).toContainEqual(guest)
+  })
+
+  it('uses a title the admin gave', async () => {
+    await forkCampaign('c1', 'u1', { kind: 'latest' }, { title: 'What if' })
+    expect(importCampaign.mock.calls[0][2].title).toBe('What if')
+  })
+
+  it('writes nothing for a fork point it cannot honour', async () => {
+    await expect(forkCampaign('c1', 'u1', { kind: 'scene', sceneId: 's2' })).rejects.toBeInstanceOf(ForkPointError)
+    expect(importCampaign).not.toHaveBeenCalled()
+  })
+})
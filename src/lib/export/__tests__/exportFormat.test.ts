@@ -0,0 +1,107 @@
+// Export files are untrusted input (#201): parseCampaignExport is the only
+// way in, so it must reject anything that doesn't fit the schema BEFORE the
+// importer sees it, and must carry an older file forward rather than
+// refusing it.
+
+import { describe, it, expect } from 'vitest'
+import { parseCampaignExport, rowSchemaFor, ExportFormatError, EXPORT_FORMAT, EXPORT_FORMAT_VERSION } from '../exportFormat'
+import { migrateExport } from '../exportMigrations'
+import { EXPORT_TABLES } from '../exportGraph'
+
+const campaign = { id: 'c1', title: 'The Reach', aiSystemPrompt: 'p', initialWorldSeed: 's' }
+
+function v2(tables: Record<string, unknown[]> = {}, extra: Record<string, unknown> = {}) {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: '2026-08-01T00:00:00.000Z',
+    campaign,
+    tables,
+    ...extra,
+  }
+}
+
+describe('rowSchemaFor', () => {
+  it('builds a schema for every exported model', () => {
+    for (const { model } of EXPORT_TABLES) expect(() => rowSchemaFor(model)).not.toThrow()
+  })
+
+  it('requires the id and the columns without defaults', () => {
+    expect(rowSchemaFor('Faction').safeParse({ campaignId: 'c1', name: 'Guild' }).success).toBe(false)
+    expect(rowSchemaFor('Faction').safeParse({ id: 'f1', campaignId: 'c1' }).success).toBe(false)
+    expect(rowSchemaFor('Faction').safeParse({ id: 'f1', campaignId: 'c1', name: 'Guild' }).success).toBe(true)
+  })
+
+  it('revives ISO date strings and strips keys the schema does not know', () => {
+    const parsed = rowSchemaFor('Faction').parse({
+      id: 'f1', campaignId: 'c1', name: 'Guild', createdAt: '2026-08-01T00:00:00.000Z', campaign: { title: 'x' },
+    })
+    expect(parsed.createdAt).toEqual(new Date('2026-08-01T00:00:00.000Z'))
+    expect(parsed).not.toHaveProperty('campaign')
+  })
+
+  it('rejects a value outside an enum', () => {
+    const row = { id: 'm1', campaignId: 'c1', memoryType: 'NOT_A_TYPE', sourceId: 's', turnNumber: 1, title: 't', summary: 's', fullContext: 'f' }
+    expect(rowSchemaFor('CampaignMemory').safeParse(row).success).toBe(false)
+  })
+})
+
+describe('parseCampaignExport', () => {
+  it('accepts a current-version file and defaults the embeddings', () => {
+    const parsed = parseCampaignExport(v2({ Faction: [{ id: 'f1', campaignId: 'c1', name: 'Guild' }] }))
+    expect(parsed.tables.Faction).toHaveLength(1)
+    expect(parsed.embeddings).toEqual({ CampaignMemory: {}, LoreEntry: {} })
+  })
+
+  it('names the offending row when one does not validate', () => {
+    const bad = v2({ Faction: [{ id: 'f1', campaignId: 'c1', name: 'Guild' }, { id: 'f2', campaignId: 'c1', name: 7 }] })
+    expect(() => parseCampaignExport(bad)).toThrow(ExportFormatError)
+    expect(() => parseCampaignExport(bad)).toThrow(/Faction\[1\]\.name/)
+  })
+
+  it('rejects a table the export format does not carry', () => {
+    expect(() => parseCampaignExport(v2({ Transaction: [] }))).toThrow(/unknown table/)
+  })
+
+  it('rejects an invalid campaign row', () => {
+    expect(() => parseCampaignExport(v2({}, { campaign: { id: 'c1', title: 'x' } }))).toThrow(/campaign\.aiSystemPrompt/)
+  })
+
+  it('rejects a file that is not an export at all', () => {
+    expect(() => parseCampaignExport('nope')).toThrow(ExportFormatError)
+    expect(() => parseCampaignExport({ version: 99 })).toThrow(/unsupported/)
+  })
+})
+
+describe('migrateExport — v1 (1.0.0)', () => {
+  const action = { id: 'a1', sceneId: 's1', characterId: 'ch1', userId: 'u1', actionText: 'I run.' }
+  const v1 = {
+    version: '1.0.0',
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    campaign: { ...campaign, memberships: [{ userId: 'u1' }] },
+    npcs: [{ id: 'n1', campaignId: 'c1', name: 'Ilsa', impulses: ['i'], moves: ['m'] }],
+    factions: [{ campaignId: 'c1', name: 'Guild' }],
+    scenes: [{ id: 's1', campaignId: 'c1', sceneNumber: 1, sceneIntroText: 'Rain.', playerActions: [action] }],
+    worldMeta: { id: 'w1', campaignId: 'c1', currentTurnNumber: 12 },
+  }
+
+  it('maps each v1 section onto its table and lifts nested player actions out of scenes', () => {
+    const migrated = migrateExport(v1) as any
+    expect(migrated).toMatchObject({ format: EXPORT_FORMAT, version: EXPORT_FORMAT_VERSION })
+    expect(migrated.tables.NPC).toEqual(v1.npcs)
+    expect(migrated.tables.PlayerAction).toEqual([action])
+    expect(migrated.tables.WorldMeta).toEqual([v1.worldMeta])
+  })
+
+  it('gives id-less hand-written rows a placeholder id so they can still be remapped', () => {
+    const migrated = migrateExport(v1) as any
+    expect(migrated.tables.Faction[0].id).toBe('v1-Faction-0')
+  })
+
+  it('validates as the current version once migrated', () => {
+    const parsed = parseCampaignExport(v1)
+    expect(parsed.version).toBe(EXPORT_FORMAT_VERSION)
+    expect(parsed.campaign).not.toHaveProperty('memberships')
+    expect(Object.keys(parsed.tables).sort()).toEqual(['Faction', 'NPC', 'PlayerAction', 'Scene', 'WorldMeta'])
+  })
+})
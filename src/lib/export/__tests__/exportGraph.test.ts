@@ -0,0 +1,70 @@
+// The export covers a campaign by MODEL, not by column — so the one thing
+// that can silently go stale is a new model nobody classified. Every model
+// in the schema must be exported or excluded with a reason, and the
+// exported set must always have a valid write order.
+
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { EXPORT_TABLES, EXCLUDED_MODELS, planImportOrder, relationEdges, delegateName } from '../exportGraph'
+
+const exported = EXPORT_TABLES.map((t) => t.model)
+
+describe('export coverage', () => {
+  it('classifies every model in the schema exactly once', () => {
+    for (const { name } of Prisma.dmmf.datamodel.models) {
+      const inExport = exported.includes(name)
+      const inExcluded = name in EXCLUDED_MODELS
+      expect({ name, classified: inExport !== inExcluded }).toEqual({ name, classified: true })
+    }
+  })
+
+  it('names only models that exist', () => {
+    const models = Prisma.dmmf.datamodel.models.map((m) => m.name)
+    for (const name of [...exported, ...Object.keys(EXCLUDED_MODELS)]) {
+      expect(models).toContain(name)
+    }
+  })
+
+  it('scopes every exported table to the campaign, directly or through an exported parent', () => {
+    for (const { model, scope } of EXPORT_TABLES) {
+      const fields = Prisma.dmmf.datamodel.models.find((m) => m.name === model)!.fields.map((f) => f.name)
+      if (scope.kind === 'campaign') {
+        expect({ model, field: fields.includes('campaignId') }).toEqual({ model, field: true })
+      } else {
+        expect(fields).toContain(scope.field)
+        expect(exported.indexOf(scope.parent)).toBeLessThan(exported.indexOf(model))
+      }
+    }
+  })
+})
+
+describe('planImportOrder', () => {
+  const { models, deferred } = planImportOrder()
+
+  it('orders every exported table so each required relation is written first', () => {
+    expect([...models].sort()).toEqual([...exported].sort())
+    for (const model of models) {
+      for (const edge of relationEdges(model)) {
+        if (!edge.required || !exported.includes(edge.target) || edge.target === model) continue
+        expect(models.indexOf(edge.target)).toBeLessThan(models.indexOf(model))
+      }
+    }
+  })
+
+  it('breaks the Character → Location → Faction cycle by deferring the faction leader', () => {
+    expect(deferred).toEqual({ Faction: ['leaderCharacterId'] })
+  })
+
+  it('throws when a required relation points at a table the export leaves out', () => {
+    // PlayerAction requires its Scene — without Scene, no import could
+    // ever satisfy that foreign key.
+    expect(() => planImportOrder([{ model: 'PlayerAction', scope: { kind: 'campaign' } }])).toThrow(/not exported/)
+  })
+})
+
+describe('delegateName', () => {
+  it('lowercases only the first letter, like the generated client', () => {
+    expect(delegateName('NPC')).toBe('nPC')
+    expect(delegateName('WorldMeta')).toBe('worldMeta')
+  })
+})
@@ -0,0 +1,133 @@
+// Forking at an earlier point is a rewind of the present export, driven by
+// row createdAt and the WorldEvent log. These pin the two promises that
+// make it trustworthy: a column comes back to exactly the value it had at
+// the cutoff, and anything the log can't give back is reported, not
+// guessed.
+
+import { describe, it, expect } from 'vitest'
+import { resolveForkPoint, rewindExport, ForkPointError } from '../forkRewind'
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION, type CampaignExport } from '../exportFormat'
+
+const t = (minute: number) => new Date(Date.UTC(2026, 7, 1, 12, minute))
+
+function event(id: string, minute: number, turnNumber: number, fields: Record<string, unknown>) {
+  return { id, campaignId: 'c1', turnNumber, createdAt: t(minute), type: 'faction.resources', origin: 'tick', targetType: 'FACTION', targetId: 'f1', targetName: 'Guild', field: 'resources', reason: 'r', ...fields }
+}
+
+function exportOf(tables: Record<string, Array<Record<string, unknown>>>): CampaignExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: t(59).toISOString(),
+    campaign: { id: 'c1', title: 'The Reach' },
+    tables,
+    embeddings: { CampaignMemory: {}, LoreEntry: {} },
+  }
+}
+
+const clock = { currentTurnNumber: 12, simulationTurn: 2, totalElapsedGameHours: 30, hoursSinceWorldTurn: 6, currentInGameDate: 'Spring 3' }
+
+function campaign() {
+  return exportOf({
+    WorldMeta: [{ id: 'w1', campaignId: 'c1', simulationTurn: 4, currentTurnNumber: 20, totalElapsedGameHours: 80, hoursSinceWorldTurn: 2, currentInGameDate: 'Summer 1', createdAt: t(0) }],
+    Scene: [
+      { id: 's1', sceneNumber: 1, status: 'RESOLVED', createdAt: t(1), updatedAt: t(40), resolvedAt: t(10), clockAtResolution: clock },
+      { id: 's2', sceneNumber: 2, status: 'ACTIVE', createdAt: t(20), updatedAt: t(30), resolvedAt: null },
+    ],
+    Faction: [
+      { id: 'f1', campaignId: 'c1', name: 'Guild', resources: 20, isActive: false, beliefVector: { order: 1 }, createdAt: t(0) },
+      { id: 'f2', campaignId: 'c1', name: 'Upstarts', resources: 50, createdAt: t(25) },
+    ],
+    WorldEvent: [
+      event('e0', 5, 2, { previousValue: '80', newValue: '70' }),
+      event('e1', 15, 3, { previousValue: '70', newValue: '40' }),
+      event('e2', 15, 3, { previousValue: '40', newValue: '20' }),
+      event('e3', 16, 3, { field: 'isActive', previousValue: 'true', newValue: 'false' }),
+      event('e4', 17, 3, { field: 'beliefVector', previousValue: '[object Object]', newValue: '[object Object]' }),
+      event('e5', 18, 3, { field: 'warDeclared', previousValue: null, newValue: 'Upstarts' }),
+      event('e6', 26, 4, { targetId: 'f2', previousValue: '60', newValue: '50' }),
+    ],
+  })
+}
+
+describe('resolveForkPoint', () => {
+  it('forks at a resolved scene from its resolution time and clock checkpoint', () => {
+    const resolved = resolveForkPoint(campaign(), { kind: 'scene', sceneId: 's1' })
+    expect(resolved).toEqual({ cutoff: t(10), clock, clockFidelity: 'exact', label: 'Scene 1' })
+  })
+
+  it('refuses a scene that has not ended, or is not in the campaign', () => {
+    expect(() => resolveForkPoint(campaign(), { kind: 'scene', sceneId: 's2' })).toThrow(ForkPointError)
+    expect(() => resolveForkPoint(campaign(), { kind: 'scene', sceneId: 'nope' })).toThrow(/not found/)
+  })
+
+  it('ends a world turn just before the next turn first changed anything', () => {
+    const resolved = resolveForkPoint(campaign(), { kind: 'turn', turnNumber: 2 })
+    expect(resolved.cutoff).toEqual(new Date(t(15).getTime() - 1))
+    expect(resolved.clockFidelity).toBe('approximate')
+    expect(resolved.clock).toEqual({ ...clock, simulationTurn: 2, hoursSinceWorldTurn: 0 })
+    expect(resolved.label).toBe('World turn 2')
+  })
+
+  it('rejects a turn out of range, and treats the current turn as now', () => {
+    expect(() => resolveForkPoint(campaign(), { kind: 'turn', turnNumber: 5 })).toThrow(/between 0 and 4/)
+    expect(() => resolveForkPoint(campaign(), { kind: 'turn', turnNumber: -1 })).toThrow(ForkPointError)
+    expect(resolveForkPoint(campaign(), { kind: 'turn', turnNumber: 4 }).cutoff).toBeNull()
+  })
+
+  it('refuses a past turn the event log has nothing after', () => {
+    const data = campaign()
+    data.tables.WorldEvent = []
+    expect(() => resolveForkPoint(data, { kind: 'turn', turnNumber: 1 })).toThrow(/No recorded history/)
+  })
+})
+
+describe('rewindExport', () => {
+  it('returns the export untouched for a fork at the latest point', () => {
+    const data = campaign()
+    const { data: out, report } = rewindExport(data, resolveForkPoint(data, { kind: 'latest' }))
+    expect(out).toBe(data)
+    expect(report).toEqual({ cutoff: null, clock: 'unchanged', removed: {}, reverted: 0, unreverted: {} })
+  })
+
+  it('drops rows created after the cutoff', () => {
+    const data = campaign()
+    const { data: out, report } = rewindExport(data, resolveForkPoint(data, { kind: 'scene', sceneId: 's1' }))
+    expect(out.tables.Scene.map((s) => s.id)).toEqual(['s1'])
+    expect(out.tables.Faction.map((f) => f.id)).toEqual(['f1'])
+    expect(report.removed).toEqual({ Scene: 1, Faction: 1, WorldEvent: 6 })
+  })
+
+  it('restores each column to the previous value of its FIRST later change', () => {
+    const data = campaign()
+    const { data: out, report } = rewindExport(data, resolveForkPoint(data, { kind: 'scene', sceneId: 's1' }))
+    const guild = out.tables.Faction[0]
+    // e1 and e2 share a timestamp; taking e1's previousValue is what keeps
+    // a same-batch pair from being undone in the wrong order.
+    expect(guild.resources).toBe(70)
+    expect(guild.isActive).toBe(true)
+    expect(report.reverted).toBe(2)
+  })
+
+  it('reports what the log cannot undo instead of guessing', () => {
+    const data = campaign()
+    const { data: out, report } = rewindExport(data, resolveForkPoint(data, { kind: 'scene', sceneId: 's1' }))
+    expect(out.tables.Faction[0].beliefVector).toEqual({ order: 1 })
+    expect(report.unreverted).toEqual({ 'Faction.beliefVector': 1, 'Faction.warDeclared': 1 })
+  })
+
+  it('restores the WorldMeta clocks from the checkpoint', () => {
+    const data = campaign()
+    const { data: out, report } = rewindExport(data, resolveForkPoint(data, { kind: 'scene', sceneId: 's1' }))
+    expect(out.tables.WorldMeta[0]).toMatchObject(clock)
+    expect(report.clock).toBe('exact')
+  })
+
+  it('never mutates the export it was given', () => {
+    const data = campaign()
+    rewindExport(data, resolveForkPoint(data, { kind: 'turn', turnNumber: 2 }))
+    expect(data.tables.Faction[0].resources).toBe(20)
+    expect(data.tables.WorldMeta[0].simulationTurn).toBe(4)
+    expect(data.tables.Scene).toHaveLength(2)
+  })
+})
@@ -1,451 +1,366 @@
 /**
  * Phase 18.6: Campaign Export/Import Service
  *
- * Allows players to export campaigns, characters, and scene data
- * Supports JSON format for full data export
+ * Exports a campaign's whole simulation graph — every table in
+ * EXPORT_TABLES (exportGraph.ts), rows whole — as a versioned file
+ * (exportFormat.ts), and imports one back as a new, independent campaign.
+ * Used for backups, for moving a campaign between deployments, and as the
+ * copy step behind forking.
+ *
+ * Import is the hard half. Every row gets a fresh id, so every reference to
+ * an old id has to follow it: relation FKs (read from the schema, never
+ * listed by hand), plus the soft references the schema can't see — id
+ * arrays like CampaignMemory.involvedNpcIds, WorldEvent.targetId, ids inside
+ * Json blobs. Ids are cuids/uuids, so any
+ * string that EXACTLY equals an exported row's id is that row; remapping by
+ * exact match catches all of them without a list of which columns hold
+ * ids, and never touches prose.
  */
 
+import { randomUUID } from 'crypto'
+import { Prisma, type UserRole } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
-import { isUniqueConstraintViolation } from '@/lib/game/worldUpdaters/uniqueConstraintGuard';
-import { extractWorldStateChanges } from '@/lib/game/worldStateChanges';
 import { sanitizeMoveOutcomes } from '@/lib/game/resolution';
+import { getMoveSet } from '@/lib/moveSets';
+import { EXPORT_TABLES, delegateName, dmmfModel, planImportOrder, relationEdges, type RelationEdge } from './exportGraph'
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION, parseCampaignExport, type CampaignExport } from './exportFormat'
 
-export interface ExportOptions {
-  includeCharacters?: boolean;
-  includeScenes?: boolean;
-  includeTimeline?: boolean;
-  includeMessages?: boolean;
-  includeNotes?: boolean;
-  includeNPCs?: boolean;
-  includeFactions?: boolean;
-  includeClocks?: boolean;
-  includeMoves?: boolean;
-  includeWorldMeta?: boolean;
-}
+type Row = Record<string, unknown>
 
-export interface CampaignExportData {
-  version: string; // Export format version
-  exportedAt: string;
-  campaign: any;
-  characters?: any[];
-  scenes?: any[];
-  timeline?: any[];
-  messages?: any[];
-  notes?: any[];
-  npcs?: any[];
-  factions?: any[];
-  clocks?: any[];
-  moves?: any[];
-  worldMeta?: any;
+interface TableDelegate {
+  findMany(args: object): Promise<Row[]>
+  createMany(args: object): Promise<{ count: number }>
+  update(args: object): Promise<unknown>
 }
 
-export class CampaignExporter {
-  /**
-   * Export full campaign data
-   */
-  static async exportCampaign(
-    campaignId: string,
-    options: ExportOptions = {}
-  ): Promise<CampaignExportData> {
-    // Default to exporting everything
-    const opts = {
-      includeCharacters: true,
-      includeScenes: true,
-      includeTimeline: true,
-      includeMessages: true,
-      includeNotes: true,
-      includeNPCs: true,
-      includeFactions: true,
-      includeClocks: true,
-      includeMoves: true,
-      includeWorldMeta: true,
-      ...options,
-    };
-
-    // Fetch campaign
-    const campaign = await prisma.campaign.findUnique({
-      where: { id: campaignId },
-      include: {
-        memberships: {
-          include: {
-            user: {
-              select: { id: true, name: true, email: true },
-            },
-          },
-        },
-      },
-    });
-
-    if (!campaign) {
-      throw new Error('Campaign not found');
-    }
-
-    const exportData: CampaignExportData = {
-      version: '1.0.0',
-      exportedAt: new Date().toISOString(),
-      campaign: this.sanitizeCampaign(campaign),
-    };
-
-    // Fetch related data based on options
-    if (opts.includeCharacters) {
-      exportData.characters = await this.exportCharacters(campaignId);
-    }
-
-    if (opts.includeScenes) {
-      exportData.scenes = await this.exportScenes(campaignId);
-    }
-
-    if (opts.includeTimeline) {
-      exportData.timeline = await this.exportTimeline(campaignId);
-    }
-
-    if (opts.includeMessages) {
-      exportData.messages = await this.exportMessages(campaignId);
-    }
-
-    if (opts.includeNotes) {
-      exportData.notes = await this.exportNotes(campaignId);
-    }
-
-    if (opts.includeNPCs) {
-      exportData.npcs = await this.exportNPCs(campaignId);
-    }
-
-    if (opts.includeFactions) {
-      exportData.factions = await this.exportFactions(campaignId);
-    }
-
-    if (opts.includeClocks) {
-      exportData.clocks = await this.exportClocks(campaignId);
-    }
-
-    if (opts.includeMoves) {
-      exportData.moves = await this.exportMoves(campaignId);
-    }
+function delegateFor(client: unknown, model: string): TableDelegate {
+  return (client as Record<string, TableDelegate>)[delegateName(model)]
+}
 
-    if (opts.includeWorldMeta) {
-      exportData.worldMeta = await this.exportWorldMeta(campaignId);
-    }
-
-    return exportData;
-  }
+/** Rows per createMany — keeps one statement's bind parameters well under Postgres' 65535. */
+const IMPORT_CHUNK_SIZE = 500
 
+/**
+ * An import is one transaction — a half-imported campaign is worse than
+ * none — and a long-running campaign is tens of thousands of rows, so the
+ * default 5s interactive-transaction timeout would kill every real one.
+ */
+const IMPORT_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000
+
+/** pgvector columns Prisma can't read, by model: the table they live in. */
+const EMBEDDING_TABLES = {
+  CampaignMemory: Prisma.raw('"campaign_memories"'),
+  LoreEntry: Prisma.raw('"lore_entries"'),
+} as const
+
+export interface ImportOptions {
+  /** Defaults to "<source title> (Imported)". */
+  title?: string
+  /** Set by forking; a plain import has no parent in this deployment. */
+  lineage?: { forkedFromId: string; forkPoint: string }
   /**
-   * Export character data
+   * Who plays the new campaign. Omitted (a file from anywhere): the
+   * importer alone, as ADMIN, owning everything. Given (a fork, same
+   * deployment): these members with these roles, and every user reference
+   * kept as it was — the same players keep their own characters. A
+   * guest's expiresAt comes with them, so a fork doesn't extend a pass.
    */
-  static async exportCharacter(characterId: string) {
-    const character = await prisma.character.findUnique({
-      where: { id: characterId },
-      include: {
-        playerActions: {
-          orderBy: { createdAt: 'asc' },
-        },
-        diceRolls: {
-          orderBy: { createdAt: 'asc' },
-        },
-      },
-    });
-
-    return character;
-  }
-
-  // Private helper methods
+  members?: Array<{ userId: string; role: UserRole; expiresAt?: Date | null }>
+}
 
-  private static sanitizeCampaign(campaign: any) {
-    // Remove sensitive data if needed
-    return campaign;
-  }
+export interface ImportResult {
+  campaign: { id: string; title: string }
+  /** Rows written, per model. */
+  imported: Record<string, number>
+  /** Rows left out, per model — a required reference that didn't survive, or a duplicate. */
+  dropped: Record<string, number>
+}
 
-  private static async exportCharacters(campaignId: string) {
-    return await prisma.character.findMany({
-      where: { campaignId },
-      include: {
-        user: {
-          select: { id: true, name: true },
-        },
-      },
-    });
-  }
+/** One character and the rows that belong to it alone, for the account export. */
+export interface CharacterExport {
+  character: Row
+  /** Capabilities, downtime — per model, like CampaignExport.tables. */
+  tables: Record<string, Row[]>
+}
 
-  private static async exportScenes(campaignId: string) {
-    const scenes = await prisma.scene.findMany({
-      where: { campaignId },
-      include: {
-        playerActions: {
-          include: {
-            character: {
-              select: { name: true },
-            },
-          },
-        },
-      },
-      orderBy: { sceneNumber: 'asc' },
-    });
-
-    // Surface what actually CHANGED in each scene as a named field rather
-    // than leaving it buried in the untyped `consequences` blob. An export
-    // is something a person reads; "here is what this scene changed about
-    // the world" is the most useful thing in that record and it was the
-    // least reachable. Extracted through the shared reader (#61) so the
-    // export and the story page agree on the shape instead of each
-    // reaching into the Json by hand.
-    return scenes.map(scene => ({
-      ...scene,
-      worldStateChanges: extractWorldStateChanges(scene.consequences),
-    }));
-  }
+/**
+ * Where import is up to: old id → new id for every row in the file, plus
+ * the new ids that turned out NOT to exist (dropped for a dangling required
+ * reference, or skipped as a duplicate) so nothing downstream points at
+ * them.
+ */
+export interface RemapContext {
+  idMap: Map<string, string>
+  dead: Set<string>
+  /** Who every user reference becomes; null keeps them as they are. */
+  importerId: string | null
+  patches: Array<{ model: string; id: string; data: Row }>
+  dropped: Record<string, number>
+}
 
-  private static async exportTimeline(campaignId: string) {
-    return await prisma.timelineEvent.findMany({
-      where: { campaignId },
-      orderBy: { turnNumber: 'asc' },
-    });
+/**
+ * Mint a new id for the campaign and every row in the export. Unless
+ * `importerId` is null, every user a relation points at maps to the
+ * importer — accounts don't travel between deployments, and the importer
+ * is the only member of the new campaign — which also sweeps the same user
+ * ids out of any soft column.
+ */
+export function createRemapContext(
+  data: CampaignExport,
+  importerId: string | null,
+  newCampaignId: string,
+  mintId: () => string = randomUUID
+): RemapContext {
+  const idMap = new Map<string, string>([[String(data.campaign.id), newCampaignId]])
+  for (const [model, rows] of Object.entries(data.tables)) {
+    const userFks = relationEdges(model).filter((edge) => edge.target === 'User').map((edge) => edge.field)
+    for (const row of rows) {
+      idMap.set(String(row.id), mintId())
+      for (const field of importerId === null ? [] : userFks) {
+        if (typeof row[field] === 'string') idMap.set(row[field] as string, importerId!)
+      }
+    }
   }
+  return { idMap, dead: new Set(), importerId, patches: [], dropped: {} }
+}
 
-  private static async exportMessages(campaignId: string) {
-    return await prisma.message.findMany({
-      where: { campaignId },
-      include: {
-        author: {
-          select: { name: true },
-        },
-        character: {
-          select: { name: true },
-        },
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+function remapValue(value: unknown, idMap: Map<string, string>): unknown {
+  if (typeof value === 'string') return idMap.get(value) ?? value
+  if (Array.isArray(value)) return value.map((item) => remapValue(item, idMap))
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [idMap.get(key) ?? key, remapValue(inner, idMap)])
+    )
   }
+  return value
+}
 
-  private static async exportNotes(campaignId: string) {
-    return await prisma.playerNote.findMany({
-      where: { campaignId },
-      include: {
-        author: {
-          select: { name: true },
-        },
-        character: {
-          select: { name: true },
-        },
-        npc: {
-          select: { name: true },
-        },
-        faction: {
-          select: { name: true },
-        },
-      },
-      orderBy: { createdAt: 'asc' },
-    });
-  }
+function resolveReference(ctx: RemapContext, edge: RelationEdge, oldId: string): string | null {
+  if (edge.target === 'User') return ctx.importerId ?? oldId
+  const mapped = ctx.idMap.get(oldId)
+  return mapped && !ctx.dead.has(mapped) ? mapped : null
+}
 
-  private static async exportNPCs(campaignId: string) {
-    return await prisma.nPC.findMany({
-      where: { campaignId },
-      orderBy: { importance: 'desc' },
-    });
+/**
+ * Per-model fixes applied on the way in. Each exists because a column is
+ * either untrusted in a shape resolution can't survive, or is live state
+ * of the SOURCE campaign that must not carry over.
+ */
+function applyImportOverrides(model: string, row: Row): void {
+  if (model === 'Move') {
+    // #201: outcomes comes straight from an untrusted export file — a
+    // corrupted or hand-edited export can plant a shape that isn't even an
+    // object, which resolution.ts's rolling path would then throw on.
+    // Row validation only proves it's Json; sanitize so a bad row degrades
+    // to "no flavor for that band" rather than crashing dice mechanics for
+    // a whole exchange the first time this move comes up.
+    row.outcomes = sanitizeMoveOutcomes(row.outcomes)
   }
-
-  private static async exportFactions(campaignId: string) {
-    return await prisma.faction.findMany({
-      where: { campaignId },
-      orderBy: { influence: 'desc' },
-    });
+  if (model === 'WorldMeta') {
+    // #376: a lease held by the source deployment's world turn would lock
+    // the copy out of world turns until it timed out.
+    row.worldTurnRunningSince = null
   }
+}
 
-  private static async exportClocks(campaignId: string) {
-    return await prisma.clock.findMany({
-      where: { campaignId },
-      orderBy: { createdAt: 'asc' },
-    });
+/**
+ * Remap one row into the new campaign, or return null if it can't exist
+ * there. Relation FKs follow their target's new id; a target that isn't in
+ * the file (or didn't survive) nulls an optional FK and drops the row for
+ * a required one. `deferred` FKs (exportGraph's cycle-breakers) are written
+ * null and queued as patches for once every row exists.
+ */
+export function remapRow(ctx: RemapContext, model: string, row: Row, deferred: readonly string[] = []): Row | null {
+  const edges = relationEdges(model)
+  const relationFields = new Set(edges.map((edge) => edge.field))
+  const jsonFields = new Set(dmmfModel(model).fields.filter((f) => f.type === 'Json').map((f) => f.name))
+
+  const out: Row = {}
+  for (const [field, value] of Object.entries(row)) {
+    if (relationFields.has(field)) continue
+    // A null Json column is "no value" — createMany won't take a bare null
+    // for Json, and omitting it writes SQL NULL, which is what it was.
+    if (jsonFields.has(field) && value === null) continue
+    out[field] = remapValue(value, ctx.idMap)
   }
 
-  private static async exportMoves(campaignId: string) {
-    return await prisma.move.findMany({
-      where: { campaignId },
-      orderBy: { category: 'asc' },
-    });
+  const id = out.id as string
+  const patch: Row = {}
+  for (const edge of edges) {
+    const oldId = row[edge.field]
+    if (typeof oldId !== 'string') {
+      if (oldId === null) out[edge.field] = null
+      continue
+    }
+    const resolved = resolveReference(ctx, edge, oldId)
+    if (resolved === null && edge.required) {
+      ctx.dead.add(id)
+      ctx.dropped[model] = (ctx.dropped[model] ?? 0) + 1
+      return null
+    }
+    if (resolved !== null && deferred.includes(edge.field)) {
+      out[edge.field] = null
+      patch[edge.field] = resolved
+    } else {
+      out[edge.field] = resolved
+    }
   }
+  if (Object.keys(patch).length > 0) ctx.patches.push({ model, id, data: patch })
 
-  private static async exportWorldMeta(campaignId: string) {
-    return await prisma.worldMeta.findUnique({
-      where: { campaignId },
-    });
-  }
+  applyImportOverrides(model, out)
+  return out
+}
 
+export class CampaignExporter {
   /**
-   * Import campaign from export data
+   * Export a campaign's full graph in the current format. Rows go out
+   * whole, in EXPORT_TABLES order, each table scoped to this campaign —
+   * directly by campaignId, or through a parent row already exported.
    */
-  static async importCampaign(data: CampaignExportData, userId: string, newTitle?: string) {
-    // Validate export version
-    if (!data.version || data.version !== '1.0.0') {
-      throw new Error('Unsupported export format version');
+  static async exportCampaign(campaignId: string): Promise<CampaignExport> {
+    const campaign = await prisma.campaign.findUnique({ where: { id: campaignId } })
+    if (!campaign) {
+      throw new Error('Campaign not found');
     }
 
-    // Create new campaign with imported data
-    const campaignData = data.campaign;
-    const newCampaign = await prisma.campaign.create({
-      data: {
-        title: newTitle || `${campaignData.title} (Imported)`,
-        description: campaignData.description,
-        universe: campaignData.universe,
-        aiSystemPrompt: campaignData.aiSystemPrompt,
-        initialWorldSeed: campaignData.initialWorldSeed,
-        isActive: true,
-        memberships: {
-          create: {
-            userId,
-            role: 'ADMIN',
-          },
-        },
-      },
-    });
-
-    // Import related data (optional, can be selective)
-    if (data.npcs) {
-      await this.importNPCs(newCampaign.id, data.npcs);
+    const tables: Record<string, Row[]> = {}
+    for (const { model, scope } of EXPORT_TABLES) {
+      const where = scope.kind === 'campaign'
+        ? { campaignId }
+        : { [scope.field]: { in: (tables[scope.parent] ?? []).map((row) => row.id) } }
+      tables[model] = await delegateFor(prisma, model).findMany({ where, orderBy: { id: 'asc' } })
     }
 
-    if (data.factions) {
-      await this.importFactions(newCampaign.id, data.factions);
+    const embeddings: CampaignExport['embeddings'] = { CampaignMemory: {}, LoreEntry: {} }
+    for (const [model, table] of Object.entries(EMBEDDING_TABLES)) {
+      const rows = await prisma.$queryRaw<Array<{ id: string; embedding: string }>>`
+        SELECT id, embedding::text AS embedding FROM ${table}
+        WHERE "campaignId" = ${campaignId} AND embedding IS NOT NULL
+      `
+      embeddings[model as keyof typeof EMBEDDING_TABLES] = Object.fromEntries(rows.map((r) => [r.id, r.embedding]))
     }
 
-    if (data.moves) {
-      await this.importMoves(newCampaign.id, data.moves);
+    return {
+      format: EXPORT_FORMAT,
+      version: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      campaign,
+      tables,
+      embeddings,
     }
+  }
 
-    if (data.worldMeta) {
-      await this.importWorldMeta(newCampaign.id, data.worldMeta);
+  /**
+   * Export one character: its row, plus every EXPORT_TABLES table that
+   * hangs off it through parent scopes alone (capabilities, downtime
+   * activities and their events) — found by walking the same scopes
+   * exportCampaign follows, so a table added under Character later is in
+   * here without touching this. Tables scoped to the campaign that merely
+   * mention the character (actions, rolls, messages) are not: those are
+   * the campaign's history, and the account export reads them by author.
+   */
+  static async exportCharacter(characterId: string): Promise<CharacterExport> {
+    const character = await prisma.character.findUnique({ where: { id: characterId } })
+    if (!character) {
+      throw new Error('Character not found');
     }
 
-    // Note: Characters, scenes, and sessions are NOT imported
-    // as they're tied to specific users and play sessions
+    const tables: Record<string, Row[]> = {}
+    const owned: Record<string, Row[]> = { Character: [character] }
+    for (const { model, scope } of EXPORT_TABLES) {
+      if (scope.kind !== 'parent' || !owned[scope.parent]) continue
+      const where = { [scope.field]: { in: owned[scope.parent].map((row) => row.id) } }
+      tables[model] = owned[model] = await delegateFor(prisma, model).findMany({ where, orderBy: { id: 'asc' } })
+    }
 
-    return newCampaign;
+    return { character, tables }
   }
 
-  private static async importNPCs(campaignId: string, npcs: any[]) {
-    // #405: location lives in TWO columns — currentLocation (free text) and
-    // locationId (the real FK) — and this wrote only the string. A nullable
-    // FK plus a name-based fallback at every reader means a writer that
-    // forgets it produces no error at any layer: the system silently
-    // degrades to the pre-FK behaviour, and three roll modifiers (weather,
-    // contested, location condition) quietly drop to neutral for that
-    // entity. Resolved against the real Location rows here, the same way
-    // characterCreation.ts does.
-    const locations = await prisma.location.findMany({
-      where: { campaignId },
-      select: { id: true, name: true },
-    })
-    const locationIdByName = new Map(locations.map((l) => [l.name.trim().toLowerCase(), l.id]))
-
-    for (const npc of npcs) {
-      const locationId = npc.currentLocation
-        ? locationIdByName.get(String(npc.currentLocation).trim().toLowerCase()) ?? null
-        : null
-      if (npc.currentLocation && !locationId) {
-        console.warn(`  ❓ imported NPC "${npc.name}": location "${npc.currentLocation}" matched no Location row — FK left null`)
-      }
-
-      // #400: an export can legitimately contain two entities whose names
-      // differ only in case, and Phase 1b's constraint is
-      // case-INSENSITIVE — so an import that used to succeed now throws
-      // P2002 partway through and leaves a half-imported campaign. Skip
-      // the duplicate and keep going: a partial import is worse than a
-      // slightly smaller one.
-      try {
-      await prisma.nPC.create({
+  /**
+   * Import an export file (any supported version) as a new campaign owned
+   * by `userId`, who becomes its only member, as ADMIN — or, for a fork,
+   * with `options.members`. Throws ExportFormatError before touching the
+   * database if the file doesn't validate; otherwise writes everything in
+   * one transaction.
+   */
+  static async importCampaign(raw: unknown, userId: string, options: ImportOptions = {}): Promise<ImportResult> {
+    const data = parseCampaignExport(raw)
+    const { models, deferred } = planImportOrder()
+
+    return prisma.$transaction(async (tx) => {
+      const source = data.campaign
+      const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, forkedFromId: _forkedFromId, ...columns } = source
+      const newCampaign = await tx.campaign.create({
         data: {
-          campaignId,
-          name: npc.name,
-          pronouns: npc.pronouns,
-          description: npc.description,
-          currentLocation: npc.currentLocation,
-          locationId,
-          goals: npc.goals,
-          relationship: npc.relationship,
-          isAlive: npc.isAlive,
-          importance: npc.importance,
-          gmNotes: npc.gmNotes,
-          threat: npc.threat,
-          impulses: npc.impulses,
-          moves: npc.moves,
+          ...(Object.fromEntries(Object.entries(columns).filter(([, value]) => value !== null)) as Prisma.CampaignCreateInput),
+          title: options.title || `${source.title} (Imported)`,
+          // Imported Move rows are flavor for THIS set's keys, so the set
+          // has to come across with them. A set this deploy doesn't know
+          // takes the column default.
+          moveSetId: getMoveSet(source.moveSetId as string | undefined)?.id,
+          // The share link is the SOURCE campaign's public URL — a unique
+          // token, and not one the importer chose to publish.
+          chronicleShareEnabled: false,
+          chronicleShareToken: null,
+          isActive: true,
+          // Lineage is a fact about THIS deployment: the source's own parent
+          // (if any) isn't this campaign's, and may not exist here at all.
+          forkedFrom: options.lineage ? { connect: { id: options.lineage.forkedFromId } } : undefined,
+          forkPoint: options.lineage?.forkPoint ?? null,
+          memberships: {
+            create: options.members ?? [{ userId, role: 'ADMIN' }],
+          },
         },
-      });
-      } catch (error) {
-        if (!isUniqueConstraintViolation(error)) throw error
-        console.warn(`  ⚠️ imported NPC "${npc.name}" collides with one already in this campaign — skipped`)
+        select: { id: true, title: true },
+      })
+
+      const ctx = createRemapContext(data, options.members ? null : userId, newCampaign.id)
+      const imported: Record<string, number> = {}
+
+      for (const model of models) {
+        const rows = (data.tables[model] ?? [])
+          .map((row) => remapRow(ctx, model, row, deferred[model]))
+          .filter((row): row is Row => row !== null)
+        if (rows.length === 0) continue
+
+        const table = delegateFor(tx, model)
+        let written = 0
+        for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+          // #400: an export can legitimately hold two names differing only
+          // in case, and NPC/Faction/Quest names are unique
+          // case-INSENSITIVELY — skip the duplicate and keep going: a
+          // partial import is worse than a slightly smaller one.
+          const result = await table.createMany({ data: rows.slice(i, i + IMPORT_CHUNK_SIZE), skipDuplicates: true })
+          written += result.count
+        }
+        imported[model] = written
+
+        if (written < rows.length) {
+          // Whatever was skipped must not be pointed at by later tables.
+          const ids = rows.map((row) => row.id as string)
+          const present = new Set((await table.findMany({ where: { id: { in: ids } }, select: { id: true } })).map((r) => r.id))
+          for (const id of ids) if (!present.has(id)) ctx.dead.add(id)
+          ctx.dropped[model] = (ctx.dropped[model] ?? 0) + rows.length - written
+          console.warn(`  ⚠️ import: ${rows.length - written} ${model} row(s) collided with another in the same file — skipped`)
+        }
       }
-    }
-  }
 
-  private static async importFactions(campaignId: string, factions: any[]) {
-    for (const faction of factions) {
-      // #400: same reasoning as importNPCs above.
-      try {
-      await prisma.faction.create({
-        data: {
-          campaignId,
-          name: faction.name,
-          description: faction.description,
-          goals: faction.goals,
-          resources: faction.resources,
-          influence: faction.influence,
-          currentPlan: faction.currentPlan,
-          threatLevel: faction.threatLevel,
-          // #373: ties are edges keyed by faction id, and an import mints
-          // NEW ids — carrying the old map across would have written
-          // relationships pointing at factions from the source campaign.
-          // (It did: the export wrote them verbatim.) The first
-          // relationshipTick after import recomputes them from goals and
-          // stability, which is where they came from in the first place.
-          gmNotes: faction.gmNotes,
-        },
-      });
-      } catch (error) {
-        if (!isUniqueConstraintViolation(error)) throw error
-        console.warn(`  ⚠️ imported faction "${faction.name}" collides with one already in this campaign — skipped`)
+      for (const patch of ctx.patches) {
+        if (ctx.dead.has(patch.id)) continue
+        const data = Object.fromEntries(Object.entries(patch.data).filter(([, target]) => !ctx.dead.has(target as string)))
+        if (Object.keys(data).length === 0) continue
+        await delegateFor(tx, patch.model).update({ where: { id: patch.id }, data })
       }
-    }
-  }
 
-  private static async importMoves(campaignId: string, moves: any[]) {
-    for (const move of moves) {
-      await prisma.move.create({
-        data: {
-          campaignId,
-          // Preserved so an imported campaign's flavor stays wired into
-          // live resolution (resolution.ts looks these rows up by
-          // baseMoveKey) — omitted entirely on older exports predating this
-          // field, which just import as flavor-only, same as before.
-          baseMoveKey: move.baseMoveKey ?? null,
-          name: move.name,
-          trigger: move.trigger,
-          description: move.description,
-          rollType: move.rollType,
-          // #201: outcomes comes straight from an untrusted export file — a
-          // corrupted or hand-edited export can plant a shape that isn't
-          // even an object, which resolution.ts's rolling path would then
-          // throw on. Sanitize on the way in so a bad row degrades to "no
-          // flavor for that band" rather than crashing dice mechanics for
-          // a whole exchange the first time this move comes up.
-          outcomes: sanitizeMoveOutcomes(move.outcomes),
-          category: move.category,
-          isActive: move.isActive,
-        },
-      });
-    }
-  }
+      for (const [model, table] of Object.entries(EMBEDDING_TABLES)) {
+        for (const [oldId, vector] of Object.entries(data.embeddings[model as keyof typeof EMBEDDING_TABLES])) {
+          const id = ctx.idMap.get(oldId)
+          if (!id || ctx.dead.has(id)) continue
+          await tx.$executeRaw`UPDATE ${table} SET embedding = ${vector}::vector WHERE id = ${id}`
+        }
+      }
 
-  private static async importWorldMeta(campaignId: string, worldMeta: any) {
-    await prisma.worldMeta.create({
-      data: {
-        campaignId,
-        currentTurnNumber: 1, // Reset to 1 for new campaign
-        currentInGameDate: worldMeta.currentInGameDate,
-        currentLocation: worldMeta.currentLocation,
-        otherMeta: worldMeta.otherMeta,
-        gmNotes: worldMeta.gmNotes,
-      },
-    });
+      return { campaign: newCampaign, imported, dropped: ctx.dropped }
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS })
   }
 }
@@ -0,0 +1,73 @@
+// src/lib/export/campaignFork.ts
+// Forking: a new campaign with the same world as the parent had at a
+// resolved scene, at a world turn, or right now — linked back to the
+// parent so the lobby can show where it branched.
+//
+// A fork is an export, a rewind (forkRewind.ts), and an import, all through
+// the same full-graph path backups use, so a fork can never carry less of
+// the world than a backup does, and every row gets a new id the same way.
+// The one difference from a plain import: a fork stays in this deployment,
+// so the same players come with it — memberships copied, every character
+// still owned by whoever owned it. The parent is never written to.
+
+import { prisma } from '@/lib/prisma'
+import { CampaignExporter, type ImportResult } from './campaign-exporter'
+import { resolveForkPoint, rewindExport, type ForkPoint, type RewindReport, type WorldClock } from './forkRewind'
+
+export interface ForkResult extends ImportResult {
+  forkPoint: string
+  rewind: RewindReport
+}
+
+/**
+ * The campaign's clocks right now, for Scene.clockAtResolution — the
+ * checkpoint a later fork at that scene restores. Null if the campaign has
+ * no WorldMeta (nothing to restore to).
+ */
+export async function captureWorldClock(campaignId: string): Promise<WorldClock | null> {
+  const meta = await prisma.worldMeta.findUnique({
+    where: { campaignId },
+    select: {
+      currentTurnNumber: true,
+      simulationTurn: true,
+      totalElapsedGameHours: true,
+      hoursSinceWorldTurn: true,
+      currentInGameDate: true,
+    },
+  })
+  return meta
+}
+
+/**
+ * Fork `campaignId` at `point`. `userId` is whoever asked — the route only
+ * lets an admin of the parent do it, and they're an admin of the fork too,
+ * since memberships come across as they are.
+ */
+export async function forkCampaign(
+  campaignId: string,
+  userId: string,
+  point: ForkPoint,
+  options: { title?: string } = {}
+): Promise<ForkResult> {
+  const [exported, members] = await Promise.all([
+    CampaignExporter.exportCampaign(campaignId),
+    // A lapsed guest pass has no access to the parent, so none to the fork;
+    // a live one keeps its expiry rather than becoming permanent.
+    prisma.campaignMembership.findMany({
+      where: { campaignId, OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+      select: { userId: true, role: true, expiresAt: true },
+    }),
+  ])
+
+  // Throws ForkPointError before anything is written.
+  const resolved = resolveForkPoint(exported, point)
+  const { data, report } = rewindExport(exported, resolved)
+
+  const result = await CampaignExporter.importCampaign(data, userId, {
+    title: options.title || `${exported.campaign.title} (${resolved.label})`,
+    lineage: { forkedFromId: campaignId, forkPoint: resolved.label },
+    members,
+  })
+
+  return { ...result, forkPoint: resolved.label, rewind: report }
+}
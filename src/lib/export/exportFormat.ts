@@ -0,0 +1,154 @@
+// src/lib/export/exportFormat.ts
+// The campaign export file format, and the one door into it.
+//
+// v1 ('1.0.0') was whatever `findMany` happened to return, typed `any` end
+// to end, and importCampaign trusted it field by field — which is how a
+// hand-edited export could plant a Move.outcomes that crashed the dice
+// (#201). v2 is validated before anything touches the database:
+//
+//   - the envelope (format tag, numeric version, tables) is a fixed zod
+//     schema below;
+//   - every ROW is validated against a zod schema built from the Prisma
+//     schema's own metadata, so the two can't drift — a column added to
+//     schema.prisma is a validated column in the export the same day, with
+//     nobody remembering to list it.
+//
+// Older files are migrated forward first (exportMigrations.ts), then
+// validated as the current version. parseCampaignExport is the only way a
+// caller gets a CampaignExport; importing an unparsed object is a type
+// error.
+
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { EXPORT_TABLES, dmmfModel } from './exportGraph'
+import { migrateExport, EXPORT_FORMAT, EXPORT_FORMAT_VERSION, ExportFormatError } from './exportMigrations'
+
+export { EXPORT_FORMAT, EXPORT_FORMAT_VERSION, ExportFormatError }
+
+type Row = Record<string, unknown>
+
+const isoDate = z
+  .union([z.date(), z.string().datetime({ offset: true })])
+  .transform((value) => new Date(value))
+
+function enumValues(name: string): [string, ...string[]] {
+  const found = Prisma.dmmf.datamodel.enums.find((e) => e.name === name)
+  if (!found || found.values.length === 0) throw new Error(`exportFormat: no enum "${name}"`)
+  return found.values.map((v) => v.name) as [string, ...string[]]
+}
+
+function scalarSchema(type: string, kind: string): z.ZodTypeAny {
+  if (kind === 'enum') return z.enum(enumValues(type))
+  switch (type) {
+    case 'String': return z.string()
+    case 'Int': return z.number().int()
+    case 'Float': return z.number()
+    case 'Boolean': return z.boolean()
+    case 'DateTime': return isoDate
+    case 'Json': return z.unknown()
+    default: throw new Error(`exportFormat: no schema for column type "${type}"`)
+  }
+}
+
+const rowSchemas = new Map<string, z.ZodObject<z.ZodRawShape>>()
+
+/**
+ * The zod schema for one row of `model`, derived from the Prisma schema.
+ * Columns with a default may be absent (an older export predating them
+ * takes the default, exactly as a migration would have); nullable columns
+ * may be null. `id` is always required — import remaps by it. Relation
+ * objects and unknown keys are stripped.
+ */
+export function rowSchemaFor(model: string): z.ZodObject<z.ZodRawShape> {
+  const cached = rowSchemas.get(model)
+  if (cached) return cached
+
+  const shape: z.ZodRawShape = {}
+  for (const field of dmmfModel(model).fields) {
+    if (field.kind === 'object' || field.kind === 'unsupported') continue
+    let schema = scalarSchema(field.type, field.kind)
+    if (field.isList) schema = z.array(schema)
+    if (!field.isRequired) schema = schema.nullable().optional()
+    else if ((field.hasDefaultValue || field.isUpdatedAt) && field.name !== 'id') schema = schema.optional()
+    shape[field.name] = schema
+  }
+  const built = z.object(shape)
+  rowSchemas.set(model, built)
+  return built
+}
+
+const exportedModels = EXPORT_TABLES.map((t) => t.model)
+
+const envelopeSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_FORMAT_VERSION),
+  exportedAt: z.string().datetime({ offset: true }),
+  campaign: z.record(z.unknown()),
+  tables: z.record(z.array(z.record(z.unknown()))),
+  // pgvector columns Prisma can't read, keyed by row id, as pgvector's own
+  // text form ("[0.1,0.2,...]"). Carried so an import doesn't re-buy every
+  // embedding it already paid for.
+  embeddings: z
+    .object({
+      CampaignMemory: z.record(z.string()).default({}),
+      LoreEntry: z.record(z.string()).default({}),
+    })
+    .default({}),
+})
+
+export interface CampaignExport {
+  format: typeof EXPORT_FORMAT
+  version: typeof EXPORT_FORMAT_VERSION
+  exportedAt: string
+  campaign: Row
+  tables: Record<string, Row[]>
+  embeddings: { CampaignMemory: Record<string, string>; LoreEntry: Record<string, string> }
+}
+
+function describeIssues(error: z.ZodError, where: string): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => `${where}${issue.path.length ? `.${issue.path.join('.')}` : ''}: ${issue.message}`)
+    .join('; ')
+}
+
+/**
+ * Migrate (if older) and validate an export file. Throws ExportFormatError
+ * naming the first few problems; never returns a partially valid export.
+ */
+export function parseCampaignExport(raw: unknown): CampaignExport {
+  const migrated = migrateExport(raw)
+
+  const envelope = envelopeSchema.safeParse(migrated)
+  if (!envelope.success) throw new ExportFormatError(describeIssues(envelope.error, 'export'))
+
+  const unknownTables = Object.keys(envelope.data.tables).filter((t) => !exportedModels.includes(t))
+  if (unknownTables.length > 0) {
+    throw new ExportFormatError(`export: unknown table(s) ${unknownTables.join(', ')}`)
+  }
+
+  const campaign = rowSchemaFor('Campaign').safeParse(envelope.data.campaign)
+  if (!campaign.success) throw new ExportFormatError(describeIssues(campaign.error, 'campaign'))
+
+  const tables: Record<string, Row[]> = {}
+  for (const [model, rows] of Object.entries(envelope.data.tables)) {
+    const schema = rowSchemaFor(model)
+    tables[model] = rows.map((row, i) => {
+      const parsed = schema.safeParse(row)
+      if (!parsed.success) throw new ExportFormatError(describeIssues(parsed.error, `${model}[${i}]`))
+      return parsed.data
+    })
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: envelope.data.exportedAt,
+    campaign: campaign.data,
+    tables,
+    embeddings: {
+      CampaignMemory: envelope.data.embeddings.CampaignMemory ?? {},
+      LoreEntry: envelope.data.embeddings.LoreEntry ?? {},
+    },
+  }
+}
@@ -0,0 +1,233 @@
+// src/lib/export/exportGraph.ts
+// Which tables make up "a campaign", and the order they have to be
+// written back in.
+//
+// The v1 exporter hand-picked ten tables and hand-copied their columns, so
+// every table and column added since (locations, wars, debts, arcs, wakes,
+// lore, memories, the event log...) was silently missing from every export,
+// and an import was never a playable copy of the world. This module makes
+// the decision per MODEL instead of per column: a model is either in
+// EXPORT_TABLES or in EXCLUDED_MODELS with a reason, and
+// exportGraph.test.ts fails the day a new campaign-owned model is in
+// neither. Columns are never listed here at all — rows go out whole, and
+// exportFormat.ts validates them against the Prisma schema itself.
+//
+// The write order is derived, not declared. Required relations are read
+// from the generated client's DMMF and topologically sorted; optional ones
+// that point "forward" (Faction.leaderCharacterId, in the one real cycle:
+// Character → Location → Faction → Character) are written null and
+// patched once every row exists. See planImportOrder.
+//
+// Pure module — no prisma client import, only the schema metadata.
+
+import { Prisma } from '@prisma/client'
+
+export type ExportScope =
+  /** Rows carry this campaign's id in `campaignId` (relation or not). */
+  | { kind: 'campaign' }
+  /** Rows belong to a parent row already in the export. */
+  | { kind: 'parent'; field: string; parent: string }
+
+export interface ExportTable {
+  model: string
+  scope: ExportScope
+}
+
+const campaign: ExportScope = { kind: 'campaign' }
+const parent = (field: string, parentModel: string): ExportScope => ({ kind: 'parent', field, parent: parentModel })
+
+/**
+ * Everything that is part of the world or its played history, in a
+ * readable order. The order here only breaks ties — planImportOrder moves a
+ * table later whenever a required relation demands it.
+ */
+export const EXPORT_TABLES: readonly ExportTable[] = [
+  { model: 'WorldMeta', scope: campaign },
+  { model: 'CampaignSafetySettings', scope: campaign },
+  { model: 'Move', scope: campaign },
+  { model: 'CampaignArchetype', scope: campaign },
+  { model: 'CampaignCapability', scope: campaign },
+  { model: 'CapabilityPrerequisite', scope: parent('capabilityId', 'CampaignCapability') },
+  // The cycle: Faction ← Location ← Character ← Faction.leaderCharacterId.
+  { model: 'Faction', scope: campaign },
+  { model: 'Location', scope: campaign },
+  { model: 'Character', scope: campaign },
+  { model: 'CharacterCapability', scope: parent('characterId', 'Character') },
+  { model: 'FactionStanding', scope: campaign },
+  { model: 'NPC', scope: campaign },
+  { model: 'NpcTie', scope: campaign },
+  { model: 'FactionTie', scope: campaign },
+  { model: 'LocationAdjacency', scope: campaign },
+  { model: 'TerritoryFrame', scope: campaign },
+  { model: 'WorldSnapshot', scope: campaign },
+  { model: 'SupplyRoute', scope: campaign },
+  { model: 'Arc', scope: campaign },
+  { model: 'War', scope: campaign },
+  { model: 'WarParticipant', scope: parent('warId', 'War') },
+  { model: 'FactionDebt', scope: campaign },
+  { model: 'Treaty', scope: campaign },
+  { model: 'Hazard', scope: campaign },
+  { model: 'FactionOrder', scope: campaign },
+  { model: 'Debt', scope: campaign },
+  { model: 'ActiveWake', scope: campaign },
+  { model: 'Quest', scope: campaign },
+  { model: 'Clock', scope: campaign },
+  { model: 'PopulationFlightEvent', scope: campaign },
+  { model: 'Scene', scope: campaign },
+  { model: 'PlayerAction', scope: parent('sceneId', 'Scene') },
+  { model: 'DiceRoll', scope: campaign },
+  { model: 'GmClarification', scope: campaign },
+  { model: 'TurnTracker', scope: campaign },
+  { model: 'TimelineEvent', scope: campaign },
+  { model: 'CampaignLog', scope: campaign },
+  { model: 'Message', scope: campaign },
+  { model: 'PlayerNote', scope: campaign },
+  { model: 'Map', scope: campaign },
+  { model: 'Zone', scope: parent('mapId', 'Map') },
+  { model: 'Token', scope: parent('mapId', 'Map') },
+  { model: 'DowntimeActivity', scope: parent('characterId', 'Character') },
+  { model: 'DowntimeEvent', scope: parent('activityId', 'DowntimeActivity') },
+  { model: 'WorldEvent', scope: campaign },
+  { model: 'EventWitness', scope: campaign },
+  { model: 'CampaignMemory', scope: campaign },
+  { model: 'WikiEntry', scope: campaign },
+  { model: 'LoreImportJob', scope: campaign },
+  { model: 'LoreEntry', scope: campaign },
+  { model: 'LoreWikiPage', scope: parent('jobId', 'LoreImportJob') },
+  { model: 'LoreCitation', scope: campaign },
+  { model: 'CanonDivergence', scope: campaign },
+]
+
+/**
+ * Models that are deliberately NOT part of an export, and why. Every model
+ * in the schema is in one list or the other (exportGraph.test.ts).
+ */
+export const EXCLUDED_MODELS: Readonly<Record<string, string>> = {
+  Campaign: 'the export root itself — written from the `campaign` field, not a table',
+  User: 'accounts belong to the deployment; every user reference is remapped to the importer',
+  CampaignMembership: 'who plays is not part of the world — the importer becomes the only admin',
+  CampaignInvite: 'live invite tokens must never be duplicated into another campaign',
+  CampaignBan: 'moderation state about real accounts',
+  UserBlock: 'moderation state about real accounts',
+  ContentReport: 'moderation state about real accounts',
+  XCardUse: 'safety-tool history about real players',
+  Notification: 'per-user inbox state',
+  PushSubscription: 'per-device delivery state',
+  UserSession: 'signed-in devices of real accounts',
+  UserIdentity: 'sign-in links of real accounts to outside identity providers',
+  UserNotificationSettings: 'per-user preferences',
+  FriendRequest: 'per-user social graph',
+  Friendship: 'per-user social graph',
+  Transaction: 'money — never copied',
+  AICostEntry: 'billing history of the source campaign',
+  AnalyticsEvent: 'product analytics, not world state',
+  RateLimitCounter: 'operational',
+  ResolutionJob: 'operational queue state',
+  MapGenerationJob: 'operational queue state',
+  ReseedJob: 'operational queue state',
+  ResolutionReview: 'in-flight GM review drafts; the published result is already in the scene',
+  CampaignWebhook: 'endpoints and signing secrets must never be duplicated into another campaign',
+  WebhookDelivery: 'operational queue state',
+  SceneImage: 'generated media, regenerable per scene',
+  AIValidationFailure: 'operational diagnostics',
+  MemoryCreationFailure: 'operational diagnostics',
+  StateMutation: 'integrity-engine audit trail of the source deployment',
+}
+
+/** Prisma's delegate name for a model: `NPC` → `nPC`, `WorldMeta` → `worldMeta`. */
+export function delegateName(model: string): string {
+  return model.charAt(0).toLowerCase() + model.slice(1)
+}
+
+type DmmfModel = (typeof Prisma.dmmf.datamodel.models)[number]
+type DmmfField = DmmfModel['fields'][number]
+
+export function dmmfModel(model: string): DmmfModel {
+  const found = Prisma.dmmf.datamodel.models.find((m) => m.name === model)
+  if (!found) throw new Error(`exportGraph: no model "${model}" in the Prisma schema`)
+  return found
+}
+
+export interface RelationEdge {
+  /** The FK column on the child row. */
+  field: string
+  /** The model it points at. */
+  target: string
+  required: boolean
+}
+
+/** Every single-column relation FK on a model, from the schema. */
+export function relationEdges(model: string): RelationEdge[] {
+  const fields = dmmfModel(model).fields
+  const edges: RelationEdge[] = []
+  for (const relation of fields) {
+    if (relation.kind !== 'object' || !relation.relationFromFields?.length) continue
+    for (const fk of relation.relationFromFields) {
+      const column = fields.find((f: DmmfField) => f.name === fk)
+      edges.push({ field: fk, target: relation.type, required: Boolean(column?.isRequired) })
+    }
+  }
+  return edges
+}
+
+export interface ImportOrder {
+  /** EXPORT_TABLES models in a valid write order. */
+  models: string[]
+  /** Optional FKs written null at insert time and patched afterwards. */
+  deferred: Record<string, string[]>
+}
+
+/**
+ * A write order in which every REQUIRED relation points at a model already
+ * written. Kahn's algorithm, breaking ties by EXPORT_TABLES order so the
+ * result is stable and readable. Optional relations that still point
+ * forward (or at the row's own model) become deferred patches.
+ *
+ * Throws if the required relations alone form a cycle, or point at a model
+ * the export doesn't carry — either would make every import fail on a
+ * foreign key, so it's a schema problem to surface, not a runtime one.
+ */
+export function planImportOrder(tables: readonly ExportTable[] = EXPORT_TABLES): ImportOrder {
+  const included = new Set(tables.map((t) => t.model))
+  // Campaign and User are written (or remapped) before any table.
+  const preexisting = new Set(['Campaign', 'User'])
+
+  const requiredDeps = new Map<string, Set<string>>()
+  for (const { model } of tables) {
+    const deps = new Set<string>()
+    for (const edge of relationEdges(model)) {
+      if (preexisting.has(edge.target)) continue
+      if (!included.has(edge.target)) {
+        if (edge.required) throw new Error(`exportGraph: ${model}.${edge.field} requires ${edge.target}, which is not exported`)
+        continue
+      }
+      if (edge.required && edge.target !== model) deps.add(edge.target)
+    }
+    requiredDeps.set(model, deps)
+  }
+
+  const order: string[] = []
+  const placed = new Set<string>()
+  while (order.length < tables.length) {
+    const next = tables.find((t) => !placed.has(t.model) && Array.from(requiredDeps.get(t.model)!).every((d) => placed.has(d)))
+    if (!next) {
+      const stuck = tables.filter((t) => !placed.has(t.model)).map((t) => t.model)
+      throw new Error(`exportGraph: required relations form a cycle among ${stuck.join(', ')}`)
+    }
+    order.push(next.model)
+    placed.add(next.model)
+  }
+
+  const position = new Map(order.map((m, i) => [m, i]))
+  const deferred: Record<string, string[]> = {}
+  for (const model of order) {
+    for (const edge of relationEdges(model)) {
+      if (edge.required || !included.has(edge.target)) continue
+      if (position.get(edge.target)! >= position.get(model)!) {
+        ;(deferred[model] ??= []).push(edge.field)
+      }
+    }
+  }
+
+  return { models: order, deferred }
+}
@@ -0,0 +1,92 @@
+// src/lib/export/exportMigrations.ts
+// Brings an export file written by an older version up to the current
+// format, one version step at a time, before exportFormat.ts validates it.
+//
+// Each step is a pure function from version N's shape to N+1's; adding v3
+// means adding one step here and bumping EXPORT_FORMAT_VERSION, and every
+// v1 and v2 file still imports through the chain. Steps never touch the
+// database and never validate — they only move data into the new shape.
+// Anything the step can't place is left out, not guessed at; validation
+// afterwards is what rejects a file that's malformed rather than just old.
+//
+// The format constants live here rather than in exportFormat.ts so the two
+// modules don't import each other: this file is the version ladder, and
+// the ladder's top rung is the current version.
+
+export const EXPORT_FORMAT = 'mythos-campaign-export'
+export const EXPORT_FORMAT_VERSION = 2
+
+/** An export file that can't be read — bad JSON shape, unknown version, a row that doesn't fit the schema. */
+export class ExportFormatError extends Error {}
+
+type Row = Record<string, unknown>
+
+function isRecord(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function rowsOf(value: unknown): Row[] {
+  return Array.isArray(value) ? value.filter(isRecord) : []
+}
+
+/**
+ * v1 ('1.0.0', the original CampaignExporter) → v2.
+ *
+ * v1 was one named section per table, each row straight out of findMany
+ * with a few relation objects `include`d alongside (stripped later by row
+ * validation), and Scene rows carrying their PlayerActions nested. Every
+ * section maps onto a v2 table as-is; the nested actions are lifted into
+ * their own table. v1 rows always had ids, but a hand-assembled v1 file
+ * may not — those get a stable placeholder, since import mints fresh ids
+ * anyway and only needs the old ones to be unique within the file.
+ *
+ * What v1 never exported (locations, wars, debts, the event log...) is
+ * simply absent, and any FK into it is dropped to null at import, the same
+ * as it was when v1's own importer resolved NPC.locationId against a
+ * campaign that had no locations yet.
+ */
+function v1ToV2(raw: Row): Row {
+  const tables: Record<string, Row[]> = {}
+  const put = (model: string, rows: Row[]) => {
+    if (rows.length === 0) return
+    tables[model] = rows.map((row, i) => ({ ...row, id: typeof row.id === 'string' ? row.id : `v1-${model}-${i}` }))
+  }
+
+  const scenes = rowsOf(raw.scenes)
+  put('Character', rowsOf(raw.characters))
+  put('Scene', scenes)
+  put('PlayerAction', scenes.flatMap((scene) => rowsOf(scene.playerActions)))
+  put('TimelineEvent', rowsOf(raw.timeline))
+  put('Message', rowsOf(raw.messages))
+  put('PlayerNote', rowsOf(raw.notes))
+  put('NPC', rowsOf(raw.npcs))
+  put('Faction', rowsOf(raw.factions))
+  put('Clock', rowsOf(raw.clocks))
+  put('Move', rowsOf(raw.moves))
+  if (isRecord(raw.worldMeta)) put('WorldMeta', [raw.worldMeta])
+
+  const campaign = isRecord(raw.campaign) ? raw.campaign : {}
+  return {
+    format: EXPORT_FORMAT,
+    version: 2,
+    exportedAt: raw.exportedAt,
+    campaign: { ...campaign, id: typeof campaign.id === 'string' ? campaign.id : 'v1-Campaign' },
+    tables,
+  }
+}
+
+/**
+ * Migrate any known export version to the current one. A current-version
+ * file is returned untouched; an unknown or missing version throws.
+ */
+export function migrateExport(raw: unknown): unknown {
+  if (!isRecord(raw)) throw new ExportFormatError('export: not a JSON object')
+
+  let current: Row = raw
+  if (current.version === '1.0.0') current = v1ToV2(current)
+
+  if (current.format !== EXPORT_FORMAT || current.version !== EXPORT_FORMAT_VERSION) {
+    throw new ExportFormatError(`export: unsupported format/version ${JSON.stringify(current.format ?? null)} ${JSON.stringify(current.version ?? null)}`)
+  }
+  return current
+}
@@ -0,0 +1,244 @@
+// src/lib/export/forkRewind.ts
+// Turns an export of a campaign AS IT IS NOW into an export of the same
+// campaign as it was at an earlier moment — the "what if we'd sided with
+// the guild" half of forking. Pure: export in, export out.
+//
+// Nothing here is a stored snapshot. The campaign's own history is enough
+// to walk back from the present, because two things were already true:
+//
+//   - every row carries createdAt, so "did this exist at the cutoff" is a
+//     comparison — later rows (scenes, NPCs spawned, wars declared, events)
+//     are simply left out, and import nulls or drops whatever pointed at
+//     them;
+//   - every change to a live entity's column is a WorldEvent with its
+//     previous value (worldEventLog.ts is the funnel for tick, consequence
+//     AND scene changes), so the value a column had at the cutoff is the
+//     previousValue of the FIRST event after it. Taking the first, not
+//     replaying in reverse, means two changes written in the same batch
+//     with the same timestamp can't be undone in the wrong order.
+//
+// What the log can't give back is reported, never guessed: a change whose
+// previous value was a Json blob (logged as "[object Object]") or a field
+// that isn't a column (warDeclared, spawned...) is counted in `unreverted`.
+// StateMutation isn't consulted — it records what the AI PROPOSED, by dot
+// path, including rejections, while WorldEvent records what was written.
+//
+// WorldMeta isn't an event target; its clocks come from the checkpoint the
+// end-scene route stamps on each scene (Scene.clockAtResolution).
+
+import { z } from 'zod'
+import { dmmfModel } from './exportGraph'
+import type { CampaignExport } from './exportFormat'
+
+type Row = Record<string, unknown>
+
+/** An explicit point to fork at. 'latest' clones the campaign as it stands. */
+export type ForkPoint =
+  | { kind: 'latest' }
+  | { kind: 'scene'; sceneId: string }
+  | { kind: 'turn'; turnNumber: number }
+
+/** A fork point that can't be honoured — unresolved scene, turn out of range, no history. */
+export class ForkPointError extends Error {}
+
+/** The WorldMeta clocks at a moment — what Scene.clockAtResolution stores. */
+export const worldClockSchema = z.object({
+  currentTurnNumber: z.number().int(),
+  simulationTurn: z.number().int(),
+  totalElapsedGameHours: z.number(),
+  hoursSinceWorldTurn: z.number(),
+  currentInGameDate: z.string().nullable(),
+})
+export type WorldClock = z.infer<typeof worldClockSchema>
+
+export interface ResolvedForkPoint {
+  /** Rows and changes after this moment are undone; null means nothing is. */
+  cutoff: Date | null
+  /** The clocks to restore, where known. */
+  clock: Partial<WorldClock> | null
+  /** 'exact' from a checkpoint; 'approximate' when only the sim turn is known. */
+  clockFidelity: 'exact' | 'approximate'
+  /** Shown in the lobby as where the branch left its parent. */
+  label: string
+}
+
+export interface RewindReport {
+  cutoff: string | null
+  clock: 'exact' | 'approximate' | 'unchanged'
+  /** Rows created after the cutoff, per model. */
+  removed: Record<string, number>
+  /** Columns set back to their value at the cutoff. */
+  reverted: number
+  /** Changes after the cutoff the log couldn't undo, by `Model.field`. */
+  unreverted: Record<string, number>
+}
+
+/** WorldEvent.targetType → the model its targetId is a row of. */
+const TARGET_MODELS: Record<string, string> = {
+  NPC: 'NPC',
+  FACTION: 'Faction',
+  LOCATION: 'Location',
+  LOCATION_WEATHER: 'Location',
+  LOCATION_CONDITION: 'Location',
+  LOCATION_POPULATION: 'Location',
+  CLOCK: 'Clock',
+  QUEST: 'Quest',
+  WAR: 'War',
+  CHARACTER: 'Character',
+  DEBT: 'Debt',
+}
+
+function asDate(value: unknown): Date | null {
+  if (value instanceof Date) return value
+  if (typeof value === 'string') {
+    const d = new Date(value)
+    return Number.isNaN(d.getTime()) ? null : d
+  }
+  return null
+}
+
+function after(row: Row, field: string, cutoff: Date): boolean {
+  const at = asDate(row[field])
+  return at !== null && at.getTime() > cutoff.getTime()
+}
+
+/**
+ * Work out the cutoff and clocks for a fork point, from the export itself.
+ * Throws ForkPointError for a point that can't be forked from.
+ */
+export function resolveForkPoint(data: CampaignExport, point: ForkPoint): ResolvedForkPoint {
+  if (point.kind === 'latest') return { cutoff: null, clock: null, clockFidelity: 'exact', label: 'Latest' }
+
+  const scenes = data.tables.Scene ?? []
+  const events = data.tables.WorldEvent ?? []
+
+  if (point.kind === 'scene') {
+    const scene = scenes.find((s) => s.id === point.sceneId)
+    if (!scene) throw new ForkPointError('Scene not found in this campaign')
+    if (scene.status !== 'RESOLVED') throw new ForkPointError('Only a scene that has ended can be forked from')
+    const cutoff = asDate(scene.resolvedAt) ?? asDate(scene.updatedAt)
+    const clock = worldClockSchema.safeParse(scene.clockAtResolution)
+    return {
+      cutoff,
+      clock: clock.success ? clock.data : null,
+      clockFidelity: clock.success ? 'exact' : 'approximate',
+      label: `Scene ${scene.sceneNumber}`,
+    }
+  }
+
+  const currentTurn = Number(data.tables.WorldMeta?.[0]?.simulationTurn ?? 0)
+  if (!Number.isInteger(point.turnNumber) || point.turnNumber < 0 || point.turnNumber > currentTurn) {
+    throw new ForkPointError(`World turn must be between 0 and ${currentTurn}`)
+  }
+  if (point.turnNumber === currentTurn) {
+    return { cutoff: null, clock: null, clockFidelity: 'exact', label: `World turn ${point.turnNumber}` }
+  }
+
+  // The turn ended where the next one's first recorded change begins.
+  const firstLater = events
+    .filter((e) => Number(e.turnNumber) > point.turnNumber)
+    .map((e) => asDate(e.createdAt))
+    .filter((d): d is Date => d !== null)
+    .sort((a, b) => a.getTime() - b.getTime())[0]
+  if (!firstLater) throw new ForkPointError(`No recorded history after world turn ${point.turnNumber} to rewind from`)
+  const cutoff = new Date(firstLater.getTime() - 1)
+
+  // Scene-side clocks from the last checkpoint before the cutoff; the sim
+  // turn is known exactly, and a world turn had just consumed the bank.
+  const checkpoint = scenes
+    .filter((s) => s.status === 'RESOLVED' && !after(s, 'resolvedAt', cutoff) && asDate(s.resolvedAt) !== null)
+    .sort((a, b) => asDate(b.resolvedAt)!.getTime() - asDate(a.resolvedAt)!.getTime())
+    .map((s) => worldClockSchema.safeParse(s.clockAtResolution))
+    .find((parsed) => parsed.success)
+  return {
+    cutoff,
+    clock: { ...(checkpoint?.success ? checkpoint.data : {}), simulationTurn: point.turnNumber, hoursSinceWorldTurn: 0 },
+    clockFidelity: 'approximate',
+    label: `World turn ${point.turnNumber}`,
+  }
+}
+
+/**
+ * A logged previousValue (always a string — see worldEventLog.ts) back in
+ * its column's type, or undefined if it can't be. 'null'/'undefined' is a
+ * null for a nullable column.
+ */
+function parseLoggedValue(model: string, field: string, logged: unknown): { value: unknown } | undefined {
+  const column = dmmfModel(model).fields.find((f) => f.name === field)
+  if (!column || column.kind === 'object' || column.kind === 'unsupported') return undefined
+  if (logged === null || logged === 'null' || logged === 'undefined') {
+    return column.isRequired ? undefined : { value: null }
+  }
+  if (typeof logged !== 'string') return undefined
+  if (column.isList || column.type === 'Json') {
+    try {
+      return { value: JSON.parse(logged) }
+    } catch {
+      return undefined
+    }
+  }
+  switch (column.type) {
+    case 'String': return { value: logged }
+    case 'Int': return Number.isInteger(Number(logged)) && logged.trim() !== '' ? { value: Number(logged) } : undefined
+    case 'Float': return Number.isFinite(Number(logged)) && logged.trim() !== '' ? { value: Number(logged) } : undefined
+    case 'Boolean': return logged === 'true' ? { value: true } : logged === 'false' ? { value: false } : undefined
+    case 'DateTime': return asDate(logged) ? { value: asDate(logged) } : undefined
+    default: return column.kind === 'enum' ? { value: logged } : undefined
+  }
+}
+
+/**
+ * The campaign as it stood at `point.cutoff`: later rows removed, later
+ * column changes reverted, WorldMeta's clocks restored from the
+ * checkpoint. A null cutoff returns the export unchanged.
+ */
+export function rewindExport(data: CampaignExport, point: ResolvedForkPoint): { data: CampaignExport; report: RewindReport } {
+  const report: RewindReport = {
+    cutoff: point.cutoff?.toISOString() ?? null,
+    clock: point.cutoff === null ? 'unchanged' : point.clockFidelity,
+    removed: {},
+    reverted: 0,
+    unreverted: {},
+  }
+  if (point.cutoff === null) return { data, report }
+  const cutoff = point.cutoff
+
+  // Value at the cutoff = previousValue of the first change after it.
+  const firstChange = new Map<string, Row>()
+  const laterEvents = (data.tables.WorldEvent ?? [])
+    .map((event, order) => ({ event, order }))
+    .filter(({ event }) => after(event, 'createdAt', cutoff))
+    .sort((a, b) => asDate(a.event.createdAt)!.getTime() - asDate(b.event.createdAt)!.getTime() || a.order - b.order)
+  for (const { event } of laterEvents) {
+    const key = `${event.targetType}|${event.targetId}|${event.field}`
+    if (!firstChange.has(key)) firstChange.set(key, event)
+  }
+
+  const tables: Record<string, Row[]> = {}
+  for (const [model, rows] of Object.entries(data.tables)) {
+    const kept = rows.filter((row) => !after(row, 'createdAt', cutoff))
+    if (kept.length < rows.length) report.removed[model] = rows.length - kept.length
+    tables[model] = kept.map((row) => ({ ...row }))
+  }
+
+  for (const event of Array.from(firstChange.values())) {
+    const model = TARGET_MODELS[String(event.targetType)]
+    const field = String(event.field)
+    const target = model ? tables[model]?.find((row) => row.id === event.targetId) : undefined
+    // Created after the cutoff — already gone, nothing to revert.
+    if (model && !target) continue
+    const parsed = model ? parseLoggedValue(model, field, event.previousValue) : undefined
+    if (!target || !parsed) {
+      const key = `${model ?? String(event.targetType)}.${field}`
+      report.unreverted[key] = (report.unreverted[key] ?? 0) + 1
+      continue
+    }
+    target[field] = parsed.value
+    report.reverted++
+  }
+
+  const meta = tables.WorldMeta?.[0]
+  if (meta && point.clock) Object.assign(meta, point.clock)
+
+  return { data: { ...data, tables }, report }
+}
@@ -0,0 +1,99 @@
+// src/lib/game/__tests__/fakeCampaign.liveDb.test.ts
+//
+// A whole campaign, start to finish, with no model behind it: creation
+// (world generation), a scene and its intro, an action, the action's
+// classification and resolution, consequence extraction, and a world
+// turn — every AI step answered by the fake provider (lib/ai/
+// fakeProvider.ts), every other step the real code against a real
+// database.
+//
+// What each stage's own suite can't show is that the NEXT stage accepts
+// what this one wrote. A run here fails on a response the fake considers
+// valid and a downstream parser doesn't, on a pipeline step that quietly
+// fell back to its template, and on any AI call that tried the network.
+//
+// Opt-in, matching this repo's other *.liveDb.test.ts files. No API key:
+//
+//   RUN_DB_TESTS=1 npx vitest run fakeCampaign.liveDb
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { PrismaClient } from '@prisma/client'
+import { createCampaign } from '../campaignCreation'
+import { createNewScene, resolveScene } from '../sceneResolver'
+import { runWorldTurn } from '../worldTurn'
+import { getTemplate } from '@/lib/templates/campaign-templates'
+
+const RUN = process.env.RUN_DB_TESTS === '1'
+const describeIfDb = RUN ? describe : describe.skip
+
+describeIfDb('a campaign played end to end on the fake provider', () => {
+  const prisma = new PrismaClient()
+  let userId: string
+  let campaignId: string | null = null
+
+  beforeAll(async () => {
+    vi.stubEnv('AI_PROVIDER', 'fake')
+    vi.stubEnv('OPENAI_API_KEY', '')
+    // The hero-image kick is a self-fetch by design (campaignHeroImage.ts)
+    // and fails soft; nothing else may reach the network.
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('network used'))))
+
+    const user = await prisma.user.create({ data: { email: `fake-llm-${Date.now()}@example.test` } })
+    userId = user.id
+  })
+
+  afterAll(async () => {
+    if (campaignId) await prisma.campaign.delete({ where: { id: campaignId } }).catch(() => {})
+    await prisma.user.delete({ where: { id: userId } }).catch(() => {})
+    await prisma.$disconnect()
+    vi.unstubAllGlobals()
+    vi.unstubAllEnvs()
+  })
+
+  it('creates, opens a scene, resolves an action and turns the world', async () => {
+    const template = getTemplate('pbta-fantasy')
+    const campaign = await createCampaign({
+      title: 'Saltmarch',
+      description: 'A drowned city and the people who still trade in it.',
+      resolvedUniverse: 'Saltmarch',
+      resolvedSystemPrompt: template?.systemPrompt || 'Run a tense, grounded game.',
+      template: template ?? null,
+      validatedLore: null,
+      userId,
+    })
+    campaignId = campaign.id
+
+    // World generation landed rather than falling back to defaults.
+    const fronts = await prisma.clock.findMany({ where: { campaignId } })
+    expect(fronts.some((c) => c.relatedFactionId !== null)).toBe(true)
+    expect(await prisma.campaignCapability.count({ where: { campaignId } })).toBeGreaterThan(0)
+
+    const character = await prisma.character.create({
+      data: { campaignId, userId, name: 'Jason', description: 'A dockhand with debts' },
+    })
+
+    const scene = await createNewScene(campaignId, [character.id])
+    // The fake intro, not sceneIntro.ts's "find themselves at a
+    // crossroads" fallback.
+    expect(scene.sceneIntroText).toContain('Jason')
+    expect(scene.sceneIntroText).not.toContain('crossroads')
+
+    await prisma.playerAction.create({
+      data: { sceneId: scene.id, characterId: character.id, userId, actionText: 'I vault the railing and run for the gate.' },
+    })
+    const resolved = await resolveScene(campaignId, scene.id, true)
+    expect(resolved.success).toBe(true)
+    expect(resolved.sceneText).toContain('Jason')
+
+    const afterScene = await prisma.scene.findUniqueOrThrow({ where: { id: scene.id } })
+    expect(afterScene.sceneResolutionText).toBe(resolved.sceneText)
+
+    await runWorldTurn(campaignId)
+    expect(await prisma.timelineEvent.count({ where: { campaignId, isOffscreen: true } })).toBeGreaterThan(0)
+
+    // Self-hosted pricing: the whole run cost nothing.
+    const costs = await prisma.aICostEntry.findMany({ where: { campaignId } })
+    expect(costs.length).toBeGreaterThan(0)
+    expect(costs.every((c) => c.costMicros === 0)).toBe(true)
+  }, 120_000)
+})
@@ -15,8 +15,12 @@ vi.mock('@/lib/prisma', () => ({
       update: vi.fn().mockResolvedValue({}),
       updateMany: vi.fn(),
     },
+    scene: { findUnique: vi.fn().mockResolvedValue(null) },
   },
 }))
+vi.mock('../tactical/board', () => ({
+  prepareTacticalBoard: vi.fn().mockResolvedValue({ mapId: 'newMap1', placed: 2 }),
+}))
 vi.mock('../../ai/ai-visual-service', () => ({
   AIVisualService: { generateMapFromScene: vi.fn() },
 }))
@@ -33,6 +37,7 @@ vi.mock('@/lib/monitoring', () => ({
 import { prisma } from '@/lib/prisma'
 import { AIVisualService } from '../../ai/ai-visual-service'
 import { MapService } from '../../maps/map-service'
+import { prepareTacticalBoard } from '../tactical/board'
 import {
   enqueueMapGeneration,
   processMapGenJob,
@@ -155,6 +160,27 @@ describe('processMapGenJob', () => {
     expect(result.status).toBe('completed')
   })
 
+  it('puts the party back on a regenerated map when the scene is tactical', async () => {
+    db.mapGenerationJob.updateMany.mockResolvedValue({ count: 1 })
+    db.mapGenerationJob.findUnique.mockResolvedValue({ id: 'map1', campaignId: 'camp1', sceneId: 'scene1', sceneDescription: 'a scene', previousMapId: null, attempts: 1 })
+    db.scene.findUnique.mockResolvedValueOnce({ tacticalMode: true })
+    ;(AIVisualService.generateMapFromScene as any).mockResolvedValue({ mapId: 'newMap1' })
+
+    await processMapGenJob('map1')
+
+    expect(prepareTacticalBoard).toHaveBeenCalledWith('camp1', 'scene1')
+  })
+
+  it('leaves a non-tactical scene\'s map alone', async () => {
+    db.mapGenerationJob.updateMany.mockResolvedValue({ count: 1 })
+    db.mapGenerationJob.findUnique.mockResolvedValue({ id: 'map1', campaignId: 'camp1', sceneId: 'scene1', sceneDescription: 'a scene', previousMapId: null, attempts: 1 })
+    ;(AIVisualService.generateMapFromScene as any).mockResolvedValue({ mapId: 'newMap1' })
+
+    await processMapGenJob('map1')
+
+    expect(prepareTacticalBoard).not.toHaveBeenCalled()
+  })
+
   it('still completes successfully even if the Pusher broadcast fails', async () => {
     const PusherServer = (await import('@/lib/realtime/pusher-server')).default
     ;(PusherServer as any).mockReturnValueOnce({ trigger: vi.fn().mockRejectedValue(new Error('pusher down')) })
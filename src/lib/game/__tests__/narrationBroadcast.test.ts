@@ -0,0 +1,116 @@
+// src/lib/game/__tests__/narrationBroadcast.test.ts
+//
+// Streamed narration: throttled to one Pusher message per interval, each
+// carrying only the new stretch and its offset, restarting from zero when
+// the fallback model starts over, and shut off by an X-Card pause.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const trigger = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    scene: { findUnique: vi.fn() },
+  },
+}))
+vi.mock('@/lib/realtime/pusher-server', () => ({
+  default: vi.fn(() => ({ trigger })),
+}))
+
+import { prisma } from '@/lib/prisma'
+import { createNarrationBroadcaster } from '../narrationBroadcast'
+
+const db = prisma as any
+
+function sentPayloads() {
+  return trigger.mock.calls.map(([, , payload]) => ({ offset: payload.offset, text: payload.text }))
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.clearAllMocks()
+  trigger.mockResolvedValue(undefined)
+  db.scene.findUnique.mockResolvedValue({ isPaused: false })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createNarrationBroadcaster', () => {
+  it('sends the first stretch straight away and the rest once per interval', async () => {
+    const broadcaster = createNarrationBroadcaster('camp1', 'scene1', 1000)
+
+    broadcaster.push('The')
+    await vi.advanceTimersByTimeAsync(0)
+    broadcaster.push('The gate')
+    broadcaster.push('The gate falls')
+    await vi.advanceTimersByTimeAsync(999)
+    expect(trigger).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(sentPayloads()).toEqual([
+      { offset: 0, text: 'The' },
+      { offset: 3, text: ' gate falls' },
+    ])
+    expect(trigger).toHaveBeenCalledWith('campaign-camp1', 'scene:narration', expect.objectContaining({ sceneId: 'scene1', campaignId: 'camp1' }))
+    await broadcaster.close()
+  })
+
+  it('starts again from zero when the narration is restarted', async () => {
+    const broadcaster = createNarrationBroadcaster('camp1', 'scene1', 1000)
+
+    broadcaster.push('The gate falls')
+    await vi.advanceTimersByTimeAsync(1000)
+    broadcaster.push('Rain')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(sentPayloads()).toEqual([
+      { offset: 0, text: 'The gate falls' },
+      { offset: 0, text: 'Rain' },
+    ])
+    await broadcaster.close()
+  })
+
+  it('resends a stretch whose broadcast failed', async () => {
+    trigger.mockRejectedValueOnce(new Error('pusher down'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const broadcaster = createNarrationBroadcaster('camp1', 'scene1', 1000)
+
+    broadcaster.push('The')
+    await vi.advanceTimersByTimeAsync(1000)
+    broadcaster.push('The gate')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(sentPayloads()[1]).toEqual({ offset: 0, text: 'The gate' })
+    await broadcaster.close()
+  })
+
+  it('stops for good once the scene is paused', async () => {
+    const broadcaster = createNarrationBroadcaster('camp1', 'scene1', 1000)
+
+    broadcaster.push('The')
+    await vi.advanceTimersByTimeAsync(1000)
+    db.scene.findUnique.mockResolvedValue({ isPaused: true })
+    broadcaster.push('The gate')
+    await vi.advanceTimersByTimeAsync(1000)
+    db.scene.findUnique.mockResolvedValue({ isPaused: false })
+    broadcaster.push('The gate falls')
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(sentPayloads()).toEqual([{ offset: 0, text: 'The' }])
+    await broadcaster.close()
+  })
+
+  it('sends nothing pending after close', async () => {
+    const broadcaster = createNarrationBroadcaster('camp1', 'scene1', 1000)
+
+    broadcaster.push('The')
+    await vi.advanceTimersByTimeAsync(0)
+    broadcaster.push('The gate')
+    await broadcaster.close()
+    await vi.advanceTimersByTimeAsync(5000)
+
+    expect(trigger).toHaveBeenCalledTimes(1)
+  })
+})
@@ -21,6 +21,7 @@ import {
   ActionMechanics,
   sanitizeMoveOutcomes,
 } from '../resolution'
+import { resolveMoveSet } from '@/lib/moveSets'
 
 // Deterministic RNG factory: yields the given values (0..1) in order.
 const seq = (...values: number[]) => {
@@ -920,3 +921,128 @@ describe('parseClassifications — referential fields are re-verified (#381)', (
     expect(parsed[0].faction_name).toBe('Anything')
   })
 })
+
+describe('computeMechanics — per-campaign move sets', () => {
+  const dread = resolveMoveSet('dread')
+  const intrigue = resolveMoveSet('intrigue')
+
+  it('bands against the set\'s own thresholds, not the core 10/7', () => {
+    // dice 4+6=10, +0 weird = 10: a strong hit in core, a weak hit in dread
+    const classification = { action_index: 0, move_name: 'Open Your Brain', stat_key: 'weird', capability_key: null, faction_name: null }
+    const core = computeMechanics(classification, { id: 'a1' }, baseCharacter, seq(0.5, 0.99))
+    const horror = computeMechanics(classification, { id: 'a1' }, baseCharacter, seq(0.5, 0.99), { moveSet: dread })
+    expect(core!.total).toBe(10)
+    expect(core!.outcome).toBe('strongHit')
+    expect(horror!.total).toBe(10)
+    expect(horror!.outcome).toBe('weakHit')
+    expect(horror!.thresholds).toEqual({ strongHit: 11, weakHit: 7 })
+  })
+
+  it('lowers the weak-hit floor where the set does', () => {
+    // dice 3+3=6, +0 hot = 6: a miss in core, a weak hit at court
+    const classification = { action_index: 0, move_name: 'Seduce or Manipulate', stat_key: 'hot', capability_key: null, faction_name: null }
+    expect(computeMechanics(classification, { id: 'a1' }, baseCharacter, seq(0.4, 0.4))!.outcome).toBe('miss')
+    expect(computeMechanics(classification, { id: 'a1' }, baseCharacter, seq(0.4, 0.4), { moveSet: intrigue })!.outcome).toBe('weakHit')
+  })
+
+  it('rolls the move\'s own stat when the classifier picked one the set does not allow', () => {
+    // Act Under Fire is +cool only in dread; a +sharp classification is remapped
+    const m = computeMechanics(
+      { action_index: 0, move_name: 'Act Under Fire', stat_key: 'sharp', capability_key: null, faction_name: null },
+      { id: 'a1' },
+      baseCharacter,
+      seq(0.5, 0.5),
+      { moveSet: dread }
+    )
+    expect(m!.statKey).toBe('cool')
+    expect(m!.statMod).toBe(1)
+  })
+
+  it('keeps the classifier\'s stat when the set allows it', () => {
+    const m = computeMechanics(
+      { action_index: 0, move_name: 'Read a Situation', stat_key: 'cool', capability_key: null, faction_name: null },
+      { id: 'a1' },
+      baseCharacter,
+      seq(0.5, 0.5),
+      { moveSet: dread }
+    )
+    expect(m!.statKey).toBe('cool')
+  })
+
+  it('returns null for a move the set does not have', () => {
+    // Court & Coin has no violence move at all
+    const m = computeMechanics(
+      { action_index: 0, move_name: 'Go Aggro', stat_key: 'hard', capability_key: null, faction_name: null },
+      { id: 'a1' },
+      baseCharacter,
+      seq(0.5, 0.5),
+      { moveSet: intrigue }
+    )
+    expect(m).toBeNull()
+  })
+
+  it('weights debt leverage on a debt move, within the cap', () => {
+    const debts = { counterpartyName: 'House Veyl', owedToCharacter: 1, owedByCharacter: 0 }
+    const base = computeMechanics(
+      { action_index: 0, move_name: 'Seduce or Manipulate', stat_key: 'hot', capability_key: null, faction_name: 'House Veyl' },
+      { id: 'a1' },
+      baseCharacter,
+      seq(0.5, 0.5),
+      { moveSet: intrigue, debts }
+    )
+    const called = computeMechanics(
+      { action_index: 0, move_name: 'Call In a Debt', stat_key: 'hot', capability_key: null, faction_name: 'House Veyl' },
+      { id: 'a1' },
+      baseCharacter,
+      seq(0.5, 0.5),
+      { moveSet: intrigue, debts }
+    )
+    expect(base!.debtMod).toBe(1)
+    expect(called!.debtMod).toBe(2)
+
+    const heavy = computeMechanics(
+      { action_index: 0, move_name: 'Call In a Debt', stat_key: 'hot', capability_key: null, faction_name: 'House Veyl' },
+      { id: 'a1' },
+      baseCharacter,
+      seq(0.5, 0.5),
+      { moveSet: intrigue, debts: { ...debts, owedToCharacter: 4 } }
+    )
+    expect(heavy!.debtMod).toBe(3)
+  })
+
+  it('names non-default bands on the receipt and leaves core receipts alone', () => {
+    const classification = { action_index: 0, move_name: 'Open Your Brain', stat_key: 'weird', capability_key: null, faction_name: null }
+    const horror = computeMechanics(classification, { id: 'a1' }, baseCharacter, seq(0.5, 0.5), { moveSet: dread })
+    const core = computeMechanics(classification, { id: 'a1' }, baseCharacter, seq(0.5, 0.5))
+    expect(formatRollReceipt(horror!)).toContain('bands 11+ / 7-10 / 6-')
+    expect(formatRollReceipt(core!)).not.toContain('bands')
+  })
+})
+
+describe('parseClassifications — per-campaign move rosters', () => {
+  it('accepts a move only the campaign\'s set has', () => {
+    const parsed = parseClassifications(
+      { classifications: [{ action_index: 0, move_name: 'Call In a Debt', stat_key: 'hot' }] },
+      1,
+      { moveNames: resolveMoveSet('intrigue').moves.map(m => m.name) }
+    )
+    expect(parsed.map(c => c.move_name)).toEqual(['Call In a Debt'])
+  })
+
+  it('drops a core move the campaign\'s set lacks', () => {
+    const parsed = parseClassifications(
+      { classifications: [{ action_index: 0, move_name: 'Go Aggro', stat_key: 'hard' }] },
+      1,
+      { moveNames: resolveMoveSet('intrigue').moves.map(m => m.name) }
+    )
+    expect(parsed).toEqual([])
+  })
+
+  it('checks against the core roster when no roster is supplied', () => {
+    const parsed = parseClassifications(
+      { classifications: [{ action_index: 0, move_name: 'Call In a Debt', stat_key: 'hot' }] },
+      1
+    )
+    expect(parsed).toEqual([])
+  })
+})
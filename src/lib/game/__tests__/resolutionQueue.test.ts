@@ -107,6 +107,8 @@ describe('processResolutionJob', () => {
       id: 'job1', campaignId: 'camp1', sceneId: 'scene1', attempts: 1,
     })
 
+    ;(resolveScene as any).mockResolvedValue({ success: true, reviewId: null })
+
     const result = await processResolutionJob('job1')
 
     expect(resolveScene).toHaveBeenCalledWith('camp1', 'scene1')
@@ -117,6 +119,19 @@ describe('processResolutionJob', () => {
     expect(result.status).toBe('completed')
   })
 
+  it('completes without a world turn when the resolution is held for GM review', async () => {
+    db.resolutionJob.updateMany.mockResolvedValue({ count: 1 })
+    db.resolutionJob.findUnique.mockResolvedValue({
+      id: 'job1', campaignId: 'camp1', sceneId: 'scene1', attempts: 1,
+    })
+    ;(resolveScene as any).mockResolvedValue({ success: true, reviewId: 'review1' })
+
+    const result = await processResolutionJob('job1')
+
+    expect(runWorldTurnIfDue).not.toHaveBeenCalled()
+    expect(result.status).toBe('completed')
+  })
+
   it('returns the job to PENDING on failure while attempts remain', async () => {
     db.resolutionJob.updateMany.mockResolvedValue({ count: 1 })
     db.resolutionJob.findUnique.mockResolvedValue({
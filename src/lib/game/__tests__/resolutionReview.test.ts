@@ -0,0 +1,314 @@
+// src/lib/game/__tests__/resolutionReview.test.ts
+// GM co-pilot review: how a response splits into reviewable changes and
+// back, and the lifecycle around it — rejected changes never reach
+// applyWorldUpdates, the dice come from the saved stream position, a
+// failed publish reopens the review, a discard leaves the draft's dice
+// receipts where they are, and a re-roll or discard can't resurrect a
+// review someone else already settled.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    resolutionReview: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    stateMutation: { createMany: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
+    scene: { findUnique: vi.fn(), updateMany: vi.fn() },
+    playerAction: { updateMany: vi.fn() },
+    diceRoll: { deleteMany: vi.fn(), updateMany: vi.fn() },
+  },
+}))
+vi.mock('@/lib/ai/client', () => ({ callAIGM: vi.fn() }))
+vi.mock('@/lib/realtime/pusher-server', () => ({ default: vi.fn(() => null) }))
+vi.mock('@/lib/monitoring', () => ({ reportError: vi.fn() }))
+vi.mock('../sceneResolver', () => ({ publishReviewedResolution: vi.fn() }))
+vi.mock('../worldTurn', () => ({ runWorldTurnIfDue: vi.fn() }))
+vi.mock('../sceneEnd', () => ({ completeSceneEnd: vi.fn() }))
+
+import { prisma } from '@/lib/prisma'
+import { callAIGM, type AIGMResponse } from '@/lib/ai/client'
+import { publishReviewedResolution } from '../sceneResolver'
+import { runWorldTurnIfDue } from '../worldTurn'
+import { completeSceneEnd } from '../sceneEnd'
+import { createSeededRng, drawAt } from '../rng'
+import {
+  ResolutionReviewError,
+  createResolutionReview,
+  describeProposedChange,
+  discardPendingReviews,
+  discardResolutionReview,
+  proposedChanges,
+  publishResolutionReview,
+  rerollResolutionReview,
+  withoutRejected,
+} from '../resolutionReview'
+
+const db = prisma as any
+
+const updates: AIGMResponse['world_updates'] = {
+  clock_changes: [{ clock_name_or_id: 'Siege', delta: 1 }],
+  npc_changes: [
+    { npc_name_or_id: 'Marta', changes: { notes_append: 'Owes the party' } },
+    { npc_name_or_id: 'Osric', is_new: true, changes: { description: 'A bored guard' } },
+  ],
+  pc_changes: [
+    { character_name_or_id: 'Kara', changes: { harm_damage: 2, resource_changes: { gold_delta: 50 } } },
+  ],
+}
+
+const response: AIGMResponse = { scene_text: 'The gate falls.', world_updates: updates }
+
+function pendingReview(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'review1',
+    campaignId: 'camp1',
+    sceneId: 'scene1',
+    status: 'PENDING',
+    isSceneEnding: false,
+    aiRequest: { action_mechanics: [] },
+    aiResponse: response,
+    editedSceneText: null,
+    rngSeed: 7,
+    rngCursor: 3,
+    rerollCount: 0,
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  db.$transaction.mockImplementation(async (arg: any) => (typeof arg === 'function' ? arg(db) : Promise.all(arg)))
+  db.scene.findUnique.mockResolvedValue({ isPaused: false, sceneNumber: 4 })
+  db.resolutionReview.findFirst.mockResolvedValue(pendingReview())
+  db.resolutionReview.updateMany.mockResolvedValue({ count: 1 })
+  db.stateMutation.findMany.mockResolvedValue([])
+  ;(runWorldTurnIfDue as any).mockResolvedValue({ ran: false })
+  ;(publishReviewedResolution as any).mockResolvedValue({ sceneText: 'The gate falls.', newTurnNumber: 6 })
+})
+
+describe('proposedChanges', () => {
+  it('makes one change per list entry and per PC change key', () => {
+    expect(proposedChanges(updates).map((change) => change.field)).toEqual([
+      'clock_changes[0]',
+      'npc_changes[0]',
+      'npc_changes[1]',
+      'pc_changes[0].changes.harm_damage',
+      'pc_changes[0].changes.resource_changes',
+    ])
+  })
+
+  it('keeps the character on a split PC change', () => {
+    const harm = proposedChanges(updates).find((change) => change.field === 'pc_changes[0].changes.harm_damage')
+    expect(harm?.proposedValue).toEqual({ character_name_or_id: 'Kara', changes: { harm_damage: 2 } })
+  })
+
+  it('has nothing to review in an empty response', () => {
+    expect(proposedChanges(undefined)).toEqual([])
+    expect(proposedChanges({})).toEqual([])
+  })
+})
+
+describe('withoutRejected', () => {
+  it('drops exactly the rejected changes', () => {
+    const kept = withoutRejected(updates, new Set(['npc_changes[0]', 'pc_changes[0].changes.resource_changes']))
+    expect(kept.npc_changes).toEqual([updates.npc_changes![1]])
+    expect(kept.clock_changes).toEqual(updates.clock_changes)
+    expect(kept.pc_changes).toEqual([{ character_name_or_id: 'Kara', changes: { harm_damage: 2 } }])
+  })
+
+  it('drops a PC entry with nothing left in it', () => {
+    const kept = withoutRejected(updates, new Set(['pc_changes[0].changes.harm_damage', 'pc_changes[0].changes.resource_changes']))
+    expect(kept.pc_changes).toEqual([])
+  })
+
+  it('is the identity when nothing was rejected', () => {
+    expect(withoutRejected(updates, new Set())).toEqual(updates)
+  })
+})
+
+describe('describeProposedChange', () => {
+  it('labels each kind of change', () => {
+    expect(describeProposedChange('clock_changes[0]', { clock_name_or_id: 'Siege', delta: 1 })).toBe('Clock "Siege" +1')
+    expect(describeProposedChange('npc_changes[1]', updates.npc_changes![1])).toBe('New NPC: Osric (description)')
+    expect(describeProposedChange('pc_changes[0].changes.harm_damage', { character_name_or_id: 'Kara', changes: { harm_damage: 2 } }))
+      .toBe('Kara: harm damage 2')
+  })
+})
+
+describe('createResolutionReview', () => {
+  it('saves the stream position and one PENDING mutation per change', async () => {
+    db.resolutionReview.create.mockResolvedValue({ id: 'review1' })
+
+    const id = await createResolutionReview({
+      campaignId: 'camp1',
+      sceneId: 'scene1',
+      isSceneEnding: true,
+      aiRequest: { action_mechanics: [] } as any,
+      aiResponse: response,
+      rng: createSeededRng(7, 3),
+    })
+
+    expect(id).toBe('review1')
+    expect(db.resolutionReview.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ isSceneEnding: true, rngSeed: 7, rngCursor: 3 }),
+    }))
+    const rows = db.stateMutation.createMany.mock.calls[0][0].data
+    expect(rows).toHaveLength(5)
+    expect(rows[0]).toMatchObject({ reviewId: 'review1', result: 'PENDING', field: 'clock_changes[0]' })
+  })
+})
+
+describe('publishResolutionReview', () => {
+  it('applies the GM prose minus rejected changes, drawing from the saved stream', async () => {
+    db.resolutionReview.findFirst.mockResolvedValue(pendingReview({ editedSceneText: 'The gate holds.' }))
+    db.stateMutation.findMany.mockResolvedValue([{ field: 'npc_changes[0]' }])
+
+    const published = await publishResolutionReview('camp1', 'scene1', 'gm1')
+
+    const input = (publishReviewedResolution as any).mock.calls[0][0]
+    expect(input.aiResponse.scene_text).toBe('The gate holds.')
+    expect(input.aiResponse.world_updates.npc_changes).toEqual([updates.npc_changes![1]])
+    expect(input.exchangeRng()).toBe(drawAt(7, 3))
+    expect(db.stateMutation.updateMany).toHaveBeenCalledWith({
+      where: { reviewId: 'review1', result: 'PENDING' },
+      data: { result: 'ACCEPTED' },
+    })
+    expect(runWorldTurnIfDue).toHaveBeenCalledWith('camp1')
+    expect(completeSceneEnd).not.toHaveBeenCalled()
+    expect(published).toEqual({ sceneText: 'The gate falls.', newTurnNumber: 6, sceneEnded: false })
+  })
+
+  it('finishes ending the scene when the review held its final exchange', async () => {
+    db.resolutionReview.findFirst.mockResolvedValue(pendingReview({ isSceneEnding: true }))
+    await publishResolutionReview('camp1', 'scene1', 'gm1')
+    expect(completeSceneEnd).toHaveBeenCalledWith('camp1', 'scene1', 4)
+  })
+
+  it('refuses while the scene is paused', async () => {
+    db.scene.findUnique.mockResolvedValue({ isPaused: true, sceneNumber: 4 })
+    await expect(publishResolutionReview('camp1', 'scene1', 'gm1')).rejects.toBeInstanceOf(ResolutionReviewError)
+    expect(db.resolutionReview.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('loses cleanly to a concurrent publish or discard', async () => {
+    db.resolutionReview.updateMany.mockResolvedValue({ count: 0 })
+    await expect(publishResolutionReview('camp1', 'scene1', 'gm1')).rejects.toBeInstanceOf(ResolutionReviewError)
+    expect(publishReviewedResolution).not.toHaveBeenCalled()
+  })
+
+  it('reopens the review when applying it fails', async () => {
+    ;(publishReviewedResolution as any).mockRejectedValue(new Error('db down'))
+    db.resolutionReview.update.mockResolvedValue({})
+
+    await expect(publishResolutionReview('camp1', 'scene1', 'gm1')).rejects.toThrow('db down')
+
+    expect(db.resolutionReview.update).toHaveBeenCalledWith({
+      where: { id: 'review1' },
+      data: { status: 'PENDING', reviewedById: null, publishedAt: null },
+    })
+    expect(db.stateMutation.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('returns null when nothing is pending', async () => {
+    db.resolutionReview.findFirst.mockResolvedValue(null)
+    expect(await publishResolutionReview('camp1', 'scene1', 'gm1')).toBeNull()
+  })
+})
+
+describe('rerollResolutionReview', () => {
+  it('re-narrates the same request and replaces the proposals', async () => {
+    const fresh: AIGMResponse = { scene_text: 'The gate cracks.', world_updates: { clock_changes: [{ clock_name_or_id: 'Siege', delta: 2 }] } }
+    ;(callAIGM as any).mockResolvedValue(fresh)
+
+    await rerollResolutionReview('camp1', 'scene1')
+
+    expect(callAIGM).toHaveBeenCalledWith({ action_mechanics: [] }, 'camp1', 'scene1', expect.any(Object))
+    expect(db.resolutionReview.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'review1', status: 'PENDING' },
+      data: expect.objectContaining({ editedSceneText: null, rerollCount: { increment: 1 } }),
+    }))
+    expect(db.stateMutation.updateMany).toHaveBeenCalledWith({
+      where: { reviewId: 'review1' },
+      data: { reviewId: null, result: 'REJECTED', reason: 'Superseded when the GM re-rolled the narration' },
+    })
+    expect(db.stateMutation.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ field: 'clock_changes[0]', result: 'PENDING', reviewId: 'review1' }),
+    ])
+  })
+
+  it('does not overwrite a review settled during the AI call', async () => {
+    ;(callAIGM as any).mockResolvedValue(response)
+    db.resolutionReview.updateMany.mockResolvedValue({ count: 0 })
+
+    await expect(rerollResolutionReview('camp1', 'scene1')).rejects.toBeInstanceOf(ResolutionReviewError)
+    expect(db.stateMutation.createMany).not.toHaveBeenCalled()
+  })
+
+  it('discards the new draft if an X-Card landed during the call', async () => {
+    ;(callAIGM as any).mockResolvedValue(response)
+    db.scene.findUnique
+      .mockResolvedValueOnce({ isPaused: false, sceneNumber: 4 })
+      .mockResolvedValueOnce({ isPaused: true, sceneNumber: 4 })
+
+    await expect(rerollResolutionReview('camp1', 'scene1')).rejects.toBeInstanceOf(ResolutionReviewError)
+    expect(db.resolutionReview.updateMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('discardResolutionReview', () => {
+  it('rejects everything still standing and reopens the scene', async () => {
+    expect(await discardResolutionReview('camp1', 'scene1', 'gm1')).toBe(true)
+
+    expect(db.stateMutation.updateMany).toHaveBeenCalledWith({
+      where: { reviewId: { in: ['review1'] }, result: { in: ['PENDING', 'ACCEPTED'] } },
+      data: { result: 'REJECTED', reason: 'Discarded in GM review' },
+    })
+    expect(db.scene.updateMany).toHaveBeenCalledWith({
+      where: { id: 'scene1', status: 'RESOLVING' },
+      data: { status: 'AWAITING_ACTIONS' },
+    })
+  })
+
+  it('loses cleanly to a concurrent publish', async () => {
+    db.resolutionReview.updateMany.mockResolvedValue({ count: 0 })
+    await expect(discardResolutionReview('camp1', 'scene1', 'gm1')).rejects.toBeInstanceOf(ResolutionReviewError)
+    expect(db.scene.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('keeps the draft\'s dice receipts and their stamps on the actions', async () => {
+    db.resolutionReview.findFirst.mockResolvedValue(
+      pendingReview({ aiRequest: { action_mechanics: [{ actionId: 'act1' }, { actionId: 'act2' }] } })
+    )
+
+    await discardResolutionReview('camp1', 'scene1', 'gm1')
+
+    // resolveActionMechanics brings these rolls back for the same actions;
+    // discarding is not a way to new dice.
+    expect(db.diceRoll.deleteMany).not.toHaveBeenCalled()
+    expect(db.diceRoll.updateMany).not.toHaveBeenCalled()
+    expect(db.playerAction.updateMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('discardPendingReviews', () => {
+  it('is a no-op with nothing pending', async () => {
+    db.resolutionReview.findMany.mockResolvedValue([])
+    expect(await discardPendingReviews('scene1')).toBe(0)
+    expect(db.resolutionReview.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('discards every pending review for the scene', async () => {
+    db.resolutionReview.findMany.mockResolvedValue([{ id: 'review1' }])
+    expect(await discardPendingReviews('scene1')).toBe(1)
+    expect(db.resolutionReview.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['review1'] }, status: 'PENDING' },
+      data: { status: 'DISCARDED' },
+    })
+  })
+})
@@ -27,13 +27,20 @@ vi.mock('@/lib/prisma', () => ({
     move: { findMany: vi.fn(async () => []) },
     campaign: { findUnique: vi.fn(async () => ({ corruptionTheme: null })) },
     debt: { findMany: vi.fn(async () => []) },
+    // Tactical mode (lib/game/tactical/board.ts): off unless a test turns it on.
+    scene: { findUnique: vi.fn(async () => null) },
+    map: { findFirst: vi.fn(async () => null) },
     diceRoll: { create: vi.fn() },
-    playerAction: { update: vi.fn(async () => ({})) },
+    worldMeta: { update: vi.fn() },
+    playerAction: { update: vi.fn(async () => ({})), findMany: vi.fn(async () => []) },
+    // GM review drafts (resolutionReview.ts): none discarded unless a test says so.
+    resolutionReview: { findMany: vi.fn(async () => []) },
   },
 }))
 
 import { prisma } from '@/lib/prisma'
 import { resolveActionMechanics } from '../resolution'
+import { createSeededRng } from '../rng'
 
 const character = (id: string, name: string) => ({
   id, name,
@@ -226,3 +233,134 @@ describe('resolveActionMechanics — receipts', () => {
     expect(zoneWrite.data.zoneMetadata).toEqual({ sceneId: 'scene1' })
   })
 })
+
+describe('resolveActionMechanics — after a discarded GM review draft', () => {
+  const draftRoll = { actionId: 'act1', characterId: 'char1', characterName: 'Jason', moveName: 'Act Under Fire', statKey: 'cool', dice: [6, 6], total: 13, outcome: 'strongHit' }
+
+  beforeEach(() => {
+    ;(prisma.resolutionReview.findMany as any).mockResolvedValue([{ aiRequest: { action_mechanics: [draftRoll] } }])
+    ;(prisma.playerAction.findMany as any).mockResolvedValue([{ id: 'act1' }])
+  })
+
+  it('keeps the draft\'s roll for the action it rolled, and rolls only the rest', async () => {
+    openaiFetch.mockResolvedValue(classifierReturning([
+      { action_index: 0, move_name: 'Act Under Fire', stat_key: 'cool' },
+    ]))
+
+    const { mechanics } = await resolveActionMechanics('camp1', 'scene1', actions, () => 0.5)
+
+    expect(mechanics.map((m) => m.actionId)).toEqual(['act1', 'act2'])
+    expect(mechanics[0]).toEqual(draftRoll)
+    // Only act2 went to the classifier and got a receipt; act1's is the draft's.
+    const classified = JSON.stringify(JSON.parse(openaiFetch.mock.calls[0][1].body).messages)
+    expect(classified).toContain('Cover the door')
+    expect(classified).not.toContain('Vault the railing')
+    expect(prisma.diceRoll.create).toHaveBeenCalledTimes(1)
+    expect((prisma.playerAction.update as any).mock.calls.map((c: any[]) => c[0].where.id)).toEqual(['act2'])
+  })
+
+  it('rolls nothing at all when the draft rolled every action', async () => {
+    const { mechanics } = await resolveActionMechanics('camp1', 'scene1', [actions[0]], () => 0.5)
+    expect(mechanics).toEqual([draftRoll])
+    expect(openaiFetch).not.toHaveBeenCalled()
+    expect(prisma.diceRoll.create).not.toHaveBeenCalled()
+  })
+
+  it('rolls an action afresh once it no longer carries the draft\'s stamp', async () => {
+    ;(prisma.playerAction.findMany as any).mockResolvedValue([])
+    openaiFetch.mockResolvedValue(classifierReturning([
+      { action_index: 0, move_name: 'Act Under Fire', stat_key: 'cool' },
+    ]))
+    await resolveActionMechanics('camp1', 'scene1', [actions[0]], () => 0.5)
+    expect(prisma.diceRoll.create).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('resolveActionMechanics — seeded stream', () => {
+  it('records where in the stream each roll drew, and the dice replay from it', async () => {
+    openaiFetch.mockResolvedValue(classifierReturning([
+      { action_index: 0, move_name: 'Act Under Fire', stat_key: 'cool' },
+      { action_index: 1, move_name: 'Act Under Fire', stat_key: 'cool' },
+    ]))
+
+    const { mechanics } = await resolveActionMechanics('camp1', 'scene1', actions, createSeededRng(1234, 40))
+
+    const rolls = (prisma.diceRoll.create as any).mock.calls.map((c: any[]) => c[0].data)
+    expect(rolls.map((r: any) => [r.rngSeed, r.rngCursor]).sort()).toEqual([[1234, 40], [1234, 42]])
+
+    // The receipt alone is enough to reproduce the dice.
+    for (const roll of rolls) {
+      const replay = createSeededRng(roll.rngSeed, roll.rngCursor)
+      const dice = [Math.floor(replay() * 6) + 1, Math.floor(replay() * 6) + 1]
+      expect(dice).toEqual(roll.dice)
+    }
+    expect(mechanics).toHaveLength(2)
+  })
+
+  it('records no position for an unseeded rng rather than guessing one', async () => {
+    openaiFetch.mockResolvedValue(classifierReturning([
+      { action_index: 0, move_name: 'Act Under Fire', stat_key: 'cool' },
+    ]))
+
+    await resolveActionMechanics('camp1', 'scene1', [actions[0]], () => 0.5)
+
+    expect(prisma.diceRoll.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ rngSeed: null, rngCursor: null }),
+    }))
+  })
+
+  it('claims the campaign\'s own stream when no rng is passed', async () => {
+    ;(prisma.worldMeta.update as any).mockResolvedValue({ rngSeed: 77, rngCursor: 512 })
+    openaiFetch.mockResolvedValue(classifierReturning([
+      { action_index: 0, move_name: 'Act Under Fire', stat_key: 'cool' },
+    ]))
+
+    await resolveActionMechanics('camp1', 'scene1', [actions[0]])
+
+    expect(prisma.worldMeta.update).toHaveBeenCalledWith(expect.objectContaining({ where: { campaignId: 'camp1' } }))
+    // 512 is the END of the reserved block; this exchange starts at its head.
+    expect(prisma.diceRoll.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ rngSeed: 77, rngCursor: 256 }),
+    }))
+  })
+})
+
+describe('resolveActionMechanics — tactical board', () => {
+  const token = (id: string, name: string, x: number, y: number, characterId: string | null = null) => ({
+    id, name, x, y, size: 1, isPlayer: characterId !== null, isVisible: true, characterId,
+  })
+
+  beforeEach(() => {
+    ;(prisma as any).scene.findUnique.mockResolvedValue({ tacticalMode: true })
+    ;(prisma as any).map.findFirst.mockResolvedValue({
+      id: 'map1', gridSize: 40, width: 800, height: 600,
+      tokens: [
+        token('t-jason', 'Jason', 0, 0, 'char1'),
+        // Eight squares off — far.
+        token('t-guard', 'Gate Guard', 320, 0),
+      ],
+    })
+  })
+
+  it('prices range from the distance on the board, over the classifier\'s reposition', async () => {
+    openaiFetch.mockResolvedValue(classifierReturning([
+      // The action text says "charge in", but the token hasn't moved.
+      { action_index: 0, move_name: 'Act Under Fire', stat_key: 'cool', engagement: 'melee', moves_to_zone: 'close' },
+    ]))
+
+    const { mechanics } = await resolveActionMechanics('camp1', 'scene1', [actions[0]], () => 0.5)
+
+    expect(mechanics[0].zonePosition).toBe('far')
+    expect(mechanics[0].zoneMod).toBe(-1)
+  })
+
+  it('falls back to the fiction for a character with no token', async () => {
+    openaiFetch.mockResolvedValue(classifierReturning([
+      { action_index: 0, move_name: 'Act Under Fire', stat_key: 'cool', engagement: 'melee', moves_to_zone: 'close' },
+    ]))
+
+    const { mechanics } = await resolveActionMechanics('camp1', 'scene1', [actions[1]], () => 0.5)
+
+    expect(mechanics[0].zonePosition).toBe('close')
+  })
+})
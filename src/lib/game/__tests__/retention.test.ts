@@ -23,11 +23,13 @@ const db = vi.hoisted(() => ({
   aICostEntry: { deleteMany: vi.fn() },
   campaignMemory: { deleteMany: vi.fn() },
   memoryCreationFailure: { deleteMany: vi.fn() },
+  worldSnapshot: { findMany: vi.fn(), deleteMany: vi.fn() },
 }))
 
 vi.mock('@/lib/prisma', () => ({ prisma: db }))
 
 import { pruneCampaignHistory, EVENT_RETENTION_TURNS } from '../retention'
+import { ARCHIVE_SNAPSHOT_INTERVAL, SNAPSHOT_INTERVAL } from '../worldHistory/snapshots'
 
 beforeEach(() => {
   vi.clearAllMocks()
@@ -39,6 +41,8 @@ beforeEach(() => {
   db.aICostEntry.deleteMany.mockResolvedValue({ count: 5 })
   db.campaignMemory.deleteMany.mockResolvedValue({ count: 2 })
   db.memoryCreationFailure.deleteMany.mockResolvedValue({ count: 4 })
+  db.worldSnapshot.findMany.mockResolvedValue([])
+  db.worldSnapshot.deleteMany.mockImplementation(async (args: any) => ({ count: args.where.id.in.length }))
 })
 
 describe('telemetry pruning is independent of world-event age (#442)', () => {
@@ -150,3 +154,39 @@ describe('the last write-only table is bounded (#445)', () => {
     expect(Date.now() - failureCutoff.getTime()).toBeGreaterThan(30 * 24 * 60 * 60 * 1000)
   })
 })
+
+describe('world snapshots past the event window are thinned, not kept forever', () => {
+  const snapshots = (...turns: number[]) => turns.map((turnNumber) => ({ id: `s${turnNumber}`, turnNumber }))
+
+  it('keeps one per archive interval behind the cutoff and deletes the rest', async () => {
+    db.worldMeta.findUnique.mockResolvedValue({ simulationTurn: EVENT_RETENTION_TURNS + 200 })
+    db.worldSnapshot.findMany.mockResolvedValue(
+      snapshots(ARCHIVE_SNAPSHOT_INTERVAL - SNAPSHOT_INTERVAL, ARCHIVE_SNAPSHOT_INTERVAL, ARCHIVE_SNAPSHOT_INTERVAL + SNAPSHOT_INTERVAL)
+    )
+
+    const result = await pruneCampaignHistory('camp1')
+
+    expect(db.worldSnapshot.findMany.mock.calls[0][0].where).toEqual({ campaignId: 'camp1', turnNumber: { lt: 200 } })
+    expect(db.worldSnapshot.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: [`s${ARCHIVE_SNAPSHOT_INTERVAL - SNAPSHOT_INTERVAL}`, `s${ARCHIVE_SNAPSHOT_INTERVAL + SNAPSHOT_INTERVAL}`] } },
+    })
+    expect(result.worldSnapshotsDeleted).toBe(2)
+  })
+
+  it('thins even when there are no stale events left to prune', async () => {
+    // The early return below the thinning is about events; snapshots have
+    // their own criterion, so they sit above it (#442's lesson).
+    db.worldMeta.findUnique.mockResolvedValue({ simulationTurn: EVENT_RETENTION_TURNS + 200 })
+    db.worldEvent.findMany.mockResolvedValue([])
+    db.worldSnapshot.findMany.mockResolvedValue(snapshots(SNAPSHOT_INTERVAL))
+
+    expect((await pruneCampaignHistory('camp1')).worldSnapshotsDeleted).toBe(1)
+  })
+
+  it('leaves a campaign younger than the window alone', async () => {
+    db.worldMeta.findUnique.mockResolvedValue({ simulationTurn: 40 })
+    const result = await pruneCampaignHistory('camp1')
+    expect(db.worldSnapshot.findMany).not.toHaveBeenCalled()
+    expect(result.worldSnapshotsDeleted).toBe(0)
+  })
+})
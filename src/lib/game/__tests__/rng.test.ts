@@ -0,0 +1,59 @@
+// src/lib/game/__tests__/rng.test.ts
+// The seeded stream is only worth anything if a recorded (seed, cursor)
+// reproduces the same draws — these pin that, plus the basic statistical
+// sanity a dice source needs.
+
+import { describe, it, expect } from 'vitest'
+import { createSeededRng, drawAt, rngPosition, rollD6 } from '../rng'
+
+describe('createSeededRng', () => {
+  it('is reproducible from a seed and cursor', () => {
+    const a = createSeededRng(42)
+    const first = Array.from({ length: 10 }, () => a())
+    const b = createSeededRng(42)
+    expect(Array.from({ length: 10 }, () => b())).toEqual(first)
+  })
+
+  it('resumes mid-stream from a recorded cursor without replaying earlier draws', () => {
+    const full = createSeededRng(9001)
+    const draws = Array.from({ length: 20 }, () => full())
+    const resumed = createSeededRng(9001, 12)
+    expect([resumed(), resumed()]).toEqual(draws.slice(12, 14))
+    expect(drawAt(9001, 5)).toBe(draws[5])
+  })
+
+  it('advances its cursor once per draw', () => {
+    const rng = createSeededRng(1, 7)
+    rng()
+    rng()
+    expect(rngPosition(rng)).toEqual({ seed: 1, cursor: 9 })
+  })
+
+  it('gives different campaigns different streams', () => {
+    const a = createSeededRng(1)
+    const b = createSeededRng(2)
+    expect(Array.from({ length: 5 }, () => a())).not.toEqual(Array.from({ length: 5 }, () => b()))
+  })
+
+  it('stays in [0, 1) and lands every die face at a plausible rate', () => {
+    const rng = createSeededRng(123456)
+    const counts = [0, 0, 0, 0, 0, 0]
+    for (let i = 0; i < 6000; i++) {
+      const value = rng()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+      counts[rollD6(() => value) - 1]++
+    }
+    for (const count of counts) {
+      expect(count).toBeGreaterThan(850)
+      expect(count).toBeLessThan(1150)
+    }
+  })
+})
+
+describe('rngPosition', () => {
+  it('is null for an unseeded rng', () => {
+    expect(rngPosition(Math.random)).toBeNull()
+    expect(rngPosition(() => 0.5)).toBeNull()
+  })
+})
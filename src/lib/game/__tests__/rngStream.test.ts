@@ -0,0 +1,54 @@
+// src/lib/game/__tests__/rngStream.test.ts
+// Block claiming for the seeded dice stream: concurrent exchanges must not
+// draw from the same positions, and a campaign whose WorldMeta can't be
+// reached still rolls.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { worldMeta: { update: vi.fn() } },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { claimRngStream, RNG_BLOCK_SIZE } from '../rngStream'
+import { rngPosition } from '../rng'
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('claimRngStream', () => {
+  it('reserves a block with one atomic increment and starts at its head', async () => {
+    ;(prisma.worldMeta.update as any).mockResolvedValue({ rngSeed: 5, rngCursor: RNG_BLOCK_SIZE * 3 })
+
+    const rng = await claimRngStream('camp1')
+
+    expect(prisma.worldMeta.update).toHaveBeenCalledWith({
+      where: { campaignId: 'camp1' },
+      data: { rngCursor: { increment: RNG_BLOCK_SIZE } },
+      select: { rngSeed: true, rngCursor: true },
+    })
+    expect(rngPosition(rng)).toEqual({ seed: 5, cursor: RNG_BLOCK_SIZE * 2 })
+  })
+
+  it('gives two back-to-back claims disjoint blocks', async () => {
+    ;(prisma.worldMeta.update as any)
+      .mockResolvedValueOnce({ rngSeed: 5, rngCursor: RNG_BLOCK_SIZE })
+      .mockResolvedValueOnce({ rngSeed: 5, rngCursor: RNG_BLOCK_SIZE * 2 })
+
+    const first = rngPosition(await claimRngStream('camp1'))!
+    const second = rngPosition(await claimRngStream('camp1'))!
+
+    expect(second.cursor - first.cursor).toBe(RNG_BLOCK_SIZE)
+  })
+
+  it('fails open to an unseeded rng when WorldMeta is unreachable', async () => {
+    ;(prisma.worldMeta.update as any).mockRejectedValue(new Error('Record to update not found'))
+
+    const rng = await claimRngStream('camp1')
+
+    expect(rngPosition(rng)).toBeNull()
+    expect(rng()).toBeGreaterThanOrEqual(0)
+  })
+})
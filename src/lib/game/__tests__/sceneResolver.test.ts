@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { resolveScene, createNewScene, getCurrentScene, getRecentScenes, canUserResolveScene, fallbackSummaryFromSceneText, appendSummarySegment, isFirstSceneExchange } from '../sceneResolver';
+import { resolveScene, publishReviewedResolution, createNewScene, getCurrentScene, getRecentScenes, canUserResolveScene, fallbackSummaryFromSceneText, appendSummarySegment, isFirstSceneExchange } from '../sceneResolver';
 
 // Mock modules
 vi.mock('@/lib/prisma', () => ({
@@ -36,6 +36,11 @@ vi.mock('@/lib/prisma', () => ({
     campaign: {
       findUnique: vi.fn(),
     },
+    // GM co-pilot mode: resolveScene refuses a scene whose last resolution
+    // is still awaiting review. undefined (the vi.fn() default) = none.
+    resolutionReview: {
+      findFirst: vi.fn(),
+    },
   },
 }));
 
@@ -56,6 +61,13 @@ vi.mock('@/lib/ai/sceneStakes', () => ({
   generateSceneStakes: vi.fn().mockResolvedValue(null),
 }));
 
+// The exchange's dice stream — one fixed function, so the tests can check
+// the SAME stream reaches both the dice and the world updates.
+const exchangeRng = vi.hoisted(() => () => 0.5);
+vi.mock('../rngStream', () => ({
+  claimRngStream: vi.fn(async () => exchangeRng),
+}));
+
 vi.mock('../stateUpdater', () => ({
   applyWorldUpdates: vi.fn(),
   summarizeWorldUpdates: vi.fn(() => 'test summary'),
@@ -131,6 +143,20 @@ vi.mock('../imageGenQueue', () => ({
   enqueueSceneImageGeneration: vi.fn().mockResolvedValue({ jobId: 'img1', deduped: false }),
 }));
 
+// GM co-pilot mode hands the response to resolutionReview.ts instead of
+// applying it — only the hand-off is asserted here (resolutionReview.test.ts
+// covers the review itself).
+vi.mock('../resolutionReview', () => ({
+  createResolutionReview: vi.fn().mockResolvedValue('review-1'),
+}));
+
+// Streamed narration is covered in narrationBroadcast.test.ts; here only
+// whether a resolution streams at all, and that the stream is shut after.
+const narrationBroadcaster = vi.hoisted(() => ({ push: vi.fn(), close: vi.fn().mockResolvedValue(undefined) }));
+vi.mock('../narrationBroadcast', () => ({
+  createNarrationBroadcaster: vi.fn(() => narrationBroadcaster),
+}));
+
 // Import mocked modules
 import { prisma } from '@/lib/prisma';
 import { callAIGM } from '@/lib/ai/client';
@@ -141,6 +167,7 @@ import { storeWorldStateChanges, detectWorldStateChanges } from '../world-state-
 import { buildScenePrompt } from '../../ai/imageGeneration';
 import { enqueueSceneImageGeneration } from '../imageGenQueue';
 import { generateSceneStakes } from '@/lib/ai/sceneStakes';
+import { createResolutionReview } from '../resolutionReview';
 
 describe('Scene Resolver', () => {
   beforeEach(() => {
@@ -302,7 +329,9 @@ describe('Scene Resolver', () => {
         adherence,
         // #232: moveVariety — no outcome_echo on mockAIResponse, so the
         // measurement is empty rather than absent.
-        { entries: [], reported: 0, unreported: 0, repeated: 0 }
+        { entries: [], reported: 0, unreported: 0, repeated: 0 },
+        // The mocked request carries no retrieval trace.
+        undefined
       );
     });
 
@@ -465,6 +494,75 @@ describe('Scene Resolver', () => {
       expect(result.success).toBe(true);
     });
 
+    it('holds the resolution for GM review instead of applying it when the campaign has co-pilot mode on', async () => {
+      vi.mocked(prisma.scene.findUnique).mockResolvedValue(mockScene as any);
+      vi.mocked(prisma.scene.update).mockResolvedValue(mockScene as any);
+      vi.mocked(prisma.worldMeta.findUnique).mockResolvedValue({
+        ...mockWorldMeta,
+        campaign: { ...mockWorldMeta.campaign, gmReviewEnabled: true },
+      } as any);
+      vi.mocked(buildSceneResolutionRequest).mockResolvedValue({ action_mechanics: [] } as any);
+      vi.mocked(callAIGM).mockResolvedValue(mockAIResponse);
+
+      const result = await resolveScene(mockCampaignId, mockSceneId, true, true);
+
+      expect(result.reviewId).toBe('review-1');
+      expect(result.newTurnNumber).toBe(5);
+      // The review keeps the exchange's stream, already past the dice.
+      expect(createResolutionReview).toHaveBeenCalledWith({
+        campaignId: mockCampaignId,
+        sceneId: mockSceneId,
+        isSceneEnding: true,
+        aiRequest: { action_mechanics: [] },
+        aiResponse: mockAIResponse,
+        rng: exchangeRng,
+      });
+      // Nothing reaches the world or the table until it's published — not
+      // even as streamed narration — and the scene stays RESOLVING.
+      expect(vi.mocked(callAIGM).mock.calls[0][3]).toEqual({ debugMode: false, onNarration: undefined });
+      expect(applyWorldUpdates).not.toHaveBeenCalled();
+      expect(prisma.worldMeta.update).not.toHaveBeenCalled();
+      expect(prisma.scene.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'AWAITING_ACTIONS' }) })
+      );
+    });
+
+    it('refuses to resolve over a resolution still awaiting GM review', async () => {
+      vi.mocked(prisma.scene.findUnique).mockResolvedValue({ ...mockScene, status: 'RESOLVING' } as any);
+      vi.mocked(prisma.resolutionReview.findFirst).mockResolvedValueOnce({ id: 'review-1' } as any);
+
+      await expect(resolveScene(mockCampaignId, mockSceneId)).rejects.toThrow(/awaiting GM review/);
+      expect(prisma.scene.update).not.toHaveBeenCalled();
+      expect(callAIGM).not.toHaveBeenCalled();
+    });
+
+    it('publishes a reviewed response through the ordinary apply path', async () => {
+      const reviewRng = () => 0.25;
+      vi.mocked(prisma.scene.findUnique).mockResolvedValue({ ...mockScene, status: 'RESOLVING' } as any);
+      vi.mocked(prisma.scene.update).mockResolvedValue(mockScene as any);
+      vi.mocked(prisma.worldMeta.findUnique).mockResolvedValue(mockWorldMeta as any);
+      vi.mocked(prisma.worldMeta.update).mockResolvedValue(mockWorldMeta as any);
+      vi.mocked(applyWorldUpdates).mockResolvedValue({ involvedNpcIds: [], involvedFactionIds: [], unresolvedCharacterNames: [], worldChanges: [], gateRefusals: [] });
+      const edited = { ...mockAIResponse, scene_text: 'The GM tightened this.' };
+
+      const result = await publishReviewedResolution({
+        campaignId: mockCampaignId,
+        sceneId: mockSceneId,
+        aiRequest: { action_mechanics: [] } as any,
+        aiResponse: edited as any,
+        exchangeRng: reviewRng,
+      });
+
+      expect(result.newTurnNumber).toBe(6);
+      expect(callAIGM).not.toHaveBeenCalled();
+      expect(vi.mocked(applyWorldUpdates).mock.calls[0][0]).toBe(mockCampaignId);
+      expect(vi.mocked(applyWorldUpdates).mock.calls[0][7]).toBe(reviewRng);
+      expect(prisma.scene.update).toHaveBeenCalledWith({
+        where: { id: mockSceneId },
+        data: { sceneResolutionText: 'The GM tightened this.', status: 'AWAITING_ACTIONS' },
+      });
+    });
+
     it('should throw error if scene not found', async () => {
       vi.mocked(prisma.scene.findUnique).mockResolvedValue(null);
 
@@ -565,10 +663,26 @@ describe('Scene Resolver', () => {
       // isSceneEnding defaults to false and is threaded through to
       // buildSceneResolutionRequest as its 3rd arg (see scenePrompt.ts's
       // <scene_ending> section and end-scene/route.ts's forced-true call).
-      expect(buildSceneResolutionRequest).toHaveBeenCalledWith(mockCampaignId, mockSceneId, false);
+      expect(buildSceneResolutionRequest).toHaveBeenCalledWith(mockCampaignId, mockSceneId, false, exchangeRng);
       // Phase 15: callAIGM also takes campaignId/sceneId (for cost tracking
       // and the circuit breaker) and a debug-mode flag, not just the request.
-      expect(callAIGM).toHaveBeenCalledWith(mockAIRequest, mockCampaignId, mockSceneId, { debugMode: false });
+      expect(callAIGM).toHaveBeenCalledWith(mockAIRequest, mockCampaignId, mockSceneId, {
+        debugMode: false,
+        onNarration: narrationBroadcaster.push,
+      });
+      expect(narrationBroadcaster.close).toHaveBeenCalled();
+    });
+
+    it('still shuts the narration stream when the AI call fails', async () => {
+      vi.mocked(prisma.scene.findUnique).mockResolvedValue(mockScene as any);
+      vi.mocked(prisma.scene.update).mockResolvedValue(mockScene as any);
+      vi.mocked(prisma.worldMeta.findUnique).mockResolvedValue(mockWorldMeta as any);
+      vi.mocked(buildSceneResolutionRequest).mockResolvedValue({} as any);
+      vi.mocked(callAIGM).mockRejectedValue(new Error('AI down'));
+
+      await expect(resolveScene(mockCampaignId, mockSceneId)).rejects.toThrow('AI down');
+
+      expect(narrationBroadcaster.close).toHaveBeenCalled();
     });
 
     // #101 v1.1: applyWorldUpdates' witnessCharacterIds param is derived from
@@ -601,7 +715,7 @@ describe('Scene Resolver', () => {
       await resolveScene(mockCampaignId, mockSceneId);
 
       expect(applyWorldUpdates).toHaveBeenCalledWith(
-        mockCampaignId, mockAIResponse, expect.anything(), true, expect.anything(), expect.anything(), ['char-a', 'char-b']
+        mockCampaignId, mockAIResponse, expect.anything(), true, expect.anything(), expect.anything(), ['char-a', 'char-b'], exchangeRng
       );
     });
 
@@ -633,7 +747,7 @@ describe('Scene Resolver', () => {
       await resolveScene(mockCampaignId, mockSceneId);
 
       expect(applyWorldUpdates).toHaveBeenCalledWith(
-        mockCampaignId, mockAIResponse, expect.anything(), true, expect.anything(), expect.anything(), ['char-a']
+        mockCampaignId, mockAIResponse, expect.anything(), true, expect.anything(), expect.anything(), ['char-a'], exchangeRng
       );
     });
 
@@ -651,7 +765,7 @@ describe('Scene Resolver', () => {
       await resolveScene(mockCampaignId, mockSceneId);
 
       expect(applyWorldUpdates).toHaveBeenCalledWith(
-        mockCampaignId, mockAIResponse, expect.anything(), true, expect.anything(), expect.anything(), []
+        mockCampaignId, mockAIResponse, expect.anything(), true, expect.anything(), expect.anything(), [], exchangeRng
       );
     });
   });
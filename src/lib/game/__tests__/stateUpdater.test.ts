@@ -57,6 +57,7 @@ import { applyQuestChanges } from '../worldUpdaters/quests'
 import { applyBargainOffers } from '../worldUpdaters/bargainOffers'
 import { storeGmNotesForTurn } from '../worldUpdaters/worldMetaNotes'
 import { persistWorldEvents } from '../tick/worldEventLog'
+import { createSeededRng } from '../rng'
 import { sceneTurn } from '@/lib/game/turnClock'
 
 const makeTx = () => ({
@@ -118,7 +119,7 @@ describe('applyWorldUpdates — delegation', () => {
     // appliedAt/grantedTurn and the rest of applyCharacterChanges' JSON
     // blobs are scene-scoped and compared against this same counter on read.
     expect(applyCharacterChanges).toHaveBeenCalledWith(
-      tx, 'camp1', 42, expect.anything(), expect.anything(), expect.anything(), expect.any(Function), expect.any(Function), true, []
+      tx, 'camp1', 42, expect.anything(), expect.anything(), expect.anything(), expect.any(Function), expect.any(Function), true, [], expect.any(Function)
     )
   })
 
@@ -205,7 +206,7 @@ describe('applyWorldUpdates — sceneOrigin (fog of war) threading', () => {
     expect(applyFactionChanges).toHaveBeenCalledWith(tx, 'camp1', expect.anything(), expect.anything(), false)
     expect(applyLocationChanges).toHaveBeenCalledWith(tx, 'camp1', expect.anything(), false)
     expect(applyCharacterChanges).toHaveBeenCalledWith(
-      tx, 'camp1', 1, expect.anything(), expect.anything(), expect.anything(), expect.any(Function), expect.any(Function), false, []
+      tx, 'camp1', 1, expect.anything(), expect.anything(), expect.anything(), expect.any(Function), expect.any(Function), false, [], expect.any(Function)
     )
   })
 
@@ -392,6 +393,30 @@ describe('applyWorldUpdates — WITNESSED event-witness writes (#101)', () => {
   })
 })
 
+describe('applyWorldUpdates — seeded stream position', () => {
+  const change = {
+    entityType: 'FACTION', entityId: 'f1', entityName: 'The Rustwatch', campaignId: 'camp1',
+    field: 'resources', previousValue: 50, newValue: 47, reason: 'test', significant: false, importance: 'NORMAL',
+  }
+
+  it('stamps the events with where the exchange stream stood when the updates began', async () => {
+    ;(applyQuestChanges as any).mockResolvedValueOnce({ worldChanges: [change] })
+    const rng = createSeededRng(99, 6)
+
+    await applyWorldUpdates('camp1', response({ quest_changes: [{ name: 'Q' }] }), sceneTurn(5), true, undefined, [], [], rng)
+
+    expect(persistWorldEvents).toHaveBeenCalledWith('camp1', 7, [change], { seed: 99, cursor: 6 })
+  })
+
+  it('stamps no position when the updates rolled unseeded', async () => {
+    ;(applyQuestChanges as any).mockResolvedValueOnce({ worldChanges: [change] })
+
+    await applyWorldUpdates('camp1', response({ quest_changes: [{ name: 'Q' }] }), sceneTurn(5))
+
+    expect(persistWorldEvents).toHaveBeenCalledWith('camp1', 7, [change], null)
+  })
+})
+
 describe('applyWorldUpdates — organic_advancement is deliberately NOT applied here', () => {
   it('ignores organic_advancement entirely', async () => {
     // sceneResolver.ts's applyOrganicCharacterGrowth is the single writer
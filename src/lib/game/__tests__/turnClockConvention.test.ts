@@ -42,6 +42,9 @@ const SIM_CLOCK_MODELS: Record<string, string[]> = {
   war: ['startedTurn', 'resolvedTurn'],
   warParticipant: ['joinedTurn'],
   populationFlightEvent: ['turnNumber'],
+  treaty: ['proposedTurn', 'signedTurn', 'endedTurn'],
+  factionOrder: ['turnNumber', 'resolvedTurn'],
+  hazard: ['startedTurn', 'endedTurn'],
 }
 
 /**
@@ -74,6 +77,10 @@ const SIM_TURN_SOURCES = new Set([
   'src/lib/game/tick/informationTick.ts: ctx.turnNumber',
   'src/lib/game/tick/migrationTick.ts: ctx.turnNumber',
   'src/lib/game/tick/warTick.ts: ctx.turnNumber',
+  'src/lib/game/tick/hazardTick.ts: ctx.turnNumber',
+  'src/lib/game/factionOrders/carryOut.ts: ctx.turnNumber',
+  // tickDiplomacy's `const turn = ctx.turnNumber`
+  'src/lib/game/tick/diplomacyTick.ts: turn',
   // runWorldTick's own SimTurn parameter
   'src/lib/game/tick/worldEventLog.ts: turnNumber',
   // resolved from currentSimulationTurn() immediately above the write —
@@ -153,6 +160,8 @@ describe('sim-clock turn columns are written from SimTurn values (#437)', () =>
     const offenders = writes
       // Wrapped at the write site, with the provenance stated there.
       .filter((w) => !w.expression.startsWith('simTurn('))
+      // Clearing a turn column (a re-queued faction order) carries no turn at all.
+      .filter((w) => w.expression !== 'null')
       .filter((w) => !SIM_TURN_SOURCES.has(`${w.file}: ${w.expression.replace(/!$/, '')}`))
       .map((w) => `${w.file}: ${w.model}.${w.column} = ${w.expression}`)
 
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { extractWorldStateChanges, extractOutcomeAdherence, extractMoveVariety } from '../worldStateChanges'
+import { extractWorldStateChanges, extractOutcomeAdherence, extractMoveVariety, extractRetrievalTrace, withoutRetrievalTrace } from '../worldStateChanges'
 import type { AdherenceResult } from '../outcomeAdherence'
 import type { MoveVarietyResult } from '../moveVariety'
 
@@ -78,3 +78,34 @@ describe('extractMoveVariety', () => {
     expect(extractMoveVariety({ moveVariety: { reported: 1 } })).toBeNull() // missing entries[]
   })
 })
+
+describe('extractRetrievalTrace', () => {
+  const trace = {
+    memories: [{ title: 'The ledger is found', score: { vectorRank: 1, keywordRank: null, similarity: 0.8, keywordScore: null, fusedScore: 0.0164, rosterMatch: null } }],
+    lore: [],
+  }
+
+  it('returns the trace when present and well-formed', () => {
+    expect(extractRetrievalTrace({ worldStateChanges: [], retrieval: trace })).toEqual(trace)
+  })
+
+  it('returns null when absent or malformed', () => {
+    expect(extractRetrievalTrace({ worldStateChanges: [] })).toBeNull()
+    expect(extractRetrievalTrace(null)).toBeNull()
+    expect(extractRetrievalTrace({ retrieval: { memories: [] } })).toBeNull() // missing lore[]
+  })
+})
+
+describe('withoutRetrievalTrace', () => {
+  it('drops the trace and keeps everything else', () => {
+    const consequences = { worldStateChanges: [{ category: 'roll' }], retrieval: { memories: [], lore: [] } }
+    expect(withoutRetrievalTrace(consequences)).toEqual({ worldStateChanges: [{ category: 'roll' }] })
+    expect(consequences.retrieval).toBeDefined() // the input is not mutated
+  })
+
+  it('passes through a blob with no trace, or no blob at all', () => {
+    const consequences = { worldStateChanges: [] }
+    expect(withoutRetrievalTrace(consequences)).toBe(consequences)
+    expect(withoutRetrievalTrace(null)).toBeNull()
+  })
+})
@@ -257,6 +257,9 @@ const FIELD_LINES: Record<string, (name: string) => string[]> = {
   warDeclared: (n) => [`${n} went to war while you were away.`],
   warResolved: (n) => [`${n}'s war came to an end.`],
   warEnded: (n) => [`${n}'s war came to an end.`],
+  treatySigned: (n) => [`${n} came to terms with a rival.`],
+  treatyBroken: (n) => [`${n} broke a treaty.`],
+  orderCarriedOut: (n) => [`${n} did as its leader ordered.`],
   collapsed: (n) => [`${n} fell apart entirely.`],
   founded: (n) => [`${n} rose to prominence.`],
   leader: (n) => [`${n} answers to new leadership now.`],
@@ -265,6 +268,10 @@ const FIELD_LINES: Record<string, (name: string) => string[]> = {
   resources: (n) => [`${n}'s fortunes shifted.`],
   stability: (n) => [`${n} grew less steady.`],
   weather: (n) => [`The weather over ${n} turned.`],
+  hazardStarted: (n) => [`Disaster struck ${n}.`],
+  hazardSpread: (n) => [`Disaster spread to ${n}.`],
+  hazardContained: (n) => [`${n} got its disaster under control.`],
+  hazardEnded: (n) => [`The disaster at ${n} ran its course.`],
   conditionScore: (n) => [`${n} is not in the state you left it.`],
   population: (n) => [`People moved through ${n} — it is busier or emptier than it was.`],
   currentTicks: (n) => [`The clock on ${n} moved closer to striking.`],
@@ -15,6 +15,7 @@ import type { Scene } from '@prisma/client'
 import { PusherServer } from '@/lib/realtime/pusher-server'
 import { recordEvent } from '@/lib/analytics/events'
 import { canAct, parseHarmState, HarmLevel } from './harm'
+import { rolesWith } from '@/lib/api/campaignPermissions'
 
 export interface SceneParticipants {
   characterIds: string[]
@@ -173,10 +174,16 @@ export async function submitPlayerAction(
   // scene would silently wait for them until a GM manually noticed and
   // force-resolved. Applies to both branches above: an open scene's
   // freshly-computed roster and a scoped/split-party scene's fixed one,
-  // since either can list someone who's since left.
+  // since either can list someone who's since left. The same goes for a
+  // member made spectator (can't act) and a guest whose time ran out.
   if (participantUserIds.length > 0) {
     const activeMembers = await prisma.campaignMembership.findMany({
-      where: { campaignId, userId: { in: participantUserIds } },
+      where: {
+        campaignId,
+        userId: { in: participantUserIds },
+        role: { in: rolesWith('play.act') },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
       select: { userId: true }
     })
     const activeMemberIds = new Set(activeMembers.map(m => m.userId))
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { layoutAtlas } from '../layout'
+
+const ring = ['a', 'b', 'c', 'd', 'e', 'f']
+const ringEdges = ring.map((id, i) => ({ locationAId: id, locationBId: ring[(i + 1) % ring.length], distance: 1 }))
+
+function dist(p: { x: number; y: number }, q: { x: number; y: number }) {
+  return Math.hypot(p.x - q.x, p.y - q.y)
+}
+
+describe('layoutAtlas', () => {
+  it('draws the same graph the same way every time, whatever order it is given in', () => {
+    const first = layoutAtlas(ring, ringEdges)
+    const second = layoutAtlas([...ring].reverse(), [...ringEdges].reverse())
+    expect(second).toEqual(first)
+  })
+
+  it('keeps every place inside the unit square', () => {
+    const points = Object.values(layoutAtlas(ring, ringEdges))
+    for (const p of points) {
+      expect(p.x).toBeGreaterThanOrEqual(0)
+      expect(p.x).toBeLessThanOrEqual(1)
+      expect(p.y).toBeGreaterThanOrEqual(0)
+      expect(p.y).toBeLessThanOrEqual(1)
+    }
+  })
+
+  it('puts neighbours closer together than places across the map', () => {
+    const path = ['p1', 'p2', 'p3', 'p4', 'p5']
+    const edges = path.slice(1).map((id, i) => ({ locationAId: path[i], locationBId: id, distance: 1 }))
+    const points = layoutAtlas(path, edges)
+    expect(dist(points.p1, points.p2)).toBeLessThan(dist(points.p1, points.p5))
+  })
+
+  it('draws a longer road longer', () => {
+    const points = layoutAtlas(['hub', 'near', 'far'], [
+      { locationAId: 'hub', locationBId: 'near', distance: 1 },
+      { locationAId: 'far', locationBId: 'hub', distance: 3 },
+    ])
+    expect(dist(points.hub, points.near)).toBeLessThan(dist(points.hub, points.far))
+  })
+
+  it('ignores edges to places it was not asked to lay out', () => {
+    expect(layoutAtlas(ring, [...ringEdges, { locationAId: 'a', locationBId: 'hidden', distance: 1 }])).toEqual(
+      layoutAtlas(ring, ringEdges)
+    )
+  })
+
+  it('separates places with no edges at all', () => {
+    const points = layoutAtlas(['x', 'y', 'z'], [])
+    expect(dist(points.x, points.y)).toBeGreaterThan(0.05)
+    expect(dist(points.y, points.z)).toBeGreaterThan(0.05)
+  })
+
+  it('centres a lone place and returns nothing for an empty map', () => {
+    expect(layoutAtlas(['only'], [])).toEqual({ only: { x: 0.5, y: 0.5 } })
+    expect(layoutAtlas([], [])).toEqual({})
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const prisma = vi.hoisted(() => ({
+  worldMeta: { findUnique: vi.fn() },
+  location: { findMany: vi.fn() },
+  faction: { findMany: vi.fn() },
+  locationAdjacency: { findMany: vi.fn() },
+  supplyRoute: { findMany: vi.fn() },
+  war: { findMany: vi.fn() },
+  territoryFrame: { findMany: vi.fn() },
+}))
+vi.mock('@/lib/prisma', () => ({ prisma }))
+
+import { loadAtlas, UNKNOWN_OWNER } from '../loadAtlas'
+
+const place = (id: string, ownerFactionId: string | null, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: id,
+  locationType: 'town',
+  isDiscovered: true,
+  ownerFactionId,
+  isContested: false,
+  weather: 'RAIN',
+  weatherSeverity: 2,
+  conditionScore: 30,
+  ...extra,
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  prisma.worldMeta.findUnique.mockResolvedValue({ simulationTurn: 12 })
+  // What visibleTo lets a player see: kess and vale, not the hidden hold.
+  prisma.location.findMany.mockResolvedValue([place('kess', 'court'), place('vale', 'shadow')])
+  prisma.faction.findMany.mockResolvedValue([{ id: 'court', name: 'Grey Court' }])
+  prisma.locationAdjacency.findMany.mockResolvedValue([
+    { locationAId: 'kess', locationBId: 'vale', distance: 1 },
+    { locationAId: 'hold', locationBId: 'kess', distance: 1 },
+  ])
+  prisma.supplyRoute.findMany.mockResolvedValue([
+    { id: 'r1', fromLocationId: 'kess', toLocationId: 'vale', controllingFactionId: 'shadow', isBlockaded: true },
+    { id: 'r2', fromLocationId: 'kess', toLocationId: 'hold', controllingFactionId: 'court', isBlockaded: false },
+  ])
+  prisma.war.findMany.mockResolvedValue([
+    { id: 'w1', name: 'Border War', contestedLocationId: 'kess', attackerFactionId: 'shadow', defenderFactionId: 'court', momentum: 50 },
+  ])
+  prisma.territoryFrame.findMany.mockResolvedValue([
+    { turnNumber: 10, owners: { kess: { ownerFactionId: 'court', isContested: false }, hold: { ownerFactionId: 'court', isContested: false } } },
+    { turnNumber: 4, owners: { kess: { ownerFactionId: 'shadow', isContested: true } } },
+  ])
+})
+
+describe('loadAtlas for a player', () => {
+  it('asks only for the places and factions the party has discovered', async () => {
+    await loadAtlas('camp1', 'PLAYER')
+    expect(prisma.location.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { campaignId: 'camp1', isDiscovered: true } }))
+    expect(prisma.faction.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { campaignId: 'camp1', isDiscovered: true } }))
+  })
+
+  it('masks an owner the party has not met, and keeps the known one', async () => {
+    const atlas = await loadAtlas('camp1', 'PLAYER')
+    expect(atlas.locations.map((l) => [l.id, l.ownerFactionId])).toEqual([
+      ['kess', 'court'],
+      ['vale', UNKNOWN_OWNER],
+    ])
+  })
+
+  it('drops edges and routes that reach somewhere undiscovered', async () => {
+    const atlas = await loadAtlas('camp1', 'PLAYER')
+    expect(atlas.edges).toEqual([{ locationAId: 'kess', locationBId: 'vale', distance: 1 }])
+    expect(atlas.supplyRoutes).toEqual([
+      { id: 'r1', fromLocationId: 'kess', toLocationId: 'vale', controllingFactionId: UNKNOWN_OWNER, isBlockaded: true },
+    ])
+  })
+
+  it('hides a war front when either side is unknown to the party', async () => {
+    expect((await loadAtlas('camp1', 'PLAYER')).warFronts).toEqual([])
+  })
+
+  it('sends condition as tags and war momentum as words, never the numbers', async () => {
+    const atlas = await loadAtlas('camp1', 'PLAYER')
+    expect(atlas.locations[0]).not.toHaveProperty('conditionScore')
+    expect(atlas.locations[0].conditionTags).toEqual(['DAMAGED'])
+  })
+
+  it('returns border history oldest first, fogged the same way', async () => {
+    const atlas = await loadAtlas('camp1', 'PLAYER')
+    expect(atlas.frames).toEqual([
+      { turnNumber: 4, owners: { kess: { ownerFactionId: UNKNOWN_OWNER, isContested: true } } },
+      { turnNumber: 10, owners: { kess: { ownerFactionId: 'court', isContested: false } } },
+    ])
+    expect(atlas.currentTurn).toBe(12)
+  })
+
+  it('lays out every place it sends', async () => {
+    const atlas = await loadAtlas('camp1', 'PLAYER')
+    for (const l of atlas.locations) {
+      expect(l.x).toBeGreaterThanOrEqual(0)
+      expect(l.y).toBeLessThanOrEqual(1)
+    }
+  })
+})
+
+describe('loadAtlas for a GM', () => {
+  it('sees through the fog, including war fronts', async () => {
+    prisma.faction.findMany.mockResolvedValue([
+      { id: 'court', name: 'Grey Court' },
+      { id: 'shadow', name: 'Shadow Court' },
+    ])
+    const atlas = await loadAtlas('camp1', 'ADMIN')
+
+    expect(prisma.location.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { campaignId: 'camp1' } }))
+    expect(atlas.locations.find((l) => l.id === 'vale')?.ownerFactionId).toBe('shadow')
+    expect(atlas.warFronts).toEqual([
+      expect.objectContaining({ warId: 'w1', locationId: 'kess', momentum: 'strongly favors the attacker' }),
+    ])
+  })
+})
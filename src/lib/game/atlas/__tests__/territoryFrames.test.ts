@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import { frameAtTurn, framesDiffer, ownersFromLocations, recordTerritoryFrame } from '../territoryFrames'
+
+const held = { ownerFactionId: 'crown', isContested: false }
+
+describe('framesDiffer', () => {
+  it('treats the first frame as a change', () => {
+    expect(framesDiffer(null, {})).toBe(true)
+  })
+
+  it('sees a change of owner, a contest, and a place appearing', () => {
+    expect(framesDiffer({ a: held }, { a: held })).toBe(false)
+    expect(framesDiffer({ a: held }, { a: { ...held, ownerFactionId: 'court' } })).toBe(true)
+    expect(framesDiffer({ a: held }, { a: { ...held, isContested: true } })).toBe(true)
+    expect(framesDiffer({ a: held }, { a: held, b: { ownerFactionId: null, isContested: false } })).toBe(true)
+    expect(framesDiffer({ a: held }, { b: held })).toBe(true)
+  })
+})
+
+describe('frameAtTurn', () => {
+  const frames = [
+    { turnNumber: 3, owners: { a: held } },
+    { turnNumber: 8, owners: { a: { ...held, ownerFactionId: 'court' } } },
+  ]
+
+  it('finds the latest frame at or before the turn', () => {
+    expect(frameAtTurn(frames, 3)?.turnNumber).toBe(3)
+    expect(frameAtTurn(frames, 7)?.turnNumber).toBe(3)
+    expect(frameAtTurn(frames, 20)?.turnNumber).toBe(8)
+  })
+
+  it('has nothing before the first frame', () => {
+    expect(frameAtTurn(frames, 2)).toBeNull()
+  })
+})
+
+describe('recordTerritoryFrame', () => {
+  function fakeDb(locations: Array<{ id: string; ownerFactionId: string | null; isContested: boolean }>, latest: unknown) {
+    return {
+      location: { findMany: vi.fn(async () => locations) },
+      territoryFrame: { findFirst: vi.fn(async () => latest), upsert: vi.fn(async () => ({})) },
+    }
+  }
+
+  it('writes a frame when the borders moved', async () => {
+    const db = fakeDb([{ id: 'a', ownerFactionId: 'court', isContested: false }], { owners: { a: held } })
+    expect(await recordTerritoryFrame(db as any, 'camp1', 9)).toBe(true)
+    expect(db.territoryFrame.upsert).toHaveBeenCalledWith({
+      where: { campaignId_turnNumber: { campaignId: 'camp1', turnNumber: 9 } },
+      create: { campaignId: 'camp1', turnNumber: 9, owners: { a: { ownerFactionId: 'court', isContested: false } } },
+      update: { owners: { a: { ownerFactionId: 'court', isContested: false } } },
+    })
+  })
+
+  it('compares against the last frame before this turn, not a rerun of this one', async () => {
+    const db = fakeDb([{ id: 'a', ...held }], null)
+    await recordTerritoryFrame(db as any, 'camp1', 9)
+    expect(db.territoryFrame.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { campaignId: 'camp1', turnNumber: { lt: 9 } }, orderBy: { turnNumber: 'desc' } })
+    )
+  })
+
+  it('writes nothing on a quiet turn', async () => {
+    const db = fakeDb([{ id: 'a', ...held }], { owners: { a: held } })
+    expect(await recordTerritoryFrame(db as any, 'camp1', 9)).toBe(false)
+    expect(db.territoryFrame.upsert).not.toHaveBeenCalled()
+  })
+
+  it('writes nothing for a campaign with no places yet', async () => {
+    const db = fakeDb([], null)
+    expect(await recordTerritoryFrame(db as any, 'camp1', 1)).toBe(false)
+    expect(db.territoryFrame.upsert).not.toHaveBeenCalled()
+  })
+})
+
+describe('ownersFromLocations', () => {
+  it('keys each place by id', () => {
+    expect(ownersFromLocations([{ id: 'a', ownerFactionId: null, isContested: true }])).toEqual({
+      a: { ownerFactionId: null, isContested: true },
+    })
+  })
+})
@@ -0,0 +1,172 @@
+// src/lib/game/atlas/layout.ts
+// Where each location sits on the world atlas.
+//
+// Nothing in this schema has coordinates — LocationAdjacency is the only
+// spatial fact the world has (worldGraph.ts), so the atlas lays the graph
+// out rather than reading a map. A force-directed layout (Fruchterman–
+// Reingold): every pair of places pushes apart, every edge pulls its two
+// ends together toward a length proportional to its distance, and the
+// movement allowed per step cools to zero so it settles.
+//
+// Deterministic on purpose, the same way the tick is: starting positions
+// come from stableHash of the location id rather than Math.random(), nodes
+// are processed in id order, and the iteration count is fixed. The same
+// graph always draws the same map, so a place doesn't jump across the
+// screen between two visits — and the turn slider can replay borders over
+// one fixed map instead of a different layout per frame.
+//
+// Pure. The caller decides WHICH nodes and edges to lay out (fog of war is
+// applied before this runs, so an undiscovered place doesn't leave a
+// suspicious hole), and this returns unit-square coordinates for the
+// component to scale.
+
+import { stableHash } from '../tick/types'
+
+export interface LayoutEdge {
+  locationAId: string
+  locationBId: string
+  distance: number
+}
+
+export interface LayoutPoint {
+  x: number
+  y: number
+}
+
+const ITERATIONS = 300
+/** Keeps the normalized map off the very edge of its frame. */
+const MARGIN = 0.06
+
+/**
+ * Unit-square positions, keyed by location id. Edges naming a location
+ * not in `locationIds` are ignored, so a caller can pass the full edge set
+ * after filtering only the nodes.
+ */
+export function layoutAtlas(locationIds: string[], edges: LayoutEdge[]): Record<string, LayoutPoint> {
+  const ids = Array.from(new Set(locationIds)).sort()
+  const n = ids.length
+  if (n === 0) return {}
+  if (n === 1) return { [ids[0]]: { x: 0.5, y: 0.5 } }
+
+  const index = new Map(ids.map((id, i) => [id, i]))
+  const links = edges
+    .filter((e) => index.has(e.locationAId) && index.has(e.locationBId) && e.locationAId !== e.locationBId)
+    .map((e) => {
+      const [a, b] = [index.get(e.locationAId)!, index.get(e.locationBId)!].sort((x, y) => x - y)
+      return { a, b, distance: Math.max(1, e.distance) }
+    })
+    // Floating-point sums depend on order, so the edges are summed in a
+    // fixed one — the same graph fetched in a different row order must
+    // still draw the same map.
+    .sort((x, y) => x.a - y.a || x.b - y.b || x.distance - y.distance)
+
+  // Working space is a square of side 1; k is the ideal spacing for n
+  // nodes in it.
+  const k = Math.sqrt(1 / n)
+  const xs = new Float64Array(n)
+  const ys = new Float64Array(n)
+  for (let i = 0; i < n; i++) {
+    const h = stableHash(ids[i])
+    const angle = ((h % 3600) / 3600) * 2 * Math.PI
+    const radius = 0.1 + ((Math.floor(h / 3600) % 1000) / 1000) * 0.4
+    xs[i] = 0.5 + radius * Math.cos(angle)
+    ys[i] = 0.5 + radius * Math.sin(angle)
+  }
+
+  const dx = new Float64Array(n)
+  const dy = new Float64Array(n)
+  let temperature = 0.1
+  const cooling = temperature / ITERATIONS
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    dx.fill(0)
+    dy.fill(0)
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let ddx = xs[i] - xs[j]
+        let ddy = ys[i] - ys[j]
+        let d2 = ddx * ddx + ddy * ddy
+        if (d2 < 1e-12) {
+          // Two places on the same spot: separate them along a fixed
+          // direction, not a random one.
+          ddx = 1e-3 * (j - i)
+          ddy = 0
+          d2 = ddx * ddx
+        }
+        const force = (k * k) / d2
+        dx[i] += ddx * force
+        dy[i] += ddy * force
+        dx[j] -= ddx * force
+        dy[j] -= ddy * force
+      }
+    }
+
+    for (const link of links) {
+      const ddx = xs[link.a] - xs[link.b]
+      const ddy = ys[link.a] - ys[link.b]
+      const d = Math.sqrt(ddx * ddx + ddy * ddy) || 1e-6
+      // Ideal length grows with travel distance, so a two-day road draws
+      // longer than a one-day one.
+      const ideal = k * link.distance
+      const force = (d * d) / ideal / d
+      dx[link.a] -= ddx * force
+      dy[link.a] -= ddy * force
+      dx[link.b] += ddx * force
+      dy[link.b] += ddy * force
+    }
+
+    for (let i = 0; i < n; i++) {
+      // Weak gravity toward the centre, so disconnected pieces of the map
+      // (places only linked through somewhere the party hasn't found)
+      // stay on the page instead of drifting off.
+      dx[i] += (0.5 - xs[i]) * k
+      dy[i] += (0.5 - ys[i]) * k
+
+      const length = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i])
+      if (length > 0) {
+        const step = Math.min(length, temperature)
+        xs[i] += (dx[i] / length) * step
+        ys[i] += (dy[i] / length) * step
+      }
+    }
+
+    temperature -= cooling
+  }
+
+  return normalize(ids, xs, ys)
+}
+
+/** Scales the settled layout to fill the unit square, keeping its aspect. */
+function normalize(ids: string[], xs: Float64Array, ys: Float64Array): Record<string, LayoutPoint> {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  for (let i = 0; i < ids.length; i++) {
+    minX = Math.min(minX, xs[i])
+    maxX = Math.max(maxX, xs[i])
+    minY = Math.min(minY, ys[i])
+    maxY = Math.max(maxY, ys[i])
+  }
+  const span = Math.max(maxX - minX, maxY - minY) || 1
+  const scale = (1 - 2 * MARGIN) / span
+  // Centre the shorter axis rather than pinning it to the top-left.
+  const offsetX = MARGIN + ((1 - 2 * MARGIN) - (maxX - minX) * scale) / 2
+  const offsetY = MARGIN + ((1 - 2 * MARGIN) - (maxY - minY) * scale) / 2
+
+  const points: Record<string, LayoutPoint> = {}
+  for (let i = 0; i < ids.length; i++) {
+    points[ids[i]] = {
+      x: round((xs[i] - minX) * scale + offsetX),
+      y: round((ys[i] - minY) * scale + offsetY),
+    }
+  }
+  return points
+}
+
+/** Four decimals is sub-pixel at any size the atlas renders at, and keeps
+ * the payload from carrying float noise. */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
@@ -0,0 +1,208 @@
+// src/lib/game/atlas/loadAtlas.ts
+// Everything the world atlas draws, fog-of-war filtered for the viewer.
+//
+// The atlas is the world itself rather than a scene illustration
+// (maps/map-service.ts): locations laid out from LocationAdjacency
+// (layout.ts), coloured by who holds them, with supply routes, blockades,
+// the fronts of escalating wars, weather and condition on top, and the
+// border history (territoryFrames.ts) behind a turn slider.
+//
+// Fog of war follows visibleTo() like every other player-facing read, and
+// goes one step further than hiding rows: an undiscovered place isn't laid
+// out at all (a gap in the layout would give its position away), and a
+// place held by a faction the party hasn't met shows as held by an
+// unknown power — worldSummaryMappers.ts's rule for the AI prompt, where a
+// hidden owner is never named. A supply route or a war front is only drawn
+// when every end of it is something the viewer may see.
+//
+// Condition and war momentum go out as words, not numbers — the same
+// precision line entityStats.ts draws for every player-facing surface.
+
+import { prisma } from '@/lib/prisma'
+import { visibleTo, seesGmView, type CampaignRole } from '@/lib/api/visibility'
+import { describeWarMomentum } from '@/lib/ai/qualitativeStats'
+import { deriveConditionTags } from '../tick/locationConditionTick'
+import { layoutAtlas, type LayoutEdge } from './layout'
+import { FrameOwners, TerritoryFrameView } from './territoryFrames'
+
+/**
+ * Stands in for a faction id the viewer may not see. Never a real id —
+ * Faction ids are cuids.
+ */
+export const UNKNOWN_OWNER = 'unknown'
+
+/** How much border history one atlas load carries. Frames are change-only,
+ * so this is the last 200 turns on which borders MOVED, not the last 200
+ * turns. */
+export const MAX_ATLAS_FRAMES = 200
+
+// Backstops, not tuned limits — a campaign near any of these has a map no
+// one could read anyway. The location cap also bounds the layout, which is
+// quadratic in the places it lays out.
+const MAX_ATLAS_LOCATIONS = 500
+const MAX_ATLAS_EDGES = 5000
+const MAX_ATLAS_WARS = 100
+
+export interface AtlasLocation {
+  id: string
+  name: string
+  locationType: string | null
+  x: number
+  y: number
+  /** A visible faction's id, UNKNOWN_OWNER, or null for unclaimed land. */
+  ownerFactionId: string | null
+  isContested: boolean
+  weather: string
+  weatherSeverity: number
+  conditionTags: string[]
+  /** Always true for a player — undiscovered places aren't sent. A GM
+   * sees them, marked, so the atlas can draw the party's fog. */
+  isDiscovered: boolean
+}
+
+export interface AtlasSupplyRoute {
+  id: string
+  fromLocationId: string
+  toLocationId: string
+  controllingFactionId: string | null
+  isBlockaded: boolean
+}
+
+export interface AtlasWarFront {
+  warId: string
+  name: string
+  locationId: string
+  attackerFactionId: string
+  defenderFactionId: string
+  momentum: string
+}
+
+export interface AtlasView {
+  /** The simulation turn the live state is as of. */
+  currentTurn: number
+  locations: AtlasLocation[]
+  factions: Array<{ id: string; name: string }>
+  edges: LayoutEdge[]
+  supplyRoutes: AtlasSupplyRoute[]
+  warFronts: AtlasWarFront[]
+  /** Oldest first. */
+  frames: TerritoryFrameView[]
+}
+
+export async function loadAtlas(campaignId: string, role: CampaignRole): Promise<AtlasView> {
+  const gmView = seesGmView(role)
+
+  const [worldMeta, locations, factions, adjacency, routes, wars, frames] = await Promise.all([
+    prisma.worldMeta.findUnique({ where: { campaignId }, select: { simulationTurn: true } }),
+    prisma.location.findMany({
+      where: { campaignId, ...visibleTo('location', role) },
+      select: {
+        id: true,
+        name: true,
+        locationType: true,
+        isDiscovered: true,
+        ownerFactionId: true,
+        isContested: true,
+        weather: true,
+        weatherSeverity: true,
+        conditionScore: true,
+      },
+      orderBy: { name: 'asc' },
+      take: MAX_ATLAS_LOCATIONS,
+    }),
+    prisma.faction.findMany({
+      where: { campaignId, ...visibleTo('faction', role) },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.locationAdjacency.findMany({
+      where: { campaignId },
+      select: { locationAId: true, locationBId: true, distance: true },
+      take: MAX_ATLAS_EDGES,
+    }),
+    prisma.supplyRoute.findMany({
+      where: { campaignId },
+      select: { id: true, fromLocationId: true, toLocationId: true, controllingFactionId: true, isBlockaded: true },
+      take: MAX_ATLAS_EDGES,
+    }),
+    prisma.war.findMany({
+      where: { campaignId, status: 'ESCALATING', contestedLocationId: { not: null } },
+      select: { id: true, name: true, contestedLocationId: true, attackerFactionId: true, defenderFactionId: true, momentum: true },
+      orderBy: { startedTurn: 'asc' },
+      take: MAX_ATLAS_WARS,
+    }),
+    prisma.territoryFrame.findMany({
+      where: { campaignId },
+      select: { turnNumber: true, owners: true },
+      orderBy: { turnNumber: 'desc' },
+      take: MAX_ATLAS_FRAMES,
+    }),
+  ])
+
+  const locationIds = new Set(locations.map((l) => l.id))
+  const factionIds = new Set(factions.map((f) => f.id))
+  const owner = (factionId: string | null) =>
+    factionId === null ? null : factionIds.has(factionId) ? factionId : UNKNOWN_OWNER
+
+  const edges = adjacency.filter((e) => locationIds.has(e.locationAId) && locationIds.has(e.locationBId))
+  const positions = layoutAtlas([...locationIds], edges)
+
+  return {
+    currentTurn: worldMeta?.simulationTurn ?? 0,
+    locations: locations.map((l) => ({
+      id: l.id,
+      name: l.name,
+      locationType: l.locationType,
+      x: positions[l.id].x,
+      y: positions[l.id].y,
+      ownerFactionId: owner(l.ownerFactionId),
+      isContested: l.isContested,
+      weather: l.weather,
+      weatherSeverity: l.weatherSeverity,
+      conditionTags: deriveConditionTags(l.conditionScore, l.isContested),
+      isDiscovered: l.isDiscovered,
+    })),
+    factions,
+    edges,
+    supplyRoutes: routes
+      .filter((r) => locationIds.has(r.fromLocationId) && locationIds.has(r.toLocationId))
+      .map((r) => ({ ...r, controllingFactionId: owner(r.controllingFactionId) })),
+    warFronts: wars
+      .filter(
+        (w) =>
+          locationIds.has(w.contestedLocationId!) &&
+          (gmView || (factionIds.has(w.attackerFactionId) && factionIds.has(w.defenderFactionId)))
+      )
+      .map((w) => ({
+        warId: w.id,
+        name: w.name,
+        locationId: w.contestedLocationId!,
+        attackerFactionId: w.attackerFactionId,
+        defenderFactionId: w.defenderFactionId,
+        momentum: describeWarMomentum(w.momentum),
+      })),
+    frames: frames.reverse().map((frame) => ({
+      turnNumber: frame.turnNumber,
+      owners: fogFrame(frame.owners as unknown as FrameOwners, locationIds, owner),
+    })),
+  }
+}
+
+/**
+ * A recorded frame, cut down to what this viewer may see: only places
+ * they can see today, with owners they haven't met masked. Judged by
+ * today's discovery, not the frame's — knowing a faction now is knowing
+ * what it held then.
+ */
+function fogFrame(
+  owners: FrameOwners,
+  locationIds: Set<string>,
+  owner: (factionId: string | null) => string | null
+): FrameOwners {
+  const visible: FrameOwners = {}
+  for (const [locationId, entry] of Object.entries(owners)) {
+    if (!locationIds.has(locationId)) continue
+    visible[locationId] = { ownerFactionId: owner(entry.ownerFactionId), isContested: entry.isContested }
+  }
+  return visible
+}
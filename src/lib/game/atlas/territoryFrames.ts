@@ -0,0 +1,103 @@
+// src/lib/game/atlas/territoryFrames.ts
+// The world atlas's border history — see TerritoryFrame in schema.prisma
+// for why borders are recorded rather than rebuilt from the event log.
+//
+// Recorded at the END of the world tick, inside its transaction (see
+// worldTick.ts), so a frame is exactly the borders that turn committed: a
+// tick that rolls back leaves no frame claiming borders it never drew. A
+// scene consequence or an admin edit that moves a border between ticks
+// shows up in the next turn's frame — the atlas replays world turns, not
+// individual writes.
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+
+type Db = Prisma.TransactionClient | PrismaClient
+
+export interface FrameEntry {
+  ownerFactionId: string | null
+  isContested: boolean
+}
+
+/** Keyed by location id. */
+export type FrameOwners = Record<string, FrameEntry>
+
+export interface TerritoryFrameView {
+  turnNumber: number
+  owners: FrameOwners
+}
+
+/** Current borders, as a frame would store them. */
+export function ownersFromLocations(
+  locations: Array<{ id: string; ownerFactionId: string | null; isContested: boolean }>
+): FrameOwners {
+  const owners: FrameOwners = {}
+  for (const location of locations) {
+    owners[location.id] = { ownerFactionId: location.ownerFactionId, isContested: location.isContested }
+  }
+  return owners
+}
+
+/**
+ * Whether two frames draw different borders. A location appearing or
+ * disappearing counts — a newly minted place is a change to the map even
+ * while unowned.
+ */
+export function framesDiffer(previous: FrameOwners | null, next: FrameOwners): boolean {
+  if (!previous) return true
+  const previousIds = Object.keys(previous)
+  if (previousIds.length !== Object.keys(next).length) return true
+  return previousIds.some((id) => {
+    const before = previous[id]
+    const after = next[id]
+    return !after || before.ownerFactionId !== after.ownerFactionId || before.isContested !== after.isContested
+  })
+}
+
+/**
+ * The borders in force at `turnNumber`: the latest frame at or before it,
+ * since frames are only written when something moved. Null before the
+ * first frame — the atlas wasn't recording yet, which is different from
+ * "nobody held anything".
+ */
+export function frameAtTurn(frames: TerritoryFrameView[], turnNumber: number): TerritoryFrameView | null {
+  let found: TerritoryFrameView | null = null
+  for (const frame of frames) {
+    if (frame.turnNumber > turnNumber) continue
+    if (!found || frame.turnNumber > found.turnNumber) found = frame
+  }
+  return found
+}
+
+/**
+ * Record this turn's borders if they moved since the last frame. Runs
+ * inside the tick transaction, so it isn't best-effort the way the
+ * post-tick history fan-out is: a failed query has already aborted the
+ * transaction, and swallowing it here would only move the error.
+ *
+ * Upserts on (campaignId, turnNumber) so a turn recorded twice overwrites
+ * rather than violating the unique index.
+ */
+export async function recordTerritoryFrame(db: Db, campaignId: string, turnNumber: number): Promise<boolean> {
+  const locations = await db.location.findMany({
+    where: { campaignId },
+    select: { id: true, ownerFactionId: true, isContested: true },
+  })
+  const owners = ownersFromLocations(locations)
+
+  const latest = await db.territoryFrame.findFirst({
+    where: { campaignId, turnNumber: { lt: turnNumber } },
+    orderBy: { turnNumber: 'desc' },
+    select: { owners: true },
+  })
+  // A campaign with no places yet has no map to record.
+  if (!latest && locations.length === 0) return false
+  if (!framesDiffer(latest ? (latest.owners as unknown as FrameOwners) : null, owners)) return false
+
+  const data = owners as unknown as Prisma.InputJsonValue
+  await db.territoryFrame.upsert({
+    where: { campaignId_turnNumber: { campaignId, turnNumber } },
+    create: { campaignId, turnNumber, owners: data },
+    update: { owners: data },
+  })
+  return true
+}
@@ -23,7 +23,7 @@ import { generateMoveFlavor, GeneratedMoveFlavor } from '@/lib/ai/moveFlavor'
 import { generateCalendar } from '@/lib/ai/calendarGenerator'
 import { generateWorldRules, generatedRulesToWorldRules, GeneratedWorldRule } from '@/lib/ai/worldRulesGenerator'
 import { DEFAULT_CALENDAR, formatInGameDate, type GeneratedCalendar } from '@/lib/game/calendar'
-import { BASIC_MOVES } from '@/lib/pbta-moves'
+import { resolveMoveSet } from '@/lib/moveSets'
 import { slugifyCapabilityKey, resolvePrerequisiteLinks } from '@/lib/game/capabilities'
 import { kickLoreImportJob } from '@/lib/lore/loreQueue'
 import { clearPendingWorldSeed } from '@/lib/lore/reseedWorld'
@@ -44,11 +44,15 @@ export interface CreateCampaignInput {
   resolvedSystemPrompt: string
   template: CampaignTemplate | null
   validatedLore: ValidatedLoreImport | null
+  // A known MOVE_SETS id (lib/moveSets.ts) — the route validates it.
+  // Absent means the core set.
+  moveSetId?: string
   userId: string
 }
 
 export async function createCampaign(input: CreateCampaignInput) {
   const { title, description, initialWorldSeed, resolvedUniverse, resolvedSystemPrompt, template, validatedLore, userId } = input
+  const moveSet = resolveMoveSet(input.moveSetId)
 
   // Generate factions, the capability scaffold, and stat labels with AI
   // regardless of whether the user wrote their own world seed — writing
@@ -115,7 +119,7 @@ export async function createCampaign(input: CreateCampaignInput) {
         generatedCapabilities || [],
         generatedStatLabels
       ),
-      generateMoveFlavor(title, description || '', resolvedUniverse, generatedStatLabels),
+      generateMoveFlavor(title, description || '', resolvedUniverse, generatedStatLabels, undefined, moveSet),
       generateCalendar(title, description || '', resolvedUniverse),
       generateWorldRules(title, description || '', resolvedUniverse),
     ])
@@ -182,7 +186,10 @@ export async function createCampaign(input: CreateCampaignInput) {
         // characters/route.ts apply the template's starting-Debt
         // scaffolding when each character joins (Debts need a real
         // characterId, unavailable at campaign creation).
-        templateId: template?.id
+        templateId: template?.id,
+        // Which move set this campaign rolls against — fixed from here on,
+        // since Move flavor rows below are keyed to this set's moves.
+        moveSetId: moveSet.id
       }
     })
 
@@ -239,9 +246,9 @@ export async function createCampaign(input: CreateCampaignInput) {
     // Per-campaign move flavor (see lib/ai/moveFlavor.ts) — every campaign
     // gets this, templated or not, unlike the retired per-template
     // defaultMoves. Absence (no API key, generation failed) just means
-    // resolution.ts falls back to BASIC_MOVES' own generic display text.
+    // resolution.ts falls back to the move set's own generic display text.
     if (generatedMoveFlavor && generatedMoveFlavor.length > 0) {
-      const rollTypeByKey = new Map(BASIC_MOVES.map(m => [m.key, m.rollType]))
+      const rollTypeByKey = new Map(moveSet.moves.map(m => [m.key, m.rollType]))
       await tx.move.createMany({
         data: generatedMoveFlavor.map(m => ({
           campaignId: newCampaign.id,
@@ -8,6 +8,7 @@
 import { prisma } from '@/lib/prisma'
 import { generateMilestoneRecap } from '@/lib/ai/worldState'
 import { NotificationService } from '@/lib/notifications/notification-service'
+import { emitCampaignEvent } from '@/lib/webhooks/webhookQueue'
 import { pickCrisisFaction, decideCrisisEscalation, CRISIS_WORLD_EVENT_TYPE, RECENT_CRISIS_LOOKBACK } from './tick/crisisClock'
 import { currentSimulationTurn } from './tick/simulationClock'
 import { simTurn, type SceneTurn } from './turnClock'
@@ -214,6 +215,10 @@ export async function checkAndCreateMilestone(
       )
     )
 
+    // The recap and crisis blurb are the same player-facing text every
+    // member was just sent.
+    await emitCampaignEvent(campaignId, { type: 'MILESTONE', data: { sceneCount: sceneLogCount, summary: fullSummary } })
+
     console.log(`🏆 Campaign milestone reached: ${sceneLogCount} scenes (${campaignId})`)
   } catch (error) {
     console.error('Campaign milestone generation failed (non-critical):', error)
@@ -90,6 +90,18 @@ export function describeStability(score: number): string {
   return 'Entrenched'
 }
 
+/**
+ * Diegetic band for a faction's 0-100 resources or military. Cut at the
+ * tick's own LOW/MEDIUM/HIGH boundaries (factionTick.ts's band()), so
+ * "Formidable" is exactly what the simulation treats as strong enough to
+ * go to war. Not imported from there — this module stays free of the tick.
+ */
+export function describeStrength(score: number): string {
+  if (score < 34) return 'Thin'
+  if (score < 67) return 'Middling'
+  return 'Formidable'
+}
+
 /**
  * Tone for a stability meter — low stability is bad, so this inverts
  * relative to a plain progress bar.
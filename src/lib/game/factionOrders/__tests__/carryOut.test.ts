@@ -0,0 +1,118 @@
+// src/lib/game/factionOrders/__tests__/carryOut.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { carryOutFactionOrders } from '../carryOut'
+import type { TickContext } from '../../tick/types'
+import { simTurn } from '@/lib/game/turnClock'
+
+function order(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'o1',
+    campaignId: 'c1',
+    factionId: 'f1',
+    issuedByCharacterId: 'pc1',
+    type: 'MUSTER',
+    status: 'QUEUED',
+    turnNumber: 5,
+    amount: 5,
+    locationId: null,
+    toLocationId: null,
+    targetFactionId: null,
+    treatyType: null,
+    debtId: null,
+    warId: null,
+    side: null,
+    hazardId: null,
+    outcome: null,
+    resolvedTurn: null,
+    faction: { id: 'f1', name: 'House Vale' },
+    ...overrides,
+  }
+}
+
+function makeDb(leader: { leaderCharacterId: string | null; isAlive: boolean } = { leaderCharacterId: 'pc1', isAlive: true }) {
+  return {
+    factionOrder: { findMany: vi.fn(async () => [order()]), update: vi.fn(async () => ({})) },
+    faction: {
+      findFirst: vi.fn(async () => ({
+        id: 'f1',
+        isActive: true,
+        resources: 50,
+        military: 40,
+        leaderCharacterId: leader.leaderCharacterId,
+        leaderCharacter: leader.leaderCharacterId ? { isAlive: leader.isAlive } : null,
+      })),
+    },
+  }
+}
+
+function ctxFor(db: unknown, overrides: Partial<TickContext> = {}): TickContext {
+  return { campaignId: 'c1', turnNumber: simTurn(5), factionCap: 10, npcCap: 20, dryRun: false, db: db as any, ...overrides }
+}
+
+describe('carryOutFactionOrders', () => {
+  let db: ReturnType<typeof makeDb>
+  beforeEach(() => {
+    db = makeDb()
+  })
+
+  it('claims only this campaign\'s queued orders of one type that are due, oldest first', async () => {
+    await carryOutFactionOrders(ctxFor(db), 'MUSTER', vi.fn(async () => ({ carriedOut: true as const, outcome: 'done' })))
+    expect(db.factionOrder.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { campaignId: 'c1', type: 'MUSTER', status: 'QUEUED', turnNumber: { lte: 5 } },
+        orderBy: [{ turnNumber: 'asc' }, { id: 'asc' }],
+      })
+    )
+  })
+
+  it('carries out a valid order, settles it, and reports it as the player\'s doing', async () => {
+    const execute = vi.fn(async () => ({
+      carriedOut: true as const,
+      outcome: 'House Vale musters a modest levy',
+      changes: [
+        { entityType: 'FACTION' as const, entityId: 'f1', entityName: 'House Vale', campaignId: 'c1', field: 'military', previousValue: 40, newValue: 45, reason: 'levy', significant: false, importance: 'NORMAL' as const },
+      ],
+    }))
+    const changes = await carryOutFactionOrders(ctxFor(db), 'MUSTER', execute)
+
+    expect(execute).toHaveBeenCalledWith(expect.objectContaining({ id: 'o1' }), expect.objectContaining({ faction: expect.objectContaining({ resources: 50 }) }))
+    expect(db.factionOrder.update).toHaveBeenCalledWith({
+      where: { id: 'o1' },
+      data: { status: 'CARRIED_OUT', outcome: 'House Vale musters a modest levy', resolvedTurn: 5 },
+    })
+    expect(changes.map((c) => c.field)).toEqual(['military', 'orderCarriedOut'])
+    expect(changes.every((c) => c.origin === 'factionOrder')).toBe(true)
+    expect(changes[1]).toMatchObject({ entityId: 'f1', newValue: 'MUSTER', significant: true })
+  })
+
+  it('fails an order whose leader has died since, without running it', async () => {
+    db = makeDb({ leaderCharacterId: 'pc1', isAlive: false })
+    const execute = vi.fn()
+    const changes = await carryOutFactionOrders(ctxFor(db), 'MUSTER', execute)
+
+    expect(execute).not.toHaveBeenCalled()
+    expect(db.factionOrder.update).toHaveBeenCalledWith({
+      where: { id: 'o1' },
+      data: expect.objectContaining({ status: 'FAILED', resolvedTurn: 5 }),
+    })
+    expect(changes).toHaveLength(1)
+    expect(changes[0]).toMatchObject({ field: 'orderFailed', significant: false, origin: 'factionOrder' })
+    expect(changes[0].reason).toMatch(/^House Vale's muster comes to nothing/)
+  })
+
+  it('records a handler\'s own refusal as the reason it failed', async () => {
+    const execute = vi.fn(async () => ({ carriedOut: false as const, reason: 'That war ended before the faction could march' }))
+    await carryOutFactionOrders(ctxFor(db), 'MUSTER', execute)
+    expect(db.factionOrder.update).toHaveBeenCalledWith({
+      where: { id: 'o1' },
+      data: { status: 'FAILED', outcome: 'That war ended before the faction could march', resolvedTurn: 5 },
+    })
+  })
+
+  it('settles nothing in a dry run, but reports the same changes', async () => {
+    const execute = vi.fn(async () => ({ carriedOut: true as const, outcome: 'done' }))
+    const changes = await carryOutFactionOrders(ctxFor(db, { dryRun: true }), 'MUSTER', execute)
+    expect(db.factionOrder.update).not.toHaveBeenCalled()
+    expect(changes.map((c) => c.field)).toEqual(['orderCarriedOut'])
+  })
+})
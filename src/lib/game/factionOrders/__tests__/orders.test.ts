@@ -0,0 +1,168 @@
+// src/lib/game/factionOrders/__tests__/orders.test.ts
+import { describe, it, expect } from 'vitest'
+import {
+  CONTAIN_COST,
+  ENVOY_COST,
+  FORTIFY_COST,
+  MUSTER_LEVIES,
+  SUPPLY_ROUTE_COST,
+  validateFactionOrder,
+  type FactionOrderDraft,
+  type OrderFacts,
+} from '../orders'
+
+function draft(overrides: Partial<FactionOrderDraft> = {}): FactionOrderDraft {
+  return {
+    type: 'MUSTER',
+    issuedByCharacterId: 'pc1',
+    amount: MUSTER_LEVIES.MODEST,
+    locationId: null,
+    toLocationId: null,
+    targetFactionId: null,
+    treatyType: null,
+    debtId: null,
+    warId: null,
+    side: null,
+    hazardId: null,
+    ...overrides,
+  }
+}
+
+function facts(overrides: Partial<OrderFacts> = {}): OrderFacts {
+  return {
+    turn: 10,
+    faction: { id: 'f1', isActive: true, resources: 50, military: 50, leaderCharacterId: 'pc1', leaderAlive: true },
+    location: null,
+    toLocation: null,
+    routeExists: false,
+    target: null,
+    openTreatyWithTarget: false,
+    fightingTarget: false,
+    warWithTarget: null,
+    debt: null,
+    war: null,
+    factionAtWar: false,
+    boundToEnemySide: false,
+    hazard: null,
+    ...overrides,
+  }
+}
+
+const withFaction = (faction: Partial<OrderFacts['faction']>, rest: Partial<OrderFacts> = {}) =>
+  facts({ ...rest, faction: { ...facts().faction, ...faction } })
+
+const reason = (result: ReturnType<typeof validateFactionOrder>) => (result.ok ? null : result.reason)
+
+describe('validateFactionOrder — who may order', () => {
+  it('accepts an order from the living leader', () => {
+    expect(validateFactionOrder(draft(), facts())).toEqual({ ok: true })
+  })
+
+  it('refuses once the faction has collapsed', () => {
+    expect(reason(validateFactionOrder(draft(), withFaction({ isActive: false })))).toMatch(/no longer exists/)
+  })
+
+  it('refuses once the leader is dead or gone', () => {
+    expect(validateFactionOrder(draft(), withFaction({ leaderAlive: false })).ok).toBe(false)
+    expect(validateFactionOrder(draft(), withFaction({ leaderCharacterId: null })).ok).toBe(false)
+  })
+
+  it('refuses an order the previous leader gave', () => {
+    expect(reason(validateFactionOrder(draft(), withFaction({ leaderCharacterId: 'pc2' })))).toMatch(/no longer leads/)
+  })
+})
+
+describe('validateFactionOrder — the faction\'s real numbers', () => {
+  it('a levy has to be paid for, and has to fit', () => {
+    expect(validateFactionOrder(draft({ amount: MUSTER_LEVIES.HEAVY }), withFaction({ resources: MUSTER_LEVIES.HEAVY - 1 })).ok).toBe(false)
+    expect(validateFactionOrder(draft({ amount: MUSTER_LEVIES.HEAVY }), withFaction({ military: 95 })).ok).toBe(false)
+    expect(validateFactionOrder(draft({ amount: 7 }), facts()).ok).toBe(false)
+  })
+
+  it('fortifies only a place the faction holds, and only if it can pay', () => {
+    const order = draft({ type: 'FORTIFY', locationId: 'l1' })
+    const held = { id: 'l1', name: 'Keep', ownerFactionId: 'f1', conditionScore: 40 }
+    expect(validateFactionOrder(order, facts({ location: held })).ok).toBe(true)
+    expect(validateFactionOrder(order, facts({ location: { ...held, ownerFactionId: 'f2' } })).ok).toBe(false)
+    expect(validateFactionOrder(order, facts({ location: { ...held, conditionScore: 100 } })).ok).toBe(false)
+    expect(validateFactionOrder(order, withFaction({ resources: FORTIFY_COST - 1 }, { location: held })).ok).toBe(false)
+  })
+
+  it('opens a route only between two of its own places with none already there', () => {
+    const order = draft({ type: 'OPEN_SUPPLY_ROUTE', locationId: 'l1', toLocationId: 'l2' })
+    const a = { id: 'l1', name: 'Keep', ownerFactionId: 'f1', conditionScore: 60 }
+    const b = { id: 'l2', name: 'Mine', ownerFactionId: 'f1', conditionScore: 60 }
+    expect(validateFactionOrder(order, facts({ location: a, toLocation: b })).ok).toBe(true)
+    expect(validateFactionOrder(order, facts({ location: a, toLocation: { ...b, ownerFactionId: null } })).ok).toBe(false)
+    expect(validateFactionOrder(order, facts({ location: a, toLocation: a })).ok).toBe(false)
+    expect(validateFactionOrder(order, facts({ location: a, toLocation: b, routeExists: true })).ok).toBe(false)
+    expect(validateFactionOrder(order, withFaction({ resources: SUPPLY_ROUTE_COST - 1 }, { location: a, toLocation: b })).ok).toBe(false)
+  })
+
+  it('an envoy carries a pact in peacetime and terms to end a war otherwise', () => {
+    const target = { id: 'f2', isActive: true }
+    const pact = draft({ type: 'SEND_ENVOY', targetFactionId: 'f2', treatyType: 'NON_AGGRESSION' })
+    const tribute = draft({ type: 'SEND_ENVOY', targetFactionId: 'f2', treatyType: 'TRIBUTE' })
+    const war = { id: 'w1', startedTurn: 2 }
+
+    expect(validateFactionOrder(pact, facts({ target })).ok).toBe(true)
+    expect(validateFactionOrder(tribute, facts({ target })).ok).toBe(false)
+    expect(validateFactionOrder(tribute, facts({ target, fightingTarget: true, warWithTarget: war })).ok).toBe(true)
+    expect(validateFactionOrder(pact, facts({ target, fightingTarget: true, warWithTarget: war })).ok).toBe(false)
+  })
+
+  it('an envoy waits for the war to have been fought, and for the war\'s leaders', () => {
+    const order = draft({ type: 'SEND_ENVOY', targetFactionId: 'f2', treatyType: 'CEASEFIRE' })
+    const target = { id: 'f2', isActive: true }
+    expect(validateFactionOrder(order, facts({ target, fightingTarget: true, warWithTarget: { id: 'w1', startedTurn: 9 } })).ok).toBe(false)
+    expect(validateFactionOrder(order, facts({ target, fightingTarget: true, warWithTarget: null })).ok).toBe(false)
+  })
+
+  it('no envoy where terms are already on the table, or none can be paid for', () => {
+    const order = draft({ type: 'SEND_ENVOY', targetFactionId: 'f2', treatyType: 'NON_AGGRESSION' })
+    const target = { id: 'f2', isActive: true }
+    expect(validateFactionOrder(order, facts({ target, openTreatyWithTarget: true })).ok).toBe(false)
+    expect(validateFactionOrder(order, withFaction({ resources: ENVOY_COST - 1 }, { target })).ok).toBe(false)
+  })
+
+  it('calls in only an outstanding debt owed to this faction', () => {
+    const order = draft({ type: 'CALL_IN_DEBT', debtId: 'd1' })
+    expect(validateFactionOrder(order, facts({ debt: { creditorFactionId: 'f1', status: 'OUTSTANDING' } })).ok).toBe(true)
+    expect(validateFactionOrder(order, facts({ debt: { creditorFactionId: 'f2', status: 'OUTSTANDING' } })).ok).toBe(false)
+    expect(validateFactionOrder(order, facts({ debt: { creditorFactionId: 'f1', status: 'PAID' } })).ok).toBe(false)
+  })
+
+  it('joins a war still being fought, free of other wars and of treaties with the enemy', () => {
+    const order = draft({ type: 'JOIN_WAR', warId: 'w1', side: 'DEFENDER' })
+    const war = { id: 'w1', status: 'ESCALATING', participants: [{ factionId: 'f2', side: 'ATTACKER' as const }] }
+    expect(validateFactionOrder(order, facts({ war })).ok).toBe(true)
+    expect(validateFactionOrder(order, facts({ war: { ...war, status: 'RESOLVED' } })).ok).toBe(false)
+    expect(validateFactionOrder(order, facts({ war, factionAtWar: true })).ok).toBe(false)
+    expect(validateFactionOrder(order, facts({ war, boundToEnemySide: true })).ok).toBe(false)
+    expect(validateFactionOrder(order, withFaction({ military: 20 }, { war })).ok).toBe(false)
+  })
+
+  it('sends relief against a disaster still raging, anyone\'s, if it can pay', () => {
+    const order = draft({ type: 'CONTAIN_HAZARD', hazardId: 'h1' })
+    const hazard = { id: 'h1', type: 'PLAGUE' as const, status: 'ACTIVE', locationName: 'Elsewhere' }
+    expect(validateFactionOrder(order, facts({ hazard })).ok).toBe(true)
+    expect(validateFactionOrder(order, facts()).ok).toBe(false)
+    expect(validateFactionOrder(order, facts({ hazard: { ...hazard, status: 'CONTAINED' } })).ok).toBe(false)
+    expect(validateFactionOrder(order, withFaction({ resources: CONTAIN_COST - 1 }, { hazard })).ok).toBe(false)
+  })
+})
+
+describe('validateFactionOrder — reasons', () => {
+  it('never show the player a number', () => {
+    const failing: [FactionOrderDraft, OrderFacts][] = [
+      [draft({ amount: MUSTER_LEVIES.HEAVY }), withFaction({ resources: 3 })],
+      [draft({ type: 'FORTIFY', locationId: 'l1' }), withFaction({ resources: 1 }, { location: { id: 'l1', name: 'Keep', ownerFactionId: 'f1', conditionScore: 10 } })],
+      [draft({ type: 'JOIN_WAR', warId: 'w1', side: 'ATTACKER' }), withFaction({ military: 1 }, { war: { id: 'w1', status: 'ESCALATING', participants: [] } })],
+    ]
+    for (const [order, world] of failing) {
+      const why = reason(validateFactionOrder(order, world))
+      expect(why).toBeTruthy()
+      expect(why).not.toMatch(/\d/)
+    }
+  })
+})
@@ -0,0 +1,123 @@
+// src/lib/game/factionOrders/carryOut.ts
+// The tick side of faction orders: each handler that owns a kind of order
+// calls carryOutFactionOrders for it, with the code that actually does it.
+//
+// Which handler carries out which order, and where in its pass:
+//
+//   MUSTER             factionTick.ts           before the faction snapshot
+//   JOIN_WAR           warTick.ts               after this turn's war progress,
+//                                               before allies pile on
+//   SEND_ENVOY         diplomacyTick.ts         first of the new offers
+//   FORTIFY            locationConditionTick.ts before condition drifts
+//   OPEN_SUPPLY_ROUTE  logisticsTick.ts         before routes are derived
+//   CALL_IN_DEBT       economyTick.ts           before debts net or default
+//   CONTAIN_HAZARD     hazardTick.ts            before this turn's containment
+//
+// So an order lands at the point in the turn where the simulation would
+// have made the same move itself, and everything after it reads the result.
+//
+// Not roster-gated. A player's order is carried out on the turn it was
+// queued for whether or not its faction won this tick's rotation (see
+// capOrdering.ts) — the roster bounds how much of the world the tick
+// simulates, and an order is one row the player is waiting on.
+//
+// Every order is re-checked with validateFactionOrder before it runs: a
+// turn of war and tribute lies between queueing and carrying out. Either
+// way it's settled (CARRIED_OUT or FAILED, with an outcome line for the
+// leader) and reported as an orderCarriedOut/orderFailed change on the
+// faction, origin 'factionOrder', so it reaches the WorldEvent log, the
+// history and the leader's screen like any other world change. A dry run
+// settles nothing and writes nothing, but reports the same changes.
+
+import type { FactionOrder, FactionOrderType } from '@prisma/client'
+import type { TickContext, WorldChange } from '../tick/types'
+import { validateFactionOrder, type OrderFacts } from './orders'
+import { loadOrderFacts } from './facts'
+
+/** What the handler did with an order that passed validation. */
+export type OrderExecution =
+  | {
+      carriedOut: true
+      /** One line for the leader's screen and the event log. */
+      outcome: string
+      /** The world changes carrying it out caused — tagged 'factionOrder' here. */
+      changes?: WorldChange[]
+    }
+  | {
+      // A reason only the handler can see — an offer it already made to the
+      // same pair this pass, a war it resolved earlier this turn.
+      carriedOut: false
+      reason: string
+    }
+
+export type ExecuteFactionOrder = (
+  order: FactionOrder & { faction: { id: string; name: string } },
+  facts: OrderFacts
+) => Promise<OrderExecution>
+
+const ORDER_NOUN: Record<FactionOrderType, string> = {
+  MUSTER: 'muster',
+  FORTIFY: 'fortification',
+  OPEN_SUPPLY_ROUTE: 'new supply route',
+  SEND_ENVOY: 'envoy',
+  CALL_IN_DEBT: 'demand for payment',
+  JOIN_WAR: 'march to war',
+  CONTAIN_HAZARD: 'relief',
+}
+
+/**
+ * Carry out every queued order of one type that is due this turn, oldest
+ * first. An order whose turn was missed (a tick that never ran) is still
+ * carried out — late rather than never.
+ */
+export async function carryOutFactionOrders(
+  ctx: TickContext,
+  type: FactionOrderType,
+  execute: ExecuteFactionOrder
+): Promise<WorldChange[]> {
+  const orders = await ctx.db.factionOrder.findMany({
+    where: { campaignId: ctx.campaignId, type, status: 'QUEUED', turnNumber: { lte: ctx.turnNumber } },
+    include: { faction: { select: { id: true, name: true } } },
+    orderBy: [{ turnNumber: 'asc' }, { id: 'asc' }],
+  })
+
+  const changes: WorldChange[] = []
+  for (const order of orders) {
+    const facts = await loadOrderFacts(ctx.db, ctx.campaignId, order.factionId, order, ctx.turnNumber)
+    let result: OrderExecution
+    if (!facts) {
+      result = { carriedOut: false, reason: 'The faction no longer exists to take orders' }
+    } else {
+      const validation = validateFactionOrder(order, facts)
+      result = validation.ok ? await execute(order, facts) : { carriedOut: false, reason: validation.reason }
+    }
+
+    const outcome = result.carriedOut ? result.outcome : result.reason
+    if (!ctx.dryRun) {
+      await ctx.db.factionOrder.update({
+        where: { id: order.id },
+        data: { status: result.carriedOut ? 'CARRIED_OUT' : 'FAILED', outcome, resolvedTurn: ctx.turnNumber },
+      })
+    }
+
+    if (result.carriedOut) {
+      for (const change of result.changes ?? []) changes.push({ ...change, origin: 'factionOrder' })
+    }
+    changes.push({
+      entityType: 'FACTION',
+      entityId: order.faction.id,
+      entityName: order.faction.name,
+      campaignId: ctx.campaignId,
+      field: result.carriedOut ? 'orderCarriedOut' : 'orderFailed',
+      previousValue: 'queued',
+      newValue: order.type,
+      reason: result.carriedOut
+        ? outcome
+        : `${order.faction.name}'s ${ORDER_NOUN[order.type]} comes to nothing: ${outcome.charAt(0).toLowerCase()}${outcome.slice(1)}`,
+      significant: result.carriedOut,
+      importance: 'NORMAL',
+      origin: 'factionOrder',
+    })
+  }
+  return changes
+}
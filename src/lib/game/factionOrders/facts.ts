@@ -0,0 +1,188 @@
+// src/lib/game/factionOrders/facts.ts
+// Loads the OrderFacts validateFactionOrder (orders.ts) checks an order
+// against — the faction's real numbers, and whatever the order names.
+//
+// One loader for both ends: the orders route calls it with the Prisma
+// client when an order is queued, and carryOut.ts calls it with the tick's
+// transaction client when the tick reaches the order, so the two checks
+// can't read the world differently. Everything the order names is looked
+// up inside its campaign — an id from another campaign reads as missing.
+
+import type { WarSide } from '@prisma/client'
+import type { TickContext } from '../tick/types'
+import { bindingBetween, loadTreatyBindings } from '../tick/diplomacyTick'
+import type { FactionOrderDraft, OrderFacts, OrderLocationFacts } from './orders'
+
+type Db = TickContext['db']
+
+const LOCATION_SELECT = { id: true, name: true, ownerFactionId: true, conditionScore: true } as const
+
+/** Null when the faction isn't in this campaign. */
+export async function loadOrderFacts(
+  db: Db,
+  campaignId: string,
+  factionId: string,
+  draft: FactionOrderDraft,
+  turn: number
+): Promise<OrderFacts | null> {
+  const faction = await db.faction.findFirst({
+    where: { id: factionId, campaignId },
+    select: {
+      id: true,
+      isActive: true,
+      resources: true,
+      military: true,
+      leaderCharacterId: true,
+      leaderCharacter: { select: { isAlive: true } },
+    },
+  })
+  if (!faction) return null
+
+  const facts: OrderFacts = {
+    turn,
+    faction: {
+      id: faction.id,
+      isActive: faction.isActive,
+      resources: faction.resources,
+      military: faction.military,
+      leaderCharacterId: faction.leaderCharacterId,
+      leaderAlive: !!faction.leaderCharacter?.isAlive,
+    },
+    location: null,
+    toLocation: null,
+    routeExists: false,
+    target: null,
+    openTreatyWithTarget: false,
+    fightingTarget: false,
+    warWithTarget: null,
+    debt: null,
+    war: null,
+    factionAtWar: false,
+    boundToEnemySide: false,
+    hazard: null,
+  }
+
+  const loadLocation = async (id: string | null): Promise<OrderLocationFacts | null> =>
+    id ? db.location.findFirst({ where: { id, campaignId }, select: LOCATION_SELECT }) : null
+
+  switch (draft.type) {
+    case 'MUSTER':
+      break
+
+    case 'FORTIFY':
+      facts.location = await loadLocation(draft.locationId)
+      break
+
+    case 'OPEN_SUPPLY_ROUTE': {
+      facts.location = await loadLocation(draft.locationId)
+      facts.toLocation = await loadLocation(draft.toLocationId)
+      if (facts.location && facts.toLocation) {
+        const [a, b] = [facts.location.id, facts.toLocation.id]
+        const route = await db.supplyRoute.findFirst({
+          where: {
+            campaignId,
+            OR: [
+              { fromLocationId: a, toLocationId: b },
+              { fromLocationId: b, toLocationId: a },
+            ],
+          },
+          select: { id: true },
+        })
+        facts.routeExists = !!route
+      }
+      break
+    }
+
+    case 'SEND_ENVOY': {
+      if (!draft.targetFactionId) break
+      facts.target = await db.faction.findFirst({
+        where: { id: draft.targetFactionId, campaignId },
+        select: { id: true, isActive: true },
+      })
+      if (!facts.target) break
+      const targetId = facts.target.id
+      const [openTreaty, wars] = await Promise.all([
+        db.treaty.findFirst({
+          where: {
+            campaignId,
+            status: { in: ['PROPOSED', 'ACTIVE'] },
+            OR: [
+              { proposerFactionId: factionId, recipientFactionId: targetId },
+              { proposerFactionId: targetId, recipientFactionId: factionId },
+            ],
+          },
+          select: { id: true },
+        }),
+        db.war.findMany({
+          where: { campaignId, status: 'ESCALATING', participants: { some: { factionId } } },
+          select: {
+            id: true,
+            startedTurn: true,
+            attackerFactionId: true,
+            defenderFactionId: true,
+            participants: { select: { factionId: true, side: true } },
+          },
+        }),
+      ])
+      facts.openTreatyWithTarget = !!openTreaty
+      for (const war of wars) {
+        const mine = war.participants.find((p) => p.factionId === factionId)
+        const theirs = war.participants.find((p) => p.factionId === targetId)
+        if (!mine || !theirs || mine.side === theirs.side) continue
+        facts.fightingTarget = true
+        const principals = [war.attackerFactionId, war.defenderFactionId]
+        if (principals.includes(factionId) && principals.includes(targetId)) {
+          facts.warWithTarget = { id: war.id, startedTurn: war.startedTurn }
+        }
+      }
+      break
+    }
+
+    case 'CALL_IN_DEBT':
+      facts.debt = draft.debtId
+        ? await db.factionDebt.findFirst({
+            where: { id: draft.debtId, campaignId },
+            select: { creditorFactionId: true, status: true },
+          })
+        : null
+      break
+
+    case 'JOIN_WAR': {
+      if (!draft.warId) break
+      const [war, atWar] = await Promise.all([
+        db.war.findFirst({
+          where: { id: draft.warId, campaignId },
+          select: { id: true, status: true, participants: { select: { factionId: true, side: true } } },
+        }),
+        db.warParticipant.findFirst({
+          where: { factionId, war: { status: 'ESCALATING' } },
+          select: { id: true },
+        }),
+      ])
+      facts.war = war
+      facts.factionAtWar = !!atWar
+      if (war && draft.side) {
+        const { active } = await loadTreatyBindings(db, campaignId, turn)
+        const enemySide: WarSide = draft.side === 'ATTACKER' ? 'DEFENDER' : 'ATTACKER'
+        facts.boundToEnemySide = war.participants.some(
+          (p) => p.side === enemySide && !!bindingBetween(active, factionId, p.factionId)
+        )
+      }
+      break
+    }
+
+    case 'CONTAIN_HAZARD': {
+      if (!draft.hazardId) break
+      const hazard = await db.hazard.findFirst({
+        where: { id: draft.hazardId, campaignId },
+        select: { id: true, type: true, status: true, location: { select: { name: true } } },
+      })
+      facts.hazard = hazard
+        ? { id: hazard.id, type: hazard.type, status: hazard.status, locationName: hazard.location.name }
+        : null
+      break
+    }
+  }
+
+  return facts
+}
@@ -0,0 +1,222 @@
+// src/lib/game/factionOrders/orders.ts
+// What a PC leader may order their faction to do, what each order costs,
+// and whether it can be done — see FactionOrder in schema.prisma.
+//
+// A player-led faction (Faction.leaderCharacterId) ticks like any other:
+// factionTick.ts only spares its goal from automatic reassessment. These
+// orders are the rest of the leader's hand on it — one per world turn,
+// queued from the faction orders screen and carried out by the handler
+// that owns that part of the world (carryOut.ts). Nothing here is a new
+// rule of the world: a muster moves resources into military the way a
+// goal delta does, an envoy makes the same Treaty offer diplomacyTick.ts
+// makes, a joined war gets the same WarParticipant row a coalition ally
+// gets. The leader decides WHAT; the simulation still decides what
+// happens next.
+//
+// validateFactionOrder is the one gate, run twice against the faction's
+// real numbers: when the order is queued (queue.ts), so the leader hears
+// no at once, and again when the tick reaches it (carryOut.ts), since a
+// turn of war, tribute and attrition can happen in between. Its reasons
+// are shown to the player as they are, so they speak in the fiction and
+// never carry a number — the same precision line entityStats.ts draws.
+//
+// Pure. facts.ts loads the OrderFacts this reads.
+
+import type { FactionOrderType, HazardType, TreatyType, WarSide } from '@prisma/client'
+import { MEDIUM_BAND_MIN } from '../tick/factionTick'
+import { MIN_WAR_TURNS_BEFORE_TALKS } from '../tick/diplomacyTick'
+
+// ── Costs ────────────────────────────────────────────────────────────────
+
+/**
+ * The two sizes of levy a leader can call. Resources move into military
+ * one for one — the same scale as a goal delta (factionTick.ts's
+ * GOAL_DELTAS move two or three a turn), a heavy levy being a few turns of
+ * an EXPAND goal in one go.
+ */
+export const MUSTER_LEVIES = { MODEST: 5, HEAVY: 10 } as const
+export type MusterLevy = keyof typeof MUSTER_LEVIES
+
+/** Resources spent on walls, stores and watchmen. */
+export const FORTIFY_COST = 6
+/** Condition restored — most of a band, so it reads on the atlas. */
+export const FORTIFY_CONDITION_GAIN = 10
+
+/** Resources spent opening a supply line. */
+export const SUPPLY_ROUTE_COST = 8
+
+/** Resources spent sending an envoy, whatever they carry. */
+export const ENVOY_COST = 2
+
+/** What an envoy may carry, by whether the two are fighting. */
+export const WAR_TERMS: TreatyType[] = ['CEASEFIRE', 'TRIBUTE', 'VASSALAGE']
+export const PEACE_TERMS: TreatyType[] = ['NON_AGGRESSION']
+
+/** Resources spent on physicians, grain carts, firebreaks or levees. */
+export const CONTAIN_COST = 5
+/**
+ * Containment the relief adds (hazardTick.ts) — about four turns of a
+ * holder's quarantine in one, so help sent early can end a crisis before
+ * it peaks.
+ */
+export const ORDERED_CONTAINMENT = 35
+
+// ── The order, and what it's checked against ─────────────────────────────
+
+export interface FactionOrderDraft {
+  type: FactionOrderType
+  issuedByCharacterId: string | null
+  amount: number
+  locationId: string | null
+  toLocationId: string | null
+  targetFactionId: string | null
+  treatyType: TreatyType | null
+  debtId: string | null
+  warId: string | null
+  side: WarSide | null
+  hazardId: string | null
+}
+
+export interface OrderLocationFacts {
+  id: string
+  name: string
+  ownerFactionId: string | null
+  conditionScore: number
+}
+
+/** The world as the order finds it — loaded by facts.ts. */
+export interface OrderFacts {
+  turn: number
+  faction: {
+    id: string
+    isActive: boolean
+    resources: number
+    military: number
+    leaderCharacterId: string | null
+    /** Whether the leading character is still alive. */
+    leaderAlive: boolean
+  }
+  // FORTIFY, OPEN_SUPPLY_ROUTE
+  location: OrderLocationFacts | null
+  toLocation: OrderLocationFacts | null
+  /** A supply route already runs between the two, either way round. */
+  routeExists: boolean
+  // SEND_ENVOY
+  target: { id: string; isActive: boolean } | null
+  /** A treaty is already offered or in force between the two. */
+  openTreatyWithTarget: boolean
+  /** They are on opposite sides of a war still being fought. */
+  fightingTarget: boolean
+  /** The war the two lead against each other, if they are its principals. */
+  warWithTarget: { id: string; startedTurn: number } | null
+  // CALL_IN_DEBT
+  debt: { creditorFactionId: string; status: string } | null
+  // JOIN_WAR
+  war: {
+    id: string
+    status: string
+    participants: { factionId: string; side: WarSide }[]
+  } | null
+  /** Already fighting some war, this one or another. */
+  factionAtWar: boolean
+  /** A treaty in force binds it to someone on the side it would fight. */
+  boundToEnemySide: boolean
+  // CONTAIN_HAZARD
+  hazard: { id: string; type: HazardType; status: string; locationName: string } | null
+}
+
+export type OrderValidation = { ok: true } | { ok: false; reason: string }
+
+const no = (reason: string): OrderValidation => ({ ok: false, reason })
+const OK: OrderValidation = { ok: true }
+
+/**
+ * Whether this order can be carried out against these facts, and if not,
+ * why — in words a player can be shown.
+ */
+export function validateFactionOrder(draft: FactionOrderDraft, facts: OrderFacts): OrderValidation {
+  const { faction } = facts
+  if (!faction.isActive) return no('The faction no longer exists to take orders')
+  if (!faction.leaderCharacterId || !faction.leaderAlive) return no('The faction has no living leader to answer to')
+  if (draft.issuedByCharacterId !== faction.leaderCharacterId) return no('Whoever gave this order no longer leads the faction')
+
+  switch (draft.type) {
+    case 'MUSTER': {
+      if (!(Object.values(MUSTER_LEVIES) as number[]).includes(draft.amount)) return no('Choose a modest or a heavy levy')
+      if (faction.resources < draft.amount) return no('The treasury cannot pay for a levy that size')
+      if (faction.military + draft.amount > 100) return no('The faction cannot keep more soldiers than it already has')
+      return OK
+    }
+
+    case 'FORTIFY': {
+      const location = facts.location
+      if (!location) return no('Choose a place to fortify')
+      if (location.ownerFactionId !== faction.id) return no('The faction can only fortify a place it holds')
+      if (location.conditionScore >= 100) return no('That place is as strong as it can be made')
+      if (faction.resources < FORTIFY_COST) return no('The treasury cannot pay for the work')
+      return OK
+    }
+
+    case 'OPEN_SUPPLY_ROUTE': {
+      const { location: from, toLocation: to } = facts
+      if (!from || !to) return no('Choose both ends of the route')
+      if (from.id === to.id) return no('A route needs two different places')
+      // Both ends, for the same reason logisticsTick.ts's extraction only
+      // counts a route whose far end the same faction owns: a road into
+      // someone else's country carries nothing home.
+      if (from.ownerFactionId !== faction.id || to.ownerFactionId !== faction.id) return no('The faction must hold both ends of the route')
+      if (facts.routeExists) return no('A supply route already runs between those places')
+      if (faction.resources < SUPPLY_ROUTE_COST) return no('The treasury cannot pay for the route')
+      return OK
+    }
+
+    case 'SEND_ENVOY': {
+      const target = facts.target
+      if (!target || !draft.treatyType) return no('Choose who to send the envoy to, and what they carry')
+      if (target.id === faction.id) return no('The faction cannot treat with itself')
+      if (!target.isActive) return no('There is no one left there to receive an envoy')
+      if (facts.openTreatyWithTarget) return no('Terms between the two are already on the table or in force')
+      if (facts.fightingTarget) {
+        if (!WAR_TERMS.includes(draft.treatyType)) return no('At war, an envoy can only carry terms to end it')
+        if (!facts.warWithTarget) return no('Only the war\'s leaders can agree its end')
+        if (facts.turn - facts.warWithTarget.startedTurn < MIN_WAR_TURNS_BEFORE_TALKS) return no('It is too early in the war for anyone to listen')
+      } else if (!PEACE_TERMS.includes(draft.treatyType)) {
+        return no('In peacetime, an envoy can only offer a pact')
+      }
+      if (faction.resources < ENVOY_COST) return no('The treasury cannot pay for the embassy')
+      return OK
+    }
+
+    case 'CALL_IN_DEBT': {
+      const debt = facts.debt
+      if (!debt) return no('Choose a debt to call in')
+      if (debt.creditorFactionId !== faction.id) return no('That debt is not owed to this faction')
+      if (debt.status !== 'OUTSTANDING') return no('That debt has already been settled')
+      return OK
+    }
+
+    case 'JOIN_WAR': {
+      const war = facts.war
+      if (!war || !draft.side) return no('Choose a war, and a side')
+      if (war.status !== 'ESCALATING') return no('That war is over')
+      if (war.participants.some((p) => p.factionId === faction.id)) return no('The faction is already fighting in that war')
+      if (facts.factionAtWar) return no('The faction is already fighting a war of its own')
+      if (facts.boundToEnemySide) return no('A treaty binds the faction to someone on the other side')
+      // The MEDIUM band's floor, not warTick's HIGH bar for an ally joining
+      // on its own: a leader may commit a middling army the simulation
+      // would have kept home.
+      if (faction.military < MEDIUM_BAND_MIN) return no('The faction has too few soldiers to send')
+      return OK
+    }
+
+    case 'CONTAIN_HAZARD': {
+      const hazard = facts.hazard
+      if (!hazard) return no('Choose a disaster to send help against')
+      // Anyone's land, not just the faction's own: relief for a neighbour
+      // is as much a leader's choice as a levy.
+      if (hazard.status !== 'ACTIVE') return no('That disaster is already over')
+      if (faction.resources < CONTAIN_COST) return no('The treasury cannot pay for the relief')
+      return OK
+    }
+  }
+}
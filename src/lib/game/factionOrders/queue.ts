@@ -0,0 +1,331 @@
+// src/lib/game/factionOrders/queue.ts
+// The faction orders screen's side of faction orders: what the leader sees,
+// and queueing or withdrawing this turn's order. The tick's side is
+// carryOut.ts.
+//
+// An order is queued for the NEXT world turn (WorldMeta.simulationTurn + 1)
+// and replaces whatever order was already queued for it — one order per
+// faction per turn, which FactionOrder's @@unique([factionId, turnNumber])
+// holds the table to. It's checked with validateFactionOrder now so the
+// leader hears no at once, and again when the tick reaches it.
+//
+// The view speaks in bands, never the faction's raw numbers — the leader
+// rules from the same fiction every other player-facing surface shows (see
+// entityStats.ts). Options offered are fog-of-war filtered like any other
+// player read (visibleTo), so the orders screen can't name a faction or a
+// place the party hasn't found.
+
+import type { FactionOrderType, HazardType, Prisma, TreatyType, WarSide } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { seesGmView, visibleTo, type CampaignRole } from '@/lib/api/visibility'
+import { describeStability, describeStrength } from '../entityStats'
+import { deriveConditionTags } from '../tick/locationConditionTick'
+import { HAZARD_NOUN } from '../tick/hazardTick'
+import { currentSimulationTurn } from '../tick/simulationClock'
+import { simTurn } from '../turnClock'
+import { MUSTER_LEVIES, PEACE_TERMS, WAR_TERMS, validateFactionOrder, type FactionOrderDraft, type MusterLevy } from './orders'
+import { loadOrderFacts } from './facts'
+
+/** How much of a faction's order history the screen shows. */
+const HISTORY_LIMIT = 12
+
+const ORDER_INCLUDE = {
+  location: { select: { name: true } },
+  toLocation: { select: { name: true } },
+  targetFaction: { select: { name: true } },
+  debt: { select: { debtorFaction: { select: { name: true } } } },
+  war: { select: { name: true } },
+  hazard: { select: { type: true, location: { select: { name: true } } } },
+} as const
+
+export interface FactionOrderView {
+  id: string
+  type: FactionOrderType
+  status: string
+  turnNumber: number
+  /** What was ordered, in a line. */
+  summary: string
+  /** What came of it, once the tick has reached it. */
+  outcome: string | null
+}
+
+export interface FactionOrdersView {
+  faction: {
+    id: string
+    name: string
+    goal: string
+    resources: string
+    military: string
+    stability: string
+  }
+  leader: { id: string; name: string } | null
+  /** The world turn an order queued now runs on. */
+  nextTurn: number
+  queued: FactionOrderView | null
+  history: FactionOrderView[]
+  options: {
+    locations: { id: string; name: string; condition: string[] }[]
+    factions: { id: string; name: string; atWarWith: boolean; terms: TreatyType[] }[]
+    debts: { id: string; debtorName: string }[]
+    wars: { id: string; name: string; attackerName: string; defenderName: string }[]
+    /** Disasters still raging anywhere the party has found — relief may go to anyone. */
+    hazards: { id: string; type: HazardType; locationName: string }[]
+    levies: MusterLevy[]
+  }
+}
+
+type OrderRow = Prisma.FactionOrderGetPayload<{ include: typeof ORDER_INCLUDE }>
+
+const TREATY_WORDS: Record<TreatyType, string> = {
+  CEASEFIRE: 'a ceasefire',
+  TRIBUTE: 'tribute',
+  NON_AGGRESSION: 'a non-aggression pact',
+  VASSALAGE: 'submission',
+}
+
+function summarize(order: OrderRow): string {
+  switch (order.type) {
+    case 'MUSTER':
+      return order.amount >= MUSTER_LEVIES.HEAVY ? 'Call a heavy levy' : 'Call a modest levy'
+    case 'FORTIFY':
+      return `Fortify ${order.location?.name ?? 'a lost place'}`
+    case 'OPEN_SUPPLY_ROUTE':
+      return `Open a supply route from ${order.location?.name ?? 'a lost place'} to ${order.toLocation?.name ?? 'a lost place'}`
+    case 'SEND_ENVOY':
+      return `Send an envoy to ${order.targetFaction?.name ?? 'a vanished power'} offering ${order.treatyType ? TREATY_WORDS[order.treatyType] : 'terms'}`
+    case 'CALL_IN_DEBT':
+      return `Call in what ${order.debt?.debtorFaction.name ?? 'a vanished debtor'} owes`
+    case 'JOIN_WAR':
+      return `Join ${order.war?.name ?? 'a war'} as ${order.side === 'ATTACKER' ? 'an attacker' : 'a defender'}`
+    case 'CONTAIN_HAZARD':
+      return order.hazard
+        ? `Send help against the ${HAZARD_NOUN[order.hazard.type]} in ${order.hazard.location.name}`
+        : 'Send help against a disaster now forgotten'
+  }
+}
+
+function toView(order: OrderRow): FactionOrderView {
+  return {
+    id: order.id,
+    type: order.type,
+    status: order.status,
+    turnNumber: order.turnNumber,
+    summary: summarize(order),
+    outcome: order.outcome,
+  }
+}
+
+/** Null when the faction isn't in this campaign. */
+export async function loadFactionOrdersView(
+  campaignId: string,
+  factionId: string,
+  role: CampaignRole
+): Promise<FactionOrdersView | null> {
+  const faction = await prisma.faction.findFirst({
+    where: { id: factionId, campaignId },
+    select: {
+      id: true,
+      name: true,
+      goal: true,
+      resources: true,
+      military: true,
+      stability: true,
+      leaderCharacter: { select: { id: true, name: true, isAlive: true } },
+    },
+  })
+  if (!faction) return null
+
+  const nextTurn = (await currentSimulationTurn(campaignId)) + 1
+  const [queued, history, locations, factions, debts, wars, hazards] = await Promise.all([
+    prisma.factionOrder.findFirst({
+      where: { factionId, turnNumber: nextTurn, status: 'QUEUED' },
+      include: ORDER_INCLUDE,
+    }),
+    prisma.factionOrder.findMany({
+      where: { factionId, status: { not: 'QUEUED' } },
+      include: ORDER_INCLUDE,
+      orderBy: [{ turnNumber: 'desc' }, { createdAt: 'desc' }],
+      take: HISTORY_LIMIT,
+    }),
+    prisma.location.findMany({
+      where: { campaignId, ownerFactionId: factionId, ...visibleTo('location', role) },
+      select: { id: true, name: true, conditionScore: true, isContested: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.faction.findMany({
+      where: { campaignId, isActive: true, id: { not: factionId }, ...visibleTo('faction', role) },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.factionDebt.findMany({
+      where: { campaignId, creditorFactionId: factionId, status: 'OUTSTANDING' },
+      select: { id: true, debtorFaction: { select: { name: true } } },
+      orderBy: { turnCreated: 'asc' },
+    }),
+    prisma.war.findMany({
+      where: { campaignId, status: 'ESCALATING' },
+      select: {
+        id: true,
+        name: true,
+        attacker: { select: { name: true, isDiscovered: true } },
+        defender: { select: { name: true, isDiscovered: true } },
+        participants: { select: { factionId: true, side: true } },
+      },
+      orderBy: { startedTurn: 'asc' },
+    }),
+    prisma.hazard.findMany({
+      where: { campaignId, status: 'ACTIVE', location: visibleTo('location', role) },
+      select: { id: true, type: true, location: { select: { name: true } } },
+      orderBy: { startedTurn: 'asc' },
+    }),
+  ])
+
+  // Who this faction is fighting — an envoy to them carries terms to end
+  // the war; to anyone else, a pact.
+  const enemies = new Set<string>()
+  for (const war of wars) {
+    const mine = war.participants.find((p) => p.factionId === factionId)
+    if (!mine) continue
+    for (const p of war.participants) if (p.side !== mine.side) enemies.add(p.factionId)
+  }
+  const seesAll = seesGmView(role)
+
+  return {
+    faction: {
+      id: faction.id,
+      name: faction.name,
+      goal: faction.goal,
+      resources: describeStrength(faction.resources),
+      military: describeStrength(faction.military),
+      stability: describeStability(faction.stability),
+    },
+    leader: faction.leaderCharacter?.isAlive ? { id: faction.leaderCharacter.id, name: faction.leaderCharacter.name } : null,
+    nextTurn,
+    queued: queued ? toView(queued) : null,
+    history: history.map(toView),
+    options: {
+      locations: locations.map((l) => ({ id: l.id, name: l.name, condition: deriveConditionTags(l.conditionScore, l.isContested) })),
+      factions: factions.map((f) => ({
+        id: f.id,
+        name: f.name,
+        atWarWith: enemies.has(f.id),
+        terms: enemies.has(f.id) ? WAR_TERMS : PEACE_TERMS,
+      })),
+      debts: debts.map((d) => ({ id: d.id, debtorName: d.debtorFaction.name })),
+      wars: wars
+        .filter((w) => !w.participants.some((p) => p.factionId === factionId))
+        .filter((w) => seesAll || (w.attacker.isDiscovered && w.defender.isDiscovered))
+        .map((w) => ({ id: w.id, name: w.name, attackerName: w.attacker.name, defenderName: w.defender.name })),
+      hazards: hazards.map((h) => ({ id: h.id, type: h.type, locationName: h.location.name })),
+      levies: Object.keys(MUSTER_LEVIES) as MusterLevy[],
+    },
+  }
+}
+
+const ORDER_TYPES: FactionOrderType[] = ['MUSTER', 'FORTIFY', 'OPEN_SUPPLY_ROUTE', 'SEND_ENVOY', 'CALL_IN_DEBT', 'JOIN_WAR', 'CONTAIN_HAZARD']
+const TREATY_TYPES: TreatyType[] = [...WAR_TERMS, ...PEACE_TERMS]
+const SIDES: WarSide[] = ['ATTACKER', 'DEFENDER']
+
+const idOrNull = (value: unknown): string | null => (typeof value === 'string' && value.length > 0 ? value : null)
+
+/**
+ * A request body as an order draft, or why it isn't one. Only the shape is
+ * checked here; whether the faction can actually do it is
+ * validateFactionOrder's call.
+ */
+export function parseFactionOrderBody(
+  body: unknown,
+  issuedByCharacterId: string
+): { draft: FactionOrderDraft } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>
+  const type = input.type as FactionOrderType
+  if (!ORDER_TYPES.includes(type)) return { error: 'Unknown order' }
+
+  const levy = input.levy as MusterLevy
+  if (type === 'MUSTER' && !(levy in MUSTER_LEVIES)) return { error: 'levy must be MODEST or HEAVY' }
+  const treatyType = input.treatyType == null ? null : (input.treatyType as TreatyType)
+  if (treatyType !== null && !TREATY_TYPES.includes(treatyType)) return { error: 'Unknown terms' }
+  const side = input.side == null ? null : (input.side as WarSide)
+  if (side !== null && !SIDES.includes(side)) return { error: 'side must be ATTACKER or DEFENDER' }
+
+  return {
+    draft: {
+      type,
+      issuedByCharacterId,
+      amount: type === 'MUSTER' ? MUSTER_LEVIES[levy] : 0,
+      locationId: idOrNull(input.locationId),
+      toLocationId: idOrNull(input.toLocationId),
+      targetFactionId: idOrNull(input.targetFactionId),
+      treatyType,
+      debtId: idOrNull(input.debtId),
+      warId: idOrNull(input.warId),
+      side,
+      hazardId: idOrNull(input.hazardId),
+    },
+  }
+}
+
+/**
+ * Queue a draft for the next world turn, replacing any order already
+ * queued for it. Checked against the faction's real numbers first.
+ */
+export async function queueFactionOrder(
+  campaignId: string,
+  factionId: string,
+  draft: FactionOrderDraft
+): Promise<{ ok: true; order: FactionOrderView } | { ok: false; reason: string }> {
+  const turnNumber = simTurn((await currentSimulationTurn(campaignId)) + 1)
+  const facts = await loadOrderFacts(prisma, campaignId, factionId, draft, turnNumber)
+  if (!facts) return { ok: false, reason: 'Faction not found' }
+  const validation = validateFactionOrder(draft, facts)
+  if (!validation.ok) return validation
+
+  // Every target column is written, set or not, so replacing a FORTIFY
+  // with a JOIN_WAR doesn't leave the old location behind on the row.
+  const order = await prisma.factionOrder.upsert({
+    where: { factionId_turnNumber: { factionId, turnNumber } },
+    create: {
+      campaignId,
+      factionId,
+      turnNumber,
+      issuedByCharacterId: draft.issuedByCharacterId,
+      type: draft.type,
+      amount: draft.amount,
+      locationId: draft.locationId,
+      toLocationId: draft.toLocationId,
+      targetFactionId: draft.targetFactionId,
+      treatyType: draft.treatyType,
+      debtId: draft.debtId,
+      warId: draft.warId,
+      side: draft.side,
+      hazardId: draft.hazardId,
+    },
+    update: {
+      issuedByCharacterId: draft.issuedByCharacterId,
+      type: draft.type,
+      amount: draft.amount,
+      locationId: draft.locationId,
+      toLocationId: draft.toLocationId,
+      targetFactionId: draft.targetFactionId,
+      treatyType: draft.treatyType,
+      debtId: draft.debtId,
+      warId: draft.warId,
+      side: draft.side,
+      hazardId: draft.hazardId,
+      status: 'QUEUED',
+      outcome: null,
+      resolvedTurn: null,
+    },
+    include: ORDER_INCLUDE,
+  })
+  return { ok: true, order: toView(order) }
+}
+
+/** Withdraw the order queued for the next world turn. False if there was none. */
+export async function cancelFactionOrder(campaignId: string, factionId: string): Promise<boolean> {
+  const turnNumber = simTurn((await currentSimulationTurn(campaignId)) + 1)
+  const { count } = await prisma.factionOrder.deleteMany({
+    where: { campaignId, factionId, turnNumber, status: 'QUEUED' },
+  })
+  return count > 0
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { extractCanonClaims } from '../canonClaims'
+
+const entities = {
+  npcs: [
+    { id: 'aldric', name: 'Aldric Vane' },
+    { id: 'bryn', name: 'Bryn' },
+    { id: 'soren', name: 'Søren Ødegård' },
+  ],
+  locations: [{ id: 'kess', name: 'Kessmark' }],
+  factions: [
+    { id: 'court', name: 'Grey Court' },
+    { id: 'crown', name: 'Iron Crown' },
+  ],
+}
+
+function claims(content: string) {
+  return extractCanonClaims([{ id: 'lore1', title: 'History', content }], entities)
+}
+
+describe('extractCanonClaims — deaths', () => {
+  it.each([
+    'Aldric Vane died in the winter of 1203.',
+    'Aldric Vane, the old regent, was slain at the gate.',
+    'Aldric Vane later perished of fever.',
+    'The death of Aldric Vane ended the regency.',
+    'Bryn killed Aldric Vane on the bridge.',
+    'Everyone mourned the late Aldric Vane.',
+  ])('reads "%s" as a death', (sentence) => {
+    expect(claims(sentence)).toEqual([expect.objectContaining({ kind: 'npc.dead', npcId: 'aldric', loreEntryId: 'lore1' })])
+  })
+
+  it.each([
+    'Aldric Vane nearly died in the winter of 1203.',
+    'Aldric Vane was never killed, despite the rumours.',
+    'Aldric Vane killed the usurper.',
+    'Aldric died in the winter.',
+    'Aldric Vanesson died in the winter.',
+  ])('does not read "%s" as Aldric Vane dying', (sentence) => {
+    expect(claims(sentence).filter((c) => c.kind === 'npc.dead' && c.npcId === 'aldric')).toEqual([])
+  })
+
+  it('does not pin a death in one sentence on a name in another', () => {
+    expect(claims('Aldric Vane rode north. Bryn died at the crossing.')).toEqual([
+      expect.objectContaining({ kind: 'npc.dead', npcId: 'bryn' }),
+    ])
+  })
+
+  it('matches unicode names on whole words', () => {
+    expect(claims('Søren Ødegård died at sea.')).toEqual([expect.objectContaining({ npcId: 'soren' })])
+  })
+
+  it('ignores names too short to be distinctive', () => {
+    const result = extractCanonClaims([{ id: 'l', title: 't', content: 'Al died.' }], { ...entities, npcs: [{ id: 'al', name: 'Al' }] })
+    expect(result).toEqual([])
+  })
+
+  it('claims once per entry, keeping the first sentence as the excerpt', () => {
+    const result = claims('Aldric Vane died young. The death of Aldric Vane was mourned.')
+    expect(result).toHaveLength(1)
+    expect(result[0].excerpt).toBe('Aldric Vane died young.')
+  })
+})
+
+describe('extractCanonClaims — ownership', () => {
+  it.each([
+    'Kessmark is ruled by the Grey Court.',
+    'Kessmark remains held by the Grey Court.',
+    'Kessmark is the capital of the Grey Court.',
+    'Kessmark belongs to the Grey Court.',
+    'The Grey Court rules Kessmark from the hill.',
+  ])('reads "%s" as the Grey Court holding Kessmark', (sentence) => {
+    expect(claims(sentence)).toEqual([
+      expect.objectContaining({ kind: 'location.owner', locationId: 'kess', factionId: 'court' }),
+    ])
+  })
+
+  it('ignores the past tense — history, not current canon', () => {
+    expect(claims('Kessmark was held by the Iron Crown until the revolt.')).toEqual([])
+  })
+
+  it('records each faction a chunk names as holding the location', () => {
+    const result = claims('Kessmark is ruled by the Grey Court. Kessmark is held by the Iron Crown.')
+    expect(result.map((c) => (c.kind === 'location.owner' ? c.factionId : null))).toEqual(['court', 'crown'])
+  })
+})
+
+describe('extractCanonClaims — excerpts', () => {
+  it('truncates a long sentence', () => {
+    const long = `Aldric Vane died ${'and the bells rang '.repeat(30)}.`
+    const [claim] = claims(long)
+    expect(claim.excerpt.length).toBeLessThanOrEqual(240)
+    expect(claim.excerpt.endsWith('…')).toBe(true)
+  })
+})
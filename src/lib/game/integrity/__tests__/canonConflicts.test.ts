@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { CANON_DEAD, locationOwnerMatchesCanon, npcAliveMatchesCanon, repairCanonConflict } from '../checks/canonConflicts'
+import { INTEGRITY_REPAIRS } from '../checkRegistry'
+import { emptySnapshot } from './testHelpers'
+
+const aldric = { id: 'npc1', name: 'Aldric Vane', isAlive: true, factionId: 'court', factionRole: 'LEADER' as const, importance: 8 }
+const court = { id: 'court', name: 'Grey Court', isActive: true, leaderCharacterId: null }
+const crown = { id: 'crown', name: 'Iron Crown', isActive: true, leaderCharacterId: null }
+
+function lore(content: string, id = 'lore1') {
+  return { id, title: 'Chronicle', content }
+}
+
+describe('npc.isAlive.matchesCanon', () => {
+  it('flags a living NPC the lore says is dead, naming the faction they lead', () => {
+    const snapshot = emptySnapshot({ npcs: [aldric], factions: [court], canonLore: [lore('Aldric Vane died at the gate.')] })
+    const [violation] = npcAliveMatchesCanon.run(snapshot)
+    expect(violation).toMatchObject({ entityType: 'NPC', entityId: 'npc1' })
+    expect(violation.description).toContain('leading Grey Court')
+    expect(violation.canon).toEqual({ value: CANON_DEAD, loreEntryId: 'lore1', loreTitle: 'Chronicle', excerpt: 'Aldric Vane died at the gate.' })
+  })
+
+  it('is quiet when the sim already has them dead', () => {
+    const snapshot = emptySnapshot({ npcs: [{ ...aldric, isAlive: false }], canonLore: [lore('Aldric Vane died.')] })
+    expect(npcAliveMatchesCanon.run(snapshot)).toEqual([])
+  })
+
+  it('reports an NPC once however many entries say so', () => {
+    const snapshot = emptySnapshot({
+      npcs: [aldric],
+      canonLore: [lore('Aldric Vane died.'), lore('The death of Aldric Vane.', 'lore2')],
+    })
+    expect(npcAliveMatchesCanon.run(snapshot)).toHaveLength(1)
+  })
+
+  it('is quiet about a divergence an admin ruled intended', () => {
+    const snapshot = emptySnapshot({
+      npcs: [aldric],
+      canonLore: [lore('Aldric Vane died.')],
+      intendedDivergences: [{ checkKey: 'npc.isAlive.matchesCanon', entityId: 'npc1', canonValue: CANON_DEAD }],
+    })
+    expect(npcAliveMatchesCanon.run(snapshot)).toEqual([])
+  })
+})
+
+describe('location.ownerFactionId.matchesCanon', () => {
+  const kessmark = { id: 'loc1', name: 'Kessmark', ownerFactionId: 'crown' }
+
+  it('flags a location the lore gives to another faction', () => {
+    const snapshot = emptySnapshot({
+      locations: [kessmark],
+      factions: [court, crown],
+      canonLore: [lore('Kessmark is ruled by the Grey Court.')],
+    })
+    const [violation] = locationOwnerMatchesCanon.run(snapshot)
+    expect(violation).toMatchObject({ entityType: 'LOCATION', entityId: 'loc1', canon: expect.objectContaining({ value: 'court' }) })
+    expect(violation.description).toContain('held by Iron Crown')
+  })
+
+  it('says so when the sim has no owner at all', () => {
+    const snapshot = emptySnapshot({
+      locations: [{ ...kessmark, ownerFactionId: null }],
+      factions: [court],
+      canonLore: [lore('Kessmark is ruled by the Grey Court.')],
+    })
+    expect(locationOwnerMatchesCanon.run(snapshot)[0].description).toContain('held by no faction')
+  })
+
+  it('accepts the sim matching any of self-contradicting lore', () => {
+    const snapshot = emptySnapshot({
+      locations: [kessmark],
+      factions: [court, crown],
+      canonLore: [lore('Kessmark is ruled by the Grey Court.'), lore('Kessmark is held by the Iron Crown.', 'lore2')],
+    })
+    expect(locationOwnerMatchesCanon.run(snapshot)).toEqual([])
+  })
+
+  it('is quiet about a divergence an admin ruled intended, but not about a different claim', () => {
+    const snapshot = emptySnapshot({
+      locations: [{ ...kessmark, ownerFactionId: null }],
+      factions: [court, crown],
+      canonLore: [lore('Kessmark is ruled by the Grey Court. The Iron Crown holds Kessmark.')],
+      intendedDivergences: [{ checkKey: 'location.ownerFactionId.matchesCanon', entityId: 'loc1', canonValue: 'court' }],
+    })
+    expect(locationOwnerMatchesCanon.run(snapshot).map((v) => v.canon?.value)).toEqual(['crown'])
+  })
+})
+
+describe('repairCanonConflict', () => {
+  it('kills the NPC', () => {
+    const snapshot = emptySnapshot({ npcs: [aldric], canonLore: [lore('Aldric Vane died.')] })
+    const [violation] = npcAliveMatchesCanon.run(snapshot)
+    expect(repairCanonConflict(violation, snapshot)).toMatchObject({
+      field: 'isAlive',
+      newValue: 'dead',
+      write: { model: 'nPC', id: 'npc1', data: { isAlive: false } },
+    })
+  })
+
+  it("hands the location to canon's faction", () => {
+    const snapshot = emptySnapshot({
+      locations: [{ id: 'loc1', name: 'Kessmark', ownerFactionId: 'crown' }],
+      factions: [court, crown],
+      canonLore: [lore('Kessmark is ruled by the Grey Court.')],
+    })
+    const [violation] = locationOwnerMatchesCanon.run(snapshot)
+    expect(repairCanonConflict(violation, snapshot)).toMatchObject({
+      previousValue: 'Iron Crown',
+      newValue: 'Grey Court',
+      write: { model: 'location', id: 'loc1', data: { ownerFactionId: 'court' } },
+    })
+  })
+
+  it('declines a violation with no canon evidence', () => {
+    expect(
+      repairCanonConflict(
+        { checkKey: 'npc.isAlive.matchesCanon', entityType: 'NPC', entityId: 'npc1', entityName: 'A', description: '' },
+        emptySnapshot()
+      )
+    ).toBeNull()
+  })
+
+  it('is never registered for the tick to apply', () => {
+    expect(INTEGRITY_REPAIRS['npc.isAlive.matchesCanon']).toBeUndefined()
+    expect(INTEGRITY_REPAIRS['location.ownerFactionId.matchesCanon']).toBeUndefined()
+  })
+})
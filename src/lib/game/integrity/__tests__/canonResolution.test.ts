@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const prisma = vi.hoisted(() => ({
+  nPC: { update: vi.fn(async () => ({})) },
+  location: { update: vi.fn(async () => ({})) },
+  canonDivergence: { upsert: vi.fn(async () => ({})) },
+}))
+const loadIntegritySnapshot = vi.hoisted(() => vi.fn())
+const persistWorldEvents = vi.hoisted(() => vi.fn(async () => ({ count: 1, events: [] })))
+const logSignificantChanges = vi.hoisted(() => vi.fn(async () => 0))
+const syncWikiEntriesForChanges = vi.hoisted(() => vi.fn(async () => undefined))
+
+vi.mock('@/lib/prisma', () => ({ prisma }))
+vi.mock('../snapshot', () => ({ loadIntegritySnapshot }))
+vi.mock('../../tick/simulationClock', () => ({ currentSimulationTurn: vi.fn(async () => 12) }))
+vi.mock('../../tick/worldEventLog', () => ({ persistWorldEvents }))
+vi.mock('../../tick/historyLog', () => ({ logSignificantChanges }))
+vi.mock('../../tick/wikiSync', () => ({ syncWikiEntriesForChanges }))
+
+import { ruleOnCanonConflict } from '../canonResolution'
+import { emptySnapshot } from './testHelpers'
+
+const aldric = { id: 'npc1', name: 'Aldric Vane', isAlive: true, factionId: null, factionRole: null, importance: 5 }
+const dead = { checkKey: 'npc.isAlive.matchesCanon', entityId: 'npc1', canonValue: 'dead' }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  loadIntegritySnapshot.mockResolvedValue(
+    emptySnapshot({ npcs: [aldric], canonLore: [{ id: 'lore1', title: 'Chronicle', content: 'Aldric Vane died at the gate.' }] })
+  )
+})
+
+describe('ruleOnCanonConflict', () => {
+  it('records an intended divergence without touching the world', async () => {
+    const result = await ruleOnCanonConflict('camp1', 'admin1', { ...dead, ruling: 'INTENDED', note: ' players saved him ' })
+
+    expect(result).toEqual({ ok: true, resolution: 'INTENDED', change: null })
+    expect(prisma.nPC.update).not.toHaveBeenCalled()
+    expect(persistWorldEvents).not.toHaveBeenCalled()
+    expect(prisma.canonDivergence.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({
+          campaignId: 'camp1',
+          ...dead,
+          resolution: 'INTENDED',
+          note: 'players saved him',
+          loreEntryId: 'lore1',
+          excerpt: 'Aldric Vane died at the gate.',
+          resolvedById: 'admin1',
+        }),
+      })
+    )
+  })
+
+  it('fixes the sim, recording the change as world history on the simulation clock', async () => {
+    const result = await ruleOnCanonConflict('camp1', 'admin1', { ...dead, ruling: 'FIX' })
+
+    expect(result).toMatchObject({ ok: true, resolution: 'FIXED', change: { entityId: 'npc1', field: 'isAlive', origin: 'integrity' } })
+    expect(prisma.nPC.update).toHaveBeenCalledWith({ where: { id: 'npc1' }, data: { isAlive: false } })
+    expect(persistWorldEvents).toHaveBeenCalledWith('camp1', 12, [expect.objectContaining({ checkKey: 'npc.isAlive.matchesCanon' })])
+    expect(logSignificantChanges).toHaveBeenCalled()
+    expect(syncWikiEntriesForChanges).toHaveBeenCalled()
+    expect(prisma.canonDivergence.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: expect.objectContaining({ resolution: 'FIXED' }) })
+    )
+  })
+
+  it('refuses a conflict that is no longer open', async () => {
+    loadIntegritySnapshot.mockResolvedValue(emptySnapshot({ npcs: [{ ...aldric, isAlive: false }] }))
+    const result = await ruleOnCanonConflict('camp1', 'admin1', { ...dead, ruling: 'FIX' })
+
+    expect(result).toMatchObject({ ok: false, status: 409 })
+    expect(prisma.nPC.update).not.toHaveBeenCalled()
+    expect(prisma.canonDivergence.upsert).not.toHaveBeenCalled()
+  })
+
+  it('refuses a claim the lore does not make', async () => {
+    const result = await ruleOnCanonConflict('camp1', 'admin1', { ...dead, canonValue: 'exiled', ruling: 'INTENDED' })
+    expect(result).toMatchObject({ ok: false, status: 409 })
+  })
+
+  it('refuses a check that is not a canon check', async () => {
+    const result = await ruleOnCanonConflict('camp1', 'admin1', { ...dead, checkKey: 'npc.name.unique', ruling: 'INTENDED' })
+    expect(result).toMatchObject({ ok: false, status: 400 })
+    expect(loadIntegritySnapshot).not.toHaveBeenCalled()
+  })
+})
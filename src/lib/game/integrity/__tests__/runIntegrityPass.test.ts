@@ -14,6 +14,9 @@ const db = vi.hoisted(() => ({
   npcTie: { findMany: vi.fn(async (): Promise<any[]> => []) },
   factionTie: { findMany: vi.fn(async (): Promise<any[]> => []) },
   worldEvent: { findMany: vi.fn(async (): Promise<any[]> => []) },
+  // Canon conflicts: candidate lore chunks and intended divergences.
+  $queryRaw: vi.fn(async (): Promise<any[]> => []),
+  canonDivergence: { findMany: vi.fn(async (): Promise<any[]> => []) },
 }))
 
 import { runIntegrityPass } from '../runIntegrityPass'
@@ -33,6 +36,8 @@ beforeEach(() => {
   db.npcTie.findMany.mockResolvedValue([])
   db.factionTie.findMany.mockResolvedValue([])
   db.worldEvent.findMany.mockResolvedValue([])
+  db.$queryRaw.mockResolvedValue([])
+  db.canonDivergence.findMany.mockResolvedValue([])
 })
 
 describe('runIntegrityPass — a clean campaign', () => {
@@ -43,6 +48,34 @@ describe('runIntegrityPass — a clean campaign', () => {
   })
 })
 
+describe('runIntegrityPass — a canon conflict', () => {
+  it('reports it unrepaired and writes nothing — a ruling is an admin\'s, not the tick\'s', async () => {
+    db.nPC.findMany.mockResolvedValue([
+      { id: 'npc1', name: 'Aldric Vane', isAlive: true, factionId: null, factionRole: null, importance: 5 },
+    ])
+    db.$queryRaw.mockResolvedValue([{ id: 'lore1', title: 'Aldric Vane', content: 'Aldric Vane died at the Siege of Kessmark.' }])
+
+    const { changes, report } = await runIntegrityPass(db as any, 'camp1', 5)
+
+    expect(report.unrepaired).toEqual([
+      expect.objectContaining({ checkKey: 'npc.isAlive.matchesCanon', entityId: 'npc1', canon: expect.objectContaining({ value: 'dead', loreEntryId: 'lore1' }) }),
+    ])
+    expect(changes).toHaveLength(0)
+    expect(db.nPC.update).not.toHaveBeenCalled()
+  })
+
+  it('stays quiet about a conflict an admin ruled intended', async () => {
+    db.nPC.findMany.mockResolvedValue([
+      { id: 'npc1', name: 'Aldric Vane', isAlive: true, factionId: null, factionRole: null, importance: 5 },
+    ])
+    db.$queryRaw.mockResolvedValue([{ id: 'lore1', title: 'Aldric Vane', content: 'Aldric Vane died at the Siege of Kessmark.' }])
+    db.canonDivergence.findMany.mockResolvedValue([{ checkKey: 'npc.isAlive.matchesCanon', entityId: 'npc1', canonValue: 'dead' }])
+
+    const { report } = await runIntegrityPass(db as any, 'camp1', 5)
+    expect(report.violationsFound).toBe(0)
+  })
+})
+
 describe('runIntegrityPass — a repairable violation', () => {
   it('applies the repair and emits a WorldChange', async () => {
     db.character.findMany.mockResolvedValue([
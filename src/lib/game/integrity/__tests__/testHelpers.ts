@@ -10,6 +10,7 @@ export function emptySnapshot(overrides: Partial<IntegritySnapshot> = {}): Integ
     campaignId: 'camp1',
     turnNumber: 5,
     locationIds: new Set(),
+    locations: [],
     npcs: [],
     factions: [],
     characters: [],
@@ -21,6 +22,8 @@ export function emptySnapshot(overrides: Partial<IntegritySnapshot> = {}): Integ
     npcTies: [],
     factionTies: [],
     worldRules: null,
+    canonLore: [],
+    intendedDivergences: [],
     ...overrides,
   }
 }
@@ -30,5 +30,8 @@ export async function applyRepairWrite(db: Db, write: RepairWrite): Promise<void
     case 'war':
       await db.war.update({ where: { id: write.id }, data: write.data })
       return
+    case 'location':
+      await db.location.update({ where: { id: write.id }, data: write.data })
+      return
   }
 }
@@ -0,0 +1,163 @@
+// src/lib/game/integrity/canonClaims.ts
+// What imported lore asserts about the simulation's own entities, read
+// deterministically — no AI call, matching the tick's zero-AI boundary
+// (tick/__tests__/zeroAiBoundary.test.ts), since the integrity pass runs
+// inside it. Pure: lore text and entity names in, claims out.
+//
+// Deliberately narrow. Two claim shapes, each a pattern anchored on a name
+// the simulation already has, in the present tense ("Kessmark is ruled by
+// the Grey Court") or as a completed death ("Aldric Vane died", "the death
+// of Aldric Vane"). A wiki is full of history — "the city was held by the
+// Empire until the revolt" — and reading past tense as current canon would
+// bury the real conflicts under ones the lore itself already resolved. A
+// missed claim costs a finding nobody sees; a false one costs an admin's
+// trust in every finding after it, so every ambiguity here falls toward
+// missing.
+//
+// Full names only: lore saying "Aldric died" doesn't match an NPC named
+// "Aldric Vane". Matching a first name alone would pin one character's
+// death on every namesake the wiki mentions.
+
+/** Words the claim patterns below need in a chunk before it's worth
+ * scanning. snapshot.ts prefilters lore with these through the
+ * `searchVector` GIN index (the 'simple' config, so no stemming — every
+ * inflection the patterns accept is listed). */
+export const CANON_CLAIM_TERMS: readonly string[] = [
+  'died', 'dies', 'dead', 'death', 'killed', 'slain', 'executed', 'murdered',
+  'assassinated', 'perished', 'late',
+  'ruled', 'controlled', 'held', 'governed', 'occupied', 'belongs', 'capital', 'seat',
+  'rules', 'controls', 'holds', 'governs', 'occupies',
+]
+
+/** Names shorter than this are too likely to be a common word. Same floor
+ * as hybridRetrieval.ts's roster match. */
+const MIN_NAME_LENGTH = 3
+
+/** Characters of sentence kept around a claim, for the admin to judge it by. */
+const MAX_EXCERPT_LENGTH = 240
+
+export interface CanonLoreEntry {
+  id: string
+  title: string
+  content: string
+}
+
+export type CanonClaim =
+  | { kind: 'npc.dead'; npcId: string; loreEntryId: string; loreTitle: string; excerpt: string }
+  | { kind: 'location.owner'; locationId: string; factionId: string; loreEntryId: string; loreTitle: string; excerpt: string }
+
+interface NamedEntity {
+  id: string
+  name: string
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** A name as a whole-word, whitespace-tolerant pattern source. Unicode-
+ * aware boundaries, since `\b` is ASCII-only and names often aren't. */
+function namePattern(name: string): string {
+  const body = name.trim().split(/\s+/).map(escapeRegExp).join('\\s+')
+  return `(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`
+}
+
+function splitSentences(content: string): string[] {
+  return content
+    .split(/(?<=[.!?;])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean)
+}
+
+function excerptOf(sentence: string): string {
+  return sentence.length > MAX_EXCERPT_LENGTH ? `${sentence.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : sentence
+}
+
+function firstWord(name: string): string {
+  return name.trim().split(/\s+/)[0].toLowerCase()
+}
+
+function usable(entities: NamedEntity[]): NamedEntity[] {
+  return entities.filter((e) => e.name.trim().length >= MIN_NAME_LENGTH)
+}
+
+// "<name>[, an appositive,] [adverb] died" — one optional adverb so
+// "later died" reads, but not "nearly died" ("never died" and "was not
+// killed" already fail: the verb has to follow directly).
+const DEATH_AFTER =
+  '(?:\\s*,[^,.;!?]{1,60},)?\\s+(?:(?:later|eventually|soon|(?!nearly\\b)[a-z]+ly)\\s+)?' +
+  '(?:died|perished|was\\s+(?:killed|slain|executed|murdered|assassinated)|is\\s+(?:dead|deceased))\\b'
+// "death of <name>", "the late <name>", "<someone> killed <name>".
+const DEATH_BEFORE = '\\b(?:death\\s+of|the\\s+late|killed|slew|murdered|assassinated|executed)\\s+(?:the\\s+)?'
+
+const OWNER_PASSIVE = '\\s+(?:is|are|remains)\\s+(?:still\\s+)?(?:ruled|controlled|held|governed|occupied)\\s+by\\s+(?:the\\s+)?'
+const OWNER_BELONGS = '\\s+(?:belongs\\s+to|is\\s+the\\s+(?:capital|seat)\\s+of)\\s+(?:the\\s+)?'
+const OWNER_ACTIVE = '\\s+(?:rules|controls|holds|governs|occupies)\\s+(?:the\\s+)?'
+
+/**
+ * Every claim the lore makes about the given entities. One claim per
+ * (entry, entity, claimed value) — a chunk repeating itself doesn't count
+ * twice, but two chunks asserting the same thing both appear, so the
+ * report can cite the first.
+ */
+export function extractCanonClaims(
+  lore: CanonLoreEntry[],
+  entities: { npcs: NamedEntity[]; locations: NamedEntity[]; factions: NamedEntity[] }
+): CanonClaim[] {
+  const npcs = usable(entities.npcs).map((npc) => {
+    const name = namePattern(npc.name)
+    return {
+      npc,
+      needle: firstWord(npc.name),
+      pattern: new RegExp(`(?:${name}${DEATH_AFTER})|(?:${DEATH_BEFORE}${name})`, 'iu'),
+    }
+  })
+  const factions = usable(entities.factions).map((f) => ({ faction: f, name: namePattern(f.name) }))
+  const locations = usable(entities.locations).map((loc) => {
+    const name = namePattern(loc.name)
+    return {
+      location: loc,
+      patterns: factions.map(({ faction, name: factionName }) => ({
+        faction,
+        pattern: new RegExp(
+          `(?:${name}(?:${OWNER_PASSIVE}|${OWNER_BELONGS})${factionName})|(?:${factionName}${OWNER_ACTIVE}${name})`,
+          'iu'
+        ),
+      })),
+      needle: firstWord(loc.name),
+    }
+  })
+
+  const claims: CanonClaim[] = []
+  for (const entry of lore) {
+    const seen = new Set<string>()
+    for (const sentence of splitSentences(entry.content)) {
+      // A substring test first: most sentences name nobody, and it's far
+      // cheaper than running every name's pattern over each of them.
+      const lower = sentence.toLowerCase()
+      for (const { npc, needle, pattern } of npcs) {
+        const key = `npc:${npc.id}`
+        if (seen.has(key) || !lower.includes(needle) || !pattern.test(sentence)) continue
+        seen.add(key)
+        claims.push({ kind: 'npc.dead', npcId: npc.id, loreEntryId: entry.id, loreTitle: entry.title, excerpt: excerptOf(sentence) })
+      }
+      for (const { location, patterns, needle } of locations) {
+        if (!lower.includes(needle)) continue
+        for (const { faction, pattern } of patterns) {
+          const key = `loc:${location.id}:${faction.id}`
+          if (seen.has(key) || !pattern.test(sentence)) continue
+          seen.add(key)
+          claims.push({
+            kind: 'location.owner',
+            locationId: location.id,
+            factionId: faction.id,
+            loreEntryId: entry.id,
+            loreTitle: entry.title,
+            excerpt: excerptOf(sentence),
+          })
+        }
+      }
+    }
+  }
+  return claims
+}
@@ -0,0 +1,107 @@
+// src/lib/game/integrity/canonResolution.ts
+// An admin's ruling on a canon conflict (checks/canonConflicts.ts): the
+// campaign left canon on purpose, or the simulation should be put back.
+//
+// The ruling is checked against a fresh integrity snapshot, not against
+// whatever the panel was showing. The report an admin reads can be a
+// world turn old; by now the NPC may have died in play or the lore been
+// re-synced, and a ruling on a conflict that no longer exists would either
+// suppress nothing or "fix" something already fixed. Re-running the same
+// check the tick runs means there is one definition of "this conflict is
+// open", not two.
+
+import { prisma } from '@/lib/prisma'
+import { simTurn } from '@/lib/game/turnClock'
+import { currentSimulationTurn } from '../tick/simulationClock'
+import { persistWorldEvents } from '../tick/worldEventLog'
+import { logSignificantChanges } from '../tick/historyLog'
+import { syncWikiEntriesForChanges } from '../tick/wikiSync'
+import { WorldChange } from '../tick/types'
+import { CANON_CONFLICT_CHECKS, repairCanonConflict } from './checks/canonConflicts'
+import { loadIntegritySnapshot } from './snapshot'
+import { applyRepairWrite } from './applyRepairWrite'
+import { repairToWorldChange } from './types'
+
+export type CanonRuling = 'INTENDED' | 'FIX'
+
+export interface CanonRulingInput {
+  checkKey: string
+  entityId: string
+  canonValue: string
+  ruling: CanonRuling
+  note?: string
+}
+
+export type CanonRulingResult =
+  | { ok: true; resolution: 'INTENDED' | 'FIXED'; change: WorldChange | null }
+  | { ok: false; status: 400 | 409; error: string }
+
+export const CANON_CHECK_KEYS: ReadonlySet<string> = new Set(CANON_CONFLICT_CHECKS.map((c) => c.key))
+
+export async function ruleOnCanonConflict(
+  campaignId: string,
+  userId: string,
+  input: CanonRulingInput
+): Promise<CanonRulingResult> {
+  const check = CANON_CONFLICT_CHECKS.find((c) => c.key === input.checkKey)
+  if (!check) {
+    return { ok: false, status: 400, error: `Not a canon check: ${input.checkKey}` }
+  }
+
+  const turnNumber = await currentSimulationTurn(campaignId)
+  const snapshot = await loadIntegritySnapshot(prisma, campaignId, turnNumber)
+  const violation = check
+    .run(snapshot)
+    .find((v) => v.entityId === input.entityId && v.canon?.value === input.canonValue)
+  if (!violation?.canon) {
+    return { ok: false, status: 409, error: 'This conflict is no longer open — the simulation or the lore has changed since the report' }
+  }
+
+  let change: WorldChange | null = null
+  if (input.ruling === 'FIX') {
+    const repair = repairCanonConflict(violation, snapshot)
+    if (!repair) {
+      return { ok: false, status: 409, error: 'This conflict has no fix the simulation can apply' }
+    }
+    await applyRepairWrite(prisma, repair.write)
+    change = repairToWorldChange(repair, campaignId)
+  }
+
+  const resolution = input.ruling === 'FIX' ? 'FIXED' : 'INTENDED'
+  const note = input.note?.trim() || null
+  const { loreEntryId, excerpt } = violation.canon
+  await prisma.canonDivergence.upsert({
+    where: {
+      campaignId_checkKey_entityId_canonValue: {
+        campaignId,
+        checkKey: input.checkKey,
+        entityId: input.entityId,
+        canonValue: input.canonValue,
+      },
+    },
+    create: {
+      campaignId,
+      checkKey: input.checkKey,
+      entityId: input.entityId,
+      canonValue: input.canonValue,
+      resolution,
+      note,
+      loreEntryId,
+      excerpt,
+      resolvedById: userId,
+    },
+    update: { resolution, note, loreEntryId, excerpt, resolvedById: userId },
+  })
+
+  // A fix is a real change to the world, so it reaches history the way a
+  // scene consequence does (consequences.ts) — the event log, campaign
+  // memory, and the wiki.
+  if (change) {
+    const eventTurn = simTurn(turnNumber)
+    await persistWorldEvents(campaignId, eventTurn, [change])
+    await logSignificantChanges(campaignId, eventTurn, [change])
+    await syncWikiEntriesForChanges(campaignId, eventTurn, [change])
+  }
+
+  return { ok: true, resolution, change }
+}
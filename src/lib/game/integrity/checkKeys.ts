@@ -31,3 +31,5 @@ export type CheckKey =
   | 'npc.name.unique'
   | 'faction.name.unique'
   | 'quest.name.unique'
+  | 'npc.isAlive.matchesCanon'
+  | 'location.ownerFactionId.matchesCanon'
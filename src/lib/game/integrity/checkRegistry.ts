@@ -14,6 +14,7 @@ import {
 } from './checks/factionLeadership'
 import { DUPLICATE_NAME_CHECKS } from './checks/duplicateNames'
 import { factionRelationshipsAreSymmetric } from './checks/factionRelationshipSymmetry'
+import { CANON_CONFLICT_CHECKS } from './checks/canonConflicts'
 import { IntegrityCheck, RepairFn } from './types'
 
 export const INTEGRITY_CHECKS: IntegrityCheck[] = [
@@ -24,6 +25,9 @@ export const INTEGRITY_CHECKS: IntegrityCheck[] = [
   // #403: detect-only. Repairing an asymmetry means choosing which side
   // is right, and there is no general answer — see the check's own header.
   factionRelationshipsAreSymmetric,
+  // Detect-only: whether the sim or the lore is right is an admin's ruling
+  // (integrity/canonResolution.ts), never the tick's.
+  ...CANON_CONFLICT_CHECKS,
 ]
 
 /** checkKey -> repair function. A check with no entry is detect-only by
@@ -61,8 +61,9 @@ export const CHECK_SEVERITY: Partial<Record<CheckKey, number>> = {
   'debt.counterpartyId.resolves': 2,
 
   // Detect-only checkKeys (clock.sourceFactionId.active, the three
-  // *.name.unique checks) have no entry in INTEGRITY_REPAIRS at all, so
-  // they never compete for the repair budget regardless of severity —
+  // *.name.unique checks, the two *.matchesCanon checks, whose repair only
+  // ever runs on an admin's ruling) have no entry in INTEGRITY_REPAIRS at
+  // all, so they never compete for the repair budget regardless of severity —
   // deliberately left unranked here rather than given a number that would
   // never actually matter.
 }
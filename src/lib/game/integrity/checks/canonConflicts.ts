@@ -0,0 +1,172 @@
+// src/lib/game/integrity/checks/canonConflicts.ts
+// Imported lore and the simulation drift apart silently: the wiki says a
+// character died while the sim has them leading a faction, or a city
+// belongs to one power while Location.ownerFactionId says another. These
+// checks cross-reference what the lore asserts (canonClaims.ts) against
+// the snapshot and report every disagreement.
+//
+// Detect-only, and not because a repair is hard to write — one is, below.
+// A canon universe that has left canon may have done so on purpose: the
+// players saved the character the books killed. Which side is right is a
+// ruling, so it's made by an admin (integrity/canonResolution.ts), either
+// "the sim diverged on purpose" — recorded as a CanonDivergence and never
+// reported again — or "fix the sim", which applies repairCanonConflict.
+// Nothing here is registered in INTEGRITY_REPAIRS, so no tick ever
+// applies it unasked.
+//
+// One direction only. Lore reads as "X died" far more reliably than it
+// reads as "X is alive", so a character the sim killed whom canon keeps
+// alive isn't detected — see canonClaims.ts for why the patterns stay
+// narrow.
+
+import { CanonClaim, extractCanonClaims } from '../canonClaims'
+import { CanonEvidence, IntegrityCheck, IntegritySnapshot, Repair, RepairFn, Violation } from '../types'
+import { CheckKey } from '../checkKeys'
+
+/** The canonValue recorded for an npc.isAlive.matchesCanon claim. */
+export const CANON_DEAD = 'dead'
+
+// Both checks read the same claims; extracting them is the expensive part
+// (every NPC and location name against every candidate sentence), so it
+// happens once per snapshot rather than once per check.
+const claimsBySnapshot = new WeakMap<IntegritySnapshot, CanonClaim[]>()
+
+function claimsFor(snapshot: IntegritySnapshot): CanonClaim[] {
+  let claims = claimsBySnapshot.get(snapshot)
+  if (!claims) {
+    claims =
+      snapshot.canonLore.length === 0
+        ? []
+        : extractCanonClaims(snapshot.canonLore, {
+            npcs: snapshot.npcs,
+            locations: snapshot.locations,
+            factions: snapshot.factions,
+          })
+    claimsBySnapshot.set(snapshot, claims)
+  }
+  return claims
+}
+
+function isIntended(snapshot: IntegritySnapshot, checkKey: CheckKey, entityId: string, canonValue: string): boolean {
+  return snapshot.intendedDivergences.some(
+    (d) => d.checkKey === checkKey && d.entityId === entityId && d.canonValue === canonValue
+  )
+}
+
+function evidence(claim: CanonClaim, value: string): CanonEvidence {
+  return { value, loreEntryId: claim.loreEntryId, loreTitle: claim.loreTitle, excerpt: claim.excerpt }
+}
+
+export const npcAliveMatchesCanon: IntegrityCheck = {
+  key: 'npc.isAlive.matchesCanon' satisfies CheckKey,
+  description: 'An NPC imported lore says is dead should not be alive in the simulation',
+  run(snapshot: IntegritySnapshot): Violation[] {
+    const violations: Violation[] = []
+    const reported = new Set<string>()
+    for (const claim of claimsFor(snapshot)) {
+      if (claim.kind !== 'npc.dead' || reported.has(claim.npcId)) continue
+      const npc = snapshot.npcs.find((n) => n.id === claim.npcId)
+      if (!npc || !npc.isAlive) continue
+      if (isIntended(snapshot, 'npc.isAlive.matchesCanon', npc.id, CANON_DEAD)) continue
+      reported.add(npc.id)
+
+      const led = npc.factionRole === 'LEADER' ? snapshot.factions.find((f) => f.id === npc.factionId) : undefined
+      violations.push({
+        checkKey: 'npc.isAlive.matchesCanon',
+        entityType: 'NPC',
+        entityId: npc.id,
+        entityName: npc.name,
+        description:
+          `Lore ("${claim.loreTitle}") says ${npc.name} is dead, but the simulation has them alive` +
+          (led ? ` and leading ${led.name}` : ''),
+        canon: evidence(claim, CANON_DEAD),
+      })
+    }
+    return violations
+  },
+}
+
+export const locationOwnerMatchesCanon: IntegrityCheck = {
+  key: 'location.ownerFactionId.matchesCanon' satisfies CheckKey,
+  description: 'A location imported lore says a faction holds should be held by that faction in the simulation',
+  run(snapshot: IntegritySnapshot): Violation[] {
+    const claimsByLocation = new Map<string, Array<Extract<CanonClaim, { kind: 'location.owner' }>>>()
+    for (const claim of claimsFor(snapshot)) {
+      if (claim.kind !== 'location.owner') continue
+      const group = claimsByLocation.get(claim.locationId) ?? []
+      group.push(claim)
+      claimsByLocation.set(claim.locationId, group)
+    }
+
+    const violations: Violation[] = []
+    for (const [locationId, claims] of claimsByLocation) {
+      const location = snapshot.locations.find((l) => l.id === locationId)
+      if (!location) continue
+      // Lore that contradicts itself (one page says the Court, another the
+      // Crown) is satisfied by either: the sim agreeing with any of canon's
+      // own accounts hasn't left canon.
+      if (claims.some((c) => c.factionId === location.ownerFactionId)) continue
+
+      const owner = snapshot.factions.find((f) => f.id === location.ownerFactionId)
+      const reported = new Set<string>()
+      for (const claim of claims) {
+        if (reported.has(claim.factionId)) continue
+        reported.add(claim.factionId)
+        if (isIntended(snapshot, 'location.ownerFactionId.matchesCanon', location.id, claim.factionId)) continue
+        const claimed = snapshot.factions.find((f) => f.id === claim.factionId)
+        if (!claimed) continue
+        violations.push({
+          checkKey: 'location.ownerFactionId.matchesCanon',
+          entityType: 'LOCATION',
+          entityId: location.id,
+          entityName: location.name,
+          description:
+            `Lore ("${claim.loreTitle}") says ${location.name} is held by ${claimed.name}, ` +
+            `but the simulation has it ${owner ? `held by ${owner.name}` : 'held by no faction'}`,
+          canon: evidence(claim, claim.factionId),
+        })
+      }
+    }
+    return violations
+  },
+}
+
+export const CANON_CONFLICT_CHECKS: IntegrityCheck[] = [npcAliveMatchesCanon, locationOwnerMatchesCanon]
+
+/**
+ * "Fix the sim": bring the entity in line with what canon claims. Same
+ * pure, declarative Repair every registered repair returns, so the write
+ * and its WorldEvent go through the same path — but only ever called from
+ * an admin's ruling, never from a tick (see this file's header).
+ */
+export const repairCanonConflict: RepairFn = (violation, snapshot): Repair | null => {
+  if (!violation.canon) return null
+
+  if (violation.checkKey === 'npc.isAlive.matchesCanon') {
+    return {
+      violation,
+      field: 'isAlive',
+      previousValue: 'alive',
+      newValue: 'dead',
+      description: `${violation.entityName} is dead, matching canon ("${violation.canon.loreTitle}")`,
+      write: { model: 'nPC', id: violation.entityId, data: { isAlive: false } },
+    }
+  }
+
+  if (violation.checkKey === 'location.ownerFactionId.matchesCanon') {
+    const location = snapshot.locations.find((l) => l.id === violation.entityId)
+    const faction = snapshot.factions.find((f) => f.id === violation.canon?.value)
+    if (!location || !faction) return null
+    const owner = snapshot.factions.find((f) => f.id === location.ownerFactionId)
+    return {
+      violation,
+      field: 'ownerFactionId',
+      previousValue: owner?.name ?? '(none)',
+      newValue: faction.name,
+      description: `${location.name} is held by ${faction.name}, matching canon ("${violation.canon.loreTitle}")`,
+      write: { model: 'location', id: location.id, data: { ownerFactionId: faction.id } },
+    }
+  }
+
+  return null
+}
@@ -11,17 +11,28 @@
 import type { Prisma, PrismaClient } from '@prisma/client'
 import { IntegritySnapshot } from './types'
 import { parseWorldRules } from './worldRules'
+import { CANON_CLAIM_TERMS, CanonLoreEntry } from './canonClaims'
 
 type Db = Prisma.TransactionClient | PrismaClient
 
+/** Upper bound on lore chunks the canon checks read in one pass. The
+ * claim-word prefilter below already drops most of a corpus; this keeps a
+ * very large import from turning every world turn's integrity pass into a
+ * full read of it. Past the cap the oldest imports win — the lore a
+ * campaign was founded on, ahead of whatever was added later. */
+export const MAX_CANON_LORE_ENTRIES = 2000
+
 export async function loadIntegritySnapshot(
   db: Db,
   campaignId: string,
   turnNumber: number
 ): Promise<IntegritySnapshot> {
-  const [campaign, locations, npcs, factions, characters, clocks, debts, wars, quests, npcTieRows, factionTieRows] = await Promise.all([
+  const [
+    campaign, locations, npcs, factions, characters, clocks, debts, wars, quests, npcTieRows, factionTieRows,
+    canonLore, intendedDivergences,
+  ] = await Promise.all([
     db.campaign.findUnique({ where: { id: campaignId }, select: { worldRules: true } }),
-    db.location.findMany({ where: { campaignId }, select: { id: true } }),
+    db.location.findMany({ where: { campaignId }, select: { id: true, name: true, ownerFactionId: true } }),
     db.nPC.findMany({
       where: { campaignId },
       select: { id: true, name: true, isAlive: true, factionId: true, factionRole: true, importance: true },
@@ -58,12 +69,28 @@ export async function loadIntegritySnapshot(
       where: { campaignId },
       select: { factionAId: true, factionBId: true, type: true, since: true },
     }),
+    // Only chunks containing a word some canon claim needs, through the
+    // hybrid-retrieval GIN index — the claim patterns (canonClaims.ts)
+    // re-check every sentence, so this only has to be a superset.
+    db.$queryRaw<CanonLoreEntry[]>`
+      SELECT id, title, content
+      FROM lore_entries
+      WHERE "campaignId" = ${campaignId}
+        AND "searchVector" @@ to_tsquery('simple', ${CANON_CLAIM_TERMS.join(' | ')})
+      ORDER BY "createdAt" ASC, id ASC
+      LIMIT ${MAX_CANON_LORE_ENTRIES}
+    `,
+    db.canonDivergence.findMany({
+      where: { campaignId, resolution: 'INTENDED' },
+      select: { checkKey: true, entityId: true, canonValue: true },
+    }),
   ])
 
   return {
     campaignId,
     turnNumber,
     locationIds: new Set(locations.map((l) => l.id)),
+    locations,
     npcs,
     factions,
     characters,
@@ -74,5 +101,7 @@ export async function loadIntegritySnapshot(
     npcTies: npcTieRows.map((r) => ({ aId: r.npcAId, bId: r.npcBId, type: r.type, since: r.since })),
     factionTies: factionTieRows.map((r) => ({ aId: r.factionAId, bId: r.factionBId, type: r.type, since: r.since })),
     worldRules: parseWorldRules(campaign?.worldRules),
+    canonLore,
+    intendedDivergences,
   }
 }
@@ -15,6 +15,7 @@
 import { TickEntityType, WorldChange } from '../tick/types'
 import { WorldRules } from './worldRules'
 import { ValidationDegradation } from './checks/validationDegradation'
+import { CanonLoreEntry } from './canonClaims'
 
 /** One fact the engine asserts must hold for every campaign, regardless of
  * setting or fiction (see integrity/checks/ for the structural-tier list;
@@ -35,6 +36,18 @@ export interface Violation {
   entityName: string
   /** Human-readable description of what's wrong, for the diagnostics panel. */
   description: string
+  /** Set only by the canon-conflict checks (checks/canonConflicts.ts): what
+   * the lore claims and where it says so — what an admin needs to rule on
+   * the finding, and the key the ruling is stored under. */
+  canon?: CanonEvidence
+}
+
+export interface CanonEvidence {
+  /** What canon asserts — 'dead', or the owning Faction's id. */
+  value: string
+  loreEntryId: string
+  loreTitle: string
+  excerpt: string
 }
 
 /** A repair is a pure, already-decided write — runIntegrityPass applies it,
@@ -73,6 +86,7 @@ export type RepairWrite =
   | { model: 'faction'; id: string; data: Record<string, unknown> }
   | { model: 'debt'; id: string; data: Record<string, unknown> }
   | { model: 'war'; id: string; data: Record<string, unknown> }
+  | { model: 'location'; id: string; data: Record<string, unknown> }
 
 /** A repair function is pure too: given a violation and the same snapshot
  * the check ran against, decide the fix (or decline — `null` means "flagged
@@ -87,6 +101,8 @@ export interface IntegritySnapshot {
   campaignId: string
   turnNumber: number
   locationIds: Set<string>
+  /** The same rows as locationIds, with what the canon checks compare. */
+  locations: SnapshotLocation[]
   npcs: SnapshotNpc[]
   factions: SnapshotFaction[]
   characters: SnapshotCharacter[]
@@ -101,6 +117,23 @@ export interface IntegritySnapshot {
   /** Phase 4 — this campaign's semantic-invariant verdicts, or null if it
    * has none yet (always a safe state; see worldRules.ts). */
   worldRules: WorldRules | null
+  /** Lore chunks that might make a claim the canon checks read — already
+   * narrowed by snapshot.ts to ones containing a claim word. */
+  canonLore: CanonLoreEntry[]
+  /** Canon conflicts an admin ruled intended; never reported again. */
+  intendedDivergences: SnapshotCanonDivergence[]
+}
+
+export interface SnapshotLocation {
+  id: string
+  name: string
+  ownerFactionId: string | null
+}
+
+export interface SnapshotCanonDivergence {
+  checkKey: string
+  entityId: string
+  canonValue: string
 }
 
 export interface SnapshotNpc {
@@ -142,6 +142,20 @@ export async function processMapGenJob(jobId: string): Promise<ProcessResult> {
       console.log(`🗺️  Pruned ${pruned} old map(s) past the per-campaign cap`)
     }
 
+    // A scene already in tactical mode whose map was (re)generated has just
+    // lost its board: regeneration replaces tokens wholesale, party
+    // included. Re-pin and re-place — best-effort, since the map itself is
+    // done and an admin can always switch tactical mode on again.
+    try {
+      const scene = await prisma.scene.findUnique({ where: { id: job.sceneId }, select: { tacticalMode: true } })
+      if (scene?.tacticalMode) {
+        const { prepareTacticalBoard } = await import('./tactical/board')
+        await prepareTacticalBoard(job.campaignId, job.sceneId)
+      }
+    } catch (boardError) {
+      console.error('Failed to set up the tactical board on the new map:', boardError)
+    }
+
     try {
       const pusher = PusherServer()
       if (pusher) {
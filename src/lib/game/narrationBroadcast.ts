@@ -0,0 +1,109 @@
+// src/lib/game/narrationBroadcast.ts
+// Fans a resolution's narration out to the table while the AI GM is still
+// writing it (see lib/ai/narrationStream.ts for the reading side).
+//
+// Sends are throttled to one Pusher message per interval: the stream
+// delivers a token every few milliseconds, and a trigger per token would
+// be thousands of messages per scene against a per-message-billed
+// service. Each message carries only what clients haven't got yet, with
+// the offset it starts at — the whole narration can outgrow Pusher's
+// 10KB message cap, a second's worth of it can't. A client that sees an
+// offset it doesn't line up with (it joined mid-stream, or missed a
+// message) just waits for scene:resolved, which carries the real thing.
+//
+// Nothing here is final. Validation can still repair or replace the prose
+// after the stream ends, and scene:resolved is what the page trusts; this
+// only fills the wait.
+
+import { prisma } from '@/lib/prisma'
+import PusherServer from '@/lib/realtime/pusher-server'
+
+export const NARRATION_BROADCAST_INTERVAL_MS = 1000
+
+export interface NarrationBroadcaster {
+  /** The narration so far — the whole of it, not a delta. */
+  push: (sceneTextSoFar: string) => void
+  /** Stop sending and wait for any send already under way. */
+  close: () => Promise<void>
+}
+
+export function createNarrationBroadcaster(
+  campaignId: string,
+  sceneId: string,
+  intervalMs: number = NARRATION_BROADCAST_INTERVAL_MS
+): NarrationBroadcaster {
+  let latest = ''
+  let sent = ''
+  let lastSentAt = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+  let inflight: Promise<void> = Promise.resolve()
+
+  const send = async () => {
+    if (stopped || latest === sent) return
+
+    // #273's X-Card re-check, moved up to every message: a pause pulled
+    // mid-stream has to stop the prose reaching screens now, not after
+    // the call ends — by then it would all have been shown. Once paused
+    // the stream stays shut; the resolution itself is discarded anyway.
+    const scene = await prisma.scene.findUnique({ where: { id: sceneId }, select: { isPaused: true } })
+    if (stopped) return
+    if (scene?.isPaused) {
+      stopped = true
+      return
+    }
+
+    const text = latest
+    const payload = text.startsWith(sent)
+      ? { offset: sent.length, text: text.slice(sent.length) }
+      // The fallback model started the narration over (see callAIGM).
+      : { offset: 0, text }
+
+    try {
+      const pusher = PusherServer()
+      if (!pusher) {
+        stopped = true
+        return
+      }
+      await pusher.trigger(`campaign-${campaignId}`, 'scene:narration', { sceneId, campaignId, ...payload })
+      sent = text
+    } catch (pusherError) {
+      // Left unsent, so the next message carries this stretch too.
+      console.error('⚠️ Failed to broadcast Pusher narration event:', pusherError)
+    }
+  }
+
+  const schedule = () => {
+    lastSentAt = Date.now()
+    inflight = inflight.then(send).catch((error) => {
+      console.error('⚠️ Narration broadcast failed:', error)
+    })
+  }
+
+  return {
+    push(sceneTextSoFar) {
+      if (stopped) return
+      latest = sceneTextSoFar
+      if (timer) return
+      const wait = lastSentAt + intervalMs - Date.now()
+      if (wait <= 0) {
+        schedule()
+        return
+      }
+      // Trailing send: the prose stops growing once the model moves on to
+      // world_updates, and its last stretch shouldn't sit unsent until then.
+      timer = setTimeout(() => {
+        timer = null
+        schedule()
+      }, wait)
+    },
+    async close() {
+      stopped = true
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
+      await inflight
+    }
+  }
+}
@@ -23,7 +23,8 @@ import { delimitPlayerText, PLAYER_TEXT_PROMPT_RULE } from '@/lib/ai/playerText'
 
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
-import { BASIC_MOVES, calculateOutcome } from '@/lib/pbta-moves'
+import { calculateOutcome, type OutcomeThresholds } from '@/lib/pbta-moves'
+import { resolveMoveSet, findMoveByName, describeThresholds, isDefaultThresholds, type MoveSet } from '@/lib/moveSets'
 import { MAX_CORRUPTION, CORRUPTION_SURGE_BONUS, hasCorruptionTheme } from './corruption'
 import { proficiencyBand, ProficiencyBand } from './capabilities'
 import { effectiveStandingModifier } from './standing'
@@ -43,7 +44,10 @@ import {
   parseZone,
   DEFAULT_ZONE,
 } from './zones'
+import { loadTacticalBoard } from './tactical/board'
+import { tacticalZoneFor } from './tactical/grid'
 import { AI_MODELS } from '@/lib/ai/models'
+import { isAIConfigured } from '@/lib/ai/providers'
 import { recordAICost, estimateTokenCount } from '@/lib/ai/cost-tracker'
 
 // ---------------------------------------------------------------------------
@@ -52,7 +56,7 @@ import { recordAICost, estimateTokenCount } from '@/lib/ai/cost-tracker'
 
 export interface ActionClassification {
   action_index: number
-  move_name: string // one of BASIC_MOVES names, or "no_roll"
+  move_name: string // one of the campaign's move-set names (lib/moveSets.ts), or "no_roll"
   stat_key: string // cool | hard | hot | sharp | weird
   capability_key: string | null // relevant capability name, if any
   // Faction whose regard is in play for social/political leverage —
@@ -151,6 +155,10 @@ export interface ActionMechanics {
   total: number
   outcome: 'strongHit' | 'weakHit' | 'miss'
   outcomeText: string // the move's band text — what this outcome MEANS
+  // The band lines this roll was judged against — the campaign's move set's
+  // (lib/moveSets.ts), so a receipt can say why an 8 was a miss in one
+  // campaign and a weak hit in another.
+  thresholds: OutcomeThresholds
 }
 
 // #213: Rng/rollD6 now live in ./rng so harm.ts and worldUpdaters/characters.ts
@@ -160,7 +168,8 @@ export interface ActionMechanics {
 export type { Rng } from './rng'
 export { rollD6 } from './rng'
 import type { Rng } from './rng'
-import { rollD6 } from './rng'
+import { rollD6, rngPosition } from './rng'
+import { claimRngStream } from './rngStream'
 
 // ---------------------------------------------------------------------------
 // Pure mechanics
@@ -374,8 +383,9 @@ export function locationConditionPenalty(conditionScore: number | null | undefin
 
 // Per-campaign display override for a canonical move (Move.baseMoveKey,
 // generated by lib/ai/moveFlavor.ts) — name/outcome text ONLY. Mechanics
-// (stat, rollType, which band a total lands in) always come from the fixed
-// BASIC_MOVES entry; flavor never participates in the math below.
+// (stat, rollType, which band a total lands in) always come from the
+// campaign's move set (lib/moveSets.ts); flavor never participates in the
+// math below.
 export interface MoveFlavorForRoll {
   name: string
   outcomes: {
@@ -434,8 +444,30 @@ export interface RollContext {
    * doesn't track positions.
    */
   sceneId?: string | null
+  /**
+   * The band the tactical board measured for this action (lib/game/
+   * tactical/grid.ts's tacticalZoneFor) — the scene is in tactical mode
+   * and the actor has a token with something to be near. When set it is
+   * the position, full stop: it beats both the stored band and a
+   * reposition the classifier read in the action text, because on a board
+   * the way to reposition is to move the token.
+   */
+  tacticalZone?: ZonePosition | null
+  /**
+   * The campaign's move set (Campaign.moveSetId, resolved through
+   * lib/moveSets.ts). Decides which moves exist, which stats each may roll
+   * and where the bands fall. Absent means the core set — every roll before
+   * move sets existed, and still the right default for a caller with no
+   * campaign row in hand.
+   */
+  moveSet?: MoveSet | null
 }
 
+// A move that weights the debt ledger (see PbtAMove.debtWeight) can push
+// debtModifier past its usual ±2. Held to the stat scale's own ±3 so one
+// ledger can never out-weigh the character's best trait plus change.
+const WEIGHTED_DEBT_CAP = 3
+
 export function computeMechanics(
   classification: ActionClassification,
   action: { id: string },
@@ -444,13 +476,20 @@ export function computeMechanics(
   context: RollContext = {}
 ): ActionMechanics | null {
   const { faction, relationship, debts, weather, moveFlavor, isContestedLocation, locationConditionScore, sceneId } = context
+  const moveSet = context.moveSet ?? resolveMoveSet(null)
   if (classification.move_name === 'no_roll') return null
-  const move = BASIC_MOVES.find(m => m.name === classification.move_name)
+  const move = findMoveByName(moveSet, classification.move_name)
   if (!move) return null
 
-  const statKey = PBTA_STAT_KEYS.includes(classification.stat_key as any)
+  // A set's stat mapping is binding: a move that only rolls Sharp rolls
+  // Sharp even when the classifier reads the fiction as Hot. The core set's
+  // moves name no mapping, so there the classifier's pick stands.
+  const classifiedStat = PBTA_STAT_KEYS.includes(classification.stat_key as any)
     ? classification.stat_key
     : 'cool'
+  const statKey = move.stats && move.stats.length > 0 && !move.stats.includes(classifiedStat as any)
+    ? move.stats[0]
+    : classifiedStat
   const statMod = Math.max(-3, Math.min(3, Number(character.stats?.[statKey]) || 0))
 
   let capabilityName: string | null = null
@@ -519,14 +558,16 @@ export function computeMechanics(
 
   // Debt leverage with whoever this action is aimed at: a favor they owe
   // you helps, one you owe them hurts. See debtModifier.
-  const debtMod = debtModifier(debts)
+  const debtWeight = move.debtWeight ?? 1
+  const debtMod = Math.max(-WEIGHTED_DEBT_CAP, Math.min(WEIGHTED_DEBT_CAP, debtModifier(debts) * debtWeight))
   const debtCounterparty = debts && debtMod !== 0 ? describeDebtLeverage(debts, debtMod) : null
 
   // Range band: where this character stands vs. how the action reaches —
-  // see rangeModifier in zones.ts. An explicit reposition in the action
-  // text wins over the carried position; a position from another scene
+  // see rangeModifier in zones.ts. On a tactical board the measured band
+  // is the position; otherwise an explicit reposition in the action text
+  // wins over the carried position, and a position from another scene
   // doesn't count.
-  const zonePosition = resolveZoneForScene({
+  const zonePosition = context.tacticalZone ?? resolveZoneForScene({
     storedZone: character.currentZone,
     storedMetadata: character.zoneMetadata,
     sceneId: sceneId || '',
@@ -564,7 +605,7 @@ export function computeMechanics(
   const harmMod = harmPenalty(character.harm)
   const dice: [number, number] = [rollD6(rng), rollD6(rng)]
   const total = dice[0] + dice[1] + statMod + capabilityMod + standingMod + relationshipMod + reflectedMod + debtMod + weatherMod + contestedMod + siteConditionMod + zoneMod + conditionMod + conditionStatMod + signatureMod + harmMod + corruptionSurgeBonus
-  const outcome = calculateOutcome(total)
+  const outcome = calculateOutcome(total, moveSet.thresholds)
   // Flavor overrides display only, and only where it actually supplied text
   // for this band — a partially-flavored move (AI omitted one outcome)
   // still falls back to the generic band text rather than showing blank.
@@ -604,6 +645,7 @@ export function computeMechanics(
     total,
     outcome,
     outcomeText,
+    thresholds: moveSet.thresholds,
   }
 }
 
@@ -611,7 +653,14 @@ export function computeMechanics(
 // AI classification (EFFICIENT model, fail-open)
 // ---------------------------------------------------------------------------
 
-const MOVE_LIST_FOR_PROMPT = BASIC_MOVES.map(m => `- "${m.name}": ${m.trigger}`).join('\n')
+// The classifier's move menu is the campaign's set, stat mapping included —
+// telling it which stats a move rolls keeps stat_key from being a pick
+// computeMechanics will only overrule.
+function moveListForPrompt(moveSet: MoveSet): string {
+  return moveSet.moves
+    .map(m => `- "${m.name}": ${m.trigger}${m.stats && m.stats.length > 0 ? ` (rolls ${m.stats.join(' or ')})` : ''}`)
+    .join('\n')
+}
 
 /**
  * #381: validate the classifier's output.
@@ -654,7 +703,7 @@ export function parseClassifications(
   // The real rosters this campaign has. Omitted means "don't re-verify",
   // which is the right degradation for callers with no roster to check
   // against — never the live path, which always has them.
-  known?: { factionNames?: string[]; npcNames?: string[] },
+  known?: { factionNames?: string[]; npcNames?: string[]; moveNames?: string[] },
   // Optional sink for what was dropped and why. Added rather than folded
   // into the return type so every existing caller keeps working unchanged;
   // the live path passes a collector, tests that only care about the
@@ -671,7 +720,9 @@ export function parseClassifications(
     return []
   }
 
-  const validMoves = new Set([...BASIC_MOVES.map(m => m.name), 'no_roll'])
+  // A move outside the campaign's set is a move that does not exist here —
+  // an intrigue campaign has no violence move to classify to.
+  const validMoves = new Set([...(known?.moveNames ?? resolveMoveSet(null).moves.map(m => m.name)), 'no_roll'])
   // Matched case-insensitively because that is how the prompt lists them
   // and how every other entity resolver in the codebase compares names,
   // but the value KEPT is the roster's, not the model's — downstream
@@ -762,7 +813,7 @@ export function parseClassifications(
  * wrong place.
  */
 export type MechanicsUnavailableReason =
-  /** OPENAI_API_KEY absent — configuration, not a fault. */
+  /** No AI provider configured (see providers.ts) — configuration, not a fault. */
   | 'no-api-key'
   /** The call itself failed: non-ok HTTP, network, or a thrown error. */
   | 'api-error'
@@ -783,10 +834,10 @@ async function classifyActions(
   factionNames: string[],
   npcNames: string[],
   campaignId: string,
-  sceneId: string
+  sceneId: string,
+  moveSet: MoveSet
 ): Promise<ClassificationAttempt> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return { classifications: [], failure: 'no-api-key', droppedFields: [] }
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return { classifications: [], failure: 'no-api-key', droppedFields: [] }
 
   const actionLines = actions
     .map((a, i) => {
@@ -812,7 +863,7 @@ async function classifyActions(
 ${PLAYER_TEXT_PROMPT_RULE}
 
 MOVES:
-${MOVE_LIST_FOR_PROMPT}
+${moveListForPrompt(moveSet)}
 - "no_roll": pure dialogue, planning, observation without pressure, or trivial activity — nothing is risked, so no dice
 
 STATS (pick the one that governs the attempt): cool (nerve/composure), hard (force/violence), hot (charm/manipulation), sharp (perception/wits), weird (the strange/supernatural).
@@ -834,11 +885,10 @@ Return JSON: {"classifications": [{"action_index": 0, "move_name": "Act Under Fi
 
   const startTime = Date.now()
   try {
-    const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+    const response = await openaiFetch('/chat/completions', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
       },
       body: JSON.stringify({
         model: AI_MODELS.EFFICIENT,
@@ -876,7 +926,7 @@ Return JSON: {"classifications": [{"action_index": 0, "move_name": "Act Under Fi
     const classifications = parseClassifications(
       JSON.parse(content),
       actions.length,
-      { factionNames, npcNames },
+      { factionNames, npcNames, moveNames: moveSet.moves.map(m => m.name) },
       (d) => droppedFields.push(d.field)
     )
     // The call worked. If nothing survived, that is the MODEL's answer being
@@ -925,16 +975,80 @@ export interface ActionMechanicsResult {
   droppedFields?: string[]
 }
 
+type PendingActionForRoll = { id: string; characterId: string; userId: string; actionText: string }
+
 export async function resolveActionMechanics(
   campaignId: string,
   sceneId: string,
-  pendingActions: Array<{ id: string; characterId: string; userId: string; actionText: string }>,
-  rng: Rng = Math.random
+  pendingActions: PendingActionForRoll[],
+  // The exchange's seeded stream (see rngStream.ts). sceneResolver claims
+  // one and passes it so the narrator's changes keep drawing from where the
+  // dice left off; omitted, this claims its own once there's something to
+  // roll. Tests pass a fixed sequence, whose receipts record no position.
+  rng?: Rng
 ): Promise<ActionMechanicsResult> {
   if (pendingActions.length === 0) return { mechanics: [], classificationUnavailable: false }
 
+  let kept: Map<string, ActionMechanics>
   try {
-    const [characterRows, factionRows, npcRows, locationRows, moveFlavorRows, campaignRow, debtRows] = await Promise.all([
+    kept = await mechanicsFromDiscardedDrafts(sceneId, pendingActions.map(a => a.id))
+  } catch (error) {
+    // Freeform rather than a fresh roll: rolling again for an action a
+    // discarded draft already rolled is exactly what this lookup prevents.
+    console.error('Action mechanics failed (failing open — freeform resolution):', error)
+    return { mechanics: [], classificationUnavailable: true, unavailableReason: 'api-error', droppedFields: [] }
+  }
+  if (kept.size === 0) return rollActionMechanics(campaignId, sceneId, pendingActions, rng)
+
+  const rolled = await rollActionMechanics(campaignId, sceneId, pendingActions.filter(a => !kept.has(a.id)), rng)
+  const order = new Map(pendingActions.map((a, i) => [a.id, i]))
+  const mechanics = [...kept.values(), ...rolled.mechanics].sort((a, b) => order.get(a.actionId)! - order.get(b.actionId)!)
+  console.log(`🎲 Kept ${kept.size} roll(s) from a discarded draft`)
+  return { ...rolled, mechanics }
+}
+
+/**
+ * The rolls a discarded GM-review draft (resolutionReview.ts) already made
+ * for these actions, newest draft first. Discarding throws the narration
+ * away, not the dice: the draft's DiceRoll receipts and each action's
+ * rollMade stamp stay, and its mechanics come back here — otherwise
+ * discarding until the dice came up right would be a free re-roll.
+ */
+async function mechanicsFromDiscardedDrafts(sceneId: string, actionIds: string[]): Promise<Map<string, ActionMechanics>> {
+  const kept = new Map<string, ActionMechanics>()
+  const drafts = await prisma.resolutionReview.findMany({
+    where: { sceneId, status: 'DISCARDED' },
+    orderBy: { createdAt: 'desc' },
+    select: { aiRequest: true },
+  })
+  if (drafts.length === 0) return kept
+
+  // Only an action still carrying the draft's stamp: one that has been
+  // resolved since, or reset, has nothing to bring back.
+  const stamped = await prisma.playerAction.findMany({
+    where: { id: { in: actionIds }, rollMade: { not: null } },
+    select: { id: true },
+  })
+  const rolled = new Set(stamped.map(a => a.id))
+  for (const draft of drafts) {
+    const mechanics = (draft.aiRequest as { action_mechanics?: ActionMechanics[] } | null)?.action_mechanics ?? []
+    for (const m of mechanics) {
+      if (rolled.has(m.actionId) && !kept.has(m.actionId)) kept.set(m.actionId, m)
+    }
+  }
+  return kept
+}
+
+async function rollActionMechanics(
+  campaignId: string,
+  sceneId: string,
+  pendingActions: PendingActionForRoll[],
+  rng?: Rng
+): Promise<ActionMechanicsResult> {
+  if (pendingActions.length === 0) return { mechanics: [], classificationUnavailable: false }
+
+  try {
+    const [characterRows, factionRows, npcRows, locationRows, moveFlavorRows, campaignRow, debtRows, tacticalBoard] = await Promise.all([
       prisma.character.findMany({
         where: { id: { in: Array.from(new Set(pendingActions.map(a => a.characterId))) } },
         include: {
@@ -980,7 +1094,7 @@ export async function resolveActionMechanics(
       // the track disables itself when the theme is null.
       prisma.campaign.findUnique({
         where: { id: campaignId },
-        select: { corruptionTheme: true },
+        select: { corruptionTheme: true, moveSetId: true },
       }),
       // Every OUTSTANDING debt held by an acting character. Fetched once
       // per exchange and matched in memory, rather than a query per action
@@ -1006,9 +1120,15 @@ export async function resolveActionMechanics(
         orderBy: { createdAt: 'desc' },
         take: 300,
       }),
+      // The scene's board, when it's in tactical mode — null otherwise,
+      // and every roll below prices range from the fiction as before.
+      // Read once: positions are locked while the exchange resolves (see
+      // the token route), so one read is the board for every action.
+      loadTacticalBoard(sceneId),
     ])
     // #404: one predicate, one meaning — see corruption.ts.
     const campaignHasCorruptionTheme = hasCorruptionTheme(campaignRow?.corruptionTheme)
+    const moveSet = resolveMoveSet(campaignRow?.moveSetId)
     const debtsByCharacter = new Map<string, typeof debtRows>()
     for (const row of debtRows) {
       const list = debtsByCharacter.get(row.characterId)
@@ -1078,7 +1198,8 @@ export async function resolveActionMechanics(
       factionRows.filter(f => f.isActive && f.isDiscovered).map(f => f.name),
       npcRows.map(n => n.name),
       campaignId,
-      sceneId
+      sceneId,
+      moveSet
     )
     const classifications = attempt.classifications
     if (classifications.length === 0) {
@@ -1090,6 +1211,11 @@ export async function resolveActionMechanics(
       }
     }
 
+    const stream = rng ?? await claimRngStream(campaignId)
+    // Where each roll's first die came from, for its DiceRoll receipt.
+    // Read before computeMechanics draws — the position a replay starts at.
+    const rngPositionByActionId = new Map<string, { seed: number; cursor: number } | null>()
+
     const mechanics: ActionMechanics[] = []
     for (const classification of classifications) {
       const action = pendingActions[classification.action_index]
@@ -1193,10 +1319,11 @@ export async function resolveActionMechanics(
         (currentLocation ? conditionScoreByLocationName.get(currentLocation.toLowerCase()) : undefined) ??
         null
 
-      const move = BASIC_MOVES.find(m => m.name === classification.move_name)
+      const move = findMoveByName(moveSet, classification.move_name)
       const moveFlavor = move ? moveFlavorByKey.get(move.key) ?? null : null
 
-      const rolled = computeMechanics(classification, action, character, rng, {
+      rngPositionByActionId.set(action.id, rngPosition(stream))
+      const rolled = computeMechanics(classification, action, character, stream, {
         faction: factionForRoll,
         relationship: relationshipForRoll,
         debts: debtsForRoll,
@@ -1205,6 +1332,8 @@ export async function resolveActionMechanics(
         isContestedLocation,
         locationConditionScore,
         sceneId,
+        tacticalZone: tacticalBoard ? tacticalZoneFor(tacticalBoard, character.id, classification.npc_name) : null,
+        moveSet,
       })
       if (rolled) mechanics.push(rolled)
     }
@@ -1223,6 +1352,7 @@ export async function resolveActionMechanics(
       await Promise.all(
         mechanics.map(async m => {
           const action = pendingActions.find(a => a.id === m.actionId)
+          const position = rngPositionByActionId.get(m.actionId) ?? null
           const created = await prisma.diceRoll.create({
             data: {
             campaignId,
@@ -1234,6 +1364,8 @@ export async function resolveActionMechanics(
             modifier: m.statMod + m.capabilityMod + m.standingMod + m.relationshipMod + m.reflectedMod + m.debtMod + m.weatherMod + m.contestedMod + m.siteConditionMod + m.zoneMod + m.conditionMod + m.conditionStatMod + m.signatureMod + m.harmPenalty,
             total: m.total,
             outcome: m.outcome,
+            rngSeed: position?.seed ?? null,
+            rngCursor: position?.cursor ?? null,
             description: `${m.moveName} (+${m.statKey}${m.capabilityName ? `, ${m.capabilityName}` : ''}${m.factionName ? `, standing w/ ${m.factionName}` : ''}${m.npcName ? `, rapport w/ ${m.npcName}` : ''}${m.debtMod ? `, ${m.debtCounterparty}` : ''}${m.weatherCondition ? `, ${m.weatherCondition.toLowerCase()}` : ''}${m.contestedMod ? ', contested ground' : ''}${m.siteConditionMod ? `, ${m.siteConditionMod > 0 ? 'thriving' : 'ruined'} surroundings` : ''}${m.zoneMod ? `, ${m.engagement} ${describeZone(m.zonePosition)}` : ''}${m.conditionMod ? `, ${m.conditionMod} condition penalty` : ''}${m.signatureName ? `, ${m.signatureName}` : ''}${m.harmPenalty ? ', impaired' : ''})`,
             },
             select: { id: true },
@@ -1374,5 +1506,8 @@ export function formatRollReceipt(m: ActionMechanics): string {
     ...(m.corruptionSurgeBonus ? [`+${m.corruptionSurgeBonus} corruption surge (bargain accepted)`] : []),
   ].join(', ')
   const band = m.outcome === 'strongHit' ? 'strong hit' : m.outcome === 'weakHit' ? 'weak hit' : 'miss'
-  return `${m.moveName}: 2d6 (${m.dice[0]}+${m.dice[1]}) ${mods} = ${m.total} — ${band}`
+  // Only a non-standard set says where its lines are — on the core bands
+  // the receipt reads exactly as it always has.
+  const bands = m.thresholds && !isDefaultThresholds(m.thresholds) ? ` (bands ${describeThresholds(m.thresholds)})` : ''
+  return `${m.moveName}: 2d6 (${m.dice[0]}+${m.dice[1]}) ${mods} = ${m.total} — ${band}${bands}`
 }
@@ -120,10 +120,14 @@ export async function processResolutionJob(jobId: string): Promise<ProcessResult
     const { resolveScene } = await import('./sceneResolver')
     const { runWorldTurnIfDue } = await import('./worldTurn')
 
-    await resolveScene(job.campaignId, job.sceneId)
+    const resolution = await resolveScene(job.campaignId, job.sceneId)
     // Paced by in-game time: only runs when the fiction has actually
     // advanced far enough since the last world turn (see tick/pacing.ts).
-    await runWorldTurnIfDue(job.campaignId)
+    // A resolution held for GM review hasn't advanced anything yet —
+    // publishing it runs the world turn instead (resolutionReview.ts).
+    if (!resolution.reviewId) {
+      await runWorldTurnIfDue(job.campaignId)
+    }
 
     await prisma.resolutionJob.update({
       where: { id: jobId },
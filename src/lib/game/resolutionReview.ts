@@ -0,0 +1,481 @@
+// src/lib/game/resolutionReview.ts
+// GM co-pilot mode: when a campaign turns on gmReviewEnabled, a scene's
+// resolution stops after the AI has answered and before anything it
+// proposed touches the world. The narration and every proposed change sit
+// in a ResolutionReview row; the campaign admin can edit the prose, accept
+// or reject each change, re-roll the narration, and then publish (or
+// discard) the lot.
+//
+// The dice are not re-rolled by anything here. They were rolled while
+// building the request (worldState.ts) and live in aiRequest's
+// action_mechanics; a re-roll asks the narrator again about the same
+// outcomes, and a publish draws any further randomness (a Taken-Out
+// recovery roll) from the stream position saved when the review was
+// made. "Let me try that narration again" must never become "let me try
+// that roll again" — and neither may discarding: the draft's DiceRoll
+// receipts and each action's rollMade stamp stay, and the next resolution
+// of the same actions brings the draft's rolls back rather than rolling
+// again (resolveActionMechanics, resolution.ts).
+//
+// Each proposed change is one StateMutation row (stateMutation.ts) with
+// result PENDING and this review's id, so the GM's accept/reject is the
+// same audit trail a business-rule rejection already writes to — the
+// audit log shows what the GM turned down next to what validation did.
+
+import { Prisma, SceneStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { callAIGM, type AIGMRequest, type AIGMResponse } from '@/lib/ai/client'
+import PusherServer from '@/lib/realtime/pusher-server'
+import { reportError } from '@/lib/monitoring'
+import { createSeededRng, rngPosition, type Rng } from './rng'
+import { formatRollReceipt } from './resolution'
+import { completeSceneEnd } from './sceneEnd'
+
+/** A review action that doesn't fit the review's current state. Routes map it to 409. */
+export class ResolutionReviewError extends Error {}
+
+const REJECTED_REASON = 'Rejected in GM review'
+const DISCARDED_REASON = 'Discarded in GM review'
+const SUPERSEDED_REASON = 'Superseded when the GM re-rolled the narration'
+
+type WorldUpdates = AIGMResponse['world_updates']
+
+// The world_updates lists whose elements are each one reviewable change.
+// pc_changes is handled on its own: one entry there bundles everything
+// that happened to a character, and a GM wants to keep the wound but drop
+// the windfall, so each key of its `changes` is a change of its own.
+const LIST_KEYS = [
+  'new_timeline_events',
+  'clock_changes',
+  'npc_changes',
+  'faction_changes',
+  'location_changes',
+  'bargain_offers',
+  'quest_changes',
+  'organic_advancement',
+] as const satisfies readonly (keyof WorldUpdates)[]
+
+export interface ProposedChange {
+  /** Stable within one AI response: `npc_changes[2]`, `pc_changes[0].changes.harm_damage`. */
+  field: string
+  proposedValue: unknown
+}
+
+/** Pure: every reviewable change in a response, in the order the AI gave them. */
+export function proposedChanges(updates: WorldUpdates | undefined): ProposedChange[] {
+  if (!updates) return []
+  const changes: ProposedChange[] = []
+  for (const key of LIST_KEYS) {
+    const list = updates[key] as unknown[] | undefined
+    list?.forEach((entry, index) => changes.push({ field: `${key}[${index}]`, proposedValue: entry }))
+  }
+  updates.pc_changes?.forEach((entry, index) => {
+    for (const [changeKey, value] of Object.entries(entry.changes ?? {})) {
+      if (value === undefined) continue
+      changes.push({
+        field: `pc_changes[${index}].changes.${changeKey}`,
+        proposedValue: { character_name_or_id: entry.character_name_or_id, changes: { [changeKey]: value } },
+      })
+    }
+  })
+  return changes
+}
+
+/**
+ * Pure: `updates` minus the changes whose field is in `rejected`. A PC
+ * entry left with no changes is dropped, so applyWorldUpdates doesn't go
+ * looking for a character it has nothing to do to.
+ */
+export function withoutRejected(updates: WorldUpdates | undefined, rejected: ReadonlySet<string>): WorldUpdates {
+  if (!updates) return {}
+  const kept: WorldUpdates = { ...updates }
+  for (const key of LIST_KEYS) {
+    const list = updates[key] as unknown[] | undefined
+    if (!list) continue
+    ;(kept as Record<string, unknown>)[key] = list.filter((_, index) => !rejected.has(`${key}[${index}]`))
+  }
+  if (updates.pc_changes) {
+    kept.pc_changes = updates.pc_changes
+      .map((entry, index) => ({
+        ...entry,
+        changes: Object.fromEntries(
+          Object.entries(entry.changes ?? {}).filter(([changeKey]) => !rejected.has(`pc_changes[${index}].changes.${changeKey}`))
+        ) as typeof entry.changes,
+      }))
+      .filter((entry) => Object.keys(entry.changes).length > 0)
+  }
+  return kept
+}
+
+function humanize(key: string): string {
+  return key.replace(/_/g, ' ')
+}
+
+/** Pure: a one-line label for the review panel. The raw value is shown beside it. */
+export function describeProposedChange(field: string, value: unknown): string {
+  const entry = (value ?? {}) as Record<string, any>
+  const list = field.slice(0, field.indexOf('['))
+  switch (list) {
+    case 'new_timeline_events':
+      return `Timeline event: ${entry.title ?? 'untitled'}`
+    case 'clock_changes': {
+      const delta = Number(entry.delta ?? 0)
+      return `Clock "${entry.clock_name_or_id}" ${delta >= 0 ? '+' : ''}${delta}`
+    }
+    case 'npc_changes':
+      return `${entry.is_new ? 'New NPC' : 'NPC'}: ${entry.npc_name_or_id} (${Object.keys(entry.changes ?? {}).map(humanize).join(', ') || 'no fields'})`
+    case 'faction_changes':
+      return `${entry.is_new ? 'New faction' : 'Faction'}: ${entry.faction_name_or_id} (${Object.keys(entry.changes ?? {}).map(humanize).join(', ') || 'no fields'})`
+    case 'location_changes':
+      return `${entry.is_new ? 'New location' : 'Location'}: ${entry.name}`
+    case 'bargain_offers':
+      return `Bargain offered to ${entry.character_name_or_id}`
+    case 'quest_changes':
+      return `${entry.is_new ? 'New quest' : 'Quest'}: ${entry.name}${entry.changes?.status ? ` → ${entry.changes.status}` : ''}`
+    case 'organic_advancement':
+      return `Advancement for ${entry.character_id}`
+    case 'pc_changes': {
+      const changeKey = field.slice(field.lastIndexOf('.') + 1)
+      const changeValue = entry.changes?.[changeKey]
+      const shown = typeof changeValue === 'number' || typeof changeValue === 'string' ? ` ${changeValue}` : ''
+      return `${entry.character_name_or_id}: ${humanize(changeKey)}${shown}`
+    }
+    default:
+      return field
+  }
+}
+
+function pendingMutationRows(campaignId: string, sceneId: string, reviewId: string, response: AIGMResponse) {
+  return proposedChanges(response.world_updates).map((change) => ({
+    campaignId,
+    sceneId,
+    reviewId,
+    field: change.field,
+    proposedValue: change.proposedValue as Prisma.InputJsonValue,
+    result: 'PENDING' as const,
+  }))
+}
+
+/**
+ * Hold a resolution for review. Called by sceneResolver.ts in place of
+ * applying it; the scene stays RESOLVING until the review is published or
+ * discarded.
+ */
+export async function createResolutionReview(input: {
+  campaignId: string
+  sceneId: string
+  isSceneEnding: boolean
+  aiRequest: AIGMRequest
+  aiResponse: AIGMResponse
+  rng: Rng
+}): Promise<string> {
+  const position = rngPosition(input.rng)
+  return prisma.$transaction(async (tx) => {
+    const review = await tx.resolutionReview.create({
+      data: {
+        campaignId: input.campaignId,
+        sceneId: input.sceneId,
+        isSceneEnding: input.isSceneEnding,
+        aiRequest: input.aiRequest as unknown as Prisma.InputJsonValue,
+        aiResponse: input.aiResponse as unknown as Prisma.InputJsonValue,
+        rngSeed: position?.seed ?? null,
+        rngCursor: position?.cursor ?? null,
+      },
+      select: { id: true },
+    })
+    const rows = pendingMutationRows(input.campaignId, input.sceneId, review.id, input.aiResponse)
+    if (rows.length > 0) {
+      await tx.stateMutation.createMany({ data: rows })
+    }
+    return review.id
+  })
+}
+
+async function findPendingReview(campaignId: string, sceneId: string) {
+  return prisma.resolutionReview.findFirst({
+    where: { campaignId, sceneId, status: 'PENDING' },
+  })
+}
+
+export interface ResolutionReviewView {
+  id: string
+  sceneId: string
+  isSceneEnding: boolean
+  rerollCount: number
+  createdAt: Date
+  /** The AI's prose; `editedSceneText` is the GM's version, if any. */
+  sceneText: string
+  editedSceneText: string | null
+  /** The rolls this resolution narrates — fixed for the life of the review. */
+  rolls: string[]
+  changes: Array<{
+    id: string
+    field: string
+    label: string
+    proposedValue: unknown
+    result: 'PENDING' | 'ACCEPTED' | 'REJECTED'
+  }>
+}
+
+/** The scene's pending review as the admin panel shows it, or null. */
+export async function getResolutionReview(campaignId: string, sceneId: string): Promise<ResolutionReviewView | null> {
+  const review = await findPendingReview(campaignId, sceneId)
+  if (!review) return null
+
+  const mutations = await prisma.stateMutation.findMany({
+    where: { reviewId: review.id },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, field: true, proposedValue: true, result: true },
+  })
+  const aiRequest = review.aiRequest as unknown as AIGMRequest
+  const aiResponse = review.aiResponse as unknown as AIGMResponse
+
+  return {
+    id: review.id,
+    sceneId: review.sceneId,
+    isSceneEnding: review.isSceneEnding,
+    rerollCount: review.rerollCount,
+    createdAt: review.createdAt,
+    sceneText: aiResponse.scene_text,
+    editedSceneText: review.editedSceneText,
+    rolls: (aiRequest.action_mechanics ?? []).map(formatRollReceipt),
+    changes: mutations.map((mutation) => ({
+      id: mutation.id,
+      field: mutation.field,
+      label: describeProposedChange(mutation.field, mutation.proposedValue),
+      proposedValue: mutation.proposedValue,
+      result: mutation.result as 'PENDING' | 'ACCEPTED' | 'REJECTED',
+    })),
+  }
+}
+
+/**
+ * Save the GM's edits. `sceneText: null` drops an edit back to the AI's
+ * prose; omitted leaves it alone. Decisions name StateMutation ids, and
+ * only ones belonging to this review are touched.
+ */
+export async function updateResolutionReview(
+  campaignId: string,
+  sceneId: string,
+  edits: { sceneText?: string | null; decisions?: Array<{ mutationId: string; result: 'ACCEPTED' | 'REJECTED' }> }
+): Promise<boolean> {
+  const review = await findPendingReview(campaignId, sceneId)
+  if (!review) return false
+
+  await prisma.$transaction([
+    ...(edits.sceneText !== undefined
+      ? [prisma.resolutionReview.update({ where: { id: review.id }, data: { editedSceneText: edits.sceneText } })]
+      : []),
+    ...(edits.decisions ?? []).map((decision) =>
+      prisma.stateMutation.updateMany({
+        where: { id: decision.mutationId, reviewId: review.id },
+        data: { result: decision.result, reason: decision.result === 'REJECTED' ? REJECTED_REASON : null },
+      })
+    ),
+  ])
+  return true
+}
+
+async function assertNotPaused(sceneId: string, action: string): Promise<{ sceneNumber: number }> {
+  const scene = await prisma.scene.findUnique({ where: { id: sceneId }, select: { isPaused: true, sceneNumber: true } })
+  if (!scene) {
+    throw new Error('Scene not found')
+  }
+  if (scene.isPaused) {
+    throw new ResolutionReviewError(`Scene is paused for a safety check-in. Resume it before you ${action}.`)
+  }
+  return scene
+}
+
+/**
+ * Ask the narrator again about the same rolls. The new response replaces
+ * the draft wholesale — prose edits and decisions were about the old one,
+ * so they go; the old proposals stay in the audit trail as superseded.
+ */
+export async function rerollResolutionReview(campaignId: string, sceneId: string): Promise<boolean> {
+  const review = await findPendingReview(campaignId, sceneId)
+  if (!review) return false
+  await assertNotPaused(sceneId, 're-roll the narration')
+
+  const debugMode = process.env.AI_DEBUG_MODE === 'true'
+  const aiResponse = await callAIGM(review.aiRequest as unknown as AIGMRequest, campaignId, sceneId, { debugMode })
+
+  // Same X-Card re-check as sceneResolver.ts's: the call above is long
+  // enough for a pause to land in the middle of it.
+  await assertNotPaused(sceneId, 're-roll the narration')
+
+  await prisma.$transaction(async (tx) => {
+    // Claimed against PENDING so a publish or discard that landed during
+    // the AI call wins, rather than this re-opening what it settled.
+    const updated = await tx.resolutionReview.updateMany({
+      where: { id: review.id, status: 'PENDING' },
+      data: {
+        aiResponse: aiResponse as unknown as Prisma.InputJsonValue,
+        editedSceneText: null,
+        rerollCount: { increment: 1 },
+      },
+    })
+    if (updated.count === 0) {
+      throw new ResolutionReviewError('This resolution was published or discarded while the narration was being re-rolled.')
+    }
+    await tx.stateMutation.updateMany({
+      where: { reviewId: review.id },
+      data: { reviewId: null, result: 'REJECTED', reason: SUPERSEDED_REASON },
+    })
+    const rows = pendingMutationRows(campaignId, sceneId, review.id, aiResponse)
+    if (rows.length > 0) {
+      await tx.stateMutation.createMany({ data: rows })
+    }
+  })
+  return true
+}
+
+export interface PublishedReview {
+  sceneText: string
+  newTurnNumber: number
+  sceneEnded: boolean
+}
+
+/**
+ * Apply the reviewed resolution: the GM's prose (or the AI's), every
+ * change not rejected, then whatever the resolution would have done next
+ * on its own — the world turn if it's due, and the rest of ending the
+ * scene if this was its final exchange.
+ */
+export async function publishResolutionReview(
+  campaignId: string,
+  sceneId: string,
+  userId: string
+): Promise<PublishedReview | null> {
+  const review = await findPendingReview(campaignId, sceneId)
+  if (!review) return null
+  const scene = await assertNotPaused(sceneId, 'publish')
+
+  const claimed = await prisma.resolutionReview.updateMany({
+    where: { id: review.id, status: 'PENDING' },
+    data: { status: 'PUBLISHED', reviewedById: userId, publishedAt: new Date() },
+  })
+  if (claimed.count === 0) {
+    throw new ResolutionReviewError('This resolution was already published or discarded.')
+  }
+
+  const rejectedRows = await prisma.stateMutation.findMany({
+    where: { reviewId: review.id, result: 'REJECTED' },
+    select: { field: true },
+  })
+  const original = review.aiResponse as unknown as AIGMResponse
+  const aiResponse: AIGMResponse = {
+    ...original,
+    scene_text: review.editedSceneText ?? original.scene_text,
+    world_updates: withoutRejected(original.world_updates, new Set(rejectedRows.map((row) => row.field))),
+  }
+  const exchangeRng =
+    review.rngSeed !== null && review.rngCursor !== null ? createSeededRng(review.rngSeed, review.rngCursor) : Math.random
+
+  let result: Awaited<ReturnType<typeof import('./sceneResolver').publishReviewedResolution>>
+  try {
+    const { publishReviewedResolution } = await import('./sceneResolver')
+    result = await publishReviewedResolution({
+      campaignId,
+      sceneId,
+      aiRequest: review.aiRequest as unknown as AIGMRequest,
+      aiResponse,
+      exchangeRng,
+    })
+  } catch (error) {
+    // Nothing was published, so the review goes back to waiting — the
+    // admin can retry, re-roll or discard it instead of it being lost.
+    await prisma.resolutionReview
+      .update({ where: { id: review.id }, data: { status: 'PENDING', reviewedById: null, publishedAt: null } })
+      .catch((revertError) => console.error('❌ Failed to reopen review after a failed publish:', revertError))
+    await reportError('resolution-review-publish-failed', error, { campaignId, sceneId, reviewId: review.id })
+    throw error
+  }
+
+  // Whatever the GM didn't turn down went in.
+  await prisma.stateMutation.updateMany({
+    where: { reviewId: review.id, result: 'PENDING' },
+    data: { result: 'ACCEPTED' },
+  })
+
+  // The resolution is out; a world turn or scene-end failure past this
+  // point is the same best-effort the end-scene route gives them, not a
+  // reason to tell the GM their publish failed.
+  try {
+    const { runWorldTurnIfDue } = await import('./worldTurn')
+    const { ran } = await runWorldTurnIfDue(campaignId)
+    console.log(ran ? '✅ World turn complete' : '✅ World turn not due yet')
+  } catch (error) {
+    console.error('❌ World turn after a reviewed resolution failed:', error)
+  }
+
+  if (review.isSceneEnding) {
+    await completeSceneEnd(campaignId, sceneId, scene.sceneNumber)
+  }
+
+  return {
+    sceneText: result.sceneText,
+    newTurnNumber: result.newTurnNumber,
+    sceneEnded: review.isSceneEnding,
+  }
+}
+
+async function settleDiscarded(reviewIds: string[]): Promise<void> {
+  if (reviewIds.length === 0) return
+  await prisma.stateMutation.updateMany({
+    where: { reviewId: { in: reviewIds }, result: { in: ['PENDING', 'ACCEPTED'] } },
+    data: { result: 'REJECTED', reason: DISCARDED_REASON },
+  })
+}
+
+/**
+ * Throw the resolution away. Nothing it proposed is applied, the scene
+ * goes back to AWAITING_ACTIONS with its actions still in, and the next
+ * resolution keeps the draft's dice for every action it rolled.
+ */
+export async function discardResolutionReview(campaignId: string, sceneId: string, userId: string): Promise<boolean> {
+  const review = await findPendingReview(campaignId, sceneId)
+  if (!review) return false
+
+  const claimed = await prisma.resolutionReview.updateMany({
+    where: { id: review.id, status: 'PENDING' },
+    data: { status: 'DISCARDED', reviewedById: userId },
+  })
+  if (claimed.count === 0) {
+    throw new ResolutionReviewError('This resolution was already published or discarded.')
+  }
+  await settleDiscarded([review.id])
+  await prisma.scene.updateMany({
+    where: { id: sceneId, status: 'RESOLVING' },
+    data: { status: 'AWAITING_ACTIONS' as SceneStatus },
+  })
+
+  try {
+    const pusher = PusherServer()
+    if (pusher) {
+      await pusher.trigger(`campaign-${campaignId}`, 'scene:review-discarded', { sceneId, campaignId })
+    }
+  } catch (pusherError) {
+    console.error('⚠️ Failed to broadcast Pusher review-discarded event:', pusherError)
+  }
+  return true
+}
+
+/**
+ * Discard whatever is pending for a scene without touching the scene
+ * itself — for the reset route, which sets the scene's status on its own.
+ */
+export async function discardPendingReviews(sceneId: string): Promise<number> {
+  const pending = await prisma.resolutionReview.findMany({
+    where: { sceneId, status: 'PENDING' },
+    select: { id: true },
+  })
+  const ids = pending.map((review) => review.id)
+  if (ids.length === 0) return 0
+  await prisma.resolutionReview.updateMany({
+    where: { id: { in: ids }, status: 'PENDING' },
+    data: { status: 'DISCARDED' },
+  })
+  await settleDiscarded(ids)
+  return ids.length
+}
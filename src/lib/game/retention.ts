@@ -40,6 +40,7 @@
 
 import { prisma } from '@/lib/prisma'
 import { FALLBACK_MAX_WINDOW_TURNS } from './tick/informationTick'
+import { ARCHIVE_SNAPSHOT_INTERVAL } from './worldHistory/snapshots'
 
 /**
  * How many simulation turns of event history to keep.
@@ -114,12 +115,15 @@ export interface RetentionResult {
   archivedMemoriesDeleted: number
   /** #445: memory-creation failures — write-only, and previously unbounded. */
   memoryFailuresDeleted: number
+  /** World snapshots past the event window, thinned to ARCHIVE_SNAPSHOT_INTERVAL. */
+  worldSnapshotsDeleted: number
 }
 
 /**
  * Prune one campaign's oldest event history.
  *
- * Deliberately narrow: the four highest-volume tables, and only those.
+ * Deliberately narrow: the four highest-volume tables, and only those —
+ * plus the world snapshots the event window makes redundant.
  * `TimelineEvent` and `CampaignLog` are the player-facing chronicle — the
  * durable record a returning player reads — and pruning those would delete
  * the very thing the away-recap gap is about. `Message`, `WikiEntry` and
@@ -170,6 +174,7 @@ export async function pruneCampaignHistory(campaignId: string): Promise<Retentio
     where: { campaignId, createdAt: { lt: new Date(Date.now() - MEMORY_FAILURE_RETENTION_MS) } },
   })
 
+  let worldSnapshotsDeleted = 0
   const empty = (): RetentionResult => ({
     worldEventsDeleted: 0,
     eventWitnessesDeleted: 0,
@@ -177,6 +182,7 @@ export async function pruneCampaignHistory(campaignId: string): Promise<Retentio
     aiCostEntriesDeleted: costEntries.count,
     archivedMemoriesDeleted: archivedMemories.count,
     memoryFailuresDeleted: memoryFailures.count,
+    worldSnapshotsDeleted,
   })
 
   const meta = await prisma.worldMeta.findUnique({
@@ -190,6 +196,23 @@ export async function pruneCampaignHistory(campaignId: string): Promise<Retentio
   // sweep. The telemetry above has already been dealt with.
   if (cutoffTurn <= 0) return empty()
 
+  // World snapshots behind the same cutoff have no events left to replay
+  // between them, so each answers only its own turn — thinned to one per
+  // ARCHIVE_SNAPSHOT_INTERVAL rather than deleted, so a long campaign's
+  // early arc can still be looked at. Above the stale-event return below:
+  // the event window is the reason for the thinning, not a precondition.
+  const oldSnapshots = await prisma.worldSnapshot.findMany({
+    where: { campaignId, turnNumber: { lt: cutoffTurn } },
+    select: { id: true, turnNumber: true },
+    take: RETENTION_BATCH_SIZE,
+    orderBy: { turnNumber: 'asc' },
+  })
+  const thinned = oldSnapshots.filter((s) => s.turnNumber % ARCHIVE_SNAPSHOT_INTERVAL !== 0).map((s) => s.id)
+  if (thinned.length > 0) {
+    const snapshots = await prisma.worldSnapshot.deleteMany({ where: { id: { in: thinned } } })
+    worldSnapshotsDeleted = snapshots.count
+  }
+
   // EventWitness rows hang off WorldEvent, so they go first — otherwise the
   // FK cascade decides the order and the batch bound stops meaning
   // anything.
@@ -213,6 +236,7 @@ export async function pruneCampaignHistory(campaignId: string): Promise<Retentio
     aiCostEntriesDeleted: costEntries.count,
     archivedMemoriesDeleted: archivedMemories.count,
     memoryFailuresDeleted: memoryFailures.count,
+    worldSnapshotsDeleted,
   }
 }
 
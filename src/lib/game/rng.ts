@@ -12,3 +12,64 @@ export type Rng = () => number
 export function rollD6(rng: Rng): number {
   return Math.floor(rng() * 6) + 1
 }
+
+// ---------------------------------------------------------------------------
+// Seeded, replayable streams.
+//
+// The seam above made dice injectable; it didn't make them reproducible.
+// Production still passed Math.random, so "why did I miss that with +3?"
+// could be answered from the DiceRoll receipt but never re-run. A seeded
+// stream closes that: each campaign owns a seed (WorldMeta.rngSeed) and a
+// cursor (WorldMeta.rngCursor), and every roll records the (seed, cursor)
+// it drew from (DiceRoll.rngSeed/rngCursor). Given the same snapshot and
+// the same position, the exchange draws the same numbers.
+//
+// Counter-based rather than a stateful generator: draw i is a pure hash of
+// (seed, i). That is what makes a recorded cursor enough to resume — no
+// need to replay every earlier draw in the campaign to reach position i.
+//
+// The world tick does not draw from this. Its variety already comes from
+// stableHash (tick/types.ts) over the campaign, the simulation turn and the
+// entity, so a tick is already a pure function of the snapshot it reads
+// and the turn it runs at — which is also why dry-run preview matches the
+// real tick without needing a stream of its own.
+
+export interface SeededRng extends Rng {
+  readonly seed: number
+  /** The index of the NEXT draw. Advances by one per call. */
+  readonly cursor: number
+}
+
+/** lowbias32 (Wellons) — a full-avalanche 32-bit integer hash. */
+function mix32(x: number): number {
+  x ^= x >>> 16
+  x = Math.imul(x, 0x7feb352d)
+  x ^= x >>> 15
+  x = Math.imul(x, 0x846ca68b)
+  x ^= x >>> 16
+  return x >>> 0
+}
+
+/** Draw `index` of stream `seed`, in [0, 1). Pure. */
+export function drawAt(seed: number, index: number): number {
+  const keyed = mix32(seed >>> 0)
+  return mix32((keyed + Math.imul(index >>> 0, 0x9e3779b9)) >>> 0) / 0x100000000
+}
+
+export function createSeededRng(seed: number, cursor = 0): SeededRng {
+  let position = cursor
+  const rng = (() => drawAt(seed, position++)) as Rng
+  Object.defineProperty(rng, 'seed', { value: seed, enumerable: true })
+  Object.defineProperty(rng, 'cursor', { get: () => position, enumerable: true })
+  return rng as SeededRng
+}
+
+/**
+ * Where a stream currently stands, or null for an unseeded Rng (Math.random,
+ * or a test's fixed sequence) — callers record null rather than guessing.
+ */
+export function rngPosition(rng: Rng): { seed: number; cursor: number } | null {
+  const candidate = rng as Partial<SeededRng>
+  if (typeof candidate.seed !== 'number' || typeof candidate.cursor !== 'number') return null
+  return { seed: candidate.seed, cursor: candidate.cursor }
+}
@@ -0,0 +1,41 @@
+// src/lib/game/rngStream.ts
+// Claims a campaign's seeded dice stream for one scene exchange — the
+// persisted half of the seeded streams in rng.ts.
+//
+// Two exchanges in the same campaign can resolve concurrently (split-party
+// scenes), so the cursor can't be read at the start and written back at
+// the end: both would draw from the same positions. Instead each claim
+// atomically reserves a block of RNG_BLOCK_SIZE draws with one increment,
+// and the exchange draws from the start of its block. An exchange that
+// somehow outruns its block just keeps counting into the next one — every
+// roll still records its exact position, so replay is unaffected; the only
+// cost is that two rolls could share numbers, which is harmless.
+//
+// Fail-open like the rest of resolution: a campaign whose WorldMeta can't
+// be reached still rolls, from Math.random, and its receipts record a null
+// position rather than a fabricated one.
+
+import { prisma } from '@/lib/prisma'
+import { createSeededRng, type Rng } from './rng'
+
+/**
+ * Draws reserved per exchange. A full party's actions take two dice each,
+ * plus the odd recovery roll while applying the narrator's changes — well
+ * under this. Reserving generously costs nothing: the cursor is an index,
+ * not storage.
+ */
+export const RNG_BLOCK_SIZE = 256
+
+export async function claimRngStream(campaignId: string): Promise<Rng> {
+  try {
+    const meta = await prisma.worldMeta.update({
+      where: { campaignId },
+      data: { rngCursor: { increment: RNG_BLOCK_SIZE } },
+      select: { rngSeed: true, rngCursor: true },
+    })
+    return createSeededRng(meta.rngSeed, meta.rngCursor - RNG_BLOCK_SIZE)
+  } catch (error) {
+    console.warn(`⚠️ Could not claim a seeded dice stream for campaign ${campaignId} — rolling unseeded:`, error)
+    return Math.random
+  }
+}
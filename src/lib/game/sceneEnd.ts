@@ -0,0 +1,62 @@
+// src/lib/game/sceneEnd.ts
+// The tail of ending a scene, once its last resolution (if any) has run:
+// the metered charge, the RESOLVED stamp with its clock checkpoint, and
+// telling the table and the campaign's webhooks.
+//
+// Lifted out of the end-scene route so a GM-reviewed final resolution
+// (resolutionReview.ts) can finish the scene the same way when the admin
+// publishes it — in that mode the end-scene request returns before there
+// is anything to charge for or stamp.
+
+import { prisma } from '@/lib/prisma'
+import { SceneStatus } from '@prisma/client'
+import PusherServer from '@/lib/realtime/pusher-server'
+import { captureWorldClock } from '@/lib/export/campaignFork'
+import { emitCampaignEvent } from '@/lib/webhooks/webhookQueue'
+import { chargeForSceneResolution } from './resolutionBilling'
+
+export async function completeSceneEnd(campaignId: string, sceneId: string, sceneNumber: number): Promise<void> {
+  // The real, metered charge: sums every AICostEntry this scene recorded
+  // across all its exchanges plus the final call. Runs regardless of
+  // whether that resolution succeeded or failed — the AI spend already
+  // happened either way. Best-effort: a failure here (e.g. a balance that
+  // ran out between the preflight estimate and now) is logged, not
+  // blocking — there's no undoing the AI spend by refusing to mark the
+  // scene RESOLVED.
+  const charge = await chargeForSceneResolution(campaignId, sceneId)
+  if (!charge.ok) {
+    console.error('⚠️ Scene resolved but metered billing failed:', charge.error, charge.details)
+  }
+
+  // Mark scene as RESOLVED, stamping when and the campaign's clocks at
+  // that moment — the checkpoint a fork at this scene rewinds to
+  // (lib/export/forkRewind.ts). Read after the final resolution and any
+  // world turn it triggered, so the checkpoint is the world the table
+  // actually walked away from.
+  const clockAtResolution = await captureWorldClock(campaignId)
+  await prisma.scene.update({
+    where: { id: sceneId },
+    data: {
+      status: 'RESOLVED' as SceneStatus,
+      resolvedAt: new Date(),
+      clockAtResolution: clockAtResolution ?? undefined
+    }
+  })
+
+  console.log('✅ Scene ended and marked as RESOLVED')
+
+  const pusher = PusherServer()
+  if (pusher) {
+    await pusher.trigger(`campaign-${campaignId}`, 'scene:ended', {
+      sceneId,
+      sceneNumber
+    })
+  }
+
+  // Tell the campaign's webhooks (a Discord channel, say). Queued, not
+  // sent — see lib/webhooks/webhookQueue.ts.
+  await emitCampaignEvent(campaignId, {
+    type: 'SCENE_RESOLVED',
+    data: { sceneId, sceneNumber }
+  })
+}
@@ -4,11 +4,13 @@
 
 import { prisma } from '@/lib/prisma'
 import { truncateWithEllipsis, pluralize } from '@/lib/format'
-import { callAIGM } from '@/lib/ai/client'
+import { callAIGM, type AIGMRequest, type AIGMResponse } from '@/lib/ai/client'
 import { formatInGameDate, type GeneratedCalendar } from './calendar'
 import { resolveLegacyCalendar } from './calendarBackfill'
 import { buildSceneResolutionRequest } from '@/lib/ai/worldState'
 import { applyWorldUpdates, summarizeWorldUpdates, enrichStubNPCs, enrichStubFactions } from './stateUpdater'
+import { claimRngStream } from './rngStream'
+import type { Rng } from './rng'
 import { applySceneProgress, parseSceneProgressState } from './worldUpdaters/sceneProgress'
 import { checkMoveVariety } from './moveVariety'
 import { SceneStatus, type PlayerAction } from '@prisma/client'
@@ -16,6 +18,7 @@ import { CampaignHealthMonitor } from './campaign-health'
 import { needsIntervention } from './campaignHealthBands'
 import { ExchangeManager } from './exchange-manager' // Phase 16
 import PusherServer from '@/lib/realtime/pusher-server' // For real-time updates
+import { createNarrationBroadcaster } from './narrationBroadcast'
 import { recurringHarmForScene, applyRecurringHarm, accrueNaturalRecovery, parseHarmState } from './harm'
 import {
   computeOrganicGrowth,
@@ -47,9 +50,10 @@ import { ensureSurgeCorruptionChanges } from './corruption'
 import { aggregateInventoryItems, describeAggregatedItem } from './itemRegistry'
 import { reportError } from '@/lib/monitoring'
 import { checkAndCreateMilestone } from './campaignMilestone'
-import { sceneTurn, simTurn } from './turnClock'
+import { sceneTurn, simTurn, type SceneTurn } from './turnClock'
 import { currentSimulationTurn } from './tick/simulationClock'
 import { getCampaignMembership } from '@/lib/db/campaignAccess'
+import { can } from '@/lib/api/campaignPermissions'
 import {
   buildNpcWikiSummary,
   buildFactionWikiSummary,
@@ -112,6 +116,18 @@ export async function resolveScene(campaignId: string, sceneId: string, forceRes
     throw new Error('Scene is paused for a safety check-in. A GM must resume it before resolution can continue.')
   }
 
+  // GM co-pilot mode holds a scene at RESOLVING on purpose while its
+  // resolution waits on the admin (see resolutionReview.ts). Resolving it
+  // again would narrate over the top of that; the admin publishes,
+  // re-rolls or discards instead.
+  const pendingReview = await prisma.resolutionReview.findFirst({
+    where: { sceneId, status: 'PENDING' },
+    select: { id: true }
+  })
+  if (pendingReview) {
+    throw new Error('This scene has a resolution awaiting GM review. Publish or discard it first.')
+  }
+
   // Allow re-resolving a stuck RESOLVING scene
   if (scene.status === 'RESOLVING') {
     console.warn(`⚠️ Scene is already RESOLVING - this might be a stuck scene from a previous failed resolution`)
@@ -222,48 +238,31 @@ async function performResolution(
       console.error('⚠️ Failed to broadcast Pusher resolving event:', pusherError)
     }
 
-    // 3. Get world meta for turn number
-    const worldMeta = await prisma.worldMeta.findUnique({
-      where: { campaignId },
-      include: { campaign: { select: { id: true, title: true, description: true, universe: true, calendarConfig: true } } }
-    })
-
-    if (!worldMeta) {
-      throw new Error('WorldMeta not found')
-    }
-
-    const currentTurn = (worldMeta as any).currentTurnNumber
-
-    // Every campaign created before the in-fiction calendar existed has a
-    // null calendarConfig — lazily backfilled here (the sole WorldMeta/turn
-    // writer) rather than via a separate migration script. baseTotalHours
-    // may be higher than worldMeta.totalElapsedGameHours if the backfill
-    // recovered hours from a legacy "Day N" date string — see
-    // calendarBackfill.ts.
-    let calendar: GeneratedCalendar
-    let baseTotalElapsedGameHours = worldMeta.totalElapsedGameHours
-    if (worldMeta.campaign.calendarConfig) {
-      calendar = worldMeta.campaign.calendarConfig as unknown as GeneratedCalendar
-    } else {
-      const backfilled = await resolveLegacyCalendar(worldMeta.campaign, worldMeta)
-      calendar = backfilled.calendar
-      baseTotalElapsedGameHours = backfilled.totalElapsedGameHours
-    }
-
-    // The day this exchange's events happened ON, not the day the DB row
-    // for them happens to be inserted — computed from state as of the
-    // START of this exchange, before any of this call's own time passage
-    // is banked below.
-    const inGameDayNumber = Math.floor(baseTotalElapsedGameHours / 24)
+    const clock = await loadResolutionClock(campaignId)
+    const { currentTurn } = clock
 
     // 4. Build AI request from world state
     console.log('📊 Building AI request...')
-    const aiRequest = await buildSceneResolutionRequest(campaignId, sceneId, isSceneEnding)
+    // One seeded stream for the whole exchange: the dice draw from it
+    // first, then the narrator's changes (a Taken-Out recovery roll) pick
+    // up where they left off. Every draw lands at a recorded position, so
+    // the exchange replays from a snapshot — see rng.ts.
+    const exchangeRng = await claimRngStream(campaignId)
+    const aiRequest = await buildSceneResolutionRequest(campaignId, sceneId, isSceneEnding, exchangeRng)
 
     // 5. Call AI GM (Phase 15: with enhanced error handling and tracking)
     console.log('🤖 Calling AI GM...')
     const debugMode = process.env.AI_DEBUG_MODE === 'true'
-    const aiResponse = await callAIGM(aiRequest, campaignId, sceneId, { debugMode })
+    // Players read the narration as it is written, except when GM co-pilot
+    // mode holds it: prose the admin hasn't approved shouldn't reach the
+    // table early any more than it should reach it late.
+    const narration = clock.gmReviewEnabled ? null : createNarrationBroadcaster(campaignId, sceneId)
+    let aiResponse: Awaited<ReturnType<typeof callAIGM>>
+    try {
+      aiResponse = await callAIGM(aiRequest, campaignId, sceneId, { debugMode, onNarration: narration?.push })
+    } finally {
+      await narration?.close()
+    }
 
     console.log('✅ AI GM responded')
     console.log(`Scene text length: ${aiResponse.scene_text.length}`)
@@ -283,536 +282,707 @@ async function performResolution(
       )
     }
 
-    // 5.5. Capture world state before applying updates (for transparency)
-    console.log('📸 Capturing world state snapshot...')
-    const beforeSnapshot = await captureWorldStateSnapshot(campaignId)
-
-    // 5.9. Corruption surge backstop: any roll powered by an accepted
-    // bargain MUST cost its mark this scene, whether or not the narrator
-    // remembered to report corruption_change — inject it if missing.
-    const surgedCharacters = (aiRequest.action_mechanics || [])
-      .filter(m => m.corruptionSurgeBonus > 0)
-      .map(m => ({ characterId: m.characterId, characterName: m.characterName }))
-    if (surgedCharacters.length > 0) {
-      ensureSurgeCorruptionChanges(aiResponse.world_updates as any, surgedCharacters)
-      console.log(`😈 Corruption surge invoked by: ${surgedCharacters.map(c => c.characterName).join(', ')}`)
-    }
-
-    // 6. Apply world updates to database
-    console.log('💾 Applying world updates...')
-    // #101 v1.1: aiRequest.world_summary.characters is the scene-participant-
-    // scoped roster (scopeCharactersToParticipants), but Scene.participants
-    // is an append-only union (actionSubmission.ts's submitPlayerAction only
-    // ever adds to it) — so on its own it over-attributes WITNESSED to
-    // characters who acted once early in a long scene and have been idle
-    // ever since. Narrow further to characters who acted recently: a
-    // character counts as "recently present" if they acted within the last
-    // RECENT_PRESENCE_EXCHANGE_WINDOW exchanges (current inclusive). A
-    // null/legacy exchangeNumber fails CLOSED (treated as turn 0, never
-    // "current") — the same `?? 0` idiom exchange-manager.ts already uses
-    // for this field, and the safer direction given this is exactly an
-    // over-attribution bug.
-    const RECENT_PRESENCE_EXCHANGE_WINDOW = 3 // current exchange + 2 prior
-    const recentlyActiveCharacterIds = new Set(
-      scene.playerActions
-        .filter((a: PlayerAction) => (a.exchangeNumber ?? 0) >= scene.currentExchange - RECENT_PRESENCE_EXCHANGE_WINDOW + 1)
-        .map((a: PlayerAction) => a.characterId)
-    )
-    const witnessCharacterIds = (aiRequest.world_summary?.characters || [])
-      .map(c => c.id)
-      .filter(id => recentlyActiveCharacterIds.has(id))
-    const { involvedNpcIds, involvedFactionIds, unresolvedCharacterNames, gateRefusals } = await applyWorldUpdates(campaignId, aiResponse, currentTurn, true, inGameDayNumber, aiRequest.action_mechanics || [], witnessCharacterIds)
-
-    // 6.05. Apply the scene progress ledger — what this exchange
-    // established/resolved, replacing re-derivation from raw prose (see
-    // prisma/schema.prisma's Scene.progressState comment). Not part of
-    // applyWorldUpdates's transaction: this is Scene-level bookkeeping, not
-    // an entity-state write, and (like wiki sync/image enqueue below) must
-    // never be able to fail the scene resolution itself.
-    // #232: measured against the PRE-update recent-moves list (what the
-    // scene's history actually was going into this exchange), computed
-    // before applySceneProgress folds this exchange's own moves in —
-    // otherwise a move would always "repeat" against itself.
-    const moveVariety = checkMoveVariety(
-      (aiResponse as { outcome_echo?: Array<{ character_name_or_id?: string; outcome?: string; move_used?: string }> }).outcome_echo,
-      parseSceneProgressState(scene.progressState).recentMoves
-    )
-    const movesUsedThisExchange: string[] = moveVariety.entries
-      .map((e) => e.normalizedMove)
-      .filter((m): m is NonNullable<typeof m> => m !== null)
-
-    try {
-      const { progressState, newSignificantBeats } = applySceneProgress(
-        scene.progressState,
-        aiResponse.scene_progress,
-        aiRequest.current_exchange_number ?? 0,
-        movesUsedThisExchange
-      )
-      await prisma.scene.update({
-        where: { id: sceneId },
-        data: { progressState: progressState as any }
+    // GM co-pilot mode: the narration and its proposed changes stop here,
+    // held for the campaign admin instead of applied. The scene stays
+    // RESOLVING — from the table's side the resolution simply isn't done
+    // yet — and publishReviewedResolution picks up from applyResolution
+    // once the admin has had their say.
+    if (clock.gmReviewEnabled) {
+      const { createResolutionReview } = await import('./resolutionReview')
+      const reviewId = await createResolutionReview({
+        campaignId,
+        sceneId,
+        isSceneEnding,
+        aiRequest,
+        aiResponse,
+        rng: exchangeRng
       })
-      // Significant beats become real history — the same story log/wiki
-      // surface any other notable timeline event reaches, not a new
-      // player-facing concept. isOffscreen: false because this happened in
-      // a scene the party was actually in, unlike a background tick event.
-      // #437: a NINTH cross-clock site, found by dumping what the
-      // turnClockConvention guard matches. `currentTurn` in this file is
-      // the SCENE counter, and TimelineEvent.turnNumber is a sim-clock
-      // column — the same name means the simulation turn in worldTurn.ts,
-      // which is exactly why a name is not a unit.
-      const beatTurn = simTurn(
-        newSignificantBeats.length > 0 ? await currentSimulationTurn(campaignId) : 0
-      )
-      for (const beatText of newSignificantBeats) {
-        await prisma.timelineEvent.create({
-          data: {
+      console.log(`📝 Resolution held for GM review (${reviewId})`)
+
+      try {
+        const pusher = PusherServer()
+        if (pusher) {
+          await pusher.trigger(`campaign-${campaignId}`, 'scene:review-ready', {
+            sceneId,
+            sceneNumber: scene.sceneNumber,
             campaignId,
-            turnNumber: beatTurn,
-            title: truncateWithEllipsis(beatText, 80),
-            summaryPublic: beatText,
-            summaryGM: beatText,
-            isOffscreen: false,
-            visibility: 'PUBLIC',
-            inGameDayNumber
-          }
-        })
+            reviewId
+          })
+        }
+      } catch (pusherError) {
+        console.error('⚠️ Failed to broadcast Pusher review-ready event:', pusherError)
       }
-      if (newSignificantBeats.length > 0) {
-        console.log(`📜 ${newSignificantBeats.length} significant beat(s) recorded to the timeline`)
+
+      return {
+        success: true,
+        sceneText: aiResponse.scene_text,
+        updates: summarizeWorldUpdates(aiResponse),
+        newTurnNumber: currentTurn,
+        reviewId
       }
-      console.log('📒 Scene progress ledger updated')
-    } catch (progressError) {
-      console.error('⚠️  Scene progress ledger update failed (non-critical):', progressError)
     }
 
-    // 6.1. Enrich any stub NPCs/factions auto-created mid-scene (non-blocking, best-effort)
-    enrichStubNPCs(campaignId, aiResponse.scene_text).catch(err =>
-      console.warn('NPC enrichment error (ignored):', err)
-    )
-    enrichStubFactions(campaignId, aiResponse.scene_text).catch(err =>
-      console.warn('Faction enrichment error (ignored):', err)
-    )
+    return await applyResolution({
+      campaignId,
+      sceneId,
+      scene,
+      exchangeManager,
+      clock,
+      aiRequest,
+      aiResponse,
+      exchangeRng
+    })
+  } catch (error) {
+    // Just re-throw the error - it will be caught by the outer try-catch in resolveScene
+    // which will handle status reversion and Pusher notifications
+    throw error
+  }
+}
 
-    // 6.2. Extract and apply player-action consequences to NPCs/Factions
-    // Add timeout to prevent this from blocking scene resolution
-    try {
-      console.log('⚖️  Extracting player-action consequences...')
+/** The clock state a resolution is applied against. */
+interface ResolutionClock {
+  worldMeta: { id: string }
+  currentTurn: SceneTurn
+  calendar: GeneratedCalendar
+  baseTotalElapsedGameHours: number
+  inGameDayNumber: number
+  gmReviewEnabled: boolean
+}
 
-      const CONSEQUENCE_TIMEOUT_MS = 20 * 1000
-      const consequencePromise = extractAndApplyConsequences(
-        campaignId,
-        currentTurn + 1,
-        aiResponse.scene_text
-      )
-      const consequenceTimeoutPromise = new Promise<void>((_, reject) =>
-        setTimeout(() => reject(new Error('Consequence extraction timeout')), CONSEQUENCE_TIMEOUT_MS)
-      )
+/**
+ * Read fresh by both the inline path and a GM-reviewed publish, which can
+ * come minutes or hours after the narration was written — the turn, date
+ * and banked hours a publish applies against are the campaign's at that
+ * moment, not a copy taken when the narrator ran.
+ */
+async function loadResolutionClock(campaignId: string): Promise<ResolutionClock> {
+  const worldMeta = await prisma.worldMeta.findUnique({
+    where: { campaignId },
+    include: { campaign: { select: { id: true, title: true, description: true, universe: true, calendarConfig: true, gmReviewEnabled: true } } }
+  })
 
-      await Promise.race([consequencePromise, consequenceTimeoutPromise])
+  if (!worldMeta) {
+    throw new Error('WorldMeta not found')
+  }
 
-      console.log('✅ Consequences applied')
-    } catch (consequenceError) {
-      const errorMsg = consequenceError instanceof Error ? consequenceError.message : String(consequenceError)
-      console.error('⚠️  Consequence extraction failed (non-critical):', errorMsg)
-    }
+  const currentTurn = sceneTurn(worldMeta.currentTurnNumber)
+
+  // Every campaign created before the in-fiction calendar existed has a
+  // null calendarConfig — lazily backfilled here (the sole WorldMeta/turn
+  // writer) rather than via a separate migration script. baseTotalHours
+  // may be higher than worldMeta.totalElapsedGameHours if the backfill
+  // recovered hours from a legacy "Day N" date string — see
+  // calendarBackfill.ts.
+  let calendar: GeneratedCalendar
+  let baseTotalElapsedGameHours = worldMeta.totalElapsedGameHours
+  if (worldMeta.campaign.calendarConfig) {
+    calendar = worldMeta.campaign.calendarConfig as unknown as GeneratedCalendar
+  } else {
+    const backfilled = await resolveLegacyCalendar(worldMeta.campaign, worldMeta)
+    calendar = backfilled.calendar
+    baseTotalElapsedGameHours = backfilled.totalElapsedGameHours
+  }
 
-    // 6.5. Apply organic character growth
-    console.log('🌱 Processing organic character growth...')
-    await applyOrganicCharacterGrowth(campaignId, sceneId, aiResponse)
-
-    // 6.6. Detect and store world state changes for transparency
-    console.log('🔍 Detecting world state changes...')
-    const worldStateChanges = await detectWorldStateChanges(campaignId, beforeSnapshot)
-
-    // Roll receipts: the mechanics stay out of the prose on purpose, so
-    // the opt-in transparency panel is the one place a player can verify
-    // what was rolled and why the scene went the way it did.
-    for (const m of aiRequest.action_mechanics || []) {
-      worldStateChanges.push({
-        category: 'roll',
-        type: 'rolled',
-        entityName: m.characterName,
-        details: formatRollReceipt(m),
-        impact: m.outcome === 'miss' ? 'major' : m.outcome === 'weakHit' ? 'moderate' : 'minor'
-      })
-    }
+  // The day this exchange's events happened ON, not the day the DB row
+  // for them happens to be inserted — computed from state as of the
+  // START of this exchange, before any of this call's own time passage
+  // is banked below.
+  const inGameDayNumber = Math.floor(baseTotalElapsedGameHours / 24)
+
+  return {
+    worldMeta,
+    currentTurn,
+    calendar,
+    baseTotalElapsedGameHours,
+    inGameDayNumber,
+    gmReviewEnabled: worldMeta.campaign.gmReviewEnabled === true
+  }
+}
 
-    // A pc_changes entry whose character_name_or_id never matched anyone on
-    // the roster gets its whole update (harm, conditions, knowledge,
-    // everything) silently dropped in applyCharacterChanges — this used to
-    // be a server-log-only console.warn. Surfacing it here means an admin
-    // (or a curious player) can actually see it happened, in the same panel
-    // that already shows roll receipts, instead of it only ever appearing
-    // in a log nobody reads.
-    for (const name of unresolvedCharacterNames) {
-      worldStateChanges.push({
-        category: 'character',
-        type: 'failed',
-        entityName: name,
-        details: `MythOS reported an update for "${name}" but couldn't match that name to a character in this campaign — the update was skipped entirely.`,
-        impact: 'major'
-      })
-    }
+interface ApplyResolutionInput {
+  campaignId: string
+  sceneId: string
+  scene: any
+  exchangeManager: ExchangeManager
+  clock: ResolutionClock
+  aiRequest: AIGMRequest
+  aiResponse: Awaited<ReturnType<typeof callAIGM>>
+  // The exchange's seeded stream, positioned just past the dice.
+  exchangeRng: Rng
+}
 
-    // A rules refusal: the narration described something state declined to
-    // honour — most often a purchase the character could not afford. Same
-    // prominent mechanism as the unresolved names above, and for the same
-    // reason: the prose says the coin changed hands, and it did not. Without
-    // this the player reads a completed purchase and a balance that never
-    // moved, with nothing connecting the two.
-    for (const refusal of gateRefusals) {
-      worldStateChanges.push({
-        category: 'consequence',
-        type: 'failed',
-        entityName: 'Refused by the rules',
-        details: refusal,
-        impact: 'major'
-      })
-    }
+/**
+ * Everything after the narrator has answered: apply its world updates,
+ * store the prose, broadcast, and run the per-exchange bookkeeping. Split
+ * out of performResolution so a GM-reviewed resolution publishes through
+ * exactly the same steps an unreviewed one runs inline.
+ */
+async function applyResolution(input: ApplyResolutionInput) {
+  const { campaignId, sceneId, scene, exchangeManager, clock, aiRequest, aiResponse, exchangeRng } = input
+  const { worldMeta, currentTurn, calendar, baseTotalElapsedGameHours, inGameDayNumber } = clock
+
+  // 5.5. Capture world state before applying updates (for transparency)
+  console.log('📸 Capturing world state snapshot...')
+  const beforeSnapshot = await captureWorldStateSnapshot(campaignId)
+
+  // 5.9. Corruption surge backstop: any roll powered by an accepted
+  // bargain MUST cost its mark this scene, whether or not the narrator
+  // remembered to report corruption_change — inject it if missing.
+  const surgedCharacters = (aiRequest.action_mechanics || [])
+    .filter(m => m.corruptionSurgeBonus > 0)
+    .map(m => ({ characterId: m.characterId, characterName: m.characterName }))
+  if (surgedCharacters.length > 0) {
+    ensureSurgeCorruptionChanges(aiResponse.world_updates as any, surgedCharacters)
+    console.log(`😈 Corruption surge invoked by: ${surgedCharacters.map(c => c.characterName).join(', ')}`)
+  }
 
-    // #200: the dice engine (resolveActionMechanics, via
-    // sceneResolutionRequest.ts) failed open to freeform narration this
-    // exchange — missing OPENAI_API_KEY, an OpenAI outage, or an
-    // unexpected error. That used to be indistinguishable from "nothing
-    // needed rolling" (both produced an empty action_mechanics array) and
-    // surfaced nowhere but a server log. Same prominent, non-collapsed
-    // mechanism as unresolvedCharacterNames above — this is exactly the
-    // kind of "something silently didn't happen" case that mechanism
-    // exists for, not the collapsed-by-default measurement-only panels
-    // (adherence/moveVariety) below.
-    const mechanicsFailure = mechanicsUnavailableDetails(aiRequest as MechanicsUnavailableInput)
-    if (mechanicsFailure) {
-      worldStateChanges.push({
-        category: 'consequence',
-        type: 'failed',
-        entityName: 'Dice Mechanics',
-        details: mechanicsFailure,
-        impact: 'major'
-      })
-    }
+  // 6. Apply world updates to database
+  console.log('💾 Applying world updates...')
+  // #101 v1.1: aiRequest.world_summary.characters is the scene-participant-
+  // scoped roster (scopeCharactersToParticipants), but Scene.participants
+  // is an append-only union (actionSubmission.ts's submitPlayerAction only
+  // ever adds to it) — so on its own it over-attributes WITNESSED to
+  // characters who acted once early in a long scene and have been idle
+  // ever since. Narrow further to characters who acted recently: a
+  // character counts as "recently present" if they acted within the last
+  // RECENT_PRESENCE_EXCHANGE_WINDOW exchanges (current inclusive). A
+  // null/legacy exchangeNumber fails CLOSED (treated as turn 0, never
+  // "current") — the same `?? 0` idiom exchange-manager.ts already uses
+  // for this field, and the safer direction given this is exactly an
+  // over-attribution bug.
+  const RECENT_PRESENCE_EXCHANGE_WINDOW = 3 // current exchange + 2 prior
+  const recentlyActiveCharacterIds = new Set(
+    scene.playerActions
+      .filter((a: PlayerAction) => (a.exchangeNumber ?? 0) >= scene.currentExchange - RECENT_PRESENCE_EXCHANGE_WINDOW + 1)
+      .map((a: PlayerAction) => a.characterId)
+  )
+  const witnessCharacterIds = (aiRequest.world_summary?.characters || [])
+    .map(c => c.id)
+    .filter(id => recentlyActiveCharacterIds.has(id))
+  const { involvedNpcIds, involvedFactionIds, unresolvedCharacterNames, gateRefusals } = await applyWorldUpdates(campaignId, aiResponse, currentTurn, true, inGameDayNumber, aiRequest.action_mechanics || [], witnessCharacterIds, exchangeRng)
+
+  // 6.05. Apply the scene progress ledger — what this exchange
+  // established/resolved, replacing re-derivation from raw prose (see
+  // prisma/schema.prisma's Scene.progressState comment). Not part of
+  // applyWorldUpdates's transaction: this is Scene-level bookkeeping, not
+  // an entity-state write, and (like wiki sync/image enqueue below) must
+  // never be able to fail the scene resolution itself.
+  // #232: measured against the PRE-update recent-moves list (what the
+  // scene's history actually was going into this exchange), computed
+  // before applySceneProgress folds this exchange's own moves in —
+  // otherwise a move would always "repeat" against itself.
+  const moveVariety = checkMoveVariety(
+    (aiResponse as { outcome_echo?: Array<{ character_name_or_id?: string; outcome?: string; move_used?: string }> }).outcome_echo,
+    parseSceneProgressState(scene.progressState).recentMoves
+  )
+  const movesUsedThisExchange: string[] = moveVariety.entries
+    .map((e) => e.normalizedMove)
+    .filter((m): m is NonNullable<typeof m> => m !== null)
 
-    // #91: the server-side outcome-adherence check (client.ts's
-    // checkOutcomeAdherence call) already ran during callAIGM above and fed
-    // a campaign-wide admin metric — this is what makes that same result
-    // reach the player, in the same panel that already shows dice receipts.
-    await storeWorldStateChanges(sceneId, worldStateChanges, aiResponse._outcomeAdherence, moveVariety)
-    console.log(`✅ Tracked ${worldStateChanges.length} world state changes`)
-
-    // 6.7. Create notifications for character progression
-    const characterChanges = worldStateChanges.filter(c => c.category === 'character')
-    for (const change of characterChanges) {
-      // Find the character ID from the name
-      const character = await prisma.character.findFirst({
-        where: {
+  try {
+    const { progressState, newSignificantBeats } = applySceneProgress(
+      scene.progressState,
+      aiResponse.scene_progress,
+      aiRequest.current_exchange_number ?? 0,
+      movesUsedThisExchange
+    )
+    await prisma.scene.update({
+      where: { id: sceneId },
+      data: { progressState: progressState as any }
+    })
+    // Significant beats become real history — the same story log/wiki
+    // surface any other notable timeline event reaches, not a new
+    // player-facing concept. isOffscreen: false because this happened in
+    // a scene the party was actually in, unlike a background tick event.
+    // #437: a NINTH cross-clock site, found by dumping what the
+    // turnClockConvention guard matches. `currentTurn` in this file is
+    // the SCENE counter, and TimelineEvent.turnNumber is a sim-clock
+    // column — the same name means the simulation turn in worldTurn.ts,
+    // which is exactly why a name is not a unit.
+    const beatTurn = simTurn(
+      newSignificantBeats.length > 0 ? await currentSimulationTurn(campaignId) : 0
+    )
+    for (const beatText of newSignificantBeats) {
+      await prisma.timelineEvent.create({
+        data: {
           campaignId,
-          name: change.entityName
+          turnNumber: beatTurn,
+          title: truncateWithEllipsis(beatText, 80),
+          summaryPublic: beatText,
+          summaryGM: beatText,
+          isOffscreen: false,
+          visibility: 'PUBLIC',
+          inGameDayNumber
         }
       })
-      if (character) {
-        await createCharacterProgressionNotifications(
-          campaignId,
-          character.id,
-          [change],
-          scene.sceneNumber
-        )
-      }
     }
-    console.log(`✅ Created ${characterChanges.length} progression notifications`)
+    if (newSignificantBeats.length > 0) {
+      console.log(`📜 ${newSignificantBeats.length} significant beat(s) recorded to the timeline`)
+    }
+    console.log('📒 Scene progress ledger updated')
+  } catch (progressError) {
+    console.error('⚠️  Scene progress ledger update failed (non-critical):', progressError)
+  }
 
-    // 7. Store scene resolution (append to existing resolutions)
-    const existingResolutions = scene.sceneResolutionText ? [scene.sceneResolutionText] : []
-    const allResolutions = [...existingResolutions, aiResponse.scene_text].join('\n\n---\n\n')
+  // 6.1. Enrich any stub NPCs/factions auto-created mid-scene (non-blocking, best-effort)
+  enrichStubNPCs(campaignId, aiResponse.scene_text).catch(err =>
+    console.warn('NPC enrichment error (ignored):', err)
+  )
+  enrichStubFactions(campaignId, aiResponse.scene_text).catch(err =>
+    console.warn('Faction enrichment error (ignored):', err)
+  )
 
-    await prisma.scene.update({
-      where: { id: sceneId },
-      data: {
-        sceneResolutionText: allResolutions,
-        status: 'AWAITING_ACTIONS' as SceneStatus // Keep scene active for continuous play
-      }
-    })
+  // 6.2. Extract and apply player-action consequences to NPCs/Factions
+  // Add timeout to prevent this from blocking scene resolution
+  try {
+    console.log('⚖️  Extracting player-action consequences...')
 
-    console.log('✅ Scene resolution stored, scene continues...')
+    const CONSEQUENCE_TIMEOUT_MS = 20 * 1000
+    const consequencePromise = extractAndApplyConsequences(
+      campaignId,
+      currentTurn + 1,
+      aiResponse.scene_text
+    )
+    const consequenceTimeoutPromise = new Promise<void>((_, reject) =>
+      setTimeout(() => reject(new Error('Consequence extraction timeout')), CONSEQUENCE_TIMEOUT_MS)
+    )
 
-    // 7.1. Broadcast scene resolution via Pusher IMMEDIATELY after status update
-    // This ensures the frontend gets notified right away, before any heavyweight operations
-    try {
-      const pusher = PusherServer()
-      if (pusher) {
-        await pusher.trigger(`campaign-${campaignId}`, 'scene:resolved', {
-          sceneId,
-          sceneNumber: scene.sceneNumber,
-          campaignId,
-          resolutionPreview: truncateWithEllipsis(aiResponse.scene_text, 200)
-        })
-        console.log('📡 Broadcasted scene:resolved event via Pusher')
-      }
-    } catch (pusherError) {
-      // Don't fail the resolution if Pusher fails
-      console.error('⚠️ Failed to broadcast Pusher event:', pusherError)
-    }
+    await Promise.race([consequencePromise, consequenceTimeoutPromise])
 
-    // 7.5. Enqueue map visualization generation from scene description —
-    // only on a scene's FIRST exchange. A scene can resolve several
-    // exchanges before the party moves on ("Keep scene active for
-    // continuous play"), and the map doesn't need to be re-derived from
-    // scratch on every single one — it was previously called here on
-    // every exchange regardless, which burned an AI call and a batch of
-    // zone/token writes on every action, not just when a genuinely new
-    // scene actually started.
-    // Gated on the per-campaign opt-in as well as the first-exchange check:
-    // this is a second AI call plus a batch of zone/token writes per
-    // qualifying scene, which is real recurring cost for a feature many
-    // campaigns never look at (#9/#59).
-    //
-    // #291: this used to run synchronously here via a 30s Promise.race,
-    // architecturally inconsistent with scene illustration/hero-image
-    // generation (both already run off the request path in their own
-    // async job — see imageGenQueue.ts). Now mirrors that same pattern:
-    // deliberately NOT awaited to completion — only the job being CREATED
-    // and its worker KICKED (a few seconds at most). The actual analysis
-    // call and zone/token writes run in their own separate invocation
-    // (/api/internal/generate-map), so an optional, potentially slow map
-    // step can never extend how long a scene resolution itself takes.
-    //
-    // The settings lookup is inside the same try as enqueueing on purpose:
-    // the whole map step is explicitly non-critical, so a failure reading
-    // whether maps are even ENABLED must degrade to "no map this scene",
-    // never take down an otherwise-successful scene resolution.
-    try {
-      const mapSettings = await prisma.campaign.findUnique({
-        where: { id: campaignId },
-        select: { mapGenerationEnabled: true }
-      })
+    console.log('✅ Consequences applied')
+  } catch (consequenceError) {
+    const errorMsg = consequenceError instanceof Error ? consequenceError.message : String(consequenceError)
+    console.error('⚠️  Consequence extraction failed (non-critical):', errorMsg)
+  }
 
-      if (!mapSettings?.mapGenerationEnabled) {
-        console.log('🗺️  Skipping map generation — disabled for this campaign')
-      } else if (!isFirstSceneExchange(existingResolutions)) {
-        console.log('🗺️  Skipping map generation — scene already has a map from its first exchange')
-      } else {
-        // Get the active map for the campaign (if any) — generateMapFromScene
-        // reuses/replaces it rather than always creating a fresh one.
-        const activeMap = await prisma.map.findFirst({
-          where: {
-            campaignId,
-            isActive: true
-          },
-          select: { id: true }
-        })
+  // 6.5. Apply organic character growth
+  console.log('🌱 Processing organic character growth...')
+  await applyOrganicCharacterGrowth(campaignId, sceneId, aiResponse)
+
+  // 6.6. Detect and store world state changes for transparency
+  console.log('🔍 Detecting world state changes...')
+  const worldStateChanges = await detectWorldStateChanges(campaignId, beforeSnapshot)
+
+  // Roll receipts: the mechanics stay out of the prose on purpose, so
+  // the opt-in transparency panel is the one place a player can verify
+  // what was rolled and why the scene went the way it did.
+  for (const m of aiRequest.action_mechanics || []) {
+    worldStateChanges.push({
+      category: 'roll',
+      type: 'rolled',
+      entityName: m.characterName,
+      details: formatRollReceipt(m),
+      impact: m.outcome === 'miss' ? 'major' : m.outcome === 'weakHit' ? 'moderate' : 'minor'
+    })
+  }
+
+  // A pc_changes entry whose character_name_or_id never matched anyone on
+  // the roster gets its whole update (harm, conditions, knowledge,
+  // everything) silently dropped in applyCharacterChanges — this used to
+  // be a server-log-only console.warn. Surfacing it here means an admin
+  // (or a curious player) can actually see it happened, in the same panel
+  // that already shows roll receipts, instead of it only ever appearing
+  // in a log nobody reads.
+  for (const name of unresolvedCharacterNames) {
+    worldStateChanges.push({
+      category: 'character',
+      type: 'failed',
+      entityName: name,
+      details: `MythOS reported an update for "${name}" but couldn't match that name to a character in this campaign — the update was skipped entirely.`,
+      impact: 'major'
+    })
+  }
+
+  // A rules refusal: the narration described something state declined to
+  // honour — most often a purchase the character could not afford. Same
+  // prominent mechanism as the unresolved names above, and for the same
+  // reason: the prose says the coin changed hands, and it did not. Without
+  // this the player reads a completed purchase and a balance that never
+  // moved, with nothing connecting the two.
+  for (const refusal of gateRefusals) {
+    worldStateChanges.push({
+      category: 'consequence',
+      type: 'failed',
+      entityName: 'Refused by the rules',
+      details: refusal,
+      impact: 'major'
+    })
+  }
 
-        const { enqueueMapGeneration } = await import('./mapGenQueue')
-        await enqueueMapGeneration(campaignId, sceneId, aiResponse.scene_text, activeMap?.id)
-        console.log('🗺️  Map generation enqueued')
+  // #200: the dice engine (resolveActionMechanics, via
+  // sceneResolutionRequest.ts) failed open to freeform narration this
+  // exchange — missing OPENAI_API_KEY, an OpenAI outage, or an
+  // unexpected error. That used to be indistinguishable from "nothing
+  // needed rolling" (both produced an empty action_mechanics array) and
+  // surfaced nowhere but a server log. Same prominent, non-collapsed
+  // mechanism as unresolvedCharacterNames above — this is exactly the
+  // kind of "something silently didn't happen" case that mechanism
+  // exists for, not the collapsed-by-default measurement-only panels
+  // (adherence/moveVariety) below.
+  const mechanicsFailure = mechanicsUnavailableDetails(aiRequest as MechanicsUnavailableInput)
+  if (mechanicsFailure) {
+    worldStateChanges.push({
+      category: 'consequence',
+      type: 'failed',
+      entityName: 'Dice Mechanics',
+      details: mechanicsFailure,
+      impact: 'major'
+    })
+  }
+
+  // #91: the server-side outcome-adherence check (client.ts's
+  // checkOutcomeAdherence call) already ran during callAIGM above and fed
+  // a campaign-wide admin metric — this is what makes that same result
+  // reach the player, in the same panel that already shows dice receipts.
+  // The retrieval trace rides along the same way: how this exchange's
+  // memories and lore were ranked, for the same panel.
+  await storeWorldStateChanges(sceneId, worldStateChanges, aiResponse._outcomeAdherence, moveVariety, aiRequest._retrievalTrace)
+  console.log(`✅ Tracked ${worldStateChanges.length} world state changes`)
+
+  // 6.7. Create notifications for character progression
+  const characterChanges = worldStateChanges.filter(c => c.category === 'character')
+  for (const change of characterChanges) {
+    // Find the character ID from the name
+    const character = await prisma.character.findFirst({
+      where: {
+        campaignId,
+        name: change.entityName
       }
-    } catch (visualError) {
-      // Don't fail the entire scene resolution if enqueueing a map fails
-      const errorMsg = visualError instanceof Error ? visualError.message : String(visualError)
-      console.error('⚠️  Map generation enqueue failed (non-critical):', errorMsg)
+    })
+    if (character) {
+      await createCharacterProgressionNotifications(
+        campaignId,
+        character.id,
+        [change],
+        scene.sceneNumber
+      )
     }
+  }
+  console.log(`✅ Created ${characterChanges.length} progression notifications`)
 
-    // 7.5.5. Enqueue scene illustration (#96) — one image per SCENE, not
-    // per exchange, same isFirstSceneExchange gate map generation uses
-    // directly above, and the same per-campaign opt-in reasoning
-    // (sceneImageGenerationEnabled mirrors mapGenerationEnabled: real
-    // recurring cost many campaigns won't want by default).
-    //
-    // Deliberately NOT awaited to completion the way map generation is —
-    // this only awaits the job being CREATED and its worker KICKED (a few
-    // seconds at most; see imageGenQueue.ts's kickImageJob), never the
-    // actual image generation. That work runs in its own separate
-    // invocation (/api/internal/generate-scene-image), the whole reason
-    // this is a job queue and not an inline call: an optional, potentially
-    // slow illustration step must never be able to extend how long a
-    // scene resolution itself takes, even bounded by a timeout the way
-    // map generation's Promise.race is.
-    try {
-      const imageSettings = await prisma.campaign.findUnique({
-        where: { id: campaignId },
-        select: { sceneImageGenerationEnabled: true }
-      })
+  // 7. Store scene resolution (append to existing resolutions)
+  const existingResolutions = scene.sceneResolutionText ? [scene.sceneResolutionText] : []
+  const allResolutions = [...existingResolutions, aiResponse.scene_text].join('\n\n---\n\n')
 
-      if (!imageSettings?.sceneImageGenerationEnabled) {
-        console.log('🖼️  Skipping scene image generation — disabled for this campaign')
-      } else if (!isFirstSceneExchange(existingResolutions)) {
-        console.log('🖼️  Skipping scene image generation — scene already has one from its first exchange')
-      } else {
-        const { buildScenePrompt } = await import('../ai/imageGeneration')
-        const { enqueueSceneImageGeneration } = await import('./imageGenQueue')
-        const prompt = buildScenePrompt({
-          sceneIntroText: scene.sceneIntroText,
-          sceneResolutionText: allResolutions,
-        })
-        await enqueueSceneImageGeneration(campaignId, sceneId, prompt)
-        console.log('🖼️  Scene image generation enqueued')
-      }
-    } catch (imageError) {
-      // Don't fail the entire scene resolution if enqueueing an image fails
-      const errorMsg = imageError instanceof Error ? imageError.message : String(imageError)
-      console.error('⚠️  Scene image enqueue failed (non-critical):', errorMsg)
+  await prisma.scene.update({
+    where: { id: sceneId },
+    data: {
+      sceneResolutionText: allResolutions,
+      status: 'AWAITING_ACTIONS' as SceneStatus // Keep scene active for continuous play
     }
+  })
 
-    // 7.6. Sync wiki entries for NPCs, factions, and clocks (non-critical)
-    try {
-      await updateWikiEntries(campaignId, currentTurn, aiResponse)
-      console.log('📖 Wiki entries synced')
-    } catch (wikiError) {
-      console.error('⚠️  Wiki sync failed (non-critical):', wikiError)
+  console.log('✅ Scene resolution stored, scene continues...')
+
+  // 7.1. Broadcast scene resolution via Pusher IMMEDIATELY after status update
+  // This ensures the frontend gets notified right away, before any heavyweight operations
+  try {
+    const pusher = PusherServer()
+    if (pusher) {
+      await pusher.trigger(`campaign-${campaignId}`, 'scene:resolved', {
+        sceneId,
+        sceneNumber: scene.sceneNumber,
+        campaignId,
+        resolutionPreview: truncateWithEllipsis(aiResponse.scene_text, 200)
+      })
+      console.log('📡 Broadcasted scene:resolved event via Pusher')
     }
+  } catch (pusherError) {
+    // Don't fail the resolution if Pusher fails
+    console.error('⚠️ Failed to broadcast Pusher event:', pusherError)
+  }
 
-    // Phase 16: Complete the current exchange and start a new one
-    await exchangeManager.completeExchange()
-    console.log('🔄 Exchange completed')
-
-    // Initialize next exchange for continuous play
-    await exchangeManager.initializeExchange()
-    console.log('🔄 Next exchange initialized')
-
-    // 8. Increment turn number and update in-game date based on AI time passage
-    const timePassage = aiResponse.time_passage || {}
-
-    // hoursThisExchange is the single source of truth for how much in-game
-    // time this scene advanced — clamped by elapsedInGameHours (see
-    // tick/pacing.ts) so the displayed date and the banked world-turn clock
-    // can never desync, and a single scene can't jump either one an
-    // absurd amount.
-    const hoursThisExchange = elapsedInGameHours(timePassage)
-    // The durable number is the source of truth — newInGameDate is always
-    // recomputed fresh from it, never mutated/reparsed the way the old
-    // calculateNewDate did (see calendar.ts's header comment).
-    const newTotalElapsedGameHours = baseTotalElapsedGameHours + hoursThisExchange
-    const newInGameDate = formatInGameDate(newTotalElapsedGameHours, calendar).display
-    const exchangeDuration = hoursThisExchange > 0
-      ? (hoursThisExchange >= 24 && hoursThisExchange % 24 === 0
-          ? `${hoursThisExchange / 24} ${pluralize(hoursThisExchange / 24, 'day')}`
-          : `${hoursThisExchange} ${pluralize(hoursThisExchange, 'hour')}`)
-      : null
-
-    // Bank this exchange's in-game time toward the next world turn — the
-    // faction/NPC simulation advances with fiction time, not per action
-    // (see lib/game/tick/pacing.ts and runWorldTurnIfDue).
-
-    await prisma.worldMeta.update({
-      where: { id: worldMeta.id },
-      data: {
-        currentTurnNumber: currentTurn + 1,
-        currentInGameDate: newInGameDate,
-        totalElapsedGameHours: newTotalElapsedGameHours,
-        hoursSinceWorldTurn: { increment: hoursThisExchange },
-        // Tracks what play itself has banked since the last heartbeat sweep,
-        // so the sweep can top up to real elapsed time instead of stacking
-        // on top of active play (see lib/game/cronHeartbeat.ts).
-        hoursBankedSinceLastHeartbeat: { increment: hoursThisExchange }
-      }
+  // 7.5. Enqueue map visualization generation from scene description —
+  // only on a scene's FIRST exchange. A scene can resolve several
+  // exchanges before the party moves on ("Keep scene active for
+  // continuous play"), and the map doesn't need to be re-derived from
+  // scratch on every single one — it was previously called here on
+  // every exchange regardless, which burned an AI call and a batch of
+  // zone/token writes on every action, not just when a genuinely new
+  // scene actually started.
+  // Gated on the per-campaign opt-in as well as the first-exchange check:
+  // this is a second AI call plus a batch of zone/token writes per
+  // qualifying scene, which is real recurring cost for a feature many
+  // campaigns never look at (#9/#59).
+  //
+  // #291: this used to run synchronously here via a 30s Promise.race,
+  // architecturally inconsistent with scene illustration/hero-image
+  // generation (both already run off the request path in their own
+  // async job — see imageGenQueue.ts). Now mirrors that same pattern:
+  // deliberately NOT awaited to completion — only the job being CREATED
+  // and its worker KICKED (a few seconds at most). The actual analysis
+  // call and zone/token writes run in their own separate invocation
+  // (/api/internal/generate-map), so an optional, potentially slow map
+  // step can never extend how long a scene resolution itself takes.
+  //
+  // The settings lookup is inside the same try as enqueueing on purpose:
+  // the whole map step is explicitly non-critical, so a failure reading
+  // whether maps are even ENABLED must degrade to "no map this scene",
+  // never take down an otherwise-successful scene resolution.
+  try {
+    const mapSettings = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { mapGenerationEnabled: true }
     })
 
-    console.log(`✅ Turn incremented: ${currentTurn} → ${currentTurn + 1}`)
+    if (!mapSettings?.mapGenerationEnabled) {
+      console.log('🗺️  Skipping map generation — disabled for this campaign')
+    } else if (!isFirstSceneExchange(existingResolutions)) {
+      console.log('🗺️  Skipping map generation — scene already has a map from its first exchange')
+    } else {
+      // Get the active map for the campaign (if any) — generateMapFromScene
+      // reuses/replaces it rather than always creating a fresh one.
+      const activeMap = await prisma.map.findFirst({
+        where: {
+          campaignId,
+          isActive: true
+        },
+        select: { id: true }
+      })
 
-    // Natural recovery: bodies mend as in-game time passes, the same hours
-    // that just moved the calendar. Fiction stays the fast path
-    // (harm_healing, medical_attention); this is the slow one, and before
-    // it existed a character could carry a wound across in-game weeks and
-    // arrive exactly as hurt.
-    //
-    // Best-effort — a failure here must not cost the resolved scene.
-    if (hoursThisExchange > 0) {
-      try {
-        await applyNaturalRecovery(campaignId, hoursThisExchange)
-      } catch (error) {
-        console.error('⚠️  Natural recovery failed (non-critical):', error)
-      }
+      const { enqueueMapGeneration } = await import('./mapGenQueue')
+      await enqueueMapGeneration(campaignId, sceneId, aiResponse.scene_text, activeMap?.id)
+      console.log('🗺️  Map generation enqueued')
+    }
+  } catch (visualError) {
+    // Don't fail the entire scene resolution if enqueueing a map fails
+    const errorMsg = visualError instanceof Error ? visualError.message : String(visualError)
+    console.error('⚠️  Map generation enqueue failed (non-critical):', errorMsg)
+  }
+
+  // 7.5.5. Enqueue scene illustration (#96) — one image per SCENE, not
+  // per exchange, same isFirstSceneExchange gate map generation uses
+  // directly above, and the same per-campaign opt-in reasoning
+  // (sceneImageGenerationEnabled mirrors mapGenerationEnabled: real
+  // recurring cost many campaigns won't want by default).
+  //
+  // Deliberately NOT awaited to completion the way map generation is —
+  // this only awaits the job being CREATED and its worker KICKED (a few
+  // seconds at most; see imageGenQueue.ts's kickImageJob), never the
+  // actual image generation. That work runs in its own separate
+  // invocation (/api/internal/generate-scene-image), the whole reason
+  // this is a job queue and not an inline call: an optional, potentially
+  // slow illustration step must never be able to extend how long a
+  // scene resolution itself takes, even bounded by a timeout the way
+  // map generation's Promise.race is.
+  try {
+    const imageSettings = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { sceneImageGenerationEnabled: true }
+    })
+
+    if (!imageSettings?.sceneImageGenerationEnabled) {
+      console.log('🖼️  Skipping scene image generation — disabled for this campaign')
+    } else if (!isFirstSceneExchange(existingResolutions)) {
+      console.log('🖼️  Skipping scene image generation — scene already has one from its first exchange')
+    } else {
+      const { buildScenePrompt } = await import('../ai/imageGeneration')
+      const { enqueueSceneImageGeneration } = await import('./imageGenQueue')
+      const prompt = buildScenePrompt({
+        sceneIntroText: scene.sceneIntroText,
+        sceneResolutionText: allResolutions,
+      })
+      await enqueueSceneImageGeneration(campaignId, sceneId, prompt)
+      console.log('🖼️  Scene image generation enqueued')
     }
-    if (timePassage.days || timePassage.hours) {
-      console.log(`⏰ Time passed: ${timePassage.days || 0} days, ${timePassage.hours || 0} hours`)
-      console.log(`📅 New date: ${newInGameDate}`)
+  } catch (imageError) {
+    // Don't fail the entire scene resolution if enqueueing an image fails
+    const errorMsg = imageError instanceof Error ? imageError.message : String(imageError)
+    console.error('⚠️  Scene image enqueue failed (non-critical):', errorMsg)
+  }
+
+  // 7.6. Sync wiki entries for NPCs, factions, and clocks (non-critical)
+  try {
+    await updateWikiEntries(campaignId, currentTurn, aiResponse)
+    console.log('📖 Wiki entries synced')
+  } catch (wikiError) {
+    console.error('⚠️  Wiki sync failed (non-critical):', wikiError)
+  }
+
+  // Phase 16: Complete the current exchange and start a new one
+  await exchangeManager.completeExchange()
+  console.log('🔄 Exchange completed')
+
+  // Initialize next exchange for continuous play
+  await exchangeManager.initializeExchange()
+  console.log('🔄 Next exchange initialized')
+
+  // 8. Increment turn number and update in-game date based on AI time passage
+  const timePassage = aiResponse.time_passage || {}
+
+  // hoursThisExchange is the single source of truth for how much in-game
+  // time this scene advanced — clamped by elapsedInGameHours (see
+  // tick/pacing.ts) so the displayed date and the banked world-turn clock
+  // can never desync, and a single scene can't jump either one an
+  // absurd amount.
+  const hoursThisExchange = elapsedInGameHours(timePassage)
+  // The durable number is the source of truth — newInGameDate is always
+  // recomputed fresh from it, never mutated/reparsed the way the old
+  // calculateNewDate did (see calendar.ts's header comment).
+  const newTotalElapsedGameHours = baseTotalElapsedGameHours + hoursThisExchange
+  const newInGameDate = formatInGameDate(newTotalElapsedGameHours, calendar).display
+  const exchangeDuration = hoursThisExchange > 0
+    ? (hoursThisExchange >= 24 && hoursThisExchange % 24 === 0
+        ? `${hoursThisExchange / 24} ${pluralize(hoursThisExchange / 24, 'day')}`
+        : `${hoursThisExchange} ${pluralize(hoursThisExchange, 'hour')}`)
+    : null
+
+  // Bank this exchange's in-game time toward the next world turn — the
+  // faction/NPC simulation advances with fiction time, not per action
+  // (see lib/game/tick/pacing.ts and runWorldTurnIfDue).
+
+  await prisma.worldMeta.update({
+    where: { id: worldMeta.id },
+    data: {
+      currentTurnNumber: currentTurn + 1,
+      currentInGameDate: newInGameDate,
+      totalElapsedGameHours: newTotalElapsedGameHours,
+      hoursSinceWorldTurn: { increment: hoursThisExchange },
+      // Tracks what play itself has banked since the last heartbeat sweep,
+      // so the sweep can top up to real elapsed time instead of stacking
+      // on top of active play (see lib/game/cronHeartbeat.ts).
+      hoursBankedSinceLastHeartbeat: { increment: hoursThisExchange }
     }
+  })
+
+  console.log(`✅ Turn incremented: ${currentTurn} → ${currentTurn + 1}`)
 
-    // 8.5. Generate campaign log entry
+  // Natural recovery: bodies mend as in-game time passes, the same hours
+  // that just moved the calendar. Fiction stays the fast path
+  // (harm_healing, medical_attention); this is the slow one, and before
+  // it existed a character could carry a wound across in-game weeks and
+  // arrive exactly as hurt.
+  //
+  // Best-effort — a failure here must not cost the resolved scene.
+  if (hoursThisExchange > 0) {
     try {
-      console.log('📝 Generating campaign log entry...')
-      await generateCampaignLog(
-        campaignId,
-        sceneId,
-        currentTurn + 1,
-        aiResponse.scene_text,
-        aiResponse.scene_summary,
-        aiResponse.world_updates?.new_timeline_events,
-        newInGameDate,
-        exchangeDuration,
-        inGameDayNumber
-      )
-      console.log('✅ Campaign log entry created')
-    } catch (logError) {
-      // Don't fail the entire scene resolution if log generation fails
-      console.error('⚠️  Campaign log generation failed (non-critical):', logError)
+      await applyNaturalRecovery(campaignId, hoursThisExchange)
+    } catch (error) {
+      console.error('⚠️  Natural recovery failed (non-critical):', error)
     }
+  }
+  if (timePassage.days || timePassage.hours) {
+    console.log(`⏰ Time passed: ${timePassage.days || 0} days, ${timePassage.hours || 0} hours`)
+    console.log(`📅 New date: ${newInGameDate}`)
+  }
 
-    // 8.6. Create campaign memory for RAG retrieval
-    // Add timeout to prevent memory creation from blocking scene resolution
-    try {
-      console.log('🧠 Creating campaign memory...')
-
-      // Timeout memory creation after 20 seconds
-      const MEMORY_CREATE_TIMEOUT_MS = 20 * 1000
-      // #437: CampaignMemory.turnNumber is a sim-clock column — historyLog
-      // and worldTurnOffscreenEvents already stamp it that way, and
-      // memoryConsolidation ages the whole table against the sim clock. A
-      // scene memory stamped `currentTurn + 1` (the SCENE counter) was
-      // bucketed and aged against a unit it was never measured in.
-      const memoryCreatePromise = createSceneMemory(
-        { ...scene, sceneResolutionText: aiResponse.scene_text },
-        { turnNumber: simTurn(await currentSimulationTurn(campaignId)) },
-        aiResponse,
-        { npcIds: involvedNpcIds, factionIds: involvedFactionIds }
-      )
+  // 8.5. Generate campaign log entry
+  try {
+    console.log('📝 Generating campaign log entry...')
+    await generateCampaignLog(
+      campaignId,
+      sceneId,
+      currentTurn + 1,
+      aiResponse.scene_text,
+      aiResponse.scene_summary,
+      aiResponse.world_updates?.new_timeline_events,
+      newInGameDate,
+      exchangeDuration,
+      inGameDayNumber
+    )
+    console.log('✅ Campaign log entry created')
+  } catch (logError) {
+    // Don't fail the entire scene resolution if log generation fails
+    console.error('⚠️  Campaign log generation failed (non-critical):', logError)
+  }
 
-      const memoryCreateTimeoutPromise = new Promise<void>((_, reject) =>
-        setTimeout(() => reject(new Error('Memory creation timeout')), MEMORY_CREATE_TIMEOUT_MS)
-      )
+  // 8.6. Create campaign memory for RAG retrieval
+  // Add timeout to prevent memory creation from blocking scene resolution
+  try {
+    console.log('🧠 Creating campaign memory...')
+
+    // Timeout memory creation after 20 seconds
+    const MEMORY_CREATE_TIMEOUT_MS = 20 * 1000
+    // #437: CampaignMemory.turnNumber is a sim-clock column — historyLog
+    // and worldTurnOffscreenEvents already stamp it that way, and
+    // memoryConsolidation ages the whole table against the sim clock. A
+    // scene memory stamped `currentTurn + 1` (the SCENE counter) was
+    // bucketed and aged against a unit it was never measured in.
+    const memoryCreatePromise = createSceneMemory(
+      { ...scene, sceneResolutionText: aiResponse.scene_text },
+      { turnNumber: simTurn(await currentSimulationTurn(campaignId)) },
+      aiResponse,
+      { npcIds: involvedNpcIds, factionIds: involvedFactionIds }
+    )
 
-      await Promise.race([memoryCreatePromise, memoryCreateTimeoutPromise])
+    const memoryCreateTimeoutPromise = new Promise<void>((_, reject) =>
+      setTimeout(() => reject(new Error('Memory creation timeout')), MEMORY_CREATE_TIMEOUT_MS)
+    )
 
-      console.log('✅ Campaign memory created')
-    } catch (memoryError) {
-      // Don't fail the entire scene resolution if memory creation fails
-      const errorMsg = memoryError instanceof Error ? memoryError.message : String(memoryError)
-      console.error('⚠️  Campaign memory creation failed (non-critical):', errorMsg)
-    }
+    await Promise.race([memoryCreatePromise, memoryCreateTimeoutPromise])
 
-    // Phase 15.4: Check campaign health periodically
-    if (currentTurn % 5 === 0) { // Check every 5 scenes
-      console.log('🏥 Running campaign health check...')
-      const healthMonitor = new CampaignHealthMonitor(campaignId)
-      const health = await healthMonitor.calculateHealth()
-      await healthMonitor.recordHealthCheck(health)
-
-      // Three bands, not two. "Not healthy" is a high bar (>= 70 and zero
-      // issues), so it fires for a campaign with one minor rough edge —
-      // which made the warning easy to ignore and hid the campaigns that
-      // are genuinely in trouble. needsIntervention is the low bar, and
-      // it's the same rule the health endpoint and the admin panel read.
-      if (needsIntervention(health)) {
-        console.warn(`🚨 Campaign needs intervention (${health.score}/100):`)
-        health.issues.forEach(issue => console.warn(`  - ${issue}`))
-        console.warn('💡 Recommendations:')
-        health.recommendations.forEach(rec => console.warn(`  - ${rec}`))
-      } else if (!health.isHealthy) {
-        console.log(`🩺 Campaign health: ${health.score}/100 — ${health.issues.length} issue(s)`)
-      } else {
-        console.log(`✅ Campaign health: ${health.score}/100`)
-      }
-    }
+    console.log('✅ Campaign memory created')
+  } catch (memoryError) {
+    // Don't fail the entire scene resolution if memory creation fails
+    const errorMsg = memoryError instanceof Error ? memoryError.message : String(memoryError)
+    console.error('⚠️  Campaign memory creation failed (non-critical):', errorMsg)
+  }
 
-    return {
-      success: true,
-      sceneText: aiResponse.scene_text,
-      updates: summarizeWorldUpdates(aiResponse),
-      newTurnNumber: currentTurn + 1
+  // Phase 15.4: Check campaign health periodically
+  if (currentTurn % 5 === 0) { // Check every 5 scenes
+    console.log('🏥 Running campaign health check...')
+    const healthMonitor = new CampaignHealthMonitor(campaignId)
+    const health = await healthMonitor.calculateHealth()
+    await healthMonitor.recordHealthCheck(health)
+
+    // Three bands, not two. "Not healthy" is a high bar (>= 70 and zero
+    // issues), so it fires for a campaign with one minor rough edge —
+    // which made the warning easy to ignore and hid the campaigns that
+    // are genuinely in trouble. needsIntervention is the low bar, and
+    // it's the same rule the health endpoint and the admin panel read.
+    if (needsIntervention(health)) {
+      console.warn(`🚨 Campaign needs intervention (${health.score}/100):`)
+      health.issues.forEach(issue => console.warn(`  - ${issue}`))
+      console.warn('💡 Recommendations:')
+      health.recommendations.forEach(rec => console.warn(`  - ${rec}`))
+    } else if (!health.isHealthy) {
+      console.log(`🩺 Campaign health: ${health.score}/100 — ${health.issues.length} issue(s)`)
+    } else {
+      console.log(`✅ Campaign health: ${health.score}/100`)
     }
-  } catch (error) {
-    // Just re-throw the error - it will be caught by the outer try-catch in resolveScene
-    // which will handle status reversion and Pusher notifications
-    throw error
   }
+
+  return {
+    success: true,
+    sceneText: aiResponse.scene_text,
+    updates: summarizeWorldUpdates(aiResponse),
+    newTurnNumber: currentTurn + 1,
+    reviewId: null as string | null
+  }
+}
+
+/**
+ * Publish a resolution held for GM review: the admin's edited response
+ * goes through applyResolution against the scene and clock as they stand
+ * now. The caller (resolutionReview.ts) owns the review row, the edits and
+ * the pause check; this is only the resolver's half.
+ */
+export async function publishReviewedResolution(input: {
+  campaignId: string
+  sceneId: string
+  aiRequest: AIGMRequest
+  aiResponse: AIGMResponse
+  exchangeRng: Rng
+}) {
+  const { campaignId, sceneId } = input
+  const scene = await prisma.scene.findUnique({
+    where: { id: sceneId },
+    include: { playerActions: true }
+  })
+  if (!scene) {
+    throw new Error('Scene not found')
+  }
+  const clock = await loadResolutionClock(campaignId)
+  return applyResolution({
+    campaignId,
+    sceneId,
+    scene,
+    exchangeManager: new ExchangeManager(campaignId, sceneId),
+    clock,
+    aiRequest: input.aiRequest,
+    aiResponse: input.aiResponse,
+    exchangeRng: input.exchangeRng
+  })
 }
 
 /**
@@ -1002,7 +1172,7 @@ export async function getRecentScenes(campaignId: string, limit: number = 5) {
 
 /**
  * Check if a user can trigger scene resolution
- * Only admins can resolve scenes
+ * Only GMs (admins and co-hosts) can resolve scenes
  */
 export async function canUserResolveScene(
   userId: string,
@@ -1010,7 +1180,7 @@ export async function canUserResolveScene(
 ): Promise<boolean> {
   const membership = await getCampaignMembership(userId, campaignId)
 
-  return membership?.role === 'ADMIN'
+  return can(membership?.role, 'scenes.run')
 }
 
 /**
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildBalanceReport,
+  formatBalanceReport,
+  tallyTurnChanges,
+  RUNAWAY_TERRITORY_SHARE,
+  type FactionSample,
+  type TurnRecord,
+} from '../balanceReport'
+import type { WorldChange } from '../../tick/types'
+
+const change = (field: string, extra: Partial<WorldChange> = {}): WorldChange => ({
+  entityType: 'FACTION',
+  entityId: 'court',
+  entityName: 'Grey Court',
+  campaignId: 'sandbox',
+  field,
+  previousValue: 'x',
+  newValue: 'y',
+  reason: 'test',
+  significant: true,
+  importance: 'MAJOR',
+  ...extra,
+})
+
+const faction = (id: string, territory: number, extra: Partial<FactionSample> = {}): FactionSample => ({
+  id,
+  name: id === 'court' ? 'Grey Court' : 'Shadow Hand',
+  isActive: true,
+  resources: 50,
+  military: 50,
+  stability: 50,
+  influence: 50,
+  territory,
+  ...extra,
+})
+
+const record = (turnNumber: number, extra: Partial<TurnRecord> = {}): TurnRecord => ({
+  turnNumber,
+  factions: [faction('court', 2), faction('shadow', 2)],
+  totalLocations: 10,
+  warsStarted: 0,
+  warsEnded: 0,
+  collapses: [],
+  migrants: 0,
+  clocksResolved: 0,
+  integrity: null,
+  handlerTimings: [],
+  ...extra,
+})
+
+describe('tallyTurnChanges', () => {
+  it('counts a declaration as a war started and every way a war ends as one ended', () => {
+    const tally = tallyTurnChanges([change('warDeclared'), change('warResolved'), change('warEnded'), change('warJoined')])
+    expect(tally.warsStarted).toBe(1)
+    // warJoined widens a war that already started — not a new one.
+    expect(tally.warsEnded).toBe(2)
+  })
+
+  it('names the faction that collapsed', () => {
+    const tally = tallyTurnChanges([change('collapsed', { entityId: 'shadow', entityName: 'Shadow Hand' })])
+    expect(tally.collapses).toEqual([{ factionId: 'shadow', factionName: 'Shadow Hand' }])
+  })
+
+  it('counts refugees once, on arrival', () => {
+    const population = (previousValue: number, newValue: number) =>
+      change('population', { entityType: 'LOCATION_POPULATION', previousValue, newValue, significant: false })
+    const tally = tallyTurnChanges([population(500, 470), population(200, 230)])
+    expect(tally.migrants).toBe(30)
+  })
+})
+
+describe('buildBalanceReport', () => {
+  it('draws each faction\'s curve across every turn', () => {
+    const report = buildBalanceReport([
+      record(5),
+      record(6, { factions: [faction('court', 4, { military: 70 }), faction('shadow', 1)] }),
+    ])
+
+    const court = report.factions.find((f) => f.id === 'court')!
+    expect(court.points.map((p) => [p.turnNumber, p.territory, p.military])).toEqual([[5, 2, 50], [6, 4, 70]])
+    expect(court.peakTerritory).toBe(4)
+    expect(report.firstTurn).toBe(5)
+    expect(report.lastTurn).toBe(6)
+  })
+
+  it('totals the run\'s wars, migrants and clocks', () => {
+    const report = buildBalanceReport([
+      record(1, { warsStarted: 1, migrants: 40, clocksResolved: 1 }),
+      record(2, { warsEnded: 1, migrants: 10, clocksResolved: 2 }),
+    ])
+    expect(report).toMatchObject({ warsStarted: 1, warsEnded: 1, migrants: 50, clocksResolved: 3 })
+  })
+
+  it('dates a collapse from the change, not from a faction that was already gone', () => {
+    const report = buildBalanceReport([
+      record(1, { factions: [faction('court', 2), faction('shadow', 0, { isActive: false })] }),
+      record(2, {
+        factions: [faction('court', 0, { isActive: false }), faction('shadow', 0, { isActive: false })],
+        collapses: [{ factionId: 'court', factionName: 'Grey Court' }],
+      }),
+    ])
+
+    expect(report.collapses).toEqual([{ turnNumber: 2, factionId: 'court', factionName: 'Grey Court' }])
+    expect(report.factions.find((f) => f.id === 'court')!.collapsedOnTurn).toBe(2)
+    expect(report.factions.find((f) => f.id === 'shadow')!.collapsedOnTurn).toBeNull()
+  })
+
+  it('flags the first turn one faction holds half the map', () => {
+    const report = buildBalanceReport([
+      record(1),
+      record(2, { factions: [faction('court', 5), faction('shadow', 1)] }),
+      record(3, { factions: [faction('court', 7), faction('shadow', 1)] }),
+    ])
+    expect(report.runaway).toEqual({ factionId: 'court', factionName: 'Grey Court', turnNumber: 2, share: RUNAWAY_TERRITORY_SHARE })
+  })
+
+  it('finds no runaway in a balanced world', () => {
+    expect(buildBalanceReport([record(1), record(2)]).runaway).toBeNull()
+  })
+
+  it('keeps integrity findings per turn, skipping turns with no report', () => {
+    const integrity = { violations: 2, repairs: 1, unrepaired: 1, escalations: 0 }
+    const report = buildBalanceReport([record(1, { integrity }), record(2)])
+    expect(report.integrity).toEqual([{ turnNumber: 1, ...integrity }])
+  })
+
+  it('sums handler timings and ranks the slowest first', () => {
+    const report = buildBalanceReport([
+      record(1, { handlerTimings: [{ handler: 'tickWeather', ms: 2 }, { handler: 'tickWars', ms: 10 }] }),
+      record(2, { handlerTimings: [{ handler: 'tickWeather', ms: 4 }, { handler: 'tickWars', ms: 30 }] }),
+    ])
+    expect(report.handlerTimings).toEqual([
+      { handler: 'tickWars', totalMs: 40, meanMs: 20, maxMs: 30 },
+      { handler: 'tickWeather', totalMs: 6, meanMs: 3, maxMs: 4 },
+    ])
+  })
+})
+
+describe('formatBalanceReport', () => {
+  it('says so when nothing ran', () => {
+    expect(formatBalanceReport(buildBalanceReport([]))).toBe('No turns were simulated.')
+  })
+
+  it('samples long curves down to a readable width, always ending on the last turn', () => {
+    const records = Array.from({ length: 40 }, (_, i) => record(i + 1))
+    const text = formatBalanceReport(buildBalanceReport(records), 4)
+    const courtLine = text.split('\n')[text.split('\n').indexOf('  Grey Court') + 1]
+
+    expect(courtLine.match(/t\d+/g)).toEqual(['t1', 't11', 't21', 't31', 't40'])
+  })
+
+  it('leads the runaway warning with the faction and the turn', () => {
+    const text = formatBalanceReport(buildBalanceReport([record(3, { factions: [faction('court', 6), faction('shadow', 0)] })]))
+    expect(text).toContain('Runaway: Grey Court held 60% of the map by turn 3')
+  })
+})
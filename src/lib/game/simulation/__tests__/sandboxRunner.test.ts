@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const h = vi.hoisted(() => ({
+  prisma: {
+    campaignMembership: { findFirst: vi.fn() },
+    campaign: { update: vi.fn(), delete: vi.fn() },
+    worldMeta: { findUnique: vi.fn(), updateMany: vi.fn() },
+    faction: { findMany: vi.fn() },
+    location: { count: vi.fn(), groupBy: vi.fn() },
+  },
+  exportCampaign: vi.fn(),
+  importCampaign: vi.fn(),
+  runWorldTick: vi.fn(),
+  advanceClocks: vi.fn(),
+  checkAndResolveCompletedClocks: vi.fn(),
+  resolveCompletedAmbitions: vi.fn(),
+  applyNpcGoalFallbacks: vi.fn(),
+  commitPendingAmbitions: vi.fn(),
+}))
+const { prisma } = h
+
+vi.mock('@/lib/prisma', () => ({ prisma: h.prisma }))
+vi.mock('@/lib/export/campaign-exporter', () => ({
+  CampaignExporter: { exportCampaign: h.exportCampaign, importCampaign: h.importCampaign },
+}))
+vi.mock('../../worldTick', () => ({ runWorldTick: h.runWorldTick }))
+vi.mock('../../tick/clockTick', () => ({ advanceClocks: h.advanceClocks }))
+vi.mock('../../stateUpdater', () => ({ checkAndResolveCompletedClocks: h.checkAndResolveCompletedClocks }))
+vi.mock('../../tick/ambitionResolution', () => ({ resolveCompletedAmbitions: h.resolveCompletedAmbitions }))
+vi.mock('../../tick/npcGoalFallback', () => ({ applyNpcGoalFallbacks: h.applyNpcGoalFallbacks }))
+vi.mock('../../worldTurnOffscreenEvents', () => ({ commitPendingAmbitions: h.commitPendingAmbitions }))
+
+import { createSandbox, runHeadlessTurn, runSimulation, MAX_SIMULATION_TURNS } from '../sandboxRunner'
+
+const pendingAmbition = { factionId: 'court', factionName: 'Grey Court' }
+let simulationTurn = 0
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  simulationTurn = 11
+  prisma.campaignMembership.findFirst.mockResolvedValue({ userId: 'gm' })
+  prisma.campaign.update.mockResolvedValue({})
+  prisma.campaign.delete.mockResolvedValue({})
+  prisma.worldMeta.findUnique.mockImplementation(async (args: any) =>
+    args.select.integrityReportHistory
+      ? {
+          integrityReportHistory: [
+            { turnNumber: simulationTurn, violationsFound: 2, repairsApplied: 1, unrepaired: [{}], escalations: [] },
+          ],
+        }
+      : { simulationTurn, totalElapsedGameHours: 60 }
+  )
+  prisma.worldMeta.updateMany.mockResolvedValue({ count: 1 })
+  prisma.faction.findMany.mockResolvedValue([
+    { id: 'court', name: 'Grey Court', isActive: true, resources: 60, military: 55, stability: 40, influence: 50 },
+    { id: 'shadow', name: 'Shadow Hand', isActive: true, resources: 30, military: 35, stability: 45, influence: 20 },
+  ])
+  prisma.location.count.mockResolvedValue(6)
+  prisma.location.groupBy.mockResolvedValue([{ ownerFactionId: 'court', _count: { _all: 4 } }])
+
+  h.exportCampaign.mockResolvedValue({ campaign: { title: 'Ashfall' }, tables: {} })
+  h.importCampaign.mockResolvedValue({ campaign: { id: 'sandbox', title: 'Ashfall (sandbox)' }, imported: {}, dropped: {} })
+  h.runWorldTick.mockImplementation(async (_campaignId: string, turnNumber: number) => {
+    // The real tick advances the counter in its own transaction.
+    simulationTurn = turnNumber
+    return {
+      changes: [
+        { entityType: 'FACTION', entityId: 'court', entityName: 'Grey Court', field: 'warDeclared', previousValue: 'rivals', newValue: 'at war' },
+        { entityType: 'NPC', entityId: 'npc1', entityName: 'Mara', field: 'goalCompleted', previousValue: 'Find the heir', newValue: '' },
+      ],
+      pendingAmbitions: [pendingAmbition],
+      handlerTimings: [{ handler: 'tickWars', ms: 3 }],
+    }
+  })
+  h.advanceClocks.mockResolvedValue([])
+  h.checkAndResolveCompletedClocks.mockResolvedValue([{ id: 'c1', sourceFactionId: 'court' }, { id: 'c2', sourceFactionId: null }])
+  h.resolveCompletedAmbitions.mockResolvedValue([
+    { entityType: 'FACTION', entityId: 'shadow', entityName: 'Shadow Hand', field: 'collapsed', previousValue: 'active', newValue: 'absorbed' },
+  ])
+})
+
+describe('createSandbox', () => {
+  it('imports a full export for the source\'s admin alone, titled as a sandbox', async () => {
+    const sandbox = await createSandbox('camp1')
+
+    expect(h.exportCampaign).toHaveBeenCalledWith('camp1')
+    const [, userId, options] = h.importCampaign.mock.calls[0]
+    expect(userId).toBe('gm')
+    // No members copied: nobody else's lobby grows a sandbox.
+    expect(options).toEqual({ title: 'Ashfall (sandbox)' })
+    expect(sandbox).toEqual({ id: 'sandbox', title: 'Ashfall (sandbox)' })
+  })
+
+  it('marks the sandbox inactive, so the daily sweep never narrates it', async () => {
+    await createSandbox('camp1')
+    expect(prisma.campaign.update).toHaveBeenCalledWith({ where: { id: 'sandbox' }, data: { isActive: false } })
+  })
+
+  it('clears an in-flight marker the parent was exported with', async () => {
+    await createSandbox('camp1')
+    expect(prisma.worldMeta.updateMany).toHaveBeenCalledWith({
+      where: { campaignId: 'sandbox' },
+      data: { turnInFlight: null, turnPhaseCompleted: 0 },
+    })
+  })
+
+  it('uses the owner it is given', async () => {
+    await createSandbox('camp1', 'tuner')
+    expect(prisma.campaignMembership.findFirst).not.toHaveBeenCalled()
+    expect(h.importCampaign.mock.calls[0][1]).toBe('tuner')
+  })
+
+  it('refuses a campaign with no admin before exporting anything', async () => {
+    prisma.campaignMembership.findFirst.mockResolvedValue(null)
+    await expect(createSandbox('camp1')).rejects.toThrow('no admin')
+    expect(h.exportCampaign).not.toHaveBeenCalled()
+  })
+})
+
+describe('runHeadlessTurn', () => {
+  it('ticks the next simulation turn offline', async () => {
+    await runHeadlessTurn('sandbox')
+    expect(h.runWorldTick).toHaveBeenCalledWith('sandbox', 12, { offline: true })
+  })
+
+  it('runs the AI-free phases of a world turn, in runWorldTurn\'s order', async () => {
+    await runHeadlessTurn('sandbox')
+
+    expect(h.advanceClocks).toHaveBeenCalledWith('sandbox', 12)
+    expect(h.checkAndResolveCompletedClocks).toHaveBeenCalledWith('sandbox', 12, 2)
+    // Only the ambition clock goes to ambition resolution.
+    expect(h.resolveCompletedAmbitions).toHaveBeenCalledWith('sandbox', 12, [{ id: 'c1', sourceFactionId: 'court' }], 2, { offline: true })
+    // No picks: every pending ambition takes its deterministic fallback.
+    expect(h.commitPendingAmbitions).toHaveBeenCalledWith('sandbox', [pendingAmbition])
+    expect(h.applyNpcGoalFallbacks).toHaveBeenCalledWith('sandbox', [{ npcId: 'npc1', npcName: 'Mara', completedGoal: 'Find the heir' }])
+
+    const order = [h.runWorldTick, h.advanceClocks, h.checkAndResolveCompletedClocks, h.resolveCompletedAmbitions, h.commitPendingAmbitions]
+      .map((fn) => fn.mock.invocationCallOrder[0])
+    expect(order).toEqual([...order].sort((a, b) => a - b))
+  })
+
+  it('clears the in-flight marker the tick set', async () => {
+    await runHeadlessTurn('sandbox')
+    expect(prisma.worldMeta.updateMany).toHaveBeenCalledWith({
+      where: { campaignId: 'sandbox', turnInFlight: 12 },
+      data: { turnInFlight: null, turnPhaseCompleted: 0 },
+    })
+  })
+
+  it('samples the world the turn left behind, counting the ambition phase\'s changes too', async () => {
+    const record = await runHeadlessTurn('sandbox')
+
+    expect(record).toMatchObject({
+      turnNumber: 12,
+      totalLocations: 6,
+      warsStarted: 1,
+      collapses: [{ factionId: 'shadow', factionName: 'Shadow Hand' }],
+      clocksResolved: 2,
+      integrity: { violations: 2, repairs: 1, unrepaired: 1, escalations: 0 },
+      handlerTimings: [{ handler: 'tickWars', ms: 3 }],
+    })
+    expect(record.factions.map((f) => [f.id, f.territory])).toEqual([['court', 4], ['shadow', 0]])
+  })
+
+  it('reports no integrity tally when the pass persisted nothing for this turn', async () => {
+    prisma.worldMeta.findUnique.mockImplementation(async (args: any) =>
+      args.select.integrityReportHistory ? { integrityReportHistory: [] } : { simulationTurn, totalElapsedGameHours: 60 }
+    )
+    expect((await runHeadlessTurn('sandbox')).integrity).toBeNull()
+  })
+})
+
+describe('runSimulation', () => {
+  it('runs the asked-for turns and reports on them', async () => {
+    const onTurn = vi.fn()
+    const result = await runSimulation('camp1', { turns: 3, onTurn })
+
+    expect(h.runWorldTick.mock.calls.map((c) => c[1])).toEqual([12, 13, 14])
+    expect(onTurn).toHaveBeenCalledTimes(3)
+    expect(result.report.turnsRun).toBe(3)
+    expect(result.report.warsStarted).toBe(3)
+  })
+
+  it('deletes the sandbox afterwards unless asked to keep it', async () => {
+    await runSimulation('camp1', { turns: 1 })
+    expect(prisma.campaign.delete).toHaveBeenCalledWith({ where: { id: 'sandbox' } })
+
+    prisma.campaign.delete.mockClear()
+    const kept = await runSimulation('camp1', { turns: 1, keepSandbox: true })
+    expect(prisma.campaign.delete).not.toHaveBeenCalled()
+    expect(kept.kept).toBe(true)
+  })
+
+  it('still deletes the sandbox when a turn throws, and surfaces the error', async () => {
+    h.runWorldTick.mockRejectedValueOnce(new Error('tick failed'))
+    await expect(runSimulation('camp1', { turns: 2 })).rejects.toThrow('tick failed')
+    expect(prisma.campaign.delete).toHaveBeenCalledWith({ where: { id: 'sandbox' } })
+  })
+
+  it.each([0, 2.5, MAX_SIMULATION_TURNS + 1])('refuses %s turns before creating anything', async (turns) => {
+    await expect(runSimulation('camp1', { turns })).rejects.toThrow('turns must be')
+    expect(h.exportCampaign).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,243 @@
+// src/lib/game/simulation/balanceReport.ts
+// What a headless simulation run (sandboxRunner.ts) learned, turned into
+// numbers someone tuning factionTick.ts's deltas can read: each faction's
+// power curve, wars started and ended, collapses, refugees, clocks
+// resolved, integrity findings and handler timings, turn by turn.
+//
+// Pure — the runner samples the sandbox after every turn into a TurnRecord
+// and hands the list here. Nothing in this file reads the database, so the
+// report's arithmetic is tested without one.
+
+import type { HandlerTiming, WorldChange } from '../tick/types'
+
+/**
+ * Share of every location in the world one faction has to hold before the
+ * run is flagged as runaway. Half the map is well past anything a seeded
+ * world starts with, and past the point a player can still meaningfully
+ * push back — the "one faction eating the map by turn 40" this report
+ * exists to catch before a real campaign does.
+ */
+export const RUNAWAY_TERRITORY_SHARE = 0.5
+
+export interface FactionSample {
+  id: string
+  name: string
+  isActive: boolean
+  resources: number
+  military: number
+  stability: number
+  influence: number
+  /** Locations this faction owns (Location.ownerFactionId). */
+  territory: number
+}
+
+/** What one turn's WorldChanges added up to — see tallyTurnChanges. */
+export interface TurnTally {
+  warsStarted: number
+  warsEnded: number
+  collapses: Array<{ factionId: string; factionName: string }>
+  /** People who arrived somewhere fleeing somewhere worse. */
+  migrants: number
+}
+
+/** One turn's integrity pass, as persisted to WorldMeta. */
+export interface IntegrityTally {
+  violations: number
+  repairs: number
+  unrepaired: number
+  escalations: number
+}
+
+export interface TurnRecord extends TurnTally {
+  turnNumber: number
+  factions: FactionSample[]
+  totalLocations: number
+  clocksResolved: number
+  /** Null when the pass persisted no report for this turn. */
+  integrity: IntegrityTally | null
+  handlerTimings: HandlerTiming[]
+}
+
+export interface FactionCurve {
+  id: string
+  name: string
+  points: Array<Omit<FactionSample, 'id' | 'name'> & { turnNumber: number }>
+  peakTerritory: number
+  /** Null while the faction still stands at the end of the run. */
+  collapsedOnTurn: number | null
+}
+
+export interface HandlerTimingSummary {
+  handler: string
+  totalMs: number
+  meanMs: number
+  maxMs: number
+}
+
+export interface RunawayFinding {
+  factionId: string
+  factionName: string
+  /** The first turn the faction crossed RUNAWAY_TERRITORY_SHARE. */
+  turnNumber: number
+  share: number
+}
+
+export interface BalanceReport {
+  turnsRun: number
+  firstTurn: number | null
+  lastTurn: number | null
+  factions: FactionCurve[]
+  warsStarted: number
+  warsEnded: number
+  collapses: Array<{ turnNumber: number; factionId: string; factionName: string }>
+  migrants: number
+  clocksResolved: number
+  integrity: Array<IntegrityTally & { turnNumber: number }>
+  handlerTimings: HandlerTimingSummary[]
+  runaway: RunawayFinding | null
+}
+
+/**
+ * Count what a turn's changes mean for balance. A war ends when a side
+ * collapses (warEnded) or resolves (warResolved, from warTick's roll or a
+ * diplomacy settlement) — either way it is one war over. Migrants are the
+ * arrivals side of migrationTick's LOCATION_POPULATION shifts; the
+ * departures are the same people, so counting both would double them.
+ */
+export function tallyTurnChanges(changes: WorldChange[]): TurnTally {
+  const tally: TurnTally = { warsStarted: 0, warsEnded: 0, collapses: [], migrants: 0 }
+  for (const change of changes) {
+    if (change.field === 'warDeclared') tally.warsStarted++
+    else if (change.field === 'warEnded' || change.field === 'warResolved') tally.warsEnded++
+    else if (change.field === 'collapsed') tally.collapses.push({ factionId: change.entityId, factionName: change.entityName })
+    else if (change.entityType === 'LOCATION_POPULATION' && change.field === 'population') {
+      const arrived = Number(change.newValue) - Number(change.previousValue)
+      if (arrived > 0) tally.migrants += arrived
+    }
+  }
+  return tally
+}
+
+export function buildBalanceReport(records: TurnRecord[]): BalanceReport {
+  const curves = new Map<string, FactionCurve>()
+  const timings = new Map<string, { totalMs: number; maxMs: number; count: number }>()
+  const report: BalanceReport = {
+    turnsRun: records.length,
+    firstTurn: records[0]?.turnNumber ?? null,
+    lastTurn: records.at(-1)?.turnNumber ?? null,
+    factions: [],
+    warsStarted: 0,
+    warsEnded: 0,
+    collapses: [],
+    migrants: 0,
+    clocksResolved: 0,
+    integrity: [],
+    handlerTimings: [],
+    runaway: null,
+  }
+
+  for (const record of records) {
+    report.warsStarted += record.warsStarted
+    report.warsEnded += record.warsEnded
+    report.migrants += record.migrants
+    report.clocksResolved += record.clocksResolved
+    for (const collapse of record.collapses) {
+      report.collapses.push({ turnNumber: record.turnNumber, ...collapse })
+    }
+    if (record.integrity) {
+      report.integrity.push({ turnNumber: record.turnNumber, ...record.integrity })
+    }
+
+    for (const { id, name, ...stats } of record.factions) {
+      let curve = curves.get(id)
+      if (!curve) {
+        curve = { id, name, points: [], peakTerritory: 0, collapsedOnTurn: null }
+        curves.set(id, curve)
+      }
+      curve.points.push({ turnNumber: record.turnNumber, ...stats })
+      curve.peakTerritory = Math.max(curve.peakTerritory, stats.territory)
+
+      const share = record.totalLocations > 0 ? stats.territory / record.totalLocations : 0
+      if (!report.runaway && stats.isActive && share >= RUNAWAY_TERRITORY_SHARE) {
+        report.runaway = { factionId: id, factionName: name, turnNumber: record.turnNumber, share }
+      }
+    }
+
+    for (const { handler, ms } of record.handlerTimings) {
+      const entry = timings.get(handler) ?? { totalMs: 0, maxMs: 0, count: 0 }
+      entry.totalMs += ms
+      entry.maxMs = Math.max(entry.maxMs, ms)
+      entry.count++
+      timings.set(handler, entry)
+    }
+  }
+
+  // From the collapse changes rather than isActive flipping in the samples:
+  // a faction already gone when the run started fell before it, not during.
+  for (const collapse of report.collapses) {
+    const curve = curves.get(collapse.factionId)
+    if (curve && curve.collapsedOnTurn === null) curve.collapsedOnTurn = collapse.turnNumber
+  }
+  report.factions = Array.from(curves.values())
+  report.handlerTimings = Array.from(timings, ([handler, t]) => ({
+    handler,
+    totalMs: t.totalMs,
+    meanMs: t.totalMs / t.count,
+    maxMs: t.maxMs,
+  })).sort((a, b) => b.totalMs - a.totalMs)
+
+  return report
+}
+
+/**
+ * The report as a terminal table. Power curves are printed at up to
+ * `curvePoints` evenly spaced turns (always including the last) — forty
+ * columns of five stats each is not something anyone reads; --json has
+ * every turn.
+ */
+export function formatBalanceReport(report: BalanceReport, curvePoints = 8): string {
+  if (report.turnsRun === 0) return 'No turns were simulated.'
+
+  const lines: string[] = [
+    `Simulated turns ${report.firstTurn}–${report.lastTurn} (${report.turnsRun} turn${report.turnsRun === 1 ? '' : 's'})`,
+    '',
+    `Wars started ${report.warsStarted}, ended ${report.warsEnded}`,
+    `Collapses ${report.collapses.length}${report.collapses.length > 0 ? ': ' + report.collapses.map((c) => `${c.factionName} (turn ${c.turnNumber})`).join(', ') : ''}`,
+    `Migrants ${report.migrants}`,
+    `Clocks resolved ${report.clocksResolved}`,
+  ]
+
+  const firstPoints = report.factions[0]?.points ?? []
+  const step = Math.max(1, Math.ceil(firstPoints.length / curvePoints))
+  const shownTurns = new Set(
+    firstPoints.filter((_, i) => i % step === 0 || i === firstPoints.length - 1).map((p) => p.turnNumber)
+  )
+  lines.push('', 'Power curves (territory / resources / military / stability)')
+  for (const curve of report.factions) {
+    const shown = curve.points
+      .filter((p) => shownTurns.has(p.turnNumber))
+      .map((p) => `t${p.turnNumber} ${p.territory}/${p.resources}/${p.military}/${p.stability}`)
+    const fate = curve.collapsedOnTurn !== null ? `  collapsed turn ${curve.collapsedOnTurn}` : ''
+    lines.push(`  ${curve.name}${fate}`, `    ${shown.join('  ')}`)
+  }
+
+  const troubled = report.integrity.filter((t) => t.violations > 0)
+  lines.push('', `Integrity: ${troubled.length} of ${report.integrity.length} passes found violations`)
+  for (const t of troubled) {
+    lines.push(`  turn ${t.turnNumber}: ${t.violations} found, ${t.repairs} repaired, ${t.unrepaired} unrepaired, ${t.escalations} escalated`)
+  }
+
+  lines.push('', 'Handler timings (ms: total / mean / max)')
+  for (const t of report.handlerTimings) {
+    lines.push(`  ${t.handler.padEnd(28)} ${t.totalMs.toFixed(0).padStart(7)} ${t.meanMs.toFixed(1).padStart(8)} ${t.maxMs.toFixed(1).padStart(8)}`)
+  }
+
+  lines.push(
+    '',
+    report.runaway
+      ? `⚠️  Runaway: ${report.runaway.factionName} held ${Math.round(report.runaway.share * 100)}% of the map by turn ${report.runaway.turnNumber}`
+      : `No faction reached ${Math.round(RUNAWAY_TERRITORY_SHARE * 100)}% of the map`
+  )
+
+  return lines.join('\n')
+}
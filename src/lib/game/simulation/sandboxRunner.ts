@@ -0,0 +1,220 @@
+// src/lib/game/simulation/sandboxRunner.ts
+// Headless multi-turn simulation: copy a campaign into a sandbox, run its
+// world forward N turns with no AI anywhere, and sample it after every
+// turn for the balance report (balanceReport.ts). The tool for tuning
+// factionTick.ts's deltas and catching runaway dynamics before a real
+// campaign's players do. CLI: scripts/simulate-world.ts.
+//
+// The sandbox is an import of a full export — the same path forks and
+// backups use (export/campaignFork.ts), so it carries every row the tick
+// reads and the parent is never written to. It is owned by one admin,
+// shared with nobody, and marked inactive so the cron sweep never turns
+// it; unless asked to keep it, it is deleted when the run ends.
+//
+// Each turn is the AI-free part of runWorldTurn, in the same order:
+//
+//   - runWorldTick, offline — committed like a real tick, minus the paid
+//     embeddings (see its own comment)
+//   - advanceClocks, then checkAndResolveCompletedClocks
+//   - resolveCompletedAmbitions, offline
+//   - pending ambitions committed as clocks with their deterministic
+//     fallback flavor — what a real turn does for any faction the AI
+//     skipped
+//   - applyNpcGoalFallbacks for NPCs whose goal just completed
+//
+// Left out, because each is an AI call: offscreen events, the chronicle,
+// a generic clock's follow-through (resolveGenericClockEffects) and
+// memory consolidation. The world digest is left out too — it notifies
+// members, and the sandbox has none worth notifying. No scenes run, so
+// the in-game clock stands still exactly as it does for an idle campaign
+// the cron sweep is turning.
+
+import { prisma } from '@/lib/prisma'
+import { CampaignExporter } from '@/lib/export/campaign-exporter'
+import { runWorldTick } from '../worldTick'
+import { advanceClocks } from '../tick/clockTick'
+import { checkAndResolveCompletedClocks } from '../stateUpdater'
+import { resolveCompletedAmbitions } from '../tick/ambitionResolution'
+import { applyNpcGoalFallbacks } from '../tick/npcGoalFallback'
+import { commitPendingAmbitions } from '../worldTurnOffscreenEvents'
+import { TURN_PHASE } from '../tick/simulationClock'
+import { simTurn, type SimTurn } from '../turnClock'
+import type { HandlerTiming, WorldChange } from '../tick/types'
+import type { IntegrityReport } from '../integrity/types'
+import { buildBalanceReport, tallyTurnChanges, type BalanceReport, type TurnRecord } from './balanceReport'
+
+/**
+ * Every turn is a committed transaction over a full-size world; this keeps
+ * a mistyped --turns from running overnight.
+ */
+export const MAX_SIMULATION_TURNS = 200
+
+export interface Sandbox {
+  id: string
+  title: string
+}
+
+export interface SimulationOptions {
+  turns: number
+  /** Who owns the sandbox. Defaults to the source campaign's first admin. */
+  userId?: string
+  /** Leave the sandbox in place afterwards, to open it and look around. */
+  keepSandbox?: boolean
+  /** Called after each turn — progress output for the CLI. */
+  onTurn?: (record: TurnRecord) => void
+}
+
+export interface SimulationResult {
+  sandbox: Sandbox
+  kept: boolean
+  records: TurnRecord[]
+  report: BalanceReport
+}
+
+/** Copy `campaignId` into a new, inactive, single-owner campaign. */
+export async function createSandbox(campaignId: string, userId?: string): Promise<Sandbox> {
+  const ownerId = userId ?? (
+    await prisma.campaignMembership.findFirst({
+      where: { campaignId, role: 'ADMIN' },
+      orderBy: { joinedAt: 'asc' },
+      select: { userId: true },
+    })
+  )?.userId
+  if (!ownerId) {
+    throw new Error(`Campaign ${campaignId} has no admin to own a sandbox — pass a user id`)
+  }
+
+  const exported = await CampaignExporter.exportCampaign(campaignId)
+  // No members: the owner alone, as the import of a file from anywhere
+  // would be. A sandbox is nobody's campaign to play.
+  const { campaign } = await CampaignExporter.importCampaign(exported, ownerId, {
+    title: `${exported.campaign.title} (sandbox)`,
+  })
+
+  // Import always creates an active campaign; inactive keeps the daily
+  // sweep from running AI-narrated world turns on it.
+  await prisma.campaign.update({ where: { id: campaign.id }, data: { isActive: false } })
+  // A parent exported mid-turn would hand the sandbox its in-flight marker.
+  // Every sandbox turn starts fresh from simulationTurn + 1.
+  await prisma.worldMeta.updateMany({
+    where: { campaignId: campaign.id },
+    data: { turnInFlight: null, turnPhaseCompleted: TURN_PHASE.NOTHING },
+  })
+
+  return campaign
+}
+
+/** Run one AI-free world turn on the sandbox and sample what it did. */
+export async function runHeadlessTurn(sandboxId: string): Promise<TurnRecord> {
+  const worldMeta = await prisma.worldMeta.findUnique({
+    where: { campaignId: sandboxId },
+    select: { simulationTurn: true, totalElapsedGameHours: true },
+  })
+  if (!worldMeta) {
+    throw new Error('WorldMeta not found')
+  }
+  const turnNumber = simTurn(worldMeta.simulationTurn + 1)
+  const inGameDayNumber = Math.floor(worldMeta.totalElapsedGameHours / 24)
+
+  const tick = await runWorldTick(sandboxId, turnNumber, { offline: true })
+  await advanceClocks(sandboxId, turnNumber)
+  const completedClocks = await checkAndResolveCompletedClocks(sandboxId, turnNumber, inGameDayNumber)
+
+  const completedAmbitionClocks = completedClocks.filter((c) => c.sourceFactionId)
+  const ambitionChanges = completedAmbitionClocks.length > 0
+    ? await resolveCompletedAmbitions(sandboxId, turnNumber, completedAmbitionClocks, inGameDayNumber, { offline: true })
+    : []
+  await commitPendingAmbitions(sandboxId, tick.pendingAmbitions)
+
+  const completedGoalNpcs = tick.changes
+    .filter((c) => c.entityType === 'NPC' && c.field === 'goalCompleted')
+    .map((c) => ({ npcId: c.entityId, npcName: c.entityName, completedGoal: c.previousValue }))
+  if (completedGoalNpcs.length > 0) {
+    await applyNpcGoalFallbacks(sandboxId, completedGoalNpcs)
+  }
+
+  // The tick claimed the turn as in-flight; a turn with nothing left to
+  // run clears it, as runWorldTurn does.
+  await prisma.worldMeta.updateMany({
+    where: { campaignId: sandboxId, turnInFlight: turnNumber },
+    data: { turnInFlight: null, turnPhaseCompleted: TURN_PHASE.NOTHING },
+  })
+
+  return sampleTurn(sandboxId, turnNumber, [...tick.changes, ...ambitionChanges], completedClocks.length, tick.handlerTimings)
+}
+
+/** The world as it stands after `turnNumber`, plus what that turn did. */
+async function sampleTurn(
+  sandboxId: string,
+  turnNumber: SimTurn,
+  changes: WorldChange[],
+  clocksResolved: number,
+  handlerTimings: HandlerTiming[]
+): Promise<TurnRecord> {
+  const [factions, totalLocations, holdings, worldMeta] = await Promise.all([
+    prisma.faction.findMany({
+      where: { campaignId: sandboxId },
+      select: { id: true, name: true, isActive: true, resources: true, military: true, stability: true, influence: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.location.count({ where: { campaignId: sandboxId } }),
+    prisma.location.groupBy({
+      by: ['ownerFactionId'],
+      where: { campaignId: sandboxId, ownerFactionId: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.worldMeta.findUnique({ where: { campaignId: sandboxId }, select: { integrityReportHistory: true } }),
+  ])
+
+  const territory = new Map(holdings.map((h) => [h.ownerFactionId, h._count._all]))
+  const history = Array.isArray(worldMeta?.integrityReportHistory)
+    ? (worldMeta!.integrityReportHistory as unknown as IntegrityReport[])
+    : []
+  const integrity = history.findLast((r) => r.turnNumber === turnNumber)
+
+  return {
+    turnNumber,
+    factions: factions.map((f) => ({ ...f, territory: territory.get(f.id) ?? 0 })),
+    totalLocations,
+    ...tallyTurnChanges(changes),
+    clocksResolved,
+    integrity: integrity
+      ? {
+          violations: integrity.violationsFound,
+          repairs: integrity.repairsApplied,
+          unrepaired: integrity.unrepaired.length,
+          escalations: integrity.escalations.length,
+        }
+      : null,
+    handlerTimings,
+  }
+}
+
+/**
+ * Sandbox `campaignId`, run it `turns` world turns, and report. A turn
+ * that throws ends the run with that error — a tick that fails in the
+ * sandbox fails for players too, and is the finding — but the sandbox is
+ * still cleaned up unless it was asked to be kept.
+ */
+export async function runSimulation(campaignId: string, options: SimulationOptions): Promise<SimulationResult> {
+  if (!Number.isInteger(options.turns) || options.turns < 1 || options.turns > MAX_SIMULATION_TURNS) {
+    throw new Error(`turns must be a whole number from 1 to ${MAX_SIMULATION_TURNS}`)
+  }
+
+  const sandbox = await createSandbox(campaignId, options.userId)
+  const kept = options.keepSandbox ?? false
+  const records: TurnRecord[] = []
+  try {
+    for (let i = 0; i < options.turns; i++) {
+      const record = await runHeadlessTurn(sandbox.id)
+      records.push(record)
+      options.onTurn?.(record)
+    }
+  } finally {
+    if (!kept) {
+      await prisma.campaign.delete({ where: { id: sandbox.id } })
+    }
+  }
+
+  return { sandbox, kept, records, report: buildBalanceReport(records) }
+}
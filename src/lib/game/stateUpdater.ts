@@ -14,6 +14,7 @@ import { Clock } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
 import { AIGMResponse } from '@/lib/ai/client'
 import type { ActionMechanics } from './resolution'
+import { rngPosition, type Rng } from './rng'
 import { parseCorruptionTheme, CorruptionTheme } from './corruption'
 
 import { applyTimelineEventChanges } from './worldUpdaters/timelineEvents'
@@ -98,9 +99,17 @@ export async function applyWorldUpdates(
   // parameter, and the offscreen path in particular, correctly witnesses
   // nobody — matching sceneOrigin's own "must not silently teach the AI"
   // comment above, now extended from entity discovery to event knowledge.
-  witnessCharacterIds: string[] = []
+  witnessCharacterIds: string[] = [],
+  // The exchange's seeded stream, continuing from where the dice left it
+  // (see sceneResolver.ts). Only applyCharacterChanges' Taken-Out recovery
+  // roll draws from it. Math.random for the offscreen path, which has no
+  // exchange and rolls nothing.
+  rng: Rng = Math.random
 ): Promise<AppliedWorldUpdates> {
   console.log('💾 Applying world updates to database...')
+  // Where this call's draws begin — stamped on every WorldEvent it writes,
+  // so replaying these updates can start the stream at the same place.
+  const rngStart = rngPosition(rng)
 
   const { world_updates } = aiResponse
 
@@ -209,7 +218,7 @@ export async function applyWorldUpdates(
       // 4. Update player characters
       if (world_updates.pc_changes) {
         const result = await applyCharacterChanges(
-          tx, campaignId, currentTurnNumber, world_updates.pc_changes, charactersForResolution, npcsForResolution, getCorruptionTheme, getAdvancementTrack, sceneOrigin, actionMechanics
+          tx, campaignId, currentTurnNumber, world_updates.pc_changes, charactersForResolution, npcsForResolution, getCorruptionTheme, getAdvancementTrack, sceneOrigin, actionMechanics, rng
         )
         // Corruption gates (#83) refusing a move is a real world event, not
         // a silent no-op — a character the narrator described walking into
@@ -284,7 +293,7 @@ export async function applyWorldUpdates(
       // every window over it meaningless. Several scenes resolving between
       // two world turns legitimately share one simulation turn.
       const eventTurn = await simulationTurn()
-      const { events } = await persistWorldEvents(campaignId, eventTurn, worldChanges)
+      const { events } = await persistWorldEvents(campaignId, eventTurn, worldChanges, rngStart)
 
       // #101: everyone present in this scene WITNESSED whatever significant
       // things just happened in it — this is the scene's whole party, not
@@ -25,6 +25,7 @@
 import { prisma } from '@/lib/prisma'
 import { openaiFetch } from '@/lib/ai/openaiCompat'
 import { AI_MODELS } from '@/lib/ai/models'
+import { isAIConfigured } from '@/lib/ai/providers'
 import { recordAICost, estimateTokenCount } from '@/lib/ai/cost-tracker'
 
 const STUB_CUTOFF_MS = 2 * 60 * 1000
@@ -57,8 +58,7 @@ async function enrichStubEntities<TStub extends StubEntity>(
   sceneText: string,
   spec: StubEnrichmentSpec<TStub>
 ): Promise<void> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) return
+  if (!isAIConfigured(AI_MODELS.EFFICIENT)) return
 
   const cutoff = new Date(Date.now() - STUB_CUTOFF_MS)
   const stubs = await spec.findStubs(campaignId, cutoff)
@@ -69,11 +69,10 @@ async function enrichStubEntities<TStub extends StubEntity>(
   const prompt = spec.buildPrompt(sceneText, stubs)
   const startTime = Date.now()
   try {
-    const response = await openaiFetch('https://api.openai.com/v1/chat/completions', {
+    const response = await openaiFetch('/chat/completions', {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
+        'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         model: AI_MODELS.EFFICIENT,
@@ -0,0 +1,110 @@
+// src/lib/game/tactical/__tests__/board.test.ts
+// Loading a tactical scene's board, and putting the party on it.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    scene: { findUnique: vi.fn() },
+    map: { findFirst: vi.fn(), update: vi.fn(async () => ({})) },
+    character: { findMany: vi.fn() },
+    token: { create: vi.fn(async () => ({})) },
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import { loadTacticalBoard, prepareTacticalBoard } from '../board'
+
+const db = prisma as any
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('loadTacticalBoard', () => {
+  it('is null for a scene that isn\'t in tactical mode, without touching maps', async () => {
+    db.scene.findUnique.mockResolvedValue({ tacticalMode: false })
+    expect(await loadTacticalBoard('scene1')).toBeNull()
+    expect(db.map.findFirst).not.toHaveBeenCalled()
+  })
+
+  it('reads the newest map pinned to the scene', async () => {
+    db.scene.findUnique.mockResolvedValue({ tacticalMode: true })
+    db.map.findFirst.mockResolvedValue({ id: 'map1', gridSize: 40, width: 800, height: 600, tokens: [] })
+
+    const board = await loadTacticalBoard('scene1')
+
+    expect(board).toEqual({ mapId: 'map1', gridSize: 40, width: 800, height: 600, tokens: [] })
+    expect(db.map.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { sceneId: 'scene1' },
+      orderBy: { createdAt: 'desc' },
+    }))
+  })
+
+  it('is null when a tactical scene has no pinned map', async () => {
+    db.scene.findUnique.mockResolvedValue({ tacticalMode: true })
+    db.map.findFirst.mockResolvedValue(null)
+    expect(await loadTacticalBoard('scene1')).toBeNull()
+  })
+})
+
+describe('prepareTacticalBoard', () => {
+  const map = (tokens: unknown[] = []) => ({ id: 'map1', gridSize: 40, width: 200, height: 120, tokens })
+
+  it('is null when the campaign has no active map', async () => {
+    db.map.findFirst.mockResolvedValue(null)
+    expect(await prepareTacticalBoard('camp1', 'scene1')).toBeNull()
+    expect(db.map.update).not.toHaveBeenCalled()
+  })
+
+  it('pins the active map to the scene', async () => {
+    db.map.findFirst.mockResolvedValue(map())
+    db.character.findMany.mockResolvedValue([])
+
+    await prepareTacticalBoard('camp1', 'scene1')
+
+    expect(db.map.update).toHaveBeenCalledWith({ where: { id: 'map1' }, data: { sceneId: 'scene1' } })
+  })
+
+  it('places each living character along the bottom row, owned by characterId', async () => {
+    db.map.findFirst.mockResolvedValue(map())
+    db.character.findMany.mockResolvedValue([{ id: 'char1', name: 'Jason' }, { id: 'char2', name: 'Mira' }])
+
+    const result = await prepareTacticalBoard('camp1', 'scene1')
+
+    expect(result).toEqual({ mapId: 'map1', placed: 2 })
+    expect(db.character.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { campaignId: 'camp1', isAlive: true },
+    }))
+    const created = db.token.create.mock.calls.map((c: any[]) => c[0].data)
+    expect(created[0]).toEqual(expect.objectContaining({ characterId: 'char1', isPlayer: true, x: 0, y: 80 }))
+    expect(created[1]).toEqual(expect.objectContaining({ characterId: 'char2', x: 40, y: 80 }))
+    expect(created[0].metadata).toEqual({ character: { id: 'char1', name: 'Jason' } })
+  })
+
+  it('skips characters already on the board and squares already taken', async () => {
+    db.map.findFirst.mockResolvedValue(map([
+      { x: 0, y: 80, size: 1, characterId: 'char1' },
+      { x: 40, y: 80, size: 1, characterId: null },
+    ]))
+    db.character.findMany.mockResolvedValue([{ id: 'char1', name: 'Jason' }, { id: 'char2', name: 'Mira' }])
+
+    const result = await prepareTacticalBoard('camp1', 'scene1')
+
+    expect(result?.placed).toBe(1)
+    expect(db.token.create).toHaveBeenCalledTimes(1)
+    expect(db.token.create.mock.calls[0][0].data).toEqual(expect.objectContaining({ characterId: 'char2', x: 80, y: 80 }))
+  })
+
+  it('moves up a row when the bottom one is full', async () => {
+    // 200px wide at 40px is five columns.
+    db.map.findFirst.mockResolvedValue(map())
+    db.character.findMany.mockResolvedValue(
+      ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => ({ id, name: id }))
+    )
+
+    await prepareTacticalBoard('camp1', 'scene1')
+
+    expect(db.token.create.mock.calls[5][0].data).toEqual(expect.objectContaining({ x: 0, y: 40 }))
+  })
+})
@@ -0,0 +1,131 @@
+// src/lib/game/tactical/__tests__/grid.test.ts
+// The board-to-band arithmetic: this is what makes moving a token change
+// a roll, so the band edges and the target choice are pinned here.
+
+import { describe, it, expect } from 'vitest'
+import {
+  bandForSquares,
+  footprint,
+  snapToBoard,
+  squaresBetween,
+  tacticalZoneFor,
+  targetToken,
+  type BoardToken,
+  type TacticalBoard,
+} from '../grid'
+
+const GRID = 40
+
+const token = (id: string, column: number, row: number, over: Partial<BoardToken> = {}): BoardToken => ({
+  id,
+  name: id,
+  x: column * GRID,
+  y: row * GRID,
+  size: 1,
+  isPlayer: false,
+  isVisible: true,
+  characterId: null,
+  ...over,
+})
+
+const board = (tokens: BoardToken[]): TacticalBoard => ({ mapId: 'map1', gridSize: GRID, width: 800, height: 600, tokens })
+
+describe('squaresBetween', () => {
+  it('counts a diagonal step as one square', () => {
+    expect(squaresBetween(token('a', 0, 0), token('b', 3, 3), GRID)).toBe(3)
+    expect(squaresBetween(token('a', 0, 0), token('b', 5, 2), GRID)).toBe(5)
+  })
+
+  it('is 1 for adjacent tokens and 0 for tokens on the same square', () => {
+    expect(squaresBetween(token('a', 2, 2), token('b', 3, 3), GRID)).toBe(1)
+    expect(squaresBetween(token('a', 2, 2), token('b', 2, 2), GRID)).toBe(0)
+  })
+
+  it('measures edge to edge, so a big token is adjacent from any side', () => {
+    const ogre = token('ogre', 4, 4, { size: 3 })
+    expect(squaresBetween(token('a', 7, 5), ogre, GRID)).toBe(1)
+    expect(squaresBetween(token('a', 3, 6), ogre, GRID)).toBe(1)
+  })
+
+  it('reads positions off the grid square, not the raw pixel', () => {
+    expect(squaresBetween(token('a', 0, 0, { x: 39 }), token('b', 1, 0), GRID)).toBe(1)
+  })
+})
+
+describe('footprint', () => {
+  it('holds the pixel-era default size to something a map could draw', () => {
+    expect(footprint({ size: 30 })).toBe(4)
+    expect(footprint({ size: 0 })).toBe(1)
+    expect(footprint({ size: 2 })).toBe(2)
+  })
+})
+
+describe('bandForSquares', () => {
+  it('maps distance onto the four zones.ts bands', () => {
+    expect(bandForSquares(0)).toBe('close')
+    expect(bandForSquares(1)).toBe('close')
+    expect(bandForSquares(2)).toBe('near')
+    expect(bandForSquares(4)).toBe('near')
+    expect(bandForSquares(5)).toBe('far')
+    expect(bandForSquares(10)).toBe('far')
+    expect(bandForSquares(11)).toBe('distant')
+  })
+})
+
+describe('targetToken', () => {
+  const hero = token('hero', 0, 0, { isPlayer: true, characterId: 'char1' })
+
+  it('prefers the NPC the classifier named, wherever it stands', () => {
+    const b = board([hero, token('rat', 1, 0), token('Captain Vell', 12, 0)])
+    expect(targetToken(b, hero, 'captain vell')?.id).toBe('Captain Vell')
+  })
+
+  it('falls back to the nearest visible non-player token', () => {
+    const b = board([
+      hero,
+      token('ally', 1, 0, { isPlayer: true, characterId: 'char2' }),
+      token('lurker', 1, 1, { isVisible: false }),
+      token('guard', 3, 0),
+      token('archer', 9, 0),
+    ])
+    expect(targetToken(b, hero)?.id).toBe('guard')
+  })
+
+  it('still finds a named NPC whose token is hidden', () => {
+    const b = board([hero, token('guard', 2, 0), token('Assassin', 6, 0, { isVisible: false })])
+    expect(targetToken(b, hero, 'Assassin')?.id).toBe('Assassin')
+  })
+
+  it('breaks ties on token id so the same board always picks the same target', () => {
+    const b = board([hero, token('zeta', 2, 0), token('alpha', 0, 2)])
+    expect(targetToken(b, hero)?.id).toBe('alpha')
+  })
+})
+
+describe('tacticalZoneFor', () => {
+  it('is the band between the character\'s token and their target', () => {
+    const b = board([token('hero', 0, 0, { isPlayer: true, characterId: 'char1' }), token('guard', 7, 0)])
+    expect(tacticalZoneFor(b, 'char1')).toBe('far')
+  })
+
+  it('is null when the character has no token, so the fiction decides', () => {
+    expect(tacticalZoneFor(board([token('guard', 1, 0)]), 'char1')).toBeNull()
+  })
+
+  it('is null when there is nothing on the board to be near', () => {
+    expect(tacticalZoneFor(board([token('hero', 0, 0, { isPlayer: true, characterId: 'char1' })]), 'char1')).toBeNull()
+  })
+})
+
+describe('snapToBoard', () => {
+  const map = { gridSize: GRID, width: 800, height: 600 }
+
+  it('lands a dropped token on the square under the point', () => {
+    expect(snapToBoard(map, { size: 1 }, 130, 95)).toEqual({ x: 120, y: 80 })
+  })
+
+  it('keeps the whole footprint on the map', () => {
+    expect(snapToBoard(map, { size: 1 }, 5000, -30)).toEqual({ x: 760, y: 0 })
+    expect(snapToBoard(map, { size: 2 }, 799, 599)).toEqual({ x: 720, y: 520 })
+  })
+})
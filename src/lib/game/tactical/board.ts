@@ -0,0 +1,153 @@
+// src/lib/game/tactical/board.ts
+// Reading and setting up a tactical scene's board.
+//
+// The board is an ordinary Map (maps/map-service.ts) — the one the scene's
+// map job generated or an admin made active — pinned to the scene through
+// Map.sceneId when tactical mode is switched on. Pinning rather than
+// "whatever map is active right now" so that a later scene's map going
+// active can't silently move a fight that's still being resolved onto a
+// different room.
+//
+// Generated maps only ever carry NPC and scenery tokens; nothing puts the
+// party on them. prepareTacticalBoard does, once per character: a token
+// per living player character, owned through Token.characterId, on the
+// first free squares along the bottom edge — the party arriving, which an
+// admin or the players then move into position.
+
+import { prisma } from '@/lib/prisma'
+import { footprint, toSquare, type TacticalBoard } from './grid'
+
+/** Matches the PC-indicator green PlayerMapViewer already draws. */
+const PARTY_TOKEN_COLOR = '#10b981'
+
+/** Backstop, not a tuned limit — no table seats this many characters. */
+const MAX_PARTY_TOKENS = 50
+
+/**
+ * The board a tactical scene is played on, or null when the scene isn't in
+ * tactical mode or has no pinned map. Null is the signal to price rolls
+ * from the fiction as usual.
+ */
+export async function loadTacticalBoard(sceneId: string): Promise<TacticalBoard | null> {
+  const scene = await prisma.scene.findUnique({
+    where: { id: sceneId },
+    select: { tacticalMode: true },
+  })
+  if (!scene?.tacticalMode) return null
+
+  // Newest first: a scene whose map was regenerated has had its newer map
+  // pinned by the map job (mapGenQueue.ts), and that's the one on screen.
+  const map = await prisma.map.findFirst({
+    where: { sceneId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      gridSize: true,
+      width: true,
+      height: true,
+      tokens: {
+        select: { id: true, name: true, x: true, y: true, size: true, isPlayer: true, isVisible: true, characterId: true },
+      },
+    },
+  })
+  if (!map) return null
+
+  return { mapId: map.id, gridSize: map.gridSize, width: map.width, height: map.height, tokens: map.tokens }
+}
+
+export interface PreparedBoard {
+  mapId: string
+  /** Party tokens created by this call; 0 when everyone already had one. */
+  placed: number
+}
+
+/**
+ * Pin the campaign's active map to the scene and put every living player
+ * character on it who isn't already there. Idempotent — switching tactical
+ * mode on again after a new character joins only places the newcomer.
+ *
+ * Null when the campaign has no active map yet: there's nothing to play
+ * on, and the caller says so rather than turning the mode on over an empty
+ * board.
+ */
+export async function prepareTacticalBoard(campaignId: string, sceneId: string): Promise<PreparedBoard | null> {
+  const map = await prisma.map.findFirst({
+    where: { campaignId, isActive: true },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      gridSize: true,
+      width: true,
+      height: true,
+      tokens: { select: { x: true, y: true, size: true, characterId: true } },
+    },
+  })
+  if (!map) return null
+
+  await prisma.map.update({ where: { id: map.id }, data: { sceneId } })
+
+  const characters = await prisma.character.findMany({
+    where: { campaignId, isAlive: true },
+    select: { id: true, name: true },
+    orderBy: { createdAt: 'asc' },
+    take: MAX_PARTY_TOKENS,
+  })
+  const onBoard = new Set(map.tokens.map((t) => t.characterId).filter((id): id is string => id !== null))
+  const arriving = characters.filter((c) => !onBoard.has(c.id))
+
+  const squares = freeSquares(map, arriving.length)
+  let placed = 0
+  for (let i = 0; i < arriving.length && i < squares.length; i++) {
+    const character = arriving[i]
+    await prisma.token.create({
+      data: {
+        mapId: map.id,
+        name: character.name,
+        x: squares[i].x,
+        y: squares[i].y,
+        size: 1,
+        color: PARTY_TOKEN_COLOR,
+        isPlayer: true,
+        isVisible: true,
+        characterId: character.id,
+        // The display copy PlayerMapViewer reads to outline "your" token.
+        metadata: { character: { id: character.id, name: character.name } },
+      },
+    })
+    placed++
+  }
+
+  return { mapId: map.id, placed }
+}
+
+/**
+ * Up to `count` unoccupied squares, filling the bottom row left to right,
+ * then the row above. Pixel coordinates of each square's corner.
+ */
+function freeSquares(
+  map: { gridSize: number; width: number; height: number; tokens: Array<{ x: number; y: number; size: number }> },
+  count: number
+): Array<{ x: number; y: number }> {
+  const grid = Math.max(1, map.gridSize)
+  const columns = Math.max(1, Math.floor(map.width / grid))
+  const rows = Math.max(1, Math.floor(map.height / grid))
+
+  const occupied = new Set<string>()
+  for (const token of map.tokens) {
+    const column = toSquare(token.x, grid)
+    const row = toSquare(token.y, grid)
+    const span = footprint(token)
+    for (let dx = 0; dx < span; dx++) {
+      for (let dy = 0; dy < span; dy++) occupied.add(`${column + dx},${row + dy}`)
+    }
+  }
+
+  const squares: Array<{ x: number; y: number }> = []
+  for (let row = rows - 1; row >= 0 && squares.length < count; row--) {
+    for (let column = 0; column < columns && squares.length < count; column++) {
+      if (occupied.has(`${column},${row}`)) continue
+      squares.push({ x: column * grid, y: row * grid })
+    }
+  }
+  return squares
+}
@@ -0,0 +1,156 @@
+// src/lib/game/tactical/grid.ts
+// Tactical mode's one piece of arithmetic: how far apart two tokens are on
+// a scene's battle map, and which range band (lib/game/zones.ts) that is.
+//
+// zones.ts prices a roll by the acting character's band — close, near,
+// far, distant — and outside tactical mode the classifier reads that band
+// off the fiction. In tactical mode the board is the fiction: the band is
+// measured from the actor's token to their target's, so moving your token
+// is how you close in or back off, and the dice feel it through the same
+// rangeModifier every other roll uses. Nothing here invents a second
+// modifier scale.
+//
+// Distance is Chebyshev in grid squares (a diagonal step costs one, the
+// way most tabletop grids count it), measured edge to edge so a large
+// token standing next to you is adjacent however big it is.
+//
+// Pure. board.ts loads the tokens; resolution.ts and the token route call
+// in here.
+
+import type { ZonePosition } from '../zones'
+
+export interface BoardToken {
+  id: string
+  name: string
+  /** Map pixels, top-left corner — Token's own coordinate space. */
+  x: number
+  y: number
+  /** Footprint in grid squares per side. */
+  size: number
+  isPlayer: boolean
+  isVisible: boolean
+  /** The player character this token is, or null for NPCs and scenery. */
+  characterId: string | null
+}
+
+export interface TacticalBoard {
+  mapId: string
+  gridSize: number
+  width: number
+  height: number
+  tokens: BoardToken[]
+}
+
+// The farthest each band reaches, in squares. Adjacent is close — within
+// arm's reach is what melee's +1 means. Up to four squares is a short dash
+// or a thrown knife; up to ten is across the room; past that, out of the
+// confrontation.
+const CLOSE_MAX_SQUARES = 1
+const NEAR_MAX_SQUARES = 4
+const FAR_MAX_SQUARES = 10
+
+/**
+ * A token's footprint, held to something a map could draw. Token.size
+ * defaults to 30 (a pixel-era default no generated token uses), and a
+ * 30-square footprint would make its owner adjacent to everything.
+ */
+const MAX_FOOTPRINT_SQUARES = 4
+
+export function footprint(token: Pick<BoardToken, 'size'>): number {
+  return Math.max(1, Math.min(MAX_FOOTPRINT_SQUARES, Math.floor(token.size) || 1))
+}
+
+/** The grid square a pixel coordinate falls in. */
+export function toSquare(pixels: number, gridSize: number): number {
+  return Math.floor(pixels / Math.max(1, gridSize))
+}
+
+/**
+ * Squares between two tokens, edge to edge: 0 when they overlap, 1 when
+ * adjacent (diagonals included).
+ */
+export function squaresBetween(a: BoardToken, b: BoardToken, gridSize: number): number {
+  const gap = (aStart: number, aSize: number, bStart: number, bSize: number) =>
+    Math.max(0, bStart - (aStart + aSize - 1), aStart - (bStart + bSize - 1))
+  const ax = toSquare(a.x, gridSize)
+  const ay = toSquare(a.y, gridSize)
+  const bx = toSquare(b.x, gridSize)
+  const by = toSquare(b.y, gridSize)
+  return Math.max(gap(ax, footprint(a), bx, footprint(b)), gap(ay, footprint(a), by, footprint(b)))
+}
+
+export function bandForSquares(squares: number): ZonePosition {
+  if (squares <= CLOSE_MAX_SQUARES) return 'close'
+  if (squares <= NEAR_MAX_SQUARES) return 'near'
+  if (squares <= FAR_MAX_SQUARES) return 'far'
+  return 'distant'
+}
+
+/**
+ * What an action on the board is aimed at: the token of the NPC the
+ * classifier named, if there is one on the map, otherwise the nearest
+ * visible token that isn't a player character. Ties break on token id so
+ * the same board always picks the same target.
+ *
+ * A named NPC is matched even while their token is hidden — the character
+ * is acting on someone the fiction put in front of them, and a GM hiding
+ * the token from the map doesn't move the person. The nearest-token guess
+ * only considers what the player can see.
+ */
+export function targetToken(board: TacticalBoard, actor: BoardToken, npcName?: string | null): BoardToken | null {
+  const others = board.tokens.filter((t) => t.id !== actor.id && !t.isPlayer)
+  const wanted = npcName?.trim().toLowerCase()
+  if (wanted) {
+    const named = others.find((t) => t.name.trim().toLowerCase() === wanted)
+    if (named) return named
+  }
+  let best: BoardToken | null = null
+  let bestDistance = Infinity
+  for (const token of others) {
+    if (!token.isVisible) continue
+    const distance = squaresBetween(actor, token, board.gridSize)
+    if (distance < bestDistance || (distance === bestDistance && best && token.id < best.id)) {
+      best = token
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/**
+ * The band a character rolls from in tactical mode, or null when the board
+ * can't say — they have no token, or there is nothing on the map to be
+ * near. Null means "fall back to the fiction", never "default band": a
+ * board that doesn't cover the action shouldn't override what the
+ * narration established.
+ */
+export function tacticalZoneFor(
+  board: TacticalBoard,
+  characterId: string,
+  npcName?: string | null
+): ZonePosition | null {
+  const actor = board.tokens.find((t) => t.characterId === characterId)
+  if (!actor) return null
+  const target = targetToken(board, actor, npcName)
+  if (!target) return null
+  return bandForSquares(squaresBetween(actor, target, board.gridSize))
+}
+
+/**
+ * Where a dropped token actually lands: on the grid square under the
+ * requested point, and kept wholly on the map.
+ */
+export function snapToBoard(
+  board: Pick<TacticalBoard, 'gridSize' | 'width' | 'height'>,
+  token: Pick<BoardToken, 'size'>,
+  x: number,
+  y: number
+): { x: number; y: number } {
+  const grid = Math.max(1, board.gridSize)
+  const span = footprint(token)
+  const columns = Math.max(1, Math.floor(board.width / grid))
+  const rows = Math.max(1, Math.floor(board.height / grid))
+  const column = Math.max(0, Math.min(columns - span, toSquare(x, grid)))
+  const row = Math.max(0, Math.min(rows - span, toSquare(y, grid)))
+  return { x: Math.max(0, column) * grid, y: Math.max(0, row) * grid }
+}
@@ -128,4 +128,14 @@ describe('resolveCompletedAmbitions (#227)', () => {
       data: { resources: 67, stability: 51, military: 100, threatLevel: 3 },
     })
   })
+
+  it('offline, still records the outcome as a world event but never asks for embeddings', async () => {
+    mocks.factionFindUnique.mockResolvedValueOnce(faction)
+
+    const changes = await resolveCompletedAmbitions('camp1', simTurn(5), [clock], undefined, { offline: true })
+
+    expect(changes.map((c) => c.field)).toContain('ambitionResolved')
+    expect(mocks.persistWorldEvents).toHaveBeenCalledTimes(1)
+    expect(mocks.logSignificantChanges).not.toHaveBeenCalled()
+  })
 })
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
+    // Faction orders (factionOrders/): none queued unless a test says so.
+    factionOrder: { findMany: vi.fn(async () => []), update: vi.fn() },
     faction: { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn(), create: vi.fn() },
     // #373: faction ties are edge rows now, not a JSON column on Faction.
     factionTie: { findMany: vi.fn(async () => []), upsert: vi.fn(), deleteMany: vi.fn() },
@@ -12,6 +14,8 @@ vi.mock('@/lib/prisma', () => ({
     worldEvent: { findMany: vi.fn(async () => []) },
     // #207: tickFactions reads each faction's unresolved-wake count.
     activeWake: { count: vi.fn(async () => 0) },
+    // Relationship and ambition ticks read treaties in force.
+    treaty: { findMany: vi.fn(async () => []) },
   },
 }))
 
@@ -69,6 +69,8 @@ const ROSTER_EXEMPT_HANDLERS = new Set([
   'territoryLoyaltyTick.ts',
   // Debts and loans are per-CONTRACT, not per-faction.
   'economyTick.ts',
+  // A hazard belongs to a LOCATION; its holder pays for the quarantine.
+  'hazardTick.ts',
 ])
 
 describe('tick handlers do not resolve their own entity roster (#375)', () => {
@@ -0,0 +1,426 @@
+// src/lib/game/tick/__tests__/diplomacyTick.test.ts
+//
+// Diplomacy: wars that end at the table instead of in the field, tribute
+// that's actually paid, and treaties that get broken when one side can no
+// longer keep them (or no longer has to).
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    // Faction orders (factionOrders/): none queued unless a test says so.
+    factionOrder: { findMany: vi.fn(async () => []), update: vi.fn() },
+    treaty: { findMany: vi.fn(), findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    factionDebt: { findMany: vi.fn() },
+    factionTie: { findMany: vi.fn() },
+    war: { findMany: vi.fn(), update: vi.fn() },
+    faction: { findMany: vi.fn(), findFirst: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
+    location: { updateMany: vi.fn() },
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  decideWarTreatyProposal,
+  decidePactProposal,
+  decideTreatyAcceptance,
+  decideTreatyBreach,
+  treatyStanding,
+  treatyBlocksAmbition,
+  tickDiplomacy,
+  MIN_WAR_TURNS_BEFORE_TALKS,
+  TRIBUTE_PER_TURN,
+  VASSAL_TRIBUTE_PER_TURN,
+  BETRAYAL_MEMORY_TURNS,
+  type TreatyParty,
+  type TreatyAcceptanceInput,
+} from '../diplomacyTick'
+import { NEUTRAL_BELIEF } from '../beliefTick'
+import type { TickContext } from '../types'
+import { simTurn } from '@/lib/game/turnClock'
+
+function baseCtx(overrides: Partial<TickContext> = {}): TickContext {
+  return { campaignId: 'campaign-1', turnNumber: simTurn(5), factionCap: 10, npcCap: 20, dryRun: false, db: prisma as any, ...overrides }
+}
+
+const party = (id: string, over: Partial<TreatyParty> = {}): TreatyParty => ({
+  id,
+  name: id,
+  military: 50,
+  resources: 50,
+  belief: NEUTRAL_BELIEF,
+  ...over,
+})
+
+const hawk = { ...NEUTRAL_BELIEF, aggression: 90 }
+
+describe('decideWarTreatyProposal', () => {
+  const base = { self: party('a'), opponent: party('b'), momentumForSelf: -30, turnsElapsed: 5 }
+
+  it('waits until the war has actually been fought', () => {
+    expect(decideWarTreatyProposal({ ...base, turnsElapsed: MIN_WAR_TURNS_BEFORE_TALKS - 1 }).type).toBeNull()
+  })
+
+  it('offers tribute when losing, vassalage when routed, a ceasefire when spent', () => {
+    expect(decideWarTreatyProposal(base)).toEqual({ type: 'TRIBUTE', tributePerTurn: TRIBUTE_PER_TURN })
+    expect(decideWarTreatyProposal({ ...base, momentumForSelf: -50, opponent: party('b', { military: 80 }) }))
+      .toEqual({ type: 'VASSALAGE', tributePerTurn: VASSAL_TRIBUTE_PER_TURN })
+    expect(decideWarTreatyProposal({ ...base, momentumForSelf: 0, self: party('a', { resources: 20 }) }).type).toBe('CEASEFIRE')
+  })
+
+  it('needs a bigger army on the other side, not just a bad run, to count as routed', () => {
+    expect(decideWarTreatyProposal({ ...base, momentumForSelf: -50 }).type).toBe('TRIBUTE')
+  })
+
+  it('asks a winning or unspent side for nothing', () => {
+    expect(decideWarTreatyProposal({ ...base, momentumForSelf: 30 }).type).toBeNull()
+    expect(decideWarTreatyProposal({ ...base, momentumForSelf: 0 }).type).toBeNull()
+  })
+
+  it('keeps a hawk fighting until it is routed', () => {
+    const self = party('a', { belief: hawk })
+    expect(decideWarTreatyProposal({ ...base, self }).type).toBeNull()
+    expect(decideWarTreatyProposal({ ...base, self, momentumForSelf: -50, opponent: party('b', { military: 80 }) }).type).toBe('VASSALAGE')
+  })
+})
+
+describe('decidePactProposal', () => {
+  it('is offered by the clearly weaker rival', () => {
+    expect(decidePactProposal(party('a'), party('b', { military: 70 }))).toBe(true)
+    expect(decidePactProposal(party('a'), party('b', { military: 55 }))).toBe(false)
+  })
+
+  it('is offered by an isolationist whatever the balance', () => {
+    expect(decidePactProposal(party('a', { belief: { ...NEUTRAL_BELIEF, isolationism: 80 } }), party('b'))).toBe(true)
+  })
+
+  it('is never offered by a hawk', () => {
+    expect(decidePactProposal(party('a', { belief: hawk }), party('b', { military: 90 }))).toBe(false)
+  })
+})
+
+describe('decideTreatyAcceptance', () => {
+  const input = (over: Partial<TreatyAcceptanceInput> = {}): TreatyAcceptanceInput => ({
+    type: 'CEASEFIRE',
+    proposer: party('a'),
+    recipient: party('b'),
+    momentumForRecipient: 0,
+    tie: null,
+    recipientOwesProposer: false,
+    proposerDefaultedOnRecipient: false,
+    proposerBrokeFaithRecently: false,
+    ...over,
+  })
+
+  it('takes an even ceasefire when nothing argues against it', () => {
+    expect(decideTreatyAcceptance(input())).toMatchObject({ accepted: true, score: 0 })
+  })
+
+  it('turns terms down when the war is going its way', () => {
+    expect(decideTreatyAcceptance(input({ momentumForRecipient: 40 })).accepted).toBe(false)
+    // ...unless the terms are good enough.
+    expect(decideTreatyAcceptance(input({ type: 'VASSALAGE', momentumForRecipient: 40 })).accepted).toBe(true)
+  })
+
+  it('is harder to sell to a hawk', () => {
+    expect(decideTreatyAcceptance(input({ recipient: party('b', { belief: hawk }) })).accepted).toBe(false)
+  })
+
+  it('remembers debts and broken faith', () => {
+    const hawkish = input({ recipient: party('b', { belief: { ...NEUTRAL_BELIEF, aggression: 60 } }) })
+    expect(decideTreatyAcceptance(hawkish).accepted).toBe(false)
+    expect(decideTreatyAcceptance({ ...hawkish, recipientOwesProposer: true }).accepted).toBe(true)
+    expect(decideTreatyAcceptance(input({ proposerBrokeFaithRecently: true })).accepted).toBe(false)
+    expect(decideTreatyAcceptance(input({ proposerDefaultedOnRecipient: true })).accepted).toBe(false)
+  })
+
+  it('weighs the tie only in peacetime', () => {
+    const pact = input({ type: 'NON_AGGRESSION', momentumForRecipient: null, tie: 'RIVAL' })
+    expect(decideTreatyAcceptance(pact).accepted).toBe(false)
+    expect(decideTreatyAcceptance({ ...pact, recipient: party('b', { belief: { ...NEUTRAL_BELIEF, isolationism: 70 } }) }).accepted).toBe(true)
+    expect(decideTreatyAcceptance(input({ tie: 'RIVAL' })).score).toBe(0)
+  })
+
+  it('narrates every term that moved the score', () => {
+    const { reasoning } = decideTreatyAcceptance(input({ type: 'TRIBUTE', momentumForRecipient: 30 }))
+    expect(reasoning).toHaveLength(2)
+    expect(reasoning[0]).toMatch(/tribute/)
+  })
+})
+
+describe('decideTreatyBreach', () => {
+  const base = { type: 'TRIBUTE' as const, selfPays: true, self: party('a'), counterpart: party('b'), tributePerTurn: 4, turnsInForce: 3 }
+
+  it('defaults a payer that cannot cover the tribute, even straight after signing', () => {
+    expect(decideTreatyBreach({ ...base, self: party('a', { resources: 2 }), turnsInForce: 0 })).toBe('DEFAULT')
+  })
+
+  it('has a payer that outgrew its overlord revolt', () => {
+    expect(decideTreatyBreach({ ...base, self: party('a', { military: 70 }) })).toBe('REVOLT')
+    expect(decideTreatyBreach({ ...base, self: party('a', { military: 70 }), turnsInForce: 1 })).toBeNull()
+  })
+
+  it('never has the side being paid break', () => {
+    expect(decideTreatyBreach({ ...base, selfPays: false, self: party('b', { military: 100, belief: hawk }) })).toBeNull()
+  })
+
+  it('has a much stronger hawk tear up a ceasefire or pact', () => {
+    const strong = party('a', { military: 80, belief: hawk })
+    expect(decideTreatyBreach({ ...base, type: 'CEASEFIRE', selfPays: false, self: strong, tributePerTurn: 0 })).toBe('OPPORTUNITY')
+    expect(decideTreatyBreach({ ...base, type: 'NON_AGGRESSION', selfPays: false, self: { ...strong, belief: NEUTRAL_BELIEF }, tributePerTurn: 0 })).toBeNull()
+  })
+})
+
+describe('treaty bindings', () => {
+  const pact = { type: 'NON_AGGRESSION' as const, proposerFactionId: 'a', recipientFactionId: 'b' }
+  const vassalage = { type: 'VASSALAGE' as const, proposerFactionId: 'v', recipientFactionId: 'o' }
+
+  it('reads a pair the same either way round', () => {
+    expect(treatyStanding([pact], [], 'b', 'a', 10)).toBe('BOUND')
+    expect(treatyStanding([vassalage], [], 'o', 'v', 10)).toBe('VASSALAGE')
+    expect(treatyStanding([pact], [], 'a', 'c', 10)).toBeNull()
+  })
+
+  it('remembers a betrayal for BETRAYAL_MEMORY_TURNS', () => {
+    const broken = [{ proposerFactionId: 'a', recipientFactionId: 'b', brokenByFactionId: 'a', endedTurn: 10 }]
+    expect(treatyStanding([pact], broken, 'a', 'b', 11)).toBe('BETRAYED')
+    expect(treatyStanding([pact], broken, 'a', 'b', 10 + BETRAYAL_MEMORY_TURNS)).toBe('BOUND')
+  })
+
+  it('keeps a vassal from conquest and everyone from scheming against a partner', () => {
+    expect(treatyBlocksAmbition([vassalage], { id: 'v', goal: 'EXPAND' })).toBe('is a vassal')
+    expect(treatyBlocksAmbition([vassalage], { id: 'v', goal: 'ENRICH' })).toBeNull()
+    expect(treatyBlocksAmbition([vassalage], { id: 'o', goal: 'EXPAND' })).toBeNull()
+    expect(treatyBlocksAmbition([pact], { id: 'a', goal: 'DESTABILIZE_RIVAL' }, 'b')).toBe('is bound by treaty to its target')
+  })
+})
+
+// ── The handler ──────────────────────────────────────────────────────────
+
+function makeFaction(id: string, over: Record<string, any> = {}) {
+  return { id, name: id, isActive: true, military: 50, resources: 50, influence: 50, beliefVector: null, ...over }
+}
+
+function makeWar(over: Record<string, any> = {}) {
+  return {
+    id: 'war-1',
+    name: 'The War',
+    status: 'ESCALATING',
+    attackerFactionId: 'att',
+    defenderFactionId: 'def',
+    attacker: makeFaction('att'),
+    defender: makeFaction('def'),
+    momentum: 0,
+    startedTurn: 0,
+    contestedLocationId: 'loc-1',
+    participants: [{ factionId: 'att', side: 'ATTACKER' }, { factionId: 'def', side: 'DEFENDER' }],
+    ...over,
+  }
+}
+
+function makeTreaty(over: Record<string, any> = {}) {
+  const proposer = over.proposer ?? makeFaction('def')
+  const recipient = over.recipient ?? makeFaction('att')
+  return {
+    id: 'treaty-1',
+    type: 'CEASEFIRE',
+    status: 'PROPOSED',
+    proposerFactionId: proposer.id,
+    recipientFactionId: recipient.id,
+    tributePerTurn: 0,
+    proposedTurn: 4,
+    signedTurn: null,
+    expiresTurn: null,
+    ...over,
+    proposer,
+    recipient,
+  }
+}
+
+describe('tickDiplomacy', () => {
+  let open: any[]
+  let recent: any[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    open = []
+    recent = []
+    // Open treaties (PROPOSED/ACTIVE) and recently ended ones are two reads
+    // of the same table; tell them apart by the statuses asked for.
+    vi.mocked(prisma.treaty.findMany).mockImplementation((async (args: any) =>
+      args.where.status.in.includes('PROPOSED') ? open : recent) as any)
+    vi.mocked(prisma.factionDebt.findMany).mockResolvedValue([])
+    vi.mocked(prisma.factionTie.findMany).mockResolvedValue([])
+    vi.mocked(prisma.war.findMany).mockResolvedValue([])
+    vi.mocked(prisma.faction.findMany).mockResolvedValue([])
+  })
+
+  it('has the losing side of a war sue for peace', async () => {
+    vi.mocked(prisma.war.findMany).mockResolvedValue([makeWar({ momentum: 30 })] as any)
+
+    const { changes } = await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'TRIBUTE', proposerFactionId: 'def', recipientFactionId: 'att', warId: 'war-1', tributePerTurn: TRIBUTE_PER_TURN, proposedTurn: 5 }),
+    })
+    expect(changes).toContainEqual(expect.objectContaining({ entityId: 'def', field: 'treatyProposed', newValue: 'TRIBUTE' }))
+  })
+
+  it('makes no second offer while one is on the table or was just refused', async () => {
+    vi.mocked(prisma.war.findMany).mockResolvedValue([makeWar({ momentum: 30 })] as any)
+    recent = [{ status: 'REJECTED', proposerFactionId: 'def', recipientFactionId: 'att', brokenByFactionId: null, endedTurn: 4 }]
+
+    await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.create).not.toHaveBeenCalled()
+  })
+
+  it('ends the war when a ceasefire is accepted', async () => {
+    open = [makeTreaty({ war: makeWar() })]
+
+    const { changes } = await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.update).toHaveBeenCalledWith({
+      where: { id: 'treaty-1' },
+      data: { status: 'ACTIVE', signedTurn: 5, expiresTurn: 13 },
+    })
+    expect(prisma.war.update).toHaveBeenCalledWith({
+      where: { id: 'war-1' },
+      data: { status: 'RESOLVED', outcome: 'stalemate', resolvedTurn: 5 },
+    })
+    expect(prisma.location.updateMany).toHaveBeenCalledWith({ where: { id: 'loc-1' }, data: { isContested: false } })
+    expect(changes).toContainEqual(expect.objectContaining({ entityId: 'att', field: 'warResolved', newValue: 'stalemate' }))
+    // A draw costs nobody standing.
+    expect(prisma.faction.update).not.toHaveBeenCalled()
+  })
+
+  it('has a defender that submits cede the prize and lose standing', async () => {
+    open = [makeTreaty({ type: 'VASSALAGE', tributePerTurn: 2, war: makeWar({ momentum: 40 }) })]
+
+    const { changes } = await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ status: 'ACTIVE', expiresTurn: null }) }))
+    expect(prisma.war.update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ outcome: 'attacker' }) }))
+    expect(prisma.location.updateMany).toHaveBeenCalledWith({ where: { id: 'loc-1' }, data: { ownerFactionId: 'att', isContested: false } })
+    expect(prisma.faction.update).toHaveBeenCalledWith({ where: { id: 'def' }, data: { influence: 46 } })
+    expect(changes).toContainEqual(expect.objectContaining({ field: 'treatySigned', newValue: 'VASSALAGE' }))
+  })
+
+  it('records a refusal', async () => {
+    open = [makeTreaty({ recipient: makeFaction('att', { beliefVector: hawk }), war: makeWar({ momentum: 40 }) })]
+
+    const { changes } = await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.update).toHaveBeenCalledWith({ where: { id: 'treaty-1' }, data: { endedTurn: 5, status: 'REJECTED' } })
+    expect(prisma.war.update).not.toHaveBeenCalled()
+    expect(changes).toContainEqual(expect.objectContaining({ entityId: 'att', field: 'treatyRejected' }))
+  })
+
+  it('lets an offer lapse when the war ended some other way first', async () => {
+    open = [makeTreaty({ war: makeWar({ status: 'RESOLVED' }) })]
+
+    await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.update).toHaveBeenCalledWith({ where: { id: 'treaty-1' }, data: { endedTurn: 5, status: 'EXPIRED' } })
+    expect(prisma.war.update).not.toHaveBeenCalled()
+  })
+
+  it('moves tribute from payer to payee each turn', async () => {
+    open = [makeTreaty({ type: 'TRIBUTE', status: 'ACTIVE', tributePerTurn: 4, signedTurn: 4, expiresTurn: 10, proposer: makeFaction('def', { resources: 30 }) })]
+
+    const { changes } = await tickDiplomacy(baseCtx())
+
+    expect(prisma.faction.update).toHaveBeenCalledWith({ where: { id: 'def' }, data: { resources: 26 } })
+    expect(prisma.faction.update).toHaveBeenCalledWith({ where: { id: 'att' }, data: { resources: 54 } })
+    expect(changes.filter((c) => c.field === 'resources')).toHaveLength(2)
+  })
+
+  it('breaks a tribute the payer can no longer afford, at a cost to its standing', async () => {
+    open = [makeTreaty({ type: 'TRIBUTE', status: 'ACTIVE', tributePerTurn: 4, signedTurn: 4, expiresTurn: 10, proposer: makeFaction('def', { resources: 2 }) })]
+
+    const { changes } = await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.update).toHaveBeenCalledWith({ where: { id: 'treaty-1' }, data: { endedTurn: 5, status: 'BROKEN', brokenByFactionId: 'def' } })
+    expect(prisma.faction.update).toHaveBeenCalledWith({ where: { id: 'def' }, data: { influence: 44 } })
+    expect(changes).toContainEqual(expect.objectContaining({ entityId: 'def', field: 'treatyBroken' }))
+    expect(changes.some((c) => c.field === 'resources')).toBe(false)
+  })
+
+  it('lets a treaty run its course', async () => {
+    open = [makeTreaty({ status: 'ACTIVE', signedTurn: 1, expiresTurn: 5 })]
+
+    const { changes } = await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.update).toHaveBeenCalledWith({ where: { id: 'treaty-1' }, data: { endedTurn: 5, status: 'EXPIRED' } })
+    expect(changes).toContainEqual(expect.objectContaining({ field: 'treatyExpired' }))
+  })
+
+  it('has the weaker of two rivals at peace offer a pact', async () => {
+    vi.mocked(prisma.faction.findMany).mockResolvedValue([makeFaction('a')] as any)
+    vi.mocked(prisma.faction.findUnique).mockResolvedValue(makeFaction('b', { military: 80 }) as any)
+    vi.mocked(prisma.factionTie.findMany).mockResolvedValue([{ factionAId: 'a', factionBId: 'b', type: 'RIVAL' }] as any)
+
+    await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'NON_AGGRESSION', proposerFactionId: 'a', recipientFactionId: 'b', warId: null }),
+    })
+  })
+
+  it('leaves a PC-led side of a war to ask for terms through its leader', async () => {
+    vi.mocked(prisma.war.findMany).mockResolvedValue([makeWar({ momentum: 30, defender: makeFaction('def', { leaderCharacterId: 'pc-1' }) })] as any)
+
+    await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.create).not.toHaveBeenCalled()
+  })
+
+  it('sends a PC leader\'s envoy with the terms they chose, at the embassy\'s cost', async () => {
+    vi.mocked(prisma.factionOrder.findMany).mockResolvedValueOnce([
+      {
+        id: 'order-1', campaignId: 'campaign-1', factionId: 'a', issuedByCharacterId: 'pc-1', type: 'SEND_ENVOY',
+        status: 'QUEUED', turnNumber: 5, amount: 0, locationId: null, toLocationId: null, targetFactionId: 'b',
+        treatyType: 'NON_AGGRESSION', debtId: null, warId: null, side: null, hazardId: null, faction: { id: 'a', name: 'a' },
+      },
+    ] as any)
+    vi.mocked(prisma.faction.findFirst)
+      .mockResolvedValueOnce({ id: 'a', isActive: true, resources: 50, military: 50, leaderCharacterId: 'pc-1', leaderCharacter: { isAlive: true } } as any)
+      .mockResolvedValueOnce({ id: 'b', isActive: true } as any)
+    vi.mocked(prisma.treaty.findFirst).mockResolvedValueOnce(null)
+    vi.mocked(prisma.faction.findUnique)
+      .mockResolvedValueOnce(makeFaction('a', { leaderCharacterId: 'pc-1' }) as any)
+      .mockResolvedValueOnce(makeFaction('b') as any)
+
+    const { changes } = await tickDiplomacy(baseCtx())
+
+    expect(prisma.treaty.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'NON_AGGRESSION', proposerFactionId: 'a', recipientFactionId: 'b', warId: null, proposedTurn: 5 }),
+    })
+    expect(prisma.faction.update).toHaveBeenCalledWith({ where: { id: 'a' }, data: { resources: 48 } })
+    expect(prisma.factionOrder.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: expect.objectContaining({ status: 'CARRIED_OUT', resolvedTurn: 5 }),
+    })
+    expect(changes).toContainEqual(expect.objectContaining({ entityId: 'a', field: 'treatyProposed', origin: 'factionOrder' }))
+    expect(changes).toContainEqual(expect.objectContaining({ entityId: 'a', field: 'orderCarriedOut' }))
+  })
+
+  it('writes nothing in a dry run but reports the same changes', async () => {
+    open = [
+      makeTreaty({ war: makeWar() }),
+      makeTreaty({ id: 'treaty-2', type: 'TRIBUTE', status: 'ACTIVE', tributePerTurn: 4, signedTurn: 4, expiresTurn: 10, proposer: makeFaction('x'), recipient: makeFaction('y') }),
+    ]
+    vi.mocked(prisma.war.findMany).mockResolvedValue([makeWar({ id: 'war-2', attackerFactionId: 'p', defenderFactionId: 'q', attacker: makeFaction('p'), defender: makeFaction('q'), momentum: 30, participants: [] })] as any)
+
+    const live = await tickDiplomacy(baseCtx())
+    vi.clearAllMocks()
+    const dry = await tickDiplomacy(baseCtx({ dryRun: true }))
+
+    expect(dry.changes).toEqual(live.changes)
+    expect(prisma.treaty.create).not.toHaveBeenCalled()
+    expect(prisma.treaty.update).not.toHaveBeenCalled()
+    expect(prisma.war.update).not.toHaveBeenCalled()
+    expect(prisma.location.updateMany).not.toHaveBeenCalled()
+    expect(prisma.faction.update).not.toHaveBeenCalled()
+  })
+})
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
+    // Faction orders (factionOrders/): none queued unless a test says so.
+    factionOrder: { findMany: vi.fn(async () => []), update: vi.fn() },
     // #79: tickFactions reads goal-change history for commitment.
     worldEvent: { findMany: vi.fn(async () => []) },
     location: { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
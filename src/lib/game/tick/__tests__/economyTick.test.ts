@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
+    // Faction orders (factionOrders/): none queued unless a test says so.
+    factionOrder: { findMany: vi.fn(async () => []), update: vi.fn() },
     factionDebt: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn(), create: vi.fn(), createMany: vi.fn() },
     faction: { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
     activeWake: { create: vi.fn() },
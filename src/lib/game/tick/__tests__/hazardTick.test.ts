@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    // Faction orders (factionOrders/): none queued unless a test says so.
+    factionOrder: { findMany: vi.fn(async () => []), update: vi.fn() },
+    location: { findMany: vi.fn(), update: vi.fn() },
+    hazard: { findMany: vi.fn(), update: vi.fn(), create: vi.fn() },
+    locationAdjacency: { findMany: vi.fn() },
+    supplyRoute: { findMany: vi.fn() },
+    faction: { findMany: vi.fn(), update: vi.fn() },
+  },
+}))
+
+import { prisma } from '@/lib/prisma'
+import {
+  IMMUNITY_TURNS,
+  MAX_OUTBREAKS_PER_TURN,
+  NATURAL_CONTAINMENT,
+  QUARANTINE_BASE,
+  QUARANTINE_COST,
+  decideHazardOutbreaks,
+  decideHazardProgress,
+  decideHazardSpread,
+  hazardDamage,
+  outbreakChance,
+  tickHazards,
+  type HazardLocationInput,
+} from '../hazardTick'
+import type { TickContext } from '../types'
+import { simTurn } from '@/lib/game/turnClock'
+
+function baseCtx(overrides: Partial<TickContext> = {}): TickContext {
+  return { campaignId: 'campaign-1', turnNumber: simTurn(10), factionCap: 10, npcCap: 20, dryRun: false, db: prisma as any, ...overrides }
+}
+
+function place(overrides: Partial<HazardLocationInput> = {}): HazardLocationInput {
+  return { id: 'town', conditionScore: 60, population: null, weather: 'CLOUDY', weatherSeverity: 1, ...overrides }
+}
+
+describe('outbreakChance', () => {
+  it('rises with crowding and squalor for plague', () => {
+    const base = outbreakChance('PLAGUE', place(), undefined)
+    expect(outbreakChance('PLAGUE', place({ population: 10000 }), undefined)).toBeGreaterThan(base)
+    expect(outbreakChance('PLAGUE', place({ conditionScore: 30 }), undefined)).toBeGreaterThan(base)
+  })
+
+  it('needs a hard dry spell for wildfire and a heavy storm for flood', () => {
+    expect(outbreakChance('WILDFIRE', place(), 'summer')).toBe(0)
+    expect(outbreakChance('WILDFIRE', place({ weather: 'CLEAR', weatherSeverity: 4 }), undefined)).toBeGreaterThan(0)
+    expect(outbreakChance('FLOOD', place({ weather: 'RAIN', weatherSeverity: 3 }), 'spring')).toBe(0)
+    expect(outbreakChance('FLOOD', place({ weather: 'STORM', weatherSeverity: 5 }), undefined)).toBeGreaterThan(0)
+  })
+
+  it('doubles in a favoured season and never starts a famine at harvest', () => {
+    const squalid = place({ conditionScore: 20 })
+    expect(outbreakChance('FAMINE', squalid, 'winter')).toBe(outbreakChance('FAMINE', squalid, undefined) * 2)
+    expect(outbreakChance('FAMINE', squalid, 'autumn')).toBe(0)
+  })
+})
+
+describe('decideHazardOutbreaks', () => {
+  // Squalid, crowded, sodden places under a heavy storm in winter — every
+  // kind that can start here has its best odds.
+  const grim = Array.from({ length: 200 }, (_, i) =>
+    place({ id: `loc-${String(i).padStart(3, '0')}`, conditionScore: 10, population: 20000, weather: 'STORM', weatherSeverity: 5 })
+  )
+
+  it('is deterministic for the same world and turn', () => {
+    expect(decideHazardOutbreaks(grim, new Set(), 7, 'winter')).toEqual(decideHazardOutbreaks(grim, new Set(), 7, 'winter'))
+  })
+
+  it('starts no more than the per-turn cap, at severity 1 or 2', () => {
+    for (let turn = 1; turn <= 20; turn++) {
+      const outbreaks = decideHazardOutbreaks(grim, new Set(), turn, 'winter')
+      expect(outbreaks.length).toBeLessThanOrEqual(MAX_OUTBREAKS_PER_TURN)
+      for (const o of outbreaks) expect([1, 2]).toContain(o.severity)
+    }
+  })
+
+  it('never starts a kind a place already suffers or is spared from', () => {
+    const blocked = new Set(grim.flatMap((l) => ['PLAGUE', 'FAMINE', 'WILDFIRE', 'FLOOD'].map((t) => `${l.id}:${t}`)))
+    for (let turn = 1; turn <= 20; turn++) {
+      expect(decideHazardOutbreaks(grim, blocked, turn, 'winter')).toEqual([])
+    }
+  })
+
+  it('starts only the background plague where weather, season and condition allow nothing else', () => {
+    const calm = grim.map((l) => ({ ...l, conditionScore: 80, population: null, weather: 'CLOUDY' as const, weatherSeverity: 1 }))
+    const started = Array.from({ length: 20 }, (_, i) => decideHazardOutbreaks(calm, new Set(), i + 1, 'autumn')).flat()
+    expect(started.every((o) => o.type === 'PLAGUE')).toBe(true)
+  })
+})
+
+describe('decideHazardProgress', () => {
+  const fresh = { type: 'PLAGUE' as const, severity: 2, containment: 0, startedTurn: 9 }
+
+  it('builds while young and uncontained', () => {
+    expect(decideHazardProgress(fresh, 10, 0)).toEqual({ severity: 3, containment: NATURAL_CONTAINMENT, status: 'ACTIVE' })
+  })
+
+  it('wanes once past its peak', () => {
+    expect(decideHazardProgress({ ...fresh, startedTurn: 1 }, 10, 0).severity).toBe(1)
+  })
+
+  it('wanes once half contained, however young', () => {
+    expect(decideHazardProgress({ ...fresh, containment: 40 }, 10, 10).severity).toBe(1)
+  })
+
+  it('burns out at severity 0', () => {
+    expect(decideHazardProgress({ ...fresh, severity: 1, startedTurn: 1 }, 10, 0)).toEqual({
+      severity: 0,
+      containment: NATURAL_CONTAINMENT,
+      status: 'BURNED_OUT',
+    })
+  })
+
+  it('ends CONTAINED at full containment', () => {
+    expect(decideHazardProgress({ ...fresh, containment: 80 }, 10, 30)).toMatchObject({ containment: 100, status: 'CONTAINED' })
+  })
+})
+
+describe('hazardDamage', () => {
+  it('scales with severity and spares an untracked population', () => {
+    expect(hazardDamage('WILDFIRE', 3, null)).toEqual({ condition: 6, population: 0 })
+    expect(hazardDamage('PLAGUE', 5, 1000)).toEqual({ condition: 5, population: 100 })
+  })
+
+  it('always takes someone from a tracked population', () => {
+    expect(hazardDamage('FLOOD', 1, 10).population).toBe(1)
+  })
+})
+
+describe('decideHazardSpread', () => {
+  const plague = { id: 'h1', locationId: 'a', type: 'PLAGUE' as const, severity: 5, containment: 0 }
+  const ring = ['b', 'c', 'd', 'e', 'f', 'g', 'h', 'i']
+  const edges = ring.map((id) => ({ locationAId: 'a', locationBId: id, distance: 1 }))
+
+  it('reaches neighbours a step milder, naming where it came from', () => {
+    const spreads = Array.from({ length: 10 }, (_, t) => decideHazardSpread([plague], edges, [], new Set(), t)).flat()
+    expect(spreads.length).toBeGreaterThan(0)
+    for (const s of spreads) expect(s).toMatchObject({ sourceLocationId: 'a', type: 'PLAGUE', severity: 4 })
+  })
+
+  it('does not travel below severity 2, nor into a place already blocked for that kind', () => {
+    for (let t = 0; t < 10; t++) {
+      expect(decideHazardSpread([{ ...plague, severity: 1 }], edges, [], new Set(), t)).toEqual([])
+      expect(decideHazardSpread([plague], edges, [], new Set(ring.map((id) => `${id}:PLAGUE`)), t)).toEqual([])
+    }
+  })
+
+  it('goes nowhere once fully contained', () => {
+    for (let t = 0; t < 10; t++) {
+      expect(decideHazardSpread([{ ...plague, containment: 100 }], edges, [], new Set(), t)).toEqual([])
+    }
+  })
+
+  it('moves famine only along open supply routes', () => {
+    const famine = { ...plague, type: 'FAMINE' as const }
+    const open = ring.map((id) => ({ fromLocationId: 'a', toLocationId: id, isBlockaded: false }))
+    const blockaded = open.map((r) => ({ ...r, isBlockaded: true }))
+    const overRoads = Array.from({ length: 10 }, (_, t) => decideHazardSpread([famine], [], open, new Set(), t)).flat()
+    expect(overRoads.length).toBeGreaterThan(0)
+    for (let t = 0; t < 10; t++) {
+      expect(decideHazardSpread([famine], edges, [], new Set(), t)).toEqual([])
+      expect(decideHazardSpread([famine], [], blockaded, new Set(), t)).toEqual([])
+    }
+  })
+
+  it('reaches a place once per turn even with two sources', () => {
+    const twin = { ...plague, id: 'h2', locationId: 'z' }
+    const shared = [...edges, ...ring.map((id) => ({ locationAId: id, locationBId: 'z', distance: 1 }))]
+    for (let t = 0; t < 10; t++) {
+      const spreads = decideHazardSpread([plague, twin], shared, [], new Set(), t)
+      expect(new Set(spreads.map((s) => s.locationId)).size).toBe(spreads.length)
+    }
+  })
+})
+
+describe('tickHazards (DB handler)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.hazard.findMany).mockResolvedValue([])
+    vi.mocked(prisma.locationAdjacency.findMany).mockResolvedValue([])
+    vi.mocked(prisma.supplyRoute.findMany).mockResolvedValue([])
+    vi.mocked(prisma.faction.findMany).mockResolvedValue([])
+  })
+
+  const town = { id: 'town', name: 'Millford', ownerFactionId: 'f1', conditionScore: 60, population: 1000, weather: 'CLOUDY', weatherSeverity: 1 }
+
+  it('does nothing without locations', async () => {
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([])
+    expect(await tickHazards(baseCtx())).toEqual({ changes: [] })
+  })
+
+  it('runs a hazard\'s course, wears its place down, and the holder pays for quarantine', async () => {
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([town] as any)
+    vi.mocked(prisma.hazard.findMany).mockResolvedValueOnce([
+      { id: 'h1', locationId: 'town', type: 'PLAGUE', severity: 2, containment: 0, startedTurn: 9 },
+    ] as any)
+    vi.mocked(prisma.faction.findMany).mockResolvedValueOnce([{ id: 'f1', name: 'The Crown', resources: 20, stability: 50 }] as any)
+
+    const result = await tickHazards(baseCtx())
+
+    const containment = NATURAL_CONTAINMENT + QUARANTINE_BASE + 5
+    expect(prisma.hazard.update).toHaveBeenCalledWith({
+      where: { id: 'h1' },
+      data: { severity: 3, containment },
+    })
+    expect(prisma.location.update).toHaveBeenCalledWith({ where: { id: 'town' }, data: { conditionScore: 57, population: 940 } })
+    expect(prisma.faction.update).toHaveBeenCalledWith({ where: { id: 'f1' }, data: { resources: 20 - QUARANTINE_COST } })
+    expect(result.changes.map((c) => c.field).sort()).toEqual(['conditionScore', 'population', 'resources'])
+    expect(result.changes.every((c) => !c.significant)).toBe(true)
+  })
+
+  it('reports an ending as significant and spares the place that kind for a while', async () => {
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([town] as any)
+    vi.mocked(prisma.hazard.findMany)
+      .mockResolvedValueOnce([{ id: 'h1', locationId: 'town', type: 'FLOOD', severity: 1, containment: 0, startedTurn: 1 }] as any)
+      .mockResolvedValueOnce([])
+
+    const result = await tickHazards(baseCtx())
+
+    expect(prisma.hazard.update).toHaveBeenCalledWith({
+      where: { id: 'h1' },
+      data: expect.objectContaining({ status: 'BURNED_OUT', endedTurn: 10 }),
+    })
+    expect(result.changes).toEqual([
+      expect.objectContaining({ entityType: 'LOCATION_CONDITION', field: 'hazardEnded', significant: true, originLocationId: 'town' }),
+    ])
+    expect(prisma.hazard.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ endedTurn: { gte: 10 - IMMUNITY_TURNS } }) })
+    )
+  })
+
+  it('spreads to a neighbour as a new hazard with its source, reported MAJOR', async () => {
+    const ring = Array.from({ length: 12 }, (_, i) => ({ ...town, id: `n${i}`, name: `Hamlet ${i}`, ownerFactionId: null, population: null }))
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([{ ...town, ownerFactionId: null }, ...ring] as any)
+    vi.mocked(prisma.hazard.findMany)
+      .mockResolvedValueOnce([{ id: 'h1', locationId: 'town', type: 'WILDFIRE', severity: 4, containment: 0, startedTurn: 9 }] as any)
+      .mockResolvedValueOnce([])
+    vi.mocked(prisma.locationAdjacency.findMany).mockResolvedValueOnce(
+      ring.map((l) => ({ locationAId: 'town', locationBId: l.id, distance: 1 })) as any
+    )
+
+    const result = await tickHazards(baseCtx())
+
+    const spread = result.changes.filter((c) => c.field === 'hazardSpread')
+    expect(spread.length).toBeGreaterThan(0)
+    expect(spread[0]).toMatchObject({ previousValue: 'Millford', newValue: 'WILDFIRE', significant: true, importance: 'MAJOR' })
+    expect(prisma.hazard.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'WILDFIRE', severity: 4, sourceLocationId: 'town', startedTurn: 10 }),
+    })
+  })
+
+  it('counts relief a leader ordered into this turn\'s containment', async () => {
+    vi.mocked(prisma.factionOrder.findMany).mockResolvedValueOnce([
+      {
+        id: 'o1', campaignId: 'campaign-1', factionId: 'f2', issuedByCharacterId: 'pc1', type: 'CONTAIN_HAZARD', status: 'QUEUED',
+        turnNumber: 10, amount: 0, locationId: null, toLocationId: null, targetFactionId: null, treatyType: null, debtId: null,
+        warId: null, side: null, hazardId: 'h1', outcome: null, resolvedTurn: null, faction: { id: 'f2', name: 'The Guild' },
+      },
+    ] as any)
+    const db = {
+      ...prisma,
+      faction: {
+        ...prisma.faction,
+        findFirst: vi.fn(async () => ({
+          id: 'f2', isActive: true, resources: 30, military: 40, leaderCharacterId: 'pc1', leaderCharacter: { isAlive: true },
+        })),
+      },
+      hazard: {
+        ...prisma.hazard,
+        findFirst: vi.fn(async () => ({ id: 'h1', type: 'PLAGUE', status: 'ACTIVE', location: { name: 'Millford' } })),
+      },
+    }
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([{ ...town, ownerFactionId: null }] as any)
+    vi.mocked(prisma.hazard.findMany).mockResolvedValueOnce([
+      { id: 'h1', locationId: 'town', type: 'PLAGUE', severity: 3, containment: 0, startedTurn: 9 },
+    ] as any)
+
+    const result = await tickHazards(baseCtx({ db: db as any }))
+
+    expect(prisma.faction.update).toHaveBeenCalledWith({ where: { id: 'f2' }, data: { resources: 25 } })
+    expect(prisma.hazard.update).toHaveBeenCalledWith({
+      where: { id: 'h1' },
+      data: expect.objectContaining({ containment: NATURAL_CONTAINMENT + 35 }),
+    })
+    expect(result.changes).toContainEqual(
+      expect.objectContaining({ field: 'orderCarriedOut', reason: 'The Guild sends help against the plague in Millford' })
+    )
+  })
+
+  it('writes nothing in dry-run mode but still reports the changes', async () => {
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([town] as any)
+    vi.mocked(prisma.hazard.findMany).mockResolvedValueOnce([
+      { id: 'h1', locationId: 'town', type: 'PLAGUE', severity: 2, containment: 0, startedTurn: 9 },
+    ] as any)
+
+    const result = await tickHazards(baseCtx({ dryRun: true }))
+
+    expect(prisma.hazard.update).not.toHaveBeenCalled()
+    expect(prisma.hazard.create).not.toHaveBeenCalled()
+    expect(prisma.location.update).not.toHaveBeenCalled()
+    expect(result.changes.length).toBeGreaterThan(0)
+  })
+})
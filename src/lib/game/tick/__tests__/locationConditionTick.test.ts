@@ -2,7 +2,10 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
-    location: { findMany: vi.fn(), update: vi.fn() },
+    // Faction orders (factionOrders/): none queued unless a test says so.
+    factionOrder: { findMany: vi.fn(async () => []), update: vi.fn() },
+    location: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+    faction: { findFirst: vi.fn(), update: vi.fn() },
     war: { findMany: vi.fn() },
   },
 }))
@@ -224,4 +227,62 @@ describe('tickLocationCondition (DB handler)', () => {
     expect(prisma.location.update).not.toHaveBeenCalled()
     expect(result.changes).toHaveLength(1)
   })
+
+  it('carries out a queued FORTIFY order before the drift, at the faction\'s cost', async () => {
+    vi.mocked(prisma.factionOrder.findMany).mockResolvedValueOnce([
+      {
+        id: 'order-1', campaignId: 'campaign-1', factionId: 'f-1', issuedByCharacterId: 'pc-1', type: 'FORTIFY',
+        status: 'QUEUED', turnNumber: 5, amount: 0, locationId: 'loc-1', toLocationId: null, targetFactionId: null,
+        treatyType: null, debtId: null, warId: null, side: null, hazardId: null, faction: { id: 'f-1', name: 'The Crown' },
+      },
+    ] as any)
+    vi.mocked(prisma.faction.findFirst).mockResolvedValueOnce({
+      id: 'f-1', isActive: true, resources: 20, military: 40, leaderCharacterId: 'pc-1', leaderCharacter: { isAlive: true },
+    } as any)
+    vi.mocked(prisma.location.findFirst).mockResolvedValueOnce({
+      id: 'loc-1', name: 'The Keep', ownerFactionId: 'f-1', conditionScore: 30,
+    } as any)
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([])
+
+    const result = await tickLocationCondition(baseCtx())
+
+    expect(prisma.location.update).toHaveBeenCalledWith({ where: { id: 'loc-1' }, data: { conditionScore: 40 } })
+    expect(prisma.faction.update).toHaveBeenCalledWith({ where: { id: 'f-1' }, data: { resources: 14 } })
+    expect(prisma.factionOrder.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: expect.objectContaining({ status: 'CARRIED_OUT', resolvedTurn: 5 }),
+    })
+    expect(result.changes.map((c) => [c.field, c.origin])).toEqual([
+      ['conditionScore', 'factionOrder'],
+      ['resources', 'factionOrder'],
+      ['orderCarriedOut', 'factionOrder'],
+    ])
+  })
+
+  it('fails a FORTIFY order for a place the faction no longer holds, spending nothing', async () => {
+    vi.mocked(prisma.factionOrder.findMany).mockResolvedValueOnce([
+      {
+        id: 'order-1', campaignId: 'campaign-1', factionId: 'f-1', issuedByCharacterId: 'pc-1', type: 'FORTIFY',
+        status: 'QUEUED', turnNumber: 5, amount: 0, locationId: 'loc-1', toLocationId: null, targetFactionId: null,
+        treatyType: null, debtId: null, warId: null, side: null, hazardId: null, faction: { id: 'f-1', name: 'The Crown' },
+      },
+    ] as any)
+    vi.mocked(prisma.faction.findFirst).mockResolvedValueOnce({
+      id: 'f-1', isActive: true, resources: 20, military: 40, leaderCharacterId: 'pc-1', leaderCharacter: { isAlive: true },
+    } as any)
+    vi.mocked(prisma.location.findFirst).mockResolvedValueOnce({
+      id: 'loc-1', name: 'The Keep', ownerFactionId: 'f-2', conditionScore: 30,
+    } as any)
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([])
+
+    const result = await tickLocationCondition(baseCtx())
+
+    expect(prisma.location.update).not.toHaveBeenCalled()
+    expect(prisma.faction.update).not.toHaveBeenCalled()
+    expect(prisma.factionOrder.update).toHaveBeenCalledWith({
+      where: { id: 'order-1' },
+      data: expect.objectContaining({ status: 'FAILED' }),
+    })
+    expect(result.changes).toEqual([expect.objectContaining({ field: 'orderFailed', significant: false })])
+  })
 })
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
+    // Faction orders (factionOrders/): none queued unless a test says so.
+    factionOrder: { findMany: vi.fn(async () => []), update: vi.fn() },
     location: { findMany: vi.fn() },
     supplyRoute: { findMany: vi.fn(), update: vi.fn(), create: vi.fn() },
     locationAdjacency: { findMany: vi.fn() },
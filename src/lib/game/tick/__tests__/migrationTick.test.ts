@@ -6,6 +6,8 @@ vi.mock('@/lib/prisma', () => ({
     nPC: { findMany: vi.fn(), update: vi.fn() },
     locationAdjacency: { findMany: vi.fn() },
     populationFlightEvent: { createMany: vi.fn() },
+    // Hazards (hazardTick.ts): nowhere stricken unless a test says so.
+    hazard: { findMany: vi.fn(async () => []) },
   },
 }))
 
@@ -306,12 +308,65 @@ describe('decideMigration — destination reachability (#108 follow-up)', () =>
   })
 })
 
+describe('decideMigration — hazards', () => {
+  it('flees a stricken location even though its condition is still sound, naming the hazard', () => {
+    const { npcMoves, populationFlights } = decideMigration(
+      [{ id: 'town', name: 'The Town', conditionScore: 70, population: 100 }],
+      [{ id: 'capital', name: 'The Capital', conditionScore: 90, population: 500 }],
+      [{ id: 'npc1', name: 'Aldric', locationId: 'town', isAlive: true }],
+      [],
+      new Map([['town', 'PLAGUE']])
+    )
+    expect(npcMoves).toEqual([
+      expect.objectContaining({ npcId: 'npc1', toLocationId: 'capital', hazard: 'PLAGUE' }),
+    ])
+    expect(populationFlights).toEqual([expect.objectContaining({ fromLocationId: 'town', count: 10 })])
+  })
+
+  it('never sends anyone into a stricken place, however healthy it looks', () => {
+    const { npcMoves } = decideMigration(
+      [{ id: 'ruins', name: 'The Ruins', conditionScore: 10, population: null }],
+      [
+        { id: 'capital', name: 'The Capital', conditionScore: 90, population: null },
+        { id: 'town', name: 'The Town', conditionScore: 60, population: null },
+      ],
+      [{ id: 'npc1', name: 'Aldric', locationId: 'ruins', isAlive: true }],
+      [],
+      new Map([['capital', 'FLOOD']])
+    )
+    expect(npcMoves[0].toLocationId).toBe('town')
+    expect(npcMoves[0].hazard).toBeUndefined()
+  })
+})
+
 describe('tickMigration (DB handler)', () => {
   beforeEach(() => {
     vi.clearAllMocks()
     vi.mocked(prisma.locationAdjacency.findMany).mockResolvedValue([])
   })
 
+  it('treats a location gripped by a severe hazard as distressed, and says what they fled', async () => {
+    vi.mocked(prisma.location.findMany).mockResolvedValueOnce([
+      { id: 'town', name: 'The Town', conditionScore: 70, population: null },
+      { id: 'capital', name: 'The Capital', conditionScore: 90, population: null },
+    ] as any)
+    vi.mocked(prisma.hazard.findMany).mockResolvedValueOnce([{ locationId: 'town', type: 'PLAGUE' }] as any)
+    vi.mocked(prisma.nPC.findMany).mockResolvedValueOnce([
+      { id: 'npc1', name: 'Aldric', locationId: 'town', isAlive: true, importance: 3 },
+    ] as any)
+
+    const result = await tickMigration(baseCtx())
+
+    expect(prisma.hazard.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ status: 'ACTIVE', severity: { gte: 3 } }) })
+    )
+    expect(result.changes[0]).toMatchObject({
+      entityType: 'NPC',
+      newValue: 'The Capital',
+      reason: 'Aldric fled the plague in The Town for The Capital',
+    })
+  })
+
   it('does nothing when no location is distressed', async () => {
     vi.mocked(prisma.location.findMany).mockResolvedValueOnce([
       { id: 'town', name: 'The Town', conditionScore: 60, population: null },
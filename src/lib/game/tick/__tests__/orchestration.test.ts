@@ -56,11 +56,13 @@ const h = vi.hoisted(() => {
     persistWorldEvents: vi.fn(async () => {}),
     logSignificantChanges: vi.fn(async () => 3),
     syncWikiEntriesForChanges: vi.fn(async () => {}),
+    recordTerritoryFrame: vi.fn(async (..._args: unknown[]) => true),
+    recordWorldSnapshot: vi.fn(async (..._args: unknown[]) => false),
   }
 })
 
 const { callOrder, pendingAmbition } = h
-const { persistWorldEvents, logSignificantChanges, syncWikiEntriesForChanges } = h
+const { persistWorldEvents, logSignificantChanges, syncWikiEntriesForChanges, recordTerritoryFrame, recordWorldSnapshot } = h
 
 vi.mock('../weatherTick', () => ({ tickWeather: h.stub('weather') }))
 vi.mock('../seasonTick', () => ({ tickSeasonalPressure: h.stub('season') }))
@@ -70,9 +72,11 @@ vi.mock('../npcDispositionTick', () => ({ tickNpcDisposition: h.stub('npcDisposi
 vi.mock('../factionTick', () => ({ tickFactions: h.stub('factions') }))
 vi.mock('../leadershipTick', () => ({ tickFactionLeadership: h.stub('leadership') }))
 vi.mock('../warTick', () => ({ tickWars: h.stub('wars') }))
+vi.mock('../diplomacyTick', () => ({ tickDiplomacy: h.stub('diplomacy') }))
 vi.mock('../territoryLoyaltyTick', () => ({ tickTerritoryLoyalty: h.stub('territoryLoyalty') }))
 vi.mock('../locationConditionTick', () => ({ tickLocationCondition: h.stub('locationCondition') }))
 vi.mock('../logisticsTick', () => ({ tickLogistics: h.stub('logistics') }))
+vi.mock('../hazardTick', () => ({ tickHazards: h.stub('hazards') }))
 vi.mock('../ambitionTick', () => ({
   tickFactionAmbitions: h.stub('ambitions', { pendingAmbitions: [h.pendingAmbition] }),
 }))
@@ -90,6 +94,8 @@ vi.mock('../integrityTick', () => ({ tickIntegrity: h.stub('integrity') }))
 vi.mock('../worldEventLog', () => ({ persistWorldEvents: h.persistWorldEvents }))
 vi.mock('../historyLog', () => ({ logSignificantChanges: h.logSignificantChanges }))
 vi.mock('../wikiSync', () => ({ syncWikiEntriesForChanges: h.syncWikiEntriesForChanges }))
+vi.mock('../../atlas/territoryFrames', () => ({ recordTerritoryFrame: h.recordTerritoryFrame }))
+vi.mock('../../worldHistory/snapshots', () => ({ recordWorldSnapshot: h.recordWorldSnapshot }))
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
@@ -133,8 +139,8 @@ describe('runWorldTick — the handler sequence', () => {
   it('runs every registered handler exactly once', async () => {
     await runWorldTick('camp1', simTurn(7))
 
-    expect(callOrder).toHaveLength(20)
-    expect(new Set(callOrder).size).toBe(20)
+    expect(callOrder).toHaveLength(22)
+    expect(new Set(callOrder).size).toBe(22)
   })
 
   // Each case below is one of the five same-turn dependencies documented
@@ -194,6 +200,19 @@ describe('runWorldTick — the handler sequence', () => {
     expect(at('wars')).toBeLessThan(at('ambitions'))
   })
 
+  it('runs diplomacy right after wars and before territory, so a war ended at the table lifts its siege this same turn', async () => {
+    // tickDiplomacy reads this turn's post-attrition momentum, and a
+    // negotiated ending clears (or, under vassalage, hands over) the
+    // contested location before territory loyalty, location condition and
+    // logistics read it. Before ambitions, so a vassal's treaty gate sees a
+    // vassalage signed this turn.
+    await runWorldTick('camp1', simTurn(7))
+    expect(at('wars')).toBeLessThan(at('diplomacy'))
+    expect(at('diplomacy')).toBeLessThan(at('territoryLoyalty'))
+    expect(at('diplomacy')).toBeLessThan(at('locationCondition'))
+    expect(at('diplomacy')).toBeLessThan(at('ambitions'))
+  })
+
   it('runs location condition right after wars, so a war resolved this tick no longer counts as "at war"', async () => {
     await runWorldTick('camp1', simTurn(7))
     expect(at('wars')).toBeLessThan(at('locationCondition'))
@@ -219,6 +238,17 @@ describe('runWorldTick — the handler sequence', () => {
     expect(at('logistics')).toBeLessThan(at('ambitions'))
   })
 
+  it('runs hazards after logistics and before NPCs move, so disasters spread on this turn\'s roads and drive this turn\'s refugees', async () => {
+    // tickHazards spreads plague and famine along supply routes as
+    // tickLogistics just left them, and its damage is what tickMigration
+    // reads as distress in the same pass.
+    await runWorldTick('camp1', simTurn(7))
+    expect(at('locationCondition')).toBeLessThan(at('hazards'))
+    expect(at('logistics')).toBeLessThan(at('hazards'))
+    expect(at('hazards')).toBeLessThan(at('npcs'))
+    expect(at('hazards')).toBeLessThan(at('migration'))
+  })
+
   it('derives NPC ties after NPCs move, then schemes from those ties, all in one pass', async () => {
     // Ties derive from faction/NPC state; schemes then use the ties this
     // turn established rather than waiting an extra tick.
@@ -259,7 +289,7 @@ describe('runWorldTick — the handler sequence', () => {
     // tickIntegrity checks the state this turn actually produced — it has
     // to see every other handler's writes, not last turn's.
     await runWorldTick('camp1', simTurn(7))
-    for (const name of ['weather', 'season', 'relationships', 'beliefDrift', 'npcDisposition', 'factions', 'leadership', 'wars', 'territoryLoyalty', 'locationCondition', 'logistics', 'ambitions', 'npcs', 'migration', 'information', 'socialTies', 'jointSchemes', 'wake', 'economy']) {
+    for (const name of ['weather', 'season', 'relationships', 'beliefDrift', 'npcDisposition', 'factions', 'leadership', 'wars', 'diplomacy', 'territoryLoyalty', 'locationCondition', 'logistics', 'hazards', 'ambitions', 'npcs', 'migration', 'information', 'socialTies', 'jointSchemes', 'wake', 'economy']) {
       expect(at(name)).toBeLessThan(at('integrity'))
     }
   })
@@ -290,7 +320,7 @@ describe('runWorldTick — context and accumulation', () => {
 
   it('collects every handler\'s changes, losing none', async () => {
     const result = await runWorldTick('camp1', simTurn(7))
-    expect(result.changes).toHaveLength(20)
+    expect(result.changes).toHaveLength(22)
     expect(result.changes.map(c => c.field).sort()).toEqual([...callOrder].sort())
   })
 
@@ -321,7 +351,7 @@ describe('runWorldTick — the fan-out to all three consumers', () => {
       const [campaignId, turnNumber, changes] = consumer.mock.calls[0] as any[]
       expect(campaignId).toBe('camp1')
       expect(turnNumber).toBe(7)
-      expect(changes).toHaveLength(20)
+      expect(changes).toHaveLength(22)
     }
   })
 
@@ -331,6 +361,33 @@ describe('runWorldTick — the fan-out to all three consumers', () => {
   })
 })
 
+describe('runWorldTick — offline', () => {
+  it('commits the tick but never asks for embeddings', async () => {
+    // The headless simulation runner ticks a sandbox many turns in a row;
+    // the history log is the one consumer that would call out to a paid API.
+    const result = await runWorldTick('camp1', simTurn(7), { offline: true })
+
+    expect(logSignificantChanges).not.toHaveBeenCalled()
+    expect(result.historyEntriesCreated).toBe(0)
+    expect(recordTerritoryFrame).toHaveBeenCalledTimes(1)
+  })
+
+  it('still writes world events and the wiki, which the next turn reads back', async () => {
+    await runWorldTick('camp1', simTurn(7), { offline: true })
+    expect(persistWorldEvents).toHaveBeenCalledTimes(1)
+    expect(syncWikiEntriesForChanges).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('runWorldTick — handler timings', () => {
+  it('times every handler once, even in a preview', async () => {
+    const result = await runWorldTick('camp1', simTurn(7), { dryRun: true })
+
+    expect(result.handlerTimings).toHaveLength(22)
+    expect(result.handlerTimings.every((t) => t.ms >= 0)).toBe(true)
+  })
+})
+
 // #236 (adversarial audit): these three post-commit consumers are
 // documented as best-effort — a failure in one must not prevent the
 // others from running, and must not propagate up to abort the rest of
@@ -338,6 +395,35 @@ describe('runWorldTick — the fan-out to all three consumers', () => {
 // generation, all called right after runWorldTick returns). Before this
 // fix, an unexpected throw from any of the three propagated straight out
 // of runWorldTick uncaught.
+describe('runWorldTick — the atlas border frame', () => {
+  it('records the turn\'s borders inside the tick transaction, after every handler', async () => {
+    recordTerritoryFrame.mockImplementationOnce(async () => {
+      callOrder.push('territoryFrame')
+      return true
+    })
+    await runWorldTick('camp1', simTurn(7))
+
+    expect(callOrder.at(-1)).toBe('territoryFrame')
+    expect(recordTerritoryFrame).toHaveBeenCalledWith(expect.anything(), 'camp1', 7)
+    expect(recordTerritoryFrame.mock.calls[0][0]).not.toBe(prisma)
+  })
+})
+
+describe('runWorldTick — the world snapshot', () => {
+  it('offers every committed turn to the snapshot, inside the tick transaction', async () => {
+    // Whether this turn is a snapshot turn is the snapshot module's call.
+    await runWorldTick('camp1', simTurn(10))
+
+    expect(recordWorldSnapshot).toHaveBeenCalledWith(expect.anything(), 'camp1', 10)
+    expect(recordWorldSnapshot.mock.calls[0][0]).not.toBe(prisma)
+  })
+
+  it('snapshots nothing in a preview', async () => {
+    await runWorldTick('camp1', simTurn(10), { dryRun: true })
+    expect(recordWorldSnapshot).not.toHaveBeenCalled()
+  })
+})
+
 describe('runWorldTick — post-commit consumer resilience', () => {
   it('still calls history and wiki sync when persistWorldEvents throws unexpectedly', async () => {
     persistWorldEvents.mockRejectedValueOnce(new Error('db down'))
@@ -406,7 +492,7 @@ describe('runWorldTick — ctx.season wiring (#263)', () => {
 describe('runWorldTick — dry run', () => {
   it('still runs every handler, so the preview reflects real decisions', async () => {
     await runWorldTick('camp1', simTurn(7), { dryRun: true })
-    expect(callOrder).toHaveLength(20)
+    expect(callOrder).toHaveLength(22)
   })
 
   it('tells every handler it is a dry run, since each skips its own writes', async () => {
@@ -423,11 +509,12 @@ describe('runWorldTick — dry run', () => {
     expect(persistWorldEvents).not.toHaveBeenCalled()
     expect(logSignificantChanges).not.toHaveBeenCalled()
     expect(syncWikiEntriesForChanges).not.toHaveBeenCalled()
+    expect(recordTerritoryFrame).not.toHaveBeenCalled()
   })
 
   it('returns the changes it would have made, with a zeroed history count', async () => {
     const result = await runWorldTick('camp1', simTurn(7), { dryRun: true })
-    expect(result.changes).toHaveLength(20)
+    expect(result.changes).toHaveLength(22)
     expect(result.historyEntriesCreated).toBe(0)
     expect(result.pendingAmbitions).toEqual([pendingAmbition])
   })
@@ -354,6 +354,16 @@ describe('decideRelationshipTick', () => {
   it('is neutral between factions with unrelated goals', () => {
     expect(decideRelationshipTick({ goal: 'EXPAND', stability: 50 }, { goal: 'CONSOLIDATE', stability: 50 })).toBe('NEUTRAL')
   })
+
+  it('lets treaties override goals', () => {
+    const rivals = [{ goal: 'EXPAND', stability: 50 }, { goal: 'EXPAND', stability: 50 }] as const
+    const allies = [{ goal: 'CONSOLIDATE', stability: 60 }, { goal: 'DEFEND', stability: 60 }] as const
+    // A pact can't make friends, only stop a rivalry.
+    expect(decideRelationshipTick(...rivals, 'BOUND')).toBe('NEUTRAL')
+    expect(decideRelationshipTick(...allies, 'BOUND')).toBe('ALLY')
+    expect(decideRelationshipTick(...rivals, 'VASSALAGE')).toBe('ALLY')
+    expect(decideRelationshipTick(...allies, 'BETRAYED')).toBe('RIVAL')
+  })
 })
 
 describe('decideTerritoryClaim', () => {
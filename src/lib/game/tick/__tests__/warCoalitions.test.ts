@@ -2,10 +2,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
+    // Faction orders (factionOrders/): none queued unless a test says so.
+    factionOrder: { findMany: vi.fn(async () => []), update: vi.fn() },
     war: { findMany: vi.fn(), update: vi.fn(), create: vi.fn() },
     faction: { update: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
     location: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn(), findMany: vi.fn() },
     warParticipant: { create: vi.fn(), createMany: vi.fn() },
+    // Treaties in force keep bound factions out of each other's wars.
+    treaty: { findMany: vi.fn(async () => []) },
   },
 }))
 
@@ -23,8 +23,11 @@ export async function resolveCompletedAmbitions(
   // #437: the SIMULATION turn — one phase of a world turn.
   currentTurn: SimTurn,
   completedAmbitionClocks: any[],
-  inGameDayNumber?: number
-) {
+  inGameDayNumber?: number,
+  // offline: the headless simulation runner's sandbox — no embeddings, same
+  // as runWorldTick's own offline option.
+  options: { offline?: boolean } = {}
+): Promise<WorldChange[]> {
   const changes: WorldChange[] = []
 
   for (const clock of completedAmbitionClocks) {
@@ -283,6 +286,10 @@ export async function resolveCompletedAmbitions(
 
   if (changes.length > 0) {
     await persistWorldEvents(campaignId, currentTurn, changes)
-    await logSignificantChanges(campaignId, currentTurn, changes)
+    if (!options.offline) {
+      await logSignificantChanges(campaignId, currentTurn, changes)
+    }
   }
+
+  return changes
 }
@@ -21,6 +21,11 @@
 // A faction commits to at most one ambition at a time: once it has an
 // active (incomplete) spawned clock, this handler leaves it alone until
 // that clock resolves.
+//
+// Treaties gate it too (diplomacyTick.ts's treatyBlocksAmbition): a vassal
+// commits to no EXPAND or DESTABILIZE_RIVAL ambition of its own, and a
+// DESTABILIZE_RIVAL ambition is never aimed at a treaty partner. Treaties
+// signed this same turn count — tickDiplomacy runs before this handler.
 
 import type { FactionGoal, FactionArchetype } from '@prisma/client'
 import { HIGH_BAND_MIN } from './factionTick'
@@ -28,6 +33,7 @@ import { TickContext, TickHandlerResult, WorldChange, PendingAmbition, clamp, fi
 import { TIE_INCLUDE, factionTies } from '../tieGraph'
 import { BeliefVector } from './beliefTick'
 import { rosterFactionFilter } from './capOrdering'
+import { loadTreatyBindings, treatyBlocksAmbition } from './diplomacyTick'
 
 // The same HIGH cutoff the rest of the tick uses, referenced rather than
 // copied so a rebalance can't drift.
@@ -197,6 +203,7 @@ export async function tickFactionAmbitions(ctx: TickContext): Promise<TickHandle
     select: { factionId: true },
   })
   const factionIdsAtWar = new Set(warParticipants.map((p) => p.factionId))
+  const { active: treaties } = await loadTreatyBindings(ctx.db, ctx.campaignId, ctx.turnNumber)
 
   const changes: WorldChange[] = []
   const pendingAmbitions: PendingAmbition[] = []
@@ -229,6 +236,10 @@ export async function tickFactionAmbitions(ctx: TickContext): Promise<TickHandle
       }
     }
 
+    // Checked after the target is known and before anything is spent: a
+    // blocked ambition is simply not committed to this turn.
+    if (treatyBlocksAmbition(treaties, faction, targetFactionId)) continue
+
     const resourcesAfterCost = clamp(faction.resources - decision.resourceCost, 0, 100)
     if (!ctx.dryRun) {
       await ctx.db.faction.update({
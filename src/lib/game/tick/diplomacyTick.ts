@@ -0,0 +1,763 @@
+// src/lib/game/tick/diplomacyTick.ts
+// Diplomacy — factions propose, accept and break treaties.
+//
+// Before this, warTick.ts was the only way two factions' relationship ever
+// ended in anything: a war ran until momentum swung past the decisive line
+// or the stalemate timer called it, and both sides paid attrition every
+// turn in between. Nothing short of war ever bound two factions either.
+// Long campaigns ended up in a loop of attritional wars because nothing
+// else could happen. A Treaty (schema.prisma) is the something else:
+//
+//   CEASEFIRE       ends a war as a draw.
+//   TRIBUTE         ends a war; the side that asked pays the other each turn.
+//   VASSALAGE       ends a war; the side that asked submits — pays every
+//                   turn with no end date, and cedes the contested prize if
+//                   it was the defender.
+//   NON_AGGRESSION  peacetime; two rivals agree not to fight.
+//
+// Every term is decided here, deterministically, from state the tick
+// already keeps: War momentum and the parties' military/resources (who is
+// losing, who is spent), Faction.beliefVector (hawks hold out, isolationists
+// and merchants deal), FactionDebt (a debtor doesn't turn down its
+// creditor; a faction that defaulted on you isn't trusted) and FactionTie
+// (two rivals at peace are who a pact is for). No AI — the narration pass
+// sees the treatySigned/treatyBroken changes like any other.
+//
+// A proposal made on turn N is answered on turn N+1, so the offer is on
+// record (and in the history log) before its answer — the same one-tick
+// lag relationshipTick.ts uses to keep a same-turn decision from reading
+// its own output.
+//
+// Treaties in force feed back into three other handlers, all through
+// loadTreatyBindings below:
+//   - relationshipTick.ts: a pact keeps a pair from reading as RIVALs,
+//     vassalage makes overlord and vassal ALLYs, and a broken treaty makes
+//     the wronged side a RIVAL for a while (treatyStanding).
+//   - warTick.ts: a bound pair can't declare war on each other, and an ally
+//     can't join a war against its treaty partner (bindingBetween).
+//   - ambitionTick.ts: a vassal commits to no conquest or scheme of its
+//     own, and nobody schemes against a treaty partner
+//     (treatyBlocksAmbition).
+//
+// A faction a PC leads (Faction.leaderCharacterId) offers nothing on its
+// own: its leader sends envoys instead, as faction orders (factionOrders/)
+// carried out here in step 3. Offers made TO it are still answered by
+// step 1, from its state, like anyone else's.
+//
+// Runs right after tickWars in the handler order (see worldTick.ts): it
+// reads this turn's post-attrition momentum and stats, skips wars tickWars
+// already resolved this turn, and lifts a negotiated war's siege before
+// tickTerritoryLoyalty, tickLocationCondition and tickLogistics read it.
+
+import type { Faction, FactionGoal, Prisma, TreatyType } from '@prisma/client'
+import { HIGH_BAND_MIN, MEDIUM_BAND_MIN } from './factionTick'
+import { BeliefVector, NEUTRAL_BELIEF, parseBeliefVector } from './beliefTick'
+import { TickContext, TickHandlerResult, WorldChange, clamp } from './types'
+import { rosterFactionFilter } from './capOrdering'
+import { pairKey } from '../tieGraph'
+import { carryOutFactionOrders } from '../factionOrders/carryOut'
+import { ENVOY_COST } from '../factionOrders/orders'
+
+// ── Tuning ───────────────────────────────────────────────────────────────
+
+/** A war has to have actually been fought before anyone talks. */
+export const MIN_WAR_TURNS_BEFORE_TALKS = 3
+
+// Momentum (−100..+100, from the asking side's point of view) at which a
+// side counts as losing, and as routed. Both well short of warTick's
+// decisive ±60 — suing for peace is what a side does BEFORE it's beaten.
+const OUTMATCHED_MOMENTUM = 25
+const ROUTED_MOMENTUM = 45
+/** Routed also means the other side's army is this much bigger, not just luckier so far. */
+const ROUTED_MILITARY_RATIO = 1.5
+
+/** Below MEDIUM on resources or military: a side that can't keep paying attrition. */
+const EXHAUSTED_BELOW = MEDIUM_BAND_MIN
+
+// Belief cutoffs. A hawk only asks for terms when routed, and is harder to
+// offer terms to; an isolationist would rather not be in anyone's war; a
+// merchant likes being paid.
+const HAWK_AGGRESSION = 70
+const ISOLATIONIST_BELIEF = 60
+const MERCANTILE_BELIEF = 60
+
+/** A peacetime pact is offered by the clearly weaker of two rivals, or an isolationist one. */
+const PACT_WEAKER_MARGIN = 15
+
+export const TRIBUTE_PER_TURN = 4
+// Smaller than tribute because it never ends — a vassal pays forever.
+export const VASSAL_TRIBUTE_PER_TURN = 2
+
+/** How long each kind of treaty holds once signed. VASSALAGE has no term. */
+export const TREATY_TERMS: Record<TreatyType, number | null> = {
+  CEASEFIRE: 8,
+  TRIBUTE: 6,
+  NON_AGGRESSION: 12,
+  VASSALAGE: null,
+}
+
+/** How long a broken treaty poisons the pair — for acceptance, and for relationshipTick. */
+export const BETRAYAL_MEMORY_TURNS = 12
+/** After a refusal, the same pair can't be asked again for this long. */
+const PROPOSAL_COOLDOWN_TURNS = 3
+/** Nobody breaks a treaty the turn after signing it — except by being unable to pay. */
+const MIN_TURNS_BEFORE_BREACH = 2
+/** How far a hawk's army must outstrip its treaty partner's before it tears the treaty up. */
+const OPPORTUNITY_MARGIN = 20
+/** A vassal or tributary whose army outgrows its overlord's by this much stops paying. */
+const REVOLT_MARGIN = 10
+
+// Standing costs. Breaking your word costs more than submitting did.
+const BREACH_INFLUENCE_COST = 6
+const SUBMISSION_INFLUENCE_COST = 4
+
+// ── Pure decisions ───────────────────────────────────────────────────────
+
+/** A faction as diplomacy sees it. */
+export interface TreatyParty {
+  id: string
+  name: string
+  military: number
+  resources: number
+  belief: BeliefVector
+}
+
+export interface TreatyProposalDecision {
+  type: TreatyType | null
+  tributePerTurn: number
+}
+
+/**
+ * Whether a side in an ongoing war asks for terms this turn, and which.
+ * `momentumForSelf` is War.momentum from this side's point of view
+ * (positive = winning).
+ *
+ * Routed sides offer vassalage, losing sides offer tribute, spent sides
+ * offer a ceasefire. A hawk asks for nothing until it's routed.
+ *
+ * Pure decision function — no DB access, safe to unit test directly.
+ */
+export function decideWarTreatyProposal(input: {
+  self: TreatyParty
+  opponent: TreatyParty
+  momentumForSelf: number
+  turnsElapsed: number
+}): TreatyProposalDecision {
+  const none = { type: null, tributePerTurn: 0 }
+  const { self, opponent, momentumForSelf, turnsElapsed } = input
+  if (turnsElapsed < MIN_WAR_TURNS_BEFORE_TALKS) return none
+
+  const routed = momentumForSelf <= -ROUTED_MOMENTUM && opponent.military >= self.military * ROUTED_MILITARY_RATIO
+  if (routed) return { type: 'VASSALAGE', tributePerTurn: VASSAL_TRIBUTE_PER_TURN }
+
+  if (self.belief.aggression >= HAWK_AGGRESSION) return none
+
+  if (momentumForSelf <= -OUTMATCHED_MOMENTUM) return { type: 'TRIBUTE', tributePerTurn: TRIBUTE_PER_TURN }
+
+  const exhausted = self.resources < EXHAUSTED_BELOW || self.military < EXHAUSTED_BELOW
+  if (exhausted) return { type: 'CEASEFIRE', tributePerTurn: 0 }
+
+  return none
+}
+
+/**
+ * Whether a faction at peace offers its rival a non-aggression pact: it's
+ * no hawk, and it's either isolationist or clearly the weaker of the two.
+ *
+ * Pure decision function — no DB access, safe to unit test directly.
+ */
+export function decidePactProposal(self: TreatyParty, rival: TreatyParty): boolean {
+  if (self.belief.aggression >= HAWK_AGGRESSION) return false
+  return self.belief.isolationism >= ISOLATIONIST_BELIEF || rival.military >= self.military + PACT_WEAKER_MARGIN
+}
+
+export interface TreatyAcceptanceInput {
+  type: TreatyType
+  proposer: TreatyParty
+  recipient: TreatyParty
+  /** War.momentum from the recipient's point of view; null for a peacetime pact. */
+  momentumForRecipient: number | null
+  /** The pair's FactionTie, if any. */
+  tie: 'RIVAL' | 'ALLY' | null
+  /** The recipient has an OUTSTANDING FactionDebt to the proposer. */
+  recipientOwesProposer: boolean
+  /** The proposer has DEFAULTED on a FactionDebt to the recipient. */
+  proposerDefaultedOnRecipient: boolean
+  /** The proposer broke a treaty with the recipient within BETRAYAL_MEMORY_TURNS. */
+  proposerBrokeFaithRecently: boolean
+}
+
+export interface TreatyAcceptanceDecision {
+  accepted: boolean
+  score: number
+  /** Every term that moved the score, narrated — same idea as explainWarMomentum. */
+  reasoning: string[]
+}
+
+/**
+ * The recipient's answer. A tally of reasons for and against, accepted at
+ * zero or above — so a neutral recipient with nothing to gain from
+ * fighting on takes a ceasefire, and one about to win outright turns
+ * tribute down.
+ *
+ * Pure decision function — no DB access, safe to unit test directly.
+ */
+export function decideTreatyAcceptance(input: TreatyAcceptanceInput): TreatyAcceptanceDecision {
+  const { type, proposer, recipient } = input
+  const reasoning: string[] = []
+  let score = 0
+  const add = (delta: number, why: string) => {
+    if (delta === 0) return
+    score += delta
+    reasoning.push(`${delta > 0 ? '+' : ''}${Math.round(delta * 10) / 10}: ${why}`)
+  }
+
+  add((NEUTRAL_BELIEF.aggression - recipient.belief.aggression) / 10, `${recipient.name}'s aggression is ${recipient.belief.aggression}`)
+  if (recipient.belief.isolationism >= ISOLATIONIST_BELIEF) add(1, `${recipient.name} would rather keep to itself`)
+
+  if (type === 'TRIBUTE') add(2, `${proposer.name} offers to pay tribute`)
+  if (type === 'VASSALAGE') add(3, `${proposer.name} offers to submit as a vassal`)
+  if ((type === 'TRIBUTE' || type === 'VASSALAGE') && recipient.belief.mercantilism >= MERCANTILE_BELIEF) {
+    add(1, `${recipient.name} values a steady income`)
+  }
+
+  if (input.momentumForRecipient !== null) {
+    // Winning makes terms less attractive — why settle for tribute when
+    // the prize is nearly yours? Losing makes any peace look good.
+    add(-input.momentumForRecipient / 15, `the war's momentum stands at ${input.momentumForRecipient} in ${recipient.name}'s favour`)
+    if (recipient.resources < EXHAUSTED_BELOW || recipient.military < EXHAUSTED_BELOW) {
+      add(2, `${recipient.name} is exhausted too`)
+    }
+  } else {
+    // Rivalry is a given between two sides of a war; in peacetime it's
+    // exactly what a pact has to overcome.
+    if (input.tie === 'RIVAL') add(-1, `${recipient.name} and ${proposer.name} are rivals`)
+    if (input.tie === 'ALLY') add(2, `${recipient.name} and ${proposer.name} are allies`)
+  }
+
+  if (input.recipientOwesProposer) add(2, `${recipient.name} owes ${proposer.name} and can't afford to refuse`)
+  if (input.proposerDefaultedOnRecipient) add(-2, `${proposer.name} defaulted on what it owed ${recipient.name}`)
+  if (input.proposerBrokeFaithRecently) add(-3, `${proposer.name} broke its last treaty with ${recipient.name}`)
+
+  return { accepted: score >= 0, score, reasoning }
+}
+
+export type TreatyBreachReason = 'DEFAULT' | 'REVOLT' | 'OPPORTUNITY'
+
+/**
+ * Whether `self` walks away from a treaty in force this turn.
+ *
+ *   - DEFAULT: a payer that can't cover this turn's tribute.
+ *   - REVOLT: a payer whose army has outgrown its overlord's.
+ *   - OPPORTUNITY: a hawk that has become much stronger than the other
+ *     side of a ceasefire or pact, and is no longer held by it.
+ *
+ * The side being paid never breaks a tribute or vassalage — it's the one
+ * benefiting.
+ *
+ * Pure decision function — no DB access, safe to unit test directly.
+ */
+export function decideTreatyBreach(input: {
+  type: TreatyType
+  /** Whether `self` is the paying side (the proposer of a TRIBUTE or VASSALAGE). */
+  selfPays: boolean
+  self: TreatyParty
+  counterpart: TreatyParty
+  tributePerTurn: number
+  turnsInForce: number
+}): TreatyBreachReason | null {
+  const { type, selfPays, self, counterpart } = input
+  const paying = type === 'TRIBUTE' || type === 'VASSALAGE'
+
+  if (paying && !selfPays) return null
+  if (paying && self.resources < input.tributePerTurn) return 'DEFAULT'
+  if (input.turnsInForce < MIN_TURNS_BEFORE_BREACH) return null
+
+  if (paying) {
+    return self.military >= counterpart.military + REVOLT_MARGIN ? 'REVOLT' : null
+  }
+
+  const opportunity =
+    self.belief.aggression >= HAWK_AGGRESSION &&
+    self.military >= HIGH_BAND_MIN &&
+    self.military >= counterpart.military + OPPORTUNITY_MARGIN
+  return opportunity ? 'OPPORTUNITY' : null
+}
+
+// ── Treaty bindings, as the rest of the tick reads them ──────────────────
+
+/** A treaty in force. */
+export interface TreatyBinding {
+  type: TreatyType
+  proposerFactionId: string
+  recipientFactionId: string
+}
+
+/** A treaty somebody broke, and when. */
+export interface TreatyBreach {
+  proposerFactionId: string
+  recipientFactionId: string
+  brokenByFactionId: string | null
+  endedTurn: number | null
+}
+
+function between(t: { proposerFactionId: string; recipientFactionId: string }, aId: string, bId: string): boolean {
+  return (t.proposerFactionId === aId && t.recipientFactionId === bId) || (t.proposerFactionId === bId && t.recipientFactionId === aId)
+}
+
+/** The treaty in force between two factions, if any. */
+export function bindingBetween(active: TreatyBinding[], aId: string, bId: string): TreatyBinding | undefined {
+  return active.find((t) => between(t, aId, bId))
+}
+
+/** The faction this one is a vassal of, or null. */
+export function overlordOf(active: TreatyBinding[], factionId: string): string | null {
+  return active.find((t) => t.type === 'VASSALAGE' && t.proposerFactionId === factionId)?.recipientFactionId ?? null
+}
+
+/**
+ * What treaties say about a pair, for relationshipTick.ts:
+ *   - 'BETRAYED': one of them broke a treaty with the other recently —
+ *     whatever their goals, they're rivals now.
+ *   - 'VASSALAGE': overlord and vassal — allies.
+ *   - 'BOUND': any other treaty in force — they can't be rivals.
+ *   - null: treaties have nothing to say.
+ *
+ * A betrayal outranks a treaty in force: a pair can't be both, since
+ * breaking ends the treaty, but a new one signed inside the memory window
+ * still reads as BETRAYED until the window passes.
+ */
+export type TreatyStanding = 'BETRAYED' | 'VASSALAGE' | 'BOUND' | null
+
+export function treatyStanding(
+  active: TreatyBinding[],
+  broken: TreatyBreach[],
+  aId: string,
+  bId: string,
+  currentTurn: number
+): TreatyStanding {
+  const betrayed = broken.some(
+    (t) => between(t, aId, bId) && t.endedTurn !== null && currentTurn - t.endedTurn < BETRAYAL_MEMORY_TURNS
+  )
+  if (betrayed) return 'BETRAYED'
+  const binding = bindingBetween(active, aId, bId)
+  if (!binding) return null
+  return binding.type === 'VASSALAGE' ? 'VASSALAGE' : 'BOUND'
+}
+
+/**
+ * The ambition gate. Why `faction` may not commit to an ambition against
+ * `targetFactionId` this turn, or null when treaties don't stop it.
+ *
+ * A vassal's ambitions are its overlord's business: it commits to no
+ * conquest or scheme of its own (ENRICH is still its own affair). And
+ * nobody schemes against a faction it has a treaty with.
+ */
+export function treatyBlocksAmbition(
+  active: TreatyBinding[],
+  faction: { id: string; goal: FactionGoal },
+  targetFactionId?: string
+): string | null {
+  if ((faction.goal === 'EXPAND' || faction.goal === 'DESTABILIZE_RIVAL') && overlordOf(active, faction.id)) {
+    return 'is a vassal'
+  }
+  if (targetFactionId && bindingBetween(active, faction.id, targetFactionId)) {
+    return 'is bound by treaty to its target'
+  }
+  return null
+}
+
+/**
+ * Every treaty in force, and every one broken within BETRAYAL_MEMORY_TURNS,
+ * for a campaign. The one read relationshipTick, warTick and ambitionTick
+ * share.
+ */
+export async function loadTreatyBindings(
+  db: TickContext['db'],
+  campaignId: string,
+  currentTurn: number
+): Promise<{ active: TreatyBinding[]; broken: TreatyBreach[] }> {
+  const [active, broken] = await Promise.all([
+    db.treaty.findMany({
+      where: { campaignId, status: 'ACTIVE' },
+      select: { type: true, proposerFactionId: true, recipientFactionId: true },
+    }),
+    db.treaty.findMany({
+      where: { campaignId, status: 'BROKEN', endedTurn: { gt: currentTurn - BETRAYAL_MEMORY_TURNS } },
+      select: { proposerFactionId: true, recipientFactionId: true, brokenByFactionId: true, endedTurn: true },
+    }),
+  ])
+  return { active, broken }
+}
+
+// ── The handler ──────────────────────────────────────────────────────────
+
+const TREATY_NOUN: Record<TreatyType, string> = {
+  CEASEFIRE: 'a ceasefire',
+  TRIBUTE: 'tribute',
+  NON_AGGRESSION: 'a non-aggression pact',
+  VASSALAGE: 'vassalage',
+}
+
+function toParty(f: Faction): TreatyParty {
+  return {
+    id: f.id,
+    name: f.name,
+    military: f.military,
+    resources: f.resources,
+    belief: parseBeliefVector(f.beliefVector) ?? NEUTRAL_BELIEF,
+  }
+}
+
+export async function tickDiplomacy(ctx: TickContext): Promise<TickHandlerResult> {
+  const changes: WorldChange[] = []
+  const turn = ctx.turnNumber
+
+  const openTreaties = await ctx.db.treaty.findMany({
+    where: { campaignId: ctx.campaignId, status: { in: ['PROPOSED', 'ACTIVE'] } },
+    include: {
+      proposer: true,
+      recipient: true,
+      war: { include: { attacker: true, defender: true } },
+    },
+    orderBy: [{ proposedTurn: 'asc' }, { id: 'asc' }],
+  })
+  const [debts, ties, recentlyEnded] = await Promise.all([
+    ctx.db.factionDebt.findMany({
+      where: { campaignId: ctx.campaignId, status: { in: ['OUTSTANDING', 'DEFAULTED'] } },
+      select: { creditorFactionId: true, debtorFactionId: true, status: true },
+    }),
+    ctx.db.factionTie.findMany({
+      where: { campaignId: ctx.campaignId },
+      select: { factionAId: true, factionBId: true, type: true },
+    }),
+    ctx.db.treaty.findMany({
+      where: {
+        campaignId: ctx.campaignId,
+        status: { in: ['BROKEN', 'REJECTED'] },
+        endedTurn: { gt: turn - Math.max(BETRAYAL_MEMORY_TURNS, PROPOSAL_COOLDOWN_TURNS) },
+      },
+      select: { status: true, proposerFactionId: true, recipientFactionId: true, brokenByFactionId: true, endedTurn: true },
+    }),
+  ])
+
+  // Wars still being fought after tickWars' pass — both who's at war
+  // (step 1's pacts, step 3's offers) and who's negotiating (step 3).
+  const wars = await ctx.db.war.findMany({
+    where: { campaignId: ctx.campaignId, status: 'ESCALATING' },
+    include: { attacker: true, defender: true, participants: { select: { factionId: true, side: true } } },
+    orderBy: { id: 'asc' },
+  })
+  const atWar = new Set<string>()
+  for (const war of wars) {
+    for (const p of war.participants) atWar.add(p.factionId)
+  }
+  const fighting = (aId: string, bId: string) =>
+    wars.some((w) => {
+      const a = w.participants.find((p) => p.factionId === aId)
+      const b = w.participants.find((p) => p.factionId === bId)
+      return !!a && !!b && a.side !== b.side
+    })
+
+  // One working copy per faction, so a second treaty touching the same
+  // faction this pass reads the first one's tribute or penalty rather than
+  // overwriting it with a stale value.
+  const factions = new Map<string, Faction>()
+  const current = (f: Faction): Faction => {
+    const known = factions.get(f.id)
+    if (known) return known
+    factions.set(f.id, f)
+    return f
+  }
+  const adjust = async (f: Faction, data: { resources?: number; influence?: number }) => {
+    const next = { ...current(f), ...data }
+    factions.set(f.id, next)
+    if (!ctx.dryRun) await ctx.db.faction.update({ where: { id: f.id }, data })
+  }
+
+  const endTreaty = async (id: string, data: Prisma.TreatyUpdateInput) => {
+    if (!ctx.dryRun) await ctx.db.treaty.update({ where: { id }, data: { endedTurn: turn, ...data } })
+  }
+
+  // Pairs with a treaty offered or in force. A pair holds at most one at a
+  // time (the migration's partial unique index backs this up).
+  const openPairs = new Set(openTreaties.map((t) => pairKey(t.proposerFactionId, t.recipientFactionId)))
+
+  const change = (f: { id: string; name: string }, field: string, previousValue: string | number, newValue: string | number, reason: string, significant: boolean, importance: WorldChange['importance'], originLocationId?: string | null, origin?: WorldChange['origin']) => {
+    changes.push({ entityType: 'FACTION', entityId: f.id, entityName: f.name, campaignId: ctx.campaignId, field, previousValue, newValue, reason, significant, importance, originLocationId, ...(origin ? { origin } : {}) })
+  }
+
+  // 1. Answer last turn's offers.
+  for (const treaty of openTreaties.filter((t) => t.status === 'PROPOSED')) {
+    const proposer = current(treaty.proposer)
+    const recipient = current(treaty.recipient)
+    const pair = pairKey(proposer.id, recipient.id)
+
+    // Overtaken by events: a party collapsed, the war ended some other way
+    // (momentum, a side collapsing) before the answer came, or a pact's
+    // two rivals went to war with each other in the meantime.
+    const overtaken = treaty.type === 'NON_AGGRESSION'
+      ? fighting(proposer.id, recipient.id)
+      : !treaty.war || treaty.war.status !== 'ESCALATING'
+    if (!proposer.isActive || !recipient.isActive || overtaken) {
+      await endTreaty(treaty.id, { status: 'EXPIRED' })
+      openPairs.delete(pair)
+      change(proposer, 'treatyExpired', 'proposed', 'expired', `${proposer.name}'s offer of ${TREATY_NOUN[treaty.type]} to ${recipient.name} is overtaken by events`, false, 'NORMAL')
+      continue
+    }
+
+    const war = treaty.war
+    const tie = ties.find((t) => pairKey(t.factionAId, t.factionBId) === pair)
+    const decision = decideTreatyAcceptance({
+      type: treaty.type,
+      proposer: toParty(proposer),
+      recipient: toParty(recipient),
+      momentumForRecipient: war ? (war.attackerFactionId === recipient.id ? war.momentum : -war.momentum) : null,
+      tie: tie ? tie.type : null,
+      recipientOwesProposer: debts.some((d) => d.status === 'OUTSTANDING' && d.debtorFactionId === recipient.id && d.creditorFactionId === proposer.id),
+      proposerDefaultedOnRecipient: debts.some((d) => d.status === 'DEFAULTED' && d.debtorFactionId === proposer.id && d.creditorFactionId === recipient.id),
+      proposerBrokeFaithRecently: recentlyEnded.some(
+        (t) => t.status === 'BROKEN' && t.brokenByFactionId === proposer.id && between(t, proposer.id, recipient.id) && t.endedTurn !== null && turn - t.endedTurn < BETRAYAL_MEMORY_TURNS
+      ),
+    })
+
+    if (!decision.accepted) {
+      await endTreaty(treaty.id, { status: 'REJECTED' })
+      openPairs.delete(pair)
+      recentlyEnded.push({ status: 'REJECTED', proposerFactionId: proposer.id, recipientFactionId: recipient.id, brokenByFactionId: null, endedTurn: turn })
+      change(recipient, 'treatyRejected', 'proposed', 'rejected', `${recipient.name} rejects ${proposer.name}'s offer of ${TREATY_NOUN[treaty.type]} (${decision.reasoning.join('; ') || 'nothing to gain'})`, true, 'NORMAL', war?.contestedLocationId ?? null)
+      continue
+    }
+
+    const term = TREATY_TERMS[treaty.type]
+    if (!ctx.dryRun) {
+      await ctx.db.treaty.update({
+        where: { id: treaty.id },
+        data: { status: 'ACTIVE', signedTurn: turn, expiresTurn: term === null ? null : turn + term },
+      })
+    }
+    change(proposer, 'treatySigned', 'proposed', treaty.type, `${proposer.name} and ${recipient.name} agree to ${TREATY_NOUN[treaty.type]}`, true, 'MAJOR', war?.contestedLocationId ?? null)
+
+    if (war) {
+      // The treaty ends the war. A ceasefire is a draw; tribute and
+      // vassalage concede it to the recipient's side.
+      const outcome = treaty.type === 'CEASEFIRE' ? 'stalemate' : war.attackerFactionId === recipient.id ? 'attacker' : 'defender'
+      if (!ctx.dryRun) {
+        await ctx.db.war.update({
+          where: { id: war.id },
+          data: { status: 'RESOLVED', outcome, resolvedTurn: turn },
+        })
+        if (war.contestedLocationId) {
+          // A vassal that was defending cedes the prize. Tribute buys it
+          // off instead — the payer keeps its land. Either way the siege
+          // lifts. updateMany for the same reason as warTick: the row may
+          // have gone since the war was read.
+          const cedes = treaty.type === 'VASSALAGE' && war.attackerFactionId === recipient.id
+          await ctx.db.location.updateMany({
+            where: { id: war.contestedLocationId },
+            data: cedes ? { ownerFactionId: recipient.id, isContested: false } : { isContested: false },
+          })
+        }
+      }
+      // Reported the way warTick reports a war ending, so belief drift, NPC
+      // disposition and the world digest read a negotiated ending exactly
+      // as they read one decided in the field.
+      changes.push({
+        entityType: 'FACTION',
+        entityId: war.attackerFactionId,
+        entityName: war.attacker.name,
+        campaignId: ctx.campaignId,
+        field: 'warResolved',
+        previousValue: 'escalating',
+        newValue: outcome,
+        reason: `${war.name} ends at the negotiating table: ${proposer.name} accepts ${TREATY_NOUN[treaty.type]} with ${recipient.name}`,
+        significant: true,
+        importance: 'MAJOR',
+        originLocationId: war.contestedLocationId ?? null,
+      })
+
+      if (treaty.type !== 'CEASEFIRE') {
+        const influence = clamp(current(proposer).influence - SUBMISSION_INFLUENCE_COST, 0, 100)
+        change(proposer, 'influence', current(proposer).influence, influence, `${proposer.name}'s standing suffers for buying its peace`, false, 'NORMAL')
+        await adjust(proposer, { influence })
+      }
+    }
+  }
+
+  // 2. Treaties in force: lapse, pay, or break.
+  for (const treaty of openTreaties.filter((t) => t.status === 'ACTIVE')) {
+    const proposer = current(treaty.proposer)
+    const recipient = current(treaty.recipient)
+    const pair = pairKey(proposer.id, recipient.id)
+
+    const partyGone = !proposer.isActive || !recipient.isActive
+    if (partyGone || (treaty.expiresTurn !== null && turn >= treaty.expiresTurn)) {
+      await endTreaty(treaty.id, { status: 'EXPIRED' })
+      openPairs.delete(pair)
+      change(proposer, 'treatyExpired', treaty.type, 'expired', partyGone
+        ? `${TREATY_NOUN[treaty.type]} between ${proposer.name} and ${recipient.name} lapses — one side no longer exists as an independent faction`
+        : `${TREATY_NOUN[treaty.type]} between ${proposer.name} and ${recipient.name} runs its course`, true, 'NORMAL')
+      continue
+    }
+
+    const turnsInForce = turn - (treaty.signedTurn ?? turn)
+    // The payer is asked first — a default or revolt ends a tribute before
+    // anyone gets paid — then the recipient, so the same treaty always
+    // breaks the same way on the same state.
+    let breach: { by: Faction; other: Faction; why: TreatyBreachReason } | null = null
+    for (const [self, other, selfPays] of [[proposer, recipient, true], [recipient, proposer, false]] as const) {
+      const why = decideTreatyBreach({
+        type: treaty.type,
+        selfPays,
+        self: toParty(self),
+        counterpart: toParty(other),
+        tributePerTurn: treaty.tributePerTurn,
+        turnsInForce,
+      })
+      if (why) {
+        breach = { by: self, other, why }
+        break
+      }
+    }
+
+    if (breach) {
+      const { by, other, why } = breach
+      await endTreaty(treaty.id, { status: 'BROKEN', brokenByFactionId: by.id })
+      openPairs.delete(pair)
+      recentlyEnded.push({ status: 'BROKEN', proposerFactionId: proposer.id, recipientFactionId: recipient.id, brokenByFactionId: by.id, endedTurn: turn })
+      const reasonByWhy: Record<TreatyBreachReason, string> = {
+        DEFAULT: `${by.name} can no longer pay what it owes ${other.name} and repudiates ${TREATY_NOUN[treaty.type]}`,
+        REVOLT: `${by.name}, now stronger than ${other.name}, throws off ${TREATY_NOUN[treaty.type]}`,
+        OPPORTUNITY: `${by.name} tears up ${TREATY_NOUN[treaty.type]} with ${other.name}, sensing weakness`,
+      }
+      change(by, 'treatyBroken', treaty.type, 'broken', reasonByWhy[why], true, 'MAJOR')
+      const influence = clamp(current(by).influence - BREACH_INFLUENCE_COST, 0, 100)
+      change(by, 'influence', current(by).influence, influence, `${by.name}'s word counts for less after breaking faith with ${other.name}`, false, 'NORMAL')
+      await adjust(by, { influence })
+      continue
+    }
+
+    if (treaty.tributePerTurn > 0) {
+      const payer = current(proposer)
+      const payee = current(recipient)
+      const paid = Math.min(treaty.tributePerTurn, payer.resources)
+      const payerAfter = clamp(payer.resources - paid, 0, 100)
+      const payeeAfter = clamp(payee.resources + paid, 0, 100)
+      change(payer, 'resources', payer.resources, payerAfter, `${payer.name} pays ${paid} in tribute to ${payee.name}`, false, 'NORMAL')
+      change(payee, 'resources', payee.resources, payeeAfter, `${payee.name} receives ${paid} in tribute from ${payer.name}`, false, 'NORMAL')
+      await adjust(payer, { resources: payerAfter })
+      await adjust(payee, { resources: payeeAfter })
+    }
+  }
+
+  const coolingOff = (aId: string, bId: string) =>
+    recentlyEnded.some(
+      (t) => t.status === 'REJECTED' && between(t, aId, bId) && t.endedTurn !== null && turn - t.endedTurn < PROPOSAL_COOLDOWN_TURNS
+    )
+
+  const propose = async (
+    from: Faction,
+    to: Faction,
+    decision: TreatyProposalDecision & { type: TreatyType },
+    warId: string | null,
+    originLocationId: string | null,
+    origin?: WorldChange['origin']
+  ) => {
+    openPairs.add(pairKey(from.id, to.id))
+    if (!ctx.dryRun) {
+      await ctx.db.treaty.create({
+        data: {
+          campaignId: ctx.campaignId,
+          type: decision.type,
+          proposerFactionId: from.id,
+          recipientFactionId: to.id,
+          warId,
+          tributePerTurn: decision.tributePerTurn,
+          proposedTurn: turn,
+        },
+      })
+    }
+    const offer = decision.type === 'NON_AGGRESSION'
+      ? `${from.name} offers ${to.name} a non-aggression pact`
+      : `${from.name} sues ${to.name} for peace, offering ${TREATY_NOUN[decision.type]}`
+    change(from, 'treatyProposed', '(none)', decision.type, offer, true, 'NORMAL', originLocationId, origin)
+  }
+
+  // 3. New offers — first the envoys PC leaders sent (factionOrders/).
+  // Answered next turn by step 1 like any other offer; the leader chose
+  // the terms, not whether they're taken.
+  const envoyChanges = await carryOutFactionOrders(ctx, 'SEND_ENVOY', async (order, facts) => {
+    const targetId = order.targetFactionId
+    const type = order.treatyType
+    if (!targetId || !type) return { carriedOut: false, reason: 'The envoy had no one to go to' }
+    if (openPairs.has(pairKey(order.factionId, targetId))) return { carriedOut: false, reason: 'Terms between the two are already on the table' }
+    if (coolingOff(order.factionId, targetId)) return { carriedOut: false, reason: 'Terms were turned down too recently for anyone to listen' }
+
+    const fromRow = factions.get(order.factionId) ?? (await ctx.db.faction.findUnique({ where: { id: order.factionId } }))
+    const toRow = factions.get(targetId) ?? (await ctx.db.faction.findUnique({ where: { id: targetId } }))
+    if (!fromRow || !toRow) return { carriedOut: false, reason: 'The envoy had no one to go to' }
+    const from = current(fromRow)
+    const to = current(toRow)
+
+    const resources = clamp(from.resources - ENVOY_COST, 0, 100)
+    change(from, 'resources', from.resources, resources, `${from.name} pays for an embassy to ${to.name}`, false, 'NORMAL', null, 'factionOrder')
+    await adjust(from, { resources })
+
+    const tributePerTurn = type === 'TRIBUTE' ? TRIBUTE_PER_TURN : type === 'VASSALAGE' ? VASSAL_TRIBUTE_PER_TURN : 0
+    const war = facts.warWithTarget ? wars.find((w) => w.id === facts.warWithTarget?.id) : undefined
+    await propose(from, to, { type, tributePerTurn }, war?.id ?? null, war?.contestedLocationId ?? null, 'factionOrder')
+    return { carriedOut: true, outcome: `${from.name}'s envoy carries an offer of ${TREATY_NOUN[type]} to ${to.name}` }
+  })
+  changes.push(...envoyChanges)
+
+  // ...then from the sides of wars still being fought. A PC-led side asks
+  // for terms only when its leader sends an envoy.
+  for (const war of wars) {
+    const attacker = current(war.attacker)
+    const defender = current(war.defender)
+    if (!attacker.isActive || !defender.isActive) continue
+    if (openPairs.has(pairKey(attacker.id, defender.id)) || coolingOff(attacker.id, defender.id)) continue
+
+    const turnsElapsed = turn - war.startedTurn
+    const sides = [
+      { self: attacker, other: defender, momentum: war.momentum },
+      { self: defender, other: attacker, momentum: -war.momentum },
+    ]
+      .map((s) => ({
+        ...s,
+        decision: decideWarTreatyProposal({ self: toParty(s.self), opponent: toParty(s.other), momentumForSelf: s.momentum, turnsElapsed }),
+      }))
+      // One offer per war: from whichever side is worse off, then weaker,
+      // then by id.
+      .filter((s) => s.decision.type !== null && !s.self.leaderCharacterId)
+      .sort((a, b) => a.momentum - b.momentum || a.self.military - b.self.military || a.self.id.localeCompare(b.self.id))
+
+    const asking = sides[0]
+    if (!asking || !asking.decision.type) continue
+    await propose(asking.self, asking.other, { ...asking.decision, type: asking.decision.type }, war.id, war.contestedLocationId ?? null)
+  }
+
+  // ...then peacetime pacts between rivals, from this tick's roster.
+  const rostered = await ctx.db.faction.findMany({
+    where: { campaignId: ctx.campaignId, isActive: true, ...rosterFactionFilter(ctx) },
+    orderBy: { id: 'asc' },
+  })
+  for (const row of rostered) {
+    const self = current(row)
+    if (atWar.has(self.id) || self.leaderCharacterId) continue
+    const rivalIds = ties
+      .filter((t) => t.type === 'RIVAL' && (t.factionAId === self.id || t.factionBId === self.id))
+      .map((t) => (t.factionAId === self.id ? t.factionBId : t.factionAId))
+      .sort()
+    for (const rivalId of rivalIds) {
+      if (atWar.has(rivalId) || openPairs.has(pairKey(self.id, rivalId)) || coolingOff(self.id, rivalId)) continue
+      const rivalRow = factions.get(rivalId) ?? (await ctx.db.faction.findUnique({ where: { id: rivalId } }))
+      if (!rivalRow?.isActive) continue
+      const rival = current(rivalRow)
+      if (!decidePactProposal(toParty(self), toParty(rival))) continue
+      await propose(self, rival, { type: 'NON_AGGRESSION', tributePerTurn: 0 }, null, null)
+    }
+  }
+
+  return { changes }
+}
@@ -52,6 +52,7 @@ import { TIE_INCLUDE, factionTies } from '../tieGraph'
 import { assessPayout, BROKE_THRESHOLD, GOLD_PER_RESOURCE_POINT, MAX_RESOURCE_COST_PER_PAYOUT } from '../factionPayout'
 import { isUniqueConstraintViolation } from '../worldUpdaters/uniqueConstraintGuard'
 import { planCycleNetting } from '../factionDebtGraph'
+import { carryOutFactionOrders } from '../factionOrders/carryOut'
 
 // A lender needs a real buffer above BROKE_THRESHOLD before it's asked to
 // help someone else — comfortably healthy, not merely solvent.
@@ -126,7 +127,82 @@ export function decideDefaultCascade(defaultedDebtCount: number, roughness: numb
 }
 
 export async function tickEconomy(ctx: TickContext): Promise<TickHandlerResult> {
-  const changes: WorldChange[] = []
+  // A debt a PC leader called in (factionOrders/) is collected before
+  // anything below reads the debt book: the debtor pays what it can, now.
+  // Paid in full settles it; anything less shrinks it, and whatever that
+  // leaves the debtor with is what step 1 judges it on.
+  const changes: WorldChange[] = await carryOutFactionOrders(ctx, 'CALL_IN_DEBT', async (order, facts) => {
+    const debt = await ctx.db.factionDebt.findUnique({
+      where: { id: order.debtId! },
+      select: { id: true, amount: true, debtorFaction: { select: { id: true, name: true, resources: true, isActive: true } } },
+    })
+    const debtor = debt?.debtorFaction
+    if (!debt || !debtor?.isActive) return { carriedOut: false, reason: 'There is no one left to pay that debt' }
+
+    const paid = Math.min(debt.amount, debtor.resources)
+    if (paid === 0) return { carriedOut: false, reason: `${debtor.name} has nothing left to pay with` }
+
+    const settled = paid === debt.amount
+    const creditor = facts.faction
+    const creditorAfter = clamp(creditor.resources + paid, 0, 100)
+    const debtorAfter = debtor.resources - paid
+    if (!ctx.dryRun) {
+      await ctx.db.factionDebt.update({
+        where: { id: debt.id },
+        data: settled
+          ? { amount: 0, status: 'PAID', resolvedAt: new Date(), turnResolved: ctx.turnNumber }
+          : { amount: debt.amount - paid },
+      })
+      await ctx.db.faction.update({ where: { id: debtor.id }, data: { resources: debtorAfter } })
+      await ctx.db.faction.update({ where: { id: creditor.id }, data: { resources: creditorAfter } })
+    }
+
+    const name = order.faction.name
+    return {
+      carriedOut: true,
+      outcome: settled
+        ? `${name} calls in what ${debtor.name} owes it, and is paid in full`
+        : `${name} calls in what ${debtor.name} owes it; ${debtor.name} pays what it can`,
+      changes: [
+        {
+          entityType: 'FACTION',
+          entityId: creditor.id,
+          entityName: name,
+          campaignId: ctx.campaignId,
+          field: 'debt',
+          previousValue: debt.amount,
+          newValue: debt.amount - paid,
+          reason: settled ? `${debtor.name} settles its debt to ${name}` : `${debtor.name} pays down its debt to ${name}`,
+          significant: settled,
+          importance: 'NORMAL',
+        },
+        {
+          entityType: 'FACTION',
+          entityId: debtor.id,
+          entityName: debtor.name,
+          campaignId: ctx.campaignId,
+          field: 'resources',
+          previousValue: debtor.resources,
+          newValue: debtorAfter,
+          reason: `${debtor.name} pays ${name} what it can`,
+          significant: false,
+          importance: 'NORMAL',
+        },
+        {
+          entityType: 'FACTION',
+          entityId: creditor.id,
+          entityName: name,
+          campaignId: ctx.campaignId,
+          field: 'resources',
+          previousValue: creditor.resources,
+          newValue: creditorAfter,
+          reason: `${name} collects on what ${debtor.name} owed`,
+          significant: false,
+          importance: 'NORMAL',
+        },
+      ],
+    }
+  })
 
   // 0. Cancel debt that runs in a circle (#371).
   //
@@ -24,6 +24,8 @@ import { BeliefVector, parseBeliefVector } from './beliefTick'
 import { NEUTRAL_DISPOSITION, parseDisposition } from './npcDispositionTick'
 import { rosterFactionFilter } from './capOrdering'
 import { isUniqueConstraintViolation } from '../worldUpdaters/uniqueConstraintGuard'
+import { carryOutFactionOrders } from '../factionOrders/carryOut'
+import { MUSTER_LEVIES } from '../factionOrders/orders'
 
 interface FactionDelta {
   resources: number
@@ -403,6 +405,29 @@ export function decideDefection(members: DefectionCandidate[]): DefectionDecisio
 }
 
 export async function tickFactions(ctx: TickContext): Promise<TickHandlerResult> {
+  // A PC leader's muster (factionOrders/) lands first, so this turn's goal
+  // delta and reassessment below start from the army they raised.
+  const orderChanges = await carryOutFactionOrders(ctx, 'MUSTER', async (order, facts) => {
+    const { faction } = facts
+    const resources = faction.resources - order.amount
+    const military = clamp(faction.military + order.amount, 0, 100)
+    if (!ctx.dryRun) {
+      await ctx.db.faction.update({ where: { id: faction.id }, data: { resources, military } })
+    }
+    const name = order.faction.name
+    const change = (field: string, previousValue: number, newValue: number, reason: string): WorldChange => ({
+      entityType: 'FACTION', entityId: faction.id, entityName: name, campaignId: ctx.campaignId, field, previousValue, newValue, reason, significant: false, importance: 'NORMAL',
+    })
+    return {
+      carriedOut: true,
+      outcome: `${name} musters ${order.amount >= MUSTER_LEVIES.HEAVY ? 'a heavy' : 'a modest'} levy at its leader's command`,
+      changes: [
+        change('resources', faction.resources, resources, `${name} pays for a levy`),
+        change('military', faction.military, military, `${name}'s levy swells its ranks`),
+      ],
+    }
+  })
+
   const factions = await ctx.db.faction.findMany({
     where: { campaignId: ctx.campaignId, isActive: true, ...rosterFactionFilter(ctx) },
     // #373: ties are edge rows now, pulled from both directions — see
@@ -460,7 +485,7 @@ export async function tickFactions(ctx: TickContext): Promise<TickHandlerResult>
     ).map((f) => f.id)
   )
 
-  const changes: WorldChange[] = []
+  const changes: WorldChange[] = [...orderChanges]
 
   // #199: `factions` above is a single snapshot taken before this loop
   // starts — but an earlier faction's collapse this same tick can write a
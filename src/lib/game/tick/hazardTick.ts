@@ -0,0 +1,561 @@
+// src/lib/game/tick/hazardTick.ts
+// Hazards — plague, famine, wildfire and flood (see Hazard in
+// schema.prisma).
+//
+// Until this, a location was only ever hurt by people: war damage and
+// contested-rule strain in locationConditionTick.ts. Weather changed per
+// location and touched nothing. A hazard is the crisis nobody declared:
+//
+// 1. Outbreak. Each location rolls for each kind of hazard every turn,
+//    from what the world already tracks — plague from crowding and
+//    squalor, famine from a run-down place in the lean seasons, wildfire
+//    from a long hard dry spell (weatherTick.ts's CLEAR at high severity),
+//    flood from a heavy storm. The season favours some and rules famine
+//    out at harvest. At most MAX_OUTBREAKS_PER_TURN start anywhere in a
+//    turn, so a big map doesn't catch fire all at once.
+// 2. Course. A hazard builds for its kind's peakTurns while it is less
+//    than half contained, then wanes; severity 0 is BURNED_OUT. Every
+//    turn it stays ACTIVE it wears down its location's conditionScore and
+//    (where tracked) population, by severity — which is what sends
+//    migrationTick.ts's refugees on the road.
+// 3. Spread. A hazard at severity 2 or more reaches neighbours: along
+//    LocationAdjacency for the kinds that travel over ground (fire, water,
+//    sickness), along unblockaded SupplyRoute edges for the kinds that
+//    travel with goods and people (sickness, want). Nearer neighbours and
+//    less-contained sources catch it more often. It arrives one step
+//    milder than it left.
+// 4. Containment. Every hazard gains a little on its own. The faction
+//    that holds the place quarantines it if it can pay, better the steadier
+//    it is; a PC leader can send help as a CONTAIN_HAZARD faction order
+//    (factionOrders/), to their own land or anyone's. Containment slows the
+//    spread, past half turns the hazard back, and at 100 ends it CONTAINED.
+//
+// Every roll is stableHash of ids and the turn, the way weatherTick.ts
+// rolls — the same world on the same turn always suffers the same way. A
+// place that has just come through one is spared the same kind for
+// IMMUNITY_TURNS, so a region isn't re-infected the turn after it recovers.
+//
+// Runs after logisticsTick.ts (routes derived and blockades synced this
+// turn, so spread reads the roads as they now stand) and before
+// tickNpcs/tickMigration, so this turn's refugees flee this turn's plague.
+
+// roster-exempt: a hazard belongs to a LOCATION. The faction read here is
+// whoever holds a stricken place paying for its quarantine — a rostered
+// subset would let a plague run unchecked in one faction's city because
+// that faction sat out this tick's rotation.
+
+import type { HazardStatus, HazardType, WeatherCondition } from '@prisma/client'
+import { TickContext, TickHandlerResult, WorldChange, clamp, stableHash } from './types'
+import type { Season } from '../calendar'
+import { carryOutFactionOrders } from '../factionOrders/carryOut'
+import { CONTAIN_COST, ORDERED_CONTAINMENT } from '../factionOrders/orders'
+
+export const HAZARD_TYPES: HazardType[] = ['PLAGUE', 'FAMINE', 'WILDFIRE', 'FLOOD']
+
+/** What the world calls each kind — event lines, the orders screen, the digest. */
+export const HAZARD_NOUN: Record<HazardType, string> = {
+  PLAGUE: 'plague',
+  FAMINE: 'famine',
+  WILDFIRE: 'wildfire',
+  FLOOD: 'flood',
+}
+
+interface HazardProfile {
+  /** Seasons that double the outbreak chance. */
+  favouredSeasons: Season[]
+  /** Seasons it never breaks out in (it can still spread). */
+  barredSeasons: Season[]
+  /** conditionScore lost per point of severity per turn. */
+  conditionDamage: number
+  /** Fraction of a tracked population lost per point of severity per turn. */
+  populationLoss: number
+  /** Spread chance per point of source severity, in thousandths, to an adjacent location (divided by distance). */
+  adjacencySpread: number
+  /** Spread chance per point of source severity, in thousandths, along an unblockaded supply route. */
+  routeSpread: number
+  /** Turns it keeps building, uncontained, before it starts to wane. */
+  peakTurns: number
+}
+
+// Fires and floods hit hard and pass quickly; sickness and hunger grind.
+// Damage is on the scale of locationConditionTick.ts's WAR_DAMAGE (8 a
+// turn): at full severity a fire or flood wears a place down faster than a
+// siege, a plague a little slower but for longer.
+const PROFILES: Record<HazardType, HazardProfile> = {
+  PLAGUE: { favouredSeasons: ['winter'], barredSeasons: [], conditionDamage: 1, populationLoss: 0.02, adjacencySpread: 40, routeSpread: 60, peakTurns: 4 },
+  FAMINE: { favouredSeasons: ['winter'], barredSeasons: ['autumn'], conditionDamage: 1, populationLoss: 0.01, adjacencySpread: 0, routeSpread: 50, peakTurns: 5 },
+  WILDFIRE: { favouredSeasons: ['summer'], barredSeasons: [], conditionDamage: 2, populationLoss: 0.005, adjacencySpread: 60, routeSpread: 0, peakTurns: 2 },
+  FLOOD: { favouredSeasons: ['spring'], barredSeasons: [], conditionDamage: 2, populationLoss: 0.005, adjacencySpread: 30, routeSpread: 0, peakTurns: 2 },
+}
+
+export const MAX_SEVERITY = 5
+/** Severity an outbreak starts at is 1 or 2. */
+const OUTBREAK_MAX_SEVERITY = 2
+/** Below this a hazard is too small to travel. */
+const SPREAD_MIN_SEVERITY = 2
+/** New outbreaks anywhere in the campaign per turn (spread is separate). */
+export const MAX_OUTBREAKS_PER_TURN = 1
+/** Turns a location is spared a kind of hazard after one of that kind ends there. */
+export const IMMUNITY_TURNS = 6
+
+/** Containment every hazard gains a turn on its own — people adapt. */
+export const NATURAL_CONTAINMENT = 5
+/** Resources the holding faction pays a turn to quarantine a hazard. */
+export const QUARANTINE_COST = 2
+/** Containment a paid quarantine adds, before the faction's stability bonus (stability / 10). */
+export const QUARANTINE_BASE = 8
+/** At or past this, a hazard wanes whatever its age. */
+const TURNING_CONTAINMENT = 50
+
+// ── Outbreak ─────────────────────────────────────────────────────────────
+
+export interface HazardLocationInput {
+  id: string
+  conditionScore: number
+  population: number | null
+  weather: WeatherCondition
+  weatherSeverity: number
+}
+
+/**
+ * Pure. This turn's chance, in thousandths, that a hazard of `type` breaks
+ * out at `location`. Zero when the conditions for it aren't there at all.
+ */
+export function outbreakChance(type: HazardType, location: HazardLocationInput, season: Season | undefined): number {
+  const profile = PROFILES[type]
+  if (season && profile.barredSeasons.includes(season)) return 0
+
+  let chance: number
+  switch (type) {
+    case 'PLAGUE':
+      // Crowding (a point per two thousand people, capped) and squalor.
+      chance = 2 + Math.min(6, Math.floor((location.population ?? 0) / 2000)) + (location.conditionScore < 40 ? 4 : 0)
+      break
+    case 'FAMINE':
+      chance = 1 + (location.conditionScore < 40 ? 6 : 0) + (location.conditionScore < 25 ? 6 : 0)
+      break
+    case 'WILDFIRE':
+      chance = location.weather === 'CLEAR' && location.weatherSeverity >= 3 ? 5 + (location.weatherSeverity - 3) * 5 : 0
+      break
+    case 'FLOOD':
+      chance = (location.weather === 'RAIN' || location.weather === 'STORM') && location.weatherSeverity >= 4
+        ? 8 + (location.weatherSeverity - 4) * 8
+        : 0
+      break
+  }
+  return season && profile.favouredSeasons.includes(season) ? chance * 2 : chance
+}
+
+export interface HazardOutbreakDecision {
+  locationId: string
+  type: HazardType
+  severity: number
+}
+
+/**
+ * Pure. The outbreaks this turn: every location rolls for every kind it
+ * isn't already suffering or spared from (`blocked` holds
+ * `${locationId}:${type}` keys), in id order, until MAX_OUTBREAKS_PER_TURN
+ * have started.
+ */
+export function decideHazardOutbreaks(
+  locations: HazardLocationInput[],
+  blocked: Set<string>,
+  turnNumber: number,
+  season: Season | undefined
+): HazardOutbreakDecision[] {
+  const outbreaks: HazardOutbreakDecision[] = []
+  const sorted = [...locations].sort((a, b) => a.id.localeCompare(b.id))
+  for (const location of sorted) {
+    for (const type of HAZARD_TYPES) {
+      if (outbreaks.length >= MAX_OUTBREAKS_PER_TURN) return outbreaks
+      if (blocked.has(`${location.id}:${type}`)) continue
+      const chance = outbreakChance(type, location, season)
+      if (chance <= 0) continue
+      if (stableHash(`${location.id}:${turnNumber}:hazard:${type}`) % 1000 >= chance) continue
+      const severity = 1 + (stableHash(`${location.id}:${turnNumber}:hazard:${type}:severity`) % OUTBREAK_MAX_SEVERITY)
+      outbreaks.push({ locationId: location.id, type, severity })
+    }
+  }
+  return outbreaks
+}
+
+// ── Course ───────────────────────────────────────────────────────────────
+
+export interface HazardProgressInput {
+  type: HazardType
+  severity: number
+  containment: number
+  startedTurn: number
+}
+
+export interface HazardProgressDecision {
+  severity: number
+  containment: number
+  status: HazardStatus
+}
+
+/**
+ * Pure. One turn of a hazard's course. `help` is this turn's containment
+ * beyond NATURAL_CONTAINMENT — quarantine and any ordered relief.
+ */
+export function decideHazardProgress(hazard: HazardProgressInput, turnNumber: number, help: number): HazardProgressDecision {
+  const containment = clamp(hazard.containment + NATURAL_CONTAINMENT + help, 0, 100)
+  if (containment >= 100) return { severity: hazard.severity, containment, status: 'CONTAINED' }
+
+  const building = turnNumber - hazard.startedTurn < PROFILES[hazard.type].peakTurns && containment < TURNING_CONTAINMENT
+  const severity = clamp(hazard.severity + (building ? 1 : -1), 0, MAX_SEVERITY)
+  return { severity, containment, status: severity === 0 ? 'BURNED_OUT' : 'ACTIVE' }
+}
+
+/** Pure. What an ACTIVE hazard at `severity` takes from its location this turn. */
+export function hazardDamage(type: HazardType, severity: number, population: number | null): { condition: number; population: number } {
+  const profile = PROFILES[type]
+  const lost = population && population > 0 ? Math.max(1, Math.round(population * profile.populationLoss * severity)) : 0
+  return { condition: profile.conditionDamage * severity, population: lost }
+}
+
+// ── Spread ───────────────────────────────────────────────────────────────
+
+export interface SpreadingHazardInput {
+  id: string
+  locationId: string
+  type: HazardType
+  severity: number
+  containment: number
+}
+
+export interface HazardEdgeInput {
+  locationAId: string
+  locationBId: string
+  distance: number
+}
+
+export interface HazardRouteInput {
+  fromLocationId: string
+  toLocationId: string
+  isBlockaded: boolean
+}
+
+export interface HazardSpreadDecision {
+  locationId: string
+  sourceLocationId: string
+  type: HazardType
+  severity: number
+}
+
+/**
+ * Pure. Where this turn's hazards reach. Each neighbour is rolled once per
+ * source — the nearest route to it (adjacency or supply line) that gives
+ * the better chance — and a place already suffering that kind, spared
+ * from it (`blocked`), or reached earlier this pass is skipped. Sources
+ * and neighbours go in id order, so the first source to reach a place
+ * decides how bad it arrives.
+ */
+export function decideHazardSpread(
+  hazards: SpreadingHazardInput[],
+  edges: HazardEdgeInput[],
+  routes: HazardRouteInput[],
+  blocked: Set<string>,
+  turnNumber: number
+): HazardSpreadDecision[] {
+  const spreads: HazardSpreadDecision[] = []
+  const reached = new Set(blocked)
+  const sources = hazards
+    .filter((h) => h.severity >= SPREAD_MIN_SEVERITY)
+    .sort((a, b) => a.id.localeCompare(b.id))
+
+  for (const hazard of sources) {
+    const profile = PROFILES[hazard.type]
+    const uncontained = (100 - hazard.containment) / 100
+    // Best chance per neighbour, in thousandths.
+    const chances = new Map<string, number>()
+    const offer = (neighbourId: string, chance: number) => {
+      if (chance > (chances.get(neighbourId) ?? 0)) chances.set(neighbourId, chance)
+    }
+    if (profile.adjacencySpread > 0) {
+      for (const edge of edges) {
+        const neighbour = edge.locationAId === hazard.locationId ? edge.locationBId
+          : edge.locationBId === hazard.locationId ? edge.locationAId
+          : null
+        if (neighbour) offer(neighbour, (profile.adjacencySpread * hazard.severity) / Math.max(1, edge.distance))
+      }
+    }
+    if (profile.routeSpread > 0) {
+      for (const route of routes) {
+        if (route.isBlockaded) continue
+        const neighbour = route.fromLocationId === hazard.locationId ? route.toLocationId
+          : route.toLocationId === hazard.locationId ? route.fromLocationId
+          : null
+        if (neighbour) offer(neighbour, profile.routeSpread * hazard.severity)
+      }
+    }
+
+    for (const neighbourId of [...chances.keys()].sort()) {
+      const key = `${neighbourId}:${hazard.type}`
+      if (reached.has(key)) continue
+      const chance = Math.floor(chances.get(neighbourId)! * uncontained)
+      if (stableHash(`${hazard.id}:${neighbourId}:${turnNumber}:hazard-spread`) % 1000 >= chance) continue
+      reached.add(key)
+      spreads.push({
+        locationId: neighbourId,
+        sourceLocationId: hazard.locationId,
+        type: hazard.type,
+        severity: Math.max(1, hazard.severity - 1),
+      })
+    }
+  }
+  return spreads
+}
+
+// ── The handler ──────────────────────────────────────────────────────────
+
+export async function tickHazards(ctx: TickContext): Promise<TickHandlerResult> {
+  // Relief a PC leader sent (factionOrders/), counted into this turn's
+  // containment below. Paid for now; the hazard's own row is written once,
+  // with everything else that happened to it this turn.
+  const ordered = new Map<string, number>()
+  const orderChanges = await carryOutFactionOrders(ctx, 'CONTAIN_HAZARD', async (order, facts) => {
+    const hazard = facts.hazard!
+    const faction = facts.faction
+    const resources = faction.resources - CONTAIN_COST
+    if (!ctx.dryRun) {
+      await ctx.db.faction.update({ where: { id: faction.id }, data: { resources } })
+    }
+    ordered.set(hazard.id, (ordered.get(hazard.id) ?? 0) + ORDERED_CONTAINMENT)
+    const name = order.faction.name
+    return {
+      carriedOut: true,
+      outcome: `${name} sends help against the ${HAZARD_NOUN[hazard.type]} in ${hazard.locationName}`,
+      changes: [
+        {
+          entityType: 'FACTION',
+          entityId: faction.id,
+          entityName: name,
+          campaignId: ctx.campaignId,
+          field: 'resources',
+          previousValue: faction.resources,
+          newValue: resources,
+          reason: `${name} pays for relief in ${hazard.locationName}`,
+          significant: false,
+          importance: 'NORMAL',
+        },
+      ],
+    }
+  })
+
+  const locations = await ctx.db.location.findMany({
+    where: { campaignId: ctx.campaignId },
+    select: {
+      id: true,
+      name: true,
+      ownerFactionId: true,
+      conditionScore: true,
+      population: true,
+      weather: true,
+      weatherSeverity: true,
+    },
+  })
+  if (locations.length === 0) return { changes: orderChanges }
+  const locationById = new Map(locations.map((l) => [l.id, l]))
+
+  const [active, recentlyEnded, edges, routes] = await Promise.all([
+    ctx.db.hazard.findMany({
+      where: { campaignId: ctx.campaignId, status: 'ACTIVE' },
+      select: { id: true, locationId: true, type: true, severity: true, containment: true, startedTurn: true },
+      orderBy: { id: 'asc' },
+    }),
+    ctx.db.hazard.findMany({
+      where: { campaignId: ctx.campaignId, status: { not: 'ACTIVE' }, endedTurn: { gte: ctx.turnNumber - IMMUNITY_TURNS } },
+      select: { locationId: true, type: true },
+    }),
+    ctx.db.locationAdjacency.findMany({
+      where: { campaignId: ctx.campaignId },
+      select: { locationAId: true, locationBId: true, distance: true },
+    }),
+    ctx.db.supplyRoute.findMany({
+      where: { campaignId: ctx.campaignId },
+      select: { fromLocationId: true, toLocationId: true, isBlockaded: true },
+    }),
+  ])
+
+  const ownerIds = [...new Set(
+    active.map((h) => locationById.get(h.locationId)?.ownerFactionId).filter((id): id is string => !!id)
+  )]
+  const factions = ownerIds.length === 0 ? [] : await ctx.db.faction.findMany({
+    where: { id: { in: ownerIds }, campaignId: ctx.campaignId, isActive: true },
+    select: { id: true, name: true, resources: true, stability: true },
+  })
+  const factionById = new Map(factions.map((f) => [f.id, f]))
+  const workingResources = new Map(factions.map((f) => [f.id, f.resources]))
+
+  const changes: WorldChange[] = [...orderChanges]
+  // Condition and population lost per location this turn, summed over
+  // every hazard there, written once at the end.
+  const conditionLoss = new Map<string, number>()
+  const populationLoss = new Map<string, number>()
+  const stillActive: SpreadingHazardInput[] = []
+  // `${locationId}:${type}` — suffering it now, or spared it for a while.
+  const blocked = new Set<string>(recentlyEnded.map((h) => `${h.locationId}:${h.type}`))
+
+  for (const hazard of active) {
+    const location = locationById.get(hazard.locationId)
+    if (!location) continue
+    const noun = HAZARD_NOUN[hazard.type]
+
+    // The holder's quarantine, if it can pay for one.
+    let help = ordered.get(hazard.id) ?? 0
+    const owner = location.ownerFactionId ? factionById.get(location.ownerFactionId) : undefined
+    if (owner && workingResources.get(owner.id)! >= QUARANTINE_COST) {
+      workingResources.set(owner.id, workingResources.get(owner.id)! - QUARANTINE_COST)
+      help += QUARANTINE_BASE + Math.floor(owner.stability / 10)
+    }
+
+    const decision = decideHazardProgress(hazard, ctx.turnNumber, help)
+    if (!ctx.dryRun && decision.status === 'ACTIVE') {
+      await ctx.db.hazard.update({
+        where: { id: hazard.id },
+        data: { severity: decision.severity, containment: decision.containment },
+      })
+    } else if (!ctx.dryRun) {
+      await ctx.db.hazard.update({
+        where: { id: hazard.id },
+        data: { severity: decision.severity, containment: decision.containment, status: decision.status, endedTurn: ctx.turnNumber },
+      })
+    }
+
+    if (decision.status !== 'ACTIVE') {
+      blocked.add(`${hazard.locationId}:${hazard.type}`)
+      const contained = decision.status === 'CONTAINED'
+      changes.push({
+        entityType: 'LOCATION_CONDITION',
+        entityId: location.id,
+        entityName: location.name,
+        campaignId: ctx.campaignId,
+        field: contained ? 'hazardContained' : 'hazardEnded',
+        previousValue: hazard.type,
+        newValue: decision.status,
+        reason: contained
+          ? `The ${noun} in ${location.name} is brought under control`
+          : `The ${noun} in ${location.name} runs its course`,
+        significant: true,
+        importance: 'NORMAL',
+        originLocationId: location.id,
+      })
+      continue
+    }
+
+    blocked.add(`${hazard.locationId}:${hazard.type}`)
+    stillActive.push({ id: hazard.id, locationId: hazard.locationId, type: hazard.type, severity: decision.severity, containment: decision.containment })
+    const damage = hazardDamage(hazard.type, decision.severity, location.population)
+    conditionLoss.set(location.id, (conditionLoss.get(location.id) ?? 0) + damage.condition)
+    populationLoss.set(location.id, (populationLoss.get(location.id) ?? 0) + damage.population)
+  }
+
+  // What reached somewhere new, then what broke out of nowhere. New
+  // hazards start doing harm next turn.
+  const spreads = decideHazardSpread(stillActive, edges, routes, blocked, ctx.turnNumber)
+    .filter((s) => locationById.has(s.locationId))
+  for (const spread of spreads) blocked.add(`${spread.locationId}:${spread.type}`)
+  const outbreaks = decideHazardOutbreaks(locations, blocked, ctx.turnNumber, ctx.season)
+
+  const arrivals = [
+    ...spreads,
+    ...outbreaks.map((o) => ({ ...o, sourceLocationId: null as string | null })),
+  ]
+  for (const arrival of arrivals) {
+    const location = locationById.get(arrival.locationId)!
+    const noun = HAZARD_NOUN[arrival.type]
+    if (!ctx.dryRun) {
+      await ctx.db.hazard.create({
+        data: {
+          campaignId: ctx.campaignId,
+          locationId: arrival.locationId,
+          type: arrival.type,
+          severity: arrival.severity,
+          sourceLocationId: arrival.sourceLocationId,
+          startedTurn: ctx.turnNumber,
+        },
+      })
+    }
+    const source = arrival.sourceLocationId ? locationById.get(arrival.sourceLocationId) : undefined
+    changes.push({
+      entityType: 'LOCATION_CONDITION',
+      entityId: location.id,
+      entityName: location.name,
+      campaignId: ctx.campaignId,
+      field: source ? 'hazardSpread' : 'hazardStarted',
+      previousValue: source ? source.name : 'none',
+      newValue: arrival.type,
+      reason: source
+        ? `The ${noun} spreads from ${source.name} to ${location.name}`
+        : `${noun.charAt(0).toUpperCase()}${noun.slice(1)} strikes ${location.name}`,
+      significant: true,
+      importance: 'MAJOR',
+      originLocationId: location.id,
+    })
+  }
+
+  for (const [locationId, loss] of conditionLoss) {
+    const location = locationById.get(locationId)!
+    const conditionScore = clamp(location.conditionScore - loss, 0, 100)
+    const lost = populationLoss.get(locationId) ?? 0
+    const population = location.population === null ? null : Math.max(0, location.population - lost)
+    if (conditionScore === location.conditionScore && population === location.population) continue
+    if (!ctx.dryRun) {
+      await ctx.db.location.update({ where: { id: locationId }, data: { conditionScore, population } })
+    }
+    // Routine, like the condition drift beside it — the outbreak itself was
+    // the history entry.
+    if (conditionScore !== location.conditionScore) {
+      changes.push({
+        entityType: 'LOCATION_CONDITION',
+        entityId: locationId,
+        entityName: location.name,
+        campaignId: ctx.campaignId,
+        field: 'conditionScore',
+        previousValue: location.conditionScore,
+        newValue: conditionScore,
+        reason: `Disaster wears ${location.name} down`,
+        significant: false,
+        importance: 'NORMAL',
+      })
+    }
+    if (population !== null && population !== location.population) {
+      changes.push({
+        entityType: 'LOCATION_POPULATION',
+        entityId: locationId,
+        entityName: location.name,
+        campaignId: ctx.campaignId,
+        field: 'population',
+        previousValue: location.population!,
+        newValue: population,
+        reason: `${location.name} loses people to disaster`,
+        significant: false,
+        importance: 'NORMAL',
+      })
+    }
+  }
+
+  for (const faction of factions) {
+    const resources = workingResources.get(faction.id)!
+    if (resources === faction.resources) continue
+    if (!ctx.dryRun) {
+      await ctx.db.faction.update({ where: { id: faction.id }, data: { resources } })
+    }
+    changes.push({
+      entityType: 'FACTION',
+      entityId: faction.id,
+      entityName: faction.name,
+      campaignId: ctx.campaignId,
+      field: 'resources',
+      previousValue: faction.resources,
+      newValue: resources,
+      reason: `${faction.name} pays to quarantine its stricken lands`,
+      significant: false,
+      importance: 'NORMAL',
+    })
+  }
+
+  return { changes }
+}
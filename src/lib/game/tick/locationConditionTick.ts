@@ -5,6 +5,8 @@
 // tracks that; this handler is what drifts it.
 
 import { TickContext, TickHandlerResult, WorldChange, clamp } from './types'
+import { carryOutFactionOrders } from '../factionOrders/carryOut'
+import { FORTIFY_CONDITION_GAIN, FORTIFY_COST } from '../factionOrders/orders'
 
 const WAR_DAMAGE = 8
 const CONTEST_STRAIN = 2
@@ -104,11 +106,56 @@ export function deriveConditionTags(conditionScore: number, isContested: boolean
 }
 
 export async function tickLocationCondition(ctx: TickContext): Promise<TickHandlerResult> {
+  // A PC leader's fortification (factionOrders/) goes up before this turn's
+  // drift, so a place under siege starts the turn from its new walls.
+  const orderChanges = await carryOutFactionOrders(ctx, 'FORTIFY', async (order, facts) => {
+    const location = facts.location!
+    const faction = facts.faction
+    const conditionScore = clamp(location.conditionScore + FORTIFY_CONDITION_GAIN, 0, 100)
+    const resources = faction.resources - FORTIFY_COST
+    if (!ctx.dryRun) {
+      await ctx.db.location.update({ where: { id: location.id }, data: { conditionScore } })
+      await ctx.db.faction.update({ where: { id: faction.id }, data: { resources } })
+    }
+    const name = order.faction.name
+    return {
+      carriedOut: true,
+      outcome: `${name} fortifies ${location.name} at its leader's command`,
+      changes: [
+        {
+          entityType: 'LOCATION_CONDITION',
+          entityId: location.id,
+          entityName: location.name,
+          campaignId: ctx.campaignId,
+          field: 'conditionScore',
+          previousValue: location.conditionScore,
+          newValue: conditionScore,
+          reason: `${name} shores up ${location.name}`,
+          significant: false,
+          importance: 'NORMAL',
+          originLocationId: location.id,
+        },
+        {
+          entityType: 'FACTION',
+          entityId: faction.id,
+          entityName: name,
+          campaignId: ctx.campaignId,
+          field: 'resources',
+          previousValue: faction.resources,
+          newValue: resources,
+          reason: `${name} pays to fortify ${location.name}`,
+          significant: false,
+          importance: 'NORMAL',
+        },
+      ],
+    }
+  })
+
   const locations = await ctx.db.location.findMany({
     where: { campaignId: ctx.campaignId },
     select: { id: true, name: true, conditionScore: true, isContested: true },
   })
-  if (locations.length === 0) return { changes: [] }
+  if (locations.length === 0) return { changes: orderChanges }
 
   // A location is "at war" when it's the contested prize of a currently
   // ESCALATING war — checked fresh each tick, after tickWars has already
@@ -120,7 +167,7 @@ export async function tickLocationCondition(ctx: TickContext): Promise<TickHandl
   })
   const locationIdsAtWar = new Set(warsContestingLocations.map((w) => w.contestedLocationId))
 
-  const changes: WorldChange[] = []
+  const changes: WorldChange[] = [...orderChanges]
 
   for (const location of locations) {
     const warPresent = locationIdsAtWar.has(location.id)
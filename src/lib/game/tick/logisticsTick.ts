@@ -41,6 +41,8 @@
 
 import { TickContext, TickHandlerResult, WorldChange, clamp } from './types'
 import { AdjacencyEdge, nearestLocation } from '../worldGraph'
+import { carryOutFactionOrders } from '../factionOrders/carryOut'
+import { SUPPLY_ROUTE_COST } from '../factionOrders/orders'
 
 // Small, bounded per-slot gain — same rough scale as other tick deltas
 // (GOAL_DELTAS's ENRICH is +4/turn; a worked resource slot adds to that,
@@ -229,11 +231,47 @@ export function decideSupplyRouteCreation(
 }
 
 export async function tickLogistics(ctx: TickContext): Promise<TickHandlerResult> {
+  // Routes a PC leader ordered opened (factionOrders/) come first, so the
+  // derivation below doesn't lay a second one alongside and extraction
+  // counts them this same turn.
+  const orderChanges = await carryOutFactionOrders(ctx, 'OPEN_SUPPLY_ROUTE', async (order, facts) => {
+    const from = facts.location!
+    const to = facts.toLocation!
+    const faction = facts.faction
+    const resources = faction.resources - SUPPLY_ROUTE_COST
+    if (!ctx.dryRun) {
+      await ctx.db.supplyRoute.create({
+        data: { campaignId: ctx.campaignId, fromLocationId: from.id, toLocationId: to.id, controllingFactionId: faction.id },
+      })
+      await ctx.db.faction.update({ where: { id: faction.id }, data: { resources } })
+    }
+    const name = order.faction.name
+    return {
+      carriedOut: true,
+      outcome: `${name} opens a supply route from ${from.name} to ${to.name} at its leader's command`,
+      changes: [
+        {
+          entityType: 'FACTION',
+          entityId: faction.id,
+          entityName: name,
+          campaignId: ctx.campaignId,
+          field: 'resources',
+          previousValue: faction.resources,
+          newValue: resources,
+          reason: `${name} pays to open the road from ${from.name} to ${to.name}`,
+          significant: false,
+          importance: 'NORMAL',
+          originLocationId: from.id,
+        },
+      ],
+    }
+  })
+
   const locations = await ctx.db.location.findMany({
     where: { campaignId: ctx.campaignId },
     select: { id: true, name: true, resourceSlots: true, ownerFactionId: true },
   })
-  if (locations.length === 0) return { changes: [] }
+  if (locations.length === 0) return { changes: orderChanges }
 
   const [routes, adjacencyRows] = await Promise.all([
     ctx.db.supplyRoute.findMany({
@@ -298,14 +336,14 @@ export async function tickLogistics(ctx: TickContext): Promise<TickHandlerResult
   }
 
   const decisions = decideExtraction(extractionLocations, routes)
-  if (decisions.length === 0) return { changes: [] }
+  if (decisions.length === 0) return { changes: orderChanges }
 
   const gainByFaction = new Map<string, number>()
   for (const decision of decisions) {
     gainByFaction.set(decision.factionId, (gainByFaction.get(decision.factionId) ?? 0) + decision.resourceGain)
   }
 
-  const changes: WorldChange[] = []
+  const changes: WorldChange[] = [...orderChanges]
   for (const [factionId, gain] of gainByFaction) {
     const faction = await ctx.db.faction.findUnique({
       where: { id: factionId },
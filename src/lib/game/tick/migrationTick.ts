@@ -27,15 +27,22 @@
 // falling back to the old campaign-wide pick when this campaign has no
 // graph data covering the source location — adjacency-AWARE, not
 // adjacency-DEPENDENT, same convention as every other #108 consumer.
+//
+// Hazards (hazardTick.ts): a place in the grip of a severe plague, famine,
+// fire or flood is distressed whatever its conditionScore — people don't
+// wait for the town to fall apart before they run from the sickness in it
+// — and it is never anyone's destination while it lasts.
 
 // roster-exempt: population movement is location-driven. The NPC/faction
 // reads here identify who lives where, not who is being simulated this
 // turn — a rostered subset would move some inhabitants of a location and
 // leave others behind in the same emptying settlement.
 
+import type { HazardType } from '@prisma/client'
 import { TickContext, TickHandlerResult, WorldChange } from './types'
 import { AdjacencyEdge, shortestPath } from '../worldGraph'
 import { NEUTRAL_DISPOSITION, parseDisposition } from './npcDispositionTick'
+import { HAZARD_NOUN } from './hazardTick'
 
 // RUINED/ABANDONED band boundary — the same bar
 // locationConditionTick.ts's SITE_CONDITION_PENALTY_THRESHOLD (resolution.ts)
@@ -60,6 +67,9 @@ const POPULATION_FLIGHT_FRACTION = 0.1
 // NPC who has genuinely drifted toward recklessness is ever exempted, not
 // the ordinary case.
 const FLIGHT_STAY_THRESHOLD = 15
+// Hazard severity (1-5) at which people flee it — past the early cases,
+// once everyone in the place knows.
+export const STRICKEN_SEVERITY = 3
 
 export interface MigrationDecision {
   npcId: string
@@ -68,6 +78,8 @@ export interface MigrationDecision {
   fromLocationName: string
   toLocationId: string
   toLocationName: string
+  /** The disaster they fled, when that rather than the place's decline drove them out. */
+  hazard?: HazardType
 }
 
 export interface PopulationShiftDecision {
@@ -146,13 +158,16 @@ function pickDestination(
  * does this at query time); this function re-checks conditionScore anyway
  * so it stays correct if ever called with an unfiltered list. `edges`
  * defaults to empty (campaign-wide selection, pre-#108 behavior) for any
- * caller that doesn't have graph data on hand.
+ * caller that doesn't have graph data on hand. `stricken` maps a
+ * location gripped by a severe hazard to its kind — distressed whatever
+ * its score, and never a destination.
  */
 export function decideMigration(
   distressedLocations: DistressedLocationInput[],
   candidateDestinations: DestinationLocationInput[],
   npcs: MigratingNpcInput[],
-  edges: AdjacencyEdge[] = []
+  edges: AdjacencyEdge[] = [],
+  stricken: Map<string, HazardType> = new Map()
 ): { npcMoves: MigrationDecision[]; populationShifts: PopulationShiftDecision[]; populationFlights: PopulationFlightDecision[] } {
   const npcMoves: MigrationDecision[] = []
   const populationFlights: PopulationFlightDecision[] = []
@@ -163,7 +178,7 @@ export function decideMigration(
 
   // Highest-condition destination wins, deterministically — ties broken by
   // id so the result never depends on query row order.
-  const sortedDestinations = [...candidateDestinations].sort(
+  const sortedDestinations = candidateDestinations.filter((d) => !stricken.has(d.id)).sort(
     (a, b) => b.conditionScore - a.conditionScore || a.id.localeCompare(b.id)
   )
 
@@ -175,7 +190,8 @@ export function decideMigration(
   }
 
   for (const location of distressedLocations) {
-    if (location.conditionScore >= DISTRESS_THRESHOLD) continue
+    const hazard = stricken.get(location.id)
+    if (location.conditionScore >= DISTRESS_THRESHOLD && !hazard) continue
     const destination = pickDestination(location.id, sortedDestinations, edges)
     if (!destination) continue
 
@@ -195,6 +211,7 @@ export function decideMigration(
         fromLocationName: location.name,
         toLocationId: destination.id,
         toLocationName: destination.name,
+        ...(hazard ? { hazard } : {}),
       })
     }
 
@@ -243,10 +260,19 @@ export async function tickMigration(ctx: TickContext): Promise<TickHandlerResult
     select: { id: true, name: true, conditionScore: true, population: true },
   })
 
-  const distressedLocations = locations.filter((l) => l.conditionScore < DISTRESS_THRESHOLD)
+  const hazards = await ctx.db.hazard.findMany({
+    where: { campaignId: ctx.campaignId, status: 'ACTIVE', severity: { gte: STRICKEN_SEVERITY } },
+    select: { locationId: true, type: true },
+    orderBy: [{ severity: 'desc' }, { id: 'asc' }],
+  })
+  // The worst one names the flight when a place suffers two at once.
+  const stricken = new Map<string, HazardType>()
+  for (const hazard of hazards) if (!stricken.has(hazard.locationId)) stricken.set(hazard.locationId, hazard.type)
+
+  const distressedLocations = locations.filter((l) => l.conditionScore < DISTRESS_THRESHOLD || stricken.has(l.id))
   if (distressedLocations.length === 0) return { changes: [] }
 
-  const candidateDestinations = locations.filter((l) => l.conditionScore >= VIABLE_THRESHOLD)
+  const candidateDestinations = locations.filter((l) => l.conditionScore >= VIABLE_THRESHOLD && !stricken.has(l.id))
   if (candidateDestinations.length === 0) return { changes: [] }
 
   const [npcs, adjacencyRows] = await Promise.all([
@@ -278,7 +304,8 @@ export async function tickMigration(ctx: TickContext): Promise<TickHandlerResult
       isAlive: n.isAlive,
       selfPreservation: parseDisposition(n.disposition)?.selfPreservation,
     })),
-    adjacencyRows as AdjacencyEdge[]
+    adjacencyRows as AdjacencyEdge[],
+    stricken
   )
 
   const changes: WorldChange[] = []
@@ -300,7 +327,9 @@ export async function tickMigration(ctx: TickContext): Promise<TickHandlerResult
       field: 'currentLocation',
       previousValue: move.fromLocationName,
       newValue: move.toLocationName,
-      reason: `${move.npcName} fled the deteriorating conditions in ${move.fromLocationName} for ${move.toLocationName}`,
+      reason: move.hazard
+        ? `${move.npcName} fled the ${HAZARD_NOUN[move.hazard]} in ${move.fromLocationName} for ${move.toLocationName}`
+        : `${move.npcName} fled the deteriorating conditions in ${move.fromLocationName} for ${move.toLocationName}`,
       significant: true,
       importance: importance >= 5 ? 'MAJOR' : 'NORMAL',
     })
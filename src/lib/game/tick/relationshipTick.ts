@@ -19,6 +19,12 @@
 // turn's goal reassessment. That one-tick lag avoids a same-turn circular
 // dependency (relationships depend on goals; DESTABILIZE_RIVAL depends on
 // relationships) without needing a two-pass tick.
+//
+// Diplomacy: treaties outrank goals (see diplomacyTick.ts's
+// treatyStanding). A pair under any treaty can't be RIVALs, overlord and
+// vassal are ALLYs whatever they're each pursuing, and a broken treaty
+// makes the pair RIVALs until BETRAYAL_MEMORY_TURNS have passed. Read from
+// the previous turn's treaties, the same one-tick lag as goals.
 
 import type { FactionGoal } from '@prisma/client'
 import { band } from './factionTick'
@@ -26,6 +32,7 @@ import { FactionRelationshipEntry, TickContext, TickHandlerResult } from './type
 import { tickPairwiseTies } from './relationshipEngine'
 import { rosterFactionFilter } from './capOrdering'
 import { edgesFromFactionRows } from '../tieGraph'
+import { TreatyStanding, loadTreatyBindings, treatyStanding } from './diplomacyTick'
 
 export type RelationshipType = 'RIVAL' | 'ALLY' | 'NEUTRAL'
 
@@ -33,8 +40,27 @@ export type RelationshipType = 'RIVAL' | 'ALLY' | 'NEUTRAL'
 // import cycles); re-exported here for existing importers.
 export type { FactionRelationshipEntry }
 
-/** Pure decision function — no DB access, safe to unit test directly. */
+/**
+ * Pure decision function — no DB access, safe to unit test directly.
+ *
+ * `treaty` is what diplomacy says about the pair; omitted, the tie comes
+ * from goals alone.
+ */
 export function decideRelationshipTick(
+  a: { goal: FactionGoal; stability: number },
+  b: { goal: FactionGoal; stability: number },
+  treaty: TreatyStanding = null
+): RelationshipType {
+  if (treaty === 'BETRAYED') return 'RIVAL'
+  if (treaty === 'VASSALAGE') return 'ALLY'
+  const fromGoals = decideRelationshipFromGoals(a, b)
+  // Bound by treaty: whatever they're competing over, they've agreed not
+  // to fight about it.
+  if (treaty === 'BOUND' && fromGoals === 'RIVAL') return 'NEUTRAL'
+  return fromGoals
+}
+
+function decideRelationshipFromGoals(
   a: { goal: FactionGoal; stability: number },
   b: { goal: FactionGoal; stability: number }
 ): RelationshipType {
@@ -77,6 +103,8 @@ export async function tickFactionRelationships(ctx: TickContext): Promise<TickHa
     select: { factionAId: true, factionBId: true, type: true, since: true },
   })
 
+  const treaties = await loadTreatyBindings(ctx.db, ctx.campaignId, ctx.turnNumber)
+
   const { changes, upserts, deletes } = tickPairwiseTies({
     campaignId: ctx.campaignId,
     entityType: 'FACTION',
@@ -86,7 +114,10 @@ export async function tickFactionRelationships(ctx: TickContext): Promise<TickHa
     // A rival only counts if it still exists as an active faction —
     // nothing else ever expires a stale entry (see the module doc above).
     isValidOtherId: (otherId) => activeFactionIds.has(otherId),
-    decide: (a, b) => ({ type: decideRelationshipTick(a, b), meta: undefined }),
+    decide: (a, b) => {
+      const standing = treatyStanding(treaties.active, treaties.broken, a.id, b.id, ctx.turnNumber)
+      return { type: decideRelationshipTick(a, b, standing), meta: standing }
+    },
     buildExpireChange: (f, otherId, previous) => ({
       reason: `${f.name}'s ${previous.type === 'RIVAL' ? 'rivalry' : 'alliance'} with ${factionNameById.get(otherId) || 'a defunct faction'} lapses — the other side no longer exists as an independent faction`,
       significant: true,
@@ -95,8 +126,13 @@ export async function tickFactionRelationships(ctx: TickContext): Promise<TickHa
       reason: `${a.name} and ${b.name} are no longer ${previous.type === 'RIVAL' ? 'rivals' : 'allies'}`,
       significant: true,
     }),
-    buildNewChange: (a, b, freshType) => ({
-      reason: `${a.name} and ${b.name} become ${freshType === 'RIVAL' ? 'rivals' : 'allies'}, both pursuing ${a.goal === b.goal ? a.goal : `${a.goal}/${b.goal}`}`,
+    buildNewChange: (a, b, freshType, standing) => ({
+      reason:
+        standing === 'BETRAYED'
+          ? `${a.name} and ${b.name} become rivals — a broken treaty lies between them`
+          : standing === 'VASSALAGE'
+            ? `${a.name} and ${b.name} become allies, bound as overlord and vassal`
+            : `${a.name} and ${b.name} become ${freshType === 'RIVAL' ? 'rivals' : 'allies'}, both pursuing ${a.goal === b.goal ? a.goal : `${a.goal}/${b.goal}`}`,
       significant: true,
     }),
   })
@@ -53,8 +53,12 @@ export interface WorldChange {
    * which is a separate, dedicated consequence-extraction AI pass over
    * scene text (see consequences.ts) — both are player-caused, but from
    * genuinely different pipelines.
+   * 'factionOrder' changes come from lib/game/factionOrders/ — an order a
+   * PC leader queued for their faction, carried out by whichever handler
+   * owns that part of the world. Player-caused, like the two above, but
+   * decided on the orders screen rather than in a scene.
    */
-  origin?: 'tick' | 'consequence' | 'integrity' | 'wake' | 'clockResolution' | 'sceneResolution'
+  origin?: 'tick' | 'consequence' | 'integrity' | 'wake' | 'clockResolution' | 'sceneResolution' | 'factionOrder'
   /** Set only when origin is 'integrity' — the IntegrityCheck.key that
    * produced this repair, so escalation (integrity/escalation.ts) can tell
    * "this got repaired again" apart from "this field just changed again in
@@ -224,6 +228,18 @@ export interface WorldTickResult {
   changes: WorldChange[]
   historyEntriesCreated: number
   pendingAmbitions: PendingAmbition[]
+  /**
+   * How long each handler took this tick, in TICK_HANDLERS order. Read only
+   * by the headless simulation runner's balance report (game/simulation/) —
+   * nothing that decides world state ever sees a wall-clock reading.
+   */
+  handlerTimings: HandlerTiming[]
+}
+
+/** One handler's wall time for one tick — see WorldTickResult.handlerTimings. */
+export interface HandlerTiming {
+  handler: string
+  ms: number
 }
 
 /**
@@ -34,6 +34,11 @@
 // dependency without needing a two-pass tick. New allies pulled in this
 // tick, and wars declared this tick, don't get evaluated again until next
 // tick either, for the same reason.
+//
+// Diplomacy: treaties in force (diplomacyTick.ts) hold. Two factions bound
+// by one never declare war on each other, and an ally never joins a war
+// against a faction it has a treaty with. Ending wars at the table is
+// diplomacyTick's job, not this file's — it runs right after this one.
 
 import type { Prisma } from '@prisma/client'
 import { HIGH_BAND_MIN } from './factionTick'
@@ -41,6 +46,8 @@ import { TickContext, TickHandlerResult, WorldChange, clamp, findRivalId } from
 import { TIE_INCLUDE, factionTies } from '../tieGraph'
 import { decideArcDelta, decideArcResolution } from '../arc'
 import { rosterFactionFilter } from './capOrdering'
+import { TreatyBinding, bindingBetween, loadTreatyBindings } from './diplomacyTick'
+import { carryOutFactionOrders } from '../factionOrders/carryOut'
 
 // Both sides must be genuinely strong — the same HIGH cutoff the rest of
 // the tick uses, referenced rather than copied so a rebalance can't drift.
@@ -327,11 +334,63 @@ export async function tickWars(ctx: TickContext): Promise<TickHandlerResult> {
   // underway, let the survivors' allies pile on, then see whether any new
   // war ignites — each phase's output (who's resolved, who's now at war)
   // feeds the next.
+  const { active: treaties } = await loadTreatyBindings(ctx.db, ctx.campaignId, ctx.turnNumber)
   const progress = await resolveWarProgress(ctx, activeWars)
-  const coalitionChanges = await growWarCoalitions(ctx, activeWars, factionIdsAtWar, progress.resolvedWarIds)
-  const declarationChanges = await declareNewWars(ctx, factionIdsAtWar)
+  const orderChanges = await joinWarsByOrder(ctx, activeWars, factionIdsAtWar, progress.resolvedWarIds)
+  const coalitionChanges = await growWarCoalitions(ctx, activeWars, factionIdsAtWar, progress.resolvedWarIds, treaties)
+  const declarationChanges = await declareNewWars(ctx, factionIdsAtWar, treaties)
+
+  return { changes: [...progress.changes, ...orderChanges, ...coalitionChanges, ...declarationChanges] }
+}
+
+/**
+ * A PC leader's JOIN_WAR order (factionOrders/): the faction enters the war
+ * on the side its leader chose, with the same WarParticipant row a
+ * coalition ally gets. Runs before growWarCoalitions so an ally can't take
+ * the slot — and a faction that marched in this way counts as at war for
+ * everything after it.
+ */
+async function joinWarsByOrder(
+  ctx: TickContext,
+  activeWars: ActiveWar[],
+  factionIdsAtWar: Set<string>,
+  resolvedWarIds: Set<string>
+): Promise<WorldChange[]> {
+  return carryOutFactionOrders(ctx, 'JOIN_WAR', async (order) => {
+    const war = activeWars.find((w) => w.id === order.warId)
+    const side = order.side
+    if (!war || !side || resolvedWarIds.has(war.id)) return { carriedOut: false, reason: 'That war ended before the faction could march' }
+    if (factionIdsAtWar.has(order.factionId)) return { carriedOut: false, reason: 'The faction is already fighting a war of its own' }
 
-  return { changes: [...progress.changes, ...coalitionChanges, ...declarationChanges] }
+    if (!ctx.dryRun) {
+      await ctx.db.warParticipant.create({
+        data: { warId: war.id, factionId: order.factionId, side, joinedTurn: ctx.turnNumber },
+      })
+    }
+    factionIdsAtWar.add(order.factionId)
+
+    const name = order.faction.name
+    const primaryOpponentName = side === 'ATTACKER' ? war.defender.name : war.attacker.name
+    return {
+      carriedOut: true,
+      outcome: `${name} marches into ${war.name} against ${primaryOpponentName} at its leader's command`,
+      changes: [
+        {
+          entityType: 'FACTION',
+          entityId: order.factionId,
+          entityName: name,
+          campaignId: ctx.campaignId,
+          field: 'warJoined',
+          previousValue: 'neutral',
+          newValue: `at war (${side.toLowerCase()})`,
+          reason: `${name} joins the war against ${primaryOpponentName}`,
+          significant: true,
+          importance: 'MAJOR',
+          originLocationId: war.contestedLocationId ?? null,
+        },
+      ],
+    }
+  })
 }
 
 /**
@@ -530,7 +589,8 @@ async function growWarCoalitions(
   ctx: TickContext,
   activeWars: ActiveWar[],
   factionIdsAtWar: Set<string>,
-  resolvedWarIds: Set<string>
+  resolvedWarIds: Set<string>,
+  treaties: TreatyBinding[]
 ): Promise<WorldChange[]> {
   const changes: WorldChange[] = []
 
@@ -540,12 +600,15 @@ async function growWarCoalitions(
     for (const side of ['ATTACKER', 'DEFENDER'] as const) {
       const sideParticipants = war.participants.filter((p) => p.side === side && p.faction.isActive)
       const sideFactionIds = new Set(sideParticipants.map((p) => p.factionId))
+      const opposingFactionIds = war.participants.filter((p) => p.side !== side).map((p) => p.factionId)
 
       const candidateIds = new Set<string>()
       for (const p of sideParticipants) {
         const relationships = factionTies(p.faction)
         for (const [otherId, rel] of Object.entries(relationships)) {
           if (rel.type === 'ALLY' && !sideFactionIds.has(otherId) && !factionIdsAtWar.has(otherId)) {
+            // An ally with a treaty binding it to the other side stays out.
+            if (opposingFactionIds.some((id) => bindingBetween(treaties, otherId, id))) continue
             candidateIds.add(otherId)
           }
         }
@@ -598,12 +661,13 @@ async function growWarCoalitions(
 
 /**
  * Declare new wars among rival pairs not already fighting each other, where
- * one side's territory is already contested by the other. `factionIdsAtWar`
+ * one side's territory is already contested by the other and no treaty
+ * binds them. `factionIdsAtWar`
  * is mutated as new wars ignite, reflecting everyone tickWars has already
  * committed to a war this tick (pre-existing participants plus this tick's
  * coalition joiners).
  */
-async function declareNewWars(ctx: TickContext, factionIdsAtWar: Set<string>): Promise<WorldChange[]> {
+async function declareNewWars(ctx: TickContext, factionIdsAtWar: Set<string>, treaties: TreatyBinding[]): Promise<WorldChange[]> {
   const changes: WorldChange[] = []
 
   const factions = await ctx.db.faction.findMany({
@@ -633,6 +697,12 @@ async function declareNewWars(ctx: TickContext, factionIdsAtWar: Set<string>): P
     const attacker = factions.find((f) => f.id === rivalId)
     if (!attacker) continue
 
+    const treaty = bindingBetween(treaties, attacker.id, defender.id)
+    if (treaty) {
+      console.log(`  🕊️ ${attacker.name} vs ${defender.name}: held back by a ${treaty.type.toLowerCase().replace('_', '-')} treaty`)
+      continue
+    }
+
     const decision = decideWarDeclaration(attacker, defender, locations, {
       priorWars,
       currentTurn: ctx.turnNumber,
@@ -17,8 +17,11 @@ import type { SimTurn } from '@/lib/game/turnClock'
 
 function actorTypeFor(change: WorldChange): WorldEventActorType {
   // 'sceneResolution' (#175) is the main per-exchange AI GM path — every
-  // bit as player-caused as 'consequence', just a different pipeline.
-  return change.origin === 'consequence' || change.origin === 'sceneResolution' ? 'PLAYER' : 'SYSTEM'
+  // bit as player-caused as 'consequence', just a different pipeline. So
+  // is 'factionOrder': the tick carries it out, but a PC leader chose it.
+  return change.origin === 'consequence' || change.origin === 'sceneResolution' || change.origin === 'factionOrder'
+    ? 'PLAYER'
+    : 'SYSTEM'
 }
 
 function typeFor(change: WorldChange): string {
@@ -83,7 +86,10 @@ export async function persistWorldEvents(
   // reaching one of these columns a compile error rather than a silently
   // wrong row. See turnClock.ts.
   turnNumber: SimTurn,
-  changes: WorldChange[]
+  changes: WorldChange[],
+  // The seeded-stream position the batch's draws began at (see rng.ts) —
+  // scene exchanges only. Tick batches draw nothing and leave it null.
+  rngStart: { seed: number; cursor: number } | null = null
 ): Promise<{ count: number; events: PersistedWorldEvent[] }> {
   if (changes.length === 0) return { count: 0, events: [] }
 
@@ -114,6 +120,8 @@ export async function persistWorldEvents(
         checkKey: change.checkKey ?? null,
         wakeSourceType: change.wakeSourceType ?? null,
         originLocationId: change.originLocationId ?? null,
+        rngSeed: rngStart?.seed ?? null,
+        rngCursor: rngStart?.cursor ?? null,
       })),
       select: { id: true, significant: true },
     })
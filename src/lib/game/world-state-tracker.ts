@@ -6,6 +6,7 @@ import type { WorldStateChange } from '@/components/scene/AITransparencyPanel'
 import { NotificationService } from '@/lib/notifications/notification-service'
 import type { AdherenceResult } from './outcomeAdherence'
 import type { MoveVarietyResult } from './moveVariety'
+import type { RetrievalTrace } from '@/lib/ai/hybridRetrieval'
 
 interface WorldStateSnapshot {
   npcs: Record<string, any>
@@ -320,17 +321,18 @@ export async function detectWorldStateChanges(
 /**
  * Store world state changes in the scene for display.
  *
- * outcomeAdherence (#91) and moveVariety (#232) are sibling keys in the
- * same untyped `consequences` blob, not new DB columns — both share the
- * exact same lifecycle as worldStateChanges (one snapshot per resolution,
- * overwritten wholesale on the next one), so a new migration would only
- * add ceremony without changing that behavior.
+ * outcomeAdherence (#91), moveVariety (#232) and the retrieval trace are
+ * sibling keys in the same untyped `consequences` blob, not new DB columns
+ * — all share the exact same lifecycle as worldStateChanges (one snapshot
+ * per resolution, overwritten wholesale on the next one), so a new
+ * migration would only add ceremony without changing that behavior.
  */
 export async function storeWorldStateChanges(
   sceneId: string,
   changes: WorldStateChange[],
   outcomeAdherence?: AdherenceResult,
-  moveVariety?: MoveVarietyResult
+  moveVariety?: MoveVarietyResult,
+  retrieval?: RetrievalTrace
 ): Promise<void> {
   // Store in scene consequences field
   await prisma.scene.update({
@@ -339,7 +341,8 @@ export async function storeWorldStateChanges(
       consequences: {
         worldStateChanges: changes,
         ...(outcomeAdherence ? { outcomeAdherence } : {}),
-        ...(moveVariety ? { moveVariety } : {})
+        ...(moveVariety ? { moveVariety } : {}),
+        ...(retrieval ? { retrieval } : {})
       } as any
     }
   })
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = vi.hoisted(() => ({
+  worldMeta: { findUnique: vi.fn() },
+  worldSnapshot: { findMany: vi.fn(), findUnique: vi.fn() },
+  worldEvent: { findMany: vi.fn() },
+  territoryFrame: { findFirst: vi.fn(), findMany: vi.fn() },
+  faction: { findMany: vi.fn() },
+  location: { findMany: vi.fn() },
+  nPC: { findMany: vi.fn(), findFirst: vi.fn() },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import { loadEntityTimeline, loadWorldAt, loadWorldDiff, MAX_REPLAY_EVENTS, WorldHistoryError } from '../loadWorldHistory'
+
+const faction = (resources: number) => ({
+  court: { name: 'Grey Court', isActive: true, goal: 'EXPAND', resources, military: 50, stability: 50, influence: 50 },
+})
+const snapshotAt5 = { factions: faction(50), locations: {}, npcs: {} }
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  db.worldMeta.findUnique.mockResolvedValue({ simulationTurn: 12 })
+  db.worldSnapshot.findMany.mockResolvedValue([{ turnNumber: 5 }, { turnNumber: 10 }])
+  db.worldSnapshot.findUnique.mockResolvedValue(snapshotAt5)
+  db.worldEvent.findMany.mockResolvedValue([])
+  db.territoryFrame.findFirst.mockResolvedValue(null)
+  db.territoryFrame.findMany.mockResolvedValue([])
+  db.faction.findMany.mockResolvedValue([{ id: 'court', name: 'Grey Court', isActive: true, goal: 'EXPAND', resources: 10, military: 50, stability: 50, influence: 50 }])
+  db.location.findMany.mockResolvedValue([])
+  db.nPC.findMany.mockResolvedValue([])
+  db.nPC.findFirst.mockResolvedValue(null)
+})
+
+describe('loadWorldAt', () => {
+  it('replays the events after the nearest earlier snapshot, and no others', async () => {
+    db.worldEvent.findMany.mockResolvedValue([
+      { turnNumber: 7, targetType: 'FACTION', targetId: 'court', targetName: 'Grey Court', field: 'resources', previousValue: '50', newValue: '30', reason: 'a lean year' },
+    ])
+
+    const world = await loadWorldAt('camp1', 8)
+
+    expect(db.worldSnapshot.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { campaignId_turnNumber: { campaignId: 'camp1', turnNumber: 5 } } })
+    )
+    expect(db.worldEvent.findMany.mock.calls[0][0].where).toMatchObject({ campaignId: 'camp1', turnNumber: { gt: 5, lte: 8 } })
+    expect(world).toMatchObject({ turnNumber: 8, fidelity: 'replayed', baseTurn: 5, currentTurn: 12, truncated: false })
+    expect(world.state.factions.court.resources).toBe(30)
+  })
+
+  it('reads the current turn from the live world, with no events to replay', async () => {
+    const world = await loadWorldAt('camp1', 12)
+    expect(world.fidelity).toBe('live')
+    expect(world.state.factions.court.resources).toBe(10)
+    expect(db.worldSnapshot.findUnique).not.toHaveBeenCalled()
+    expect(db.worldEvent.findMany).not.toHaveBeenCalled()
+  })
+
+  it('walks back from the live world when no snapshot is early enough', async () => {
+    db.worldSnapshot.findMany.mockResolvedValue([])
+    db.worldEvent.findMany.mockResolvedValue([
+      { turnNumber: 4, targetType: 'FACTION', targetId: 'court', targetName: 'Grey Court', field: 'resources', previousValue: '80', newValue: '10', reason: 'war' },
+    ])
+
+    const world = await loadWorldAt('camp1', 3)
+
+    expect(world.fidelity).toBe('rewound')
+    expect(world.state.factions.court.resources).toBe(80)
+    expect(db.worldEvent.findMany.mock.calls[0][0].where.turnNumber).toEqual({ gt: 3, lte: 12 })
+  })
+
+  it('takes the borders from the last frame at or before the turn', async () => {
+    db.territoryFrame.findFirst.mockResolvedValue({ turnNumber: 6, owners: { ash: { ownerFactionId: 'court', isContested: false } } })
+    const world = await loadWorldAt('camp1', 8)
+    expect(db.territoryFrame.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { campaignId: 'camp1', turnNumber: { lte: 8 } }, orderBy: { turnNumber: 'desc' } })
+    )
+    expect(world.owners).toEqual({ ash: { ownerFactionId: 'court', isContested: false } })
+  })
+
+  it('says so when the replay hit its cap', async () => {
+    db.worldEvent.findMany.mockResolvedValue(Array.from({ length: MAX_REPLAY_EVENTS }, () => ({
+      turnNumber: 7, targetType: 'NPC', targetId: 'gone', targetName: 'Gone', field: 'currentPlan', previousValue: 'a', newValue: 'b', reason: '',
+    })))
+    expect((await loadWorldAt('camp1', 8)).truncated).toBe(true)
+  })
+
+  it.each([-1, 13, 2.5])('refuses turn %s', async (turn) => {
+    await expect(loadWorldAt('camp1', turn)).rejects.toBeInstanceOf(WorldHistoryError)
+  })
+
+  it('refuses a campaign with no world simulation', async () => {
+    db.worldMeta.findUnique.mockResolvedValue(null)
+    await expect(loadWorldAt('camp1', 0)).rejects.toThrow('no world simulation')
+  })
+})
+
+describe('loadWorldDiff', () => {
+  it('compares the two turns without sending either world whole', async () => {
+    db.worldSnapshot.findUnique.mockImplementation(async (args: any) =>
+      args.where.campaignId_turnNumber.turnNumber === 5 ? snapshotAt5 : { factions: faction(25), locations: {}, npcs: {} }
+    )
+
+    const view = await loadWorldDiff('camp1', 5, 10)
+
+    expect(view.diffs).toEqual([
+      { kind: 'faction', id: 'court', name: 'Grey Court', status: 'changed', changes: [{ field: 'resources', from: 50, to: 25 }] },
+    ])
+    expect(view.from).toMatchObject({ turnNumber: 5, fidelity: 'snapshot' })
+    expect(view.to).not.toHaveProperty('state')
+  })
+})
+
+describe('loadEntityTimeline', () => {
+  it('reads only that entity\'s events, and hands them over oldest first', async () => {
+    db.worldEvent.findMany.mockResolvedValue([
+      { turnNumber: 9, targetType: 'FACTION', targetId: 'court', targetName: 'Grey Court', field: 'goal', previousValue: 'EXPAND', newValue: 'DEFEND', reason: 'threatened' },
+      { turnNumber: 4, targetType: 'FACTION', targetId: 'court', targetName: 'Grey Court', field: 'military', previousValue: '50', newValue: '70', reason: 'levy' },
+    ])
+
+    const timeline = await loadEntityTimeline('camp1', 'faction', 'court')
+
+    expect(db.worldEvent.findMany.mock.calls[0][0].where).toEqual({ campaignId: 'camp1', targetId: 'court', targetType: { in: ['FACTION'] } })
+    expect(timeline).toMatchObject({ kind: 'faction', id: 'court', name: 'Grey Court' })
+    expect(timeline.entries.map((e) => e.turnNumber)).toEqual([4, 9])
+  })
+
+  it('skips the border history for an NPC', async () => {
+    db.nPC.findFirst.mockResolvedValue({ name: 'Mara' })
+    expect((await loadEntityTimeline('camp1', 'npc', 'mara')).name).toBe('Mara')
+    expect(db.territoryFrame.findMany).not.toHaveBeenCalled()
+  })
+
+  it('names a deleted entity from its log', async () => {
+    db.worldEvent.findMany.mockResolvedValue([
+      { turnNumber: 4, targetType: 'NPC', targetId: 'tam', targetName: 'Tam', field: 'currentLocation', previousValue: 'Ashford', newValue: 'Millbrook', reason: 'moved' },
+    ])
+    expect((await loadEntityTimeline('camp1', 'npc', 'tam')).name).toBe('Tam')
+  })
+
+  it('refuses an id with neither a row nor a history', async () => {
+    await expect(loadEntityTimeline('camp1', 'location', 'nowhere')).rejects.toBeInstanceOf(WorldHistoryError)
+  })
+})
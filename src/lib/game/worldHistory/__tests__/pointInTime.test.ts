@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildEntityTimeline,
+  diffWorlds,
+  planRebuild,
+  rebuildWorld,
+  type HistoryEvent,
+  type WorldAtTurn,
+} from '../pointInTime'
+import type { WorldState } from '../snapshots'
+
+const world = (overrides: { resources?: number; isActive?: boolean; conditionScore?: number; currentLocation?: string | null } = {}): WorldState => ({
+  factions: {
+    court: {
+      name: 'Grey Court',
+      isActive: overrides.isActive ?? true,
+      goal: 'CONSOLIDATE',
+      resources: overrides.resources ?? 50,
+      military: 50,
+      stability: 50,
+      influence: 50,
+    },
+  },
+  locations: { ash: { name: 'Ashford', conditionScore: overrides.conditionScore ?? 60, population: 1000, weather: 'CLEAR' } },
+  npcs: { mara: { name: 'Mara', isAlive: true, currentLocation: overrides.currentLocation === undefined ? 'Ashford' : overrides.currentLocation } },
+})
+
+const event = (turnNumber: number, targetType: string, targetId: string, field: string, previousValue: string | null, newValue: string | null): HistoryEvent => ({
+  turnNumber,
+  targetType,
+  targetId,
+  targetName: targetId,
+  field,
+  previousValue,
+  newValue,
+  reason: `${field} changed`,
+})
+
+describe('planRebuild', () => {
+  it('reads the current turn live', () => {
+    expect(planRebuild(12, [5, 10], 12)).toMatchObject({ fidelity: 'live', baseTurn: 12 })
+  })
+
+  it('reads a snapshot turn straight from its snapshot', () => {
+    expect(planRebuild(10, [5, 10], 12)).toMatchObject({ fidelity: 'snapshot', baseTurn: 10, eventsAfter: 10, eventsThrough: 10 })
+  })
+
+  it('replays forward from the nearest snapshot before the turn', () => {
+    expect(planRebuild(8, [5, 10], 12)).toEqual({ turnNumber: 8, fidelity: 'replayed', baseTurn: 5, eventsAfter: 5, eventsThrough: 8 })
+  })
+
+  it('walks back from the nearest later snapshot when none is earlier', () => {
+    expect(planRebuild(2, [5, 10], 12)).toEqual({ turnNumber: 2, fidelity: 'rewound', baseTurn: 5, eventsAfter: 2, eventsThrough: 5 })
+  })
+
+  it('walks back from the live world when there are no snapshots at all', () => {
+    expect(planRebuild(2, [], 12)).toEqual({ turnNumber: 2, fidelity: 'rewound', baseTurn: 12, eventsAfter: 2, eventsThrough: 12 })
+  })
+})
+
+describe('rebuildWorld', () => {
+  it('replays each change\'s new value, in order', () => {
+    const plan = planRebuild(8, [5], 12)
+    const rebuilt = rebuildWorld(plan, world(), [
+      event(6, 'FACTION', 'court', 'resources', '50', '35'),
+      event(7, 'FACTION', 'court', 'resources', '35', '20'),
+      event(7, 'LOCATION_CONDITION', 'ash', 'conditionScore', '60', '40'),
+      event(8, 'NPC', 'mara', 'currentLocation', 'Ashford', 'Greywater'),
+      // After the turn asked for: not part of it.
+      event(9, 'FACTION', 'court', 'resources', '20', '5'),
+    ], [])
+
+    expect(rebuilt.state.factions.court.resources).toBe(20)
+    expect(rebuilt.state.locations.ash.conditionScore).toBe(40)
+    expect(rebuilt.state.npcs.mara.currentLocation).toBe('Greywater')
+    expect(rebuilt.fidelity).toBe('replayed')
+  })
+
+  it('walks back using the first change after the turn, not the last', () => {
+    const plan = planRebuild(2, [], 12)
+    const rebuilt = rebuildWorld(plan, world({ resources: 5 }), [
+      event(4, 'FACTION', 'court', 'resources', '70', '40'),
+      event(9, 'FACTION', 'court', 'resources', '40', '5'),
+    ], [])
+    expect(rebuilt.state.factions.court.resources).toBe(70)
+  })
+
+  it('reads a collapse as the faction going inactive, and undoes it walking back', () => {
+    const collapse = event(6, 'FACTION', 'court', 'collapsed', 'active', 'absorbed')
+    expect(rebuildWorld(planRebuild(7, [5], 12), world(), [collapse], []).state.factions.court.isActive).toBe(false)
+    expect(rebuildWorld(planRebuild(4, [], 12), world({ isActive: false }), [collapse], []).state.factions.court.isActive).toBe(true)
+  })
+
+  it('reads an NPC with no recorded place as nowhere', () => {
+    const rebuilt = rebuildWorld(planRebuild(2, [], 12), world(), [event(3, 'NPC', 'mara', 'currentLocation', '(unknown)', 'Ashford')], [])
+    expect(rebuilt.state.npcs.mara.currentLocation).toBeNull()
+  })
+
+  it('counts what it can\'t apply instead of guessing, and ignores untracked fields', () => {
+    const rebuilt = rebuildWorld(planRebuild(8, [5], 12), world(), [
+      event(6, 'FACTION', 'court', 'resources', '50', '[object Object]'),
+      event(6, 'FACTION', 'newcomer', 'military', '0', '30'),
+      event(7, 'NPC', 'mara', 'currentPlan', 'wait', 'scheme'),
+    ], [])
+
+    expect(rebuilt.state.factions.court.resources).toBe(50)
+    expect(rebuilt.unapplied).toEqual({ 'FACTION.resources': 1, 'FACTION.military': 1 })
+  })
+
+  it('takes the borders from the frame in force at the turn', () => {
+    const frames = [
+      { turnNumber: 3, owners: { ash: { ownerFactionId: 'court', isContested: false } } },
+      { turnNumber: 9, owners: { ash: { ownerFactionId: 'shadow', isContested: false } } },
+    ]
+    expect(rebuildWorld(planRebuild(8, [5], 12), world(), [], frames).owners?.ash.ownerFactionId).toBe('court')
+    expect(rebuildWorld(planRebuild(2, [5], 12), world(), [], frames).owners).toBeNull()
+  })
+
+  it('never mutates the base it was given', () => {
+    const base = world()
+    rebuildWorld(planRebuild(8, [5], 12), base, [event(6, 'FACTION', 'court', 'resources', '50', '10')], [])
+    expect(base.factions.court.resources).toBe(50)
+  })
+})
+
+describe('diffWorlds', () => {
+  const at = (turnNumber: number, state: WorldState, owner: string | null = null): WorldAtTurn => ({
+    turnNumber,
+    fidelity: 'snapshot',
+    baseTurn: turnNumber,
+    state,
+    owners: owner === null ? null : { ash: { ownerFactionId: owner, isContested: false } },
+    unapplied: {},
+  })
+
+  it('lists each changed field per entity, and leaves unchanged ones out', () => {
+    const diffs = diffWorlds(at(5, world()), at(10, world({ resources: 20, currentLocation: 'Greywater' })))
+    expect(diffs).toEqual([
+      { kind: 'faction', id: 'court', name: 'Grey Court', status: 'changed', changes: [{ field: 'resources', from: 50, to: 20 }] },
+      { kind: 'npc', id: 'mara', name: 'Mara', status: 'changed', changes: [{ field: 'currentLocation', from: 'Ashford', to: 'Greywater' }] },
+    ])
+  })
+
+  it('shows a location changing hands when both turns have borders', () => {
+    const before = world()
+    const after = world()
+    after.factions.shadow = { ...after.factions.court, name: 'Shadow Hand' }
+    const diffs = diffWorlds(at(5, before, 'court'), at(10, after, 'shadow'))
+    expect(diffs).toEqual([
+      { kind: 'faction', id: 'shadow', name: 'Shadow Hand', status: 'appeared', changes: [] },
+      { kind: 'location', id: 'ash', name: 'Ashford', status: 'changed', changes: [{ field: 'owner', from: 'Grey Court', to: 'Shadow Hand' }] },
+    ])
+  })
+
+  it('marks an entity present on one side only', () => {
+    const later = world()
+    later.npcs.tam = { name: 'Tam', isAlive: true, currentLocation: null }
+    expect(diffWorlds(at(5, world()), at(10, later))).toEqual([
+      { kind: 'npc', id: 'tam', name: 'Tam', status: 'appeared', changes: [] },
+    ])
+  })
+})
+
+describe('buildEntityTimeline', () => {
+  const names = { factions: { court: 'Grey Court', shadow: 'Shadow Hand' }, locations: { ash: 'Ashford', mill: 'Millbrook' } }
+  const frames = [
+    { turnNumber: 2, owners: { ash: { ownerFactionId: 'court', isContested: false }, mill: { ownerFactionId: null, isContested: false } } },
+    { turnNumber: 6, owners: { ash: { ownerFactionId: 'court', isContested: true }, mill: { ownerFactionId: 'court', isContested: false } } },
+    { turnNumber: 9, owners: { ash: { ownerFactionId: 'shadow', isContested: false }, mill: { ownerFactionId: 'court', isContested: false } } },
+  ]
+
+  it('tells how a city changed hands, alongside its own logged changes', () => {
+    const entries = buildEntityTimeline('location', 'ash', [event(7, 'LOCATION_CONDITION', 'ash', 'conditionScore', '60', '35')], frames, names)
+
+    expect(entries.map((e) => [e.turnNumber, e.field, e.source])).toEqual([
+      [6, 'contested', 'borders'],
+      [7, 'conditionScore', 'event'],
+      [9, 'owner', 'borders'],
+      [9, 'contested', 'borders'],
+    ])
+    expect(entries[2]).toMatchObject({ from: 'Grey Court', to: 'Shadow Hand', reason: 'Changed hands from Grey Court to Shadow Hand' })
+  })
+
+  it('gives a faction the places it took and lost', () => {
+    const entries = buildEntityTimeline('faction', 'court', [], frames, names)
+    expect(entries.map((e) => [e.turnNumber, e.reason])).toEqual([
+      [6, 'Took Millbrook'],
+      [9, 'Lost Ashford to Shadow Hand'],
+    ])
+  })
+
+  it('keeps only the entity\'s own events', () => {
+    const entries = buildEntityTimeline('npc', 'mara', [
+      event(3, 'NPC', 'mara', 'currentLocation', 'Ashford', 'Millbrook'),
+      event(3, 'NPC', 'tam', 'currentLocation', 'Ashford', 'Millbrook'),
+      event(4, 'FACTION', 'mara', 'goal', 'EXPAND', 'DEFEND'),
+    ], frames, names)
+    expect(entries).toEqual([
+      { turnNumber: 3, field: 'currentLocation', from: 'Ashford', to: 'Millbrook', reason: 'currentLocation changed', source: 'event' },
+    ])
+  })
+})
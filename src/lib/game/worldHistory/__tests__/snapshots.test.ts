@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest'
+import { isSnapshotTurn, readWorldState, recordWorldSnapshot, SNAPSHOT_INTERVAL } from '../snapshots'
+
+function fakeDb() {
+  return {
+    faction: {
+      findMany: vi.fn(async () => [
+        { id: 'court', name: 'Grey Court', isActive: true, goal: 'EXPAND', resources: 61, military: 44, stability: 50, influence: 30 },
+      ]),
+    },
+    location: {
+      findMany: vi.fn(async () => [{ id: 'ash', name: 'Ashford', conditionScore: 55, population: 1200, weather: 'RAIN' }]),
+    },
+    nPC: { findMany: vi.fn(async () => [{ id: 'mara', name: 'Mara', isAlive: true, currentLocation: 'Ashford' }]) },
+    worldSnapshot: { upsert: vi.fn(async () => ({})) },
+  }
+}
+
+describe('isSnapshotTurn', () => {
+  it('snapshots every interval, never turn 0', () => {
+    expect(isSnapshotTurn(0)).toBe(false)
+    expect(isSnapshotTurn(SNAPSHOT_INTERVAL)).toBe(true)
+    expect(isSnapshotTurn(SNAPSHOT_INTERVAL + 1)).toBe(false)
+    expect(isSnapshotTurn(SNAPSHOT_INTERVAL * 7)).toBe(true)
+  })
+})
+
+describe('readWorldState', () => {
+  it('keys every entity by id, without repeating the id inside it', async () => {
+    const state = await readWorldState(fakeDb() as any, 'camp1')
+    expect(state).toEqual({
+      factions: { court: { name: 'Grey Court', isActive: true, goal: 'EXPAND', resources: 61, military: 44, stability: 50, influence: 30 } },
+      locations: { ash: { name: 'Ashford', conditionScore: 55, population: 1200, weather: 'RAIN' } },
+      npcs: { mara: { name: 'Mara', isAlive: true, currentLocation: 'Ashford' } },
+    })
+  })
+
+  it('reads inactive factions and dead NPCs too — both are part of the past', async () => {
+    const db = fakeDb()
+    await readWorldState(db as any, 'camp1')
+    expect(db.faction.findMany.mock.calls[0]).toEqual([expect.objectContaining({ where: { campaignId: 'camp1' } })])
+    expect(db.nPC.findMany.mock.calls[0]).toEqual([expect.objectContaining({ where: { campaignId: 'camp1' } })])
+  })
+})
+
+describe('recordWorldSnapshot', () => {
+  it('writes the world on a snapshot turn, upserting on the turn', async () => {
+    const db = fakeDb()
+    expect(await recordWorldSnapshot(db as any, 'camp1', 10)).toBe(true)
+    expect(db.worldSnapshot.upsert).toHaveBeenCalledWith({
+      where: { campaignId_turnNumber: { campaignId: 'camp1', turnNumber: 10 } },
+      create: expect.objectContaining({ campaignId: 'camp1', turnNumber: 10, npcs: { mara: expect.any(Object) } }),
+      update: expect.objectContaining({ factions: { court: expect.any(Object) } }),
+    })
+  })
+
+  it('reads nothing on any other turn', async () => {
+    const db = fakeDb()
+    expect(await recordWorldSnapshot(db as any, 'camp1', 11)).toBe(false)
+    expect(db.faction.findMany).not.toHaveBeenCalled()
+    expect(db.worldSnapshot.upsert).not.toHaveBeenCalled()
+  })
+})
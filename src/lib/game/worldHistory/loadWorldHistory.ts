@@ -0,0 +1,194 @@
+// src/lib/game/worldHistory/loadWorldHistory.ts
+// The reads behind the admin history views: the world as of a turn, what
+// changed between two turns, and one entity's timeline. What the rows mean
+// is pointInTime.ts's business; this file only decides which rows to read,
+// and reads no more than the rebuild needs — one base snapshot, the events
+// between it and the turn, and the one border frame in force.
+//
+// GM-only by construction: history carries hidden factions, undiscovered
+// places and the log's reason strings, the same material the tick log
+// (world-events route) is admin-only for. The routes gate it; nothing here
+// fogs anything.
+
+import { prisma } from '@/lib/prisma'
+import { MAX_ATLAS_FRAMES } from '../atlas/loadAtlas'
+import type { FrameOwners, TerritoryFrameView } from '../atlas/territoryFrames'
+import { readWorldState, type WorldState } from './snapshots'
+import {
+  buildEntityTimeline,
+  diffWorlds,
+  planRebuild,
+  rebuildWorld,
+  TARGET_TYPES,
+  type EntityDiff,
+  type EntityKind,
+  type HistoryEvent,
+  type TimelineEntry,
+  type WorldAtTurn,
+} from './pointInTime'
+
+/**
+ * Events one rebuild replays at most. Only a walk back over a campaign
+ * that predates snapshots comes near it; past it the result says
+ * `truncated` rather than taking a whole year of log into memory.
+ */
+export const MAX_REPLAY_EVENTS = 20_000
+
+/** Most recent entries one timeline load carries. */
+export const MAX_TIMELINE_ENTRIES = 500
+
+/** A turn or entity history can't be read for — out of range, or unknown. */
+export class WorldHistoryError extends Error {}
+
+export interface LoadedWorld extends WorldAtTurn {
+  currentTurn: number
+  /** The replay hit MAX_REPLAY_EVENTS; later changes weren't applied. */
+  truncated: boolean
+}
+
+/** A rebuilt turn without its state — how a diff says what it compared. */
+export type WorldSummary = Omit<LoadedWorld, 'state' | 'owners'>
+
+export interface WorldDiffView {
+  from: WorldSummary
+  to: WorldSummary
+  diffs: EntityDiff[]
+}
+
+export interface EntityTimelineView {
+  kind: EntityKind
+  id: string
+  name: string
+  entries: TimelineEntry[]
+}
+
+const HISTORY_EVENT_SELECT = {
+  turnNumber: true,
+  targetType: true,
+  targetId: true,
+  targetName: true,
+  field: true,
+  previousValue: true,
+  newValue: true,
+  reason: true,
+} as const
+
+const ALL_TARGET_TYPES = [...TARGET_TYPES.faction, ...TARGET_TYPES.location, ...TARGET_TYPES.npc]
+
+async function currentTurnOf(campaignId: string): Promise<number> {
+  const meta = await prisma.worldMeta.findUnique({ where: { campaignId }, select: { simulationTurn: true } })
+  if (!meta) throw new WorldHistoryError('This campaign has no world simulation yet')
+  return meta.simulationTurn
+}
+
+async function loadWorldAtTurn(campaignId: string, turnNumber: number, currentTurn: number): Promise<LoadedWorld> {
+  if (!Number.isInteger(turnNumber) || turnNumber < 0 || turnNumber > currentTurn) {
+    throw new WorldHistoryError(`World turn must be between 0 and ${currentTurn}`)
+  }
+
+  const snapshotTurns = await prisma.worldSnapshot.findMany({
+    where: { campaignId },
+    select: { turnNumber: true },
+  })
+  const plan = planRebuild(turnNumber, snapshotTurns.map((s) => s.turnNumber), currentTurn)
+
+  const fromSnapshot = plan.fidelity !== 'live' && snapshotTurns.some((s) => s.turnNumber === plan.baseTurn)
+  const [base, events, frame] = await Promise.all([
+    fromSnapshot
+      ? prisma.worldSnapshot
+          .findUnique({
+            where: { campaignId_turnNumber: { campaignId, turnNumber: plan.baseTurn } },
+            select: { factions: true, locations: true, npcs: true },
+          })
+          .then((row) => row as unknown as WorldState)
+      : readWorldState(prisma, campaignId),
+    plan.eventsThrough > plan.eventsAfter
+      ? prisma.worldEvent.findMany({
+          where: {
+            campaignId,
+            turnNumber: { gt: plan.eventsAfter, lte: plan.eventsThrough },
+            targetType: { in: ALL_TARGET_TYPES as any },
+          },
+          select: HISTORY_EVENT_SELECT,
+          orderBy: [{ turnNumber: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+          take: MAX_REPLAY_EVENTS,
+        })
+      : Promise.resolve([]),
+    prisma.territoryFrame.findFirst({
+      where: { campaignId, turnNumber: { lte: turnNumber } },
+      orderBy: { turnNumber: 'desc' },
+      select: { turnNumber: true, owners: true },
+    }),
+  ])
+
+  const frames: TerritoryFrameView[] = frame
+    ? [{ turnNumber: frame.turnNumber, owners: frame.owners as unknown as FrameOwners }]
+    : []
+  return {
+    ...rebuildWorld(plan, base, events as HistoryEvent[], frames),
+    currentTurn,
+    truncated: events.length === MAX_REPLAY_EVENTS,
+  }
+}
+
+/** The world as it stood at the end of simulation turn `turnNumber`. */
+export async function loadWorldAt(campaignId: string, turnNumber: number): Promise<LoadedWorld> {
+  return loadWorldAtTurn(campaignId, turnNumber, await currentTurnOf(campaignId))
+}
+
+/** What changed between the end of turn `fromTurn` and the end of `toTurn`. */
+export async function loadWorldDiff(campaignId: string, fromTurn: number, toTurn: number): Promise<WorldDiffView> {
+  const currentTurn = await currentTurnOf(campaignId)
+  const from = await loadWorldAtTurn(campaignId, fromTurn, currentTurn)
+  const to = await loadWorldAtTurn(campaignId, toTurn, currentTurn)
+  const summarize = ({ state: _state, owners: _owners, ...summary }: LoadedWorld): WorldSummary => summary
+  return { from: summarize(from), to: summarize(to), diffs: diffWorlds(from, to) }
+}
+
+/**
+ * One faction's, location's or NPC's history, oldest first — its most
+ * recent MAX_TIMELINE_ENTRIES. An entity deleted since still has a
+ * history; one with neither a row nor a logged change doesn't exist.
+ */
+export async function loadEntityTimeline(campaignId: string, kind: EntityKind, id: string): Promise<EntityTimelineView> {
+  const withBorders = kind !== 'npc'
+  const [events, frames, factions, locations, npc] = await Promise.all([
+    prisma.worldEvent.findMany({
+      where: { campaignId, targetId: id, targetType: { in: TARGET_TYPES[kind] as any } },
+      select: HISTORY_EVENT_SELECT,
+      orderBy: [{ turnNumber: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+      take: MAX_TIMELINE_ENTRIES,
+    }),
+    withBorders
+      ? prisma.territoryFrame.findMany({
+          where: { campaignId },
+          select: { turnNumber: true, owners: true },
+          orderBy: { turnNumber: 'desc' },
+          take: MAX_ATLAS_FRAMES,
+        })
+      : Promise.resolve([]),
+    prisma.faction.findMany({ where: { campaignId }, select: { id: true, name: true } }),
+    prisma.location.findMany({ where: { campaignId }, select: { id: true, name: true } }),
+    kind === 'npc'
+      ? prisma.nPC.findFirst({ where: { id, campaignId }, select: { name: true } })
+      : Promise.resolve(null),
+  ])
+
+  const names = {
+    factions: Object.fromEntries(factions.map((f) => [f.id, f.name])),
+    locations: Object.fromEntries(locations.map((l) => [l.id, l.name])),
+  }
+  const name =
+    (kind === 'faction' ? names.factions[id] : kind === 'location' ? names.locations[id] : npc?.name) ??
+    events[0]?.targetName
+  if (!name) throw new WorldHistoryError(`No ${kind} with that id in this campaign`)
+
+  const entries = buildEntityTimeline(
+    kind,
+    id,
+    (events as HistoryEvent[]).reverse(),
+    frames.map((f) => ({ turnNumber: f.turnNumber, owners: f.owners as unknown as FrameOwners })),
+    names
+  )
+  return { kind, id, name, entries: entries.slice(-MAX_TIMELINE_ENTRIES) }
+}
@@ -0,0 +1,356 @@
+// src/lib/game/worldHistory/pointInTime.ts
+// "The world as of turn N": faction stats, location condition and owners,
+// NPC whereabouts at any past simulation turn, rebuilt from the periodic
+// snapshots (snapshots.ts) plus the event log, and the diff and per-entity
+// timelines the admin history views draw from them.
+//
+// Pure — loadWorldHistory.ts reads the rows, this decides what they mean.
+//
+// A turn is rebuilt from the nearest snapshot AT OR BEFORE it, with the
+// log's changes in between replayed forward (each event's newValue). A
+// turn older than every snapshot — a campaign that predates them, or a
+// turn retention thinned away — falls back to walking back from the
+// nearest snapshot AFTER it, or from the live world: the value at the turn
+// is the previousValue of the first change after it, forkRewind.ts's rule
+// and for the same reason (taking the first rather than undoing in reverse
+// can't undo two same-turn changes in the wrong order).
+//
+// Replay is only as exact as the log. factionTick logs a stat when it
+// crosses a band, so a rebuilt turn between snapshots can be a few points
+// off a stat that drifted inside its band — which is what `fidelity` says,
+// and why snapshots exist at all. Borders don't come from events: the
+// atlas's TerritoryFrames already record every turn they moved.
+// A change the log can't apply (unparseable value, an entity the base
+// doesn't have) is counted in `unapplied`, never guessed.
+
+import { frameAtTurn, type FrameEntry, type FrameOwners, type TerritoryFrameView } from '../atlas/territoryFrames'
+import type { FactionState, LocationState, NpcState, WorldState } from './snapshots'
+
+export type EntityKind = 'faction' | 'location' | 'npc'
+
+export const ENTITY_KINDS: readonly EntityKind[] = ['faction', 'location', 'npc']
+
+/** The WorldEvent columns history reads. */
+export interface HistoryEvent {
+  turnNumber: number
+  targetType: string
+  targetId: string
+  targetName: string
+  field: string
+  previousValue: string | null
+  newValue: string | null
+  reason: string
+}
+
+/**
+ * How a rebuilt turn was reached:
+ *   - live: the campaign as it stands now (the turn asked for is the current one)
+ *   - snapshot: a snapshot taken on exactly that turn
+ *   - replayed: an earlier snapshot with the turns between replayed forward
+ *   - rewound: walked back from a later snapshot or the live world
+ */
+export type RebuildFidelity = 'live' | 'snapshot' | 'replayed' | 'rewound'
+
+export interface RebuildPlan {
+  turnNumber: number
+  fidelity: RebuildFidelity
+  /** The snapshot turn to start from; the current turn when starting from live. */
+  baseTurn: number
+  /** Events with eventsAfter < turnNumber <= eventsThrough are the ones to read. */
+  eventsAfter: number
+  eventsThrough: number
+}
+
+export interface WorldAtTurn {
+  turnNumber: number
+  fidelity: RebuildFidelity
+  baseTurn: number
+  state: WorldState
+  /** Borders at the turn. Null before the atlas's first frame. */
+  owners: FrameOwners | null
+  /** Changes in range the log couldn't apply, by `targetType.field`. */
+  unapplied: Record<string, number>
+}
+
+export interface FieldChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+export interface EntityDiff {
+  kind: EntityKind
+  id: string
+  name: string
+  /** 'appeared'/'gone' when the entity exists on only one side. */
+  status: 'changed' | 'appeared' | 'gone'
+  changes: FieldChange[]
+}
+
+export interface TimelineEntry {
+  turnNumber: number
+  field: string
+  from: string | null
+  to: string | null
+  reason: string
+  /** 'event' from the WorldEvent log; 'borders' from the atlas's frames. */
+  source: 'event' | 'borders'
+}
+
+type Parsed = { value: unknown } | undefined
+type Tracked = { kind: EntityKind; field: string; parse: (logged: string | null) => Parsed }
+
+function parseInt10(logged: string | null): Parsed {
+  if (logged === null || logged.trim() === '') return undefined
+  const value = Number(logged)
+  return Number.isInteger(value) ? { value } : undefined
+}
+
+function parseText(logged: string | null): Parsed {
+  return logged === null || logged === 'null' || logged === 'undefined' ? undefined : { value: logged }
+}
+
+/**
+ * `targetType.field` → the state field it moves. Only what the snapshots
+ * carry: a change to anything else isn't "unapplied", it's just not part
+ * of the tracked state.
+ */
+const TRACKED_EVENTS: Record<string, Tracked> = {
+  'FACTION.resources': { kind: 'faction', field: 'resources', parse: parseInt10 },
+  'FACTION.military': { kind: 'faction', field: 'military', parse: parseInt10 },
+  'FACTION.stability': { kind: 'faction', field: 'stability', parse: parseInt10 },
+  'FACTION.influence': { kind: 'faction', field: 'influence', parse: parseInt10 },
+  'FACTION.goal': { kind: 'faction', field: 'goal', parse: parseText },
+  // factionTick logs a collapse as 'active' → 'absorbed' | 'succeeded'.
+  'FACTION.collapsed': {
+    kind: 'faction',
+    field: 'isActive',
+    parse: (logged) => (logged === null ? undefined : { value: logged === 'active' }),
+  },
+  'LOCATION_CONDITION.conditionScore': { kind: 'location', field: 'conditionScore', parse: parseInt10 },
+  'LOCATION_POPULATION.population': { kind: 'location', field: 'population', parse: parseInt10 },
+  'LOCATION_WEATHER.weather': { kind: 'location', field: 'weather', parse: parseText },
+  // npcTick logs an NPC with no recorded place as '(unknown)'.
+  'NPC.currentLocation': {
+    kind: 'npc',
+    field: 'currentLocation',
+    parse: (logged) => (logged === '(unknown)' ? { value: null } : parseText(logged)),
+  },
+  // The integrity engine's canon repair logs 'alive' → 'dead'.
+  'NPC.isAlive': {
+    kind: 'npc',
+    field: 'isAlive',
+    parse: (logged) =>
+      logged === 'alive' || logged === 'true' ? { value: true } : logged === 'dead' || logged === 'false' ? { value: false } : undefined,
+  },
+}
+
+/** Which WorldEvent target types belong to an entity kind. */
+export const TARGET_TYPES: Record<EntityKind, string[]> = {
+  faction: ['FACTION'],
+  location: ['LOCATION', 'LOCATION_CONDITION', 'LOCATION_POPULATION', 'LOCATION_WEATHER'],
+  npc: ['NPC'],
+}
+
+const STATE_KEY: Record<EntityKind, keyof WorldState> = { faction: 'factions', location: 'locations', npc: 'npcs' }
+
+/**
+ * Where to rebuild `turnNumber` from, given the turns that have snapshots
+ * and the current turn. The loader reads exactly the base and the event
+ * range this names.
+ */
+export function planRebuild(turnNumber: number, snapshotTurns: number[], currentTurn: number): RebuildPlan {
+  if (turnNumber === currentTurn) {
+    return { turnNumber, fidelity: 'live', baseTurn: currentTurn, eventsAfter: turnNumber, eventsThrough: turnNumber }
+  }
+  const before = Math.max(-1, ...snapshotTurns.filter((t) => t <= turnNumber))
+  if (before === turnNumber) {
+    return { turnNumber, fidelity: 'snapshot', baseTurn: before, eventsAfter: turnNumber, eventsThrough: turnNumber }
+  }
+  if (before >= 0) {
+    return { turnNumber, fidelity: 'replayed', baseTurn: before, eventsAfter: before, eventsThrough: turnNumber }
+  }
+  const later = snapshotTurns.filter((t) => t > turnNumber && t <= currentTurn)
+  const baseTurn = later.length > 0 ? Math.min(...later) : currentTurn
+  return { turnNumber, fidelity: 'rewound', baseTurn, eventsAfter: turnNumber, eventsThrough: baseTurn }
+}
+
+function cloneState(state: WorldState): WorldState {
+  return {
+    factions: Object.fromEntries(Object.entries(state.factions).map(([id, f]) => [id, { ...f }])),
+    locations: Object.fromEntries(Object.entries(state.locations).map(([id, l]) => [id, { ...l }])),
+    npcs: Object.fromEntries(Object.entries(state.npcs).map(([id, n]) => [id, { ...n }])),
+  }
+}
+
+/**
+ * Rebuild the world at `plan.turnNumber` from its base state and the
+ * events in the plan's range, oldest first. `frames` are the atlas's
+ * border frames; the latest at or before the turn gives its owners.
+ */
+export function rebuildWorld(
+  plan: RebuildPlan,
+  base: WorldState,
+  events: HistoryEvent[],
+  frames: TerritoryFrameView[]
+): WorldAtTurn {
+  const state = cloneState(base)
+  const unapplied: Record<string, number> = {}
+  const inRange = events.filter((e) => e.turnNumber > plan.eventsAfter && e.turnNumber <= plan.eventsThrough)
+
+  const apply = (event: HistoryEvent, logged: string | null) => {
+    const tracked = TRACKED_EVENTS[`${event.targetType}.${event.field}`]
+    if (!tracked) return
+    const entity = state[STATE_KEY[tracked.kind]][event.targetId] as unknown as Record<string, unknown> | undefined
+    const parsed = tracked.parse(logged)
+    if (!entity || !parsed) {
+      const key = `${event.targetType}.${event.field}`
+      unapplied[key] = (unapplied[key] ?? 0) + 1
+      return
+    }
+    entity[tracked.field] = parsed.value
+  }
+
+  if (plan.fidelity === 'replayed') {
+    for (const event of inRange) apply(event, event.newValue)
+  } else if (plan.fidelity === 'rewound') {
+    const seen = new Set<string>()
+    for (const event of inRange) {
+      const key = `${event.targetType}|${event.targetId}|${event.field}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      apply(event, event.previousValue)
+    }
+  }
+
+  return {
+    turnNumber: plan.turnNumber,
+    fidelity: plan.fidelity,
+    baseTurn: plan.baseTurn,
+    state,
+    owners: frameAtTurn(frames, plan.turnNumber)?.owners ?? null,
+    unapplied,
+  }
+}
+
+function fieldChanges(from: Record<string, unknown>, to: Record<string, unknown>): FieldChange[] {
+  return Object.keys(to)
+    .filter((field) => field !== 'name' && from[field] !== to[field])
+    .map((field) => ({ field, from: from[field], to: to[field] }))
+}
+
+/**
+ * What changed between two rebuilt turns, entity by entity. Locations
+ * carry their owner (by name) and contested flag from the borders when
+ * both sides have them; an entity on only one side is 'appeared' or
+ * 'gone'.
+ */
+export function diffWorlds(from: WorldAtTurn, to: WorldAtTurn): EntityDiff[] {
+  // Owners by name, from the faction as that side knew it: an id means
+  // nothing on screen, and a faction renamed since is still what it was.
+  const withBorders = (world: WorldAtTurn, id: string, location: LocationState) => {
+    const border: FrameEntry | undefined = world.owners?.[id]
+    if (!border) return location
+    const owner = border.ownerFactionId === null ? 'nobody' : world.state.factions[border.ownerFactionId]?.name ?? 'a faction no longer on record'
+    return { ...location, owner, isContested: border.isContested }
+  }
+  const bordersOnBothSides = from.owners !== null && to.owners !== null
+
+  const diffs: EntityDiff[] = []
+  for (const kind of ENTITY_KINDS) {
+    const before = from.state[STATE_KEY[kind]] as Record<string, FactionState | LocationState | NpcState>
+    const after = to.state[STATE_KEY[kind]] as Record<string, FactionState | LocationState | NpcState>
+    for (const id of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const a = before[id]
+      const b = after[id]
+      if (!a || !b) {
+        diffs.push({ kind, id, name: (a ?? b).name, status: a ? 'gone' : 'appeared', changes: [] })
+        continue
+      }
+      const [left, right] = kind === 'location' && bordersOnBothSides
+        ? [withBorders(from, id, a as LocationState), withBorders(to, id, b as LocationState)]
+        : [a, b]
+      const changes = fieldChanges(left as unknown as Record<string, unknown>, right as unknown as Record<string, unknown>)
+      if (changes.length > 0) diffs.push({ kind, id, name: b.name, status: 'changed', changes })
+    }
+  }
+  return diffs
+}
+
+/**
+ * One entity's history, oldest first: its logged changes, plus — since
+ * borders aren't events — every turn the atlas's frames show it changing
+ * hands. A location's own owner and contested flag; for a faction, the
+ * places it gained and lost. `names` resolves the ids frames hold.
+ */
+export function buildEntityTimeline(
+  kind: EntityKind,
+  id: string,
+  events: HistoryEvent[],
+  frames: TerritoryFrameView[],
+  names: { factions: Record<string, string>; locations: Record<string, string> }
+): TimelineEntry[] {
+  const entries: TimelineEntry[] = events
+    .filter((e) => e.targetId === id && TARGET_TYPES[kind].includes(e.targetType))
+    .map((e) => ({
+      turnNumber: e.turnNumber,
+      field: e.field,
+      from: e.previousValue,
+      to: e.newValue,
+      reason: e.reason,
+      source: 'event' as const,
+    }))
+
+  const factionName = (factionId: string | null) =>
+    factionId === null ? 'nobody' : names.factions[factionId] ?? 'a faction no longer on record'
+  const ordered = [...frames].sort((a, b) => a.turnNumber - b.turnNumber)
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1].owners
+    const { turnNumber, owners } = ordered[i]
+
+    if (kind === 'location') {
+      const before = previous[id]
+      const after = owners[id]
+      if (!before || !after) continue
+      if (before.ownerFactionId !== after.ownerFactionId) {
+        entries.push({
+          turnNumber,
+          field: 'owner',
+          from: factionName(before.ownerFactionId),
+          to: factionName(after.ownerFactionId),
+          reason: `Changed hands from ${factionName(before.ownerFactionId)} to ${factionName(after.ownerFactionId)}`,
+          source: 'borders',
+        })
+      }
+      if (before.isContested !== after.isContested) {
+        entries.push({
+          turnNumber,
+          field: 'contested',
+          from: String(before.isContested),
+          to: String(after.isContested),
+          reason: after.isContested ? 'Became contested' : 'No longer contested',
+          source: 'borders',
+        })
+      }
+    } else if (kind === 'faction') {
+      for (const [locationId, after] of Object.entries(owners)) {
+        const held = previous[locationId]?.ownerFactionId === id
+        const holds = after.ownerFactionId === id
+        if (held === holds) continue
+        const place = names.locations[locationId] ?? 'a place no longer on record'
+        entries.push({
+          turnNumber,
+          field: holds ? 'gained' : 'lost',
+          from: holds ? factionName(previous[locationId]?.ownerFactionId ?? null) : place,
+          to: holds ? place : factionName(after.ownerFactionId),
+          reason: holds ? `Took ${place}` : `Lost ${place} to ${factionName(after.ownerFactionId)}`,
+          source: 'borders',
+        })
+      }
+    }
+  }
+
+  // Stable: within a turn, logged changes keep their log order ahead of
+  // the border change the turn's frame recorded at its end.
+  return entries.sort((a, b) => a.turnNumber - b.turnNumber)
+}
@@ -0,0 +1,126 @@
+// src/lib/game/worldHistory/snapshots.ts
+// Periodic snapshots of the world's tracked state — see WorldSnapshot in
+// schema.prisma for why the event log alone can't say what a faction's
+// stats were at a past turn.
+//
+// Recorded at the END of the world tick, inside its transaction, right
+// after the atlas's border frame (worldTick.ts) and for the same reason: a
+// snapshot is exactly the world that turn committed, and a tick that rolls
+// back leaves none behind.
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+
+type Db = Prisma.TransactionClient | PrismaClient
+
+/**
+ * A snapshot every five world turns. Between two snapshots the state is
+ * rebuilt by replaying at most four turns of events over the earlier one
+ * (pointInTime.ts), which keeps the part that can drift — band-only stat
+ * logging — to a few turns at most, at a fifth of the rows a per-turn
+ * snapshot would cost.
+ */
+export const SNAPSHOT_INTERVAL = 5
+
+/**
+ * Beyond the event-retention window (retention.ts) there are no events left
+ * to replay between snapshots, so a snapshot there only answers its own
+ * turn. Retention thins those down to one per this many turns: enough to
+ * see a year-old campaign's long arc, not a row per five turns forever.
+ */
+export const ARCHIVE_SNAPSHOT_INTERVAL = 50
+
+export interface FactionState {
+  name: string
+  isActive: boolean
+  goal: string
+  resources: number
+  military: number
+  stability: number
+  influence: number
+}
+
+export interface LocationState {
+  name: string
+  conditionScore: number
+  population: number | null
+  weather: string
+}
+
+export interface NpcState {
+  name: string
+  isAlive: boolean
+  /** The location's name, as NPC.currentLocation and its events hold it. */
+  currentLocation: string | null
+}
+
+/** Each keyed by entity id. */
+export interface WorldState {
+  factions: Record<string, FactionState>
+  locations: Record<string, LocationState>
+  npcs: Record<string, NpcState>
+}
+
+export interface WorldSnapshotView extends WorldState {
+  turnNumber: number
+}
+
+/** Whether `turnNumber` is a turn the tick snapshots on. */
+export function isSnapshotTurn(turnNumber: number): boolean {
+  return turnNumber > 0 && turnNumber % SNAPSHOT_INTERVAL === 0
+}
+
+/** The campaign's tracked state as it stands right now. */
+export async function readWorldState(db: Db, campaignId: string): Promise<WorldState> {
+  const [factions, locations, npcs] = await Promise.all([
+    db.faction.findMany({
+      where: { campaignId },
+      select: {
+        id: true,
+        name: true,
+        isActive: true,
+        goal: true,
+        resources: true,
+        military: true,
+        stability: true,
+        influence: true,
+      },
+    }),
+    db.location.findMany({
+      where: { campaignId },
+      select: { id: true, name: true, conditionScore: true, population: true, weather: true },
+    }),
+    db.nPC.findMany({
+      where: { campaignId },
+      select: { id: true, name: true, isAlive: true, currentLocation: true },
+    }),
+  ])
+
+  const state: WorldState = { factions: {}, locations: {}, npcs: {} }
+  for (const { id, ...faction } of factions) state.factions[id] = faction
+  for (const { id, ...location } of locations) state.locations[id] = location
+  for (const { id, ...npc } of npcs) state.npcs[id] = npc
+  return state
+}
+
+/**
+ * Snapshot the world if this is a snapshot turn. Runs inside the tick
+ * transaction, so like recordTerritoryFrame it isn't best-effort: a failed
+ * query has already aborted the transaction.
+ *
+ * Upserts on (campaignId, turnNumber) so a turn recorded twice overwrites
+ * rather than violating the unique index.
+ */
+export async function recordWorldSnapshot(db: Db, campaignId: string, turnNumber: number): Promise<boolean> {
+  if (!isSnapshotTurn(turnNumber)) return false
+
+  const state = await readWorldState(db, campaignId)
+  const factions = state.factions as unknown as Prisma.InputJsonValue
+  const locations = state.locations as unknown as Prisma.InputJsonValue
+  const npcs = state.npcs as unknown as Prisma.InputJsonValue
+  await db.worldSnapshot.upsert({
+    where: { campaignId_turnNumber: { campaignId, turnNumber } },
+    create: { campaignId, turnNumber, factions, locations, npcs },
+    update: { factions, locations, npcs },
+  })
+  return true
+}
@@ -12,6 +12,7 @@
 import type { WorldStateChange } from '@/components/scene/AITransparencyPanel'
 import type { AdherenceResult } from './outcomeAdherence'
 import type { MoveVarietyResult } from './moveVariety'
+import type { RetrievalTrace } from '@/lib/ai/hybridRetrieval'
 
 /**
  * Pull the world-state changes out of a scene's `consequences` blob.
@@ -50,3 +51,27 @@ export function extractMoveVariety(consequences: unknown): MoveVarietyResult | n
   if (!moveVariety || !Array.isArray(moveVariety.entries)) return null
   return moveVariety as MoveVarietyResult
 }
+
+/**
+ * Pull the retrieval trace out of the same blob — which memories and lore
+ * entries reached the prompt, and how the hybrid search ranked each one.
+ * Same tolerate-anything-malformed shape as the extractors above.
+ */
+export function extractRetrievalTrace(consequences: unknown): RetrievalTrace | null {
+  const retrieval = (consequences as any)?.retrieval
+  if (!retrieval || !Array.isArray(retrieval.memories) || !Array.isArray(retrieval.lore)) return null
+  return retrieval as RetrievalTrace
+}
+
+/**
+ * The same blob minus the retrieval trace, for members without the GM view
+ * ('world.gmView'). The trace names imported lore entries — a setting
+ * bible's chapter titles can be spoilers on their own — so the scene
+ * routes strip it rather than trusting the page not to render it.
+ */
+export function withoutRetrievalTrace<T>(consequences: T): T {
+  if (!consequences || typeof consequences !== 'object' || !('retrieval' in consequences)) return consequences
+  const rest = { ...(consequences as Record<string, unknown>) }
+  delete rest.retrieval
+  return rest as T
+}
@@ -34,9 +34,11 @@ import { tickNpcDisposition } from './tick/npcDispositionTick'
 import { tickFactions } from './tick/factionTick'
 import { tickFactionLeadership } from './tick/leadershipTick'
 import { tickWars } from './tick/warTick'
+import { tickDiplomacy } from './tick/diplomacyTick'
 import { tickTerritoryLoyalty } from './tick/territoryLoyaltyTick'
 import { tickLocationCondition } from './tick/locationConditionTick'
 import { tickLogistics } from './tick/logisticsTick'
+import { tickHazards } from './tick/hazardTick'
 import { tickFactionAmbitions } from './tick/ambitionTick'
 import { tickNpcs, MAJOR_IMPORTANCE_THRESHOLD } from './tick/npcTick'
 import { tickMigration } from './tick/migrationTick'
@@ -48,7 +50,9 @@ import { tickIntegrity } from './tick/integrityTick'
 import { logSignificantChanges } from './tick/historyLog'
 import { syncWikiEntriesForChanges } from './tick/wikiSync'
 import { persistWorldEvents } from './tick/worldEventLog'
-import { TickContext, TickHandler, WorldChange, WorldTickResult, PendingAmbition } from './tick/types'
+import { recordTerritoryFrame } from './atlas/territoryFrames'
+import { recordWorldSnapshot } from './worldHistory/snapshots'
+import { TickContext, TickHandler, WorldChange, WorldTickResult, PendingAmbition, HandlerTiming } from './tick/types'
 import { resolveTickCaps, DEFAULT_FACTION_CAP, DEFAULT_NPC_CAP, type TickCapReport } from './tick/caps'
 import { resolveTickRoster, markRosterTicked } from './tick/capOrdering'
 import { deriveSeason, GeneratedCalendar } from './calendar'
@@ -99,6 +103,16 @@ import type { SimTurn } from './turnClock'
 // commits to an unrelated ambition the same tick it goes to war. (Ordering
 // alone wouldn't guarantee that; the actual guard lives in ambitionTick.)
 //
+// tickDiplomacy runs right after tickWars: it reads this turn's
+// post-attrition momentum and stats to decide who sues for peace, skips
+// any war tickWars already resolved this turn, and a war it ends at the
+// table lifts its siege (and, under vassalage, hands over the prize)
+// before tickTerritoryLoyalty, tickLocationCondition and tickLogistics read
+// the contested location — the same same-pass freshness those three get
+// from running after tickWars. It runs before tickFactionAmbitions, whose
+// treaty gate then sees a vassalage signed this very turn. See
+// diplomacyTick.ts.
+//
 // tickNpcSocialTies runs right after tickNpcs and reads faction
 // affiliation/relationships as of this same turn (no lag needed — unlike
 // the faction pair above, NPC ties simply derive from faction state, they
@@ -133,6 +147,15 @@ import type { SimTurn } from './turnClock'
 // resource gain this turn is visible to ambition commitment's resource
 // threshold the same turn it lands, not one turn late.
 //
+// tickHazards runs right after tickLogistics: plague and famine travel the
+// supply routes, so they spread along the roads as tickLogistics just left
+// them — a route derived or a blockade lifted this turn carries sickness
+// this turn. It runs after tickLocationCondition so a stricken place takes
+// both the turn's drift and the hazard's damage (the drift's recovery never
+// cancels a plague that started after it), and before tickNpcs and
+// tickMigration so this turn's refugees flee this turn's disaster. See
+// hazardTick.ts.
+//
 // tickMigration runs right after tickNpcs on purpose (#110): it reads each
 // NPC's post-commute currentLocation/locationId for this same turn (an NPC
 // tickNpcs just moved OUT of a distressed location this tick is correctly
@@ -175,9 +198,9 @@ import type { SimTurn } from './turnClock'
 // other handler above just produced (see game/integrity/ — the structural
 // tier of the Integrity Engine), so it needs to see this turn's writes, not
 // last turn's. See its own file for what it does and doesn't repair.
-const TICK_HANDLERS: TickHandler[] = [tickWeather, tickSeasonalPressure, tickFactionRelationships, tickBeliefDrift, tickNpcDisposition, tickFactions, tickFactionLeadership, tickWars, tickTerritoryLoyalty, tickLocationCondition, tickLogistics, tickFactionAmbitions, tickNpcs, tickMigration, tickInformation, tickNpcSocialTies, tickNpcJointSchemes, tickWake, tickEconomy, tickIntegrity]
+const TICK_HANDLERS: TickHandler[] = [tickWeather, tickSeasonalPressure, tickFactionRelationships, tickBeliefDrift, tickNpcDisposition, tickFactions, tickFactionLeadership, tickWars, tickDiplomacy, tickTerritoryLoyalty, tickLocationCondition, tickLogistics, tickHazards, tickFactionAmbitions, tickNpcs, tickMigration, tickInformation, tickNpcSocialTies, tickNpcJointSchemes, tickWake, tickEconomy, tickIntegrity]
 
-// Prisma's interactive-transaction default is 5s; this tick runs 20
+// Prisma's interactive-transaction default is 5s; this tick runs 22
 // handlers' worth of queries against real (if capped-at-10/20) rosters, well
 // past what that default budgets for. 20s leaves real headroom under the
 // cron sweep's per-invocation budget while still failing fast if a handler
@@ -237,9 +260,17 @@ export async function runWorldTick(
   // which is what every tick handler's elapsed-time arithmetic used to read
   // before #374 split the two clocks apart.
   turnNumber: SimTurn,
-  options: { dryRun?: boolean } = {}
+  // offline: a real, committed tick that skips logSignificantChanges — the
+  // one consumer below that reaches outside the database (a paid embedding
+  // per significant change). For the headless simulation runner
+  // (game/simulation/), which ticks a sandbox copy dozens of turns in a
+  // row. World events and wiki sync still run: tickInformation reads the
+  // prior turn's WorldEvent rows, so skipping them would simulate a
+  // different world than the one players get.
+  options: { dryRun?: boolean; offline?: boolean } = {}
 ): Promise<WorldTickResult> {
   const dryRun = options.dryRun ?? false
+  const offline = options.offline ?? false
   const worldMeta = await prisma.worldMeta.findUnique({
     where: { campaignId },
     select: {
@@ -294,6 +325,7 @@ export async function runWorldTick(
 
   const changes: WorldChange[] = []
   const pendingAmbitions: PendingAmbition[] = []
+  const handlerTimings: HandlerTiming[] = []
 
   const runHandlers = async (db: TickContext['db']) => {
     const ctx: TickContext = {
@@ -315,7 +347,9 @@ export async function runWorldTick(
       season,
     }
     for (const handler of TICK_HANDLERS) {
+      const startedAt = performance.now()
       const result = await handler(ctx)
+      handlerTimings.push({ handler: handler.name, ms: performance.now() - startedAt })
       changes.push(...result.changes)
       if (result.pendingAmbitions) pendingAmbitions.push(...result.pendingAmbitions)
     }
@@ -331,6 +365,15 @@ export async function runWorldTick(
     if (!dryRun) {
       await markRosterTicked(db as Prisma.TransactionClient, roster, tickStartedAt)
 
+      // The world atlas's border history, read after every handler has
+      // had its say over who holds what this turn — see atlas/
+      // territoryFrames.ts. Inside the transaction for the same reason as
+      // the turn counter below: a turn that rolled back drew no borders.
+      await recordTerritoryFrame(db, campaignId, turnNumber)
+      // Every SNAPSHOT_INTERVAL turns, the state point-in-time queries
+      // rebuild past turns from — see worldHistory/snapshots.ts.
+      await recordWorldSnapshot(db, campaignId, turnNumber)
+
       // #410: record what this tick could NOT simulate, alongside the
       // turn it did. A cap that silently drops entities is a simulation
       // that silently stops happening for them — see TickCapReport.
@@ -386,6 +429,7 @@ export async function runWorldTick(
       changes,
       historyEntriesCreated: 0,
       pendingAmbitions,
+      handlerTimings,
     }
   }
 
@@ -412,10 +456,12 @@ export async function runWorldTick(
   } catch (error) {
     console.error('⚠️ persistWorldEvents threw unexpectedly (non-critical, continuing):', error)
   }
-  try {
-    historyEntriesCreated = await logSignificantChanges(campaignId, turnNumber, changes)
-  } catch (error) {
-    console.error('⚠️ logSignificantChanges threw unexpectedly (non-critical, continuing):', error)
+  if (!offline) {
+    try {
+      historyEntriesCreated = await logSignificantChanges(campaignId, turnNumber, changes)
+    } catch (error) {
+      console.error('⚠️ logSignificantChanges threw unexpectedly (non-critical, continuing):', error)
+    }
   }
   try {
     await syncWikiEntriesForChanges(campaignId, turnNumber, changes)
@@ -430,5 +476,6 @@ export async function runWorldTick(
     changes,
     historyEntriesCreated,
     pendingAmbitions,
+    handlerTimings,
   }
 }
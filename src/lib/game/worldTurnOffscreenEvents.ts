@@ -62,49 +62,7 @@ export async function generateOffscreenEvents(
       recentAmbitionNames
     )
 
-    // Turn each pending ambition into a real Clock — the tick already decided
-    // WHETHER; this resolves WHAT using the AI's pick if it gave one and is
-    // actually one of the bounded options for that faction's archetype+goal,
-    // otherwise the deterministic fallback so the ambition never silently
-    // disappears. `category` on the Clock stays the MECHANICAL pacing value
-    // from the tick (drives advanceClocks' tick speed) — the flavor
-    // pick/fallback is narrative only and goes in gmNotes instead, so a
-    // "black-market venture" flavor can never be mistaken for a pacing tag.
-    for (const pending of pendingAmbitions) {
-      const validOptions = AMBITION_CATEGORY_OPTIONS[pending.archetype as keyof typeof AMBITION_CATEGORY_OPTIONS]?.[pending.goal as 'ENRICH' | 'EXPAND' | 'DESTABILIZE_RIVAL'] || []
-      const pick = aiResult.ambition_picks?.find((p) => p.faction_id === pending.factionId)
-      const useAiPick = !!pick && validOptions.includes(pick.category)
-
-      const name = useAiPick ? pick!.name : pending.fallbackName
-      const description = useAiPick ? (pick!.description || pending.fallbackConsequence) : pending.fallbackConsequence
-      const flavor = useAiPick ? pick!.category : pending.fallbackFlavor
-
-      await prisma.clock.create({
-        data: {
-          campaignId,
-          name,
-          description,
-          category: pending.category,
-          maxTicks: pending.maxTicks,
-          currentTicks: 0,
-          consequence: pending.fallbackConsequence,
-          gmNotes: pending.targetFactionName ? `Ambition type: ${flavor} (targeting ${pending.targetFactionName})` : `Ambition type: ${flavor}`,
-          sourceFactionId: pending.factionId,
-          targetFactionId: pending.targetFactionId,
-          // #227: snapshot the goal this ambition is actually pursuing, so
-          // a same-tick belief-drift change to Faction.goal later can't
-          // change how this clock resolves — see Clock.goal's schema doc.
-          // pending.goal is always sourced from a real Faction.goal value
-          // (see tickFactionAmbitions in ambitionTick.ts) — this cast just
-          // recovers the enum type PendingAmbition's plain-string field
-          // (kept generic to avoid importing @prisma/client into tick/
-          // types.ts) erased.
-          goal: pending.goal as FactionGoal,
-        },
-      })
-
-      console.log(`  🎯 ${pending.factionName} committed to: ${name} [${flavor}]${pending.targetFactionName ? ` targeting ${pending.targetFactionName}` : ''}${useAiPick ? '' : ' (fallback)'}`)
-    }
+    await commitPendingAmbitions(campaignId, pendingAmbitions, aiResult.ambition_picks)
 
     // Create timeline events for each offscreen event
     const createdEvents: { id: string; title: string; summary_gm: string }[] = []
@@ -243,3 +201,58 @@ export async function generateOffscreenEvents(
     // Don't throw - world turn can continue without AI-generated events
   }
 }
+
+/**
+ * Turn each pending ambition into a real Clock. `picks` is the AI's flavor
+ * for them, when there was an AI call to ask — the headless simulation
+ * runner (game/simulation/) has none, and gets the same deterministic
+ * fallback an AI that skipped a faction does.
+ */
+export async function commitPendingAmbitions(
+  campaignId: string,
+  pendingAmbitions: PendingAmbition[],
+  picks?: Array<{ faction_id: string; category: string; name: string; description?: string }>
+) {
+  // The tick already decided WHETHER; this resolves WHAT using the AI's
+  // pick if it gave one and is actually one of the bounded options for that
+  // faction's archetype+goal, otherwise the deterministic fallback so the
+  // ambition never silently disappears. `category` on the Clock stays the MECHANICAL pacing value
+  // from the tick (drives advanceClocks' tick speed) — the flavor
+  // pick/fallback is narrative only and goes in gmNotes instead, so a
+  // "black-market venture" flavor can never be mistaken for a pacing tag.
+  for (const pending of pendingAmbitions) {
+    const validOptions = AMBITION_CATEGORY_OPTIONS[pending.archetype as keyof typeof AMBITION_CATEGORY_OPTIONS]?.[pending.goal as 'ENRICH' | 'EXPAND' | 'DESTABILIZE_RIVAL'] || []
+    const pick = picks?.find((p) => p.faction_id === pending.factionId)
+    const useAiPick = !!pick && validOptions.includes(pick.category)
+
+    const name = useAiPick ? pick!.name : pending.fallbackName
+    const description = useAiPick ? (pick!.description || pending.fallbackConsequence) : pending.fallbackConsequence
+    const flavor = useAiPick ? pick!.category : pending.fallbackFlavor
+
+    await prisma.clock.create({
+      data: {
+        campaignId,
+        name,
+        description,
+        category: pending.category,
+        maxTicks: pending.maxTicks,
+        currentTicks: 0,
+        consequence: pending.fallbackConsequence,
+        gmNotes: pending.targetFactionName ? `Ambition type: ${flavor} (targeting ${pending.targetFactionName})` : `Ambition type: ${flavor}`,
+        sourceFactionId: pending.factionId,
+        targetFactionId: pending.targetFactionId,
+        // #227: snapshot the goal this ambition is actually pursuing, so
+        // a same-tick belief-drift change to Faction.goal later can't
+        // change how this clock resolves — see Clock.goal's schema doc.
+        // pending.goal is always sourced from a real Faction.goal value
+        // (see tickFactionAmbitions in ambitionTick.ts) — this cast just
+        // recovers the enum type PendingAmbition's plain-string field
+        // (kept generic to avoid importing @prisma/client into tick/
+        // types.ts) erased.
+        goal: pending.goal as FactionGoal,
+      },
+    })
+
+    console.log(`  🎯 ${pending.factionName} committed to: ${name} [${flavor}]${pending.targetFactionName ? ` targeting ${pending.targetFactionName}` : ''}${useAiPick ? '' : ' (fallback)'}`)
+  }
+}
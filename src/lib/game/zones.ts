@@ -30,9 +30,12 @@
 //
 // The grid (Map/Zone/Token) remains the literal positioning model for
 // battle maps; this is the abstract one that governs rolls. They answer
-// different questions and never need to reconcile — which is what #85
-// asked for, arrived at by making each one's job explicit rather than by
-// deleting one of them.
+// different questions — which is what #85 asked for, arrived at by making
+// each one's job explicit rather than by deleting one of them. The one
+// place they meet is a scene an admin has put in tactical mode: there the
+// grid distance to the target IS the band (lib/game/tactical/grid.ts), fed
+// in ahead of everything resolveZoneForScene would decide. Still one
+// position, still this modifier table.
 
 export type ZonePosition = 'close' | 'near' | 'far' | 'distant'
 
@@ -0,0 +1,55 @@
+// src/lib/lore/__tests__/documentExtractor.test.ts
+// Format detection trusts the bytes over the file name, and each section's
+// title and citation name where in the document it came from.
+
+import { describe, it, expect } from 'vitest'
+import { detectDocumentFormat, extractDocument } from '../documentExtractor'
+import { sectionCitation, sectionTitle } from '../documentSections'
+import { buildPdf, buildZip, textLine } from './documentFixtures'
+
+describe('detectDocumentFormat', () => {
+  it('reads the format from the bytes, whatever the file is called', () => {
+    expect(detectDocumentFormat(buildPdf([textLine('x', 700)]), 'bible.bin')).toBe('pdf')
+    expect(detectDocumentFormat(buildZip({ 'word/document.xml': '<w:document/>' }), 'bible.zip')).toBe('docx')
+    expect(detectDocumentFormat(buildZip({ mimetype: 'application/epub+zip' }, { stored: true }), 'book')).toBe('epub')
+    expect(detectDocumentFormat(buildZip({ 'Notes/Gods.md': '# Gods' }), 'vault.zip')).toBe('vault')
+  })
+
+  it('takes text only with a text extension and no binary content', () => {
+    expect(detectDocumentFormat(Buffer.from('# Magic'), 'notes.md')).toBe('markdown')
+    expect(detectDocumentFormat(Buffer.from('Plain.'), 'notes.TXT')).toBe('markdown')
+    expect(detectDocumentFormat(Buffer.from('Plain.'), 'notes.rtf')).toBeNull()
+    expect(detectDocumentFormat(Buffer.from([0x23, 0x00, 0x01]), 'notes.md')).toBeNull()
+    expect(detectDocumentFormat(buildZip({ 'photo.jpg': 'x' }), 'photos.zip')).toBeNull()
+  })
+})
+
+describe('extractDocument', () => {
+  it('dispatches to the matching extractor', () => {
+    expect(extractDocument(Buffer.from('# Magic\nRare.'), 'notes.md')).toEqual({
+      format: 'markdown',
+      title: null,
+      sections: [{ headings: ['Magic'], text: 'Rare.' }],
+    })
+  })
+
+  it('throws an admin-readable error for an unsupported file', () => {
+    expect(() => extractDocument(Buffer.from('{\\rtf1}'), 'notes.rtf')).toThrow('Unsupported file')
+  })
+})
+
+describe('section titles and citations', () => {
+  const url = 'https://blob/lore-uploads/c1/bible-x1.pdf'
+
+  it('points a PDF section at its page', () => {
+    const section = { headings: ['Magic', 'Essence'], page: 12, text: '' }
+    expect(sectionTitle('Setting Bible', section)).toBe('Setting Bible — Magic › Essence (p. 12)')
+    expect(sectionCitation(url, section)).toBe(`${url}#page=12`)
+  })
+
+  it('points other sections at their heading trail, and untitled text at the file', () => {
+    expect(sectionCitation(url, { headings: ['World/Gods', 'The Nine'], text: '' })).toBe(`${url}#World%2FGods%23The%20Nine`)
+    expect(sectionTitle('Notes', { headings: [], text: '' })).toBe('Notes')
+    expect(sectionCitation(url, { headings: [], text: '' })).toBe(url)
+  })
+})
@@ -0,0 +1,110 @@
+// src/lib/lore/__tests__/documentFixtures.ts
+// Builders for the binary formats the document extractors read, so tests
+// can exercise real ZIP and PDF bytes instead of mocking the parsers.
+
+import { deflateRawSync, deflateSync } from 'zlib'
+
+/**
+ * A ZIP archive of the given entries, deflated unless `stored` — the same
+ * layout Word and EPUB tooling write (local headers, central directory,
+ * end record).
+ */
+export function buildZip(entries: Record<string, string | Buffer>, { stored = false } = {}): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(entries)) {
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8')
+    const data = stored ? raw : deflateRawSync(raw)
+    const nameBytes = Buffer.from(name, 'utf8')
+    const method = stored ? 0 : 8
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += local.length + nameBytes.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(entries).length, 8)
+  end.writeUInt16LE(Object.keys(entries).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+export interface PdfFixtureOptions {
+  title?: string
+  /** Extra objects appended verbatim, numbered from 100 (e.g. a ToUnicode font). */
+  extraObjects?: string[]
+  /** Extra entries for the shared /Font resource dictionary. */
+  extraFonts?: string
+  encrypted?: boolean
+}
+
+/**
+ * A PDF with one page per content stream, each Flate-compressed, sharing
+ * one Helvetica font (/F1) through resources inherited from the page tree.
+ */
+export function buildPdf(pageContents: string[], options: PdfFixtureOptions = {}): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')]
+  const pageBase = 10
+  const kids = pageContents.map((_, i) => `${pageBase + i * 2} 0 R`).join(' ')
+
+  const object = (num: number, body: string) => parts.push(Buffer.from(`${num} 0 obj\n${body}\nendobj\n`, 'latin1'))
+  const stream = (num: number, content: string) => {
+    const data = deflateSync(Buffer.from(content, 'latin1'))
+    parts.push(
+      Buffer.from(`${num} 0 obj\n<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream\nendobj\n', 'latin1'),
+    )
+  }
+
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+  object(2, `<< /Type /Pages /Kids [${kids}] /Count ${pageContents.length} /Resources << /Font << /F1 3 0 R ${options.extraFonts ?? ''} >> >> >>`)
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  if (options.title) object(4, `<< /Title (${options.title}) /Producer (fixture) >>`)
+  pageContents.forEach((content, i) => {
+    object(pageBase + i * 2, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${pageBase + i * 2 + 1} 0 R >>`)
+    stream(pageBase + i * 2 + 1, content)
+  })
+  options.extraObjects?.forEach((body, i) => {
+    if (body.includes('stream\n')) {
+      const [dict, content] = body.split('stream\n')
+      const data = Buffer.from(content, 'latin1')
+      parts.push(Buffer.from(`${100 + i} 0 obj\n${dict.replace('/LENGTH', String(data.length))}stream\n`, 'latin1'), data, Buffer.from('\nendstream\nendobj\n', 'latin1'))
+    } else {
+      object(100 + i, body)
+    }
+  })
+
+  const trailer = [`/Root 1 0 R`, options.title ? '/Info 4 0 R' : '', options.encrypted ? '/Encrypt 99 0 R' : ''].join(' ')
+  parts.push(Buffer.from(`trailer\n<< ${trailer} >>\nstartxref\n0\n%%EOF\n`, 'latin1'))
+  return Buffer.concat(parts)
+}
+
+/** One line of text in a content stream: font, size, absolute position. */
+export function textLine(text: string, y: number, size = 11, font = 'F1'): string {
+  return `BT /${font} ${size} Tf 72 ${y} Td (${text}) Tj ET`
+}
@@ -0,0 +1,52 @@
+// src/lib/lore/__tests__/docxExtractor.test.ts
+import { describe, it, expect } from 'vitest'
+import { extractDocx } from '../docxExtractor'
+import { openZipArchive } from '../zipArchive'
+import { buildZip } from './documentFixtures'
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+
+function paragraph(text: string, style?: string): string {
+  const pPr = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''
+  return `<w:p>${pPr}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`
+}
+
+function docx(body: string, extra: Record<string, string> = {}) {
+  return openZipArchive(buildZip({
+    'word/document.xml': `<?xml version="1.0"?><w:document ${W}><w:body>${body}</w:body></w:document>`,
+    ...extra,
+  }))
+}
+
+describe('extractDocx', () => {
+  it('uses heading styles for the outline and the Title style for the title', () => {
+    const { title, sections } = extractDocx(docx([
+      paragraph('Setting Bible', 'Title'),
+      paragraph('Magic', 'Heading1'),
+      paragraph('Magic is rare &amp; costly.'),
+      paragraph('Essence', 'Heading2'),
+      paragraph('It flows from the Veil.'),
+    ].join('')))
+
+    expect(title).toBe('Setting Bible')
+    expect(sections).toEqual([
+      { headings: ['Magic'], text: 'Magic is rare & costly.' },
+      { headings: ['Magic', 'Essence'], text: 'It flows from the Veil.' },
+    ])
+  })
+
+  it('resolves localized heading style ids through styles.xml', () => {
+    const styles = `<w:styles ${W}><w:style w:type="paragraph" w:styleId="Überschrift1"><w:name w:val="heading 1"/></w:style></w:styles>`
+    const { sections } = extractDocx(docx(paragraph('Geschichte', 'Überschrift1') + paragraph('Alt.'), { 'word/styles.xml': styles }))
+    expect(sections).toEqual([{ headings: ['Geschichte'], text: 'Alt.' }])
+  })
+
+  it('prefers the document properties title', () => {
+    const core = '<cp:coreProperties xmlns:cp="x" xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>The Sundered Veil</dc:title></cp:coreProperties>'
+    expect(extractDocx(docx(paragraph('Body.'), { 'docProps/core.xml': core })).title).toBe('The Sundered Veil')
+  })
+
+  it('refuses a ZIP that is not a Word document', () => {
+    expect(() => extractDocx(openZipArchive(buildZip({ 'a.txt': 'x' })))).toThrow('Not a Word document')
+  })
+})
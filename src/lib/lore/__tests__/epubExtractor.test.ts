@@ -0,0 +1,49 @@
+// src/lib/lore/__tests__/epubExtractor.test.ts
+import { describe, it, expect, vi } from 'vitest'
+import { extractEpub } from '../epubExtractor'
+import { openZipArchive } from '../zipArchive'
+import { buildZip } from './documentFixtures'
+
+const chapter = (body: string) => `<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><body>${body}</body></html>`
+
+function epub(spine = '<itemref idref="c1"/><itemref idref="c2"/>') {
+  return openZipArchive(buildZip({
+    mimetype: 'application/epub+zip',
+    'META-INF/container.xml': '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+    'OEBPS/content.opf': [
+      '<package xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      '<metadata><dc:title>Chronicles of Ash</dc:title></metadata>',
+      '<manifest><item id="c2" href="text/ch%202.xhtml"/><item id="c1" href="text/ch1.xhtml"/></manifest>',
+      `<spine>${spine}</spine>`,
+      '</package>',
+    ].join(''),
+    'OEBPS/text/ch1.xhtml': chapter('<h1>Chapter One</h1><p>The keep burned.</p><ul><li><p>Ash</p></li></ul>'),
+    'OEBPS/text/ch 2.xhtml': chapter('<h1>Chapter Two</h1><h2>The Fen</h2><p>Mist rose.</p>'),
+  }))
+}
+
+describe('extractEpub', () => {
+  it('reads chapters in spine order with their headings, and the dc:title', () => {
+    const { title, sections } = extractEpub(epub())
+
+    expect(title).toBe('Chronicles of Ash')
+    expect(sections).toEqual([
+      { headings: ['Chapter One'], text: 'The keep burned.\n\nAsh' },
+      { headings: ['Chapter Two', 'The Fen'], text: 'Mist rose.' },
+    ])
+  })
+
+  it('reads a chapter the spine names again and again only once', () => {
+    const zip = epub('<itemref idref="c1"/><itemref idref="c1"/><itemref idref="c2"/><itemref idref="c1"/>')
+    const readText = vi.spyOn(zip, 'readText')
+
+    const { sections } = extractEpub(zip)
+
+    expect(readText.mock.calls.filter(([name]) => name === 'OEBPS/text/ch1.xhtml')).toHaveLength(1)
+    expect(sections.map((section) => section.headings[0])).toEqual(['Chapter One', 'Chapter Two'])
+  })
+
+  it('refuses an archive with no container', () => {
+    expect(() => extractEpub(openZipArchive(buildZip({ mimetype: 'application/epub+zip' })))).toThrow('Not an EPUB')
+  })
+})
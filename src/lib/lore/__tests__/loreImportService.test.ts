@@ -4,7 +4,18 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 vi.mock('@/lib/prisma', () => ({
   prisma: {
     loreImportJob: { update: vi.fn().mockResolvedValue(undefined) },
-    loreEntry: { findMany: vi.fn().mockResolvedValue([]) },
+    loreEntry: {
+      findMany: vi.fn().mockResolvedValue([]),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      count: vi.fn().mockResolvedValue(0),
+    },
+    loreWikiPage: {
+      findMany: vi.fn().mockResolvedValue([]),
+      upsert: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+      count: vi.fn().mockResolvedValue(0),
+    },
     // Real inserts return the affected-row count; default to "a new row
     // was actually inserted" so every existing test's stored-count math
     // stays correct without each one needing to know about this.
@@ -26,13 +37,18 @@ vi.mock('../mediaWikiClient', () => ({
   fetchCategoryMembers: vi.fn(),
   fetchExtracts: vi.fn(),
   fetchPageViaParse: vi.fn(),
+  fetchPageRevisions: vi.fn(),
+  listRecentChanges: vi.fn(),
   pageTitleFromUrl: vi.fn(),
 }))
 
 import { prisma } from '@/lib/prisma'
 import { embedBatchWithCostTracking, embedWithCostTracking } from '@/lib/ai/embeddingService'
-import { detectApiBase, listAllPages, rankPagesByLength, fetchCategoryMembers, fetchExtracts, fetchPageViaParse, pageTitleFromUrl } from '../mediaWikiClient'
-import { runLoreImport, WIKI_MAX_PAGES } from '../loreImportService'
+import {
+  detectApiBase, listAllPages, rankPagesByLength, fetchCategoryMembers, fetchExtracts, fetchPageViaParse,
+  fetchPageRevisions, listRecentChanges, pageTitleFromUrl,
+} from '../mediaWikiClient'
+import { runLoreImport, UPLOAD_MAX_CHUNKS, WIKI_MAX_PAGES } from '../loreImportService'
 
 function makeJob(overrides: Partial<any> = {}) {
   return {
@@ -63,6 +79,10 @@ describe('runLoreImport', () => {
     // Identity by default — most tests aren't exercising ranking itself,
     // just need the WIKI path to keep working with it in place.
     vi.mocked(rankPagesByLength).mockImplementation(async (_apiBase, candidates) => candidates)
+    // Every asked-for page exists at revision 100 unless a test says otherwise.
+    vi.mocked(fetchPageRevisions).mockImplementation(async (_apiBase, pageIds) =>
+      new Map(pageIds.map(id => [id, { title: `Page ${id}`, revisionId: 100 }]))
+    )
   })
   afterEach(() => {
     vi.unstubAllGlobals()
@@ -215,12 +235,12 @@ describe('runLoreImport', () => {
 
       expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
         where: { id: 'job-1' },
-        data: { pagesFound: 2, pagesAvailable: 2 },
+        data: expect.objectContaining({ pagesFound: 2, pagesAvailable: 2 }),
       })
       expect(prisma.$executeRaw).toHaveBeenCalledTimes(2)
       expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
         where: { id: 'job-1' },
-        data: { pagesDone: { increment: 2 }, entriesCreated: { increment: 2 } },
+        data: { crawlCursor: 2, pagesDone: 2, entriesCreated: { increment: 2 } },
       })
     })
 
@@ -280,7 +300,7 @@ describe('runLoreImport', () => {
       expect(rankPagesByLength).toHaveBeenCalledWith('https://example.com/api.php', candidates)
       expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
         where: { id: 'job-1' },
-        data: { pagesFound: 2, pagesAvailable: 2 },
+        data: expect.objectContaining({ pagesFound: 2, pagesAvailable: 2 }),
       })
     })
 
@@ -299,7 +319,7 @@ describe('runLoreImport', () => {
 
       expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
         where: { id: 'job-1' },
-        data: { pagesFound: WIKI_MAX_PAGES, pagesAvailable: WIKI_MAX_PAGES + 50 },
+        data: expect.objectContaining({ pagesFound: WIKI_MAX_PAGES, pagesAvailable: WIKI_MAX_PAGES + 50 }),
       })
     })
 
@@ -333,7 +353,7 @@ describe('runLoreImport', () => {
         expect(rankedCandidates.map((p: any) => p.title)).toEqual(['Essence Magic'])
         expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
           where: { id: 'job-1' },
-          data: { pagesFound: 1, pagesAvailable: 1 },
+          data: expect.objectContaining({ pagesFound: 1, pagesAvailable: 1 }),
         })
       })
 
@@ -383,6 +403,303 @@ describe('runLoreImport', () => {
         expect(prisma.$executeRaw).toHaveBeenCalledTimes(1)
       })
     })
+
+    describe('checkpointed crawl', () => {
+      it('freezes the ranked page list on the job and records each page\'s revision as it goes', async () => {
+        vi.mocked(detectApiBase).mockResolvedValue('https://example.com/api.php')
+        vi.mocked(listAllPages).mockResolvedValue([{ pageId: 7, title: 'Essence Magic' }])
+        vi.mocked(fetchExtracts).mockResolvedValue(new Map([['Essence Magic', 'Some lore.']]))
+
+        await runLoreImport(makeJob({ sourceType: 'WIKI', sourceUrl: 'https://example.com' }) as any)
+
+        expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
+          where: { id: 'job-1' },
+          data: expect.objectContaining({
+            crawlPlan: { plannedAt: expect.any(String), pages: [{ pageId: 7, title: 'Essence Magic' }] },
+            crawlCursor: 0,
+          }),
+        })
+        expect(prisma.loreWikiPage.upsert).toHaveBeenCalledWith({
+          where: { jobId_pageId: { jobId: 'job-1', pageId: 7 } },
+          create: { jobId: 'job-1', pageId: 7, title: 'Page 7', revisionId: 100 },
+          update: { title: 'Page 7', revisionId: 100 },
+        })
+        // The chunk is tagged with its page id (last value in the INSERT).
+        const insertArgs = vi.mocked(prisma.$executeRaw).mock.calls[0]
+        expect(insertArgs[insertArgs.length - 1]).toBe(7)
+        // Completion hands the source its sync baseline and drops the checkpoint.
+        expect(prisma.loreImportJob.update).toHaveBeenLastCalledWith({
+          where: { id: 'job-1' },
+          data: expect.objectContaining({ lastSyncedAt: expect.any(Date), crawlCursor: 0 }),
+        })
+      })
+
+      it('resumes from crawlCursor without re-listing or re-ranking the wiki', async () => {
+        vi.mocked(detectApiBase).mockResolvedValue('https://example.com/api.php')
+        const pages = Array.from({ length: 45 }, (_, i) => ({ pageId: i + 1, title: `Page ${i + 1}` }))
+        vi.mocked(fetchExtracts).mockResolvedValue(new Map())
+
+        await runLoreImport(makeJob({
+          sourceType: 'WIKI',
+          sourceUrl: 'https://example.com',
+          attempts: 2,
+          crawlPlan: { plannedAt: '2026-01-01T00:00:00.000Z', pages },
+          crawlCursor: 40,
+        }) as any)
+
+        expect(listAllPages).not.toHaveBeenCalled()
+        expect(rankPagesByLength).not.toHaveBeenCalled()
+        expect(fetchExtracts).toHaveBeenCalledTimes(1)
+        expect(vi.mocked(fetchExtracts).mock.calls[0][1]).toEqual(['Page 41', 'Page 42', 'Page 43', 'Page 44', 'Page 45'])
+        expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
+          where: { id: 'job-1' },
+          data: { crawlCursor: 45, pagesDone: 45, entriesCreated: { increment: 0 } },
+        })
+        // The baseline dates from when the crawl was planned, not when it finished.
+        expect(prisma.loreImportJob.update).toHaveBeenLastCalledWith({
+          where: { id: 'job-1' },
+          data: expect.objectContaining({ lastSyncedAt: new Date('2026-01-01T00:00:00.000Z') }),
+        })
+      })
+
+      it('adopts already-stored chunks from a pre-checkpoint import instead of re-embedding them', async () => {
+        const { createHash } = await import('crypto')
+        const hash = createHash('sha256').update('Some lore.').digest('hex')
+        vi.mocked(prisma.loreEntry.findMany).mockResolvedValueOnce([{ contentHash: hash } as any])
+        vi.mocked(detectApiBase).mockResolvedValue('https://example.com/api.php')
+        vi.mocked(listAllPages).mockResolvedValue([{ pageId: 7, title: 'Essence Magic' }])
+        vi.mocked(fetchExtracts).mockResolvedValue(new Map([['Essence Magic', 'Some lore.']]))
+
+        await runLoreImport(makeJob({ sourceType: 'WIKI', sourceUrl: 'https://example.com' }) as any)
+
+        expect(embedBatchWithCostTracking).not.toHaveBeenCalled()
+        expect(prisma.loreEntry.updateMany).toHaveBeenCalledWith({
+          where: { jobId: 'job-1', wikiPageId: null, contentHash: { in: [hash] } },
+          data: { wikiPageId: 7 },
+        })
+        // Whatever the re-crawl didn't claim is no longer on the wiki.
+        expect(prisma.loreEntry.deleteMany).toHaveBeenCalledWith({ where: { jobId: 'job-1', wikiPageId: null } })
+      })
+    })
+
+    describe('sync', () => {
+      const LAST_SYNC = new Date('2026-10-01T00:00:00.000Z')
+
+      function syncJob(overrides: Partial<any> = {}) {
+        return makeJob({ sourceType: 'WIKI', sourceUrl: 'https://example.com', lastSyncedAt: LAST_SYNC, pagesAvailable: 3, ...overrides })
+      }
+
+      beforeEach(() => {
+        vi.mocked(detectApiBase).mockResolvedValue('https://example.com/api.php')
+        vi.mocked(prisma.loreWikiPage.findMany).mockResolvedValue([
+          { pageId: 1, title: 'Essence Magic', revisionId: 100 },
+          { pageId: 2, title: 'The Unbound', revisionId: 200 },
+          { pageId: 3, title: 'Old Stub', revisionId: 300 },
+        ] as any)
+      })
+
+      it('re-checks only the pages recentchanges names, and leaves an unmoved revision alone', async () => {
+        vi.mocked(listRecentChanges).mockResolvedValue({ pageIds: new Set([1]), titles: new Set(['Essence Magic']), created: [] })
+        vi.mocked(fetchPageRevisions).mockResolvedValue(new Map([[1, { title: 'Essence Magic', revisionId: 100 }]]))
+
+        await runLoreImport(syncJob() as any)
+
+        expect(listRecentChanges).toHaveBeenCalledWith('https://example.com/api.php', LAST_SYNC)
+        expect(vi.mocked(fetchPageRevisions).mock.calls[0][1]).toEqual([1])
+        expect(fetchExtracts).not.toHaveBeenCalled()
+        expect(embedBatchWithCostTracking).not.toHaveBeenCalled()
+        expect(listAllPages).not.toHaveBeenCalled()
+      })
+
+      it('re-chunks an edited page, keeping unchanged chunks and retiring the rest', async () => {
+        const { createHash } = await import('crypto')
+        // Short enough to be one chunk: that chunk is already stored, and a
+        // second one the edit removed is not in the fresh text at all.
+        const text = 'Unchanged paragraph.\n\nStill here too.'
+        const keptHash = createHash('sha256').update(text).digest('hex')
+        vi.mocked(listRecentChanges).mockResolvedValue({ pageIds: new Set([1]), titles: new Set(), created: [] })
+        vi.mocked(fetchPageRevisions).mockResolvedValue(new Map([[1, { title: 'Essence Magic', revisionId: 101 }]]))
+        vi.mocked(fetchExtracts).mockResolvedValue(new Map([['Essence Magic', text]]))
+        vi.mocked(prisma.loreEntry.findMany).mockImplementation((async (args: any) =>
+          args.where.wikiPageId === 1
+            ? [{ id: 'e-kept', contentHash: keptHash }, { id: 'e-old', contentHash: 'hash-of-removed-text' }]
+            : [{ contentHash: keptHash }]
+        ) as any)
+        vi.mocked(prisma.loreEntry.deleteMany).mockResolvedValue({ count: 1 })
+
+        await runLoreImport(syncJob() as any)
+
+        expect(prisma.loreEntry.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['e-old'] } } })
+        expect(embedBatchWithCostTracking).not.toHaveBeenCalled()
+        expect(prisma.loreWikiPage.upsert).toHaveBeenCalledWith(expect.objectContaining({
+          update: { title: 'Essence Magic', revisionId: 101 },
+        }))
+        expect(prisma.loreImportJob.update).toHaveBeenLastCalledWith({
+          where: { id: 'job-1' },
+          data: expect.objectContaining({
+            lastSyncedAt: expect.any(Date),
+            lastSyncSummary: expect.objectContaining({ pagesUpdated: 1, entriesAdded: 0, entriesRetired: 1 }),
+          }),
+        })
+      })
+
+      it('embeds only the chunks of an edited page that are actually new', async () => {
+        vi.mocked(listRecentChanges).mockResolvedValue({ pageIds: new Set([2]), titles: new Set(), created: [] })
+        vi.mocked(fetchPageRevisions).mockResolvedValue(new Map([[2, { title: 'The Unbound', revisionId: 201 }]]))
+        vi.mocked(fetchExtracts).mockResolvedValue(new Map([['The Unbound', 'A faction, now with a new leader.']]))
+
+        await runLoreImport(syncJob() as any)
+
+        expect(embedBatchWithCostTracking).toHaveBeenCalledWith('campaign-1', ['A faction, now with a new leader.'], 'lore_import_embedding')
+        expect(prisma.$executeRaw).toHaveBeenCalledTimes(1)
+      })
+
+      it('retires every entry of a page the wiki deleted', async () => {
+        vi.mocked(listRecentChanges).mockResolvedValue({ pageIds: new Set(), titles: new Set(['Old Stub']), created: [] })
+        vi.mocked(fetchPageRevisions).mockResolvedValue(new Map())
+        vi.mocked(prisma.loreEntry.deleteMany).mockResolvedValue({ count: 2 })
+
+        await runLoreImport(syncJob() as any)
+
+        expect(prisma.loreEntry.deleteMany).toHaveBeenCalledWith({ where: { jobId: 'job-1', wikiPageId: { in: [3] } } })
+        expect(prisma.loreWikiPage.deleteMany).toHaveBeenCalledWith({ where: { jobId: 'job-1', pageId: { in: [3] } } })
+      })
+
+      it('keeps a changed page\'s entries when its new text comes back empty', async () => {
+        vi.mocked(listRecentChanges).mockResolvedValue({ pageIds: new Set([1]), titles: new Set(), created: [] })
+        vi.mocked(fetchPageRevisions).mockResolvedValue(new Map([[1, { title: 'Essence Magic', revisionId: 101 }]]))
+        vi.mocked(fetchExtracts).mockResolvedValue(new Map())
+
+        await runLoreImport(syncJob() as any)
+
+        expect(prisma.loreEntry.deleteMany).not.toHaveBeenCalled()
+        expect(prisma.loreWikiPage.upsert).not.toHaveBeenCalled()
+      })
+
+      it('adds pages created since the last sync, skipping excluded categories', async () => {
+        vi.mocked(listRecentChanges).mockResolvedValue({
+          pageIds: new Set([8, 9]),
+          titles: new Set(),
+          created: [{ pageId: 8, title: 'New Region' }, { pageId: 9, title: 'New Character' }],
+        })
+        vi.mocked(fetchCategoryMembers).mockResolvedValue(['New Character'])
+        vi.mocked(fetchPageRevisions).mockImplementation(async (_apiBase, ids) =>
+          new Map(ids.map(id => [id, { title: id === 8 ? 'New Region' : `Page ${id}`, revisionId: 500 }]))
+        )
+        vi.mocked(fetchExtracts).mockResolvedValue(new Map([['New Region', 'A freshly written region.']]))
+
+        await runLoreImport(syncJob({ excludeCategories: ['Characters'] }) as any)
+
+        expect(vi.mocked(fetchExtracts).mock.calls[0][1]).toEqual(['New Region'])
+        expect(prisma.loreWikiPage.upsert).toHaveBeenCalledWith(expect.objectContaining({
+          create: { jobId: 'job-1', pageId: 8, title: 'New Region', revisionId: 500 },
+        }))
+        expect(prisma.loreImportJob.update).toHaveBeenLastCalledWith({
+          where: { id: 'job-1' },
+          data: expect.objectContaining({ lastSyncSummary: expect.objectContaining({ pagesAdded: 1 }) }),
+        })
+      })
+
+      it('checks every imported page when recentchanges can\'t cover the window', async () => {
+        vi.mocked(listRecentChanges).mockResolvedValue(null)
+        vi.mocked(listAllPages).mockResolvedValue([
+          { pageId: 1, title: 'Essence Magic' },
+          { pageId: 2, title: 'The Unbound' },
+          { pageId: 3, title: 'Old Stub' },
+        ])
+        vi.mocked(fetchPageRevisions).mockImplementation(async (_apiBase, ids) =>
+          new Map(ids.map(id => [id, { title: `Page ${id}`, revisionId: id * 100 }]))
+        )
+
+        await runLoreImport(syncJob() as any)
+
+        expect(vi.mocked(fetchPageRevisions).mock.calls[0][1]).toEqual([1, 2, 3])
+        expect(fetchExtracts).not.toHaveBeenCalled()
+      })
+
+      it('fails the sync rather than retiring anything when revisions can\'t be read', async () => {
+        vi.mocked(listRecentChanges).mockResolvedValue({ pageIds: new Set([1, 2, 3]), titles: new Set(), created: [] })
+        vi.mocked(fetchPageRevisions).mockRejectedValue(new Error('Failed to read page revisions from the wiki: 503'))
+
+        await expect(runLoreImport(syncJob() as any)).rejects.toThrow('503')
+        expect(prisma.loreEntry.deleteMany).not.toHaveBeenCalled()
+      })
+    })
+  })
+
+  describe('UPLOAD', () => {
+    const FILE_URL = 'https://blob.example.com/lore-uploads/campaign-1/bible-x1y2.md'
+
+    function serveFile(text: string) {
+      const fetchSpy = vi.fn().mockResolvedValue({ ok: true, arrayBuffer: async () => new TextEncoder().encode(text).buffer })
+      vi.stubGlobal('fetch', fetchSpy)
+      return fetchSpy
+    }
+
+    it('stores each section with its own heading title and citation', async () => {
+      const fetchSpy = serveFile('# Magic\nMagic is rare.\n## Essence\nIt flows from the Veil.')
+
+      const job = makeJob({ sourceType: 'UPLOAD', sourceUrl: FILE_URL, sourceTitle: 'Setting Bible' })
+      await runLoreImport(job as any)
+
+      expect(fetchSpy).toHaveBeenCalledWith(FILE_URL)
+      const stored = vi.mocked(prisma.$executeRaw).mock.calls.map(call => ({ title: call[3], sourceUrl: call[4] }))
+      expect(stored).toEqual([
+        { title: 'Setting Bible — Magic', sourceUrl: `${FILE_URL}#Magic` },
+        { title: 'Setting Bible — Magic › Essence', sourceUrl: `${FILE_URL}#Magic%23Essence` },
+      ])
+      expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { pagesFound: 2, pagesAvailable: 2 },
+      })
+      expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { pagesDone: { increment: 2 }, entriesCreated: { increment: 2 } },
+      })
+    })
+
+    it('keeps whole sections up to UPLOAD_MAX_CHUNKS and reports the rest through pagesAvailable', async () => {
+      const total = UPLOAD_MAX_CHUNKS + 5
+      serveFile(Array.from({ length: total }, (_, i) => `# Section ${i}\nLore number ${i}.`).join('\n'))
+
+      await runLoreImport(makeJob({ sourceType: 'UPLOAD', sourceUrl: FILE_URL }) as any)
+
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(UPLOAD_MAX_CHUNKS)
+      expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { pagesFound: UPLOAD_MAX_CHUNKS, pagesAvailable: total },
+      })
+    })
+
+    it('cuts a first section that is over UPLOAD_MAX_CHUNKS on its own instead of storing nothing', async () => {
+      const paragraphs = Array.from({ length: UPLOAD_MAX_CHUNKS + 5 }, (_, i) => `Paragraph ${i}. ${'Lore. '.repeat(300)}`)
+      serveFile(`# Tome\n${paragraphs.join('\n\n')}`)
+
+      await runLoreImport(makeJob({ sourceType: 'UPLOAD', sourceUrl: FILE_URL }) as any)
+
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(UPLOAD_MAX_CHUNKS)
+      expect(prisma.loreImportJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: { pagesFound: 1, pagesAvailable: 1 },
+      })
+    })
+
+    it('fails the job for a file with headings but no text', async () => {
+      serveFile('# Magic\n## Essence\n')
+      await expect(runLoreImport(makeJob({ sourceType: 'UPLOAD', sourceUrl: FILE_URL }) as any)).rejects.toThrow('No readable text')
+      expect(prisma.$executeRaw).not.toHaveBeenCalled()
+    })
+
+    it('fails the job with the extractor\'s reason for a file it cannot read', async () => {
+      serveFile('\u0000\u0001 binary')
+      const job = makeJob({ sourceType: 'UPLOAD', sourceUrl: 'https://blob.example.com/lore-uploads/campaign-1/map-x1.png' })
+      await expect(runLoreImport(job as any)).rejects.toThrow('Unsupported file')
+    })
+
+    it('throws when the stored file cannot be fetched', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }))
+      await expect(runLoreImport(makeJob({ sourceType: 'UPLOAD', sourceUrl: FILE_URL }) as any)).rejects.toThrow('Failed to read the uploaded file')
+    })
   })
 
   it('throws for an unknown source type', async () => {
@@ -149,12 +149,22 @@ describe('processLoreImportJob', () => {
   it('clears previously stored entries before a retry attempt', async () => {
     db.loreImportJob.updateMany.mockResolvedValue({ count: 1 })
     db.loreImportJob.findUnique.mockResolvedValue({
-      id: 'job1', campaignId: 'camp1', sourceType: 'WIKI', attempts: 2,
+      id: 'job1', campaignId: 'camp1', sourceType: 'URL', attempts: 2,
     })
     await processLoreImportJob('job1')
     expect(db.loreEntry.deleteMany).toHaveBeenCalledWith({ where: { jobId: 'job1' } })
   })
 
+  it('keeps a wiki job\'s entries on retry, so the crawl resumes from its checkpoint', async () => {
+    db.loreImportJob.updateMany.mockResolvedValue({ count: 1 })
+    db.loreImportJob.findUnique.mockResolvedValue({
+      id: 'job1', campaignId: 'camp1', sourceType: 'WIKI', attempts: 2,
+    })
+    await processLoreImportJob('job1')
+    expect(db.loreEntry.deleteMany).not.toHaveBeenCalled()
+    expect(runLoreImport).toHaveBeenCalled()
+  })
+
   it('returns the job to PENDING on failure while attempts remain', async () => {
     db.loreImportJob.updateMany.mockResolvedValue({ count: 1 })
     db.loreImportJob.findUnique.mockResolvedValue({
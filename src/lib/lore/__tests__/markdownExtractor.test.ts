@@ -0,0 +1,79 @@
+// src/lib/lore/__tests__/markdownExtractor.test.ts
+import { describe, it, expect } from 'vitest'
+import { extractMarkdown, extractMarkdownVault } from '../markdownExtractor'
+import { MAX_ZIP_TOTAL_BYTES, openZipArchive } from '../zipArchive'
+import { buildZip } from './documentFixtures'
+
+describe('extractMarkdown', () => {
+  it('scopes each paragraph to its heading trail', () => {
+    const { sections } = extractMarkdown([
+      'Preamble before any heading.',
+      '# Magic',
+      'Magic is rare.',
+      '## Essence',
+      'Essence flows from the Veil.',
+      '',
+      'It pools in old places.',
+      '# Factions',
+      'The Ashen Court rules.',
+    ].join('\n'))
+
+    expect(sections).toEqual([
+      { headings: [], text: 'Preamble before any heading.' },
+      { headings: ['Magic'], text: 'Magic is rare.' },
+      { headings: ['Magic', 'Essence'], text: 'Essence flows from the Veil.\n\nIt pools in old places.' },
+      { headings: ['Factions'], text: 'The Ashen Court rules.' },
+    ])
+  })
+
+  it('reads setext headings, and never a heading inside a code fence', () => {
+    const { sections } = extractMarkdown('Bestiary\n========\n\n```\n# not a heading\n```\n\nDrakes\n------\nThey burn.')
+    expect(sections).toEqual([
+      { headings: ['Bestiary'], text: '# not a heading' },
+      { headings: ['Bestiary', 'Drakes'], text: 'They burn.' },
+    ])
+  })
+
+  it('takes the title from front matter and reduces Obsidian syntax to its words', () => {
+    const { title, sections } = extractMarkdown([
+      '---',
+      'title: "The Sundered Veil"',
+      'tags: [lore]',
+      '---',
+      '# Places',
+      'Ruled from [[Ashhold|the Ash Keep]] near [[Grey Fen#History]]. ![[map.png]]',
+      '%% GM only: the fen is a lie %%',
+      '> [!note] The **Veil** is *thin* here, see [the atlas](https://example.com).',
+    ].join('\n'))
+
+    expect(title).toBe('The Sundered Veil')
+    expect(sections).toEqual([{
+      headings: ['Places'],
+      text: 'Ruled from the Ash Keep near Grey Fen.\n\nThe Veil is thin here, see the atlas.',
+    }])
+  })
+})
+
+describe('extractMarkdownVault', () => {
+  it('heads every note with its path and skips Obsidian tooling folders', () => {
+    const zip = openZipArchive(buildZip({
+      'World/Factions.md': '# Ashen Court\nThey rule.',
+      'World/Gods.md': 'Nine of them.',
+      '.obsidian/workspace.md': 'never imported',
+      'map.png': 'binary',
+    }))
+
+    expect(extractMarkdownVault(zip)).toEqual([
+      { headings: ['World/Factions', 'Ashen Court'], text: 'They rule.' },
+      { headings: ['World/Gods'], text: 'Nine of them.' },
+    ])
+  })
+
+  it('refuses a vault whose notes together inflate past the archive budget', () => {
+    // Each note alone is within the per-entry limit; a comment keeps the
+    // padding out of the sections.
+    const note = `%%${' '.repeat(MAX_ZIP_TOTAL_BYTES / 3)}%%`
+    const zip = openZipArchive(buildZip({ 'a.md': note, 'b.md': note, 'c.md': note }))
+    expect(() => extractMarkdownVault(zip)).toThrow('too large to import')
+  })
+})
@@ -1,6 +1,9 @@
 // src/lib/lore/__tests__/mediaWikiClient.test.ts
 import { describe, it, expect, vi, afterEach } from 'vitest'
-import { detectApiBase, listAllPages, rankPagesByLength, listCategories, fetchCategoryMembers, fetchExtracts, fetchPageViaParse, pageTitleFromUrl } from '../mediaWikiClient'
+import {
+  detectApiBase, listAllPages, rankPagesByLength, listCategories, fetchCategoryMembers, fetchExtracts, fetchPageViaParse,
+  fetchPageRevisions, listRecentChanges, pageTitleFromUrl, RECENT_CHANGES_MAX_AGE_MS,
+} from '../mediaWikiClient'
 
 afterEach(() => {
   vi.unstubAllGlobals()
@@ -383,3 +386,88 @@ describe('fetchPageViaParse', () => {
     expect(await fetchPageViaParse('https://example.org/api.php', 'X')).toBeNull()
   })
 })
+
+describe('fetchPageRevisions', () => {
+  it('maps page ids to their current title and revision, leaving out missing pages', async () => {
+    const fetchSpy = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        query: {
+          pages: {
+            '1': { pageid: 1, title: 'Essence Magic (moved)', lastrevid: 101 },
+            '2': { pageid: 2, missing: '' },
+          },
+        },
+      }),
+    })
+    vi.stubGlobal('fetch', fetchSpy)
+
+    const revisions = await fetchPageRevisions('https://example.org/api.php', [1, 2])
+
+    expect(revisions).toEqual(new Map([[1, { title: 'Essence Magic (moved)', revisionId: 101 }]]))
+    expect(fetchSpy.mock.calls[0][0]).toContain('pageids=1%7C2')
+  })
+
+  it('throws on a failed request instead of reporting every page as gone', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503 }))
+    await expect(fetchPageRevisions('https://example.org/api.php', [1])).rejects.toThrow('503')
+  })
+})
+
+describe('listRecentChanges', () => {
+  const since = () => new Date(Date.now() - 24 * 60 * 60 * 1000)
+
+  it('collects touched page ids, titles, and new pages across rccontinue pages', async () => {
+    const fetchSpy = vi.fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          query: { recentchanges: [{ type: 'edit', pageid: 1, title: 'Essence Magic' }] },
+          continue: { rccontinue: 'next' },
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          query: {
+            recentchanges: [
+              { type: 'new', pageid: 9, title: 'New Region' },
+              { type: 'log', pageid: 0, title: 'Deleted Page' },
+            ],
+          },
+        }),
+      })
+    vi.stubGlobal('fetch', fetchSpy)
+
+    const changes = await listRecentChanges('https://example.org/api.php', since())
+
+    expect(changes).toEqual({
+      pageIds: new Set([1, 9]),
+      titles: new Set(['Essence Magic', 'New Region', 'Deleted Page']),
+      created: [{ pageId: 9, title: 'New Region' }],
+    })
+    expect(fetchSpy.mock.calls[1][0]).toContain('rccontinue=next')
+    expect(fetchSpy.mock.calls[0][0]).toContain('rcnamespace=0')
+  })
+
+  it('returns null for a window older than the wiki can be trusted to remember', async () => {
+    const fetchSpy = vi.fn()
+    vi.stubGlobal('fetch', fetchSpy)
+
+    const changes = await listRecentChanges('https://example.org/api.php', new Date(Date.now() - RECENT_CHANGES_MAX_AGE_MS - 1000))
+
+    expect(changes).toBeNull()
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it('returns null when the request fails or there are more changes than maxChanges', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 500 }))
+    expect(await listRecentChanges('https://example.org/api.php', since())).toBeNull()
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ query: { recentchanges: [{ type: 'edit', pageid: 1, title: 'A' }, { type: 'edit', pageid: 2, title: 'B' }] } }),
+    }))
+    expect(await listRecentChanges('https://example.org/api.php', since(), 1)).toBeNull()
+  })
+})
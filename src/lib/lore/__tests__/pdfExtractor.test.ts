@@ -0,0 +1,80 @@
+// src/lib/lore/__tests__/pdfExtractor.test.ts
+// Real PDF bytes (documentFixtures.ts's buildPdf): compressed content
+// streams, inherited resources, and a ToUnicode-mapped composite font —
+// the shapes exported setting bibles actually come in.
+
+import { describe, it, expect } from 'vitest'
+import { extractPdf, MAX_PDF_STREAM_BYTES } from '../pdfExtractor'
+import { buildPdf, textLine } from './documentFixtures'
+
+describe('extractPdf', () => {
+  it('numbers sections by page and ranks headings by font size', () => {
+    const pdf = buildPdf([
+      [
+        textLine('The Sundered Veil', 740, 24),
+        textLine('Magic', 700, 16),
+        textLine('Essence flows from the Veil and pools', 680),
+        textLine('in old places.', 667),
+        textLine('It is dangerous to draw on.', 640),
+      ].join('\n'),
+      [
+        textLine('Factions', 740, 16),
+        textLine('The Ashen Court rules from Ashhold.', 720),
+      ].join('\n'),
+    ], { title: 'Setting Bible' })
+
+    const { title, sections } = extractPdf(pdf)
+
+    expect(title).toBe('Setting Bible')
+    expect(sections).toEqual([
+      {
+        headings: ['The Sundered Veil', 'Magic'],
+        page: 1,
+        text: 'Essence flows from the Veil and pools in old places.\n\nIt is dangerous to draw on.',
+      },
+      { headings: ['The Sundered Veil', 'Factions'], page: 2, text: 'The Ashen Court rules from Ashhold.' },
+    ])
+  })
+
+  it('rejoins a hyphenated word, reads TJ word gaps, and maps WinAnsi punctuation', () => {
+    const pdf = buildPdf([[
+      textLine('The Court\\222s war-', 700),
+      textLine('riors march.', 687),
+      'BT /F1 11 Tf 72 660 Td [(Ash)-350(keep) 20 (s)] TJ ET',
+    ].join('\n')])
+
+    expect(extractPdf(pdf).sections[0].text).toBe('The Court’s warriors march.\n\nAsh keeps')
+  })
+
+  it('decodes a composite font through its ToUnicode map', () => {
+    const cmap = [
+      '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      '1 beginbfrange <0001> <0003> <0041> endbfrange',
+      '1 beginbfchar <0004> <0020> endbfchar',
+      'endcmap CMapName currentdict /CMap defineresource pop end end',
+    ].join('\n')
+    const pdf = buildPdf(['BT /F2 11 Tf 72 700 Td <0001000200040003> Tj ET'], {
+      extraFonts: '/F2 100 0 R',
+      extraObjects: [
+        '<< /Type /Font /Subtype /Type0 /BaseFont /Fixture /Encoding /Identity-H /ToUnicode 101 0 R >>',
+        `<< /Length /LENGTH >>\nstream\n${cmap}`,
+      ],
+    })
+
+    expect(extractPdf(pdf).sections).toEqual([{ headings: [], page: 1, text: 'AB C' }])
+  })
+
+  it('refuses an encrypted file', () => {
+    expect(() => extractPdf(buildPdf([textLine('x', 700)], { encrypted: true }))).toThrow('Encrypted PDFs are not supported')
+  })
+
+  it('refuses a stream that inflates past the cap instead of inflating it all', () => {
+    const pdf = buildPdf([textLine('Padding', 740) + ' '.repeat(MAX_PDF_STREAM_BYTES)])
+    expect(() => extractPdf(pdf)).toThrow('too large to import')
+  })
+
+  it('refuses a file with no text layer instead of importing nothing', () => {
+    expect(() => extractPdf(buildPdf(['q 612 0 0 792 0 0 cm /Im1 Do Q']))).toThrow('scanned pages need OCR')
+  })
+})
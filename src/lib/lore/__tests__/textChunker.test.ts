@@ -1,6 +1,6 @@
 // src/lib/lore/__tests__/textChunker.test.ts
 import { describe, it, expect } from 'vitest'
-import { chunkText } from '../textChunker'
+import { chunkSections, chunkText } from '../textChunker'
 
 describe('chunkText', () => {
   it('returns nothing for empty/whitespace text', () => {
@@ -46,3 +46,23 @@ describe('chunkText', () => {
     }
   })
 })
+
+describe('chunkSections', () => {
+  it('chunks each section on its own, keeping its title and citation', () => {
+    const long = 'Sentence one. '.repeat(50)
+    const result = chunkSections([
+      { title: 'Bible — Magic', text: 'Short.', citation: 'https://blob/bible.pdf#page=3' },
+      { title: 'Bible — Factions', text: [long, long].join('\n\n'), citation: 'https://blob/bible.pdf#page=4' },
+    ], { maxChars: 1000, overlapChars: 0 })
+
+    expect(result[0]).toEqual({ title: 'Bible — Magic', content: 'Short.', citation: 'https://blob/bible.pdf#page=3' })
+    expect(result.slice(1).map(c => c.title)).toEqual(['Bible — Factions (part 1)', 'Bible — Factions (part 2)'])
+    expect(result.slice(1).every(c => c.citation === 'https://blob/bible.pdf#page=4')).toBe(true)
+    // Nothing from the first section bleeds into the second's chunks.
+    expect(result[1].content).not.toContain('Short.')
+  })
+
+  it('leaves citation off a section that has none', () => {
+    expect(chunkSections([{ title: 'Notes', text: 'Body.' }])).toEqual([{ title: 'Notes', content: 'Body.' }])
+  })
+})
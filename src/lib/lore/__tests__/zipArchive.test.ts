@@ -0,0 +1,41 @@
+// src/lib/lore/__tests__/zipArchive.test.ts
+import { describe, it, expect } from 'vitest'
+import { MAX_ZIP_TOTAL_BYTES, openZipArchive } from '../zipArchive'
+import { buildZip } from './documentFixtures'
+
+describe('openZipArchive', () => {
+  it('lists entries and reads both deflated and stored ones', () => {
+    const deflated = openZipArchive(buildZip({ 'a.txt': 'alpha', 'dir/b.xml': '<b/>' }))
+    expect(deflated.names).toEqual(['a.txt', 'dir/b.xml'])
+    expect(deflated.readText('dir/b.xml')).toBe('<b/>')
+
+    const stored = openZipArchive(buildZip({ mimetype: 'application/epub+zip' }, { stored: true }))
+    expect(stored.readText('mimetype')).toBe('application/epub+zip')
+  })
+
+  it('is null for a missing entry and strips a byte-order mark', () => {
+    const zip = openZipArchive(buildZip({ 'bom.md': '\uFEFF# Title' }))
+    expect(zip.read('nope')).toBeNull()
+    expect(zip.readText('bom.md')).toBe('# Title')
+  })
+
+  it('refuses something that is not a ZIP', () => {
+    expect(() => openZipArchive(Buffer.from('just some text, no archive here'))).toThrow('Not a valid ZIP archive')
+  })
+
+  it('refuses an encrypted entry rather than returning ciphertext', () => {
+    const data = buildZip({ 'secret.xml': '<x/>' })
+    // Set the "encrypted" general-purpose flag in the central directory.
+    const central = data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]))
+    data.writeUInt16LE(1, central + 8)
+    expect(() => openZipArchive(data)).toThrow('Password-protected')
+  })
+
+  it('refuses reads past the archive-wide budget, however they are spread', () => {
+    // Each read is within the per-entry cap; together they are not.
+    const zip = openZipArchive(buildZip({ 'big.xml': ' '.repeat(MAX_ZIP_TOTAL_BYTES / 2 - 1), 'small.xml': '<x/>' }))
+    zip.read('big.xml')
+    zip.read('big.xml')
+    expect(() => zip.read('small.xml')).toThrow('too large to import')
+  })
+})
@@ -0,0 +1,67 @@
+// src/lib/lore/documentExtractor.ts
+// One entry point for every uploaded lore document: work out what the
+// file is, then hand it to the matching extractor. The format is read from
+// the bytes first (a PDF header, a ZIP's contents) and the file name only
+// second, because upload file names lie — a .docx renamed .zip, an Obsidian
+// export with no extension at all.
+
+import { openZipArchive } from './zipArchive'
+import { extractMarkdown, extractMarkdownVault, isMarkdownVault } from './markdownExtractor'
+import { extractPdf } from './pdfExtractor'
+import { extractDocx } from './docxExtractor'
+import { extractEpub } from './epubExtractor'
+import type { DocumentFormat, ExtractedDocument } from './documentSections'
+
+/** What the upload picker accepts — kept in step with detectDocumentFormat. */
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.md', '.markdown', '.txt', '.pdf', '.docx', '.epub', '.zip'] as const
+
+const TEXT_EXTENSIONS = /\.(md|markdown|txt)$/i
+
+/**
+ * The document's format, or null for anything we can't read: an unknown
+ * binary, or a ZIP that is none of DOCX, EPUB, or a folder of notes.
+ */
+export function detectDocumentFormat(data: Buffer, fileName: string): DocumentFormat | null {
+  // The spec allows junk before the header, within the first KB.
+  if (data.subarray(0, 1024).includes('%PDF-')) return 'pdf'
+
+  if (data.subarray(0, 4).equals(Buffer.from('PK\x03\x04', 'latin1'))) {
+    try {
+      const zip = openZipArchive(data)
+      if (zip.readText('mimetype')?.trim() === 'application/epub+zip' || zip.names.includes('META-INF/container.xml')) return 'epub'
+      if (zip.names.includes('word/document.xml')) return 'docx'
+      if (isMarkdownVault(zip)) return 'vault'
+    } catch {
+      return null
+    }
+    return null
+  }
+
+  // Plain text: a known extension, and no NUL bytes (which no text file
+  // has and nearly every binary does).
+  if (TEXT_EXTENSIONS.test(fileName) && !data.subarray(0, 8192).includes(0)) return 'markdown'
+  return null
+}
+
+/**
+ * Extract an uploaded document into sections. Throws with an
+ * admin-readable message when the file can't be read — unsupported
+ * format, encrypted, no text layer — which the job surfaces as lastError.
+ */
+export function extractDocument(data: Buffer, fileName: string): ExtractedDocument {
+  const format = detectDocumentFormat(data, fileName)
+  switch (format) {
+    case 'pdf':
+      return { format, ...extractPdf(data) }
+    case 'docx':
+      return { format, ...extractDocx(openZipArchive(data)) }
+    case 'epub':
+      return { format, ...extractEpub(openZipArchive(data)) }
+    case 'vault':
+      return { format, title: null, sections: extractMarkdownVault(openZipArchive(data)) }
+    case 'markdown':
+      return { format, ...extractMarkdown(data.toString('utf8')) }
+    default:
+      throw new Error('Unsupported file — upload Markdown, plain text, PDF, DOCX, EPUB, or a zipped folder of Markdown notes')
+  }
+}
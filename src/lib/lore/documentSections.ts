@@ -0,0 +1,98 @@
+// src/lib/lore/documentSections.ts
+// The shape every uploaded-document extractor (Markdown, PDF, DOCX, EPUB)
+// produces: the document's body as a flat list of sections, each carrying
+// the heading trail it sits under and — for formats that have pages — the
+// page it's on. That pair is what a chunk's citation points back to, so a
+// GM reading "why did the narrator say that" lands on "Setting Bible —
+// Magic › Essence (p. 12)" instead of on a 200-page file.
+
+export type DocumentFormat = 'markdown' | 'vault' | 'pdf' | 'docx' | 'epub'
+
+export interface DocumentSection {
+  /** Outermost heading first, e.g. ['Magic', 'Essence']; empty before the first heading. */
+  headings: string[]
+  /** 1-based, for formats that have pages (PDF). */
+  page?: number
+  text: string
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat
+  /** The document's own title (PDF/EPUB metadata, front matter), when it has one. */
+  title: string | null
+  sections: DocumentSection[]
+}
+
+/**
+ * Accumulates headings, paragraphs, and page turns in reading order and
+ * cuts a new section at each of them. A heading with nothing under it
+ * before the next heading produces no section of its own — it only ever
+ * shows up in its children's trails.
+ */
+export class SectionBuilder {
+  private trail: Array<{ level: number; text: string }> = []
+  private page: number | undefined
+  private paragraphs: string[] = []
+  private readonly sections: DocumentSection[] = []
+
+  heading(level: number, text: string): void {
+    const clean = text.replace(/\s+/g, ' ').trim()
+    if (!clean) return
+    this.flush()
+    while (this.trail.length > 0 && this.trail[this.trail.length - 1].level >= level) this.trail.pop()
+    this.trail.push({ level, text: clean })
+  }
+
+  paragraph(text: string): void {
+    const clean = text.trim()
+    if (clean) this.paragraphs.push(clean)
+  }
+
+  startPage(page: number): void {
+    this.flush()
+    this.page = page
+  }
+
+  /** Forget every open heading — a new file in a vault starts its own outline. */
+  resetHeadings(): void {
+    this.flush()
+    this.trail = []
+  }
+
+  finish(): DocumentSection[] {
+    this.flush()
+    return this.sections
+  }
+
+  private flush(): void {
+    if (this.paragraphs.length === 0) return
+    this.sections.push({
+      headings: this.trail.map(h => h.text),
+      ...(this.page !== undefined ? { page: this.page } : {}),
+      text: this.paragraphs.join('\n\n'),
+    })
+    this.paragraphs = []
+  }
+}
+
+/**
+ * The LoreEntry title for a section's chunks: the document, then the
+ * heading trail, then the page.
+ */
+export function sectionTitle(documentTitle: string, section: DocumentSection): string {
+  const trail = section.headings.join(' › ')
+  const base = trail ? `${documentTitle} — ${trail}` : documentTitle
+  return section.page !== undefined ? `${base} (p. ${section.page})` : base
+}
+
+/**
+ * The LoreEntry.sourceUrl for a section's chunks: the stored file plus a
+ * fragment naming where in it the text came from. PDFs get `#page=N`,
+ * which browsers' PDF viewers open straight to; everything else gets the
+ * heading trail, Obsidian-link style (`Note#Heading`).
+ */
+export function sectionCitation(fileUrl: string, section: DocumentSection): string {
+  if (section.page !== undefined) return `${fileUrl}#page=${section.page}`
+  if (section.headings.length === 0) return fileUrl
+  return `${fileUrl}#${encodeURIComponent(section.headings.join('#'))}`
+}
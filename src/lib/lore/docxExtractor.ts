@@ -0,0 +1,84 @@
+// src/lib/lore/docxExtractor.ts
+// Word documents into heading-scoped sections. A .docx is a ZIP of XML
+// (see zipArchive.ts); the body text is word/document.xml's paragraphs, and
+// which of those are headings is a property of each paragraph's style.
+//
+// Style ids are NOT reliably "Heading1" — a document written in a German
+// Word has "Überschrift1", and templates rename freely — so the level comes
+// from word/styles.xml: a style whose display name is "heading N" (that
+// name is fixed across languages) or that carries an outline level.
+
+import * as cheerio from 'cheerio'
+import { SectionBuilder, type DocumentSection } from './documentSections'
+import type { ZipArchive } from './zipArchive'
+
+const XML = { xml: { xmlMode: true, decodeEntities: true } } as const
+
+/**
+ * Extract a .docx's sections and its title (docProps/core.xml's dc:title,
+ * else its first Title-styled paragraph). Throws when the archive has no
+ * word/document.xml — a ZIP that isn't a Word document.
+ */
+export function extractDocx(zip: ZipArchive): { title: string | null; sections: DocumentSection[] } {
+  const documentXml = zip.readText('word/document.xml')
+  if (!documentXml) throw new Error('Not a Word document (word/document.xml is missing)')
+
+  const headingLevels = readHeadingStyles(zip.readText('word/styles.xml'))
+  const $ = cheerio.load(documentXml, XML)
+  const builder = new SectionBuilder()
+  let title = readCoreTitle(zip.readText('docProps/core.xml'))
+
+  $('w\\:body w\\:p').each((_, p) => {
+    // The paragraph's own runs only: a text box anchored inside a
+    // paragraph is itself made of paragraphs, which this walk visits
+    // separately.
+    let raw = ''
+    $(p).find('w\\:t, w\\:tab, w\\:br, w\\:cr').each((_, node) => {
+      if ($(node).closest('w\\:p')[0] !== p) return
+      if (node.name === 'w:t') raw += $(node).text()
+      else raw += node.name === 'w:tab' ? '\t' : '\n'
+    })
+    const text = raw.replace(/[ \t]+/g, ' ').trim()
+    if (!text) return
+
+    const styleId = $(p).children('w\\:pPr').children('w\\:pStyle').attr('w:val') ?? ''
+    if (/^title$/i.test(styleId)) {
+      if (!title) title = text
+      return
+    }
+    const outline = $(p).children('w\\:pPr').children('w\\:outlineLvl').attr('w:val')
+    const level = outline !== undefined ? Number(outline) + 1 : headingLevels.get(styleId) ?? defaultHeadingLevel(styleId)
+    if (level && level >= 1 && level <= 9) builder.heading(level, text)
+    else builder.paragraph(text)
+  })
+
+  return { title, sections: builder.finish() }
+}
+
+/** styleId → heading level, for every paragraph style that is a heading. */
+function readHeadingStyles(stylesXml: string | null): Map<string, number> {
+  const levels = new Map<string, number>()
+  if (!stylesXml) return levels
+  const $ = cheerio.load(stylesXml, XML)
+  $('w\\:style[w\\:type="paragraph"]').each((_, style) => {
+    const id = $(style).attr('w:styleId')
+    if (!id) return
+    const name = $(style).children('w\\:name').attr('w:val') ?? ''
+    const byName = name.match(/^heading\s*(\d)$/i)
+    const outline = $(style).children('w\\:pPr').children('w\\:outlineLvl').attr('w:val')
+    if (byName) levels.set(id, Number(byName[1]))
+    else if (outline !== undefined && Number(outline) < 9) levels.set(id, Number(outline) + 1)
+  })
+  return levels
+}
+
+function defaultHeadingLevel(styleId: string): number | null {
+  const match = styleId.match(/^heading\s*(\d)$/i)
+  return match ? Number(match[1]) : null
+}
+
+function readCoreTitle(coreXml: string | null): string | null {
+  if (!coreXml) return null
+  const $ = cheerio.load(coreXml, XML)
+  return $('dc\\:title').first().text().trim() || null
+}
@@ -0,0 +1,82 @@
+// src/lib/lore/epubExtractor.ts
+// EPUB books into heading-scoped sections. An .epub is a ZIP (see
+// zipArchive.ts) whose META-INF/container.xml names a package document;
+// that package's spine lists the XHTML chapters in reading order, and each
+// chapter's own <h1>–<h6> give the outline.
+
+import * as cheerio from 'cheerio'
+import { posix } from 'path'
+import { SectionBuilder, type DocumentSection } from './documentSections'
+import type { ZipArchive } from './zipArchive'
+
+const XML = { xml: { xmlMode: true, decodeEntities: true } } as const
+
+// Block-level elements that carry a chapter's readable text. Only the
+// outermost match is read, so a <p> inside an <li> isn't read twice.
+const BLOCKS = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, dt, dd, th, td, figcaption'
+
+/**
+ * Extract an EPUB's sections, in spine order, and its dc:title. Throws when
+ * the container or package document is missing, and when the chapters
+ * inflate past the archive's MAX_ZIP_TOTAL_BYTES.
+ */
+export function extractEpub(zip: ZipArchive): { title: string | null; sections: DocumentSection[] } {
+  const container = zip.readText('META-INF/container.xml')
+  if (!container) throw new Error('Not an EPUB (META-INF/container.xml is missing)')
+  const packagePath = cheerio.load(container, XML)('rootfile').first().attr('full-path')
+  const packageXml = packagePath ? zip.readText(packagePath) : null
+  if (!packagePath || !packageXml) throw new Error('EPUB package document is missing')
+
+  const $pkg = cheerio.load(packageXml, XML)
+  const title = $pkg('metadata').children().filter((_, el) => localName(el.name) === 'title').first().text().trim() || null
+
+  const hrefById = new Map<string, string>()
+  $pkg('manifest > item').each((_, item) => {
+    const id = $pkg(item).attr('id')
+    const href = $pkg(item).attr('href')
+    if (id && href) hrefById.set(id, href)
+  })
+
+  const baseDir = posix.dirname(packagePath)
+  const builder = new SectionBuilder()
+  // Each chapter file once, however often the spine names it: a repeated
+  // itemref is no more lore, and re-reading it would inflate and parse the
+  // same entry again for every mention.
+  const read = new Set<string>()
+  $pkg('spine > itemref').each((_, itemref) => {
+    const href = hrefById.get($pkg(itemref).attr('idref') ?? '')
+    if (!href) return
+    const path = posix.normalize(posix.join(baseDir, decodeURIComponent(href.split('#')[0])))
+    if (read.has(path)) return
+    read.add(path)
+    const chapter = zip.readText(path)
+    if (chapter) appendChapter(builder, chapter)
+  })
+
+  return { title, sections: builder.finish() }
+}
+
+function appendChapter(builder: SectionBuilder, xhtml: string): void {
+  const $ = cheerio.load(xhtml)
+  $('script, style').remove()
+  const blocks = $('body').find(BLOCKS).filter((_, el) => $(el).parents(BLOCKS).length === 0)
+
+  if (blocks.length === 0) {
+    builder.paragraph(normalize($('body').text()))
+    return
+  }
+  blocks.each((_, el) => {
+    const text = normalize($(el).text())
+    const heading = el.name.match(/^h([1-6])$/)
+    if (heading) builder.heading(Number(heading[1]), text)
+    else builder.paragraph(text)
+  })
+}
+
+function localName(name: string): string {
+  return name.includes(':') ? name.slice(name.indexOf(':') + 1) : name
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
@@ -1,6 +1,7 @@
 // src/lib/lore/loreImportService.ts
 // Orchestrates one LoreImportJob to completion: fetch/parse the source
-// (pasted text / a single URL / an entire MediaWiki wiki), chunk it, embed
+// (pasted text / a single URL / an entire MediaWiki wiki / an uploaded
+// document), chunk it, embed
 // each chunk, and store it as searchable LoreEntry rows — the same
 // chunk-and-embed shape CampaignMemory uses for play history, but for
 // static world-bible content.
@@ -10,17 +11,22 @@
 
 import { createHash } from 'crypto'
 import { prisma } from '@/lib/prisma'
-import type { LoreImportJob } from '@prisma/client'
+import { Prisma, type LoreImportJob } from '@prisma/client'
 import { embedBatchWithCostTracking, embedWithCostTracking } from '@/lib/ai/embeddingService'
-import { chunkText, type TextChunk } from './textChunker'
+import { chunkSections, chunkText, type TextChunk } from './textChunker'
 import { extractFromHtml } from './htmlExtractor'
-import { detectApiBase, listAllPages, rankPagesByLength, fetchCategoryMembers, fetchExtracts, fetchPageViaParse, pageTitleFromUrl } from './mediaWikiClient'
+import { extractDocument } from './documentExtractor'
+import { sectionCitation, sectionTitle } from './documentSections'
+import {
+  detectApiBase, listAllPages, rankPagesByLength, fetchCategoryMembers, fetchExtracts, fetchPageViaParse,
+  fetchPageRevisions, listRecentChanges, pageTitleFromUrl, type WikiPageSummary,
+} from './mediaWikiClient'
 
 // A wiki crawl runs inside a single worker invocation (see the internal
 // route's maxDuration) — capped well short of "the whole internet" so one
-// job reliably finishes instead of timing out mid-crawl and leaving a job
-// stuck RUNNING until stale-recovery resets it (which would re-crawl from
-// scratch, not resume). Big wikis get their most-substantial N pages by
+// job usually finishes in one go. One that doesn't — timed out, crashed,
+// reset by stale-recovery — resumes from its checkpoint (crawlPlan and
+// crawlCursor on the job) rather than starting over. Big wikis get their most-substantial N pages by
 // content length (see rankPagesByLength) — listAllPages' own native order
 // is alphabetical by title, which would otherwise make the pages actually
 // imported an arbitrary function of the alphabet, not of what's actually
@@ -43,6 +49,18 @@ export const WIKI_MAX_PAGES = 400
 const WIKI_RANKING_CANDIDATE_CEILING = 2500
 const WIKI_EXTRACT_BATCH_SIZE = 20
 
+// An uploaded document is bounded by the upload size cap rather than a
+// page count, but a dense 4 MB PDF is still a thousand-odd pages of text —
+// this keeps one upload's embedding bill and worker time in the same
+// range as a full WIKI_MAX_PAGES crawl. Sections past the cap are dropped
+// whole (never a section cut mid-way, unless the first section alone is
+// over it) and reported through pagesAvailable, exactly as a truncated
+// wiki is.
+export const UPLOAD_MAX_CHUNKS = 1200
+// Sections stored per progress update — the upload counterpart of a wiki
+// extract batch.
+const UPLOAD_SECTION_BATCH_SIZE = 20
+
 /**
  * Fetch, chunk, embed, and store one job's source material. Throws on
  * unrecoverable failure — the caller (loreQueue) handles retry bookkeeping.
@@ -55,6 +73,8 @@ export async function runLoreImport(job: LoreImportJob): Promise<void> {
       return importUrl(job)
     case 'WIKI':
       return importWiki(job)
+    case 'UPLOAD':
+      return importUpload(job)
     default:
       throw new Error(`Unknown lore source type: ${job.sourceType}`)
   }
@@ -123,6 +143,31 @@ async function fetchSinglePage(url: string, sourceTitle?: string | null): Promis
   return extractFromHtml(html, sourceTitle || url)
 }
 
+interface CrawlPlan {
+  plannedAt: string
+  pages: WikiPageSummary[]
+}
+
+export interface WikiSyncSummary {
+  pagesChecked: number
+  pagesUpdated: number
+  pagesAdded: number
+  pagesRemoved: number
+  entriesAdded: number
+  entriesRetired: number
+}
+
+function readCrawlPlan(value: Prisma.JsonValue | null | undefined): CrawlPlan | null {
+  const plan = value as Partial<CrawlPlan> | null | undefined
+  if (!plan || typeof plan.plannedAt !== 'string' || !Array.isArray(plan.pages)) return null
+  return { plannedAt: plan.plannedAt, pages: plan.pages }
+}
+
+/**
+ * A WIKI source: the first run crawls the wiki (resuming from the job's
+ * checkpoint if an earlier attempt got part-way), and every run after a
+ * completed crawl is an incremental sync (syncWiki below).
+ */
 async function importWiki(job: LoreImportJob): Promise<void> {
   const baseUrl = job.sourceUrl
   if (!baseUrl) throw new Error('No wiki URL to import')
@@ -132,70 +177,326 @@ async function importWiki(job: LoreImportJob): Promise<void> {
     throw new Error('That URL does not look like a MediaWiki-based wiki (no api.php found) — try importing it as a single page instead')
   }
 
-  let candidates = await listAllPages(apiBase, WIKI_RANKING_CANDIDATE_CEILING)
-  if (candidates.length === 0) throw new Error('No pages found on that wiki')
-
-  // Drop anything in an admin-excluded category (e.g. "Characters") before
-  // ranking or fetching ever touches it — the whole point is to skip the
-  // fetch/embed cost on unwanted pages, not just hide them from the
-  // digest afterward. Best-effort per category: one category's lookup
-  // failing doesn't block the others or the import as a whole.
-  const excludeCategories = Array.isArray(job.excludeCategories) ? job.excludeCategories : []
-  if (excludeCategories.length > 0) {
-    const excludedTitles = new Set<string>()
-    for (const category of excludeCategories) {
-      try {
-        const members = await fetchCategoryMembers(apiBase, category)
-        for (const title of members) excludedTitles.add(title)
-      } catch (err) {
-        console.error(`Failed to resolve excluded category "${category}" — its pages will still be crawled:`, err)
-      }
-    }
-    if (excludedTitles.size > 0) {
-      candidates = candidates.filter(p => !excludedTitles.has(p.title))
+  if (job.lastSyncedAt) return syncWiki(job, baseUrl, apiBase, job.lastSyncedAt)
+  return crawlWiki(job, baseUrl, apiBase)
+}
+
+/**
+ * The full crawl. Listing and ranking happen once: the chosen pages are
+ * frozen into job.crawlPlan, and job.crawlCursor advances after every
+ * stored batch, so a retry skips straight to the first unfinished batch.
+ * Each page's revision is recorded (LoreWikiPage) as it's fetched — the
+ * baseline the next sync compares against.
+ */
+async function crawlWiki(job: LoreImportJob, baseUrl: string, apiBase: string): Promise<void> {
+  let plan = readCrawlPlan(job.crawlPlan)
+  let cursor = plan ? job.crawlCursor : 0
+
+  if (plan) {
+    console.log(`⏯️  Resuming wiki crawl for job ${job.id} at page ${cursor} of ${plan.pages.length}`)
+  } else {
+    const plannedAt = new Date().toISOString()
+    let candidates = await listAllPages(apiBase, WIKI_RANKING_CANDIDATE_CEILING)
+    if (candidates.length === 0) throw new Error('No pages found on that wiki')
+
+    // Drop anything in an admin-excluded category (e.g. "Characters")
+    // before ranking or fetching ever touches it — the whole point is to
+    // skip the fetch/embed cost on unwanted pages, not just hide them from
+    // the digest afterward.
+    candidates = await dropExcludedPages(apiBase, job.excludeCategories, candidates)
+
+    // Rank by real content length so the hard WIKI_MAX_PAGES cap selects the
+    // wiki's most substantial pages rather than whatever sorts first
+    // alphabetically. Fails open to the unranked (alphabetical) order if
+    // ranking itself errors — a worse-ranked-but-successful import beats a
+    // failed one.
+    let ranked = candidates
+    try {
+      ranked = await rankPagesByLength(apiBase, candidates)
+    } catch (err) {
+      console.error('Wiki page length ranking failed — falling back to alphabetical order:', err)
     }
+    plan = { plannedAt, pages: ranked.slice(0, WIKI_MAX_PAGES) }
+
+    // #243: pagesAvailable is the real candidate count BEFORE the
+    // WIKI_MAX_PAGES cut — equal to pagesFound whenever nothing was
+    // actually truncated, and strictly greater when it was. The admin UI
+    // uses the gap between the two to surface "Imported 400 of 612 pages"
+    // instead of leaving a large wiki's truncation completely silent.
+    await prisma.loreImportJob.update({
+      where: { id: job.id },
+      data: {
+        pagesFound: plan.pages.length,
+        pagesAvailable: ranked.length,
+        crawlPlan: plan as unknown as Prisma.InputJsonValue,
+        crawlCursor: 0,
+      },
+    })
   }
 
-  // Rank by real content length so the hard WIKI_MAX_PAGES cap selects the
-  // wiki's most substantial pages rather than whatever sorts first
-  // alphabetically. Fails open to the unranked (alphabetical) order if
-  // ranking itself errors — a worse-ranked-but-successful import beats a
-  // failed one.
-  let ranked = candidates
-  try {
-    ranked = await rankPagesByLength(apiBase, candidates)
-  } catch (err) {
-    console.error('Wiki page length ranking failed — falling back to alphabetical order:', err)
+  for (; cursor < plan.pages.length; cursor += WIKI_EXTRACT_BATCH_SIZE) {
+    const batch = plan.pages.slice(cursor, cursor + WIKI_EXTRACT_BATCH_SIZE)
+    // Revisions before text: if a page is edited in between, the older
+    // revision is what's recorded, and the next sync just re-checks it.
+    const revisions = await fetchPageRevisions(apiBase, batch.map(p => p.pageId))
+    const extracts = await fetchExtracts(apiBase, batch.map(p => p.title))
+
+    let batchEntries = 0
+    for (const p of batch) {
+      const text = extracts.get(p.title)
+      if (text && text.trim()) {
+        batchEntries += await storeLoreChunks(job.campaignId, job.id, chunkText(text, p.title), pageUrl(baseUrl, p.title), p.pageId)
+      }
+      const revision = revisions.get(p.pageId)
+      if (revision) await recordWikiPage(job.id, p.pageId, revision.title, revision.revisionId)
+    }
+
+    const done = Math.min(cursor + WIKI_EXTRACT_BATCH_SIZE, plan.pages.length)
+    await prisma.loreImportJob.update({
+      where: { id: job.id },
+      data: { crawlCursor: done, pagesDone: done, entriesCreated: { increment: batchEntries } },
+    })
   }
-  const pages = ranked.slice(0, WIKI_MAX_PAGES)
 
-  // #243: pagesAvailable is the real candidate count BEFORE the
-  // WIKI_MAX_PAGES cut — equal to pagesFound whenever nothing was
-  // actually truncated, and strictly greater when it was. The admin UI
-  // uses the gap between the two to surface "Imported 400 of 612 pages"
-  // instead of leaving a large wiki's truncation completely silent.
+  // A source imported before page ids were recorded has entries with none.
+  // Re-crawling it adopted every chunk that's still on the wiki (see
+  // storeLoreChunks), so whatever is still unclaimed is gone from the wiki.
+  await prisma.loreEntry.deleteMany({ where: { jobId: job.id, wikiPageId: null } })
   await prisma.loreImportJob.update({
     where: { id: job.id },
-    data: { pagesFound: pages.length, pagesAvailable: ranked.length },
+    data: { lastSyncedAt: new Date(plan.plannedAt), crawlPlan: Prisma.DbNull, crawlCursor: 0 },
   })
+}
+
+/**
+ * Bring a crawled wiki up to date without re-importing it. The wiki's
+ * recentchanges since the last sync say which imported pages to re-check
+ * (every one of them, when that window is too old to trust); a page whose
+ * revision hasn't moved is left alone, a changed one is re-chunked and
+ * diffed against its stored entries by contentHash — unchanged chunks
+ * keep their rows and embeddings, new ones are embedded, the rest retire
+ * — and a deleted page's entries retire with it. Pages created since are
+ * added while the source is under WIKI_MAX_PAGES.
+ *
+ * Naturally resumable: a retry after a partial sync finds the pages it
+ * already finished at their new revisions and skips them.
+ */
+async function syncWiki(job: LoreImportJob, baseUrl: string, apiBase: string, since: Date): Promise<void> {
+  const syncStartedAt = new Date()
+  const tracked = await prisma.loreWikiPage.findMany({
+    where: { jobId: job.id },
+    select: { pageId: true, title: true, revisionId: true },
+  })
+  const trackedIds = new Set(tracked.map(p => p.pageId))
+
+  const changes = await listRecentChanges(apiBase, since)
+  let toCheck = tracked
+  let newCandidates: WikiPageSummary[]
+  if (changes) {
+    toCheck = tracked.filter(p => changes.pageIds.has(p.pageId) || changes.titles.has(p.title))
+    newCandidates = changes.created.filter(p => !trackedIds.has(p.pageId))
+  } else {
+    console.log(`🔎 No usable recentchanges window for job ${job.id} — checking every imported page`)
+    const listed = await listAllPages(apiBase, WIKI_RANKING_CANDIDATE_CEILING)
+    newCandidates = listed.filter(p => !trackedIds.has(p.pageId))
+  }
+
+  const revisions = await fetchPageRevisions(apiBase, toCheck.map(p => p.pageId))
+  const removed = toCheck.filter(p => !revisions.has(p.pageId))
+  const updated = toCheck
+    .filter(p => revisions.has(p.pageId) && revisions.get(p.pageId)!.revisionId !== p.revisionId)
+    .map(p => ({ pageId: p.pageId, ...revisions.get(p.pageId)! }))
+
+  newCandidates = await dropExcludedPages(apiBase, job.excludeCategories, newCandidates)
+  const room = Math.max(0, WIKI_MAX_PAGES - (tracked.length - removed.length))
+  if (newCandidates.length > room && room > 0) {
+    try {
+      newCandidates = await rankPagesByLength(apiBase, newCandidates)
+    } catch (err) {
+      console.error('Wiki page length ranking failed — adding new pages in listed order:', err)
+    }
+  }
+  const addedRevisions = await fetchPageRevisions(apiBase, newCandidates.slice(0, room).map(p => p.pageId))
+  const added = newCandidates
+    .slice(0, room)
+    .filter(p => addedRevisions.has(p.pageId))
+    .map(p => ({ pageId: p.pageId, ...addedRevisions.get(p.pageId)! }))
+
+  const summary: WikiSyncSummary = {
+    pagesChecked: toCheck.length,
+    pagesUpdated: 0,
+    pagesAdded: 0,
+    pagesRemoved: removed.length,
+    entriesAdded: 0,
+    entriesRetired: 0,
+  }
 
-  for (let i = 0; i < pages.length; i += WIKI_EXTRACT_BATCH_SIZE) {
-    const batch = pages.slice(i, i + WIKI_EXTRACT_BATCH_SIZE)
+  if (removed.length > 0) {
+    const removedIds = removed.map(p => p.pageId)
+    const retired = await prisma.loreEntry.deleteMany({ where: { jobId: job.id, wikiPageId: { in: removedIds } } })
+    await prisma.loreWikiPage.deleteMany({ where: { jobId: job.id, pageId: { in: removedIds } } })
+    summary.entriesRetired += retired.count
+  }
+
+  const work = [...updated.map(p => ({ ...p, isNew: false })), ...added.map(p => ({ ...p, isNew: true }))]
+  await prisma.loreImportJob.update({ where: { id: job.id }, data: { pagesFound: work.length, pagesDone: 0 } })
+
+  for (let i = 0; i < work.length; i += WIKI_EXTRACT_BATCH_SIZE) {
+    const batch = work.slice(i, i + WIKI_EXTRACT_BATCH_SIZE)
     const extracts = await fetchExtracts(apiBase, batch.map(p => p.title))
 
-    let batchEntries = 0
-    for (const p of batch) {
-      const text = extracts.get(p.title)
-      if (!text || !text.trim()) continue
-      const chunks = chunkText(text, p.title)
-      batchEntries += await storeLoreChunks(job.campaignId, job.id, chunks, pageUrl(baseUrl, p.title))
+    for (const page of batch) {
+      const text = extracts.get(page.title)
+      // No text back for a changed page is more likely a fetch hiccup than
+      // an emptied page: keep its old entries and old revision so the next
+      // sync tries again.
+      if (!text || !text.trim()) {
+        if (page.isNew) await recordWikiPage(job.id, page.pageId, page.title, page.revisionId)
+        continue
+      }
+
+      const chunks = chunkText(text, page.title)
+      const freshHashes = new Set(chunks.map(c => chunkContentHash(c.content)))
+      const existing = await prisma.loreEntry.findMany({
+        where: { jobId: job.id, wikiPageId: page.pageId },
+        select: { id: true, contentHash: true },
+      })
+      const stale = existing.filter(e => !freshHashes.has(e.contentHash)).map(e => e.id)
+      if (stale.length > 0) {
+        const retired = await prisma.loreEntry.deleteMany({ where: { id: { in: stale } } })
+        summary.entriesRetired += retired.count
+      }
+      summary.entriesAdded += await storeLoreChunks(job.campaignId, job.id, chunks, pageUrl(baseUrl, page.title), page.pageId)
+      await recordWikiPage(job.id, page.pageId, page.title, page.revisionId)
+      if (page.isNew) summary.pagesAdded++
+      else summary.pagesUpdated++
     }
 
     await prisma.loreImportJob.update({
       where: { id: job.id },
-      data: { pagesDone: { increment: batch.length }, entriesCreated: { increment: batchEntries } },
+      data: { pagesDone: { increment: batch.length } },
     })
   }
+
+  // pagesAvailable keeps meaning "pages the cap kept out": the ones the
+  // crawl originally skipped (unless a full listing just re-counted them
+  // among newCandidates) plus new ones there was no room for.
+  const skippedBefore = changes ? Math.max(0, job.pagesAvailable - tracked.length) : 0
+  const [pageCount, entryCount] = await Promise.all([
+    prisma.loreWikiPage.count({ where: { jobId: job.id } }),
+    prisma.loreEntry.count({ where: { jobId: job.id } }),
+  ])
+  await prisma.loreImportJob.update({
+    where: { id: job.id },
+    data: {
+      pagesFound: pageCount,
+      pagesDone: pageCount,
+      pagesAvailable: pageCount + skippedBefore + (newCandidates.length - added.length),
+      entriesCreated: entryCount,
+      lastSyncedAt: syncStartedAt,
+      lastSyncSummary: summary as unknown as Prisma.InputJsonValue,
+    },
+  })
+}
+
+/**
+ * Filter out pages in the admin's excluded categories. Best-effort per
+ * category: one category's lookup failing doesn't block the others or the
+ * import as a whole.
+ */
+async function dropExcludedPages(
+  apiBase: string,
+  excludeCategories: string[] | null | undefined,
+  pages: WikiPageSummary[]
+): Promise<WikiPageSummary[]> {
+  const categories = Array.isArray(excludeCategories) ? excludeCategories : []
+  if (categories.length === 0 || pages.length === 0) return pages
+
+  const excludedTitles = new Set<string>()
+  for (const category of categories) {
+    try {
+      const members = await fetchCategoryMembers(apiBase, category)
+      for (const title of members) excludedTitles.add(title)
+    } catch (err) {
+      console.error(`Failed to resolve excluded category "${category}" — its pages will still be crawled:`, err)
+    }
+  }
+  return excludedTitles.size > 0 ? pages.filter(p => !excludedTitles.has(p.title)) : pages
+}
+
+function recordWikiPage(jobId: string, pageId: number, title: string, revisionId: number) {
+  return prisma.loreWikiPage.upsert({
+    where: { jobId_pageId: { jobId, pageId } },
+    create: { jobId, pageId, title, revisionId },
+    update: { title, revisionId },
+  })
+}
+
+/**
+ * An uploaded Markdown/PDF/DOCX/EPUB file (or zipped vault), already in
+ * blob storage at job.sourceUrl. Each section — one heading's worth of
+ * text, and for a PDF one page's worth — is chunked on its own, so every
+ * chunk's title and sourceUrl name the heading and page it came from
+ * rather than just the file. "Pages" in the job's progress counters are
+ * sections here.
+ */
+async function importUpload(job: LoreImportJob): Promise<void> {
+  const fileUrl = job.sourceUrl
+  if (!fileUrl) throw new Error('No uploaded file to import')
+
+  const res = await fetch(fileUrl)
+  if (!res.ok) throw new Error(`Failed to read the uploaded file: ${res.status}`)
+  const fileName = uploadFileName(fileUrl)
+  const document = extractDocument(Buffer.from(await res.arrayBuffer()), fileName)
+
+  const documentTitle = job.sourceTitle || document.title || fileName
+  const sections = document.sections
+    .map(section => chunkSections([{
+      title: sectionTitle(documentTitle, section),
+      text: section.text,
+      citation: sectionCitation(fileUrl, section),
+    }]))
+    .filter(chunks => chunks.length > 0)
+  const totalChunks = sections.reduce((sum, chunks) => sum + chunks.length, 0)
+  if (totalChunks === 0) throw new Error('No readable text found in that file')
+
+  let kept = 0
+  let chunkCount = 0
+  while (kept < sections.length && chunkCount + sections[kept].length <= UPLOAD_MAX_CHUNKS) {
+    chunkCount += sections[kept].length
+    kept++
+  }
+  if (kept === 0) {
+    // The first section alone is over the cap — a headingless text dump,
+    // one note that is a whole book. Dropping it whole would store
+    // nothing, so it is the one section cut short.
+    sections[0] = sections[0].slice(0, UPLOAD_MAX_CHUNKS)
+    kept = 1
+  }
+
+  await prisma.loreImportJob.update({
+    where: { id: job.id },
+    data: { pagesFound: kept, pagesAvailable: sections.length },
+  })
+
+  for (let i = 0; i < kept; i += UPLOAD_SECTION_BATCH_SIZE) {
+    const batch = sections.slice(i, Math.min(i + UPLOAD_SECTION_BATCH_SIZE, kept))
+    const stored = await storeLoreChunks(job.campaignId, job.id, batch.flat(), fileUrl)
+    await prisma.loreImportJob.update({
+      where: { id: job.id },
+      data: { pagesDone: { increment: batch.length }, entriesCreated: { increment: stored } },
+    })
+  }
+}
+
+// The original file name, as far as blob storage kept it: the last path
+// segment, whose extension is what format detection falls back on.
+function uploadFileName(fileUrl: string): string {
+  try {
+    return decodeURIComponent(new URL(fileUrl).pathname.split('/').pop() || 'upload')
+  } catch {
+    return 'upload'
+  }
 }
 
 function pageUrl(wikiBaseUrl: string, title: string): string {
@@ -236,12 +537,19 @@ function chunkContentHash(content: string): string {
  * chunk in it; a chunk that still fails there is logged and skipped — so
  * a flaky embedding call on page 80 of 150 doesn't lose everything
  * already imported.
+ *
+ * sourceUrl is the fallback citation; a chunk carrying its own (an
+ * uploaded document's page or heading) is stored with that instead.
+ * wikiPageId tags a wiki page's chunks for sync — including already-stored
+ * ones that don't have it yet, which is how a source imported before page
+ * ids were recorded is adopted without re-embedding anything.
  */
 async function storeLoreChunks(
   campaignId: string,
   jobId: string,
   chunks: TextChunk[],
-  sourceUrl?: string
+  sourceUrl?: string,
+  wikiPageId?: number
 ): Promise<number> {
   let stored = 0
 
@@ -256,6 +564,12 @@ async function storeLoreChunks(
   const skipped = withHash.length - toStore.length
   if (skipped > 0) {
     console.log(`⏭️  Skipping ${skipped} already-stored chunk(s) for job ${jobId} (resumed)`)
+    if (wikiPageId !== undefined) {
+      await prisma.loreEntry.updateMany({
+        where: { jobId, wikiPageId: null, contentHash: { in: withHash.filter(c => alreadyStored.has(c.hash)).map(c => c.hash) } },
+        data: { wikiPageId },
+      })
+    }
   }
 
   for (let i = 0; i < toStore.length; i += EMBED_BATCH_SIZE) {
@@ -284,17 +598,18 @@ async function storeLoreChunks(
       try {
         const inserted = await prisma.$executeRaw`
           INSERT INTO lore_entries (
-            id, "campaignId", "jobId", title, "sourceUrl", content, embedding, tags, "contentHash", "createdAt"
+            id, "campaignId", "jobId", title, "sourceUrl", content, embedding, tags, "contentHash", "wikiPageId", "createdAt"
           ) VALUES (
             gen_random_uuid(),
             ${campaignId},
             ${jobId},
             ${chunk.title},
-            ${sourceUrl ?? null},
+            ${chunk.citation ?? sourceUrl ?? null},
             ${chunk.content},
             ${embeddingString}::vector,
             ARRAY[]::text[],
             ${hash},
+            ${wikiPageId ?? null},
             NOW()
           )
           ON CONFLICT ("jobId", "contentHash") DO NOTHING
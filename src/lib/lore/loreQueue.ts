@@ -1,8 +1,8 @@
 // src/lib/lore/loreQueue.ts
-// Async lore import: a paste, a URL fetch, or a whole wiki crawl can take
-// anywhere from under a second to a couple of minutes, so importing runs
-// off the request path exactly like scene resolution does (see
-// lib/game/resolutionQueue.ts, which this mirrors). Creating a
+// Async lore import: a paste, a URL fetch, or a whole wiki crawl or sync
+// can take anywhere from under a second to a couple of minutes, so
+// importing runs off the request path exactly like scene resolution does
+// (see lib/game/resolutionQueue.ts, which this mirrors). Creating a
 // LoreImportJob returns immediately; the job runs in its own invocation of
 // the internal worker route, and the admin UI polls job status.
 //
@@ -63,10 +63,12 @@ export async function processLoreImportJob(jobId: string): Promise<ProcessResult
   const job = await prisma.loreImportJob.findUnique({ where: { id: jobId } })
   if (!job) return { status: 'skipped' }
 
-  // A retry re-runs the whole source from scratch (chunk boundaries/page
-  // lists aren't stable enough to resume mid-way) — clear whatever this
-  // job stored on its previous, failed attempt so it doesn't duplicate.
-  if (job.attempts > 1) {
+  // A retry re-runs a paste, URL, or upload from scratch — clear whatever
+  // this job stored on its previous, failed attempt so it doesn't
+  // duplicate. A wiki never does: its page list is checkpointed, so a
+  // retried crawl resumes where the last attempt stopped, and a retried
+  // sync must keep the baseline it's diffing against.
+  if (job.attempts > 1 && job.sourceType !== 'WIKI') {
     await prisma.loreEntry.deleteMany({ where: { jobId } })
   }
 
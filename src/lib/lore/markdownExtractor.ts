@@ -0,0 +1,140 @@
+// src/lib/lore/markdownExtractor.ts
+// Markdown (and plain text, which is just Markdown without headings) into
+// heading-scoped sections. Written for what setting bibles actually look
+// like in an Obsidian vault: YAML front matter, [[wikilinks]], ![[embeds]],
+// %%comments%% and callouts alongside ordinary CommonMark headings.
+//
+// Not a Markdown renderer — inline syntax is reduced to the words a reader
+// would see, since the output is embedded and quoted, never displayed as
+// formatted text.
+
+import { SectionBuilder, type DocumentSection } from './documentSections'
+import type { ZipArchive } from './zipArchive'
+
+const FENCE = /^\s{0,3}(```|~~~)/
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const SETEXT_H1 = /^\s{0,3}=+\s*$/
+const SETEXT_H2 = /^\s{0,3}-+\s*$/
+// Vault folders that are tooling, not notes.
+const VAULT_IGNORED_DIRS = /(^|\/)(\.obsidian|\.trash|__MACOSX)\//
+
+/**
+ * Split one Markdown document into sections. The front matter's `title:`
+ * (when present) is returned as the document title; it is otherwise
+ * dropped, since tags and aliases aren't lore.
+ */
+export function extractMarkdown(source: string): { title: string | null; sections: DocumentSection[] } {
+  const builder = new SectionBuilder()
+  const { title, body } = splitFrontMatter(source)
+  appendMarkdown(builder, body)
+  return { title, sections: builder.finish() }
+}
+
+/**
+ * Every note in a zipped Obsidian vault (or any folder of .md files), in
+ * path order. Each note's path — minus the extension — heads its own
+ * outline, so a citation says which note as well as which heading.
+ * Throws once the notes read so far inflate past the archive's
+ * MAX_ZIP_TOTAL_BYTES.
+ */
+export function extractMarkdownVault(zip: ZipArchive): DocumentSection[] {
+  const builder = new SectionBuilder()
+  const notes = zip.names
+    .filter(name => /\.(md|markdown)$/i.test(name) && !VAULT_IGNORED_DIRS.test(name))
+    .sort((a, b) => a.localeCompare(b))
+
+  for (const name of notes) {
+    const source = zip.readText(name)
+    if (!source) continue
+    builder.resetHeadings()
+    // Level 0 sits above every Markdown heading, so a note's own "# Title"
+    // nests under its path instead of replacing it.
+    builder.heading(0, name.replace(/\.(md|markdown)$/i, ''))
+    appendMarkdown(builder, splitFrontMatter(source).body)
+  }
+  return builder.finish()
+}
+
+/** True when a ZIP's entries look like a folder of Markdown notes. */
+export function isMarkdownVault(zip: ZipArchive): boolean {
+  return zip.names.some(name => /\.(md|markdown)$/i.test(name) && !VAULT_IGNORED_DIRS.test(name))
+}
+
+function splitFrontMatter(source: string): { title: string | null; body: string } {
+  const normalized = source.replace(/\r\n?/g, '\n').replace(/^\uFEFF/, '')
+  const match = normalized.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)\s*(?:\n|$)/)
+  if (!match) return { title: null, body: normalized }
+  const titleLine = match[1].match(/^title:\s*(.+)$/m)
+  const title = titleLine ? titleLine[1].trim().replace(/^(['"])(.*)\1$/, '$2').trim() || null : null
+  return { title, body: normalized.slice(match[0].length) }
+}
+
+function appendMarkdown(builder: SectionBuilder, body: string): void {
+  const lines = body.replace(/%%[\s\S]*?%%/g, '').split('\n')
+  let paragraph: string[] = []
+  let fence: string | null = null
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) builder.paragraph(paragraph.join('\n'))
+    paragraph = []
+  }
+
+  for (const line of lines) {
+    const fenceMatch = line.match(FENCE)
+    if (fence) {
+      // Code blocks stay verbatim — a stat block or a table of spells is
+      // still lore — but nothing inside one is a heading.
+      if (fenceMatch && fenceMatch[1] === fence) {
+        fence = null
+        endParagraph()
+      } else {
+        paragraph.push(line)
+      }
+      continue
+    }
+    if (fenceMatch) {
+      endParagraph()
+      fence = fenceMatch[1]
+      continue
+    }
+
+    const atx = line.match(ATX_HEADING)
+    if (atx) {
+      endParagraph()
+      builder.heading(atx[1].length, cleanInline(atx[2]))
+      continue
+    }
+
+    // A one-line paragraph underlined with === or --- is a heading; a lone
+    // --- after a blank line is a horizontal rule, which only ends the
+    // paragraph.
+    if (paragraph.length === 1 && (SETEXT_H1.test(line) || SETEXT_H2.test(line))) {
+      const heading = paragraph[0]
+      paragraph = []
+      builder.heading(SETEXT_H1.test(line) ? 1 : 2, heading)
+      continue
+    }
+    if (SETEXT_H2.test(line) || !line.trim()) {
+      endParagraph()
+      continue
+    }
+
+    const text = cleanInline(line.replace(/^\s{0,3}>\s?/, '').replace(/^\[![\w-]+\][+-]?\s*/, ''))
+    if (text) paragraph.push(text)
+  }
+  endParagraph()
+}
+
+function cleanInline(text: string): string {
+  return text
+    .replace(/!\[\[[^\]]*\]\]/g, '')                      // ![[embedded file]]
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')                 // ![image](url)
+    .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')        // [[Note|shown text]]
+    .replace(/\[\[([^\]#]*)#?([^\]]*)\]\]/g, (_, note: string, heading: string) => note || heading)
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')              // [text](url)
+    .replace(/(\*\*|__|~~|==)(.+?)\1/g, '$2')
+    .replace(/\*([^*\s][^*]*)\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .trim()
+}
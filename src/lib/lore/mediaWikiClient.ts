@@ -21,8 +21,30 @@ export interface WikiCategorySummary {
   pageCount: number
 }
 
+export interface WikiPageRevision {
+  /** Current title — may differ from the one a page was imported under, if it's since been moved. */
+  title: string
+  revisionId: number
+}
+
+/** What changed on a wiki since a point in time, from list=recentchanges. */
+export interface WikiRecentChanges {
+  /** Every page id an edit, creation, or log action (move, delete) touched. */
+  pageIds: Set<number>
+  /** The same, by title — a deleted page's log entry carries its title but no usable id. */
+  titles: Set<string>
+  /** Pages created in the window, newest first. */
+  created: WikiPageSummary[]
+}
+
 const CANDIDATE_API_PATHS = ['/api.php', '/w/api.php']
 
+// How far back listRecentChanges trusts the wiki to remember. MediaWiki
+// prunes recentchanges after $wgRCMaxAge — 90 days by default, but hosts
+// set it lower and the API doesn't say what it is — so a window past this
+// is treated as unknowable and the caller checks every page instead.
+export const RECENT_CHANGES_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+
 /**
  * Given any URL pointing somewhere on a wiki (its main page, an article, or
  * just its domain root), find that wiki's MediaWiki Action API endpoint.
@@ -221,6 +243,102 @@ export async function rankPagesByLength(
   return [...candidates].sort((a, b) => (lengths.get(b.title) ?? -1) - (lengths.get(a.title) ?? -1))
 }
 
+/**
+ * Each page's current title and revision id, by page id (prop=info with
+ * pageids=, batched). A page that no longer exists is simply absent from
+ * the result. Unlike the other lookups here this throws on a failed
+ * request rather than failing open: a sync reads "absent" as "deleted",
+ * and a transient error must never read as the whole wiki being gone.
+ */
+export async function fetchPageRevisions(
+  apiBase: string,
+  pageIds: number[],
+  batchSize = 50
+): Promise<Map<number, WikiPageRevision>> {
+  const result = new Map<number, WikiPageRevision>()
+  for (let i = 0; i < pageIds.length; i += batchSize) {
+    const params = new URLSearchParams({
+      action: 'query',
+      prop: 'info',
+      pageids: pageIds.slice(i, i + batchSize).join('|'),
+      format: 'json',
+    })
+    const res = await fetch(`${apiBase}?${params.toString()}`, {
+      headers: { 'User-Agent': 'MythOS-LoreImport/1.0' },
+    })
+    if (!res.ok) throw new Error(`Failed to read page revisions from the wiki: ${res.status}`)
+    const data = await res.json()
+    const pages = data?.query?.pages
+    if (!pages || typeof pages !== 'object') throw new Error('Unexpected response reading page revisions from the wiki')
+    for (const page of Object.values(pages) as any[]) {
+      if (!page || page.missing !== undefined || typeof page.pageid !== 'number' || typeof page.lastrevid !== 'number') continue
+      result.set(page.pageid, { title: page.title, revisionId: page.lastrevid })
+    }
+  }
+  return result
+}
+
+/**
+ * Every main-namespace edit, page creation, and log action (moves,
+ * deletions) since `since`, via list=recentchanges. Returns null when the
+ * answer can't be trusted to be complete — `since` is older than
+ * RECENT_CHANGES_MAX_AGE_MS, the request fails, or more than `maxChanges`
+ * changes came back — and the caller falls back to checking every page's
+ * revision directly.
+ */
+export async function listRecentChanges(
+  apiBase: string,
+  since: Date,
+  maxChanges = 5000
+): Promise<WikiRecentChanges | null> {
+  if (Date.now() - since.getTime() > RECENT_CHANGES_MAX_AGE_MS) return null
+
+  const changes: WikiRecentChanges = { pageIds: new Set(), titles: new Set(), created: [] }
+  let rccontinue: string | undefined
+  let seen = 0
+
+  try {
+    do {
+      const params = new URLSearchParams({
+        action: 'query',
+        list: 'recentchanges',
+        // Listed newest first, so the older bound is rcend.
+        rcend: since.toISOString(),
+        rcnamespace: '0',
+        rctype: 'edit|new|log',
+        rcprop: 'title|ids',
+        rclimit: '500',
+        format: 'json',
+      })
+      if (rccontinue) params.set('rccontinue', rccontinue)
+
+      const res = await fetch(`${apiBase}?${params.toString()}`, {
+        headers: { 'User-Agent': 'MythOS-LoreImport/1.0' },
+      })
+      if (!res.ok) return null
+      const data = await res.json()
+      const batch = data?.query?.recentchanges
+      if (!Array.isArray(batch)) return null
+
+      for (const change of batch) {
+        seen++
+        if (typeof change?.pageid === 'number' && change.pageid > 0) changes.pageIds.add(change.pageid)
+        if (typeof change?.title === 'string') changes.titles.add(change.title)
+        if (change?.type === 'new' && change.pageid > 0 && change.title) {
+          changes.created.push({ pageId: change.pageid, title: change.title })
+        }
+      }
+      if (seen > maxChanges) return null
+
+      rccontinue = data?.continue?.rccontinue
+    } while (rccontinue)
+  } catch {
+    return null
+  }
+
+  return changes
+}
+
 /**
  * Extract a MediaWiki page title from a canonical article URL (the
  * ".../wiki/Page_Title" shape every MediaWiki site uses, Fandom included).
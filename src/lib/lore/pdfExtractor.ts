@@ -0,0 +1,710 @@
+// src/lib/lore/pdfExtractor.ts
+// Text out of a PDF, page by page, with headings recovered from font size.
+// PDFs have no notion of a paragraph or a heading — only glyphs drawn at
+// positions in some font at some size — so structure is inferred: a
+// vertical gap ends a paragraph, and a line set noticeably larger than the
+// document's body text is a heading, ranked by size.
+//
+// Hand-rolled on Node's zlib rather than a PDF library: what a setting
+// bible needs is the text layer of ordinary exported documents (Word,
+// Google Docs, InDesign, LaTeX), which is objects, Flate-compressed
+// content streams, and ToUnicode maps. Deliberately out of scope, each
+// with its own error or a quietly empty page:
+//   - encrypted PDFs (refused — "remove the password and upload again")
+//   - scanned pages with no text layer (no OCR here; an all-image PDF is
+//     refused rather than imported as nothing)
+//   - stream filters other than FlateDecode (LZW, ASCII85 — rare in
+//     anything exported this century)
+
+import { inflateSync, constants as zlibConstants } from 'zlib'
+import { SectionBuilder, type DocumentSection } from './documentSections'
+
+// A lore upload is capped well below this by size anyway; this bounds the
+// page-tree walk against a malformed or hostile /Kids cycle.
+export const MAX_PDF_PAGES = 2000
+
+// Per-stream ceiling on inflated size, the PDF counterpart of zipArchive's
+// MAX_ZIP_ENTRY_BYTES: a page's content stream is kilobytes, and a small
+// upload whose stream inflates to gigabytes must not take the worker's
+// memory with it.
+export const MAX_PDF_STREAM_BYTES = 50 * 1024 * 1024
+
+// A line at least this much larger than the body text is a heading
+// candidate. 15% clears the usual noise (a bold run, a slightly larger
+// first line) without missing the small-caps section heads typical of RPG
+// books.
+const HEADING_SIZE_RATIO = 1.15
+const MAX_HEADING_CHARS = 120
+
+// ---------------------------------------------------------------------------
+// Object model and lexer
+
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfValue[]
+interface PdfName { kind: 'name'; value: string }
+// A string's raw bytes, one char per byte (latin1); decoded per font later.
+interface PdfString { kind: 'string'; bytes: string }
+interface PdfRef { kind: 'ref'; num: number }
+interface PdfDict { kind: 'dict'; entries: Record<string, PdfValue> }
+interface PdfOperator { kind: 'op'; value: string }
+
+interface PdfObject {
+  value: PdfValue
+  stream?: Buffer
+}
+
+const WHITESPACE = new Set(['\0', '\t', '\n', '\f', '\r', ' '])
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%'])
+
+class Lexer {
+  constructor(readonly src: string, public pos = 0) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos]
+      if (WHITESPACE.has(c)) this.pos++
+      else if (c === '%') while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++
+      else break
+    }
+  }
+
+  /** The next value, or an operator keyword in a content stream; undefined at end of input. */
+  next(): PdfValue | PdfOperator | undefined {
+    this.skipWhitespace()
+    if (this.pos >= this.src.length) return undefined
+    const c = this.src[this.pos]
+
+    if (c === '<' && this.src[this.pos + 1] === '<') {
+      this.pos += 2
+      const entries: Record<string, PdfValue> = {}
+      for (;;) {
+        this.skipWhitespace()
+        if (this.pos >= this.src.length) break
+        if (this.src.startsWith('>>', this.pos)) {
+          this.pos += 2
+          break
+        }
+        const key = this.next()
+        if (!isName(key)) continue
+        const value = this.next()
+        if (value === undefined || isOperator(value)) continue
+        entries[key.value] = value
+      }
+      return { kind: 'dict', entries }
+    }
+    if (c === '<') {
+      const end = this.src.indexOf('>', this.pos)
+      const hex = this.src.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-fA-F]/g, '')
+      this.pos = end < 0 ? this.src.length : end + 1
+      return { kind: 'string', bytes: hexToBytes(hex) }
+    }
+    if (c === '(') return this.literalString()
+    if (c === '[') {
+      this.pos++
+      const items: PdfValue[] = []
+      for (;;) {
+        this.skipWhitespace()
+        if (this.pos >= this.src.length) break
+        if (this.src[this.pos] === ']') {
+          this.pos++
+          break
+        }
+        const item = this.next()
+        if (item === undefined) break
+        if (!isOperator(item)) items.push(item)
+      }
+      return items
+    }
+    if (c === '/') {
+      this.pos++
+      const token = this.token()
+      return { kind: 'name', value: token.replace(/#([0-9a-fA-F]{2})/g, (_, h: string) => String.fromCharCode(parseInt(h, 16))) }
+    }
+    if (c === ']' || c === '>' || c === ')' || c === '{' || c === '}') {
+      this.pos++
+      return this.next()
+    }
+
+    const token = this.token()
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      // "12 0 R" is a reference, not two numbers and an operator.
+      if (/^\d+$/.test(token)) {
+        const ref = this.src.slice(this.pos, this.pos + 32).match(/^\s+(\d+)\s+R(?![^\s/<>[\]()%])/)
+        if (ref) {
+          this.pos += ref[0].length
+          return { kind: 'ref', num: Number(token) }
+        }
+      }
+      return Number(token)
+    }
+    if (token === 'true') return true
+    if (token === 'false') return false
+    if (token === 'null') return null
+    return { kind: 'op', value: token }
+  }
+
+  private token(): string {
+    const start = this.pos
+    while (this.pos < this.src.length && !WHITESPACE.has(this.src[this.pos]) && !DELIMITERS.has(this.src[this.pos])) this.pos++
+    // A lone unexpected delimiter still has to move the lexer forward.
+    if (this.pos === start) this.pos++
+    return this.src.slice(start, this.pos)
+  }
+
+  private literalString(): PdfString {
+    this.pos++
+    let depth = 1
+    let out = ''
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos++]
+      if (c === '\\') {
+        const e = this.src[this.pos++]
+        if (e === 'n') out += '\n'
+        else if (e === 'r') out += '\r'
+        else if (e === 't') out += '\t'
+        else if (e === 'b') out += '\b'
+        else if (e === 'f') out += '\f'
+        else if (e === '\r') {
+          if (this.src[this.pos] === '\n') this.pos++
+        } else if (e === '\n') {
+          // Line continuation.
+        } else if (e >= '0' && e <= '7') {
+          let octal = e
+          while (octal.length < 3 && this.src[this.pos] >= '0' && this.src[this.pos] <= '7') octal += this.src[this.pos++]
+          out += String.fromCharCode(parseInt(octal, 8) & 0xff)
+        } else if (e !== undefined) {
+          out += e
+        }
+      } else if (c === '(') {
+        depth++
+        out += c
+      } else if (c === ')') {
+        if (--depth === 0) break
+        out += c
+      } else {
+        out += c
+      }
+    }
+    return { kind: 'string', bytes: out }
+  }
+}
+
+function isName(v: unknown): v is PdfName {
+  return typeof v === 'object' && v !== null && !Array.isArray(v) && (v as PdfName).kind === 'name'
+}
+function isOperator(v: unknown): v is PdfOperator {
+  return typeof v === 'object' && v !== null && !Array.isArray(v) && (v as PdfOperator).kind === 'op'
+}
+function isDict(v: unknown): v is PdfDict {
+  return typeof v === 'object' && v !== null && !Array.isArray(v) && (v as PdfDict).kind === 'dict'
+}
+function isString(v: unknown): v is PdfString {
+  return typeof v === 'object' && v !== null && !Array.isArray(v) && (v as PdfString).kind === 'string'
+}
+function isRef(v: unknown): v is PdfRef {
+  return typeof v === 'object' && v !== null && !Array.isArray(v) && (v as PdfRef).kind === 'ref'
+}
+
+function hexToBytes(hex: string): string {
+  const even = hex.length % 2 === 0 ? hex : `${hex}0`
+  let out = ''
+  for (let i = 0; i < even.length; i += 2) out += String.fromCharCode(parseInt(even.slice(i, i + 2), 16))
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Document: objects, streams, page tree
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>()
+
+  constructor(data: Buffer) {
+    const src = data.toString('latin1')
+    const header = /(\d+)\s+(\d+)\s+obj\b/g
+    let match: RegExpExecArray | null
+    while ((match = header.exec(src))) {
+      try {
+        const lexer = new Lexer(src, match.index + match[0].length)
+        const value = lexer.next()
+        if (value === undefined || isOperator(value)) continue
+        const object: PdfObject = { value }
+        lexer.skipWhitespace()
+        if (isDict(value) && src.startsWith('stream', lexer.pos)) {
+          let start = lexer.pos + 'stream'.length
+          if (src[start] === '\r') start++
+          if (src[start] === '\n') start++
+          const declared = value.entries.Length
+          let end = typeof declared === 'number' ? start + declared : -1
+          if (end < 0 || !/^\s*endstream/.test(src.slice(end, end + 20))) {
+            end = src.indexOf('endstream', start)
+            if (end < 0) end = src.length
+          }
+          object.stream = data.subarray(start, end)
+          // Skip the stream body: binary data can contain anything,
+          // including bytes that look like another object header.
+          header.lastIndex = end
+        }
+        // Later definitions win: an incrementally-updated file appends the
+        // new version of an object after the old one.
+        this.objects.set(Number(match[1]), object)
+      } catch {
+        // One unreadable object shouldn't sink the rest of the file.
+      }
+    }
+    this.expandObjectStreams()
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isRef(value) && depth < 32) return this.resolve(this.objects.get(value.num)?.value, depth + 1)
+    return value
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value)
+    return isDict(resolved) ? resolved : null
+  }
+
+  /** A stream's decoded bytes, or null when it isn't a stream or uses a filter we don't decode. */
+  streamBytes(value: PdfValue | undefined): Buffer | null {
+    if (!isRef(value)) return null
+    const object = this.objects.get(value.num)
+    if (!object?.stream || !isDict(object.value)) return null
+    return decodeStream(object.stream, this.resolve(object.value.entries.Filter))
+  }
+
+  /** Page dictionaries in page order, each with its inherited /Resources. */
+  pages(): Array<{ page: PdfDict; resources: PdfDict | null }> {
+    const catalog = Array.from(this.objects.values()).map(o => o.value).filter(isDict).find(d => nameOf(d.entries.Type) === 'Catalog')
+    const out: Array<{ page: PdfDict; resources: PdfDict | null }> = []
+    const seen = new Set<number>()
+
+    const walk = (ref: PdfValue | undefined, inherited: PdfDict | null) => {
+      if (out.length >= MAX_PDF_PAGES) return
+      if (isRef(ref)) {
+        if (seen.has(ref.num)) return
+        seen.add(ref.num)
+      }
+      const node = this.dict(ref)
+      if (!node) return
+      const resources = this.dict(node.entries.Resources) ?? inherited
+      const kids = this.resolve(node.entries.Kids)
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(kid, resources)
+      } else if (nameOf(node.entries.Type) !== 'Pages') {
+        out.push({ page: node, resources })
+      }
+    }
+
+    if (catalog) walk(catalog.entries.Pages, null)
+    if (out.length === 0) {
+      // No usable catalog (a damaged file): fall back to every page object,
+      // in object-number order — usually, though not necessarily, page order.
+      const numbers = Array.from(this.objects.keys()).sort((a, b) => a - b)
+      for (const num of numbers) {
+        const value = this.objects.get(num)!.value
+        if (isDict(value) && nameOf(value.entries.Type) === 'Page') out.push({ page: value, resources: this.dict(value.entries.Resources) })
+        if (out.length >= MAX_PDF_PAGES) break
+      }
+    }
+    return out
+  }
+
+  // PDF 1.5+ files keep most small objects — page dictionaries included —
+  // packed inside compressed "object streams". Unpack them into the same
+  // table; a direct definition of the same number takes precedence.
+  private expandObjectStreams(): void {
+    for (const object of Array.from(this.objects.values())) {
+      if (!object.stream || !isDict(object.value) || nameOf(object.value.entries.Type) !== 'ObjStm') continue
+      const bytes = decodeStream(object.stream, this.resolve(object.value.entries.Filter))
+      const count = object.value.entries.N
+      const first = object.value.entries.First
+      if (!bytes || typeof count !== 'number' || typeof first !== 'number') continue
+
+      const src = bytes.toString('latin1')
+      const offsets = src.slice(0, first).trim().split(/\s+/).map(Number)
+      for (let i = 0; i + 1 < offsets.length && i / 2 < count; i += 2) {
+        const num = offsets[i]
+        if (this.objects.has(num)) continue
+        try {
+          const value = new Lexer(src, first + offsets[i + 1]).next()
+          if (value !== undefined && !isOperator(value)) this.objects.set(num, { value })
+        } catch {
+          // Skip the one object.
+        }
+      }
+    }
+  }
+}
+
+function nameOf(value: PdfValue | undefined): string | null {
+  return isName(value) ? value.value : null
+}
+
+function decodeStream(raw: Buffer, filter: PdfValue | undefined): Buffer | null {
+  const filters = Array.isArray(filter) ? filter : filter === undefined || filter === null ? [] : [filter]
+  let bytes = raw
+  for (const f of filters) {
+    const name = nameOf(f)
+    if (name !== 'FlateDecode' && name !== 'Fl') return null
+    try {
+      bytes = inflateSync(bytes, { maxOutputLength: MAX_PDF_STREAM_BYTES })
+    } catch (error) {
+      if (error instanceof RangeError) throw new Error('PDF stream is too large to import')
+      try {
+        // A stream whose /Length was off by a byte or two often inflates
+        // fine once zlib stops insisting on a clean end.
+        bytes = inflateSync(bytes, { finishFlush: zlibConstants.Z_SYNC_FLUSH, maxOutputLength: MAX_PDF_STREAM_BYTES })
+      } catch (retryError) {
+        if (retryError instanceof RangeError) throw new Error('PDF stream is too large to import')
+        return null
+      }
+    }
+  }
+  return bytes
+}
+
+// ---------------------------------------------------------------------------
+// Fonts: turning string bytes into text
+
+interface FontDecoder {
+  codeLength: 1 | 2
+  toUnicode: Map<number, string> | null
+}
+
+// Windows-1252's 0x80–0x9F block, which latin1 leaves as control codes —
+// where WinAnsiEncoding puts curly quotes, dashes and the ellipsis.
+const WIN_ANSI_EXTRAS: Record<number, string> = {
+  0x80: '€', 0x85: '…', 0x91: '‘', 0x92: '’', 0x93: '“', 0x94: '”', 0x95: '•', 0x96: '–', 0x97: '—', 0x99: '™',
+}
+
+function fontDecoder(doc: PdfDocument, fontRef: PdfValue | undefined): FontDecoder {
+  const font = doc.dict(fontRef)
+  const composite = nameOf(font?.entries.Subtype) === 'Type0'
+  const cmapBytes = font ? doc.streamBytes(font.entries.ToUnicode) : null
+  const parsed = cmapBytes ? parseToUnicode(cmapBytes.toString('latin1')) : null
+  return {
+    codeLength: parsed?.codeLength ?? (composite ? 2 : 1),
+    toUnicode: parsed?.map ?? null,
+  }
+}
+
+function parseToUnicode(cmap: string): { codeLength: 1 | 2; map: Map<number, string> } {
+  const map = new Map<number, string>()
+  const space = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/)
+  const codeLength: 1 | 2 = space && space[1].length > 2 ? 2 : 1
+
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const pair of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))) {
+      map.set(parseInt(pair[1], 16), utf16be(pair[2]))
+    }
+  }
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    for (const range of Array.from(block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g))) {
+      const lo = parseInt(range[1], 16)
+      const hi = Math.min(parseInt(range[2], 16), lo + 0xffff)
+      if (range[3] !== undefined) {
+        // Consecutive codes map to consecutive characters: bump the last
+        // UTF-16 unit of the destination.
+        const base = range[3]
+        const head = base.slice(0, -4)
+        const tail = parseInt(base.slice(-4) || '0', 16)
+        for (let code = lo; code <= hi; code++) map.set(code, utf16be(head + (tail + code - lo).toString(16).padStart(4, '0')))
+      } else {
+        const targets = Array.from(range[4].matchAll(/<([0-9a-fA-F]*)>/g))
+        targets.forEach((t, i) => {
+          if (lo + i <= hi) map.set(lo + i, utf16be(t[1]))
+        })
+      }
+    }
+  }
+  return { codeLength, map }
+}
+
+function utf16be(hex: string): string {
+  const units: number[] = []
+  for (let i = 0; i + 4 <= hex.length; i += 4) units.push(parseInt(hex.slice(i, i + 4), 16))
+  if (units.length === 0 && hex.length === 2) units.push(parseInt(hex, 16))
+  return String.fromCharCode(...units)
+}
+
+function decodeText(bytes: string, font: FontDecoder | undefined): string {
+  if (!font) return latin1Text(bytes)
+  let out = ''
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    const code = font.codeLength === 2 ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1) : bytes.charCodeAt(i)
+    const mapped = font.toUnicode?.get(code)
+    if (mapped !== undefined) out += mapped
+    // A two-byte font with no ToUnicode map has glyph ids, not characters:
+    // nothing sensible to emit.
+    else if (font.codeLength === 1) out += latin1Text(bytes[i])
+  }
+  return out
+}
+
+function latin1Text(bytes: string): string {
+  let out = ''
+  for (let i = 0; i < bytes.length; i++) {
+    const code = bytes.charCodeAt(i)
+    out += WIN_ANSI_EXTRAS[code] ?? (code < 0x20 && code !== 0x09 ? '' : bytes[i])
+  }
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Content streams: positioned lines of text
+
+interface TextLine {
+  text: string
+  size: number
+  y: number
+}
+
+/**
+ * Interpret one page's content stream just far enough to know what text
+ * it draws, at what effective size, on which baseline. Graphics operators
+ * are skipped; only the text state and the CTM's scale are tracked.
+ */
+function pageLines(content: string, fonts: Map<string, FontDecoder>): TextLine[] {
+  const lexer = new Lexer(content)
+  const lines: TextLine[] = []
+  let operands: PdfValue[] = []
+  let current: TextLine | null = null
+
+  let font: FontDecoder | undefined
+  let fontSize = 12
+  let leading = 0
+  let tm = [1, 0, 0, 1, 0, 0]
+  let tlm = [1, 0, 0, 1, 0, 0]
+  let ctmScale = 1
+  const ctmStack: number[] = []
+
+  const effectiveSize = () => Math.abs(fontSize * Math.hypot(tm[2], tm[3]) * ctmScale) || fontSize
+  const newLine = () => {
+    if (current && current.text.trim()) lines.push({ ...current, text: current.text.replace(/\s+/g, ' ').trim() })
+    current = null
+  }
+  const show = (text: string) => {
+    if (!text) return
+    const y = tm[5] * ctmScale
+    if (current && Math.abs(current.y - y) > effectiveSize() * 0.5) newLine()
+    if (!current) current = { text: '', size: effectiveSize(), y }
+    current.text += text
+    current.size = Math.max(current.size, effectiveSize())
+  }
+  // A move within the same baseline is a gap between words; anything else
+  // starts a new line.
+  const setLineMatrix = (next: number[]) => {
+    if (current && Math.abs(next[5] * ctmScale - current.y) > 0.01) newLine()
+    else if (current && !current.text.endsWith(' ')) current.text += ' '
+    tlm = next
+    tm = [...next]
+  }
+  const moveLine = (tx: number, ty: number) => {
+    setLineMatrix([tlm[0], tlm[1], tlm[2], tlm[3], tx * tlm[0] + ty * tlm[2] + tlm[4], tx * tlm[1] + ty * tlm[3] + tlm[5]])
+  }
+
+  for (;;) {
+    const token = lexer.next()
+    if (token === undefined) break
+    if (!isOperator(token)) {
+      operands.push(token)
+      continue
+    }
+    const num = (i: number) => (typeof operands[i] === 'number' ? (operands[i] as number) : 0)
+
+    switch (token.value) {
+      case 'q':
+        ctmStack.push(ctmScale)
+        break
+      case 'Q':
+        ctmScale = ctmStack.pop() ?? 1
+        break
+      case 'cm':
+        ctmScale *= Math.hypot(num(2), num(3)) || 1
+        break
+      case 'BT':
+        tm = [1, 0, 0, 1, 0, 0]
+        tlm = [1, 0, 0, 1, 0, 0]
+        break
+      case 'ET':
+        break
+      case 'Tf':
+        font = isName(operands[0]) ? fonts.get(operands[0].value) : undefined
+        fontSize = num(1)
+        break
+      case 'TL':
+        leading = num(0)
+        break
+      case 'Td':
+        moveLine(num(0), num(1))
+        break
+      case 'TD':
+        leading = -num(1)
+        moveLine(num(0), num(1))
+        break
+      case 'Tm':
+        setLineMatrix([num(0), num(1), num(2), num(3), num(4), num(5)])
+        break
+      case 'T*':
+        moveLine(0, -leading)
+        break
+      case 'Tj':
+        if (isString(operands[0])) show(decodeText(operands[0].bytes, font))
+        break
+      case "'":
+        moveLine(0, -leading)
+        if (isString(operands[0])) show(decodeText(operands[0].bytes, font))
+        break
+      case '"':
+        moveLine(0, -leading)
+        if (isString(operands[2])) show(decodeText(operands[2].bytes, font))
+        break
+      case 'TJ': {
+        const parts = Array.isArray(operands[0]) ? operands[0] : []
+        let text = ''
+        for (const part of parts) {
+          if (isString(part)) text += decodeText(part.bytes, font)
+          // A large negative adjustment (in thousandths of an em) is how
+          // many generators set a word space instead of emitting one.
+          else if (typeof part === 'number' && part < -200) text += ' '
+        }
+        show(text)
+        break
+      }
+      case 'ID': {
+        // Inline image data: binary until "EI" — skip it whole.
+        const end = content.indexOf('EI', lexer.pos)
+        lexer.pos = end < 0 ? content.length : end + 2
+        break
+      }
+    }
+    operands = []
+  }
+  newLine()
+  return lines
+}
+
+// ---------------------------------------------------------------------------
+// Structure: paragraphs and headings
+
+/**
+ * Extract a PDF's text as page-numbered, heading-scoped sections, plus the
+ * /Title from its document information, when present. Throws for an
+ * encrypted file, for one with no text layer at all, and for one with a
+ * stream that inflates past MAX_PDF_STREAM_BYTES.
+ */
+export function extractPdf(data: Buffer): { title: string | null; sections: DocumentSection[] } {
+  const src = data.toString('latin1')
+  const doc = new PdfDocument(data)
+  if (/\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(src)) {
+    throw new Error('Encrypted PDFs are not supported — remove the password and upload again')
+  }
+
+  const pages = doc.pages().map(({ page, resources }) => {
+    const fonts = new Map<string, FontDecoder>()
+    const fontDict = doc.dict(resources?.entries.Font)
+    for (const [name, ref] of Object.entries(fontDict?.entries ?? {})) fonts.set(name, fontDecoder(doc, ref))
+
+    const contents = doc.resolve(page.entries.Contents)
+    const refs = Array.isArray(contents) ? contents : [page.entries.Contents]
+    const content = refs.map(ref => doc.streamBytes(ref)?.toString('latin1') ?? '').join('\n')
+    return pageLines(content, fonts)
+  })
+
+  if (pages.every(lines => lines.length === 0)) {
+    throw new Error('No extractable text in this PDF — scanned pages need OCR before they can be imported')
+  }
+
+  const headingLevel = headingLevels(pages.flat())
+  const builder = new SectionBuilder()
+  pages.forEach((lines, i) => {
+    builder.startPage(i + 1)
+    let paragraph: string[] = []
+    let previous: TextLine | null = null
+    const endParagraph = () => {
+      if (paragraph.length > 0) builder.paragraph(joinLines(paragraph))
+      paragraph = []
+    }
+
+    for (let j = 0; j < lines.length; j++) {
+      const line = lines[j]
+      const level = headingLevel(line)
+      if (level) {
+        endParagraph()
+        // A heading that wraps onto a second line at the same size is
+        // still one heading.
+        let text = line.text
+        while (j + 1 < lines.length && headingLevel(lines[j + 1]) === level && Math.abs(lines[j + 1].size - line.size) < 0.5 && line.y - lines[j + 1].y < line.size * 1.6) {
+          text += ` ${lines[++j].text}`
+        }
+        builder.heading(level, text)
+        previous = null
+        continue
+      }
+      // A gap of much more than one line's height — or a jump back up the
+      // page, i.e. a new column — ends the paragraph.
+      if (previous && (previous.y - line.y > Math.max(previous.size, line.size) * 1.8 || line.y > previous.y)) endParagraph()
+      paragraph.push(line.text)
+      previous = line
+    }
+    endParagraph()
+  })
+
+  return { title: documentTitle(doc, src), sections: builder.finish() }
+}
+
+/**
+ * Rank the sizes set noticeably above the body text: the largest is level
+ * 1, the next 2, and so on. "Body text" is the size with the most
+ * characters set in it, not the most lines — a page of short headings
+ * shouldn't outvote the prose.
+ */
+function headingLevels(lines: TextLine[]): (line: TextLine) => number | null {
+  const bySize = new Map<number, number>()
+  for (const line of lines) {
+    const size = Math.round(line.size * 2) / 2
+    bySize.set(size, (bySize.get(size) ?? 0) + line.text.length)
+  }
+  let body = 0
+  let most = -1
+  bySize.forEach((chars, size) => {
+    if (chars > most) {
+      most = chars
+      body = size
+    }
+  })
+
+  const headingSizes = Array.from(bySize.keys())
+    .filter(size => size >= body * HEADING_SIZE_RATIO)
+    .sort((a, b) => b - a)
+    .slice(0, 6)
+
+  return (line: TextLine) => {
+    if (line.text.length > MAX_HEADING_CHARS || !/\p{L}/u.test(line.text)) return null
+    const index = headingSizes.indexOf(Math.round(line.size * 2) / 2)
+    return index < 0 ? null : index + 1
+  }
+}
+
+// Lines of one paragraph, rejoined: a word hyphenated across the break is
+// put back together; everything else gets a space.
+function joinLines(lines: string[]): string {
+  return lines.reduce((text, line) => {
+    if (!text) return line
+    if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(line)) return text.slice(0, -1) + line
+    return `${text} ${line}`
+  }, '')
+}
+
+function documentTitle(doc: PdfDocument, src: string): string | null {
+  const trailerInfo = src.match(/\/Info\s+(\d+)\s+\d+\s+R/g)
+  if (!trailerInfo) return null
+  const last = trailerInfo[trailerInfo.length - 1].match(/(\d+)\s+\d+\s+R/)!
+  const info = doc.dict({ kind: 'ref', num: Number(last[1]) })
+  const title = info ? doc.resolve(info.entries.Title) : undefined
+  if (!isString(title)) return null
+  const bytes = title.bytes
+  const text = bytes.startsWith('\xfe\xff')
+    ? utf16be(Buffer.from(bytes.slice(2), 'latin1').toString('hex'))
+    : latin1Text(bytes)
+  return text.trim() || null
+}
@@ -47,7 +47,7 @@ import { buildLoreDigest } from './loreDigest'
 import { retrieveRelevantLore } from '@/lib/ai/loreRetrieval'
 import { createFactionsForCampaign, createNPCsForCampaign, createLocationsForCampaign } from '@/lib/templates/campaign-templates'
 import { slugifyCapabilityKey, resolvePrerequisiteLinks } from '@/lib/game/capabilities'
-import { BASIC_MOVES } from '@/lib/pbta-moves'
+import { resolveMoveSet } from '@/lib/moveSets'
 
 // The extras call already carries factions + capability keys, so it needs
 // less raw canon than base world generation does. Raised 3x alongside
@@ -373,7 +373,7 @@ export async function reseedWorldFromLore(campaignId: string, options: ReseedOpt
 
   // --- Move flavor -----------------------------------------------------------
   // Same recovery reasoning as archetypes below: a live campaign missing
-  // flavor for one or more of the fixed BASIC_MOVES means a previous
+  // flavor for one or more of its move set's moves means a previous
   // generation attempt failed/was interrupted, so "Reseed from lore" is a
   // real fix for that too, not just a fresh-mode escape hatch. Fresh mode
   // replaces provisional flavor with canon-grounded flavor (same as
@@ -385,7 +385,8 @@ export async function reseedWorldFromLore(campaignId: string, options: ReseedOpt
     select: { baseMoveKey: true },
   })
   const existingMoveFlavorKeys = new Set(existingMoveFlavor.map(m => m.baseMoveKey as string))
-  const wantMoves = fresh || existingMoveFlavorKeys.size < BASIC_MOVES.length
+  const moveSet = resolveMoveSet(campaign.moveSetId)
+  const wantMoves = fresh || moveSet.moves.some(m => !existingMoveFlavorKeys.has(m.key))
   let movesFlavored = 0
   if (wantMoves) {
     const moveFlavor = await generateMoveFlavor(
@@ -393,10 +394,11 @@ export async function reseedWorldFromLore(campaignId: string, options: ReseedOpt
       campaign.description || '',
       campaign.universe || 'Original',
       (statLabelsSet ? generated.statLabels : (campaign.statLabels as any)) || undefined,
-      lore.digest.slice(0, EXTRAS_DIGEST_CHARS)
+      lore.digest.slice(0, EXTRAS_DIGEST_CHARS),
+      moveSet
     )
     if (moveFlavor && moveFlavor.length > 0) {
-      const rollTypeByKey = new Map(BASIC_MOVES.map(m => [m.key, m.rollType]))
+      const rollTypeByKey = new Map(moveSet.moves.map(m => [m.key, m.rollType]))
       const toCreate = fresh ? moveFlavor : moveFlavor.filter(m => !existingMoveFlavorKeys.has(m.baseMoveKey))
       if (toCreate.length > 0) {
         if (fresh && existingMoveFlavorKeys.size > 0) {
@@ -19,6 +19,17 @@ export interface ChunkOptions {
 export interface TextChunk {
   title: string
   content: string
+  // Where in the source this chunk came from, when that's finer than the
+  // source as a whole — a page or heading of an uploaded document (see
+  // chunkSections). Stored as the chunk's LoreEntry.sourceUrl in place of
+  // the job-wide one.
+  citation?: string
+}
+
+export interface TextSection {
+  title: string
+  text: string
+  citation?: string
 }
 
 const DEFAULT_MAX_CHARS = 1800
@@ -98,3 +109,18 @@ export function chunkText(text: string, title: string, options: ChunkOptions = {
   }
   return chunks.map((content, i) => ({ title: `${title} (part ${i + 1})`, content }))
 }
+
+/**
+ * Chunk a structured document section by section, so no chunk straddles a
+ * heading or a page boundary and every chunk keeps its own section's title
+ * and citation. A section that fits is one chunk titled exactly as the
+ * section; a longer one splits as chunkText does, numbered within the
+ * section.
+ */
+export function chunkSections(sections: TextSection[], options: ChunkOptions = {}): TextChunk[] {
+  return sections.flatMap(section =>
+    chunkText(section.text, section.title, options).map(chunk =>
+      section.citation ? { ...chunk, citation: section.citation } : chunk
+    )
+  )
+}
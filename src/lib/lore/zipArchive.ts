@@ -0,0 +1,141 @@
+// src/lib/lore/zipArchive.ts
+// Just enough of the ZIP format to read DOCX and EPUB uploads, which are
+// both ZIP containers of XML. Node's own zlib does the inflating; there is
+// no archive dependency to pull in for what amounts to reading the central
+// directory and a handful of entries.
+//
+// Deliberately read-only and narrow: stored and deflated entries only (the
+// only two methods Word and EPUB tooling produce), no encryption, no
+// ZIP64 — an upload using any of those is refused with a message the
+// admin can act on rather than half-read.
+
+import { inflateRawSync } from 'zlib'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+// The end-of-central-directory record is 22 bytes plus an optional comment
+// of up to 65535 — that's as far back from the end as it can start.
+const EOCD_MAX_SEARCH = 22 + 0xffff
+
+// Per-entry ceiling on inflated size. A real setting bible's document.xml
+// is a few MB; this is what stops a small upload that inflates to
+// gigabytes (a zip bomb) from taking the worker's memory with it.
+export const MAX_ZIP_ENTRY_BYTES = 50 * 1024 * 1024
+// Ceiling on everything one opened archive hands out, across all reads.
+// The per-entry cap alone still lets a vault of a thousand entries, or an
+// EPUB spine naming one chapter a thousand times, inflate gigabytes from
+// a small upload. Every reader (DOCX, EPUB, Markdown vault) shares it.
+export const MAX_ZIP_TOTAL_BYTES = 2 * MAX_ZIP_ENTRY_BYTES
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+export interface ZipArchive {
+  /** Every entry path in the archive, in central-directory order. */
+  names: string[]
+  /**
+   * An entry's bytes, or null when the archive has no such entry. Throws
+   * once this archive's reads together pass MAX_ZIP_TOTAL_BYTES.
+   */
+  read(name: string): Buffer | null
+  /** An entry decoded as UTF-8 (BOM stripped), or null when absent. */
+  readText(name: string): string | null
+}
+
+/**
+ * Index a ZIP archive's central directory. Throws when the buffer isn't a
+ * ZIP at all, or uses a feature outside the narrow subset above; entries
+ * are only inflated when read.
+ */
+export function openZipArchive(data: Buffer): ZipArchive {
+  const eocd = findEndOfCentralDirectory(data)
+  if (eocd < 0) throw new Error('Not a valid ZIP archive')
+
+  const entryCount = data.readUInt16LE(eocd + 10)
+  const directoryOffset = data.readUInt32LE(eocd + 16)
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const entries = new Map<string, ZipEntry>()
+  let offset = directoryOffset
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('ZIP archive central directory is corrupt')
+    }
+    const flags = data.readUInt16LE(offset + 8)
+    const method = data.readUInt16LE(offset + 10)
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const nameLength = data.readUInt16LE(offset + 28)
+    const extraLength = data.readUInt16LE(offset + 30)
+    const commentLength = data.readUInt16LE(offset + 32)
+    const localHeaderOffset = data.readUInt32LE(offset + 42)
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    if (flags & 0x1) throw new Error('Password-protected files are not supported')
+    entries.set(name, { method, compressedSize, localHeaderOffset })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  let bytesRead = 0
+  const read = (name: string): Buffer | null => {
+    const entry = entries.get(name)
+    if (!entry) return null
+    // Inflating stops at whichever limit is nearer, so an over-budget read
+    // never allocates more than the budget had left.
+    const remaining = MAX_ZIP_TOTAL_BYTES - bytesRead
+    const bytes = readEntry(data, name, entry, Math.min(MAX_ZIP_ENTRY_BYTES, remaining))
+    bytesRead += bytes.length
+    if (bytesRead > MAX_ZIP_TOTAL_BYTES) throw new Error(ZIP_TOTAL_TOO_LARGE)
+    return bytes
+  }
+
+  return {
+    names: Array.from(entries.keys()),
+    read,
+    readText(name) {
+      const bytes = read(name)
+      return bytes ? bytes.toString('utf8').replace(/^\uFEFF/, '') : null
+    },
+  }
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  const stop = Math.max(0, data.length - EOCD_MAX_SEARCH)
+  for (let i = data.length - 22; i >= stop; i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) return i
+  }
+  return -1
+}
+
+const ZIP_TOTAL_TOO_LARGE = 'ZIP archive is too large to import — its files add up to more than can be read at once'
+
+function readEntry(data: Buffer, name: string, entry: ZipEntry, maxBytes: number): Buffer {
+  const header = entry.localHeaderOffset
+  if (header + 30 > data.length || data.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new Error(`ZIP entry ${name} is corrupt`)
+  }
+  // The local header's own name/extra lengths, not the central directory's:
+  // the two extra fields are allowed to differ.
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28)
+  const raw = data.subarray(start, start + entry.compressedSize)
+
+  if (entry.method === 0) return raw
+  if (entry.method === 8) {
+    try {
+      // zlib won't take a zero allowance; a one-byte one still fails any
+      // non-empty entry once the budget is spent.
+      return inflateRawSync(raw, { maxOutputLength: Math.max(1, maxBytes) })
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new Error(maxBytes < MAX_ZIP_ENTRY_BYTES ? ZIP_TOTAL_TOO_LARGE : `ZIP entry ${name} is too large to import`)
+      }
+      throw new Error(`ZIP entry ${name} could not be decompressed`)
+    }
+  }
+  throw new Error(`ZIP entry ${name} uses an unsupported compression method`)
+}
@@ -15,6 +15,8 @@ export interface MapToken {
     id: string
     name: string
   }
+  /** Token.characterId — set only on a party token placed for tactical mode. */
+  characterId?: string
 }
 
 export interface MapZone {
@@ -66,7 +68,8 @@ function mapToMapData(dbMap: any): MapData {
       imageUrl: token.metadata?.imageUrl,
       isPC: token.isPlayer,
       isVisible: token.isVisible,
-      character: token.metadata?.character
+      character: token.metadata?.character,
+      characterId: token.characterId || undefined
     })),
     zones: (dbMap.zones || []).map((zone: any) => ({
       id: zone.id,
@@ -276,16 +279,20 @@ export const MapService = {
     }
   },
 
-  // NOTE (#412): there is deliberately no single-token move/delete API
-  // here. Maps in MythOS are ILLUSTRATIVE — generated per scene, read-only
-  // for players (PlayerMapViewer), and replaced wholesale by
-  // clearMapContents when a scene reuses a location. Per-token mutation
-  // only ever existed to serve AIVisualService's token-movement methods,
-  // which had no callers of their own and were removed with them. Grid
-  // combat is parked, not in progress; if it is ever picked up, this is
-  // where its mutation surface goes, alongside the authorization and
-  // realtime-broadcast story a player-driven token needs and these
-  // functions never had.
+  // #412: per-token mutation used to be deliberately absent — maps were
+  // illustrative only, and the old move methods had no callers and no
+  // authorization story. Tactical mode (lib/game/tactical/) is that story:
+  // this is only the write. WHO may move a token, and whether the scene is
+  // tactical at all, is decided by the token route (maps/[mapId]/tokens/
+  // [tokenId]) before it gets here, and the route broadcasts the result.
+  // Coordinates arrive already snapped to the grid (tactical/grid.ts's
+  // snapToBoard).
+  async moveToken(tokenId: string, x: number, y: number): Promise<void> {
+    await prisma.token.update({
+      where: { id: tokenId },
+      data: { x, y }
+    })
+  },
 
   // Wipes a map's zones/tokens before regenerating them for a new scene
   // that's reusing the same location — without this, generateZones/
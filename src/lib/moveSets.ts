@@ -0,0 +1,191 @@
+// src/lib/moveSets.ts
+// The move-set catalogue: which moves a campaign rolls against.
+//
+// Every campaign used to roll the same seven BASIC_MOVES on the same
+// 10+/7-9/6- bands, and lib/ai/moveFlavor.ts could only rename them — a
+// horror campaign and a court-intrigue campaign were the same game with
+// different labels. A move set is the mechanical half of that difference:
+// its roster (which moves exist at all), its stat mapping (which stats each
+// move may roll), and its outcome thresholds. Flavor still sits on top of
+// whichever set is chosen, keyed by Move.baseMoveKey, exactly as before.
+//
+// The catalogue is CLOSED and hand-authored, the same posture as
+// campaign-templates.ts and game/integrity/worldRules.ts: a campaign picks
+// one by id at creation (Campaign.moveSetId) and nothing — no generator,
+// no import — can author a new set or alter one's numbers. The id is a
+// compile-time key, not a DB relation, for the same reason Campaign
+// .templateId is.
+//
+// Pure module, no prisma import: the creation form renders the picker from
+// this list directly.
+
+import {
+  BASIC_MOVES,
+  DEFAULT_OUTCOME_THRESHOLDS,
+  type OutcomeThresholds,
+  type PbtAMove,
+} from '@/lib/pbta-moves'
+
+export interface MoveSet {
+  /** Stable id — what Campaign.moveSetId stores. Never rename one. */
+  id: string
+  /** Host-facing name, shown at campaign creation. */
+  name: string
+  /**
+   * One or two sentences on how this set feels to play. Deliberately
+   * number-free: it is shown on the player help page too, and the teaching
+   * copy never publishes thresholds (see tutorial/content/mechanics.ts).
+   */
+  summary: string
+  thresholds: OutcomeThresholds
+  moves: PbtAMove[]
+}
+
+export const DEFAULT_MOVE_SET_ID = 'core'
+
+function basic(key: string): PbtAMove {
+  const move = BASIC_MOVES.find(m => m.key === key)
+  if (!move) throw new Error(`moveSets: no basic move "${key}"`)
+  return move
+}
+
+const CORE_SET: MoveSet = {
+  id: DEFAULT_MOVE_SET_ID,
+  name: 'Classic',
+  summary: 'The all-round set: every kind of action has a move, any trait can carry the attempt it fits, and a middling roll usually gets you there at a cost.',
+  thresholds: DEFAULT_OUTCOME_THRESHOLDS,
+  moves: BASIC_MOVES,
+}
+
+// Horror: clean wins are rare, but you still usually scrape through — the
+// cost is the genre. Nerve and force are narrowed to the stats that fit
+// them, and the roster gains the two moves a monster hunt actually runs on.
+const DREAD_SET: MoveSet = {
+  id: 'dread',
+  name: 'Dread',
+  summary: 'For horror. Clean successes are rare and most wins leave a mark; investigating the unknown and protecting others are moves of their own.',
+  thresholds: { strongHit: 11, weakHit: 7 },
+  moves: [
+    { ...basic('act_under_fire'), stats: ['cool'] },
+    { ...basic('go_aggro'), stats: ['hard'] },
+    {
+      key: 'protect_someone',
+      name: 'Protect Someone',
+      trigger: 'When you put yourself in harm\'s way to shield someone else',
+      description: 'Roll+hard or +cool. On a strong hit, they are safe and you take only what you chose to. On a weak hit, they are safe but it costs you.',
+      rollType: 'roll+hard',
+      outcomes: {
+        strongHit: 'They are safe, and you take only what you meant to.',
+        weakHit: 'They are safe, but you pay for it — hurt, exposed, or left behind.',
+        miss: 'You get there too late, or you make things worse for both of you.',
+      },
+      category: 'basic',
+      stats: ['hard', 'cool'],
+    },
+    {
+      key: 'investigate_a_mystery',
+      name: 'Investigate a Mystery',
+      trigger: 'When you dig into something wrong — a body, a scene, an old record',
+      description: 'Roll+sharp. On a strong hit, you learn something true and useful. On a weak hit, you learn it, but something learns about you.',
+      rollType: 'roll+sharp',
+      outcomes: {
+        strongHit: 'You learn something true about what you are facing, and how to use it.',
+        weakHit: 'You learn something true, but the digging draws attention.',
+        miss: 'What you find is a lie, a trap, or a door you should not have opened.',
+      },
+      category: 'basic',
+      stats: ['sharp'],
+    },
+    { ...basic('read_a_situation'), stats: ['sharp', 'cool'] },
+    { ...basic('seduce_or_manipulate'), stats: ['hot'] },
+    { ...basic('open_your_brain'), stats: ['weird'] },
+    basic('help_or_interfere'),
+  ],
+}
+
+// Intrigue: nobody here throws a punch that matters, so there is no
+// violence move at all — a classifier that reaches for one finds nothing
+// and the action resolves freeform. Deals almost always close, and almost
+// always with strings; what you are owed is a move in its own right.
+const INTRIGUE_SET: MoveSet = {
+  id: 'intrigue',
+  name: 'Court & Coin',
+  summary: 'For political intrigue. There is no move for violence; bargains nearly always close but rarely cleanly, and calling in what you are owed is a move of its own.',
+  thresholds: { strongHit: 10, weakHit: 6 },
+  moves: [
+    { ...basic('act_under_fire'), stats: ['cool'] },
+    { ...basic('seduce_or_manipulate'), stats: ['hot', 'cool'] },
+    { ...basic('read_a_person'), stats: ['sharp', 'hot'] },
+    { ...basic('read_a_situation'), stats: ['sharp'] },
+    {
+      key: 'call_in_a_debt',
+      name: 'Call In a Debt',
+      trigger: 'When you press someone to honour what they owe you — or lean on what you owe them',
+      description: 'Roll+hot or +cool, and what lies between you counts double. On a strong hit, they pay in full. On a weak hit, they pay, but resent it.',
+      rollType: 'roll+hot',
+      outcomes: {
+        strongHit: 'They pay what they owe, in full and in public.',
+        weakHit: 'They pay, but grudgingly — and they will remember who asked.',
+        miss: 'They refuse, and now everyone knows your paper is worth nothing.',
+      },
+      category: 'basic',
+      stats: ['hot', 'cool'],
+      debtWeight: 2,
+    },
+    {
+      key: 'work_the_network',
+      name: 'Work the Network',
+      trigger: 'When you plant a rumour, trace one back, or move word through people who trust you',
+      description: 'Roll+hot or +sharp. On a strong hit, word goes where you meant it to. On a weak hit, it arrives, but changed along the way.',
+      rollType: 'roll+hot',
+      outcomes: {
+        strongHit: 'Word travels exactly where you sent it, and nobody traces it back.',
+        weakHit: 'Word arrives, but bent in the telling — or someone knows it came from you.',
+        miss: 'The rumour turns and runs straight back at you.',
+      },
+      category: 'basic',
+      stats: ['hot', 'sharp'],
+    },
+    basic('help_or_interfere'),
+  ],
+}
+
+export const MOVE_SETS: readonly MoveSet[] = [CORE_SET, DREAD_SET, INTRIGUE_SET]
+
+/** The set with exactly this id, or null. For validating a request. */
+export function getMoveSet(id: string | null | undefined): MoveSet | null {
+  if (!id) return null
+  return MOVE_SETS.find(s => s.id === id) ?? null
+}
+
+/**
+ * The set a campaign rolls against. An unknown id — a row written by a
+ * newer deploy that has since rolled back, or a hand-edited export — falls
+ * back to the core set rather than dropping the campaign's mechanics
+ * entirely, the same fail-open stance as the rest of resolution.ts.
+ */
+export function resolveMoveSet(id: string | null | undefined): MoveSet {
+  return getMoveSet(id) ?? CORE_SET
+}
+
+/** A move in this set by its stable key. */
+export function findMoveByKey(set: MoveSet, key: string): PbtAMove | undefined {
+  return set.moves.find(m => m.key === key)
+}
+
+/** A move in this set by its mechanical name — what the classifier returns. */
+export function findMoveByName(set: MoveSet, name: string): PbtAMove | undefined {
+  return set.moves.find(m => m.name === name)
+}
+
+/** "11+ / 7-10 / 6-" — for receipts, never for teaching copy. */
+export function describeThresholds(thresholds: OutcomeThresholds): string {
+  return `${thresholds.strongHit}+ / ${thresholds.weakHit}-${thresholds.strongHit - 1} / ${thresholds.weakHit - 1}-`
+}
+
+export function isDefaultThresholds(thresholds: OutcomeThresholds): boolean {
+  return (
+    thresholds.strongHit === DEFAULT_OUTCOME_THRESHOLDS.strongHit &&
+    thresholds.weakHit === DEFAULT_OUTCOME_THRESHOLDS.weakHit
+  )
+}
@@ -0,0 +1,247 @@
+// The email digest is the only "the world moved" surface that reaches a
+// player who never opens the app. These pin what it promises: it goes out
+// on the player's own cadence and not more often, each window starts where
+// the last one ended (nothing reported twice, nothing skipped), an empty
+// window sends nothing, and a failed send is retried rather than lost.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { db, sendDigest, loadAbsenceJournal } = vi.hoisted(() => ({
+  db: {
+    notification: { count: vi.fn(), findMany: vi.fn() },
+    campaignMembership: { findMany: vi.fn() },
+    scene: { findMany: vi.fn() },
+    userNotificationSettings: { findMany: vi.fn(), update: vi.fn() },
+  },
+  sendDigest: vi.fn(),
+  loadAbsenceJournal: vi.fn(),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('../email-service', () => ({ EmailService: { sendDigest } }))
+vi.mock('@/lib/game/absenceJournalQuery', () => ({ loadAbsenceJournal }))
+vi.mock('@/lib/appUrl', () => ({ getAppUrl: () => 'https://mythos.test' }))
+
+import {
+  isDigestDue,
+  digestWindowStart,
+  isDigestEmpty,
+  buildDigest,
+  sendDueDigests,
+  unsubscribeUrls,
+  DIGEST_PERIOD_MS,
+  MAX_WORLD_LINES_PER_CAMPAIGN,
+} from '../emailDigest'
+
+const HOUR = 60 * 60 * 1000
+const now = new Date('2026-09-01T09:00:00Z')
+const ago = (hours: number) => new Date(now.getTime() - hours * HOUR)
+
+function journal(entries: Array<{ id: string; field: string; targetName: string }>, totalEvents = entries.length) {
+  return {
+    entries: entries.map((e) => ({ ...e, category: 'factions', turnNumber: 3, createdAt: now, targetType: 'FACTION', targetId: 'f1', significant: true, importance: 'MAJOR' })),
+    categoriesPresent: ['factions'],
+    totalEvents,
+    turnRange: { from: 3, to: 3 },
+    truncated: false,
+  }
+}
+
+const emptyJournal = journal([])
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  db.notification.count.mockResolvedValue(0)
+  db.notification.findMany.mockResolvedValue([])
+  db.campaignMembership.findMany.mockResolvedValue([])
+  db.scene.findMany.mockResolvedValue([])
+  db.userNotificationSettings.findMany.mockResolvedValue([])
+  db.userNotificationSettings.update.mockResolvedValue({})
+  loadAbsenceJournal.mockResolvedValue(emptyJournal)
+  sendDigest.mockResolvedValue(true)
+})
+
+describe('cadence', () => {
+  it('is never due when off, and always due the first time', () => {
+    expect(isDigestDue('OFF', null, now)).toBe(false)
+    expect(isDigestDue('DAILY', null, now)).toBe(true)
+    expect(isDigestDue('WEEKLY', null, now)).toBe(true)
+  })
+
+  it('tolerates a cron run a little earlier than yesterday’s, but not a second run the same day', () => {
+    expect(isDigestDue('DAILY', ago(23.9), now)).toBe(true)
+    expect(isDigestDue('DAILY', ago(6), now)).toBe(false)
+  })
+
+  it('sends weekly digests a week apart', () => {
+    expect(isDigestDue('WEEKLY', ago(24 * 6), now)).toBe(false)
+    expect(isDigestDue('WEEKLY', ago(24 * 7 - 1), now)).toBe(true)
+  })
+
+  it('starts the window at the last digest, or one period back for a first', () => {
+    expect(digestWindowStart('DAILY', ago(30), now)).toEqual(ago(30))
+    expect(digestWindowStart('WEEKLY', null, now)).toEqual(new Date(now.getTime() - DIGEST_PERIOD_MS.WEEKLY))
+  })
+
+  it('builds unsubscribe links for each scope', () => {
+    expect(unsubscribeUrls('a b')).toEqual({
+      digest: 'https://mythos.test/api/notifications/unsubscribe?token=a%20b&scope=digest',
+      all: 'https://mythos.test/api/notifications/unsubscribe?token=a%20b&scope=email',
+    })
+  })
+})
+
+describe('buildDigest', () => {
+  const membership = (campaignId: string, lastViewedAt: Date | null = null) => ({
+    campaignId, role: 'PLAYER', lastViewedAt, campaign: { title: `Campaign ${campaignId}` },
+  })
+
+  it('lists unread notifications from the window and counts every unread one', async () => {
+    db.notification.count.mockResolvedValue(12)
+    db.notification.findMany.mockResolvedValue([
+      { title: 'Your turn', actionUrl: '/campaigns/c1/story', campaign: { title: 'The Reach' } },
+      { title: 'Friend request', actionUrl: null, campaign: null },
+    ])
+    const digest = await buildDigest('u1', ago(24), now)
+    expect(digest.unread).toEqual({
+      total: 12,
+      items: [
+        { title: 'Your turn', campaignTitle: 'The Reach', url: 'https://mythos.test/campaigns/c1/story' },
+        { title: 'Friend request', campaignTitle: null, url: null },
+      ],
+    })
+    expect(db.notification.findMany.mock.calls[0][0].where.createdAt).toEqual({ gt: ago(24) })
+  })
+
+  it('reads each world through the fogged absence journal, from the later of the window and the last visit', async () => {
+    db.campaignMembership.findMany.mockResolvedValue([membership('c1', ago(2)), membership('c2', ago(100))])
+    loadAbsenceJournal.mockImplementation(async (campaignId: string) =>
+      campaignId === 'c1' ? journal([{ id: 'e1', field: 'warDeclared', targetName: 'The Guild' }], 9) : emptyJournal
+    )
+
+    const digest = await buildDigest('u1', ago(24), now)
+
+    expect(loadAbsenceJournal).toHaveBeenCalledWith('c1', ago(2), 'PLAYER')
+    expect(loadAbsenceJournal).toHaveBeenCalledWith('c2', ago(24), 'PLAYER')
+    expect(digest.worlds).toEqual([{
+      campaignId: 'c1',
+      title: 'Campaign c1',
+      lines: ['The Guild went to war while you were away.'],
+      totalEvents: 9,
+      url: 'https://mythos.test/campaigns/c1',
+    }])
+  })
+
+  it('leaves out a campaign whose guest pass has run out', async () => {
+    const rows = [{ ...membership('c1'), expiresAt: null }, { ...membership('c2'), role: 'GUEST', expiresAt: ago(1) }]
+    // Applies the query's expiry clauses the way Postgres would.
+    db.campaignMembership.findMany.mockImplementation(async ({ where }: any) =>
+      rows.filter((m) => where.OR.some((clause: any) => (clause.expiresAt === null ? m.expiresAt === null : m.expiresAt !== null && m.expiresAt > clause.expiresAt.gt)))
+    )
+    loadAbsenceJournal.mockResolvedValue(journal([{ id: 'e1', field: 'warDeclared', targetName: 'The Guild' }]))
+
+    const digest = await buildDigest('u1', ago(24), now)
+
+    expect(loadAbsenceJournal).toHaveBeenCalledTimes(1)
+    expect(loadAbsenceJournal).toHaveBeenCalledWith('c1', ago(24), 'PLAYER')
+    expect(digest.worlds.map((w) => w.campaignId)).toEqual(['c1'])
+  })
+
+  it('caps the lines per world', async () => {
+    db.campaignMembership.findMany.mockResolvedValue([membership('c1')])
+    const many = Array.from({ length: MAX_WORLD_LINES_PER_CAMPAIGN + 3 }, (_, i) => ({ id: `e${i}`, field: 'collapsed', targetName: `F${i}` }))
+    loadAbsenceJournal.mockResolvedValue(journal(many))
+    const digest = await buildDigest('u1', ago(24), now)
+    expect(digest.worlds[0].lines).toHaveLength(MAX_WORLD_LINES_PER_CAMPAIGN)
+  })
+
+  it('lists scenes still waiting on this player', async () => {
+    db.campaignMembership.findMany.mockResolvedValue([membership('c1')])
+    db.scene.findMany.mockResolvedValue([{ campaignId: 'c1', sceneNumber: 4 }])
+    const digest = await buildDigest('u1', ago(24), now)
+    expect(db.scene.findMany.mock.calls[0][0].where).toEqual({
+      campaignId: { in: ['c1'] },
+      status: 'AWAITING_ACTIONS',
+      waitingOnUsers: { array_contains: ['u1'] },
+    })
+    expect(digest.pendingTurns).toEqual([{ campaignTitle: 'Campaign c1', sceneNumber: 4, url: 'https://mythos.test/campaigns/c1/story' }])
+  })
+
+  it('is empty when nothing happened — old unread notifications alone are not news', async () => {
+    db.notification.count.mockResolvedValue(3)
+    expect(isDigestEmpty(await buildDigest('u1', ago(24), now))).toBe(true)
+  })
+})
+
+describe('sendDueDigests', () => {
+  const settings = (overrides: Record<string, unknown> = {}) => ({
+    id: 's1', userId: 'u1', digestCadence: 'DAILY', lastDigestAt: null, digestUnsubscribeToken: 'tok',
+    user: { email: 'ash@example.com', name: 'Ash' },
+    ...overrides,
+  })
+
+  function withNews() {
+    db.campaignMembership.findMany.mockResolvedValue([{ campaignId: 'c1', role: 'PLAYER', lastViewedAt: null, campaign: { title: 'The Reach' } }])
+    db.scene.findMany.mockResolvedValue([{ campaignId: 'c1', sceneNumber: 2 }])
+  }
+
+  it('only considers opted-in users in a campaign, oldest digest first, bounded', async () => {
+    await sendDueDigests(now)
+    const query = db.userNotificationSettings.findMany.mock.calls[0][0]
+    expect(query.where.emailEnabled).toBe(true)
+    expect(query.where.user).toEqual({ campaignMemberships: { some: {} } })
+    expect(query.where.OR.map((o: { digestCadence: string }) => o.digestCadence)).toEqual(['DAILY', 'WEEKLY'])
+    expect(query.orderBy).toEqual({ lastDigestAt: { sort: 'asc', nulls: 'first' } })
+    expect(query.take).toBeGreaterThan(0)
+  })
+
+  it('sends the digest and starts the next window now', async () => {
+    withNews()
+    db.userNotificationSettings.findMany.mockResolvedValue([settings()])
+
+    const result = await sendDueDigests(now)
+
+    expect(sendDigest).toHaveBeenCalledWith('ash@example.com', 'Ash', 'DAILY', expect.objectContaining({
+      pendingTurns: [expect.objectContaining({ sceneNumber: 2 })],
+    }), unsubscribeUrls('tok'))
+    expect(db.userNotificationSettings.update).toHaveBeenCalledWith({ where: { id: 's1' }, data: { lastDigestAt: now } })
+    expect(result).toEqual({ considered: 1, sent: 1, empty: 0, failed: 0 })
+  })
+
+  it('mints the unsubscribe token before the first email goes out', async () => {
+    withNews()
+    db.userNotificationSettings.findMany.mockResolvedValue([settings({ digestUnsubscribeToken: null })])
+
+    await sendDueDigests(now)
+
+    const mint = db.userNotificationSettings.update.mock.calls[0][0]
+    expect(mint.data.digestUnsubscribeToken).toEqual(expect.any(String))
+    expect(sendDigest.mock.calls[0][4]).toEqual(unsubscribeUrls(mint.data.digestUnsubscribeToken))
+    expect(db.userNotificationSettings.update.mock.invocationCallOrder[0]).toBeLessThan(sendDigest.mock.invocationCallOrder[0])
+  })
+
+  it('sends nothing for an empty window but still moves it on', async () => {
+    db.userNotificationSettings.findMany.mockResolvedValue([settings()])
+    const result = await sendDueDigests(now)
+    expect(sendDigest).not.toHaveBeenCalled()
+    expect(db.userNotificationSettings.update).toHaveBeenCalledWith({ where: { id: 's1' }, data: { lastDigestAt: now } })
+    expect(result.empty).toBe(1)
+  })
+
+  it('leaves the window where it was when the send fails, so tomorrow retries it', async () => {
+    withNews()
+    sendDigest.mockResolvedValue(false)
+    db.userNotificationSettings.findMany.mockResolvedValue([settings()])
+    const result = await sendDueDigests(now)
+    expect(db.userNotificationSettings.update).not.toHaveBeenCalled()
+    expect(result).toEqual({ considered: 1, sent: 0, empty: 0, failed: 1 })
+  })
+
+  it('carries on past one user whose digest throws', async () => {
+    withNews()
+    loadAbsenceJournal.mockRejectedValueOnce(new Error('db hiccup'))
+    db.userNotificationSettings.findMany.mockResolvedValue([settings(), settings({ id: 's2', userId: 'u2' })])
+    const result = await sendDueDigests(now)
+    expect(result).toEqual({ considered: 2, sent: 1, empty: 0, failed: 1 })
+  })
+})
@@ -10,7 +10,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 const {
   trackerFindFirstMock, trackerFindManyMock, trackerUpdateMock,
-  membershipFindManyMock, createNotificationMock, campaignFindUniqueMock,
+  membershipFindManyMock, createNotificationMock, campaignFindUniqueMock, emitCampaignEventMock,
 } = vi.hoisted(() => ({
   trackerFindFirstMock: vi.fn(),
   trackerFindManyMock: vi.fn(),
@@ -18,6 +18,7 @@ const {
   membershipFindManyMock: vi.fn(),
   createNotificationMock: vi.fn(),
   campaignFindUniqueMock: vi.fn(),
+  emitCampaignEventMock: vi.fn(),
 }))
 
 vi.mock('@/lib/prisma', () => ({
@@ -36,6 +37,8 @@ vi.mock('../notification-service', () => ({
   NotificationService: { createNotification: (...args: unknown[]) => createNotificationMock(...args) },
 }))
 
+vi.mock('@/lib/webhooks/webhookQueue', () => ({ emitCampaignEvent: emitCampaignEventMock }))
+
 import { TurnTracker } from '../turn-tracker'
 
 beforeEach(() => {
@@ -148,3 +151,23 @@ describe('advanceTurn clears overdue/reminder state (#320)', () => {
     expect(call.data.remindersSent).toEqual([])
   })
 })
+
+describe('sendTurnReminder', () => {
+  it('reminds the current player and tells the campaign webhooks', async () => {
+    trackerFindFirstMock.mockResolvedValue(tracker({ currentTurn: 1, turnDeadline: new Date(Date.now() + 4.5 * 60 * 1000) }))
+    await TurnTracker.sendTurnReminder('c1', 's1')
+
+    expect(createNotificationMock).toHaveBeenCalledWith(expect.objectContaining({ userId: 'u2', type: 'TURN_REMINDER' }))
+    expect(emitCampaignEventMock).toHaveBeenCalledWith('c1', {
+      type: 'TURN_REMINDER',
+      data: { sceneId: 's1', characterName: 'Bob', minutesRemaining: 5 },
+    })
+  })
+
+  it('sends neither once three reminders have gone out', async () => {
+    trackerFindFirstMock.mockResolvedValue(tracker({ remindersSent: [new Date(0), new Date(0), new Date(0)] }))
+    await TurnTracker.sendTurnReminder('c1', 's1')
+    expect(createNotificationMock).not.toHaveBeenCalled()
+    expect(emitCampaignEventMock).not.toHaveBeenCalled()
+  })
+})
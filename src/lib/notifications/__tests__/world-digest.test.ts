@@ -14,8 +14,11 @@ vi.mock('../notification-service', () => ({
   NotificationService: { createNotification: vi.fn().mockResolvedValue(undefined) },
 }))
 
+vi.mock('@/lib/webhooks/webhookQueue', () => ({ emitCampaignEvent: vi.fn().mockResolvedValue(0) }))
+
 import { prisma } from '@/lib/prisma'
 import { NotificationService } from '../notification-service'
+import { emitCampaignEvent } from '@/lib/webhooks/webhookQueue'
 import {
   DISCOVERY_GATED_ENTITY_TYPES,
   DISCOVERY_SOURCE_MODELS,
@@ -283,6 +286,44 @@ describe('sendWorldDigest', () => {
     expect(NotificationService.createNotification).toHaveBeenCalledTimes(1)
   })
 
+  it('gives the webhooks the same lines, and each discovered war its own event without the GM-grade detail', async () => {
+    vi.mocked(prisma.faction.findMany).mockResolvedValueOnce([{ id: 'faction-1' }] as any)
+    vi.mocked(prisma.campaignMembership.findMany).mockResolvedValueOnce([{ userId: 'user-1' }] as any)
+
+    await sendWorldDigest('campaign-1', [
+      makeChange({ reason: 'The Guild wants the Ashen Court\'s mines', newValue: 'Ashen Court' }),
+      makeChange({ entityId: 'faction-2', entityName: 'The Hidden Hand' }),
+    ], simTurn(5))
+
+    const message = vi.mocked(NotificationService.createNotification).mock.calls[0][0].message
+    expect(emitCampaignEvent).toHaveBeenCalledWith('campaign-1', {
+      type: 'WORLD_DIGEST',
+      data: { turnNumber: 5, lines: message.split('\n') },
+    })
+    const wars = vi.mocked(emitCampaignEvent).mock.calls.filter(([, event]) => event.type === 'WAR_DECLARED')
+    expect(wars).toHaveLength(1)
+    expect(wars[0][1]).toEqual({
+      type: 'WAR_DECLARED',
+      data: { turnNumber: 5, change: { entityType: 'FACTION', entityId: 'faction-1', entityName: 'The Thieves Guild', field: 'warDeclared' } },
+    })
+  })
+
+  it('gives every discovered war of the turn its own event, not just the ones the digest lines picked', async () => {
+    vi.mocked(prisma.faction.findMany).mockResolvedValueOnce([{ id: 'faction-1' }, { id: 'faction-2' }] as any)
+    vi.mocked(prisma.campaignMembership.findMany).mockResolvedValueOnce([{ userId: 'user-1' }] as any)
+
+    await sendWorldDigest('campaign-1', [
+      makeChange({ importance: 'NORMAL', significant: false }),
+      makeChange({ entityId: 'faction-2', entityName: 'The Ashen Court', importance: 'NORMAL' }),
+      makeChange({ entityId: 'faction-3', entityName: 'The Hidden Hand' }),
+    ], simTurn(5))
+
+    const wars = vi.mocked(emitCampaignEvent).mock.calls.filter(([, event]) => event.type === 'WAR_DECLARED')
+    expect(wars.map(([, event]) => (event.data as any).change.entityId)).toEqual(['faction-1', 'faction-2'])
+    // Nothing was digest-worthy, so no digest went out alongside them.
+    expect(emitCampaignEvent).not.toHaveBeenCalledWith('campaign-1', expect.objectContaining({ type: 'WORLD_DIGEST' }))
+  })
+
   it('does not notify or journal when there are no campaign members', async () => {
     vi.mocked(prisma.faction.findMany).mockResolvedValueOnce([{ id: 'faction-1' }] as any)
     vi.mocked(prisma.campaignMembership.findMany).mockResolvedValueOnce([])
@@ -413,6 +454,7 @@ describe('rumor variety (#432)', () => {
     const fields = [
       'goalCompleted', 'ambitionCommitted', 'ambitionResolved',
       'territoryClaimed', 'territoryContested', 'importance', 'weather',
+      'treatySigned', 'treatyBroken', 'hazardStarted', 'hazardSpread',
     ]
     const lines = fields.map(field => formatDigestLine(makeNpc({ field }), 3))
 
@@ -425,12 +467,22 @@ describe('rumor variety (#432)', () => {
       'warDeclared', 'warJoined', 'warResolved', 'collapsed', 'founded', 'leadership',
       'goalCompleted', 'ambitionCommitted', 'ambitionResolved',
       'territoryClaimed', 'territoryContested', 'importance', 'weather',
+      'treatySigned', 'treatyBroken', 'hazardStarted', 'hazardSpread',
     ]
     const titles = fields.map(field => titleForDigestChange(makeNpc({ field })))
 
     expect(titles).not.toContain('Word on the Street')
   })
 
+  it('names the hazard a group shares, and falls back to "disaster" for a mix', () => {
+    const plague = (entityId: string, entityName: string, newValue = 'PLAGUE') =>
+      makeNpc({ entityType: 'LOCATION_CONDITION', entityId, entityName, field: 'hazardSpread', newValue })
+    expect(formatDigestGroupLine([plague('l1', 'Millford'), plague('l2', 'Eastgate')], 4)).toMatch(/plague/)
+    const mixed = formatDigestGroupLine([plague('l1', 'Millford'), plague('l2', 'Eastgate', 'FLOOD')], 4)
+    expect(mixed).toMatch(/disaster/)
+    expect(mixed).not.toMatch(/plague|flood/)
+  })
+
   it('tells a scheme that paid off apart from one that collapsed', () => {
     // The only generator that reads the change's own values. A single
     // phrasing covering both would be worse than no rumor: it would report
@@ -3,6 +3,8 @@
 import nodemailer from 'nodemailer';
 import { getAppUrl } from '@/lib/appUrl';
 import { pluralize } from '@/lib/format';
+import type { DigestCadence } from '@prisma/client';
+import type { DigestContent } from './emailDigest';
 
 interface EmailParams {
   to: string;
@@ -10,6 +12,8 @@ interface EmailParams {
   html: string;
   text?: string;
   notificationId?: string;
+  // Extra headers, e.g. List-Unsubscribe on the digest.
+  headers?: Record<string, string>;
 }
 
 interface EmailConfig {
@@ -68,7 +72,8 @@ export class EmailService {
         text: params.text || this.htmlToText(params.html),
         headers: {
           'X-Notification-ID': params.notificationId || '',
-          'X-Mailer': 'AI-GM-App'
+          'X-Mailer': 'AI-GM-App',
+          ...params.headers
         }
       };
 
@@ -111,28 +116,27 @@ export class EmailService {
     });
   }
 
-  // Send daily digest email
-  static async sendDailyDigest(
-    userEmail: string, 
+  // Send the scheduled digest (see emailDigest.ts). List-Unsubscribe lets
+  // a mail client offer its own one-click unsubscribe (RFC 8058), which
+  // posts to the same link the footer does.
+  static async sendDigest(
+    userEmail: string,
     userName: string,
-    digestData: {
-      unreadNotifications: number;
-      activeCampaigns: string[];
-      recentActivity: Array<{
-        campaignTitle: string;
-        activityType: string;
-        description: string;
-        timestamp: Date;
-      }>;
-    }
+    cadence: Exclude<DigestCadence, 'OFF'>,
+    digest: DigestContent,
+    unsubscribe: { digest: string; all: string }
   ) {
-    const subject = '📊 Your Daily MythOS Digest';
-    const html = this.buildDigestEmailTemplate(userName, digestData);
+    const subject = cadence === 'DAILY' ? '📜 Your daily MythOS digest' : '📜 Your week in MythOS';
+    const html = this.buildDigestEmailTemplate(userName, cadence, digest, unsubscribe);
 
     return await this.sendEmail({
       to: userEmail,
       subject,
-      html
+      html,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribe.digest}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      }
     });
   }
 
@@ -172,6 +176,32 @@ export class EmailService {
     });
   }
 
+  // Confirm a scheduled account deletion. Sent to the address on the
+  // account rather than shown only in the app, so someone using a stolen
+  // session can't schedule it quietly.
+  static async sendAccountDeletionScheduledEmail(userEmail: string, scheduledFor: Date) {
+    const settingsUrl = `${getAppUrl()}/settings`;
+    const when = scheduledFor.toUTCString();
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #f8fafc; padding: 20px;">
+        <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
+          <h1 style="color: #dc2626; margin: 0 0 20px 0; font-size: 24px;">Your account is scheduled for deletion</h1>
+          <p style="color: #334155;">Your MythOS account will be deleted on <strong>${when}</strong>. Until then everything works as before, and you can cancel from your settings.</p>
+          <p style="text-align: center; margin: 30px 0;">
+            <a href="${settingsUrl}" style="background: #1e40af; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none; font-weight: bold;">Open Settings</a>
+          </p>
+          <p style="color: #64748b; font-size: 13px;">If you didn't ask for this, sign in, cancel the deletion, and change your password.</p>
+        </div>
+      </div>
+    `;
+
+    return await this.sendEmail({
+      to: userEmail,
+      subject: 'Your MythOS account is scheduled for deletion',
+      html
+    });
+  }
+
   // Build welcome email template
   private static buildWelcomeEmailTemplate(userName: string): string {
     return `
@@ -272,40 +302,67 @@ export class EmailService {
     `;
   }
 
-  // Build daily digest email template
+  // Build digest email template. Everything interpolated here is player-
+  // or AI-written text (campaign titles, notification titles, NPC names in
+  // the world lines), so it's escaped — the other templates only ever
+  // interpolate values the app itself generated or the sender typed.
   private static buildDigestEmailTemplate(
     userName: string,
-    digestData: any
+    cadence: Exclude<DigestCadence, 'OFF'>,
+    digest: DigestContent,
+    unsubscribe: { digest: string; all: string }
   ): string {
+    const e = this.escapeHtml;
+    const period = cadence === 'DAILY' ? 'day' : 'week';
+    const link = (url: string | null, text: string) =>
+      url ? `<a href="${e(url)}" style="color: #2563eb;">${e(text)}</a>` : e(text);
+
+    const turns = digest.pendingTurns.length === 0 ? '' : `
+          <div style="background: #fef3c7; border-left: 4px solid #f59e0b; padding: 15px; margin-bottom: 20px;">
+            <h3 style="color: #92400e; margin: 0 0 8px 0; font-size: 16px;">⏳ Waiting on you</h3>
+            <ul style="color: #374151; margin: 0; padding-left: 20px; font-size: 14px;">
+              ${digest.pendingTurns.map((t) => `<li>${link(t.url, `${t.campaignTitle} — Scene ${t.sceneNumber}`)}</li>`).join('')}
+            </ul>
+          </div>`;
+
+    const worlds = digest.worlds.map((w) => `
+          <div style="background: #f0fdf4; border-radius: 6px; padding: 15px; margin-bottom: 15px;">
+            <h3 style="color: #15803d; margin: 0 0 8px 0; font-size: 16px;">🌍 ${link(w.url, w.title)}</h3>
+            <ul style="color: #374151; margin: 0; padding-left: 20px; font-size: 14px; line-height: 1.5;">
+              ${w.lines.map((line) => `<li>${e(line)}</li>`).join('')}
+            </ul>
+            ${w.totalEvents > w.lines.length ? `<p style="color: #6b7280; margin: 8px 0 0 0; font-size: 12px;">${w.totalEvents - w.lines.length} more ${pluralize(w.totalEvents - w.lines.length, 'change')} in the campaign.</p>` : ''}
+          </div>`).join('');
+
+    const unread = digest.unread.total === 0 ? '' : `
+          <div style="background: #eff6ff; border-radius: 6px; padding: 15px; margin-bottom: 20px;">
+            <h3 style="color: #1e40af; margin: 0 0 8px 0; font-size: 16px;">🔔 ${digest.unread.total} unread ${pluralize(digest.unread.total, 'notification')}</h3>
+            ${digest.unread.items.length === 0 ? '' : `<ul style="color: #374151; margin: 0; padding-left: 20px; font-size: 14px;">
+              ${digest.unread.items.map((n) => `<li>${link(n.url, n.title)}${n.campaignTitle ? ` <span style="color: #6b7280;">· ${e(n.campaignTitle)}</span>` : ''}</li>`).join('')}
+            </ul>`}
+          </div>`;
+
     return `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #f8fafc; padding: 20px;">
         <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 10px rgba(0,0,0,0.1);">
-          <h1 style="color: #1e40af; margin: 0 0 20px 0; font-size: 24px;">📊 Daily Digest</h1>
-          
-          <p style="color: #374151; margin-bottom: 25px;">Hi ${userName}, here's your MythOS activity summary:</p>
-
-          <div style="display: grid; gap: 15px; margin-bottom: 25px;">
-            <div style="background: #eff6ff; border-radius: 6px; padding: 15px;">
-              <h3 style="color: #1e40af; margin: 0 0 5px 0; font-size: 16px;">🔔 Notifications</h3>
-              <p style="color: #374151; margin: 0; font-size: 14px;">
-                ${digestData.unreadNotifications} unread ${pluralize(digestData.unreadNotifications, 'notification')}
-              </p>
-            </div>
-            
-            <div style="background: #f0fdf4; border-radius: 6px; padding: 15px;">
-              <h3 style="color: #15803d; margin: 0 0 5px 0; font-size: 16px;">🎮 Active Campaigns</h3>
-              <p style="color: #374151; margin: 0; font-size: 14px;">
-                ${digestData.activeCampaigns.join(', ') || 'No active campaigns'}
-              </p>
-            </div>
-          </div>
+          <h1 style="color: #1e40af; margin: 0 0 20px 0; font-size: 24px;">📜 Your ${period} in MythOS</h1>
 
+          <p style="color: #374151; margin-bottom: 25px;">Hi ${e(userName)}, here's what moved while you were away:</p>
+          ${turns}${worlds}${unread}
           <div style="text-align: center; margin-top: 30px;">
-            <a href="${getAppUrl()}/campaigns" 
+            <a href="${getAppUrl()}/campaigns"
                style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">
               View Campaigns
             </a>
           </div>
+
+          <div style="border-top: 1px solid #e5e7eb; padding-top: 20px; margin-top: 30px;">
+            <p style="font-size: 12px; color: #6b7280; text-align: center; margin: 0;">
+              You get this ${cadence === 'DAILY' ? 'daily' : 'weekly'} digest because of your notification settings.
+              <br><a href="${e(unsubscribe.digest)}" style="color: #6b7280;">Unsubscribe from digests</a>
+              · <a href="${e(unsubscribe.all)}" style="color: #6b7280;">Stop all MythOS email</a>
+            </p>
+          </div>
         </div>
       </div>
     `;
@@ -343,6 +400,15 @@ export class EmailService {
     `;
   }
 
+  private static escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
   // Convert HTML to plain text (fallback)
   private static htmlToText(html: string): string {
     return html
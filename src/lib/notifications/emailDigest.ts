@@ -0,0 +1,256 @@
+// src/lib/notifications/emailDigest.ts
+// The scheduled email digest: one email, on the player's own cadence,
+// saying what they'd have seen had they opened the app — unread
+// notifications, what moved in each of their worlds, and which scenes are
+// waiting on them.
+//
+// Every other "the world moved" surface is in-app: the world digest is a
+// notification, the absence journal is the lobby's away recap, the turn
+// queue is a countdown on the story page. A player who only reads email
+// heard none of it. EmailService.sendDailyDigest existed with a template
+// and no caller; this is the caller, run by the daily cron sweep.
+//
+// Nothing here is a new record. The world section IS the absence journal
+// (absenceJournalQuery.ts), fog rule and all — the digest is a third
+// consumer of it, not a third copy — and the window is the same "since you
+// last looked" idea, measured from the later of the last digest and the
+// player's own last lobby visit, so nothing the lobby already told them is
+// emailed again.
+
+import { randomUUID } from 'crypto'
+import type { DigestCadence } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAppUrl } from '@/lib/appUrl'
+import { EmailService } from './email-service'
+import { loadAbsenceJournal } from '@/lib/game/absenceJournalQuery'
+import { describeJournalEntry } from '@/lib/game/absenceJournal'
+
+type ActiveCadence = Exclude<DigestCadence, 'OFF'>
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * How long each cadence's digest covers when there's no previous one to
+ * start from — a first digest reports the last day or week, not all time.
+ */
+export const DIGEST_PERIOD_MS: Record<ActiveCadence, number> = {
+  DAILY: 24 * HOUR_MS,
+  WEEKLY: 7 * 24 * HOUR_MS,
+}
+
+/**
+ * How long after the last digest the next one is due. Four hours short of
+ * the period on purpose: the cron fires once a day, and a run that starts a
+ * few minutes earlier than yesterday's would otherwise find every daily
+ * digest 23h59m old and skip a whole day.
+ */
+export const DIGEST_DUE_AFTER_MS: Record<ActiveCadence, number> = {
+  DAILY: DIGEST_PERIOD_MS.DAILY - 4 * HOUR_MS,
+  WEEKLY: DIGEST_PERIOD_MS.WEEKLY - 4 * HOUR_MS,
+}
+
+/**
+ * How many digests one cron run may build and send. Same reasoning as
+ * turn-tracker's MAX_OVERDUE_NOTIFICATIONS_PER_RUN: this runs inside the
+ * sweep's duration budget, and every digest is several queries plus an
+ * SMTP round trip. The queue is ordered by lastDigestAt, so whoever is cut
+ * off is first in line tomorrow.
+ */
+export const MAX_DIGESTS_PER_RUN = 100
+
+/** At most this many unread notifications are listed; the total is always shown. */
+export const MAX_UNREAD_LISTED = 5
+
+/** At most this many world lines per campaign — a digest, not the journal. */
+export const MAX_WORLD_LINES_PER_CAMPAIGN = 5
+
+export interface DigestContent {
+  unread: {
+    /** Every unread notification, however old. */
+    total: number
+    /** The newest of those created in this digest's window. */
+    items: Array<{ title: string; campaignTitle: string | null; url: string | null }>
+  }
+  /** Campaigns where something the player may know about changed. */
+  worlds: Array<{ campaignId: string; title: string; lines: string[]; totalEvents: number; url: string }>
+  /** Scenes waiting on this player's action. */
+  pendingTurns: Array<{ campaignTitle: string; sceneNumber: number; url: string }>
+}
+
+export interface DigestSweepResult {
+  considered: number
+  sent: number
+  /** Due, but nothing to say — no email, window still advanced. */
+  empty: number
+  failed: number
+}
+
+/** Whether a digest on `cadence`, last run at `lastDigestAt`, is due at `now`. */
+export function isDigestDue(cadence: DigestCadence, lastDigestAt: Date | null, now: Date): boolean {
+  if (cadence === 'OFF') return false
+  if (!lastDigestAt) return true
+  return now.getTime() - lastDigestAt.getTime() >= DIGEST_DUE_AFTER_MS[cadence]
+}
+
+/** Where this digest's window starts: the last digest, or one period back for a first. */
+export function digestWindowStart(cadence: ActiveCadence, lastDigestAt: Date | null, now: Date): Date {
+  return lastDigestAt ?? new Date(now.getTime() - DIGEST_PERIOD_MS[cadence])
+}
+
+export function isDigestEmpty(digest: DigestContent): boolean {
+  return digest.unread.items.length === 0 && digest.worlds.length === 0 && digest.pendingTurns.length === 0
+}
+
+/** Links that work without logging in — see the unsubscribe route. */
+export function unsubscribeUrls(token: string): { digest: string; all: string } {
+  const base = `${getAppUrl()}/api/notifications/unsubscribe?token=${encodeURIComponent(token)}`
+  return { digest: `${base}&scope=digest`, all: `${base}&scope=email` }
+}
+
+/**
+ * Everything one user's digest would say about the window starting at
+ * `since`. Read-only.
+ */
+export async function buildDigest(userId: string, since: Date, now: Date = new Date()): Promise<DigestContent> {
+  const appUrl = getAppUrl()
+  const unreadWhere = {
+    userId,
+    status: 'UNREAD' as const,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+  }
+
+  const [unreadTotal, unreadItems, memberships] = await Promise.all([
+    prisma.notification.count({ where: unreadWhere }),
+    prisma.notification.findMany({
+      where: { ...unreadWhere, createdAt: { gt: since } },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_UNREAD_LISTED,
+      select: { title: true, actionUrl: true, campaign: { select: { title: true } } },
+    }),
+    prisma.campaignMembership.findMany({
+      // A lapsed guest pass is no membership at all: its world stays out
+      // of the email just as the campaign stays shut to them in the app.
+      where: { userId, campaign: { isActive: true }, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+      select: { campaignId: true, role: true, lastViewedAt: true, campaign: { select: { title: true } } },
+    }),
+  ])
+
+  const titles = new Map(memberships.map((m) => [m.campaignId, m.campaign.title]))
+
+  const pendingScenes = memberships.length === 0
+    ? []
+    : await prisma.scene.findMany({
+        where: {
+          campaignId: { in: memberships.map((m) => m.campaignId) },
+          status: 'AWAITING_ACTIONS',
+          waitingOnUsers: { array_contains: [userId] },
+        },
+        orderBy: [{ campaignId: 'asc' }, { sceneNumber: 'asc' }],
+        select: { campaignId: true, sceneNumber: true },
+      })
+
+  // Sequential, not Promise.all: each journal is several queries of its
+  // own, and a player in a dozen campaigns shouldn't open a dozen times
+  // that many connections from inside the cron.
+  const worlds: DigestContent['worlds'] = []
+  for (const membership of memberships) {
+    const windowStart = membership.lastViewedAt && membership.lastViewedAt > since ? membership.lastViewedAt : since
+    const journal = await loadAbsenceJournal(membership.campaignId, windowStart, membership.role)
+    if (journal.entries.length === 0) continue
+    worlds.push({
+      campaignId: membership.campaignId,
+      title: membership.campaign.title,
+      // Same player-safe renderer the lobby uses — never the GM-grade reason.
+      lines: journal.entries.slice(0, MAX_WORLD_LINES_PER_CAMPAIGN).map(describeJournalEntry),
+      totalEvents: journal.totalEvents,
+      url: `${appUrl}/campaigns/${membership.campaignId}`,
+    })
+  }
+
+  return {
+    unread: {
+      total: unreadTotal,
+      items: unreadItems.map((n) => ({
+        title: n.title,
+        campaignTitle: n.campaign?.title ?? null,
+        url: n.actionUrl ? new URL(n.actionUrl, appUrl).toString() : null,
+      })),
+    },
+    worlds,
+    pendingTurns: pendingScenes.map((scene) => ({
+      campaignTitle: titles.get(scene.campaignId) ?? '',
+      sceneNumber: scene.sceneNumber,
+      url: `${appUrl}/campaigns/${scene.campaignId}/story`,
+    })),
+  }
+}
+
+/**
+ * Send every digest that's due, up to MAX_DIGESTS_PER_RUN. Called by the
+ * daily cron sweep. A failure for one user is counted and the sweep goes
+ * on; their lastDigestAt doesn't move, so tomorrow's run retries the same
+ * window.
+ */
+export async function sendDueDigests(now: Date = new Date()): Promise<DigestSweepResult> {
+  const dueBefore = (cadence: ActiveCadence) => new Date(now.getTime() - DIGEST_DUE_AFTER_MS[cadence])
+  const dueWhere = (cadence: ActiveCadence) => ({
+    digestCadence: cadence,
+    OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: dueBefore(cadence) } }],
+  })
+
+  const due = await prisma.userNotificationSettings.findMany({
+    where: {
+      emailEnabled: true,
+      OR: [dueWhere('DAILY'), dueWhere('WEEKLY')],
+      // Someone in no campaign has nothing a digest could say.
+      user: { campaignMemberships: { some: {} } },
+    },
+    orderBy: { lastDigestAt: { sort: 'asc', nulls: 'first' } },
+    take: MAX_DIGESTS_PER_RUN,
+    select: {
+      id: true,
+      userId: true,
+      digestCadence: true,
+      lastDigestAt: true,
+      digestUnsubscribeToken: true,
+      user: { select: { email: true, name: true } },
+    },
+  })
+
+  const result: DigestSweepResult = { considered: due.length, sent: 0, empty: 0, failed: 0 }
+
+  for (const settings of due) {
+    const cadence = settings.digestCadence
+    if (cadence === 'OFF' || !isDigestDue(cadence, settings.lastDigestAt, now)) continue
+    try {
+      const digest = await buildDigest(settings.userId, digestWindowStart(cadence, settings.lastDigestAt, now), now)
+
+      if (isDigestEmpty(digest)) {
+        await prisma.userNotificationSettings.update({ where: { id: settings.id }, data: { lastDigestAt: now } })
+        result.empty++
+        continue
+      }
+
+      // Minted before sending, so a link in an email that went out always
+      // has a row behind it.
+      let token = settings.digestUnsubscribeToken
+      if (!token) {
+        token = randomUUID()
+        await prisma.userNotificationSettings.update({ where: { id: settings.id }, data: { digestUnsubscribeToken: token } })
+      }
+
+      const sent = await EmailService.sendDigest(settings.user.email, settings.user.name ?? 'adventurer', cadence, digest, unsubscribeUrls(token))
+      if (!sent) {
+        result.failed++
+        continue
+      }
+      await prisma.userNotificationSettings.update({ where: { id: settings.id }, data: { lastDigestAt: now } })
+      result.sent++
+    } catch (error) {
+      console.error(`Digest failed for user ${settings.userId} (non-fatal):`, error)
+      result.failed++
+    }
+  }
+
+  return result
+}
@@ -44,8 +44,10 @@ function isAllowedPushHost(hostname: string): boolean {
  * layer than registration-time validation can provide on its own. The
  * allowlist above is what actually closes the practical hole here: a real
  * push-service hostname is never going to resolve anywhere private.
+ * Exported for lib/webhooks/webhookUrl.ts, whose targets have no such
+ * allowlist and which adds the send-time lookup this can't do.
  */
-function isPrivateOrLoopbackHost(hostname: string): boolean {
+export function isPrivateOrLoopbackHost(hostname: string): boolean {
   if (hostname === 'localhost' || hostname === '::1') return true
 
   const ipv4 = hostname.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/)
@@ -2,6 +2,8 @@
 
 import { prisma } from '@/lib/prisma';
 import { NotificationService } from './notification-service';
+import { emitCampaignEvent } from '@/lib/webhooks/webhookQueue';
+import { rolesWith } from '@/lib/api/campaignPermissions';
 
 export interface TurnOrder {
   userId: string;
@@ -177,6 +179,13 @@ export class TurnTracker {
       }
     });
 
+    // The same nudge in the table's channel, where the player may
+    // actually be looking.
+    await emitCampaignEvent(campaignId, {
+      type: 'TURN_REMINDER',
+      data: { sceneId, characterName: currentPlayer.name, minutesRemaining }
+    });
+
     // Update tracker
     await prisma.turnTracker.update({
       where: { id: turnTracker.id },
@@ -337,7 +346,7 @@ export class TurnTracker {
         const currentPlayer = turnOrder[tracker.currentTurn];
 
         const admins = await prisma.campaignMembership.findMany({
-          where: { campaignId: tracker.campaignId, role: 'ADMIN' },
+          where: { campaignId: tracker.campaignId, role: { in: rolesWith('scenes.run') } },
           select: { userId: true }
         });
 
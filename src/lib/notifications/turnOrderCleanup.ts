@@ -0,0 +1,28 @@
+// src/lib/notifications/turnOrderCleanup.ts
+
+import { prisma } from '@/lib/prisma'
+import { TurnTracker, type TurnOrder } from './turn-tracker'
+
+/**
+ * Drop someone who is leaving a campaign from any scene's stored turnOrder
+ * they're still present in — otherwise the queue stalls on their slot
+ * every time it comes back around, since getCampaignMembership already 403s
+ * a removed member out of advancing their own turn (and a spectator can't
+ * take one) but nothing ever clears the stale entry. Best-effort: a
+ * failure here shouldn't undo the removal, role change or account deletion
+ * that called it.
+ */
+export async function dropFromTurnOrders(campaignId: string, userId: string) {
+  const turnTrackers = await prisma.turnTracker.findMany({
+    where: { campaignId, sceneId: { not: null } },
+    select: { sceneId: true, turnOrder: true },
+  })
+  for (const tracker of turnTrackers) {
+    const turnOrder = tracker.turnOrder as unknown as TurnOrder[]
+    if (tracker.sceneId && turnOrder.some(p => p.userId === userId)) {
+      await TurnTracker.removePlayerFromTurn(campaignId, tracker.sceneId, userId).catch(err =>
+        console.error('Failed to remove member from turn order:', err)
+      )
+    }
+  }
+}
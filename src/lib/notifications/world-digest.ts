@@ -23,8 +23,11 @@ import { prisma } from '@/lib/prisma'
 import { NotificationService } from './notification-service'
 import type { WorldChange, TickEntityType } from '@/lib/game/tick/types'
 import { stableHash } from '@/lib/game/tick/types'
+import { HAZARD_NOUN } from '@/lib/game/tick/hazardTick'
 import type { EventType, EventVisibility } from '@prisma/client'
 import type { SimTurn } from '@/lib/game/turnClock'
+import { emitCampaignEvent } from '@/lib/webhooks/webhookQueue'
+import { toDigestChangeSummary } from '@/lib/webhooks/events'
 
 // At most this many rumor lines per turn — a digest, not a firehose.
 export const MAX_DIGEST_LINES = 3
@@ -112,11 +115,14 @@ export function selectDigestChanges(
     // importance-5 NPC's routine movement is MAJOR every turn. Only fields
     // with an authored rumor phrasing get through — see LINE_GENERATORS.
     if (!isRumorWorthy(c)) return false
-    if (DISCOVERY_GATED_ENTITY_TYPES.has(c.entityType)) return discoveredEntityIds.has(c.entityId)
-    return true
+    return isPastDiscoveryGate(c, discoveredEntityIds)
   })
 }
 
+function isPastDiscoveryGate(change: WorldChange, discoveredEntityIds: Set<string>): boolean {
+  return !DISCOVERY_GATED_ENTITY_TYPES.has(change.entityType) || discoveredEntityIds.has(change.entityId)
+}
+
 /**
  * Pure: collapse changes sharing the same field into one group each,
  * preserving first-seen field order, then cap to MAX_DIGEST_LINES groups.
@@ -181,6 +187,24 @@ function warResolvedLines(names: string[]): string[] {
   ]
 }
 
+function treatySignedLines(names: string[]): string[] {
+  const who = joinNames(names)
+  const verb = names.length === 1 ? 'has' : 'have'
+  return [
+    `${who} ${verb} put ${names.length === 1 ? 'its' : 'their'} seal to a treaty. The terms are the talk of every tavern.`,
+    `Envoys ride home — ${who} ${verb} come to terms.`,
+  ]
+}
+
+function treatyBrokenLines(names: string[]): string[] {
+  const who = joinNames(names)
+  const verb = names.length === 1 ? 'has' : 'have'
+  return [
+    `${who} ${verb} broken ${names.length === 1 ? 'its' : 'their'} word. Nobody expects the peace to last.`,
+    `A treaty lies in pieces, and ${who} tore it.`,
+  ]
+}
+
 function collapsedLines(names: string[]): string[] {
   const who = joinNames(names)
   const verb = names.length === 1 ? 'has' : 'have'
@@ -325,6 +349,32 @@ function weatherLines(names: string[]): string[] {
   ]
 }
 
+/** The hazard a group of hazard changes shares, or a word for several. */
+function hazardWord(changes: WorldChange[]): string {
+  const types = new Set(changes.map(c => String(c.newValue)))
+  if (types.size !== 1) return 'disaster'
+  return HAZARD_NOUN[[...types][0] as keyof typeof HAZARD_NOUN] ?? 'disaster'
+}
+
+function hazardStartedLines(names: string[], changes: WorldChange[]): string[] {
+  const where = joinNames(names)
+  const what = hazardWord(changes)
+  return [
+    `There is ${what} in ${where}. Nobody is going there who doesn't have to.`,
+    `Word comes of ${what} in ${where}.`,
+    `${where} ${names.length === 1 ? 'is' : 'are'} in the grip of ${what}.`,
+  ]
+}
+
+function hazardSpreadLines(names: string[], changes: WorldChange[]): string[] {
+  const where = joinNames(names)
+  const what = hazardWord(changes)
+  return [
+    `The ${what} has reached ${where}.`,
+    `It's spreading — ${where} ${names.length === 1 ? 'has' : 'have'} the ${what} now too.`,
+  ]
+}
+
 /**
  * #432: an ALLOWLIST, not a fallback table.
  *
@@ -348,6 +398,8 @@ const LINE_GENERATORS: Record<string, (names: string[], changes: WorldChange[])
   warJoined: warJoinedLines,
   warResolved: warResolvedLines,
   warEnded: warResolvedLines,
+  treatySigned: treatySignedLines,
+  treatyBroken: treatyBrokenLines,
   collapsed: collapsedLines,
   founded: foundedLines,
   leader: leadershipLines,
@@ -360,6 +412,8 @@ const LINE_GENERATORS: Record<string, (names: string[], changes: WorldChange[])
   territoryContested: territoryContestedLines,
   importance: importanceLines,
   weather: weatherLines,
+  hazardStarted: hazardStartedLines,
+  hazardSpread: hazardSpreadLines,
 }
 
 /** Whether this change has an authored rumor phrasing — i.e. whether it is
@@ -413,6 +467,10 @@ export function titleForDigestChange(change: WorldChange): string {
     case 'warResolved':
     case 'warEnded':
       return 'War Ended'
+    case 'treatySigned':
+      return 'Terms Agreed'
+    case 'treatyBroken':
+      return 'A Treaty Broken'
     case 'collapsed':
       return 'A Power Has Fallen'
     case 'founded':
@@ -435,6 +493,10 @@ export function titleForDigestChange(change: WorldChange): string {
       return 'A Name People Repeat'
     case 'weather':
       return 'Foul Weather'
+    case 'hazardStarted':
+      return 'Disaster Strikes'
+    case 'hazardSpread':
+      return 'Disaster Spreading'
     default:
       // #432: no longer reachable from the digest — selectDigestChanges
       // drops any field without an authored phrasing, and every field with
@@ -483,6 +545,18 @@ export async function sendWorldDigest(
     ])
     const discovered = new Set(idSets.flat().map(row => row.id))
 
+    // Each war gets its own webhook event so a channel can follow wars
+    // alone — every war declared this turn, not only the ones that made
+    // the digest's lines, but still only past the discovery gate, so a
+    // channel never learns more than a player.
+    for (const change of changes) {
+      if (change.field !== 'warDeclared' || !isPastDiscoveryGate(change, discovered)) continue
+      await emitCampaignEvent(campaignId, {
+        type: 'WAR_DECLARED',
+        data: { turnNumber: currentTurn, change: toDigestChangeSummary(change) },
+      })
+    }
+
     const selected = selectDigestChanges(changes, discovered)
     if (selected.length === 0 || members.length === 0) return 0
 
@@ -514,6 +588,10 @@ export async function sendWorldDigest(
       console.error('World digest journal write failed (non-critical):', err)
     })
 
+    // Webhooks get the same lines, built from `selected` — past the
+    // discovery gate above — like the wars were.
+    await emitCampaignEvent(campaignId, { type: 'WORLD_DIGEST', data: { turnNumber: currentTurn, lines } })
+
     await Promise.all(
       members.map(m =>
         NotificationService.createNotification({
@@ -6,6 +6,12 @@ import { prisma } from '@/lib/prisma'
 // Minimum balance to add (50 cents)
 export const MINIMUM_ADD_AMOUNT = 50
 
+// One-time welcome credit so a new account can actually play a scene
+// without funding a balance first — without this, balance defaults to 0
+// and the activation funnel dead-ends at the very first paywall. Granted
+// by every path that creates an account (signup, first OIDC sign-in).
+export const WELCOME_CREDIT_CENTS = 100
+
 
 /**
  * Add funds to a user's account
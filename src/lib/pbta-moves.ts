@@ -1,17 +1,23 @@
 // src/lib/pbta-moves.ts
 // Core PbtA move definitions and mechanics.
 //
-// BASIC_MOVES is the single source of truth live resolution rolls against
-// (see lib/game/resolution.ts) — the mechanics (rollType, stat, outcome
-// bands) are fixed and universal across every campaign, exactly like the 5
-// stat keys (cool/hard/hot/sharp/weird) never change. What DOES vary per
-// campaign is the DISPLAY layer: each move's `key` is a stable identifier
-// (Move.baseMoveKey in prisma/schema.prisma) that a campaign's AI-generated
-// flavor text (lib/ai/moveFlavor.ts) attaches to, the same relationship
-// statLabels has to the fixed stat keys. resolution.ts's computeMechanics
-// looks up flavor by key and overrides only the display name/outcome text
-// it presents to the narrator and the transparency panel — the roll math
-// itself never reads flavor.
+// BASIC_MOVES is the "core" move set — the one every campaign rolled
+// against before per-campaign move sets existed, and still the default for
+// any campaign that doesn't pick another (see lib/moveSets.ts, which holds
+// the full catalogue and is what resolution.ts actually reads). A set fixes
+// the mechanics — which moves exist, which stats each one may roll, where
+// the outcome bands fall — and the 5 stat keys (cool/hard/hot/sharp/weird)
+// never change across any of them. What varies on TOP of a set is the
+// DISPLAY layer: each move's `key` is a stable identifier (Move.baseMoveKey
+// in prisma/schema.prisma) that a campaign's AI-generated flavor text
+// (lib/ai/moveFlavor.ts) attaches to, the same relationship statLabels has
+// to the fixed stat keys. resolution.ts's computeMechanics looks up flavor
+// by key and overrides only the display name/outcome text it presents to
+// the narrator and the transparency panel — the roll math itself never
+// reads flavor.
+
+export type PbtAStatKey = 'cool' | 'hard' | 'hot' | 'sharp' | 'weird'
+
 export interface PbtAMove {
   key: string // stable id — matches Move.baseMoveKey for per-campaign flavor
   name: string
@@ -24,6 +30,15 @@ export interface PbtAMove {
     miss?: string      // 6-
   }
   category: 'basic' | 'special' | 'peripheral' | 'custom'
+  // The stats this move may roll, first one the default. Absent means any
+  // stat the classifier judges governs the attempt — the core set's
+  // behaviour. A set that wants "reading people is always Sharp or Hot"
+  // says so here, and computeMechanics holds the classifier to it.
+  stats?: PbtAStatKey[]
+  // Multiplier on the debt-ledger modifier for this move (see debtModifier
+  // in lib/game/debts.ts). Absent means 1. Only a move whose whole fiction
+  // IS the ledger — calling in what someone owes you — sets this.
+  debtWeight?: number
 }
 
 // Basic Moves (Apocalypse World inspired, but generic)
@@ -132,10 +147,22 @@ export const PBTA_STATS = {
   weird: "Weird - connection to the strange and psychic"
 }
 
+// Where a total has to land for each band. The core 10+/7-9/6- split is
+// the default; a move set (lib/moveSets.ts) may move either line.
+export interface OutcomeThresholds {
+  strongHit: number
+  weakHit: number
+}
+
+export const DEFAULT_OUTCOME_THRESHOLDS: OutcomeThresholds = { strongHit: 10, weakHit: 7 }
+
 // Calculate roll outcome based on PbtA rules
-export function calculateOutcome(total: number): 'strongHit' | 'weakHit' | 'miss' {
-  if (total >= 10) return 'strongHit'
-  if (total >= 7) return 'weakHit'
+export function calculateOutcome(
+  total: number,
+  thresholds: OutcomeThresholds = DEFAULT_OUTCOME_THRESHOLDS
+): 'strongHit' | 'weakHit' | 'miss' {
+  if (total >= thresholds.strongHit) return 'strongHit'
+  if (total >= thresholds.weakHit) return 'weakHit'
   return 'miss'
 }
 
@@ -45,6 +45,11 @@ export const SPEND_LIMIT = { bucket: 'spend', limit: 20, windowSeconds: 60 } as
 // no reason for it to share gameplay's budget in either direction.
 export const SESSION_REVOKE_LIMIT = { bucket: 'session-revoke', limit: 5, windowSeconds: 300 } as const
 
+// Downloading the account's data and asking for its deletion. One bucket
+// for both: legitimate use is a few times a year, and the export reads
+// every row the account ever wrote.
+export const ACCOUNT_DATA_LIMIT = { bucket: 'account-data', limit: 5, windowSeconds: 3600 } as const
+
 // #210: the pre-auth surface (login, signup, password reset, email
 // verification) has no userId to key on yet — every bucket below is keyed
 // by IP (getClientIp) instead, or by email where the target of abuse is a
@@ -58,6 +63,18 @@ export const SIGNUP_LIMIT = { bucket: 'signup', limit: 5, windowSeconds: 3600 }
 export const PASSWORD_RESET_REQUEST_LIMIT = { bucket: 'password-reset-request', limit: 3, windowSeconds: 3600 } as const
 export const RESET_PASSWORD_LIMIT = { bucket: 'reset-password', limit: 10, windowSeconds: 3600 } as const
 export const VERIFY_EMAIL_LIMIT = { bucket: 'verify-email', limit: 10, windowSeconds: 3600 } as const
+// Identity-provider sign-in's callback and handoff. Roomier than login: a
+// legitimate round trip costs two, and there is no password to guess —
+// what it bounds is someone replaying callbacks at the token endpoint.
+export const OIDC_LIMIT = { bucket: 'oidc', limit: 20, windowSeconds: 300 } as const
+// The second factor, at login and when changing 2FA settings. Keyed by
+// the account, not the IP: whoever reaches this step already has the
+// password, and a million six-digit codes is a space an unthrottled
+// guesser rotating IPs walks through in an afternoon.
+export const TWO_FACTOR_LIMIT = { bucket: 'two-factor', limit: 5, windowSeconds: 300 } as const
+// The digest's unsubscribe link: pre-auth like the above, and a token to
+// guess like email verification's.
+export const UNSUBSCRIBE_LIMIT = { bucket: 'unsubscribe', limit: 10, windowSeconds: 3600 } as const
 export const BALANCE_CHECKOUT_LIMIT = { bucket: 'balance-checkout', limit: 10, windowSeconds: 3600 } as const
 
 // #316: friend search returns full emails/names for up to 10 matching
@@ -14,7 +14,7 @@ vi.mock('pusher', () => ({
   },
 }))
 
-import { triggerNoteUpdate, broadcastNoteUpdate, PusherServer } from '../pusher-server'
+import { triggerNoteUpdate, broadcastNoteUpdate, triggerTokenMove, PusherServer } from '../pusher-server'
 
 const note = (over: Partial<RealtimeNoteUpdate> = {}): RealtimeNoteUpdate => ({
   id: 'note1',
@@ -103,3 +103,17 @@ describe('broadcastNoteUpdate', () => {
     err.mockRestore()
   })
 })
+
+describe('triggerTokenMove', () => {
+  const move = { campaignId: 'camp1', mapId: 'map1', tokenId: 'tok1', x: 80, y: 120, isVisible: true }
+
+  it('publishes a visible token move on the campaign channel', async () => {
+    await triggerTokenMove(move)
+    expect(trigger).toHaveBeenCalledWith('campaign-camp1', 'map:token-moved', move)
+  })
+
+  it('never publishes where a hidden token went', async () => {
+    await triggerTokenMove({ ...move, isVisible: false })
+    expect(trigger).not.toHaveBeenCalled()
+  })
+})
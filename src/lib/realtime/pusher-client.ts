@@ -85,3 +85,15 @@ export interface RealtimeNoteUpdate {
     name?: string;
   };
 }
+
+// Tactical mode: a token moved on a scene's board (see the maps/[mapId]/
+// tokens/[tokenId] route). The snapped position it landed on, not the
+// point it was dropped at, so every screen agrees with the server.
+export interface RealtimeTokenMove {
+  campaignId: string;
+  mapId: string;
+  tokenId: string;
+  x: number;
+  y: number;
+  isVisible: boolean;
+}
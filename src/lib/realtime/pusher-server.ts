@@ -1,7 +1,7 @@
 // src/lib/realtime/pusher-server.ts
 
 import Pusher from 'pusher';
-import { RealtimeMessage, RealtimeNoteUpdate } from './pusher-client';
+import { RealtimeMessage, RealtimeNoteUpdate, RealtimeTokenMove } from './pusher-client';
 
 let pusherServer: Pusher | null = null;
 
@@ -88,6 +88,30 @@ export function broadcastNoteUpdate(noteUpdate: RealtimeNoteUpdate): void {
   );
 }
 
+// Trigger a tactical-mode token move to the campaign channel
+//
+// Same boundary as triggerNoteUpdate: the channel reaches every member, so
+// a hidden token's position — an ambush an admin is still arranging — is
+// never published. The admin who moved it already has the response.
+export async function triggerTokenMove(move: RealtimeTokenMove) {
+  const pusher = getPusherServer();
+  if (!pusher) return; // Pusher not configured
+
+  if (!move.isVisible) return;
+  await pusher.trigger(`campaign-${move.campaignId}`, 'map:token-moved', move);
+}
+
+/**
+ * Fire-and-forget wrapper for token moves — broadcastNoteUpdate's
+ * contract. The move is saved either way; a missed broadcast costs the
+ * other players a refresh.
+ */
+export function broadcastTokenMove(move: RealtimeTokenMove): void {
+  triggerTokenMove(move).catch(err =>
+    console.error('Failed to broadcast token move:', err)
+  );
+}
+
 // Trigger user typing indicator
 export async function triggerUserTyping(campaignId: string, userId: string, userName: string, isTyping: boolean) {
   const pusher = getPusherServer();
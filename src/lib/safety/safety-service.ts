@@ -7,6 +7,7 @@
 import { prisma } from '@/lib/prisma';
 import { XCardTrigger, ReportStatus, ReportSeverity } from '@prisma/client';
 import PusherServer from '@/lib/realtime/pusher-server';
+import { rolesWith } from '@/lib/api/campaignPermissions';
 
 export interface SafetySettings {
   xCardEnabled?: boolean;
@@ -340,11 +341,11 @@ export class SafetyService {
     xCardUse: any,
     settings: any
   ) {
-    // Get GM users
+    // Get GM users — whoever runs this campaign's safety tools
     const gmMemberships = await prisma.campaignMembership.findMany({
       where: {
         campaignId,
-        role: 'ADMIN',
+        role: { in: rolesWith('safety.manage') },
       },
       include: {
         user: true,
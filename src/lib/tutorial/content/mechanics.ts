@@ -651,7 +651,21 @@ export const MECHANICS: readonly Mechanic[] = [
       'The person who creates a campaign administers it and can adjust the world directly, but the simulation will keep steering things back toward what circumstances justify.',
     ],
     aliases: ['create campaign', 'new campaign', 'campaign creation', 'setting', 'universe', 'world generation', 'template', 'start'],
-    seeAlso: ['lore-import', 'world-turn', 'factions', 'invites'],
+    seeAlso: ['lore-import', 'how-it-plays', 'world-turn', 'factions', 'invites'],
+  },
+  {
+    id: 'how-it-plays',
+    category: 'building',
+    term: 'How a campaign plays',
+    short: 'Each campaign runs on one set of moves, chosen when it is made — and different sets make for genuinely different games.',
+    body: [
+      'Renaming things only goes so far. A horror campaign and a court intrigue should not just use different words for the same game, so whoever makes a campaign also chooses how it plays.',
+      'That choice decides which kinds of action have a move of their own, which of your traits each one leans on, and how forgiving the odds are. In one campaign a clean success is common; in another nearly every win leaves a mark. One may have no move for violence at all, so a fight is something you talk your way around rather than into. Another may make calling in what you are owed an action in its own right, where everything between you and the other person counts for more.',
+      'You never pick a move yourself. You still write what your character does, and MythOS works out which of this campaign\'s moves it is. An action that fits none of them is still resolved — it is judged on the situation instead.',
+      'It is fixed when the campaign is made, because everything named for this world is named for those moves. If you want to know which one your campaign uses, this page says so when you open it from inside one.',
+    ],
+    aliases: ['move set', 'moves', 'rules', 'ruleset', 'how it plays', 'classic', 'dread', 'court & coin', 'odds'],
+    seeAlso: ['actions', 'campaign-creation', 'debts', 'transparency'],
   },
   {
     id: 'lore-import',
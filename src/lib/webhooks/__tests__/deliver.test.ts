@@ -0,0 +1,83 @@
+// @vitest-environment node
+// src/lib/webhooks/__tests__/deliver.test.ts
+// Real HTTP attempts against the local receiver (localReceiver.ts): the
+// signature a receiver gets verifies, and each kind of answer is classed
+// as landed, worth retrying, or a standing refusal. Runs under node rather
+// than happy-dom: happy-dom's fetch applies browser CORS rules to a
+// cross-origin POST, which a server-side delivery never meets.
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { deliverWebhook, isRetryableStatus } from '../deliver'
+import { startWebhookReceiver, type WebhookReceiver } from '../localReceiver'
+import type { WebhookEnvelope } from '../events'
+
+const secret = 'whsec_deliver_test'
+const envelope: WebhookEnvelope = {
+  type: 'SCENE_RESOLVED',
+  data: { sceneId: 's1', sceneNumber: 2 },
+  campaign: { id: 'camp1', title: 'The Reach' },
+  occurredAt: '2026-08-25T09:00:00.000Z',
+  url: 'https://mythos.example/campaigns/camp1/story',
+}
+
+let receiver: WebhookReceiver | null = null
+
+afterEach(async () => {
+  await receiver?.close()
+  receiver = null
+  vi.unstubAllEnvs()
+})
+
+describe('isRetryableStatus', () => {
+  it('retries server errors, timeouts and rate limits only', () => {
+    expect([500, 502, 503, 408, 429].every(isRetryableStatus)).toBe(true)
+    expect([400, 401, 403, 404, 410, 301].some(isRetryableStatus)).toBe(false)
+  })
+})
+
+describe('deliverWebhook', () => {
+  it('delivers a signed request the receiver can verify', async () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_TARGETS', 'true')
+    receiver = await startWebhookReceiver({ secret })
+
+    const outcome = await deliverWebhook({ url: receiver.url, secret, format: 'JSON' }, envelope, 'd1')
+    expect(outcome).toEqual({ ok: true, status: 204, retryable: false })
+    expect(receiver.received).toHaveLength(1)
+    const [request] = receiver.received
+    expect(request.verified).toBe(true)
+    expect(request.headers['x-mythos-event']).toBe('SCENE_RESOLVED')
+    expect(request.headers['x-mythos-delivery']).toBe('d1')
+    expect(request.json).toEqual({ id: 'd1', ...envelope })
+  })
+
+  it('is refused by a receiver holding a different secret', async () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_TARGETS', 'true')
+    receiver = await startWebhookReceiver({ secret: 'whsec_other' })
+    const outcome = await deliverWebhook({ url: receiver.url, secret, format: 'JSON' }, envelope, 'd1')
+    expect(outcome).toMatchObject({ ok: false, status: 401, retryable: false })
+  })
+
+  it('classes a 503 as retryable and a 404 as not', async () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_TARGETS', 'true')
+    receiver = await startWebhookReceiver({ secret, respondWith: (_r, i) => (i === 0 ? 503 : 404) })
+    const target = { url: receiver.url, secret, format: 'DISCORD' as const }
+
+    expect(await deliverWebhook(target, envelope, 'd1')).toEqual({ ok: false, status: 503, error: 'Receiver responded 503', retryable: true })
+    expect(await deliverWebhook(target, envelope, 'd1')).toEqual({ ok: false, status: 404, error: 'Receiver responded 404', retryable: false })
+  })
+
+  it('does not follow a redirect', async () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_TARGETS', 'true')
+    receiver = await startWebhookReceiver({ secret, respondWith: () => 302 })
+    const outcome = await deliverWebhook({ url: receiver.url, secret, format: 'JSON' }, envelope, 'd1')
+    expect(outcome).toMatchObject({ ok: false, status: 302, retryable: false })
+    expect(outcome.error).toContain('redirects are not followed')
+  })
+
+  it('refuses a private target without the dev flag, sending nothing', async () => {
+    receiver = await startWebhookReceiver({ secret })
+    const outcome = await deliverWebhook({ url: receiver.url, secret, format: 'JSON' }, envelope, 'd1')
+    expect(outcome).toMatchObject({ ok: false, status: null, retryable: false })
+    expect(receiver.received).toHaveLength(0)
+  })
+})
@@ -0,0 +1,76 @@
+// src/lib/webhooks/__tests__/formatters.test.ts
+// Every format pinned without sending anything: JSON is the envelope, the
+// chat formats render the digest's own lines, and nothing in a body can
+// ping a Discord server or break Slack's markup.
+
+import { describe, it, expect } from 'vitest'
+import { formatWebhookBody, describeWebhookEvent } from '../formatters'
+import { formatDigestLine } from '@/lib/notifications/world-digest'
+import type { WebhookEnvelope } from '../events'
+
+const base = {
+  campaign: { id: 'camp1', title: 'The Reach' },
+  occurredAt: '2026-08-25T09:00:00.000Z',
+  url: 'https://mythos.example/campaigns/camp1/story',
+}
+
+const sceneEnded: WebhookEnvelope = { ...base, type: 'SCENE_RESOLVED', data: { sceneId: 's1', sceneNumber: 7 } }
+
+describe('formatWebhookBody — JSON', () => {
+  it('is the envelope with the delivery id', () => {
+    expect(formatWebhookBody('JSON', sceneEnded, 'd1')).toEqual({ id: 'd1', ...sceneEnded })
+  })
+})
+
+describe('formatWebhookBody — DISCORD', () => {
+  it('renders one embed linking back to the app, with mentions disabled', () => {
+    const body = formatWebhookBody('DISCORD', sceneEnded, 'd1') as any
+    expect(body.allowed_mentions).toEqual({ parse: [] })
+    expect(body.embeds).toHaveLength(1)
+    expect(body.embeds[0]).toMatchObject({
+      title: 'Scene 7 has ended',
+      url: base.url,
+      timestamp: base.occurredAt,
+      footer: { text: 'The Reach' },
+    })
+  })
+
+  it('truncates a description past Discord’s limit', () => {
+    const long: WebhookEnvelope = { ...base, type: 'MILESTONE', data: { sceneCount: 10, summary: 'x'.repeat(5000) } }
+    const body = formatWebhookBody('DISCORD', long, 'd1') as any
+    expect(body.embeds[0].description).toHaveLength(4096)
+    expect(body.embeds[0].description.endsWith('…')).toBe(true)
+  })
+})
+
+describe('formatWebhookBody — SLACK', () => {
+  it('escapes Slack control characters in event text', () => {
+    const reminder: WebhookEnvelope = { ...base, type: 'TURN_REMINDER', data: { sceneId: 's1', characterName: 'Ash <&> Vey', minutesRemaining: 1 } }
+    const body = formatWebhookBody('SLACK', reminder, 'd1') as any
+    const text: string = body.blocks[0].text.text
+    expect(text).toContain('Ash &lt;&amp;&gt; Vey')
+    expect(text).toContain('1 minute left')
+    expect(text.startsWith(`*<${base.url}|`)).toBe(true)
+    expect(body.text).toBe("Ash <&> Vey's turn — The Reach")
+  })
+})
+
+describe('describeWebhookEvent', () => {
+  it('sends a world digest’s already-rendered lines as they are', () => {
+    const digest: WebhookEnvelope = { ...base, type: 'WORLD_DIGEST', data: { turnNumber: 4, lines: ['A line.', 'Another.'] } }
+    expect(describeWebhookEvent(digest).lines).toEqual(['A line.', 'Another.'])
+  })
+
+  it('renders a war through the digest’s own line, never naming the other side', () => {
+    const change = { entityType: 'FACTION' as const, entityId: 'f1', entityName: 'Iron Crown', field: 'warDeclared' }
+    const war: WebhookEnvelope = { ...base, type: 'WAR_DECLARED', data: { turnNumber: 5, change } }
+    const { lines } = describeWebhookEvent(war)
+    expect(lines).toEqual([
+      formatDigestLine(
+        { ...change, campaignId: 'camp1', previousValue: '', newValue: '', reason: '', significant: true, importance: 'MAJOR' },
+        5
+      ),
+    ])
+    expect(lines[0]).toContain('Iron Crown')
+  })
+})
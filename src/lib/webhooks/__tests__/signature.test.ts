@@ -0,0 +1,57 @@
+// src/lib/webhooks/__tests__/signature.test.ts
+// The signature a receiver checks: stable for the same input, bound to the
+// timestamp, and refused when stale, tampered or malformed.
+
+import { describe, it, expect } from 'vitest'
+import { createHmac } from 'crypto'
+import { generateWebhookSecret, signWebhookPayload, verifyWebhookSignature, SIGNATURE_TOLERANCE_SECONDS } from '../signature'
+
+const secret = 'whsec_test'
+const body = '{"type":"PING"}'
+const ts = 1_800_000_000
+const nowMs = ts * 1000
+
+describe('signWebhookPayload', () => {
+  it('is HMAC-SHA256 over "timestamp.body", prefixed v1=', () => {
+    const expected = createHmac('sha256', secret).update(`${ts}.${body}`).digest('hex')
+    expect(signWebhookPayload(secret, ts, body)).toBe(`v1=${expected}`)
+  })
+
+  it('changes with the timestamp', () => {
+    expect(signWebhookPayload(secret, ts, body)).not.toBe(signWebhookPayload(secret, ts + 1, body))
+  })
+})
+
+describe('verifyWebhookSignature', () => {
+  const signature = signWebhookPayload(secret, ts, body)
+
+  it('accepts its own signature', () => {
+    expect(verifyWebhookSignature({ secret, body, timestamp: String(ts), signature, nowMs })).toBe(true)
+  })
+
+  it('refuses a tampered body, a wrong secret or a moved timestamp', () => {
+    expect(verifyWebhookSignature({ secret, body: '{"type":"PONG"}', timestamp: String(ts), signature, nowMs })).toBe(false)
+    expect(verifyWebhookSignature({ secret: 'whsec_other', body, timestamp: String(ts), signature, nowMs })).toBe(false)
+    expect(verifyWebhookSignature({ secret, body, timestamp: String(ts + 1), signature, nowMs })).toBe(false)
+  })
+
+  it('refuses a replay outside the tolerance window', () => {
+    const later = nowMs + (SIGNATURE_TOLERANCE_SECONDS + 1) * 1000
+    expect(verifyWebhookSignature({ secret, body, timestamp: String(ts), signature, nowMs: later })).toBe(false)
+  })
+
+  it('returns false rather than throwing on missing or malformed headers', () => {
+    expect(verifyWebhookSignature({ secret, body, timestamp: null, signature, nowMs })).toBe(false)
+    expect(verifyWebhookSignature({ secret, body, timestamp: String(ts), signature: null, nowMs })).toBe(false)
+    expect(verifyWebhookSignature({ secret, body, timestamp: 'soon', signature, nowMs })).toBe(false)
+    expect(verifyWebhookSignature({ secret, body, timestamp: String(ts), signature: 'v1=short', nowMs })).toBe(false)
+  })
+})
+
+describe('generateWebhookSecret', () => {
+  it('is prefixed and unique', () => {
+    const a = generateWebhookSecret()
+    expect(a).toMatch(/^whsec_[0-9a-f]{48}$/)
+    expect(generateWebhookSecret()).not.toBe(a)
+  })
+})
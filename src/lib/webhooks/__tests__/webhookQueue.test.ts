@@ -0,0 +1,219 @@
+// src/lib/webhooks/__tests__/webhookQueue.test.ts
+// The delivery queue's bookkeeping with the HTTP attempt mocked out: who
+// gets a delivery, the atomic claim, backoff between attempts, the dead
+// letter at the end, stall recovery, and requeueing from the admin panel.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    campaignWebhook: { findMany: vi.fn() },
+    webhookDelivery: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn().mockResolvedValue({}),
+      updateMany: vi.fn(),
+    },
+  },
+}))
+vi.mock('@/lib/jobs/kickInternalWorker', () => ({ kickInternalWorker: vi.fn().mockResolvedValue(undefined) }))
+vi.mock('../deliver', () => ({ deliverWebhook: vi.fn() }))
+
+import { prisma } from '@/lib/prisma'
+import { kickInternalWorker } from '@/lib/jobs/kickInternalWorker'
+import { deliverWebhook } from '../deliver'
+import {
+  emitCampaignEvent,
+  processWebhookDelivery,
+  sweepWebhookDeliveries,
+  requeueFailedDeliveries,
+  sendTestPing,
+  retryDelayMs,
+  MAX_ATTEMPTS,
+  RETRY_BASE_MS,
+  RUNNING_STALE_MS,
+  SWEEP_BATCH,
+} from '../webhookQueue'
+
+const db = prisma as any
+const deliver = deliverWebhook as any
+
+const webhook = { url: 'https://hooks.example.com/x', secret: 'whsec_1', format: 'JSON', isActive: true }
+
+function claimedDelivery(attempts: number, overrides: Record<string, unknown> = {}) {
+  return { id: 'd1', attempts, payload: { type: 'SCENE_RESOLVED' }, webhook, ...overrides }
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  db.webhookDelivery.update.mockResolvedValue({})
+  db.webhookDelivery.updateMany.mockResolvedValue({ count: 1 })
+})
+
+describe('retryDelayMs', () => {
+  it('backs off ×4 per failed attempt', () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([RETRY_BASE_MS, RETRY_BASE_MS * 4, RETRY_BASE_MS * 16, RETRY_BASE_MS * 64])
+  })
+})
+
+describe('emitCampaignEvent', () => {
+  const event = { type: 'SCENE_RESOLVED' as const, data: { sceneId: 's1', sceneNumber: 3 } }
+
+  it('does nothing more than one query for a campaign with no subscribed webhooks', async () => {
+    db.campaignWebhook.findMany.mockResolvedValue([])
+    expect(await emitCampaignEvent('camp1', event)).toBe(0)
+    expect(db.campaignWebhook.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { campaignId: 'camp1', isActive: true, events: { has: 'SCENE_RESOLVED' } },
+    }))
+    expect(db.webhookDelivery.create).not.toHaveBeenCalled()
+  })
+
+  it('queues and kicks one delivery per subscribed webhook', async () => {
+    db.campaignWebhook.findMany.mockResolvedValue([
+      { id: 'wh1', campaign: { title: 'The Reach' } },
+      { id: 'wh2', campaign: { title: 'The Reach' } },
+    ])
+    db.webhookDelivery.create.mockResolvedValueOnce({ id: 'd1' }).mockResolvedValueOnce({ id: 'd2' })
+
+    expect(await emitCampaignEvent('camp1', event)).toBe(2)
+    const payload = db.webhookDelivery.create.mock.calls[0][0].data.payload
+    expect(payload).toMatchObject({ type: 'SCENE_RESOLVED', data: event.data, campaign: { id: 'camp1', title: 'The Reach' } })
+    expect(payload.url).toMatch(/\/campaigns\/camp1\/story$/)
+    expect(kickInternalWorker).toHaveBeenCalledWith('/api/internal/deliver-webhook', { deliveryId: 'd1' }, expect.any(Function))
+    expect(kickInternalWorker).toHaveBeenCalledWith('/api/internal/deliver-webhook', { deliveryId: 'd2' }, expect.any(Function))
+  })
+
+  it('swallows a failure rather than failing the game path', async () => {
+    db.campaignWebhook.findMany.mockRejectedValue(new Error('db down'))
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(await emitCampaignEvent('camp1', event)).toBe(0)
+    spy.mockRestore()
+  })
+})
+
+describe('processWebhookDelivery', () => {
+  it('skips a delivery it did not claim — already running, done, or still backing off', async () => {
+    db.webhookDelivery.updateMany.mockResolvedValue({ count: 0 })
+    expect(await processWebhookDelivery('d1')).toEqual({ status: 'skipped' })
+    const claim = db.webhookDelivery.updateMany.mock.calls[0][0]
+    expect(claim.where).toMatchObject({ id: 'd1', status: 'PENDING', nextAttemptAt: { lte: expect.any(Date) } })
+    expect(claim.data).toMatchObject({ status: 'RUNNING', attempts: { increment: 1 } })
+    expect(deliver).not.toHaveBeenCalled()
+  })
+
+  it('marks a landed delivery DELIVERED', async () => {
+    db.webhookDelivery.findUnique.mockResolvedValue(claimedDelivery(1))
+    deliver.mockResolvedValue({ ok: true, status: 204, retryable: false })
+    expect(await processWebhookDelivery('d1')).toEqual({ status: 'delivered' })
+    expect(deliver).toHaveBeenCalledWith(webhook, { type: 'SCENE_RESOLVED' }, 'd1')
+    expect(db.webhookDelivery.update.mock.calls[0][0].data).toMatchObject({ status: 'DELIVERED', responseStatus: 204 })
+  })
+
+  it('schedules a retryable failure after the backoff', async () => {
+    db.webhookDelivery.findUnique.mockResolvedValue(claimedDelivery(2))
+    deliver.mockResolvedValue({ ok: false, status: 503, error: 'Receiver responded 503', retryable: true })
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const before = Date.now()
+
+    expect(await processWebhookDelivery('d1')).toEqual({ status: 'retry_scheduled', error: 'Receiver responded 503' })
+    const data = db.webhookDelivery.update.mock.calls[0][0].data
+    expect(data.status).toBe('PENDING')
+    expect(data.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + retryDelayMs(2))
+    warn.mockRestore()
+  })
+
+  it('dead-letters a standing refusal at once', async () => {
+    db.webhookDelivery.findUnique.mockResolvedValue(claimedDelivery(1))
+    deliver.mockResolvedValue({ ok: false, status: 404, error: 'Receiver responded 404', retryable: false })
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect((await processWebhookDelivery('d1')).status).toBe('failed')
+    expect(db.webhookDelivery.update.mock.calls[0][0].data).toMatchObject({ status: 'FAILED', responseStatus: 404, lastError: 'Receiver responded 404' })
+    warn.mockRestore()
+  })
+
+  it('dead-letters a retryable failure on its last attempt', async () => {
+    db.webhookDelivery.findUnique.mockResolvedValue(claimedDelivery(MAX_ATTEMPTS))
+    deliver.mockResolvedValue({ ok: false, status: 500, error: 'Receiver responded 500', retryable: true })
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect((await processWebhookDelivery('d1')).status).toBe('failed')
+    expect(db.webhookDelivery.update.mock.calls[0][0].data.status).toBe('FAILED')
+    warn.mockRestore()
+  })
+
+  it('fails a delivery whose webhook was paused since it was queued, without sending', async () => {
+    db.webhookDelivery.findUnique.mockResolvedValue(claimedDelivery(1, { webhook: { ...webhook, isActive: false } }))
+    expect(await processWebhookDelivery('d1')).toEqual({ status: 'failed', error: 'Webhook is paused' })
+    expect(deliver).not.toHaveBeenCalled()
+  })
+
+  it('reverts its claim when the read-back fails', async () => {
+    db.webhookDelivery.findUnique.mockRejectedValue(new Error('connection reset'))
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect((await processWebhookDelivery('d1')).status).toBe('retry_scheduled')
+    expect(db.webhookDelivery.update).toHaveBeenCalledWith({ where: { id: 'd1' }, data: { status: 'PENDING' } })
+    spy.mockRestore()
+  })
+})
+
+describe('sweepWebhookDeliveries', () => {
+  it('recovers stalled deliveries, dead-letters spent ones, then attempts what is due', async () => {
+    const now = new Date('2026-08-25T09:00:00Z')
+    db.webhookDelivery.updateMany
+      .mockResolvedValueOnce({ count: 2 }) // recovered
+      .mockResolvedValueOnce({ count: 1 }) // abandoned
+      .mockResolvedValue({ count: 0 }) // every later claim loses
+    db.webhookDelivery.findMany.mockResolvedValue([{ id: 'd1' }, { id: 'd2' }])
+
+    const result = await sweepWebhookDeliveries(now)
+    expect(result).toEqual({ recovered: 2, abandoned: 1, attempted: 0 })
+
+    const staleBefore = new Date(now.getTime() - RUNNING_STALE_MS)
+    expect(db.webhookDelivery.updateMany.mock.calls[0][0].where).toEqual({ status: 'RUNNING', startedAt: { lt: staleBefore }, attempts: { lt: MAX_ATTEMPTS } })
+    expect(db.webhookDelivery.updateMany.mock.calls[1][0].data).toMatchObject({ status: 'FAILED' })
+    expect(db.webhookDelivery.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: SWEEP_BATCH,
+    }))
+  })
+
+  it('never throws', async () => {
+    db.webhookDelivery.updateMany.mockRejectedValue(new Error('db down'))
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    await expect(sweepWebhookDeliveries()).resolves.toEqual({ recovered: 0, abandoned: 0, attempted: 0 })
+    spy.mockRestore()
+  })
+})
+
+describe('requeueFailedDeliveries', () => {
+  it('gives dead letters a fresh set of attempts and kicks them', async () => {
+    db.webhookDelivery.findMany.mockResolvedValue([{ id: 'd1' }, { id: 'd2' }])
+    db.webhookDelivery.updateMany.mockResolvedValue({ count: 2 })
+
+    expect(await requeueFailedDeliveries('wh1')).toBe(2)
+    expect(db.webhookDelivery.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['d1', 'd2'] }, status: 'FAILED' },
+      data: expect.objectContaining({ status: 'PENDING', attempts: 0, lastError: null }),
+    })
+    expect(kickInternalWorker).toHaveBeenCalledTimes(2)
+  })
+
+  it('does nothing when there are no dead letters', async () => {
+    db.webhookDelivery.findMany.mockResolvedValue([])
+    expect(await requeueFailedDeliveries('wh1')).toBe(0)
+    expect(db.webhookDelivery.updateMany).not.toHaveBeenCalled()
+  })
+})
+
+describe('sendTestPing', () => {
+  it('sends a PING inline without queueing it', async () => {
+    deliver.mockResolvedValue({ ok: true, status: 200, retryable: false })
+    const outcome = await sendTestPing({ ...webhook, format: 'DISCORD', campaignId: 'camp1', campaignTitle: 'The Reach' })
+    expect(outcome.ok).toBe(true)
+    const [, envelope, id] = deliver.mock.calls[0]
+    expect(envelope).toMatchObject({ type: 'PING', campaign: { id: 'camp1', title: 'The Reach' } })
+    expect(id).toMatch(/^ping_/)
+    expect(db.webhookDelivery.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,110 @@
+// src/lib/webhooks/__tests__/webhookUrl.test.ts
+// The SSRF guard on webhook targets: literal checks at save time, a DNS
+// check at send time, and the dev-only escape hatch that can't be switched
+// on in production.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('dns/promises', () => {
+  const lookup = vi.fn()
+  return { lookup, default: { lookup } }
+})
+
+import { lookup } from 'dns/promises'
+import { validateWebhookUrl, assertPublicWebhookTarget, allowPrivateWebhookTargets, WebhookTargetError } from '../webhookUrl'
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_TARGETS', '')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('validateWebhookUrl', () => {
+  it('accepts a public https URL', () => {
+    expect(validateWebhookUrl('https://discord.com/api/webhooks/1/abc')).toEqual({ valid: true })
+  })
+
+  it.each([
+    ['not a url', 'URL must be a valid URL'],
+    ['http://hooks.example.com/x', 'URL must use https:'],
+    ['https://user:pw@hooks.example.com/x', 'URL must not contain credentials'],
+    ['https://127.0.0.1/x', 'URL host is not a public address'],
+    ['https://169.254.169.254/latest/meta-data', 'URL host is not a public address'],
+    ['https://10.1.2.3/x', 'URL host is not a public address'],
+    ['https://[::1]/x', 'URL host is not a public address'],
+    ['https://localhost/x', 'URL host is not a public address'],
+    ['https://100.64.0.1/x', 'URL host is not a public address'],
+    // IPv6 literals the URL parser rewrites out of dotted-quad form.
+    ['https://[::ffff:169.254.169.254]/latest/meta-data', 'URL host is not a public address'],
+    ['https://[::ffff:10.0.0.5]/x', 'URL host is not a public address'],
+    ['https://[::169.254.169.254]/x', 'URL host is not a public address'],
+    ['https://[64:ff9b::a9fe:a9fe]/x', 'URL host is not a public address'],
+    ['https://[::]/x', 'URL host is not a public address'],
+    ['https://[fd12:3456::1]/x', 'URL host is not a public address'],
+    ['https://[fe80::1]/x', 'URL host is not a public address'],
+  ])('refuses %s', (url, reason) => {
+    expect(validateWebhookUrl(url)).toEqual({ valid: false, reason })
+  })
+
+  it('refuses an overlong URL', () => {
+    expect(validateWebhookUrl(`https://hooks.example.com/${'a'.repeat(2000)}`).valid).toBe(false)
+  })
+
+  it('lets plain http and loopback through only with the dev flag', () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_TARGETS', 'true')
+    expect(validateWebhookUrl('http://127.0.0.1:4040/webhook')).toEqual({ valid: true })
+  })
+})
+
+describe('allowPrivateWebhookTargets', () => {
+  it('is never on in production', () => {
+    vi.stubEnv('WEBHOOK_ALLOW_PRIVATE_TARGETS', 'true')
+    vi.stubEnv('NODE_ENV', 'production')
+    expect(allowPrivateWebhookTargets()).toBe(false)
+    expect(validateWebhookUrl('http://127.0.0.1:4040/webhook').valid).toBe(false)
+  })
+})
+
+describe('assertPublicWebhookTarget', () => {
+  it('passes a host that resolves only to public addresses', async () => {
+    ;(lookup as any).mockResolvedValue([{ address: '162.159.135.232', family: 4 }])
+    await expect(assertPublicWebhookTarget('https://discord.com/api/webhooks/1/abc')).resolves.toBeUndefined()
+    expect(lookup).toHaveBeenCalledWith('discord.com', { all: true })
+  })
+
+  it('refuses a hostname that resolves to a private address, for good', async () => {
+    ;(lookup as any).mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '::ffff:10.0.0.5', family: 6 },
+    ])
+    const error = await assertPublicWebhookTarget('https://internal.example.com/x').catch((e) => e)
+    expect(error).toBeInstanceOf(WebhookTargetError)
+    expect(error.retryable).toBe(false)
+  })
+
+  it('treats a failed lookup as worth retrying', async () => {
+    ;(lookup as any).mockRejectedValue(new Error('ENOTFOUND'))
+    const error = await assertPublicWebhookTarget('https://hooks.example.com/x').catch((e) => e)
+    expect(error).toBeInstanceOf(WebhookTargetError)
+    expect(error.retryable).toBe(true)
+  })
+
+  it('does not look up an IP literal', async () => {
+    await expect(assertPublicWebhookTarget('https://93.184.216.34/x')).resolves.toBeUndefined()
+    await expect(assertPublicWebhookTarget('https://[2606:4700::1111]/x')).resolves.toBeUndefined()
+    expect(lookup).not.toHaveBeenCalled()
+  })
+
+  it.each(['https://[::ffff:169.254.169.254]/', 'https://[::ffff:10.0.0.5]/', 'https://[::]/'])('refuses the literal %s at send time', async (url) => {
+    await expect(assertPublicWebhookTarget(url)).rejects.toBeInstanceOf(WebhookTargetError)
+    expect(lookup).not.toHaveBeenCalled()
+  })
+
+  it('refuses a hostname that resolves to a carrier-grade NAT address', async () => {
+    ;(lookup as any).mockResolvedValue([{ address: '100.100.100.200', family: 4 }])
+    await expect(assertPublicWebhookTarget('https://hooks.example.com/x')).rejects.toBeInstanceOf(WebhookTargetError)
+  })
+})
@@ -0,0 +1,90 @@
+// src/lib/webhooks/deliver.ts
+// One HTTP attempt at one webhook delivery. Never throws: the outcome says
+// whether it landed and, if not, whether trying again could help — the
+// queue (webhookQueue.ts) owns what happens next.
+
+import type { WebhookFormat } from '@prisma/client'
+import { formatWebhookBody } from './formatters'
+import { signWebhookPayload, WEBHOOK_HEADERS } from './signature'
+import { assertPublicWebhookTarget, WebhookTargetError } from './webhookUrl'
+import type { WebhookEnvelope } from './events'
+
+// A receiver answers a webhook or it doesn't; nothing legitimate needs
+// longer, and this runs inside a worker invocation with its own budget.
+export const DELIVERY_TIMEOUT_MS = 10_000
+
+export interface WebhookTarget {
+  url: string
+  secret: string
+  format: WebhookFormat
+}
+
+export interface DeliveryOutcome {
+  ok: boolean
+  /** The receiver's HTTP status; null when it never answered. */
+  status: number | null
+  error?: string
+  /** Whether a later attempt could go differently. */
+  retryable: boolean
+}
+
+/**
+ * Pure: is a failed response worth retrying? Server errors, timeouts and
+ * rate limits are the receiver's bad moment. Any other 4xx is a standing
+ * answer — a deleted Discord webhook is 404 on every retry — and so is a
+ * redirect, which is never followed (see webhookUrl.ts).
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429
+}
+
+export async function deliverWebhook(target: WebhookTarget, envelope: WebhookEnvelope, deliveryId: string): Promise<DeliveryOutcome> {
+  try {
+    await assertPublicWebhookTarget(target.url)
+  } catch (error) {
+    const targetError = error instanceof WebhookTargetError ? error : new WebhookTargetError('Invalid webhook URL')
+    return { ok: false, status: null, error: targetError.message, retryable: targetError.retryable }
+  }
+
+  const body = JSON.stringify(formatWebhookBody(target.format, envelope, deliveryId))
+  const timestamp = Math.floor(Date.now() / 1000)
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS)
+  try {
+    const response = await fetch(target.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MythOS-Webhooks/1.0',
+        [WEBHOOK_HEADERS.event]: envelope.type,
+        [WEBHOOK_HEADERS.delivery]: deliveryId,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(target.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+    })
+    // Nothing reads the response body; release the connection.
+    await response.body?.cancel().catch(() => {})
+
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, status: response.status, retryable: false }
+    }
+    const error = response.status >= 300 && response.status < 400
+      ? `Receiver redirected (${response.status}); redirects are not followed`
+      : `Receiver responded ${response.status}`
+    return { ok: false, status: response.status, error, retryable: isRetryableStatus(response.status) }
+  } catch (error) {
+    const timedOut = (error as Error)?.name === 'AbortError'
+    return {
+      ok: false,
+      status: null,
+      error: timedOut ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s` : `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+      retryable: true,
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,91 @@
+// src/lib/webhooks/events.ts
+// What a campaign webhook can be told about, and the envelope every
+// delivery carries. The envelope is the JSON format's body as-is and the
+// input the Discord/Slack formatters render from (formatters.ts).
+//
+// Everything in an event's data must already be player-safe: webhooks post
+// to channels the whole table reads, so they get what a player's
+// notification would say and nothing a GM-only surface would. The world
+// events in particular are built from changes that have already passed the
+// digest's discovery gate (world-digest.ts), with the GM-grade `reason` and
+// the counterparty values stripped — see toDigestChangeSummary.
+
+import type { WebhookEventType } from '@prisma/client'
+import type { WorldChange } from '@/lib/game/tick/types'
+
+export const WEBHOOK_EVENT_TYPES = [
+  'SCENE_RESOLVED',
+  'TURN_REMINDER',
+  'WORLD_DIGEST',
+  'WAR_DECLARED',
+  'MILESTONE',
+] as const satisfies readonly WebhookEventType[]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  SCENE_RESOLVED: 'Scene ended',
+  TURN_REMINDER: 'Turn reminders',
+  WORLD_DIGEST: 'World digest',
+  WAR_DECLARED: 'War declared',
+  MILESTONE: 'Campaign milestones',
+}
+
+/**
+ * The part of a WorldChange a webhook may carry. No `reason` (GM-grade),
+ * no previous/new value (for wars and territory those name the other side,
+ * which may be undiscovered) — the same rule the digest's line templates
+ * follow by naming only the changed entity.
+ */
+export interface DigestChangeSummary {
+  entityType: WorldChange['entityType']
+  entityId: string
+  entityName: string
+  field: string
+}
+
+export interface WebhookEventData {
+  SCENE_RESOLVED: { sceneId: string; sceneNumber: number }
+  TURN_REMINDER: { sceneId: string; characterName: string; minutesRemaining: number }
+  WORLD_DIGEST: { turnNumber: number; lines: string[] }
+  WAR_DECLARED: { turnNumber: number; change: DigestChangeSummary }
+  MILESTONE: { sceneCount: number; summary: string }
+}
+
+export type CampaignWebhookEvent = {
+  [K in WebhookEventType]: { type: K; data: WebhookEventData[K] }
+}[WebhookEventType]
+
+/**
+ * What a delivery sends. `PING` is the admin's "send a test" — never
+ * queued or subscribed to, so it isn't a WebhookEventType.
+ */
+export type WebhookEnvelope = (CampaignWebhookEvent | { type: 'PING'; data: Record<string, never> }) & {
+  campaign: { id: string; title: string }
+  occurredAt: string
+  /** Where in the app this event can be seen. */
+  url: string
+}
+
+export function toDigestChangeSummary(change: WorldChange): DigestChangeSummary {
+  return {
+    entityType: change.entityType,
+    entityId: change.entityId,
+    entityName: change.entityName,
+    field: change.field,
+  }
+}
+
+/** The in-app page each event links to — the same ones its notification uses. */
+export function eventPath(campaignId: string, type: WebhookEnvelope['type']): string {
+  switch (type) {
+    case 'SCENE_RESOLVED':
+    case 'TURN_REMINDER':
+      return `/campaigns/${campaignId}/story`
+    case 'WORLD_DIGEST':
+    case 'WAR_DECLARED':
+      return `/campaigns/${campaignId}/wiki?type=RUMORS`
+    case 'MILESTONE':
+      return `/campaigns/${campaignId}/story-log`
+    case 'PING':
+      return `/campaigns/${campaignId}`
+  }
+}
@@ -0,0 +1,119 @@
+// src/lib/webhooks/formatters.ts
+// Turns a webhook envelope into the request body its endpoint expects:
+// the envelope itself for JSON, an embed for a Discord incoming webhook,
+// Block Kit for a Slack one. Pure, so every format is pinned in tests
+// without sending anything.
+//
+// The world lines are the digest's own: WORLD_DIGEST carries the lines
+// sendWorldDigest already rendered for the notification, and WAR_DECLARED
+// renders its one change through formatDigestLine — so a channel reads the
+// same "word on the street" the players' inboxes do, not a third phrasing.
+
+import type { WebhookFormat } from '@prisma/client'
+import { formatDigestLine, titleForDigestChange } from '@/lib/notifications/world-digest'
+import type { WorldChange } from '@/lib/game/tick/types'
+import type { DigestChangeSummary, WebhookEnvelope } from './events'
+
+// Discord's embed limits; past them the whole message is rejected.
+const DISCORD_TITLE_MAX = 256
+const DISCORD_DESCRIPTION_MAX = 4096
+// Slack's section text limit.
+const SLACK_TEXT_MAX = 3000
+
+const DISCORD_COLOR: Record<WebhookEnvelope['type'], number> = {
+  SCENE_RESOLVED: 0xc9a227,
+  TURN_REMINDER: 0x4a90d9,
+  WORLD_DIGEST: 0x7a6a9e,
+  WAR_DECLARED: 0xb33a3a,
+  MILESTONE: 0xd4af37,
+  PING: 0x5c8a5c,
+}
+
+/**
+ * formatDigestLine wants a whole WorldChange; a summary has only what's
+ * safe to send. The blanked fields are exactly the ones the war and
+ * territory templates are written never to read.
+ */
+function asWorldChange(change: DigestChangeSummary, campaignId: string): WorldChange {
+  return {
+    ...change,
+    campaignId,
+    previousValue: '',
+    newValue: '',
+    reason: '',
+    significant: true,
+    importance: 'MAJOR',
+  }
+}
+
+/** A headline and body lines for an event — the part every chat format shares. */
+export function describeWebhookEvent(envelope: WebhookEnvelope): { title: string; lines: string[] } {
+  switch (envelope.type) {
+    case 'SCENE_RESOLVED':
+      return { title: `Scene ${envelope.data.sceneNumber} has ended`, lines: [] }
+    case 'TURN_REMINDER': {
+      const { characterName, minutesRemaining } = envelope.data
+      return {
+        title: `${characterName}'s turn`,
+        lines: [`The scene is waiting on ${characterName} — ${minutesRemaining} minute${minutesRemaining === 1 ? '' : 's'} left to act.`],
+      }
+    }
+    case 'WORLD_DIGEST':
+      return { title: 'Word on the street…', lines: envelope.data.lines }
+    case 'WAR_DECLARED': {
+      const change = asWorldChange(envelope.data.change, envelope.campaign.id)
+      return { title: titleForDigestChange(change), lines: [formatDigestLine(change, envelope.data.turnNumber)] }
+    }
+    case 'MILESTONE':
+      return { title: `Milestone: ${envelope.data.sceneCount} scenes chronicled`, lines: [envelope.data.summary] }
+    case 'PING':
+      return { title: 'Webhook connected', lines: [`This endpoint will now hear about ${envelope.campaign.title}.`] }
+  }
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`
+}
+
+/** Slack treats &, < and > as control characters in mrkdwn. */
+function slackEscape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function formatWebhookBody(format: WebhookFormat, envelope: WebhookEnvelope, deliveryId: string): Record<string, unknown> {
+  if (format === 'JSON') {
+    return { id: deliveryId, ...envelope }
+  }
+
+  const { title, lines } = describeWebhookEvent(envelope)
+
+  if (format === 'DISCORD') {
+    return {
+      username: 'MythOS',
+      // AI-written text goes into these; an "@everyone" in a milestone
+      // recap must not ping a whole server.
+      allowed_mentions: { parse: [] },
+      embeds: [
+        {
+          title: truncate(title, DISCORD_TITLE_MAX),
+          description: lines.length > 0 ? truncate(lines.join('\n'), DISCORD_DESCRIPTION_MAX) : undefined,
+          url: envelope.url,
+          color: DISCORD_COLOR[envelope.type],
+          timestamp: envelope.occurredAt,
+          footer: { text: truncate(envelope.campaign.title, DISCORD_TITLE_MAX) },
+        },
+      ],
+    }
+  }
+
+  const heading = `*<${envelope.url}|${slackEscape(title)}>*`
+  const text = truncate([heading, ...lines.map(slackEscape)].join('\n'), SLACK_TEXT_MAX)
+  return {
+    // Shown in notifications and by clients that don't render blocks.
+    text: `${title} — ${envelope.campaign.title}`,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text } },
+      { type: 'context', elements: [{ type: 'mrkdwn', text: slackEscape(envelope.campaign.title) }] },
+    ],
+  }
+}
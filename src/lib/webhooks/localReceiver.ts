@@ -0,0 +1,90 @@
+// src/lib/webhooks/localReceiver.ts
+// A throwaway HTTP server that accepts webhook deliveries and checks their
+// signatures — the other end of deliver.ts, for testing a webhook without
+// a Discord server or a public URL. The delivery tests run real requests
+// against it, and scripts/webhook-receiver.ts wraps it for a developer
+// pointing a campaign's webhook at their own machine (which needs
+// WEBHOOK_ALLOW_PRIVATE_TARGETS=true; see webhookUrl.ts).
+
+import { createServer, type IncomingHttpHeaders } from 'http'
+import type { AddressInfo } from 'net'
+import { verifyWebhookSignature, WEBHOOK_HEADERS } from './signature'
+
+export interface ReceivedWebhook {
+  headers: IncomingHttpHeaders
+  body: string
+  /** The parsed body, or null if it wasn't JSON. */
+  json: unknown
+  /** Whether the signature checked out against the receiver's secret. */
+  verified: boolean
+}
+
+export interface WebhookReceiver {
+  url: string
+  received: ReceivedWebhook[]
+  close(): Promise<void>
+}
+
+export interface WebhookReceiverOptions {
+  secret: string
+  port?: number
+  host?: string
+  /**
+   * Status to answer the nth request (0-based) with — lets a test play a
+   * receiver that's down for a while. Defaults to 204 for a verified
+   * request and 401 for one that isn't.
+   */
+  respondWith?: (request: ReceivedWebhook, index: number) => number
+  onReceive?: (request: ReceivedWebhook) => void
+}
+
+export async function startWebhookReceiver(options: WebhookReceiverOptions): Promise<WebhookReceiver> {
+  const { secret, port = 0, host = '127.0.0.1', respondWith, onReceive } = options
+  const received: ReceivedWebhook[] = []
+
+  const header = (headers: IncomingHttpHeaders, name: string): string | null => {
+    const value = headers[name.toLowerCase()]
+    return typeof value === 'string' ? value : null
+  }
+
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = []
+    request.on('data', (chunk: Buffer) => chunks.push(chunk))
+    request.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8')
+      let json: unknown = null
+      try {
+        json = JSON.parse(body)
+      } catch {
+        // left null
+      }
+      const entry: ReceivedWebhook = {
+        headers: request.headers,
+        body,
+        json,
+        verified: verifyWebhookSignature({
+          secret,
+          body,
+          timestamp: header(request.headers, WEBHOOK_HEADERS.timestamp),
+          signature: header(request.headers, WEBHOOK_HEADERS.signature),
+        }),
+      }
+      const index = received.push(entry) - 1
+      onReceive?.(entry)
+      response.statusCode = respondWith ? respondWith(entry, index) : entry.verified ? 204 : 401
+      response.end()
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, host, () => resolve())
+  })
+  const address = server.address() as AddressInfo
+
+  return {
+    url: `http://${host}:${address.port}/webhook`,
+    received,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  }
+}
@@ -0,0 +1,54 @@
+// src/lib/webhooks/signature.ts
+// HMAC signing for outbound webhook requests. The receiver recomputes
+// HMAC-SHA256(secret, `${timestamp}.${body}`) and compares it to the
+// X-Mythos-Signature header; the timestamp is inside the MAC so a captured
+// request can't be replayed later with a fresh header, and the receiver
+// rejects one whose timestamp is too old.
+//
+// Discord and Slack ignore these headers — their URLs are the credential —
+// but every format is signed the same way, so a relay in front of either
+// can still check what it forwards.
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+export const WEBHOOK_HEADERS = {
+  signature: 'X-Mythos-Signature',
+  timestamp: 'X-Mythos-Timestamp',
+  event: 'X-Mythos-Event',
+  delivery: 'X-Mythos-Delivery',
+} as const
+
+/** How old a signed request may be before a receiver should refuse it. */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
+
+/** The X-Mythos-Signature value for `body` sent at `timestamp` (unix seconds). */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const mac = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `v1=${mac}`
+}
+
+/**
+ * The receiver's side of signWebhookPayload — exported for the local test
+ * receiver (localReceiver.ts) and for anyone writing their own. Constant
+ * time, and false rather than a throw for anything malformed.
+ */
+export function verifyWebhookSignature(params: {
+  secret: string
+  body: string
+  timestamp: string | null
+  signature: string | null
+  nowMs?: number
+  toleranceSeconds?: number
+}): boolean {
+  const { secret, body, timestamp, signature, nowMs = Date.now(), toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS } = params
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false
+  if (Math.abs(nowMs / 1000 - Number(timestamp)) > toleranceSeconds) return false
+
+  const expected = Buffer.from(signWebhookPayload(secret, Number(timestamp), body))
+  const given = Buffer.from(signature)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
@@ -0,0 +1,53 @@
+// src/lib/webhooks/webhookConfig.ts
+// What the admin routes under /api/campaigns/[id]/webhooks share: the body
+// schemas, the columns a read may return (never the secret), and the
+// per-campaign cap.
+
+import { z } from 'zod'
+import { WEBHOOK_EVENT_TYPES } from './events'
+import { validateWebhookUrl } from './webhookUrl'
+
+// Every endpoint is another request per event; a campaign needs a channel
+// or two, not a fan-out.
+export const MAX_WEBHOOKS_PER_CAMPAIGN = 5
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .superRefine((url, ctx) => {
+    const validation = validateWebhookUrl(url)
+    if (!validation.valid) ctx.addIssue({ code: z.ZodIssueCode.custom, message: validation.reason ?? 'Invalid URL' })
+  })
+
+const eventsSchema = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES))
+  .min(1, 'Pick at least one event')
+  .transform((events) => Array.from(new Set(events)))
+
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  format: z.enum(['JSON', 'DISCORD', 'SLACK']).default('JSON'),
+  events: eventsSchema,
+})
+
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    format: z.enum(['JSON', 'DISCORD', 'SLACK']).optional(),
+    events: eventsSchema.optional(),
+    isActive: z.boolean().optional(),
+    // Issue a new signing secret; the old one stops verifying at once.
+    rotateSecret: z.literal(true).optional(),
+  })
+  .refine((body) => Object.keys(body).length > 0, { message: 'Nothing to update' })
+
+/** Everything a read returns. The secret is shown once, by the write that made it. */
+export const WEBHOOK_PUBLIC_SELECT = {
+  id: true,
+  url: true,
+  format: true,
+  events: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
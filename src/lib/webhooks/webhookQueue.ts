@@ -0,0 +1,255 @@
+// src/lib/webhooks/webhookQueue.ts
+// Outbound campaign webhooks: each campaign event becomes one
+// WebhookDelivery per active endpoint subscribed to it, handed to its own
+// invocation (the internal deliver-webhook route) so no game path ever
+// waits on a stranger's server, and retried with backoff until it lands or
+// runs out of attempts.
+//
+// Same shape as resolutionQueue.ts — atomic PENDING → RUNNING claim,
+// attempts counted at claim time, PENDING again while attempts remain and
+// FAILED after — with one difference that matters: a failed attempt isn't
+// retryable straight away. The receiver just told us it's down, so the
+// delivery waits out nextAttemptAt (RETRY_BASE_MS, ×4 per attempt) before
+// anything can claim it. A FAILED delivery is the dead letter: kept, shown
+// in the admin's panel with its last error, and requeued from there.
+//
+// Retries are driven by traffic like every other queue here: each worker
+// invocation sweeps whatever else is due after its own delivery, and the
+// daily cron sweeps once more for campaigns that have gone quiet.
+//
+// Emitting is best-effort end to end. emitCampaignEvent never throws, and
+// a campaign with no webhooks pays one indexed query per event.
+
+import { randomUUID } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getAppUrl } from '@/lib/appUrl'
+import { kickInternalWorker } from '@/lib/jobs/kickInternalWorker'
+import { deliverWebhook, type DeliveryOutcome, type WebhookTarget } from './deliver'
+import { eventPath, type CampaignWebhookEvent, type WebhookEnvelope } from './events'
+
+export const MAX_ATTEMPTS = 5
+// 30s, 2m, 8m, 32m between the five attempts: long enough for a receiver
+// mid-deploy to come back, short enough that a digest still reads as news.
+export const RETRY_BASE_MS = 30 * 1000
+// A delivery is one request with a 10s timeout (deliver.ts); RUNNING for
+// this long means the invocation running it died.
+export const RUNNING_STALE_MS = 2 * 60 * 1000
+// How many due deliveries one sweep works through. Each is up to one
+// DELIVERY_TIMEOUT_MS, and the sweep runs inside a worker route's budget.
+export const SWEEP_BATCH = 5
+// Dead letters requeued per click, so one requeue can't fan out into
+// hundreds of worker invocations.
+export const REQUEUE_BATCH = 50
+
+export interface ProcessResult {
+  status: 'delivered' | 'failed' | 'retry_scheduled' | 'skipped'
+  error?: string
+}
+
+export interface WebhookSweepResult {
+  /** Stale RUNNING deliveries returned to PENDING. */
+  recovered: number
+  /** Stale RUNNING deliveries out of attempts, now dead letters. */
+  abandoned: number
+  /** Due deliveries attempted this sweep. */
+  attempted: number
+}
+
+/** Pure: how long to wait before the next attempt, after `attempts` have failed. */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * 4 ** Math.max(0, attempts - 1)
+}
+
+/**
+ * Queue `event` for every active webhook on the campaign subscribed to its
+ * type, and kick each delivery. Returns how many were queued; 0 on any
+ * failure, which is logged and swallowed — a scene must never fail to end
+ * because a Discord channel was unreachable.
+ */
+export async function emitCampaignEvent(campaignId: string, event: CampaignWebhookEvent): Promise<number> {
+  try {
+    const webhooks = await prisma.campaignWebhook.findMany({
+      where: { campaignId, isActive: true, events: { has: event.type } },
+      select: { id: true, campaign: { select: { title: true } } },
+    })
+    if (webhooks.length === 0) return 0
+
+    const envelope = {
+      ...event,
+      campaign: { id: campaignId, title: webhooks[0].campaign.title },
+      occurredAt: new Date().toISOString(),
+      url: `${getAppUrl()}${eventPath(campaignId, event.type)}`,
+    } as WebhookEnvelope
+
+    const deliveries = await Promise.all(
+      webhooks.map((webhook) =>
+        prisma.webhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            campaignId,
+            eventType: event.type,
+            payload: envelope as unknown as Prisma.InputJsonValue,
+          },
+          select: { id: true },
+        })
+      )
+    )
+    await Promise.all(deliveries.map((delivery) => kickWebhookDelivery(delivery.id)))
+    return deliveries.length
+  } catch (error) {
+    console.error(`Webhook emit failed for ${event.type} (non-critical):`, error)
+    return 0
+  }
+}
+
+/**
+ * Hand one delivery to the internal worker route. A failed hand-off falls
+ * back to processing inline, as resolutionQueue.kickJob does (#120).
+ */
+export async function kickWebhookDelivery(deliveryId: string): Promise<void> {
+  await kickInternalWorker('/api/internal/deliver-webhook', { deliveryId }, () => processWebhookDelivery(deliveryId))
+}
+
+/**
+ * Make one attempt at a delivery. Safe to call from anywhere, any number of
+ * times: only a caller that wins the claim sends anything, and a delivery
+ * still backing off can't be claimed at all.
+ *
+ * A dead letter is not sent to reportError, unlike a failed resolution
+ * job: the endpoint belongs to the campaign's admin, whose panel shows it,
+ * and an operator alert for someone's deleted Discord channel is noise.
+ */
+export async function processWebhookDelivery(deliveryId: string): Promise<ProcessResult> {
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+    data: { status: 'RUNNING', startedAt: new Date(), attempts: { increment: 1 } },
+  })
+  if (claimed.count === 0) {
+    return { status: 'skipped' }
+  }
+
+  // Same stranded-claim guard as processResolutionJob (#120).
+  let delivery: Prisma.WebhookDeliveryGetPayload<{ include: { webhook: { select: { url: true; secret: true; format: true; isActive: true } } } }> | null
+  try {
+    delivery = await prisma.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: { select: { url: true, secret: true, format: true, isActive: true } } },
+    })
+  } catch (error) {
+    console.error(`Failed to read back claimed webhook delivery ${deliveryId}:`, error)
+    await prisma.webhookDelivery.update({ where: { id: deliveryId }, data: { status: 'PENDING' } }).catch(e => console.error('Failed to revert stranded claim:', e))
+    return { status: 'retry_scheduled', error: error instanceof Error ? error.message : String(error) }
+  }
+  if (!delivery) return { status: 'skipped' }
+
+  if (!delivery.webhook.isActive) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'FAILED', lastError: 'Webhook is paused', finishedAt: new Date() },
+    }).catch(e => console.error('Failed to record webhook delivery failure:', e))
+    return { status: 'failed', error: 'Webhook is paused' }
+  }
+
+  const outcome = await deliverWebhook(delivery.webhook, delivery.payload as unknown as WebhookEnvelope, deliveryId)
+
+  if (outcome.ok) {
+    await prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'DELIVERED', responseStatus: outcome.status, lastError: null, finishedAt: new Date() },
+    }).catch(e => console.error('Failed to record webhook delivery:', e))
+    return { status: 'delivered' }
+  }
+
+  const message = outcome.error ?? 'Delivery failed'
+  const retryable = outcome.retryable && delivery.attempts < MAX_ATTEMPTS
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: retryable ? 'PENDING' : 'FAILED',
+      responseStatus: outcome.status,
+      lastError: message.slice(0, 1000),
+      ...(retryable
+        ? { nextAttemptAt: new Date(Date.now() + retryDelayMs(delivery.attempts)) }
+        : { finishedAt: new Date() }),
+    },
+  }).catch(e => console.error('Failed to record webhook delivery failure:', e))
+  console.warn(`Webhook delivery ${deliveryId} attempt ${delivery.attempts} failed: ${message}`)
+  return retryable ? { status: 'retry_scheduled', error: message } : { status: 'failed', error: message }
+}
+
+/**
+ * Global retry pass: return deliveries whose invocation died to PENDING (or
+ * dead-letter them if that was their last attempt), then attempt up to
+ * SWEEP_BATCH due ones, oldest first. Sequential — each waits on a
+ * stranger's server. Never throws.
+ */
+export async function sweepWebhookDeliveries(now: Date = new Date()): Promise<WebhookSweepResult> {
+  const result: WebhookSweepResult = { recovered: 0, abandoned: 0, attempted: 0 }
+  try {
+    const staleBefore = new Date(now.getTime() - RUNNING_STALE_MS)
+    const recovered = await prisma.webhookDelivery.updateMany({
+      where: { status: 'RUNNING', startedAt: { lt: staleBefore }, attempts: { lt: MAX_ATTEMPTS } },
+      data: { status: 'PENDING', nextAttemptAt: now },
+    })
+    const abandoned = await prisma.webhookDelivery.updateMany({
+      where: { status: 'RUNNING', startedAt: { lt: staleBefore }, attempts: { gte: MAX_ATTEMPTS } },
+      data: { status: 'FAILED', finishedAt: now, lastError: 'Abandoned after repeated stalls' },
+    })
+    result.recovered = recovered.count
+    result.abandoned = abandoned.count
+
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: SWEEP_BATCH,
+      select: { id: true },
+    })
+    for (const delivery of due) {
+      const outcome = await processWebhookDelivery(delivery.id)
+      if (outcome.status !== 'skipped') result.attempted++
+    }
+  } catch (error) {
+    console.error('Webhook delivery sweep failed (non-critical):', error)
+  }
+  return result
+}
+
+/**
+ * Put up to REQUEUE_BATCH of a webhook's dead letters back in the queue
+ * with a fresh set of attempts, and kick them. Returns how many.
+ */
+export async function requeueFailedDeliveries(webhookId: string): Promise<number> {
+  const failed = await prisma.webhookDelivery.findMany({
+    where: { webhookId, status: 'FAILED' },
+    orderBy: { createdAt: 'asc' },
+    take: REQUEUE_BATCH,
+    select: { id: true },
+  })
+  if (failed.length === 0) return 0
+
+  const ids = failed.map((d) => d.id)
+  const requeued = await prisma.webhookDelivery.updateMany({
+    where: { id: { in: ids }, status: 'FAILED' },
+    data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date(), lastError: null, startedAt: null, finishedAt: null },
+  })
+  await Promise.all(ids.map((id) => kickWebhookDelivery(id)))
+  return requeued.count
+}
+
+/**
+ * The admin's "send a test": one signed PING, sent inline and not
+ * recorded, so the answer comes back in the same request.
+ */
+export async function sendTestPing(
+  webhook: WebhookTarget & { campaignId: string; campaignTitle: string }
+): Promise<DeliveryOutcome> {
+  const envelope: WebhookEnvelope = {
+    type: 'PING',
+    data: {},
+    campaign: { id: webhook.campaignId, title: webhook.campaignTitle },
+    occurredAt: new Date().toISOString(),
+    url: `${getAppUrl()}${eventPath(webhook.campaignId, 'PING')}`,
+  }
+  return deliverWebhook(webhook, envelope, `ping_${randomUUID()}`)
+}
@@ -0,0 +1,133 @@
+// src/lib/webhooks/webhookUrl.ts
+// SSRF guard for webhook targets. A webhook URL is a server-side request
+// target typed in by a campaign admin — any signed-up user can create a
+// campaign — so it gets the same treatment #303 gave push endpoints, minus
+// the host allowlist (a webhook may legitimately point anywhere public):
+//
+//   - at save time, validateWebhookUrl: https only, no credentials in the
+//     URL, and no private/loopback/metadata IP literal;
+//   - at send time, assertPublicWebhookTarget: the hostname is resolved and
+//     refused if any address it resolves to is private. This is the
+//     "async lookup at send time" layer pushEndpointValidation.ts leaves
+//     out; without it `internal.example.com → 10.0.0.5` walks straight past
+//     a literal-only check. Redirects aren't followed either (deliver.ts),
+//     which would otherwise be a second way round it.
+//
+// WEBHOOK_ALLOW_PRIVATE_TARGETS=true switches both off outside production,
+// so a developer can point a webhook at the local receiver
+// (scripts/webhook-receiver.ts) over plain http.
+
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+import { isPrivateOrLoopbackHost } from '@/lib/notifications/pushEndpointValidation'
+
+const MAX_URL_LENGTH = 2000
+
+export class WebhookTargetError extends Error {
+  /** True when the same URL may pass later — a lookup that failed, not one that answered private. */
+  constructor(message: string, readonly retryable = false) {
+    super(message)
+    this.name = 'WebhookTargetError'
+  }
+}
+
+export function allowPrivateWebhookTargets(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true' && process.env.NODE_ENV !== 'production'
+}
+
+// Every range a webhook may not reach, matched by address rather than by
+// spelling: the URL parser rewrites `[::ffff:169.254.169.254]` to
+// `::ffff:a9fe:a9fe`, which no prefix or dotted-quad pattern recognises.
+// The IPv6 ranges that embed an IPv4 address (mapped, compatible, NAT64)
+// are refused whole — a webhook target has no reason to use one. Two
+// lists, because a BlockList checks an IPv4 address against its IPv6
+// rules as the mapped form, and `::ffff:0:0/96` would then refuse them all.
+const BLOCKED_IPV4 = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this network"
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, incl. cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.168.0.0', 16], // private
+] as const) {
+  BLOCKED_IPV4.addSubnet(network, prefix, 'ipv4')
+}
+const BLOCKED_IPV6 = new BlockList()
+for (const [network, prefix] of [
+  ['::', 96], // unspecified, loopback and IPv4-compatible
+  ['::ffff:0:0', 96], // IPv4-mapped
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+] as const) {
+  BLOCKED_IPV6.addSubnet(network, prefix, 'ipv6')
+}
+
+function isPrivateAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 4) return BLOCKED_IPV4.check(address, 'ipv4')
+  if (family === 6) return BLOCKED_IPV6.check(address, 'ipv6')
+  // Not an IP literal: only a name like `localhost` can be refused unresolved.
+  return isPrivateOrLoopbackHost(address)
+}
+
+export interface WebhookUrlValidation {
+  valid: boolean
+  reason?: string
+}
+
+export function validateWebhookUrl(raw: string): WebhookUrlValidation {
+  if (raw.length > MAX_URL_LENGTH) {
+    return { valid: false, reason: 'URL is too long' }
+  }
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    return { valid: false, reason: 'URL must be a valid URL' }
+  }
+
+  const allowPrivate = allowPrivateWebhookTargets()
+  if (url.protocol !== 'https:' && !(allowPrivate && url.protocol === 'http:')) {
+    return { valid: false, reason: 'URL must use https:' }
+  }
+  if (url.username || url.password) {
+    return { valid: false, reason: 'URL must not contain credentials' }
+  }
+  if (!allowPrivate && isPrivateAddress(url.hostname.replace(/^\[|\]$/g, ''))) {
+    return { valid: false, reason: 'URL host is not a public address' }
+  }
+  return { valid: true }
+}
+
+/**
+ * Throws WebhookTargetError unless `raw` is valid and its host resolves
+ * only to public addresses. There is still a window between this lookup
+ * and the connection the fetch makes; closing it needs a pinned-address
+ * agent, which is more than a best-effort notification channel warrants.
+ */
+export async function assertPublicWebhookTarget(raw: string): Promise<void> {
+  const validation = validateWebhookUrl(raw)
+  if (!validation.valid) throw new WebhookTargetError(validation.reason ?? 'Invalid webhook URL')
+  if (allowPrivateWebhookTargets()) return
+
+  const hostname = new URL(raw).hostname.replace(/^\[|\]$/g, '')
+  if (isIP(hostname)) {
+    // Nothing to resolve, but checked here too rather than trusted to the
+    // validation above: this is the check that runs at send time.
+    if (isPrivateAddress(hostname)) throw new WebhookTargetError(`${hostname} is not a public address`)
+    return
+  }
+
+  let addresses: Array<{ address: string }>
+  try {
+    addresses = await lookup(hostname, { all: true })
+  } catch {
+    throw new WebhookTargetError(`Could not resolve ${hostname}`, true)
+  }
+  if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new WebhookTargetError(`${hostname} does not resolve to a public address`)
+  }
+}
@@ -24,6 +24,16 @@ export interface AuthResponse {
   }
 }
 
+/**
+ * What login returns instead of AuthResponse when the account has 2FA on:
+ * the password was right, and challengeToken is what /api/auth/login/2fa
+ * takes alongside a code. It is not a session token.
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true
+  challengeToken: string
+}
+
 // ============================================
 // PLAYER ACTIONS
 // ============================================